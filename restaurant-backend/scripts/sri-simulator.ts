@@ -0,0 +1,42 @@
+/**
+ * Simulador local del SRI (recepción y autorización offline)
+ *
+ * Levanta los web services RecepcionComprobantesOffline y
+ * AutorizacionComprobantesOffline para facturar sin conexión al SRI y
+ * reproducir rechazos de forma determinista. El backend lo usa cuando
+ * SRI_SIMULATOR_URL apunta a este servidor (nunca con NODE_ENV=production).
+ *
+ * Usage:
+ *   npx ts-node scripts/sri-simulator.ts            (puerto 4010)
+ *   SRI_SIMULATOR_PORT=4020 npx ts-node scripts/sri-simulator.ts
+ *
+ * Control:
+ *   PUT  /simulator/scenario      {"authorization":"NO AUTORIZADO","errorCode":"52"}
+ *   PUT  /simulator/scenario      {"accessKey":"...","reception":"DEVUELTA","errorCode":"45"}
+ *   PUT  /simulator/availability  {"available":false}   (HTTP 500 como una caída del SRI)
+ *   GET  /simulator/documents
+ *   POST /simulator/reset
+ */
+
+import { SRISimulator } from '../src/infrastructure/services/sri/simulator';
+
+async function main() {
+    const port = parseInt(process.env.SRI_SIMULATOR_PORT || '4010', 10);
+    const simulator = new SRISimulator();
+    const url = await simulator.start(port, process.env.SRI_SIMULATOR_HOST || '127.0.0.1');
+
+    console.log(`🧪 SRI simulator running at ${url}`);
+    console.log(`   Backend: SRI_SIMULATOR_URL=${url}`);
+
+    const shutdown = async () => {
+        await simulator.stop();
+        process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+    console.error('❌ Could not start SRI simulator:', error);
+    process.exit(1);
+});
@@ -5,10 +5,14 @@ export interface EmailSendResult {
     success: boolean;
     error?: string;
     messageId?: string;
+    /** Proveedor que hizo el envío (resend, smtp, noop) */
+    provider?: string;
 }
 
 export interface IEmailService {
     sendInvoiceEmail(to: string, invoice: Invoice, pdfBuffer: Buffer, xmlContent?: string): Promise<EmailSendResult>;
     sendCreditNoteEmail(to: string, creditNote: CreditNote, pdfBuffer: Buffer, xmlContent?: string): Promise<EmailSendResult>;
     sendPasswordResetEmail?(to: string, userName: string, resetUrl: string): Promise<EmailSendResult>;
+    /** Código de un solo uso del portal público de facturas */
+    sendPortalCodeEmail?(to: string, code: string, expiresInMinutes: number): Promise<EmailSendResult>;
 }
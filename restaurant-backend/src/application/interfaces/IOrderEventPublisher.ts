@@ -0,0 +1,29 @@
+import { Order } from '../../domain/entities/Order';
+
+/**
+ * Eventos del ciclo de vida de un pedido que se difunden en tiempo real
+ * a todos los dispositivos conectados (POS, cocina, móvil).
+ */
+export type OrderEventType =
+    | 'order:created'
+    | 'order:updated'
+    | 'order:item-prepared'
+    | 'order:ready'
+    | 'order:completed'
+    | 'order:cancelled'
+    | 'order:deleted';
+
+export interface OrderEvent {
+    /** Secuencia monótona asignada por el servidor (orden de aplicación en el cliente) */
+    seq: number;
+    type: OrderEventType;
+    orderId: string;
+    /** Pedido completo tras el cambio (ausente en order:deleted) */
+    order?: Order;
+    /** ISO timestamp de emisión, usado por el cliente para pedir eventos perdidos */
+    timestamp: string;
+}
+
+export interface IOrderEventPublisher {
+    publish(type: OrderEventType, orderId: string, order?: Order): void;
+}
@@ -0,0 +1,9 @@
+import { Ingredient } from '../../domain/entities/Ingredient';
+
+/**
+ * Aviso al personal cuando un ingrediente llega a su stock mínimo
+ * (implementado con Web Push; en tests se reemplaza por un mock).
+ */
+export interface IStockAlertNotifier {
+    notifyLowStock(ingredients: Ingredient[]): Promise<void>;
+}
@@ -2,6 +2,8 @@ import mongoose from 'mongoose';
 import { ValidationError } from '../../domain/errors/CustomErrors';
 import { RestaurantConfig } from '../../domain/entities/RestaurantConfig';
 import { ICustomerRepository } from '../../domain/repositories/ICustomerRepository';
+import { describeOrderItem } from '../../domain/menu/modifiers';
+import { SRI_IVA_CODES, TaxRatePeriod, codeForRate } from '../../domain/billing/taxRates';
 import { logger } from '../../infrastructure/utils/Logger';
 
 export interface TaxDetail {
@@ -22,6 +24,7 @@ export interface BillingDetail {
     // Campos para PDF: precios ORIGINALES con IVA incluido
     price?: number;
     total?: number;
+    discountAmount?: number; // Descuento con IVA incluido (RIDE y factura guardada)
     impuestos: TaxDetail[];
 }
 
@@ -52,7 +55,10 @@ export class BillingService {
         return (sanitized || `ITEM-${index + 1}`).substring(0, 25);
     }
 
-    public calculateDetails(items: any[], taxRate: number = 15): BillingDetail[] {
+    /**
+     * @param taxSchedule tabla de tarifas de la configuración: de ella sale el codigoPorcentaje
+     */
+    public calculateDetails(items: any[], taxRate: number = 15, taxSchedule?: TaxRatePeriod[]): BillingDetail[] {
         // 1. Calculate individual items and accumulate totals
         let totalSubtotalSum = 0;
         let totalTaxSum = 0;
@@ -67,6 +73,8 @@ export class BillingService {
             let subtotalRounded: number;
             let taxValueRounded: number;
             let totalInclusive: number;
+            let discountRounded = 0;
+            let grossSubtotal: number;
 
             // If an explicit total (inclusive) is provided, we derive the subtotal (Total-driven)
             if (item.total !== undefined && item.total !== null) {
@@ -80,12 +88,24 @@ export class BillingService {
                     subtotalRounded = parseFloat(rawSubtotal.toFixed(2));
                     taxValueRounded = parseFloat((totalInclusive - subtotalRounded).toFixed(2));
                 }
+
+                // Descuento (con IVA, ya restado de item.total): el SRI lo pide sin IVA y
+                // el precio unitario antes del descuento — cantidad × precio − descuento = base
+                grossSubtotal = subtotalRounded;
+                if (item.discountAmount > 0) {
+                    const grossInclusive = totalInclusive + item.discountAmount;
+                    grossSubtotal = itemTaxRate === 0
+                        ? parseFloat(grossInclusive.toFixed(2))
+                        : parseFloat((grossInclusive / (1 + rateDecimal)).toFixed(2));
+                    discountRounded = parseFloat((grossSubtotal - subtotalRounded).toFixed(2));
+                }
             } else {
                 // Otherwise, we assume the price is the SUB-TOTAL (Price-driven/Exclusive)
                 const rawSubtotal = (item.price || 0) * quantity;
                 subtotalRounded = parseFloat(rawSubtotal.toFixed(2));
                 taxValueRounded = parseFloat((subtotalRounded * rateDecimal).toFixed(2));
                 totalInclusive = subtotalRounded + taxValueRounded;
+                grossSubtotal = subtotalRounded;
             }
 
             totalSubtotalSum += subtotalRounded;
@@ -94,17 +114,21 @@ export class BillingService {
 
             return {
                 codigoPrincipal: this.buildItemCode(item, index),
-                descripcion: item.name,
+                // Con modificadores: "Ceviche (Grande, + Chifles, sin cebolla)"
+                descripcion: describeOrderItem(item),
                 cantidad: quantity,
-                precioUnitario: parseFloat((subtotalRounded / quantity).toFixed(6)),
-                descuento: 0,
+                precioUnitario: parseFloat((grossSubtotal / quantity).toFixed(6)),
+                descuento: discountRounded,
                 precioTotalSinImpuesto: subtotalRounded,
                 // Campos para PDF: precios ORIGINALES con IVA incluido
-                price: item.price || parseFloat((totalInclusive / quantity).toFixed(2)),
+                price: item.discountAmount > 0
+                    ? parseFloat(((totalInclusive + item.discountAmount) / quantity).toFixed(2))
+                    : item.price || parseFloat((totalInclusive / quantity).toFixed(2)),
                 total: totalInclusive,
+                discountAmount: item.discountAmount > 0 ? item.discountAmount : undefined,
                 impuestos: [{
                     codigo: '2',
-                    codigoPorcentaje: this.getTaxCode(itemTaxRate),
+                    codigoPorcentaje: this.getTaxCode(itemTaxRate, taxSchedule),
                     tarifa: itemTaxRate,
                     baseImponible: subtotalRounded,
                     valor: taxValueRounded
@@ -128,7 +152,7 @@ export class BillingService {
                 group.items.push(items[idx]);
 
                 // Calcular el total inclusivo del item original
-                const itemTotal = items[idx].total || ((items[idx].price || 0) * (items[idx].quantity || 1));
+                const itemTotal = items[idx].total ?? ((items[idx].price || 0) * (items[idx].quantity || 1));
                 group.totalInclusive += itemTotal;
             });
 
@@ -153,10 +177,10 @@ export class BillingService {
                     const lastItem = group.items[group.items.length - 1];
 
                     lastDetail.precioTotalSinImpuesto = parseFloat((lastDetail.precioTotalSinImpuesto + difference).toFixed(2));
-                    lastDetail.precioUnitario = parseFloat((lastDetail.precioTotalSinImpuesto / lastDetail.cantidad).toFixed(6));
+                    lastDetail.precioUnitario = parseFloat(((lastDetail.precioTotalSinImpuesto + lastDetail.descuento) / lastDetail.cantidad).toFixed(6));
 
                     // Recalcular IVA del último item
-                    const lastItemTotal = lastItem.total || ((lastItem.price || 0) * (lastItem.quantity || 1));
+                    const lastItemTotal = lastItem.total ?? ((lastItem.price || 0) * (lastItem.quantity || 1));
                     const newTaxValue = rate === 0 ? 0 : parseFloat((lastItemTotal - lastDetail.precioTotalSinImpuesto).toFixed(2));
 
                     lastDetail.impuestos[0].baseImponible = lastDetail.precioTotalSinImpuesto;
@@ -172,13 +196,16 @@ export class BillingService {
 
     /**
      * Maps tax rate to SRI tax code
+     * La tabla de tarifas (si se pasa) manda: cada tramo trae su codigoPorcentaje
      */
-    public getTaxCode(taxRate: number): string {
+    public getTaxCode(taxRate: number, taxSchedule?: TaxRatePeriod[]): string {
+        const scheduled = taxSchedule ? codeForRate(taxRate, taxSchedule) : undefined;
+        if (scheduled) return scheduled;
         if (taxRate === 15) return '4';
         if (taxRate === 12) return '2';
         if (taxRate === 10) return '3';
         if (taxRate === 5) return '5';
-        return '0';
+        return SRI_IVA_CODES[taxRate] ?? '0';
     }
 
     /**
@@ -0,0 +1,63 @@
+/**
+ * @file DiscountAuthorizer.ts
+ * @description Decide quién autoriza los descuentos nuevos de un pedido
+ *
+ * @purpose
+ * Un descuento nuevo o modificado lo autoriza quien guarda el pedido si su rol
+ * lo permite. Si no, un gerente lo aprueba en el POS con su usuario y contraseña
+ * (AuthorizeDiscount) y el pedido llega con esa aprobación firmada: el descuento
+ * queda a nombre del gerente, no del cajero que lo cargó.
+ *
+ * @connections
+ * - Usa: IEmployeeRepository, IRoleRepository (domain/repositories)
+ * - Usa: JWTService (infrastructure/utils) - aprobaciones firmadas
+ * - Usado por: CreateOrder, UpdateOrder, AuthorizeDiscount (application/use-cases)
+ *
+ * @layer Application - Servicio
+ */
+
+import { Employee } from '../../domain/entities/Employee';
+import { IEmployeeRepository } from '../../domain/repositories/IEmployeeRepository';
+import { IRoleRepository } from '../../domain/repositories/IRoleRepository';
+import { ForbiddenError } from '../../domain/errors/CustomErrors';
+import { JWTService } from '../../infrastructure/utils/JWTService';
+
+/** Permiso del rol para autorizar descuentos (el Administrador siempre puede) */
+export const DISCOUNT_PERMISSION = 'discounts';
+
+export class DiscountAuthorizer {
+    constructor(
+        private employeeRepository: IEmployeeRepository,
+        private roleRepository: IRoleRepository
+    ) { }
+
+    /** El rol del empleado le permite autorizar descuentos */
+    async canAuthorize(employee: Employee): Promise<boolean> {
+        const role = employee.roleId ? await this.roleRepository.findById(employee.roleId) : null;
+        return role?.name === 'Administrador' || role?.permissions?.[DISCOUNT_PERMISSION] === true;
+    }
+
+    /**
+     * @param editor usuario que guarda el pedido
+     * @param authorization aprobación firmada de un gerente (AuthorizeDiscount)
+     * @returns usuario que autoriza los descuentos nuevos
+     * @throws ForbiddenError si la aprobación venció o quien autoriza no tiene el permiso
+     */
+    async resolve(editor: string | undefined, authorization?: string | null): Promise<string> {
+        let authorizer = editor;
+        if (authorization) {
+            const approvedBy = JWTService.verifyDiscountAuthorization(authorization);
+            if (!approvedBy) {
+                throw new ForbiddenError('La autorización del descuento venció: pida otra vez la clave del gerente');
+            }
+            authorizer = approvedBy;
+        }
+
+        // El permiso se revisa al guardar: un rol que lo perdió ya no autoriza
+        const employee = authorizer ? await this.employeeRepository.findByUsername(authorizer) : null;
+        if (!employee || !(await this.canAuthorize(employee))) {
+            throw new ForbiddenError('Los descuentos requieren la autorización de un gerente');
+        }
+        return employee.username;
+    }
+}
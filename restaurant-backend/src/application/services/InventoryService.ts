@@ -0,0 +1,179 @@
+/**
+ * @file InventoryService.ts
+ * @description Descuento automático de ingredientes y kardex
+ *
+ * @purpose
+ * Mantiene el stock de ingredientes al día con los pedidos: descuenta las recetas
+ * al crear (o al completar, según RestaurantConfig.inventoryDeductOn), ajusta la
+ * diferencia cuando se edita un pedido y devuelve al stock lo cancelado o anulado
+ * con nota de crédito. Cada cambio queda como movimiento en el kardex y, si un
+ * ingrediente cruza su mínimo, se avisa al personal.
+ *
+ * @connections
+ * - Usa: IIngredientRepository, IStockMovementRepository, IMenuRepository,
+ *        IRestaurantConfigRepository, IOrderRepository (domain/repositories)
+ * - Usa: computeConsumption, diffConsumption, crossedLowStock (domain/inventory/stock)
+ * - Usa: IStockAlertNotifier (application/interfaces) - alerta de stock bajo
+ * - Usado por: CreateOrder, UpdateOrder, CancelOrder, DeleteOrder (application/use-cases)
+ * - Usado por: GenerateInvoice, CheckInvoiceStatus, GenerateCreditNote, CheckCreditNoteStatus
+ * - Usado por: RecordStockMovement (application/use-cases/inventory)
+ *
+ * @layer Application - Servicio
+ */
+
+import { Ingredient, IngredientQuantity, StockMovement, StockMovementReference, StockMovementType } from '../../domain/entities/Ingredient';
+import { Order, OrderItem, OrderStatus } from '../../domain/entities/Order';
+import { IIngredientRepository } from '../../domain/repositories/IIngredientRepository';
+import { IStockMovementRepository } from '../../domain/repositories/IStockMovementRepository';
+import { IMenuRepository } from '../../domain/repositories/IMenuRepository';
+import { IRestaurantConfigRepository } from '../../domain/repositories/IRestaurantConfigRepository';
+import { IOrderRepository } from '../../domain/repositories/IOrderRepository';
+import { computeConsumption, crossedLowStock, diffConsumption, roundQuantity } from '../../domain/inventory/stock';
+import { IStockAlertNotifier } from '../interfaces/IStockAlertNotifier';
+import { logger } from '../../infrastructure/utils/Logger';
+
+/** Cambio de stock a aplicar: positivo entra, negativo sale */
+export interface StockChange {
+    ingredientId: string;
+    change: number;
+}
+
+export interface StockMovementMeta {
+    /** Sin tipo: 'sale' si sale del stock, 'reversal' si vuelve */
+    type?: StockMovementType;
+    reference?: StockMovementReference;
+    reason?: string;
+    by?: string | null;
+}
+
+export class InventoryService {
+    constructor(
+        private ingredientRepository: IIngredientRepository,
+        private movementRepository: IStockMovementRepository,
+        private menuRepository: IMenuRepository,
+        private configRepository: IRestaurantConfigRepository,
+        private orderRepository: IOrderRepository,
+        private alertNotifier?: IStockAlertNotifier
+    ) { }
+
+    /**
+     * Deja el descuento del pedido igual a lo que corresponde según su estado e
+     * ítems actuales. Solo mueve la diferencia con lo ya descontado, así que se
+     * puede llamar en cada cambio del pedido.
+     *
+     * El inventario nunca bloquea la venta: un error aquí se registra y el
+     * pedido sigue su curso.
+     */
+    async syncOrder(order: Order, by?: string | null): Promise<void> {
+        try {
+            const target = await this.holdsStock(order) ? await this.consumptionOf(order.items) : [];
+            await this.moveOrderStock(order, target, by);
+        } catch (error) {
+            logger.warn('Could not sync order stock', { orderId: order.id, error: (error as Error).message });
+        }
+    }
+
+    /** Devuelve al stock todo lo descontado por el pedido (cancelación, eliminación) */
+    async releaseOrder(order: Order, by?: string | null): Promise<void> {
+        try {
+            await this.moveOrderStock(order, [], by);
+        } catch (error) {
+            logger.warn('Could not release order stock', { orderId: order.id, error: (error as Error).message });
+        }
+    }
+
+    /**
+     * Devuelve al stock los ítems anulados por una nota de crédito autorizada.
+     * Una misma nota de crédito solo devuelve una vez (el SRI puede confirmarla
+     * tanto al emitir como en una verificación posterior).
+     */
+    async restockCreditNote(
+        creditNote: { id: string; documentNumber?: string },
+        items: Pick<OrderItem, 'name' | 'quantity'>[],
+        by?: string | null
+    ): Promise<void> {
+        try {
+            const reference: StockMovementReference = { kind: 'creditNote', id: creditNote.id, label: creditNote.documentNumber };
+            if (await this.movementRepository.existsForReference(reference)) return;
+
+            const consumption = await this.consumptionOf(items);
+            await this.applyChanges(
+                consumption.map(line => ({ ingredientId: line.ingredientId, change: line.quantity })),
+                { type: 'reversal', reference, reason: 'Nota de crédito', by }
+            );
+        } catch (error) {
+            logger.warn('Could not restock credit note', { creditNoteId: creditNote.id, error: (error as Error).message });
+        }
+    }
+
+    /**
+     * Aplica cambios de stock ($inc atómico), los registra en el kardex y avisa
+     * de los ingredientes que acaban de quedar bajo su mínimo.
+     * Los ingredientes que ya no existen se omiten.
+     */
+    async applyChanges(changes: StockChange[], meta: StockMovementMeta): Promise<StockMovement[]> {
+        const now = new Date();
+        const movements: Omit<StockMovement, 'id'>[] = [];
+        const lowStock: Ingredient[] = [];
+
+        for (const { ingredientId, change } of changes) {
+            if (change === 0) continue;
+            const ingredient = await this.ingredientRepository.adjustStock(ingredientId, change);
+            if (!ingredient) {
+                logger.warn('Stock change skipped: ingredient not found', { ingredientId });
+                continue;
+            }
+
+            const stockAfter = roundQuantity(ingredient.stock);
+            movements.push({
+                ingredientId,
+                ingredientName: ingredient.name,
+                unit: ingredient.unit,
+                type: meta.type || (change < 0 ? 'sale' : 'reversal'),
+                quantity: roundQuantity(change),
+                stockAfter,
+                reference: meta.reference || null,
+                reason: meta.reason,
+                createdBy: meta.by || null,
+                createdAt: now
+            });
+
+            if (crossedLowStock(stockAfter - change, { stock: stockAfter, minStock: ingredient.minStock })) {
+                lowStock.push({ ...ingredient, stock: stockAfter });
+            }
+        }
+
+        const saved = await this.movementRepository.createMany(movements);
+
+        if (lowStock.length > 0 && this.alertNotifier) {
+            this.alertNotifier.notifyLowStock(lowStock).catch(error =>
+                logger.warn('Low stock alert failed', { error: (error as Error).message })
+            );
+        }
+
+        return saved;
+    }
+
+    /** Un pedido retiene stock si no está cancelado y ya llegó al momento de descontar */
+    private async holdsStock(order: Order): Promise<boolean> {
+        if (order.status === OrderStatus.Cancelled) return false;
+        const config = await this.configRepository.get();
+        return (config?.inventoryDeductOn || 'created') === 'created' || order.status === OrderStatus.Completed;
+    }
+
+    private async consumptionOf(items: Pick<OrderItem, 'name' | 'quantity'>[]): Promise<IngredientQuantity[]> {
+        const menuItems = await this.menuRepository.findAll();
+        return computeConsumption(items, menuItems);
+    }
+
+    private async moveOrderStock(order: Order, target: IngredientQuantity[], by?: string | null): Promise<void> {
+        const deltas = diffConsumption(order.stockDeduction, target);
+        if (deltas.length === 0) return;
+
+        await this.applyChanges(
+            deltas.map(d => ({ ingredientId: d.ingredientId, change: -d.delta })),
+            { reference: { kind: 'order', id: order.id, label: order.orderNumber ? `#${order.orderNumber}` : undefined }, by }
+        );
+        await this.orderRepository.update(order.id, { stockDeduction: target });
+    }
+}
@@ -0,0 +1,45 @@
+/**
+ * @file KitchenStationRouter.ts
+ * @description Enruta los ítems de un pedido a su estación de cocina
+ *
+ * @purpose
+ * Al crear o editar un pedido, estampa en cada ítem nuevo la estación que lo
+ * prepara (la del plato o la de su categoría). El ítem conserva la estación
+ * aunque luego se reconfigure el menú.
+ *
+ * @connections
+ * - Usa: IMenuRepository, IRestaurantConfigRepository (domain/repositories)
+ * - Usa: assignStations (domain/kitchen/stations)
+ * - Usado por: CreateOrder, UpdateOrder (application/use-cases)
+ *
+ * @layer Application - Servicio
+ */
+
+import { OrderItem } from '../../domain/entities/Order';
+import { IMenuRepository } from '../../domain/repositories/IMenuRepository';
+import { IRestaurantConfigRepository } from '../../domain/repositories/IRestaurantConfigRepository';
+import { assignStations } from '../../domain/kitchen/stations';
+import { logger } from '../../infrastructure/utils/Logger';
+
+export class KitchenStationRouter {
+    constructor(
+        private menuRepository: IMenuRepository,
+        private configRepository: IRestaurantConfigRepository
+    ) { }
+
+    async route(items: OrderItem[]): Promise<OrderItem[]> {
+        if (!items?.some(item => item.station === undefined)) return items;
+
+        try {
+            const [menuItems, config] = await Promise.all([
+                this.menuRepository.findAllWithCategory(),
+                this.configRepository.get()
+            ]);
+            return assignStations(items, menuItems, config?.kitchenStations || []);
+        } catch (error) {
+            // Sin enrutamiento el pedido igual entra a cocina (estación general)
+            logger.warn('Could not route order items to kitchen stations', { error: (error as Error).message });
+            return items;
+        }
+    }
+}
@@ -0,0 +1,107 @@
+/**
+ * @file billInvoice.ts
+ * @description Reconstruye el comprobante (Invoice) de una factura guardada
+ *
+ * @purpose
+ * Reimpresiones, descargas, reenvíos al SRI y emails regeneran el XML y el RIDE
+ * desde la factura guardada. Cada ítem guardado tiene la tarifa con que se emitió:
+ * la tabla de tarifas no se vuelve a aplicar (eso solo lo hace GenerateInvoice).
+ * De la tabla solo se toman los tramos que ya regían el día de la factura, para
+ * el codigoPorcentaje y la tarifa general — así el documento regenerado es el que
+ * se envió al SRI aunque después se programen tarifas nuevas.
+ *
+ * @connections
+ * - Usado por: BillController, CheckInvoiceStatus, GetInvoiceDocument (comprobante completo);
+ *   GenerateCreditNote, CheckCreditNoteStatus, GetCreditNoteDocument (detalles de la factura original)
+ * - Usa: BillingService, domain/billing (taxRates, payments, discounts)
+ *
+ * @layer Application - Servicio
+ */
+
+import { Bill } from '../../domain/entities/Bill';
+import { RestaurantConfig } from '../../domain/entities/RestaurantConfig';
+import { Invoice } from '../../domain/billing/invoice';
+import { toInvoicePayments } from '../../domain/billing/payments';
+import { totalDiscount } from '../../domain/billing/discounts';
+import { TaxRatePeriod, taxPeriodOn, taxScheduleOf, taxScheduleUntil } from '../../domain/billing/taxRates';
+import { CONSUMIDOR_FINAL_RUC } from '../../config/billing.constants';
+import { BillingDetail, BillingService } from './BillingService';
+
+export interface BillDetails {
+    details: BillingDetail[];
+    taxRate: number; // Tarifa general vigente el día de la factura
+    taxSchedule: TaxRatePeriod[];
+}
+
+/** Detalles de una factura guardada con la tarifa de cada ítem al emitirla */
+export function billDetails(
+    billingService: BillingService,
+    bill: Pick<Bill, 'items' | 'date'>,
+    billing: RestaurantConfig['billing'] | null | undefined
+): BillDetails {
+    const emittedAt = bill.date ? new Date(bill.date) : new Date();
+    const taxSchedule = taxScheduleUntil(taxScheduleOf(billing), emittedAt);
+    // Solo los ítems sin tarifa guardada (facturas antiguas) usan la general del día
+    const taxRate = taxPeriodOn(taxSchedule, emittedAt).rate;
+    return { details: billingService.calculateDetails(bill.items, taxRate, taxSchedule), taxRate, taxSchedule };
+}
+
+/**
+ * Comprobante de una factura guardada, con los datos del emisor de la configuración actual.
+ * @param environment ambiente con que se emitió (o se reenvía) la factura
+ */
+export function billToInvoice(
+    billingService: BillingService,
+    bill: Bill,
+    config: RestaurantConfig | null | undefined,
+    environment: '1' | '2'
+): Invoice {
+    const info = config || {} as any;
+    const [estab, ptoEmi, secuencial] = bill.documentNumber.split('-');
+    const { details, taxRate } = billDetails(billingService, bill, info.billing);
+
+    return {
+        orderId: bill.orderId,
+        orderIds: bill.orderIds,
+        status: bill.sriStatus === 'AUTORIZADO' ? 'AUTHORIZED' : 'PENDING',
+        creationDate: new Date(bill.date),
+        authorizationDate: bill.authorizationDate,
+        detalles: details,
+        info: {
+            ambiente: environment,
+            tipoEmision: '1',
+            razonSocial: info.businessName || process.env.BUSINESS_NAME || 'RESTAURANTE DEMO',
+            nombreComercial: info.name || process.env.COMMERCIAL_NAME,
+            ruc: info.ruc || process.env.RUC || '0000000000001',
+            claveAcceso: bill.accessKey,
+            codDoc: '01',
+            estab,
+            ptoEmi,
+            secuencial,
+            dirMatriz: info.fiscalAddress || info.address || process.env.DIR_MATRIZ || 'Direccion Matriz',
+            dirEstablecimiento: info.fiscalAddress || info.address || process.env.DIR_ESTABLECIMIENTO || process.env.DIR_MATRIZ,
+            // Fecha original de la factura (la misma de la clave de acceso), nunca la de hoy
+            fechaEmision: billingService.formatDateToSRI(bill.date),
+            obligadoContabilidad: info.obligadoContabilidad ? 'SI' : 'NO',
+            tipoIdentificacionComprador: billingService.getIdentificacionType(bill.customerIdentification),
+            razonSocialComprador: bill.customerIdentification === CONSUMIDOR_FINAL_RUC ? 'CONSUMIDOR FINAL' : bill.customerName,
+            identificacionComprador: bill.customerIdentification,
+            direccionComprador: bill.customerAddress,
+            totalSinImpuestos: bill.subtotal,
+            totalDescuento: totalDiscount(details),
+            totalImpuestos: [],
+            propina: bill.tip?.amount,
+            importeTotal: bill.total,
+            moneda: 'DOLAR',
+            formaPago: billingService.getPaymentMethodCode(bill.paymentMethod || '01'),
+            pagos: bill.payments?.length ? toInvoicePayments(bill.payments) : undefined,
+            emailComprador: bill.customerEmail,
+            logoUrl: billingService.getLogoUrl(info),
+            emailMatriz: info.fiscalEmail || info.email || process.env.SMTP_FROM || 'info@restaurant.com',
+            telefonoComprador: bill.customerPhone || 'S/N',
+            tasaIva: taxRate.toString(),
+            regime: info.billing?.regime,
+            agenteRetencion: info.billing?.agenteRetencion
+        }
+    };
+}
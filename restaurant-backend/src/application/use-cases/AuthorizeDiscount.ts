@@ -0,0 +1,60 @@
+/**
+ * @file AuthorizeDiscount.ts
+ * @description Caso de uso para que un gerente apruebe descuentos desde el POS
+ *
+ * @purpose
+ * El cajero sin permiso de descuentos pide al gerente su usuario y contraseña.
+ * Si son correctos y su rol lo permite, devuelve una aprobación firmada que el
+ * POS envía con el pedido (discountAuthorization): así la contraseña no viaja
+ * con el pedido ni queda en la cola sin conexión.
+ *
+ * @connections
+ * - Usa: IEmployeeRepository (domain/repositories)
+ * - Usa: DiscountAuthorizer (application/services) - permiso del rol
+ * - Usa: JWTService (infrastructure/utils)
+ * - Usado por: OrderController (POST /api/orders/discount-authorization)
+ * - Inyectado por: OrderModule (infrastructure/di/modules)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import bcrypt from 'bcryptjs';
+import { IEmployeeRepository } from '../../domain/repositories/IEmployeeRepository';
+import { ForbiddenError } from '../../domain/errors/CustomErrors';
+import { DiscountAuthorizer } from '../services/DiscountAuthorizer';
+import { JWTService } from '../../infrastructure/utils/JWTService';
+import { logger } from '../../infrastructure/utils/Logger';
+
+export interface DiscountAuthorizationResult {
+    authorizedBy: string;
+    /** Aprobación firmada para enviar con el pedido */
+    authorization: string;
+}
+
+export class AuthorizeDiscount {
+    constructor(
+        private employeeRepository: IEmployeeRepository,
+        private discountAuthorizer: DiscountAuthorizer
+    ) { }
+
+    /**
+     * @throws ForbiddenError si las credenciales no son válidas o el rol no autoriza descuentos
+     */
+    async execute(username: string, password: string, requestedBy?: string): Promise<DiscountAuthorizationResult> {
+        const employee = username ? await this.employeeRepository.findByUsername(String(username).trim()) : null;
+        const validPassword = !!employee?.password && !!password && await bcrypt.compare(String(password), employee.password);
+        if (!employee || !validPassword) {
+            logger.warn('Discount authorization with invalid credentials', { username, requestedBy });
+            throw new ForbiddenError('Usuario o contraseña del gerente incorrectos');
+        }
+        if (!(await this.discountAuthorizer.canAuthorize(employee))) {
+            throw new ForbiddenError(`${employee.username} no tiene permiso para autorizar descuentos`);
+        }
+
+        logger.info('Discount authorized by manager', { authorizedBy: employee.username, requestedBy });
+        return {
+            authorizedBy: employee.username,
+            authorization: JWTService.generateDiscountAuthorization(employee.username)
+        };
+    }
+}
@@ -0,0 +1,78 @@
+/**
+ * @file CancelOrder.ts
+ * @description Caso de uso para cancelar un pedido
+ *
+ * @purpose
+ * Cancela un pedido sin borrarlo: queda en el historial con el motivo, el usuario
+ * y la fecha, y cuenta en las estadísticas de cancelaciones. Un pedido ya
+ * facturado no se cancela (se anula con nota de crédito).
+ *
+ * @connections
+ * - Usa: IOrderRepository (domain/repositories)
+ * - Usa: withStatusChange (domain/orders/lifecycle)
+ * - Usa: IOrderEventPublisher (application/interfaces) - notifica order:cancelled
+ * - Usa: InventoryService (application/services) - devuelve los ingredientes al stock
+ * - Usado por: OrderController (infrastructure/controllers)
+ * - Inyectado por: OrderModule (infrastructure/di/modules)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { IOrderRepository } from '../../domain/repositories/IOrderRepository';
+import { Order, OrderStatus } from '../../domain/entities/Order';
+import { NotFoundError, ValidationError } from '../../domain/errors/CustomErrors';
+import { isPartInvoiced } from '../../domain/billing/splitBill';
+import { withStatusChange } from '../../domain/orders/lifecycle';
+import { IOrderEventPublisher } from '../interfaces/IOrderEventPublisher';
+import { InventoryService } from '../services/InventoryService';
+
+const MIN_REASON_LENGTH = 3;
+const MAX_REASON_LENGTH = 300;
+
+export class CancelOrder {
+    constructor(
+        private orderRepository: IOrderRepository,
+        private eventPublisher?: IOrderEventPublisher,
+        private inventoryService?: InventoryService
+    ) { }
+
+    async execute(id: string, reason: string, cancelledBy: string): Promise<Order> {
+        const cleanReason = String(reason || '').trim();
+        if (cleanReason.length < MIN_REASON_LENGTH) {
+            throw new ValidationError('El motivo de la cancelación es obligatorio');
+        }
+        if (cleanReason.length > MAX_REASON_LENGTH) {
+            throw new ValidationError(`El motivo no puede superar ${MAX_REASON_LENGTH} caracteres`);
+        }
+        if (!cancelledBy) {
+            throw new ValidationError('No se pudo identificar al usuario que cancela');
+        }
+
+        const order = await this.orderRepository.findById(id);
+        if (!order) {
+            throw new NotFoundError(`Order with ID ${id} not found`, 'Order');
+        }
+        if (order.status === OrderStatus.Cancelled) {
+            throw new ValidationError('El pedido ya está cancelado');
+        }
+        if (order.billed || order.status === OrderStatus.Completed) {
+            throw new ValidationError('El pedido ya fue facturado: anúlalo con una nota de crédito');
+        }
+        if (order.splitBilling?.parts.some(isPartInvoiced)) {
+            throw new ValidationError('El pedido tiene partes ya facturadas: no se puede cancelar');
+        }
+
+        const at = new Date();
+        const updated = await this.orderRepository.update(id, {
+            ...withStatusChange(order, OrderStatus.Cancelled, cancelledBy, cleanReason),
+            cancellation: { reason: cleanReason, by: cancelledBy, at }
+        });
+        if (!updated) {
+            throw new NotFoundError(`Order with ID ${id} not found`, 'Order');
+        }
+
+        this.eventPublisher?.publish('order:cancelled', updated.id, updated);
+        await this.inventoryService?.releaseOrder(updated, cancelledBy);
+        return updated;
+    }
+}
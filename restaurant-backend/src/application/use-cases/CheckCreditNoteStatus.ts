@@ -5,8 +5,13 @@ import { IBillRepository } from '../../domain/repositories/IBillRepository';
 import { PDFService } from '../../infrastructure/services/PDFService';
 import { IEmailService } from '../interfaces/IEmailService';
 import { CreditNote as BillingCreditNote } from '../../domain/billing/creditNote';
+import { totalDiscount } from '../../domain/billing/discounts';
+import { printLayoutOf } from '../../domain/billing/printLayout';
 import { BillingService } from '../services/BillingService';
+import { billDetails } from '../services/billInvoice';
+import { InventoryService } from '../services/InventoryService';
 import { logger, maskAccessKey } from '../../infrastructure/utils/Logger';
+import { deliveryFromResult } from '../../domain/billing/emailDelivery';
 
 export class CheckCreditNoteStatus {
     constructor(
@@ -16,7 +21,8 @@ export class CheckCreditNoteStatus {
         private sriService: SRIService,
         private pdfService: PDFService,
         private emailService: IEmailService,
-        private billingService: BillingService
+        private billingService: BillingService,
+        private inventoryService?: InventoryService
     ) { }
 
     async execute(accessKey: string): Promise<any> {
@@ -169,8 +175,11 @@ export class CheckCreditNoteStatus {
                             const updatedNC = await this.creditNoteRepository.findById(creditNote.id);
                             if (updatedNC) {
                                 const billingNC = this.mapToBillingCreditNote(updatedNC, config, originalBill, authResult.fechaAutorizacion);
-                                const pdfBuffer = await this.pdfService.generateCreditNotePDF(billingNC);
-                                await this.emailService.sendCreditNoteEmail(updatedNC.customerEmail!, billingNC, pdfBuffer);
+                                const pdfBuffer = await this.pdfService.generateCreditNotePDF(billingNC, printLayoutOf(config.billing));
+                                const emailResult = await this.emailService.sendCreditNoteEmail(updatedNC.customerEmail!, billingNC, pdfBuffer);
+                                await this.creditNoteRepository.setEmailDelivery(
+                                    updatedNC.id, deliveryFromResult(updatedNC.customerEmail!, emailResult, updatedNC.emailDelivery)
+                                );
                             }
                         }
                     } catch (emailError) {
@@ -184,6 +193,8 @@ export class CheckCreditNoteStatus {
                     sriStatus: 'CANCELLED',
                     hasCreditNote: true
                 } as any);
+
+                await this.inventoryService?.restockCreditNote(creditNote, creditNote.items);
             }
 
             return {
@@ -206,14 +217,13 @@ export class CheckCreditNoteStatus {
     private mapToBillingCreditNote(entity: any, config: any, originalBill: any, authDate?: string): BillingCreditNote {
         const [estab, ptoEmi, secuencial] = entity.documentNumber.split('-');
         const info: any = config || {};
-        // FIX M-01: Use dynamic tax rate from config instead of hardcoded 15%
-        const taxRate = info.billing?.taxRate || 15;
 
         // CRITICAL: Recalcular los detalles desde los ítems de la factura original con
-        // calculateDetails — EXACTAMENTE el mismo camino que la emisión (GenerateCreditNote).
+        // billDetails — EXACTAMENTE el mismo camino que la emisión (GenerateCreditNote),
+        // con la tarifa de IVA vigente el día de la factura.
         // El cálculo manual anterior (quantity × price) no aplicaba el penny adjustment
         // y podía reintroducir el error SRI 52 "ERROR EN DIFERENCIAS" en los reintentos.
-        const details = this.billingService.calculateDetails(originalBill.items, taxRate);
+        const { details } = billDetails(this.billingService, originalBill, info.billing);
         const subtotal = details.reduce((sum, d) => sum + d.precioTotalSinImpuesto, 0);
         const totalImpuestos = details.reduce((sum, d) => sum + d.impuestos[0].valor, 0);
         const total = subtotal + totalImpuestos;
@@ -245,7 +255,7 @@ export class CheckCreditNoteStatus {
                 identificacionComprador: entity.customerIdentification,
                 motivo: entity.reasonDescription || entity.reason,
                 totalSinImpuestos: subtotal,
-                totalDescuento: 0,
+                totalDescuento: totalDiscount(details),
                 totalImpuestos: [],
                 importeTotal: total,
                 moneda: 'DOLAR',
@@ -7,8 +7,12 @@ import { IBillRepository } from '../../domain/repositories/IBillRepository';
 import { IOrderRepository } from '../../domain/repositories/IOrderRepository';
 
 import { BillingService } from '../services/BillingService';
+import { billToInvoice } from '../services/billInvoice';
+import { InventoryService } from '../services/InventoryService';
 import { OrderStatus } from '../../domain/entities/Order';
+import { printLayoutOf } from '../../domain/billing/printLayout';
 import { logger, maskAccessKey } from '../../infrastructure/utils/Logger';
+import { EmailDelivery, deliveryFromResult, skippedDelivery, toEmailStatus } from '../../domain/billing/emailDelivery';
 
 export class CheckInvoiceStatus {
     constructor(
@@ -18,7 +22,8 @@ export class CheckInvoiceStatus {
         private sriService: SRIService,
         private pdfService: PDFService,
         private emailService: IEmailService,
-        private billingService: BillingService
+        private billingService: BillingService,
+        private inventoryService?: InventoryService
     ) { }
 
     async execute(accessKey: string, isProd: boolean): Promise<any> {
@@ -103,48 +108,14 @@ export class CheckInvoiceStatus {
 
                     const nextRetryCount = newRetryCount;
 
-                    // Reconstruct Invoice Object
+                    // Reconstruct Invoice Object (mismo mapeo y tarifa del día de emisión que GenerateInvoice)
                     const config = await this.configRepository.get();
-                    const info = config || {} as any;
-                    const [estab, ptoEmi, secuencial] = fullBill.documentNumber.split('-');
-
-                    // Reconstruct Details (Logic mirrors GenerateInvoice)
-                    const details = this.billingService.calculateDetails(fullBill.items);
-
-                    const invoiceToResend: any = {
-                        info: {
-                            // Ambiente del documento; para legacy sin environment persistido,
-                            // derivar de isProd para que XML y endpoint SRI sean coherentes
-                            ambiente: fullBill.environment || (isProd ? '2' : '1'),
-                            tipoEmision: '1',
-                            razonSocial: info.businessName || process.env.BUSINESS_NAME,
-                            nombreComercial: info.name || process.env.COMMERCIAL_NAME,
-                            ruc: info.ruc,
-                            claveAcceso: fullBill.accessKey, // Initial placeholder
-                            codDoc: '01',
-                            estab: estab,
-                            ptoEmi: ptoEmi,
-                            secuencial: secuencial,
-                            dirMatriz: info.fiscalAddress || info.address,
-                            dirEstablecimiento: info.fiscalAddress || info.address,
-                            // CRITICAL: Use original invoice date, NOT current date
-                            // SRI requires emission date to match the original transaction date
-                            fechaEmision: fullBill.date ? this.billingService.formatDateToSRI(fullBill.date) : this.billingService.getCurrentDateEcuador(),
-                            obligadoContabilidad: info.obligadoContabilidad ? 'SI' : 'NO',
-                            tipoIdentificacionComprador: this.billingService.getIdentificacionType(fullBill.customerIdentification),
-                            razonSocialComprador: fullBill.customerIdentification === '9999999999999' ? 'CONSUMIDOR FINAL' : fullBill.customerName,
-                            identificacionComprador: fullBill.customerIdentification,
-                            direccionComprador: fullBill.customerAddress,
-                            totalSinImpuestos: fullBill.subtotal,
-                            totalDescuento: 0,
-                            totalImpuestos: [], // SRIService generates XML based on details
-                            importeTotal: fullBill.total,
-                            moneda: 'DOLAR',
-                            formaPago: '01',
-                            emailComprador: fullBill.customerEmail
-                        },
-                        detalles: details
-                    };
+                    // Ambiente del documento; para legacy sin environment persistido,
+                    // derivar de isProd para que XML y endpoint SRI sean coherentes
+                    const environment = fullBill.environment === '1' || fullBill.environment === '2'
+                        ? fullBill.environment
+                        : (isProd ? '2' : '1');
+                    const invoiceToResend = billToInvoice(this.billingService, fullBill, config, environment);
 
                     // Generate XML: 
                     // If shouldGenerateNewKey is true, we pass undefined to generate a fresh random key.
@@ -206,7 +177,7 @@ export class CheckInvoiceStatus {
                             await this.billRepository.upsert({
                                 id: fullBill.id,
                                 accessKey: finalXmlKey,
-                                documentNumber: `${estab}-${ptoEmi}-${newSecuencial}`,
+                                documentNumber: `${invoiceToResend.info.estab}-${invoiceToResend.info.ptoEmi}-${newSecuencial}`,
                                 sriStatus: 'PENDING_RETRY',
                                 retryCount: 0, // Reset since we are using a brand new sequence
                                 sriMessage: (retryResult?.mensajes || []).join(' ')
@@ -273,15 +244,25 @@ export class CheckInvoiceStatus {
         // Cubre el caso en que la factura se emitió con el SRI caído: el pedido pudo quedar
         // sin completar y, ahora que la factura SÍ se autorizó, cerramos el pedido.
         // Idempotente (volver a poner Completed es inofensivo) y no bloqueante.
-        if (bill.orderId) {
+        // Las partes de una cuenta dividida no: GenerateInvoice cierra el pedido con la última parte.
+        if (bill.orderId && !bill.splitPart) {
             try {
                 const isCF = bill.customerIdentification === '9999999999999';
-                await this.orderRepository.update(bill.orderId, {
-                    billed: true,
-                    status: OrderStatus.Completed,
-                    billingType: isCF ? 'Consumidor Final' : 'Factura'
+                const billingType = isCF ? 'Consumidor Final' : 'Factura';
+                // Factura consolidada: todos sus pedidos, en una sola transacción
+                const completedOrders = bill.orderIds?.length
+                    ? await this.orderRepository.markBilled(bill.orderIds, billingType)
+                    : [await this.orderRepository.update(bill.orderId, {
+                        billed: true,
+                        status: OrderStatus.Completed,
+                        billingType
+                    })];
+                for (const completedOrder of completedOrders) {
+                    if (completedOrder) await this.inventoryService?.syncOrder(completedOrder);
+                }
+                logger.info(`[CheckInvoiceStatus] Pedido ${bill.orderId} completado tras autorización de factura`, {
+                    orderIds: bill.orderIds
                 });
-                logger.info(`[CheckInvoiceStatus] Pedido ${bill.orderId} completado tras autorización de factura`);
             } catch (e) {
                 logger.warn('[CheckInvoiceStatus] No se pudo completar el pedido tras autorización', {
                     orderId: bill.orderId, error: (e as Error)?.message
@@ -310,45 +291,9 @@ export class CheckInvoiceStatus {
                 if (info.logo) logger.debug(`[CheckInvoiceStatus] Logo starts with: ${info.logo.substring(0, 30)}`);
                 logger.debug('[CheckInvoiceStatus] Final logoUrl will be:', this.billingService.getLogoUrl(info));
 
-                const [estab, ptoEmi, secuencial] = bill.documentNumber.split('-');
-
-                const details = this.billingService.calculateDetails(bill.items);
-
                 const invoiceObj: any = {
-                    creationDate: new Date(bill.date),
-                    info: {
-                        ambiente: isProd ? '2' : '1',
-                        tipoEmision: '1',
-                        razonSocial: info.businessName || process.env.BUSINESS_NAME,
-                        nombreComercial: info.name || process.env.COMMERCIAL_NAME,
-                        ruc: info.ruc,
-                        claveAcceso: bill.accessKey,
-                        codDoc: '01',
-                        estab: estab,
-                        ptoEmi: ptoEmi,
-                        secuencial: secuencial,
-                        dirMatriz: info.fiscalAddress || info.address || process.env.DIR_MATRIZ,
-                        dirEstablecimiento: info.fiscalAddress || info.address || process.env.DIR_ESTABLECIMIENTO,
-                        fechaEmision: this.billingService.formatDateToSRI(bill.date),
-                        obligadoContabilidad: info.obligadoContabilidad ? 'SI' : 'NO',
-                        tipoIdentificacionComprador: this.billingService.getIdentificacionType(bill.customerIdentification),
-                        razonSocialComprador: bill.customerIdentification === '9999999999999' ? 'CONSUMIDOR FINAL' : bill.customerName,
-                        identificacionComprador: bill.customerIdentification,
-                        direccionComprador: bill.customerAddress,
-                        totalSinImpuestos: bill.subtotal,
-                        totalDescuento: 0,
-                        totalImpuestos: [],
-                        importeTotal: bill.total,
-                        moneda: 'DOLAR',
-                        formaPago: '01',
-                        emailComprador: clientEmail,
-                        logoUrl: this.billingService.getLogoUrl(info),
-                        emailMatriz: info.fiscalEmail || info.email || process.env.SMTP_FROM,
-                        telefonoComprador: bill.customerPhone || 'S/N',
-                        tasaIva: (info.billing?.taxRate || 15).toString()
-                    },
-                    authorizationDate: authResult.fechaAutorizacion,
-                    detalles: details
+                    ...billToInvoice(this.billingService, bill, config, isProd ? '2' : '1'),
+                    authorizationDate: authResult.fechaAutorizacion
                 };
 
                 // Quick Date Fix for XML Generation check
@@ -365,27 +310,43 @@ export class CheckInvoiceStatus {
                 const signedXml = await this.sriService.signXML(xml, config || undefined);
 
                 // Generate PDF
-                const pdfBuffer = await this.pdfService.generateInvoicePDF(invoiceObj);
+                const pdfBuffer = await this.pdfService.generateInvoicePDF(invoiceObj, printLayoutOf(config?.billing));
 
                 // Send
                 const emailResult = await this.emailService.sendInvoiceEmail(clientEmail, invoiceObj, pdfBuffer, signedXml);
                 if (emailResult.success) {
                     logger.info(`[CheckInvoiceStatus] Email sent successfully to ${clientEmail}. MessageId: ${emailResult.messageId}`);
-                    return { success: true, authorization: authResult, invoiceNumber: bill.documentNumber, emailStatus: { sent: true, skipped: false } };
                 } else {
                     logger.warn(`[CheckInvoiceStatus] Email failed: ${emailResult.error}`);
-                    return { success: true, authorization: authResult, invoiceNumber: bill.documentNumber, emailStatus: { sent: false, skipped: false, error: emailResult.error } };
                 }
+                const delivery = deliveryFromResult(clientEmail, emailResult, bill.emailDelivery);
+                await this.recordEmailDelivery(bill.id, delivery);
+                return { success: true, authorization: authResult, invoiceNumber: bill.documentNumber, emailStatus: toEmailStatus(delivery) };
 
             } catch (emailError: any) {
                 logger.error('[CheckInvoiceStatus] Failed to send email during recovery:', emailError);
+                await this.recordEmailDelivery(
+                    bill.id, deliveryFromResult(clientEmail, { success: false, error: emailError.message }, bill.emailDelivery)
+                );
                 return { success: true, authorization: authResult, invoiceNumber: bill.documentNumber, emailStatus: { sent: false, skipped: false, error: emailError.message } };
             }
         } else {
             logger.debug('[CheckInvoiceStatus] Skipping email (Consumidor Final or Invalid Email).');
+            await this.recordEmailDelivery(bill.id, skippedDelivery(clientEmail, 'Consumidor Final o email inválido', bill.emailDelivery));
         }
 
         return { success: true, authorization: authResult, invoiceNumber: bill.documentNumber, emailStatus: { sent: false, skipped: true, skipReason: 'Consumidor Final o email inválido' } };
 
     }
+
+    /**
+     * Guarda el estado del envío por email; un fallo aquí no afecta la autorización ya obtenida
+     */
+    private async recordEmailDelivery(billId: string, delivery: EmailDelivery): Promise<void> {
+        try {
+            await this.billRepository.setEmailDelivery(billId, delivery);
+        } catch (error: any) {
+            logger.warn('[CheckInvoiceStatus] No se pudo guardar el estado del email', { billId, error: error.message });
+        }
+    }
 }
@@ -1,10 +1,12 @@
 import { IMenuRepository } from '../../domain/repositories/IMenuRepository';
 import { MenuItem } from '../../domain/entities/MenuItem';
+import { normalizeModifierGroups } from '../../domain/menu/modifiers';
 
 export class CreateMenu {
     constructor(private menuRepository: IMenuRepository) { }
 
     async execute(data: MenuItem): Promise<MenuItem> {
-        return this.menuRepository.create(data);
+        // La receta se define después, desde inventario (SetMenuItemRecipe)
+        return this.menuRepository.create({ ...data, modifierGroups: normalizeModifierGroups(data.modifierGroups), recipe: [] });
     }
 }
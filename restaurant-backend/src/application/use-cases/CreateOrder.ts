@@ -8,6 +8,10 @@
  * @connections
  * - Usa: IOrderRepository (domain/repositories)
  * - Usa: Order entity (domain/entities)
+ * - Usa: IOrderEventPublisher (application/interfaces) - notifica order:created
+ * - Usa: KitchenStationRouter (application/services) - estación de cocina de cada ítem
+ * - Usa: InventoryService (application/services) - descuenta las recetas del stock
+ * - Usa: DiscountAuthorizer (application/services) - quién autoriza los descuentos
  * - Usado por: orderRoutes (infrastructure/web/routes)
  * - Inyectado por: DIContainer (infrastructure/di)
  *
@@ -15,29 +19,85 @@
  */
 
 import { IOrderRepository } from '../../domain/repositories/IOrderRepository';
-import { Order, OrderItem, OrderStatus } from '../../domain/entities/Order';
+import { Order, OrderDiscount, OrderItem, OrderStatus } from '../../domain/entities/Order';
 import { ValidationError } from '../../domain/errors/CustomErrors';
+import { IOrderEventPublisher } from '../interfaces/IOrderEventPublisher';
+import { validateOrderItemModifiers } from '../../domain/menu/modifiers';
+import { KitchenStationRouter } from '../services/KitchenStationRouter';
+import { InventoryService } from '../services/InventoryService';
+import { ACTIVE_STATUSES } from '../../domain/orders/lifecycle';
+import { hasNewDiscounts, stampOrderDiscounts } from '../../domain/billing/discounts';
+import { DiscountAuthorizer } from '../services/DiscountAuthorizer';
+import { SRI_IVA_RATES } from '../../domain/billing/taxRates';
 
 export interface CreateOrderDTO {
     customerName: string;
     items: OrderItem[];
     type: 'En Local' | 'Delivery' | 'Para Llevar';
     status?: OrderStatus;
+    tableId?: string | null;
+    discount?: OrderDiscount | null; // Descuento de todo el pedido
+    /** ID que el POS genera al tomar el pedido: los reenvíos de la cola sin conexión no lo duplican */
+    clientRequestId?: string | null;
 }
 
 export class CreateOrder {
-    constructor(private orderRepository: IOrderRepository) { }
+    constructor(
+        private orderRepository: IOrderRepository,
+        private eventPublisher?: IOrderEventPublisher,
+        private stationRouter?: KitchenStationRouter,
+        private inventoryService?: InventoryService,
+        private discountAuthorizer?: DiscountAuthorizer
+    ) { }
+
+    /**
+     * @param createdBy usuario que registra el pedido (primer paso del historial)
+     * @param discountAuthorization aprobación firmada de un gerente para los descuentos (AuthorizeDiscount)
+     */
+    async execute(orderData: CreateOrderDTO, createdBy?: string, discountAuthorization?: string | null): Promise<Order> {
+        // Reenvío de un pedido que ya llegó (se perdió la respuesta): se devuelve el mismo
+        const clientRequestId = orderData.clientRequestId || undefined;
+        if (clientRequestId) {
+            const existing = await this.orderRepository.findByClientRequestId(clientRequestId);
+            if (existing) return existing;
+        }
 
-    async execute(orderData: CreateOrderDTO): Promise<Order> {
         // Validar que cada item tenga taxRate (obligatorio para cálculos correctos de IVA)
         this.validateItems(orderData.items);
+        // Descuentos: los autoriza quien registra el pedido, si su rol lo permite, o el gerente que los aprobó
+        const requested = { items: orderData.items, discount: orderData.discount };
+        const authorizedBy = this.discountAuthorizer && hasNewDiscounts(requested, null)
+            ? await this.discountAuthorizer.resolve(createdBy, discountAuthorization)
+            : createdBy;
+        const discounted = stampOrderDiscounts(requested, null, authorizedBy);
 
         // El número lo asigna SIEMPRE el servidor (contador atómico) y se ignora
         // cualquier valor enviado por el cliente: los números generados en el
         // navegador (localStorage) se duplicaban entre dispositivos.
         const orderNumber = await this.orderRepository.getNextOrderNumber();
 
-        const order = await this.orderRepository.create({ ...orderData, orderNumber } as any);
+        // La mesa solo aplica a consumo en el local
+        const tableId = orderData.type === 'En Local' ? (orderData.tableId || null) : null;
+
+        const items = this.stationRouter ? await this.stationRouter.route(discounted.items) : discounted.items;
+
+        // Un pedido nace en curso: nunca cerrado ni cancelado
+        const status = orderData.status && ACTIVE_STATUSES.includes(orderData.status) ? orderData.status : OrderStatus.New;
+        const statusHistory = [{ status, at: new Date(), by: createdBy || null }];
+
+        // El descuento de inventario lo registra el servidor al sincronizar
+        let order: Order;
+        try {
+            order = await this.orderRepository.create({ ...orderData, items, discount: discounted.discount, status, statusHistory, tableId, orderNumber, clientRequestId, stockDeduction: [] } as any);
+        } catch (error) {
+            // Dos reenvíos simultáneos: el índice único deja pasar solo uno
+            const existing = clientRequestId ? await this.orderRepository.findByClientRequestId(clientRequestId) : null;
+            if (existing) return existing;
+            throw error;
+        }
+        this.eventPublisher?.publish('order:created', order.id, order);
+
+        await this.inventoryService?.syncOrder(order, createdBy);
         return order;
     }
 
@@ -77,18 +137,21 @@ export class CreateOrder {
             if (item.taxRate === undefined || item.taxRate === null) {
                 throw new ValidationError(
                     `El producto "${item.name}" no tiene tasa de IVA (taxRate). ` +
-                    `Todos los productos deben incluir su taxRate (0, 5, 12 o 15).`
+                    `Todos los productos deben incluir su taxRate (0, 5, 8, 12, 13, 14 o 15).`
                 );
             }
 
-            // Validar que taxRate sea un valor válido
-            const validTaxRates = [0, 5, 12, 15];
+            // Validar que taxRate sea un valor válido (tarifas de la ficha técnica del SRI)
+            const validTaxRates = SRI_IVA_RATES;
             if (!validTaxRates.includes(item.taxRate)) {
                 throw new ValidationError(
                     `El producto "${item.name}" tiene una tasa de IVA inválida: ${item.taxRate}%. ` +
                     `Las tasas válidas son: ${validTaxRates.join(', ')}%.`
                 );
             }
+
+            // Modificadores: van a la descripción de la factura
+            validateOrderItemModifiers(item);
         });
     }
 }
@@ -2,9 +2,10 @@
  * Use Case: Get Dashboard Stats
  */
 import { IOrderRepository, DashboardStatsDTO } from '../../domain/repositories/IOrderRepository';
+import { IBillRepository } from '../../domain/repositories/IBillRepository';
 
 export class DashboardStats {
-    constructor(private orderRepository: IOrderRepository) { }
+    constructor(private orderRepository: IOrderRepository, private billRepository?: IBillRepository) { }
 
     async execute(range: 'today' | 'week' | 'month' | 'year' = 'today'): Promise<DashboardStatsDTO> {
         const endDate = new Date();
@@ -34,6 +35,10 @@ export class DashboardStats {
                 break;
         }
 
-        return this.orderRepository.getDashboardStats(startDate, endDate);
+        const [stats, tips] = await Promise.all([
+            this.orderRepository.getDashboardStats(startDate, endDate),
+            this.billRepository?.getTipStats(startDate, endDate)
+        ]);
+        return tips ? { ...stats, tips } : stats;
     }
 }
@@ -56,8 +56,8 @@ export class DeleteOldOrders {
             const ordersToDelete = orders.filter(order => {
                 const orderDate = new Date(order.createdAt);
                 const isOld = orderDate < cutoffDate;
-                const isCompleted = order.status === OrderStatus.Completed;
-                return isOld && isCompleted;
+                const isClosed = order.status === OrderStatus.Completed || order.status === OrderStatus.Cancelled;
+                return isOld && isClosed;
             });
 
             // Eliminar órdenes
@@ -8,6 +8,8 @@
  * @connections
  * - Usa: IOrderRepository (domain/repositories)
  * - Usa: NotFoundError (domain/errors)
+ * - Usa: IOrderEventPublisher (application/interfaces) - notifica order:deleted
+ * - Usa: InventoryService (application/services) - devuelve al stock lo de un pedido no vendido
  * - Usado por: orderRoutes (infrastructure/web/routes)
  * - Inyectado por: DIContainer (infrastructure/di)
  * 
@@ -18,11 +20,15 @@ import { IOrderRepository } from '../../domain/repositories/IOrderRepository';
 import { IRoleRepository } from '../../domain/repositories/IRoleRepository';
 import { NotFoundError, ForbiddenError } from '../../domain/errors/CustomErrors';
 import { OrderStatus } from '../../domain/entities/Order';
+import { IOrderEventPublisher } from '../interfaces/IOrderEventPublisher';
+import { InventoryService } from '../services/InventoryService';
 
 export class DeleteOrder {
     constructor(
         private orderRepository: IOrderRepository,
-        private roleRepository: IRoleRepository
+        private roleRepository: IRoleRepository,
+        private eventPublisher?: IOrderEventPublisher,
+        private inventoryService?: InventoryService
     ) { }
 
     async execute(id: string, roleId?: string): Promise<void> {
@@ -50,5 +56,12 @@ export class DeleteOrder {
         if (!result) {
             throw new NotFoundError(`Order with ID ${id} not found`);
         }
+
+        this.eventPublisher?.publish('order:deleted', id);
+
+        // Un pedido completado sí se consumió: borrarlo del historial no devuelve stock
+        if (order.status !== OrderStatus.Completed) {
+            await this.inventoryService?.releaseOrder(order);
+        }
     }
 }
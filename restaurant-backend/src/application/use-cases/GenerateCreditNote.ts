@@ -1,13 +1,21 @@
 import { SRIService } from '../../infrastructure/services/SRIService';
+import { getXSDViolations } from '../../infrastructure/services/sri/XSDValidator';
 import { PDFService } from '../../infrastructure/services/PDFService';
 import { IEmailService } from '../interfaces/IEmailService';
 import { IRestaurantConfigRepository } from '../../domain/repositories/IRestaurantConfigRepository';
 import { ICreditNoteRepository } from '../../domain/repositories/ICreditNoteRepository';
 import { IBillRepository } from '../../domain/repositories/IBillRepository';
 import { CreditNote, CreditNoteDetail, CREDIT_NOTE_REASONS } from '../../domain/billing/creditNote';
+import { totalDiscount } from '../../domain/billing/discounts';
+import { printLayoutOf } from '../../domain/billing/printLayout';
 
 import { BillingService } from '../services/BillingService';
+import { billDetails } from '../services/billInvoice';
+import { InventoryService } from '../services/InventoryService';
 import { logger, maskAccessKey } from '../../infrastructure/utils/Logger';
+import {
+    EmailDelivery, EmailStatus, isDeliverableEmail, deliveryFromResult, skippedDelivery, toEmailStatus
+} from '../../domain/billing/emailDelivery';
 import { SRI_MAX_DAILY_RETRIES, SRI_MAX_SEND_ATTEMPTS } from '../../config/billing.constants';
 
 export class GenerateCreditNote {
@@ -18,16 +26,16 @@ export class GenerateCreditNote {
         private sriService: SRIService,
         private pdfService: PDFService,
         private emailService: IEmailService,
-        private billingService: BillingService
+        private billingService: BillingService,
+        private inventoryService?: InventoryService
     ) { }
 
     async execute(data: {
         billId: string;
         reason: string;
         customDescription?: string;
-        taxRate?: number;
     }): Promise<any> {
-        const { billId, reason, customDescription, taxRate = 15 } = data;
+        const { billId, reason, customDescription } = data;
 
         logger.info(`[GenerateCreditNote] Starting credit note generation for bill: ${billId}`);
 
@@ -78,15 +86,15 @@ export class GenerateCreditNote {
         }
         // -------------------------
 
-        // 2. Calculate Details (same items as original bill, but as credit)
-        const details = this.billingService.calculateDetails(originalBill.items, taxRate);
+        // 2. Calculate Details (same items and IVA rate as the original bill, but as credit)
+        const config = await this.configRepository.get();
+        const { details } = billDetails(this.billingService, originalBill, config?.billing);
 
         const subtotal = details.reduce((sum, d) => sum + d.precioTotalSinImpuesto, 0);
         const totalImpuestos = details.reduce((sum, d) => sum + d.impuestos[0].valor, 0);
         const total = subtotal + totalImpuestos;
 
         // 3. Get Config
-        const config = await this.configRepository.get();
         const info = config || {} as any;
         // Ambiente desde la BD (configurable en la UI) — fuente única de verdad
         const environment = await this.configRepository.getEnvironment();
@@ -156,7 +164,7 @@ export class GenerateCreditNote {
                 motivo: reasonDescription,
 
                 totalSinImpuestos: subtotal,
-                totalDescuento: 0,
+                totalDescuento: totalDiscount(details),
                 totalImpuestos: [],
                 importeTotal: total,
                 moneda: 'DOLAR',
@@ -268,6 +276,25 @@ export class GenerateCreditNote {
                     // Continue to next attempt with new sequential
                     continue;
                 } else {
+                    // XML fuera del XSD: no se envió al SRI; cada campo queda en el errorLog de la NC
+                    const violations = getXSDViolations(error);
+                    if (violations) {
+                        await this.creditNoteRepository.upsert({
+                            id: draftCreditNote.id,
+                            sriStatus: 'ERROR',
+                            sriMessage: error.message
+                        });
+                        for (const violation of violations) {
+                            await (this.creditNoteRepository as any).pushErrorLog(draftCreditNote.id, {
+                                timestamp: new Date().toISOString(),
+                                sriStatus: 'ESQUEMA_INVALIDO',
+                                message: `${violation.path}: ${violation.message}`,
+                                attempt: attempts
+                            });
+                        }
+                        throw error;
+                    }
+
                     // Not a duplicate error OR we've exhausted attempts - propagate error
                     if (attempts >= SRI_MAX_SEND_ATTEMPTS) {
                         logger.error('[GenerateCreditNote] ❌ Max retry attempts reached. Unable to send credit note.');
@@ -355,18 +382,19 @@ export class GenerateCreditNote {
                     sriStatus: 'CANCELLED'
                 } as any);
                 logger.info('[GenerateCreditNote] Original bill marked as CANCELLED');
+
+                await this.inventoryService?.restockCreditNote(
+                    { id: draftCreditNote.id, documentNumber: `${creditNote.info.estab}-${creditNote.info.ptoEmi}-${creditNote.info.secuencial}` },
+                    originalBill.items
+                );
             } else {
                 logger.info('[GenerateCreditNote] Credit note not authorized, bill status unchanged');
             }
 
             // 10.2. Send Email (optional - only for authorized and valid emails)
-            const isValidEmail = originalBill.customerEmail &&
-                !originalBill.customerEmail.includes('consumidor@final') &&
-                !originalBill.customerEmail.includes('noemail') &&
-                originalBill.customerEmail.includes('@') &&
-                originalBill.customerEmail.includes('.');
+            const isValidEmail = isDeliverableEmail(originalBill.customerEmail);
 
-            let emailStatus: { sent: boolean; skipped: boolean; error?: string; skipReason?: string } = {
+            let emailStatus: EmailStatus = {
                 sent: false,
                 skipped: false
             };
@@ -376,7 +404,7 @@ export class GenerateCreditNote {
                 if (authResult.fechaAutorizacion) creditNote.authorizationDate = authResult.fechaAutorizacion;
 
                 // Generate PDF for Credit Note
-                const pdfBuffer = await this.pdfService.generateCreditNotePDF(creditNote);
+                const pdfBuffer = await this.pdfService.generateCreditNotePDF(creditNote, printLayoutOf(config?.billing));
 
                 // Send Email with PDF and Signed XML
                 const emailResult = await this.emailService.sendCreditNoteEmail(
@@ -386,17 +414,25 @@ export class GenerateCreditNote {
                     signedXml
                 );
 
-                emailStatus.sent = emailResult.success;
                 if (!emailResult.success) {
-                    emailStatus.error = emailResult.error;
                     logger.warn(`[GenerateCreditNote] Email failed: ${emailResult.error}`);
                 } else {
                     logger.info(`[GenerateCreditNote] Credit note email sent successfully. MessageId: ${emailResult.messageId}`);
                 }
+
+                const delivery = deliveryFromResult(originalBill.customerEmail!, emailResult);
+                await this.recordEmailDelivery(draftCreditNote.id, delivery);
+                emailStatus = toEmailStatus(delivery);
             } else {
                 emailStatus.skipped = true;
                 emailStatus.skipReason = !isValidEmail ? 'Email inválido' : 'Nota de crédito no autorizada';
                 logger.info('[GenerateCreditNote] Skipping email - Conditions not met (Not Authorized or Invalid Email)');
+                // Sin autorizar aún no hay nada que registrar: CheckCreditNoteStatus envía el email al autorizarse
+                if (authResult && authResult.estado === 'AUTORIZADO') {
+                    await this.recordEmailDelivery(
+                        draftCreditNote.id, skippedDelivery(originalBill.customerEmail, emailStatus.skipReason)
+                    );
+                }
             }
 
             return {
@@ -409,4 +445,15 @@ export class GenerateCreditNote {
             };
         }
 
+        /**
+         * Guarda el estado del envío por email. Nunca hace fallar la nota de crédito ya autorizada.
+         */
+        private async recordEmailDelivery(creditNoteId: string, delivery: EmailDelivery): Promise<void> {
+            try {
+                await this.creditNoteRepository.setEmailDelivery(creditNoteId, delivery);
+            } catch (error: any) {
+                logger.warn('[GenerateCreditNote] No se pudo guardar el estado del email', { creditNoteId, error: error.message });
+            }
+        }
+
 }
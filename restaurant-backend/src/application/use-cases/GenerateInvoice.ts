@@ -7,19 +7,34 @@
  */
 
 import { SRIService } from '../../infrastructure/services/SRIService';
+import { getXSDViolations } from '../../infrastructure/services/sri/XSDValidator';
+import { XSDViolation } from '../../infrastructure/services/sri/types';
 import { PDFService } from '../../infrastructure/services/PDFService';
 import { IEmailService } from '../interfaces/IEmailService';
 import { IRestaurantConfigRepository } from '../../domain/repositories/IRestaurantConfigRepository';
 import { IBillRepository } from '../../domain/repositories/IBillRepository';
 import { IOrderRepository } from '../../domain/repositories/IOrderRepository';
 import { Invoice, InvoiceDetail } from '../../domain/billing/invoice';
-import { ValidationError } from '../../domain/errors/CustomErrors';
+import { ConflictError, ValidationError } from '../../domain/errors/CustomErrors';
 import { BillingService } from '../services/BillingService';
-import { OrderStatus } from '../../domain/entities/Order';
+import { InventoryService } from '../services/InventoryService';
+import { Order, OrderStatus, SplitBillPart } from '../../domain/entities/Order';
+import { isSplitFullyInvoiced, splitBillingType } from '../../domain/billing/splitBill';
+import { validateConsolidation, mergeOrderItems, describeConsolidatedOrders } from '../../domain/billing/consolidatedInvoice';
+import { resolvePayments, toInvoicePayments, calculateChange } from '../../domain/billing/payments';
+import { applyOrderDiscounts, hasDiscounts, totalDiscount } from '../../domain/billing/discounts';
+import { BillTip, TipRequest, resolveTip, DEFAULT_SERVICE_CHARGE_RATE } from '../../domain/billing/tips';
+import { TaxRatePeriod, applyTaxSchedule, taxPeriodOn, taxScheduleOf } from '../../domain/billing/taxRates';
+import { printLayoutOf } from '../../domain/billing/printLayout';
+import { BillPayment } from '../../domain/entities/Bill';
+import {
+    EmailDelivery, EmailStatus, isDeliverableEmail, deliveryFromResult, skippedDelivery, toEmailStatus
+} from '../../domain/billing/emailDelivery';
 import { logger } from '../../infrastructure/utils/Logger';
-import { SRI_MAX_DAILY_RETRIES, CONSUMIDOR_FINAL_RUC } from '../../config/billing.constants';
+import { SRI_MAX_DAILY_RETRIES, CONSUMIDOR_FINAL_RUC, CONSOLIDATED_INVOICE_MAX_ORDERS } from '../../config/billing.constants';
 import { RestaurantConfig } from '../../domain/entities/RestaurantConfig';
 import { dbConnection } from '../../infrastructure/database/DatabaseConnection';
+import { randomUUID } from 'crypto';
 
 /** Input parameters for invoice generation */
 interface GenerateInvoiceParams {
@@ -28,6 +43,18 @@ interface GenerateInvoiceParams {
     taxRate?: number;
     logoUrl?: string;
     id?: string; // Existing bill ID for retries
+    splitPart?: number; // Parte de una cuenta dividida (los ítems salen del plan guardado en el pedido)
+    payments?: BillPayment[]; // Varias formas de pago; sin lista se cobra todo con client.paymentMethod
+    orderIds?: string[]; // Factura consolidada: los ítems salen de estos pedidos guardados (mismo cliente)
+    tip?: TipRequest; // Propina o cargo por servicio; en reintentos se conserva la de la factura original
+}
+
+/** Avance de una cuenta dividida tras facturar una parte */
+interface SplitProgress {
+    part: number;
+    parts: number;
+    invoicedParts: number;
+    completed: boolean;
 }
 
 /** Result of invoice generation */
@@ -41,14 +68,9 @@ interface GenerateInvoiceResult {
     sriResponse: any;
     authorization: any;
     emailStatus: EmailStatus;
-}
-
-/** Email sending status */
-interface EmailStatus {
-    sent: boolean;
-    skipped: boolean;
-    error?: string;
-    skipReason?: string;
+    split?: SplitProgress;
+    /** Cambio a devolver por el efectivo recibido */
+    change: number;
 }
 
 export class GenerateInvoice {
@@ -59,28 +81,76 @@ export class GenerateInvoice {
         private sriService: SRIService,
         private pdfService: PDFService,
         private emailService: IEmailService,
-        private billingService: BillingService
+        private billingService: BillingService,
+        private inventoryService?: InventoryService
     ) { }
 
     /**
      * Main execution method - orchestrates the entire invoice generation flow
      */
     async execute(params: GenerateInvoiceParams): Promise<GenerateInvoiceResult> {
-        const { order, client, taxRate = 15, logoUrl } = params;
+        const { client, logoUrl } = params;
+
+        // Cuenta dividida: los ítems de la parte salen del plan guardado, no del cliente
+        if (params.splitPart && params.orderIds?.length) {
+            throw new ValidationError('Una factura consolidada no puede ser parte de una cuenta dividida');
+        }
+        const splitPart = params.splitPart
+            ? await this.loadSplitPart(params.order?.id, params.splitPart, params.id)
+            : null;
+        if (!params.splitPart && !params.orderIds?.length) {
+            await this.ensureNotSplitOrder(params.order?.id, params.id);
+        }
+        // Factura consolidada: los ítems salen de los pedidos guardados, resumidos por línea
+        const consolidatedOrders = params.orderIds?.length
+            ? await this.loadConsolidatedOrders(params.orderIds)
+            : null;
+        const order = splitPart
+            ? { ...params.order, items: splitPart.items }
+            : consolidatedOrders
+                ? { id: consolidatedOrders[0].id, items: mergeOrderItems(consolidatedOrders) }
+                : params.order?.items && hasDiscounts(params.order)
+                    // Descuentos de línea y del pedido: cada línea lleva su parte (con IVA)
+                    ? { ...params.order, items: applyOrderDiscounts(params.order.items, params.order.discount) }
+                    : params.order;
 
         // Step 1: Validate input and calculate totals
         this.validateClientEmail(client.email);
-        const { details, subtotal, totalImpuestos, total } = this.calculateTotals(order.items, taxRate);
+        const config = await this.configRepository.get();
+        // IVA vigente en la fecha de emisión: los platos con una tarifa general anterior pasan a la actual
+        const emittedAt = new Date();
+        const taxSchedule = taxScheduleOf({ taxSchedule: config?.billing?.taxSchedule, taxRate: params.taxRate ?? 15 });
+        const taxRate = taxPeriodOn(taxSchedule, emittedAt).rate;
+        const items = applyTaxSchedule(order.items, taxSchedule, emittedAt);
+        const { details, subtotal, totalImpuestos, total: salesTotal } = this.calculateTotals(items, taxRate, taxSchedule);
+        const existingBill = params.id ? await this.billRepository.findById(params.id) : null;
+        // La propina no paga IVA: se suma aparte al importe total (y a los pagos)
+        const tip = this.resolveInvoiceTip(params.tip ?? existingBill?.tip, subtotal, config, consolidatedOrders?.[0] ?? params.order);
+        const total = salesTotal + (tip?.amount || 0);
         this.billingService.validateConsumidorFinal(client.identification, total);
+        const payments = resolvePayments(
+            params.payments, this.billingService.getPaymentMethodCode(client.paymentMethod || '01'), total
+        );
 
-        // Step 2: Get configuration, environment and sequential
-        const config = await this.configRepository.get();
+        // Step 2: Get environment and sequential
         // Ambiente desde la BD (configurable en la UI) — fuente única de verdad
         const environment = await this.configRepository.getEnvironment();
-        const secuencial = await this.resolveSequential(params.id);
+        const secuencial = await this.resolveSequential(existingBill);
+        // En reintentos la parte viene de la factura original
+        const splitPartNumber = splitPart?.part ?? existingBill?.splitPart;
 
         // Step 3: Build invoice object
-        const invoice = this.buildInvoice(order, client, details, subtotal, total, config, secuencial, logoUrl, taxRate, environment);
+        const invoice = this.buildInvoice(order, client, details, subtotal, total, config, secuencial, logoUrl, taxRate, environment, payments);
+        if (tip) {
+            invoice.info.propina = tip.amount;
+        }
+        if (consolidatedOrders) {
+            invoice.orderIds = consolidatedOrders.map(o => o.id);
+            invoice.info.pedidos = describeConsolidatedOrders(consolidatedOrders);
+        } else if (existingBill?.orderIds?.length) {
+            // Reintento de una consolidada: sigue cubriendo los mismos pedidos
+            invoice.orderIds = existingBill.orderIds;
+        }
 
         // Step 4: Validate real-time transmission (SRI 2026 compliance)
         this.billingService.validateRealTimeTransmission(invoice.info.fechaEmision);
@@ -89,7 +159,16 @@ export class GenerateInvoice {
         const autoLearnResult = await this.tryAutoLearnCustomer(client);
 
         // Step 6: Create draft bill in database
-        const draftBill = await this.createDraftBill(params.id, invoice, details, totalImpuestos, environment);
+        // Una consolidada nueva reserva antes sus pedidos: dos cobros simultáneos no los facturan dos veces.
+        // Desde el envío al SRI los pedidos quedan facturados (markBilled) aunque el SRI falle.
+        const billingClaim = consolidatedOrders ? await this.claimConsolidatedOrders(invoice.orderIds!) : null;
+        let draftBill: any;
+        try {
+            draftBill = await this.createDraftBill(params.id, invoice, details, totalImpuestos, environment, splitPartNumber, payments, tip);
+        } catch (error) {
+            if (billingClaim) await this.orderRepository.releaseBillingClaim(invoice.orderIds!, billingClaim);
+            throw error;
+        }
 
         // Determine if consumidor final (needed for order status and email).
         // Se calcula ANTES del envío al SRI para poder completar el pedido aunque el SRI falle.
@@ -106,6 +185,19 @@ export class GenerateInvoice {
                 invoice, config, draftBill.id, environment
             ));
         } catch (sriError: any) {
+            const violations = getXSDViolations(sriError);
+            if (violations) {
+                // NO es una caída del SRI: el XML no cumple el XSD y el SRI lo devolvería.
+                // No se envía ni se reintenta solo: la factura queda en ERROR con cada campo
+                // en el errorLog, para corregir los datos y re-enviarla desde el historial.
+                logger.warn('[GenerateInvoice] XML no cumple el XSD: no se envía al SRI', {
+                    orderId: invoice.orderId, billId: draftBill.id, fields: violations.map(v => v.path)
+                });
+                await this.markBillSchemaInvalid(draftBill.id, sriError.message, violations);
+                await this.updateOrderStatus(invoice, isConsumidorFinal, splitPartNumber, draftBill.id);
+                throw sriError;
+            }
+
             // EL SRI ESTÁ CAÍDO / INALCANZABLE (timeout, red, SOAP fault).
             // El pedido es una venta REAL ya servida: su estado operativo NO debe quedar
             // rehén de la disponibilidad del SRI. Completamos el pedido y dejamos la factura
@@ -118,7 +210,7 @@ export class GenerateInvoice {
             await this.markBillPendingRetry(draftBill.id, sriError?.message);
 
             // Completar el pedido igualmente (concern OPERATIVO, separado del fiscal)
-            await this.updateOrderStatus(invoice.orderId, isConsumidorFinal);
+            await this.updateOrderStatus(invoice, isConsumidorFinal, splitPartNumber, draftBill.id);
 
             // Re-lanzar el error del SRI: el usuario sigue viendo "SRI no disponible",
             // pero el pedido YA quedó COMPLETADO en la base de datos.
@@ -127,12 +219,15 @@ export class GenerateInvoice {
 
         // Step 8 & 9: Persist final result and update order status atomically
         // CRITICAL: These operations must succeed together or fail together (data consistency)
+        let split: SplitProgress | undefined;
         await dbConnection.withTransaction(async (_session) => {
             // Step 8: Persist final result
             await this.persistFinalResult(draftBill.id, result, authResult);
 
             // Step 9: Update order status
-            await this.updateOrderStatus(invoice.orderId, isConsumidorFinal);
+            split = await this.updateOrderStatus(
+                updatedInvoice || invoice, isConsumidorFinal, splitPartNumber, draftBill.id
+            );
 
             // NOTE: Currently repositories don't accept session parameter.
             // When implementing session support, add { session } option:
@@ -142,7 +237,7 @@ export class GenerateInvoice {
 
         // Step 10: Send email notification
         const emailStatus = await this.handleEmailNotification(
-            authResult, client, updatedInvoice || invoice, signedXml, isConsumidorFinal
+            draftBill.id, authResult, client, updatedInvoice || invoice, signedXml, isConsumidorFinal, config
         );
 
         // Step 11: Return result
@@ -156,7 +251,9 @@ export class GenerateInvoice {
             xml: xml,
             sriResponse: result,
             authorization: authResult,
-            emailStatus
+            emailStatus,
+            split,
+            change: calculateChange(payments)
         };
     }
 
@@ -174,13 +271,13 @@ export class GenerateInvoice {
     /**
      * Calculates invoice details and totals from order items
      */
-    private calculateTotals(items: any[], taxRate: number): {
+    private calculateTotals(items: any[], taxRate: number, taxSchedule: TaxRatePeriod[]): {
         details: InvoiceDetail[];
         subtotal: number;
         totalImpuestos: number;
         total: number;
     } {
-        const details = this.billingService.calculateDetails(items, taxRate);
+        const details = this.billingService.calculateDetails(items, taxRate, taxSchedule);
         const subtotal = details.reduce((sum, d) => sum + d.precioTotalSinImpuesto, 0);
         const totalImpuestos = details.reduce((sum, d) => sum + d.impuestos[0].valor, 0);
         const total = subtotal + totalImpuestos;
@@ -188,23 +285,95 @@ export class GenerateInvoice {
         return { details, subtotal, totalImpuestos, total };
     }
 
+    /**
+     * Calcula la propina de la factura. Sin empleado indicado se asigna a quien tomó el pedido.
+     * Un cargo por servicio sin porcentaje usa el configurado.
+     */
+    private resolveInvoiceTip(
+        requested: TipRequest | undefined,
+        subtotal: number,
+        config: RestaurantConfig | null,
+        sourceOrder: any
+    ): BillTip | undefined {
+        if (!requested) return undefined;
+        const waiter = sourceOrder?.statusHistory?.[0]?.by;
+        return resolveTip(
+            { ...requested, employee: requested.employee || waiter || undefined },
+            subtotal,
+            config?.billing?.serviceChargeRate || DEFAULT_SERVICE_CHARGE_RATE
+        );
+    }
+
+    /**
+     * Carga la parte a facturar del plan de cuenta dividida del pedido.
+     * Una parte ya facturada solo se puede re-emitir como reintento de su propia factura.
+     */
+    private async loadSplitPart(orderId: string | undefined, partNumber: number, retryBillId?: string): Promise<SplitBillPart> {
+        const storedOrder = orderId ? await this.orderRepository.findById(orderId) : null;
+        if (!storedOrder?.splitBilling) {
+            throw new ValidationError('El pedido no tiene una división de cuenta definida');
+        }
+
+        const part = storedOrder.splitBilling.parts.find(p => p.part === Number(partNumber));
+        if (!part) {
+            throw new ValidationError(`La parte ${partNumber} no existe en la división de cuenta`);
+        }
+        // Al facturar la última parte el pedido queda facturado: su reintento sí debe pasar
+        const isRetry = !!part.billId && part.billId === retryBillId;
+        if (storedOrder.billed && !isRetry) {
+            throw new ValidationError('El pedido ya está facturado');
+        }
+        if (part.billId && !isRetry) {
+            throw new ValidationError(`La parte ${partNumber} ya fue facturada (${part.documentNumber})`);
+        }
+        return part;
+    }
+
+    /**
+     * Un pedido con cuenta dividida se factura por partes: una factura del pedido
+     * completo duplicaría lo ya facturado. Solo pasa el reintento de una parte.
+     */
+    private async ensureNotSplitOrder(orderId: string | undefined, retryBillId?: string): Promise<void> {
+        const storedOrder = orderId ? await this.orderRepository.findById(orderId) : null;
+        if (!storedOrder?.splitBilling?.parts?.length) return;
+        if (retryBillId && storedOrder.splitBilling.parts.some(p => p.billId === retryBillId)) return;
+        throw new ValidationError('El pedido tiene la cuenta dividida: facture cada parte por separado');
+    }
+
+    /**
+     * Carga los pedidos de una factura consolidada, en el orden recibido y sin repetidos.
+     */
+    private async loadConsolidatedOrders(orderIds: string[]): Promise<Order[]> {
+        const ids = [...new Set(orderIds.map(id => String(id)))];
+        const orders = await Promise.all(ids.map(id => this.orderRepository.findById(id)));
+        return validateConsolidation(ids, orders, CONSOLIDATED_INVOICE_MAX_ORDERS);
+    }
+
+    /**
+     * Reserva los pedidos de la consolidada para esta emisión (todos o ninguno).
+     * @throws ConflictError si otro cobro facturó o está facturando alguno
+     */
+    private async claimConsolidatedOrders(orderIds: string[]): Promise<string> {
+        const claim = randomUUID();
+        if (!(await this.orderRepository.claimForBilling(orderIds, claim))) {
+            throw new ConflictError('Alguno de los pedidos ya está facturado o se está facturando en otra caja', { orderIds });
+        }
+        return claim;
+    }
+
     /**
      * Resolves the sequential number - reuses existing for retries or generates new
      */
-    private async resolveSequential(existingBillId?: string): Promise<string> {
-        if (existingBillId) {
-            const existingBill = await this.billRepository.findById(existingBillId);
-
-            if (existingBill && existingBill.documentNumber) {
-                // Check retry limit
-                this.checkRetryLimit(existingBill);
-
-                // Reuse existing sequential
-                const parts = existingBill.documentNumber.split('-');
-                const secuencial = parts[parts.length - 1];
-                logger.info(`[GenerateInvoice] Reusing existing sequential: ${secuencial} for bill ${existingBillId}`);
-                return secuencial;
-            }
+    private async resolveSequential(existingBill: any | null): Promise<string> {
+        if (existingBill && existingBill.documentNumber) {
+            // Check retry limit
+            this.checkRetryLimit(existingBill);
+
+            // Reuse existing sequential
+            const parts = existingBill.documentNumber.split('-');
+            const secuencial = parts[parts.length - 1];
+            logger.info(`[GenerateInvoice] Reusing existing sequential: ${secuencial} for bill ${existingBill.id}`);
+            return secuencial;
         }
 
         // Generate new sequential (atomic operation)
@@ -240,7 +409,8 @@ export class GenerateInvoice {
         secuencial: string,
         logoUrl: string | undefined,
         taxRate: number,
-        environment: '1' | '2'
+        environment: '1' | '2',
+        payments: BillPayment[]
     ): Invoice {
         const info = config || {} as any;
         const now = new Date();
@@ -271,12 +441,13 @@ export class GenerateInvoice {
                 identificacionComprador: client.identification,
                 direccionComprador: client.address,
                 totalSinImpuestos: subtotal,
-                totalDescuento: 0,
+                totalDescuento: totalDiscount(details),
                 totalImpuestos: [],
                 importeTotal: total,
                 moneda: 'DOLAR',
                 emailComprador: client.email,
-                formaPago: this.billingService.getPaymentMethodCode(client.paymentMethod || '01'),
+                formaPago: payments[0].method,
+                pagos: toInvoicePayments(payments),
                 logoUrl: this.billingService.getLogoUrl(info, logoUrl),
                 tasaIva: taxRate.toString(),
                 telefonoComprador: client.phone,
@@ -310,14 +481,22 @@ export class GenerateInvoice {
         invoice: Invoice,
         details: InvoiceDetail[],
         totalImpuestos: number,
-        environment: '1' | '2'
+        environment: '1' | '2',
+        splitPart?: number,
+        payments?: BillPayment[],
+        tip?: BillTip
     ): Promise<any> {
         const billData: any = {
             id: existingId,
+            splitPart,
+            tip,
+            paymentMethod: payments?.[0]?.method,
+            payments,
             environment, // Persistir el ambiente de emisión — el badge PRUEBAS/PRODUCCIÓN del historial lo lee de aquí
             accessKey: undefined,
             documentNumber: `${invoice.info.estab}-${invoice.info.ptoEmi}-${invoice.info.secuencial}`,
             orderId: invoice.orderId,
+            orderIds: invoice.orderIds,
             date: new Date().toISOString(),
             documentType: 'Factura',
             customerName: invoice.info.razonSocialComprador,
@@ -329,7 +508,8 @@ export class GenerateInvoice {
                 quantity: d.cantidad,
                 price: parseFloat(((d.precioTotalSinImpuesto + (d.impuestos[0]?.valor || 0)) / d.cantidad).toFixed(6)),
                 total: d.precioTotalSinImpuesto + (d.impuestos[0]?.valor || 0),
-                taxRate: d.impuestos[0]?.tarifa ?? 15  // Guardar tasa de IVA por ítem (0%, 15%, etc.)
+                taxRate: d.impuestos[0]?.tarifa ?? 15,  // Guardar tasa de IVA por ítem (0%, 15%, etc.)
+                discountAmount: d.discountAmount // Con IVA: los reintentos y el RIDE recalculan el mismo descuento
             })),
             subtotal: invoice.info.totalSinImpuestos,
             tax: totalImpuestos,
@@ -519,35 +699,128 @@ export class GenerateInvoice {
     }
 
     /**
-     * Updates the order status after billing
+     * Deja la factura en ERROR con una entrada del errorLog por campo que incumple el XSD.
+     * Best-effort, igual que markBillPendingRetry.
      */
-    private async updateOrderStatus(orderId: string, isConsumidorFinal: boolean): Promise<void> {
-        await this.orderRepository.update(orderId, {
+    private async markBillSchemaInvalid(billId: string, message: string, violations: XSDViolation[]): Promise<void> {
+        const timestamp = new Date().toISOString();
+        try {
+            await this.billRepository.upsert({ id: billId, sriStatus: 'ERROR', sriMessage: message });
+            for (const violation of violations) {
+                await (this.billRepository as any).pushErrorLog(billId, {
+                    timestamp,
+                    sriStatus: 'ESQUEMA_INVALIDO',
+                    message: `${violation.path}: ${violation.message}`,
+                    attempt: 1
+                });
+            }
+        } catch (e) {
+            logger.warn('[GenerateInvoice] No se pudo registrar el error de esquema en la factura', {
+                billId, error: (e as Error)?.message
+            });
+        }
+    }
+
+    /**
+     * Updates the order status after billing.
+     * En una cuenta dividida registra la parte y solo completa el pedido con la última.
+     * Una factura consolidada completa todos sus pedidos en una sola transacción.
+     */
+    private async updateOrderStatus(
+        invoice: Invoice,
+        isConsumidorFinal: boolean,
+        splitPart?: number,
+        billId?: string
+    ): Promise<SplitProgress | undefined> {
+        const orderId = invoice.orderId;
+        if (splitPart) {
+            return this.registerSplitPart(orderId, splitPart, isConsumidorFinal, billId!, invoice);
+        }
+
+        if (invoice.orderIds?.length) {
+            const billedOrders = await this.orderRepository.markBilled(
+                invoice.orderIds, isConsumidorFinal ? 'Consumidor Final' : 'Factura'
+            );
+            for (const billedOrder of billedOrders) {
+                await this.inventoryService?.syncOrder(billedOrder);
+            }
+            return undefined;
+        }
+
+        const completedOrder = await this.orderRepository.update(orderId, {
             billed: true,
             status: OrderStatus.Completed,
             billingType: isConsumidorFinal ? 'Consumidor Final' : 'Factura'
         });
+        if (completedOrder) await this.inventoryService?.syncOrder(completedOrder);
+        return undefined;
+    }
+
+    private async registerSplitPart(
+        orderId: string,
+        partNumber: number,
+        isConsumidorFinal: boolean,
+        billId: string,
+        invoice: Invoice
+    ): Promise<SplitProgress | undefined> {
+        const order = await this.orderRepository.findById(orderId);
+        if (!order?.splitBilling) {
+            logger.warn('[GenerateInvoice] Factura de parte sin plan de división en el pedido', { orderId, partNumber });
+            return undefined;
+        }
+
+        const splitBilling = {
+            ...order.splitBilling,
+            parts: order.splitBilling.parts.map(p => p.part !== partNumber ? p : {
+                ...p,
+                billId,
+                documentNumber: `${invoice.info.estab}-${invoice.info.ptoEmi}-${invoice.info.secuencial}`,
+                consumidorFinal: isConsumidorFinal,
+                invoicedAt: p.invoicedAt || new Date()
+            })
+        };
+        const completed = isSplitFullyInvoiced(splitBilling);
+
+        const updatedOrder = await this.orderRepository.update(orderId, completed
+            ? { splitBilling, billed: true, status: OrderStatus.Completed, billingType: splitBillingType(splitBilling) }
+            : { splitBilling });
+        if (completed && updatedOrder) await this.inventoryService?.syncOrder(updatedOrder);
+
+        logger.info(`[GenerateInvoice] Parte ${partNumber}/${splitBilling.parts.length} facturada`, { orderId, completed });
+
+        return {
+            part: partNumber,
+            parts: splitBilling.parts.length,
+            invoicedParts: splitBilling.parts.filter(p => p.billId).length,
+            completed
+        };
     }
 
     /**
      * Handles email notification for authorized invoices
      */
     private async handleEmailNotification(
+        billId: string,
         authResult: any,
         client: any,
         invoice: Invoice,
         signedXml: string,
-        isConsumidorFinal: boolean
+        isConsumidorFinal: boolean,
+        config: RestaurantConfig | null
     ): Promise<EmailStatus> {
         const emailStatus: EmailStatus = { sent: false, skipped: false };
 
-        const isValidEmail = this.isValidClientEmail(client.email);
+        const isValidEmail = isDeliverableEmail(client.email);
 
         // Skip if not authorized, consumidor final, or invalid email
         if (authResult?.estado !== 'AUTORIZADO' || isConsumidorFinal || !isValidEmail) {
             emailStatus.skipped = true;
             emailStatus.skipReason = this.getEmailSkipReason(authResult?.estado, isConsumidorFinal, isValidEmail);
             logger.info(`[GenerateInvoice] Skipping email - ${emailStatus.skipReason}`);
+            // Sin autorizar aún no hay nada que registrar: CheckInvoiceStatus envía el email al autorizarse
+            if (authResult?.estado === 'AUTORIZADO') {
+                await this.recordEmailDelivery(billId, skippedDelivery(client.email, emailStatus.skipReason));
+            }
             return emailStatus;
         }
 
@@ -558,31 +831,29 @@ export class GenerateInvoice {
             invoice.authorizationDate = authResult.fechaAutorizacion;
         }
 
-        const pdfBuffer = await this.pdfService.generateInvoicePDF(invoice);
+        const pdfBuffer = await this.pdfService.generateInvoicePDF(invoice, printLayoutOf(config?.billing));
         const emailResult = await this.emailService.sendInvoiceEmail(client.email, invoice, pdfBuffer, signedXml);
 
-        emailStatus.sent = emailResult.success;
         if (!emailResult.success) {
-            emailStatus.error = emailResult.error;
             logger.warn(`[GenerateInvoice] Email failed: ${emailResult.error}`);
         } else {
             logger.info(`[GenerateInvoice] Email sent successfully. MessageId: ${emailResult.messageId}`);
         }
 
-        return emailStatus;
+        const delivery = deliveryFromResult(client.email, emailResult);
+        await this.recordEmailDelivery(billId, delivery);
+        return toEmailStatus(delivery);
     }
 
     /**
-     * Validates if client email is valid for sending
+     * Persists the email delivery state. Never fails the invoice: it is already authorized.
      */
-    private isValidClientEmail(email: string | undefined): boolean {
-        return !!(
-            email &&
-            !email.includes('consumidor@final') &&
-            !email.includes('noemail') &&
-            email.includes('@') &&
-            email.includes('.')
-        );
+    private async recordEmailDelivery(billId: string, delivery: EmailDelivery): Promise<void> {
+        try {
+            await this.billRepository.setEmailDelivery(billId, delivery);
+        } catch (error: any) {
+            logger.warn('[GenerateInvoice] No se pudo guardar el estado del email', { billId, error: error.message });
+        }
     }
 
     /**
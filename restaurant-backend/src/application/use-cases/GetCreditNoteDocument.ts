@@ -5,12 +5,13 @@
  * @purpose
  * Las notas de crédito no persisten su XML firmado; este use case lo reconstruye
  * usando EXACTAMENTE el mismo camino de cálculo que la emisión original
- * (BillingService.calculateDetails + XMLGenerator.generateCreditNoteXML con la
+ * (billDetails + XMLGenerator.generateCreditNoteXML con la
  * clave de acceso persistida), de modo que el documento descargado refleja lo
  * que se envió al SRI.
  *
  * @connections
- * - Usado por: CreditNoteController (GET /credit-notes/:id/xml y /:id/pdf)
+ * - Usado por: CreditNoteController (GET /credit-notes/:id/xml y /:id/pdf),
+ *   ResendDocumentEmails (reenvío por email)
  * - Usa: ICreditNoteRepository, IBillRepository, IRestaurantConfigRepository,
  *        SRIService, PDFService, BillingService
  *
@@ -23,7 +24,10 @@ import { ICreditNoteRepository } from '../../domain/repositories/ICreditNoteRepo
 import { IBillRepository } from '../../domain/repositories/IBillRepository';
 import { IRestaurantConfigRepository } from '../../domain/repositories/IRestaurantConfigRepository';
 import { BillingService } from '../services/BillingService';
+import { billDetails } from '../services/billInvoice';
 import { CreditNote as BillingCreditNote } from '../../domain/billing/creditNote';
+import { totalDiscount } from '../../domain/billing/discounts';
+import { printLayoutOf } from '../../domain/billing/printLayout';
 import { NotFoundError } from '../../domain/errors/CustomErrors';
 import { logger } from '../../infrastructure/utils/Logger';
 
@@ -49,12 +53,23 @@ export class GetCreditNoteDocument {
 
     /** Devuelve el PDF (RIDE) de la nota de crédito */
     async getPdf(id: string): Promise<{ pdf: Buffer; documentNumber: string }> {
-        const { billingNC, documentNumber } = await this.buildBillingCreditNote(id);
+        const { billingNC, config, documentNumber } = await this.buildBillingCreditNote(id);
 
-        const pdf = await this.pdfService.generateCreditNotePDF(billingNC);
+        const pdf = await this.pdfService.generateCreditNotePDF(billingNC, printLayoutOf(config?.billing));
         return { pdf, documentNumber };
     }
 
+    /** Nota de crédito, RIDE y XML firmado para adjuntar al email */
+    async getEmailAttachments(id: string): Promise<{ creditNote: BillingCreditNote; pdf: Buffer; signedXml: string }> {
+        const { billingNC, config } = await this.buildBillingCreditNote(id);
+
+        const xml = this.sriService.generateCreditNoteXML(billingNC, billingNC.info.claveAcceso || undefined);
+        const signedXml = await this.sriService.signXML(xml, config || undefined);
+        const pdf = await this.pdfService.generateCreditNotePDF(billingNC, printLayoutOf(config?.billing));
+
+        return { creditNote: billingNC, pdf, signedXml };
+    }
+
     /**
      * Reconstruye el objeto de dominio de la NC desde la entidad persistida,
      * la factura original y la configuración — mismo mapeo que GenerateCreditNote.
@@ -76,10 +91,9 @@ export class GetCreditNoteDocument {
         }
 
         const info: any = config || {};
-        const taxRate: number = info.billing?.taxRate ?? 15;
 
-        // Mismo cálculo de detalles que la emisión original
-        const details = this.billingService.calculateDetails(originalBill.items, taxRate);
+        // Mismo cálculo de detalles que la emisión original (tarifa del día de la factura)
+        const { details, taxRate } = billDetails(this.billingService, originalBill, info.billing);
         const subtotal = details.reduce((sum, d) => sum + d.precioTotalSinImpuesto, 0);
         const totalImpuestos = details.reduce((sum, d) => sum + d.impuestos[0].valor, 0);
         const total = subtotal + totalImpuestos;
@@ -124,7 +138,7 @@ export class GetCreditNoteDocument {
                 motivo: entity.reasonDescription || entity.reason,
 
                 totalSinImpuestos: subtotal,
-                totalDescuento: 0,
+                totalDescuento: totalDiscount(details),
                 totalImpuestos: [],
                 importeTotal: total,
                 moneda: 'DOLAR',
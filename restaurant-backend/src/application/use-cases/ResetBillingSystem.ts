@@ -5,13 +5,16 @@
  * 
  * Acciones:
  * 1. Elimina TODAS las facturas de la base de datos using BillModel directly (faster for bulk delete).
- * 2. Elimina TODAS las notas de crédito.
+ * 2. Elimina TODAS las notas de crédito y liquidaciones de compra.
  * 3. Reinicia las secuencias de facturación en RestaurantConfig a 0.
  * 4. Actualiza todas las órdenes a estado "no facturado" (billed: false).
  */
 
 import { BillModel } from '../../infrastructure/database/schemas/BillSchema';
 import { CreditNoteModel } from '../../infrastructure/database/schemas/CreditNoteSchema';
+import { PurchaseSettlementModel } from '../../infrastructure/database/schemas/PurchaseSettlementSchema';
+import { DebitNoteModel } from '../../infrastructure/database/schemas/DebitNoteSchema';
+import { WithholdingModel } from '../../infrastructure/database/schemas/WithholdingSchema';
 import { OrderModel } from '../../infrastructure/database/schemas/OrderSchema';
 import { RestaurantConfigModel } from '../../infrastructure/database/schemas/RestaurantConfigSchema';
 import { logger } from '../../infrastructure/utils/Logger';
@@ -34,7 +37,9 @@ export class ResetBillingSystem {
                     $set: {
                         'billing.currentSequenceFactura': 0,
                         'billing.currentSequenceNotaCredito': 0,
-                        'billing.currentSequenceNotaVenta': 0
+                        'billing.currentSequenceNotaVenta': 0,
+                        'billing.currentSequenceLiquidacionCompra': 0,
+                        'billing.currentSequenceNotaDebito': 0
                     }
                 }
             );
@@ -51,16 +56,26 @@ export class ResetBillingSystem {
             const creditNotesResult = await CreditNoteModel.deleteMany({});
             logger.info(`✅ Notas de crédito eliminadas: ${creditNotesResult.deletedCount}`);
 
+            const settlementsResult = await PurchaseSettlementModel.deleteMany({});
+            logger.info(`✅ Liquidaciones de compra eliminadas: ${settlementsResult.deletedCount}`);
+
+            const debitNotesResult = await DebitNoteModel.deleteMany({});
+            logger.info(`✅ Notas de débito eliminadas: ${debitNotesResult.deletedCount}`);
+
+            // Las retenciones recibidas apuntan a facturas que ya no existen
+            const withholdingsResult = await WithholdingModel.deleteMany({});
+            logger.info(`✅ Retenciones recibidas eliminadas: ${withholdingsResult.deletedCount}`);
+
             // 4. Resetear estado de órdenes
             const ordersResult = await OrderModel.updateMany(
                 { billed: true },
-                { $set: { billed: false } }
+                { $set: { billed: false }, $unset: { billingClaim: 1 } }
             );
             logger.info(`✅ Órdenes actualizadas a no facturadas: ${ordersResult.modifiedCount}`);
 
             return {
                 success: true,
-                message: `Sistema reseteado correctamente. Facturas eliminadas: ${billsResult.deletedCount}. Notas de crédito eliminadas: ${creditNotesResult.deletedCount}. Órdenes reseteadas: ${ordersResult.modifiedCount}.`
+                message: `Sistema reseteado correctamente. Facturas eliminadas: ${billsResult.deletedCount}. Notas de crédito eliminadas: ${creditNotesResult.deletedCount}. Liquidaciones de compra eliminadas: ${settlementsResult.deletedCount}. Notas de débito eliminadas: ${debitNotesResult.deletedCount}. Retenciones eliminadas: ${withholdingsResult.deletedCount}. Órdenes reseteadas: ${ordersResult.modifiedCount}.`
             };
 
         } catch (error: any) {
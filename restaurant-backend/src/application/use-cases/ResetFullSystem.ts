@@ -15,6 +15,9 @@
 
 import { BillModel } from '../../infrastructure/database/schemas/BillSchema';
 import { CreditNoteModel } from '../../infrastructure/database/schemas/CreditNoteSchema';
+import { PurchaseSettlementModel } from '../../infrastructure/database/schemas/PurchaseSettlementSchema';
+import { DebitNoteModel } from '../../infrastructure/database/schemas/DebitNoteSchema';
+import { WithholdingModel } from '../../infrastructure/database/schemas/WithholdingSchema';
 import { CustomerModel } from '../../infrastructure/database/schemas/CustomerSchema';
 import { MenuItemModel } from '../../infrastructure/database/schemas/MenuItemSchema';
 import { OrderModel } from '../../infrastructure/database/schemas/OrderSchema';
@@ -31,7 +34,10 @@ export class ResetFullSystem {
             // 1. Eliminar Facturación
             const bills = await BillModel.deleteMany({});
             const creditNotes = await CreditNoteModel.deleteMany({});
-            logger.info(`✅ Facturación borrada: ${bills.deletedCount} facturas, ${creditNotes.deletedCount} notas de crédito`);
+            const settlements = await PurchaseSettlementModel.deleteMany({});
+            const debitNotes = await DebitNoteModel.deleteMany({});
+            const withholdings = await WithholdingModel.deleteMany({});
+            logger.info(`✅ Facturación borrada: ${bills.deletedCount} facturas, ${creditNotes.deletedCount} notas de crédito, ${settlements.deletedCount} liquidaciones de compra, ${debitNotes.deletedCount} notas de débito, ${withholdings.deletedCount} retenciones recibidas`);
 
             // 2. Eliminar Datos Operativos
             const customers = await CustomerModel.deleteMany({});
@@ -63,6 +69,8 @@ export class ResetFullSystem {
                     currentSequenceFactura: 0,
                     currentSequenceNotaCredito: 0,
                     currentSequenceNotaVenta: 0,
+                    currentSequenceLiquidacionCompra: 0,
+                    currentSequenceNotaDebito: 0,
                     taxRate: 15,
                     environment: '1'
                 }
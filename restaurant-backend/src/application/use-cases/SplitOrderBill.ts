@@ -0,0 +1,72 @@
+/**
+ * @file SplitOrderBill.ts
+ * @description Caso de uso para definir (o quitar) la división de cuenta de un pedido
+ *
+ * @purpose
+ * Guarda el plan que reparte los ítems del pedido en N partes, cada una
+ * facturada por separado con sus propios datos de cliente (GenerateInvoice
+ * con splitPart). Los precios y totales de las partes salen del pedido, no
+ * de lo que envía el POS. El plan queda bloqueado en cuanto se factura una parte.
+ *
+ * @connections
+ * - Usa: IOrderRepository (domain/repositories)
+ * - Usa: priceSplitPlan, validateSplitPlan (domain/billing/splitBill)
+ * - Usa: IOrderEventPublisher (application/interfaces) - notifica order:updated
+ * - Usado por: orderRoutes (infrastructure/web/routes)
+ * - Inyectado por: DIContainer (infrastructure/di)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { Order, SplitBilling } from '../../domain/entities/Order';
+import { IOrderRepository } from '../../domain/repositories/IOrderRepository';
+import { NotFoundError, ValidationError } from '../../domain/errors/CustomErrors';
+import { priceSplitPlan, validateSplitPlan, isPartInvoiced } from '../../domain/billing/splitBill';
+import { IOrderEventPublisher } from '../interfaces/IOrderEventPublisher';
+
+export class SplitOrderBill {
+    constructor(
+        private orderRepository: IOrderRepository,
+        private eventPublisher?: IOrderEventPublisher
+    ) { }
+
+    /**
+     * @param plan Plan de división; null para volver a cuenta única
+     */
+    async execute(orderId: string, plan: SplitBilling | null): Promise<Order> {
+        const order = await this.orderRepository.findById(orderId);
+        if (!order) {
+            throw new NotFoundError(`Order with ID ${orderId} not found`, 'Order');
+        }
+        if (order.billed) {
+            throw new ValidationError('El pedido ya está facturado');
+        }
+        if (order.splitBilling?.parts.some(isPartInvoiced)) {
+            throw new ValidationError('Ya se facturó una parte: la división no se puede modificar');
+        }
+
+        let splitBilling: SplitBilling | null = null;
+        if (plan) {
+            // Del plan solo cuentan las unidades de cada parte; el estado de facturación lo escribe GenerateInvoice
+            splitBilling = {
+                mode: plan.mode,
+                parts: priceSplitPlan(order, plan.parts).map(p => ({
+                    ...p,
+                    billId: null,
+                    documentNumber: null,
+                    invoicedAt: null
+                }))
+            };
+            validateSplitPlan(order, splitBilling);
+        }
+
+        const updated = await this.orderRepository.update(orderId, { splitBilling });
+        if (!updated) {
+            throw new NotFoundError(`Order with ID ${orderId} not found`, 'Order');
+        }
+
+        this.eventPublisher?.publish('order:updated', updated.id, updated);
+
+        return updated;
+    }
+}
@@ -1,10 +1,17 @@
 import { IMenuRepository } from '../../domain/repositories/IMenuRepository';
 import { MenuItem } from '../../domain/entities/MenuItem';
+import { normalizeModifierGroups } from '../../domain/menu/modifiers';
 
 export class UpdateMenu {
     constructor(private menuRepository: IMenuRepository) { }
 
     async execute(id: string, data: Partial<MenuItem>): Promise<MenuItem | null> {
+        // La receta se edita desde inventario (SetMenuItemRecipe), que valida los ingredientes
+        const { recipe: _recipe, ...rest } = data;
+        data = rest;
+        if (data.modifierGroups !== undefined) {
+            data = { ...data, modifierGroups: normalizeModifierGroups(data.modifierGroups) };
+        }
         return this.menuRepository.update(id, data);
     }
 }
@@ -5,31 +5,181 @@
 
 import { Order, OrderStatus } from '../../domain/entities/Order';
 import { IOrderRepository } from '../../domain/repositories/IOrderRepository';
-import { NotFoundError } from '../../domain/errors/CustomErrors';
+import { ConflictError, NotFoundError, ValidationError } from '../../domain/errors/CustomErrors';
+import { isPartInvoiced } from '../../domain/billing/splitBill';
+import { hasNewDiscounts, stampOrderDiscounts } from '../../domain/billing/discounts';
+import { assertStatusTransition, withStatusChange } from '../../domain/orders/lifecycle';
+import { IOrderEventPublisher, OrderEventType } from '../interfaces/IOrderEventPublisher';
+import { KitchenStationRouter } from '../services/KitchenStationRouter';
+import { InventoryService } from '../services/InventoryService';
+import { DiscountAuthorizer } from '../services/DiscountAuthorizer';
+
+/**
+ * Datos de sincronización de una edición hecha sin conexión
+ * - baseUpdatedAt: versión del pedido sobre la que se editó
+ * - clientUpdateId: ID de la edición en la cola del POS (reintentos idempotentes)
+ */
+export interface OrderSyncOptions {
+    baseUpdatedAt?: string | Date | null;
+    clientUpdateId?: string | null;
+}
 
 export class UpdateOrder {
-    constructor(private orderRepository: IOrderRepository) { }
+    constructor(
+        private orderRepository: IOrderRepository,
+        private eventPublisher?: IOrderEventPublisher,
+        private stationRouter?: KitchenStationRouter,
+        private inventoryService?: InventoryService,
+        private discountAuthorizer?: DiscountAuthorizer
+    ) { }
 
-    async execute(id: string, updates: Partial<Order>): Promise<Order> {
+    /**
+     * @param updatedBy usuario que hace el cambio (queda en el historial de estados)
+     * @param discountAuthorization aprobación firmada de un gerente para los descuentos nuevos (AuthorizeDiscount)
+     */
+    async execute(
+        id: string,
+        updates: Partial<Order>,
+        updatedBy?: string,
+        sync: OrderSyncOptions = {},
+        discountAuthorization?: string | null
+    ): Promise<Order> {
         const currentOrder = await this.orderRepository.findById(id);
         if (!currentOrder) {
             throw new NotFoundError(`Order with ID ${id} not found`);
         }
 
+        // La misma edición reenviada (se perdió la respuesta): ya está aplicada
+        if (sync.clientUpdateId && currentOrder.lastClientUpdateId === sync.clientUpdateId) {
+            return currentOrder;
+        }
+        this.assertNotStale(currentOrder, sync.baseUpdatedAt);
+        if (currentOrder.status === OrderStatus.Cancelled) {
+            throw new ValidationError('El pedido está cancelado: no se puede modificar');
+        }
+
+        // El historial, la cancelación, el inventario y los datos de sincronización solo los escribe el servidor
+        delete updates.statusHistory;
+        delete updates.cancellation;
+        delete updates.stockDeduction;
+        delete updates.updatedAt;
+        delete updates.clientRequestId;
+        delete updates.lastClientUpdateId;
+        if (sync.clientUpdateId) updates.lastClientUpdateId = sync.clientUpdateId;
+        if (updates.status !== undefined) {
+            assertStatusTransition(currentOrder.status, updates.status);
+        }
+
+        // Descuentos: uno nuevo o modificado lo autoriza quien edita, si su rol lo permite, o el gerente que lo aprobó
+        if (updates.items || updates.discount !== undefined) {
+            const requested = {
+                items: updates.items || currentOrder.items,
+                discount: updates.discount !== undefined ? updates.discount : currentOrder.discount
+            };
+            const authorizedBy = this.discountAuthorizer && hasNewDiscounts(requested, currentOrder)
+                ? await this.discountAuthorizer.resolve(updatedBy, discountAuthorization)
+                : updatedBy;
+            const discounted = stampOrderDiscounts(requested, currentOrder, authorizedBy);
+            if (updates.items) updates.items = discounted.items;
+            updates.discount = discounted.discount;
+        }
+
+        // La mesa solo aplica a consumo en el local: un pedido que pasa a Delivery o Para Llevar la libera
+        if ((updates.type ?? currentOrder.type) !== 'En Local' && (updates.tableId || currentOrder.tableId)) {
+            updates.tableId = null;
+        }
+
+        // La división de cuenta solo la escriben SplitOrderBill y GenerateInvoice
+        delete updates.splitBilling;
+        if ((updates.items || updates.discount !== undefined) && currentOrder.splitBilling && this.itemsChanged(currentOrder, updates)) {
+            if (currentOrder.splitBilling.parts.some(isPartInvoiced)) {
+                throw new ValidationError('El pedido tiene partes ya facturadas: no se pueden modificar sus ítems');
+            }
+            // El plan ya no cuadra con los nuevos ítems: se vuelve a cuenta única
+            updates.splitBilling = null;
+        }
+
+        // Los ítems agregados en la edición van a su estación de cocina
+        if (updates.items && this.stationRouter) {
+            updates.items = await this.stationRouter.route(updates.items);
+        }
+
         // Lógica de transición de estado incremental
         if (updates.items) {
             const hasUnpreparedItems = updates.items.some(item => !item.prepared);
-            if (hasUnpreparedItems && (currentOrder.status === OrderStatus.Ready || currentOrder.status === OrderStatus.Completed)) {
+            const reopened = [OrderStatus.Ready, OrderStatus.Delivered, OrderStatus.Completed].includes(currentOrder.status);
+            if (hasUnpreparedItems && reopened) {
                 updates.status = OrderStatus.New;
                 updates.readyAt = null;
             }
         }
 
+        // La cocina empezó: fijó un tiempo estimado o marcó un plato
+        if (updates.status === undefined && currentOrder.status === OrderStatus.New) {
+            const startedItems = updates.items?.some(item => item.prepared);
+            if (startedItems || updates.estimatedMinutes) {
+                updates.status = OrderStatus.InPreparation;
+            }
+        }
+
+        if (updates.status !== undefined) {
+            Object.assign(updates, withStatusChange(currentOrder, updates.status, updatedBy));
+        }
+
         const order = await this.orderRepository.update(id, updates);
         if (!order) {
             throw new NotFoundError(`Order with ID ${id} not found`);
         }
 
+        this.eventPublisher?.publish(this.resolveEventType(currentOrder, order), order.id, order);
+
+        // Ítems editados o pedido completado: el inventario ajusta solo la diferencia
+        if (updates.items || order.status !== currentOrder.status) {
+            await this.inventoryService?.syncOrder(order, updatedBy);
+        }
+
         return order;
     }
+
+    /**
+     * Una edición sin conexión se hizo sobre la versión baseUpdatedAt: si otro
+     * dispositivo cambió el pedido después, se informa el conflicto en vez de pisarlo.
+     */
+    private assertNotStale(current: Order, baseUpdatedAt?: string | Date | null): void {
+        if (!baseUpdatedAt || !current.updatedAt) return;
+        const base = new Date(baseUpdatedAt).getTime();
+        if (Number.isNaN(base)) {
+            throw new ValidationError('baseUpdatedAt no es una fecha válida');
+        }
+        if (new Date(current.updatedAt).getTime() > base) {
+            throw new ConflictError(
+                `El pedido #${current.orderNumber || current.id} cambió en otro dispositivo mientras se editaba sin conexión`,
+                { order: current }
+            );
+        }
+    }
+
+    private itemsChanged(before: Order, updates: Partial<Order>): boolean {
+        const signature = (items: Order['items']) =>
+            JSON.stringify((items || []).map(i => [i.name, i.quantity, i.price, i.discount?.amount ?? null]));
+        return signature(before.items) !== signature(updates.items || before.items)
+            || (before.discount?.amount ?? null) !== (updates.discount?.amount ?? null);
+    }
+
+    /**
+     * Clasifica el cambio para que los dispositivos puedan reaccionar
+     * (ej. aviso en el POS cuando la cocina marca un pedido como listo).
+     */
+    private resolveEventType(before: Order, after: Order): OrderEventType {
+        if (after.status !== before.status) {
+            if (after.status === OrderStatus.Ready) return 'order:ready';
+            if (after.status === OrderStatus.Completed) return 'order:completed';
+        }
+
+        const preparedBefore = (before.items || []).filter(item => item.prepared).length;
+        const preparedAfter = (after.items || []).filter(item => item.prepared).length;
+        if (preparedAfter > preparedBefore) return 'order:item-prepared';
+
+        return 'order:updated';
+    }
 }
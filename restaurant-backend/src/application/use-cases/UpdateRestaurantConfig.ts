@@ -2,18 +2,75 @@
  * Use Case: Actualizar Configuración del Restaurante
  * 
  * Actualiza la configuración del restaurante con los valores proporcionados.
+ * La tabla de tarifas de IVA no puede cambiar el tramo de días con facturas de
+ * producción ya emitidas: sus comprobantes se regeneran con ese tramo.
  */
 
 import { IRestaurantConfigRepository } from '../../domain/repositories/IRestaurantConfigRepository';
+import { IBillRepository } from '../../domain/repositories/IBillRepository';
 import { RestaurantConfig } from '../../domain/entities/RestaurantConfig';
+import { normalizeKitchenStations } from '../../domain/kitchen/stations';
+import { ValidationError } from '../../domain/errors/CustomErrors';
+import { TaxRatePeriod, changedTaxDays, ecuadorDay, generalTaxRate, normalizeTaxSchedule, taxScheduleOf } from '../../domain/billing/taxRates';
+import { PRODUCTION_ENVIRONMENT } from '../../domain/billing/invoice';
+import { normalizePrintLayout } from '../../domain/billing/printLayout';
 
 export class UpdateRestaurantConfig {
-    constructor(private configRepository: IRestaurantConfigRepository) { }
+    constructor(
+        private configRepository: IRestaurantConfigRepository,
+        private billRepository: IBillRepository
+    ) { }
 
     async execute(config: Partial<RestaurantConfig>): Promise<RestaurantConfig> {
         // Remover campos que no deben ser actualizados por el usuario
         const { id, createdAt, updatedAt, ...updateData } = config as any;
 
+        if (updateData.kitchenStations !== undefined) {
+            updateData.kitchenStations = normalizeKitchenStations(updateData.kitchenStations);
+        }
+        if (updateData.inventoryDeductOn !== undefined && !['created', 'completed'].includes(updateData.inventoryDeductOn)) {
+            throw new ValidationError('Momento de descuento de inventario inválido');
+        }
+        if (updateData.billing?.taxSchedule !== undefined) {
+            const taxSchedule = normalizeTaxSchedule(updateData.billing.taxSchedule);
+            await this.assertIssuedDaysKept(taxSchedule, updateData.billing.taxRate);
+            // taxRate queda con la tarifa vigente hoy (lo que muestran las pantallas)
+            updateData.billing = taxSchedule.length
+                ? { ...updateData.billing, taxSchedule, taxRate: generalTaxRate({ taxSchedule }) }
+                : { ...updateData.billing, taxSchedule };
+        }
+        if (updateData.billing?.printLayout !== undefined) {
+            updateData.billing = { ...updateData.billing, printLayout: normalizePrintLayout(updateData.billing.printLayout) };
+        }
+
         return await this.configRepository.update(updateData);
     }
+
+    /**
+     * Los días con facturas de producción emitidas conservan su tramo de IVA
+     * @throws ValidationError si la tabla nueva le cambia la tarifa o el código a uno de esos días
+     */
+    private async assertIssuedDaysKept(taxSchedule: TaxRatePeriod[], taxRate: number | undefined): Promise<void> {
+        const current = (await this.configRepository.get())?.billing;
+        // Sin tabla guardada no hay tramos que proteger: la primera tabla parte de billing.taxRate
+        if (!current?.taxSchedule?.length) return;
+
+        const next = taxScheduleOf({ taxRate: taxRate ?? current.taxRate, taxSchedule });
+        for (const range of changedTaxDays(taxScheduleOf(current), next)) {
+            // date se guarda como ISO en UTC; el día empieza a las 00:00 de Ecuador
+            const filter: Record<string, any> = { environment: PRODUCTION_ENVIRONMENT };
+            if (range.from || range.to) filter.date = {};
+            if (range.from) filter.date.$gte = new Date(`${range.from}T00:00:00-05:00`).toISOString();
+            if (range.to) filter.date.$lt = new Date(`${range.to}T00:00:00-05:00`).toISOString();
+
+            const issued = await this.billRepository.findPaginated(1, 1, filter, { date: 1 });
+            const bill = issued.data[0];
+            if (bill) {
+                throw new ValidationError(
+                    `No se puede cambiar el IVA del ${ecuadorDay(new Date(bill.date))}: la factura ${bill.documentNumber} ya se emitió con ese tramo`,
+                    { field: 'billing.taxSchedule' }
+                );
+            }
+        }
+    }
 }
@@ -0,0 +1,74 @@
+/**
+ * @file VerifyDocumentSignature.ts
+ * @description Caso de uso para verificar la firma y la integridad de un comprobante
+ *
+ * @purpose
+ * Prueba que el XML firmado guardado en una factura (`xmlContent`), o uno que
+ * sube el usuario, está intacto y correctamente firmado: firma XAdES-BES y
+ * digests, certificado vigente al firmar y su cadena, dígito verificador de la
+ * clave de acceso y RUC emisor igual al configurado. Para facturas guardadas
+ * además confirma que la clave de acceso del XML es la registrada en la factura.
+ *
+ * @connections
+ * - Usa: IBillRepository, IRestaurantConfigRepository (domain/repositories)
+ * - Usa: SRIService (infrastructure/services) - SignatureVerifier
+ * - Usado por: BillController (GET /bills/:id/verify, POST /bills/verify)
+ * - Inyectado por: BillingModule (infrastructure/di/modules)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { SRIService } from '../../infrastructure/services/SRIService';
+import { IBillRepository } from '../../domain/repositories/IBillRepository';
+import { IRestaurantConfigRepository } from '../../domain/repositories/IRestaurantConfigRepository';
+import { DocumentVerificationReport } from '../../infrastructure/services/sri/types';
+import { verificationVerdict } from '../../infrastructure/services/sri/SignatureVerifier';
+import { NotFoundError, ValidationError } from '../../domain/errors/CustomErrors';
+import { logger } from '../../infrastructure/utils/Logger';
+
+export class VerifyDocumentSignature {
+    constructor(
+        private billRepository: IBillRepository,
+        private configRepository: IRestaurantConfigRepository,
+        private sriService: SRIService
+    ) { }
+
+    /** Verifica un XML subido (comprobante suelto o respuesta de autorización del SRI) */
+    async execute(xmlContent: string): Promise<DocumentVerificationReport> {
+        if (!xmlContent || typeof xmlContent !== 'string') {
+            throw new ValidationError('Se requiere el XML del comprobante', { field: 'xml' });
+        }
+        const config = await this.configRepository.get();
+        return this.sriService.verifyDocument(xmlContent, config?.ruc);
+    }
+
+    /** Verifica el XML firmado guardado en la factura */
+    async executeForBill(billId: string): Promise<DocumentVerificationReport> {
+        const bill = await this.billRepository.findById(billId);
+        if (!bill) {
+            throw new NotFoundError('La factura no existe en el registro.', 'Bill');
+        }
+        if (!bill.xmlContent) {
+            throw new ValidationError('Esta factura no tiene un XML firmado guardado', { field: 'xmlContent' });
+        }
+
+        const report = await this.execute(bill.xmlContent);
+
+        if (bill.accessKey) {
+            const matches = report.accessKey === bill.accessKey;
+            report.checks.push({
+                id: 'stored-access-key',
+                label: 'Clave de acceso registrada',
+                status: matches ? 'OK' : 'FAIL',
+                detail: matches
+                    ? 'El XML guardado corresponde a la clave de acceso de la factura'
+                    : `El XML guardado tiene la clave ${report.accessKey || '(vacía)'}, distinta a la registrada en la factura`
+            });
+            report.verdict = verificationVerdict(report.checks);
+            report.valid = report.verdict === 'VALID';
+        }
+
+        logger.info('Stored bill XML verified', { billId, documentNumber: bill.documentNumber, verdict: report.verdict });
+        return report;
+    }
+}
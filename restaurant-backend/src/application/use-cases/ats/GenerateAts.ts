@@ -0,0 +1,271 @@
+/**
+ * @file GenerateAts.ts
+ * @description Caso de uso para generar el Anexo Transaccional Simplificado (ATS) mensual
+ *
+ * @purpose
+ * Arma el ATS del mes (módulo de ventas) a partir de los comprobantes
+ * AUTORIZADOS de producción: facturas (18), notas de crédito (04) y de débito
+ * (05) agrupadas por identificación del cliente, con las retenciones
+ * registradas en cada factura. Una factura anulada con nota de crédito fue una
+ * venta autorizada: se reporta en ventas (18) y su nota resta como 04, aunque
+ * ambas sean del mismo mes (<anulados> es solo para la anulación ante el SRI).
+ * El resultado se valida con las reglas del anexo y con la estructura del
+ * esquema antes de entregarlo: el DIMM rechaza el archivo completo por un error.
+ *
+ * @connections
+ * - Usa: IRestaurantConfigRepository, IBillRepository, ICreditNoteRepository, IDebitNoteRepository (domain/repositories)
+ * - Usa: SRIService (infrastructure/services) - XML del ATS y verificación de estructura
+ * - Usa: BillingService (application/services) - tipo de identificación del cliente
+ * - Usado por: ExportController (interfaces/http/controllers)
+ * - Inyectado por: BillingModule (infrastructure/di/modules)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { SRIService } from '../../../infrastructure/services/SRIService';
+import { BillingService } from '../../services/BillingService';
+import { IRestaurantConfigRepository } from '../../../domain/repositories/IRestaurantConfigRepository';
+import { IBillRepository } from '../../../domain/repositories/IBillRepository';
+import { ICreditNoteRepository } from '../../../domain/repositories/ICreditNoteRepository';
+import { IDebitNoteRepository } from '../../../domain/repositories/IDebitNoteRepository';
+import { Bill } from '../../../domain/entities/Bill';
+import { CreditNote } from '../../../domain/entities/CreditNote';
+import { DebitNote } from '../../../domain/entities/DebitNote';
+import {
+    AtsReport,
+    AtsSaleDetail,
+    AtsSaleDocumentType,
+    AtsEstablishmentSales,
+    ATS_CONSUMIDOR_FINAL_ID,
+    atsSaleBase,
+    atsText,
+    validateAtsReport
+} from '../../../domain/billing/ats';
+import { computeBreakdown, monthRangeEcuador } from '../../../domain/billing/taxReport';
+import { CASH_PAYMENT_METHOD } from '../../../domain/billing/payments';
+import { PRODUCTION_ENVIRONMENT } from '../../../domain/billing/invoice';
+import { ValidationError } from '../../../domain/errors/CustomErrors';
+import { logger } from '../../../infrastructure/utils/Logger';
+
+export interface GenerateAtsResult {
+    xml: string;
+    /** ATS-MMAAAA.xml, nombre que espera el DIMM */
+    fileName: string;
+    report: AtsReport;
+}
+
+/** Comprobante de venta ya resuelto para agrupar en <detalleVentas> */
+interface SaleDocument {
+    tipoComprobante: AtsSaleDocumentType;
+    customerIdentification: string;
+    customerName: string;
+    documentNumber: string;
+    items: any[];
+    withheldIva: number;
+    withheldRenta: number;
+    paymentMethods: string[];
+}
+
+const NOTES_PAGE_SIZE = 100;
+const r2 = (n: number) => Math.round(n * 100) / 100;
+
+export class GenerateAts {
+    constructor(
+        private configRepository: IRestaurantConfigRepository,
+        private billRepository: IBillRepository,
+        private creditNoteRepository: ICreditNoteRepository,
+        private debitNoteRepository: IDebitNoteRepository,
+        private sriService: SRIService,
+        private billingService: BillingService
+    ) { }
+
+    async execute(month: number, year: number): Promise<GenerateAtsResult> {
+        if (!Number.isInteger(month) || month < 1 || month > 12 || !Number.isInteger(year) || year < 2020 || year > 2100) {
+            throw new ValidationError('Parámetros inválidos: se requiere month (1-12) y year', { field: 'month' });
+        }
+
+        const config = await this.configRepository.get();
+        if (!config?.ruc) {
+            throw new ValidationError('Configure el RUC del restaurante antes de generar el ATS', { field: 'ruc' });
+        }
+
+        const mm = month.toString().padStart(2, '0');
+        const targetKey = `${year}-${mm}`;
+        // El anexo se presenta al SRI: los comprobantes de pruebas no tienen valor tributario
+        const { from, to } = monthRangeEcuador(year, month);
+
+        // Una factura con nota de crédito autorizada queda CANCELLED, pero fue una venta autorizada
+        const bills = (await this.billRepository.findIssuedBetween(from, to, PRODUCTION_ENVIRONMENT)).filter(b =>
+            b.documentType === 'Factura' &&
+            (b.sriStatus === 'AUTORIZADO' || b.sriStatus === 'CANCELLED')
+        );
+        const creditNotes = await this.loadAuthorized(this.creditNoteRepository, from, to) as CreditNote[];
+        const debitNotes = await this.loadAuthorized(this.debitNoteRepository, from, to) as DebitNote[];
+
+        const sales: SaleDocument[] = [
+            ...bills.map(b => this.fromBill(b)),
+            ...creditNotes.map(nc => ({
+                tipoComprobante: '04' as const,
+                customerIdentification: nc.customerIdentification,
+                customerName: nc.customerName,
+                documentNumber: nc.documentNumber,
+                items: nc.items,
+                withheldIva: 0,
+                withheldRenta: 0,
+                paymentMethods: []
+            })),
+            ...debitNotes.map(nd => ({
+                tipoComprobante: '05' as const,
+                customerIdentification: nd.customerIdentification,
+                customerName: nd.customerName,
+                documentNumber: nd.documentNumber,
+                items: nd.items,
+                withheldIva: 0,
+                withheldRenta: 0,
+                paymentMethods: []
+            }))
+        ];
+
+        const ventas = this.groupSales(sales);
+        const ventasEstablecimiento = this.salesByEstablishment(sales);
+        const totalVentas = r2(ventasEstablecimiento.reduce((sum, e) => sum + e.ventasEstab, 0));
+
+        const report: AtsReport = {
+            TipoIDInformante: 'R',
+            IdInformante: config.ruc,
+            razonSocial: atsText(config.businessName, 500),
+            Anio: String(year),
+            Mes: mm,
+            numEstabRuc: String(Math.max(1, ventasEstablecimiento.length)).padStart(3, '0'),
+            totalVentas,
+            codigoOperativo: 'IVA',
+            ventas,
+            ventasEstablecimiento,
+            anulados: []
+        };
+
+        const errors = validateAtsReport(report);
+        if (errors.length > 0) {
+            throw new ValidationError('El ATS tiene errores que el SRI rechazaría', { errors });
+        }
+
+        const xml = this.sriService.generateATSXML(report);
+        const structureErrors = this.sriService.validateATSXML(xml);
+        if (structureErrors.length > 0) {
+            throw new ValidationError('El XML del ATS no cumple la estructura del anexo', { errors: structureErrors });
+        }
+
+        logger.info('[GenerateAts] ATS generated', {
+            period: targetKey,
+            bills: bills.length,
+            creditNotes: creditNotes.length,
+            debitNotes: debitNotes.length,
+            totalVentas
+        });
+
+        return { xml, fileName: `ATS-${mm}${year}.xml`, report };
+    }
+
+    /** Notas AUTORIZADAS de producción emitidas en [from, to), página por página */
+    private async loadAuthorized(
+        repository: Pick<ICreditNoteRepository | IDebitNoteRepository, 'findPaginated'>,
+        from: Date,
+        to: Date
+    ): Promise<Array<CreditNote | DebitNote>> {
+        const filter = {
+            sriStatus: 'AUTORIZADO',
+            environment: PRODUCTION_ENVIRONMENT,
+            date: { $gte: from.toISOString(), $lt: to.toISOString() }
+        };
+        const docs: Array<CreditNote | DebitNote> = [];
+        for (let page = 1; ; page++) {
+            const result = await repository.findPaginated(page, NOTES_PAGE_SIZE, filter, { createdAt: -1 });
+            docs.push(...result.data);
+            if (page >= result.pagination.totalPages || result.data.length === 0) break;
+        }
+        return docs;
+    }
+
+    private fromBill(bill: Bill): SaleDocument {
+        const methods = bill.payments && bill.payments.length > 0
+            ? bill.payments.map(p => p.method)
+            : [bill.paymentMethod || CASH_PAYMENT_METHOD];
+
+        return {
+            tipoComprobante: '18',
+            customerIdentification: bill.customerIdentification,
+            customerName: bill.customerName,
+            documentNumber: bill.documentNumber,
+            items: bill.items,
+            withheldIva: bill.withheldIva || 0,
+            withheldRenta: bill.withheldRenta || 0,
+            paymentMethods: methods
+        };
+    }
+
+    /** Un <detalleVentas> por cliente y tipo de comprobante */
+    private groupSales(sales: SaleDocument[]): AtsSaleDetail[] {
+        const groups = new Map<string, AtsSaleDetail>();
+
+        for (const sale of sales) {
+            const tpIdCliente = this.billingService.getIdentificacionType(sale.customerIdentification);
+            const idCliente = tpIdCliente === '07' ? ATS_CONSUMIDOR_FINAL_ID : sale.customerIdentification.trim();
+            const key = `${tpIdCliente}|${idCliente}|${sale.tipoComprobante}`;
+
+            let detail = groups.get(key);
+            if (!detail) {
+                detail = {
+                    tpIdCliente,
+                    idCliente,
+                    tipoComprobante: sale.tipoComprobante,
+                    tipoEmision: 'E',
+                    numeroComprobantes: 0,
+                    baseNoGraIva: 0,
+                    baseImponible: 0,
+                    baseImpGrav: 0,
+                    montoIva: 0,
+                    montoIce: 0,
+                    valorRetIva: 0,
+                    valorRetRenta: 0,
+                    formasDePago: []
+                };
+                if (tpIdCliente !== '07') detail.parteRelVtas = 'NO';
+                if (tpIdCliente === '06') {
+                    detail.tipoCliente = '01';
+                    detail.denoCli = atsText(sale.customerName);
+                }
+                groups.set(key, detail);
+            }
+
+            const breakdown = computeBreakdown(sale.items);
+            detail.numeroComprobantes++;
+            detail.baseImponible = r2(detail.baseImponible + breakdown.base0);
+            detail.baseImpGrav = r2(detail.baseImpGrav + breakdown.base15);
+            detail.montoIva = r2(detail.montoIva + breakdown.iva);
+            detail.valorRetIva = r2(detail.valorRetIva + sale.withheldIva);
+            detail.valorRetRenta = r2(detail.valorRetRenta + sale.withheldRenta);
+            for (const method of sale.paymentMethods) {
+                if (!detail.formasDePago.includes(method)) detail.formasDePago.push(method);
+            }
+        }
+
+        return [...groups.values()].map(d => ({ ...d, formasDePago: [...d.formasDePago].sort() }));
+    }
+
+    /** Ventas netas por establecimiento: facturas + notas de débito - notas de crédito */
+    private salesByEstablishment(sales: SaleDocument[]): AtsEstablishmentSales[] {
+        const totals = new Map<string, number>();
+
+        for (const sale of sales) {
+            const codEstab = sale.documentNumber.split('-')[0];
+            const breakdown = computeBreakdown(sale.items);
+            const base = atsSaleBase({ baseNoGraIva: 0, baseImponible: breakdown.base0, baseImpGrav: breakdown.base15 });
+            const sign = sale.tipoComprobante === '04' ? -1 : 1;
+            totals.set(codEstab, r2((totals.get(codEstab) || 0) + sign * base));
+        }
+
+        return [...totals.entries()]
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([codEstab, ventasEstab]) => ({ codEstab, ventasEstab, ivaComp: 0 }));
+    }
+}
@@ -0,0 +1,6 @@
+/**
+ * @file index.ts
+ * @description Exporta los use cases del Anexo Transaccional Simplificado (ATS)
+ */
+
+export { GenerateAts, GenerateAtsResult } from './GenerateAts';
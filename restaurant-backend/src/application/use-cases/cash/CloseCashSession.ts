@@ -0,0 +1,64 @@
+/**
+ * @file CloseCashSession.ts
+ * @description Caso de uso para cerrar caja con el efectivo contado
+ *
+ * @purpose
+ * Calcula el efectivo esperado (fondo + ventas en efectivo + ingresos - egresos),
+ * lo compara con el contado y congela el resumen por forma de pago (reporte Z).
+ *
+ * @connections
+ * - Usa: ICashSessionRepository, IBillRepository (domain/repositories)
+ * - Usa: summarizeCashSession (domain/billing/cashSession)
+ * - Usado por: cashRoutes (infrastructure/web/routes)
+ * - Inyectado por: DIContainer (infrastructure/di)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { ICashSessionRepository } from '../../../domain/repositories/ICashSessionRepository';
+import { IBillRepository } from '../../../domain/repositories/IBillRepository';
+import { CashSession, CashSessionUser } from '../../../domain/entities/CashSession';
+import { NotFoundError, ValidationError } from '../../../domain/errors/CustomErrors';
+import { getSessionSummary, parseAmount, round2 } from './cashSessionHelpers';
+
+export interface CloseCashSessionParams {
+    sessionId: string;
+    user: CashSessionUser;
+    countedCash: unknown;
+    notes?: string;
+}
+
+export class CloseCashSession {
+    constructor(
+        private cashSessionRepository: ICashSessionRepository,
+        private billRepository: IBillRepository
+    ) {}
+
+    async execute(params: CloseCashSessionParams): Promise<CashSession> {
+        const countedCash = parseAmount(params.countedCash, 'countedCash', true);
+
+        const session = await this.cashSessionRepository.findById(params.sessionId);
+        if (!session) {
+            throw new NotFoundError('Sesión de caja no encontrada', 'CashSession');
+        }
+        if (session.status !== 'open') {
+            throw new ValidationError('La caja ya está cerrada');
+        }
+
+        const closedAt = new Date();
+        const summary = await getSessionSummary(this.billRepository, session, closedAt);
+
+        const closed = await this.cashSessionRepository.close(session.id, {
+            closedBy: params.user,
+            closedAt,
+            countedCash,
+            difference: round2(countedCash - summary.expectedCash),
+            summary,
+            notes: params.notes?.trim() || undefined,
+        });
+        if (!closed) {
+            throw new ValidationError('La caja ya está cerrada');
+        }
+        return closed;
+    }
+}
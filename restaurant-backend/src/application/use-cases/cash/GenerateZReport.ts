@@ -0,0 +1,54 @@
+/**
+ * @file GenerateZReport.ts
+ * @description Caso de uso para generar el reporte Z (PDF) de una sesión de caja
+ *
+ * @purpose
+ * Arma el reporte de cierre con los datos fiscales del restaurante, las ventas por
+ * forma de pago, los movimientos manuales y el cuadre esperado vs contado.
+ * En una caja abierta genera un reporte X (parcial) con el resumen en vivo.
+ *
+ * @connections
+ * - Usa: ICashSessionRepository, IBillRepository, IRestaurantConfigRepository
+ * - Usa: PDFService (infrastructure/services)
+ * - Usado por: cashRoutes (infrastructure/web/routes)
+ * - Inyectado por: DIContainer (infrastructure/di)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { ICashSessionRepository } from '../../../domain/repositories/ICashSessionRepository';
+import { IBillRepository } from '../../../domain/repositories/IBillRepository';
+import { IRestaurantConfigRepository } from '../../../domain/repositories/IRestaurantConfigRepository';
+import { PDFService } from '../../../infrastructure/services/PDFService';
+import { NotFoundError } from '../../../domain/errors/CustomErrors';
+import { getSessionSummary } from './cashSessionHelpers';
+
+export class GenerateZReport {
+    constructor(
+        private cashSessionRepository: ICashSessionRepository,
+        private billRepository: IBillRepository,
+        private configRepository: IRestaurantConfigRepository,
+        private pdfService: PDFService
+    ) {}
+
+    async execute(sessionId: string): Promise<Buffer> {
+        const session = await this.cashSessionRepository.findById(sessionId);
+        if (!session) {
+            throw new NotFoundError('Sesión de caja no encontrada', 'CashSession');
+        }
+
+        const [summary, config] = await Promise.all([
+            getSessionSummary(this.billRepository, session),
+            this.configRepository.get(),
+        ]);
+
+        return this.pdfService.generateZReportPDF({
+            businessName: config?.businessName || config?.name || '',
+            ruc: config?.ruc || '',
+            address: config?.fiscalAddress || config?.address || '',
+            session,
+            summary,
+            printedAt: new Date(),
+        });
+    }
+}
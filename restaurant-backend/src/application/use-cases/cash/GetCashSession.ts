@@ -0,0 +1,35 @@
+/**
+ * @file GetCashSession.ts
+ * @description Caso de uso para obtener una sesión de caja con su resumen
+ *
+ * @purpose
+ * Devuelve una sesión por ID: si está cerrada, con el resumen congelado al cierre;
+ * si sigue abierta, con el cálculo en vivo.
+ *
+ * @connections
+ * - Usa: ICashSessionRepository, IBillRepository (domain/repositories)
+ * - Usado por: cashRoutes (infrastructure/web/routes), GenerateZReport
+ * - Inyectado por: DIContainer (infrastructure/di)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { ICashSessionRepository } from '../../../domain/repositories/ICashSessionRepository';
+import { IBillRepository } from '../../../domain/repositories/IBillRepository';
+import { NotFoundError } from '../../../domain/errors/CustomErrors';
+import { CashSessionDetail, getSessionSummary } from './cashSessionHelpers';
+
+export class GetCashSession {
+    constructor(
+        private cashSessionRepository: ICashSessionRepository,
+        private billRepository: IBillRepository
+    ) {}
+
+    async execute(sessionId: string): Promise<CashSessionDetail> {
+        const session = await this.cashSessionRepository.findById(sessionId);
+        if (!session) {
+            throw new NotFoundError('Sesión de caja no encontrada', 'CashSession');
+        }
+        return { session, summary: await getSessionSummary(this.billRepository, session) };
+    }
+}
@@ -0,0 +1,24 @@
+/**
+ * @file GetCashSessions.ts
+ * @description Caso de uso para listar el historial de sesiones de caja
+ *
+ * @connections
+ * - Usa: ICashSessionRepository (domain/repositories)
+ * - Usado por: cashRoutes (infrastructure/web/routes)
+ * - Inyectado por: DIContainer (infrastructure/di)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { ICashSessionRepository } from '../../../domain/repositories/ICashSessionRepository';
+import { CashSession } from '../../../domain/entities/CashSession';
+
+export class GetCashSessions {
+    constructor(private cashSessionRepository: ICashSessionRepository) {}
+
+    /** Sesiones más recientes primero (máximo 100) */
+    async execute(limit: number = 30): Promise<CashSession[]> {
+        const safeLimit = Math.min(100, Math.max(1, Math.floor(Number(limit) || 30)));
+        return this.cashSessionRepository.findRecent(safeLimit);
+    }
+}
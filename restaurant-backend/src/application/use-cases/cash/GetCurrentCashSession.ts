@@ -0,0 +1,33 @@
+/**
+ * @file GetCurrentCashSession.ts
+ * @description Caso de uso para obtener la caja abierta del empleado
+ *
+ * @purpose
+ * Devuelve la sesión abierta por el empleado autenticado con su resumen en vivo
+ * (ventas por forma de pago y efectivo esperado hasta este momento).
+ *
+ * @connections
+ * - Usa: ICashSessionRepository, IBillRepository (domain/repositories)
+ * - Usado por: cashRoutes (infrastructure/web/routes)
+ * - Inyectado por: DIContainer (infrastructure/di)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { ICashSessionRepository } from '../../../domain/repositories/ICashSessionRepository';
+import { IBillRepository } from '../../../domain/repositories/IBillRepository';
+import { CashSessionDetail, getSessionSummary } from './cashSessionHelpers';
+
+export class GetCurrentCashSession {
+    constructor(
+        private cashSessionRepository: ICashSessionRepository,
+        private billRepository: IBillRepository
+    ) {}
+
+    /** null si el empleado no tiene caja abierta */
+    async execute(userId: string): Promise<CashSessionDetail | null> {
+        const session = await this.cashSessionRepository.findOpenByUser(userId);
+        if (!session) return null;
+        return { session, summary: await getSessionSummary(this.billRepository, session) };
+    }
+}
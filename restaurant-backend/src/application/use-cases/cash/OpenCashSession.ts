@@ -0,0 +1,70 @@
+/**
+ * @file OpenCashSession.ts
+ * @description Caso de uso para abrir caja con un fondo inicial
+ *
+ * @purpose
+ * Abre una sesión de caja para el empleado autenticado en un punto de emisión.
+ * Solo puede haber una caja abierta por punto de emisión y por empleado.
+ *
+ * @connections
+ * - Usa: ICashSessionRepository, IRestaurantConfigRepository (domain/repositories)
+ * - Usado por: cashRoutes (infrastructure/web/routes)
+ * - Inyectado por: DIContainer (infrastructure/di)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { ICashSessionRepository } from '../../../domain/repositories/ICashSessionRepository';
+import { IRestaurantConfigRepository } from '../../../domain/repositories/IRestaurantConfigRepository';
+import { CashSession, CashSessionUser } from '../../../domain/entities/CashSession';
+import { ValidationError } from '../../../domain/errors/CustomErrors';
+import { parseAmount } from './cashSessionHelpers';
+
+export interface OpenCashSessionParams {
+    user: CashSessionUser;
+    openingFloat: unknown;
+    /** Por defecto el establecimiento/punto de emisión de la configuración */
+    estab?: string;
+    ptoEmi?: string;
+}
+
+const EMISSION_CODE = /^\d{3}$/;
+
+export class OpenCashSession {
+    constructor(
+        private cashSessionRepository: ICashSessionRepository,
+        private configRepository: IRestaurantConfigRepository
+    ) {}
+
+    async execute(params: OpenCashSessionParams): Promise<CashSession> {
+        const openingFloat = parseAmount(params.openingFloat, 'openingFloat', true);
+
+        const config = await this.configRepository.get();
+        const estab = params.estab || config?.billing?.establishment || '001';
+        const ptoEmi = params.ptoEmi || config?.billing?.emissionPoint || '001';
+        if (!EMISSION_CODE.test(estab) || !EMISSION_CODE.test(ptoEmi)) {
+            throw new ValidationError('Establecimiento y punto de emisión deben tener 3 dígitos');
+        }
+
+        const userSession = await this.cashSessionRepository.findOpenByUser(params.user.userId);
+        if (userSession) {
+            throw new ValidationError(
+                `Ya tiene una caja abierta en ${userSession.estab}-${userSession.ptoEmi}. Ciérrela antes de abrir otra.`
+            );
+        }
+
+        const pointSession = await this.cashSessionRepository.findOpenByEmissionPoint(estab, ptoEmi);
+        if (pointSession) {
+            throw new ValidationError(
+                `La caja ${estab}-${ptoEmi} ya está abierta por ${pointSession.openedBy.username}`
+            );
+        }
+
+        return this.cashSessionRepository.open({
+            estab,
+            ptoEmi,
+            openedBy: params.user,
+            openingFloat,
+        });
+    }
+}
@@ -0,0 +1,112 @@
+/**
+ * @file RecordCashMovement.ts
+ * @description Caso de uso para registrar ingresos/egresos manuales de caja
+ *
+ * @purpose
+ * Registra movimientos de efectivo fuera de la facturación: caja chica, pagos a
+ * proveedores, reposición de fondo o devoluciones en efectivo de notas de crédito.
+ * Una nota de crédito solo puede devolverse en efectivo una vez y por su total como máximo.
+ *
+ * @connections
+ * - Usa: ICashSessionRepository, ICreditNoteRepository (domain/repositories)
+ * - Usado por: cashRoutes (infrastructure/web/routes)
+ * - Inyectado por: DIContainer (infrastructure/di)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import crypto from 'crypto';
+import { ICashSessionRepository } from '../../../domain/repositories/ICashSessionRepository';
+import { ICreditNoteRepository } from '../../../domain/repositories/ICreditNoteRepository';
+import { CashSession, CashMovementType, CashSessionUser } from '../../../domain/entities/CashSession';
+import { NotFoundError, ValidationError } from '../../../domain/errors/CustomErrors';
+import { parseAmount } from './cashSessionHelpers';
+
+export interface RecordCashMovementParams {
+    sessionId: string;
+    user: CashSessionUser;
+    type?: CashMovementType;
+    amount?: unknown;
+    reason?: string;
+    /** Devolución en efectivo de una nota de crédito (egreso): ID o número 001-001-000000001 */
+    creditNoteId?: string;
+}
+
+const DOCUMENT_NUMBER = /^\d{3}-\d{3}-\d{9}$/;
+
+export class RecordCashMovement {
+    constructor(
+        private cashSessionRepository: ICashSessionRepository,
+        private creditNoteRepository: ICreditNoteRepository
+    ) {}
+
+    async execute(params: RecordCashMovementParams): Promise<CashSession> {
+        const session = await this.cashSessionRepository.findById(params.sessionId);
+        if (!session) {
+            throw new NotFoundError('Sesión de caja no encontrada', 'CashSession');
+        }
+        if (session.status !== 'open') {
+            throw new ValidationError('La caja ya está cerrada');
+        }
+
+        const movement = params.creditNoteId
+            ? await this.buildRefund(params)
+            : this.buildManual(params);
+
+        const updated = await this.cashSessionRepository.addMovement(session.id, {
+            id: crypto.randomUUID(),
+            ...movement,
+            createdBy: params.user,
+            createdAt: new Date(),
+        });
+        if (!updated) {
+            throw new ValidationError('La caja ya está cerrada');
+        }
+        return updated;
+    }
+
+    private buildManual(params: RecordCashMovementParams) {
+        if (params.type !== 'in' && params.type !== 'out') {
+            throw new ValidationError("El tipo de movimiento debe ser 'in' o 'out'", { field: 'type' });
+        }
+        const reason = params.reason?.trim();
+        if (!reason) {
+            throw new ValidationError('El motivo del movimiento es obligatorio', { field: 'reason' });
+        }
+        return { type: params.type, amount: parseAmount(params.amount, 'amount', false), reason };
+    }
+
+    private async buildRefund(params: RecordCashMovementParams) {
+        const reference = (params.creditNoteId as string).trim();
+        const creditNote = DOCUMENT_NUMBER.test(reference)
+            ? (await this.creditNoteRepository.findPaginated(1, 1, { documentNumber: reference })).data[0] || null
+            : await this.creditNoteRepository.findById(reference);
+        if (!creditNote) {
+            throw new NotFoundError('Nota de crédito no encontrada', 'CreditNote');
+        }
+        if (creditNote.sriStatus === 'CANCELLED') {
+            throw new ValidationError(`La nota de crédito ${creditNote.documentNumber} está anulada`);
+        }
+        const creditNoteId = creditNote.id;
+        if (await this.cashSessionRepository.hasCreditNoteRefund(creditNoteId)) {
+            throw new ValidationError(`La nota de crédito ${creditNote.documentNumber} ya fue devuelta en efectivo`);
+        }
+
+        const amount = params.amount === undefined || params.amount === null || params.amount === ''
+            ? creditNote.total
+            : parseAmount(params.amount, 'amount', false);
+        if (amount > creditNote.total) {
+            throw new ValidationError(
+                `La devolución ($${amount.toFixed(2)}) supera el total de la nota de crédito ($${creditNote.total.toFixed(2)})`,
+                { field: 'amount' }
+            );
+        }
+
+        return {
+            type: 'out' as const,
+            amount,
+            reason: params.reason?.trim() || `Devolución NC ${creditNote.documentNumber}`,
+            creditNoteId,
+        };
+    }
+}
@@ -0,0 +1,54 @@
+/**
+ * @file cashSessionHelpers.ts
+ * @description Utilidades compartidas de los casos de uso de caja
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { CashSession, CashSessionSummary } from '../../../domain/entities/CashSession';
+import { IBillRepository } from '../../../domain/repositories/IBillRepository';
+import { summarizeCashSession } from '../../../domain/billing/cashSession';
+import { ValidationError } from '../../../domain/errors/CustomErrors';
+
+export interface CashSessionDetail {
+    session: CashSession;
+    summary: CashSessionSummary;
+}
+
+export const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/** Valida un monto de dinero (número finito, no negativo salvo que se pida > 0) */
+export function parseAmount(value: unknown, field: string, allowZero: boolean): number {
+    const amount = Number(value);
+    if (value === null || value === undefined || value === '' || !Number.isFinite(amount)) {
+        throw new ValidationError(`El campo ${field} debe ser un número`, { field });
+    }
+    if (allowZero ? amount < 0 : amount <= 0) {
+        throw new ValidationError(
+            allowZero ? `El campo ${field} no puede ser negativo` : `El campo ${field} debe ser mayor a cero`,
+            { field }
+        );
+    }
+    return round2(amount);
+}
+
+/**
+ * Resumen de la sesión: el snapshot guardado al cierre o, si sigue abierta,
+ * el cálculo en vivo con las facturas del punto de emisión hasta `until`.
+ */
+export async function getSessionSummary(
+    billRepository: IBillRepository,
+    session: CashSession,
+    until: Date = new Date()
+): Promise<CashSessionSummary> {
+    if (session.status === 'closed' && session.summary) {
+        return session.summary;
+    }
+    const bills = await billRepository.findByEmissionPoint(
+        session.estab,
+        session.ptoEmi,
+        new Date(session.openedAt),
+        until
+    );
+    return summarizeCashSession(session.openingFloat, bills, session.movements);
+}
@@ -0,0 +1,13 @@
+/**
+ * @file index.ts
+ * @description Exporta todos los use cases de caja
+ */
+
+export { OpenCashSession, OpenCashSessionParams } from './OpenCashSession';
+export { RecordCashMovement, RecordCashMovementParams } from './RecordCashMovement';
+export { CloseCashSession, CloseCashSessionParams } from './CloseCashSession';
+export { GetCurrentCashSession } from './GetCurrentCashSession';
+export { GetCashSession } from './GetCashSession';
+export { GetCashSessions } from './GetCashSessions';
+export { GenerateZReport } from './GenerateZReport';
+export { CashSessionDetail } from './cashSessionHelpers';
@@ -0,0 +1,78 @@
+/**
+ * @file CheckDebitNoteStatus.ts
+ * @description Caso de uso para verificar (y reenviar) una nota de débito en el SRI
+ *
+ * @purpose
+ * Consulta la autorización con la clave de acceso guardada. Si el SRI no tiene
+ * el comprobante (caída del servicio durante la emisión), reenvía el XML firmado
+ * tal como se guardó — sin volver a firmar ni consumir otro secuencial.
+ *
+ * @connections
+ * - Usa: IDebitNoteRepository, IRestaurantConfigRepository (domain/repositories)
+ * - Usa: SRIService (infrastructure/services)
+ * - Usado por: DebitNoteController (infrastructure/controllers), RetryDebitNotes (cron)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { SRIService } from '../../../infrastructure/services/SRIService';
+import { IRestaurantConfigRepository } from '../../../domain/repositories/IRestaurantConfigRepository';
+import { IDebitNoteRepository } from '../../../domain/repositories/IDebitNoteRepository';
+import { DebitNote } from '../../../domain/entities/DebitNote';
+import { NotFoundError, ValidationError } from '../../../domain/errors/CustomErrors';
+import { logger } from '../../../infrastructure/utils/Logger';
+
+export class CheckDebitNoteStatus {
+    constructor(
+        private configRepository: IRestaurantConfigRepository,
+        private debitNoteRepository: IDebitNoteRepository,
+        private sriService: SRIService
+    ) { }
+
+    async execute(id: string): Promise<DebitNote> {
+        const debitNote = await this.debitNoteRepository.findById(id);
+        if (!debitNote) {
+            throw new NotFoundError('Nota de débito no encontrada', 'DebitNote');
+        }
+        if (debitNote.sriStatus === 'AUTORIZADO') {
+            return debitNote;
+        }
+        if (!debitNote.accessKey || !debitNote.xmlContent) {
+            throw new ValidationError('La nota de débito no llegó a firmarse; emítala nuevamente');
+        }
+
+        // Ambiente del documento (persistido al emitir); fallback al ambiente activo en BD
+        const environment = debitNote.environment || await this.configRepository.getEnvironment();
+        const isProd = environment === '2';
+
+        let authResult = await this.sriService.authorizeDebitNote(debitNote.accessKey, isProd);
+
+        if (authResult.estado === 'EN PROCESO' || authResult.estado === 'UNKNOWN' || !authResult.estado) {
+            logger.info(`[CheckDebitNoteStatus] ${debitNote.documentNumber} not found in SRI. Resending stored XML.`);
+            const sendResult = await this.sriService.sendDebitNoteToSRI(debitNote.xmlContent, isProd);
+            const alreadyRegistered = sendResult.mensajes.join(' ').includes('CLAVE ACCESO REGISTRADA');
+            authResult = sendResult.estado === 'DEVUELTA' && !alreadyRegistered
+                ? { ...authResult, estado: 'DEVUELTA', mensajes: sendResult.mensajes }
+                : await this.sriService.waitForAuthorization(debitNote.accessKey, isProd);
+        }
+
+        const message = (authResult.mensajes || []).join(' ');
+        const updated = await this.debitNoteRepository.update(debitNote.id, {
+            sriStatus: authResult.estado,
+            authorizationDate: authResult.fechaAutorizacion,
+            sriMessage: message
+        });
+
+        if (authResult.estado !== 'AUTORIZADO' && message) {
+            await this.debitNoteRepository.pushErrorLog(debitNote.id, {
+                timestamp: new Date().toISOString(),
+                sriStatus: authResult.estado || 'DESCONOCIDO',
+                message,
+                attempt: (debitNote.errorLog?.length || 0) + 1
+            });
+        }
+
+        logger.debug(`[CheckDebitNoteStatus] Final state: ${authResult.estado}`);
+        return updated || debitNote;
+    }
+}
@@ -0,0 +1,260 @@
+/**
+ * @file GenerateDebitNote.ts
+ * @description Caso de uso para emitir una nota de débito (codDoc 05) sobre una factura
+ *
+ * @purpose
+ * Cobra al cliente valores adicionales sobre una factura AUTORIZADA (intereses
+ * por mora de cuentas a crédito, recargos por entrega tardía, reposición de
+ * artículos dañados). Valida la factura y los cargos, toma el secuencial propio
+ * de notas de débito del ambiente activo, guarda un BORRADOR y lo envía al SRI
+ * con el mismo flujo de reintentos que las notas de crédito. El XML firmado
+ * queda guardado para que RetryDebitNotes pueda reenviarlo.
+ *
+ * @connections
+ * - Usa: IDebitNoteRepository, IBillRepository, IRestaurantConfigRepository (domain/repositories)
+ * - Usa: SRIService (infrastructure/services) - XML, firma, recepción y autorización
+ * - Usa: BillingService (application/services) - fechas, códigos de IVA e identificación
+ * - Usado por: DebitNoteController (infrastructure/controllers)
+ * - Inyectado por: BillingModule (infrastructure/di/modules)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { SRIService } from '../../../infrastructure/services/SRIService';
+import { IRestaurantConfigRepository } from '../../../domain/repositories/IRestaurantConfigRepository';
+import { IDebitNoteRepository } from '../../../domain/repositories/IDebitNoteRepository';
+import { IBillRepository } from '../../../domain/repositories/IBillRepository';
+import { DebitNote, DebitNoteItem } from '../../../domain/entities/DebitNote';
+import { DEBIT_NOTE_REASONS, DebitNoteReason } from '../../../domain/billing/debitNote';
+import { SRI_PAYMENT_METHODS, CASH_PAYMENT_METHOD } from '../../../domain/billing/payments';
+import { NotFoundError, ValidationError } from '../../../domain/errors/CustomErrors';
+import { BillingService } from '../../services/BillingService';
+import { logger } from '../../../infrastructure/utils/Logger';
+import { SRI_MAX_SEND_ATTEMPTS } from '../../../config/billing.constants';
+import { isDuplicateSequentialError } from '../purchase-settlements/purchaseSettlementHelpers';
+import { round2, toBillingDebitNote } from './debitNoteHelpers';
+
+export interface GenerateDebitNoteParams {
+    billId: string;
+    items: {
+        reason: string;
+        /** Opcional: texto propio del cargo; obligatorio para '04' (Otros cargos) */
+        description?: string;
+        /** Valor del cargo SIN IVA */
+        amount: number;
+        /** Tarifa de IVA (%). Por defecto la tarifa configurada del restaurante */
+        taxRate?: number;
+    }[];
+    /** Forma de pago SRI; por defecto la de la factura original */
+    paymentMethod?: string;
+}
+
+export interface GenerateDebitNoteResult {
+    debitNote: DebitNote;
+    sriResponse: any;
+    authorization: any;
+}
+
+const SUPPORTED_TAX_RATES = [0, 5, 12, 15];
+
+export class GenerateDebitNote {
+    constructor(
+        private configRepository: IRestaurantConfigRepository,
+        private debitNoteRepository: IDebitNoteRepository,
+        private billRepository: IBillRepository,
+        private sriService: SRIService,
+        private billingService: BillingService
+    ) { }
+
+    async execute(data: GenerateDebitNoteParams, createdBy?: string): Promise<GenerateDebitNoteResult> {
+        logger.info(`[GenerateDebitNote] Starting debit note generation for bill: ${data.billId}`);
+
+        // 1. La factura modificada debe estar autorizada y tener un cliente identificado
+        const bill = await this.billRepository.findById(data.billId);
+        if (!bill) {
+            throw new NotFoundError('Factura original no encontrada', 'Bill');
+        }
+        if (bill.sriStatus !== 'AUTORIZADO') {
+            throw new ValidationError('Solo se pueden emitir notas de débito sobre facturas AUTORIZADAS', { field: 'billId' });
+        }
+        if (!bill.accessKey) {
+            throw new ValidationError('La factura original no tiene clave de acceso', { field: 'billId' });
+        }
+        if (this.billingService.getIdentificacionType(bill.customerIdentification) === '07') {
+            throw new ValidationError('No se puede cobrar una nota de débito a "CONSUMIDOR FINAL": el cargo debe identificar al cliente', { field: 'billId' });
+        }
+
+        // 2. Config y ambiente desde la BD — fuente única de verdad
+        const config = await this.configRepository.get();
+        const info: any = config || {};
+        const environment = await this.configRepository.getEnvironment();
+        const isProd = environment === '2';
+        if (bill.environment && bill.environment !== environment) {
+            throw new ValidationError('La factura fue emitida en otro ambiente SRI (pruebas/producción) que el activo', { field: 'billId' });
+        }
+
+        // 3. Validar cargos y forma de pago
+        const items = this.validateItems(data.items, info.billing?.taxRate ?? 15);
+        const paymentMethod = data.paymentMethod || bill.payments?.[0]?.method || bill.paymentMethod || CASH_PAYMENT_METHOD;
+        if (!SRI_PAYMENT_METHODS[paymentMethod]) {
+            throw new ValidationError(`Forma de pago SRI inválida: ${paymentMethod}`, { field: 'paymentMethod' });
+        }
+
+        const subtotal = round2(items.reduce((sum, i) => sum + i.amount, 0));
+        const tax = round2(items.reduce((sum, i) => sum + i.tax, 0));
+        const total = round2(subtotal + tax);
+
+        const estab = info.billing?.establishment || process.env.ESTAB || '001';
+        const ptoEmi = info.billing?.emissionPoint || process.env.PTO_EMI || '001';
+
+        // 4. Secuencial propio de notas de débito (separado por ambiente)
+        let secuencial = (await this.configRepository.getNextDebitNoteSequential()).toString().padStart(9, '0');
+        logger.info(`[GenerateDebitNote] New sequential generated: ${secuencial}`);
+
+        // 5. Guardar BORRADOR antes de enviar, para no perder el número ante errores de red
+        let debitNote = await this.debitNoteRepository.create({
+            documentNumber: `${estab}-${ptoEmi}-${secuencial}`,
+            date: new Date().toISOString(),
+            billId: bill.id,
+            billDocumentNumber: bill.documentNumber,
+            billDate: bill.date,
+            originalAccessKey: bill.accessKey,
+            customerName: bill.customerName,
+            customerIdentification: bill.customerIdentification,
+            customerAddress: bill.customerAddress || undefined,
+            customerEmail: bill.customerEmail || undefined,
+            items,
+            paymentMethod,
+            subtotal,
+            tax,
+            total,
+            sriStatus: 'BORRADOR',
+            environment,
+            sriMessage: 'Nota de débito en proceso de envío al SRI',
+            createdBy
+        });
+        logger.info(`[GenerateDebitNote] Draft saved with ID: ${debitNote.id}`);
+
+        // 6. Generar XML, firmar y enviar — con reintento ante secuencial duplicado
+        let attempts = 0;
+        let result = null;
+        let accessKey = '';
+
+        while (attempts < SRI_MAX_SEND_ATTEMPTS) {
+            attempts++;
+            logger.info(`[GenerateDebitNote] Attempt ${attempts}/${SRI_MAX_SEND_ATTEMPTS} - Using sequential: ${secuencial}`);
+
+            try {
+                const billingDebitNote = toBillingDebitNote(debitNote, config, environment, this.billingService);
+                const xml = this.sriService.generateDebitNoteXML(billingDebitNote);
+                accessKey = billingDebitNote.info.claveAcceso!;
+
+                const signedXml = await this.sriService.signXML(xml, config || undefined);
+                debitNote = (await this.debitNoteRepository.update(debitNote.id, {
+                    accessKey,
+                    xmlContent: signedXml,
+                    sriStatus: 'ENVIANDO',
+                    sriMessage: `Enviando al SRI (intento ${attempts}/${SRI_MAX_SEND_ATTEMPTS})...`
+                })) || debitNote;
+
+                result = await this.sriService.sendDebitNoteToSRI(signedXml, isProd);
+                logger.info('[GenerateDebitNote] Successfully sent to SRI');
+                break;
+            } catch (error: any) {
+                logger.error(`[GenerateDebitNote] Attempt ${attempts} failed:`, error.message);
+
+                if (isDuplicateSequentialError(error.message || '') && attempts < SRI_MAX_SEND_ATTEMPTS) {
+                    secuencial = (await this.configRepository.getNextDebitNoteSequential()).toString().padStart(9, '0');
+                    logger.info(`[GenerateDebitNote] 🔄 Duplicate sequential detected. Retrying with: ${secuencial}`);
+                    debitNote = (await this.debitNoteRepository.update(debitNote.id, {
+                        documentNumber: `${estab}-${ptoEmi}-${secuencial}`,
+                        date: new Date().toISOString()
+                    })) || debitNote;
+                    continue;
+                }
+
+                const message = attempts >= SRI_MAX_SEND_ATTEMPTS
+                    ? `Falló después de ${SRI_MAX_SEND_ATTEMPTS} intentos: ${error.message}`
+                    : error.message || 'Error desconocido';
+                await this.debitNoteRepository.pushErrorLog(debitNote.id, {
+                    timestamp: new Date().toISOString(),
+                    sriStatus: 'ERROR',
+                    message,
+                    attempt: attempts
+                });
+                throw error;
+            }
+        }
+
+        if (!result) {
+            throw new Error('Failed to send debit note to SRI - no result obtained');
+        }
+
+        // 7. Autorización
+        const responseString = JSON.stringify(result);
+        const isAlreadyRegistered = result.estado === 'DEVUELTA' &&
+            (responseString.includes('CLAVE ACCESO REGISTRADA') || responseString.includes('EN PROCESAMIENTO'));
+
+        let authResult = null;
+        if (result.estado === 'RECIBIDA' || isAlreadyRegistered) {
+            if (!isAlreadyRegistered) {
+                logger.info('[GenerateDebitNote] Waiting 3 seconds before authorization...');
+                await new Promise(resolve => setTimeout(resolve, 3000));
+            }
+            authResult = await this.sriService.authorizeDebitNote(accessKey, isProd);
+        }
+
+        const finalStatus = authResult?.estado || result.estado;
+        const finalMessage = (authResult?.mensajes || result.mensajes || []).join(' ');
+
+        debitNote = (await this.debitNoteRepository.update(debitNote.id, {
+            sriStatus: finalStatus,
+            authorizationDate: authResult?.fechaAutorizacion,
+            sriMessage: finalMessage
+        })) || debitNote;
+
+        // Si el SRI NO autorizó → guardar en errorLog acumulativo (el cron la reintenta)
+        if (finalStatus !== 'AUTORIZADO' && finalMessage) {
+            await this.debitNoteRepository.pushErrorLog(debitNote.id, {
+                timestamp: new Date().toISOString(),
+                sriStatus: finalStatus || 'DESCONOCIDO',
+                message: finalMessage,
+                attempt: attempts
+            });
+        }
+
+        logger.info(`[GenerateDebitNote] ${debitNote.documentNumber} → ${finalStatus}`);
+
+        return { debitNote, sriResponse: result, authorization: authResult };
+    }
+
+    private validateItems(items: GenerateDebitNoteParams['items'] | undefined, defaultTaxRate: number): DebitNoteItem[] {
+        if (!Array.isArray(items) || items.length === 0) {
+            throw new ValidationError('La nota de débito debe tener al menos un cargo', { field: 'items' });
+        }
+
+        return items.map((item, index) => {
+            const reason = String(item.reason || '');
+            const reasonLabel = DEBIT_NOTE_REASONS[reason as DebitNoteReason];
+            const description = item.description?.trim() || (reason === '04' ? '' : reasonLabel);
+            const amount = round2(Number(item.amount));
+            const taxRate = Number(item.taxRate ?? defaultTaxRate);
+
+            if (!reasonLabel) {
+                throw new ValidationError(`Motivo de nota de débito inválido en el cargo ${index + 1}: ${reason}`, { field: 'items', index });
+            }
+            if (!description) {
+                throw new ValidationError(`Describa el cargo ${index + 1} ("Otros cargos" requiere detalle)`, { field: 'items', index });
+            }
+            if (!Number.isFinite(amount) || amount <= 0) {
+                throw new ValidationError(`El valor del cargo ${index + 1} debe ser mayor a cero`, { field: 'items', index });
+            }
+            if (!SUPPORTED_TAX_RATES.includes(taxRate)) {
+                throw new ValidationError(`Tarifa de IVA no soportada en el cargo ${index + 1}: ${taxRate}%`, { field: 'items', index });
+            }
+
+            const tax = round2(amount * taxRate / 100);
+            return { reason, description, amount, taxRate, tax, total: round2(amount + tax) };
+        });
+    }
+}
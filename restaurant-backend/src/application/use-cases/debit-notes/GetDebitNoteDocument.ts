@@ -0,0 +1,60 @@
+/**
+ * @file GetDebitNoteDocument.ts
+ * @description Devuelve los documentos (XML firmado / RIDE PDF) de una nota de débito
+ *
+ * @purpose
+ * La nota de débito guarda el XML firmado al emitirse: se descarga tal cual se
+ * envió al SRI. El RIDE se genera con el mismo mapeo que usó la emisión
+ * (toBillingDebitNote).
+ *
+ * @connections
+ * - Usado por: DebitNoteController (GET /debit-notes/:id/xml y /:id/pdf)
+ * - Usa: IDebitNoteRepository, IRestaurantConfigRepository, PDFService, BillingService
+ *
+ * @layer Application - Use Case
+ */
+
+import { PDFService } from '../../../infrastructure/services/PDFService';
+import { IDebitNoteRepository } from '../../../domain/repositories/IDebitNoteRepository';
+import { IRestaurantConfigRepository } from '../../../domain/repositories/IRestaurantConfigRepository';
+import { DebitNote } from '../../../domain/entities/DebitNote';
+import { NotFoundError } from '../../../domain/errors/CustomErrors';
+import { BillingService } from '../../services/BillingService';
+import { toBillingDebitNote } from './debitNoteHelpers';
+
+export class GetDebitNoteDocument {
+    constructor(
+        private configRepository: IRestaurantConfigRepository,
+        private debitNoteRepository: IDebitNoteRepository,
+        private pdfService: PDFService,
+        private billingService: BillingService
+    ) { }
+
+    /** Devuelve el XML firmado tal como se envió al SRI */
+    async getSignedXml(id: string): Promise<{ xml: string; documentNumber: string }> {
+        const entity = await this.findOrFail(id);
+        if (!entity.xmlContent) {
+            throw new NotFoundError('La nota de débito no tiene XML firmado', 'DebitNote');
+        }
+        return { xml: entity.xmlContent, documentNumber: entity.documentNumber };
+    }
+
+    /** Devuelve el PDF (RIDE) de la nota de débito */
+    async getPdf(id: string): Promise<{ pdf: Buffer; documentNumber: string }> {
+        const entity = await this.findOrFail(id);
+        const config = await this.configRepository.get();
+        const environment = (entity.environment as '1' | '2') || await this.configRepository.getEnvironment();
+
+        const debitNote = toBillingDebitNote(entity, config, environment, this.billingService);
+        const pdf = await this.pdfService.generateDebitNotePDF(debitNote);
+        return { pdf, documentNumber: entity.documentNumber };
+    }
+
+    private async findOrFail(id: string): Promise<DebitNote> {
+        const entity = await this.debitNoteRepository.findById(id);
+        if (!entity) {
+            throw new NotFoundError('Nota de débito no encontrada', 'DebitNote');
+        }
+        return entity;
+    }
+}
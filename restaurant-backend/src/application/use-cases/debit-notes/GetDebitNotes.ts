@@ -0,0 +1,43 @@
+/**
+ * @file GetDebitNotes.ts
+ * @description Caso de uso para consultar notas de débito
+ *
+ * @connections
+ * - Usa: IDebitNoteRepository (domain/repositories)
+ * - Usado por: DebitNoteController (infrastructure/controllers)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { IDebitNoteRepository } from '../../../domain/repositories/IDebitNoteRepository';
+import { DebitNote } from '../../../domain/entities/DebitNote';
+import { NotFoundError } from '../../../domain/errors/CustomErrors';
+
+export class GetDebitNotes {
+    constructor(private debitNoteRepository: IDebitNoteRepository) { }
+
+    async executeById(id: string): Promise<DebitNote> {
+        const debitNote = await this.debitNoteRepository.findById(id);
+        if (!debitNote) {
+            throw new NotFoundError('Nota de débito no encontrada', 'DebitNote');
+        }
+        return debitNote;
+    }
+
+    async executePaginated(
+        page: number = 1,
+        limit: number = 50,
+        filter: any = {},
+        sort: any = { createdAt: -1 }
+    ): Promise<{
+        data: DebitNote[];
+        pagination: {
+            page: number;
+            limit: number;
+            total: number;
+            totalPages: number;
+        };
+    }> {
+        return await this.debitNoteRepository.findPaginated(page, limit, filter, sort);
+    }
+}
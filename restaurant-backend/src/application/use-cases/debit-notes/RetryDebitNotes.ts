@@ -0,0 +1,85 @@
+import { IDebitNoteRepository } from '../../../domain/repositories/IDebitNoteRepository';
+import { CheckDebitNoteStatus } from './CheckDebitNoteStatus';
+import { logger, maskAccessKey } from '../../../infrastructure/utils/Logger';
+
+/**
+ * @class RetryDebitNotes
+ * @description Use case that identifies and retries sending non-authorized debit notes to the SRI.
+ * Resends the stored signed XML through CheckDebitNoteStatus, so no sequential is consumed.
+ */
+export class RetryDebitNotes {
+    constructor(
+        private debitNoteRepository: IDebitNoteRepository,
+        private checkDebitNoteStatus: CheckDebitNoteStatus
+    ) { }
+
+    async execute(): Promise<{ processed: number, successes: number, errors: number }> {
+        const results = {
+            processed: 0,
+            successes: 0,
+            errors: 0
+        };
+
+        try {
+            // 1. Non-authorized debit notes from the last 48 hours
+            const fortyEightHoursAgo = new Date();
+            fortyEightHoursAgo.setHours(fortyEightHoursAgo.getHours() - 48);
+
+            const statusesToRetry = [
+                'PENDIENTE',
+                'RECIBIDA',
+                'DEVUELTA',
+                'EN PROCESO',
+                'ENVIANDO',
+                'UNKNOWN',
+                'ERROR'
+            ];
+
+            const pendingNDs = await this.debitNoteRepository.findPaginated(1, 50, {
+                sriStatus: { $in: statusesToRetry },
+                createdAt: { $gte: fortyEightHoursAgo }
+            });
+
+            logger.info(`[RetryDebitNotes] Found ${pendingNDs.data.length} debit notes to retry.`);
+
+            if (pendingNDs.data.length === 0) {
+                return results;
+            }
+
+            // 2. Process each debit note
+            for (const nd of pendingNDs.data) {
+                results.processed++;
+
+                if (!nd.accessKey || !nd.xmlContent) {
+                    logger.warn(`[RetryDebitNotes] ND ${nd.documentNumber} (${nd.id}) was never signed. Skipping.`);
+                    results.errors++;
+                    continue;
+                }
+
+                try {
+                    logger.info(`[RetryDebitNotes] Retrying ND ${nd.documentNumber} (Key: ${maskAccessKey(nd.accessKey)})...`);
+
+                    const result = await this.checkDebitNoteStatus.execute(nd.id);
+
+                    if (result.sriStatus === 'AUTORIZADO') {
+                        logger.info(`[RetryDebitNotes] Successfully authorized ND ${nd.documentNumber}`);
+                        results.successes++;
+                    } else {
+                        logger.warn(`[RetryDebitNotes] Retry for ND ${nd.documentNumber} finished with state: ${result.sriStatus || 'UNKNOWN'}`);
+                        results.errors++;
+                    }
+                } catch (ndError) {
+                    logger.error(`[RetryDebitNotes] Failed to retry ND ${nd.documentNumber}:`, ndError);
+                    results.errors++;
+                }
+            }
+
+        } catch (error) {
+            logger.error('[RetryDebitNotes] Error during ND retry batch process:', error);
+            throw error;
+        }
+
+        logger.info(`[RetryDebitNotes] Finished batch: ${results.successes} authorized, ${results.errors} failures/pending, ${results.processed} total processed.`);
+        return results;
+    }
+}
@@ -0,0 +1,87 @@
+/**
+ * @file debitNoteHelpers.ts
+ * @description Utilidades compartidas de los casos de uso de notas de débito
+ *
+ * @purpose
+ * Un único mapeo entidad → comprobante SRI (codDoc 05), usado al emitir y al
+ * generar el RIDE, para que ambos produzcan el mismo documento.
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { DebitNote as DebitNoteEntity } from '../../../domain/entities/DebitNote';
+import { DebitNote, DebitNoteTax } from '../../../domain/billing/debitNote';
+import { BillingService } from '../../services/BillingService';
+
+export const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Construye el comprobante SRI a partir de la nota de débito persistida.
+ * Cada cargo es un <motivo>; el IVA se agrupa por tarifa en <impuestos>.
+ */
+export function toBillingDebitNote(
+    entity: DebitNoteEntity,
+    config: any,
+    environment: '1' | '2',
+    billingService: BillingService
+): DebitNote {
+    const info: any = config || {};
+    const [estab, ptoEmi, secuencial] = entity.documentNumber.split('-');
+
+    const taxesByRate = new Map<number, DebitNoteTax>();
+    for (const item of entity.items) {
+        const group = taxesByRate.get(item.taxRate) || {
+            codigo: '2',
+            codigoPorcentaje: billingService.getTaxCode(item.taxRate),
+            tarifa: item.taxRate,
+            baseImponible: 0,
+            valor: 0
+        };
+        group.baseImponible = round2(group.baseImponible + item.amount);
+        group.valor = round2(group.valor + item.tax);
+        taxesByRate.set(item.taxRate, group);
+    }
+
+    return {
+        motivos: entity.items.map(item => ({ razon: item.description, valor: item.amount })),
+        creationDate: entity.createdAt ? new Date(entity.createdAt) : new Date(entity.date),
+        authorizationDate: entity.authorizationDate,
+        info: {
+            ambiente: environment,
+            tipoEmision: '1',
+            razonSocial: info.businessName || process.env.BUSINESS_NAME || 'RESTAURANTE DEMO',
+            nombreComercial: info.name || process.env.COMMERCIAL_NAME,
+            ruc: info.ruc || process.env.RUC || '0000000000001',
+            claveAcceso: entity.accessKey || undefined,
+            codDoc: '05',
+            estab,
+            ptoEmi,
+            secuencial,
+            dirMatriz: info.fiscalAddress || info.address || process.env.DIR_MATRIZ || 'Direccion Matriz',
+            dirEstablecimiento: info.fiscalAddress || info.address || process.env.DIR_ESTABLECIMIENTO || process.env.DIR_MATRIZ,
+            // Fecha en zona horaria Ecuador — coincide con la embebida en la clave de acceso
+            fechaEmision: billingService.formatDateToSRI(entity.date),
+            obligadoContabilidad: info.obligadoContabilidad ? 'SI' : 'NO',
+
+            tipoIdentificacionComprador: billingService.getIdentificacionType(entity.customerIdentification),
+            razonSocialComprador: entity.customerName,
+            identificacionComprador: entity.customerIdentification,
+
+            codDocModificado: '01',
+            numDocModificado: entity.billDocumentNumber,
+            fechaEmisionDocSustento: billingService.formatDateToSRI(entity.billDate),
+
+            totalSinImpuestos: entity.subtotal,
+            impuestos: Array.from(taxesByRate.values()),
+            valorTotal: entity.total,
+            pagos: [{ formaPago: entity.paymentMethod, total: entity.total, plazo: 0, unidadTiempo: 'dias' }],
+
+            direccionComprador: entity.customerAddress,
+            emailComprador: entity.customerEmail,
+            logoUrl: billingService.getLogoUrl(info),
+            emailMatriz: info.fiscalEmail || info.email || process.env.SMTP_FROM || 'info@restaurant.com',
+            regime: info.billing?.regime,
+            agenteRetencion: info.billing?.agenteRetencion
+        }
+    };
+}
@@ -0,0 +1,14 @@
+/**
+ * @file index.ts
+ * @description Exporta todos los use cases de notas de débito
+ */
+
+export {
+    GenerateDebitNote,
+    GenerateDebitNoteParams,
+    GenerateDebitNoteResult
+} from './GenerateDebitNote';
+export { GetDebitNotes } from './GetDebitNotes';
+export { CheckDebitNoteStatus } from './CheckDebitNoteStatus';
+export { RetryDebitNotes } from './RetryDebitNotes';
+export { GetDebitNoteDocument } from './GetDebitNoteDocument';
@@ -0,0 +1,57 @@
+/**
+ * @file RecordEmailBounce.ts
+ * @description Marca como rebotado el email de una factura o nota de crédito
+ *
+ * @purpose
+ * El proveedor acepta el envío (estado SENT) y el rebote llega minutos después
+ * por su webhook. Se cruza por el id de mensaje guardado al enviar; los mensajes
+ * que no son de comprobantes (códigos del portal, recuperación de contraseña) no
+ * tienen documento y se ignoran.
+ *
+ * @connections
+ * - Usado por: EmailDeliveryController (POST /api/email-deliveries/webhooks/resend)
+ * - Usa: IBillRepository, ICreditNoteRepository
+ *
+ * @layer Application - Use Case
+ */
+
+import { IBillRepository } from '../../../domain/repositories/IBillRepository';
+import { ICreditNoteRepository } from '../../../domain/repositories/ICreditNoteRepository';
+import { bouncedDelivery } from '../../../domain/billing/emailDelivery';
+import { logger } from '../../../infrastructure/utils/Logger';
+
+export interface EmailBounce {
+    messageId: string;
+    reason: string;
+    bouncedAt?: string;
+}
+
+export class RecordEmailBounce {
+    constructor(
+        private billRepository: IBillRepository,
+        private creditNoteRepository: ICreditNoteRepository
+    ) { }
+
+    async execute(bounce: EmailBounce): Promise<{ matched: boolean; documentNumber?: string }> {
+        const bouncedAt = bounce.bouncedAt || new Date().toISOString();
+
+        const bill = await this.billRepository.findByEmailMessageId(bounce.messageId);
+        if (bill?.emailDelivery) {
+            await this.billRepository.setEmailDelivery(bill.id, bouncedDelivery(bill.emailDelivery, bounce.reason, bouncedAt));
+            logger.warn('[RecordEmailBounce] Email de factura rebotado', { documentNumber: bill.documentNumber, reason: bounce.reason });
+            return { matched: true, documentNumber: bill.documentNumber };
+        }
+
+        const creditNote = await this.creditNoteRepository.findByEmailMessageId(bounce.messageId);
+        if (creditNote?.emailDelivery) {
+            await this.creditNoteRepository.setEmailDelivery(
+                creditNote.id, bouncedDelivery(creditNote.emailDelivery, bounce.reason, bouncedAt)
+            );
+            logger.warn('[RecordEmailBounce] Email de nota de crédito rebotado', { documentNumber: creditNote.documentNumber, reason: bounce.reason });
+            return { matched: true, documentNumber: creditNote.documentNumber };
+        }
+
+        logger.debug('[RecordEmailBounce] Rebote sin documento asociado', { messageId: bounce.messageId });
+        return { matched: false };
+    }
+}
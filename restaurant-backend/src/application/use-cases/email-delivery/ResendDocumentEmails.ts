@@ -0,0 +1,193 @@
+/**
+ * @file ResendDocumentEmails.ts
+ * @description Reenvía por email facturas y notas de crédito autorizadas seleccionadas en el historial
+ *
+ * @purpose
+ * Los clientes que nunca recibieron su comprobante (email fallido, rebotado o mal
+ * escrito) se atienden en bloque: el usuario selecciona los documentos y,
+ * opcionalmente, una dirección corregida. La corrección se guarda en el documento
+ * (queda en el log de auditoría) y cada envío actualiza su estado de entrega.
+ * Los documentos se procesan uno a uno: un fallo no detiene al resto.
+ *
+ * @connections
+ * - Usado por: EmailDeliveryController (POST /api/email-deliveries/resend)
+ * - Usa: IBillRepository, ICreditNoteRepository, IEmailService,
+ *        GetInvoiceDocument, GetCreditNoteDocument, AuditService
+ *
+ * @layer Application - Use Case
+ */
+
+import { IBillRepository } from '../../../domain/repositories/IBillRepository';
+import { ICreditNoteRepository } from '../../../domain/repositories/ICreditNoteRepository';
+import { IEmailService, EmailSendResult } from '../../interfaces/IEmailService';
+import { ValidationError } from '../../../domain/errors/CustomErrors';
+import { EmailDelivery, EmailDeliveryStatus, isDeliverableEmail, deliveryFromResult } from '../../../domain/billing/emailDelivery';
+import { AuditService } from '../../../infrastructure/services/AuditService';
+import { logger } from '../../../infrastructure/utils/Logger';
+import { CONSUMIDOR_FINAL_RUC, EMAIL_RESEND_MAX_DOCUMENTS } from '../../../config/billing.constants';
+import { GetInvoiceDocument } from '../invoice-portal/GetInvoiceDocument';
+import { GetCreditNoteDocument } from '../GetCreditNoteDocument';
+
+export type EmailDocumentType = 'bill' | 'creditNote';
+
+export interface ResendDocumentEmailsRequest {
+    documents: { type: EmailDocumentType; id: string }[];
+    /** Dirección corregida: reemplaza el email de todos los documentos seleccionados */
+    email?: string;
+}
+
+export interface ResendDocumentEmailResult {
+    type: EmailDocumentType;
+    id: string;
+    documentNumber?: string;
+    /** NOT_SENT: el documento no se puede reenviar (no existe, no autorizado, sin email válido) */
+    status: EmailDeliveryStatus | 'NOT_SENT';
+    to?: string;
+    error?: string;
+}
+
+export interface ResendDocumentEmailsResult {
+    results: ResendDocumentEmailResult[];
+    sent: number;
+    failed: number;
+}
+
+/** Documento ya resuelto, común a facturas y notas de crédito */
+interface EmailDocument {
+    id: string;
+    documentNumber: string;
+    sriStatus?: string;
+    customerIdentification: string;
+    customerEmail?: string;
+    emailDelivery?: EmailDelivery;
+}
+
+export class ResendDocumentEmails {
+    constructor(
+        private billRepository: IBillRepository,
+        private creditNoteRepository: ICreditNoteRepository,
+        private emailService: IEmailService,
+        private invoiceDocument: GetInvoiceDocument,
+        private creditNoteDocument: GetCreditNoteDocument,
+        private auditService: AuditService
+    ) { }
+
+    async execute(request: ResendDocumentEmailsRequest): Promise<ResendDocumentEmailsResult> {
+        const documents = this.validateDocuments(request?.documents);
+        const correctedEmail = this.normalizeEmail(request?.email);
+
+        const results: ResendDocumentEmailResult[] = [];
+        for (const { type, id } of documents) {
+            results.push(await this.resend(type, id, correctedEmail));
+        }
+
+        const sent = results.filter(r => r.status === 'SENT').length;
+        const failed = results.length - sent;
+        logger.info('[ResendDocumentEmails] Reenvío completado', { total: results.length, sent, failed, corrected: !!correctedEmail });
+
+        return { results, sent, failed };
+    }
+
+    private async resend(type: EmailDocumentType, id: string, correctedEmail?: string): Promise<ResendDocumentEmailResult> {
+        const document: EmailDocument | null = type === 'bill'
+            ? await this.billRepository.findById(id)
+            : await this.creditNoteRepository.findById(id);
+
+        if (!document) {
+            return { type, id, status: 'NOT_SENT', error: 'Documento no encontrado' };
+        }
+        const base = { type, id, documentNumber: document.documentNumber };
+
+        if (document.sriStatus !== 'AUTORIZADO') {
+            return { ...base, status: 'NOT_SENT', error: 'Solo se reenvían documentos autorizados por el SRI' };
+        }
+        if (document.customerIdentification === CONSUMIDOR_FINAL_RUC) {
+            return { ...base, status: 'NOT_SENT', error: 'Consumidor Final no recibe el comprobante por email' };
+        }
+
+        const to = correctedEmail || document.customerEmail;
+        if (!to || !isDeliverableEmail(to)) {
+            return { ...base, status: 'NOT_SENT', error: 'Email inválido o genérico: indique una dirección corregida' };
+        }
+
+        let delivery: EmailDelivery;
+        try {
+            if (correctedEmail && correctedEmail !== document.customerEmail) {
+                await this.correctEmail(type, document, correctedEmail);
+            }
+            delivery = deliveryFromResult(to, await this.send(type, id, to), document.emailDelivery);
+        } catch (error: any) {
+            logger.warn('[ResendDocumentEmails] No se pudo reenviar el documento', { type, id, error: error.message });
+            delivery = deliveryFromResult(to, { success: false, error: error.message }, document.emailDelivery);
+        }
+
+        if (type === 'bill') {
+            await this.billRepository.setEmailDelivery(id, delivery);
+        } else {
+            await this.creditNoteRepository.setEmailDelivery(id, delivery);
+        }
+
+        return { ...base, status: delivery.status, to, error: delivery.error || delivery.skipReason };
+    }
+
+    private async send(type: EmailDocumentType, id: string, to: string): Promise<EmailSendResult> {
+        if (type === 'bill') {
+            const { invoice, pdf, signedXml } = await this.invoiceDocument.getEmailAttachments(id);
+            return this.emailService.sendInvoiceEmail(to, invoice, pdf, signedXml);
+        }
+        const { creditNote, pdf, signedXml } = await this.creditNoteDocument.getEmailAttachments(id);
+        return this.emailService.sendCreditNoteEmail(to, creditNote, pdf, signedXml);
+    }
+
+    /** Guarda la dirección corregida en el documento y deja constancia en la auditoría */
+    private async correctEmail(type: EmailDocumentType, document: EmailDocument, email: string): Promise<void> {
+        if (type === 'bill') {
+            await this.billRepository.upsert({ id: document.id, customerEmail: email });
+        } else {
+            await this.creditNoteRepository.upsert({ id: document.id, customerEmail: email });
+        }
+
+        await this.auditService.log({
+            action: 'UPDATE',
+            collection: type === 'bill' ? 'Bill' : 'CreditNote',
+            documentId: document.id,
+            before: { customerEmail: document.customerEmail },
+            after: { customerEmail: email },
+            reason: 'Corrección de email para reenvío del comprobante'
+        });
+    }
+
+    private validateDocuments(documents: ResendDocumentEmailsRequest['documents']): ResendDocumentEmailsRequest['documents'] {
+        if (!Array.isArray(documents) || documents.length === 0) {
+            throw new ValidationError('Seleccione al menos un documento para reenviar', { field: 'documents' });
+        }
+        if (documents.length > EMAIL_RESEND_MAX_DOCUMENTS) {
+            throw new ValidationError(
+                `Se pueden reenviar hasta ${EMAIL_RESEND_MAX_DOCUMENTS} documentos a la vez`, { field: 'documents' }
+            );
+        }
+        for (const document of documents) {
+            if (!document || (document.type !== 'bill' && document.type !== 'creditNote') || !document.id) {
+                throw new ValidationError('Documento inválido: se espera { type: "bill" | "creditNote", id }', { field: 'documents' });
+            }
+        }
+
+        // Un documento seleccionado dos veces se envía una sola vez
+        const seen = new Set<string>();
+        return documents.filter(d => {
+            const key = `${d.type}:${d.id}`;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+    }
+
+    private normalizeEmail(email?: string): string | undefined {
+        if (email === undefined || email === null || String(email).trim() === '') return undefined;
+        const normalized = String(email).trim().toLowerCase();
+        if (!isDeliverableEmail(normalized) || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalized)) {
+            throw new ValidationError('El email corregido no es válido', { field: 'email' });
+        }
+        return normalized;
+    }
+}
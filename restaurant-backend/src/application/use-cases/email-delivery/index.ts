@@ -0,0 +1,13 @@
+/**
+ * @file index.ts
+ * @description Exporta los use cases de seguimiento y reenvío de emails de comprobantes
+ */
+
+export {
+    ResendDocumentEmails,
+    ResendDocumentEmailsRequest,
+    ResendDocumentEmailsResult,
+    ResendDocumentEmailResult,
+    EmailDocumentType
+} from './ResendDocumentEmails';
+export { RecordEmailBounce, EmailBounce } from './RecordEmailBounce';
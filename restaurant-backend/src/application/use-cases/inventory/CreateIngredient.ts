@@ -0,0 +1,60 @@
+/**
+ * @file CreateIngredient.ts
+ * @description Caso de uso para crear un ingrediente del inventario
+ *
+ * @purpose
+ * Crea un ingrediente con nombre único y su stock inicial. El stock inicial
+ * queda en el kardex como un conteo, así el historial parte de un valor conocido.
+ *
+ * @connections
+ * - Usa: IIngredientRepository (domain/repositories)
+ * - Usa: InventoryService (application/services) - registra el stock inicial
+ * - Usado por: InventoryController (infrastructure/controllers)
+ * - Inyectado por: InventoryModule (infrastructure/di/modules)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { IIngredientRepository } from '../../../domain/repositories/IIngredientRepository';
+import { Ingredient, CreateIngredientDTO } from '../../../domain/entities/Ingredient';
+import { ValidationError } from '../../../domain/errors/CustomErrors';
+import { InventoryService } from '../../services/InventoryService';
+import { validateIngredientFields } from './validateIngredientFields';
+
+export class CreateIngredient {
+    constructor(
+        private ingredientRepository: IIngredientRepository,
+        private inventoryService: InventoryService
+    ) {}
+
+    async execute(data: CreateIngredientDTO, createdBy?: string): Promise<Ingredient> {
+        const name = data.name?.trim();
+        if (!name) {
+            throw new ValidationError('El nombre del ingrediente es obligatorio', { field: 'name' });
+        }
+        if (data.unit === undefined) {
+            throw new ValidationError('La unidad del ingrediente es obligatoria', { field: 'unit' });
+        }
+
+        const stock = Number(data.stock ?? 0);
+        if (!Number.isFinite(stock) || stock < 0) {
+            throw new ValidationError('El stock inicial no puede ser negativo', { field: 'stock' });
+        }
+        const minStock = Number(data.minStock ?? 0);
+        validateIngredientFields({ ...data, minStock });
+
+        const existing = await this.ingredientRepository.findByName(name);
+        if (existing) {
+            throw new ValidationError(`Ya existe un ingrediente llamado "${existing.name}"`);
+        }
+
+        const ingredient = await this.ingredientRepository.create({ name, unit: data.unit, stock: 0, minStock, cost: data.cost });
+        if (stock === 0) return ingredient;
+
+        await this.inventoryService.applyChanges(
+            [{ ingredientId: ingredient.id, change: stock }],
+            { type: 'adjustment', reason: 'Stock inicial', by: createdBy }
+        );
+        return { ...ingredient, stock };
+    }
+}
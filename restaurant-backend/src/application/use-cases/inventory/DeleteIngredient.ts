@@ -0,0 +1,44 @@
+/**
+ * @file DeleteIngredient.ts
+ * @description Caso de uso para dar de baja un ingrediente
+ *
+ * @purpose
+ * El ingrediente se desactiva, no se borra: el kardex y los pedidos pasados lo
+ * siguen referenciando. Tampoco se puede dar de baja si una receta lo usa.
+ *
+ * @connections
+ * - Usa: IIngredientRepository, IMenuRepository (domain/repositories)
+ * - Usado por: InventoryController (infrastructure/controllers)
+ * - Inyectado por: InventoryModule (infrastructure/di/modules)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { IIngredientRepository } from '../../../domain/repositories/IIngredientRepository';
+import { IMenuRepository } from '../../../domain/repositories/IMenuRepository';
+import { NotFoundError, ValidationError } from '../../../domain/errors/CustomErrors';
+
+export class DeleteIngredient {
+    constructor(
+        private ingredientRepository: IIngredientRepository,
+        private menuRepository: IMenuRepository
+    ) {}
+
+    async execute(id: string): Promise<void> {
+        const existing = await this.ingredientRepository.findById(id);
+        if (!existing) {
+            throw new NotFoundError('Ingrediente no encontrado', 'Ingredient');
+        }
+
+        const menuItems = await this.menuRepository.findAll();
+        const usedBy = menuItems.filter(item => item.recipe?.some(line => line.ingredientId === id));
+        if (usedBy.length > 0) {
+            throw new ValidationError(
+                `"${existing.name}" está en la receta de: ${usedBy.map(item => item.name).join(', ')}. ` +
+                'Quítelo de esas recetas antes de darlo de baja.'
+            );
+        }
+
+        await this.ingredientRepository.update(id, { active: false });
+    }
+}
@@ -0,0 +1,28 @@
+/**
+ * @file GetIngredients.ts
+ * @description Caso de uso para listar los ingredientes con su stock
+ *
+ * @connections
+ * - Usa: IIngredientRepository (domain/repositories)
+ * - Usado por: InventoryController (infrastructure/controllers)
+ * - Inyectado por: InventoryModule (infrastructure/di/modules)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { IIngredientRepository } from '../../../domain/repositories/IIngredientRepository';
+import { Ingredient } from '../../../domain/entities/Ingredient';
+import { isLowStock } from '../../../domain/inventory/stock';
+
+export interface IngredientWithStatus extends Ingredient {
+    lowStock: boolean;
+}
+
+export class GetIngredients {
+    constructor(private ingredientRepository: IIngredientRepository) {}
+
+    async execute(includeInactive: boolean = false): Promise<IngredientWithStatus[]> {
+        const ingredients = await this.ingredientRepository.findAll(includeInactive);
+        return ingredients.map(ingredient => ({ ...ingredient, lowStock: isLowStock(ingredient) }));
+    }
+}
@@ -0,0 +1,24 @@
+/**
+ * @file GetStockMovements.ts
+ * @description Caso de uso para consultar el kardex de inventario
+ *
+ * @connections
+ * - Usa: IStockMovementRepository (domain/repositories)
+ * - Usado por: InventoryController (infrastructure/controllers)
+ * - Inyectado por: InventoryModule (infrastructure/di/modules)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { IStockMovementRepository, StockMovementFilter } from '../../../domain/repositories/IStockMovementRepository';
+import { StockMovement } from '../../../domain/entities/Ingredient';
+
+export class GetStockMovements {
+    constructor(private movementRepository: IStockMovementRepository) {}
+
+    /** Movimientos más recientes primero (máximo 500) */
+    async execute(filter: StockMovementFilter = {}, limit: number = 100): Promise<StockMovement[]> {
+        const safeLimit = Math.min(500, Math.max(1, Math.floor(Number(limit) || 100)));
+        return this.movementRepository.find(filter, safeLimit);
+    }
+}
@@ -0,0 +1,77 @@
+/**
+ * @file RecordStockMovement.ts
+ * @description Caso de uso para registrar movimientos manuales de inventario
+ *
+ * @purpose
+ * Compras (entra mercadería), mermas (se dañó o se botó) y conteos físicos. En un
+ * conteo se indica lo que hay en la bodega y el kardex registra la diferencia
+ * contra el sistema.
+ *
+ * @connections
+ * - Usa: IIngredientRepository (domain/repositories)
+ * - Usa: InventoryService (application/services) - aplica el cambio y alerta stock bajo
+ * - Usado por: InventoryController (infrastructure/controllers)
+ * - Inyectado por: InventoryModule (infrastructure/di/modules)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { IIngredientRepository } from '../../../domain/repositories/IIngredientRepository';
+import { StockMovement } from '../../../domain/entities/Ingredient';
+import { NotFoundError, ValidationError } from '../../../domain/errors/CustomErrors';
+import { roundQuantity } from '../../../domain/inventory/stock';
+import { InventoryService } from '../../services/InventoryService';
+
+export type ManualMovementType = 'purchase' | 'waste' | 'adjustment';
+
+export interface RecordStockMovementParams {
+    ingredientId: string;
+    type?: ManualMovementType;
+    /** Compra/merma: cantidad que entra o sale. Conteo: stock contado */
+    quantity?: unknown;
+    reason?: string;
+    createdBy?: string;
+}
+
+const MANUAL_TYPES: ManualMovementType[] = ['purchase', 'waste', 'adjustment'];
+
+export class RecordStockMovement {
+    constructor(
+        private ingredientRepository: IIngredientRepository,
+        private inventoryService: InventoryService
+    ) {}
+
+    async execute(params: RecordStockMovementParams): Promise<StockMovement | null> {
+        if (!params.type || !MANUAL_TYPES.includes(params.type)) {
+            throw new ValidationError(`Tipo de movimiento inválido. Valores permitidos: ${MANUAL_TYPES.join(', ')}`, { field: 'type' });
+        }
+
+        const quantity = Number(params.quantity);
+        if (!Number.isFinite(quantity) || quantity < 0 || (quantity === 0 && params.type !== 'adjustment')) {
+            throw new ValidationError('La cantidad debe ser un número mayor a 0', { field: 'quantity' });
+        }
+
+        const reason = params.reason?.trim();
+        if (params.type === 'waste' && !reason) {
+            throw new ValidationError('El motivo de la merma es obligatorio', { field: 'reason' });
+        }
+
+        const ingredient = await this.ingredientRepository.findById(params.ingredientId);
+        if (!ingredient || !ingredient.active) {
+            throw new NotFoundError('Ingrediente no encontrado', 'Ingredient');
+        }
+
+        const change = params.type === 'purchase' ? quantity
+            : params.type === 'waste' ? -quantity
+            : roundQuantity(quantity - ingredient.stock);
+
+        // Conteo que coincide con el sistema: no hay nada que registrar
+        if (change === 0) return null;
+
+        const [movement] = await this.inventoryService.applyChanges(
+            [{ ingredientId: ingredient.id, change }],
+            { type: params.type, reason, by: params.createdBy }
+        );
+        return movement ?? null;
+    }
+}
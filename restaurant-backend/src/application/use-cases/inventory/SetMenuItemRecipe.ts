@@ -0,0 +1,54 @@
+/**
+ * @file SetMenuItemRecipe.ts
+ * @description Caso de uso para definir la receta de un plato
+ *
+ * @purpose
+ * Guarda cuánto de cada ingrediente consume una porción del plato. Una receta
+ * vacía deja el plato fuera del descuento automático.
+ *
+ * @connections
+ * - Usa: IMenuRepository, IIngredientRepository (domain/repositories)
+ * - Usa: normalizeRecipe (domain/inventory/stock)
+ * - Usado por: InventoryController (infrastructure/controllers)
+ * - Inyectado por: InventoryModule (infrastructure/di/modules)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { IMenuRepository } from '../../../domain/repositories/IMenuRepository';
+import { IIngredientRepository } from '../../../domain/repositories/IIngredientRepository';
+import { IngredientQuantity } from '../../../domain/entities/Ingredient';
+import { MenuItem } from '../../../domain/entities/MenuItem';
+import { NotFoundError, ValidationError } from '../../../domain/errors/CustomErrors';
+import { normalizeRecipe } from '../../../domain/inventory/stock';
+
+export class SetMenuItemRecipe {
+    constructor(
+        private menuRepository: IMenuRepository,
+        private ingredientRepository: IIngredientRepository
+    ) {}
+
+    async execute(menuItemId: string, lines: IngredientQuantity[]): Promise<MenuItem> {
+        const menuItem = await this.menuRepository.findById(menuItemId);
+        if (!menuItem) {
+            throw new NotFoundError('Producto no encontrado', 'MenuItem');
+        }
+
+        const recipe = normalizeRecipe(lines);
+        if (recipe.length > 0) {
+            const ids = recipe.map(line => line.ingredientId);
+            const found = await this.ingredientRepository.findByIds(ids);
+            const active = new Set(found.filter(i => i.active).map(i => i.id));
+            const missing = ids.filter(id => !active.has(id));
+            if (missing.length > 0) {
+                throw new ValidationError('La receta incluye ingredientes que no existen o están dados de baja', { missing });
+            }
+        }
+
+        const updated = await this.menuRepository.update(menuItemId, { recipe });
+        if (!updated) {
+            throw new NotFoundError('Producto no encontrado', 'MenuItem');
+        }
+        return updated;
+    }
+}
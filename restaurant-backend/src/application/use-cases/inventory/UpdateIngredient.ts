@@ -0,0 +1,52 @@
+/**
+ * @file UpdateIngredient.ts
+ * @description Caso de uso para editar un ingrediente
+ *
+ * @purpose
+ * Edita nombre, unidad, mínimo y costo. El stock no se edita aquí: se corrige con
+ * un movimiento (compra, merma o conteo) para que quede en el kardex.
+ *
+ * @connections
+ * - Usa: IIngredientRepository (domain/repositories)
+ * - Usado por: InventoryController (infrastructure/controllers)
+ * - Inyectado por: InventoryModule (infrastructure/di/modules)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { IIngredientRepository } from '../../../domain/repositories/IIngredientRepository';
+import { Ingredient, UpdateIngredientDTO } from '../../../domain/entities/Ingredient';
+import { NotFoundError, ValidationError } from '../../../domain/errors/CustomErrors';
+import { validateIngredientFields } from './validateIngredientFields';
+
+export class UpdateIngredient {
+    constructor(private ingredientRepository: IIngredientRepository) {}
+
+    async execute(id: string, data: UpdateIngredientDTO): Promise<Ingredient> {
+        const existing = await this.ingredientRepository.findById(id);
+        if (!existing) {
+            throw new NotFoundError('Ingrediente no encontrado', 'Ingredient');
+        }
+
+        const { stock: _stock, ...changes } = data as UpdateIngredientDTO & { stock?: number };
+        validateIngredientFields(changes);
+
+        if (changes.name !== undefined) {
+            const name = changes.name.trim();
+            if (!name) {
+                throw new ValidationError('El nombre del ingrediente es obligatorio', { field: 'name' });
+            }
+            const duplicate = await this.ingredientRepository.findByName(name);
+            if (duplicate && duplicate.id !== id) {
+                throw new ValidationError(`Ya existe un ingrediente llamado "${duplicate.name}"`);
+            }
+            changes.name = name;
+        }
+
+        const updated = await this.ingredientRepository.update(id, changes);
+        if (!updated) {
+            throw new NotFoundError('Ingrediente no encontrado', 'Ingredient');
+        }
+        return updated;
+    }
+}
@@ -0,0 +1,12 @@
+/**
+ * @file index.ts
+ * @description Exporta todos los use cases de inventario
+ */
+
+export { CreateIngredient } from './CreateIngredient';
+export { UpdateIngredient } from './UpdateIngredient';
+export { DeleteIngredient } from './DeleteIngredient';
+export { GetIngredients, IngredientWithStatus } from './GetIngredients';
+export { RecordStockMovement, RecordStockMovementParams, ManualMovementType } from './RecordStockMovement';
+export { GetStockMovements } from './GetStockMovements';
+export { SetMenuItemRecipe } from './SetMenuItemRecipe';
@@ -0,0 +1,24 @@
+/**
+ * @file validateIngredientFields.ts
+ * @description Validaciones compartidas de campos de ingrediente (crear/actualizar)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { CreateIngredientDTO } from '../../../domain/entities/Ingredient';
+import { ValidationError } from '../../../domain/errors/CustomErrors';
+import { INGREDIENT_UNITS } from '../../../domain/inventory/stock';
+
+export function validateIngredientFields(data: Partial<CreateIngredientDTO>): void {
+    if (data.unit !== undefined && !INGREDIENT_UNITS.includes(data.unit)) {
+        throw new ValidationError(`Unidad inválida. Valores permitidos: ${INGREDIENT_UNITS.join(', ')}`, { field: 'unit' });
+    }
+
+    if (data.minStock !== undefined && (!Number.isFinite(data.minStock) || data.minStock < 0)) {
+        throw new ValidationError('El stock mínimo no puede ser negativo', { field: 'minStock' });
+    }
+
+    if (data.cost !== undefined && data.cost !== null && (!Number.isFinite(data.cost) || data.cost < 0)) {
+        throw new ValidationError('El costo no puede ser negativo', { field: 'cost' });
+    }
+}
@@ -0,0 +1,100 @@
+/**
+ * @file GetInvoiceDocument.ts
+ * @description Devuelve los documentos (XML autorizado / RIDE PDF) de una factura autorizada
+ *
+ * @purpose
+ * La factura guarda el XML firmado al emitirse (`xmlContent`): se entrega dentro
+ * del sobre <autorizacion> con el número y la fecha de autorización, igual que lo
+ * devuelve el SRI. Las facturas antiguas sin XML guardado lo regeneran con la
+ * clave de acceso persistida (mismo camino que CheckInvoiceStatus para el email).
+ * El RIDE se genera con PDFService desde la factura y la configuración actual.
+ *
+ * @connections
+ * - Usado por: InvoicePortal (descargas del portal público), ResendDocumentEmails (reenvío por email)
+ * - Usa: IBillRepository, IRestaurantConfigRepository, SRIService, PDFService, BillingService (billToInvoice)
+ *
+ * @layer Application - Use Case
+ */
+
+import { SRIService } from '../../../infrastructure/services/SRIService';
+import { PDFService } from '../../../infrastructure/services/PDFService';
+import { IBillRepository } from '../../../domain/repositories/IBillRepository';
+import { IRestaurantConfigRepository } from '../../../domain/repositories/IRestaurantConfigRepository';
+import { Bill } from '../../../domain/entities/Bill';
+import { NotFoundError } from '../../../domain/errors/CustomErrors';
+import { printLayoutOf } from '../../../domain/billing/printLayout';
+import { BillingService } from '../../services/BillingService';
+import { billToInvoice } from '../../services/billInvoice';
+
+export class GetInvoiceDocument {
+    constructor(
+        private configRepository: IRestaurantConfigRepository,
+        private billRepository: IBillRepository,
+        private sriService: SRIService,
+        private pdfService: PDFService,
+        private billingService: BillingService
+    ) { }
+
+    /** Devuelve el comprobante autorizado (sobre <autorizacion> con el XML firmado) */
+    async getAuthorizedXml(id: string): Promise<{ xml: string; documentNumber: string }> {
+        const bill = await this.findAuthorized(id);
+        const environment = await this.resolveEnvironment(bill);
+        const signedXml = await this.resolveSignedXml(bill, environment);
+
+        const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<autorizacion>
+  <estado>AUTORIZADO</estado>
+  <numeroAutorizacion>${bill.accessKey}</numeroAutorizacion>
+  <fechaAutorizacion>${bill.authorizationDate || ''}</fechaAutorizacion>
+  <ambiente>${environment === '2' ? 'PRODUCCIÓN' : 'PRUEBAS'}</ambiente>
+  <comprobante><![CDATA[${signedXml}]]></comprobante>
+</autorizacion>`;
+
+        return { xml, documentNumber: bill.documentNumber };
+    }
+
+    /** Devuelve el PDF (RIDE) de la factura */
+    async getPdf(id: string): Promise<{ pdf: Buffer; documentNumber: string }> {
+        const bill = await this.findAuthorized(id);
+        const config = await this.configRepository.get();
+        const environment = await this.resolveEnvironment(bill);
+
+        const pdf = await this.pdfService.generateInvoicePDF(billToInvoice(this.billingService, bill, config, environment), printLayoutOf(config?.billing));
+        return { pdf, documentNumber: bill.documentNumber };
+    }
+
+    /** Comprobante, RIDE y XML firmado para adjuntar al email de la factura */
+    async getEmailAttachments(id: string): Promise<{ invoice: any; pdf: Buffer; signedXml: string; bill: Bill }> {
+        const bill = await this.findAuthorized(id);
+        const config = await this.configRepository.get();
+        const environment = await this.resolveEnvironment(bill);
+
+        const invoice = billToInvoice(this.billingService, bill, config, environment);
+        const pdf = await this.pdfService.generateInvoicePDF(invoice, printLayoutOf(config?.billing));
+        const signedXml = await this.resolveSignedXml(bill, environment);
+        return { invoice, pdf, signedXml, bill };
+    }
+
+    private async findAuthorized(id: string): Promise<Bill> {
+        const bill = await this.billRepository.findById(id);
+        if (!bill || bill.sriStatus !== 'AUTORIZADO' || !bill.accessKey) {
+            throw new NotFoundError('Factura autorizada no encontrada', 'Bill');
+        }
+        return bill;
+    }
+
+    /** XML firmado guardado al emitir; las facturas antiguas lo regeneran con su clave de acceso */
+    private async resolveSignedXml(bill: Bill, environment: '1' | '2'): Promise<string> {
+        if (bill.xmlContent) return bill.xmlContent;
+        const config = await this.configRepository.get();
+        const xml = this.sriService.generateInvoiceXML(billToInvoice(this.billingService, bill, config, environment), bill.accessKey);
+        return this.sriService.signXML(xml, config || undefined);
+    }
+
+    /** Ambiente con que se emitió; las facturas antiguas lo llevan en la clave de acceso */
+    private async resolveEnvironment(bill: Bill): Promise<'1' | '2'> {
+        const environment = bill.environment || bill.accessKey?.charAt(23);
+        if (environment === '1' || environment === '2') return environment;
+        return this.configRepository.getEnvironment();
+    }
+}
@@ -0,0 +1,247 @@
+/**
+ * @file InvoicePortal.ts
+ * @description Portal público para que el cliente descargue sus facturas sin login
+ *
+ * @purpose
+ * Dos formas de acceso, ambas con la cédula/RUC del comprador:
+ * - Cédula/RUC + clave de acceso o número de factura → esa factura.
+ * - Cédula/RUC + email → código de un solo uso al email de sus facturas → sus
+ *   últimas facturas autorizadas.
+ * Cualquiera de las dos abre una sesión corta (token aleatorio en caché) que solo
+ * permite descargar las facturas encontradas. Las respuestas no distinguen entre
+ * "no existe" y "no coincide" para no servir de oráculo de enumeración; el límite
+ * por IP lo ponen los rate limiters de las rutas.
+ * Solo se entregan facturas AUTORIZADAS de producción: una de pruebas con el mismo
+ * número no tiene validez tributaria y no debe tapar ni suplantar a la real.
+ *
+ * @connections
+ * - Usado por: InvoicePortalController (rutas /api/public/invoices)
+ * - Usa: IBillRepository, IEmailService, GetInvoiceDocument, CacheService
+ *
+ * @layer Application - Use Case
+ */
+
+import crypto from 'crypto';
+import { IBillRepository } from '../../../domain/repositories/IBillRepository';
+import { IEmailService } from '../../interfaces/IEmailService';
+import { Bill } from '../../../domain/entities/Bill';
+import { PRODUCTION_ENVIRONMENT } from '../../../domain/billing/invoice';
+import { ForbiddenError, NotFoundError, ValidationError } from '../../../domain/errors/CustomErrors';
+import { CacheService, cacheService } from '../../../infrastructure/utils/CacheService';
+import { logger } from '../../../infrastructure/utils/Logger';
+import {
+    CONSUMIDOR_FINAL_RUC,
+    PORTAL_CODE_TTL_MS,
+    PORTAL_CODE_MAX_ATTEMPTS,
+    PORTAL_SESSION_TTL_MS,
+    PORTAL_MAX_INVOICES
+} from '../../../config/billing.constants';
+import { GetInvoiceDocument } from './GetInvoiceDocument';
+
+/** Factura tal como la ve el cliente en el portal */
+export interface PortalInvoice {
+    id: string;
+    documentNumber: string;
+    date: string;
+    customerName: string;
+    total: number;
+    accessKey: string;
+    authorizationDate?: string;
+}
+
+export interface PortalSession {
+    token: string;
+    expiresAt: string;
+    invoices: PortalInvoice[];
+}
+
+interface PendingCode {
+    codeHash: string;
+    attempts: number;
+    expiresAt: number;
+}
+
+interface StoredSession {
+    identification: string;
+    billIds: string[];
+}
+
+const NOT_FOUND_MESSAGE = 'No encontramos una factura autorizada con esos datos';
+const CODE_SENT_MESSAGE = 'Si los datos coinciden con nuestras facturas, recibirás un código en tu email';
+
+const hash = (value: string): string => crypto.createHash('sha256').update(value).digest('hex');
+
+export class InvoicePortal {
+    constructor(
+        private billRepository: IBillRepository,
+        private emailService: IEmailService,
+        private invoiceDocument: GetInvoiceDocument,
+        private cache: CacheService = cacheService
+    ) { }
+
+    /** Cédula/RUC + clave de acceso (49 dígitos) o número de factura (001-001-000000123) */
+    async lookup(params: { identification?: string; reference?: string }): Promise<PortalSession> {
+        const identification = this.normalizeIdentification(params.identification);
+        const reference = String(params.reference || '').trim();
+
+        let bill: Bill | null;
+        if (/^\d{49}$/.test(reference)) {
+            bill = await this.billRepository.findByAccessKey(reference);
+        } else {
+            const match = reference.match(/^(\d{3})-(\d{3})-(\d{1,9})$/);
+            if (!match) {
+                throw new ValidationError('Ingrese la clave de acceso (49 dígitos) o el número de factura (001-001-000000123)', { field: 'reference' });
+            }
+            // El mismo número existe en pruebas y en producción: se filtra en la consulta
+            const result = await this.billRepository.findPaginated(1, 1, {
+                documentNumber: `${match[1]}-${match[2]}-${match[3].padStart(9, '0')}`,
+                environment: PRODUCTION_ENVIRONMENT,
+                sriStatus: 'AUTORIZADO'
+            });
+            bill = result.data[0] || null;
+        }
+
+        if (!bill || !this.isDownloadable(bill) || bill.customerIdentification !== identification) {
+            logger.warn('[InvoicePortal] Lookup without match', { reference: reference.slice(0, 17) });
+            throw new NotFoundError(NOT_FOUND_MESSAGE, 'Bill');
+        }
+
+        return this.openSession(identification, [bill]);
+    }
+
+    /**
+     * Envía un código de un solo uso si el email coincide con el de alguna factura
+     * autorizada del cliente. Responde siempre igual.
+     */
+    async requestCode(params: { identification?: string; email?: string }): Promise<{ message: string }> {
+        const identification = this.normalizeIdentification(params.identification);
+        const email = String(params.email || '').trim().toLowerCase();
+        if (!email.includes('@')) {
+            throw new ValidationError('Ingrese un email válido', { field: 'email' });
+        }
+
+        const bills = await this.findCustomerInvoices(identification);
+        const hasEmail = bills.some(b => (b.customerEmail || '').trim().toLowerCase() === email);
+
+        if (!hasEmail) {
+            logger.warn('[InvoicePortal] Code requested without matching invoices');
+            return { message: CODE_SENT_MESSAGE };
+        }
+
+        if (!this.emailService.sendPortalCodeEmail) {
+            logger.warn('[InvoicePortal] Email service cannot send portal codes');
+            return { message: CODE_SENT_MESSAGE };
+        }
+
+        const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+        const pending: PendingCode = { codeHash: hash(code), attempts: 0, expiresAt: Date.now() + PORTAL_CODE_TTL_MS };
+        this.cache.set(this.codeKey(identification), pending, PORTAL_CODE_TTL_MS);
+
+        const result = await this.emailService.sendPortalCodeEmail(email, code, Math.round(PORTAL_CODE_TTL_MS / 60000));
+        if (!result.success) {
+            logger.error('[InvoicePortal] Failed to send portal code', { error: result.error });
+        }
+
+        return { message: CODE_SENT_MESSAGE };
+    }
+
+    /** Canjea el código por una sesión con las últimas facturas autorizadas del cliente */
+    async verifyCode(params: { identification?: string; code?: string }): Promise<PortalSession> {
+        const identification = this.normalizeIdentification(params.identification);
+        const code = String(params.code || '').trim();
+        const key = this.codeKey(identification);
+        const pending = this.cache.get<PendingCode>(key);
+
+        if (!pending || pending.expiresAt <= Date.now()) {
+            throw new ValidationError('Código incorrecto o expirado. Solicite uno nuevo.', { field: 'code' });
+        }
+
+        if (!/^\d{6}$/.test(code) || hash(code) !== pending.codeHash) {
+            const attempts = pending.attempts + 1;
+            if (attempts >= PORTAL_CODE_MAX_ATTEMPTS) {
+                this.cache.invalidate(key);
+                logger.warn('[InvoicePortal] Portal code locked after too many attempts');
+            } else {
+                this.cache.set(key, { ...pending, attempts }, pending.expiresAt - Date.now());
+            }
+            throw new ValidationError('Código incorrecto o expirado. Solicite uno nuevo.', { field: 'code' });
+        }
+
+        this.cache.invalidate(key);
+        const bills = await this.findCustomerInvoices(identification);
+        return this.openSession(identification, bills);
+    }
+
+    /** RIDE de una factura de la sesión */
+    async getPdf(token: string | undefined, billId: string): Promise<{ pdf: Buffer; documentNumber: string }> {
+        this.authorizeDownload(token, billId);
+        return this.invoiceDocument.getPdf(billId);
+    }
+
+    /** XML autorizado de una factura de la sesión */
+    async getXml(token: string | undefined, billId: string): Promise<{ xml: string; documentNumber: string }> {
+        this.authorizeDownload(token, billId);
+        return this.invoiceDocument.getAuthorizedXml(billId);
+    }
+
+    private authorizeDownload(token: string | undefined, billId: string): void {
+        const session = token ? this.cache.get<StoredSession>(this.sessionKey(token)) : null;
+        if (!session || !session.billIds.includes(billId)) {
+            throw new ForbiddenError('El enlace de descarga expiró. Vuelva a consultar su factura.');
+        }
+    }
+
+    private openSession(identification: string, bills: Bill[]): PortalSession {
+        const token = crypto.randomBytes(32).toString('hex');
+        const session: StoredSession = { identification, billIds: bills.map(b => b.id) };
+        this.cache.set(this.sessionKey(token), session, PORTAL_SESSION_TTL_MS);
+
+        return {
+            token,
+            expiresAt: new Date(Date.now() + PORTAL_SESSION_TTL_MS).toISOString(),
+            invoices: bills.map(b => ({
+                id: b.id,
+                documentNumber: b.documentNumber,
+                date: b.date,
+                customerName: b.customerName,
+                total: b.total,
+                accessKey: b.accessKey as string,
+                authorizationDate: b.authorizationDate
+            }))
+        };
+    }
+
+    private async findCustomerInvoices(identification: string): Promise<Bill[]> {
+        const result = await this.billRepository.findPaginated(
+            1,
+            PORTAL_MAX_INVOICES,
+            { customerIdentification: identification, environment: PRODUCTION_ENVIRONMENT, sriStatus: 'AUTORIZADO' },
+            { createdAt: -1 }
+        );
+        return result.data.filter(b => this.isDownloadable(b));
+    }
+
+    /** Autorizada y de producción (las antiguas sin environment lo llevan en la clave de acceso) */
+    private isDownloadable(bill: Bill): boolean {
+        const environment = bill.environment || bill.accessKey?.charAt(23);
+        return bill.sriStatus === 'AUTORIZADO' && !!bill.accessKey && environment === PRODUCTION_ENVIRONMENT;
+    }
+
+    /** Cédula (10), RUC (13) o pasaporte; consumidor final no identifica a nadie */
+    private normalizeIdentification(value?: string): string {
+        const identification = String(value || '').trim().toUpperCase();
+        if (!/^[0-9A-Z]{5,20}$/.test(identification) || identification === CONSUMIDOR_FINAL_RUC) {
+            throw new ValidationError('Ingrese su cédula, RUC o pasaporte', { field: 'identification' });
+        }
+        return identification;
+    }
+
+    // Las claves de caché no llevan datos del cliente ni el token en claro
+    private codeKey(identification: string): string {
+        return `invoice-portal:code:${hash(identification)}`;
+    }
+
+    private sessionKey(token: string): string {
+        return `invoice-portal:session:${hash(token)}`;
+    }
+}
@@ -0,0 +1,7 @@
+/**
+ * @file index.ts
+ * @description Exporta los use cases del portal público de facturas
+ */
+
+export { GetInvoiceDocument } from './GetInvoiceDocument';
+export { InvoicePortal, PortalInvoice, PortalSession } from './InvoicePortal';
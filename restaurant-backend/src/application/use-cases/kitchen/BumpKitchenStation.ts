@@ -0,0 +1,64 @@
+/**
+ * @file BumpKitchenStation.ts
+ * @description Caso de uso: una estación de cocina despacha sus ítems de un pedido
+ *
+ * @purpose
+ * Marca preparados solo los ítems de la estación (parrilla, bar...). El pedido
+ * pasa a Listo cuando TODAS las estaciones despacharon lo suyo.
+ *
+ * @connections
+ * - Usa: IOrderRepository.markStationPrepared (domain/repositories)
+ * - Usa: IOrderEventPublisher (application/interfaces) - order:item-prepared / order:ready
+ * - Usado por: OrderController (infrastructure/controllers)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { Order, OrderStatus } from '../../../domain/entities/Order';
+import { IOrderRepository } from '../../../domain/repositories/IOrderRepository';
+import { NotFoundError, ValidationError } from '../../../domain/errors/CustomErrors';
+import { allItemsPrepared, stationKey } from '../../../domain/kitchen/stations';
+import { KITCHEN_STATUSES, withStatusChange } from '../../../domain/orders/lifecycle';
+import { IOrderEventPublisher } from '../../interfaces/IOrderEventPublisher';
+
+export class BumpKitchenStation {
+    constructor(
+        private orderRepository: IOrderRepository,
+        private eventPublisher?: IOrderEventPublisher
+    ) { }
+
+    async execute(orderId: string, stationId: string, bumpedBy?: string): Promise<Order> {
+        const station = String(stationId || '').trim();
+        if (!station) {
+            throw new ValidationError('Estación de cocina requerida');
+        }
+
+        const current = await this.orderRepository.findById(orderId);
+        if (!current) {
+            throw new NotFoundError(`Order with ID ${orderId} not found`, 'Order');
+        }
+        if (!KITCHEN_STATUSES.includes(current.status)) {
+            throw new ValidationError(`El pedido ya no está en cocina (${current.status})`);
+        }
+
+        let order = await this.orderRepository.markStationPrepared(orderId, stationKey(station));
+        if (!order) {
+            throw new NotFoundError(`Order with ID ${orderId} not found`, 'Order');
+        }
+
+        if (allItemsPrepared(order.items)) {
+            order = (await this.orderRepository.update(orderId, {
+                ...withStatusChange(order, OrderStatus.Ready, bumpedBy),
+                readyAt: new Date()
+            })) || order;
+            this.eventPublisher?.publish('order:ready', order.id, order);
+        } else {
+            if (order.status === OrderStatus.New) {
+                order = (await this.orderRepository.update(orderId, withStatusChange(order, OrderStatus.InPreparation, bumpedBy))) || order;
+            }
+            this.eventPublisher?.publish('order:item-prepared', order.id, order);
+        }
+
+        return order;
+    }
+}
@@ -0,0 +1,6 @@
+/**
+ * @file index.ts
+ * @description Exporta los use cases de cocina
+ */
+
+export { BumpKitchenStation } from './BumpKitchenStation';
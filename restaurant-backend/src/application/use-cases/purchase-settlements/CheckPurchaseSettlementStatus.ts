@@ -0,0 +1,78 @@
+/**
+ * @file CheckPurchaseSettlementStatus.ts
+ * @description Caso de uso para verificar (y reenviar) una liquidación de compra en el SRI
+ *
+ * @purpose
+ * Consulta la autorización con la clave de acceso guardada. Si el SRI no tiene
+ * el comprobante (caída del servicio durante la emisión), reenvía el XML firmado
+ * tal como se guardó — sin volver a firmar ni consumir otro secuencial.
+ *
+ * @connections
+ * - Usa: IPurchaseSettlementRepository, IRestaurantConfigRepository (domain/repositories)
+ * - Usa: SRIService (infrastructure/services)
+ * - Usado por: PurchaseSettlementController (infrastructure/controllers)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { SRIService } from '../../../infrastructure/services/SRIService';
+import { IRestaurantConfigRepository } from '../../../domain/repositories/IRestaurantConfigRepository';
+import { IPurchaseSettlementRepository } from '../../../domain/repositories/IPurchaseSettlementRepository';
+import { PurchaseSettlement } from '../../../domain/entities/PurchaseSettlement';
+import { NotFoundError, ValidationError } from '../../../domain/errors/CustomErrors';
+import { logger } from '../../../infrastructure/utils/Logger';
+
+export class CheckPurchaseSettlementStatus {
+    constructor(
+        private configRepository: IRestaurantConfigRepository,
+        private purchaseSettlementRepository: IPurchaseSettlementRepository,
+        private sriService: SRIService
+    ) { }
+
+    async execute(id: string): Promise<PurchaseSettlement> {
+        const settlement = await this.purchaseSettlementRepository.findById(id);
+        if (!settlement) {
+            throw new NotFoundError('Liquidación de compra no encontrada', 'PurchaseSettlement');
+        }
+        if (settlement.sriStatus === 'AUTORIZADO') {
+            return settlement;
+        }
+        if (!settlement.accessKey || !settlement.xmlContent) {
+            throw new ValidationError('La liquidación no llegó a firmarse; emítala nuevamente');
+        }
+
+        // Ambiente del documento (persistido al emitir); fallback al ambiente activo en BD
+        const environment = settlement.environment || await this.configRepository.getEnvironment();
+        const isProd = environment === '2';
+
+        let authResult = await this.sriService.authorizePurchaseSettlement(settlement.accessKey, isProd);
+
+        if (authResult.estado === 'EN PROCESO' || authResult.estado === 'UNKNOWN' || !authResult.estado) {
+            logger.info(`[CheckPurchaseSettlementStatus] ${settlement.documentNumber} not found in SRI. Resending stored XML.`);
+            const sendResult = await this.sriService.sendPurchaseSettlementToSRI(settlement.xmlContent, isProd);
+            const alreadyRegistered = sendResult.mensajes.join(' ').includes('CLAVE ACCESO REGISTRADA');
+            authResult = sendResult.estado === 'DEVUELTA' && !alreadyRegistered
+                ? { ...authResult, estado: 'DEVUELTA', mensajes: sendResult.mensajes }
+                : await this.sriService.waitForAuthorization(settlement.accessKey, isProd);
+        }
+
+        const message = (authResult.mensajes || []).join(' ');
+        const updated = await this.purchaseSettlementRepository.update(settlement.id, {
+            sriStatus: authResult.estado,
+            authorizationDate: authResult.fechaAutorizacion,
+            sriMessage: message
+        });
+
+        if (authResult.estado !== 'AUTORIZADO' && message) {
+            await this.purchaseSettlementRepository.pushErrorLog(settlement.id, {
+                timestamp: new Date().toISOString(),
+                sriStatus: authResult.estado || 'DESCONOCIDO',
+                message,
+                attempt: (settlement.errorLog?.length || 0) + 1
+            });
+        }
+
+        logger.debug(`[CheckPurchaseSettlementStatus] Final state: ${authResult.estado}`);
+        return updated || settlement;
+    }
+}
@@ -0,0 +1,280 @@
+/**
+ * @file GeneratePurchaseSettlement.ts
+ * @description Caso de uso para emitir una liquidación de compra (codDoc 03)
+ *
+ * @purpose
+ * El restaurante compra mariscos, verduras o carne a proveedores sin RUC y el SRI
+ * exige que el comprador emita el comprobante. Valida los datos del proveedor y
+ * las líneas, toma el secuencial propio de liquidaciones del ambiente activo,
+ * guarda un BORRADOR y lo envía al SRI con el mismo flujo de reintentos que las
+ * notas de crédito. El XML firmado queda guardado para reenvíos y descargas.
+ *
+ * @connections
+ * - Usa: IPurchaseSettlementRepository, IRestaurantConfigRepository (domain/repositories)
+ * - Usa: SRIService (infrastructure/services) - XML, firma, recepción y autorización
+ * - Usa: BillingService (application/services) - fechas, códigos de IVA e identificación
+ * - Usado por: PurchaseSettlementController (infrastructure/controllers)
+ * - Inyectado por: BillingModule (infrastructure/di/modules)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { SRIService } from '../../../infrastructure/services/SRIService';
+import { IRestaurantConfigRepository } from '../../../domain/repositories/IRestaurantConfigRepository';
+import { IPurchaseSettlementRepository } from '../../../domain/repositories/IPurchaseSettlementRepository';
+import {
+    PurchaseSettlement,
+    PurchaseSettlementItem,
+    PurchaseSettlementSupplier
+} from '../../../domain/entities/PurchaseSettlement';
+import { SupplierIdentificationType } from '../../../domain/billing/purchaseSettlement';
+import { SRI_PAYMENT_METHODS, CASH_PAYMENT_METHOD } from '../../../domain/billing/payments';
+import { ValidationError } from '../../../domain/errors/CustomErrors';
+import { BillingService } from '../../services/BillingService';
+import { logger } from '../../../infrastructure/utils/Logger';
+import { SRI_MAX_SEND_ATTEMPTS } from '../../../config/billing.constants';
+import { round2, toBillingPurchaseSettlement, isDuplicateSequentialError } from './purchaseSettlementHelpers';
+
+export interface GeneratePurchaseSettlementParams {
+    supplier: {
+        name: string;
+        identification: string;
+        /** Opcional: '08' para identificaciones del exterior; si no, se deduce de la identificación */
+        identificationType?: SupplierIdentificationType;
+        address: string;
+        email?: string;
+        phone?: string;
+    };
+    items: {
+        description: string;
+        quantity: number;
+        unitPrice: number;
+        /** Tarifa de IVA (%). Por defecto 0: los productos del agro y del mar no gravan IVA */
+        taxRate?: number;
+    }[];
+    paymentMethod?: string;
+    notes?: string;
+}
+
+export interface GeneratePurchaseSettlementResult {
+    settlement: PurchaseSettlement;
+    sriResponse: any;
+    authorization: any;
+}
+
+const SUPPORTED_TAX_RATES = [0, 5, 12, 15];
+
+export class GeneratePurchaseSettlement {
+    constructor(
+        private configRepository: IRestaurantConfigRepository,
+        private purchaseSettlementRepository: IPurchaseSettlementRepository,
+        private sriService: SRIService,
+        private billingService: BillingService
+    ) { }
+
+    async execute(data: GeneratePurchaseSettlementParams, createdBy?: string): Promise<GeneratePurchaseSettlementResult> {
+        // 1. Validar proveedor, líneas y forma de pago
+        const supplier = this.validateSupplier(data.supplier);
+        const items = this.validateItems(data.items);
+        const paymentMethod = data.paymentMethod || CASH_PAYMENT_METHOD;
+        if (!SRI_PAYMENT_METHODS[paymentMethod]) {
+            throw new ValidationError(`Forma de pago SRI inválida: ${paymentMethod}`, { field: 'paymentMethod' });
+        }
+
+        const subtotal = round2(items.reduce((sum, i) => sum + i.subtotal, 0));
+        const tax = round2(items.reduce((sum, i) => sum + i.tax, 0));
+        const total = round2(subtotal + tax);
+
+        // 2. Config y ambiente desde la BD — fuente única de verdad
+        const config = await this.configRepository.get();
+        const info: any = config || {};
+        const environment = await this.configRepository.getEnvironment();
+        const isProd = environment === '2';
+        const estab = info.billing?.establishment || process.env.ESTAB || '001';
+        const ptoEmi = info.billing?.emissionPoint || process.env.PTO_EMI || '001';
+
+        // 3. Secuencial propio de liquidaciones (separado por ambiente)
+        let secuencial = (await this.configRepository.getNextPurchaseSettlementSequential()).toString().padStart(9, '0');
+        logger.info(`[GeneratePurchaseSettlement] New sequential generated: ${secuencial}`);
+
+        // 4. Guardar BORRADOR antes de enviar, para no perder el número ante errores de red
+        let settlement = await this.purchaseSettlementRepository.create({
+            documentNumber: `${estab}-${ptoEmi}-${secuencial}`,
+            date: new Date().toISOString(),
+            supplier,
+            items,
+            paymentMethod,
+            notes: data.notes?.trim() || undefined,
+            subtotal,
+            tax,
+            total,
+            sriStatus: 'BORRADOR',
+            environment,
+            sriMessage: 'Liquidación de compra en proceso de envío al SRI',
+            createdBy
+        });
+        logger.info(`[GeneratePurchaseSettlement] Draft saved with ID: ${settlement.id}`);
+
+        // 5. Generar XML, firmar y enviar — con reintento ante secuencial duplicado
+        let attempts = 0;
+        let result = null;
+        let accessKey = '';
+
+        while (attempts < SRI_MAX_SEND_ATTEMPTS) {
+            attempts++;
+            logger.info(`[GeneratePurchaseSettlement] Attempt ${attempts}/${SRI_MAX_SEND_ATTEMPTS} - Using sequential: ${secuencial}`);
+
+            try {
+                const billingSettlement = toBillingPurchaseSettlement(settlement, config, environment, this.billingService);
+                const xml = this.sriService.generatePurchaseSettlementXML(billingSettlement);
+                accessKey = billingSettlement.info.claveAcceso!;
+
+                const signedXml = await this.sriService.signXML(xml, config || undefined);
+                settlement = (await this.purchaseSettlementRepository.update(settlement.id, {
+                    accessKey,
+                    xmlContent: signedXml,
+                    sriStatus: 'ENVIANDO',
+                    sriMessage: `Enviando al SRI (intento ${attempts}/${SRI_MAX_SEND_ATTEMPTS})...`
+                })) || settlement;
+
+                result = await this.sriService.sendPurchaseSettlementToSRI(signedXml, isProd);
+                logger.info('[GeneratePurchaseSettlement] Successfully sent to SRI');
+                break;
+            } catch (error: any) {
+                logger.error(`[GeneratePurchaseSettlement] Attempt ${attempts} failed:`, error.message);
+
+                if (isDuplicateSequentialError(error.message || '') && attempts < SRI_MAX_SEND_ATTEMPTS) {
+                    secuencial = (await this.configRepository.getNextPurchaseSettlementSequential()).toString().padStart(9, '0');
+                    logger.info(`[GeneratePurchaseSettlement] 🔄 Duplicate sequential detected. Retrying with: ${secuencial}`);
+                    settlement = (await this.purchaseSettlementRepository.update(settlement.id, {
+                        documentNumber: `${estab}-${ptoEmi}-${secuencial}`,
+                        date: new Date().toISOString()
+                    })) || settlement;
+                    continue;
+                }
+
+                const message = attempts >= SRI_MAX_SEND_ATTEMPTS
+                    ? `Falló después de ${SRI_MAX_SEND_ATTEMPTS} intentos: ${error.message}`
+                    : error.message || 'Error desconocido';
+                await this.purchaseSettlementRepository.pushErrorLog(settlement.id, {
+                    timestamp: new Date().toISOString(),
+                    sriStatus: 'ERROR',
+                    message,
+                    attempt: attempts
+                });
+                throw error;
+            }
+        }
+
+        if (!result) {
+            throw new Error('Failed to send purchase settlement to SRI - no result obtained');
+        }
+
+        // 6. Autorización
+        const responseString = JSON.stringify(result);
+        const isAlreadyRegistered = result.estado === 'DEVUELTA' &&
+            (responseString.includes('CLAVE ACCESO REGISTRADA') || responseString.includes('EN PROCESAMIENTO'));
+
+        let authResult = null;
+        if (result.estado === 'RECIBIDA' || isAlreadyRegistered) {
+            if (!isAlreadyRegistered) {
+                logger.info('[GeneratePurchaseSettlement] Waiting 3 seconds before authorization...');
+                await new Promise(resolve => setTimeout(resolve, 3000));
+            }
+            authResult = await this.sriService.authorizePurchaseSettlement(accessKey, isProd);
+        }
+
+        const finalStatus = authResult?.estado || result.estado;
+        const finalMessage = (authResult?.mensajes || result.mensajes || []).join(' ');
+
+        settlement = (await this.purchaseSettlementRepository.update(settlement.id, {
+            sriStatus: finalStatus,
+            authorizationDate: authResult?.fechaAutorizacion,
+            sriMessage: finalMessage
+        })) || settlement;
+
+        // Si el SRI NO autorizó → guardar en errorLog acumulativo
+        if (finalStatus !== 'AUTORIZADO' && finalMessage) {
+            await this.purchaseSettlementRepository.pushErrorLog(settlement.id, {
+                timestamp: new Date().toISOString(),
+                sriStatus: finalStatus || 'DESCONOCIDO',
+                message: finalMessage,
+                attempt: attempts
+            });
+        }
+
+        logger.info(`[GeneratePurchaseSettlement] ${settlement.documentNumber} → ${finalStatus}`);
+
+        return { settlement, sriResponse: result, authorization: authResult };
+    }
+
+    private validateSupplier(supplier: GeneratePurchaseSettlementParams['supplier'] | undefined): PurchaseSettlementSupplier {
+        const name = supplier?.name?.trim();
+        const identification = supplier?.identification?.trim();
+        const address = supplier?.address?.trim();
+
+        if (!name) {
+            throw new ValidationError('El nombre del proveedor es obligatorio', { field: 'supplier.name' });
+        }
+        if (!address) {
+            throw new ValidationError('La dirección del proveedor es obligatoria', { field: 'supplier.address' });
+        }
+
+        // La liquidación identifica a una persona concreta: nunca "Consumidor Final"
+        const detectedType = this.billingService.getIdentificacionType(identification || '');
+        if (!identification || detectedType === '07') {
+            throw new ValidationError(
+                'La identificación del proveedor es obligatoria (cédula, RUC o pasaporte)',
+                { field: 'supplier.identification' }
+            );
+        }
+
+        const identificationType: SupplierIdentificationType =
+            supplier?.identificationType === '08' && detectedType === '06' ? '08' : detectedType;
+
+        return {
+            name,
+            identification,
+            identificationType,
+            address,
+            email: supplier?.email?.trim() || undefined,
+            phone: supplier?.phone?.trim() || undefined
+        };
+    }
+
+    private validateItems(items: GeneratePurchaseSettlementParams['items'] | undefined): PurchaseSettlementItem[] {
+        if (!Array.isArray(items) || items.length === 0) {
+            throw new ValidationError('La liquidación debe tener al menos una línea', { field: 'items' });
+        }
+
+        return items.map((item, index) => {
+            const description = item.description?.trim();
+            const quantity = Number(item.quantity);
+            const unitPrice = Number(item.unitPrice);
+            const taxRate = Number(item.taxRate ?? 0);
+
+            if (!description) {
+                throw new ValidationError(`La línea ${index + 1} no tiene descripción`, { field: 'items', index });
+            }
+            if (!Number.isFinite(quantity) || quantity <= 0) {
+                throw new ValidationError(`La cantidad de la línea ${index + 1} debe ser mayor a cero`, { field: 'items', index });
+            }
+            if (!Number.isFinite(unitPrice) || unitPrice <= 0) {
+                throw new ValidationError(`El precio de la línea ${index + 1} debe ser mayor a cero`, { field: 'items', index });
+            }
+            if (!SUPPORTED_TAX_RATES.includes(taxRate)) {
+                throw new ValidationError(`Tarifa de IVA no soportada en la línea ${index + 1}: ${taxRate}%`, { field: 'items', index });
+            }
+
+            const subtotal = round2(quantity * unitPrice);
+            return {
+                description,
+                quantity,
+                unitPrice,
+                taxRate,
+                subtotal,
+                tax: round2(subtotal * taxRate / 100)
+            };
+        });
+    }
+}
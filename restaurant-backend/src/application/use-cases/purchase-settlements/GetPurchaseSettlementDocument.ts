@@ -0,0 +1,60 @@
+/**
+ * @file GetPurchaseSettlementDocument.ts
+ * @description Devuelve los documentos (XML firmado / RIDE PDF) de una liquidación de compra
+ *
+ * @purpose
+ * A diferencia de las notas de crédito, la liquidación guarda el XML firmado al
+ * emitirse: se descarga tal cual se envió al SRI. El RIDE se genera con el mismo
+ * mapeo que usó la emisión (toBillingPurchaseSettlement).
+ *
+ * @connections
+ * - Usado por: PurchaseSettlementController (GET /purchase-settlements/:id/xml y /:id/pdf)
+ * - Usa: IPurchaseSettlementRepository, IRestaurantConfigRepository, PDFService, BillingService
+ *
+ * @layer Application - Use Case
+ */
+
+import { PDFService } from '../../../infrastructure/services/PDFService';
+import { IPurchaseSettlementRepository } from '../../../domain/repositories/IPurchaseSettlementRepository';
+import { IRestaurantConfigRepository } from '../../../domain/repositories/IRestaurantConfigRepository';
+import { PurchaseSettlement } from '../../../domain/entities/PurchaseSettlement';
+import { NotFoundError } from '../../../domain/errors/CustomErrors';
+import { BillingService } from '../../services/BillingService';
+import { toBillingPurchaseSettlement } from './purchaseSettlementHelpers';
+
+export class GetPurchaseSettlementDocument {
+    constructor(
+        private configRepository: IRestaurantConfigRepository,
+        private purchaseSettlementRepository: IPurchaseSettlementRepository,
+        private pdfService: PDFService,
+        private billingService: BillingService
+    ) { }
+
+    /** Devuelve el XML firmado tal como se envió al SRI */
+    async getSignedXml(id: string): Promise<{ xml: string; documentNumber: string }> {
+        const entity = await this.findOrFail(id);
+        if (!entity.xmlContent) {
+            throw new NotFoundError('La liquidación de compra no tiene XML firmado', 'PurchaseSettlement');
+        }
+        return { xml: entity.xmlContent, documentNumber: entity.documentNumber };
+    }
+
+    /** Devuelve el PDF (RIDE) de la liquidación de compra */
+    async getPdf(id: string): Promise<{ pdf: Buffer; documentNumber: string }> {
+        const entity = await this.findOrFail(id);
+        const config = await this.configRepository.get();
+        const environment = (entity.environment as '1' | '2') || await this.configRepository.getEnvironment();
+
+        const settlement = toBillingPurchaseSettlement(entity, config, environment, this.billingService);
+        const pdf = await this.pdfService.generatePurchaseSettlementPDF(settlement);
+        return { pdf, documentNumber: entity.documentNumber };
+    }
+
+    private async findOrFail(id: string): Promise<PurchaseSettlement> {
+        const entity = await this.purchaseSettlementRepository.findById(id);
+        if (!entity) {
+            throw new NotFoundError('Liquidación de compra no encontrada', 'PurchaseSettlement');
+        }
+        return entity;
+    }
+}
@@ -0,0 +1,43 @@
+/**
+ * @file GetPurchaseSettlements.ts
+ * @description Caso de uso para consultar liquidaciones de compra
+ *
+ * @connections
+ * - Usa: IPurchaseSettlementRepository (domain/repositories)
+ * - Usado por: PurchaseSettlementController (infrastructure/controllers)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { IPurchaseSettlementRepository } from '../../../domain/repositories/IPurchaseSettlementRepository';
+import { PurchaseSettlement } from '../../../domain/entities/PurchaseSettlement';
+import { NotFoundError } from '../../../domain/errors/CustomErrors';
+
+export class GetPurchaseSettlements {
+    constructor(private purchaseSettlementRepository: IPurchaseSettlementRepository) { }
+
+    async executeById(id: string): Promise<PurchaseSettlement> {
+        const settlement = await this.purchaseSettlementRepository.findById(id);
+        if (!settlement) {
+            throw new NotFoundError('Liquidación de compra no encontrada', 'PurchaseSettlement');
+        }
+        return settlement;
+    }
+
+    async executePaginated(
+        page: number = 1,
+        limit: number = 50,
+        filter: any = {},
+        sort: any = { createdAt: -1 }
+    ): Promise<{
+        data: PurchaseSettlement[];
+        pagination: {
+            page: number;
+            limit: number;
+            total: number;
+            totalPages: number;
+        };
+    }> {
+        return await this.purchaseSettlementRepository.findPaginated(page, limit, filter, sort);
+    }
+}
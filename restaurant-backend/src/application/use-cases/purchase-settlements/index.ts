@@ -0,0 +1,13 @@
+/**
+ * @file index.ts
+ * @description Exporta todos los use cases de liquidaciones de compra
+ */
+
+export {
+    GeneratePurchaseSettlement,
+    GeneratePurchaseSettlementParams,
+    GeneratePurchaseSettlementResult
+} from './GeneratePurchaseSettlement';
+export { GetPurchaseSettlements } from './GetPurchaseSettlements';
+export { CheckPurchaseSettlementStatus } from './CheckPurchaseSettlementStatus';
+export { GetPurchaseSettlementDocument } from './GetPurchaseSettlementDocument';
@@ -0,0 +1,94 @@
+/**
+ * @file purchaseSettlementHelpers.ts
+ * @description Utilidades compartidas de los casos de uso de liquidaciones de compra
+ *
+ * @purpose
+ * Un único mapeo entidad → comprobante SRI (codDoc 03), usado al emitir, al
+ * reenviar y al generar el RIDE, para que los tres produzcan el mismo documento.
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { PurchaseSettlement as PurchaseSettlementEntity } from '../../../domain/entities/PurchaseSettlement';
+import { PurchaseSettlement, PurchaseSettlementDetail } from '../../../domain/billing/purchaseSettlement';
+import { BillingService } from '../../services/BillingService';
+
+export const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Construye el comprobante SRI a partir de la liquidación persistida.
+ * Los precios del proveedor son SIN IVA: el IVA se suma encima (no se desglosa).
+ */
+export function toBillingPurchaseSettlement(
+    entity: PurchaseSettlementEntity,
+    config: any,
+    environment: '1' | '2',
+    billingService: BillingService
+): PurchaseSettlement {
+    const info: any = config || {};
+    const [estab, ptoEmi, secuencial] = entity.documentNumber.split('-');
+
+    const detalles: PurchaseSettlementDetail[] = entity.items.map((item, index) => ({
+        codigoPrincipal: billingService.buildItemCode({ name: item.description }, index),
+        descripcion: item.description,
+        cantidad: item.quantity,
+        precioUnitario: item.unitPrice,
+        descuento: 0,
+        precioTotalSinImpuesto: item.subtotal,
+        impuestos: [{
+            codigo: '2',
+            codigoPorcentaje: billingService.getTaxCode(item.taxRate),
+            tarifa: item.taxRate,
+            baseImponible: item.subtotal,
+            valor: item.tax
+        }]
+    }));
+
+    return {
+        detalles,
+        creationDate: entity.createdAt ? new Date(entity.createdAt) : new Date(entity.date),
+        authorizationDate: entity.authorizationDate,
+        info: {
+            ambiente: environment,
+            tipoEmision: '1',
+            razonSocial: info.businessName || process.env.BUSINESS_NAME || 'RESTAURANTE DEMO',
+            nombreComercial: info.name || process.env.COMMERCIAL_NAME,
+            ruc: info.ruc || process.env.RUC || '0000000000001',
+            claveAcceso: entity.accessKey || undefined,
+            codDoc: '03',
+            estab,
+            ptoEmi,
+            secuencial,
+            dirMatriz: info.fiscalAddress || info.address || process.env.DIR_MATRIZ || 'Direccion Matriz',
+            dirEstablecimiento: info.fiscalAddress || info.address || process.env.DIR_ESTABLECIMIENTO || process.env.DIR_MATRIZ,
+            // Fecha en zona horaria Ecuador — coincide con la embebida en la clave de acceso
+            fechaEmision: billingService.formatDateToSRI(entity.date),
+            obligadoContabilidad: info.obligadoContabilidad ? 'SI' : 'NO',
+
+            tipoIdentificacionProveedor: entity.supplier.identificationType,
+            razonSocialProveedor: entity.supplier.name,
+            identificacionProveedor: entity.supplier.identification,
+            direccionProveedor: entity.supplier.address,
+            emailProveedor: entity.supplier.email,
+            telefonoProveedor: entity.supplier.phone,
+
+            totalSinImpuestos: entity.subtotal,
+            totalDescuento: 0,
+            importeTotal: entity.total,
+            moneda: 'DOLAR',
+            pagos: [{ formaPago: entity.paymentMethod, total: entity.total, plazo: 0, unidadTiempo: 'dias' }],
+
+            observacion: entity.notes,
+            logoUrl: billingService.getLogoUrl(info),
+            emailMatriz: info.fiscalEmail || info.email || process.env.SMTP_FROM || 'info@restaurant.com',
+            regime: info.billing?.regime,
+            agenteRetencion: info.billing?.agenteRetencion
+        }
+    };
+}
+
+/** El SRI rechazó el número porque ya está usado → hay que pedir otro secuencial */
+export const isDuplicateSequentialError = (message: string): boolean =>
+    message.includes('Error de Secuencia') ||
+    message.includes('ya existe en el SRI') ||
+    message.includes('SECUENCIAL REGISTRADO');
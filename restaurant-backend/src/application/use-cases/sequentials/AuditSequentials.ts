@@ -0,0 +1,187 @@
+/**
+ * @file AuditSequentials.ts
+ * @description Caso de uso para auditar la continuidad de los secuenciales de comprobantes
+ *
+ * @purpose
+ * Tras migraciones de secuenciales (migrateSequentialsToEnvironments,
+ * initializeSequentialCounter) y reinicios de facturación, revisa facturas y
+ * notas de crédito por ambiente, establecimiento y punto de emisión: números
+ * faltantes, números repetidos y desfase de los contadores de
+ * RestaurantConfig.billing respecto al mayor número emitido. Los huecos
+ * justificados y las reparaciones aplicadas se leen del log de auditoría
+ * (colección "sequentials", un registro por serie).
+ *
+ * @connections
+ * - Usa: IBillRepository, ICreditNoteRepository, IRestaurantConfigRepository (domain/repositories)
+ * - Usa: auditSequentials (domain/billing/sequentials)
+ * - Usa: AuditService (infrastructure/services) - reparaciones y huecos justificados
+ * - Usado por: SequentialAuditController, RepairSequential
+ * - Inyectado por: BillingModule (infrastructure/di/modules)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { IBillRepository } from '../../../domain/repositories/IBillRepository';
+import { ICreditNoteRepository } from '../../../domain/repositories/ICreditNoteRepository';
+import { IRestaurantConfigRepository } from '../../../domain/repositories/IRestaurantConfigRepository';
+import {
+    AcknowledgedGap,
+    SequenceCounterField,
+    SequentialAuditResult,
+    SequentialDocumentRef,
+    SequentialDocumentType,
+    SequentialEnvironment,
+    SequentialRepairAction,
+    SEQUENCE_COUNTER_FIELDS,
+    auditSequentials
+} from '../../../domain/billing/sequentials';
+import { AuditService } from '../../../infrastructure/services/AuditService';
+import { logger } from '../../../infrastructure/utils/Logger';
+
+/** Colección bajo la que se registran las reparaciones (documentId = clave de la serie) */
+export const SEQUENTIALS_AUDIT_COLLECTION = 'sequentials';
+
+const PAGE_SIZE = 100;
+
+export interface SequentialRepairRecord {
+    seriesKey: string;
+    repair: SequentialRepairAction;
+    timestamp: string;
+    userEmail?: string;
+    reason?: string;
+    before: Record<string, any> | null;
+    after: Record<string, any> | null;
+}
+
+export interface SequentialAuditReport extends SequentialAuditResult {
+    generatedAt: string;
+    activeEnvironment: SequentialEnvironment;
+    establishment: string;
+    emissionPoint: string;
+    summary: {
+        series: number;
+        failing: number;
+        warnings: number;
+        missing: number;
+        duplicates: number;
+        unclassified: number;
+    };
+    /** Reparaciones registradas, la más reciente primero */
+    history: SequentialRepairRecord[];
+}
+
+interface PaginatedSource<T> {
+    findPaginated(page: number, limit: number, filter?: any, sort?: any): Promise<{ data: T[]; pagination: { totalPages: number } }>;
+}
+
+export class AuditSequentials {
+    constructor(
+        private billRepository: IBillRepository,
+        private creditNoteRepository: ICreditNoteRepository,
+        private configRepository: IRestaurantConfigRepository,
+        private auditService: AuditService
+    ) { }
+
+    /**
+     * @param pendingAcknowledgements Huecos recién justificados: el log de auditoría se
+     * escribe en segundo plano y puede no estar disponible al recalcular el reporte
+     */
+    async execute(pendingAcknowledgements: Record<string, AcknowledgedGap[]> = {}): Promise<SequentialAuditReport> {
+        const config = await this.configRepository.getOrCreate();
+        const activeEnvironment = await this.configRepository.getEnvironment();
+        const establishment = config.billing?.establishment || '001';
+        const emissionPoint = config.billing?.emissionPoint || '001';
+
+        const counters: Partial<Record<SequenceCounterField, number>> = {};
+        for (const byEnvironment of Object.values(SEQUENCE_COUNTER_FIELDS)) {
+            for (const field of Object.values(byEnvironment)) {
+                const value = (config.billing as any)?.[field];
+                if (typeof value === 'number') counters[field] = value;
+            }
+        }
+
+        const documents: SequentialDocumentRef[] = [
+            ...(await this.loadAll(this.billRepository)).map(b => this.toRef(b, 'factura')),
+            ...(await this.loadAll(this.creditNoteRepository)).map(nc => this.toRef(nc, 'notaCredito'))
+        ];
+
+        // Primera pasada para conocer las series; luego su historial de reparaciones
+        const seriesKeys = auditSequentials({ documents, establishment, emissionPoint, counters, activeEnvironment }).series.map(s => s.key);
+        const history = await this.loadHistory(seriesKeys);
+
+        const acknowledgedGaps: Record<string, AcknowledgedGap[]> = {};
+        for (const record of history) {
+            if (record.repair !== 'acknowledge-gap' || !record.after) continue;
+            acknowledgedGaps[record.seriesKey] = [
+                ...(acknowledgedGaps[record.seriesKey] || []),
+                { from: record.after.from, to: record.after.to, reason: record.reason }
+            ];
+        }
+        for (const [key, gaps] of Object.entries(pendingAcknowledgements)) {
+            acknowledgedGaps[key] = [...(acknowledgedGaps[key] || []), ...gaps];
+        }
+
+        const result = auditSequentials({ documents, establishment, emissionPoint, counters, activeEnvironment, acknowledgedGaps });
+
+        const report: SequentialAuditReport = {
+            ...result,
+            generatedAt: new Date().toISOString(),
+            activeEnvironment,
+            establishment,
+            emissionPoint,
+            summary: {
+                series: result.series.length,
+                failing: result.series.filter(s => s.status === 'FAIL').length,
+                warnings: result.series.filter(s => s.status === 'WARN').length,
+                missing: result.series.reduce((sum, s) => sum + s.missingCount, 0),
+                duplicates: result.series.reduce((sum, s) => sum + s.duplicates.length, 0),
+                unclassified: result.unclassified.length
+            },
+            history
+        };
+
+        logger.info('Sequential audit completed', { documents: documents.length, ...report.summary });
+        return report;
+    }
+
+    private async loadAll<T>(repository: PaginatedSource<T>): Promise<T[]> {
+        const docs: T[] = [];
+        for (let page = 1; ; page++) {
+            const result = await repository.findPaginated(page, PAGE_SIZE, {}, { createdAt: 1 });
+            docs.push(...result.data);
+            if (page >= result.pagination.totalPages || result.data.length === 0) break;
+        }
+        return docs;
+    }
+
+    private toRef(doc: any, documentType: SequentialDocumentType): SequentialDocumentRef {
+        return {
+            id: doc.id,
+            documentType,
+            documentNumber: doc.documentNumber,
+            environment: doc.environment,
+            sriStatus: doc.sriStatus,
+            accessKey: doc.accessKey,
+            createdAt: doc.createdAt ? new Date(doc.createdAt).toISOString() : undefined
+        };
+    }
+
+    private async loadHistory(seriesKeys: string[]): Promise<SequentialRepairRecord[]> {
+        const records: SequentialRepairRecord[] = [];
+        for (const seriesKey of seriesKeys) {
+            const entries = await this.auditService.getDocumentHistory(SEQUENTIALS_AUDIT_COLLECTION, seriesKey);
+            for (const entry of entries as any[]) {
+                records.push({
+                    seriesKey,
+                    repair: entry.after?.repair || entry.before?.repair,
+                    timestamp: new Date(entry.timestamp).toISOString(),
+                    userEmail: entry.userEmail,
+                    reason: entry.reason,
+                    before: entry.before,
+                    after: entry.after
+                });
+            }
+        }
+        return records.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    }
+}
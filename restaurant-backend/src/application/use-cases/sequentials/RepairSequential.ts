@@ -0,0 +1,181 @@
+/**
+ * @file RepairSequential.ts
+ * @description Caso de uso para aplicar una reparación guiada del auditor de secuenciales
+ *
+ * @purpose
+ * Solo acepta reparaciones que la auditoría actual sugiere para la serie, con
+ * un motivo obligatorio, y deja cada una en el log de auditoría:
+ * - sync-counter: sube el contador de RestaurantConfig.billing hasta el primer
+ *   número libre (nunca lo baja)
+ * - renumber-document: un duplicado no autorizado toma un número nuevo y vuelve
+ *   a BORRADOR para reenviarse (mismo criterio que UpdateBill)
+ * - acknowledge-gap: registra por qué faltan esos números (p. ej. documentos
+ *   borrados por ResetBillingSystem); deja de reportarse como hueco
+ *
+ * @connections
+ * - Usa: AuditSequentials (application/use-cases/sequentials)
+ * - Usa: IBillRepository, ICreditNoteRepository, IRestaurantConfigRepository (domain/repositories)
+ * - Usa: AuditService (infrastructure/services)
+ * - Usado por: SequentialAuditController (POST /api/sequentials/repairs)
+ * - Inyectado por: BillingModule (infrastructure/di/modules)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { IBillRepository } from '../../../domain/repositories/IBillRepository';
+import { ICreditNoteRepository } from '../../../domain/repositories/ICreditNoteRepository';
+import { IRestaurantConfigRepository } from '../../../domain/repositories/IRestaurantConfigRepository';
+import {
+    SequentialRepairAction,
+    SequentialRepairSuggestion,
+    SequentialSeriesReport,
+    formatDocumentNumber
+} from '../../../domain/billing/sequentials';
+import { NotFoundError, ValidationError } from '../../../domain/errors/CustomErrors';
+import { AuditService } from '../../../infrastructure/services/AuditService';
+import { logger } from '../../../infrastructure/utils/Logger';
+import { AuditSequentials, SequentialAuditReport, SEQUENTIALS_AUDIT_COLLECTION } from './AuditSequentials';
+
+export interface RepairSequentialRequest {
+    action: SequentialRepairAction;
+    seriesKey: string;
+    documentId?: string;
+    from?: number;
+    to?: number;
+    reason: string;
+}
+
+export interface RepairSequentialResult {
+    action: SequentialRepairAction;
+    seriesKey: string;
+    before: Record<string, any> | null;
+    after: Record<string, any>;
+    /** Auditoría recalculada después de aplicar la reparación */
+    report: SequentialAuditReport;
+}
+
+const MIN_REASON_LENGTH = 5;
+
+export class RepairSequential {
+    constructor(
+        private auditSequentials: AuditSequentials,
+        private billRepository: IBillRepository,
+        private creditNoteRepository: ICreditNoteRepository,
+        private configRepository: IRestaurantConfigRepository,
+        private auditService: AuditService
+    ) { }
+
+    async execute(request: RepairSequentialRequest): Promise<RepairSequentialResult> {
+        const reason = (request?.reason || '').trim();
+        if (reason.length < MIN_REASON_LENGTH) {
+            throw new ValidationError('Indique el motivo de la reparación: queda registrado en el log de auditoría', { field: 'reason' });
+        }
+
+        const current = await this.auditSequentials.execute();
+        const series = current.series.find(s => s.key === request.seriesKey);
+        if (!series) {
+            throw new NotFoundError(`La serie ${request.seriesKey} no tiene documentos ni contador`, 'SequentialSeries');
+        }
+
+        const suggestion = series.repairs.find(r =>
+            r.action === request.action &&
+            (r.action !== 'renumber-document' || r.documentId === request.documentId) &&
+            (r.action !== 'acknowledge-gap' || (r.from === Number(request.from) && r.to === Number(request.to)))
+        );
+        if (!suggestion) {
+            throw new ValidationError('Esta reparación ya no aplica a la serie. Vuelva a ejecutar la auditoría.', { field: 'action' });
+        }
+
+        let before: Record<string, any> | null;
+        let after: Record<string, any>;
+        switch (suggestion.action) {
+            case 'sync-counter':
+                ({ before, after } = await this.syncCounter(series));
+                break;
+            case 'renumber-document':
+                ({ before, after } = await this.renumberDocument(series, suggestion, current));
+                break;
+            case 'acknowledge-gap':
+                before = null;
+                after = { repair: 'acknowledge-gap', from: suggestion.from, to: suggestion.to, count: suggestion.to! - suggestion.from! + 1 };
+                break;
+        }
+
+        await this.auditService.log({
+            action: suggestion.action === 'acknowledge-gap' ? 'CREATE' : 'UPDATE',
+            collection: SEQUENTIALS_AUDIT_COLLECTION,
+            documentId: series.key,
+            before,
+            after,
+            reason
+        });
+        logger.warn('Sequential repair applied', { action: suggestion.action, seriesKey: series.key, before, after });
+
+        const report = await this.auditSequentials.execute(
+            suggestion.action === 'acknowledge-gap'
+                ? { [series.key]: [{ from: suggestion.from!, to: suggestion.to!, reason }] }
+                : {}
+        );
+
+        return { action: suggestion.action, seriesKey: series.key, before, after, report };
+    }
+
+    private async syncCounter(series: SequentialSeriesReport) {
+        const counter = series.counter!;
+        const value = await this.configRepository.raiseSequenceCounter(counter.field, counter.suggestedValue);
+        return {
+            before: { repair: 'sync-counter', field: counter.field, counter: counter.counter, maxIssued: counter.maxIssued },
+            after: { repair: 'sync-counter', field: counter.field, counter: value }
+        };
+    }
+
+    private async renumberDocument(series: SequentialSeriesReport, suggestion: SequentialRepairSuggestion, report: SequentialAuditReport) {
+        // El número nuevo sale del contador de la serie configurada: debe estar sano antes
+        const target = report.series.find(s =>
+            s.documentType === series.documentType &&
+            s.environment === report.activeEnvironment &&
+            s.establishment === report.establishment &&
+            s.emissionPoint === report.emissionPoint
+        );
+        if (target?.counter && (target.counter.status === 'BEHIND' || target.counter.status === 'COLLISION')) {
+            throw new ValidationError(
+                `El contador ${target.counter.field} entregaría un número ya usado. Sincronícelo antes de renumerar.`,
+                { field: 'action' }
+            );
+        }
+
+        const duplicate = series.duplicates.flatMap(d => d.documents).find(d => d.id === suggestion.documentId)!;
+        const nextSequential = series.documentType === 'factura'
+            ? await this.configRepository.getNextSequential()
+            : await this.configRepository.getNextCreditNoteSequential();
+        const documentNumber = formatDocumentNumber(report.establishment, report.emissionPoint, nextSequential);
+        const sriMessage = `Renumerado de ${duplicate.documentNumber} a ${documentNumber} por secuencial duplicado. Re-enviar para procesar.`;
+
+        if (series.documentType === 'factura') {
+            await this.billRepository.upsert({
+                id: duplicate.id,
+                documentNumber,
+                sriStatus: 'BORRADOR',
+                sriMessage,
+                accessKey: undefined, // La clave de acceso incluye el secuencial: se genera otra al reenviar
+                xmlContent: undefined
+            });
+        } else {
+            // accessKey vacía: GenerateCreditNote reutiliza la nota pendiente por su número
+            const updated = await this.creditNoteRepository.update(duplicate.id, {
+                documentNumber,
+                sriStatus: 'BORRADOR',
+                sriMessage,
+                accessKey: ''
+            });
+            if (!updated) {
+                throw new NotFoundError('La nota de crédito no existe en el registro.', 'CreditNote');
+            }
+        }
+
+        return {
+            before: { repair: 'renumber-document', documentId: duplicate.id, documentNumber: duplicate.documentNumber, sriStatus: duplicate.sriStatus, accessKey: duplicate.accessKey },
+            after: { repair: 'renumber-document', documentId: duplicate.id, documentNumber, sriStatus: 'BORRADOR' }
+        };
+    }
+}
@@ -0,0 +1,7 @@
+/**
+ * @file index.ts
+ * @description Exporta los use cases del auditor de secuenciales
+ */
+
+export { AuditSequentials, SequentialAuditReport, SequentialRepairRecord, SEQUENTIALS_AUDIT_COLLECTION } from './AuditSequentials';
+export { RepairSequential, RepairSequentialRequest, RepairSequentialResult } from './RepairSequential';
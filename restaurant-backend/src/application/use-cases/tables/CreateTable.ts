@@ -0,0 +1,45 @@
+/**
+ * @file CreateTable.ts
+ * @description Caso de uso para crear una nueva mesa
+ *
+ * @purpose
+ * Crea una mesa del plano de salón con validación de nombre único y capacidad.
+ *
+ * @connections
+ * - Usa: ITableRepository (domain/repositories)
+ * - Usa: Table entity (domain/entities)
+ * - Usado por: tableRoutes (infrastructure/web/routes)
+ * - Inyectado por: DIContainer (infrastructure/di)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { ITableRepository } from '../../../domain/repositories/ITableRepository';
+import { Table, CreateTableDTO } from '../../../domain/entities/Table';
+import { ValidationError } from '../../../domain/errors/CustomErrors';
+import { validateTableFields } from './validateTableFields';
+
+export class CreateTable {
+    constructor(private tableRepository: ITableRepository) {}
+
+    async execute(data: CreateTableDTO): Promise<Table> {
+        // Validar nombre requerido
+        if (!data.name || data.name.trim().length === 0) {
+            throw new ValidationError('El nombre de la mesa es obligatorio');
+        }
+
+        validateTableFields(data);
+
+        // Validar que no exista mesa con el mismo nombre
+        const existing = await this.tableRepository.findByName(data.name.trim());
+        if (existing) {
+            throw new ValidationError(`Ya existe una mesa con el nombre "${data.name.trim()}"`);
+        }
+
+        return this.tableRepository.create({
+            ...data,
+            name: data.name.trim(),
+            zone: data.zone?.trim() || 'Salón',
+        });
+    }
+}
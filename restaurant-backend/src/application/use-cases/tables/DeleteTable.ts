@@ -0,0 +1,32 @@
+/**
+ * @file DeleteTable.ts
+ * @description Caso de uso para eliminar una mesa
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { ITableRepository } from '../../../domain/repositories/ITableRepository';
+import { ValidationError, NotFoundError } from '../../../domain/errors/CustomErrors';
+
+export class DeleteTable {
+    constructor(private tableRepository: ITableRepository) {}
+
+    async execute(id: string): Promise<boolean> {
+        // Verificar que existe
+        const existing = await this.tableRepository.findById(id);
+        if (!existing) {
+            throw new NotFoundError('Mesa no encontrada', 'Table');
+        }
+
+        // No se puede eliminar una mesa ocupada
+        const openOrders = await this.tableRepository.countOpenOrders(id);
+        if (openOrders > 0) {
+            throw new ValidationError(
+                `La mesa "${existing.name}" tiene ${openOrders} pedido(s) abierto(s). ` +
+                'Complete o reasigne los pedidos antes de eliminarla.'
+            );
+        }
+
+        return this.tableRepository.delete(id);
+    }
+}
@@ -0,0 +1,22 @@
+/**
+ * @file GetTables.ts
+ * @description Caso de uso para obtener las mesas del plano de salón
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { ITableRepository } from '../../../domain/repositories/ITableRepository';
+import { Table } from '../../../domain/entities/Table';
+
+export interface GetTablesOptions {
+    activeOnly?: boolean;
+}
+
+export class GetTables {
+    constructor(private tableRepository: ITableRepository) {}
+
+    async execute(options: GetTablesOptions = {}): Promise<Table[]> {
+        const tables = await this.tableRepository.findAll();
+        return options.activeOnly ? tables.filter(table => table.active) : tables;
+    }
+}
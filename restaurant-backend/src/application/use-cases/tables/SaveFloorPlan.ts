@@ -0,0 +1,35 @@
+/**
+ * @file SaveFloorPlan.ts
+ * @description Caso de uso para guardar el plano de salón (posiciones de las mesas)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { ITableRepository } from '../../../domain/repositories/ITableRepository';
+import { TableLayoutDTO } from '../../../domain/entities/Table';
+import { ValidationError } from '../../../domain/errors/CustomErrors';
+import { validateTableFields } from './validateTableFields';
+
+export class SaveFloorPlan {
+    constructor(private tableRepository: ITableRepository) {}
+
+    async execute(items: TableLayoutDTO[]): Promise<boolean> {
+        // Validar que se proporcionen items
+        if (!items || items.length === 0) {
+            throw new ValidationError('No hay mesas para guardar en el plano');
+        }
+
+        // Validar estructura de cada item
+        for (const item of items) {
+            if (!item.id) {
+                throw new ValidationError('Cada mesa del plano debe tener un id');
+            }
+            if (!item.position) {
+                throw new ValidationError('Cada mesa del plano debe tener una posición');
+            }
+            validateTableFields({ position: item.position });
+        }
+
+        return this.tableRepository.saveLayout(items);
+    }
+}
@@ -0,0 +1,47 @@
+/**
+ * @file UpdateTable.ts
+ * @description Caso de uso para actualizar una mesa existente
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { ITableRepository } from '../../../domain/repositories/ITableRepository';
+import { Table, UpdateTableDTO } from '../../../domain/entities/Table';
+import { ValidationError, NotFoundError } from '../../../domain/errors/CustomErrors';
+import { validateTableFields } from './validateTableFields';
+
+export class UpdateTable {
+    constructor(private tableRepository: ITableRepository) {}
+
+    async execute(id: string, data: UpdateTableDTO): Promise<Table> {
+        // Verificar que existe
+        const existing = await this.tableRepository.findById(id);
+        if (!existing) {
+            throw new NotFoundError('Mesa no encontrada', 'Table');
+        }
+
+        validateTableFields(data);
+
+        // Si se actualiza el nombre, verificar que no exista duplicado
+        if (data.name !== undefined) {
+            const name = data.name.trim();
+            if (!name) {
+                throw new ValidationError('El nombre de la mesa es obligatorio');
+            }
+            if (name !== existing.name) {
+                const duplicate = await this.tableRepository.findByName(name);
+                if (duplicate && duplicate.id !== id) {
+                    throw new ValidationError(`Ya existe una mesa con el nombre "${name}"`);
+                }
+            }
+            data.name = name;
+        }
+
+        const updated = await this.tableRepository.update(id, data);
+        if (!updated) {
+            throw new NotFoundError('Mesa no encontrada', 'Table');
+        }
+
+        return updated;
+    }
+}
@@ -0,0 +1,10 @@
+/**
+ * @file index.ts
+ * @description Exporta todos los use cases de mesas
+ */
+
+export { CreateTable } from './CreateTable';
+export { UpdateTable } from './UpdateTable';
+export { DeleteTable } from './DeleteTable';
+export { GetTables, GetTablesOptions } from './GetTables';
+export { SaveFloorPlan } from './SaveFloorPlan';
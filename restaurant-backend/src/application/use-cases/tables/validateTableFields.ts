@@ -0,0 +1,28 @@
+/**
+ * @file validateTableFields.ts
+ * @description Validaciones compartidas de campos de mesa (crear/actualizar)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { TableShape, UpdateTableDTO } from '../../../domain/entities/Table';
+import { ValidationError } from '../../../domain/errors/CustomErrors';
+
+const VALID_SHAPES: TableShape[] = ['square', 'round', 'rectangle'];
+
+export function validateTableFields(data: UpdateTableDTO): void {
+    if (data.seats !== undefined && (!Number.isInteger(data.seats) || data.seats < 1)) {
+        throw new ValidationError('La mesa debe tener al menos 1 asiento');
+    }
+
+    if (data.shape !== undefined && !VALID_SHAPES.includes(data.shape)) {
+        throw new ValidationError(`Forma de mesa inválida. Valores permitidos: ${VALID_SHAPES.join(', ')}`);
+    }
+
+    if (data.position !== undefined) {
+        const { x, y } = data.position;
+        if (typeof x !== 'number' || typeof y !== 'number' || x < 0 || y < 0) {
+            throw new ValidationError('La posición de la mesa debe tener coordenadas x/y no negativas');
+        }
+    }
+}
@@ -0,0 +1,96 @@
+/**
+ * @file ApplyMenuRepricing.ts
+ * @description Caso de uso para pasar el menú a la tarifa de IVA de un tramo
+ *
+ * @purpose
+ * Aplica la vista previa de PreviewMenuRepricing a los platos elegidos:
+ * - KEEP_BASE: cambia tarifa y precio con IVA (la base sin IVA no cambia)
+ * - KEEP_PRICE: cambia solo la tarifa (el precio al cliente no cambia)
+ * Cada plato cambiado queda en el log de auditoría. Las facturas ya usan la
+ * tarifa vigente aunque no se aplique: esto deja el menú y el POS al día.
+ *
+ * @connections
+ * - Usa: PreviewMenuRepricing (application/use-cases/tax-rates)
+ * - Usa: IMenuRepository (domain/repositories), AuditService (infrastructure/services)
+ * - Usado por: TaxRateController (POST /api/tax-rates/repricing)
+ * - Inyectado por: BillingModule (infrastructure/di/modules)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { IMenuRepository } from '../../../domain/repositories/IMenuRepository';
+import { ValidationError } from '../../../domain/errors/CustomErrors';
+import { AuditService } from '../../../infrastructure/services/AuditService';
+import { logger } from '../../../infrastructure/utils/Logger';
+import { MenuRepricingLine, PreviewMenuRepricing } from './PreviewMenuRepricing';
+
+export type MenuRepricingMode = 'KEEP_BASE' | 'KEEP_PRICE';
+
+export interface ApplyMenuRepricingRequest {
+    effectiveFrom: string;
+    mode: MenuRepricingMode;
+    /** Platos a cambiar; sin valor, todos los de la vista previa */
+    itemIds?: string[];
+}
+
+export interface ApplyMenuRepricingResult {
+    mode: MenuRepricingMode;
+    updated: { id: string; name: string; taxRate: number; price: number }[];
+}
+
+const MENU_COLLECTION = 'menuitems';
+
+export class ApplyMenuRepricing {
+    constructor(
+        private previewMenuRepricing: PreviewMenuRepricing,
+        private menuRepository: IMenuRepository,
+        private auditService: AuditService
+    ) { }
+
+    async execute(request: ApplyMenuRepricingRequest): Promise<ApplyMenuRepricingResult> {
+        const mode = request?.mode;
+        if (mode !== 'KEEP_BASE' && mode !== 'KEEP_PRICE') {
+            throw new ValidationError('Indique si se mantiene la base (KEEP_BASE) o el precio (KEEP_PRICE)', { field: 'mode' });
+        }
+        if (!request.effectiveFrom) {
+            throw new ValidationError('Indique el tramo de IVA a aplicar', { field: 'effectiveFrom' });
+        }
+        if (request.itemIds !== undefined && !Array.isArray(request.itemIds)) {
+            throw new ValidationError('itemIds debe ser una lista', { field: 'itemIds' });
+        }
+
+        // Se recalcula en el servidor: nunca se confía en precios enviados por el cliente
+        const preview = await this.previewMenuRepricing.execute(request.effectiveFrom);
+        const selected = request.itemIds
+            ? preview.items.filter(line => request.itemIds!.includes(line.id))
+            : preview.items;
+
+        const updated: ApplyMenuRepricingResult['updated'] = [];
+        for (const line of selected) {
+            const changes = this.changesFor(line, mode);
+            const item = await this.menuRepository.update(line.id, changes);
+            if (!item) continue;
+
+            await this.auditService.log({
+                action: 'UPDATE',
+                collection: MENU_COLLECTION,
+                documentId: line.id,
+                before: { taxRate: line.taxRate, price: line.price },
+                after: changes,
+                reason: `IVA ${line.newTaxRate}% desde ${preview.period.effectiveFrom}`
+            });
+            updated.push({ id: item.id, name: item.name, taxRate: item.taxRate, price: item.price });
+        }
+
+        logger.info('Menu repriced for new IVA rate', {
+            effectiveFrom: preview.period.effectiveFrom, rate: preview.period.rate, mode, count: updated.length
+        });
+        return { mode, updated };
+    }
+
+    private changesFor(line: MenuRepricingLine, mode: MenuRepricingMode): { taxRate: number; price?: number } {
+        return mode === 'KEEP_BASE'
+            ? { taxRate: line.newTaxRate, price: line.newPrice }
+            : { taxRate: line.newTaxRate };
+    }
+}
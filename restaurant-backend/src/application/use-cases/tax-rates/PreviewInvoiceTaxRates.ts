@@ -0,0 +1,56 @@
+/**
+ * @file PreviewInvoiceTaxRates.ts
+ * @description Caso de uso para saber con qué tarifa de IVA se factura hoy cada plato
+ *
+ * @purpose
+ * Las pantallas de cobro muestran subtotal, IVA y la base de la propina antes de
+ * emitir. Para que coincidan con la factura, no replican la tabla de tarifas: le
+ * preguntan aquí, que aplica el mismo applyTaxSchedule que GenerateInvoice.
+ * - period: tramo vigente hoy
+ * - taxRates: tarifa del plato → tarifa con que se factura hoy
+ *
+ * @connections
+ * - Usa: IRestaurantConfigRepository (domain/repositories), taxRates (domain/billing)
+ * - Usado por: TaxRateController (POST /api/tax-rates/preview)
+ * - Inyectado por: BillingModule (infrastructure/di/modules)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { IRestaurantConfigRepository } from '../../../domain/repositories/IRestaurantConfigRepository';
+import { TaxRatePeriod, applyTaxSchedule, taxPeriodOn, taxScheduleOf } from '../../../domain/billing/taxRates';
+import { ValidationError } from '../../../domain/errors/CustomErrors';
+
+export interface InvoiceTaxRatesPreview {
+    /** Tramo vigente hoy */
+    period: TaxRatePeriod;
+    /** Por cada tarifa pedida, la que lleva la factura emitida hoy */
+    taxRates: Record<string, number>;
+}
+
+export class PreviewInvoiceTaxRates {
+    constructor(
+        private configRepository: IRestaurantConfigRepository
+    ) { }
+
+    /**
+     * @param taxRates tarifas de los platos a cobrar (las repetidas se ignoran)
+     * @throws ValidationError si alguna tarifa no es un número
+     */
+    async execute(taxRates: unknown): Promise<InvoiceTaxRatesPreview> {
+        if (!Array.isArray(taxRates) || taxRates.some(rate => typeof rate !== 'number' || !Number.isFinite(rate))) {
+            throw new ValidationError('Las tarifas de IVA deben ser una lista de números', { field: 'taxRates' });
+        }
+
+        const config = await this.configRepository.get();
+        const schedule = taxScheduleOf(config?.billing);
+        const today = new Date();
+        const requested = Array.from(new Set(taxRates as number[]));
+        const applied = applyTaxSchedule(requested.map(taxRate => ({ taxRate })), schedule, today);
+
+        return {
+            period: taxPeriodOn(schedule, today),
+            taxRates: Object.fromEntries(requested.map((rate, index) => [String(rate), applied[index].taxRate]))
+        };
+    }
+}
@@ -0,0 +1,106 @@
+/**
+ * @file PreviewMenuRepricing.ts
+ * @description Caso de uso para ver cómo queda el menú con una nueva tarifa de IVA
+ *
+ * @purpose
+ * Cuando se programa un tramo nuevo en la tabla de IVA, muestra plato por plato
+ * qué cambia antes de aplicarlo:
+ * - newPrice: precio con IVA que mantiene la base (el restaurante no absorbe el cambio)
+ * - baseIfPriceKept: base sin IVA si se mantiene el precio (el restaurante lo absorbe)
+ * Solo aparecen los platos con la tarifa general de otro tramo; el 0% no cambia.
+ *
+ * @connections
+ * - Usa: IMenuRepository, IRestaurantConfigRepository (domain/repositories)
+ * - Usa: taxRates (domain/billing)
+ * - Usado por: TaxRateController (GET /api/tax-rates/repricing), ApplyMenuRepricing
+ * - Inyectado por: BillingModule (infrastructure/di/modules)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { IMenuRepository } from '../../../domain/repositories/IMenuRepository';
+import { IRestaurantConfigRepository } from '../../../domain/repositories/IRestaurantConfigRepository';
+import {
+    TaxRatePeriod,
+    effectiveItemRate,
+    nextTaxPeriod,
+    repricedPrice,
+    taxPeriodOn,
+    taxScheduleOf
+} from '../../../domain/billing/taxRates';
+import { NotFoundError } from '../../../domain/errors/CustomErrors';
+
+export interface MenuRepricingLine {
+    id: string;
+    name: string;
+    category: string;
+    price: number;           // Precio actual con IVA
+    taxRate: number;         // Tarifa actual del plato
+    newTaxRate: number;      // Tarifa del tramo
+    newPrice: number;        // Precio con IVA que mantiene la base
+    baseIfPriceKept: number; // Base sin IVA si no se cambia el precio
+}
+
+export interface MenuRepricingPreview {
+    /** Tramo que se previsualiza (el próximo programado si no se indica) */
+    period: TaxRatePeriod;
+    /** Tramo vigente hoy */
+    currentPeriod: TaxRatePeriod;
+    items: MenuRepricingLine[];
+    /** Platos que no cambian (0% u otra tarifa que no es la general) */
+    unchangedCount: number;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+export class PreviewMenuRepricing {
+    constructor(
+        private menuRepository: IMenuRepository,
+        private configRepository: IRestaurantConfigRepository
+    ) { }
+
+    /**
+     * @param effectiveFrom 'YYYY-MM-DD' del tramo; sin valor, el próximo programado o el vigente
+     * @throws NotFoundError si la tabla no tiene un tramo con esa fecha
+     */
+    async execute(effectiveFrom?: string): Promise<MenuRepricingPreview> {
+        const config = await this.configRepository.get();
+        const schedule = taxScheduleOf(config?.billing);
+        const currentPeriod = taxPeriodOn(schedule);
+
+        const period = effectiveFrom
+            ? schedule.find(p => p.effectiveFrom === effectiveFrom)
+            : nextTaxPeriod(schedule) || currentPeriod;
+        if (!period) {
+            throw new NotFoundError(`No hay un tramo de IVA desde el ${effectiveFrom}`, 'TaxRatePeriod');
+        }
+
+        // Mediodía en Ecuador del primer día del tramo: ahí ya rige
+        const periodDate = new Date(`${period.effectiveFrom}T12:00:00-05:00`);
+        const menu = await this.menuRepository.findAll();
+
+        const items: MenuRepricingLine[] = [];
+        for (const item of menu) {
+            const taxRate = item.taxRate ?? 15;
+            const newTaxRate = effectiveItemRate(taxRate, schedule, periodDate);
+            if (newTaxRate === taxRate) continue;
+            items.push({
+                id: item.id,
+                name: item.name,
+                category: item.category || '',
+                price: item.price,
+                taxRate,
+                newTaxRate,
+                newPrice: repricedPrice(item.price, taxRate, newTaxRate),
+                baseIfPriceKept: round2(item.price / (1 + newTaxRate / 100))
+            });
+        }
+
+        return {
+            period,
+            currentPeriod,
+            items: items.sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name)),
+            unchangedCount: menu.length - items.length
+        };
+    }
+}
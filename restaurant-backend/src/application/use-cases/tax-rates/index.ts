@@ -0,0 +1,8 @@
+/**
+ * @file index.ts
+ * @description Exporta los use cases de la tabla de tarifas de IVA
+ */
+
+export { PreviewMenuRepricing, MenuRepricingLine, MenuRepricingPreview } from './PreviewMenuRepricing';
+export { ApplyMenuRepricing, ApplyMenuRepricingRequest, ApplyMenuRepricingResult, MenuRepricingMode } from './ApplyMenuRepricing';
+export { PreviewInvoiceTaxRates, InvoiceTaxRatesPreview } from './PreviewInvoiceTaxRates';
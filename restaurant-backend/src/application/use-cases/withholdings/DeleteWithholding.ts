@@ -0,0 +1,40 @@
+/**
+ * @file DeleteWithholding.ts
+ * @description Caso de uso para eliminar una retención registrada por error
+ *
+ * @purpose
+ * La retención recibida no es un comprobante propio: si se registró sobre la
+ * factura equivocada o con valores errados se elimina y se vuelve a registrar.
+ * Recalcula los totales retenidos de la factura.
+ *
+ * @connections
+ * - Usa: IWithholdingRepository, IBillRepository (domain/repositories)
+ * - Usado por: WithholdingController (infrastructure/controllers)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { IWithholdingRepository } from '../../../domain/repositories/IWithholdingRepository';
+import { IBillRepository } from '../../../domain/repositories/IBillRepository';
+import { NotFoundError } from '../../../domain/errors/CustomErrors';
+import { logger } from '../../../infrastructure/utils/Logger';
+import { syncBillWithholdings } from './withholdingHelpers';
+
+export class DeleteWithholding {
+    constructor(
+        private withholdingRepository: IWithholdingRepository,
+        private billRepository: IBillRepository
+    ) { }
+
+    async execute(id: string): Promise<void> {
+        const withholding = await this.withholdingRepository.findById(id);
+        if (!withholding) {
+            throw new NotFoundError('Retención no encontrada', 'Withholding');
+        }
+
+        await this.withholdingRepository.delete(id);
+        await syncBillWithholdings(this.billRepository, this.withholdingRepository, withholding.billId);
+
+        logger.info(`[DeleteWithholding] Withholding ${withholding.documentNumber} removed from bill ${withholding.billDocumentNumber}`);
+    }
+}
@@ -0,0 +1,47 @@
+/**
+ * @file GetWithholdings.ts
+ * @description Caso de uso para consultar retenciones recibidas
+ *
+ * @connections
+ * - Usa: IWithholdingRepository (domain/repositories)
+ * - Usado por: WithholdingController (infrastructure/controllers)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { IWithholdingRepository } from '../../../domain/repositories/IWithholdingRepository';
+import { Withholding } from '../../../domain/entities/Withholding';
+import { NotFoundError } from '../../../domain/errors/CustomErrors';
+
+export class GetWithholdings {
+    constructor(private withholdingRepository: IWithholdingRepository) { }
+
+    async executeById(id: string): Promise<Withholding> {
+        const withholding = await this.withholdingRepository.findById(id);
+        if (!withholding) {
+            throw new NotFoundError('Retención no encontrada', 'Withholding');
+        }
+        return withholding;
+    }
+
+    async executeByBill(billId: string): Promise<Withholding[]> {
+        return await this.withholdingRepository.findByBillId(billId);
+    }
+
+    async executePaginated(
+        page: number = 1,
+        limit: number = 50,
+        filter: any = {},
+        sort: any = { issueDate: -1 }
+    ): Promise<{
+        data: Withholding[];
+        pagination: {
+            page: number;
+            limit: number;
+            total: number;
+            totalPages: number;
+        };
+    }> {
+        return await this.withholdingRepository.findPaginated(page, limit, filter, sort);
+    }
+}
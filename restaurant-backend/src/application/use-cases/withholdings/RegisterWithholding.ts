@@ -0,0 +1,213 @@
+/**
+ * @file RegisterWithholding.ts
+ * @description Caso de uso para registrar un comprobante de retención recibido
+ *
+ * @purpose
+ * Los clientes que son agentes de retención pagan la factura descontando IVA
+ * y/o renta y entregan un comprobante de retención (codDoc 07). Este caso de
+ * uso lo registra —importando el XML que envía el cliente o con los datos
+ * digitados— y lo enlaza a la factura AUTORIZADA que afecta. Valida que el
+ * agente sea el cliente de la factura y que lo retenido no supere el IVA ni el
+ * total facturado, y deja en la factura los totales retenidos para mostrar el
+ * valor neto a cobrar.
+ *
+ * @connections
+ * - Usa: IWithholdingRepository, IBillRepository, IRestaurantConfigRepository (domain/repositories)
+ * - Usa: SRIService (infrastructure/services) - lectura del XML de retención
+ * - Usado por: WithholdingController (infrastructure/controllers)
+ * - Inyectado por: BillingModule (infrastructure/di/modules)
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { SRIService } from '../../../infrastructure/services/SRIService';
+import { IWithholdingRepository } from '../../../domain/repositories/IWithholdingRepository';
+import { IBillRepository } from '../../../domain/repositories/IBillRepository';
+import { IRestaurantConfigRepository } from '../../../domain/repositories/IRestaurantConfigRepository';
+import { Bill } from '../../../domain/entities/Bill';
+import { Withholding, CreateWithholdingDTO } from '../../../domain/entities/Withholding';
+import {
+    WithholdingLine,
+    normalizeWithholdingLines,
+    summarizeWithholdingLines
+} from '../../../domain/billing/withholding';
+import { NotFoundError, ValidationError } from '../../../domain/errors/CustomErrors';
+import { logger } from '../../../infrastructure/utils/Logger';
+import { syncBillWithholdings, toEcuadorIsoDate } from './withholdingHelpers';
+
+export interface RegisterWithholdingParams {
+    billId: string;
+    /** Número del comprobante del agente: 001-001-000000045 */
+    documentNumber: string;
+    /** Clave de acceso / autorización impresa en el RIDE (opcional en el ingreso manual) */
+    accessKey?: string;
+    /** yyyy-mm-dd */
+    issueDate: string;
+    lines: Partial<WithholdingLine>[];
+    notes?: string;
+}
+
+const DOCUMENT_NUMBER_PATTERN = /^\d{3}-\d{3}-\d{9}$/;
+const AMOUNT_TOLERANCE = 0.01;
+
+export class RegisterWithholding {
+    constructor(
+        private withholdingRepository: IWithholdingRepository,
+        private billRepository: IBillRepository,
+        private configRepository: IRestaurantConfigRepository,
+        private sriService: SRIService
+    ) { }
+
+    /**
+     * Ingreso manual: el agente es el cliente de la factura
+     */
+    async execute(data: RegisterWithholdingParams, createdBy?: string): Promise<Withholding> {
+        const bill = await this.billRepository.findById(data.billId);
+        if (!bill) {
+            throw new NotFoundError('Factura no encontrada', 'Bill');
+        }
+
+        const issueDate = toEcuadorIsoDate(data.issueDate);
+        if (!issueDate) {
+            throw new ValidationError('Fecha de emisión de la retención inválida', { field: 'issueDate' });
+        }
+
+        return this.register(bill, {
+            documentNumber: (data.documentNumber || '').trim(),
+            accessKey: data.accessKey?.trim() || undefined,
+            issueDate,
+            fiscalPeriod: this.fiscalPeriodOf(issueDate),
+            agentIdentification: bill.customerIdentification,
+            agentName: bill.customerName,
+            lines: normalizeWithholdingLines(data.lines),
+            source: 'manual',
+            notes: data.notes?.trim() || undefined
+        }, createdBy);
+    }
+
+    /**
+     * Importa el XML de retención que envía el cliente (comprobante o autorización)
+     */
+    async executeFromXml(xmlContent: string, createdBy?: string): Promise<Withholding> {
+        if (!xmlContent || typeof xmlContent !== 'string') {
+            throw new ValidationError('Adjunte el XML del comprobante de retención', { field: 'xml' });
+        }
+
+        const parsed = this.sriService.parseWithholdingXML(xmlContent);
+
+        const config = await this.configRepository.get();
+        if (config?.ruc && parsed.subjectIdentification !== config.ruc) {
+            throw new ValidationError(
+                `La retención está emitida a ${parsed.subjectIdentification}, no al RUC del restaurante (${config.ruc})`,
+                { field: 'xml' }
+            );
+        }
+
+        const bill = await this.billRepository.findByDocumentNumber(parsed.supportDocumentNumber);
+        if (!bill) {
+            throw new NotFoundError(`No existe la factura ${parsed.supportDocumentNumber} que indica la retención`, 'Bill');
+        }
+
+        const issueDate = toEcuadorIsoDate(parsed.issueDate);
+        if (!issueDate) {
+            throw new ValidationError('Fecha de emisión de la retención inválida', { field: 'xml' });
+        }
+
+        return this.register(bill, {
+            documentNumber: parsed.documentNumber,
+            accessKey: parsed.authorizationNumber,
+            authorizationDate: parsed.authorizationDate,
+            issueDate,
+            fiscalPeriod: parsed.fiscalPeriod || this.fiscalPeriodOf(issueDate),
+            agentIdentification: parsed.agentIdentification,
+            agentName: parsed.agentName,
+            lines: normalizeWithholdingLines(parsed.lines),
+            source: 'xml',
+            xmlContent
+        }, createdBy);
+    }
+
+    private async register(
+        bill: Bill,
+        data: Omit<CreateWithholdingDTO, 'billId' | 'billDocumentNumber' | 'ivaWithheld' | 'rentaWithheld' | 'totalWithheld' | 'environment' | 'createdBy'>,
+        createdBy?: string
+    ): Promise<Withholding> {
+        logger.info(`[RegisterWithholding] Registering withholding ${data.documentNumber} for bill: ${bill.id}`);
+
+        // 1. Solo facturas AUTORIZADAS (una nota de venta no admite retención)
+        if (bill.documentType !== 'Factura') {
+            throw new ValidationError('Solo se registran retenciones sobre facturas', { field: 'billId' });
+        }
+        if (bill.sriStatus !== 'AUTORIZADO') {
+            throw new ValidationError('Solo se registran retenciones sobre facturas AUTORIZADAS', { field: 'billId' });
+        }
+        if (data.agentIdentification !== bill.customerIdentification) {
+            throw new ValidationError(
+                `El agente de retención (${data.agentIdentification}) no es el cliente de la factura ${bill.documentNumber}`,
+                { field: 'agentIdentification' }
+            );
+        }
+        if (!DOCUMENT_NUMBER_PATTERN.test(data.documentNumber)) {
+            throw new ValidationError('Número de retención inválido (formato 001-001-000000001)', { field: 'documentNumber' });
+        }
+        if (new Date(data.issueDate).getTime() < new Date(bill.date).setHours(0, 0, 0, 0)) {
+            throw new ValidationError('La retención no puede ser anterior a la factura', { field: 'issueDate' });
+        }
+
+        // 2. Un mismo comprobante del agente no se registra dos veces
+        const duplicate = await this.withholdingRepository.findByAgentDocument(data.agentIdentification, data.documentNumber);
+        if (duplicate) {
+            throw new ValidationError(
+                `La retención ${data.documentNumber} ya está registrada en la factura ${duplicate.billDocumentNumber}`,
+                { field: 'documentNumber' }
+            );
+        }
+
+        // 3. Lo retenido (sumando retenciones previas) no supera el IVA ni el total de la factura
+        const totals = summarizeWithholdingLines(data.lines);
+        const previous = summarizeWithholdingLines(
+            (await this.withholdingRepository.findByBillId(bill.id)).flatMap(w => w.lines)
+        );
+        if (previous.ivaWithheld + totals.ivaWithheld > bill.tax + AMOUNT_TOLERANCE) {
+            throw new ValidationError(
+                `El IVA retenido supera el IVA de la factura ($${bill.tax.toFixed(2)})`,
+                { field: 'lines' }
+            );
+        }
+        if (previous.totalWithheld + totals.totalWithheld > bill.total + AMOUNT_TOLERANCE) {
+            throw new ValidationError(
+                `Lo retenido supera el total de la factura ($${bill.total.toFixed(2)})`,
+                { field: 'lines' }
+            );
+        }
+
+        const withholding = await this.withholdingRepository.create({
+            ...data,
+            billId: bill.id,
+            billDocumentNumber: bill.documentNumber,
+            ...totals,
+            environment: bill.environment,
+            createdBy
+        });
+
+        await syncBillWithholdings(this.billRepository, this.withholdingRepository, bill.id);
+
+        logger.info(`[RegisterWithholding] Withholding ${withholding.documentNumber} registered`, {
+            billId: bill.id,
+            ivaWithheld: totals.ivaWithheld,
+            rentaWithheld: totals.rentaWithheld
+        });
+
+        return withholding;
+    }
+
+    /** MM/YYYY en zona Ecuador */
+    private fiscalPeriodOf(isoDate: string): string {
+        const parts = new Intl.DateTimeFormat('es-EC', {
+            timeZone: 'America/Guayaquil', year: 'numeric', month: '2-digit', day: '2-digit'
+        }).formatToParts(new Date(isoDate));
+        const year = parts.find(p => p.type === 'year')?.value || '';
+        const month = parts.find(p => p.type === 'month')?.value || '';
+        return `${month.padStart(2, '0')}/${year}`;
+    }
+}
@@ -0,0 +1,8 @@
+/**
+ * @file index.ts
+ * @description Exporta todos los use cases de retenciones recibidas
+ */
+
+export { RegisterWithholding, RegisterWithholdingParams } from './RegisterWithholding';
+export { GetWithholdings } from './GetWithholdings';
+export { DeleteWithholding } from './DeleteWithholding';
@@ -0,0 +1,39 @@
+/**
+ * @file withholdingHelpers.ts
+ * @description Utilidades compartidas de los casos de uso de retenciones recibidas
+ *
+ * @purpose
+ * Los totales retenidos de la factura (withheldIva / withheldRenta) se
+ * recalculan siempre desde todas sus retenciones, al registrar y al eliminar,
+ * para que nunca se desincronicen de la colección Withholding.
+ *
+ * @layer Application - Lógica de negocio
+ */
+
+import { IBillRepository } from '../../../domain/repositories/IBillRepository';
+import { IWithholdingRepository } from '../../../domain/repositories/IWithholdingRepository';
+import { summarizeWithholdingLines } from '../../../domain/billing/withholding';
+
+export async function syncBillWithholdings(
+    billRepository: IBillRepository,
+    withholdingRepository: IWithholdingRepository,
+    billId: string
+): Promise<void> {
+    const withholdings = await withholdingRepository.findByBillId(billId);
+    const totals = summarizeWithholdingLines(withholdings.flatMap(w => w.lines));
+    await billRepository.upsert({
+        id: billId,
+        withheldIva: totals.ivaWithheld,
+        withheldRenta: totals.rentaWithheld
+    });
+}
+
+/** dd/mm/yyyy (XML del SRI) o yyyy-mm-dd (formulario) → ISO al mediodía de Ecuador */
+export function toEcuadorIsoDate(value: string): string | null {
+    const sri = /^(\d{2})\/(\d{2})\/(\d{4})$/.exec(value || '');
+    const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(value || '');
+    const [year, month, day] = sri ? [sri[3], sri[2], sri[1]] : iso ? [iso[1], iso[2], iso[3]] : [];
+    if (!year) return null;
+    const date = new Date(`${year}-${month}-${day}T12:00:00-05:00`);
+    return isNaN(date.getTime()) ? null : date.toISOString();
+}
@@ -12,6 +12,21 @@ export const INVOICE_RATE_LIMIT = 10; // por minuto
 export const STATUS_CHECK_RATE_LIMIT = 30; // por minuto
 export const RESUBMIT_RATE_LIMIT = 5; // por 5 minutos
 export const CIRCUIT_RESET_RATE_LIMIT = 3; // por hora
+export const PORTAL_LOOKUP_RATE_LIMIT = 10; // por 15 minutos
+export const PORTAL_CODE_RATE_LIMIT = 3; // por hora
+export const PORTAL_DOWNLOAD_RATE_LIMIT = 30; // por 15 minutos
+
+// Portal público de facturas
+export const PORTAL_CODE_TTL_MS = 10 * 60 * 1000;
+export const PORTAL_CODE_MAX_ATTEMPTS = 5;
+export const PORTAL_SESSION_TTL_MS = 15 * 60 * 1000;
+export const PORTAL_MAX_INVOICES = 20;
+
+// Reenvío masivo de facturas / notas de crédito por email
+export const EMAIL_RESEND_MAX_DOCUMENTS = 50;
+
+// Factura consolidada: pedidos de un mismo cliente en una sola factura
+export const CONSOLIDATED_INVOICE_MAX_ORDERS = 100;
 
 // Circuit breaker
 export const CIRCUIT_FAILURE_THRESHOLD = 5;
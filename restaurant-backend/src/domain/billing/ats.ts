@@ -0,0 +1,146 @@
+/**
+ * Modelo del Anexo Transaccional Simplificado (ATS) - SRI Ecuador
+ * Basado en la Ficha Técnica del ATS (esquema at.xsd, módulo de ventas)
+ *
+ * El restaurante solo reporta VENTAS: facturas (tipoComprobante 18), notas de
+ * crédito (04) y de débito (05) agrupadas por cliente, sus retenciones
+ * recibidas, las ventas por establecimiento y los comprobantes anulados.
+ * Los nombres de campo son los de las etiquetas XML del anexo.
+ */
+
+/** Tipo de identificación del cliente en ventas (tabla 2 del ATS) */
+export type AtsClientIdType =
+    | '04' // RUC
+    | '05' // Cédula
+    | '06' // Pasaporte / identificación del exterior
+    | '07'; // Consumidor final
+
+/** Tipo de comprobante en ventas (tabla 4 del ATS) */
+export type AtsSaleDocumentType =
+    | '18' // Documentos autorizados en ventas (factura electrónica)
+    | '04' // Nota de crédito
+    | '05'; // Nota de débito
+
+/** Tipo de comprobante en anulados: la factura se anula con código 01 */
+export type AtsCancelledDocumentType = '01' | '04' | '05';
+
+export const ATS_CONSUMIDOR_FINAL_ID = '9999999999999';
+
+/** Un <detalleVentas>: todos los comprobantes de un cliente y tipo en el mes */
+export interface AtsSaleDetail {
+    tpIdCliente: AtsClientIdType;
+    idCliente: string;
+    /** Parte relacionada; no aplica a consumidor final */
+    parteRelVtas?: 'SI' | 'NO';
+    /** Solo para pasaporte: 01 persona natural, 02 sociedad */
+    tipoCliente?: '01' | '02';
+    /** Solo para pasaporte: nombre del cliente */
+    denoCli?: string;
+    tipoComprobante: AtsSaleDocumentType;
+    tipoEmision: 'E' | 'F';
+    numeroComprobantes: number;
+    baseNoGraIva: number;
+    /** Base tarifa 0% */
+    baseImponible: number;
+    /** Base tarifa gravada */
+    baseImpGrav: number;
+    montoIva: number;
+    montoIce: number;
+    valorRetIva: number;
+    valorRetRenta: number;
+    /** Formas de pago SRI; solo en tipoComprobante 18 */
+    formasDePago: string[];
+}
+
+export interface AtsEstablishmentSales {
+    codEstab: string;
+    ventasEstab: number;
+    ivaComp: number;
+}
+
+export interface AtsCancelledDocument {
+    tipoComprobante: AtsCancelledDocumentType;
+    establecimiento: string;
+    puntoEmision: string;
+    secuencialInicio: number;
+    secuencialFin: number;
+    /** Número de autorización (clave de acceso del comprobante electrónico) */
+    autorizacion: string;
+}
+
+export interface AtsReport {
+    TipoIDInformante: 'R';
+    IdInformante: string;
+    razonSocial: string;
+    Anio: string;
+    Mes: string;
+    numEstabRuc: string;
+    totalVentas: number;
+    codigoOperativo: 'IVA';
+    ventas: AtsSaleDetail[];
+    ventasEstablecimiento: AtsEstablishmentSales[];
+    anulados: AtsCancelledDocument[];
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/** Base total de un detalle (lo que suma a totalVentas) */
+export function atsSaleBase(detail: Pick<AtsSaleDetail, 'baseNoGraIva' | 'baseImponible' | 'baseImpGrav'>): number {
+    return round2(detail.baseNoGraIva + detail.baseImponible + detail.baseImpGrav);
+}
+
+/** El anexo no admite tildes, eñes ni signos en la razón social y nombres */
+export function atsText(text: string, maxLength: number = 300): string {
+    return (text || '')
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toUpperCase()
+        .replace(/[^A-Z0-9 ]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .substring(0, maxLength);
+}
+
+/**
+ * Reglas del esquema del ATS que el DIMM rechazaría.
+ * @returns lista de problemas (vacía = anexo válido)
+ */
+export function validateAtsReport(report: AtsReport): string[] {
+    const errors: string[] = [];
+    const isAmount = (n: number) => Number.isFinite(n) && n >= 0 && round2(n) === n;
+
+    if (!/^\d{13}$/.test(report.IdInformante)) errors.push('IdInformante: el RUC del informante debe tener 13 dígitos');
+    if (!report.razonSocial) errors.push('razonSocial: obligatoria');
+    if (!/^\d{4}$/.test(report.Anio)) errors.push('Anio: formato AAAA');
+    if (!/^(0[1-9]|1[0-2])$/.test(report.Mes)) errors.push('Mes: formato MM (01-12)');
+    if (!/^\d{3}$/.test(report.numEstabRuc) || report.numEstabRuc === '000') errors.push('numEstabRuc: tres dígitos, mínimo 001');
+
+    report.ventas.forEach((detail, idx) => {
+        const at = `detalleVentas ${idx + 1} (${detail.idCliente})`;
+        if (detail.tpIdCliente === '04' && !/^\d{13}$/.test(detail.idCliente)) errors.push(`${at}: el RUC debe tener 13 dígitos`);
+        if (detail.tpIdCliente === '05' && !/^\d{10}$/.test(detail.idCliente)) errors.push(`${at}: la cédula debe tener 10 dígitos`);
+        if (detail.tpIdCliente === '07' && detail.idCliente !== ATS_CONSUMIDOR_FINAL_ID) errors.push(`${at}: consumidor final usa ${ATS_CONSUMIDOR_FINAL_ID}`);
+        if (detail.tpIdCliente !== '07' && !detail.parteRelVtas) errors.push(`${at}: parteRelVtas obligatorio`);
+        if (detail.tpIdCliente === '06' && (!detail.tipoCliente || !detail.denoCli)) errors.push(`${at}: pasaporte requiere tipoCliente y denoCli`);
+        if (!(detail.numeroComprobantes >= 1)) errors.push(`${at}: numeroComprobantes debe ser al menos 1`);
+        for (const field of ['baseNoGraIva', 'baseImponible', 'baseImpGrav', 'montoIva', 'montoIce', 'valorRetIva', 'valorRetRenta'] as const) {
+            if (!isAmount(detail[field])) errors.push(`${at}: ${field} debe ser un valor positivo con 2 decimales`);
+        }
+        if (detail.tipoComprobante === '18' && detail.formasDePago.length === 0) errors.push(`${at}: las facturas requieren formasDePago`);
+        if (detail.tipoComprobante !== '18' && detail.formasDePago.length > 0) errors.push(`${at}: formasDePago solo aplica a facturas`);
+    });
+
+    report.anulados.forEach((doc, idx) => {
+        const at = `detalleAnulados ${idx + 1}`;
+        if (!/^\d{3}$/.test(doc.establecimiento) || !/^\d{3}$/.test(doc.puntoEmision)) errors.push(`${at}: establecimiento y punto de emisión de 3 dígitos`);
+        if (!(doc.secuencialInicio >= 1) || doc.secuencialFin < doc.secuencialInicio) errors.push(`${at}: rango de secuenciales inválido`);
+        if (!/^\d{10}(\d{27}|\d{39})?$/.test(doc.autorizacion)) errors.push(`${at}: número de autorización inválido`);
+    });
+
+    const byEstab = round2(report.ventasEstablecimiento.reduce((sum, e) => sum + e.ventasEstab, 0));
+    if (byEstab !== report.totalVentas) {
+        errors.push(`ventasEstablecimiento (${byEstab.toFixed(2)}) no cuadra con totalVentas (${report.totalVentas.toFixed(2)})`);
+    }
+
+    return errors;
+}
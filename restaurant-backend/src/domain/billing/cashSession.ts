@@ -0,0 +1,78 @@
+/**
+ * Cuadre de caja de una sesión (apertura → cierre)
+ *
+ * Las ventas se agrupan por forma de pago usando los pagos registrados en cada
+ * factura (o un único pago con paymentMethod en facturas anteriores a los pagos
+ * múltiples). Solo el efectivo entra en el cuadre: el cambio entregado ya está
+ * descontado porque `amount` es lo aplicado a la factura, no lo recibido.
+ * El dinero se cobró al cerrar la cuenta, sea cual sea el estado ante el SRI o el
+ * ambiente: una factura devuelta, con error o de pruebas también entró a la caja.
+ * Solo se excluyen las anuladas con nota de crédito: salen como devolución.
+ */
+
+import { Bill, BillPayment } from '../entities/Bill';
+import { CashMovement, CashPaymentTotal, CashSession, CashSessionSummary } from '../entities/CashSession';
+import { CASH_PAYMENT_METHOD, paymentMethodLabel } from './payments';
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/** Estado de una factura anulada con nota de crédito autorizada */
+export const VOIDED_BILL_STATUS = 'CANCELLED';
+
+/** ¿La factura entra al cuadre de caja? */
+export const countsAsCashSale = (bill: Pick<Bill, 'sriStatus'>): boolean =>
+    bill.sriStatus !== VOIDED_BILL_STATUS;
+
+/** Pagos de una factura; sin lista se asume un único pago por el total */
+export const getBillPayments = (bill: Bill): BillPayment[] =>
+    bill.payments && bill.payments.length > 0
+        ? bill.payments
+        : [{ method: bill.paymentMethod || CASH_PAYMENT_METHOD, amount: bill.total }];
+
+export function summarizeCashSession(openingFloat: number, allBills: Bill[], movements: CashMovement[]): CashSessionSummary {
+    const bills = allBills.filter(countsAsCashSale);
+    const byMethod = new Map<string, CashPaymentTotal>();
+
+    for (const bill of bills) {
+        const methods = new Set<string>();
+        for (const payment of getBillPayments(bill)) {
+            const entry = byMethod.get(payment.method) || {
+                method: payment.method,
+                label: paymentMethodLabel(payment.method),
+                count: 0,
+                amount: 0
+            };
+            entry.amount = round2(entry.amount + Number(payment.amount || 0));
+            if (!methods.has(payment.method)) {
+                entry.count += 1;
+                methods.add(payment.method);
+            }
+            byMethod.set(payment.method, entry);
+        }
+    }
+
+    const paymentTotals = [...byMethod.values()].sort((a, b) => a.method.localeCompare(b.method));
+    const cashSales = byMethod.get(CASH_PAYMENT_METHOD)?.amount ?? 0;
+    const cashIn = round2(movements.filter(m => m.type === 'in').reduce((sum, m) => sum + m.amount, 0));
+    const cashOut = round2(movements.filter(m => m.type === 'out').reduce((sum, m) => sum + m.amount, 0));
+
+    return {
+        billCount: bills.length,
+        salesTotal: round2(bills.reduce((sum, b) => sum + Number(b.total || 0), 0)),
+        paymentTotals,
+        cashSales,
+        cashIn,
+        cashOut,
+        expectedCash: round2(openingFloat + cashSales + cashIn - cashOut)
+    };
+}
+
+/** Datos del reporte Z (cierre de caja) que imprime el PDFService */
+export interface CashZReport {
+    businessName: string;
+    ruc: string;
+    address: string;
+    session: CashSession;
+    summary: CashSessionSummary;
+    printedAt: Date;
+}
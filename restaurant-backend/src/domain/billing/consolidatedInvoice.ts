@@ -0,0 +1,112 @@
+/**
+ * Reglas de la factura consolidada (una factura para varios pedidos de un cliente)
+ *
+ * Empresas que alimentan a su personal piden una sola factura semanal o mensual.
+ * Solo se consolidan pedidos completos, sin facturar y del mismo cliente; las
+ * líneas iguales (mismo plato, modificadores, precio e IVA) se suman en una.
+ */
+
+import { Order, OrderItem, OrderStatus } from '../entities/Order';
+import { ValidationError } from '../errors/CustomErrors';
+import { describeOrderItem } from '../menu/modifiers';
+import { applyOrderDiscounts } from './discounts';
+
+/** Línea de la factura consolidada, en el formato "total-driven" de BillingService */
+export interface ConsolidatedItem extends OrderItem {
+    id: string; // De él sale el codigoPrincipal SRI (igual que en la facturación por pedido)
+    total: number; // Total con IVA de la línea (ya descontado)
+    discountAmount: number; // Descuentos de los pedidos que caen en esta línea, con IVA
+}
+
+/** Límite de caracteres de un campoAdicional del SRI */
+const CAMPO_ADICIONAL_MAX = 300;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const normalizeCustomer = (name: string | undefined): string => String(name || '').trim().toUpperCase();
+
+/**
+ * Valida que los pedidos se puedan facturar juntos.
+ * @throws ValidationError con el primer problema encontrado
+ */
+export function validateConsolidation(orderIds: string[], orders: (Order | null)[], maxOrders: number): Order[] {
+    if (orderIds.length < 2) {
+        throw new ValidationError('Seleccione al menos 2 pedidos para la factura consolidada', { field: 'orderIds' });
+    }
+    if (orderIds.length > maxOrders) {
+        throw new ValidationError(`Máximo ${maxOrders} pedidos por factura consolidada`, { field: 'orderIds' });
+    }
+
+    const found: Order[] = [];
+    orders.forEach((order, idx) => {
+        if (!order) {
+            throw new ValidationError(`El pedido ${orderIds[idx]} no existe`, { orderId: orderIds[idx] });
+        }
+        const label = order.orderNumber ? `#${order.orderNumber}` : order.id;
+        if (order.billed) {
+            throw new ValidationError(`El pedido ${label} ya está facturado`, { orderId: order.id });
+        }
+        if (order.status === OrderStatus.Cancelled) {
+            throw new ValidationError(`El pedido ${label} está cancelado`, { orderId: order.id });
+        }
+        if (order.splitBilling) {
+            throw new ValidationError(`El pedido ${label} tiene la cuenta dividida`, { orderId: order.id });
+        }
+        if (!order.items?.length) {
+            throw new ValidationError(`El pedido ${label} no tiene ítems`, { orderId: order.id });
+        }
+        found.push(order);
+    });
+
+    const customer = normalizeCustomer(found[0].customerName);
+    const other = found.find(o => normalizeCustomer(o.customerName) !== customer);
+    if (other) {
+        throw new ValidationError(
+            `Todos los pedidos deben ser del mismo cliente ("${found[0].customerName}" y "${other.customerName}")`,
+            { orderId: other.id }
+        );
+    }
+
+    return found;
+}
+
+/**
+ * Resume los ítems de todos los pedidos: una línea por plato + modificadores + precio + IVA.
+ * Las notas de cocina no van a la factura. Los descuentos de cada pedido se aplican
+ * antes de sumar, así que una línea resumida lleva la suma de sus descuentos.
+ */
+export function mergeOrderItems(orders: Order[]): ConsolidatedItem[] {
+    const lines = new Map<string, ConsolidatedItem>();
+
+    for (const order of orders) {
+        for (const item of applyOrderDiscounts(order.items, order.discount)) {
+            const description = describeOrderItem(item);
+            const key = `${description}|${item.price ?? 0}|${item.taxRate ?? ''}`;
+            const line = lines.get(key);
+            if (line) {
+                line.quantity += item.quantity;
+                line.total = round2(line.total + item.total);
+                line.discountAmount = round2(line.discountAmount + item.discountAmount);
+            } else {
+                lines.set(key, {
+                    id: item.name,
+                    name: item.name,
+                    quantity: item.quantity,
+                    price: item.price,
+                    taxRate: item.taxRate,
+                    modifiers: item.modifiers,
+                    total: item.total,
+                    discountAmount: item.discountAmount
+                });
+            }
+        }
+    }
+
+    return [...lines.values()];
+}
+
+/** Texto del campoAdicional "Pedidos" de la factura: "#12, #15, #18" */
+export function describeConsolidatedOrders(orders: Order[]): string {
+    const text = orders.map(o => (o.orderNumber ? `#${o.orderNumber}` : o.id)).join(', ');
+    return text.length > CAMPO_ADICIONAL_MAX ? `${text.substring(0, CAMPO_ADICIONAL_MAX - 3)}...` : text;
+}
@@ -0,0 +1,90 @@
+/**
+ * Modelos de Dominio para Notas de Débito Electrónicas SRI - Ecuador
+ * Basado en la Ficha Técnica de Comprobantes Electrónicos Offline v2.21
+ * Código de Documento: 05 (Nota de Débito)
+ *
+ * La nota de débito cobra valores adicionales sobre una factura ya autorizada
+ * (intereses, recargos, reposición de artículos). A diferencia de la nota de
+ * crédito no lleva detalle de productos sino una lista de motivos con su valor.
+ */
+
+import { InvoicePayment } from './invoice';
+
+export type DebitNoteReason =
+    | '01' // Intereses por mora
+    | '02' // Recargo por entrega tardía
+    | '03' // Reposición de artículos dañados
+    | '04'; // Otros cargos
+
+export const DEBIT_NOTE_REASONS: Record<DebitNoteReason, string> = {
+    '01': 'Intereses por mora',
+    '02': 'Recargo por entrega tardía',
+    '03': 'Reposición de artículos dañados',
+    '04': 'Otros cargos'
+};
+
+/** Motivo del cargo: el SRI solo recibe la razón y el valor sin impuestos */
+export interface DebitNoteMotive {
+    razon: string;
+    valor: number;
+}
+
+export interface DebitNoteTax {
+    codigo: string; // '2' para IVA
+    codigoPorcentaje: string; // '0', '2', '3', '4', '5' (tarifas)
+    tarifa: number;
+    baseImponible: number;
+    valor: number;
+}
+
+export interface DebitNoteInfo {
+    // Info Tributaria
+    ambiente: '1' | '2'; // 1: Pruebas, 2: Producción
+    tipoEmision: '1'; // 1: Emisión Normal
+    razonSocial: string;
+    nombreComercial?: string;
+    ruc: string;
+    claveAcceso?: string; // Generado automáticamente
+    codDoc: '05'; // 05: Nota de Débito
+    estab: string; // 001
+    ptoEmi: string; // 001
+    secuencial: string; // 9 dígitos
+    dirMatriz: string;
+    contribuyenteEspecial?: string;
+
+    // Info Nota de Débito
+    fechaEmision: string; // dd/mm/aaaa
+    dirEstablecimiento?: string;
+    obligadoContabilidad: 'SI' | 'NO';
+
+    // Cliente
+    tipoIdentificacionComprador: '04' | '05' | '06' | '07';
+    razonSocialComprador: string;
+    identificacionComprador: string;
+
+    // Documento Modificado (Factura Original)
+    codDocModificado: '01'; // 01: Factura
+    numDocModificado: string;
+    fechaEmisionDocSustento: string;
+
+    // Totales: impuestos agrupados por tarifa de los motivos
+    totalSinImpuestos: number;
+    impuestos: DebitNoteTax[];
+    valorTotal: number;
+    pagos: InvoicePayment[];
+
+    // Additional Fields
+    direccionComprador?: string;
+    emailComprador?: string;
+    logoUrl?: string;
+    emailMatriz?: string;
+    regime?: 'General' | 'RIMPE - Negocio Popular' | 'RIMPE - Emprendedor';
+    agenteRetencion?: string;
+}
+
+export interface DebitNote {
+    info: DebitNoteInfo;
+    motivos: DebitNoteMotive[];
+    creationDate?: Date;
+    authorizationDate?: string;
+}
@@ -0,0 +1,157 @@
+/**
+ * Reglas de los descuentos (por línea y sobre todo el pedido)
+ *
+ * Los precios del sistema incluyen IVA, así que los montos de descuento también.
+ * El descuento del pedido se prorratea entre las líneas según su total: cada
+ * línea lleva su parte y BillingService la separa de la base de su tarifa de
+ * IVA, de modo que el descuento cuadra en cada grupo de IVA de la factura.
+ */
+
+import { Order, OrderDiscount, OrderItem } from '../entities/Order';
+import { ValidationError } from '../errors/CustomErrors';
+import { orderItemTotal } from './splitBill';
+
+const DISCOUNT_TYPES = ['PERCENTAGE', 'AMOUNT'];
+const REASON_MAX_LENGTH = 120;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/** Línea lista para BillingService: total cobrado (ya descontado) y monto descontado, ambos con IVA */
+export type DiscountedLine<T> = T & { total: number; discountAmount: number };
+
+/**
+ * Valida un descuento enviado por el POS.
+ * @throws ValidationError si el tipo, el valor o el motivo no son válidos
+ */
+export function validateDiscount(discount: OrderDiscount, label: string): void {
+    if (!discount || !DISCOUNT_TYPES.includes(discount.type)) {
+        throw new ValidationError(`Tipo de descuento inválido en ${label}`, { field: 'discount.type' });
+    }
+    if (typeof discount.value !== 'number' || !Number.isFinite(discount.value) || discount.value <= 0) {
+        throw new ValidationError(`El descuento en ${label} debe ser mayor a 0`, { field: 'discount.value' });
+    }
+    if (discount.type === 'PERCENTAGE' && discount.value > 100) {
+        throw new ValidationError(`El descuento en ${label} no puede superar el 100%`, { field: 'discount.value' });
+    }
+    const reason = String(discount.reason || '').trim();
+    if (!reason) {
+        throw new ValidationError(`Indique el motivo del descuento en ${label}`, { field: 'discount.reason' });
+    }
+    if (reason.length > REASON_MAX_LENGTH) {
+        throw new ValidationError(`El motivo del descuento admite hasta ${REASON_MAX_LENGTH} caracteres`, { field: 'discount.reason' });
+    }
+}
+
+/** Monto (con IVA) que descuenta sobre un total: nunca más que el propio total */
+export function discountAmount(discount: OrderDiscount, gross: number): number {
+    const raw = discount.type === 'PERCENTAGE' ? gross * discount.value / 100 : discount.value;
+    return round2(Math.min(Math.max(raw, 0), Math.max(gross, 0)));
+}
+
+/** El pedido tiene algún descuento (de línea o global) */
+export function hasDiscounts(order: Pick<Order, 'items' | 'discount'>): boolean {
+    return !!order.discount || (order.items || []).some(item => !!item.discount);
+}
+
+/**
+ * Aplica los descuentos a las líneas a facturar.
+ * - El total de entrada es el bruto de la línea (item.total o precio × cantidad)
+ * - El descuento del pedido se reparte en proporción al total de cada línea; los
+ *   centavos que sobran del redondeo van a la línea más grande
+ * Una línea sin descuento propio conserva su discountAmount (reintentos desde la factura guardada).
+ */
+export function applyOrderDiscounts<T extends OrderItem & { total?: number; discountAmount?: number }>(
+    items: T[],
+    orderDiscount?: OrderDiscount | null
+): DiscountedLine<T>[] {
+    const lines = items.map(item => {
+        const gross = item.total ?? orderItemTotal(item);
+        const lineDiscount = item.discount ? discountAmount(item.discount, gross) : 0;
+        return {
+            ...item,
+            total: round2(gross - lineDiscount),
+            discountAmount: round2((item.discountAmount || 0) + lineDiscount)
+        };
+    });
+
+    if (!orderDiscount || lines.length === 0) return lines;
+
+    const base = round2(lines.reduce((sum, line) => sum + line.total, 0));
+    const amount = discountAmount(orderDiscount, base);
+    if (amount <= 0) return lines;
+
+    let assigned = 0;
+    const shares = lines.map(line => {
+        const share = round2(amount * line.total / base);
+        assigned += share;
+        return share;
+    });
+
+    const largest = lines.reduce((best, line, idx) => (line.total > lines[best].total ? idx : best), 0);
+    shares[largest] = round2(Math.min(shares[largest] + amount - assigned, lines[largest].total));
+
+    return lines.map((line, idx) => ({
+        ...line,
+        total: round2(line.total - shares[idx]),
+        discountAmount: round2(line.discountAmount + shares[idx])
+    }));
+}
+
+const sameDiscount = (a?: OrderDiscount | null, b?: OrderDiscount | null): boolean =>
+    !!a && !!b && a.type === b.type && a.value === b.value && String(a.reason).trim() === String(b.reason).trim();
+
+/** El mismo descuento de la línea en el pedido guardado (mismo plato) */
+const previousLineDiscount = (
+    item: OrderItem,
+    previous: Partial<Pick<Order, 'items' | 'discount'>> | null
+): OrderDiscount | null | undefined =>
+    (previous?.items || []).find(p => p.name === item.name && sameDiscount(p.discount, item.discount))?.discount;
+
+/**
+ * El pedido trae algún descuento nuevo o modificado respecto al guardado:
+ * son los que necesitan quien los autorice.
+ */
+export function hasNewDiscounts(
+    order: Pick<Order, 'items' | 'discount'>,
+    previous: Partial<Pick<Order, 'items' | 'discount'>> | null
+): boolean {
+    return order.items.some(item => !!item.discount && !previousLineDiscount(item, previous))
+        || (!!order.discount && !sameDiscount(order.discount, previous?.discount));
+}
+
+/**
+ * Valida los descuentos del pedido y registra quién los autorizó y cuánto descuentan.
+ * Un descuento que no cambió respecto al pedido guardado conserva su autorización original.
+ * @param authorizedBy quien autoriza los descuentos nuevos (DiscountAuthorizer)
+ */
+export function stampOrderDiscounts(
+    order: Pick<Order, 'items' | 'discount'>,
+    previous: Partial<Pick<Order, 'items' | 'discount'>> | null,
+    authorizedBy?: string
+): Pick<Order, 'items' | 'discount'> {
+    const now = new Date();
+    const stamp = (discount: OrderDiscount, before: OrderDiscount | null | undefined, amount: number): OrderDiscount => ({
+        type: discount.type,
+        value: discount.value,
+        reason: discount.reason.trim(),
+        authorizedBy: sameDiscount(discount, before) ? before!.authorizedBy : authorizedBy,
+        authorizedAt: sameDiscount(discount, before) ? before!.authorizedAt : now,
+        amount
+    });
+
+    const items = order.items.map(item => {
+        if (!item.discount) return item;
+        validateDiscount(item.discount, `"${item.name}"`);
+        return { ...item, discount: stamp(item.discount, previousLineDiscount(item, previous), discountAmount(item.discount, orderItemTotal(item))) };
+    });
+
+    if (!order.discount) return { items, discount: null };
+
+    validateDiscount(order.discount, 'el pedido');
+    const base = round2(items.reduce((sum, item) => sum + orderItemTotal(item) - (item.discount?.amount || 0), 0));
+    return { items, discount: stamp(order.discount, previous?.discount, discountAmount(order.discount, base)) };
+}
+
+/** totalDescuento de la factura: suma de los descuentos (sin IVA) de sus detalles */
+export const totalDiscount = (details: { descuento?: number }[]): number =>
+    round2(details.reduce((sum, d) => sum + (d.descuento || 0), 0));
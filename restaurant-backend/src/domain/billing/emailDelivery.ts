@@ -0,0 +1,91 @@
+/**
+ * Estado de entrega por email de facturas y notas de crédito
+ *
+ * Cada documento guarda el resultado del último envío (o por qué no se envió),
+ * el id de mensaje del proveedor (Resend / SMTP) y el número de intentos. El
+ * rebote llega después, por el webhook del proveedor, y se cruza por el id de
+ * mensaje.
+ */
+
+export type EmailDeliveryStatus = 'SENT' | 'SKIPPED' | 'FAILED' | 'BOUNCED';
+
+export const EMAIL_DELIVERY_STATUSES: EmailDeliveryStatus[] = ['SENT', 'SKIPPED', 'FAILED', 'BOUNCED'];
+
+export interface EmailDelivery {
+    status: EmailDeliveryStatus;
+    /** Dirección a la que se envió (o se intentó enviar) */
+    to?: string;
+    /** resend | smtp | noop */
+    provider?: string;
+    /** Id del mensaje en el proveedor — enlaza el webhook de rebotes */
+    messageId?: string;
+    error?: string;
+    skipReason?: string;
+    attempts: number;
+    lastAttemptAt: string;
+    bouncedAt?: string;
+}
+
+/** Estado devuelto por GenerateInvoice / GenerateCreditNote en la respuesta HTTP */
+export interface EmailStatus {
+    sent: boolean;
+    skipped: boolean;
+    error?: string;
+    skipReason?: string;
+}
+
+/** Mismas reglas que ya usaban la emisión y la consulta de estado */
+export function isDeliverableEmail(email: string | undefined | null): boolean {
+    return !!(
+        email &&
+        !email.includes('consumidor@final') &&
+        !email.includes('noemail') &&
+        email.includes('@') &&
+        email.includes('.')
+    );
+}
+
+/** Registro de un envío realizado (con éxito o no) */
+export function deliveryFromResult(
+    to: string,
+    result: { success: boolean; messageId?: string; error?: string; provider?: string },
+    previous?: EmailDelivery
+): EmailDelivery {
+    const attempts = (previous?.attempts || 0) + 1;
+    const lastAttemptAt = new Date().toISOString();
+
+    // Sin proveedor configurado el servicio no envía nada: no es una entrega
+    if (result.success && result.provider === 'noop') {
+        return { status: 'SKIPPED', to, provider: 'noop', skipReason: 'Envío de email deshabilitado (sin proveedor configurado)', attempts, lastAttemptAt };
+    }
+
+    return result.success
+        ? { status: 'SENT', to, provider: result.provider, messageId: result.messageId, attempts, lastAttemptAt }
+        : { status: 'FAILED', to, provider: result.provider, error: result.error || 'Error desconocido', attempts, lastAttemptAt };
+}
+
+/** Registro de un envío que no se hizo (consumidor final, email inválido...) */
+export function skippedDelivery(to: string | undefined, skipReason: string, previous?: EmailDelivery): EmailDelivery {
+    return {
+        status: 'SKIPPED',
+        to: to || undefined,
+        skipReason,
+        attempts: previous?.attempts || 0,
+        lastAttemptAt: new Date().toISOString()
+    };
+}
+
+/** El proveedor informó que el correo rebotó */
+export function bouncedDelivery(previous: EmailDelivery, reason: string, bouncedAt: string): EmailDelivery {
+    return { ...previous, status: 'BOUNCED', error: reason, bouncedAt };
+}
+
+/** Resultado para la respuesta HTTP a partir del registro persistido */
+export function toEmailStatus(delivery: EmailDelivery): EmailStatus {
+    return {
+        sent: delivery.status === 'SENT',
+        skipped: delivery.status === 'SKIPPED',
+        error: delivery.error,
+        skipReason: delivery.skipReason
+    };
+}
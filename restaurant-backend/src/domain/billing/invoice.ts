@@ -3,6 +3,9 @@
  * Basado en la Ficha Técnica de Comprobantes Electrónicos Offline v2.21
  */
 
+/** Ambiente de producción del SRI (1: Pruebas, 2: Producción) */
+export const PRODUCTION_ENVIRONMENT = '2';
+
 export interface TaxValue {
     codigo: string; // '2' para IVA
     codigoPorcentaje: string; // '0', '2', '3', '4' (tarifas)
@@ -19,6 +22,15 @@ export interface InvoiceDetail {
     descuento: number;
     precioTotalSinImpuesto: number;
     impuestos: TaxValue[];
+    discountAmount?: number; // Solo RIDE y factura guardada: descuento con IVA incluido
+}
+
+export interface InvoicePayment {
+    formaPago: string; // Código SRI (tabla 24): '01', '16', '19', '20'...
+    total: number;
+    plazo: number;
+    unidadTiempo: 'dias';
+    recibido?: number; // Solo RIDE: efectivo entregado por el cliente
 }
 
 export interface InvoiceInfo {
@@ -47,6 +59,7 @@ export interface InvoiceInfo {
     totalSinImpuestos: number;
     totalDescuento: number;
     totalImpuestos: TaxValue[]; // Resumen de impuestos
+    propina?: number; // Propina o cargo por servicio (sin IVA); ya sumada en importeTotal
     importeTotal: number;
     moneda: 'DOLAR';
 
@@ -54,11 +67,13 @@ export interface InvoiceInfo {
     emailComprador?: string;
     telefonoComprador?: string;
     formaPago?: string; // '01', '19', '20', etc.
+    pagos?: InvoicePayment[]; // Varias formas de pago; si falta se usa formaPago por el total
     logoUrl?: string;
     tasaIva?: string; // e.g. "15"
     emailMatriz?: string; // Business email
     regime?: 'General' | 'RIMPE - Negocio Popular' | 'RIMPE - Emprendedor';
     agenteRetencion?: string; // Resolución number
+    pedidos?: string; // Factura consolidada: números de los pedidos que cubre ("#12, #15")
 }
 
 export interface Invoice {
@@ -66,6 +81,7 @@ export interface Invoice {
     detalles: InvoiceDetail[];
     // Campos adicionales para control interno
     orderId: string;
+    orderIds?: string[]; // Factura consolidada: todos los pedidos (orderId es el primero)
     status: 'PENDING' | 'SIGNED' | 'SENT' | 'AUTHORIZED' | 'REJECTED';
     authorizationDate?: string;
     creationDate?: Date;
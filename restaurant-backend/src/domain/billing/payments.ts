@@ -0,0 +1,104 @@
+/**
+ * Formas de pago de una factura (bloque <pagos> del SRI)
+ *
+ * Una factura puede cobrarse con varias formas de pago (parte efectivo, parte
+ * tarjeta...). La suma de los montos debe ser EXACTAMENTE el importe total:
+ * el SRI devuelve el comprobante si <pagos> no cuadra con <importeTotal>.
+ */
+
+import { BillPayment } from '../entities/Bill';
+import { InvoiceInfo, InvoicePayment } from './invoice';
+import { ValidationError } from '../errors/CustomErrors';
+
+export const CASH_PAYMENT_METHOD = '01';
+
+/** Tabla 24 de la ficha técnica del SRI (formas de pago vigentes) */
+export const SRI_PAYMENT_METHODS: Record<string, string> = {
+    '01': 'SIN UTILIZACION DEL SISTEMA FINANCIERO',
+    '15': 'COMPENSACION DE DEUDAS',
+    '16': 'TARJETA DE DEBITO',
+    '17': 'DINERO ELECTRONICO',
+    '18': 'TARJETA PREPAGO',
+    '19': 'TARJETA DE CREDITO',
+    '20': 'OTROS CON UTILIZACION DEL SISTEMA FINANCIERO',
+    '21': 'ENDOSO DE TITULOS'
+};
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Normaliza y valida los pagos de una factura.
+ * Sin lista de pagos se asume un único pago por el total con `defaultMethod`.
+ * @throws ValidationError si algún pago es inválido o la suma no cuadra con el total
+ */
+export function resolvePayments(payments: BillPayment[] | null | undefined, defaultMethod: string, total: number): BillPayment[] {
+    const invoiceTotal = round2(total);
+
+    if (!Array.isArray(payments) || payments.length === 0) {
+        return [{ method: defaultMethod, amount: invoiceTotal, term: 0 }];
+    }
+
+    const normalized = payments.map(p => {
+        const method = String(p.method);
+        const payment: BillPayment = {
+            method,
+            amount: round2(Number(p.amount)),
+            term: Math.max(0, Math.trunc(Number(p.term) || 0))
+        };
+        if (method === CASH_PAYMENT_METHOD && p.received !== undefined && p.received !== null) {
+            payment.received = round2(Number(p.received));
+        }
+        return payment;
+    });
+
+    for (const p of normalized) {
+        if (!SRI_PAYMENT_METHODS[p.method]) {
+            throw new ValidationError(`Forma de pago inválida: ${p.method}`, { field: 'payments', method: p.method });
+        }
+        if (!(p.amount > 0)) {
+            throw new ValidationError('Cada forma de pago debe tener un monto mayor a cero', { field: 'payments', method: p.method });
+        }
+        if (p.received !== undefined && p.received < p.amount) {
+            throw new ValidationError(
+                `El efectivo recibido ($${p.received.toFixed(2)}) es menor al monto en efectivo ($${p.amount.toFixed(2)})`,
+                { field: 'payments', method: p.method }
+            );
+        }
+    }
+
+    const paid = round2(normalized.reduce((sum, p) => sum + p.amount, 0));
+    if (paid !== invoiceTotal) {
+        throw new ValidationError(
+            `La suma de los pagos ($${paid.toFixed(2)}) no coincide con el total de la factura ($${invoiceTotal.toFixed(2)})`,
+            { field: 'payments', paid, total: invoiceTotal }
+        );
+    }
+
+    return normalized;
+}
+
+/** Cambio a devolver: efectivo recibido por encima del monto en efectivo */
+export const calculateChange = (payments: BillPayment[] | null | undefined): number =>
+    round2((payments || []).reduce((sum, p) => sum + Math.max(0, (p.received ?? p.amount) - p.amount), 0));
+
+/** Pagos de la factura en el formato del bloque <pagos> del XML */
+export const toInvoicePayments = (payments: BillPayment[]): InvoicePayment[] =>
+    payments.map(p => ({
+        formaPago: p.method,
+        total: p.amount,
+        plazo: p.term ?? 0,
+        unidadTiempo: 'dias',
+        recibido: p.received
+    }));
+
+/**
+ * Pagos a imprimir en el XML/RIDE: los registrados en la factura o, en
+ * comprobantes anteriores a los pagos múltiples, uno solo por el total con formaPago
+ */
+export const getInvoicePayments = (info: InvoiceInfo): InvoicePayment[] =>
+    info.pagos && info.pagos.length > 0
+        ? info.pagos
+        : [{ formaPago: info.formaPago || CASH_PAYMENT_METHOD, total: info.importeTotal, plazo: 0, unidadTiempo: 'dias' }];
+
+export const paymentMethodLabel = (code?: string): string =>
+    SRI_PAYMENT_METHODS[code || CASH_PAYMENT_METHOD] || 'OTROS CON UTILIZACION DEL SISTEMA FINANCIERO';
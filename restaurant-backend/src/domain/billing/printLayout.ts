@@ -0,0 +1,100 @@
+/**
+ * Plantilla de impresión del RIDE (facturas y notas de crédito)
+ *
+ * Define cómo se imprime la representación del comprobante electrónico:
+ * - format: RIDE en hoja A4 o ticket térmico
+ * - ticketWidth: ancho del rollo térmico (58 mm u 80 mm)
+ * - showLogo / showQr: logo fiscal y código QR de la clave de acceso
+ * - footerText: texto libre al pie (política de devoluciones, redes, clave del wifi)
+ * La misma plantilla se usa al emitir, al enviar por email y en las reimpresiones.
+ */
+
+import { ValidationError } from '../errors/CustomErrors';
+
+export type RideFormat = 'A4' | 'ticket';
+export type TicketWidth = 58 | 80;
+
+export interface PrintLayout {
+    format: RideFormat;
+    ticketWidth: TicketWidth;
+    showLogo: boolean;
+    showQr: boolean;
+    footerText: string; // Una línea por renglón ('\n')
+}
+
+export const RIDE_FORMATS: RideFormat[] = ['A4', 'ticket'];
+export const TICKET_WIDTHS: TicketWidth[] = [58, 80];
+
+/** Límites del pie: en un rollo de 58 mm no caben párrafos */
+export const MAX_FOOTER_LINES = 6;
+export const MAX_FOOTER_LINE_LENGTH = 120;
+
+/** Plantilla de siempre: A4, ticket de 80 mm, con logo y QR, sin pie propio */
+export const DEFAULT_PRINT_LAYOUT: PrintLayout = {
+    format: 'A4',
+    ticketWidth: 80,
+    showLogo: true,
+    showQr: true,
+    footerText: ''
+};
+
+/** Plantilla de la configuración, completando lo que falte con la de siempre */
+export function printLayoutOf(
+    billing: { printLayout?: Partial<PrintLayout> } | null | undefined
+): PrintLayout {
+    const layout = billing?.printLayout || {};
+    return {
+        format: layout.format ?? DEFAULT_PRINT_LAYOUT.format,
+        ticketWidth: layout.ticketWidth ?? DEFAULT_PRINT_LAYOUT.ticketWidth,
+        showLogo: layout.showLogo ?? DEFAULT_PRINT_LAYOUT.showLogo,
+        showQr: layout.showQr ?? DEFAULT_PRINT_LAYOUT.showQr,
+        footerText: layout.footerText ?? DEFAULT_PRINT_LAYOUT.footerText
+    };
+}
+
+/** Renglones del pie, sin espacios sobrantes ni líneas vacías */
+export function footerLines(layout: Pick<PrintLayout, 'footerText'>): string[] {
+    return (layout.footerText || '').split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+/**
+ * Valida y normaliza la plantilla que llega de la configuración.
+ * @throws ValidationError si el formato, el ancho o el pie no son válidos
+ */
+export function normalizePrintLayout(input: unknown): PrintLayout {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+        throw new ValidationError('La plantilla de impresión no es válida', { field: 'billing.printLayout' });
+    }
+    const raw = input as Record<string, any>;
+    const layout = printLayoutOf({ printLayout: raw });
+
+    if (!RIDE_FORMATS.includes(layout.format)) {
+        throw new ValidationError('Formato de RIDE inválido (A4 o ticket)', { field: 'billing.printLayout.format' });
+    }
+    const ticketWidth = Number(layout.ticketWidth) as TicketWidth;
+    if (!TICKET_WIDTHS.includes(ticketWidth)) {
+        throw new ValidationError('El ancho del ticket debe ser 58 u 80 mm', { field: 'billing.printLayout.ticketWidth' });
+    }
+    if (typeof layout.footerText !== 'string') {
+        throw new ValidationError('El pie del RIDE debe ser texto', { field: 'billing.printLayout.footerText' });
+    }
+
+    const lines = footerLines(layout);
+    if (lines.length > MAX_FOOTER_LINES) {
+        throw new ValidationError(`El pie del RIDE admite hasta ${MAX_FOOTER_LINES} líneas`, { field: 'billing.printLayout.footerText' });
+    }
+    if (lines.some(line => line.length > MAX_FOOTER_LINE_LENGTH)) {
+        throw new ValidationError(
+            `Cada línea del pie admite hasta ${MAX_FOOTER_LINE_LENGTH} caracteres`,
+            { field: 'billing.printLayout.footerText' }
+        );
+    }
+
+    return {
+        format: layout.format,
+        ticketWidth,
+        showLogo: layout.showLogo !== false,
+        showQr: layout.showQr !== false,
+        footerText: lines.join('\n')
+    };
+}
@@ -0,0 +1,83 @@
+/**
+ * Modelos de Dominio para Liquidaciones de Compra Electrónicas SRI - Ecuador
+ * Basado en la Ficha Técnica de Comprobantes Electrónicos Offline v2.21
+ * Código de Documento: 03 (Liquidación de compra de bienes y prestación de servicios)
+ *
+ * La emite el restaurante (comprador) cuando el proveedor no está obligado a
+ * emitir comprobantes de venta: agricultores, pescadores artesanales, etc.
+ */
+
+import { InvoicePayment } from './invoice';
+
+/** Tipos de identificación aceptados para el proveedor (tabla 6 de la ficha técnica) */
+export type SupplierIdentificationType =
+    | '04' // RUC
+    | '05' // Cédula
+    | '06' // Pasaporte
+    | '08'; // Identificación del exterior
+
+export interface PurchaseSettlementDetail {
+    codigoPrincipal: string;
+    descripcion: string;
+    cantidad: number;
+    precioUnitario: number;
+    descuento: number;
+    precioTotalSinImpuesto: number;
+    impuestos: {
+        codigo: string; // '2' para IVA
+        codigoPorcentaje: string; // '0', '2', '3', '4' (tarifas)
+        tarifa: number;
+        baseImponible: number;
+        valor: number;
+    }[];
+}
+
+export interface PurchaseSettlementInfo {
+    // Info Tributaria
+    ambiente: '1' | '2'; // 1: Pruebas, 2: Producción
+    tipoEmision: '1'; // 1: Emisión Normal
+    razonSocial: string;
+    nombreComercial?: string;
+    ruc: string;
+    claveAcceso?: string; // Generado automáticamente
+    codDoc: '03'; // 03: Liquidación de compra
+    estab: string; // 001
+    ptoEmi: string; // 001
+    secuencial: string; // 9 dígitos
+    dirMatriz: string;
+    contribuyenteEspecial?: string;
+
+    // Info Liquidación de Compra
+    fechaEmision: string; // dd/mm/aaaa
+    dirEstablecimiento?: string;
+    obligadoContabilidad: 'SI' | 'NO';
+
+    // Proveedor (quien vende al restaurante)
+    tipoIdentificacionProveedor: SupplierIdentificationType;
+    razonSocialProveedor: string;
+    identificacionProveedor: string;
+    direccionProveedor: string;
+    emailProveedor?: string;
+    telefonoProveedor?: string;
+
+    // Totales
+    totalSinImpuestos: number;
+    totalDescuento: number;
+    importeTotal: number;
+    moneda: 'DOLAR';
+    pagos: InvoicePayment[];
+
+    // Additional Fields
+    observacion?: string;
+    logoUrl?: string;
+    emailMatriz?: string;
+    regime?: 'General' | 'RIMPE - Negocio Popular' | 'RIMPE - Emprendedor';
+    agenteRetencion?: string;
+}
+
+export interface PurchaseSettlement {
+    info: PurchaseSettlementInfo;
+    detalles: PurchaseSettlementDetail[];
+    creationDate?: Date;
+    authorizationDate?: string;
+}
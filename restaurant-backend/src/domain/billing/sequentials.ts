@@ -0,0 +1,317 @@
+/**
+ * Auditoría de secuenciales de comprobantes (facturas y notas de crédito)
+ *
+ * Una serie es tipo de documento + ambiente + establecimiento + punto de
+ * emisión. Dentro de cada serie los secuenciales deberían ser contiguos y
+ * únicos, y el contador de RestaurantConfig.billing (último número emitido)
+ * no puede quedar por detrás del mayor número guardado: el siguiente
+ * comprobante repetiría un número ya usado.
+ */
+
+export type SequentialDocumentType = 'factura' | 'notaCredito';
+export type SequentialEnvironment = '1' | '2';
+
+export type SequenceCounterField =
+    | 'currentSequenceFactura'
+    | 'testSequenceFactura'
+    | 'currentSequenceNotaCredito'
+    | 'testSequenceNotaCredito';
+
+/** Contador de RestaurantConfig.billing por tipo de documento y ambiente */
+export const SEQUENCE_COUNTER_FIELDS: Record<SequentialDocumentType, Record<SequentialEnvironment, SequenceCounterField>> = {
+    factura: { '2': 'currentSequenceFactura', '1': 'testSequenceFactura' },
+    notaCredito: { '2': 'currentSequenceNotaCredito', '1': 'testSequenceNotaCredito' }
+};
+
+/** Estados que ya no admiten cambios de número (el SRI los conoce o están cerrados) */
+export const LOCKED_SEQUENTIAL_STATUSES = ['AUTORIZADO', 'CANCELADO', 'CANCELLED'];
+/** Estados en proceso con el SRI: hay que esperar su resultado */
+export const IN_PROGRESS_SEQUENTIAL_STATUSES = ['PENDING', 'SENT', 'RECIBIDA', 'VALIDADO'];
+
+const DOCUMENT_NUMBER_PATTERN = /^(\d{3})-(\d{3})-(\d{1,9})$/;
+
+export interface SequentialDocumentRef {
+    id: string;
+    documentType: SequentialDocumentType;
+    documentNumber: string;
+    environment?: string;
+    sriStatus?: string;
+    accessKey?: string;
+    createdAt?: string;
+}
+
+export interface SequentialGap {
+    from: number;
+    to: number;
+    count: number;
+    /** Hueco justificado previamente (registrado en el log de auditoría) */
+    acknowledged: boolean;
+    acknowledgedReason?: string;
+}
+
+export interface SequentialDuplicate {
+    secuencial: number;
+    documents: SequentialDocumentRef[];
+}
+
+/**
+ * - OK: el contador está en el último número emitido
+ * - BEHIND: el contador está por debajo del mayor número emitido
+ * - COLLISION: el siguiente número ya lo tiene otro documento (p. ej. del otro ambiente)
+ * - AHEAD: se consumieron números sin documento guardado
+ */
+export type SequenceCounterStatus = 'OK' | 'BEHIND' | 'COLLISION' | 'AHEAD';
+
+export interface SequenceCounterDrift {
+    field: SequenceCounterField;
+    counter: number;
+    maxIssued: number;
+    status: SequenceCounterStatus;
+    nextNumber: string;
+    nextTakenBy?: SequentialDocumentRef;
+    /** Valor al que `sync-counter` sube el contador (primer número libre - 1) */
+    suggestedValue: number;
+}
+
+export type SequentialRepairAction = 'sync-counter' | 'renumber-document' | 'acknowledge-gap';
+
+export interface SequentialRepairSuggestion {
+    action: SequentialRepairAction;
+    label: string;
+    seriesKey: string;
+    documentType: SequentialDocumentType;
+    environment: SequentialEnvironment;
+    documentId?: string;
+    from?: number;
+    to?: number;
+}
+
+export type SequentialSeriesStatus = 'OK' | 'WARN' | 'FAIL';
+
+export interface SequentialSeriesReport {
+    key: string;
+    documentType: SequentialDocumentType;
+    environment: SequentialEnvironment;
+    establishment: string;
+    emissionPoint: string;
+    status: SequentialSeriesStatus;
+    documentCount: number;
+    first: number;
+    last: number;
+    gaps: SequentialGap[];
+    missingCount: number;
+    duplicates: SequentialDuplicate[];
+    /** Solo para la serie configurada (establecimiento y punto de emisión activos) */
+    counter?: SequenceCounterDrift;
+    repairs: SequentialRepairSuggestion[];
+}
+
+export interface UnclassifiedSequentialDocument {
+    document: SequentialDocumentRef;
+    reason: string;
+}
+
+/** Rango de secuenciales justificado por un usuario */
+export interface AcknowledgedGap {
+    from: number;
+    to: number;
+    reason?: string;
+}
+
+export const sequentialSeriesKey = (
+    documentType: SequentialDocumentType,
+    environment: SequentialEnvironment,
+    establishment: string,
+    emissionPoint: string
+): string => `${documentType}:${environment}:${establishment}-${emissionPoint}`;
+
+export const formatDocumentNumber = (establishment: string, emissionPoint: string, secuencial: number): string =>
+    `${establishment}-${emissionPoint}-${secuencial.toString().padStart(9, '0')}`;
+
+/** 001-001-000000123 → { establishment, emissionPoint, secuencial }; null si el formato no es válido */
+export function parseDocumentNumber(documentNumber: string | undefined): { establishment: string; emissionPoint: string; secuencial: number } | null {
+    const match = DOCUMENT_NUMBER_PATTERN.exec((documentNumber || '').trim());
+    if (!match) return null;
+    const secuencial = parseInt(match[3], 10);
+    if (secuencial <= 0) return null;
+    return { establishment: match[1], emissionPoint: match[2], secuencial };
+}
+
+/**
+ * Ambiente del documento. Los documentos anteriores a la separación por
+ * ambiente no lo tienen guardado: se toma de la clave de acceso (posición 24).
+ */
+export function resolveDocumentEnvironment(doc: Pick<SequentialDocumentRef, 'environment' | 'accessKey'>): SequentialEnvironment | null {
+    if (doc.environment === '1' || doc.environment === '2') return doc.environment;
+    const fromKey = doc.accessKey && doc.accessKey.length === 49 ? doc.accessKey[23] : undefined;
+    return fromKey === '1' || fromKey === '2' ? fromKey : null;
+}
+
+/** Puede tomar un número nuevo: no está autorizado/cerrado ni en proceso con el SRI */
+export const canRenumberDocument = (doc: SequentialDocumentRef): boolean =>
+    !LOCKED_SEQUENTIAL_STATUSES.includes(doc.sriStatus || '') &&
+    !IN_PROGRESS_SEQUENTIAL_STATUSES.includes(doc.sriStatus || '');
+
+/** Rangos de secuenciales faltantes entre el primero y el último de la serie */
+export function findSequentialGaps(secuenciales: number[], acknowledged: AcknowledgedGap[] = []): SequentialGap[] {
+    const sorted = Array.from(new Set(secuenciales)).sort((a, b) => a - b);
+    const gaps: SequentialGap[] = [];
+
+    for (let i = 1; i < sorted.length; i++) {
+        if (sorted[i] - sorted[i - 1] > 1) {
+            const from = sorted[i - 1] + 1;
+            const to = sorted[i] - 1;
+            const ack = acknowledged.find(a => a.from <= from && a.to >= to);
+            gaps.push({ from, to, count: to - from + 1, acknowledged: !!ack, acknowledgedReason: ack?.reason });
+        }
+    }
+    return gaps;
+}
+
+export interface SequentialAuditInput {
+    documents: SequentialDocumentRef[];
+    establishment: string;
+    emissionPoint: string;
+    counters: Partial<Record<SequenceCounterField, number>>;
+    /** Ambiente activo: solo ahí se pueden pedir números nuevos para renumerar */
+    activeEnvironment: SequentialEnvironment;
+    acknowledgedGaps?: Record<string, AcknowledgedGap[]>;
+}
+
+export interface SequentialAuditResult {
+    series: SequentialSeriesReport[];
+    unclassified: UnclassifiedSequentialDocument[];
+}
+
+/**
+ * Agrupa los documentos por serie y detecta huecos, duplicados y el desfase
+ * del contador de la serie configurada, con las reparaciones aplicables.
+ */
+export function auditSequentials(input: SequentialAuditInput): SequentialAuditResult {
+    const unclassified: UnclassifiedSequentialDocument[] = [];
+    const groups = new Map<string, { documentType: SequentialDocumentType; environment: SequentialEnvironment; establishment: string; emissionPoint: string; entries: { secuencial: number; doc: SequentialDocumentRef }[] }>();
+    // El índice único de documentNumber es global: un número del otro ambiente también bloquea
+    const takenNumbers = new Map<string, SequentialDocumentRef>();
+
+    for (const doc of input.documents) {
+        const parsed = parseDocumentNumber(doc.documentNumber);
+        if (!parsed) {
+            unclassified.push({ document: doc, reason: `Número de documento con formato inválido: "${doc.documentNumber || ''}"` });
+            continue;
+        }
+        takenNumbers.set(`${doc.documentType}:${formatDocumentNumber(parsed.establishment, parsed.emissionPoint, parsed.secuencial)}`, doc);
+
+        const environment = resolveDocumentEnvironment(doc);
+        if (!environment) {
+            unclassified.push({ document: doc, reason: 'Sin ambiente registrado ni clave de acceso para deducirlo' });
+            continue;
+        }
+
+        const key = sequentialSeriesKey(doc.documentType, environment, parsed.establishment, parsed.emissionPoint);
+        if (!groups.has(key)) {
+            groups.set(key, { documentType: doc.documentType, environment, establishment: parsed.establishment, emissionPoint: parsed.emissionPoint, entries: [] });
+        }
+        groups.get(key)!.entries.push({ secuencial: parsed.secuencial, doc });
+    }
+
+    // La serie configurada se audita aunque no tenga documentos: su contador puede estar desfasado
+    for (const documentType of Object.keys(SEQUENCE_COUNTER_FIELDS) as SequentialDocumentType[]) {
+        for (const environment of ['1', '2'] as SequentialEnvironment[]) {
+            const key = sequentialSeriesKey(documentType, environment, input.establishment, input.emissionPoint);
+            const field = SEQUENCE_COUNTER_FIELDS[documentType][environment];
+            if (!groups.has(key) && typeof input.counters[field] === 'number') {
+                groups.set(key, { documentType, environment, establishment: input.establishment, emissionPoint: input.emissionPoint, entries: [] });
+            }
+        }
+    }
+
+    const series: SequentialSeriesReport[] = [];
+    for (const [key, group] of groups) {
+        const { documentType, environment, establishment, emissionPoint, entries } = group;
+        const numbers = entries.map(e => e.secuencial);
+        const repairs: SequentialRepairSuggestion[] = [];
+        const base = { seriesKey: key, documentType, environment };
+
+        const gaps = findSequentialGaps(numbers, input.acknowledgedGaps?.[key]);
+        for (const gap of gaps.filter(g => !g.acknowledged)) {
+            repairs.push({
+                ...base,
+                action: 'acknowledge-gap',
+                from: gap.from,
+                to: gap.to,
+                label: gap.count === 1 ? `Justificar el número faltante ${gap.from}` : `Justificar los números faltantes ${gap.from}–${gap.to}`
+            });
+        }
+
+        const bySecuencial = new Map<number, SequentialDocumentRef[]>();
+        for (const { secuencial, doc } of entries) {
+            bySecuencial.set(secuencial, [...(bySecuencial.get(secuencial) || []), doc]);
+        }
+        const duplicates: SequentialDuplicate[] = [];
+        for (const [secuencial, docs] of bySecuencial) {
+            if (docs.length < 2) continue;
+            duplicates.push({ secuencial, documents: docs });
+            if (environment !== input.activeEnvironment) continue;
+
+            // Se conserva el autorizado (o el más antiguo) y los demás toman un número nuevo
+            const keep = docs.find(d => LOCKED_SEQUENTIAL_STATUSES.includes(d.sriStatus || ''))
+                || [...docs].sort((a, b) => (a.createdAt || '').localeCompare(b.createdAt || ''))[0];
+            for (const doc of docs) {
+                if (doc === keep || !canRenumberDocument(doc)) continue;
+                repairs.push({ ...base, action: 'renumber-document', documentId: doc.id, label: `Asignar un número nuevo a ${doc.documentNumber} (${doc.sriStatus || 'sin estado'})` });
+            }
+        }
+        duplicates.sort((a, b) => a.secuencial - b.secuencial);
+
+        const maxIssued = numbers.reduce((max, n) => Math.max(max, n), 0);
+        let counter: SequenceCounterDrift | undefined;
+        const field = SEQUENCE_COUNTER_FIELDS[documentType][environment];
+        const counterValue = input.counters[field];
+        if (establishment === input.establishment && emissionPoint === input.emissionPoint && typeof counterValue === 'number') {
+            const isTaken = (n: number) => takenNumbers.get(`${documentType}:${formatDocumentNumber(establishment, emissionPoint, n)}`);
+            let suggestedValue = Math.max(counterValue, maxIssued);
+            while (isTaken(suggestedValue + 1)) suggestedValue++;
+
+            const nextNumber = formatDocumentNumber(establishment, emissionPoint, counterValue + 1);
+            const nextTakenBy = isTaken(counterValue + 1);
+            // Números saltados por estar ocupados en el otro ambiente no cuentan como consumidos
+            let skipsFreeNumbers = false;
+            for (let n = maxIssued + 1; maxIssued > 0 && n <= counterValue && !skipsFreeNumbers; n++) {
+                skipsFreeNumbers = !isTaken(n);
+            }
+            const status: SequenceCounterStatus = counterValue < maxIssued
+                ? 'BEHIND'
+                : nextTakenBy ? 'COLLISION' : skipsFreeNumbers ? 'AHEAD' : 'OK';
+
+            counter = { field, counter: counterValue, maxIssued, status, nextNumber, nextTakenBy, suggestedValue };
+            if (suggestedValue > counterValue) {
+                repairs.unshift({ ...base, action: 'sync-counter', label: `Subir el contador ${field} de ${counterValue} a ${suggestedValue}` });
+            }
+        }
+
+        const unacknowledged = gaps.filter(g => !g.acknowledged);
+        const status: SequentialSeriesStatus = duplicates.length > 0 || counter?.status === 'BEHIND' || counter?.status === 'COLLISION'
+            ? 'FAIL'
+            : unacknowledged.length > 0 || counter?.status === 'AHEAD' ? 'WARN' : 'OK';
+
+        series.push({
+            key,
+            documentType,
+            environment,
+            establishment,
+            emissionPoint,
+            status,
+            documentCount: entries.length,
+            first: numbers.length > 0 ? numbers.reduce((min, n) => Math.min(min, n), numbers[0]) : 0,
+            last: maxIssued,
+            gaps,
+            missingCount: unacknowledged.reduce((sum, g) => sum + g.count, 0),
+            duplicates,
+            counter,
+            repairs
+        });
+    }
+
+    series.sort((a, b) => a.key.localeCompare(b.key));
+    return { series, unclassified };
+}
@@ -0,0 +1,185 @@
+/**
+ * Reglas de la cuenta dividida (una factura por parte)
+ *
+ * Un plan es válido solo si reparte EXACTAMENTE los ítems del pedido: ni una
+ * unidad de más (se facturaría dos veces) ni de menos (quedaría sin facturar).
+ * Del POS solo se toma qué unidades van a cada parte: precios, IVA y totales
+ * salen de los ítems guardados en el pedido.
+ */
+
+import { Order, OrderItem, SplitBilling, SplitBillItem, SplitBillPart } from '../entities/Order';
+import { ValidationError } from '../errors/CustomErrors';
+
+/** Tolerancia para cantidades fraccionadas (partes iguales redondeadas a 6 decimales) */
+const QUANTITY_TOLERANCE = 0.0001;
+/** Tolerancia de montos: un centavo */
+const AMOUNT_TOLERANCE = 0.01;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+const round6 = (value: number): number => Math.round(value * 1e6) / 1e6;
+const toCents = (value: number): number => Math.round(value * 100);
+
+/** Total con IVA de un ítem del pedido (los precios del sistema ya incluyen IVA) */
+export const orderItemTotal = (item: OrderItem): number => round2((item.price || 0) * item.quantity);
+
+/** Reparte `totalCents` según `weights`; el residuo va a las primeras partes con peso (igual que el POS) */
+function distributeCents(totalCents: number, weights: number[]): number[] {
+    const weightSum = weights.reduce((s, w) => s + w, 0);
+    if (weightSum <= 0) return weights.map(() => 0);
+
+    const shares = weights.map(w => Math.floor((totalCents * w) / weightSum));
+    let remainder = totalCents - shares.reduce((s, c) => s + c, 0);
+    for (let i = 0; remainder > 0; i = (i + 1) % shares.length) {
+        if (weights[i] > 0) {
+            shares[i]++;
+            remainder--;
+        }
+    }
+    return shares;
+}
+
+/** Mismo plato con los mismos modificadores = misma línea del pedido */
+const lineKey = (item: Pick<OrderItem, 'name' | 'modifiers'>): string =>
+    JSON.stringify([item.name, (Array.isArray(item.modifiers) ? item.modifiers : []).map(m => `${m.groupName}:${m.name}`)]);
+
+/**
+ * Arma las partes con los precios del pedido: del plan recibido solo se usan el
+ * número de parte y qué plato (nombre y modificadores) y cuántas unidades lleva.
+ * El total de cada línea se reparte en centavos entre las partes según sus unidades.
+ * @throws ValidationError si una cantidad no es positiva o el plato no está en el pedido
+ */
+export function priceSplitPlan(order: Order, requestedParts: SplitBillPart[]): SplitBillPart[] {
+    const parts = Array.isArray(requestedParts) ? requestedParts : [];
+    // Unidades de cada línea del pedido en cada parte: allocation[línea][parte]
+    const allocation = order.items.map(() => parts.map(() => 0));
+
+    parts.forEach((part, p) => {
+        (Array.isArray(part.items) ? part.items : []).forEach(item => {
+            const quantity = Number(item.quantity);
+            if (!(quantity > 0)) {
+                throw new ValidationError(`La parte ${part.part} tiene cantidades o montos inválidos`, { part: part.part });
+            }
+            const key = lineKey(item);
+            const lines = order.items
+                .map((line, idx) => ({ line, idx }))
+                .filter(({ line }) => lineKey(line) === key)
+                // Entre líneas iguales con precio ajustado, primero la que el POS indicó
+                .sort((a, b) => Number(b.line.price === item.price) - Number(a.line.price === item.price));
+            if (lines.length === 0) {
+                throw new ValidationError(`"${item.name}" no pertenece al pedido`, { item: item.name });
+            }
+
+            let pending = quantity;
+            for (const { line, idx } of lines) {
+                const free = Math.max(0, line.quantity - allocation[idx].reduce((s, q) => s + q, 0));
+                const taken = Math.min(pending, free);
+                allocation[idx][p] += taken;
+                pending -= taken;
+            }
+            // Lo que excede lo pedido queda en la parte: validateSplitPlan lo rechaza
+            if (pending > 0) allocation[lines[lines.length - 1].idx][p] += pending;
+        });
+    });
+
+    const partItems: SplitBillItem[][] = parts.map(() => []);
+    order.items.forEach((line, idx) => {
+        const quantities = allocation[idx].map(q => (q > QUANTITY_TOLERANCE ? round6(q) : 0));
+        const shares = distributeCents(toCents(orderItemTotal(line)), quantities);
+        quantities.forEach((quantity, p) => {
+            if (quantity <= 0) return;
+            const requested = parts[p].items.find(i => lineKey(i) === lineKey(line));
+            partItems[p].push({
+                // El ID del plato solo sirve para el codigoPrincipal SRI
+                ...(typeof requested?.id === 'string' ? { id: requested.id } : {}),
+                name: line.name,
+                quantity,
+                price: line.price,
+                taxRate: line.taxRate,
+                // Los modificadores van a la descripción de la factura de la parte
+                ...(line.modifiers?.length ? { modifiers: line.modifiers } : {}),
+                total: shares[p] / 100
+            });
+        });
+    });
+
+    return parts.map((part, p) => ({
+        part: Number(part.part),
+        items: partItems[p],
+        total: round2(partItems[p].reduce((s, i) => s + i.total, 0))
+    }));
+}
+
+/**
+ * Valida que el plan cubra todos los ítems del pedido y que los montos cuadren.
+ * Espera las partes ya armadas con priceSplitPlan.
+ * @throws ValidationError con el primer problema encontrado
+ */
+export function validateSplitPlan(order: Order, plan: SplitBilling): void {
+    if (!plan || !['items', 'quantity', 'even'].includes(plan.mode)) {
+        throw new ValidationError('Modo de división inválido', { field: 'mode' });
+    }
+    // Las partes se facturan con sus propios montos: los descuentos no se reparten entre ellas
+    if (order.discount || order.items.some(i => i.discount)) {
+        throw new ValidationError('Quite los descuentos del pedido antes de dividir la cuenta', { field: 'discount' });
+    }
+    if (!Array.isArray(plan.parts) || plan.parts.length < 2) {
+        throw new ValidationError('La cuenta dividida necesita al menos 2 partes', { field: 'parts' });
+    }
+
+    const numbers = plan.parts.map(p => p.part).sort((a, b) => a - b);
+    if (numbers.some((n, idx) => n !== idx + 1)) {
+        throw new ValidationError('Las partes deben numerarse de 1 a N', { field: 'parts' });
+    }
+
+    for (const part of plan.parts) {
+        if (!Array.isArray(part.items) || part.items.length === 0) {
+            throw new ValidationError(`La parte ${part.part} no tiene ítems`, { part: part.part });
+        }
+        if (part.items.some(i => !(i.quantity > 0) || !(i.total >= 0))) {
+            throw new ValidationError(`La parte ${part.part} tiene cantidades o montos inválidos`, { part: part.part });
+        }
+        const itemsTotal = part.items.reduce((sum, i) => sum + i.total, 0);
+        if (!(part.total > 0) || Math.abs(itemsTotal - part.total) > AMOUNT_TOLERANCE) {
+            throw new ValidationError(`El total de la parte ${part.part} no cuadra con sus ítems`, { part: part.part });
+        }
+    }
+
+    // Cada ítem del pedido (agrupado por nombre) debe repartirse completo
+    const expected = new Map<string, number>();
+    order.items.forEach(i => expected.set(i.name, (expected.get(i.name) || 0) + i.quantity));
+
+    const assigned = new Map<string, number>();
+    plan.parts.forEach(p => p.items.forEach(i => assigned.set(i.name, (assigned.get(i.name) || 0) + i.quantity)));
+
+    for (const [name, quantity] of assigned) {
+        if (!expected.has(name)) {
+            throw new ValidationError(`"${name}" no pertenece al pedido`, { item: name });
+        }
+        if (quantity - expected.get(name)! > QUANTITY_TOLERANCE) {
+            throw new ValidationError(`"${name}" se asignó más veces de las pedidas`, { item: name });
+        }
+    }
+    for (const [name, quantity] of expected) {
+        if (quantity - (assigned.get(name) || 0) > QUANTITY_TOLERANCE) {
+            throw new ValidationError(`"${name}" no está asignado a ninguna parte`, { item: name });
+        }
+    }
+
+    const orderTotal = order.items.reduce((sum, i) => sum + orderItemTotal(i), 0);
+    const planTotal = plan.parts.reduce((sum, p) => sum + p.total, 0);
+    if (Math.abs(orderTotal - planTotal) > AMOUNT_TOLERANCE) {
+        throw new ValidationError(
+            `La suma de las partes ($${planTotal.toFixed(2)}) no coincide con el pedido ($${orderTotal.toFixed(2)})`,
+            { orderTotal, planTotal }
+        );
+    }
+}
+
+/** Una parte está facturada cuando tiene factura asociada (aunque el SRI la autorice después) */
+export const isPartInvoiced = (part: SplitBillPart): boolean => !!part.billId;
+
+export const isSplitFullyInvoiced = (plan: SplitBilling): boolean => plan.parts.every(isPartInvoiced);
+
+/** Tipo de facturación del pedido completo: "Factura" si alguna parte identificó al cliente */
+export const splitBillingType = (plan: SplitBilling): 'Factura' | 'Consumidor Final' =>
+    plan.parts.every(p => p.consumidorFinal) ? 'Consumidor Final' : 'Factura';
@@ -0,0 +1,205 @@
+/**
+ * Tabla de tarifas de IVA con fecha de vigencia
+ *
+ * La tarifa general del IVA la fija la ley y cambia (12% → 15% desde el 1 de abril
+ * de 2024). Cada tramo de la tabla dice desde qué día rige una tarifa y con qué
+ * codigoPorcentaje se declara en el XML. Una factura usa la tarifa vigente en su
+ * fecha de emisión, no la que tenía el plato cuando se tomó el pedido:
+ * - Los platos con la tarifa general de un tramo anterior pasan a la vigente
+ * - Los platos con tarifa 0% (o una tarifa que no es general) no cambian
+ * La tabla se aplica solo al emitir: la factura guarda la tarifa de cada ítem y un
+ * comprobante ya emitido se regenera con esa tarifa, no con la tabla de hoy.
+ * Sin tabla configurada se usa billing.taxRate como único tramo (comportamiento anterior).
+ */
+
+import { ValidationError } from '../errors/CustomErrors';
+
+/** Tramo de la tabla: desde effectiveFrom (día en Ecuador) rige la tarifa rate */
+export interface TaxRatePeriod {
+    rate: number;          // Tarifa general del IVA (%)
+    code: string;          // codigoPorcentaje del SRI para esa tarifa
+    effectiveFrom: string; // 'YYYY-MM-DD'
+}
+
+/** codigoPorcentaje del IVA por tarifa (tabla 17 de la ficha técnica del SRI) */
+export const SRI_IVA_CODES: Record<number, string> = {
+    0: '0',
+    5: '5',
+    8: '8',
+    12: '2',
+    13: '10',
+    14: '3',
+    15: '4'
+};
+
+/** Tarifas de IVA que el SRI acepta en un plato */
+export const SRI_IVA_RATES = Object.keys(SRI_IVA_CODES).map(Number);
+
+/** Desde cuándo rige el tramo único que se arma con billing.taxRate */
+const LEGACY_EFFECTIVE_FROM = '2000-01-01';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/** Día de una fecha en Ecuador ('YYYY-MM-DD') — el día fiscal es el ecuatoriano */
+export function ecuadorDay(date: Date): string {
+    const parts = new Intl.DateTimeFormat('es-EC', {
+        timeZone: 'America/Guayaquil', year: 'numeric', month: '2-digit', day: '2-digit'
+    }).formatToParts(date);
+    const y = parts.find(p => p.type === 'year')?.value || '';
+    const m = parts.find(p => p.type === 'month')?.value || '';
+    const d = parts.find(p => p.type === 'day')?.value || '';
+    return `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`;
+}
+
+/**
+ * Tabla de tarifas de la configuración, ordenada por vigencia.
+ * Sin tabla, un solo tramo con la tarifa configurada (o fallbackRate).
+ */
+export function taxScheduleOf(
+    billing: { taxRate?: number; taxSchedule?: TaxRatePeriod[] } | null | undefined,
+    fallbackRate: number = 15
+): TaxRatePeriod[] {
+    if (billing?.taxSchedule?.length) {
+        return [...billing.taxSchedule].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+    }
+    const rate = billing?.taxRate ?? fallbackRate;
+    return [{ rate, code: SRI_IVA_CODES[rate] ?? '0', effectiveFrom: LEGACY_EFFECTIVE_FROM }];
+}
+
+/**
+ * Tramo vigente en una fecha. Antes del primer tramo devuelve el primero: solo pasa
+ * con facturas anteriores a la tabla, porque una tabla guardada siempre tiene un
+ * tramo vigente el día que se guardó (normalizeTaxSchedule).
+ */
+export function taxPeriodOn(schedule: TaxRatePeriod[], date: Date = new Date()): TaxRatePeriod {
+    const day = ecuadorDay(date);
+    return schedule.reduce(
+        (current, period) => period.effectiveFrom <= day ? period : current,
+        schedule[0]
+    );
+}
+
+/** Tramos que ya regían en una fecha (al menos el primero): los programados después no la afectan */
+export function taxScheduleUntil(schedule: TaxRatePeriod[], date: Date = new Date()): TaxRatePeriod[] {
+    const day = ecuadorDay(date);
+    const started = schedule.filter(period => period.effectiveFrom <= day);
+    return started.length ? started : schedule.slice(0, 1);
+}
+
+/** Días en Ecuador [from, to): sin from desde el principio, sin to hasta hoy */
+export interface TaxDayRange {
+    from?: string;
+    to?: string;
+}
+
+/**
+ * Días ya transcurridos en que dos tablas no aplican el mismo tramo (tarifa y código).
+ * Los comprobantes emitidos esos días dependen del tramo de la tabla actual.
+ */
+export function changedTaxDays(current: TaxRatePeriod[], next: TaxRatePeriod[], today: Date = new Date()): TaxDayRange[] {
+    const day = ecuadorDay(today);
+    const periodOn = (schedule: TaxRatePeriod[], from: string) =>
+        schedule.reduce((found, period) => period.effectiveFrom <= from ? period : found, schedule[0]);
+    // Cada inicio de tramo que ya pasó parte los días; '' es antes del primer tramo
+    const starts = ['', ...Array.from(new Set([...current, ...next].map(p => p.effectiveFrom)))
+        .filter(from => from <= day)
+        .sort()];
+
+    return starts
+        .map((from, i): TaxDayRange => ({ from: from || undefined, to: starts[i + 1] }))
+        .filter(range => {
+            const before = periodOn(current, range.from || '');
+            const after = periodOn(next, range.from || '');
+            return before?.rate !== after?.rate || before?.code !== after?.code;
+        });
+}
+
+/** Tarifa general del IVA vigente en una fecha según la configuración */
+export function generalTaxRate(
+    billing: { taxRate?: number; taxSchedule?: TaxRatePeriod[] } | null | undefined,
+    date: Date = new Date()
+): number {
+    return taxPeriodOn(taxScheduleOf(billing), date).rate;
+}
+
+/** Próximo tramo programado después de una fecha (null si no hay) */
+export function nextTaxPeriod(schedule: TaxRatePeriod[], date: Date = new Date()): TaxRatePeriod | null {
+    const day = ecuadorDay(date);
+    return schedule.find(period => period.effectiveFrom > day) || null;
+}
+
+/** codigoPorcentaje de una tarifa según la tabla (undefined si la tabla no la tiene) */
+export function codeForRate(rate: number, schedule: TaxRatePeriod[]): string | undefined {
+    const matches = schedule.filter(period => period.rate === rate);
+    return matches.length ? matches[matches.length - 1].code : undefined;
+}
+
+/**
+ * Tarifa de un plato en una fecha: si tiene la tarifa general de otro tramo,
+ * pasa a la vigente. El 0% y las tarifas que no son generales no cambian.
+ */
+export function effectiveItemRate(itemRate: number, schedule: TaxRatePeriod[], date: Date = new Date()): number {
+    const current = taxPeriodOn(schedule, date);
+    if (itemRate === current.rate || itemRate <= 0) return itemRate;
+    return schedule.some(period => period.rate === itemRate) ? current.rate : itemRate;
+}
+
+/** Ítems con la tarifa vigente en la fecha de emisión (los demás campos no cambian) */
+export function applyTaxSchedule<T extends { taxRate?: number }>(items: T[], schedule: TaxRatePeriod[], date: Date = new Date()): T[] {
+    return items.map(item => {
+        if (item.taxRate === undefined || item.taxRate === null) return item;
+        const taxRate = effectiveItemRate(item.taxRate, schedule, date);
+        return taxRate === item.taxRate ? item : { ...item, taxRate };
+    });
+}
+
+/** Precio con IVA que mantiene la misma base al pasar de una tarifa a otra */
+export function repricedPrice(price: number, fromRate: number, toRate: number): number {
+    return round2(price / (1 + fromRate / 100) * (1 + toRate / 100));
+}
+
+/**
+ * Valida y normaliza la tabla que llega de la configuración.
+ * El código del SRI es opcional si la tarifa está en la ficha técnica.
+ * @throws ValidationError si un tramo no es válido, dos tramos empiezan el mismo día
+ * o ningún tramo rige hoy (todos programados a futuro)
+ */
+export function normalizeTaxSchedule(input: unknown, today: Date = new Date()): TaxRatePeriod[] {
+    if (!Array.isArray(input)) {
+        throw new ValidationError('La tabla de tarifas de IVA debe ser una lista', { field: 'billing.taxSchedule' });
+    }
+
+    const schedule = input.map((raw: any, index: number): TaxRatePeriod => {
+        const rate = Number(raw?.rate);
+        if (raw?.rate === null || raw?.rate === '' || !Number.isFinite(rate) || rate < 0 || rate > 100) {
+            throw new ValidationError(`Tarifa de IVA inválida en el tramo ${index + 1}`, { field: 'billing.taxSchedule' });
+        }
+        const effectiveFrom = String(raw?.effectiveFrom || '').slice(0, 10);
+        if (!ISO_DATE.test(effectiveFrom) || isNaN(new Date(`${effectiveFrom}T12:00:00-05:00`).getTime())) {
+            throw new ValidationError(`Fecha de vigencia inválida en el tramo ${index + 1}`, { field: 'billing.taxSchedule' });
+        }
+        const code = String(raw?.code ?? '').trim() || SRI_IVA_CODES[rate];
+        if (!code || !/^\d{1,4}$/.test(code)) {
+            throw new ValidationError(
+                `La tarifa ${rate}% del tramo ${index + 1} no tiene código del SRI (codigoPorcentaje)`,
+                { field: 'billing.taxSchedule' }
+            );
+        }
+        return { rate, code, effectiveFrom };
+    }).sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+
+    const repeated = schedule.find((period, i) => i > 0 && schedule[i - 1].effectiveFrom === period.effectiveFrom);
+    if (repeated) {
+        throw new ValidationError(`Dos tramos de IVA empiezan el ${repeated.effectiveFrom}`, { field: 'billing.taxSchedule' });
+    }
+    // Sin tramo vigente, taxPeriodOn facturaría hoy con una tarifa que aún no rige
+    if (schedule.length && schedule[0].effectiveFrom > ecuadorDay(today)) {
+        throw new ValidationError(
+            `La tabla de tarifas de IVA no tiene un tramo vigente hoy: el primero rige desde el ${schedule[0].effectiveFrom}`,
+            { field: 'billing.taxSchedule' }
+        );
+    }
+    return schedule;
+}
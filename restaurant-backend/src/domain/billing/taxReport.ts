@@ -0,0 +1,67 @@
+/**
+ * Reglas compartidas de los reportes tributarios mensuales (Formulario 104, ATS)
+ *
+ * Los precios del sistema INCLUYEN IVA: la base imponible se extrae del total
+ * de cada ítem, y el mes de un comprobante es el de la fecha en Ecuador.
+ */
+
+const r2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Desglose de un documento por tarifa de IVA a partir de sus ítems */
+export interface TaxBreakdown {
+    base0: number;
+    base15: number;
+    iva: number;
+    total: number;
+}
+
+/**
+ * Calcula base 0%, base gravada e IVA desde los ítems del documento.
+ * Los precios del sistema INCLUYEN IVA (total-driven): la base se extrae del total.
+ */
+export function computeBreakdown(items: any[]): TaxBreakdown {
+    let base0 = 0, base15 = 0, iva = 0;
+
+    for (const item of items || []) {
+        const totalInclusive = (item.total !== undefined && item.total !== null)
+            ? item.total
+            : (item.price || 0) * (item.quantity || 1);
+        const rate = (item.taxRate !== undefined && item.taxRate !== null) ? item.taxRate : 15;
+
+        if (rate === 0) {
+            base0 += totalInclusive;
+        } else {
+            const base = totalInclusive / (1 + rate / 100);
+            base15 += base;
+            iva += totalInclusive - base;
+        }
+    }
+
+    return { base0: r2(base0), base15: r2(base15), iva: r2(iva), total: r2(base0 + base15 + iva) };
+}
+
+/** Mes de un documento en zona horaria Ecuador ('YYYY-MM') — el día fiscal es el ecuatoriano */
+export function monthKeyEcuador(dateStr: string | Date): string {
+    const d = dateStr instanceof Date ? dateStr : new Date(dateStr);
+    if (isNaN(d.getTime())) return '';
+    // GOTCHA Intl: si se pide solo año+mes, el 'month: 2-digit' se IGNORA y sale
+    // sin cero ('2026-7') — incluir day fuerza el patrón completo con padding.
+    // padStart de respaldo por si algún runtime/locale igual lo devuelve sin cero.
+    const parts = new Intl.DateTimeFormat('es-EC', {
+        timeZone: 'America/Guayaquil', year: 'numeric', month: '2-digit', day: '2-digit'
+    }).formatToParts(d);
+    const y = parts.find(p => p.type === 'year')?.value || '';
+    const m = parts.find(p => p.type === 'month')?.value || '';
+    return `${y}-${m.padStart(2, '0')}`;
+}
+
+/**
+ * Mes fiscal en Ecuador como rango de instantes [from, to): Ecuador es UTC-5 todo
+ * el año, así que el mes empieza el día 1 a las 05:00 UTC
+ */
+export function monthRangeEcuador(year: number, month: number): { from: Date; to: Date } {
+    return {
+        from: new Date(Date.UTC(year, month - 1, 1, 5)),
+        to: new Date(Date.UTC(year, month, 1, 5))
+    };
+}
@@ -0,0 +1,77 @@
+/**
+ * Reglas de la propina de una factura (campo <propina> del SRI)
+ *
+ * La propina no es parte de la venta: no paga IVA, no entra en totalSinImpuestos
+ * y se suma aparte en importeTotal. Puede ser:
+ * - SERVICE_CHARGE: cargo por servicio, un porcentaje de la base sin IVA (ej. 10% en el local)
+ * - AMOUNT: monto libre que deja el cliente
+ */
+
+import { ValidationError } from '../errors/CustomErrors';
+
+export type TipType = 'SERVICE_CHARGE' | 'AMOUNT';
+
+/** Propina pedida al facturar: value es el porcentaje (SERVICE_CHARGE) o el monto en dólares (AMOUNT) */
+export interface TipRequest {
+    type: TipType;
+    value?: number;
+    employee?: string; // A quién le corresponde (por defecto quien tomó el pedido)
+}
+
+/** Propina guardada en la factura */
+export interface BillTip {
+    type: TipType;
+    value: number;
+    amount: number; // Monto de la propina en dólares (va a <propina>)
+    employee?: string;
+}
+
+/** Cargo por servicio cuando la configuración no define otro */
+export const DEFAULT_SERVICE_CHARGE_RATE = 10;
+
+const TIP_TYPES = ['SERVICE_CHARGE', 'AMOUNT'];
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Valida la propina y calcula su monto.
+ * @param base total sin impuestos de la factura (base del cargo por servicio)
+ * @param defaultRate porcentaje configurado, para un cargo por servicio sin valor
+ * @returns undefined si no hay propina (o es 0)
+ * @throws ValidationError si el tipo o el valor no son válidos
+ */
+export function resolveTip(
+    tip: TipRequest | null | undefined,
+    base: number,
+    defaultRate: number = DEFAULT_SERVICE_CHARGE_RATE
+): BillTip | undefined {
+    if (!tip) return undefined;
+    if (!TIP_TYPES.includes(tip.type)) {
+        throw new ValidationError('Tipo de propina inválido', { field: 'tip.type' });
+    }
+
+    const value = tip.value ?? (tip.type === 'SERVICE_CHARGE' ? defaultRate : 0);
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        throw new ValidationError('La propina no puede ser negativa', { field: 'tip.value' });
+    }
+    if (tip.type === 'SERVICE_CHARGE' && value > 100) {
+        throw new ValidationError('El cargo por servicio no puede superar el 100%', { field: 'tip.value' });
+    }
+
+    const amount = round2(tip.type === 'SERVICE_CHARGE' ? base * value / 100 : value);
+    if (amount <= 0) return undefined;
+
+    const employee = String(tip.employee || '').trim();
+    return { type: tip.type, value, amount, ...(employee ? { employee } : {}) };
+}
+
+/** Monto de la propina de una factura guardada (0 si no tiene) */
+export const tipAmount = (bill: { tip?: BillTip | null }): number => bill.tip?.amount || 0;
+
+/** Propinas facturadas en un rango: por día (zona horaria del local) y por empleado */
+export interface TipStats {
+    count: number;
+    total: number;
+    byDay: { date: string; count: number; total: number }[];
+    byEmployee: { employee: string; count: number; total: number }[];
+}
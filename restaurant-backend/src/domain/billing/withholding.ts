@@ -0,0 +1,108 @@
+/**
+ * Reglas de los comprobantes de retención RECIBIDOS (codDoc 07)
+ *
+ * Los clientes que son agentes de retención nos entregan una retención de IVA
+ * y/o renta sobre nuestras facturas. El restaurante no la emite: solo la
+ * registra, la enlaza a la factura y descuenta lo retenido del valor a cobrar.
+ */
+
+import { ValidationError } from '../errors/CustomErrors';
+
+/** Impuesto retenido: el SRI usa codigo 1 = renta, 2 = IVA */
+export type WithholdingTaxType = 'IVA' | 'RENTA';
+
+export const WITHHOLDING_TAX_CODES: Record<string, WithholdingTaxType> = {
+    '1': 'RENTA',
+    '2': 'IVA'
+};
+
+/** Porcentajes de retención de IVA vigentes (Resolución NAC-DGERCGC20-00000061) */
+export const IVA_WITHHOLDING_PERCENTAGES = [10, 20, 30, 50, 70, 100];
+
+/** Tolerancia de montos: un centavo (el agente redondea por línea) */
+const AMOUNT_TOLERANCE = 0.01;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/** Una línea <impuesto>/<retencion> del comprobante */
+export interface WithholdingLine {
+    taxType: WithholdingTaxType;
+    /** codigoRetencion del catálogo SRI (ej. 303, 312 en renta; 1, 2, 3, 9, 10 en IVA) */
+    code: string;
+    baseAmount: number;
+    percentage: number;
+    amount: number;
+}
+
+/** Datos que trae un comprobante de retención XML recibido */
+export interface ReceivedWithholdingDocument {
+    /** 001-001-000000045 */
+    documentNumber: string;
+    accessKey?: string;
+    authorizationNumber?: string;
+    authorizationDate?: string;
+    /** dd/mm/yyyy tal como viene en el XML */
+    issueDate: string;
+    /** MM/YYYY */
+    fiscalPeriod: string;
+    agentIdentification: string;
+    agentName: string;
+    /** Identificación del sujeto retenido — debe ser el RUC del restaurante */
+    subjectIdentification: string;
+    /** Número de la factura retenida (001-001-000000120) */
+    supportDocumentNumber: string;
+    lines: WithholdingLine[];
+}
+
+export interface WithholdingTotals {
+    ivaWithheld: number;
+    rentaWithheld: number;
+    totalWithheld: number;
+}
+
+/**
+ * Valida las líneas y, si falta el valor retenido, lo calcula desde base × porcentaje.
+ * @throws ValidationError con el primer problema encontrado
+ */
+export function normalizeWithholdingLines(lines: Partial<WithholdingLine>[] | undefined): WithholdingLine[] {
+    if (!Array.isArray(lines) || lines.length === 0) {
+        throw new ValidationError('La retención debe tener al menos un impuesto retenido', { field: 'lines' });
+    }
+
+    return lines.map((line, index) => {
+        const taxType = line.taxType;
+        const baseAmount = round2(Number(line.baseAmount));
+        const percentage = Number(line.percentage);
+        const expected = round2(baseAmount * percentage / 100);
+        const amount = line.amount === undefined || line.amount === null ? expected : round2(Number(line.amount));
+
+        if (taxType !== 'IVA' && taxType !== 'RENTA') {
+            throw new ValidationError(`Línea ${index + 1}: solo se registran retenciones de IVA o renta`, { field: 'lines', index });
+        }
+        if (!Number.isFinite(baseAmount) || baseAmount <= 0) {
+            throw new ValidationError(`Línea ${index + 1}: la base imponible debe ser mayor a cero`, { field: 'lines', index });
+        }
+        if (!Number.isFinite(percentage) || percentage <= 0 || percentage > 100) {
+            throw new ValidationError(`Línea ${index + 1}: porcentaje de retención inválido`, { field: 'lines', index });
+        }
+        if (taxType === 'IVA' && !IVA_WITHHOLDING_PERCENTAGES.includes(percentage)) {
+            throw new ValidationError(`Línea ${index + 1}: la retención de IVA solo admite ${IVA_WITHHOLDING_PERCENTAGES.join('%, ')}%`, { field: 'lines', index });
+        }
+        if (!Number.isFinite(amount) || Math.abs(amount - expected) > AMOUNT_TOLERANCE) {
+            throw new ValidationError(`Línea ${index + 1}: el valor retenido no cuadra con base × porcentaje ($${expected.toFixed(2)})`, { field: 'lines', index });
+        }
+
+        return { taxType, code: String(line.code || '').trim(), baseAmount, percentage, amount };
+    });
+}
+
+export function summarizeWithholdingLines(lines: WithholdingLine[]): WithholdingTotals {
+    const ivaWithheld = round2(lines.filter(l => l.taxType === 'IVA').reduce((sum, l) => sum + l.amount, 0));
+    const rentaWithheld = round2(lines.filter(l => l.taxType === 'RENTA').reduce((sum, l) => sum + l.amount, 0));
+    return { ivaWithheld, rentaWithheld, totalWithheld: round2(ivaWithheld + rentaWithheld) };
+}
+
+/** Valor que el cliente efectivamente paga: total de la factura menos lo retenido */
+export function netCollectable(total: number, withheldIva: number = 0, withheldRenta: number = 0): number {
+    return round2(total - withheldIva - withheldRenta);
+}
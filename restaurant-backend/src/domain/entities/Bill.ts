@@ -19,12 +19,28 @@
  * @layer Domain - Entidad pura sin dependencias externas
  */
 
+import { EmailDelivery } from '../billing/emailDelivery';
+import { BillTip } from '../billing/tips';
+
 export interface BillItem {
     name: string;
     quantity: number;
     price: number;
     total: number;
     taxRate?: number;  // Tasa de IVA por item (0, 5, 12, 15) - default 15
+    discountAmount?: number; // Descuento de la línea con IVA (total ya lo tiene restado)
+}
+
+/** Pago aplicado a la factura: una factura puede cobrarse con varias formas de pago */
+export interface BillPayment {
+    /** Código SRI de forma de pago (01 efectivo, 16 débito, 19 crédito, 20 transferencia...) */
+    method: string;
+    /** Monto aplicado a la factura */
+    amount: number;
+    /** Plazo en días (0 = contado) */
+    term?: number;
+    /** Solo efectivo: monto entregado por el cliente, para calcular el cambio */
+    received?: number;
 }
 
 /** Registro de un intento fallido de envío al SRI */
@@ -70,6 +86,20 @@ export class Bill {
         public readonly lastRetryDate?: string,
         public readonly createdAt?: Date,
         /** Historial completo de errores — nunca se sobreescribe, solo se acumula */
-        public readonly errorLog?: BillErrorEntry[]
+        public readonly errorLog?: BillErrorEntry[],
+        /** Parte de una cuenta dividida (1..N); undefined si la factura cubre todo el pedido */
+        public readonly splitPart?: number,
+        /** Formas de pago; la suma de los montos es el total de la factura */
+        public readonly payments?: BillPayment[],
+        /** IVA que el cliente (agente de retención) retuvo sobre esta factura */
+        public readonly withheldIva?: number,
+        /** Impuesto a la renta retenido por el cliente */
+        public readonly withheldRenta?: number,
+        /** Resultado del último envío de la factura por email */
+        public readonly emailDelivery?: EmailDelivery,
+        /** Pedidos que cubre una factura consolidada (orderId es el primero); undefined si cubre uno solo */
+        public readonly orderIds?: string[],
+        /** Propina o cargo por servicio: fuera de la base de IVA, incluida en total */
+        public readonly tip?: BillTip
     ) { }
 }
@@ -0,0 +1,100 @@
+/**
+ * @file CashSession.ts
+ * @description Entidad de dominio que representa una sesión de caja (apertura → cierre)
+ *
+ * @purpose
+ * Una sesión de caja pertenece a un empleado y a un punto de emisión (estab-ptoEmi).
+ * Se abre con un fondo inicial, registra ingresos/egresos manuales (caja chica,
+ * devoluciones por notas de crédito) y se cierra con el efectivo contado. Las ventas
+ * del periodo salen de las facturas del punto de emisión emitidas durante la sesión.
+ *
+ * @connections
+ * - Usado por: ICashSessionRepository (domain/repositories)
+ * - Usado por: MongoCashSessionRepository (infrastructure/repositories)
+ * - Usado por: CashSessionSchema (infrastructure/database/schemas)
+ * - Usado por: OpenCashSession, CloseCashSession, etc. (application/use-cases/cash)
+ * - Usado por: summarizeCashSession (domain/billing/cashSession)
+ * - Relacionado con: Bill entity (ventas por forma de pago)
+ * - Relacionado con: CreditNote entity (devoluciones en efectivo)
+ *
+ * @layer Domain - Entidad pura sin dependencias externas
+ */
+
+export type CashSessionStatus = 'open' | 'closed';
+
+/** in = ingreso a caja, out = egreso de caja */
+export type CashMovementType = 'in' | 'out';
+
+export interface CashSessionUser {
+    userId: string;
+    username: string;
+}
+
+export interface CashMovement {
+    id: string;
+    type: CashMovementType;
+    amount: number;
+    reason: string;
+    /** Nota de crédito devuelta en efectivo (solo egresos) */
+    creditNoteId?: string;
+    createdBy: CashSessionUser;
+    createdAt: Date;
+}
+
+/** Ventas del periodo agrupadas por forma de pago SRI */
+export interface CashPaymentTotal {
+    method: string;
+    label: string;
+    /** Facturas que incluyen esta forma de pago */
+    count: number;
+    amount: number;
+}
+
+export interface CashSessionSummary {
+    billCount: number;
+    salesTotal: number;
+    paymentTotals: CashPaymentTotal[];
+    cashSales: number;
+    cashIn: number;
+    cashOut: number;
+    /** Fondo inicial + ventas en efectivo + ingresos - egresos */
+    expectedCash: number;
+}
+
+export interface CashSession {
+    id: string;
+    estab: string;
+    ptoEmi: string;
+    status: CashSessionStatus;
+    openedBy: CashSessionUser;
+    openedAt: Date;
+    openingFloat: number;
+    movements: CashMovement[];
+    closedBy?: CashSessionUser;
+    closedAt?: Date;
+    countedCash?: number;
+    /** Sobrante (+) o faltante (-) de efectivo al cierre */
+    difference?: number;
+    /** Resumen congelado al cierre (reporte Z) */
+    summary?: CashSessionSummary;
+    notes?: string;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export interface OpenCashSessionDTO {
+    estab: string;
+    ptoEmi: string;
+    openedBy: CashSessionUser;
+    openingFloat: number;
+}
+
+export interface CloseCashSessionDTO {
+    closedBy: CashSessionUser;
+    /** Fin del periodo usado para el resumen */
+    closedAt: Date;
+    countedCash: number;
+    difference: number;
+    summary: CashSessionSummary;
+    notes?: string;
+}
@@ -27,6 +27,7 @@ export interface Category {
     visibleOnWebsite: boolean;
     sortOrder: number;
     available: boolean;
+    stationId?: string | null; // Estación de cocina de los platos de la categoría
     createdAt?: Date;
     updatedAt?: Date;
 }
@@ -39,6 +40,7 @@ export interface CreateCategoryDTO {
     visibleOnWebsite?: boolean;
     sortOrder?: number;
     available?: boolean;
+    stationId?: string | null;
 }
 
 export interface UpdateCategoryDTO {
@@ -49,6 +51,7 @@ export interface UpdateCategoryDTO {
     visibleOnWebsite?: boolean;
     sortOrder?: number;
     available?: boolean;
+    stationId?: string | null;
 }
 
 export interface ReorderCategoryDTO {
@@ -17,6 +17,8 @@
  * @layer Domain - Entidad pura sin dependencias externas
  */
 
+import { EmailDelivery } from '../billing/emailDelivery';
+
 export interface CreditNoteItem {
     name: string;
     quantity: number;
@@ -65,6 +67,8 @@ export class CreditNote {
         public readonly errorLog?: CreditNoteErrorEntry[],
         /** Número de la factura original (numDocModificado, ej. 002-001-000000123).
          *  Se resuelve vía populate de billId al listar — no está persistido en la NC. */
-        public readonly billDocumentNumber?: string
+        public readonly billDocumentNumber?: string,
+        /** Resultado del último envío de la nota de crédito por email */
+        public readonly emailDelivery?: EmailDelivery
     ) { }
 }
@@ -0,0 +1,78 @@
+/**
+ * @file DebitNote.ts
+ * @description Entidad de dominio que representa una Nota de Débito (codDoc 05)
+ *
+ * @purpose
+ * Cobra al cliente valores adicionales sobre una factura ya AUTORIZADA:
+ * intereses de cuentas a crédito, recargos por entrega tardía o reposición de
+ * artículos dañados. Guarda los datos de la factura que modifica (para reenviar
+ * y generar el RIDE sin consultarla), los cargos, el estado SRI y el XML firmado.
+ *
+ * @connections
+ * - Usado por: IDebitNoteRepository (domain/repositories)
+ * - Usado por: MongoDebitNoteRepository (infrastructure/repositories)
+ * - Usado por: DebitNoteSchema (infrastructure/database/schemas)
+ * - Usado por: Debit note use cases (application/use-cases/debit-notes)
+ * - Relacionado con: Bill entity (la ND modifica una factura)
+ *
+ * @layer Domain - Entidad pura sin dependencias externas
+ */
+
+/** Cargo cobrado en la nota de débito (un <motivo> del comprobante) */
+export interface DebitNoteItem {
+    /** Código del motivo (01-04, ver DEBIT_NOTE_REASONS) */
+    reason: string;
+    /** Texto que se envía como <razon> */
+    description: string;
+    /** Valor del cargo SIN IVA */
+    amount: number;
+    taxRate: number;
+    tax: number;
+    /** Valor con IVA — mismo criterio que los ítems de factura para el reporte mensual */
+    total: number;
+}
+
+/** Registro de un intento fallido de envío al SRI */
+export interface DebitNoteErrorEntry {
+    timestamp: string;
+    sriStatus: string;
+    message: string;
+    attempt: number;
+}
+
+export interface DebitNote {
+    id: string;
+    documentNumber: string; // 001-001-000000001
+    /** Fecha de emisión (ISO) — la fecha SRI dd/mm/aaaa se deriva en hora de Ecuador */
+    date: string;
+    billId: string;
+    /** Número de la factura modificada (numDocModificado) */
+    billDocumentNumber: string;
+    /** Fecha de emisión de la factura modificada (fechaEmisionDocSustento) */
+    billDate: string;
+    originalAccessKey: string;
+    customerName: string;
+    customerIdentification: string;
+    customerAddress?: string;
+    customerEmail?: string;
+    items: DebitNoteItem[];
+    /** Código SRI de la forma de pago (tabla 24) */
+    paymentMethod: string;
+    subtotal: number;
+    tax: number;
+    total: number;
+    accessKey?: string;
+    sriStatus?: string; // BORRADOR, ENVIANDO, RECIBIDA, AUTORIZADO, DEVUELTA, ERROR...
+    environment?: string; // '1' (pruebas) o '2' (producción)
+    authorizationDate?: string;
+    /** XML firmado tal como se envió al SRI */
+    xmlContent?: string;
+    sriMessage?: string;
+    /** Historial completo de errores — nunca se sobreescribe */
+    errorLog?: DebitNoteErrorEntry[];
+    createdBy?: string;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export type CreateDebitNoteDTO = Omit<DebitNote, 'id' | 'createdAt' | 'updatedAt'>;
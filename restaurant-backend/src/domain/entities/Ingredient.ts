@@ -0,0 +1,84 @@
+/**
+ * @file Ingredient.ts
+ * @description Entidades de dominio del inventario: ingredientes y movimientos de stock
+ *
+ * @purpose
+ * Un ingrediente (chivo, camarón, limón...) tiene una unidad y un stock actual.
+ * Las recetas de los platos (MenuItem.recipe) indican cuánto de cada ingrediente
+ * consume una porción; los pedidos descuentan ese consumo y cada cambio de stock
+ * queda en el kardex (StockMovement) con su origen.
+ *
+ * @connections
+ * - Usado por: IIngredientRepository, IStockMovementRepository (domain/repositories)
+ * - Usado por: MongoIngredientRepository, MongoStockMovementRepository (infrastructure/repositories)
+ * - Usado por: InventoryService (application/services)
+ * - Usado por: Inventory use cases (application/use-cases/inventory)
+ * - Relacionado con: MenuItem.recipe, Order.stockDeduction
+ *
+ * @layer Domain - Entidad pura sin dependencias externas
+ */
+
+export type IngredientUnit = 'kg' | 'g' | 'l' | 'ml' | 'unidad';
+
+export interface Ingredient {
+    id: string;
+    name: string;
+    unit: IngredientUnit;
+    /** Stock actual en la unidad del ingrediente (puede quedar negativo si se vendió sin registrar compras) */
+    stock: number;
+    /** Umbral de alerta: al llegar a este nivel se avisa al personal (0 = sin alerta) */
+    minStock: number;
+    /** Costo por unidad, referencial */
+    cost?: number;
+    active: boolean;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+/**
+ * Origen del movimiento:
+ * - sale: consumo por un pedido
+ * - reversal: devolución por cancelación, edición del pedido o nota de crédito
+ * - purchase: compra / ingreso de mercadería
+ * - adjustment: conteo físico (diferencia contra el sistema)
+ * - waste: merma (se dañó, se botó)
+ */
+export type StockMovementType = 'sale' | 'reversal' | 'purchase' | 'adjustment' | 'waste';
+
+export interface StockMovementReference {
+    kind: 'order' | 'creditNote';
+    id: string;
+    /** Número visible (pedido #012, NC 001-001-000000005) */
+    label?: string;
+}
+
+export interface StockMovement {
+    id: string;
+    ingredientId: string;
+    ingredientName: string;
+    unit: IngredientUnit;
+    type: StockMovementType;
+    /** Positivo = entra al stock, negativo = sale */
+    quantity: number;
+    stockAfter: number;
+    reference?: StockMovementReference | null;
+    reason?: string;
+    createdBy?: string | null;
+    createdAt: Date;
+}
+
+/** Cantidad de un ingrediente consumida (por receta o descontada a un pedido) */
+export interface IngredientQuantity {
+    ingredientId: string;
+    quantity: number;
+}
+
+export interface CreateIngredientDTO {
+    name: string;
+    unit: IngredientUnit;
+    stock: number;
+    minStock: number;
+    cost?: number;
+}
+
+export type UpdateIngredientDTO = Partial<Omit<CreateIngredientDTO, 'stock'>> & { active?: boolean };
@@ -18,6 +18,32 @@
  */
 
 import { Category } from './Category';
+import { IngredientQuantity } from './Ingredient';
+
+/**
+ * Tipo de grupo de modificadores:
+ * - size: tamaño / variante (ej. Pequeño, Grande)
+ * - side: acompañante a elegir (ej. arroz blanco, arroz relleno)
+ * - extra: adicional con recargo (ej. + chifles)
+ * - removal: ingrediente que se quita (ej. sin cebolla)
+ */
+export type ModifierGroupType = 'size' | 'side' | 'extra' | 'removal';
+
+export interface ModifierOption {
+    id: string;
+    name: string;
+    priceDelta: number; // Recargo (o descuento si es negativo) sobre el precio del plato, con IVA
+    available?: boolean;
+}
+
+export interface ModifierGroup {
+    id: string;
+    name: string; // Ej. "Tamaño", "Acompañante"
+    type: ModifierGroupType;
+    minChoices: number; // > 0 = obligatorio
+    maxChoices: number;
+    options: ModifierOption[];
+}
 
 export interface MenuItem {
     id: string;
@@ -30,4 +56,7 @@ export interface MenuItem {
     categoryData?: Category; // Populated category data
     available: boolean;
     taxRate: number; // Porcentaje de IVA individual (0, 5, 12, 15). Default: 15
+    modifierGroups?: ModifierGroup[]; // Tamaños, acompañantes, extras y exclusiones
+    stationId?: string | null; // Estación de cocina; sin valor se usa la de la categoría
+    recipe?: IngredientQuantity[]; // Ingredientes que consume UNA porción (en la unidad de cada ingrediente)
 }
@@ -17,10 +17,56 @@
  * @layer Domain - Entidad pura sin dependencias externas
  */
 
+import { ModifierGroupType } from './MenuItem';
+import { IngredientQuantity } from './Ingredient';
+
 export enum OrderStatus {
     New = 'Nuevo',
+    InPreparation = 'En Preparación',
     Ready = 'Listo',
+    Delivered = 'Entregado',
     Completed = 'Completado',
+    Cancelled = 'Cancelado',
+}
+
+/** Entrada del historial de estados del pedido */
+export interface OrderStatusChange {
+    status: OrderStatus;
+    at: Date;
+    by?: string | null; // Usuario que hizo el cambio (null = automático)
+    reason?: string;    // Motivo (obligatorio al cancelar)
+}
+
+/** Datos de la cancelación: el pedido se conserva para auditoría y estadísticas */
+export interface OrderCancellation {
+    reason: string;
+    by: string;
+    at: Date;
+}
+
+/**
+ * Descuento autorizado sobre una línea o sobre todo el pedido
+ * - PERCENTAGE: value es el porcentaje (0-100)
+ * - AMOUNT: value es el monto en dólares, con IVA incluido
+ */
+export type DiscountType = 'PERCENTAGE' | 'AMOUNT';
+
+export interface OrderDiscount {
+    type: DiscountType;
+    value: number;
+    reason: string;
+    authorizedBy?: string; // Usuario que lo aplicó (lo escribe el servidor)
+    authorizedAt?: Date;
+    amount?: number; // Monto descontado con IVA (lo calcula el servidor)
+}
+
+/** Modificador elegido para una línea (copia del menú al momento del pedido) */
+export interface OrderItemModifier {
+    groupId?: string;
+    groupName: string;
+    type: ModifierGroupType;
+    name: string;
+    priceDelta: number; // Ya incluido en OrderItem.price
 }
 
 export interface OrderItem {
@@ -31,6 +77,37 @@ export interface OrderItem {
     taxRate?: number; // IVA individual del producto (0, 5, 12, 15)
     notes?: string; // Nota para la cocina (ej. "sin cebolla", "arroz relleno en vez de blanco")
     originalPrice?: number; // Precio original del menú cuando el cajero ajusta el precio de la línea
+    discount?: OrderDiscount | null; // Descuento de la línea
+    modifiers?: OrderItemModifier[]; // Tamaño, acompañantes, extras y exclusiones elegidos
+    station?: string | null; // Estación de cocina que lo prepara (null = general)
+}
+
+/**
+ * División de cuenta: cómo se reparten los ítems entre varias facturas
+ * - items: cada ítem completo va a una parte
+ * - quantity: las unidades de un ítem se reparten entre partes
+ * - even: todo se divide en partes iguales entre N personas
+ */
+export type SplitBillMode = 'items' | 'quantity' | 'even';
+
+export interface SplitBillItem extends OrderItem {
+    id?: string; // ID del plato: de él sale el codigoPrincipal SRI
+    total: number; // Total con IVA de la porción asignada a esta parte
+}
+
+export interface SplitBillPart {
+    part: number; // 1..N
+    items: SplitBillItem[];
+    total: number;
+    billId?: string | null; // Factura emitida para esta parte
+    documentNumber?: string | null;
+    consumidorFinal?: boolean;
+    invoicedAt?: Date | null;
+}
+
+export interface SplitBilling {
+    mode: SplitBillMode;
+    parts: SplitBillPart[];
 }
 
 export interface Order {
@@ -40,10 +117,22 @@ export interface Order {
     type: 'En Local' | 'Delivery' | 'Para Llevar';
     status: OrderStatus;
     createdAt: Date;
+    updatedAt?: Date; // Versión del pedido: detecta ediciones sin conexión que llegan tarde
     readyAt?: Date | null;
     estimatedMinutes?: number | null;
     estimateSetAt?: Date | null;
     billed?: boolean;
     billingType?: 'Factura' | 'Consumidor Final' | 'Sin Factura';
     orderNumber?: string;
+    tableId?: string | null; // Mesa asignada (solo pedidos 'En Local')
+    discount?: OrderDiscount | null; // Descuento de todo el pedido (se prorratea entre las líneas)
+    splitBilling?: SplitBilling | null; // Plan de cuenta dividida (una factura por parte)
+    statusHistory?: OrderStatusChange[]; // Cambios de estado con fecha y usuario
+    cancellation?: OrderCancellation | null;
+    /** Ingredientes ya descontados del inventario por este pedido (lo escribe InventoryService) */
+    stockDeduction?: IngredientQuantity[];
+    /** ID generado por el POS al crear el pedido: un reenvío sin conexión no lo duplica */
+    clientRequestId?: string | null;
+    /** Última edición sin conexión aplicada (reintentar la misma no la repite) */
+    lastClientUpdateId?: string | null;
 }
@@ -0,0 +1,77 @@
+/**
+ * @file PurchaseSettlement.ts
+ * @description Entidad de dominio que representa una Liquidación de Compra (codDoc 03)
+ *
+ * @purpose
+ * Comprobante que emite el restaurante al comprar a proveedores sin RUC o no
+ * obligados a facturar (agricultores, pescadores, productores de carne).
+ * Guarda los datos del proveedor, las líneas compradas, el estado SRI y el
+ * XML firmado, para poder reenviarlo o descargarlo sin reconstruirlo.
+ *
+ * @connections
+ * - Usado por: IPurchaseSettlementRepository (domain/repositories)
+ * - Usado por: MongoPurchaseSettlementRepository (infrastructure/repositories)
+ * - Usado por: PurchaseSettlementSchema (infrastructure/database/schemas)
+ * - Usado por: Purchase settlement use cases (application/use-cases/purchase-settlements)
+ *
+ * @layer Domain - Entidad pura sin dependencias externas
+ */
+
+import { SupplierIdentificationType } from '../billing/purchaseSettlement';
+
+export interface PurchaseSettlementSupplier {
+    name: string;
+    identification: string;
+    identificationType: SupplierIdentificationType;
+    address: string;
+    email?: string;
+    phone?: string;
+}
+
+export interface PurchaseSettlementItem {
+    description: string;
+    quantity: number;
+    /** Precio unitario sin IVA, tal como lo cobra el proveedor */
+    unitPrice: number;
+    /** Tarifa de IVA del bien (los productos agrícolas y del mar suelen ser 0%) */
+    taxRate: number;
+    subtotal: number;
+    tax: number;
+}
+
+/** Registro de un intento fallido de envío al SRI */
+export interface PurchaseSettlementErrorEntry {
+    timestamp: string;
+    sriStatus: string;
+    message: string;
+    attempt: number;
+}
+
+export interface PurchaseSettlement {
+    id: string;
+    documentNumber: string; // 001-001-000000001
+    /** Fecha de emisión (ISO) — la fecha SRI dd/mm/aaaa se deriva en hora de Ecuador */
+    date: string;
+    supplier: PurchaseSettlementSupplier;
+    items: PurchaseSettlementItem[];
+    /** Código SRI de la forma de pago (tabla 24): '01' efectivo, '20' transferencia... */
+    paymentMethod: string;
+    notes?: string;
+    subtotal: number;
+    tax: number;
+    total: number;
+    accessKey?: string;
+    sriStatus?: string; // BORRADOR, ENVIANDO, RECIBIDA, AUTORIZADO, DEVUELTA, ERROR...
+    environment?: string; // '1' (pruebas) o '2' (producción)
+    authorizationDate?: string;
+    /** XML firmado tal como se envió al SRI */
+    xmlContent?: string;
+    sriMessage?: string;
+    /** Historial completo de errores — nunca se sobreescribe */
+    errorLog?: PurchaseSettlementErrorEntry[];
+    createdBy?: string;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export type CreatePurchaseSettlementDTO = Omit<PurchaseSettlement, 'id' | 'createdAt' | 'updatedAt'>;
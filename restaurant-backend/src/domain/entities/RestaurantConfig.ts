@@ -5,6 +5,9 @@
  * Esta configuración es única por restaurante (singleton en BD).
  */
 
+import { TaxRatePeriod } from '../billing/taxRates';
+import { PrintLayout } from '../billing/printLayout';
+
 export interface RestaurantConfig {
     id: string;
 
@@ -48,14 +51,21 @@ export interface RestaurantConfig {
         regime: 'General' | 'RIMPE - Negocio Popular' | 'RIMPE - Emprendedor';
         agenteRetencion?: string;
         taxRate: number;               // Tarifa IVA activa (ej: 15, 12, 8, 0)
+        taxSchedule?: TaxRatePeriod[]; // Tarifas con fecha de vigencia (manda sobre taxRate si tiene tramos)
+        serviceChargeRate?: number;    // Cargo por servicio (%) sugerido en pedidos del local; 0 = no se cobra
+        printLayout?: PrintLayout;     // Plantilla del RIDE: A4 o ticket 58/80 mm, logo, QR y pie
         // Secuenciales de PRODUCCIÓN (ambiente '2')
         currentSequenceFactura: number;
         currentSequenceNotaCredito: number;
         currentSequenceNotaVenta: number;
+        currentSequenceNotaDebito?: number;
+        currentSequenceLiquidacionCompra?: number;
         // Secuenciales de PRUEBAS (ambiente '1') - separados para no afectar producción
         testSequenceFactura?: number;
         testSequenceNotaCredito?: number;
         testSequenceNotaVenta?: number;
+        testSequenceNotaDebito?: number;
+        testSequenceLiquidacionCompra?: number;
     };
 
     // Certificado Digital SRI (firma electrónica .p12)
@@ -71,11 +81,28 @@ export interface RestaurantConfig {
     // Configuración del Sitio Web Público (CMS)
     website?: WebsiteConfig;
 
+    // Estaciones de preparación de la cocina (parrilla, freidora, fríos, bar...)
+    kitchenStations?: KitchenStation[];
+
+    // Inventario: el stock se descuenta al crear el pedido o al completarlo (facturarlo)
+    inventoryDeductOn?: InventoryDeductOn;
+
     // Metadata
     createdAt?: Date;
     updatedAt?: Date;
 }
 
+export type InventoryDeductOn = 'created' | 'completed';
+
+/**
+ * Estación de preparación: cada plato se enruta a una (por categoría o por plato)
+ * y la estación marca listos solo sus ítems.
+ */
+export interface KitchenStation {
+    id: string;   // Slug estable (ej. "grill"): se guarda en los ítems de los pedidos
+    name: string; // Ej. "Parrilla"
+}
+
 /**
  * Configuración del Sitio Web Público
  */
@@ -0,0 +1,60 @@
+/**
+ * @file Table.ts
+ * @description Entidad de dominio que representa una mesa del salón
+ *
+ * @purpose
+ * Define una mesa del plano del restaurante: zona, capacidad, forma y
+ * posición en el plano. Los pedidos 'En Local' se vinculan por tableId.
+ *
+ * @connections
+ * - Usado por: ITableRepository (domain/repositories)
+ * - Usado por: MongoTableRepository (infrastructure/repositories)
+ * - Usado por: TableSchema (infrastructure/database/schemas)
+ * - Usado por: Order entity (tableId field)
+ * - Usado por: CreateTable, UpdateTable, etc. (application/use-cases/tables)
+ *
+ * @layer Domain - Entidad pura sin dependencias externas
+ */
+
+export type TableShape = 'square' | 'round' | 'rectangle';
+
+export interface TablePosition {
+    x: number; // Coordenada en el plano (unidades de la cuadrícula del editor)
+    y: number;
+}
+
+export interface Table {
+    id: string;
+    name: string;
+    zone: string;
+    seats: number;
+    shape: TableShape;
+    position: TablePosition;
+    active: boolean;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export interface CreateTableDTO {
+    name: string;
+    zone?: string;
+    seats: number;
+    shape?: TableShape;
+    position?: TablePosition;
+    active?: boolean;
+}
+
+export interface UpdateTableDTO {
+    name?: string;
+    zone?: string;
+    seats?: number;
+    shape?: TableShape;
+    position?: TablePosition;
+    active?: boolean;
+}
+
+export interface TableLayoutDTO {
+    id: string;
+    position: TablePosition;
+    zone?: string;
+}
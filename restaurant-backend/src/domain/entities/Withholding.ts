@@ -0,0 +1,54 @@
+/**
+ * @file Withholding.ts
+ * @description Entidad de dominio que representa un comprobante de retención RECIBIDO
+ *
+ * @purpose
+ * Registra las retenciones de IVA y renta que un cliente agente de retención
+ * hace sobre una factura del restaurante. Se importan desde el XML autorizado
+ * que entrega el cliente o se ingresan a mano, y quedan enlazadas a la factura
+ * para conocer el valor neto a cobrar y declararlas en el formulario 104.
+ *
+ * @connections
+ * - Usado por: IWithholdingRepository (domain/repositories)
+ * - Usado por: MongoWithholdingRepository (infrastructure/repositories)
+ * - Usado por: WithholdingSchema (infrastructure/database/schemas)
+ * - Usado por: Withholding use cases (application/use-cases/withholdings)
+ * - Relacionado con: Bill entity (la retención afecta una factura)
+ *
+ * @layer Domain - Entidad pura sin dependencias externas
+ */
+
+import { WithholdingLine } from '../billing/withholding';
+
+export interface Withholding {
+    id: string;
+    billId: string;
+    billDocumentNumber: string;
+    /** Número del comprobante de retención del agente (001-001-000000045) */
+    documentNumber: string;
+    /** Clave de acceso / número de autorización del comprobante electrónico */
+    accessKey?: string;
+    authorizationDate?: string;
+    /** Fecha de emisión de la retención (ISO) — define el mes en que se declara */
+    issueDate: string;
+    /** MM/YYYY */
+    fiscalPeriod: string;
+    agentIdentification: string;
+    agentName: string;
+    lines: WithholdingLine[];
+    ivaWithheld: number;
+    rentaWithheld: number;
+    totalWithheld: number;
+    /** 'xml' si se importó el comprobante, 'manual' si se digitó */
+    source: 'xml' | 'manual';
+    /** XML recibido, guardado tal cual para respaldo */
+    xmlContent?: string;
+    /** Ambiente de la factura retenida — el reporte mensual no mezcla pruebas y producción */
+    environment?: string;
+    notes?: string;
+    createdBy?: string;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+export type CreateWithholdingDTO = Omit<Withholding, 'id' | 'createdAt' | 'updatedAt'>;
@@ -140,6 +140,35 @@ export class ForbiddenError extends Error {
     }
 }
 
+/**
+ * ConflictError - Conflicto con el estado actual del recurso
+ * Se usa cuando el cambio se hizo sobre una versión que otro usuario ya modificó
+ * (ej. pedido editado sin conexión y sincronizado después)
+ * Código HTTP: 409 (Conflict)
+ */
+export class ConflictError extends Error {
+    public readonly code: string = 'CONFLICT';
+    public readonly statusCode: number = 409;
+    public readonly metadata?: any;
+
+    constructor(message: string, metadata?: any) {
+        super(message);
+        this.name = 'ConflictError';
+        this.metadata = metadata;
+        Object.setPrototypeOf(this, ConflictError.prototype);
+    }
+
+    toJSON() {
+        return {
+            name: this.name,
+            code: this.code,
+            message: this.message,
+            statusCode: this.statusCode,
+            metadata: this.metadata
+        };
+    }
+}
+
 /**
  * SRIError - Error relacionado con el SRI (Servicio de Rentas Internas)
  * Se usa para errores de facturación electrónica, certificados, firma digital, etc.
@@ -0,0 +1,89 @@
+/**
+ * Inventario: recetas y consumo de ingredientes
+ *
+ * Cada plato tiene una receta (ingredientes por porción). El consumo de un
+ * pedido es la suma de las recetas de sus ítems; el pedido guarda lo que ya se
+ * descontó, así una edición o una cancelación solo mueve la diferencia.
+ */
+
+import { Ingredient, IngredientQuantity, IngredientUnit } from '../entities/Ingredient';
+import { MenuItem } from '../entities/MenuItem';
+import { OrderItem } from '../entities/Order';
+import { ValidationError } from '../errors/CustomErrors';
+
+export const INGREDIENT_UNITS: IngredientUnit[] = ['kg', 'g', 'l', 'ml', 'unidad'];
+
+/** Tres decimales: gramos en kg, mililitros en litros */
+export const roundQuantity = (value: number): number => Math.round(value * 1000) / 1000;
+
+/**
+ * Normaliza la receta de un plato: cantidades positivas y un ingrediente por línea.
+ * @throws ValidationError si una línea no tiene ingrediente o su cantidad no es válida
+ */
+export function normalizeRecipe(lines: IngredientQuantity[] | null | undefined): IngredientQuantity[] {
+    if (!Array.isArray(lines)) return [];
+
+    const totals = new Map<string, number>();
+    lines.forEach((line, index) => {
+        const ingredientId = String(line?.ingredientId || '').trim();
+        const quantity = Number(line?.quantity);
+        if (!ingredientId) {
+            throw new ValidationError(`La línea ${index + 1} de la receta no tiene ingrediente`);
+        }
+        if (!Number.isFinite(quantity) || quantity <= 0) {
+            throw new ValidationError(`La cantidad de la línea ${index + 1} de la receta debe ser mayor a 0`);
+        }
+        totals.set(ingredientId, (totals.get(ingredientId) || 0) + quantity);
+    });
+
+    return Array.from(totals, ([ingredientId, quantity]) => ({ ingredientId, quantity: roundQuantity(quantity) }));
+}
+
+/** Quita los modificadores que la factura agrega a la descripción: "Seco (Grande, Arroz)" → "Seco" */
+const baseItemName = (name: string): string => name.replace(/\s*\([^()]*\)$/, '');
+
+/**
+ * Ingredientes que consumen los ítems de un pedido (o de una factura). Los ítems
+ * se relacionan con el menú por nombre (como la estación de cocina); un plato
+ * sin receta no consume.
+ */
+export function computeConsumption(
+    items: Pick<OrderItem, 'name' | 'quantity'>[],
+    menuItems: Pick<MenuItem, 'name' | 'recipe'>[]
+): IngredientQuantity[] {
+    const recipes = new Map(menuItems.map(m => [m.name, m.recipe || []]));
+    const totals = new Map<string, number>();
+
+    (items || []).forEach(item => {
+        const recipe = recipes.get(item.name) ?? recipes.get(baseItemName(String(item.name || ''))) ?? [];
+        recipe.forEach(line => {
+            totals.set(line.ingredientId, (totals.get(line.ingredientId) || 0) + line.quantity * (item.quantity || 0));
+        });
+    });
+
+    return Array.from(totals, ([ingredientId, quantity]) => ({ ingredientId, quantity: roundQuantity(quantity) }))
+        .filter(line => line.quantity > 0);
+}
+
+/**
+ * Diferencia entre lo ya descontado y lo que corresponde ahora.
+ * delta > 0 = falta descontar; delta < 0 = hay que devolver al stock.
+ */
+export function diffConsumption(
+    current: IngredientQuantity[] | null | undefined,
+    target: IngredientQuantity[]
+): { ingredientId: string; delta: number }[] {
+    const deltas = new Map<string, number>();
+    (current || []).forEach(line => deltas.set(line.ingredientId, -line.quantity));
+    target.forEach(line => deltas.set(line.ingredientId, (deltas.get(line.ingredientId) || 0) + line.quantity));
+
+    return Array.from(deltas, ([ingredientId, delta]) => ({ ingredientId, delta: roundQuantity(delta) }))
+        .filter(line => line.delta !== 0);
+}
+
+export const isLowStock = (ingredient: Pick<Ingredient, 'stock' | 'minStock'>): boolean =>
+    ingredient.minStock > 0 && ingredient.stock <= ingredient.minStock;
+
+/** Solo se avisa al cruzar el umbral, no en cada venta mientras siga bajo */
+export const crossedLowStock = (stockBefore: number, ingredient: Pick<Ingredient, 'stock' | 'minStock'>): boolean =>
+    isLowStock(ingredient) && !isLowStock({ stock: stockBefore, minStock: ingredient.minStock });
@@ -0,0 +1,89 @@
+/**
+ * Estaciones de cocina (parrilla, freidora, fríos, bar...)
+ *
+ * Cada plato se enruta a una estación: la del plato si tiene, si no la de su
+ * categoría. Sin estación el ítem va a "general". El ítem del pedido guarda
+ * la estación al crearse, así mover un plato de estación no cambia comandas
+ * que ya están en cocina.
+ */
+
+import { KitchenStation } from '../entities/RestaurantConfig';
+import { MenuItem } from '../entities/MenuItem';
+import { OrderItem } from '../entities/Order';
+import { ValidationError } from '../errors/CustomErrors';
+
+/** Id reservado para los ítems sin estación (en la URL y en los filtros) */
+export const GENERAL_STATION = 'general';
+
+export const DEFAULT_KITCHEN_STATIONS: KitchenStation[] = [
+    { id: 'grill', name: 'Parrilla' },
+    { id: 'fryer', name: 'Freidora' },
+    { id: 'cold', name: 'Fríos' },
+    { id: 'bar', name: 'Bar' }
+];
+
+const slugify = (value: string): string =>
+    value
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+
+/**
+ * Normaliza y valida la lista de estaciones de la configuración.
+ * Sin id se genera a partir del nombre.
+ * @throws ValidationError si falta el nombre o hay ids repetidos
+ */
+export function normalizeKitchenStations(stations: KitchenStation[] | null | undefined): KitchenStation[] {
+    if (!Array.isArray(stations)) return [];
+
+    const seen = new Set<string>();
+    return stations.map((station, index) => {
+        const name = String(station?.name || '').trim();
+        if (!name) {
+            throw new ValidationError(`La estación ${index + 1} no tiene nombre`, { station: index + 1 });
+        }
+        const id = slugify(String(station?.id || '').trim() || name);
+        if (!id || id === GENERAL_STATION) {
+            throw new ValidationError(`Identificador de estación inválido en "${name}"`, { station: name });
+        }
+        if (seen.has(id)) {
+            throw new ValidationError(`Estación repetida: "${name}"`, { station: name });
+        }
+        seen.add(id);
+        return { id, name };
+    });
+}
+
+/**
+ * Estación de un plato: la suya o la de su categoría (categoryData populada).
+ * Solo cuentan estaciones configuradas; una que ya no existe va a general.
+ */
+export function resolveMenuItemStation(menuItem: MenuItem | undefined, stationIds: string[]): string | null {
+    if (!menuItem) return null;
+    const candidate = menuItem.stationId || menuItem.categoryData?.stationId || null;
+    return candidate && stationIds.includes(candidate) ? candidate : null;
+}
+
+/**
+ * Asigna estación a los ítems que aún no la tienen (buscando el plato por nombre).
+ * Los que ya traen `station` (aunque sea null) se respetan: la comanda no se re-enruta al editar.
+ */
+export function assignStations(items: OrderItem[], menuItems: MenuItem[], stations: KitchenStation[]): OrderItem[] {
+    const stationIds = stations.map(s => s.id);
+    const byName = new Map(menuItems.map(m => [m.name.trim().toLowerCase(), m]));
+
+    return items.map(item => {
+        if (item.station !== undefined) return item;
+        const menuItem = byName.get(String(item.name || '').trim().toLowerCase());
+        return { ...item, station: resolveMenuItemStation(menuItem, stationIds) };
+    });
+}
+
+/** Id de URL/filtro → valor guardado en el ítem (general = null) */
+export const stationKey = (stationId: string): string | null =>
+    stationId === GENERAL_STATION ? null : stationId;
+
+export const allItemsPrepared = (items: OrderItem[] = []): boolean =>
+    items.length > 0 && items.every(item => item.prepared);
@@ -0,0 +1,110 @@
+/**
+ * Modificadores de platos (tamaños, acompañantes, extras y exclusiones)
+ *
+ * El menú define los grupos; el pedido guarda una COPIA de lo elegido (nombre y
+ * recargo) para que editar el menú después no cambie pedidos ni facturas ya
+ * hechos. El precio de la línea ya incluye los recargos.
+ */
+
+import { ModifierGroup, ModifierGroupType } from '../entities/MenuItem';
+import { OrderItem, OrderItemModifier } from '../entities/Order';
+import { ValidationError } from '../errors/CustomErrors';
+
+export const MODIFIER_GROUP_TYPES: ModifierGroupType[] = ['size', 'side', 'extra', 'removal'];
+
+/** Límite de la ficha técnica del SRI para <descripcion> del detalle */
+const SRI_DESCRIPTION_MAX = 300;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Normaliza y valida los grupos de modificadores de un plato.
+ * @throws ValidationError si un grupo o una opción son inválidos
+ */
+export function normalizeModifierGroups(groups: ModifierGroup[] | null | undefined): ModifierGroup[] {
+    if (!Array.isArray(groups)) return [];
+
+    return groups.map((group, index) => {
+        const name = String(group?.name || '').trim();
+        if (!name) {
+            throw new ValidationError(`El grupo de modificadores ${index + 1} no tiene nombre`, { group: index + 1 });
+        }
+        if (!MODIFIER_GROUP_TYPES.includes(group.type)) {
+            throw new ValidationError(`Tipo de grupo inválido en "${name}"`, { group: name });
+        }
+
+        const options = (group.options || []).map((option, optionIndex) => {
+            const optionName = String(option?.name || '').trim();
+            const priceDelta = round2(Number(option?.priceDelta ?? 0));
+            if (!optionName || isNaN(priceDelta)) {
+                throw new ValidationError(`Opción ${optionIndex + 1} inválida en "${name}"`, { group: name });
+            }
+            return {
+                id: String(option.id || `${index + 1}-${optionIndex + 1}`),
+                name: optionName,
+                // Quitar un ingrediente nunca cobra
+                priceDelta: group.type === 'removal' ? 0 : priceDelta,
+                available: option.available !== false
+            };
+        });
+        if (options.length === 0) {
+            throw new ValidationError(`El grupo "${name}" no tiene opciones`, { group: name });
+        }
+
+        const minChoices = Math.max(0, Math.floor(Number(group.minChoices) || 0));
+        const maxChoices = Math.floor(Number(group.maxChoices) || options.length);
+        if (maxChoices < 1 || minChoices > maxChoices || minChoices > options.length) {
+            throw new ValidationError(`Mínimo y máximo de opciones inválidos en "${name}"`, { group: name });
+        }
+
+        return {
+            id: String(group.id || index + 1),
+            name,
+            type: group.type,
+            minChoices,
+            maxChoices: Math.min(maxChoices, options.length),
+            options
+        };
+    });
+}
+
+/**
+ * Valida la forma de los modificadores de una línea del pedido.
+ * Las reglas de mínimo/máximo las aplica el POS con el menú a la vista; aquí
+ * solo se protege lo que llega a la factura.
+ * @throws ValidationError si algún modificador es inválido
+ */
+export function validateOrderItemModifiers(item: OrderItem): void {
+    if (item.modifiers === undefined || item.modifiers === null) return;
+    if (!Array.isArray(item.modifiers)) {
+        throw new ValidationError(`Los modificadores de "${item.name}" son inválidos`);
+    }
+    for (const modifier of item.modifiers) {
+        if (!modifier?.name || !String(modifier.name).trim() || !MODIFIER_GROUP_TYPES.includes(modifier.type)) {
+            throw new ValidationError(`El producto "${item.name}" tiene un modificador inválido`);
+        }
+        if (typeof modifier.priceDelta !== 'number' || isNaN(modifier.priceDelta)) {
+            throw new ValidationError(`El modificador "${modifier.name}" de "${item.name}" no tiene un recargo válido`);
+        }
+    }
+}
+
+/** Texto corto de un modificador: "Grande", "+ Chifles", "sin cebolla" */
+export function formatModifier(modifier: OrderItemModifier): string {
+    if (modifier.type === 'removal') return `sin ${modifier.name.toLowerCase()}`;
+    if (modifier.type === 'extra') return `+ ${modifier.name}`;
+    return modifier.name;
+}
+
+/**
+ * Descripción del ítem para el detalle de la factura:
+ * "Ceviche (Grande, + Chifles, sin cebolla)". Se recorta al límite del SRI.
+ */
+export function describeOrderItem(item: Pick<OrderItem, 'name' | 'modifiers'>): string {
+    const name = String(item.name || '');
+    const modifiers = (item.modifiers || []).map(formatModifier);
+    const description = modifiers.length > 0 ? `${name} (${modifiers.join(', ')})` : name;
+    return description.length > SRI_DESCRIPTION_MAX
+        ? `${description.substring(0, SRI_DESCRIPTION_MAX - 3)}...`
+        : description;
+}
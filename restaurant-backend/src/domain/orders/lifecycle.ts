@@ -0,0 +1,74 @@
+/**
+ * Ciclo de vida del pedido
+ *
+ * Nuevo → En Preparación → Listo → Entregado → Completado (facturado/cerrado).
+ * Cancelado es terminal y solo se llega con CancelOrder (motivo y usuario).
+ * Cada cambio de estado queda en statusHistory con fecha y usuario.
+ */
+
+import { Order, OrderStatus, OrderStatusChange } from '../entities/Order';
+import { ValidationError } from '../errors/CustomErrors';
+
+/** Pedidos en curso (ocupan mesa, aparecen en operaciones) */
+export const ACTIVE_STATUSES: OrderStatus[] = [
+    OrderStatus.New,
+    OrderStatus.InPreparation,
+    OrderStatus.Ready,
+    OrderStatus.Delivered
+];
+
+/** Pedidos que la cocina está trabajando */
+export const KITCHEN_STATUSES: OrderStatus[] = [OrderStatus.New, OrderStatus.InPreparation];
+
+/** Pedidos cerrados (historial) */
+export const CLOSED_STATUSES: OrderStatus[] = [OrderStatus.Completed, OrderStatus.Cancelled];
+
+/**
+ * Transiciones permitidas por la edición normal del pedido.
+ * Un pedido completado puede reabrirse (se le agregaron platos); uno cancelado no.
+ */
+const TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    [OrderStatus.New]: [OrderStatus.InPreparation, OrderStatus.Ready, OrderStatus.Delivered, OrderStatus.Completed],
+    [OrderStatus.InPreparation]: [OrderStatus.New, OrderStatus.Ready, OrderStatus.Delivered, OrderStatus.Completed],
+    [OrderStatus.Ready]: [OrderStatus.New, OrderStatus.InPreparation, OrderStatus.Delivered, OrderStatus.Completed],
+    [OrderStatus.Delivered]: [OrderStatus.New, OrderStatus.InPreparation, OrderStatus.Ready, OrderStatus.Completed],
+    [OrderStatus.Completed]: [OrderStatus.New, OrderStatus.InPreparation, OrderStatus.Ready, OrderStatus.Delivered],
+    [OrderStatus.Cancelled]: []
+};
+
+export const isValidOrderStatus = (status: unknown): status is OrderStatus =>
+    Object.values(OrderStatus).includes(status as OrderStatus);
+
+/**
+ * Valida un cambio de estado hecho desde la edición del pedido.
+ * @throws ValidationError si el estado no existe, es Cancelado o la transición no está permitida
+ */
+export function assertStatusTransition(from: OrderStatus, to: OrderStatus): void {
+    if (!isValidOrderStatus(to)) {
+        throw new ValidationError(`Estado de pedido inválido: ${to}`, { status: to });
+    }
+    if (from === to) return;
+    if (to === OrderStatus.Cancelled) {
+        throw new ValidationError('Para cancelar un pedido usa la cancelación: requiere motivo');
+    }
+    if (!TRANSITIONS[from]?.includes(to)) {
+        throw new ValidationError(`No se puede pasar un pedido de "${from}" a "${to}"`, { from, to });
+    }
+}
+
+/**
+ * Estado + historial para guardar un cambio de estado. Sin cambio real devuelve {}.
+ */
+export function withStatusChange(
+    order: Pick<Order, 'status' | 'statusHistory'>,
+    status: OrderStatus,
+    by?: string | null,
+    reason?: string
+): Partial<Pick<Order, 'status' | 'statusHistory'>> {
+    if (order.status === status) return {};
+
+    const change: OrderStatusChange = { status, at: new Date(), by: by || null };
+    if (reason) change.reason = reason;
+
+    return { status, statusHistory: [...(order.statusHistory || []), change] };
+}
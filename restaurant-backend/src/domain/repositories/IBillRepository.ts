@@ -15,6 +15,8 @@
  */
 
 import { Bill } from '../entities/Bill';
+import { EmailDelivery } from '../billing/emailDelivery';
+import { TipStats } from '../billing/tips';
 import { PaginatedResult } from '../../infrastructure/repositories/BaseRepository';
 
 export interface IBillRepository {
@@ -23,6 +25,18 @@ export interface IBillRepository {
     findPaginated(page: number, limit: number, filter?: any, sort?: any): Promise<PaginatedResult<Bill>>;
     findById(id: string): Promise<Bill | null>;
     findByAccessKey(accessKey: string): Promise<Bill | null>;
+    /** Factura por su número (001-001-000000120) — enlaza retenciones recibidas */
+    findByDocumentNumber(documentNumber: string): Promise<Bill | null>;
+    /** Facturas de un ambiente con fecha de emisión en el rango [from, to) (ATS mensual) */
+    findIssuedBetween(from: Date, to: Date, environment: string): Promise<Bill[]>;
+    /** Facturas cobradas en un punto de emisión en el rango [from, to], salvo las anuladas (cuadre de caja) */
+    findByEmissionPoint(estab: string, ptoEmi: string, from: Date, to: Date): Promise<Bill[]>;
     delete(id: string): Promise<boolean>;
     upsert(bill: Partial<Bill>): Promise<Bill>;
+    /** Factura enviada con ese id de mensaje del proveedor de email (webhook de rebotes) */
+    findByEmailMessageId(messageId: string): Promise<Bill | null>;
+    /** Guarda el estado de entrega por email */
+    setEmailDelivery(billId: string, delivery: EmailDelivery): Promise<void>;
+    /** Propinas de las facturas creadas en el rango, por día y por empleado */
+    getTipStats(startDate: Date, endDate: Date): Promise<TipStats>;
 }
@@ -0,0 +1,32 @@
+/**
+ * @file ICashSessionRepository.ts
+ * @description Interfaz del repositorio de sesiones de caja (Domain Layer)
+ *
+ * @purpose
+ * Define el contrato para abrir, consultar, registrar movimientos y cerrar sesiones de caja.
+ *
+ * @connections
+ * - Implementado por: MongoCashSessionRepository (infrastructure/repositories)
+ * - Usa: CashSession entity (domain/entities)
+ * - Usado por: Cash use cases (application/use-cases/cash)
+ * - Inyectado por: DIContainer (infrastructure/di)
+ *
+ * @layer Domain - Define contratos sin implementación
+ */
+
+import { CashSession, CashMovement, OpenCashSessionDTO, CloseCashSessionDTO } from '../entities/CashSession';
+
+export interface ICashSessionRepository {
+    open(data: OpenCashSessionDTO): Promise<CashSession>;
+    findById(id: string): Promise<CashSession | null>;
+    /** Sesión abierta en el punto de emisión (solo puede haber una) */
+    findOpenByEmissionPoint(estab: string, ptoEmi: string): Promise<CashSession | null>;
+    /** Sesión abierta por el empleado (solo puede tener una) */
+    findOpenByUser(userId: string): Promise<CashSession | null>;
+    /** Sesiones más recientes primero */
+    findRecent(limit: number): Promise<CashSession[]>;
+    /** Indica si la nota de crédito ya se devolvió en efectivo en alguna sesión */
+    hasCreditNoteRefund(creditNoteId: string): Promise<boolean>;
+    addMovement(id: string, movement: CashMovement): Promise<CashSession | null>;
+    close(id: string, data: CloseCashSessionDTO): Promise<CashSession | null>;
+}
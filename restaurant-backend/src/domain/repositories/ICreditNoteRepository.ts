@@ -10,6 +10,7 @@
  */
 
 import { CreditNote } from '../entities/CreditNote';
+import { EmailDelivery } from '../billing/emailDelivery';
 
 export interface ICreditNoteRepository {
     /**
@@ -62,4 +63,14 @@ export interface ICreditNoteRepository {
      * Eliminar nota de crédito por ID
      */
     delete(id: string): Promise<boolean>;
+
+    /**
+     * Nota de crédito enviada con ese id de mensaje del proveedor de email (webhook de rebotes)
+     */
+    findByEmailMessageId(messageId: string): Promise<CreditNote | null>;
+
+    /**
+     * Guardar el estado de entrega por email
+     */
+    setEmailDelivery(creditNoteId: string, delivery: EmailDelivery): Promise<void>;
 }
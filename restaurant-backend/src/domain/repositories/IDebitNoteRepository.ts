@@ -0,0 +1,45 @@
+/**
+ * @file IDebitNoteRepository.ts
+ * @description Repositorio para Notas de Débito
+ *
+ * @purpose
+ * Define el contrato de persistencia de las notas de débito emitidas sobre
+ * facturas autorizadas, siguiendo el patrón Repository de Arquitectura Hexagonal.
+ *
+ * @connections
+ * - Implementado por: MongoDebitNoteRepository (infrastructure/repositories)
+ * - Usa: DebitNote entity (domain/entities)
+ * - Usado por: Debit note use cases (application/use-cases/debit-notes)
+ * - Usado por: ExportController (reporte mensual)
+ *
+ * @layer Domain - Contrato puro sin dependencias de infraestructura
+ */
+
+import { DebitNote, DebitNoteErrorEntry, CreateDebitNoteDTO } from '../entities/DebitNote';
+
+export interface IDebitNoteRepository {
+    create(data: CreateDebitNoteDTO): Promise<DebitNote>;
+    findById(id: string): Promise<DebitNote | null>;
+    findByBillId(billId: string): Promise<DebitNote[]>;
+    findByAccessKey(accessKey: string): Promise<DebitNote | null>;
+
+    /**
+     * Buscar todas con paginación y filtros
+     */
+    findPaginated(page: number, limit: number, filter: any, sort?: any): Promise<{
+        data: DebitNote[];
+        pagination: {
+            page: number;
+            limit: number;
+            total: number;
+            totalPages: number;
+        };
+    }>;
+
+    update(id: string, data: Partial<DebitNote>): Promise<DebitNote | null>;
+
+    /**
+     * Añade un error del SRI al historial acumulado y lo deja como último estado
+     */
+    pushErrorLog(id: string, entry: DebitNoteErrorEntry): Promise<void>;
+}
@@ -0,0 +1,34 @@
+/**
+ * @file IIngredientRepository.ts
+ * @description Interfaz del repositorio de ingredientes (Domain Layer)
+ *
+ * @purpose
+ * Define el contrato para el catálogo de ingredientes y la actualización
+ * atómica de su stock.
+ *
+ * @connections
+ * - Implementado por: MongoIngredientRepository (infrastructure/repositories)
+ * - Usa: Ingredient entity (domain/entities)
+ * - Usado por: InventoryService (application/services)
+ * - Usado por: Inventory use cases (application/use-cases/inventory)
+ * - Inyectado por: DIContainer (infrastructure/di)
+ *
+ * @layer Domain - Define contratos sin implementación
+ */
+
+import { Ingredient, CreateIngredientDTO, UpdateIngredientDTO } from '../entities/Ingredient';
+
+export interface IIngredientRepository {
+    create(data: CreateIngredientDTO): Promise<Ingredient>;
+    findById(id: string): Promise<Ingredient | null>;
+    findByName(name: string): Promise<Ingredient | null>;
+    findByIds(ids: string[]): Promise<Ingredient[]>;
+    /** Ordenados por nombre; los desactivados solo si se piden */
+    findAll(includeInactive?: boolean): Promise<Ingredient[]>;
+    update(id: string, data: UpdateIngredientDTO): Promise<Ingredient | null>;
+    /**
+     * Suma (o resta, con delta negativo) al stock de forma atómica ($inc).
+     * Dos pedidos descontando el mismo ingrediente a la vez no se pisan.
+     */
+    adjustStock(id: string, delta: number): Promise<Ingredient | null>;
+}
@@ -21,6 +21,8 @@ export interface IMenuRepository {
     findById(id: string): Promise<MenuItem | null>;
     findAll(): Promise<MenuItem[]>;
     findAvailable(): Promise<MenuItem[]>;
+    /** Con la categoría populada (categoryData): de ella sale la estación de cocina */
+    findAllWithCategory(): Promise<MenuItem[]>;
     update(id: string, item: Partial<MenuItem>): Promise<MenuItem | null>;
     delete(id: string): Promise<boolean>;
 }
@@ -16,6 +16,7 @@
 
 import { Order } from '../entities/Order';
 import { PaginatedResult } from '../../infrastructure/repositories/BaseRepository';
+import { TipStats } from '../billing/tips';
 
 export interface DashboardStatsDTO {
     totalRevenue: number;
@@ -27,6 +28,17 @@ export interface DashboardStatsDTO {
     salesByCategory: { category: string; total: number }[];
     activityByHour: { hour: number; count: number }[];
     salesByBillingType: { type: string; total: number }[];
+    /** Pedidos cancelados del rango: no suman a las ventas de arriba */
+    cancellations: { count: number; lostRevenue: number; byReason: { reason: string; count: number }[] };
+    /** Descuentos (de línea y de pedido) de los pedidos vendidos, con IVA: las ventas de arriba son brutas */
+    discounts: {
+        count: number;
+        total: number;
+        byReason: { reason: string; count: number; total: number }[];
+        byEmployee: { employee: string; count: number; total: number }[];
+    };
+    /** Propinas de las facturas del rango (no son ventas): por día y por empleado */
+    tips?: TipStats;
 }
 
 export interface IOrderRepository {
@@ -34,9 +46,28 @@ export interface IOrderRepository {
     /** Siguiente número de pedido, asignado atómicamente por el servidor. */
     getNextOrderNumber(): Promise<string>;
     findById(id: string): Promise<Order | null>;
+    /** Pedido creado con ese ID del POS (reenvíos de la cola sin conexión) */
+    findByClientRequestId(clientRequestId: string): Promise<Order | null>;
     findAll(): Promise<Order[]>;
     findPaginated(page: number, limit: number, filter?: any, sort?: any): Promise<PaginatedResult<Order>>;
     update(id: string, order: Partial<Order>): Promise<Order | null>;
+    /**
+     * Marca preparados, de forma atómica, los ítems de una estación (null = ítems sin estación).
+     * Dos estaciones despachando a la vez no se pisan los cambios.
+     */
+    markStationPrepared(id: string, station: string | null): Promise<Order | null>;
+    /**
+     * Marca facturados y completados varios pedidos de forma atómica (factura consolidada).
+     * Devuelve los pedidos actualizados.
+     */
+    markBilled(ids: string[], billingType: Order['billingType']): Promise<Order[]>;
+    /**
+     * Reserva para una emisión los pedidos aún sin facturar, con un solo update condicional.
+     * Todos o ninguno: si otro cobro ya tomó alguno, suelta los reservados y devuelve false.
+     */
+    claimForBilling(ids: string[], claim: string): Promise<boolean>;
+    /** Suelta la reserva de una emisión fallida (los pedidos ya facturados no cambian) */
+    releaseBillingClaim(ids: string[], claim: string): Promise<void>;
     delete(id: string): Promise<boolean>;
     getDashboardStats(startDate: Date, endDate: Date): Promise<DashboardStatsDTO>;
 }
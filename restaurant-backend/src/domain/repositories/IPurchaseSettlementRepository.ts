@@ -0,0 +1,43 @@
+/**
+ * @file IPurchaseSettlementRepository.ts
+ * @description Repositorio para Liquidaciones de Compra
+ *
+ * @purpose
+ * Define el contrato de persistencia de las liquidaciones de compra emitidas
+ * a proveedores informales, siguiendo el patrón Repository de Arquitectura Hexagonal.
+ *
+ * @connections
+ * - Implementado por: MongoPurchaseSettlementRepository (infrastructure/repositories)
+ * - Usa: PurchaseSettlement entity (domain/entities)
+ * - Usado por: Purchase settlement use cases (application/use-cases/purchase-settlements)
+ *
+ * @layer Domain - Contrato puro sin dependencias de infraestructura
+ */
+
+import { PurchaseSettlement, PurchaseSettlementErrorEntry, CreatePurchaseSettlementDTO } from '../entities/PurchaseSettlement';
+
+export interface IPurchaseSettlementRepository {
+    create(data: CreatePurchaseSettlementDTO): Promise<PurchaseSettlement>;
+    findById(id: string): Promise<PurchaseSettlement | null>;
+    findByAccessKey(accessKey: string): Promise<PurchaseSettlement | null>;
+
+    /**
+     * Buscar todas con paginación y filtros
+     */
+    findPaginated(page: number, limit: number, filter: any, sort?: any): Promise<{
+        data: PurchaseSettlement[];
+        pagination: {
+            page: number;
+            limit: number;
+            total: number;
+            totalPages: number;
+        };
+    }>;
+
+    update(id: string, data: Partial<PurchaseSettlement>): Promise<PurchaseSettlement | null>;
+
+    /**
+     * Añade un error del SRI al historial acumulado y lo deja como último estado
+     */
+    pushErrorLog(id: string, entry: PurchaseSettlementErrorEntry): Promise<void>;
+}
@@ -16,6 +16,7 @@
  */
 
 import { RestaurantConfig } from '../entities/RestaurantConfig';
+import { SequenceCounterField } from '../billing/sequentials';
 
 export interface IRestaurantConfigRepository {
     get(): Promise<RestaurantConfig | null>;
@@ -29,6 +30,16 @@ export interface IRestaurantConfigRepository {
      */
     getNextSequential(): Promise<number>;
     getNextCreditNoteSequential(): Promise<number>;
+    /** Secuencial de notas de débito (codDoc 05), separado por ambiente como los demás */
+    getNextDebitNoteSequential(): Promise<number>;
+    /** Secuencial de liquidaciones de compra (codDoc 03), separado por ambiente como los demás */
+    getNextPurchaseSettlementSequential(): Promise<number>;
+    /**
+     * Sube un contador de secuenciales hasta `value` sin bajarlo nunca ($max atómico),
+     * para corregir contadores atrasados sin pisar números emitidos en paralelo.
+     * @returns El valor del contador después de la operación
+     */
+    raiseSequenceCounter(field: SequenceCounterField, value: number): Promise<number>;
 
     /**
      * Devuelve el ambiente SRI activo — FUENTE ÚNICA DE VERDAD.
@@ -0,0 +1,34 @@
+/**
+ * @file IStockMovementRepository.ts
+ * @description Interfaz del repositorio de movimientos de stock (kardex) (Domain Layer)
+ *
+ * @purpose
+ * Define el contrato para registrar y consultar los movimientos de inventario.
+ * Los movimientos no se editan ni se borran: una corrección es otro movimiento.
+ *
+ * @connections
+ * - Implementado por: MongoStockMovementRepository (infrastructure/repositories)
+ * - Usa: StockMovement entity (domain/entities/Ingredient)
+ * - Usado por: InventoryService (application/services)
+ * - Usado por: GetStockMovements (application/use-cases/inventory)
+ * - Inyectado por: DIContainer (infrastructure/di)
+ *
+ * @layer Domain - Define contratos sin implementación
+ */
+
+import { StockMovement, StockMovementReference, StockMovementType } from '../entities/Ingredient';
+
+export interface StockMovementFilter {
+    ingredientId?: string;
+    type?: StockMovementType;
+    from?: Date;
+    to?: Date;
+}
+
+export interface IStockMovementRepository {
+    createMany(movements: Omit<StockMovement, 'id'>[]): Promise<StockMovement[]>;
+    /** Más recientes primero */
+    find(filter: StockMovementFilter, limit: number): Promise<StockMovement[]>;
+    /** Indica si un documento (ej. nota de crédito) ya movió stock */
+    existsForReference(reference: Pick<StockMovementReference, 'kind' | 'id'>): Promise<boolean>;
+}
@@ -0,0 +1,29 @@
+/**
+ * @file ITableRepository.ts
+ * @description Interfaz del repositorio de mesas (Domain Layer)
+ *
+ * @purpose
+ * Define el contrato para operaciones CRUD de mesas y guardado del plano de salón.
+ *
+ * @connections
+ * - Implementado por: MongoTableRepository (infrastructure/repositories)
+ * - Usa: Table entity (domain/entities)
+ * - Usado por: Table use cases (application/use-cases/tables)
+ * - Inyectado por: DIContainer (infrastructure/di)
+ *
+ * @layer Domain - Define contratos sin implementación
+ */
+
+import { Table, CreateTableDTO, UpdateTableDTO, TableLayoutDTO } from '../entities/Table';
+
+export interface ITableRepository {
+    create(data: CreateTableDTO): Promise<Table>;
+    findById(id: string): Promise<Table | null>;
+    findByName(name: string): Promise<Table | null>;
+    findAll(): Promise<Table[]>;
+    update(id: string, data: UpdateTableDTO): Promise<Table | null>;
+    delete(id: string): Promise<boolean>;
+    saveLayout(items: TableLayoutDTO[]): Promise<boolean>;
+    /** Cuenta los pedidos abiertos (no completados) vinculados a la mesa */
+    countOpenOrders(tableId: string): Promise<number>;
+}
@@ -0,0 +1,41 @@
+/**
+ * @file IWithholdingRepository.ts
+ * @description Repositorio para Comprobantes de Retención recibidos
+ *
+ * @purpose
+ * Define el contrato de persistencia de las retenciones que los clientes
+ * hacen sobre las facturas, siguiendo el patrón Repository de Arquitectura Hexagonal.
+ *
+ * @connections
+ * - Implementado por: MongoWithholdingRepository (infrastructure/repositories)
+ * - Usa: Withholding entity (domain/entities)
+ * - Usado por: Withholding use cases (application/use-cases/withholdings)
+ * - Usado por: ExportController (reporte mensual)
+ *
+ * @layer Domain - Contrato puro sin dependencias de infraestructura
+ */
+
+import { Withholding, CreateWithholdingDTO } from '../entities/Withholding';
+
+export interface IWithholdingRepository {
+    create(data: CreateWithholdingDTO): Promise<Withholding>;
+    findById(id: string): Promise<Withholding | null>;
+    findByBillId(billId: string): Promise<Withholding[]>;
+    /** Una misma retención no puede registrarse dos veces (mismo agente y número) */
+    findByAgentDocument(agentIdentification: string, documentNumber: string): Promise<Withholding | null>;
+
+    /**
+     * Buscar todas con paginación y filtros
+     */
+    findPaginated(page: number, limit: number, filter: any, sort?: any): Promise<{
+        data: Withholding[];
+        pagination: {
+            page: number;
+            limit: number;
+            total: number;
+            totalPages: number;
+        };
+    }>;
+
+    delete(id: string): Promise<boolean>;
+}
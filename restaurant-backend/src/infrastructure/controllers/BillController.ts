@@ -4,15 +4,18 @@ import { GetBills } from '../../application/use-cases/GetBills';
 import { DeleteBill } from '../../application/use-cases/DeleteBill';
 import { ResetBillingSystem } from '../../application/use-cases/ResetBillingSystem';
 import { ResetFullSystem } from '../../application/use-cases/ResetFullSystem';
+import { VerifyDocumentSignature } from '../../application/use-cases/VerifyDocumentSignature';
 import { ResponseFormatter } from '../utils/ResponseFormatter';
 import { logger } from '../utils/Logger';
 import { NotFoundError } from '../../domain/errors/CustomErrors';
 import { PDFService } from '../services/PDFService';
 import { SRIService } from '../services/SRIService';
 import { RestaurantConfigModel } from '../database/schemas/RestaurantConfigSchema';
-import { sanitizeSort } from '../utils/QuerySanitizer'; // FIX S-01
+import { sanitizeSort, emailStatusFilter } from '../utils/QuerySanitizer'; // FIX S-01
 
 import { BillingService } from '../../application/services/BillingService';
+import { billToInvoice } from '../../application/services/billInvoice';
+import { printLayoutOf } from '../../domain/billing/printLayout';
 
 export class BillController {
     constructor(
@@ -22,7 +25,8 @@ export class BillController {
         private resetBillingSystem: ResetBillingSystem,
         private resetFullSystem: ResetFullSystem,
         private billingService: BillingService,
-        private sriService: SRIService
+        private sriService: SRIService,
+        private verifyDocumentSignature: VerifyDocumentSignature
     ) { }
 
     public getAll = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -34,6 +38,7 @@ export class BillController {
             if (req.query.documentNumber) filter.documentNumber = req.query.documentNumber;
             if (req.query.customerIdentification) filter.customerIdentification = req.query.customerIdentification;
             if (req.query.documentType) filter.documentType = req.query.documentType;
+            Object.assign(filter, emailStatusFilter(req.query.emailStatus));
 
             // Filtro por rango de fechas
             if (req.query.startDate || req.query.endDate) {
@@ -83,10 +88,12 @@ export class BillController {
             }
 
             const pdfService = new PDFService();
-            const { invoice } = await this.mapBillToInvoice(billData);
+            const { invoice, config } = await this.mapBillToInvoice(billData);
 
-            const format = (req.query.format as 'A4' | 'ticket') || 'A4';
-            const pdfBuffer = await pdfService.generateInvoicePDF(invoice, format);
+            // Reimpresión con la plantilla configurada; ?format= elige A4 o ticket en el momento
+            const layout = printLayoutOf(config?.billing);
+            const format = req.query.format === 'ticket' || req.query.format === 'A4' ? req.query.format : layout.format;
+            const pdfBuffer = await pdfService.generateInvoicePDF(invoice, { ...layout, format });
 
             res.setHeader('Content-Type', 'application/pdf');
             res.setHeader('Content-Disposition', `attachment; filename=Factura-${billData.documentNumber}.pdf`);
@@ -130,130 +137,38 @@ export class BillController {
     };
 
     /**
-     * Mapea los datos de una Bill persistida al formato Invoice usado por SRI/PDF Service
-     * Incluye PENNY ADJUSTMENT para consistencia con BillingService.calculateDetails()
+     * GET /api/bills/:id/verify
+     * Verifica firma, certificado y clave de acceso del XML firmado guardado en la factura
      */
-    private mapBillToInvoice = async (billData: any): Promise<{ invoice: any; config: any }> => {
-        const config: any = await RestaurantConfigModel.findOne();
-        const [estab, ptoEmi, secuencial] = billData.documentNumber.split('-');
-        const taxRate: number = config?.billing?.taxRate || 15;
-
-        // 1. Primera pasada: calcular subtotales por item
-        const detalles = billData.items.map((item: any) => {
-            const itemTaxRate = (item.taxRate !== undefined && item.taxRate !== null) ? item.taxRate : taxRate;
-            const rateDecimal = itemTaxRate / 100;
-            const totalConIva = item.total || (item.price * item.quantity);
-
-            let subtotal: number;
-            let taxValue: number;
-
-            if (itemTaxRate === 0) {
-                subtotal = parseFloat(totalConIva.toFixed(2));
-                taxValue = 0;
-            } else {
-                subtotal = parseFloat((totalConIva / (1 + rateDecimal)).toFixed(2));
-                taxValue = parseFloat((totalConIva - subtotal).toFixed(2));
-            }
-
-            return {
-                codigoPrincipal: this.billingService.buildItemCode(item),
-                descripcion: item.name,
-                cantidad: item.quantity,
-                precioUnitario: parseFloat((subtotal / item.quantity).toFixed(6)),
-                descuento: 0,
-                precioTotalSinImpuesto: subtotal,
-                price: item.price,
-                total: totalConIva,
-                impuestos: [{
-                    codigo: '2',
-                    codigoPorcentaje: this.billingService.getTaxCode(itemTaxRate),
-                    tarifa: itemTaxRate,
-                    baseImponible: subtotal,
-                    valor: taxValue
-                }],
-                // Guardar referencia al item original para penny adjustment
-                _originalItem: item,
-                _itemTaxRate: itemTaxRate
-            };
-        });
-
-        // 2. PENNY ADJUSTMENT por grupo de IVA (igual que BillingService.calculateDetails)
-        const groupsByRate = new Map<number, { detalles: any[], totalInclusive: number }>();
-
-        detalles.forEach((detalle: any) => {
-            const rate = detalle._itemTaxRate;
-            if (!groupsByRate.has(rate)) {
-                groupsByRate.set(rate, { detalles: [], totalInclusive: 0 });
-            }
-            const group = groupsByRate.get(rate)!;
-            group.detalles.push(detalle);
-            group.totalInclusive += detalle.total;
-        });
-
-        for (const [rate, group] of groupsByRate.entries()) {
-            if (group.detalles.length === 0) continue;
-
-            const rateDecimal = rate / 100;
-            const groupSubtotalSum = group.detalles.reduce((sum: number, d: any) => sum + d.precioTotalSinImpuesto, 0);
-
-            const targetGroupSubtotal = rate === 0
-                ? parseFloat(group.totalInclusive.toFixed(2))
-                : parseFloat((group.totalInclusive / (1 + rateDecimal)).toFixed(2));
-
-            const difference = parseFloat((targetGroupSubtotal - groupSubtotalSum).toFixed(2));
-
-            if (Math.abs(difference) > 0 && Math.abs(difference) < 0.10) {
-                const lastDetalle = group.detalles[group.detalles.length - 1];
-
-                lastDetalle.precioTotalSinImpuesto = parseFloat((lastDetalle.precioTotalSinImpuesto + difference).toFixed(2));
-                lastDetalle.precioUnitario = parseFloat((lastDetalle.precioTotalSinImpuesto / lastDetalle.cantidad).toFixed(6));
-
-                const newTaxValue = rate === 0 ? 0 : parseFloat((lastDetalle.total - lastDetalle.precioTotalSinImpuesto).toFixed(2));
-                lastDetalle.impuestos[0].baseImponible = lastDetalle.precioTotalSinImpuesto;
-                lastDetalle.impuestos[0].valor = newTaxValue;
-            }
+    public verifyStored = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const report = await this.verifyDocumentSignature.executeForBill(req.params.id);
+            res.json(ResponseFormatter.success(report));
+        } catch (error) {
+            next(error);
         }
+    };
 
-        // 3. Limpiar campos temporales
-        detalles.forEach((d: any) => {
-            delete d._originalItem;
-            delete d._itemTaxRate;
-        });
-
-        const invoice = {
-            orderId: billData.orderId,
-            authorizationDate: billData.authorizationDate,
-            creationDate: billData.createdAt,
-            detalles,
-            info: {
-                estab, ptoEmi, secuencial,
-                // Formato SRI (dd/mm/yyyy en zona Ecuador) — antes salía el ISO crudo en el XML descargado
-                fechaEmision: this.billingService.formatDateToSRI(billData.date),
-                razonSocialComprador: billData.customerName,
-                identificacionComprador: billData.customerIdentification,
-                tipoIdentificacionComprador: this.billingService.getIdentificacionType(billData.customerIdentification),
-                direccionComprador: billData.customerAddress || 'S/N',
-                emailComprador: billData.customerEmail,
-                importeTotal: billData.total,
-                totalSinImpuestos: billData.subtotal,
-                totalDescuento: 0,
-                claveAcceso: billData.accessKey,
-                ambiente: billData.environment || '1',
-                ruc: config?.ruc || process.env.RUC || '0000000000001',
-                razonSocial: config?.businessName || process.env.BUSINESS_NAME || 'RESTAURANTE PICANTERIA',
-                nombreComercial: config?.name || process.env.COMMERCIAL_NAME,
-                dirMatriz: config?.fiscalAddress || config?.address || process.env.DIR_MATRIZ || 'Guayaquil, Ecuador',
-                dirEstablecimiento: config?.fiscalAddress || config?.address || process.env.DIR_ESTABLECIMIENTO || process.env.DIR_MATRIZ,
-                tasaIva: taxRate.toString(),
-                obligadoContabilidad: config?.obligadoContabilidad ? 'SI' : 'NO',
-                moneda: 'DOLAR',
-                formaPago: this.billingService.getPaymentMethodCode(billData.paymentMethod || '01'),
-                telefonoComprador: billData.customerPhone || 'S/N',
-                emailMatriz: config?.fiscalEmail || config?.email || process.env.SMTP_FROM,
-                logoUrl: this.billingService.getLogoUrl(config)
-            }
-        };
+    /**
+     * POST /api/bills/verify
+     * Body: { xml } — comprobante firmado o respuesta de autorización del SRI
+     */
+    public verifyUploaded = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const report = await this.verifyDocumentSignature.execute(req.body?.xml);
+            res.json(ResponseFormatter.success(report));
+        } catch (error) {
+            next(error);
+        }
+    };
 
+    /**
+     * Mapea la Bill persistida al formato Invoice usado por SRI/PDF Service
+     * (mismo mapeo y misma tarifa del día de emisión que el resto de reimpresiones)
+     */
+    private mapBillToInvoice = async (billData: any): Promise<{ invoice: any; config: any }> => {
+        const config: any = await RestaurantConfigModel.findOne();
+        const invoice = billToInvoice(this.billingService, billData, config, billData.environment === '2' ? '2' : '1');
         return { invoice, config };
     };
 
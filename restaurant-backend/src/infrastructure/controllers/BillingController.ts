@@ -12,6 +12,10 @@ import { invoiceQueue, JobStatus } from '../queue/InvoiceQueue';
 import { SRIService } from '../services/SRIService';
 import { BillingService } from '../../application/services/BillingService';
 import { Invoice } from '../../domain/billing/invoice';
+import { resolvePayments, toInvoicePayments } from '../../domain/billing/payments';
+import { applyOrderDiscounts, hasDiscounts, totalDiscount } from '../../domain/billing/discounts';
+import { resolveTip, DEFAULT_SERVICE_CHARGE_RATE } from '../../domain/billing/tips';
+import { applyTaxSchedule, generalTaxRate, taxScheduleOf } from '../../domain/billing/taxRates';
 
 export class BillingController {
     private sriService: SRIService;
@@ -31,7 +35,7 @@ export class BillingController {
     public generateXml = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
         try {
             logger.info('⚡ Receiving SRI billing request (Backend)', { body: req.body });
-            const { order, client, logoUrl } = req.body;
+            const { order, client, logoUrl, splitPart, payments, tip } = req.body;
 
             if (!order || !client) {
                 throw new ValidationError('Order and Client data are required');
@@ -41,10 +45,10 @@ export class BillingController {
             // This ensures a single point of truth: if the SRI changes the IVA rate,
             // you only update it once in the restaurant configuration panel.
             const config = await this.configRepository.get();
-            const taxRate: number = config?.billing?.taxRate ?? 15;
+            const taxRate: number = generalTaxRate(config?.billing);
             logger.info(`📊 Using taxRate from DB config: ${taxRate}%`);
 
-            const result = await this.generateInvoice.execute({ order, client, taxRate, logoUrl });
+            const result = await this.generateInvoice.execute({ order, client, taxRate, logoUrl, splitPart, payments, tip });
 
             logger.info('✅ Billing process completed successfully.');
             res.json(result);
@@ -53,6 +57,34 @@ export class BillingController {
         }
     };
 
+    /**
+     * POST /api/billing/generate-consolidated
+     * Una sola factura para varios pedidos sin facturar de un mismo cliente.
+     * Los ítems salen de los pedidos guardados, nunca del cliente.
+     */
+    public generateConsolidated = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { orderIds, client, logoUrl, payments, tip } = req.body;
+            logger.info('⚡ Receiving consolidated billing request', { orderIds });
+
+            if (!Array.isArray(orderIds) || !client) {
+                throw new ValidationError('Order IDs and Client data are required');
+            }
+
+            const config = await this.configRepository.get();
+            const taxRate: number = generalTaxRate(config?.billing);
+
+            const result = await this.generateInvoice.execute({
+                order: { id: orderIds[0] }, client, taxRate, logoUrl, payments, orderIds, tip
+            });
+
+            logger.info('✅ Consolidated billing completed successfully.', { orders: orderIds.length });
+            res.json(result);
+        } catch (error) {
+            next(error);
+        }
+    };
+
     /**
      * FIX D-05: Preview XML before sending to SRI
      * POST /api/billing/preview-xml
@@ -61,7 +93,7 @@ export class BillingController {
     public previewXml = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
         try {
             logger.info('[Preview] Generating XML preview (no SRI submission)');
-            const { order, client, logoUrl } = req.body;
+            const { order, client, logoUrl, payments, tip } = req.body;
 
             if (!order || !client) {
                 throw new ValidationError('Order and Client data are required');
@@ -69,16 +101,25 @@ export class BillingController {
 
             // Get config
             const config = await this.configRepository.get();
-            const taxRate: number = config?.billing?.taxRate ?? 15;
+            const taxRate: number = generalTaxRate(config?.billing);
             const info = config || {} as any;
             // Ambiente desde la BD (configurable en la UI) — fuente única de verdad
             const environment = await this.configRepository.getEnvironment();
 
             // Calculate details
-            const details = this.billingService.calculateDetails(order.items, taxRate);
+            // Con descuentos, el mismo reparto por línea que GenerateInvoice
+            const taxSchedule = taxScheduleOf(config?.billing);
+            const discounted = hasDiscounts(order) ? applyOrderDiscounts(order.items, order.discount) : order.items;
+            const items = applyTaxSchedule(discounted, taxSchedule);
+            const details = this.billingService.calculateDetails(items, taxRate, taxSchedule);
             const subtotal = details.reduce((sum, d) => sum + d.precioTotalSinImpuesto, 0);
             const totalImpuestos = details.reduce((sum, d) => sum + d.impuestos[0].valor, 0);
-            const total = subtotal + totalImpuestos;
+            // Propina fuera de la base de IVA, sumada al importe total como en GenerateInvoice
+            const propina = resolveTip(tip, subtotal, config?.billing?.serviceChargeRate || DEFAULT_SERVICE_CHARGE_RATE)?.amount;
+            const total = subtotal + totalImpuestos + (propina || 0);
+            const pagos = toInvoicePayments(resolvePayments(
+                payments, this.billingService.getPaymentMethodCode(client.paymentMethod || '01'), total
+            ));
 
             // Build preview invoice (without real sequential or access key)
             const previewInvoice: Invoice = {
@@ -105,12 +146,14 @@ export class BillingController {
                     identificacionComprador: client.identification,
                     direccionComprador: client.address,
                     totalSinImpuestos: subtotal,
-                    totalDescuento: 0,
+                    totalDescuento: totalDiscount(details),
                     totalImpuestos: [],
+                    propina,
                     importeTotal: total,
                     moneda: 'DOLAR',
                     emailComprador: client.email,
-                    formaPago: this.billingService.getPaymentMethodCode(client.paymentMethod || '01'),
+                    formaPago: pagos[0].formaPago,
+                    pagos,
                     logoUrl: this.billingService.getLogoUrl(info, logoUrl),
                     tasaIva: taxRate.toString(),
                     telefonoComprador: client.phone,
@@ -141,6 +184,7 @@ export class BillingController {
                         customerIdentification: previewInvoice.info.identificacionComprador,
                         subtotal: subtotal.toFixed(2),
                         tax: totalImpuestos.toFixed(2),
+                        tip: (propina || 0).toFixed(2),
                         total: total.toFixed(2),
                         taxRate: `${taxRate}%`,
                         itemCount: details.length,
@@ -202,7 +246,7 @@ export class BillingController {
 
             // CRITICAL: Read taxRate from DB config for re-submissions too
             const config = await this.configRepository.get();
-            const taxRate: number = config?.billing?.taxRate ?? 15;
+            const taxRate: number = generalTaxRate(config?.billing);
 
             // Reconstruct order and client from Bill data
             const order = {
@@ -216,7 +260,8 @@ export class BillingController {
                 name: bill.customerName,
                 address: bill.customerAddress,
                 email: bill.customerEmail,
-                phone: bill.customerPhone
+                phone: bill.customerPhone,
+                paymentMethod: bill.paymentMethod
             };
 
             // Re-run generation logic using existing Bill ID to update same record
@@ -224,7 +269,8 @@ export class BillingController {
                 order, 
                 client,
                 taxRate,
-                id: bill.id 
+                id: bill.id,
+                payments: bill.payments
             });
 
             res.json(result);
@@ -0,0 +1,154 @@
+/**
+ * @file CashSessionController.ts
+ * @description Controlador HTTP para apertura, movimientos y cierre de caja
+ *
+ * @layer Infrastructure - Interfaces HTTP
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+    OpenCashSession,
+    RecordCashMovement,
+    CloseCashSession,
+    GetCurrentCashSession,
+    GetCashSession,
+    GetCashSessions,
+    GenerateZReport,
+} from '../../application/use-cases/cash';
+import { CashSessionUser } from '../../domain/entities/CashSession';
+import { AuthenticationError } from '../../domain/errors/CustomErrors';
+import { ResponseFormatter } from '../utils/ResponseFormatter';
+import { logger } from '../utils/Logger';
+
+export class CashSessionController {
+    constructor(
+        private openCashSession: OpenCashSession,
+        private recordCashMovement: RecordCashMovement,
+        private closeCashSession: CloseCashSession,
+        private getCurrentCashSession: GetCurrentCashSession,
+        private getCashSession: GetCashSession,
+        private getCashSessions: GetCashSessions,
+        private generateZReport: GenerateZReport
+    ) {}
+
+    /** Empleado autenticado (payload del JWT) */
+    private currentUser(req: Request): CashSessionUser {
+        if (!req.user) {
+            throw new AuthenticationError('No authenticated user');
+        }
+        return { userId: req.user.userId, username: req.user.username };
+    }
+
+    /**
+     * GET /api/cash-sessions/current
+     * Caja abierta del empleado autenticado (null si no tiene)
+     */
+    public getCurrent = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const detail = await this.getCurrentCashSession.execute(this.currentUser(req).userId);
+            res.json(ResponseFormatter.success(detail));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * GET /api/cash-sessions
+     * Query params: limit
+     */
+    public getAll = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const sessions = await this.getCashSessions.execute(Number(req.query.limit) || undefined);
+            res.json(ResponseFormatter.success(sessions));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * GET /api/cash-sessions/:id
+     */
+    public getById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const detail = await this.getCashSession.execute(req.params.id);
+            res.json(ResponseFormatter.success(detail));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * POST /api/cash-sessions
+     * Body: { openingFloat: number, estab?: string, ptoEmi?: string }
+     */
+    public open = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const user = this.currentUser(req);
+            logger.info('Opening cash session', { userId: user.userId, openingFloat: req.body.openingFloat });
+            const session = await this.openCashSession.execute({
+                user,
+                openingFloat: req.body.openingFloat,
+                estab: req.body.estab,
+                ptoEmi: req.body.ptoEmi,
+            });
+            res.status(201).json(ResponseFormatter.success(session));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * POST /api/cash-sessions/:id/movements
+     * Body: { type: 'in' | 'out', amount: number, reason: string } | { creditNoteId: string, amount?: number }
+     */
+    public addMovement = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const session = await this.recordCashMovement.execute({
+                sessionId: req.params.id,
+                user: this.currentUser(req),
+                type: req.body.type,
+                amount: req.body.amount,
+                reason: req.body.reason,
+                creditNoteId: req.body.creditNoteId,
+            });
+            logger.info('Cash movement recorded', { sessionId: session.id, type: req.body.type });
+            res.status(201).json(ResponseFormatter.success(session));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * POST /api/cash-sessions/:id/close
+     * Body: { countedCash: number, notes?: string }
+     */
+    public close = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const session = await this.closeCashSession.execute({
+                sessionId: req.params.id,
+                user: this.currentUser(req),
+                countedCash: req.body.countedCash,
+                notes: req.body.notes,
+            });
+            logger.info('Cash session closed', { id: session.id, difference: session.difference });
+            res.json(ResponseFormatter.success(session));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * GET /api/cash-sessions/:id/z-report
+     * PDF del reporte Z (o X si la caja sigue abierta)
+     */
+    public zReport = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const pdf = await this.generateZReport.execute(req.params.id);
+            res.setHeader('Content-Type', 'application/pdf');
+            res.setHeader('Content-Disposition', `inline; filename=ReporteZ-${req.params.id}.pdf`);
+            res.send(pdf);
+        } catch (error) {
+            next(error);
+        }
+    };
+}
@@ -4,11 +4,10 @@ import { GetCreditNotes } from '../../application/use-cases/GetCreditNotes';
 import { CheckCreditNoteStatus } from '../../application/use-cases/CheckCreditNoteStatus';
 import { DeleteCreditNote } from '../../application/use-cases/DeleteCreditNote';
 import { GetCreditNoteDocument } from '../../application/use-cases/GetCreditNoteDocument';
-import { IRestaurantConfigRepository } from '../../domain/repositories/IRestaurantConfigRepository';
 import { ResponseFormatter } from '../utils/ResponseFormatter';
 import { logger, maskAccessKey } from '../utils/Logger';
 import { ValidationError, NotFoundError } from '../../domain/errors/CustomErrors';
-import { sanitizeSort } from '../utils/QuerySanitizer'; // FIX S-01
+import { sanitizeSort, emailStatusFilter } from '../utils/QuerySanitizer'; // FIX S-01
 
 export class CreditNoteController {
     constructor(
@@ -16,7 +15,6 @@ export class CreditNoteController {
         private getCreditNotes: GetCreditNotes,
         private checkCreditNoteStatus: CheckCreditNoteStatus,
         private deleteCreditNoteUseCase: DeleteCreditNote,
-        private configRepository: IRestaurantConfigRepository,
         private getCreditNoteDocument: GetCreditNoteDocument
     ) { }
 
@@ -66,18 +64,14 @@ export class CreditNoteController {
                 throw new ValidationError('billId y reason son requeridos');
             }
 
-            // CRITICAL: Always read taxRate from DB config — never trust the frontend value.
-            const config = await this.configRepository.get();
-            const taxRate: number = config?.billing?.taxRate ?? 15;
-            logger.info(`📊 Credit Note using taxRate from DB config: ${taxRate}%`);
-
+            // La tarifa de IVA sale de la configuración en la fecha de la factura (GenerateCreditNote),
+            // nunca del frontend.
             logger.info('Generating credit note', { billId, reason });
 
             const result = await this.generateCreditNote.execute({
                 billId,
                 reason,
-                customDescription,
-                taxRate
+                customDescription
             });
 
             logger.info('Credit note generated successfully', {
@@ -101,6 +95,7 @@ export class CreditNoteController {
             if (req.query.documentNumber) filter.documentNumber = req.query.documentNumber;
             if (req.query.customerIdentification) filter.customerIdentification = req.query.customerIdentification;
             if (req.query.reason) filter.reason = req.query.reason;
+            Object.assign(filter, emailStatusFilter(req.query.emailStatus));
 
             // FIX S-01: Sanitize sort params to prevent NoSQL injection
             const sort = sanitizeSort(req.query.sort as string, 'creditNotes');
@@ -0,0 +1,127 @@
+/**
+ * @file DebitNoteController.ts
+ * @description Controlador HTTP para notas de débito (codDoc 05)
+ *
+ * @layer Infrastructure - Interfaces HTTP
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+    GenerateDebitNote,
+    GetDebitNotes,
+    CheckDebitNoteStatus,
+    GetDebitNoteDocument
+} from '../../application/use-cases/debit-notes';
+import { ResponseFormatter } from '../utils/ResponseFormatter';
+import { logger } from '../utils/Logger';
+import { sanitizeSort } from '../utils/QuerySanitizer';
+
+export class DebitNoteController {
+    constructor(
+        private generateDebitNote: GenerateDebitNote,
+        private getDebitNotes: GetDebitNotes,
+        private checkDebitNoteStatus: CheckDebitNoteStatus,
+        private getDebitNoteDocument: GetDebitNoteDocument
+    ) {}
+
+    /**
+     * POST /api/debit-notes
+     * Body: { billId, items: [{ reason, description?, amount, taxRate? }], paymentMethod? }
+     */
+    public create = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const result = await this.generateDebitNote.execute(req.body, req.user?.username);
+            logger.info('Debit note generated', {
+                id: result.debitNote.id,
+                documentNumber: result.debitNote.documentNumber,
+                billId: result.debitNote.billId,
+                status: result.debitNote.sriStatus
+            });
+            res.status(201).json(ResponseFormatter.success(result));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * GET /api/debit-notes
+     * Query params: page, limit, billId, customerIdentification, documentNumber, sriStatus, sort
+     */
+    public getAll = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const page = parseInt(req.query.page as string) || 1;
+            const limit = parseInt(req.query.limit as string) || 50;
+
+            const filter: any = {};
+            if (req.query.billId) filter.billId = String(req.query.billId);
+            if (req.query.customerIdentification) filter.customerIdentification = String(req.query.customerIdentification);
+            if (req.query.documentNumber) filter.documentNumber = String(req.query.documentNumber);
+            if (req.query.sriStatus) filter.sriStatus = String(req.query.sriStatus);
+
+            const sort = sanitizeSort(req.query.sort as string, 'debitNotes');
+            const result = await this.getDebitNotes.executePaginated(page, limit, filter, sort);
+
+            res.json(ResponseFormatter.success(result));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * GET /api/debit-notes/:id
+     */
+    public getById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const debitNote = await this.getDebitNotes.executeById(req.params.id);
+            res.json(ResponseFormatter.success(debitNote));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * POST /api/debit-notes/:id/check-status
+     * Consulta la autorización y reenvía el XML guardado si el SRI no lo tiene
+     */
+    public checkStatus = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const debitNote = await this.checkDebitNoteStatus.execute(req.params.id);
+            logger.info('Debit note status checked', { id: debitNote.id, status: debitNote.sriStatus });
+            res.json(ResponseFormatter.success(debitNote));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * GET /api/debit-notes/:id/xml
+     * Descarga el XML firmado de la nota de débito
+     */
+    public getXml = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { xml, documentNumber } = await this.getDebitNoteDocument.getSignedXml(req.params.id);
+
+            res.setHeader('Content-Type', 'application/xml');
+            res.setHeader('Content-Disposition', `attachment; filename=NotaDebito-${documentNumber}.xml`);
+            res.send(xml);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * GET /api/debit-notes/:id/pdf
+     * Descarga el PDF (RIDE) de la nota de débito
+     */
+    public getPdf = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { pdf, documentNumber } = await this.getDebitNoteDocument.getPdf(req.params.id);
+
+            res.setHeader('Content-Type', 'application/pdf');
+            res.setHeader('Content-Disposition', `inline; filename=NotaDebito-${documentNumber}.pdf`);
+            res.send(pdf);
+        } catch (error) {
+            next(error);
+        }
+    };
+}
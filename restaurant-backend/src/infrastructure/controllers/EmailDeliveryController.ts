@@ -0,0 +1,63 @@
+/**
+ * @file EmailDeliveryController.ts
+ * @description Controlador HTTP del reenvío de comprobantes por email y del webhook de rebotes
+ *
+ * @layer Infrastructure - Interfaces HTTP
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { ResendDocumentEmails, RecordEmailBounce } from '../../application/use-cases/email-delivery';
+import { ResendEmailService } from '../services/ResendEmailService';
+import { AuthenticationError } from '../../domain/errors/CustomErrors';
+import { ResponseFormatter } from '../utils/ResponseFormatter';
+import { logger } from '../utils/Logger';
+
+export class EmailDeliveryController {
+    constructor(
+        private resendDocumentEmails: ResendDocumentEmails,
+        private recordEmailBounce: RecordEmailBounce
+    ) {}
+
+    /**
+     * POST /api/email-deliveries/resend
+     * Body: { documents: [{ type: 'bill' | 'creditNote', id }], email? }
+     */
+    public resend = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const result = await this.resendDocumentEmails.execute(req.body);
+            res.json(ResponseFormatter.success(result));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * POST /api/email-deliveries/webhooks/resend
+     * Eventos de Resend firmados (Svix). Solo interesan los rebotes.
+     */
+    public resendWebhook = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const rawBody: Buffer | undefined = (req as any).rawBody;
+            if (!rawBody || !ResendEmailService.verifyWebhook(rawBody, req.headers)) {
+                throw new AuthenticationError('Firma del webhook inválida');
+            }
+
+            const event = req.body || {};
+            if (event.type !== 'email.bounced' || !event.data?.email_id) {
+                res.json(ResponseFormatter.success({ ignored: true }));
+                return;
+            }
+
+            const bounce = event.data.bounce || {};
+            const result = await this.recordEmailBounce.execute({
+                messageId: event.data.email_id,
+                reason: bounce.message || bounce.subType || bounce.type || 'Email rebotado',
+                bouncedAt: event.created_at
+            });
+            logger.info('[EmailDeliveryController] Webhook de rebote procesado', { matched: result.matched });
+            res.json(ResponseFormatter.success(result));
+        } catch (error) {
+            next(error);
+        }
+    };
+}
@@ -0,0 +1,147 @@
+/**
+ * @file InventoryController.ts
+ * @description Controlador HTTP para ingredientes, kardex y recetas
+ *
+ * @layer Infrastructure - Interfaces HTTP
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+    CreateIngredient,
+    UpdateIngredient,
+    DeleteIngredient,
+    GetIngredients,
+    RecordStockMovement,
+    GetStockMovements,
+    SetMenuItemRecipe,
+} from '../../application/use-cases/inventory';
+import { StockMovementFilter } from '../../domain/repositories/IStockMovementRepository';
+import { ValidationError } from '../../domain/errors/CustomErrors';
+import { ResponseFormatter } from '../utils/ResponseFormatter';
+import { logger } from '../utils/Logger';
+
+export class InventoryController {
+    constructor(
+        private createIngredient: CreateIngredient,
+        private updateIngredient: UpdateIngredient,
+        private deleteIngredient: DeleteIngredient,
+        private getIngredients: GetIngredients,
+        private recordStockMovement: RecordStockMovement,
+        private getStockMovements: GetStockMovements,
+        private setMenuItemRecipe: SetMenuItemRecipe
+    ) {}
+
+    /**
+     * GET /api/inventory/ingredients
+     * Query params: includeInactive=true
+     */
+    public getAll = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const ingredients = await this.getIngredients.execute(req.query.includeInactive === 'true');
+            res.json(ResponseFormatter.success(ingredients));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * POST /api/inventory/ingredients
+     * Body: { name, unit, stock, minStock, cost? }
+     */
+    public create = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const ingredient = await this.createIngredient.execute(req.body, req.user?.username);
+            logger.info('Ingredient created', { id: ingredient.id, name: ingredient.name });
+            res.status(201).json(ResponseFormatter.success(ingredient));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * PUT /api/inventory/ingredients/:id
+     * Body: { name?, unit?, minStock?, cost?, active? } (el stock se corrige con movimientos)
+     */
+    public update = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const ingredient = await this.updateIngredient.execute(req.params.id, req.body);
+            res.json(ResponseFormatter.success(ingredient));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * DELETE /api/inventory/ingredients/:id
+     * Baja lógica (el kardex lo sigue referenciando)
+     */
+    public delete = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            await this.deleteIngredient.execute(req.params.id);
+            res.json(ResponseFormatter.success({ message: 'Ingrediente dado de baja' }));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * GET /api/inventory/movements
+     * Query params: ingredientId, type, from, to (ISO), limit
+     */
+    public getMovements = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const filter: StockMovementFilter = {
+                ingredientId: req.query.ingredientId ? String(req.query.ingredientId) : undefined,
+                type: req.query.type ? (String(req.query.type) as StockMovementFilter['type']) : undefined,
+                from: this.parseDate(req.query.from, 'from'),
+                to: this.parseDate(req.query.to, 'to'),
+            };
+            const movements = await this.getStockMovements.execute(filter, Number(req.query.limit) || undefined);
+            res.json(ResponseFormatter.success(movements));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * POST /api/inventory/ingredients/:id/movements
+     * Body: { type: 'purchase' | 'waste' | 'adjustment', quantity: number, reason?: string }
+     */
+    public addMovement = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const movement = await this.recordStockMovement.execute({
+                ingredientId: req.params.id,
+                type: req.body.type,
+                quantity: req.body.quantity,
+                reason: req.body.reason,
+                createdBy: req.user?.username,
+            });
+            logger.info('Stock movement recorded', { ingredientId: req.params.id, type: req.body.type });
+            res.status(201).json(ResponseFormatter.success(movement));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * PUT /api/inventory/recipes/:menuItemId
+     * Body: { recipe: [{ ingredientId, quantity }] } (cantidades por porción)
+     */
+    public setRecipe = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const menuItem = await this.setMenuItemRecipe.execute(req.params.menuItemId, req.body.recipe);
+            res.json(ResponseFormatter.success(menuItem));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    private parseDate(value: unknown, field: string): Date | undefined {
+        if (!value) return undefined;
+        const date = new Date(String(value));
+        if (isNaN(date.getTime())) {
+            throw new ValidationError(`Fecha inválida en "${field}"`, { field });
+        }
+        return date;
+    }
+}
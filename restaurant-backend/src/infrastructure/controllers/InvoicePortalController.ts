@@ -0,0 +1,83 @@
+/**
+ * @file InvoicePortalController.ts
+ * @description Controlador HTTP del portal público de facturas (sin login)
+ *
+ * @layer Infrastructure - Interfaces HTTP
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { InvoicePortal } from '../../application/use-cases/invoice-portal';
+import { ResponseFormatter } from '../utils/ResponseFormatter';
+
+export class InvoicePortalController {
+    constructor(private invoicePortal: InvoicePortal) {}
+
+    /**
+     * POST /api/public/invoices/lookup
+     * Body: { identification, reference }
+     */
+    public lookup = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const session = await this.invoicePortal.lookup(req.body);
+            res.json(ResponseFormatter.success(session));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * POST /api/public/invoices/code
+     * Body: { identification, email }
+     */
+    public requestCode = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const result = await this.invoicePortal.requestCode(req.body);
+            res.json(ResponseFormatter.success(result));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * POST /api/public/invoices/code/verify
+     * Body: { identification, code }
+     */
+    public verifyCode = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const session = await this.invoicePortal.verifyCode(req.body);
+            res.json(ResponseFormatter.success(session));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * GET /api/public/invoices/:id/pdf?token=
+     */
+    public getPdf = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { pdf, documentNumber } = await this.invoicePortal.getPdf(req.query.token as string | undefined, req.params.id);
+
+            res.setHeader('Content-Type', 'application/pdf');
+            res.setHeader('Content-Disposition', `inline; filename=Factura-${documentNumber}.pdf`);
+            res.send(pdf);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * GET /api/public/invoices/:id/xml?token=
+     */
+    public getXml = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { xml, documentNumber } = await this.invoicePortal.getXml(req.query.token as string | undefined, req.params.id);
+
+            res.setHeader('Content-Type', 'application/xml');
+            res.setHeader('Content-Disposition', `attachment; filename=Factura-${documentNumber}.xml`);
+            res.send(xml);
+        } catch (error) {
+            next(error);
+        }
+    };
+}
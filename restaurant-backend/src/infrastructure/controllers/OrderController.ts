@@ -3,6 +3,10 @@ import { CreateOrder } from '../../application/use-cases/CreateOrder';
 import { GetOrders } from '../../application/use-cases/GetOrders';
 import { UpdateOrder } from '../../application/use-cases/UpdateOrder';
 import { DeleteOrder } from '../../application/use-cases/DeleteOrder';
+import { SplitOrderBill } from '../../application/use-cases/SplitOrderBill';
+import { BumpKitchenStation } from '../../application/use-cases/kitchen';
+import { CancelOrder } from '../../application/use-cases/CancelOrder';
+import { AuthorizeDiscount } from '../../application/use-cases/AuthorizeDiscount';
 import { ResponseFormatter } from '../utils/ResponseFormatter';
 import { logger } from '../utils/Logger';
 import { sanitizeSort } from '../utils/QuerySanitizer'; // FIX S-01
@@ -12,13 +16,19 @@ export class OrderController {
         private createOrder: CreateOrder,
         private getOrders: GetOrders,
         private updateOrder: UpdateOrder,
-        private deleteOrder: DeleteOrder
+        private deleteOrder: DeleteOrder,
+        private splitOrderBill: SplitOrderBill,
+        private bumpKitchenStation: BumpKitchenStation,
+        private cancelOrder: CancelOrder,
+        private authorizeDiscount: AuthorizeDiscount
     ) { }
 
     public create = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
         try {
-            logger.info('Creating new order', { customerName: req.body.customerName });
-            const order = await this.createOrder.execute(req.body);
+            // discountAuthorization: aprobación de un gerente para los descuentos (no se guarda en el pedido)
+            const { discountAuthorization, ...orderData } = req.body;
+            logger.info('Creating new order', { customerName: orderData.customerName });
+            const order = await this.createOrder.execute(orderData, req.user?.username, discountAuthorization);
             logger.info('Order created successfully', { id: order.id });
             res.status(201).json(ResponseFormatter.success(order));
         } catch (error) {
@@ -37,6 +47,7 @@ export class OrderController {
             if (req.query.billed !== undefined) filter.billed = req.query.billed === 'true';
             if (req.query.customerName) filter.customerName = { $regex: req.query.customerName, $options: 'i' };
             if (req.query.billingType) filter.billingType = req.query.billingType;
+            if (req.query.tableId) filter.tableId = String(req.query.tableId);
 
             // FIX S-01: Sanitize sort params to prevent NoSQL injection
             const sort = sanitizeSort(req.query.sort as string, 'orders');
@@ -58,8 +69,12 @@ export class OrderController {
 
     public update = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
         try {
-            logger.info('Updating order', { id: req.params.id, updates: Object.keys(req.body) });
-            const updatedOrder = await this.updateOrder.execute(req.params.id, req.body);
+            // baseUpdatedAt / clientUpdateId llegan con las ediciones que el POS guardó sin conexión
+            const { baseUpdatedAt, clientUpdateId, discountAuthorization, ...updates } = req.body;
+            logger.info('Updating order', { id: req.params.id, updates: Object.keys(updates), offline: !!clientUpdateId });
+            const updatedOrder = await this.updateOrder.execute(
+                req.params.id, updates, req.user?.username, { baseUpdatedAt, clientUpdateId }, discountAuthorization
+            );
             logger.info('Order updated successfully', { id: updatedOrder.id });
             res.json(ResponseFormatter.success(updatedOrder));
         } catch (error) {
@@ -67,6 +82,63 @@ export class OrderController {
         }
     };
 
+    /**
+     * POST /api/orders/discount-authorization
+     * Un gerente aprueba descuentos con su usuario y contraseña ({ username, password })
+     */
+    public approveDiscount = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const result = await this.authorizeDiscount.execute(req.body?.username, req.body?.password, req.user?.username);
+            res.json(ResponseFormatter.success(result));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * PUT /api/orders/:id/split
+     * Define la división de cuenta ({ mode, parts }) o la quita (body { plan: null })
+     */
+    public split = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const plan = req.body?.plan ?? null;
+            logger.info('Splitting order bill', { id: req.params.id, parts: plan?.parts?.length ?? 0 });
+            const order = await this.splitOrderBill.execute(req.params.id, plan);
+            res.json(ResponseFormatter.success(order));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * POST /api/orders/:id/stations/:station/bump
+     * La estación despacha sus ítems ("general" = ítems sin estación)
+     */
+    public bumpStation = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            logger.info('Bumping kitchen station', { id: req.params.id, station: req.params.station });
+            const order = await this.bumpKitchenStation.execute(req.params.id, req.params.station, req.user?.username);
+            res.json(ResponseFormatter.success(order));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * POST /api/orders/:id/cancel
+     * Cancela el pedido con motivo obligatorio ({ reason }); queda en el historial
+     */
+    public cancel = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            logger.info('Cancelling order', { id: req.params.id, user: req.user?.username });
+            const order = await this.cancelOrder.execute(req.params.id, req.body?.reason, req.user?.username || '');
+            logger.info('Order cancelled', { id: order.id });
+            res.json(ResponseFormatter.success(order));
+        } catch (error) {
+            next(error);
+        }
+    };
+
     public delete = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
         try {
             const roleId = req.user?.roleId;
@@ -0,0 +1,125 @@
+/**
+ * @file PurchaseSettlementController.ts
+ * @description Controlador HTTP para liquidaciones de compra (codDoc 03)
+ *
+ * @layer Infrastructure - Interfaces HTTP
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+    GeneratePurchaseSettlement,
+    GetPurchaseSettlements,
+    CheckPurchaseSettlementStatus,
+    GetPurchaseSettlementDocument
+} from '../../application/use-cases/purchase-settlements';
+import { ResponseFormatter } from '../utils/ResponseFormatter';
+import { logger } from '../utils/Logger';
+import { sanitizeSort } from '../utils/QuerySanitizer';
+
+export class PurchaseSettlementController {
+    constructor(
+        private generatePurchaseSettlement: GeneratePurchaseSettlement,
+        private getPurchaseSettlements: GetPurchaseSettlements,
+        private checkPurchaseSettlementStatus: CheckPurchaseSettlementStatus,
+        private getPurchaseSettlementDocument: GetPurchaseSettlementDocument
+    ) {}
+
+    /**
+     * POST /api/purchase-settlements
+     * Body: { supplier: { name, identification, address, email?, phone? }, items: [...], paymentMethod?, notes? }
+     */
+    public create = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const result = await this.generatePurchaseSettlement.execute(req.body, req.user?.username);
+            logger.info('Purchase settlement generated', {
+                id: result.settlement.id,
+                documentNumber: result.settlement.documentNumber,
+                status: result.settlement.sriStatus
+            });
+            res.status(201).json(ResponseFormatter.success(result));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * GET /api/purchase-settlements
+     * Query params: page, limit, supplierIdentification, documentNumber, sriStatus, sort
+     */
+    public getAll = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const page = parseInt(req.query.page as string) || 1;
+            const limit = parseInt(req.query.limit as string) || 50;
+
+            const filter: any = {};
+            if (req.query.supplierIdentification) filter['supplier.identification'] = String(req.query.supplierIdentification);
+            if (req.query.documentNumber) filter.documentNumber = String(req.query.documentNumber);
+            if (req.query.sriStatus) filter.sriStatus = String(req.query.sriStatus);
+
+            const sort = sanitizeSort(req.query.sort as string, 'purchaseSettlements');
+            const result = await this.getPurchaseSettlements.executePaginated(page, limit, filter, sort);
+
+            res.json(ResponseFormatter.success(result));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * GET /api/purchase-settlements/:id
+     */
+    public getById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const settlement = await this.getPurchaseSettlements.executeById(req.params.id);
+            res.json(ResponseFormatter.success(settlement));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * POST /api/purchase-settlements/:id/check-status
+     * Consulta la autorización y reenvía el XML guardado si el SRI no lo tiene
+     */
+    public checkStatus = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const settlement = await this.checkPurchaseSettlementStatus.execute(req.params.id);
+            logger.info('Purchase settlement status checked', { id: settlement.id, status: settlement.sriStatus });
+            res.json(ResponseFormatter.success(settlement));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * GET /api/purchase-settlements/:id/xml
+     * Descarga el XML firmado de la liquidación
+     */
+    public getXml = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { xml, documentNumber } = await this.getPurchaseSettlementDocument.getSignedXml(req.params.id);
+
+            res.setHeader('Content-Type', 'application/xml');
+            res.setHeader('Content-Disposition', `attachment; filename=LiquidacionCompra-${documentNumber}.xml`);
+            res.send(xml);
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * GET /api/purchase-settlements/:id/pdf
+     * Descarga el PDF (RIDE) de la liquidación
+     */
+    public getPdf = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { pdf, documentNumber } = await this.getPurchaseSettlementDocument.getPdf(req.params.id);
+
+            res.setHeader('Content-Type', 'application/pdf');
+            res.setHeader('Content-Disposition', `inline; filename=LiquidacionCompra-${documentNumber}.pdf`);
+            res.send(pdf);
+        } catch (error) {
+            next(error);
+        }
+    };
+}
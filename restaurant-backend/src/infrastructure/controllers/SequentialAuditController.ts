@@ -0,0 +1,48 @@
+/**
+ * @file SequentialAuditController.ts
+ * @description Controlador HTTP del auditor de secuenciales (huecos, duplicados y contadores)
+ *
+ * @layer Infrastructure - Interfaces HTTP
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { AuditSequentials, RepairSequential } from '../../application/use-cases/sequentials';
+import { ResponseFormatter } from '../utils/ResponseFormatter';
+import { logger } from '../utils/Logger';
+
+export class SequentialAuditController {
+    constructor(
+        private auditSequentials: AuditSequentials,
+        private repairSequential: RepairSequential
+    ) {}
+
+    /**
+     * GET /api/sequentials/audit
+     */
+    public audit = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const report = await this.auditSequentials.execute();
+            res.json(ResponseFormatter.success(report));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * POST /api/sequentials/repairs
+     * Body: { action, seriesKey, documentId?, from?, to?, reason }
+     */
+    public repair = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const result = await this.repairSequential.execute(req.body);
+            logger.info('Sequential repair requested', {
+                action: result.action,
+                seriesKey: result.seriesKey,
+                user: req.user?.username
+            });
+            res.json(ResponseFormatter.success(result));
+        } catch (error) {
+            next(error);
+        }
+    };
+}
@@ -0,0 +1,101 @@
+/**
+ * @file TableController.ts
+ * @description Controlador HTTP para gestión de mesas y plano de salón
+ *
+ * @layer Infrastructure - Interfaces HTTP
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+    CreateTable,
+    UpdateTable,
+    DeleteTable,
+    GetTables,
+    SaveFloorPlan,
+} from '../../application/use-cases/tables';
+import { ResponseFormatter } from '../utils/ResponseFormatter';
+import { logger } from '../utils/Logger';
+
+export class TableController {
+    constructor(
+        private createTable: CreateTable,
+        private updateTable: UpdateTable,
+        private deleteTable: DeleteTable,
+        private getTables: GetTables,
+        private saveFloorPlan: SaveFloorPlan
+    ) {}
+
+    /**
+     * GET /api/tables
+     * Query params: activeOnly
+     */
+    public getAll = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const tables = await this.getTables.execute({
+                activeOnly: req.query.activeOnly === 'true',
+            });
+
+            logger.info('Tables fetched successfully', { count: tables.length });
+            res.json(ResponseFormatter.success(tables));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * POST /api/tables
+     */
+    public create = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            logger.info('Creating new table', { name: req.body.name });
+            const table = await this.createTable.execute(req.body);
+            logger.info('Table created successfully', { id: table.id, name: table.name });
+            res.status(201).json(ResponseFormatter.success(table));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * PUT /api/tables/:id
+     */
+    public update = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            logger.info('Updating table', { id: req.params.id });
+            const table = await this.updateTable.execute(req.params.id, req.body);
+            logger.info('Table updated successfully', { id: table.id });
+            res.json(ResponseFormatter.success(table));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * DELETE /api/tables/:id
+     */
+    public delete = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            logger.info('Deleting table', { id: req.params.id });
+            await this.deleteTable.execute(req.params.id);
+            logger.info('Table deleted successfully', { id: req.params.id });
+            res.json(ResponseFormatter.success({ message: 'Table deleted successfully' }));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * PATCH /api/tables/layout
+     * Body: { items: [{ id: string, position: { x, y }, zone?: string }] }
+     */
+    public saveLayout = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { items } = req.body;
+            logger.info('Saving floor plan', { count: items?.length });
+            await this.saveFloorPlan.execute(items);
+            res.json(ResponseFormatter.success({ message: 'Floor plan saved successfully' }));
+        } catch (error) {
+            next(error);
+        }
+    };
+}
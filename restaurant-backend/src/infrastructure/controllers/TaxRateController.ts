@@ -0,0 +1,66 @@
+/**
+ * @file TaxRateController.ts
+ * @description Controlador HTTP de la tabla de IVA: tarifas con que se factura hoy y
+ * re-precio del menú por cambio de tarifa
+ *
+ * @layer Infrastructure - Interfaces HTTP
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { ApplyMenuRepricing, PreviewInvoiceTaxRates, PreviewMenuRepricing } from '../../application/use-cases/tax-rates';
+import { ResponseFormatter } from '../utils/ResponseFormatter';
+import { cacheService } from '../utils/CacheService';
+import { logger } from '../utils/Logger';
+
+export class TaxRateController {
+    constructor(
+        private previewMenuRepricing: PreviewMenuRepricing,
+        private applyMenuRepricing: ApplyMenuRepricing,
+        private previewInvoiceTaxRates: PreviewInvoiceTaxRates
+    ) {}
+
+    /**
+     * POST /api/tax-rates/preview
+     * Body: { taxRates: number[] }
+     */
+    public previewRates = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const preview = await this.previewInvoiceTaxRates.execute(req.body?.taxRates);
+            res.json(ResponseFormatter.success(preview));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * GET /api/tax-rates/repricing?effectiveFrom=YYYY-MM-DD
+     */
+    public preview = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const effectiveFrom = typeof req.query.effectiveFrom === 'string' ? req.query.effectiveFrom : undefined;
+            const preview = await this.previewMenuRepricing.execute(effectiveFrom);
+            res.json(ResponseFormatter.success(preview));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * POST /api/tax-rates/repricing
+     * Body: { effectiveFrom, mode: 'KEEP_BASE' | 'KEEP_PRICE', itemIds? }
+     */
+    public apply = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const result = await this.applyMenuRepricing.execute(req.body);
+            cacheService.invalidate('menu:all');
+            logger.info('Menu repricing applied', {
+                effectiveFrom: req.body?.effectiveFrom,
+                count: result.updated.length,
+                user: req.user?.username
+            });
+            res.json(ResponseFormatter.success(result));
+        } catch (error) {
+            next(error);
+        }
+    };
+}
@@ -0,0 +1,110 @@
+/**
+ * @file WithholdingController.ts
+ * @description Controlador HTTP para retenciones recibidas de clientes (codDoc 07)
+ *
+ * @layer Infrastructure - Interfaces HTTP
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import {
+    RegisterWithholding,
+    GetWithholdings,
+    DeleteWithholding
+} from '../../application/use-cases/withholdings';
+import { ResponseFormatter } from '../utils/ResponseFormatter';
+import { logger } from '../utils/Logger';
+import { sanitizeSort } from '../utils/QuerySanitizer';
+
+export class WithholdingController {
+    constructor(
+        private registerWithholding: RegisterWithholding,
+        private getWithholdings: GetWithholdings,
+        private deleteWithholding: DeleteWithholding
+    ) {}
+
+    /**
+     * POST /api/withholdings
+     * Body: { billId, documentNumber, accessKey?, issueDate, lines: [{ taxType, code, baseAmount, percentage, amount? }], notes? }
+     */
+    public create = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const withholding = await this.registerWithholding.execute(req.body, req.user?.username);
+            logger.info('Withholding registered', {
+                id: withholding.id,
+                documentNumber: withholding.documentNumber,
+                billId: withholding.billId,
+                totalWithheld: withholding.totalWithheld
+            });
+            res.status(201).json(ResponseFormatter.success(withholding));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * POST /api/withholdings/import
+     * Body: { xml } — contenido del XML de retención entregado por el cliente
+     */
+    public importXml = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const withholding = await this.registerWithholding.executeFromXml(req.body?.xml, req.user?.username);
+            logger.info('Withholding imported from XML', {
+                id: withholding.id,
+                documentNumber: withholding.documentNumber,
+                billId: withholding.billId,
+                totalWithheld: withholding.totalWithheld
+            });
+            res.status(201).json(ResponseFormatter.success(withholding));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * GET /api/withholdings
+     * Query params: page, limit, billId, agentIdentification, documentNumber, sort
+     */
+    public getAll = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const page = parseInt(req.query.page as string) || 1;
+            const limit = parseInt(req.query.limit as string) || 50;
+
+            const filter: any = {};
+            if (req.query.billId) filter.billId = String(req.query.billId);
+            if (req.query.agentIdentification) filter.agentIdentification = String(req.query.agentIdentification);
+            if (req.query.documentNumber) filter.documentNumber = String(req.query.documentNumber);
+
+            const sort = sanitizeSort(req.query.sort as string, 'withholdings');
+            const result = await this.getWithholdings.executePaginated(page, limit, filter, sort);
+
+            res.json(ResponseFormatter.success(result));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * GET /api/withholdings/:id
+     */
+    public getById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const withholding = await this.getWithholdings.executeById(req.params.id);
+            res.json(ResponseFormatter.success(withholding));
+        } catch (error) {
+            next(error);
+        }
+    };
+
+    /**
+     * DELETE /api/withholdings/:id
+     * Elimina una retención registrada por error y recalcula la factura
+     */
+    public delete = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            await this.deleteWithholding.execute(req.params.id);
+            res.json(ResponseFormatter.success({ message: 'Retención eliminada' }));
+        } catch (error) {
+            next(error);
+        }
+    };
+}
@@ -20,6 +20,14 @@ import { Bill } from '../../../domain/entities/Bill';
 export interface IBillDocument extends Document, Omit<Bill, 'id'> {
 }
 
+/** Propina o cargo por servicio (campo propina del SRI, fuera de la base de IVA) */
+const BillTipSchema = new Schema({
+    type: { type: String, enum: ['SERVICE_CHARGE', 'AMOUNT'], required: true },
+    value: { type: Number, required: true },
+    amount: { type: Number, required: true },
+    employee: { type: String }
+}, { _id: false });
+
 const BillSchema = new Schema({
     documentNumber: { type: String, required: true },
     orderId: { type: String, required: true },
@@ -34,7 +42,8 @@ const BillSchema = new Schema({
         quantity: { type: Number, required: true },
         price: { type: Number, required: true },
         total: { type: Number, required: true },
-        taxRate: { type: Number, default: 15 }  // Tasa de IVA por item (0, 5, 12, 15)
+        taxRate: { type: Number, default: 15 },  // Tasa de IVA por item (0, 5, 12, 15)
+        discountAmount: { type: Number }  // Descuento con IVA (total ya lo tiene restado)
     }],
     subtotal: { type: Number, required: true },
     tax: { type: Number, required: true },
@@ -49,10 +58,36 @@ const BillSchema = new Schema({
     hasCreditNote: { type: Boolean, default: false },
     customerPhone: { type: String },
     paymentMethod: { type: String },
+    payments: [{
+        _id: false,
+        method: { type: String, required: true },
+        amount: { type: Number, required: true },
+        term: { type: Number, default: 0 },
+        received: { type: Number }
+    }],
     sriMessage: { type: String },
     xmlContent: { type: String },
     retryCount: { type: Number, default: 0 },
     lastRetryDate: { type: String },
+    splitPart: { type: Number }, // Parte de una cuenta dividida (varias facturas por pedido)
+    orderIds: { type: [String], default: undefined }, // Factura consolidada: todos los pedidos que cubre
+    tip: { type: BillTipSchema, default: undefined },
+    // Totales de las retenciones recibidas (se recalculan desde la colección Withholding)
+    withheldIva: { type: Number },
+    withheldRenta: { type: Number },
+    /** Resultado del último envío por email (el rebote llega por webhook del proveedor) */
+    emailDelivery: {
+        _id: false,
+        status: { type: String, enum: ['SENT', 'SKIPPED', 'FAILED', 'BOUNCED'] },
+        to: { type: String },
+        provider: { type: String },
+        messageId: { type: String },
+        error: { type: String },
+        skipReason: { type: String },
+        attempts: { type: Number, default: 0 },
+        lastAttemptAt: { type: String },
+        bouncedAt: { type: String }
+    },
     /** Historial acumulado de errores del SRI. Nunca se sobreescribe, se acumula con $push */
     errorLog: [{
         timestamp: { type: String, required: true },
@@ -67,6 +102,7 @@ const BillSchema = new Schema({
 // ==================== INDEXES FOR PERFORMANCE ====================
 BillSchema.index({ documentNumber: 1 }, { unique: true }); // Unique document numbers
 BillSchema.index({ orderId: 1 }); // For finding bills by order
+BillSchema.index({ orderIds: 1 }, { sparse: true }); // Facturas consolidadas que incluyen un pedido
 BillSchema.index({ date: -1 }); // For sorting by date
 BillSchema.index({ customerIdentification: 1 }); // For customer bill lookup
 BillSchema.index({ createdAt: -1 }); // For sorting by creation date
@@ -74,6 +110,8 @@ BillSchema.index({ createdAt: -1 }); // For sorting by creation date
 // CRITICAL compound indexes for SRI monitoring and reporting
 BillSchema.index({ sriStatus: 1, customerIdentification: 1 }); // SRI status per customer
 BillSchema.index({ sriStatus: 1, createdAt: -1 }); // Failed/pending bills sorted by date
+BillSchema.index({ 'emailDelivery.status': 1, createdAt: -1 }); // Filtro por estado de envío de email
+BillSchema.index({ 'emailDelivery.messageId': 1 }, { sparse: true }); // Webhook de rebotes
 
 // Configure toObject to map _id to id
 BillSchema.set('toObject', {
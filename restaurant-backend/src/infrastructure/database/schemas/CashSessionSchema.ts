@@ -0,0 +1,74 @@
+/**
+ * @file CashSessionSchema.ts
+ * @description Schema de Mongoose para la colección de sesiones de caja
+ *
+ * @purpose
+ * Define la estructura de datos de MongoDB para las aperturas/cierres de caja,
+ * sus movimientos manuales y el resumen congelado al cierre (reporte Z).
+ *
+ * @connections
+ * - Usa: CashSession entity (domain/entities) - como referencia de tipos
+ * - Usado por: MongoCashSessionRepository (infrastructure/repositories)
+ * - Exporta: CashSessionModel para operaciones de BD
+ *
+ * @layer Infrastructure - Persistencia de datos
+ */
+
+import mongoose, { Schema, Document } from 'mongoose';
+import { CashSession } from '../../../domain/entities/CashSession';
+
+export interface ICashSessionDocument extends Document, Omit<CashSession, 'id'> {
+}
+
+const UserRefSchema = new Schema({
+    userId: { type: String, required: true },
+    username: { type: String, required: true }
+}, { _id: false });
+
+const CashMovementSchema = new Schema({
+    id: { type: String, required: true },
+    type: { type: String, enum: ['in', 'out'], required: true },
+    amount: { type: Number, required: true, min: 0.01 },
+    reason: { type: String, required: true, trim: true },
+    creditNoteId: { type: String },
+    createdBy: { type: UserRefSchema, required: true },
+    createdAt: { type: Date, required: true }
+}, { _id: false });
+
+const CashSessionSchema = new Schema({
+    estab: { type: String, required: true },
+    ptoEmi: { type: String, required: true },
+    status: { type: String, enum: ['open', 'closed'], default: 'open' },
+    openedBy: { type: UserRefSchema, required: true },
+    openedAt: { type: Date, required: true },
+    openingFloat: { type: Number, required: true, min: 0 },
+    movements: { type: [CashMovementSchema], default: [] },
+    closedBy: { type: UserRefSchema },
+    closedAt: { type: Date },
+    countedCash: { type: Number },
+    difference: { type: Number },
+    summary: {
+        type: new Schema({
+            billCount: Number,
+            salesTotal: Number,
+            paymentTotals: [{ _id: false, method: String, label: String, count: Number, amount: Number }],
+            cashSales: Number,
+            cashIn: Number,
+            cashOut: Number,
+            expectedCash: Number
+        }, { _id: false })
+    },
+    notes: { type: String }
+}, {
+    timestamps: true
+});
+
+// Una sola caja abierta por punto de emisión
+CashSessionSchema.index(
+    { estab: 1, ptoEmi: 1 },
+    { unique: true, partialFilterExpression: { status: 'open' } }
+);
+CashSessionSchema.index({ 'openedBy.userId': 1, status: 1 });
+CashSessionSchema.index({ openedAt: -1 });
+
+export const CashSessionModel = mongoose.model<ICashSessionDocument>('CashSession', CashSessionSchema);
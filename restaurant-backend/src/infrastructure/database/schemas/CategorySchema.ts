@@ -25,6 +25,7 @@ export interface CategoryDocument extends Document {
     visibleOnWebsite: boolean;
     sortOrder: number;
     available: boolean;
+    stationId?: string | null;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -63,6 +64,11 @@ const CategorySchema: Schema = new Schema(
             type: Boolean,
             default: true,
         },
+        // Estación de cocina por defecto de los platos de la categoría
+        stationId: {
+            type: String,
+            default: null,
+        },
     },
     { timestamps: true }
 );
@@ -51,6 +51,19 @@ const CreditNoteSchema = new Schema({
     lastRetryDate: { type: String },
     /** Mensaje del último error del SRI */
     sriMessage: { type: String },
+    /** Resultado del último envío por email (el rebote llega por webhook del proveedor) */
+    emailDelivery: {
+        _id: false,
+        status: { type: String, enum: ['SENT', 'SKIPPED', 'FAILED', 'BOUNCED'] },
+        to: { type: String },
+        provider: { type: String },
+        messageId: { type: String },
+        error: { type: String },
+        skipReason: { type: String },
+        attempts: { type: Number, default: 0 },
+        lastAttemptAt: { type: String },
+        bouncedAt: { type: String }
+    },
     /** Historial acumulado de errores del SRI. Nunca se sobreescribe, se acumula con $push */
     errorLog: [{
         timestamp: { type: String, required: true },
@@ -70,6 +83,8 @@ CreditNoteSchema.index({ date: -1 }); // For sorting by date
 CreditNoteSchema.index({ customerIdentification: 1 }); // For customer credit note lookup
 CreditNoteSchema.index({ createdAt: -1 }); // For sorting by creation date
 CreditNoteSchema.index({ accessKey: 1 }); // For SRI lookups
+CreditNoteSchema.index({ 'emailDelivery.status': 1, createdAt: -1 }); // Filtro por estado de envío de email
+CreditNoteSchema.index({ 'emailDelivery.messageId': 1 }, { sparse: true }); // Webhook de rebotes
 
 // Configure toObject to map _id to id
 CreditNoteSchema.set('toObject', {
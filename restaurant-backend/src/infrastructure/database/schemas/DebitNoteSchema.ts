@@ -0,0 +1,74 @@
+/**
+ * @file DebitNoteSchema.ts
+ * @description Schema de Mongoose para la colección de Notas de Débito
+ *
+ * @purpose
+ * Define la estructura de datos de MongoDB para notas de débito electrónicas
+ * (SRI Ecuador, codDoc 05) emitidas sobre facturas autorizadas.
+ *
+ * @connections
+ * - Usa: DebitNote entity (domain/entities) - como referencia de tipos
+ * - Usado por: MongoDebitNoteRepository (infrastructure/repositories)
+ * - Exporta: DebitNoteModel para operaciones de BD
+ *
+ * @layer Infrastructure - Persistencia de datos
+ */
+
+import mongoose, { Schema, Document } from 'mongoose';
+import { DebitNote } from '../../../domain/entities/DebitNote';
+
+export interface DebitNoteDocument extends Document, Omit<DebitNote, 'id' | 'billId'> {
+    billId: mongoose.Types.ObjectId;
+}
+
+const DebitNoteSchema = new Schema({
+    documentNumber: { type: String, required: true }, // 001-001-000000001
+    date: { type: String, required: true }, // ISO
+    billId: { type: Schema.Types.ObjectId, ref: 'Bill', required: true },
+    billDocumentNumber: { type: String, required: true },
+    billDate: { type: String, required: true },
+    originalAccessKey: { type: String, required: true },
+    customerName: { type: String, required: true },
+    customerIdentification: { type: String, required: true },
+    customerAddress: { type: String },
+    customerEmail: { type: String },
+    items: [{
+        reason: { type: String, required: true },
+        description: { type: String, required: true },
+        amount: { type: Number, required: true },
+        taxRate: { type: Number, required: true },
+        tax: { type: Number, required: true },
+        total: { type: Number, required: true }
+    }],
+    paymentMethod: { type: String, required: true, default: '01' },
+    subtotal: { type: Number, required: true },
+    tax: { type: Number, required: true },
+    total: { type: Number, required: true },
+    accessKey: { type: String, unique: true, sparse: true },
+    sriStatus: { type: String },
+    environment: { type: String }, // '1' (pruebas) o '2' (producción)
+    authorizationDate: { type: String },
+    /** XML firmado enviado al SRI — permite reenviarlo sin volver a firmar */
+    xmlContent: { type: String },
+    sriMessage: { type: String },
+    /** Historial acumulado de errores del SRI. Nunca se sobreescribe, se acumula con $push */
+    errorLog: [{
+        timestamp: { type: String, required: true },
+        sriStatus: { type: String, required: true },
+        message: { type: String, required: true },
+        attempt: { type: Number, required: true }
+    }],
+    createdBy: { type: String }
+}, {
+    timestamps: true
+});
+
+// ==================== INDEXES FOR PERFORMANCE ====================
+// Un mismo número puede existir en pruebas y en producción (secuenciales separados)
+DebitNoteSchema.index({ documentNumber: 1, environment: 1 }, { unique: true });
+DebitNoteSchema.index({ billId: 1 });
+DebitNoteSchema.index({ customerIdentification: 1 });
+DebitNoteSchema.index({ sriStatus: 1, createdAt: -1 }); // Reintentos del cron
+DebitNoteSchema.index({ createdAt: -1 });
+
+export const DebitNoteModel = mongoose.model<DebitNoteDocument>('DebitNote', DebitNoteSchema);
@@ -0,0 +1,49 @@
+/**
+ * @file IngredientSchema.ts
+ * @description Schema de Mongoose para la colección de ingredientes
+ *
+ * @purpose
+ * Define la estructura de datos de MongoDB para el catálogo de ingredientes
+ * del inventario y su stock actual.
+ *
+ * @connections
+ * - Usa: Ingredient entity (domain/entities) - como referencia de tipos
+ * - Usado por: MongoIngredientRepository (infrastructure/repositories)
+ * - Exporta: IngredientModel para operaciones de BD
+ *
+ * @layer Infrastructure - Persistencia de datos
+ */
+
+import mongoose, { Schema, Document } from 'mongoose';
+import { IngredientUnit } from '../../../domain/entities/Ingredient';
+import { INGREDIENT_UNITS } from '../../../domain/inventory/stock';
+
+export interface IngredientDocument extends Document {
+    name: string;
+    unit: IngredientUnit;
+    stock: number;
+    minStock: number;
+    cost?: number;
+    active: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const IngredientSchema: Schema = new Schema(
+    {
+        name: { type: String, required: true, unique: true, trim: true },
+        unit: { type: String, enum: INGREDIENT_UNITS, required: true },
+        // Sin mínimo: una venta sin compras registradas deja el stock en negativo
+        stock: { type: Number, default: 0 },
+        minStock: { type: Number, default: 0, min: 0 },
+        cost: { type: Number, min: 0 },
+        active: { type: Boolean, default: true },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+IngredientSchema.index({ active: 1, name: 1 });
+
+export const IngredientModel = mongoose.model<IngredientDocument>('Ingredient', IngredientSchema);
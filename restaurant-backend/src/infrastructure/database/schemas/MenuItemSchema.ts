@@ -15,7 +15,8 @@
  */
 
 import mongoose, { Schema, Document } from 'mongoose';
-import { MenuItem } from '../../../domain/entities/MenuItem';
+import { MenuItem, ModifierGroup } from '../../../domain/entities/MenuItem';
+import { IngredientQuantity } from '../../../domain/entities/Ingredient';
 
 export interface MenuItemDocument extends Document {
     name: string;
@@ -26,8 +27,34 @@ export interface MenuItemDocument extends Document {
     categoryId?: mongoose.Types.ObjectId; // Referencia a Category
     available: boolean;
     taxRate: number;
+    modifierGroups?: ModifierGroup[];
+    stationId?: string | null;
+    recipe?: IngredientQuantity[];
 }
 
+// Grupos de modificadores (tamaño, acompañante, extras, exclusiones)
+const ModifierOptionSchema = new Schema({
+    id: { type: String, required: true },
+    name: { type: String, required: true },
+    priceDelta: { type: Number, default: 0 },
+    available: { type: Boolean, default: true }
+}, { _id: false });
+
+const ModifierGroupSchema = new Schema({
+    id: { type: String, required: true },
+    name: { type: String, required: true },
+    type: { type: String, enum: ['size', 'side', 'extra', 'removal'], required: true },
+    minChoices: { type: Number, default: 0, min: 0 },
+    maxChoices: { type: Number, default: 1, min: 1 },
+    options: { type: [ModifierOptionSchema], default: [] }
+}, { _id: false });
+
+// Receta: cantidad de cada ingrediente por porción
+const RecipeLineSchema = new Schema({
+    ingredientId: { type: String, required: true },
+    quantity: { type: Number, required: true, min: 0 }
+}, { _id: false });
+
 const MenuItemSchema: Schema = new Schema({
     name: { type: String, required: true },
     description: { type: String },
@@ -36,7 +63,10 @@ const MenuItemSchema: Schema = new Schema({
     category: { type: String, required: true }, // Se mantiene para compatibilidad
     categoryId: { type: Schema.Types.ObjectId, ref: 'Category' }, // Nueva referencia
     available: { type: Boolean, default: true },
-    taxRate: { type: Number, default: 15, min: 0, max: 100 } // IVA por producto (0, 5, 12, 15)
+    taxRate: { type: Number, default: 15, min: 0, max: 100 }, // IVA por producto (0, 5, 12, 15)
+    modifierGroups: { type: [ModifierGroupSchema], default: [] },
+    stationId: { type: String, default: null }, // Estación de cocina (vacío = la de la categoría)
+    recipe: { type: [RecipeLineSchema], default: [] }
 }, { timestamps: true });
 
 // Índice para filtrado por categoría
@@ -15,21 +15,51 @@
  */
 
 import mongoose, { Schema, Document } from 'mongoose';
-import { Order, OrderStatus } from '../../../domain/entities/Order';
+import { IngredientQuantity } from '../../../domain/entities/Ingredient';
+import { Order, OrderCancellation, OrderDiscount, OrderItemModifier, OrderStatus, OrderStatusChange, SplitBilling } from '../../../domain/entities/Order';
 
 export interface OrderDocument extends Document {
     customerName: string;
-    items: { name: string; quantity: number; price?: number; taxRate?: number; notes?: string; originalPrice?: number }[];
+    items: { name: string; quantity: number; price?: number; taxRate?: number; notes?: string; originalPrice?: number; discount?: OrderDiscount | null; modifiers?: OrderItemModifier[]; station?: string | null }[];
     type: 'En Local' | 'Delivery' | 'Para Llevar';
     status: OrderStatus;
     createdAt: Date;
+    updatedAt?: Date;
     readyAt?: Date;
     estimatedMinutes?: number;
     estimateSetAt?: Date;
     billed?: boolean;
+    billingClaim?: string;
     billingType?: 'Factura' | 'Consumidor Final' | 'Sin Factura';
+    tableId?: string | null;
+    discount?: OrderDiscount | null;
+    splitBilling?: SplitBilling | null;
+    statusHistory?: OrderStatusChange[];
+    cancellation?: OrderCancellation | null;
+    stockDeduction?: IngredientQuantity[];
+    clientRequestId?: string;
+    lastClientUpdateId?: string | null;
 }
 
+// Copia de los modificadores elegidos: el pedido no cambia si luego se edita el menú
+const OrderItemModifierSchema = new Schema({
+    groupId: { type: String },
+    groupName: { type: String, required: true },
+    type: { type: String, enum: ['size', 'side', 'extra', 'removal'], required: true },
+    name: { type: String, required: true },
+    priceDelta: { type: Number, default: 0 }
+}, { _id: false });
+
+// Descuento de una línea o del pedido completo: quién lo autorizó y por qué
+const OrderDiscountSchema = new Schema({
+    type: { type: String, enum: ['PERCENTAGE', 'AMOUNT'], required: true },
+    value: { type: Number, required: true },
+    reason: { type: String, required: true },
+    authorizedBy: { type: String },
+    authorizedAt: { type: Date },
+    amount: { type: Number }
+}, { _id: false });
+
 const OrderSchema: Schema = new Schema({
     customerName: { type: String, required: true },
     items: [{
@@ -39,18 +69,74 @@ const OrderSchema: Schema = new Schema({
         prepared: { type: Boolean, default: false },
         taxRate: { type: Number },
         notes: { type: String },
-        originalPrice: { type: Number }
+        originalPrice: { type: Number },
+        discount: { type: OrderDiscountSchema, default: null },
+        modifiers: { type: [OrderItemModifierSchema], default: undefined },
+        station: { type: String, default: null } // Estación de cocina (null = general)
     }],
     type: { type: String, enum: ['En Local', 'Delivery', 'Para Llevar'], required: true },
     status: { type: String, enum: Object.values(OrderStatus), default: OrderStatus.New },
     billed: { type: Boolean, default: false },
+    billingClaim: { type: String }, // Emisión en curso que reservó el pedido (factura consolidada)
     billingType: { type: String, enum: ['Factura', 'Consumidor Final', 'Sin Factura'] },
     orderNumber: { type: String },
     estimatedMinutes: { type: Number },
     readyAt: { type: Date },
-    estimateSetAt: { type: Date }
+    estimateSetAt: { type: Date },
+    tableId: { type: String, default: null }, // Mesa del plano de salón (pedidos 'En Local')
+    discount: { type: OrderDiscountSchema, default: null }, // Descuento de todo el pedido
+    splitBilling: {
+        type: {
+            mode: { type: String, enum: ['items', 'quantity', 'even'], required: true },
+            parts: [{
+                _id: false,
+                part: { type: Number, required: true },
+                items: [{
+                    _id: false,
+                    id: { type: String },
+                    name: { type: String, required: true },
+                    quantity: { type: Number, required: true },
+                    price: { type: Number },
+                    taxRate: { type: Number },
+                    modifiers: { type: [OrderItemModifierSchema], default: undefined },
+                    total: { type: Number, required: true }
+                }],
+                total: { type: Number, required: true },
+                billId: { type: String, default: null },
+                documentNumber: { type: String, default: null },
+                consumidorFinal: { type: Boolean },
+                invoicedAt: { type: Date, default: null }
+            }]
+        },
+        default: null
+    },
+    // Historial de estados: quién y cuándo (el motivo solo en cancelaciones)
+    statusHistory: [{
+        _id: false,
+        status: { type: String, enum: Object.values(OrderStatus), required: true },
+        at: { type: Date, required: true },
+        by: { type: String, default: null },
+        reason: { type: String }
+    }],
+    cancellation: {
+        type: {
+            reason: { type: String, required: true },
+            by: { type: String, required: true },
+            at: { type: Date, required: true }
+        },
+        default: null
+    },
+    // Ingredientes ya descontados del inventario por este pedido
+    stockDeduction: [{
+        _id: false,
+        ingredientId: { type: String, required: true },
+        quantity: { type: Number, required: true }
+    }],
+    // Sincronización del POS sin conexión (idempotencia de reenvíos)
+    clientRequestId: { type: String },
+    lastClientUpdateId: { type: String, default: null }
 }, {
-    timestamps: { createdAt: true, updatedAt: false } // We use createdAt from timestamps. Schema updated for prepared flag.
+    timestamps: true // createdAt para el orden; updatedAt detecta conflictos de ediciones sin conexión
 });
 
 // ==================== INDEXES FOR PERFORMANCE ====================
@@ -69,4 +155,10 @@ OrderSchema.index({ billed: 1, createdAt: -1 }); // Unbilled orders sorted by da
 // Used by kitchen views, delivery tracking, and order management
 OrderSchema.index({ type: 1, status: 1 });
 
+// Vista de salón: pedido abierto de cada mesa
+OrderSchema.index({ tableId: 1, status: 1 });
+
+// Un pedido creado sin conexión se reenvía hasta recibir respuesta: el ID del POS no se repite
+OrderSchema.index({ clientRequestId: 1 }, { unique: true, sparse: true });
+
 export const OrderModel = mongoose.model<OrderDocument>('Order', OrderSchema);
@@ -0,0 +1,72 @@
+/**
+ * @file PurchaseSettlementSchema.ts
+ * @description Schema de Mongoose para la colección de Liquidaciones de Compra
+ *
+ * @purpose
+ * Define la estructura de datos de MongoDB para liquidaciones de compra
+ * electrónicas (SRI Ecuador, codDoc 03) emitidas a proveedores informales.
+ *
+ * @connections
+ * - Usa: PurchaseSettlement entity (domain/entities) - como referencia de tipos
+ * - Usado por: MongoPurchaseSettlementRepository (infrastructure/repositories)
+ * - Exporta: PurchaseSettlementModel para operaciones de BD
+ *
+ * @layer Infrastructure - Persistencia de datos
+ */
+
+import mongoose, { Schema, Document } from 'mongoose';
+import { PurchaseSettlement } from '../../../domain/entities/PurchaseSettlement';
+
+export interface PurchaseSettlementDocument extends Document, Omit<PurchaseSettlement, 'id'> {
+}
+
+const PurchaseSettlementSchema = new Schema({
+    documentNumber: { type: String, required: true }, // 001-001-000000001
+    date: { type: String, required: true }, // ISO
+    supplier: {
+        name: { type: String, required: true, trim: true },
+        identification: { type: String, required: true, trim: true },
+        identificationType: { type: String, required: true, enum: ['04', '05', '06', '08'] },
+        address: { type: String, required: true, trim: true },
+        email: { type: String, trim: true },
+        phone: { type: String, trim: true }
+    },
+    items: [{
+        description: { type: String, required: true },
+        quantity: { type: Number, required: true },
+        unitPrice: { type: Number, required: true },
+        taxRate: { type: Number, required: true },
+        subtotal: { type: Number, required: true },
+        tax: { type: Number, required: true }
+    }],
+    paymentMethod: { type: String, required: true, default: '01' },
+    notes: { type: String },
+    subtotal: { type: Number, required: true },
+    tax: { type: Number, required: true },
+    total: { type: Number, required: true },
+    accessKey: { type: String, unique: true, sparse: true },
+    sriStatus: { type: String },
+    environment: { type: String }, // '1' (pruebas) o '2' (producción)
+    authorizationDate: { type: String },
+    /** XML firmado enviado al SRI — permite reenviarlo sin volver a firmar */
+    xmlContent: { type: String },
+    sriMessage: { type: String },
+    /** Historial acumulado de errores del SRI. Nunca se sobreescribe, se acumula con $push */
+    errorLog: [{
+        timestamp: { type: String, required: true },
+        sriStatus: { type: String, required: true },
+        message: { type: String, required: true },
+        attempt: { type: Number, required: true }
+    }],
+    createdBy: { type: String }
+}, {
+    timestamps: true
+});
+
+// ==================== INDEXES FOR PERFORMANCE ====================
+// Un mismo número puede existir en pruebas y en producción (secuenciales separados)
+PurchaseSettlementSchema.index({ documentNumber: 1, environment: 1 }, { unique: true });
+PurchaseSettlementSchema.index({ 'supplier.identification': 1 });
+PurchaseSettlementSchema.index({ createdAt: -1 });
+
+export const PurchaseSettlementModel = mongoose.model<PurchaseSettlementDocument>('PurchaseSettlement', PurchaseSettlementSchema);
@@ -6,6 +6,23 @@
  */
 
 import mongoose, { Schema } from 'mongoose';
+import { DEFAULT_KITCHEN_STATIONS } from '../../../domain/kitchen/stations';
+
+// Tramo de la tabla de IVA: desde effectiveFrom ('YYYY-MM-DD', día en Ecuador) rige rate
+const TaxRatePeriodSchema = new Schema({
+    rate: { type: Number, required: true, min: 0, max: 100 },
+    code: { type: String, required: true },  // codigoPorcentaje del SRI
+    effectiveFrom: { type: String, required: true }
+}, { _id: false });
+
+// Plantilla del RIDE: formato, ancho del rollo térmico, logo, QR y pie propio
+const PrintLayoutSchema = new Schema({
+    format: { type: String, enum: ['A4', 'ticket'], default: 'A4' },
+    ticketWidth: { type: Number, enum: [58, 80], default: 80 },
+    showLogo: { type: Boolean, default: true },
+    showQr: { type: Boolean, default: true },
+    footerText: { type: String, default: '' }
+}, { _id: false });
 
 const RestaurantConfigSchema = new Schema({
     _id: { type: String, default: 'restaurant-config', required: true },
@@ -54,14 +71,22 @@ const RestaurantConfigSchema = new Schema({
         },
         agenteRetencion: { type: String },
         taxRate: { type: Number, default: 15, min: 0, max: 100 }, // Tarifa IVA configurable (ej: 15, 12, 8, 0)
+        taxSchedule: { type: [TaxRatePeriodSchema], default: [] }, // Tarifas IVA con fecha de vigencia
+        serviceChargeRate: { type: Number, default: 0, min: 0, max: 100 }, // Cargo por servicio (propina) del local
+        printLayout: { type: PrintLayoutSchema }, // Plantilla del RIDE (facturas y notas de crédito)
         // Secuenciales de PRODUCCIÓN (ambiente '2')
         currentSequenceFactura: { type: Number, required: true, default: 1 },
         currentSequenceNotaCredito: { type: Number, required: true, default: 1 },
         currentSequenceNotaVenta: { type: Number, required: true, default: 1 },
+        // Notas de débito y liquidaciones de compra: empiezan en 0 para que la primera sea la 000000001
+        currentSequenceNotaDebito: { type: Number, default: 0 },
+        currentSequenceLiquidacionCompra: { type: Number, default: 0 },
         // Secuenciales de PRUEBAS (ambiente '1') - separados para no afectar producción
         testSequenceFactura: { type: Number, default: 1 },
         testSequenceNotaCredito: { type: Number, default: 1 },
-        testSequenceNotaVenta: { type: Number, default: 1 }
+        testSequenceNotaVenta: { type: Number, default: 1 },
+        testSequenceNotaDebito: { type: Number, default: 0 },
+        testSequenceLiquidacionCompra: { type: Number, default: 0 }
     },
 
     // Certificado Digital SRI (firma electrónica .p12)
@@ -124,6 +149,19 @@ const RestaurantConfigSchema = new Schema({
         }
     },
 
+    // Estaciones de cocina: los ítems de los pedidos guardan el id
+    kitchenStations: {
+        type: [{
+            _id: false,
+            id: { type: String, required: true },
+            name: { type: String, required: true }
+        }],
+        default: () => DEFAULT_KITCHEN_STATIONS.map(station => ({ ...station }))
+    },
+
+    // Inventario: momento en que los pedidos descuentan stock
+    inventoryDeductOn: { type: String, enum: ['created', 'completed'], default: 'created' },
+
     // Metadata para migraciones y configuraciones internas
     metadata: { type: Object, default: {} }
 }, {
@@ -0,0 +1,48 @@
+/**
+ * @file StockMovementSchema.ts
+ * @description Schema de Mongoose para el kardex de inventario
+ *
+ * @purpose
+ * Cada cambio de stock (venta, devolución, compra, conteo, merma) queda como
+ * un documento inmutable con el stock resultante y su origen.
+ *
+ * @connections
+ * - Usa: StockMovement entity (domain/entities/Ingredient) - como referencia de tipos
+ * - Usado por: MongoStockMovementRepository (infrastructure/repositories)
+ * - Exporta: StockMovementModel para operaciones de BD
+ *
+ * @layer Infrastructure - Persistencia de datos
+ */
+
+import mongoose, { Schema, Document } from 'mongoose';
+import { StockMovement } from '../../../domain/entities/Ingredient';
+import { INGREDIENT_UNITS } from '../../../domain/inventory/stock';
+
+export interface StockMovementDocument extends Document, Omit<StockMovement, 'id'> {
+}
+
+const StockMovementSchema = new Schema({
+    ingredientId: { type: String, required: true },
+    ingredientName: { type: String, required: true },
+    unit: { type: String, enum: INGREDIENT_UNITS, required: true },
+    type: { type: String, enum: ['sale', 'reversal', 'purchase', 'adjustment', 'waste'], required: true },
+    quantity: { type: Number, required: true },
+    stockAfter: { type: Number, required: true },
+    reference: {
+        type: new Schema({
+            kind: { type: String, enum: ['order', 'creditNote'], required: true },
+            id: { type: String, required: true },
+            label: { type: String }
+        }, { _id: false }),
+        default: null
+    },
+    reason: { type: String, trim: true },
+    createdBy: { type: String, default: null },
+    createdAt: { type: Date, required: true }
+});
+
+StockMovementSchema.index({ createdAt: -1 });
+StockMovementSchema.index({ ingredientId: 1, createdAt: -1 });
+StockMovementSchema.index({ 'reference.kind': 1, 'reference.id': 1 });
+
+export const StockMovementModel = mongoose.model<StockMovementDocument>('StockMovement', StockMovementSchema);
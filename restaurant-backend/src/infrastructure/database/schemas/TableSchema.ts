@@ -0,0 +1,68 @@
+/**
+ * @file TableSchema.ts
+ * @description Schema de Mongoose para la colección de mesas
+ *
+ * @purpose
+ * Define la estructura de datos de MongoDB para las mesas del plano de salón.
+ *
+ * @connections
+ * - Usa: Table entity (domain/entities) - como referencia de tipos
+ * - Usado por: MongoTableRepository (infrastructure/repositories)
+ * - Exporta: TableModel para operaciones de BD
+ *
+ * @layer Infrastructure - Persistencia de datos
+ */
+
+import mongoose, { Schema, Document } from 'mongoose';
+import { TableShape } from '../../../domain/entities/Table';
+
+export interface TableDocument extends Document {
+    name: string;
+    zone: string;
+    seats: number;
+    shape: TableShape;
+    position: { x: number; y: number };
+    active: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const TableSchema: Schema = new Schema(
+    {
+        name: {
+            type: String,
+            required: true,
+            unique: true,
+            trim: true,
+        },
+        zone: {
+            type: String,
+            default: 'Salón',
+            trim: true,
+        },
+        seats: {
+            type: Number,
+            required: true,
+            min: 1,
+        },
+        shape: {
+            type: String,
+            enum: ['square', 'round', 'rectangle'],
+            default: 'square',
+        },
+        position: {
+            x: { type: Number, default: 0 },
+            y: { type: Number, default: 0 },
+        },
+        active: {
+            type: Boolean,
+            default: true,
+        },
+    },
+    { timestamps: true }
+);
+
+// Índice para agrupar el plano por zonas
+TableSchema.index({ zone: 1, name: 1 });
+
+export const TableModel = mongoose.model<TableDocument>('Table', TableSchema);
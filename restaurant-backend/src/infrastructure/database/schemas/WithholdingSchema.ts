@@ -0,0 +1,63 @@
+/**
+ * @file WithholdingSchema.ts
+ * @description Schema de Mongoose para la colección de Retenciones recibidas
+ *
+ * @purpose
+ * Define la estructura de datos de MongoDB para los comprobantes de retención
+ * (SRI Ecuador, codDoc 07) que los clientes emiten sobre facturas del restaurante.
+ *
+ * @connections
+ * - Usa: Withholding entity (domain/entities) - como referencia de tipos
+ * - Usado por: MongoWithholdingRepository (infrastructure/repositories)
+ * - Exporta: WithholdingModel para operaciones de BD
+ *
+ * @layer Infrastructure - Persistencia de datos
+ */
+
+import mongoose, { Schema, Document } from 'mongoose';
+import { Withholding } from '../../../domain/entities/Withholding';
+
+export interface WithholdingDocument extends Document, Omit<Withholding, 'id' | 'billId'> {
+    billId: mongoose.Types.ObjectId;
+}
+
+const WithholdingSchema = new Schema({
+    billId: { type: Schema.Types.ObjectId, ref: 'Bill', required: true },
+    billDocumentNumber: { type: String, required: true },
+    documentNumber: { type: String, required: true }, // Número del agente: 001-001-000000045
+    accessKey: { type: String },
+    authorizationDate: { type: String },
+    issueDate: { type: String, required: true }, // ISO
+    fiscalPeriod: { type: String, required: true }, // MM/YYYY
+    agentIdentification: { type: String, required: true },
+    agentName: { type: String, required: true },
+    lines: [{
+        _id: false,
+        taxType: { type: String, enum: ['IVA', 'RENTA'], required: true },
+        code: { type: String },
+        baseAmount: { type: Number, required: true },
+        percentage: { type: Number, required: true },
+        amount: { type: Number, required: true }
+    }],
+    ivaWithheld: { type: Number, required: true },
+    rentaWithheld: { type: Number, required: true },
+    totalWithheld: { type: Number, required: true },
+    source: { type: String, enum: ['xml', 'manual'], required: true },
+    /** XML recibido del cliente, guardado tal cual como respaldo */
+    xmlContent: { type: String },
+    environment: { type: String }, // Ambiente de la factura retenida
+    notes: { type: String },
+    createdBy: { type: String }
+}, {
+    timestamps: true
+});
+
+// ==================== INDEXES FOR PERFORMANCE ====================
+// Un agente no emite dos retenciones con el mismo número
+WithholdingSchema.index({ agentIdentification: 1, documentNumber: 1 }, { unique: true });
+WithholdingSchema.index({ accessKey: 1 }, { sparse: true });
+WithholdingSchema.index({ billId: 1 });
+WithholdingSchema.index({ issueDate: -1 }); // Reporte mensual
+WithholdingSchema.index({ createdAt: -1 });
+
+export const WithholdingModel = mongoose.model<WithholdingDocument>('Withholding', WithholdingSchema);
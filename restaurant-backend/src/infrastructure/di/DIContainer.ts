@@ -10,6 +10,9 @@ import { UserModule } from './modules/UserModule';
 import { OrderModule } from './modules/OrderModule';
 import { BillingModule } from './modules/BillingModule';
 import { CategoryModule } from './modules/CategoryModule';
+import { TableModule } from './modules/TableModule';
+import { CashModule } from './modules/CashModule';
+import { InventoryModule } from './modules/InventoryModule';
 
 import { logger } from '../utils/Logger';
 
@@ -23,12 +26,20 @@ import { IBillRepository } from '../../domain/repositories/IBillRepository';
 import { IRoleRepository } from '../../domain/repositories/IRoleRepository';
 import { ICreditNoteRepository } from '../../domain/repositories/ICreditNoteRepository';
 import { ICategoryRepository } from '../../domain/repositories/ICategoryRepository';
+import { ITableRepository } from '../../domain/repositories/ITableRepository';
+import { ICashSessionRepository } from '../../domain/repositories/ICashSessionRepository';
+import { IIngredientRepository } from '../../domain/repositories/IIngredientRepository';
+import { IStockMovementRepository } from '../../domain/repositories/IStockMovementRepository';
+import { IPurchaseSettlementRepository } from '../../domain/repositories/IPurchaseSettlementRepository';
+import { IDebitNoteRepository } from '../../domain/repositories/IDebitNoteRepository';
+import { IWithholdingRepository } from '../../domain/repositories/IWithholdingRepository';
 
 // Infrastructure Services
 import { SRIService } from '../services/SRIService';
 import { PDFService } from '../services/PDFService';
 import { IEmailService } from '../../application/interfaces/IEmailService';
 import { BillingService } from '../../application/services/BillingService';
+import { InventoryService } from '../../application/services/InventoryService';
 
 // Controllers
 import { OrderController } from '../controllers/OrderController';
@@ -41,6 +52,9 @@ import { GetCustomers } from '../../application/use-cases/GetCustomers';
 import { CreateOrder } from '../../application/use-cases/CreateOrder';
 import { GetOrders } from '../../application/use-cases/GetOrders';
 import { UpdateOrder } from '../../application/use-cases/UpdateOrder';
+import { SplitOrderBill } from '../../application/use-cases/SplitOrderBill';
+import { BumpKitchenStation } from '../../application/use-cases/kitchen';
+import { CancelOrder } from '../../application/use-cases/CancelOrder';
 import { DeleteOrder } from '../../application/use-cases/DeleteOrder';
 import { GetMenu } from '../../application/use-cases/GetMenu';
 import { CreateMenu } from '../../application/use-cases/CreateMenu';
@@ -89,6 +103,72 @@ import {
     ReorderCategories,
 } from '../../application/use-cases/categories';
 
+// Table Use Cases
+import {
+    CreateTable,
+    UpdateTable,
+    DeleteTable,
+    GetTables,
+    SaveFloorPlan,
+} from '../../application/use-cases/tables';
+
+// Cash Use Cases
+import {
+    OpenCashSession,
+    RecordCashMovement,
+    CloseCashSession,
+    GetCurrentCashSession,
+    GetCashSession,
+    GetCashSessions,
+    GenerateZReport,
+} from '../../application/use-cases/cash';
+
+// Inventory Use Cases
+import {
+    CreateIngredient,
+    UpdateIngredient,
+    DeleteIngredient,
+    GetIngredients,
+    RecordStockMovement,
+    GetStockMovements,
+    SetMenuItemRecipe,
+} from '../../application/use-cases/inventory';
+
+// Purchase Settlement Use Cases
+import {
+    GeneratePurchaseSettlement,
+    GetPurchaseSettlements,
+    CheckPurchaseSettlementStatus,
+    GetPurchaseSettlementDocument,
+} from '../../application/use-cases/purchase-settlements';
+
+// Debit Note Use Cases
+import {
+    GenerateDebitNote,
+    GetDebitNotes,
+    CheckDebitNoteStatus,
+    RetryDebitNotes,
+    GetDebitNoteDocument,
+} from '../../application/use-cases/debit-notes';
+
+// Withholding Use Cases
+import {
+    RegisterWithholding,
+    GetWithholdings,
+    DeleteWithholding,
+} from '../../application/use-cases/withholdings';
+
+// ATS Use Cases
+import { GenerateAts } from '../../application/use-cases/ats';
+
+// Verificación de comprobantes firmados
+import { VerifyDocumentSignature } from '../../application/use-cases/VerifyDocumentSignature';
+import { AuditSequentials, RepairSequential } from '../../application/use-cases/sequentials';
+import { PreviewMenuRepricing, ApplyMenuRepricing, PreviewInvoiceTaxRates } from '../../application/use-cases/tax-rates';
+import { GetInvoiceDocument, InvoicePortal } from '../../application/use-cases/invoice-portal';
+import { GetCreditNoteDocument } from '../../application/use-cases/GetCreditNoteDocument';
+import { ResendDocumentEmails, RecordEmailBounce } from '../../application/use-cases/email-delivery';
+
 export class DIContainer {
     private static instance: DIContainer;
 
@@ -97,13 +177,19 @@ export class DIContainer {
     private orderModule: OrderModule;
     private billingModule: BillingModule;
     private categoryModule: CategoryModule;
+    private tableModule: TableModule;
+    private cashModule: CashModule;
+    private inventoryModule: InventoryModule;
 
     private constructor() {
         this.repoModule = new RepositoryModule();
         this.userModule = new UserModule(this.repoModule);
-        this.orderModule = new OrderModule(this.repoModule);
-        this.billingModule = new BillingModule(this.repoModule);
+        this.inventoryModule = new InventoryModule(this.repoModule);
+        this.orderModule = new OrderModule(this.repoModule, this.inventoryModule);
+        this.billingModule = new BillingModule(this.repoModule, this.inventoryModule);
         this.categoryModule = new CategoryModule(this.repoModule);
+        this.tableModule = new TableModule(this.repoModule);
+        this.cashModule = new CashModule(this.repoModule, this.billingModule);
         logger.info('DIContainer initialized (Modularized)');
     }
 
@@ -124,12 +210,20 @@ export class DIContainer {
     public getRoleRepository(): IRoleRepository { return this.repoModule.getRoleRepository(); }
     public getCreditNoteRepository(): ICreditNoteRepository { return this.repoModule.getCreditNoteRepository(); }
     public getCategoryRepository(): ICategoryRepository { return this.repoModule.getCategoryRepository(); }
+    public getTableRepository(): ITableRepository { return this.repoModule.getTableRepository(); }
+    public getCashSessionRepository(): ICashSessionRepository { return this.repoModule.getCashSessionRepository(); }
+    public getIngredientRepository(): IIngredientRepository { return this.repoModule.getIngredientRepository(); }
+    public getStockMovementRepository(): IStockMovementRepository { return this.repoModule.getStockMovementRepository(); }
+    public getPurchaseSettlementRepository(): IPurchaseSettlementRepository { return this.repoModule.getPurchaseSettlementRepository(); }
+    public getDebitNoteRepository(): IDebitNoteRepository { return this.repoModule.getDebitNoteRepository(); }
+    public getWithholdingRepository(): IWithholdingRepository { return this.repoModule.getWithholdingRepository(); }
 
     // --- Services ---
     public getSRIService(): SRIService { return this.billingModule.getSRIService(); }
     public getPDFService(): PDFService { return this.billingModule.getPDFService(); }
     public getEmailService(): IEmailService { return this.billingModule.getEmailService(); }
     public getBillingService(): BillingService { return this.billingModule.getBillingService(); }
+    public getInventoryService(): InventoryService { return this.inventoryModule.getInventoryService(); }
 
     // --- Use Cases ---
     
@@ -151,6 +245,9 @@ export class DIContainer {
     public getCreateOrderUseCase(): CreateOrder { return this.orderModule.getCreateOrderUseCase(); }
     public getGetOrdersUseCase(): GetOrders { return this.orderModule.getGetOrdersUseCase(); }
     public getUpdateOrderUseCase(): UpdateOrder { return this.orderModule.getUpdateOrderUseCase(); }
+    public getSplitOrderBillUseCase(): SplitOrderBill { return this.orderModule.getSplitOrderBillUseCase(); }
+    public getBumpKitchenStationUseCase(): BumpKitchenStation { return this.orderModule.getBumpKitchenStationUseCase(); }
+    public getCancelOrderUseCase(): CancelOrder { return this.orderModule.getCancelOrderUseCase(); }
     public getDeleteOrderUseCase(): DeleteOrder { return this.orderModule.getDeleteOrderUseCase(); }
     public getGetMenuUseCase(): GetMenu { return this.orderModule.getGetMenuUseCase(); }
     public getCreateMenuUseCase(): CreateMenu { return this.orderModule.getCreateMenuUseCase(); }
@@ -181,6 +278,48 @@ export class DIContainer {
     public getRetryCreditNotesUseCase(): RetryCreditNotes { return this.billingModule.getRetryCreditNotesUseCase(); }
     public getCronService(): CronService { return this.billingModule.getCronService(); }
 
+    // Purchase settlements (liquidaciones de compra)
+    public getGeneratePurchaseSettlementUseCase(): GeneratePurchaseSettlement { return this.billingModule.getGeneratePurchaseSettlementUseCase(); }
+    public getGetPurchaseSettlementsUseCase(): GetPurchaseSettlements { return this.billingModule.getGetPurchaseSettlementsUseCase(); }
+    public getCheckPurchaseSettlementStatusUseCase(): CheckPurchaseSettlementStatus { return this.billingModule.getCheckPurchaseSettlementStatusUseCase(); }
+    public getGetPurchaseSettlementDocumentUseCase(): GetPurchaseSettlementDocument { return this.billingModule.getGetPurchaseSettlementDocumentUseCase(); }
+
+    // Debit notes (notas de débito)
+    public getGenerateDebitNoteUseCase(): GenerateDebitNote { return this.billingModule.getGenerateDebitNoteUseCase(); }
+    public getGetDebitNotesUseCase(): GetDebitNotes { return this.billingModule.getGetDebitNotesUseCase(); }
+    public getCheckDebitNoteStatusUseCase(): CheckDebitNoteStatus { return this.billingModule.getCheckDebitNoteStatusUseCase(); }
+    public getRetryDebitNotesUseCase(): RetryDebitNotes { return this.billingModule.getRetryDebitNotesUseCase(); }
+    public getGetDebitNoteDocumentUseCase(): GetDebitNoteDocument { return this.billingModule.getGetDebitNoteDocumentUseCase(); }
+
+    // Withholdings (retenciones recibidas)
+    public getRegisterWithholdingUseCase(): RegisterWithholding { return this.billingModule.getRegisterWithholdingUseCase(); }
+    public getGetWithholdingsUseCase(): GetWithholdings { return this.billingModule.getGetWithholdingsUseCase(); }
+    public getDeleteWithholdingUseCase(): DeleteWithholding { return this.billingModule.getDeleteWithholdingUseCase(); }
+
+    // ATS (Anexo Transaccional Simplificado)
+    public getGenerateAtsUseCase(): GenerateAts { return this.billingModule.getGenerateAtsUseCase(); }
+
+    // Verificación de firma y clave de acceso
+    public getVerifyDocumentSignatureUseCase(): VerifyDocumentSignature { return this.billingModule.getVerifyDocumentSignatureUseCase(); }
+
+    // Auditoría y reparación de secuenciales
+    public getAuditSequentialsUseCase(): AuditSequentials { return this.billingModule.getAuditSequentialsUseCase(); }
+    public getRepairSequentialUseCase(): RepairSequential { return this.billingModule.getRepairSequentialUseCase(); }
+
+    // Tabla de IVA: re-precio del menú para una nueva tarifa
+    public getPreviewMenuRepricingUseCase(): PreviewMenuRepricing { return this.billingModule.getPreviewMenuRepricingUseCase(); }
+    public getApplyMenuRepricingUseCase(): ApplyMenuRepricing { return this.billingModule.getApplyMenuRepricingUseCase(); }
+    public getPreviewInvoiceTaxRatesUseCase(): PreviewInvoiceTaxRates { return this.billingModule.getPreviewInvoiceTaxRatesUseCase(); }
+
+    // Portal público de facturas (descarga sin login)
+    public getGetInvoiceDocumentUseCase(): GetInvoiceDocument { return this.billingModule.getGetInvoiceDocumentUseCase(); }
+    public getInvoicePortalUseCase(): InvoicePortal { return this.billingModule.getInvoicePortalUseCase(); }
+
+    // Seguimiento y reenvío de emails de comprobantes
+    public getGetCreditNoteDocumentUseCase(): GetCreditNoteDocument { return this.billingModule.getGetCreditNoteDocumentUseCase(); }
+    public getResendDocumentEmailsUseCase(): ResendDocumentEmails { return this.billingModule.getResendDocumentEmailsUseCase(); }
+    public getRecordEmailBounceUseCase(): RecordEmailBounce { return this.billingModule.getRecordEmailBounceUseCase(); }
+
     // Categories
     public getCreateCategoryUseCase(): CreateCategory { return this.categoryModule.getCreateCategoryUseCase(); }
     public getUpdateCategoryUseCase(): UpdateCategory { return this.categoryModule.getUpdateCategoryUseCase(); }
@@ -188,6 +327,31 @@ export class DIContainer {
     public getGetCategoriesUseCase(): GetCategories { return this.categoryModule.getGetCategoriesUseCase(); }
     public getReorderCategoriesUseCase(): ReorderCategories { return this.categoryModule.getReorderCategoriesUseCase(); }
 
+    // Tables / Floor plan
+    public getCreateTableUseCase(): CreateTable { return this.tableModule.getCreateTableUseCase(); }
+    public getUpdateTableUseCase(): UpdateTable { return this.tableModule.getUpdateTableUseCase(); }
+    public getDeleteTableUseCase(): DeleteTable { return this.tableModule.getDeleteTableUseCase(); }
+    public getGetTablesUseCase(): GetTables { return this.tableModule.getGetTablesUseCase(); }
+    public getSaveFloorPlanUseCase(): SaveFloorPlan { return this.tableModule.getSaveFloorPlanUseCase(); }
+
+    // Cash sessions
+    public getOpenCashSessionUseCase(): OpenCashSession { return this.cashModule.getOpenCashSessionUseCase(); }
+    public getRecordCashMovementUseCase(): RecordCashMovement { return this.cashModule.getRecordCashMovementUseCase(); }
+    public getCloseCashSessionUseCase(): CloseCashSession { return this.cashModule.getCloseCashSessionUseCase(); }
+    public getGetCurrentCashSessionUseCase(): GetCurrentCashSession { return this.cashModule.getGetCurrentCashSessionUseCase(); }
+    public getGetCashSessionUseCase(): GetCashSession { return this.cashModule.getGetCashSessionUseCase(); }
+    public getGetCashSessionsUseCase(): GetCashSessions { return this.cashModule.getGetCashSessionsUseCase(); }
+    public getGenerateZReportUseCase(): GenerateZReport { return this.cashModule.getGenerateZReportUseCase(); }
+
+    // Inventory
+    public getCreateIngredientUseCase(): CreateIngredient { return this.inventoryModule.getCreateIngredientUseCase(); }
+    public getUpdateIngredientUseCase(): UpdateIngredient { return this.inventoryModule.getUpdateIngredientUseCase(); }
+    public getDeleteIngredientUseCase(): DeleteIngredient { return this.inventoryModule.getDeleteIngredientUseCase(); }
+    public getGetIngredientsUseCase(): GetIngredients { return this.inventoryModule.getGetIngredientsUseCase(); }
+    public getRecordStockMovementUseCase(): RecordStockMovement { return this.inventoryModule.getRecordStockMovementUseCase(); }
+    public getGetStockMovementsUseCase(): GetStockMovements { return this.inventoryModule.getGetStockMovementsUseCase(); }
+    public getSetMenuItemRecipeUseCase(): SetMenuItemRecipe { return this.inventoryModule.getSetMenuItemRecipeUseCase(); }
+
     // --- Controllers ---
     public getOrderController(): OrderController { return this.orderModule.getOrderController(); }
     public getCustomerController(): CustomerController { return this.orderModule.getCustomerController(); }
@@ -202,6 +366,9 @@ export class DIContainer {
         this.orderModule.reset();
         this.billingModule.reset();
         this.categoryModule.reset();
+        this.tableModule.reset();
+        this.cashModule.reset();
+        this.inventoryModule.reset();
         logger.info('DIContainer reset');
     }
 }
@@ -1,5 +1,6 @@
 
 import { RepositoryModule } from './RepositoryModule';
+import { InventoryModule } from './InventoryModule';
 import { GenerateInvoice } from '../../../application/use-cases/GenerateInvoice';
 import { CheckInvoiceStatus } from '../../../application/use-cases/CheckInvoiceStatus';
 import { GenerateCreditNote } from '../../../application/use-cases/GenerateCreditNote';
@@ -14,6 +15,31 @@ import { UpdateBill } from '../../../application/use-cases/UpdateBill';
 import { RetryInvoices } from '../../../application/use-cases/RetryInvoices';
 import { RetryCreditNotes } from '../../../application/use-cases/RetryCreditNotes';
 import { DeleteCreditNote } from '../../../application/use-cases/DeleteCreditNote';
+import {
+    GeneratePurchaseSettlement,
+    GetPurchaseSettlements,
+    CheckPurchaseSettlementStatus,
+    GetPurchaseSettlementDocument
+} from '../../../application/use-cases/purchase-settlements';
+import {
+    GenerateDebitNote,
+    GetDebitNotes,
+    CheckDebitNoteStatus,
+    RetryDebitNotes,
+    GetDebitNoteDocument
+} from '../../../application/use-cases/debit-notes';
+import {
+    RegisterWithholding,
+    GetWithholdings,
+    DeleteWithholding
+} from '../../../application/use-cases/withholdings';
+import { GenerateAts } from '../../../application/use-cases/ats';
+import { VerifyDocumentSignature } from '../../../application/use-cases/VerifyDocumentSignature';
+import { AuditSequentials, RepairSequential } from '../../../application/use-cases/sequentials';
+import { PreviewMenuRepricing, ApplyMenuRepricing, PreviewInvoiceTaxRates } from '../../../application/use-cases/tax-rates';
+import { GetInvoiceDocument, InvoicePortal } from '../../../application/use-cases/invoice-portal';
+import { GetCreditNoteDocument } from '../../../application/use-cases/GetCreditNoteDocument';
+import { ResendDocumentEmails, RecordEmailBounce } from '../../../application/use-cases/email-delivery';
 import { CronService } from '../../services/CronService';
 
 
@@ -25,6 +51,7 @@ import { NoOpEmailService } from '../../services/NoOpEmailService';
 import { BillingService } from '../../../application/services/BillingService';
 import { ICustomerRepository } from '../../../domain/repositories/ICustomerRepository';
 import { BillingController } from '../../controllers/BillingController';
+import { auditService } from '../../services/AuditService';
 import { logger } from '../../utils/Logger';
 
 export class BillingModule {
@@ -47,11 +74,38 @@ export class BillingModule {
     private retryInvoicesUseCase?: RetryInvoices;
     private retryCreditNotesUseCase?: RetryCreditNotes;
     private deleteCreditNoteUseCase?: DeleteCreditNote;
+    private generatePurchaseSettlementUseCase?: GeneratePurchaseSettlement;
+    private getPurchaseSettlementsUseCase?: GetPurchaseSettlements;
+    private checkPurchaseSettlementStatusUseCase?: CheckPurchaseSettlementStatus;
+    private getPurchaseSettlementDocumentUseCase?: GetPurchaseSettlementDocument;
+    private generateDebitNoteUseCase?: GenerateDebitNote;
+    private getDebitNotesUseCase?: GetDebitNotes;
+    private checkDebitNoteStatusUseCase?: CheckDebitNoteStatus;
+    private retryDebitNotesUseCase?: RetryDebitNotes;
+    private getDebitNoteDocumentUseCase?: GetDebitNoteDocument;
+    private registerWithholdingUseCase?: RegisterWithholding;
+    private getWithholdingsUseCase?: GetWithholdings;
+    private deleteWithholdingUseCase?: DeleteWithholding;
+    private generateAtsUseCase?: GenerateAts;
+    private verifyDocumentSignatureUseCase?: VerifyDocumentSignature;
+    private auditSequentialsUseCase?: AuditSequentials;
+    private repairSequentialUseCase?: RepairSequential;
+    private previewMenuRepricingUseCase?: PreviewMenuRepricing;
+    private applyMenuRepricingUseCase?: ApplyMenuRepricing;
+    private previewInvoiceTaxRatesUseCase?: PreviewInvoiceTaxRates;
+    private getInvoiceDocumentUseCase?: GetInvoiceDocument;
+    private invoicePortalUseCase?: InvoicePortal;
+    private getCreditNoteDocumentUseCase?: GetCreditNoteDocument;
+    private resendDocumentEmailsUseCase?: ResendDocumentEmails;
+    private recordEmailBounceUseCase?: RecordEmailBounce;
     private cronService?: CronService;
     private billingController?: BillingController;
 
 
-    constructor(private repoModule: RepositoryModule) { }
+    constructor(
+        private repoModule: RepositoryModule,
+        private inventoryModule: InventoryModule
+    ) { }
 
     public getSRIService(): SRIService {
         if (!this.sriService) {
@@ -99,7 +153,8 @@ export class BillingModule {
                 this.getSRIService(),
                 this.getPDFService(),
                 this.getEmailService(),
-                this.getBillingService()
+                this.getBillingService(),
+                this.inventoryModule.getInventoryService()
             );
             logger.debug('GenerateInvoice use case instantiated');
         }
@@ -115,7 +170,8 @@ export class BillingModule {
                 this.getSRIService(),
                 this.getPDFService(),
                 this.getEmailService(),
-                this.getBillingService()
+                this.getBillingService(),
+                this.inventoryModule.getInventoryService()
             );
             logger.debug('CheckInvoiceStatus use case instantiated');
         }
@@ -131,7 +187,8 @@ export class BillingModule {
                 this.getSRIService(),
                 this.getPDFService(),
                 this.getEmailService(),
-                this.getBillingService()
+                this.getBillingService(),
+                this.inventoryModule.getInventoryService()
             );
             logger.debug('GenerateCreditNote use case instantiated');
         }
@@ -171,7 +228,8 @@ export class BillingModule {
                 this.getSRIService(),
                 this.getPDFService(),
                 this.getEmailService(),
-                this.getBillingService()
+                this.getBillingService(),
+                this.inventoryModule.getInventoryService()
             );
             logger.debug('CheckCreditNoteStatus use case instantiated');
         }
@@ -246,11 +304,302 @@ export class BillingModule {
         return this.retryCreditNotesUseCase;
     }
 
+    public getGeneratePurchaseSettlementUseCase(): GeneratePurchaseSettlement {
+        if (!this.generatePurchaseSettlementUseCase) {
+            this.generatePurchaseSettlementUseCase = new GeneratePurchaseSettlement(
+                this.repoModule.getRestaurantConfigRepository(),
+                this.repoModule.getPurchaseSettlementRepository(),
+                this.getSRIService(),
+                this.getBillingService()
+            );
+            logger.debug('GeneratePurchaseSettlement use case instantiated');
+        }
+        return this.generatePurchaseSettlementUseCase;
+    }
+
+    public getGetPurchaseSettlementsUseCase(): GetPurchaseSettlements {
+        if (!this.getPurchaseSettlementsUseCase) {
+            this.getPurchaseSettlementsUseCase = new GetPurchaseSettlements(this.repoModule.getPurchaseSettlementRepository());
+            logger.debug('GetPurchaseSettlements use case instantiated');
+        }
+        return this.getPurchaseSettlementsUseCase;
+    }
+
+    public getCheckPurchaseSettlementStatusUseCase(): CheckPurchaseSettlementStatus {
+        if (!this.checkPurchaseSettlementStatusUseCase) {
+            this.checkPurchaseSettlementStatusUseCase = new CheckPurchaseSettlementStatus(
+                this.repoModule.getRestaurantConfigRepository(),
+                this.repoModule.getPurchaseSettlementRepository(),
+                this.getSRIService()
+            );
+            logger.debug('CheckPurchaseSettlementStatus use case instantiated');
+        }
+        return this.checkPurchaseSettlementStatusUseCase;
+    }
+
+    public getGetPurchaseSettlementDocumentUseCase(): GetPurchaseSettlementDocument {
+        if (!this.getPurchaseSettlementDocumentUseCase) {
+            this.getPurchaseSettlementDocumentUseCase = new GetPurchaseSettlementDocument(
+                this.repoModule.getRestaurantConfigRepository(),
+                this.repoModule.getPurchaseSettlementRepository(),
+                this.getPDFService(),
+                this.getBillingService()
+            );
+            logger.debug('GetPurchaseSettlementDocument use case instantiated');
+        }
+        return this.getPurchaseSettlementDocumentUseCase;
+    }
+
+    public getGenerateDebitNoteUseCase(): GenerateDebitNote {
+        if (!this.generateDebitNoteUseCase) {
+            this.generateDebitNoteUseCase = new GenerateDebitNote(
+                this.repoModule.getRestaurantConfigRepository(),
+                this.repoModule.getDebitNoteRepository(),
+                this.repoModule.getBillRepository(),
+                this.getSRIService(),
+                this.getBillingService()
+            );
+            logger.debug('GenerateDebitNote use case instantiated');
+        }
+        return this.generateDebitNoteUseCase;
+    }
+
+    public getGetDebitNotesUseCase(): GetDebitNotes {
+        if (!this.getDebitNotesUseCase) {
+            this.getDebitNotesUseCase = new GetDebitNotes(this.repoModule.getDebitNoteRepository());
+            logger.debug('GetDebitNotes use case instantiated');
+        }
+        return this.getDebitNotesUseCase;
+    }
+
+    public getCheckDebitNoteStatusUseCase(): CheckDebitNoteStatus {
+        if (!this.checkDebitNoteStatusUseCase) {
+            this.checkDebitNoteStatusUseCase = new CheckDebitNoteStatus(
+                this.repoModule.getRestaurantConfigRepository(),
+                this.repoModule.getDebitNoteRepository(),
+                this.getSRIService()
+            );
+            logger.debug('CheckDebitNoteStatus use case instantiated');
+        }
+        return this.checkDebitNoteStatusUseCase;
+    }
+
+    public getRetryDebitNotesUseCase(): RetryDebitNotes {
+        if (!this.retryDebitNotesUseCase) {
+            this.retryDebitNotesUseCase = new RetryDebitNotes(
+                this.repoModule.getDebitNoteRepository(),
+                this.getCheckDebitNoteStatusUseCase()
+            );
+            logger.debug('RetryDebitNotes use case instantiated');
+        }
+        return this.retryDebitNotesUseCase;
+    }
+
+    public getGetDebitNoteDocumentUseCase(): GetDebitNoteDocument {
+        if (!this.getDebitNoteDocumentUseCase) {
+            this.getDebitNoteDocumentUseCase = new GetDebitNoteDocument(
+                this.repoModule.getRestaurantConfigRepository(),
+                this.repoModule.getDebitNoteRepository(),
+                this.getPDFService(),
+                this.getBillingService()
+            );
+            logger.debug('GetDebitNoteDocument use case instantiated');
+        }
+        return this.getDebitNoteDocumentUseCase;
+    }
+
+    public getRegisterWithholdingUseCase(): RegisterWithholding {
+        if (!this.registerWithholdingUseCase) {
+            this.registerWithholdingUseCase = new RegisterWithholding(
+                this.repoModule.getWithholdingRepository(),
+                this.repoModule.getBillRepository(),
+                this.repoModule.getRestaurantConfigRepository(),
+                this.getSRIService()
+            );
+            logger.debug('RegisterWithholding use case instantiated');
+        }
+        return this.registerWithholdingUseCase;
+    }
+
+    public getGetWithholdingsUseCase(): GetWithholdings {
+        if (!this.getWithholdingsUseCase) {
+            this.getWithholdingsUseCase = new GetWithholdings(this.repoModule.getWithholdingRepository());
+            logger.debug('GetWithholdings use case instantiated');
+        }
+        return this.getWithholdingsUseCase;
+    }
+
+    public getDeleteWithholdingUseCase(): DeleteWithholding {
+        if (!this.deleteWithholdingUseCase) {
+            this.deleteWithholdingUseCase = new DeleteWithholding(
+                this.repoModule.getWithholdingRepository(),
+                this.repoModule.getBillRepository()
+            );
+            logger.debug('DeleteWithholding use case instantiated');
+        }
+        return this.deleteWithholdingUseCase;
+    }
+
+    public getGenerateAtsUseCase(): GenerateAts {
+        if (!this.generateAtsUseCase) {
+            this.generateAtsUseCase = new GenerateAts(
+                this.repoModule.getRestaurantConfigRepository(),
+                this.repoModule.getBillRepository(),
+                this.repoModule.getCreditNoteRepository(),
+                this.repoModule.getDebitNoteRepository(),
+                this.getSRIService(),
+                this.getBillingService()
+            );
+            logger.debug('GenerateAts use case instantiated');
+        }
+        return this.generateAtsUseCase;
+    }
+
+    public getVerifyDocumentSignatureUseCase(): VerifyDocumentSignature {
+        if (!this.verifyDocumentSignatureUseCase) {
+            this.verifyDocumentSignatureUseCase = new VerifyDocumentSignature(
+                this.repoModule.getBillRepository(),
+                this.repoModule.getRestaurantConfigRepository(),
+                this.getSRIService()
+            );
+            logger.debug('VerifyDocumentSignature use case instantiated');
+        }
+        return this.verifyDocumentSignatureUseCase;
+    }
+
+    public getAuditSequentialsUseCase(): AuditSequentials {
+        if (!this.auditSequentialsUseCase) {
+            this.auditSequentialsUseCase = new AuditSequentials(
+                this.repoModule.getBillRepository(),
+                this.repoModule.getCreditNoteRepository(),
+                this.repoModule.getRestaurantConfigRepository(),
+                auditService
+            );
+            logger.debug('AuditSequentials use case instantiated');
+        }
+        return this.auditSequentialsUseCase;
+    }
+
+    public getRepairSequentialUseCase(): RepairSequential {
+        if (!this.repairSequentialUseCase) {
+            this.repairSequentialUseCase = new RepairSequential(
+                this.getAuditSequentialsUseCase(),
+                this.repoModule.getBillRepository(),
+                this.repoModule.getCreditNoteRepository(),
+                this.repoModule.getRestaurantConfigRepository(),
+                auditService
+            );
+            logger.debug('RepairSequential use case instantiated');
+        }
+        return this.repairSequentialUseCase;
+    }
+
+    public getPreviewMenuRepricingUseCase(): PreviewMenuRepricing {
+        if (!this.previewMenuRepricingUseCase) {
+            this.previewMenuRepricingUseCase = new PreviewMenuRepricing(
+                this.repoModule.getMenuRepository(),
+                this.repoModule.getRestaurantConfigRepository()
+            );
+            logger.debug('PreviewMenuRepricing use case instantiated');
+        }
+        return this.previewMenuRepricingUseCase;
+    }
+
+    public getApplyMenuRepricingUseCase(): ApplyMenuRepricing {
+        if (!this.applyMenuRepricingUseCase) {
+            this.applyMenuRepricingUseCase = new ApplyMenuRepricing(
+                this.getPreviewMenuRepricingUseCase(),
+                this.repoModule.getMenuRepository(),
+                auditService
+            );
+            logger.debug('ApplyMenuRepricing use case instantiated');
+        }
+        return this.applyMenuRepricingUseCase;
+    }
+
+    public getPreviewInvoiceTaxRatesUseCase(): PreviewInvoiceTaxRates {
+        if (!this.previewInvoiceTaxRatesUseCase) {
+            this.previewInvoiceTaxRatesUseCase = new PreviewInvoiceTaxRates(
+                this.repoModule.getRestaurantConfigRepository()
+            );
+            logger.debug('PreviewInvoiceTaxRates use case instantiated');
+        }
+        return this.previewInvoiceTaxRatesUseCase;
+    }
+
+    public getGetInvoiceDocumentUseCase(): GetInvoiceDocument {
+        if (!this.getInvoiceDocumentUseCase) {
+            this.getInvoiceDocumentUseCase = new GetInvoiceDocument(
+                this.repoModule.getRestaurantConfigRepository(),
+                this.repoModule.getBillRepository(),
+                this.getSRIService(),
+                this.getPDFService(),
+                this.getBillingService()
+            );
+            logger.debug('GetInvoiceDocument use case instantiated');
+        }
+        return this.getInvoiceDocumentUseCase;
+    }
+
+    public getInvoicePortalUseCase(): InvoicePortal {
+        if (!this.invoicePortalUseCase) {
+            this.invoicePortalUseCase = new InvoicePortal(
+                this.repoModule.getBillRepository(),
+                this.getEmailService(),
+                this.getGetInvoiceDocumentUseCase()
+            );
+            logger.debug('InvoicePortal use case instantiated');
+        }
+        return this.invoicePortalUseCase;
+    }
+
+    public getGetCreditNoteDocumentUseCase(): GetCreditNoteDocument {
+        if (!this.getCreditNoteDocumentUseCase) {
+            this.getCreditNoteDocumentUseCase = new GetCreditNoteDocument(
+                this.repoModule.getRestaurantConfigRepository(),
+                this.repoModule.getCreditNoteRepository(),
+                this.repoModule.getBillRepository(),
+                this.getSRIService(),
+                this.getPDFService(),
+                this.getBillingService()
+            );
+            logger.debug('GetCreditNoteDocument use case instantiated');
+        }
+        return this.getCreditNoteDocumentUseCase;
+    }
+
+    public getResendDocumentEmailsUseCase(): ResendDocumentEmails {
+        if (!this.resendDocumentEmailsUseCase) {
+            this.resendDocumentEmailsUseCase = new ResendDocumentEmails(
+                this.repoModule.getBillRepository(),
+                this.repoModule.getCreditNoteRepository(),
+                this.getEmailService(),
+                this.getGetInvoiceDocumentUseCase(),
+                this.getGetCreditNoteDocumentUseCase(),
+                auditService
+            );
+            logger.debug('ResendDocumentEmails use case instantiated');
+        }
+        return this.resendDocumentEmailsUseCase;
+    }
+
+    public getRecordEmailBounceUseCase(): RecordEmailBounce {
+        if (!this.recordEmailBounceUseCase) {
+            this.recordEmailBounceUseCase = new RecordEmailBounce(
+                this.repoModule.getBillRepository(),
+                this.repoModule.getCreditNoteRepository()
+            );
+            logger.debug('RecordEmailBounce use case instantiated');
+        }
+        return this.recordEmailBounceUseCase;
+    }
+
     public getCronService(): CronService {
         if (!this.cronService) {
             this.cronService = CronService.getInstance(
                 this.getRetryInvoicesUseCase(),
-                this.getRetryCreditNotesUseCase()
+                this.getRetryCreditNotesUseCase(),
+                this.getRetryDebitNotesUseCase()
             );
             logger.debug('CronService instantiated');
         }
@@ -286,6 +635,30 @@ export class BillingModule {
         this.getCreditNotesUseCase = undefined;
         this.checkCreditNoteStatusUseCase = undefined;
         this.deleteCreditNoteUseCase = undefined;
+        this.generatePurchaseSettlementUseCase = undefined;
+        this.getPurchaseSettlementsUseCase = undefined;
+        this.checkPurchaseSettlementStatusUseCase = undefined;
+        this.getPurchaseSettlementDocumentUseCase = undefined;
+        this.generateDebitNoteUseCase = undefined;
+        this.getDebitNotesUseCase = undefined;
+        this.checkDebitNoteStatusUseCase = undefined;
+        this.retryDebitNotesUseCase = undefined;
+        this.getDebitNoteDocumentUseCase = undefined;
+        this.registerWithholdingUseCase = undefined;
+        this.getWithholdingsUseCase = undefined;
+        this.deleteWithholdingUseCase = undefined;
+        this.generateAtsUseCase = undefined;
+        this.verifyDocumentSignatureUseCase = undefined;
+        this.auditSequentialsUseCase = undefined;
+        this.repairSequentialUseCase = undefined;
+        this.previewMenuRepricingUseCase = undefined;
+        this.applyMenuRepricingUseCase = undefined;
+        this.previewInvoiceTaxRatesUseCase = undefined;
+        this.getInvoiceDocumentUseCase = undefined;
+        this.invoicePortalUseCase = undefined;
+        this.getCreditNoteDocumentUseCase = undefined;
+        this.resendDocumentEmailsUseCase = undefined;
+        this.recordEmailBounceUseCase = undefined;
         this.resetBillingSystemUseCase = undefined;
         this.billingController = undefined;
     }
@@ -0,0 +1,121 @@
+/**
+ * CashModule - Módulo de inyección de dependencias para caja
+ *
+ * Gestiona la creación e inyección de use cases de apertura/cierre de caja.
+ * Usa el PDFService del BillingModule para el reporte Z.
+ */
+
+import { RepositoryModule } from './RepositoryModule';
+import { BillingModule } from './BillingModule';
+import { logger } from '../../utils/Logger';
+
+import {
+    OpenCashSession,
+    RecordCashMovement,
+    CloseCashSession,
+    GetCurrentCashSession,
+    GetCashSession,
+    GetCashSessions,
+    GenerateZReport,
+} from '../../../application/use-cases/cash';
+
+export class CashModule {
+    private openCashSession?: OpenCashSession;
+    private recordCashMovement?: RecordCashMovement;
+    private closeCashSession?: CloseCashSession;
+    private getCurrentCashSession?: GetCurrentCashSession;
+    private getCashSession?: GetCashSession;
+    private getCashSessions?: GetCashSessions;
+    private generateZReport?: GenerateZReport;
+
+    constructor(
+        private repoModule: RepositoryModule,
+        private billingModule: BillingModule
+    ) {}
+
+    public getOpenCashSessionUseCase(): OpenCashSession {
+        if (!this.openCashSession) {
+            this.openCashSession = new OpenCashSession(
+                this.repoModule.getCashSessionRepository(),
+                this.repoModule.getRestaurantConfigRepository()
+            );
+            logger.debug('OpenCashSession use case instantiated');
+        }
+        return this.openCashSession;
+    }
+
+    public getRecordCashMovementUseCase(): RecordCashMovement {
+        if (!this.recordCashMovement) {
+            this.recordCashMovement = new RecordCashMovement(
+                this.repoModule.getCashSessionRepository(),
+                this.repoModule.getCreditNoteRepository()
+            );
+            logger.debug('RecordCashMovement use case instantiated');
+        }
+        return this.recordCashMovement;
+    }
+
+    public getCloseCashSessionUseCase(): CloseCashSession {
+        if (!this.closeCashSession) {
+            this.closeCashSession = new CloseCashSession(
+                this.repoModule.getCashSessionRepository(),
+                this.repoModule.getBillRepository()
+            );
+            logger.debug('CloseCashSession use case instantiated');
+        }
+        return this.closeCashSession;
+    }
+
+    public getGetCurrentCashSessionUseCase(): GetCurrentCashSession {
+        if (!this.getCurrentCashSession) {
+            this.getCurrentCashSession = new GetCurrentCashSession(
+                this.repoModule.getCashSessionRepository(),
+                this.repoModule.getBillRepository()
+            );
+            logger.debug('GetCurrentCashSession use case instantiated');
+        }
+        return this.getCurrentCashSession;
+    }
+
+    public getGetCashSessionUseCase(): GetCashSession {
+        if (!this.getCashSession) {
+            this.getCashSession = new GetCashSession(
+                this.repoModule.getCashSessionRepository(),
+                this.repoModule.getBillRepository()
+            );
+            logger.debug('GetCashSession use case instantiated');
+        }
+        return this.getCashSession;
+    }
+
+    public getGetCashSessionsUseCase(): GetCashSessions {
+        if (!this.getCashSessions) {
+            this.getCashSessions = new GetCashSessions(this.repoModule.getCashSessionRepository());
+            logger.debug('GetCashSessions use case instantiated');
+        }
+        return this.getCashSessions;
+    }
+
+    public getGenerateZReportUseCase(): GenerateZReport {
+        if (!this.generateZReport) {
+            this.generateZReport = new GenerateZReport(
+                this.repoModule.getCashSessionRepository(),
+                this.repoModule.getBillRepository(),
+                this.repoModule.getRestaurantConfigRepository(),
+                this.billingModule.getPDFService()
+            );
+            logger.debug('GenerateZReport use case instantiated');
+        }
+        return this.generateZReport;
+    }
+
+    public reset(): void {
+        this.openCashSession = undefined;
+        this.recordCashMovement = undefined;
+        this.closeCashSession = undefined;
+        this.getCurrentCashSession = undefined;
+        this.getCashSession = undefined;
+        this.getCashSessions = undefined;
+        this.generateZReport = undefined;
+    }
+}
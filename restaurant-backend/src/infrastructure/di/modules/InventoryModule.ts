@@ -0,0 +1,129 @@
+/**
+ * InventoryModule - Módulo de inyección de dependencias para inventario
+ *
+ * Gestiona el InventoryService (descuento automático de recetas) y los use cases
+ * de ingredientes, movimientos y recetas. OrderModule y BillingModule reciben el
+ * servicio para mover stock al vender, cancelar o emitir notas de crédito.
+ */
+
+import { RepositoryModule } from './RepositoryModule';
+import { logger } from '../../utils/Logger';
+import { InventoryService } from '../../../application/services/InventoryService';
+import { PushStockAlertNotifier } from '../../services/PushStockAlertNotifier';
+
+import {
+    CreateIngredient,
+    UpdateIngredient,
+    DeleteIngredient,
+    GetIngredients,
+    RecordStockMovement,
+    GetStockMovements,
+    SetMenuItemRecipe,
+} from '../../../application/use-cases/inventory';
+
+export class InventoryModule {
+    private inventoryService?: InventoryService;
+    private createIngredient?: CreateIngredient;
+    private updateIngredient?: UpdateIngredient;
+    private deleteIngredient?: DeleteIngredient;
+    private getIngredients?: GetIngredients;
+    private recordStockMovement?: RecordStockMovement;
+    private getStockMovements?: GetStockMovements;
+    private setMenuItemRecipe?: SetMenuItemRecipe;
+
+    constructor(private repoModule: RepositoryModule) {}
+
+    public getInventoryService(): InventoryService {
+        if (!this.inventoryService) {
+            this.inventoryService = new InventoryService(
+                this.repoModule.getIngredientRepository(),
+                this.repoModule.getStockMovementRepository(),
+                this.repoModule.getMenuRepository(),
+                this.repoModule.getRestaurantConfigRepository(),
+                this.repoModule.getOrderRepository(),
+                new PushStockAlertNotifier()
+            );
+            logger.debug('InventoryService instantiated');
+        }
+        return this.inventoryService;
+    }
+
+    public getCreateIngredientUseCase(): CreateIngredient {
+        if (!this.createIngredient) {
+            this.createIngredient = new CreateIngredient(
+                this.repoModule.getIngredientRepository(),
+                this.getInventoryService()
+            );
+            logger.debug('CreateIngredient use case instantiated');
+        }
+        return this.createIngredient;
+    }
+
+    public getUpdateIngredientUseCase(): UpdateIngredient {
+        if (!this.updateIngredient) {
+            this.updateIngredient = new UpdateIngredient(this.repoModule.getIngredientRepository());
+            logger.debug('UpdateIngredient use case instantiated');
+        }
+        return this.updateIngredient;
+    }
+
+    public getDeleteIngredientUseCase(): DeleteIngredient {
+        if (!this.deleteIngredient) {
+            this.deleteIngredient = new DeleteIngredient(
+                this.repoModule.getIngredientRepository(),
+                this.repoModule.getMenuRepository()
+            );
+            logger.debug('DeleteIngredient use case instantiated');
+        }
+        return this.deleteIngredient;
+    }
+
+    public getGetIngredientsUseCase(): GetIngredients {
+        if (!this.getIngredients) {
+            this.getIngredients = new GetIngredients(this.repoModule.getIngredientRepository());
+            logger.debug('GetIngredients use case instantiated');
+        }
+        return this.getIngredients;
+    }
+
+    public getRecordStockMovementUseCase(): RecordStockMovement {
+        if (!this.recordStockMovement) {
+            this.recordStockMovement = new RecordStockMovement(
+                this.repoModule.getIngredientRepository(),
+                this.getInventoryService()
+            );
+            logger.debug('RecordStockMovement use case instantiated');
+        }
+        return this.recordStockMovement;
+    }
+
+    public getGetStockMovementsUseCase(): GetStockMovements {
+        if (!this.getStockMovements) {
+            this.getStockMovements = new GetStockMovements(this.repoModule.getStockMovementRepository());
+            logger.debug('GetStockMovements use case instantiated');
+        }
+        return this.getStockMovements;
+    }
+
+    public getSetMenuItemRecipeUseCase(): SetMenuItemRecipe {
+        if (!this.setMenuItemRecipe) {
+            this.setMenuItemRecipe = new SetMenuItemRecipe(
+                this.repoModule.getMenuRepository(),
+                this.repoModule.getIngredientRepository()
+            );
+            logger.debug('SetMenuItemRecipe use case instantiated');
+        }
+        return this.setMenuItemRecipe;
+    }
+
+    public reset(): void {
+        this.inventoryService = undefined;
+        this.createIngredient = undefined;
+        this.updateIngredient = undefined;
+        this.deleteIngredient = undefined;
+        this.getIngredients = undefined;
+        this.recordStockMovement = undefined;
+        this.getStockMovements = undefined;
+        this.setMenuItemRecipe = undefined;
+    }
+}
@@ -1,9 +1,16 @@
 
 import { RepositoryModule } from './RepositoryModule';
+import { InventoryModule } from './InventoryModule';
 import { CreateOrder } from '../../../application/use-cases/CreateOrder';
 import { GetOrders } from '../../../application/use-cases/GetOrders';
 import { UpdateOrder } from '../../../application/use-cases/UpdateOrder';
 import { DeleteOrder } from '../../../application/use-cases/DeleteOrder';
+import { SplitOrderBill } from '../../../application/use-cases/SplitOrderBill';
+import { BumpKitchenStation } from '../../../application/use-cases/kitchen';
+import { CancelOrder } from '../../../application/use-cases/CancelOrder';
+import { AuthorizeDiscount } from '../../../application/use-cases/AuthorizeDiscount';
+import { KitchenStationRouter } from '../../../application/services/KitchenStationRouter';
+import { DiscountAuthorizer } from '../../../application/services/DiscountAuthorizer';
 import { GetMenu } from '../../../application/use-cases/GetMenu';
 import { CreateMenu } from '../../../application/use-cases/CreateMenu';
 import { UpdateMenu } from '../../../application/use-cases/UpdateMenu';
@@ -21,12 +28,19 @@ import { LookupCustomer } from '../../../application/use-cases/LookupCustomer';
 import { OrderController } from '../../controllers/OrderController';
 import { CustomerController } from '../../controllers/CustomerController';
 import { logger } from '../../utils/Logger';
+import { orderSocketManager } from '../../websocket/OrderSocketManager';
 
 export class OrderModule {
     private createOrderUseCase?: CreateOrder;
     private getOrdersUseCase?: GetOrders;
     private updateOrderUseCase?: UpdateOrder;
     private deleteOrderUseCase?: DeleteOrder;
+    private splitOrderBillUseCase?: SplitOrderBill;
+    private bumpKitchenStationUseCase?: BumpKitchenStation;
+    private cancelOrderUseCase?: CancelOrder;
+    private authorizeDiscountUseCase?: AuthorizeDiscount;
+    private kitchenStationRouter?: KitchenStationRouter;
+    private discountAuthorizer?: DiscountAuthorizer;
     private getMenuUseCase?: GetMenu;
     private createMenuUseCase?: CreateMenu;
     private updateMenuUseCase?: UpdateMenu;
@@ -44,11 +58,42 @@ export class OrderModule {
     private orderController?: OrderController;
     private customerController?: CustomerController;
 
-    constructor(private repoModule: RepositoryModule) {}
+    constructor(
+        private repoModule: RepositoryModule,
+        private inventoryModule: InventoryModule
+    ) {}
+
+    public getKitchenStationRouter(): KitchenStationRouter {
+        if (!this.kitchenStationRouter) {
+            this.kitchenStationRouter = new KitchenStationRouter(
+                this.repoModule.getMenuRepository(),
+                this.repoModule.getRestaurantConfigRepository()
+            );
+            logger.debug('KitchenStationRouter instantiated');
+        }
+        return this.kitchenStationRouter;
+    }
+
+    public getDiscountAuthorizer(): DiscountAuthorizer {
+        if (!this.discountAuthorizer) {
+            this.discountAuthorizer = new DiscountAuthorizer(
+                this.repoModule.getEmployeeRepository(),
+                this.repoModule.getRoleRepository()
+            );
+            logger.debug('DiscountAuthorizer instantiated');
+        }
+        return this.discountAuthorizer;
+    }
 
     public getCreateOrderUseCase(): CreateOrder {
         if (!this.createOrderUseCase) {
-            this.createOrderUseCase = new CreateOrder(this.repoModule.getOrderRepository());
+            this.createOrderUseCase = new CreateOrder(
+                this.repoModule.getOrderRepository(),
+                orderSocketManager,
+                this.getKitchenStationRouter(),
+                this.inventoryModule.getInventoryService(),
+                this.getDiscountAuthorizer()
+            );
             logger.debug('CreateOrder use case instantiated');
         }
         return this.createOrderUseCase;
@@ -64,7 +109,13 @@ export class OrderModule {
 
     public getUpdateOrderUseCase(): UpdateOrder {
         if (!this.updateOrderUseCase) {
-            this.updateOrderUseCase = new UpdateOrder(this.repoModule.getOrderRepository());
+            this.updateOrderUseCase = new UpdateOrder(
+                this.repoModule.getOrderRepository(),
+                orderSocketManager,
+                this.getKitchenStationRouter(),
+                this.inventoryModule.getInventoryService(),
+                this.getDiscountAuthorizer()
+            );
             logger.debug('UpdateOrder use case instantiated');
         }
         return this.updateOrderUseCase;
@@ -74,13 +125,54 @@ export class OrderModule {
         if (!this.deleteOrderUseCase) {
             this.deleteOrderUseCase = new DeleteOrder(
                 this.repoModule.getOrderRepository(),
-                this.repoModule.getRoleRepository()
+                this.repoModule.getRoleRepository(),
+                orderSocketManager,
+                this.inventoryModule.getInventoryService()
             );
             logger.debug('DeleteOrder use case instantiated');
         }
         return this.deleteOrderUseCase;
     }
 
+    public getSplitOrderBillUseCase(): SplitOrderBill {
+        if (!this.splitOrderBillUseCase) {
+            this.splitOrderBillUseCase = new SplitOrderBill(this.repoModule.getOrderRepository(), orderSocketManager);
+            logger.debug('SplitOrderBill use case instantiated');
+        }
+        return this.splitOrderBillUseCase;
+    }
+
+    public getBumpKitchenStationUseCase(): BumpKitchenStation {
+        if (!this.bumpKitchenStationUseCase) {
+            this.bumpKitchenStationUseCase = new BumpKitchenStation(this.repoModule.getOrderRepository(), orderSocketManager);
+            logger.debug('BumpKitchenStation use case instantiated');
+        }
+        return this.bumpKitchenStationUseCase;
+    }
+
+    public getCancelOrderUseCase(): CancelOrder {
+        if (!this.cancelOrderUseCase) {
+            this.cancelOrderUseCase = new CancelOrder(
+                this.repoModule.getOrderRepository(),
+                orderSocketManager,
+                this.inventoryModule.getInventoryService()
+            );
+            logger.debug('CancelOrder use case instantiated');
+        }
+        return this.cancelOrderUseCase;
+    }
+
+    public getAuthorizeDiscountUseCase(): AuthorizeDiscount {
+        if (!this.authorizeDiscountUseCase) {
+            this.authorizeDiscountUseCase = new AuthorizeDiscount(
+                this.repoModule.getEmployeeRepository(),
+                this.getDiscountAuthorizer()
+            );
+            logger.debug('AuthorizeDiscount use case instantiated');
+        }
+        return this.authorizeDiscountUseCase;
+    }
+
     public getGetMenuUseCase(): GetMenu {
         if (!this.getMenuUseCase) {
             this.getMenuUseCase = new GetMenu(this.repoModule.getMenuRepository());
@@ -163,7 +255,10 @@ export class OrderModule {
 
     public getUpdateRestaurantConfigUseCase(): UpdateRestaurantConfig {
         if (!this.updateRestaurantConfigUseCase) {
-            this.updateRestaurantConfigUseCase = new UpdateRestaurantConfig(this.repoModule.getRestaurantConfigRepository());
+            this.updateRestaurantConfigUseCase = new UpdateRestaurantConfig(
+                this.repoModule.getRestaurantConfigRepository(),
+                this.repoModule.getBillRepository()
+            );
             logger.debug('UpdateRestaurantConfig use case instantiated');
         }
         return this.updateRestaurantConfigUseCase;
@@ -199,7 +294,11 @@ export class OrderModule {
                 this.getCreateOrderUseCase(),
                 this.getGetOrdersUseCase(),
                 this.getUpdateOrderUseCase(),
-                this.getDeleteOrderUseCase()
+                this.getDeleteOrderUseCase(),
+                this.getSplitOrderBillUseCase(),
+                this.getBumpKitchenStationUseCase(),
+                this.getCancelOrderUseCase(),
+                this.getAuthorizeDiscountUseCase()
             );
             logger.debug('OrderController instantiated');
         }
@@ -225,6 +324,10 @@ export class OrderModule {
         this.getOrdersUseCase = undefined;
         this.updateOrderUseCase = undefined;
         this.deleteOrderUseCase = undefined;
+        this.splitOrderBillUseCase = undefined;
+        this.bumpKitchenStationUseCase = undefined;
+        this.cancelOrderUseCase = undefined;
+        this.kitchenStationRouter = undefined;
         this.getMenuUseCase = undefined;
         this.createMenuUseCase = undefined;
         this.updateMenuUseCase = undefined;
@@ -8,6 +8,13 @@ import { IBillRepository } from '../../../domain/repositories/IBillRepository';
 import { IRoleRepository } from '../../../domain/repositories/IRoleRepository';
 import { ICreditNoteRepository } from '../../../domain/repositories/ICreditNoteRepository';
 import { ICategoryRepository } from '../../../domain/repositories/ICategoryRepository';
+import { ITableRepository } from '../../../domain/repositories/ITableRepository';
+import { ICashSessionRepository } from '../../../domain/repositories/ICashSessionRepository';
+import { IIngredientRepository } from '../../../domain/repositories/IIngredientRepository';
+import { IStockMovementRepository } from '../../../domain/repositories/IStockMovementRepository';
+import { IPurchaseSettlementRepository } from '../../../domain/repositories/IPurchaseSettlementRepository';
+import { IDebitNoteRepository } from '../../../domain/repositories/IDebitNoteRepository';
+import { IWithholdingRepository } from '../../../domain/repositories/IWithholdingRepository';
 
 import { MongoCustomerRepository } from '../../repositories/MongoCustomerRepository';
 import { MongoEmployeeRepository } from '../../repositories/MongoEmployeeRepository';
@@ -18,6 +25,13 @@ import { MongoBillRepository } from '../../repositories/MongoBillRepository';
 import { MongoRoleRepository } from '../../repositories/MongoRoleRepository';
 import { MongoCreditNoteRepository } from '../../repositories/MongoCreditNoteRepository';
 import { MongoCategoryRepository } from '../../repositories/MongoCategoryRepository';
+import { MongoTableRepository } from '../../repositories/MongoTableRepository';
+import { MongoCashSessionRepository } from '../../repositories/MongoCashSessionRepository';
+import { MongoIngredientRepository } from '../../repositories/MongoIngredientRepository';
+import { MongoStockMovementRepository } from '../../repositories/MongoStockMovementRepository';
+import { MongoPurchaseSettlementRepository } from '../../repositories/MongoPurchaseSettlementRepository';
+import { MongoDebitNoteRepository } from '../../repositories/MongoDebitNoteRepository';
+import { MongoWithholdingRepository } from '../../repositories/MongoWithholdingRepository';
 import { logger } from '../../utils/Logger';
 
 export class RepositoryModule {
@@ -30,6 +44,13 @@ export class RepositoryModule {
     private roleRepository?: IRoleRepository;
     private creditNoteRepository?: ICreditNoteRepository;
     private categoryRepository?: ICategoryRepository;
+    private tableRepository?: ITableRepository;
+    private cashSessionRepository?: ICashSessionRepository;
+    private ingredientRepository?: IIngredientRepository;
+    private stockMovementRepository?: IStockMovementRepository;
+    private purchaseSettlementRepository?: IPurchaseSettlementRepository;
+    private debitNoteRepository?: IDebitNoteRepository;
+    private withholdingRepository?: IWithholdingRepository;
 
     public getCustomerRepository(): ICustomerRepository {
         if (!this.customerRepository) {
@@ -103,6 +124,62 @@ export class RepositoryModule {
         return this.categoryRepository;
     }
 
+    public getTableRepository(): ITableRepository {
+        if (!this.tableRepository) {
+            this.tableRepository = new MongoTableRepository();
+            logger.debug('TableRepository instantiated');
+        }
+        return this.tableRepository;
+    }
+
+    public getCashSessionRepository(): ICashSessionRepository {
+        if (!this.cashSessionRepository) {
+            this.cashSessionRepository = new MongoCashSessionRepository();
+            logger.debug('CashSessionRepository instantiated');
+        }
+        return this.cashSessionRepository;
+    }
+
+    public getIngredientRepository(): IIngredientRepository {
+        if (!this.ingredientRepository) {
+            this.ingredientRepository = new MongoIngredientRepository();
+            logger.debug('IngredientRepository instantiated');
+        }
+        return this.ingredientRepository;
+    }
+
+    public getStockMovementRepository(): IStockMovementRepository {
+        if (!this.stockMovementRepository) {
+            this.stockMovementRepository = new MongoStockMovementRepository();
+            logger.debug('StockMovementRepository instantiated');
+        }
+        return this.stockMovementRepository;
+    }
+
+    public getPurchaseSettlementRepository(): IPurchaseSettlementRepository {
+        if (!this.purchaseSettlementRepository) {
+            this.purchaseSettlementRepository = new MongoPurchaseSettlementRepository();
+            logger.debug('PurchaseSettlementRepository instantiated');
+        }
+        return this.purchaseSettlementRepository;
+    }
+
+    public getDebitNoteRepository(): IDebitNoteRepository {
+        if (!this.debitNoteRepository) {
+            this.debitNoteRepository = new MongoDebitNoteRepository();
+            logger.debug('DebitNoteRepository instantiated');
+        }
+        return this.debitNoteRepository;
+    }
+
+    public getWithholdingRepository(): IWithholdingRepository {
+        if (!this.withholdingRepository) {
+            this.withholdingRepository = new MongoWithholdingRepository();
+            logger.debug('WithholdingRepository instantiated');
+        }
+        return this.withholdingRepository;
+    }
+
     public reset(): void {
         this.customerRepository = undefined;
         this.employeeRepository = undefined;
@@ -113,5 +190,12 @@ export class RepositoryModule {
         this.roleRepository = undefined;
         this.creditNoteRepository = undefined;
         this.categoryRepository = undefined;
+        this.tableRepository = undefined;
+        this.cashSessionRepository = undefined;
+        this.ingredientRepository = undefined;
+        this.stockMovementRepository = undefined;
+        this.purchaseSettlementRepository = undefined;
+        this.debitNoteRepository = undefined;
+        this.withholdingRepository = undefined;
     }
 }
@@ -0,0 +1,74 @@
+/**
+ * TableModule - Módulo de inyección de dependencias para mesas
+ *
+ * Gestiona la creación e inyección de use cases del plano de salón.
+ */
+
+import { RepositoryModule } from './RepositoryModule';
+import { logger } from '../../utils/Logger';
+
+import {
+    CreateTable,
+    UpdateTable,
+    DeleteTable,
+    GetTables,
+    SaveFloorPlan,
+} from '../../../application/use-cases/tables';
+
+export class TableModule {
+    private createTable?: CreateTable;
+    private updateTable?: UpdateTable;
+    private deleteTable?: DeleteTable;
+    private getTables?: GetTables;
+    private saveFloorPlan?: SaveFloorPlan;
+
+    constructor(private repoModule: RepositoryModule) {}
+
+    public getCreateTableUseCase(): CreateTable {
+        if (!this.createTable) {
+            this.createTable = new CreateTable(this.repoModule.getTableRepository());
+            logger.debug('CreateTable use case instantiated');
+        }
+        return this.createTable;
+    }
+
+    public getUpdateTableUseCase(): UpdateTable {
+        if (!this.updateTable) {
+            this.updateTable = new UpdateTable(this.repoModule.getTableRepository());
+            logger.debug('UpdateTable use case instantiated');
+        }
+        return this.updateTable;
+    }
+
+    public getDeleteTableUseCase(): DeleteTable {
+        if (!this.deleteTable) {
+            this.deleteTable = new DeleteTable(this.repoModule.getTableRepository());
+            logger.debug('DeleteTable use case instantiated');
+        }
+        return this.deleteTable;
+    }
+
+    public getGetTablesUseCase(): GetTables {
+        if (!this.getTables) {
+            this.getTables = new GetTables(this.repoModule.getTableRepository());
+            logger.debug('GetTables use case instantiated');
+        }
+        return this.getTables;
+    }
+
+    public getSaveFloorPlanUseCase(): SaveFloorPlan {
+        if (!this.saveFloorPlan) {
+            this.saveFloorPlan = new SaveFloorPlan(this.repoModule.getTableRepository());
+            logger.debug('SaveFloorPlan use case instantiated');
+        }
+        return this.saveFloorPlan;
+    }
+
+    public reset(): void {
+        this.createTable = undefined;
+        this.updateTable = undefined;
+        this.deleteTable = undefined;
+        this.getTables = undefined;
+        this.saveFloorPlan = undefined;
+    }
+}
@@ -7,6 +7,9 @@
 
 import { IBillRepository } from '../../domain/repositories/IBillRepository';
 import { Bill } from '../../domain/entities/Bill';
+import { EmailDelivery } from '../../domain/billing/emailDelivery';
+import { TipStats } from '../../domain/billing/tips';
+import { VOIDED_BILL_STATUS } from '../../domain/billing/cashSession';
 import { BillModel } from '../database/schemas/BillSchema';
 import { BaseRepository } from './BaseRepository';
 
@@ -45,7 +48,14 @@ export class MongoBillRepository extends BaseRepository<Bill> implements IBillRe
             doc.retryCount || 0,
             doc.lastRetryDate,
             doc.createdAt,
-            doc.errorLog || []
+            doc.errorLog || [],
+            doc.splitPart,
+            doc.payments?.length ? doc.payments : undefined,
+            doc.withheldIva,
+            doc.withheldRenta,
+            doc.emailDelivery?.status ? doc.emailDelivery : undefined,
+            doc.orderIds?.length ? doc.orderIds : undefined,
+            doc.tip?.amount ? doc.tip : undefined
         );
     }
 
@@ -82,6 +92,35 @@ export class MongoBillRepository extends BaseRepository<Bill> implements IBillRe
         return this.mapToEntity(doc);
     }
 
+    async findByDocumentNumber(documentNumber: string): Promise<Bill | null> {
+        const doc = await this.model.findOne({ documentNumber });
+        if (!doc) return null;
+        return this.mapToEntity(doc);
+    }
+
+    async findIssuedBetween(from: Date, to: Date, environment: string): Promise<Bill[]> {
+        // date se guarda como ISO en UTC: el orden del texto es el orden cronológico
+        const docs = await this.model.find({
+            environment,
+            date: { $gte: from.toISOString(), $lt: to.toISOString() }
+        }).sort({ date: 1 }).lean();
+        return docs.map(doc => this.mapToEntity(doc));
+    }
+
+    /**
+     * Ventas de un punto de emisión creadas en [from, to] (cuadre de caja).
+     * El punto de emisión se toma del prefijo del número de documento (estab-ptoEmi-secuencial);
+     * todas las cobradas, en cualquier estado o ambiente, salvo las anuladas con nota de crédito.
+     */
+    async findByEmissionPoint(estab: string, ptoEmi: string, from: Date, to: Date): Promise<Bill[]> {
+        const docs = await this.model.find({
+            documentNumber: { $regex: `^${estab}-${ptoEmi}-` },
+            sriStatus: { $ne: VOIDED_BILL_STATUS },
+            createdAt: { $gte: from, $lte: to }
+        }).sort({ createdAt: 1 }).lean();
+        return docs.map(doc => this.mapToEntity(doc));
+    }
+
     /**
      * Añade una entrada al historial de errores del SRI sin sobreescribir las anteriores.
      * Usa $push de MongoDB para garantizar que el log sea acumulativo e inmutable.
@@ -100,4 +139,48 @@ export class MongoBillRepository extends BaseRepository<Bill> implements IBillRe
             }
         );
     }
+
+    async findByEmailMessageId(messageId: string): Promise<Bill | null> {
+        const doc = await this.model.findOne({ 'emailDelivery.messageId': messageId });
+        return doc ? this.mapToEntity(doc) : null;
+    }
+
+    /** Guarda el estado de entrega por email sin tocar el resto de la factura */
+    async setEmailDelivery(billId: string, delivery: EmailDelivery): Promise<void> {
+        await this.model.findByIdAndUpdate(billId, { $set: { emailDelivery: delivery } });
+    }
+
+    async getTipStats(startDate: Date, endDate: Date): Promise<TipStats> {
+        const [result] = await this.model.aggregate([
+            { $match: { createdAt: { $gte: startDate, $lte: endDate }, 'tip.amount': { $gt: 0 } } },
+            {
+                $facet: {
+                    summary: [{ $group: { _id: null, count: { $sum: 1 }, total: { $sum: '$tip.amount' } } }],
+                    byDay: [
+                        {
+                            $group: {
+                                _id: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt', timezone: 'America/Guayaquil' } },
+                                count: { $sum: 1 },
+                                total: { $sum: '$tip.amount' }
+                            }
+                        },
+                        { $sort: { _id: 1 } }
+                    ],
+                    byEmployee: [
+                        { $group: { _id: { $ifNull: ['$tip.employee', 'Sin registrar'] }, count: { $sum: 1 }, total: { $sum: '$tip.amount' } } },
+                        { $sort: { total: -1 } }
+                    ]
+                }
+            }
+        ]);
+
+        const round2 = (value: number) => Math.round(value * 100) / 100;
+        const summary = result?.summary?.[0] || { count: 0, total: 0 };
+        return {
+            count: summary.count,
+            total: round2(summary.total),
+            byDay: (result?.byDay || []).map((d: any) => ({ date: d._id, count: d.count, total: round2(d.total) })),
+            byEmployee: (result?.byEmployee || []).map((e: any) => ({ employee: e._id, count: e.count, total: round2(e.total) }))
+        };
+    }
 }
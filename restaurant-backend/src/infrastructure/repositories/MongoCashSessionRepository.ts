@@ -0,0 +1,161 @@
+/**
+ * Repositorio de Sesiones de Caja - Implementación MongoDB
+ *
+ * Extiende BaseRepository para heredar operaciones CRUD comunes.
+ * Implementa apertura, movimientos ($push) y cierre de caja.
+ */
+
+import { ICashSessionRepository } from '../../domain/repositories/ICashSessionRepository';
+import {
+    CashSession,
+    CashMovement,
+    OpenCashSessionDTO,
+    CloseCashSessionDTO,
+} from '../../domain/entities/CashSession';
+import { CashSessionModel } from '../database/schemas/CashSessionSchema';
+import { BaseRepository } from './BaseRepository';
+import { logger } from '../utils/Logger';
+import { DatabaseError, ValidationError } from '../../domain/errors/CustomErrors';
+
+export class MongoCashSessionRepository
+    extends BaseRepository<CashSession>
+    implements ICashSessionRepository
+{
+    constructor() {
+        super(CashSessionModel, 'CashSession');
+    }
+
+    protected mapToEntity(doc: any): CashSession {
+        return {
+            id: doc.id || doc._id.toString(),
+            estab: doc.estab,
+            ptoEmi: doc.ptoEmi,
+            status: doc.status,
+            openedBy: { userId: doc.openedBy?.userId, username: doc.openedBy?.username },
+            openedAt: doc.openedAt,
+            openingFloat: doc.openingFloat,
+            movements: (doc.movements || []).map((m: any) => ({
+                id: m.id,
+                type: m.type,
+                amount: m.amount,
+                reason: m.reason,
+                creditNoteId: m.creditNoteId,
+                createdBy: { userId: m.createdBy?.userId, username: m.createdBy?.username },
+                createdAt: m.createdAt,
+            })),
+            closedBy: doc.closedBy?.userId
+                ? { userId: doc.closedBy.userId, username: doc.closedBy.username }
+                : undefined,
+            closedAt: doc.closedAt,
+            countedCash: doc.countedCash,
+            difference: doc.difference,
+            summary: doc.summary || undefined,
+            notes: doc.notes,
+            createdAt: doc.createdAt,
+            updatedAt: doc.updatedAt,
+        };
+    }
+
+    /**
+     * Open a new cash session
+     */
+    async open(data: OpenCashSessionDTO): Promise<CashSession> {
+        try {
+            const newDoc = new this.model({
+                ...data,
+                status: 'open',
+                openedAt: new Date(),
+                movements: [],
+            });
+            const saved = await newDoc.save();
+            logger.info('CashSession opened', { id: saved._id, estab: data.estab, ptoEmi: data.ptoEmi });
+
+            return this.mapToEntity(saved);
+        } catch (error: any) {
+            // Índice único parcial: otra caja se abrió en el mismo punto de emisión
+            if (error.code === 11000) {
+                throw new ValidationError(`Ya existe una caja abierta en el punto de emisión ${data.estab}-${data.ptoEmi}`);
+            }
+            logger.error('Failed to open CashSession', error);
+            throw new DatabaseError('Failed to open CashSession', error);
+        }
+    }
+
+    async findOpenByEmissionPoint(estab: string, ptoEmi: string): Promise<CashSession | null> {
+        try {
+            const found = await this.model.findOne({ estab, ptoEmi, status: 'open' });
+            return found ? this.mapToEntity(found) : null;
+        } catch (error) {
+            logger.error('Failed to find open CashSession by emission point', error);
+            throw new DatabaseError('Failed to find CashSession', error as Error);
+        }
+    }
+
+    async findOpenByUser(userId: string): Promise<CashSession | null> {
+        try {
+            const found = await this.model.findOne({ 'openedBy.userId': userId, status: 'open' });
+            return found ? this.mapToEntity(found) : null;
+        } catch (error) {
+            logger.error('Failed to find open CashSession by user', error);
+            throw new DatabaseError('Failed to find CashSession', error as Error);
+        }
+    }
+
+    async findRecent(limit: number): Promise<CashSession[]> {
+        try {
+            const all = await this.model.find().sort({ openedAt: -1 }).limit(limit).lean();
+            return all.map((doc) => this.mapToEntity(doc));
+        } catch (error) {
+            logger.error('Failed to find recent CashSessions', error);
+            throw new DatabaseError('Failed to find CashSessions', error as Error);
+        }
+    }
+
+    async hasCreditNoteRefund(creditNoteId: string): Promise<boolean> {
+        try {
+            return (await this.model.countDocuments({ 'movements.creditNoteId': creditNoteId })) > 0;
+        } catch (error) {
+            logger.error('Failed to check credit note refund', error);
+            throw new DatabaseError('Failed to check credit note refund', error as Error);
+        }
+    }
+
+    /**
+     * Append a manual movement to an open session
+     */
+    async addMovement(id: string, movement: CashMovement): Promise<CashSession | null> {
+        try {
+            if (!this.isValidObjectId(id)) return null;
+            const updated = await this.model.findOneAndUpdate(
+                { _id: id, status: 'open' },
+                { $push: { movements: movement } },
+                { new: true }
+            );
+            return updated ? this.mapToEntity(updated) : null;
+        } catch (error) {
+            logger.error('Failed to add CashSession movement', error);
+            throw new DatabaseError('Failed to add cash movement', error as Error);
+        }
+    }
+
+    /**
+     * Close an open session; returns null if it was already closed
+     */
+    async close(id: string, data: CloseCashSessionDTO): Promise<CashSession | null> {
+        try {
+            if (!this.isValidObjectId(id)) return null;
+            const updated = await this.model.findOneAndUpdate(
+                { _id: id, status: 'open' },
+                { $set: { ...data, status: 'closed' } },
+                { new: true }
+            );
+            if (updated) {
+                logger.info('CashSession closed', { id, difference: data.difference });
+            }
+            return updated ? this.mapToEntity(updated) : null;
+        } catch (error) {
+            logger.error('Failed to close CashSession', error);
+            throw new DatabaseError('Failed to close CashSession', error as Error);
+        }
+    }
+}
@@ -37,6 +37,7 @@ export class MongoCategoryRepository
             visibleOnWebsite: doc.visibleOnWebsite ?? true,
             sortOrder: doc.sortOrder ?? 0,
             available: doc.available ?? true,
+            stationId: doc.stationId || null,
             createdAt: doc.createdAt,
             updatedAt: doc.updatedAt,
         };
@@ -7,6 +7,7 @@
 
 import { ICreditNoteRepository } from '../../domain/repositories/ICreditNoteRepository';
 import { CreditNote } from '../../domain/entities/CreditNote';
+import { EmailDelivery } from '../../domain/billing/emailDelivery';
 import { CreditNoteModel } from '../database/schemas/CreditNoteSchema';
 import { BaseRepository } from './BaseRepository';
 
@@ -61,7 +62,8 @@ export class MongoCreditNoteRepository extends BaseRepository<CreditNote> implem
             doc.createdAt,
             doc.sriMessage,
             doc.errorLog || [],
-            billDocumentNumber
+            billDocumentNumber,
+            doc.emailDelivery?.status ? doc.emailDelivery : undefined
         );
     }
 
@@ -140,4 +142,14 @@ export class MongoCreditNoteRepository extends BaseRepository<CreditNote> implem
             }
         );
     }
+
+    async findByEmailMessageId(messageId: string): Promise<CreditNote | null> {
+        const doc = await this.model.findOne({ 'emailDelivery.messageId': messageId });
+        return doc ? this.mapToEntity(doc) : null;
+    }
+
+    /** Guarda el estado de entrega por email sin tocar el resto de la nota de crédito */
+    async setEmailDelivery(creditNoteId: string, delivery: EmailDelivery): Promise<void> {
+        await this.model.findByIdAndUpdate(creditNoteId, { $set: { emailDelivery: delivery } });
+    }
 }
@@ -0,0 +1,94 @@
+/**
+ * Repositorio de Notas de Débito - Implementación MongoDB
+ *
+ * Extiende BaseRepository para heredar operaciones CRUD comunes.
+ * Solo implementa el mapeo, la búsqueda por factura y el historial de errores del SRI.
+ */
+
+import { IDebitNoteRepository } from '../../domain/repositories/IDebitNoteRepository';
+import { DebitNote, DebitNoteErrorEntry, CreateDebitNoteDTO } from '../../domain/entities/DebitNote';
+import { DebitNoteModel } from '../database/schemas/DebitNoteSchema';
+import { BaseRepository } from './BaseRepository';
+import { logger } from '../utils/Logger';
+import { DatabaseError, ValidationError } from '../../domain/errors/CustomErrors';
+
+export class MongoDebitNoteRepository
+    extends BaseRepository<DebitNote>
+    implements IDebitNoteRepository
+{
+    constructor() {
+        super(DebitNoteModel, 'DebitNote');
+    }
+
+    protected mapToEntity(doc: any): DebitNote {
+        return {
+            id: doc.id || doc._id.toString(),
+            documentNumber: doc.documentNumber,
+            date: doc.date,
+            billId: doc.billId?.toString(),
+            billDocumentNumber: doc.billDocumentNumber,
+            billDate: doc.billDate,
+            originalAccessKey: doc.originalAccessKey,
+            customerName: doc.customerName,
+            customerIdentification: doc.customerIdentification,
+            customerAddress: doc.customerAddress,
+            customerEmail: doc.customerEmail,
+            items: (doc.items || []).map((item: any) => ({
+                reason: item.reason,
+                description: item.description,
+                amount: item.amount,
+                taxRate: item.taxRate,
+                tax: item.tax,
+                total: item.total
+            })),
+            paymentMethod: doc.paymentMethod,
+            subtotal: doc.subtotal,
+            tax: doc.tax,
+            total: doc.total,
+            accessKey: doc.accessKey,
+            sriStatus: doc.sriStatus,
+            environment: doc.environment,
+            authorizationDate: doc.authorizationDate,
+            xmlContent: doc.xmlContent,
+            sriMessage: doc.sriMessage,
+            errorLog: doc.errorLog || [],
+            createdBy: doc.createdBy,
+            createdAt: doc.createdAt,
+            updatedAt: doc.updatedAt
+        };
+    }
+
+    async create(data: CreateDebitNoteDTO): Promise<DebitNote> {
+        try {
+            const saved = await new this.model(data).save();
+            logger.info('DebitNote created', { id: saved._id, documentNumber: data.documentNumber });
+            return this.mapToEntity(saved);
+        } catch (error: any) {
+            if (error.code === 11000) {
+                throw new ValidationError(`Ya existe una nota de débito con el número ${data.documentNumber}`);
+            }
+            logger.error('Failed to create DebitNote', error);
+            throw new DatabaseError('Failed to create DebitNote', error);
+        }
+    }
+
+    async findByBillId(billId: string): Promise<DebitNote[]> {
+        const docs = await this.model.find({ billId }).sort({ createdAt: -1 }).lean();
+        return docs.map(doc => this.mapToEntity(doc));
+    }
+
+    async findByAccessKey(accessKey: string): Promise<DebitNote | null> {
+        const doc = await this.model.findOne({ accessKey }).lean();
+        return doc ? this.mapToEntity(doc) : null;
+    }
+
+    /**
+     * Usa $push de MongoDB para garantizar que el log sea acumulativo e inmutable.
+     */
+    async pushErrorLog(id: string, entry: DebitNoteErrorEntry): Promise<void> {
+        await this.model.findByIdAndUpdate(id, {
+            $push: { errorLog: entry },
+            $set: { sriMessage: entry.message, sriStatus: entry.sriStatus }
+        });
+    }
+}
@@ -0,0 +1,98 @@
+/**
+ * Repositorio de Ingredientes - Implementación MongoDB
+ *
+ * Extiende BaseRepository para heredar operaciones CRUD comunes.
+ * El stock solo cambia con $inc (adjustStock): nunca se escribe el valor leído.
+ */
+
+import { IIngredientRepository } from '../../domain/repositories/IIngredientRepository';
+import { Ingredient, CreateIngredientDTO } from '../../domain/entities/Ingredient';
+import { IngredientModel } from '../database/schemas/IngredientSchema';
+import { BaseRepository } from './BaseRepository';
+import { logger } from '../utils/Logger';
+import { DatabaseError, ValidationError } from '../../domain/errors/CustomErrors';
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export class MongoIngredientRepository
+    extends BaseRepository<Ingredient>
+    implements IIngredientRepository
+{
+    constructor() {
+        super(IngredientModel, 'Ingredient');
+    }
+
+    protected mapToEntity(doc: any): Ingredient {
+        return {
+            id: doc.id || doc._id.toString(),
+            name: doc.name,
+            unit: doc.unit,
+            stock: doc.stock ?? 0,
+            minStock: doc.minStock ?? 0,
+            cost: doc.cost,
+            active: doc.active ?? true,
+            createdAt: doc.createdAt,
+            updatedAt: doc.updatedAt,
+        };
+    }
+
+    async create(data: CreateIngredientDTO): Promise<Ingredient> {
+        try {
+            const saved = await new this.model({ ...data, active: true }).save();
+            logger.info('Ingredient created', { id: saved._id, name: data.name });
+            return this.mapToEntity(saved);
+        } catch (error: any) {
+            if (error.code === 11000) {
+                throw new ValidationError(`Ya existe un ingrediente llamado "${data.name}"`);
+            }
+            logger.error('Failed to create Ingredient', error);
+            throw new DatabaseError('Failed to create Ingredient', error);
+        }
+    }
+
+    async findByName(name: string): Promise<Ingredient | null> {
+        try {
+            const found = await this.model
+                .findOne({ name: new RegExp(`^${escapeRegex(name.trim())}$`, 'i') })
+                .lean();
+            return found ? this.mapToEntity(found) : null;
+        } catch (error) {
+            logger.error('Failed to find Ingredient by name', error);
+            throw new DatabaseError('Failed to find Ingredient', error as Error);
+        }
+    }
+
+    async findByIds(ids: string[]): Promise<Ingredient[]> {
+        try {
+            const valid = ids.filter((id) => this.isValidObjectId(id));
+            if (valid.length === 0) return [];
+            const docs = await this.model.find({ _id: { $in: valid } }).lean();
+            return docs.map((doc) => this.mapToEntity(doc));
+        } catch (error) {
+            logger.error('Failed to find Ingredients by ids', error);
+            throw new DatabaseError('Failed to find Ingredients', error as Error);
+        }
+    }
+
+    async findAll(includeInactive: boolean = false): Promise<Ingredient[]> {
+        try {
+            const filter = includeInactive ? {} : { active: true };
+            const docs = await this.model.find(filter).sort({ name: 1 }).lean();
+            return docs.map((doc) => this.mapToEntity(doc));
+        } catch (error) {
+            logger.error('Failed to find Ingredients', error);
+            throw new DatabaseError('Failed to find Ingredients', error as Error);
+        }
+    }
+
+    async adjustStock(id: string, delta: number): Promise<Ingredient | null> {
+        try {
+            if (!this.isValidObjectId(id)) return null;
+            const updated = await this.model.findByIdAndUpdate(id, { $inc: { stock: delta } }, { new: true });
+            return updated ? this.mapToEntity(updated) : null;
+        } catch (error) {
+            logger.error('Failed to adjust Ingredient stock', error);
+            throw new DatabaseError('Failed to adjust Ingredient stock', error as Error);
+        }
+    }
+}
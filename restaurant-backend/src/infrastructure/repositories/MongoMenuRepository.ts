@@ -25,7 +25,10 @@ export class MongoMenuRepository extends BaseRepository<MenuItem> implements IMe
             category: doc.category,
             categoryId: doc.categoryId?.toString?.() || doc.categoryId,
             available: doc.available,
-            taxRate: doc.taxRate ?? 15
+            taxRate: doc.taxRate ?? 15,
+            modifierGroups: doc.modifierGroups || [],
+            stationId: doc.stationId || null,
+            recipe: doc.recipe || []
         };
 
         // Si la categoría está populada, mapearla
@@ -39,6 +42,7 @@ export class MongoMenuRepository extends BaseRepository<MenuItem> implements IMe
                 visibleOnWebsite: doc.categoryId.visibleOnWebsite ?? true,
                 sortOrder: doc.categoryId.sortOrder ?? 0,
                 available: doc.categoryId.available ?? true,
+                stationId: doc.categoryId.stationId || null,
             };
         }
 
@@ -6,10 +6,12 @@
  */
 
 import { IOrderRepository, DashboardStatsDTO } from '../../domain/repositories/IOrderRepository';
-import { Order } from '../../domain/entities/Order';
+import { Order, OrderStatus } from '../../domain/entities/Order';
 import { OrderModel } from '../database/schemas/OrderSchema';
 import { CounterModel } from '../database/schemas/CounterSchema';
 import { BaseRepository } from './BaseRepository';
+import { dbConnection } from '../database/DatabaseConnection';
+import { auditService } from '../services/AuditService';
 
 const ORDER_COUNTER_ID = 'orderNumber';
 
@@ -57,6 +59,28 @@ export class MongoOrderRepository extends BaseRepository<Order> implements IOrde
         return result[0]?.max || 0;
     }
 
+    /**
+     * Quien cambia el estado sin traer el historial (facturación, reintentos SRI)
+     * igual deja constancia: se agrega la entrada aquí, sin usuario.
+     */
+    async update(id: string, order: Partial<Order>): Promise<Order | null> {
+        if (order.status && !order.statusHistory && this.isValidObjectId(id)) {
+            const current = await this.model.findById(id, { status: 1, statusHistory: 1 }).lean<any>();
+            if (current && current.status !== order.status) {
+                order = {
+                    ...order,
+                    statusHistory: [...(current.statusHistory || []), { status: order.status, at: new Date(), by: null }]
+                };
+            }
+        }
+        return super.update(id, order);
+    }
+
+    async findByClientRequestId(clientRequestId: string): Promise<Order | null> {
+        const doc = await this.model.findOne({ clientRequestId });
+        return doc ? this.mapToEntity(doc) : null;
+    }
+
     protected mapToEntity(doc: any): Order {
         return {
             id: doc.id || doc._id.toString(),
@@ -65,20 +89,116 @@ export class MongoOrderRepository extends BaseRepository<Order> implements IOrde
             type: doc.type,
             status: doc.status,
             createdAt: doc.createdAt,
+            updatedAt: doc.updatedAt,
             readyAt: doc.readyAt,
             estimatedMinutes: doc.estimatedMinutes,
             estimateSetAt: doc.estimateSetAt,
             billed: doc.billed,
             billingType: doc.billingType,
-            orderNumber: doc.orderNumber
+            orderNumber: doc.orderNumber,
+            tableId: doc.tableId ?? null,
+            discount: doc.discount ?? null,
+            splitBilling: doc.splitBilling ?? null,
+            statusHistory: doc.statusHistory || [],
+            cancellation: doc.cancellation ?? null,
+            stockDeduction: doc.stockDeduction || [],
+            clientRequestId: doc.clientRequestId ?? null,
+            lastClientUpdateId: doc.lastClientUpdateId ?? null
         };
     }
 
+    /**
+     * Marca preparados los ítems de una estación con un solo updateOne (arrayFilters):
+     * parrilla y bar despachando el mismo pedido a la vez no se pisan.
+     * station null coincide con ítems sin estación (null o ausente).
+     */
+    async markStationPrepared(id: string, station: string | null): Promise<Order | null> {
+        if (!this.isValidObjectId(id)) {
+            return null;
+        }
+
+        const doc = await this.model.findOneAndUpdate(
+            { _id: id },
+            { $set: { 'items.$[i].prepared': true } },
+            { new: true, arrayFilters: [{ 'i.station': station }] }
+        );
+        return doc ? this.mapToEntity(doc) : null;
+    }
+
+    /**
+     * Marca facturados y completados varios pedidos en una sola transacción (factura consolidada):
+     * o quedan todos facturados o ninguno. La auditoría se registra después del commit.
+     */
+    async markBilled(ids: string[], billingType: Order['billingType']): Promise<Order[]> {
+        const validIds = ids.filter(id => this.isValidObjectId(id));
+        const at = new Date();
+
+        const changes = await dbConnection.withTransaction(async (session) => {
+            const result: { before: any; after: any }[] = [];
+            for (const id of validIds) {
+                const before = await this.model.findById(id).session(session).lean<any>();
+                if (!before) continue;
+
+                const update: any = {
+                    $set: { billed: true, status: OrderStatus.Completed, billingType },
+                    $unset: { billingClaim: 1 }
+                };
+                if (before.status !== OrderStatus.Completed) {
+                    update.$push = { statusHistory: { status: OrderStatus.Completed, at, by: null } };
+                }
+                const after = await this.model.findByIdAndUpdate(id, update, { new: true, session });
+                if (after) result.push({ before, after });
+            }
+            return result;
+        });
+
+        changes.forEach(({ before, after }) => auditService.log({
+            action: 'UPDATE',
+            collection: this.entityName,
+            documentId: after.id,
+            before,
+            after
+        }));
+        return changes.map(({ after }) => this.mapToEntity(after));
+    }
+
+    /**
+     * Reserva los pedidos marcándolos facturados con la clave de la emisión, en un solo
+     * updateMany condicional: dos cajeros consolidando el mismo pedido a la vez no
+     * pueden reservarlo los dos. Si no se reservan todos, se sueltan los tomados.
+     */
+    async claimForBilling(ids: string[], claim: string): Promise<boolean> {
+        const uniqueIds = [...new Set(ids)];
+        const validIds = uniqueIds.filter(id => this.isValidObjectId(id));
+        if (validIds.length !== uniqueIds.length) return false;
+
+        const result = await this.model.updateMany(
+            { _id: { $in: validIds }, billed: { $ne: true } },
+            { $set: { billed: true, billingClaim: claim } }
+        );
+        if (result.modifiedCount === validIds.length) return true;
+
+        await this.releaseBillingClaim(validIds, claim);
+        return false;
+    }
+
+    /** Solo los pedidos que siguen con la reserva de esta emisión (markBilled la quita) */
+    async releaseBillingClaim(ids: string[], claim: string): Promise<void> {
+        await this.model.updateMany(
+            { _id: { $in: ids.filter(id => this.isValidObjectId(id)) }, billingClaim: claim },
+            { $set: { billed: false }, $unset: { billingClaim: 1 } }
+        );
+    }
+
     async getDashboardStats(startDate: Date, endDate: Date): Promise<DashboardStatsDTO> {
+        const inRange = { createdAt: { $gte: startDate, $lte: endDate } };
+        // Los pedidos cancelados no son ventas: solo cuentan en su propio bloque
+        const sold = { ...inRange, status: { $ne: OrderStatus.Cancelled } };
+
         // 1. Basic stats (Total Revenue, Total Orders, Average Ticket)
         // We calculate revenue summing prices of items in orders
         const revenueAggregation = await this.model.aggregate([
-            { $match: { createdAt: { $gte: startDate, $lte: endDate } } },
+            { $match: sold },
             { $unwind: "$items" },
             {
                 $group: {
@@ -103,7 +223,7 @@ export class MongoOrderRepository extends BaseRepository<Order> implements IOrde
         const dateFormat = durationDays > 32 ? "%Y-%m" : "%Y-%m-%d";
 
         const revenueByDay = await this.model.aggregate([
-            { $match: { createdAt: { $gte: startDate, $lte: endDate } } },
+            { $match: sold },
             { $unwind: "$items" },
             {
                 $group: {
@@ -117,14 +237,14 @@ export class MongoOrderRepository extends BaseRepository<Order> implements IOrde
 
         // 3. Orders by Status
         const ordersByStatus = await this.model.aggregate([
-            { $match: { createdAt: { $gte: startDate, $lte: endDate } } },
+            { $match: inRange },
             { $group: { _id: "$status", count: { $sum: 1 } } },
             { $project: { status: "$_id", count: 1, _id: 0 } }
         ]);
 
         // 4. Top Selling Items
         const topSellingItems = await this.model.aggregate([
-            { $match: { createdAt: { $gte: startDate, $lte: endDate } } },
+            { $match: sold },
             { $unwind: "$items" },
             { $group: { _id: "$items.name", quantity: { $sum: "$items.quantity" } } },
             { $sort: { quantity: -1 } },
@@ -134,7 +254,7 @@ export class MongoOrderRepository extends BaseRepository<Order> implements IOrde
 
         // 5. Activity by Hour
         const activityByHour = await this.model.aggregate([
-            { $match: { createdAt: { $gte: startDate, $lte: endDate } } },
+            { $match: inRange },
             {
                 $project: {
                     hour: { $hour: { date: "$createdAt", timezone: "America/Guayaquil" } } // Adjust timezone if needed
@@ -148,7 +268,7 @@ export class MongoOrderRepository extends BaseRepository<Order> implements IOrde
         // 6. Sales by Category (Join with MenuItems would be ideal here, but kept simple for now based on item names or if category was denormalized)
         // For now, let's categorize by 'type' of order as a proxy for sales channel analysis requested
         const salesByCategory = await this.model.aggregate([
-            { $match: { createdAt: { $gte: startDate, $lte: endDate } } },
+            { $match: sold },
             { $unwind: "$items" },
             {
                 $group: {
@@ -161,7 +281,7 @@ export class MongoOrderRepository extends BaseRepository<Order> implements IOrde
 
         // 7. Sales by Billing Type
         const salesByBillingType = await this.model.aggregate([
-            { $match: { createdAt: { $gte: startDate, $lte: endDate } } },
+            { $match: sold },
             { $unwind: "$items" },
             {
                 $group: {
@@ -172,6 +292,79 @@ export class MongoOrderRepository extends BaseRepository<Order> implements IOrde
             { $project: { type: "$_id", total: 1, _id: 0 } }
         ]);
 
+        // 8. Cancellations (cuántas, monto que no se vendió y motivos más frecuentes)
+        const cancellationsByReason = await this.model.aggregate([
+            { $match: { ...inRange, status: OrderStatus.Cancelled } },
+            {
+                $project: {
+                    reason: { $ifNull: ["$cancellation.reason", "Sin motivo"] },
+                    amount: {
+                        $sum: {
+                            $map: {
+                                input: "$items",
+                                as: "item",
+                                in: { $multiply: ["$$item.quantity", { $ifNull: ["$$item.price", 0] }] }
+                            }
+                        }
+                    }
+                }
+            },
+            { $group: { _id: "$reason", count: { $sum: 1 }, lostRevenue: { $sum: "$amount" } } },
+            { $sort: { count: -1 } },
+            { $project: { reason: "$_id", count: 1, lostRevenue: 1, _id: 0 } }
+        ]);
+
+        const cancellations = {
+            count: cancellationsByReason.reduce((sum, r) => sum + r.count, 0),
+            lostRevenue: cancellationsByReason.reduce((sum, r) => sum + r.lostRevenue, 0),
+            byReason: cancellationsByReason.slice(0, 10).map(r => ({ reason: r.reason, count: r.count }))
+        };
+
+        // 9. Discounts (línea y pedido): cuánto se descontó, por qué y quién lo autorizó
+        const [discountFacets] = await this.model.aggregate([
+            { $match: { ...sold, $or: [{ discount: { $ne: null } }, { 'items.discount': { $ne: null } }] } },
+            {
+                $project: {
+                    discounts: {
+                        $concatArrays: [
+                            { $cond: [{ $ifNull: ["$discount", false] }, ["$discount"], []] },
+                            {
+                                $filter: {
+                                    input: { $map: { input: "$items", as: "item", in: "$$item.discount" } },
+                                    as: "d",
+                                    cond: { $ifNull: ["$$d", false] }
+                                }
+                            }
+                        ]
+                    }
+                }
+            },
+            { $unwind: "$discounts" },
+            {
+                $facet: {
+                    totals: [{ $group: { _id: null, count: { $sum: 1 }, total: { $sum: { $ifNull: ["$discounts.amount", 0] } } } }],
+                    byReason: [
+                        { $group: { _id: "$discounts.reason", count: { $sum: 1 }, total: { $sum: { $ifNull: ["$discounts.amount", 0] } } } },
+                        { $sort: { total: -1 } },
+                        { $limit: 10 },
+                        { $project: { reason: "$_id", count: 1, total: 1, _id: 0 } }
+                    ],
+                    byEmployee: [
+                        { $group: { _id: { $ifNull: ["$discounts.authorizedBy", "Sin registrar"] }, count: { $sum: 1 }, total: { $sum: { $ifNull: ["$discounts.amount", 0] } } } },
+                        { $sort: { total: -1 } },
+                        { $limit: 10 },
+                        { $project: { employee: "$_id", count: 1, total: 1, _id: 0 } }
+                    ]
+                }
+            }
+        ]);
+
+        const discounts = {
+            count: discountFacets?.totals[0]?.count || 0,
+            total: discountFacets?.totals[0]?.total || 0,
+            byReason: discountFacets?.byReason || [],
+            byEmployee: discountFacets?.byEmployee || []
+        };
 
         return {
             totalRevenue: stats.totalRevenue,
@@ -182,7 +375,9 @@ export class MongoOrderRepository extends BaseRepository<Order> implements IOrde
             topSellingItems,
             activityByHour,
             salesByCategory,
-            salesByBillingType
+            salesByBillingType,
+            cancellations,
+            discounts
         };
     }
 }
@@ -0,0 +1,94 @@
+/**
+ * Repositorio de Liquidaciones de Compra - Implementación MongoDB
+ *
+ * Extiende BaseRepository para heredar operaciones CRUD comunes.
+ * Solo implementa el mapeo y el historial de errores del SRI.
+ */
+
+import { IPurchaseSettlementRepository } from '../../domain/repositories/IPurchaseSettlementRepository';
+import {
+    PurchaseSettlement,
+    PurchaseSettlementErrorEntry,
+    CreatePurchaseSettlementDTO
+} from '../../domain/entities/PurchaseSettlement';
+import { PurchaseSettlementModel } from '../database/schemas/PurchaseSettlementSchema';
+import { BaseRepository } from './BaseRepository';
+import { logger } from '../utils/Logger';
+import { DatabaseError, ValidationError } from '../../domain/errors/CustomErrors';
+
+export class MongoPurchaseSettlementRepository
+    extends BaseRepository<PurchaseSettlement>
+    implements IPurchaseSettlementRepository
+{
+    constructor() {
+        super(PurchaseSettlementModel, 'PurchaseSettlement');
+    }
+
+    protected mapToEntity(doc: any): PurchaseSettlement {
+        return {
+            id: doc.id || doc._id.toString(),
+            documentNumber: doc.documentNumber,
+            date: doc.date,
+            supplier: {
+                name: doc.supplier?.name,
+                identification: doc.supplier?.identification,
+                identificationType: doc.supplier?.identificationType,
+                address: doc.supplier?.address,
+                email: doc.supplier?.email,
+                phone: doc.supplier?.phone
+            },
+            items: (doc.items || []).map((item: any) => ({
+                description: item.description,
+                quantity: item.quantity,
+                unitPrice: item.unitPrice,
+                taxRate: item.taxRate,
+                subtotal: item.subtotal,
+                tax: item.tax
+            })),
+            paymentMethod: doc.paymentMethod,
+            notes: doc.notes,
+            subtotal: doc.subtotal,
+            tax: doc.tax,
+            total: doc.total,
+            accessKey: doc.accessKey,
+            sriStatus: doc.sriStatus,
+            environment: doc.environment,
+            authorizationDate: doc.authorizationDate,
+            xmlContent: doc.xmlContent,
+            sriMessage: doc.sriMessage,
+            errorLog: doc.errorLog || [],
+            createdBy: doc.createdBy,
+            createdAt: doc.createdAt,
+            updatedAt: doc.updatedAt
+        };
+    }
+
+    async create(data: CreatePurchaseSettlementDTO): Promise<PurchaseSettlement> {
+        try {
+            const saved = await new this.model(data).save();
+            logger.info('PurchaseSettlement created', { id: saved._id, documentNumber: data.documentNumber });
+            return this.mapToEntity(saved);
+        } catch (error: any) {
+            if (error.code === 11000) {
+                throw new ValidationError(`Ya existe una liquidación de compra con el número ${data.documentNumber}`);
+            }
+            logger.error('Failed to create PurchaseSettlement', error);
+            throw new DatabaseError('Failed to create PurchaseSettlement', error);
+        }
+    }
+
+    async findByAccessKey(accessKey: string): Promise<PurchaseSettlement | null> {
+        const doc = await this.model.findOne({ accessKey }).lean();
+        return doc ? this.mapToEntity(doc) : null;
+    }
+
+    /**
+     * Usa $push de MongoDB para garantizar que el log sea acumulativo e inmutable.
+     */
+    async pushErrorLog(id: string, entry: PurchaseSettlementErrorEntry): Promise<void> {
+        await this.model.findByIdAndUpdate(id, {
+            $push: { errorLog: entry },
+            $set: { sriMessage: entry.message, sriStatus: entry.sriStatus }
+        });
+    }
+}
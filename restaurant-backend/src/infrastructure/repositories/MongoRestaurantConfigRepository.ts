@@ -7,6 +7,8 @@
 
 import { IRestaurantConfigRepository } from '../../domain/repositories/IRestaurantConfigRepository';
 import { RestaurantConfig } from '../../domain/entities/RestaurantConfig';
+import { SequenceCounterField } from '../../domain/billing/sequentials';
+import { printLayoutOf } from '../../domain/billing/printLayout';
 import { RestaurantConfigModel } from '../database/schemas/RestaurantConfigSchema';
 import { logger } from '../utils/Logger';
 
@@ -40,10 +42,14 @@ const DEFAULT_CONFIG: Omit<RestaurantConfig, 'id' | 'createdAt' | 'updatedAt'> =
         currentSequenceFactura: 1,
         currentSequenceNotaCredito: 1,
         currentSequenceNotaVenta: 1,
+        currentSequenceNotaDebito: 0,
+        currentSequenceLiquidacionCompra: 0,
         // Secuenciales de PRUEBAS
         testSequenceFactura: 1,
         testSequenceNotaCredito: 1,
-        testSequenceNotaVenta: 1
+        testSequenceNotaVenta: 1,
+        testSequenceNotaDebito: 0,
+        testSequenceLiquidacionCompra: 0
     }
 };
 
@@ -81,14 +87,21 @@ export class MongoRestaurantConfigRepository implements IRestaurantConfigReposit
                 regime: doc.billing.regime,
                 agenteRetencion: doc.billing.agenteRetencion,
                 taxRate: doc.billing.taxRate ?? 15, // Fallback 15% para registros anteriores
+                taxSchedule: (doc.billing.taxSchedule || []).map((p: any) => ({ rate: p.rate, code: p.code, effectiveFrom: p.effectiveFrom })),
+                serviceChargeRate: doc.billing.serviceChargeRate ?? 0,
+                printLayout: printLayoutOf(doc.billing),
                 // Secuenciales de PRODUCCIÓN
                 currentSequenceFactura: doc.billing.currentSequenceFactura,
                 currentSequenceNotaCredito: doc.billing.currentSequenceNotaCredito,
                 currentSequenceNotaVenta: doc.billing.currentSequenceNotaVenta,
+                currentSequenceNotaDebito: doc.billing.currentSequenceNotaDebito ?? 0,
+                currentSequenceLiquidacionCompra: doc.billing.currentSequenceLiquidacionCompra ?? 0,
                 // Secuenciales de PRUEBAS
                 testSequenceFactura: doc.billing.testSequenceFactura ?? 1,
                 testSequenceNotaCredito: doc.billing.testSequenceNotaCredito ?? 1,
-                testSequenceNotaVenta: doc.billing.testSequenceNotaVenta ?? 1
+                testSequenceNotaVenta: doc.billing.testSequenceNotaVenta ?? 1,
+                testSequenceNotaDebito: doc.billing.testSequenceNotaDebito ?? 0,
+                testSequenceLiquidacionCompra: doc.billing.testSequenceLiquidacionCompra ?? 0
             },
             // Certificado Digital SRI
             // Only include if certificate has VALID data (uploadedAt is required for a valid certificate)
@@ -107,6 +120,8 @@ export class MongoRestaurantConfigRepository implements IRestaurantConfigReposit
                 theme: doc.website.theme,
                 sections: doc.website.sections
             } : undefined,
+            kitchenStations: (doc.kitchenStations || []).map((s: any) => ({ id: s.id, name: s.name })),
+            inventoryDeductOn: doc.inventoryDeductOn || 'created',
             createdAt: doc.createdAt,
             updatedAt: doc.updatedAt
         };
@@ -331,4 +346,129 @@ export class MongoRestaurantConfigRepository implements IRestaurantConfigReposit
 
         return nextSequential;
     }
+
+    /**
+     * Atomically retrieves and increments the sequential number for debit notes (codDoc 05).
+     *
+     * IMPORTANTE: Usa secuenciales SEPARADOS por ambiente:
+     * - Producción ('2'): billing.currentSequenceNotaDebito
+     * - Pruebas ('1'): billing.testSequenceNotaDebito
+     */
+    async getNextDebitNoteSequential(): Promise<number> {
+        const environment = await this.getCurrentEnvironment();
+        const isProduction = environment === '2';
+        const fieldName = isProduction ? 'billing.currentSequenceNotaDebito' : 'billing.testSequenceNotaDebito';
+
+        logger.debug('Getting next sequential number for debit note', { environment, field: fieldName });
+
+        await this.getOrCreate();
+
+        const doc = await RestaurantConfigModel.findByIdAndUpdate(
+            FIXED_CONFIG_ID,
+            { $inc: { [fieldName]: 1 } },
+            { new: true, upsert: true, runValidators: false }
+        );
+
+        const nextSequential = isProduction
+            ? doc?.billing?.currentSequenceNotaDebito
+            : doc?.billing?.testSequenceNotaDebito;
+
+        if (!doc || !doc.billing || typeof nextSequential !== 'number') {
+            logger.error('Failed to get next sequential number for debit note', { environment });
+            throw new Error('Failed to increment debit note sequential counter');
+        }
+
+        logger.info('Generated new sequential number for debit note', {
+            sequential: nextSequential,
+            environment: isProduction ? 'Producción' : 'Pruebas'
+        });
+
+        try {
+            const { cacheService } = await import('../utils/CacheService');
+            await cacheService.invalidate('config:restaurant');
+        } catch (e) {
+            logger.warn('Failed to invalidate cache', { error: e });
+        }
+
+        return nextSequential;
+    }
+
+    /**
+     * Atomically retrieves and increments the sequential number for purchase settlements
+     * (liquidaciones de compra, codDoc 03).
+     *
+     * IMPORTANTE: Usa secuenciales SEPARADOS por ambiente:
+     * - Producción ('2'): billing.currentSequenceLiquidacionCompra
+     * - Pruebas ('1'): billing.testSequenceLiquidacionCompra
+     */
+    async getNextPurchaseSettlementSequential(): Promise<number> {
+        const environment = await this.getCurrentEnvironment();
+        const isProduction = environment === '2';
+        const fieldName = isProduction ? 'billing.currentSequenceLiquidacionCompra' : 'billing.testSequenceLiquidacionCompra';
+
+        logger.debug('Getting next sequential number for purchase settlement', { environment, field: fieldName });
+
+        await this.getOrCreate();
+
+        const doc = await RestaurantConfigModel.findByIdAndUpdate(
+            FIXED_CONFIG_ID,
+            { $inc: { [fieldName]: 1 } },
+            { new: true, upsert: true, runValidators: false }
+        );
+
+        const nextSequential = isProduction
+            ? doc?.billing?.currentSequenceLiquidacionCompra
+            : doc?.billing?.testSequenceLiquidacionCompra;
+
+        if (!doc || !doc.billing || typeof nextSequential !== 'number') {
+            logger.error('Failed to get next sequential number for purchase settlement', { environment });
+            throw new Error('Failed to increment purchase settlement sequential counter');
+        }
+
+        logger.info('Generated new sequential number for purchase settlement', {
+            sequential: nextSequential,
+            environment: isProduction ? 'Producción' : 'Pruebas'
+        });
+
+        try {
+            const { cacheService } = await import('../utils/CacheService');
+            await cacheService.invalidate('config:restaurant');
+        } catch (e) {
+            logger.warn('Failed to invalidate cache', { error: e });
+        }
+
+        return nextSequential;
+    }
+
+    /**
+     * Raises a sequential counter up to `value` using MongoDB's $max operator.
+     * Never lowers it: numbers issued concurrently between the audit and the
+     * repair keep the counter where it is.
+     */
+    async raiseSequenceCounter(field: SequenceCounterField, value: number): Promise<number> {
+        await this.getOrCreate();
+
+        const doc = await RestaurantConfigModel.findByIdAndUpdate(
+            FIXED_CONFIG_ID,
+            { $max: { [`billing.${field}`]: value } },
+            { new: true, runValidators: false }
+        );
+
+        const counter = (doc?.billing as any)?.[field];
+        if (!doc || typeof counter !== 'number') {
+            logger.error('Failed to raise sequential counter', { field, value });
+            throw new Error('Failed to raise sequential counter');
+        }
+
+        logger.warn('Sequential counter raised', { field, value, counter });
+
+        try {
+            const { cacheService } = await import('../utils/CacheService');
+            await cacheService.invalidate('config:restaurant');
+        } catch (e) {
+            logger.warn('Failed to invalidate cache', { error: e });
+        }
+
+        return counter;
+    }
 }
@@ -0,0 +1,79 @@
+/**
+ * Repositorio de Movimientos de Stock (kardex) - Implementación MongoDB
+ *
+ * Extiende BaseRepository para heredar operaciones CRUD comunes.
+ * Solo inserta y consulta: los movimientos no se editan.
+ */
+
+import { IStockMovementRepository, StockMovementFilter } from '../../domain/repositories/IStockMovementRepository';
+import { StockMovement, StockMovementReference } from '../../domain/entities/Ingredient';
+import { StockMovementModel } from '../database/schemas/StockMovementSchema';
+import { BaseRepository } from './BaseRepository';
+import { logger } from '../utils/Logger';
+import { DatabaseError } from '../../domain/errors/CustomErrors';
+
+export class MongoStockMovementRepository
+    extends BaseRepository<StockMovement>
+    implements IStockMovementRepository
+{
+    constructor() {
+        super(StockMovementModel, 'StockMovement');
+    }
+
+    protected mapToEntity(doc: any): StockMovement {
+        return {
+            id: doc.id || doc._id.toString(),
+            ingredientId: doc.ingredientId,
+            ingredientName: doc.ingredientName,
+            unit: doc.unit,
+            type: doc.type,
+            quantity: doc.quantity,
+            stockAfter: doc.stockAfter,
+            reference: doc.reference?.kind
+                ? { kind: doc.reference.kind, id: doc.reference.id, label: doc.reference.label }
+                : null,
+            reason: doc.reason,
+            createdBy: doc.createdBy ?? null,
+            createdAt: doc.createdAt,
+        };
+    }
+
+    async createMany(movements: Omit<StockMovement, 'id'>[]): Promise<StockMovement[]> {
+        try {
+            if (movements.length === 0) return [];
+            const saved = await this.model.insertMany(movements);
+            return saved.map((doc: any) => this.mapToEntity(doc));
+        } catch (error) {
+            logger.error('Failed to record StockMovements', error);
+            throw new DatabaseError('Failed to record StockMovements', error as Error);
+        }
+    }
+
+    async find(filter: StockMovementFilter, limit: number): Promise<StockMovement[]> {
+        try {
+            const query: any = {};
+            if (filter.ingredientId) query.ingredientId = filter.ingredientId;
+            if (filter.type) query.type = filter.type;
+            if (filter.from || filter.to) {
+                query.createdAt = {};
+                if (filter.from) query.createdAt.$gte = filter.from;
+                if (filter.to) query.createdAt.$lte = filter.to;
+            }
+            const docs = await this.model.find(query).sort({ createdAt: -1 }).limit(limit).lean();
+            return docs.map((doc) => this.mapToEntity(doc));
+        } catch (error) {
+            logger.error('Failed to find StockMovements', error);
+            throw new DatabaseError('Failed to find StockMovements', error as Error);
+        }
+    }
+
+    async existsForReference(reference: Pick<StockMovementReference, 'kind' | 'id'>): Promise<boolean> {
+        try {
+            const count = await this.model.countDocuments({ 'reference.kind': reference.kind, 'reference.id': reference.id });
+            return count > 0;
+        } catch (error) {
+            logger.error('Failed to check StockMovement reference', error);
+            throw new DatabaseError('Failed to check StockMovements', error as Error);
+        }
+    }
+}
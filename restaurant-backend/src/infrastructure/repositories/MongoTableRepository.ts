@@ -0,0 +1,135 @@
+/**
+ * Repositorio de Mesas - Implementación MongoDB
+ *
+ * Extiende BaseRepository para heredar operaciones CRUD comunes.
+ * Implementa métodos específicos del plano de salón: saveLayout, countOpenOrders.
+ */
+
+import { ITableRepository } from '../../domain/repositories/ITableRepository';
+import { Table, CreateTableDTO, TableLayoutDTO } from '../../domain/entities/Table';
+import { OrderStatus } from '../../domain/entities/Order';
+import { TableModel } from '../database/schemas/TableSchema';
+import { OrderModel } from '../database/schemas/OrderSchema';
+import { BaseRepository } from './BaseRepository';
+import { logger } from '../utils/Logger';
+import { DatabaseError } from '../../domain/errors/CustomErrors';
+
+export class MongoTableRepository
+    extends BaseRepository<Table>
+    implements ITableRepository
+{
+    constructor() {
+        super(TableModel, 'Table');
+    }
+
+    protected mapToEntity(doc: any): Table {
+        return {
+            id: doc.id || doc._id.toString(),
+            name: doc.name,
+            zone: doc.zone || 'Salón',
+            seats: doc.seats,
+            shape: doc.shape || 'square',
+            position: {
+                x: doc.position?.x ?? 0,
+                y: doc.position?.y ?? 0,
+            },
+            active: doc.active ?? true,
+            createdAt: doc.createdAt,
+            updatedAt: doc.updatedAt,
+        };
+    }
+
+    /**
+     * Create a new table
+     */
+    async create(data: CreateTableDTO): Promise<Table> {
+        try {
+            logger.debug('Creating new Table', { data });
+            const newDoc = new this.model(data);
+            const saved = await newDoc.save();
+            logger.info('Table created successfully', { id: saved._id, name: saved.name });
+
+            return this.mapToEntity(saved);
+        } catch (error: any) {
+            if (error.code === 11000) {
+                throw new DatabaseError(`Table with name "${data.name}" already exists`, error);
+            }
+            logger.error('Failed to create Table', error);
+            throw new DatabaseError('Failed to create Table', error);
+        }
+    }
+
+    /**
+     * Find table by name (case-insensitive)
+     */
+    async findByName(name: string): Promise<Table | null> {
+        try {
+            const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            const found = await this.model.findOne({
+                name: { $regex: new RegExp(`^${escaped}$`, 'i') },
+            });
+
+            return found ? this.mapToEntity(found) : null;
+        } catch (error) {
+            logger.error('Failed to find Table by name', error);
+            throw new DatabaseError('Failed to find Table', error as Error);
+        }
+    }
+
+    /**
+     * Find all tables ordered by zone and name
+     */
+    async findAll(): Promise<Table[]> {
+        try {
+            const all = await this.model.find().sort({ zone: 1, name: 1 }).lean();
+            logger.info(`Found ${all.length} Tables`);
+            return all.map((doc) => this.mapToEntity(doc));
+        } catch (error) {
+            logger.error('Failed to find all Tables', error);
+            throw new DatabaseError('Failed to find Tables', error as Error);
+        }
+    }
+
+    /**
+     * Bulk save of table positions from the floor plan editor
+     */
+    async saveLayout(items: TableLayoutDTO[]): Promise<boolean> {
+        try {
+            logger.debug('Saving floor plan layout', { count: items.length });
+
+            const bulkOps = items.map((item) => ({
+                updateOne: {
+                    filter: { _id: item.id },
+                    update: {
+                        $set: {
+                            position: { x: item.position.x, y: item.position.y },
+                            ...(item.zone ? { zone: item.zone } : {}),
+                        },
+                    },
+                },
+            }));
+
+            await this.model.bulkWrite(bulkOps);
+            logger.info('Floor plan layout saved', { count: items.length });
+            return true;
+        } catch (error) {
+            logger.error('Failed to save floor plan layout', error);
+            throw new DatabaseError('Failed to save floor plan layout', error as Error);
+        }
+    }
+
+    /**
+     * Count open (not completed nor cancelled) orders bound to a table
+     */
+    async countOpenOrders(tableId: string): Promise<number> {
+        try {
+            return await OrderModel.countDocuments({
+                tableId,
+                status: { $nin: [OrderStatus.Completed, OrderStatus.Cancelled] },
+            });
+        } catch (error) {
+            logger.error('Failed to count open orders for Table', error);
+            throw new DatabaseError('Failed to count open orders', error as Error);
+        }
+    }
+}
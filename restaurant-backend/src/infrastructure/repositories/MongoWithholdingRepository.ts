@@ -0,0 +1,78 @@
+/**
+ * Repositorio de Retenciones recibidas - Implementación MongoDB
+ *
+ * Extiende BaseRepository para heredar operaciones CRUD comunes.
+ * Solo implementa el mapeo y las búsquedas por factura y por número del agente.
+ */
+
+import { IWithholdingRepository } from '../../domain/repositories/IWithholdingRepository';
+import { Withholding, CreateWithholdingDTO } from '../../domain/entities/Withholding';
+import { WithholdingModel } from '../database/schemas/WithholdingSchema';
+import { BaseRepository } from './BaseRepository';
+import { logger } from '../utils/Logger';
+import { DatabaseError, ValidationError } from '../../domain/errors/CustomErrors';
+
+export class MongoWithholdingRepository
+    extends BaseRepository<Withholding>
+    implements IWithholdingRepository
+{
+    constructor() {
+        super(WithholdingModel, 'Withholding');
+    }
+
+    protected mapToEntity(doc: any): Withholding {
+        return {
+            id: doc.id || doc._id.toString(),
+            billId: doc.billId?.toString(),
+            billDocumentNumber: doc.billDocumentNumber,
+            documentNumber: doc.documentNumber,
+            accessKey: doc.accessKey,
+            authorizationDate: doc.authorizationDate,
+            issueDate: doc.issueDate,
+            fiscalPeriod: doc.fiscalPeriod,
+            agentIdentification: doc.agentIdentification,
+            agentName: doc.agentName,
+            lines: (doc.lines || []).map((line: any) => ({
+                taxType: line.taxType,
+                code: line.code,
+                baseAmount: line.baseAmount,
+                percentage: line.percentage,
+                amount: line.amount
+            })),
+            ivaWithheld: doc.ivaWithheld,
+            rentaWithheld: doc.rentaWithheld,
+            totalWithheld: doc.totalWithheld,
+            source: doc.source,
+            xmlContent: doc.xmlContent,
+            environment: doc.environment,
+            notes: doc.notes,
+            createdBy: doc.createdBy,
+            createdAt: doc.createdAt,
+            updatedAt: doc.updatedAt
+        };
+    }
+
+    async create(data: CreateWithholdingDTO): Promise<Withholding> {
+        try {
+            const saved = await new this.model(data).save();
+            logger.info('Withholding created', { id: saved._id, documentNumber: data.documentNumber, billId: data.billId });
+            return this.mapToEntity(saved);
+        } catch (error: any) {
+            if (error.code === 11000) {
+                throw new ValidationError(`La retención ${data.documentNumber} de ${data.agentIdentification} ya está registrada`);
+            }
+            logger.error('Failed to create Withholding', error);
+            throw new DatabaseError('Failed to create Withholding', error);
+        }
+    }
+
+    async findByBillId(billId: string): Promise<Withholding[]> {
+        const docs = await this.model.find({ billId }).sort({ issueDate: 1 }).lean();
+        return docs.map(doc => this.mapToEntity(doc));
+    }
+
+    async findByAgentDocument(agentIdentification: string, documentNumber: string): Promise<Withholding | null> {
+        const doc = await this.model.findOne({ agentIdentification, documentNumber }).lean();
+        return doc ? this.mapToEntity(doc) : null;
+    }
+}
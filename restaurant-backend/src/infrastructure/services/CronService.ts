@@ -2,6 +2,7 @@
 import cron, { ScheduledTask } from 'node-cron';
 import { RetryInvoices } from '../../application/use-cases/RetryInvoices';
 import { RetryCreditNotes } from '../../application/use-cases/RetryCreditNotes';
+import { RetryDebitNotes } from '../../application/use-cases/debit-notes';
 import { logger } from '../utils/Logger';
 
 /**
@@ -14,12 +15,17 @@ export class CronService {
 
     private constructor(
         private retryInvoices: RetryInvoices,
-        private retryCreditNotes: RetryCreditNotes
+        private retryCreditNotes: RetryCreditNotes,
+        private retryDebitNotes: RetryDebitNotes
     ) { }
 
-    public static getInstance(retryInvoices: RetryInvoices, retryCreditNotes: RetryCreditNotes): CronService {
+    public static getInstance(
+        retryInvoices: RetryInvoices,
+        retryCreditNotes: RetryCreditNotes,
+        retryDebitNotes: RetryDebitNotes
+    ): CronService {
         if (!CronService.instance) {
-            CronService.instance = new CronService(retryInvoices, retryCreditNotes);
+            CronService.instance = new CronService(retryInvoices, retryCreditNotes, retryDebitNotes);
         }
         return CronService.instance;
     }
@@ -55,10 +61,21 @@ export class CronService {
             }
         });
 
-        this.jobs.push(invoiceJob, creditNoteJob);
+        // 3. Retry Debit Notes Cron (Every 15 minutes, offset by 2 min: :02, :17, :32, :47)
+        const debitNoteJob = cron.schedule('2-59/15 * * * *', async () => {
+            logger.info('[CronService] Running scheduled task: RetryDebitNotes');
+            try {
+                const results = await this.retryDebitNotes.execute();
+                logger.info('[CronService] RetryDebitNotes completed', results);
+            } catch (error) {
+                logger.error('[CronService] RetryDebitNotes failed:', error);
+            }
+        });
+
+        this.jobs.push(invoiceJob, creditNoteJob, debitNoteJob);
 
         logger.info(`[CronService] ${this.jobs.length} jobs scheduled successfully.`);
-        logger.info('[CronService] Schedule: Invoices at :00/:15/:30/:45, CreditNotes at :01/:16/:31/:46');
+        logger.info('[CronService] Schedule: Invoices at :00/:15/:30/:45, CreditNotes at :01/:16/:31/:46, DebitNotes at :02/:17/:32/:47');
     }
 
     /**
@@ -18,7 +18,7 @@ export class NoOpEmailService implements IEmailService {
             to,
             invoice: `${invoice.info.estab}-${invoice.info.ptoEmi}-${invoice.info.secuencial}`
         });
-        return { success: true, messageId: 'noop' };
+        return { success: true, messageId: 'noop', provider: 'noop' };
     }
 
     public async sendCreditNoteEmail(to: string, creditNote: CreditNote, _pdfBuffer: Buffer, _xmlContent?: string): Promise<EmailSendResult> {
@@ -26,6 +26,6 @@ export class NoOpEmailService implements IEmailService {
             to,
             creditNote: `${creditNote.info.estab}-${creditNote.info.ptoEmi}-${creditNote.info.secuencial}`
         });
-        return { success: true, messageId: 'noop' };
+        return { success: true, messageId: 'noop', provider: 'noop' };
     }
 }
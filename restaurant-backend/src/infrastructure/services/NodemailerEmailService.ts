@@ -22,7 +22,7 @@ export class NodemailerEmailService implements IEmailService {
     public async sendInvoiceEmail(to: string, invoice: Invoice, pdfBuffer: Buffer, xmlContent?: string): Promise<EmailSendResult> {
         if (!to) {
             logger.warn('[EmailService] No email provided for customer. Skipping email.');
-            return { success: false, error: 'No email provided' };
+            return { success: false, error: 'No email provided', provider: 'smtp' };
         }
 
         try {
@@ -58,18 +58,18 @@ export class NodemailerEmailService implements IEmailService {
 
             const info = await this.transporter.sendMail(mailOptions);
             logger.info(`[EmailService] Email sent successfully to ${to}. MessageId: ${info.messageId}`);
-            return { success: true, messageId: info.messageId };
+            return { success: true, messageId: info.messageId, provider: 'smtp' };
 
         } catch (error: any) {
             logger.error('[EmailService] Error sending email:', error);
-            return { success: false, error: error.message || 'Unknown email error' };
+            return { success: false, error: error.message || 'Unknown email error', provider: 'smtp' };
         }
     }
 
     public async sendCreditNoteEmail(to: string, creditNote: CreditNote, pdfBuffer: Buffer, xmlContent?: string): Promise<EmailSendResult> {
         if (!to) {
             logger.warn('[EmailService] No email provided for customer. Skipping email.');
-            return { success: false, error: 'No email provided' };
+            return { success: false, error: 'No email provided', provider: 'smtp' };
         }
 
         try {
@@ -102,11 +102,11 @@ export class NodemailerEmailService implements IEmailService {
 
             const info = await this.transporter.sendMail(mailOptions);
             logger.info(`[EmailService] Email sent successfully to ${to}. MessageId: ${info.messageId}`);
-            return { success: true, messageId: info.messageId };
+            return { success: true, messageId: info.messageId, provider: 'smtp' };
 
         } catch (error: any) {
             logger.error('[EmailService] Error sending credit note email:', error);
-            return { success: false, error: error.message || 'Unknown email error' };
+            return { success: false, error: error.message || 'Unknown email error', provider: 'smtp' };
         }
     }
 
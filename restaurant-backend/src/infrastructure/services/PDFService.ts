@@ -1,10 +1,39 @@
 import PDFDocument from 'pdfkit';
 import { Invoice } from '../../domain/billing/invoice';
 import { CreditNote } from '../../domain/billing/creditNote';
+import { PurchaseSettlement } from '../../domain/billing/purchaseSettlement';
+import { DebitNote } from '../../domain/billing/debitNote';
+import { getInvoicePayments, paymentMethodLabel, CASH_PAYMENT_METHOD } from '../../domain/billing/payments';
+import { CashZReport } from '../../domain/billing/cashSession';
+import { PrintLayout, TicketWidth, DEFAULT_PRINT_LAYOUT, footerLines, printLayoutOf } from '../../domain/billing/printLayout';
 import axios from 'axios';
 import QRCode from 'qrcode';
 import { logger } from '../utils/Logger';
 
+/** Campos de infoTributaria que necesita la cabecera RIDE compartida */
+type DocumentHeaderInfo = Pick<
+    PurchaseSettlement['info'],
+    'ambiente' | 'razonSocial' | 'nombreComercial' | 'ruc' | 'claveAcceso' | 'estab' | 'ptoEmi' | 'secuencial' | 'dirMatriz' | 'fechaEmision' | 'logoUrl'
+>;
+
+/** Medidas del ticket térmico en puntos (1 mm ≈ 2,83 pt) */
+interface TicketGeometry {
+    pageWidth: number;
+    left: number;
+    right: number;
+    width: number;      // Ancho útil entre márgenes
+    qtyWidth: number;   // Columna CANT
+    totalWidth: number; // Columna TOT (y valores de los totales)
+    logoWidth: number;
+    qrSize: number;
+    accessKeyFontSize: number; // Los 49 dígitos de la clave en una sola línea
+}
+
+const TICKET_GEOMETRY: Record<TicketWidth, TicketGeometry> = {
+    80: { pageWidth: 226, left: 10, right: 216, width: 206, qtyWidth: 25, totalWidth: 51, logoWidth: 160, qrSize: 70, accessKeyFontSize: 6.5 },
+    58: { pageWidth: 164, left: 6, right: 158, width: 152, qtyWidth: 18, totalWidth: 40, logoWidth: 120, qrSize: 60, accessKeyFontSize: 4.8 }
+};
+
 export class PDFService {
     /**
      * FIX I-04: Validate that a buffer contains valid image data (PNG or JPEG)
@@ -22,18 +51,194 @@ export class PDFService {
         return isPNG || isJPEG;
     }
 
-    public async generateInvoicePDF(invoice: Invoice, format: 'A4' | 'ticket' = 'A4'): Promise<Buffer> {
-        if (format === 'ticket') {
-            return this.generateTicketPDF(invoice);
+    /**
+     * RIDE de la factura con la plantilla de impresión de la configuración
+     * (billing.printLayout); sin plantilla, A4 con logo y QR.
+     */
+    public async generateInvoicePDF(invoice: Invoice, printLayout: Partial<PrintLayout> = DEFAULT_PRINT_LAYOUT): Promise<Buffer> {
+        const layout = printLayoutOf({ printLayout });
+        if (layout.format === 'ticket') {
+            return this.generateTicketPDF(invoice, layout);
+        }
+        return this.generateA4PDF(invoice, layout);
+    }
+
+    /** RIDE de la nota de crédito con la misma plantilla que las facturas */
+    public async generateCreditNotePDF(creditNote: CreditNote, printLayout: Partial<PrintLayout> = DEFAULT_PRINT_LAYOUT): Promise<Buffer> {
+        const layout = printLayoutOf({ printLayout });
+        if (layout.format === 'ticket') {
+            return this.generateCreditNoteTicketPDF(creditNote, layout);
         }
-        return this.generateA4PDF(invoice);
+        return this.generateCreditNoteA4PDF(creditNote, layout);
+    }
+
+    /**
+     * RIDE de la liquidación de compra (codDoc 03) en A4
+     */
+    public generatePurchaseSettlementPDF(settlement: PurchaseSettlement): Promise<Buffer> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const doc = new PDFDocument({ margin: 30, size: 'A4' });
+                const chunks: Buffer[] = [];
+
+                doc.on('data', chunk => chunks.push(chunk));
+                doc.on('end', () => resolve(Buffer.concat(chunks)));
+
+                await this.generateDocumentHeader(doc, settlement.info, 'LIQUIDACIÓN DE COMPRA DE BIENES Y PRESTACIÓN DE SERVICIOS N°', settlement.authorizationDate);
+                this.generatePurchaseSettlementInformation(doc, settlement);
+                this.generatePurchaseSettlementTable(doc, settlement);
+                this.generatePurchaseSettlementFooter(doc, settlement);
+
+                doc.end();
+            } catch (error) {
+                logger.error('Error generating purchase settlement PDF:', error);
+                reject(error);
+            }
+        });
+    }
+
+    /**
+     * RIDE de la nota de débito (codDoc 05) en A4
+     */
+    public generateDebitNotePDF(debitNote: DebitNote): Promise<Buffer> {
+        return new Promise(async (resolve, reject) => {
+            try {
+                const doc = new PDFDocument({ margin: 30, size: 'A4' });
+                const chunks: Buffer[] = [];
+
+                doc.on('data', chunk => chunks.push(chunk));
+                doc.on('end', () => resolve(Buffer.concat(chunks)));
+
+                await this.generateDocumentHeader(doc, debitNote.info, 'NOTA DE DÉBITO N°', debitNote.authorizationDate);
+                this.generateDebitNoteInformation(doc, debitNote);
+                this.generateDebitNoteTable(doc, debitNote);
+                this.generateDebitNoteFooter(doc, debitNote);
+
+                doc.end();
+            } catch (error) {
+                logger.error('Error generating debit note PDF:', error);
+                reject(error);
+            }
+        });
     }
 
-    public async generateCreditNotePDF(creditNote: CreditNote): Promise<Buffer> {
-        return this.generateCreditNoteA4PDF(creditNote);
+    /**
+     * Reporte Z (cierre de caja) en formato ticket 80mm.
+     * Si la sesión sigue abierta se imprime como reporte X (parcial).
+     */
+    public generateZReportPDF(report: CashZReport): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            const doc = new PDFDocument({ margin: 10, size: [226, 1000] });
+            const buffers: Buffer[] = [];
+
+            doc.on('data', buffers.push.bind(buffers));
+            doc.on('end', () => resolve(Buffer.concat(buffers)));
+            doc.on('error', reject);
+
+            try {
+                const { session, summary } = report;
+                const leftMargin = 10;
+                const rightMargin = 216;
+                const isClosed = session.status === 'closed';
+                const money = (value: number) => `$${value.toFixed(2)}`;
+
+                const separator = () => {
+                    const y = doc.y + 3;
+                    doc.moveTo(leftMargin, y).lineTo(rightMargin, y).lineWidth(0.5).dash(2, { space: 2 }).stroke();
+                    doc.undash();
+                    doc.y = y + 5;
+                };
+                const row = (label: string, value: string, bold: boolean = false) => {
+                    const y = doc.y;
+                    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8);
+                    doc.text(label, leftMargin, y, { width: 140 });
+                    const labelBottom = doc.y;
+                    doc.text(value, leftMargin + 140, y, { width: 66, align: 'right' });
+                    doc.y = Math.max(labelBottom, doc.y) + 1;
+                };
+
+                // --- Encabezado ---
+                doc.font('Helvetica-Bold').fontSize(10).text(report.businessName.toUpperCase(), leftMargin, 10, { align: 'center', width: 206 });
+                doc.font('Helvetica').fontSize(8);
+                if (report.ruc) doc.text(`RUC: ${report.ruc}`, { align: 'center', width: 206 });
+                if (report.address) doc.text(report.address, { align: 'center', width: 206 });
+                doc.moveDown(0.5);
+                doc.font('Helvetica-Bold').fontSize(9)
+                    .text(isClosed ? 'REPORTE Z - CIERRE DE CAJA' : 'REPORTE X - CAJA ABIERTA', { align: 'center', width: 206 });
+                separator();
+
+                // --- Sesión ---
+                row('Punto de emisión', `${session.estab}-${session.ptoEmi}`);
+                row('Apertura', this.formatDateTime(session.openedAt));
+                row('Abierta por', session.openedBy.username);
+                if (isClosed) {
+                    row('Cierre', this.formatDateTime(session.closedAt));
+                    row('Cerrada por', session.closedBy?.username || '');
+                }
+                separator();
+
+                // --- Ventas por forma de pago ---
+                doc.font('Helvetica-Bold').fontSize(8).text('VENTAS POR FORMA DE PAGO', leftMargin, doc.y);
+                doc.moveDown(0.3);
+                if (summary.paymentTotals.length === 0) {
+                    doc.font('Helvetica').fontSize(8).text('Sin ventas en el periodo', leftMargin, doc.y);
+                }
+                summary.paymentTotals.forEach(total => {
+                    row(`${total.label} (${total.count})`, money(total.amount));
+                });
+                row(`TOTAL VENTAS (${summary.billCount} comp.)`, money(summary.salesTotal), true);
+                separator();
+
+                // --- Movimientos manuales ---
+                if (session.movements.length > 0) {
+                    doc.font('Helvetica-Bold').fontSize(8).text('MOVIMIENTOS DE CAJA', leftMargin, doc.y);
+                    doc.moveDown(0.3);
+                    session.movements.forEach(movement => {
+                        row(movement.reason.substring(0, 40), `${movement.type === 'in' ? '+' : '-'}${money(movement.amount)}`);
+                    });
+                    separator();
+                }
+
+                // --- Cuadre de efectivo ---
+                doc.font('Helvetica-Bold').fontSize(8).text('CUADRE DE EFECTIVO', leftMargin, doc.y);
+                doc.moveDown(0.3);
+                row('Fondo inicial', money(session.openingFloat));
+                row('Ventas en efectivo', money(summary.cashSales));
+                row('Ingresos', `+${money(summary.cashIn)}`);
+                row('Egresos', `-${money(summary.cashOut)}`);
+                row('EFECTIVO ESPERADO', money(summary.expectedCash), true);
+                if (isClosed && session.countedCash !== undefined) {
+                    const difference = session.difference ?? 0;
+                    row('EFECTIVO CONTADO', money(session.countedCash), true);
+                    row(
+                        difference > 0 ? 'SOBRANTE' : difference < 0 ? 'FALTANTE' : 'DIFERENCIA',
+                        money(Math.abs(difference)),
+                        true
+                    );
+                }
+                if (session.notes) {
+                    doc.moveDown(0.3);
+                    doc.font('Helvetica').fontSize(7).text(`Obs.: ${session.notes}`, leftMargin, doc.y, { width: 206 });
+                }
+                separator();
+
+                doc.font('Helvetica').fontSize(7)
+                    .text(`Impreso: ${this.formatDateTime(report.printedAt)}`, leftMargin, doc.y, { align: 'center', width: 206 });
+                if (isClosed) {
+                    doc.moveDown(2.5);
+                    doc.text('______________________', { align: 'center', width: 206 });
+                    doc.text('Firma del cajero', { align: 'center', width: 206 });
+                }
+
+                doc.end();
+            } catch (error) {
+                logger.error('Error generating Z report PDF:', error);
+                reject(error);
+            }
+        });
     }
 
-    private generateCreditNoteA4PDF(creditNote: CreditNote): Promise<Buffer> {
+    private generateCreditNoteA4PDF(creditNote: CreditNote, layout: PrintLayout): Promise<Buffer> {
         return new Promise(async (resolve, reject) => {
             try {
                 const doc = new PDFDocument({ margin: 30, size: 'A4' });
@@ -42,10 +247,11 @@ export class PDFService {
                 doc.on('data', chunk => chunks.push(chunk));
                 doc.on('end', () => resolve(Buffer.concat(chunks)));
 
-                await this.generateCreditNoteHeader(doc, creditNote);
+                await this.generateCreditNoteHeader(doc, creditNote, layout);
                 this.generateCreditNoteInformation(doc, creditNote);
                 this.generateCreditNoteTable(doc, creditNote);
                 this.generateCreditNoteFooter(doc, creditNote);
+                this.generateLayoutFooter(doc, layout, 780);
 
                 doc.end();
             } catch (error) {
@@ -55,14 +261,14 @@ export class PDFService {
         });
     }
 
-    private async generateCreditNoteHeader(doc: PDFKit.PDFDocument, creditNote: CreditNote): Promise<void> {
+    private async generateCreditNoteHeader(doc: PDFKit.PDFDocument, creditNote: CreditNote, layout: PrintLayout): Promise<void> {
         const leftMargin = 30;
         const rightMargin = 565;
         const topY = 30;
 
         let currentLeftY = topY;
 
-        if (creditNote.info.logoUrl) {
+        if (layout.showLogo && creditNote.info.logoUrl) {
             try {
                 let logo: Buffer | null = null;
                 if (creditNote.info.logoUrl.startsWith('data:')) {
@@ -157,7 +363,25 @@ export class PDFService {
         doc.font('Helvetica')
             .text(authDateText, rightColX, currentRightY, { align: 'right', width: rightColWidth });
 
-        const headerBottomY = Math.max(currentLeftY, doc.y) + 10;
+        currentRightY = doc.y;
+
+        // QR con la clave de acceso (igual que la factura)
+        if (layout.showQr && creditNote.info.claveAcceso) {
+            try {
+                const qrDataUrl = await QRCode.toDataURL(creditNote.info.claveAcceso, {
+                    width: 80,
+                    margin: 1,
+                    errorCorrectionLevel: 'M'
+                });
+                const qrBuffer = Buffer.from(qrDataUrl.split(',')[1], 'base64');
+                doc.image(qrBuffer, rightMargin - 85, currentRightY + 5, { width: 80, height: 80 });
+                currentRightY += 90;
+            } catch (qrError) {
+                logger.error('[PDFService CreditNote] Failed to generate QR code:', qrError);
+            }
+        }
+
+        const headerBottomY = Math.max(currentLeftY, currentRightY) + 10;
         this.generateHr(doc, headerBottomY);
 
         doc.y = headerBottomY;
@@ -320,7 +544,373 @@ export class PDFService {
         }
     }
 
-    private async generateA4PDF(invoice: Invoice): Promise<Buffer> {
+    /**
+     * Cabecera RIDE compartida por liquidaciones de compra y notas de débito:
+     * emisor a la izquierda; tipo, número, clave y autorización a la derecha.
+     */
+    private async generateDocumentHeader(
+        doc: PDFKit.PDFDocument,
+        info: DocumentHeaderInfo,
+        title: string,
+        authorizationDate?: string
+    ): Promise<void> {
+        const leftMargin = 30;
+        const rightMargin = 565;
+        const topY = 30;
+
+        let currentLeftY = topY + 10;
+
+        if (info.logoUrl) {
+            try {
+                let logo: Buffer | null = null;
+                if (info.logoUrl.startsWith('data:')) {
+                    const base64Data = info.logoUrl.split(';base64,').pop();
+                    logo = Buffer.from(base64Data || '', 'base64');
+                } else {
+                    const response = await axios.get(info.logoUrl, { responseType: 'arraybuffer' });
+                    logo = Buffer.from(response.data);
+                }
+
+                if (logo && logo.length > 0 && this.isValidImageBuffer(logo)) {
+                    doc.image(logo, leftMargin, topY, { fit: [250, 120] });
+                    currentLeftY = topY + 130;
+                } else if (logo && logo.length > 0) {
+                    logger.warn('[PDFService DocumentHeader] Logo buffer is not a valid PNG/JPEG image, skipping.');
+                }
+            } catch (error) {
+                logger.error('[PDFService DocumentHeader] Failed to load logo:', error);
+            }
+        }
+
+        doc.fillColor('#111827')
+            .font('Helvetica-Bold')
+            .fontSize(16)
+            .text((info.nombreComercial || '').toUpperCase(), leftMargin, currentLeftY);
+
+        doc.fontSize(9)
+            .font('Helvetica')
+            .fillColor('#4b5563')
+            .text(info.razonSocial || '', leftMargin, doc.y + 2);
+
+        doc.font('Helvetica-Bold')
+            .text(`RUC: ${info.ruc}`, leftMargin, doc.y + 1);
+
+        doc.font('Helvetica')
+            .text(info.dirMatriz, leftMargin, doc.y + 1, { width: 300, align: 'left' });
+
+        currentLeftY = doc.y;
+
+        let currentRightY = topY;
+        const rightColWidth = 250;
+        const rightColX = rightMargin - rightColWidth;
+
+        doc.fillColor('#1f2937')
+            .fontSize(9)
+            .font('Helvetica')
+            .text(`Ambiente: ${info.ambiente === '2' ? 'Producción' : 'Pruebas'}`, rightColX, currentRightY, { align: 'right', width: rightColWidth });
+
+        currentRightY += 12;
+
+        doc.fontSize(11)
+            .font('Helvetica-Bold')
+            .text(title, rightColX, currentRightY, { align: 'right', width: rightColWidth });
+
+        currentRightY = doc.y + 2;
+
+        doc.fontSize(12)
+            .text(`${info.estab}-${info.ptoEmi}-${info.secuencial}`, rightColX, currentRightY, { align: 'right', width: rightColWidth });
+
+        currentRightY += 20;
+
+        doc.fontSize(8)
+            .font('Helvetica-Bold')
+            .text('CLAVE DE ACCESO:', rightColX, currentRightY, { align: 'right', width: rightColWidth });
+
+        currentRightY += 10;
+
+        doc.font('Courier')
+            .fontSize(7)
+            .text(info.claveAcceso || '', rightColX, currentRightY, { align: 'right', width: rightColWidth, characterSpacing: 0 });
+
+        currentRightY += 12;
+
+        doc.font('Helvetica-Bold')
+            .fontSize(8)
+            .text('FECHA Y HORA DE AUTORIZACIÓN:', rightColX, currentRightY, { align: 'right', width: rightColWidth });
+
+        currentRightY += 10;
+
+        doc.font('Helvetica')
+            .text(this.formatDateTime(authorizationDate || info.fechaEmision), rightColX, currentRightY, { align: 'right', width: rightColWidth });
+
+        const headerBottomY = Math.max(currentLeftY, doc.y) + 10;
+        this.generateHr(doc, headerBottomY);
+
+        doc.y = headerBottomY;
+    }
+
+    private generatePurchaseSettlementInformation(doc: PDFKit.PDFDocument, settlement: PurchaseSettlement): void {
+        const startY = doc.y + 25;
+        const boxHeight = 115;
+        const boxWidth = 535;
+        const boxX = 30;
+
+        doc.rect(boxX, startY, boxWidth, boxHeight)
+            .fillColor('#f9fafb')
+            .fill();
+
+        doc.fillColor('#1f2937')
+            .fontSize(9)
+            .font('Helvetica-Bold')
+            .text('Información del Proveedor', boxX + 15, startY + 15);
+
+        const col1X = boxX + 15;
+        const col2X = 310;
+        const colWidth = 250;
+
+        let currentY = startY + 35;
+
+        this.drawClientField(doc, 'Razón Social / Nombres', settlement.info.razonSocialProveedor, col1X, currentY, colWidth);
+        this.drawClientField(doc, 'Identificación', settlement.info.identificacionProveedor, col2X, currentY, colWidth);
+        currentY += 25;
+
+        this.drawClientField(doc, 'Dirección', settlement.info.direccionProveedor, col1X, currentY, colWidth);
+        this.drawClientField(doc, 'Fecha de Emisión', settlement.info.fechaEmision, col2X, currentY, colWidth);
+        currentY += 25;
+
+        const formaPago = settlement.info.pagos[0]?.formaPago;
+        this.drawClientField(doc, 'Forma de Pago', `${formaPago || CASH_PAYMENT_METHOD} - ${paymentMethodLabel(formaPago)}`, col1X, currentY, boxWidth - 30);
+
+        doc.y = startY + boxHeight;
+    }
+
+    private generatePurchaseSettlementTable(doc: PDFKit.PDFDocument, settlement: PurchaseSettlement): void {
+        let currentY = doc.y + 20;
+        const leftMargin = 30;
+        const colWidths = {
+            desc: 295,
+            qty: 50,
+            unit: 95,
+            total: 95
+        };
+
+        doc.fillColor('#374151')
+            .font('Helvetica-Bold')
+            .fontSize(8.5);
+
+        doc.text('Descripción', leftMargin, currentY, { width: colWidths.desc });
+        doc.text('Cant.', leftMargin + colWidths.desc, currentY, { width: colWidths.qty, align: 'center' });
+        doc.text('P. Unitario', leftMargin + colWidths.desc + colWidths.qty, currentY, { width: colWidths.unit, align: 'right' });
+        doc.text('Total', leftMargin + colWidths.desc + colWidths.qty + colWidths.unit, currentY, { width: colWidths.total, align: 'right' });
+
+        currentY += 15;
+        this.generateHr(doc, currentY);
+        currentY += 10;
+
+        doc.font('Helvetica').fontSize(8.5).fillColor('#4b5563');
+
+        settlement.detalles.forEach(item => {
+            doc.text(item.descripcion, leftMargin, currentY, { width: colWidths.desc });
+            doc.text(item.cantidad.toString(), leftMargin + colWidths.desc, currentY, { width: colWidths.qty, align: 'center' });
+            doc.text(`$${this.formatUnitPrice(item.precioUnitario)}`, leftMargin + colWidths.desc + colWidths.qty, currentY, { width: colWidths.unit, align: 'right' });
+            doc.text(`$${item.precioTotalSinImpuesto.toFixed(2)}`, leftMargin + colWidths.desc + colWidths.qty + colWidths.unit, currentY, { width: colWidths.total, align: 'right' });
+
+            currentY = doc.y + 8;
+            if (currentY > 700) {
+                doc.addPage();
+                currentY = 50;
+            }
+        });
+
+        this.generateHr(doc, currentY + 5);
+        doc.y = currentY + 15;
+    }
+
+    private generatePurchaseSettlementFooter(doc: PDFKit.PDFDocument, settlement: PurchaseSettlement): void {
+        const startY = doc.y;
+        const leftMargin = 30;
+        const rightMargin = 565;
+
+        const totalsWidth = 180;
+        const totalsX = rightMargin - totalsWidth;
+        let currentY = startY;
+
+        const drawTotalRow = (label: string, value: string, isLast = false) => {
+            doc.fillColor(isLast ? '#111827' : '#4b5563')
+                .font(isLast ? 'Helvetica-Bold' : 'Helvetica')
+                .fontSize(isLast ? 10 : 9);
+
+            doc.text(label, totalsX, currentY, { width: totalsWidth - 85, align: 'left' });
+            doc.text(`$${value}`, totalsX + totalsWidth - 80, currentY, { width: 80, align: 'right' });
+            currentY += 18;
+        };
+
+        // Los productos del agro y del mar suelen ir con tarifa 0%
+        let subtotalGravado = 0;
+        let subtotal0 = 0;
+        let iva = 0;
+
+        settlement.detalles.forEach(item => {
+            const tax = item.impuestos[0];
+            if (tax && tax.tarifa > 0) {
+                subtotalGravado += item.precioTotalSinImpuesto;
+                iva += tax.valor;
+            } else {
+                subtotal0 += item.precioTotalSinImpuesto;
+            }
+        });
+
+        drawTotalRow('SUBTOTAL GRAVADO', subtotalGravado.toFixed(2));
+        drawTotalRow('SUBTOTAL 0%', subtotal0.toFixed(2));
+        drawTotalRow('SUBTOTAL SIN IMPUESTOS', settlement.info.totalSinImpuestos.toFixed(2));
+        drawTotalRow('IVA', iva.toFixed(2));
+
+        currentY += 5;
+        this.generateHr(doc, currentY, 1.5, '#e5e7eb', totalsX, rightMargin);
+        currentY += 8;
+
+        drawTotalRow('VALOR TOTAL', settlement.info.importeTotal.toFixed(2), true);
+
+        doc.font('Helvetica-Bold').fontSize(9).fillColor('#1f2937')
+            .text('Información Adicional', leftMargin, startY);
+
+        doc.font('Helvetica').fontSize(8.5).fillColor('#4b5563');
+        let infoY = startY + 15;
+        const extras = [
+            settlement.info.telefonoProveedor && `Teléfono: ${settlement.info.telefonoProveedor}`,
+            settlement.info.emailProveedor && `Email: ${settlement.info.emailProveedor}`,
+            settlement.info.observacion && `Observación: ${settlement.info.observacion}`
+        ].filter(Boolean) as string[];
+
+        extras.forEach(line => {
+            doc.text(line, leftMargin, infoY, { width: 300 });
+            infoY = doc.y + 5;
+        });
+    }
+
+    private generateDebitNoteInformation(doc: PDFKit.PDFDocument, debitNote: DebitNote): void {
+        const startY = doc.y + 25;
+        const boxHeight = 115;
+        const boxWidth = 535;
+        const boxX = 30;
+
+        doc.rect(boxX, startY, boxWidth, boxHeight)
+            .fillColor('#f9fafb')
+            .fill();
+
+        doc.fillColor('#1f2937')
+            .fontSize(9)
+            .font('Helvetica-Bold')
+            .text('Información del Cliente', boxX + 15, startY + 15);
+
+        const col1X = boxX + 15;
+        const col2X = 310;
+        const colWidth = 250;
+
+        let currentY = startY + 35;
+
+        this.drawClientField(doc, 'Razón Social / Nombres', debitNote.info.razonSocialComprador, col1X, currentY, colWidth);
+        this.drawClientField(doc, 'Identificación', debitNote.info.identificacionComprador, col2X, currentY, colWidth);
+        currentY += 25;
+
+        this.drawClientField(doc, 'Comprobante que se modifica', `FACTURA ${debitNote.info.numDocModificado}`, col1X, currentY, colWidth);
+        this.drawClientField(doc, 'Fecha Emisión (Comprobante a modificar)', debitNote.info.fechaEmisionDocSustento, col2X, currentY, colWidth);
+        currentY += 25;
+
+        const formaPago = debitNote.info.pagos[0]?.formaPago;
+        this.drawClientField(doc, 'Fecha de Emisión', debitNote.info.fechaEmision, col1X, currentY, colWidth);
+        this.drawClientField(doc, 'Forma de Pago', `${formaPago || CASH_PAYMENT_METHOD} - ${paymentMethodLabel(formaPago)}`, col2X, currentY, colWidth);
+
+        doc.y = startY + boxHeight;
+    }
+
+    private generateDebitNoteTable(doc: PDFKit.PDFDocument, debitNote: DebitNote): void {
+        let currentY = doc.y + 20;
+        const leftMargin = 30;
+        const colWidths = {
+            reason: 440,
+            value: 95
+        };
+
+        doc.fillColor('#374151')
+            .font('Helvetica-Bold')
+            .fontSize(8.5);
+
+        doc.text('Razón de la Modificación', leftMargin, currentY, { width: colWidths.reason });
+        doc.text('Valor de la Modificación', leftMargin + colWidths.reason, currentY, { width: colWidths.value, align: 'right' });
+
+        currentY += 15;
+        this.generateHr(doc, currentY);
+        currentY += 10;
+
+        doc.font('Helvetica').fontSize(8.5).fillColor('#4b5563');
+
+        debitNote.motivos.forEach(motivo => {
+            doc.text(motivo.razon, leftMargin, currentY, { width: colWidths.reason });
+            doc.text(`$${motivo.valor.toFixed(2)}`, leftMargin + colWidths.reason, currentY, { width: colWidths.value, align: 'right' });
+
+            currentY = doc.y + 8;
+            if (currentY > 700) {
+                doc.addPage();
+                currentY = 50;
+            }
+        });
+
+        this.generateHr(doc, currentY + 5);
+        doc.y = currentY + 15;
+    }
+
+    private generateDebitNoteFooter(doc: PDFKit.PDFDocument, debitNote: DebitNote): void {
+        const startY = doc.y;
+        const leftMargin = 30;
+        const rightMargin = 565;
+
+        const totalsWidth = 180;
+        const totalsX = rightMargin - totalsWidth;
+        let currentY = startY;
+
+        const drawTotalRow = (label: string, value: string, isLast = false) => {
+            doc.fillColor(isLast ? '#111827' : '#4b5563')
+                .font(isLast ? 'Helvetica-Bold' : 'Helvetica')
+                .fontSize(isLast ? 10 : 9);
+
+            doc.text(label, totalsX, currentY, { width: totalsWidth - 85, align: 'left' });
+            doc.text(`$${value}`, totalsX + totalsWidth - 80, currentY, { width: 80, align: 'right' });
+            currentY += 18;
+        };
+
+        // Un subtotal por tarifa, tal como va en <impuestos> del XML
+        debitNote.info.impuestos.forEach(tax => {
+            drawTotalRow(`SUBTOTAL ${tax.tarifa}%`, tax.baseImponible.toFixed(2));
+        });
+        drawTotalRow('SUBTOTAL SIN IMPUESTOS', debitNote.info.totalSinImpuestos.toFixed(2));
+        debitNote.info.impuestos
+            .filter(tax => tax.tarifa > 0)
+            .forEach(tax => drawTotalRow(`IVA ${tax.tarifa}%`, tax.valor.toFixed(2)));
+
+        currentY += 5;
+        this.generateHr(doc, currentY, 1.5, '#e5e7eb', totalsX, rightMargin);
+        currentY += 8;
+
+        drawTotalRow('VALOR TOTAL', debitNote.info.valorTotal.toFixed(2), true);
+
+        doc.font('Helvetica-Bold').fontSize(9).fillColor('#1f2937')
+            .text('Información Adicional', leftMargin, startY);
+
+        doc.font('Helvetica').fontSize(8.5).fillColor('#4b5563');
+        let infoY = startY + 15;
+        const extras = [
+            debitNote.info.direccionComprador && `Dirección: ${debitNote.info.direccionComprador}`,
+            debitNote.info.emailComprador && `Email: ${debitNote.info.emailComprador}`
+        ].filter(Boolean) as string[];
+
+        extras.forEach(line => {
+            doc.text(line, leftMargin, infoY, { width: 300 });
+            infoY = doc.y + 5;
+        });
+    }
+
+    private async generateA4PDF(invoice: Invoice, layout: PrintLayout): Promise<Buffer> {
         return new Promise(async (resolve, reject) => {
             const doc = new PDFDocument({ margin: 30, size: 'A4' });
             const buffers: Buffer[] = [];
@@ -333,9 +923,10 @@ export class PDFService {
             doc.on('error', reject);
 
             try {
-                await this.generateHeader(doc, invoice);
+                await this.generateHeader(doc, invoice, layout);
                 this.generateCustomerInformation(doc, invoice);
                 this.generateInvoiceTable(doc, invoice);
+                this.generateLayoutFooter(doc, layout, 725);
                 this.generateFooter(doc, invoice);
 
                 doc.end();
@@ -345,11 +936,12 @@ export class PDFService {
         });
     }
 
-    private async generateTicketPDF(invoice: Invoice): Promise<Buffer> {
+    private async generateTicketPDF(invoice: Invoice, layout: PrintLayout): Promise<Buffer> {
+        const geo = TICKET_GEOMETRY[layout.ticketWidth];
+
         return new Promise(async (resolve, reject) => {
-            // 80mm is approx 226 points. Standard margin 10.
             // We use a long height to simulate roll paper, most printers handle the cut.
-            const doc = new PDFDocument({ margin: 10, size: [226, 1200] });
+            const doc = new PDFDocument({ margin: geo.left, size: [geo.pageWidth, 1200] });
             const buffers: Buffer[] = [];
 
             doc.on('data', buffers.push.bind(buffers));
@@ -360,85 +952,13 @@ export class PDFService {
             doc.on('error', reject);
 
             try {
-                const centerX = 113;
-                const leftMargin = 10;
-                const rightMargin = 216;
-                let y = 10;
-
-                // --- Logo ---
-                logger.debug('[PDFService Ticket] invoice.info.logoUrl:', invoice.info.logoUrl);
-                
-                if (invoice.info.logoUrl) {
-                    try {
-                        let logo: Buffer | null = null;
-                        if (invoice.info.logoUrl.startsWith('data:')) {
-                            const base64Data = invoice.info.logoUrl.split(';base64,').pop();
-                            logo = Buffer.from(base64Data || '', 'base64');
-                        } else {
-                            const response = await axios.get(invoice.info.logoUrl, { responseType: 'arraybuffer' });
-                            logo = Buffer.from(response.data);
-                        }
-
-                        // FIX I-04: Validate buffer is a real image before passing to pdfkit
-                        if (logo && logo.length > 0 && this.isValidImageBuffer(logo)) {
-                            doc.image(logo, (226 - 160) / 2, y, { fit: [160, 100], align: 'center' });
-                            y += 105;
-                        } else if (logo && logo.length > 0) {
-                            logger.warn('[PDFService Ticket] Logo buffer is not a valid PNG/JPEG image, skipping.');
-                        }
-                    } catch (e) {
-                        logger.error('[PDFService Ticket] Logo Error:', e);
-                    }
-                }
-
-                // --- Invoice Header Info ---
-                doc.font('Helvetica-Bold').fontSize(10).text((invoice.info.nombreComercial || '').toUpperCase(), leftMargin, y, { align: 'center', width: 206 });
-                y = doc.y + 5;
-
-                doc.font('Helvetica').fontSize(8).text(invoice.info.razonSocial || '', { align: 'center', width: 206 });
-                doc.text(`RUC: ${invoice.info.ruc}`, { align: 'center', width: 206 });
-                doc.text(invoice.info.dirMatriz, { align: 'center', width: 206 });
-
-                y = doc.y + 8;
+                const leftMargin = geo.left;
+                const rightMargin = geo.right;
+                const descX = leftMargin + geo.qtyWidth + 5;
+                const descWidth = geo.width - geo.qtyWidth - 5 - geo.totalWidth;
+                const totalX = rightMargin - geo.totalWidth;
 
-                // --- Document Info ---
-                doc.font('Helvetica-Bold').fontSize(9).text('FACTURA ELECTRÓNICA', { align: 'center' });
-                doc.fontSize(8).text(`No. ${invoice.info.estab}-${invoice.info.ptoEmi}-${invoice.info.secuencial}`, { align: 'center' });
-
-                doc.fontSize(7).text(`Ambiente: ${invoice.info.ambiente === '2' ? 'Producción' : 'Pruebas'}`, { align: 'center' });
-                y = doc.y + 10;
-
-                // --- Access Key ---
-                doc.font('Helvetica-Bold').fontSize(8).text('CLAVE DE ACCESO:', { align: 'center' });
-                y += 2;
-                doc.font('Courier').fontSize(6.5).text(invoice.info.claveAcceso || '', { align: 'center', characterSpacing: 0 });
-                y += 5;
-
-                const authDate = this.formatDateTime(invoice.authorizationDate || invoice.info.fechaEmision);
-                doc.font('Helvetica').fontSize(6).text(`Fecha y Hora de Autorización:\n${authDate}`, { align: 'center' });
-                y = doc.y + 8;
-
-                // --- QR Code (SRI Requirement) ---
-                if (invoice.info.claveAcceso) {
-                    try {
-                        const qrDataUrl = await QRCode.toDataURL(invoice.info.claveAcceso, {
-                            width: 100,
-                            margin: 1,
-                            errorCorrectionLevel: 'M'
-                        });
-                        const qrBuffer = Buffer.from(qrDataUrl.split(',')[1], 'base64');
-                        // Center the QR code (ticket width ~226, QR width 70)
-                        const qrX = (226 - 70) / 2;
-                        doc.image(qrBuffer, qrX, y, { width: 70, height: 70 });
-                        y += 75;
-                    } catch (qrError) {
-                        logger.error('[PDFService Ticket] Failed to generate QR code:', qrError);
-                    }
-                }
-
-                doc.moveTo(leftMargin, y).lineTo(rightMargin, y).lineWidth(0.5).dash(2, { space: 2 }).stroke();
-                doc.undash();
-                y += 5;
+                let y = await this.generateTicketHeader(doc, geo, layout, invoice.info, 'FACTURA ELECTRÓNICA', invoice.authorizationDate);
 
                 // --- Customer Info ---
                 const creationDate = this.formatDateTime(invoice.creationDate || invoice.info.fechaEmision);
@@ -448,39 +968,43 @@ export class PDFService {
 
                 doc.font('Helvetica').fontSize(7);
                 // Name
-                doc.text(`${invoice.info.razonSocialComprador.substring(0, 40)}`, { width: 206 });
+                doc.text(`${invoice.info.razonSocialComprador.substring(0, 40)}`, leftMargin, y, { width: geo.width });
                 // RUC/CI
-                doc.text(`RUC/CI: ${invoice.info.identificacionComprador}`, { width: 206 });
+                doc.text(`RUC/CI: ${invoice.info.identificacionComprador}`, { width: geo.width });
                 // Emission Date
-                doc.text(`Fecha Emisión: ${creationDate}`, { width: 206 });
+                doc.text(`Fecha Emisión: ${creationDate}`, { width: geo.width });
                 // Address
                 if (invoice.info.direccionComprador && invoice.info.direccionComprador !== 'S/N') {
-                    doc.text(`Dir: ${invoice.info.direccionComprador.substring(0, 50)}`, { width: 206 });
+                    doc.text(`Dir: ${invoice.info.direccionComprador.substring(0, 50)}`, { width: geo.width });
                 } else {
-                    doc.text(`Dir: S/N`);
+                    doc.text(`Dir: S/N`, { width: geo.width });
                 }
                 // Phone
                 if (invoice.info.telefonoComprador && invoice.info.telefonoComprador !== 'S/N') {
-                    doc.text(`Tel: ${invoice.info.telefonoComprador}`);
+                    doc.text(`Tel: ${invoice.info.telefonoComprador}`, { width: geo.width });
                 }
                 // Email
                 if (invoice.info.emailComprador && invoice.info.emailComprador !== 'S/N') {
-                    doc.text(`Email: ${invoice.info.emailComprador.substring(0, 35)}`);
+                    doc.text(`Email: ${invoice.info.emailComprador.substring(0, 35)}`, { width: geo.width });
+                }
+                // Payment Method(s)
+                const pagos = getInvoicePayments(invoice.info);
+                if (pagos.length === 1) {
+                    doc.text(`Forma Pago: ${this.getPaymentMethodText(pagos[0].formaPago)}`, { width: geo.width });
+                } else {
+                    doc.text('Formas de Pago:', { width: geo.width });
+                    pagos.forEach(pago => {
+                        doc.text(`  ${this.getPaymentMethodText(pago.formaPago)}: $${pago.total.toFixed(2)}`, { width: geo.width });
+                    });
                 }
-                // Payment Method
-                const paymentMethod = this.getPaymentMethodText(invoice.info.formaPago);
-                doc.text(`Forma Pago: ${paymentMethod}`);
 
-                y = doc.y + 5;
-                doc.moveTo(leftMargin, y).lineTo(rightMargin, y).lineWidth(0.5).dash(2, { space: 2 }).stroke();
-                doc.undash();
-                y += 5;
+                y = this.generateTicketSeparator(doc, geo, doc.y + 5);
 
                 // --- Items Header ---
                 doc.font('Helvetica-Bold').fontSize(7);
-                doc.text('CANT', leftMargin, y, { width: 25, align: 'left' });
-                doc.text('DESC', leftMargin + 30, y, { width: 125, align: 'left' });
-                doc.text('TOT', leftMargin + 155, y, { width: 51, align: 'right' });
+                doc.text('CANT', leftMargin, y, { width: geo.qtyWidth, align: 'left' });
+                doc.text('DESC', descX, y, { width: descWidth, align: 'left' });
+                doc.text('TOT', totalX, y, { width: geo.totalWidth, align: 'right' });
                 y = doc.y + 2;
                 doc.moveTo(leftMargin, y).lineTo(rightMargin, y).lineWidth(0.5).stroke();
                 y += 5;
@@ -488,14 +1012,22 @@ export class PDFService {
                 // --- Items List (Precios SIN IVA, idénticos al XML autorizado) ---
                 doc.font('Helvetica').fontSize(8);
                 invoice.detalles.forEach(item => {
-                    // Sin IVA para que las líneas sumen el SUBTOTAL del desglose
-                    const totalItem = item.precioTotalSinImpuesto.toFixed(2);
-
-                    doc.text(item.cantidad.toString(), leftMargin, y, { width: 25, align: 'center' });
-                    doc.text(item.descripcion, leftMargin + 30, y, { width: 125, align: 'left' });
-                    doc.text(totalItem, leftMargin + 155, y, { width: 51, align: 'right' });
+                    // Sin IVA para que las líneas (y sus descuentos) sumen el SUBTOTAL del desglose
+                    const totalItem = (item.precioTotalSinImpuesto + (item.descuento || 0)).toFixed(2);
+
+                    doc.text(item.cantidad.toString(), leftMargin, y, { width: geo.qtyWidth, align: 'center' });
+                    doc.text(item.descripcion, descX, y, { width: descWidth, align: 'left' });
+                    doc.text(totalItem, totalX, y, { width: geo.totalWidth, align: 'right' });
+                    y = doc.y;
+
+                    if (item.descuento > 0) {
+                        doc.fontSize(7).text('Descuento', descX, y, { width: descWidth, align: 'left' });
+                        doc.text(`-${item.descuento.toFixed(2)}`, totalX, y, { width: geo.totalWidth, align: 'right' });
+                        doc.fontSize(8);
+                        y = doc.y;
+                    }
 
-                    y = doc.y + 3;
+                    y += 3;
                 });
 
                 y += 5;
@@ -522,46 +1054,251 @@ export class PDFService {
                 const totalValue = invoice.info.importeTotal.toFixed(2);
 
                 doc.fontSize(8);
-                const totalsLabelX = 60;
-                const totalsValueX = 155;
-                const labelW = 90;
-
                 const drawRow = (label: string, val: string, bold: boolean = false) => {
-                    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica');
-                    doc.text(label, totalsLabelX, y, { width: labelW, align: 'right' });
-                    doc.text(`$${val}`, totalsValueX, y, { width: 51, align: 'right' });
-                    y += 10;
+                    y = this.drawTicketTotalRow(doc, geo, y, label, val, bold);
                 };
 
-                // Formato SRI simplificado para restaurante (ticket 80mm)
+                // Formato SRI simplificado para restaurante (ticket)
                 drawRow('SUBTOTAL 15%', subtotal15.toFixed(2));
                 drawRow('SUBTOTAL 0%', subtotal0.toFixed(2));
                 drawRow('SUBTOTAL', totalSubtotal.toFixed(2));
+                if (invoice.info.totalDescuento > 0) {
+                    drawRow('DESCUENTO', invoice.info.totalDescuento.toFixed(2));
+                }
                 drawRow('IVA 15%', iva15.toFixed(2));
+                if (invoice.info.propina) {
+                    drawRow('PROPINA', invoice.info.propina.toFixed(2));
+                }
 
                 y += 3;
                 doc.fontSize(10);
                 drawRow('VALOR TOTAL', totalValue, true);
 
-                y += 20;
+                // Efectivo recibido y cambio (solo si el cliente entregó más de lo cobrado)
+                const cashPayment = pagos.find(p => p.formaPago === CASH_PAYMENT_METHOD && p.recibido !== undefined);
+                if (cashPayment && cashPayment.recibido! > cashPayment.total) {
+                    doc.fontSize(8);
+                    drawRow('EFECTIVO RECIBIDO', cashPayment.recibido!.toFixed(2));
+                    drawRow('CAMBIO', (cashPayment.recibido! - cashPayment.total).toFixed(2), true);
+                }
+
+                this.generateTicketFooter(doc, geo, layout, y + 20, 'Gracias por su compra');
+
+                doc.end();
+            } catch (error) {
+                logger.error('Error generating ticket PDF:', error);
+                reject(error);
+            }
+        });
+    }
+
+    /**
+     * RIDE de la nota de crédito en ticket térmico (misma plantilla que la factura)
+     */
+    private generateCreditNoteTicketPDF(creditNote: CreditNote, layout: PrintLayout): Promise<Buffer> {
+        const geo = TICKET_GEOMETRY[layout.ticketWidth];
+
+        return new Promise(async (resolve, reject) => {
+            const doc = new PDFDocument({ margin: geo.left, size: [geo.pageWidth, 1200] });
+            const buffers: Buffer[] = [];
+
+            doc.on('data', buffers.push.bind(buffers));
+            doc.on('end', () => resolve(Buffer.concat(buffers)));
+            doc.on('error', reject);
+
+            try {
+                const leftMargin = geo.left;
+                const descX = leftMargin + geo.qtyWidth + 5;
+                const descWidth = geo.width - geo.qtyWidth - 5 - geo.totalWidth;
+                const totalX = geo.right - geo.totalWidth;
+
+                let y = await this.generateTicketHeader(doc, geo, layout, creditNote.info, 'NOTA DE CRÉDITO ELECTRÓNICA', creditNote.authorizationDate);
+
+                // --- Beneficiario y documento modificado ---
+                doc.font('Helvetica-Bold').fontSize(8).text('CLIENTE:', leftMargin, y);
+                doc.font('Helvetica').fontSize(7)
+                    .text(creditNote.info.razonSocialComprador.substring(0, 40), leftMargin, doc.y + 2, { width: geo.width })
+                    .text(`RUC/CI: ${creditNote.info.identificacionComprador}`, { width: geo.width })
+                    .text(`Fecha Emisión: ${this.formatDateTime(creditNote.creationDate || creditNote.info.fechaEmision)}`, { width: geo.width });
 
-                // --- Footer ---
+                doc.font('Helvetica-Bold').fontSize(8).text('DOCUMENTO MODIFICADO:', leftMargin, doc.y + 4, { width: geo.width });
                 doc.font('Helvetica').fontSize(7)
-                    .text('Descargue su documento en:', { align: 'center' })
-                    .text('www.sri.gob.ec', { align: 'center', underline: true });
+                    .text(`Factura ${creditNote.info.numDocModificado}`, leftMargin, doc.y + 2, { width: geo.width })
+                    .text(`Fecha: ${creditNote.info.fechaEmisionDocSustento}`, { width: geo.width })
+                    .text(`Motivo: ${creditNote.info.motivo}`, { width: geo.width });
 
-                y += 15;
-                doc.text('Gracias por su compra', { align: 'center' });
+                y = this.generateTicketSeparator(doc, geo, doc.y + 5);
+
+                // --- Detalle (Precios SIN IVA, idénticos al XML autorizado) ---
+                doc.font('Helvetica-Bold').fontSize(7);
+                doc.text('CANT', leftMargin, y, { width: geo.qtyWidth, align: 'left' });
+                doc.text('DESC', descX, y, { width: descWidth, align: 'left' });
+                doc.text('TOT', totalX, y, { width: geo.totalWidth, align: 'right' });
+                y = doc.y + 2;
+                doc.moveTo(leftMargin, y).lineTo(geo.right, y).lineWidth(0.5).stroke();
+                y += 5;
+
+                doc.font('Helvetica').fontSize(8);
+                creditNote.detalles.forEach(item => {
+                    doc.text(item.cantidad.toString(), leftMargin, y, { width: geo.qtyWidth, align: 'center' });
+                    doc.text(item.descripcion, descX, y, { width: descWidth, align: 'left' });
+                    doc.text(item.precioTotalSinImpuesto.toFixed(2), totalX, y, { width: geo.totalWidth, align: 'right' });
+                    y = doc.y + 3;
+                });
+
+                y += 5;
+                doc.moveTo(leftMargin, y).lineTo(geo.right, y).lineWidth(0.5).stroke();
+                y += 5;
+
+                // --- Totales por grupo de IVA (igual que el RIDE A4) ---
+                let subtotal15 = 0;
+                let subtotal0 = 0;
+                let iva15 = 0;
+
+                creditNote.detalles.forEach(item => {
+                    const taxRate = item.impuestos?.[0]?.tarifa ?? 15;
+                    if (taxRate > 0) {
+                        subtotal15 += item.precioTotalSinImpuesto;
+                        iva15 += item.impuestos?.[0]?.valor || 0;
+                    } else {
+                        subtotal0 += item.precioTotalSinImpuesto;
+                    }
+                });
+
+                doc.fontSize(8);
+                y = this.drawTicketTotalRow(doc, geo, y, 'SUBTOTAL 15%', subtotal15.toFixed(2));
+                y = this.drawTicketTotalRow(doc, geo, y, 'SUBTOTAL 0%', subtotal0.toFixed(2));
+                y = this.drawTicketTotalRow(doc, geo, y, 'SUBTOTAL', (subtotal15 + subtotal0).toFixed(2));
+                y = this.drawTicketTotalRow(doc, geo, y, 'IVA 15%', iva15.toFixed(2));
+
+                y += 3;
+                doc.fontSize(10);
+                y = this.drawTicketTotalRow(doc, geo, y, 'VALOR TOTAL', creditNote.info.importeTotal.toFixed(2), true);
+
+                this.generateTicketFooter(doc, geo, layout, y + 20);
 
                 doc.end();
             } catch (error) {
-                logger.error('Error generating ticket PDF:', error);
+                logger.error('Error generating credit note ticket PDF:', error);
                 reject(error);
             }
         });
     }
 
-    private async generateHeader(doc: PDFKit.PDFDocument, invoice: Invoice): Promise<void> {
+    /**
+     * Cabecera del ticket: logo, emisor, tipo y número, clave de acceso, autorización y QR.
+     * @returns y debajo del separador, donde empieza el cuerpo del comprobante
+     */
+    private async generateTicketHeader(
+        doc: PDFKit.PDFDocument,
+        geo: TicketGeometry,
+        layout: PrintLayout,
+        info: DocumentHeaderInfo,
+        title: string,
+        authorizationDate?: string
+    ): Promise<number> {
+        const leftMargin = geo.left;
+        let y = 10;
+
+        // --- Logo ---
+        logger.debug('[PDFService Ticket] info.logoUrl:', info.logoUrl);
+
+        if (layout.showLogo && info.logoUrl) {
+            try {
+                let logo: Buffer | null = null;
+                if (info.logoUrl.startsWith('data:')) {
+                    const base64Data = info.logoUrl.split(';base64,').pop();
+                    logo = Buffer.from(base64Data || '', 'base64');
+                } else {
+                    const response = await axios.get(info.logoUrl, { responseType: 'arraybuffer' });
+                    logo = Buffer.from(response.data);
+                }
+
+                // FIX I-04: Validate buffer is a real image before passing to pdfkit
+                if (logo && logo.length > 0 && this.isValidImageBuffer(logo)) {
+                    doc.image(logo, (geo.pageWidth - geo.logoWidth) / 2, y, { fit: [geo.logoWidth, 100], align: 'center' });
+                    y += 105;
+                } else if (logo && logo.length > 0) {
+                    logger.warn('[PDFService Ticket] Logo buffer is not a valid PNG/JPEG image, skipping.');
+                }
+            } catch (e) {
+                logger.error('[PDFService Ticket] Logo Error:', e);
+            }
+        }
+
+        // --- Emisor ---
+        doc.font('Helvetica-Bold').fontSize(10).text((info.nombreComercial || '').toUpperCase(), leftMargin, y, { align: 'center', width: geo.width });
+
+        doc.font('Helvetica').fontSize(8).text(info.razonSocial || '', leftMargin, doc.y + 5, { align: 'center', width: geo.width });
+        doc.text(`RUC: ${info.ruc}`, { align: 'center', width: geo.width });
+        doc.text(info.dirMatriz, { align: 'center', width: geo.width });
+
+        // --- Document Info ---
+        doc.font('Helvetica-Bold').fontSize(9).text(title, leftMargin, doc.y + 8, { align: 'center', width: geo.width });
+        doc.fontSize(8).text(`No. ${info.estab}-${info.ptoEmi}-${info.secuencial}`, { align: 'center', width: geo.width });
+
+        doc.fontSize(7).text(`Ambiente: ${info.ambiente === '2' ? 'Producción' : 'Pruebas'}`, { align: 'center', width: geo.width });
+
+        // --- Access Key ---
+        doc.font('Helvetica-Bold').fontSize(8).text('CLAVE DE ACCESO:', leftMargin, doc.y + 10, { align: 'center', width: geo.width });
+        doc.font('Courier').fontSize(geo.accessKeyFontSize).text(info.claveAcceso || '', { align: 'center', width: geo.width, characterSpacing: 0 });
+
+        const authDate = this.formatDateTime(authorizationDate || info.fechaEmision);
+        doc.font('Helvetica').fontSize(6).text(`Fecha y Hora de Autorización:\n${authDate}`, { align: 'center', width: geo.width });
+        y = doc.y + 8;
+
+        // --- QR Code (clave de acceso) ---
+        if (layout.showQr && info.claveAcceso) {
+            try {
+                const qrDataUrl = await QRCode.toDataURL(info.claveAcceso, {
+                    width: 100,
+                    margin: 1,
+                    errorCorrectionLevel: 'M'
+                });
+                const qrBuffer = Buffer.from(qrDataUrl.split(',')[1], 'base64');
+                doc.image(qrBuffer, (geo.pageWidth - geo.qrSize) / 2, y, { width: geo.qrSize, height: geo.qrSize });
+                y += geo.qrSize + 5;
+            } catch (qrError) {
+                logger.error('[PDFService Ticket] Failed to generate QR code:', qrError);
+            }
+        }
+
+        return this.generateTicketSeparator(doc, geo, y);
+    }
+
+    /** Línea punteada a lo ancho del ticket; devuelve la y siguiente */
+    private generateTicketSeparator(doc: PDFKit.PDFDocument, geo: TicketGeometry, y: number): number {
+        doc.moveTo(geo.left, y).lineTo(geo.right, y).lineWidth(0.5).dash(2, { space: 2 }).stroke();
+        doc.undash();
+        return y + 5;
+    }
+
+    /** Fila de totales alineada con la columna TOT; devuelve la y siguiente */
+    private drawTicketTotalRow(doc: PDFKit.PDFDocument, geo: TicketGeometry, y: number, label: string, value: string, bold = false): number {
+        const valueX = geo.right - geo.totalWidth;
+        doc.font(bold ? 'Helvetica-Bold' : 'Helvetica');
+        doc.text(label, geo.left, y, { width: valueX - geo.left - 5, align: 'right' });
+        doc.text(`$${value}`, valueX, y, { width: geo.totalWidth, align: 'right' });
+        return y + 10;
+    }
+
+    /** Pie del ticket: aviso del SRI, pie propio de la plantilla y cierre */
+    private generateTicketFooter(doc: PDFKit.PDFDocument, geo: TicketGeometry, layout: PrintLayout, y: number, closing?: string): void {
+        doc.font('Helvetica').fontSize(7)
+            .text('Descargue su documento en:', geo.left, y, { align: 'center', width: geo.width })
+            .text('www.sri.gob.ec', { align: 'center', underline: true, width: geo.width });
+
+        const lines = footerLines(layout);
+        if (lines.length) {
+            doc.text(lines.join('\n'), geo.left, doc.y + 8, { align: 'center', width: geo.width });
+        }
+
+        if (closing) {
+            doc.text(closing, geo.left, doc.y + 8, { align: 'center', width: geo.width });
+        }
+    }
+
+    private async generateHeader(doc: PDFKit.PDFDocument, invoice: Invoice, layout: PrintLayout): Promise<void> {
         const leftMargin = 30;
         const rightMargin = 565;
         const topY = 30;
@@ -571,7 +1308,7 @@ export class PDFService {
 
         logger.debug('[PDFService A4] invoice.info.logoUrl:', invoice.info.logoUrl);
         
-        if (invoice.info.logoUrl) {
+        if (layout.showLogo && invoice.info.logoUrl) {
             try {
                 let logo: Buffer | null = null;
                 if (invoice.info.logoUrl.startsWith('data:')) {
@@ -693,7 +1430,7 @@ export class PDFService {
         currentRightY += 15;
 
         // 8. QR Code with Access Key (SRI Requirement)
-        if (invoice.info.claveAcceso) {
+        if (layout.showQr && invoice.info.claveAcceso) {
             try {
                 const qrDataUrl = await QRCode.toDataURL(invoice.info.claveAcceso, {
                     width: 80,
@@ -757,7 +1494,10 @@ export class PDFService {
         // Row 3: Email | Forma de Pago (Moved here)
         this.drawClientField(doc, 'Email', invoice.info.emailComprador || 'S/N', col1X, currentY, colWidth);
 
-        const paymentText = this.getPaymentMethodText(invoice.info.formaPago);
+        const pagos = getInvoicePayments(invoice.info);
+        const paymentText = pagos.length === 1
+            ? this.getPaymentMethodText(pagos[0].formaPago)
+            : `${pagos.length} FORMAS DE PAGO (VER DETALLE)`;
         this.drawClientField(doc, 'Forma de Pago', paymentText, col2X, currentY, colWidth);
 
         currentY += 25;
@@ -771,12 +1511,7 @@ export class PDFService {
     }
 
     private getPaymentMethodText(code?: string): string {
-        switch (code) {
-            case '01': return 'SIN SISTEMA FINANCIERO';
-            case '19': return 'TARJETA DE CREDITO';
-            case '20': return 'OTROS CON SISTEMA FINANCIERO';
-            default: return 'EFECTIVO';
-        }
+        return paymentMethodLabel(code);
     }
 
     private drawClientField(doc: PDFKit.PDFDocument, label: string, value: string, x: number, y: number, width: number = 250) {
@@ -789,8 +1524,12 @@ export class PDFService {
 
         const colQty = 50;
         const colDesc = 100;
-        const colPrice = 380;
         const colTotal = 480;
+        // Con descuentos se agrega la columna "Desc." (valor sin IVA, igual que el XML)
+        const hasDiscounts = invoice.detalles.some(item => item.descuento > 0);
+        const colPrice = hasDiscounts ? 310 : 380;
+        const colDiscount = 395;
+        const descWidth = hasDiscounts ? 200 : 260;
 
         // Table Header
         doc.fillColor('#f9fafb')
@@ -801,6 +1540,7 @@ export class PDFService {
         doc.text('Cant.', colQty, invoiceTableTop + 6, { width: 50, align: 'center' });
         doc.text('Descripción', colDesc, invoiceTableTop + 6);
         doc.text('P. Unit', colPrice, invoiceTableTop + 6, { width: 80, align: 'right' });
+        if (hasDiscounts) doc.text('Desc.', colDiscount, invoiceTableTop + 6, { width: 75, align: 'right' });
         doc.text('Total', colTotal, invoiceTableTop + 6, { width: 85, align: 'right' });
 
         this.generateHr(doc, invoiceTableTop + 20);
@@ -819,17 +1559,54 @@ export class PDFService {
             // Precios SIN IVA, idénticos al XML autorizado: así la suma de las líneas
             // cuadra con SUBTOTAL SIN IMPUESTOS y el IVA se desglosa en los totales
             doc.text(item.cantidad.toString(), colQty, position, { width: 50, align: 'center' });
-            doc.text(item.descripcion, colDesc, position, { width: 260 });
+            doc.text(item.descripcion, colDesc, position, { width: descWidth });
             doc.text(`$${this.formatUnitPrice(item.precioUnitario)}`, colPrice, position, { width: 80, align: 'right' });
+            if (hasDiscounts) {
+                doc.text(item.descuento > 0 ? `-$${item.descuento.toFixed(2)}` : '', colDiscount, position, { width: 75, align: 'right' });
+            }
             doc.text(`$${item.precioTotalSinImpuesto.toFixed(2)}`, colTotal, position, { width: 85, align: 'right' });
 
             position += 18; // Reduced row height slightly
         }
 
         this.generateHr(doc, position + 5);
+        this.generatePayments(doc, position + 20, invoice);
         this.generateTotals(doc, position + 20, invoice);
     }
 
+    /**
+     * Tabla "Forma de pago / Valor" del RIDE (a la izquierda de los totales)
+     */
+    private generatePayments(doc: PDFKit.PDFDocument, y: number, invoice: Invoice): void {
+        const x = 30;
+        const step = 12;
+        const pagos = getInvoicePayments(invoice.info);
+
+        doc.fontSize(8).font('Helvetica-Bold').fillColor('#1f2937')
+            .text('Forma de Pago', x, y, { width: 220 })
+            .text('Valor', x + 220, y, { width: 70, align: 'right' });
+        y += step;
+
+        doc.font('Helvetica');
+        pagos.forEach(pago => {
+            const plazo = pago.plazo > 0 ? ` (${pago.plazo} ${pago.unidadTiempo})` : '';
+            doc.text(`${this.getPaymentMethodText(pago.formaPago)}${plazo}`, x, y, { width: 220 })
+                .text(`$${pago.total.toFixed(2)}`, x + 220, y, { width: 70, align: 'right' });
+            y = Math.max(doc.y, y + step);
+        });
+
+        const cashPayment = pagos.find(p => p.formaPago === CASH_PAYMENT_METHOD && p.recibido !== undefined);
+        if (cashPayment && cashPayment.recibido! > cashPayment.total) {
+            y += 4;
+            doc.text('Efectivo recibido', x, y, { width: 220 })
+                .text(`$${cashPayment.recibido!.toFixed(2)}`, x + 220, y, { width: 70, align: 'right' });
+            y += step;
+            doc.font('Helvetica-Bold')
+                .text('Cambio', x, y, { width: 220 })
+                .text(`$${(cashPayment.recibido! - cashPayment.total).toFixed(2)}`, x + 220, y, { width: 70, align: 'right' });
+        }
+    }
+
     private generateTotals(doc: PDFKit.PDFDocument, y: number, invoice: Invoice): void {
         const labelX = 350;
         const valueX = 480;
@@ -866,7 +1643,13 @@ export class PDFService {
         drawTotalRow('SUBTOTAL 15%', subtotal15.toFixed(2));
         drawTotalRow('SUBTOTAL 0%', subtotal0.toFixed(2));
         drawTotalRow('SUBTOTAL SIN IMPUESTOS', totalSubtotal.toFixed(2));
+        if (invoice.info.totalDescuento > 0) {
+            drawTotalRow('TOTAL DESCUENTO', invoice.info.totalDescuento.toFixed(2));
+        }
         drawTotalRow('IVA 15%', iva15.toFixed(2));
+        if (invoice.info.propina) {
+            drawTotalRow('PROPINA', invoice.info.propina.toFixed(2));
+        }
 
         y += 8;
         doc.fontSize(11); // 14px -> 11pt
@@ -885,6 +1668,22 @@ export class PDFService {
             .text('No tiene validez tributaria oficial hasta ser autorizado por el SRI.', 30, bottomY + 24);
     }
 
+    /**
+     * Pie propio de la plantilla en el RIDE A4: los renglones terminan en bottomY,
+     * justo encima del pie fijo del documento.
+     */
+    private generateLayoutFooter(doc: PDFKit.PDFDocument, layout: PrintLayout, bottomY: number): void {
+        const lines = footerLines(layout);
+        if (!lines.length) return;
+
+        doc.fontSize(8)
+            .font('Helvetica')
+            .fillColor('#4b5563');
+        lines.forEach((line, index) => {
+            doc.text(line, 30, bottomY - (lines.length - index) * 11, { width: 535, align: 'center', lineBreak: false });
+        });
+    }
+
     private generateHr(doc: PDFKit.PDFDocument, y: number, lineWidth = 1, color = '#e5e7eb', startX = 30, endX = 565) {
         doc.strokeColor(color).lineWidth(lineWidth).moveTo(startX, y).lineTo(endX, y).stroke();
     }
@@ -0,0 +1,30 @@
+/**
+ * Alertas de stock bajo por Web Push
+ *
+ * Un push por ingrediente; el tag evita que se apilen avisos repetidos del
+ * mismo ingrediente en el dispositivo.
+ */
+
+import { Ingredient } from '../../domain/entities/Ingredient';
+import { IStockAlertNotifier } from '../../application/interfaces/IStockAlertNotifier';
+import { getPushNotificationService } from './PushNotificationService';
+import { logger } from '../utils/Logger';
+
+export class PushStockAlertNotifier implements IStockAlertNotifier {
+    async notifyLowStock(ingredients: Ingredient[]): Promise<void> {
+        const push = getPushNotificationService();
+
+        await Promise.all(ingredients.map(async (ingredient) => {
+            try {
+                await push.sendToAll({
+                    title: '⚠️ Stock bajo',
+                    body: `${ingredient.name}: quedan ${ingredient.stock} ${ingredient.unit} (mínimo ${ingredient.minStock})`,
+                    url: '/admin/inventory',
+                    tag: `low-stock-${ingredient.id}`
+                });
+            } catch (error) {
+                logger.warn('[Push] Low stock alert failed', { ingredient: ingredient.name, error: (error as Error).message });
+            }
+        }));
+    }
+}
@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import { Resend } from 'resend';
 import { IEmailService, EmailSendResult } from '../../application/interfaces/IEmailService';
 import { Invoice } from '../../domain/billing/invoice';
@@ -24,10 +25,43 @@ export class ResendEmailService implements IEmailService {
         return !!process.env.RESEND_API_KEY;
     }
 
+    /**
+     * Verifica la firma de un webhook de Resend (formato Svix): HMAC-SHA256 de
+     * `${svix-id}.${svix-timestamp}.${body}` con el secreto `whsec_...` de
+     * RESEND_WEBHOOK_SECRET. Rechaza timestamps con más de 5 minutos de desfase.
+     */
+    static verifyWebhook(rawBody: Buffer | string, headers: Record<string, string | string[] | undefined>): boolean {
+        const secret = process.env.RESEND_WEBHOOK_SECRET;
+        const id = headers['svix-id'];
+        const timestamp = headers['svix-timestamp'];
+        const signatures = headers['svix-signature'];
+        if (!secret || typeof id !== 'string' || typeof timestamp !== 'string' || typeof signatures !== 'string') {
+            return false;
+        }
+
+        const sentAt = parseInt(timestamp, 10);
+        if (!Number.isFinite(sentAt) || Math.abs(Date.now() / 1000 - sentAt) > 5 * 60) {
+            return false;
+        }
+
+        const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+        const expected = crypto
+            .createHmac('sha256', key)
+            .update(`${id}.${timestamp}.${rawBody.toString()}`)
+            .digest();
+
+        return signatures.split(' ').some(entry => {
+            const [version, signature] = entry.split(',');
+            if (version !== 'v1' || !signature) return false;
+            const received = Buffer.from(signature, 'base64');
+            return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+        });
+    }
+
     public async sendInvoiceEmail(to: string, invoice: Invoice, pdfBuffer: Buffer, xmlContent?: string): Promise<EmailSendResult> {
         if (!to) {
             logger.warn('[ResendEmailService] No email provided for customer. Skipping email.');
-            return { success: false, error: 'No email provided' };
+            return { success: false, error: 'No email provided', provider: 'resend' };
         }
 
         try {
@@ -60,22 +94,22 @@ export class ResendEmailService implements IEmailService {
 
             if (error) {
                 logger.error('[ResendEmailService] Error sending email via Resend:', error);
-                return { success: false, error: error.message || 'Resend API error' };
+                return { success: false, error: error.message || 'Resend API error', provider: 'resend' };
             }
 
             logger.info(`[ResendEmailService] Email sent successfully via Resend. ID: ${data?.id}`);
-            return { success: true, messageId: data?.id };
+            return { success: true, messageId: data?.id, provider: 'resend' };
 
         } catch (error: any) {
             logger.error('[ResendEmailService] Unexpected error sending email via Resend:', error);
-            return { success: false, error: error.message || 'Unknown email error' };
+            return { success: false, error: error.message || 'Unknown email error', provider: 'resend' };
         }
     }
 
     public async sendCreditNoteEmail(to: string, creditNote: CreditNote, pdfBuffer: Buffer, xmlContent?: string): Promise<EmailSendResult> {
         if (!to) {
             logger.warn('[ResendEmailService] No email provided for customer. Skipping email.');
-            return { success: false, error: 'No email provided' };
+            return { success: false, error: 'No email provided', provider: 'resend' };
         }
 
         try {
@@ -107,15 +141,15 @@ export class ResendEmailService implements IEmailService {
 
             if (error) {
                 logger.error('[ResendEmailService] Error sending email via Resend:', error);
-                return { success: false, error: error.message || 'Resend API error' };
+                return { success: false, error: error.message || 'Resend API error', provider: 'resend' };
             }
 
             logger.info(`[ResendEmailService] Email sent successfully via Resend. ID: ${data?.id}`);
-            return { success: true, messageId: data?.id };
+            return { success: true, messageId: data?.id, provider: 'resend' };
 
         } catch (error: any) {
             logger.error('[ResendEmailService] Unexpected error sending email via Resend:', error);
-            return { success: false, error: error.message || 'Unknown email error' };
+            return { success: false, error: error.message || 'Unknown email error', provider: 'resend' };
         }
     }
 
@@ -204,15 +238,59 @@ export class ResendEmailService implements IEmailService {
 
             if (error) {
                 logger.error('[ResendEmailService] Error sending password reset email:', error);
-                return { success: false, error: error.message };
+                return { success: false, error: error.message, provider: 'resend' };
             }
 
             logger.info(`[ResendEmailService] Password reset email sent. ID: ${data?.id}`);
-            return { success: true, messageId: data?.id };
+            return { success: true, messageId: data?.id, provider: 'resend' };
 
         } catch (error: any) {
             logger.error('[ResendEmailService] Unexpected error sending password reset email:', error);
-            return { success: false, error: error.message };
+            return { success: false, error: error.message, provider: 'resend' };
+        }
+    }
+
+    public async sendPortalCodeEmail(to: string, code: string, expiresInMinutes: number): Promise<EmailSendResult> {
+        try {
+            logger.info(`[ResendEmailService] Sending invoice portal code to ${to}`);
+
+            const businessName = process.env.BUSINESS_NAME || 'Sistema';
+
+            const htmlContent = `
+                <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 500px; margin: 0 auto; padding: 40px 20px;">
+                    <div style="text-align: center; margin-bottom: 30px;">
+                        <h1 style="margin: 0; font-size: 24px; font-weight: 700; color: #1a1a1a;">${businessName}</h1>
+                    </div>
+                    <div style="background: #ffffff; border: 1px solid #e5e5e5; border-radius: 12px; padding: 30px; text-align: center;">
+                        <p style="margin: 0 0 20px; color: #666; line-height: 1.6;">
+                            Usa este codigo para descargar tus facturas electronicas:
+                        </p>
+                        <div style="font-size: 32px; font-weight: 700; letter-spacing: 8px; color: #1a1a1a; margin: 20px 0;">${code}</div>
+                        <p style="margin: 0; color: #999; font-size: 13px; line-height: 1.5;">
+                            El codigo expira en ${expiresInMinutes} minutos. Si no lo solicitaste, ignora este correo.
+                        </p>
+                    </div>
+                </div>
+            `;
+
+            const { data, error } = await this.resend.emails.send({
+                from: this.fromEmail,
+                to: [to],
+                subject: `Codigo para descargar tus facturas - ${businessName}`,
+                html: htmlContent,
+            });
+
+            if (error) {
+                logger.error('[ResendEmailService] Error sending invoice portal code:', error);
+                return { success: false, error: error.message, provider: 'resend' };
+            }
+
+            logger.info(`[ResendEmailService] Invoice portal code sent. ID: ${data?.id}`);
+            return { success: true, messageId: data?.id, provider: 'resend' };
+
+        } catch (error: any) {
+            logger.error('[ResendEmailService] Unexpected error sending invoice portal code:', error);
+            return { success: false, error: error.message, provider: 'resend' };
         }
     }
 
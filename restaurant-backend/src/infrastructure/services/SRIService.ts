@@ -1,12 +1,21 @@
 import { Invoice } from '../../domain/billing/invoice';
 import { CreditNote } from '../../domain/billing/creditNote';
+import { DebitNote } from '../../domain/billing/debitNote';
+import { PurchaseSettlement } from '../../domain/billing/purchaseSettlement';
 import { RestaurantConfig } from '../../domain/entities/RestaurantConfig';
 import { logger } from '../utils/Logger';
 import { XMLGenerator } from './sri/XMLGenerator';
 import { SRISigner } from './sri/SRISigner';
 import { SRISender } from './sri/SRISender';
 import { SRIAuthorizer } from './sri/SRIAuthorizer';
-import { SRIReceptionResponse, SRIAuthResponse } from './sri/types';
+import { WithholdingXMLParser } from './sri/WithholdingXMLParser';
+import { ATSGenerator } from './sri/ATSGenerator';
+import { XSDValidator, XSD_INVALID_CODE } from './sri/XSDValidator';
+import { SignatureVerifier } from './sri/SignatureVerifier';
+import { SRIError } from '../../domain/errors/CustomErrors';
+import { ReceivedWithholdingDocument } from '../../domain/billing/withholding';
+import { AtsReport } from '../../domain/billing/ats';
+import { SRIReceptionResponse, SRIAuthResponse, XSDViolation, DocumentVerificationReport } from './sri/types';
 
 // Solo loguear XMLs completos en desarrollo
 const DEBUG_XML = process.env.NODE_ENV === 'development';
@@ -15,9 +24,13 @@ const DEBUG_XML = process.env.NODE_ENV === 'development';
  * Servicio para gestionar la comunicación con el SRI
  * FACADE PATTERN: Orquesta módulos especializados para:
  * - Generación de XML (XMLGenerator)
+ * - Validación contra los XSD oficiales (XSDValidator)
  * - Firma Electrónica XAdES-BES (SRISigner)
+ * - Verificación de comprobantes firmados (SignatureVerifier)
  * - Envío y Recepción (SRISender)
  * - Autorización (SRIAuthorizer)
+ * - Lectura de retenciones recibidas (WithholdingXMLParser)
+ * - Anexo Transaccional Simplificado (ATSGenerator)
  *
  * Mantiene 100% compatibilidad hacia atrás con la API anterior.
  */
@@ -26,12 +39,20 @@ export class SRIService {
     private signer: SRISigner;
     private sender: SRISender;
     private authorizer: SRIAuthorizer;
+    private withholdingParser: WithholdingXMLParser;
+    private atsGenerator: ATSGenerator;
+    private xsdValidator: XSDValidator;
+    private signatureVerifier: SignatureVerifier;
 
     constructor() {
         this.xmlGenerator = new XMLGenerator();
         this.signer = new SRISigner();
         this.sender = new SRISender();
         this.authorizer = new SRIAuthorizer();
+        this.withholdingParser = new WithholdingXMLParser();
+        this.atsGenerator = new ATSGenerator();
+        this.xsdValidator = new XSDValidator();
+        this.signatureVerifier = new SignatureVerifier();
     }
 
     /**
@@ -67,17 +88,45 @@ export class SRIService {
         return this.xmlGenerator.generateInvoiceXML(invoice, existingAccessKey);
     }
 
+    /**
+     * Valida el comprobante contra su XSD oficial (factura, notas de crédito y débito, liquidación de compra)
+     * @returns violaciones con la ruta de cada campo (vacía = válido; un comprobante sin XSD nunca lo es)
+     */
+    public async validateXML(xmlContent: string): Promise<XSDViolation[]> {
+        return this.xsdValidator.validate(xmlContent);
+    }
+
     /**
      * Firma el XML usando el certificado digital (.p12) con XAdES-BES
      * Implementación usando librería 'ec-sri-invoice-signer'
+     *
+     * Antes de firmar valida el XSD: un comprobante que no cumple el esquema el SRI
+     * lo devuelve igual, así que se corta aquí con SRIError(SRI_XSD_INVALID) y los campos.
      */
     public async signXML(xmlContent: string, config?: RestaurantConfig): Promise<string> {
+        const violations = await this.validateXML(xmlContent);
+        if (violations.length > 0) {
+            this.auditLog('XSD', `${violations.length} violation(s): ${violations.map(v => v.path).join(', ')}`, 'FAIL');
+            throw new SRIError(
+                `El comprobante no cumple el esquema XSD del SRI (${violations.length} ${violations.length === 1 ? 'error' : 'errores'}): ${violations[0].path} - ${violations[0].message}`,
+                XSD_INVALID_CODE,
+                422,
+                { errors: violations }
+            );
+        }
+
         try {
             // Detect document type and delegate to appropriate signer
-            const isCreditNote = xmlContent.includes('<notaCredito');
-            return isCreditNote
-                ? await this.signer.signCreditNoteXml(xmlContent, config)
-                : await this.signer.signInvoiceXml(xmlContent, config);
+            if (xmlContent.includes('<notaCredito')) {
+                return await this.signer.signCreditNoteXml(xmlContent, config);
+            }
+            if (xmlContent.includes('<notaDebito')) {
+                return await this.signer.signDebitNoteXml(xmlContent, config);
+            }
+            if (xmlContent.includes('<liquidacionCompra')) {
+                return await this.signer.signPurchaseSettlementXml(xmlContent, config);
+            }
+            return await this.signer.signInvoiceXml(xmlContent, config);
         } catch (error: any) {
             logger.error('[SRI] Error signing XML', { error: error.message });
             throw error;
@@ -163,6 +212,86 @@ export class SRIService {
         return this.authorizer.authorizeCreditNote(accessKey, isProduction);
     }
 
+    /**
+     * Genera el XML de una Nota de Débito (codDoc 05) en formato string
+     * @param debitNote Debit note model
+     * @param existingAccessKey (Opcional) Reutilizar clave existente en reintentos
+     */
+    public generateDebitNoteXML(debitNote: DebitNote, existingAccessKey?: string): string {
+        return this.xmlGenerator.generateDebitNoteXML(debitNote, existingAccessKey);
+    }
+
+    /**
+     * Envía el XML de Nota de Débito firmado al Web Service del SRI (Recepción)
+     */
+    public async sendDebitNoteToSRI(signedXml: string, isProduction: boolean = false): Promise<SRIReceptionResponse> {
+        return this.sender.sendDebitNoteToSRI(signedXml, isProduction);
+    }
+
+    /**
+     * Consulta la Autorización de una Nota de Débito al SRI
+     */
+    public async authorizeDebitNote(accessKey: string, isProduction: boolean = false): Promise<SRIAuthResponse> {
+        return this.authorizer.authorizeDebitNote(accessKey, isProduction);
+    }
+
+    /**
+     * Genera el XML de una Liquidación de Compra (codDoc 03) en formato string
+     * @param settlement Purchase settlement model
+     * @param existingAccessKey (Opcional) Reutilizar clave existente en reintentos
+     */
+    public generatePurchaseSettlementXML(settlement: PurchaseSettlement, existingAccessKey?: string): string {
+        return this.xmlGenerator.generatePurchaseSettlementXML(settlement, existingAccessKey);
+    }
+
+    /**
+     * Envía el XML de Liquidación de Compra firmado al Web Service del SRI (Recepción)
+     */
+    public async sendPurchaseSettlementToSRI(signedXml: string, isProduction: boolean = false): Promise<SRIReceptionResponse> {
+        return this.sender.sendPurchaseSettlementToSRI(signedXml, isProduction);
+    }
+
+    /**
+     * Consulta la Autorización de una Liquidación de Compra al SRI
+     */
+    public async authorizePurchaseSettlement(accessKey: string, isProduction: boolean = false): Promise<SRIAuthResponse> {
+        return this.authorizer.authorizePurchaseSettlement(accessKey, isProduction);
+    }
+
+    /**
+     * Verifica un comprobante ya firmado: firma XAdES-BES, digests, certificado,
+     * clave de acceso y RUC emisor (suelto o dentro de la respuesta de autorización)
+     * @param expectedRuc RUC configurado del restaurante
+     */
+    public verifyDocument(xmlContent: string, expectedRuc?: string): DocumentVerificationReport {
+        const report = this.signatureVerifier.verify(xmlContent, expectedRuc);
+        this.auditLog('VERIFY', `${report.documentType} ${report.documentNumber || ''} → ${report.valid ? 'válido' : 'inválido'}`, report.valid ? 'SUCCESS' : 'FAIL');
+        return report;
+    }
+
+    /**
+     * Lee un comprobante de retención (codDoc 07) recibido de un cliente
+     * (suelto o dentro de la respuesta de autorización del SRI)
+     */
+    public parseWithholdingXML(xmlContent: string): ReceivedWithholdingDocument {
+        return this.withholdingParser.parse(xmlContent);
+    }
+
+    /**
+     * Genera el XML del ATS (módulo de ventas) de un período
+     */
+    public generateATSXML(report: AtsReport): string {
+        return this.atsGenerator.generateATSXML(report);
+    }
+
+    /**
+     * Verifica que el XML del ATS respete la estructura del esquema del SRI
+     * @returns lista de problemas (vacía = estructura válida)
+     */
+    public validateATSXML(xmlContent: string): string[] {
+        return this.atsGenerator.validateStructure(xmlContent);
+    }
+
     /**
      * Helper para agrupar impuestos por código y porcentaje (SRI 2026 Compliance)
      * Requerido cuando una factura tiene items con diferentes tarifas de IVA (ej: 0% y 15%)
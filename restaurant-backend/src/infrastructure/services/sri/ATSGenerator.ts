@@ -0,0 +1,209 @@
+import { DOMParser } from '@xmldom/xmldom';
+import { AtsReport, AtsSaleDetail } from '../../../domain/billing/ats';
+import { logger } from '../../utils/Logger';
+
+/** Nodo del esquema del ATS: hijos en el orden exigido por at.xsd */
+interface AtsNode {
+    name: string;
+    optional?: boolean;
+    repeated?: boolean;
+    children?: AtsNode[];
+}
+
+const leaf = (name: string, optional = false): AtsNode => ({ name, optional });
+
+/**
+ * Subconjunto de at.xsd que usa el restaurante (informante + ventas + anulados).
+ * El DIMM rechaza el anexo si los elementos vienen en otro orden.
+ */
+const ATS_SCHEMA: AtsNode = {
+    name: 'iva',
+    children: [
+        leaf('TipoIDInformante'),
+        leaf('IdInformante'),
+        leaf('razonSocial'),
+        leaf('Anio'),
+        leaf('Mes'),
+        leaf('numEstabRuc'),
+        leaf('totalVentas'),
+        leaf('codigoOperativo'),
+        {
+            name: 'ventas',
+            optional: true,
+            children: [{
+                name: 'detalleVentas',
+                repeated: true,
+                children: [
+                    leaf('tpIdCliente'),
+                    leaf('idCliente'),
+                    leaf('parteRelVtas', true),
+                    leaf('tipoCliente', true),
+                    leaf('denoCli', true),
+                    leaf('tipoComprobante'),
+                    leaf('tipoEmision'),
+                    leaf('numeroComprobantes'),
+                    leaf('baseNoGraIva'),
+                    leaf('baseImponible'),
+                    leaf('baseImpGrav'),
+                    leaf('montoIva'),
+                    leaf('montoIce'),
+                    leaf('valorRetIva'),
+                    leaf('valorRetRenta'),
+                    { name: 'formasDePago', optional: true, children: [{ name: 'formaPago', repeated: true }] }
+                ]
+            }]
+        },
+        {
+            name: 'ventasEstablecimiento',
+            optional: true,
+            children: [{
+                name: 'ventaEst',
+                repeated: true,
+                children: [leaf('codEstab'), leaf('ventasEstab'), leaf('ivaComp')]
+            }]
+        },
+        {
+            name: 'anulados',
+            optional: true,
+            children: [{
+                name: 'detalleAnulados',
+                repeated: true,
+                children: [
+                    leaf('tipoComprobante'),
+                    leaf('establecimiento'),
+                    leaf('puntoEmision'),
+                    leaf('secuencialInicio'),
+                    leaf('secuencialFin'),
+                    leaf('autorizacion')
+                ]
+            }]
+        }
+    ]
+};
+
+const money = (value: number): string => value.toFixed(2);
+
+/**
+ * Genera el XML del Anexo Transaccional Simplificado (ventas) y verifica que
+ * respete la estructura y el orden de elementos del esquema del SRI.
+ */
+export class ATSGenerator {
+    public generateATSXML(report: AtsReport): string {
+        logger.info('[ATSGen] Generating ATS XML', { period: `${report.Mes}/${report.Anio}`, ventas: report.ventas.length });
+
+        const ventas = report.ventas.length > 0 ? `
+    <ventas>${report.ventas.map(d => this.saleDetailXML(d)).join('')}
+    </ventas>` : '';
+
+        const establecimientos = report.ventasEstablecimiento.length > 0 ? `
+    <ventasEstablecimiento>${report.ventasEstablecimiento.map(e => `
+        <ventaEst>
+            <codEstab>${e.codEstab}</codEstab>
+            <ventasEstab>${money(e.ventasEstab)}</ventasEstab>
+            <ivaComp>${money(e.ivaComp)}</ivaComp>
+        </ventaEst>`).join('')}
+    </ventasEstablecimiento>` : '';
+
+        const anulados = report.anulados.length > 0 ? `
+    <anulados>${report.anulados.map(a => `
+        <detalleAnulados>
+            <tipoComprobante>${a.tipoComprobante}</tipoComprobante>
+            <establecimiento>${a.establecimiento}</establecimiento>
+            <puntoEmision>${a.puntoEmision}</puntoEmision>
+            <secuencialInicio>${a.secuencialInicio}</secuencialInicio>
+            <secuencialFin>${a.secuencialFin}</secuencialFin>
+            <autorizacion>${a.autorizacion}</autorizacion>
+        </detalleAnulados>`).join('')}
+    </anulados>` : '';
+
+        return `<?xml version="1.0" encoding="UTF-8"?>
+<iva>
+    <TipoIDInformante>${report.TipoIDInformante}</TipoIDInformante>
+    <IdInformante>${report.IdInformante}</IdInformante>
+    <razonSocial>${report.razonSocial}</razonSocial>
+    <Anio>${report.Anio}</Anio>
+    <Mes>${report.Mes}</Mes>
+    <numEstabRuc>${report.numEstabRuc}</numEstabRuc>
+    <totalVentas>${money(report.totalVentas)}</totalVentas>
+    <codigoOperativo>${report.codigoOperativo}</codigoOperativo>${ventas}${establecimientos}${anulados}
+</iva>
+`;
+    }
+
+    /**
+     * Verifica el XML contra la estructura del ATS: elementos obligatorios,
+     * orden y elementos desconocidos.
+     * @returns lista de problemas con la ruta del elemento (vacía = válido)
+     */
+    public validateStructure(xmlContent: string): string[] {
+        const errors: string[] = [];
+        // xmldom reporta etiquetas sin cerrar o cruzadas solo como warning: aquí también son errores
+        const doc = new DOMParser({
+            errorHandler: {
+                warning: (msg: string) => { errors.push(`XML mal formado: ${msg}`); },
+                error: (msg: string) => { errors.push(`XML mal formado: ${msg}`); },
+                fatalError: (msg: string) => { errors.push(`XML mal formado: ${msg}`); }
+            }
+        }).parseFromString(xmlContent, 'text/xml');
+
+        const root = doc?.documentElement;
+        if (!root || errors.length > 0) return errors.length > 0 ? errors : ['XML vacío'];
+        if (root.nodeName !== ATS_SCHEMA.name) return [`El elemento raíz debe ser <${ATS_SCHEMA.name}>`];
+
+        this.checkNode(root, ATS_SCHEMA, ATS_SCHEMA.name, errors);
+        return errors;
+    }
+
+    private checkNode(element: Element, node: AtsNode, path: string, errors: string[]): void {
+        const children = Array.from(element.childNodes).filter((c): c is Element => c.nodeType === 1);
+
+        if (!node.children) {
+            if (children.length > 0) errors.push(`${path}: no admite elementos hijos`);
+            else if (!element.textContent?.trim()) errors.push(`${path}: valor vacío`);
+            return;
+        }
+
+        let index = 0;
+        for (const expected of node.children) {
+            let count = 0;
+            while (index < children.length && children[index].nodeName === expected.name) {
+                this.checkNode(children[index], expected, `${path}/${expected.name}`, errors);
+                index++;
+                count++;
+                if (!expected.repeated) break;
+            }
+            if (count === 0 && !expected.optional) {
+                errors.push(`${path}: falta <${expected.name}>`);
+            }
+        }
+        for (const extra of children.slice(index)) {
+            errors.push(`${path}: elemento <${extra.nodeName}> no permitido o fuera de orden`);
+        }
+    }
+
+    private saleDetailXML(d: AtsSaleDetail): string {
+        const formasDePago = d.formasDePago.length > 0 ? `
+            <formasDePago>${d.formasDePago.map(f => `
+                <formaPago>${f}</formaPago>`).join('')}
+            </formasDePago>` : '';
+
+        return `
+        <detalleVentas>
+            <tpIdCliente>${d.tpIdCliente}</tpIdCliente>
+            <idCliente>${d.idCliente}</idCliente>${d.parteRelVtas ? `
+            <parteRelVtas>${d.parteRelVtas}</parteRelVtas>` : ''}${d.tipoCliente ? `
+            <tipoCliente>${d.tipoCliente}</tipoCliente>` : ''}${d.denoCli ? `
+            <denoCli>${d.denoCli}</denoCli>` : ''}
+            <tipoComprobante>${d.tipoComprobante}</tipoComprobante>
+            <tipoEmision>${d.tipoEmision}</tipoEmision>
+            <numeroComprobantes>${d.numeroComprobantes}</numeroComprobantes>
+            <baseNoGraIva>${money(d.baseNoGraIva)}</baseNoGraIva>
+            <baseImponible>${money(d.baseImponible)}</baseImponible>
+            <baseImpGrav>${money(d.baseImpGrav)}</baseImpGrav>
+            <montoIva>${money(d.montoIva)}</montoIva>
+            <montoIce>${money(d.montoIce)}</montoIce>
+            <valorRetIva>${money(d.valorRetIva)}</valorRetIva>
+            <valorRetRenta>${money(d.valorRetRenta)}</valorRetRenta>${formasDePago}
+        </detalleVentas>`;
+    }
+}
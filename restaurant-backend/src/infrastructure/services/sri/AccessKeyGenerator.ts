@@ -1,5 +1,13 @@
 import { logger } from '../../utils/Logger';
-import { AccessKeyParams } from './types';
+import { AccessKeyParams, SRIDocumentType } from './types';
+
+/** Código de documento SRI (tabla 3 de la ficha técnica) */
+const DOC_TYPE_CODES: Record<SRIDocumentType, string> = {
+    invoice: '01',
+    purchaseSettlement: '03',
+    creditNote: '04',
+    debitNote: '05'
+};
 
 /**
  * Utility for generating and validating SRI Access Keys (Clave de Acceso)
@@ -78,7 +86,7 @@ export class AccessKeyGenerator {
     /**
      * Gets the document type code
      */
-    public getDocTypeCode(docType: 'invoice' | 'creditNote'): string {
-        return docType === 'invoice' ? '01' : '04';
+    public getDocTypeCode(docType: SRIDocumentType): string {
+        return DOC_TYPE_CODES[docType];
     }
 }
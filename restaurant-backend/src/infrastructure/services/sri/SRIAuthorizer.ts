@@ -2,7 +2,8 @@ import axios from 'axios';
 import { logger } from '../../utils/Logger';
 import { sriCircuitBreaker } from '../../utils/CircuitBreaker';
 import { metricsService } from '../../monitoring/MetricsService';
-import { SRIAuthResponse } from './types';
+import { SRIAuthResponse, SRIDocumentType } from './types';
+import { getSRIWebServiceUrl } from './endpoints';
 import {
     SRI_POLL_MAX_ATTEMPTS,
     SRI_POLL_INITIAL_DELAY_MS
@@ -10,6 +11,14 @@ import {
 
 const DEBUG_XML = process.env.NODE_ENV === 'development';
 
+/** Nombre de la métrica de duración por tipo de comprobante */
+const AUTHORIZE_OPERATIONS: Record<SRIDocumentType, string> = {
+    invoice: 'authorize_invoice',
+    creditNote: 'authorize_credit_note',
+    debitNote: 'authorize_debit_note',
+    purchaseSettlement: 'authorize_purchase_settlement'
+};
+
 /**
  * Handles authorization queries to SRI authorization web service
  * FIX D-01: Protected by circuit breaker
@@ -42,6 +51,32 @@ export class SRIAuthorizer {
         return this.queryAuthorization(accessKey, url, 'creditNote');
     }
 
+    /**
+     * Queries authorization status for a debit note
+     * @param accessKey Access key (Clave de Acceso) to check
+     * @param isProduction Whether to use production or test environment
+     * @returns Authorization response
+     */
+    public async authorizeDebitNote(accessKey: string, isProduction: boolean = false): Promise<SRIAuthResponse> {
+        const url = this.getAuthorizationUrl(isProduction);
+        logger.info('[SRIAuth] Authorizing debit note', { env: isProduction ? 'PROD' : 'TEST' });
+
+        return this.queryAuthorization(accessKey, url, 'debitNote');
+    }
+
+    /**
+     * Queries authorization status for a purchase settlement (liquidación de compra)
+     * @param accessKey Access key (Clave de Acceso) to check
+     * @param isProduction Whether to use production or test environment
+     * @returns Authorization response
+     */
+    public async authorizePurchaseSettlement(accessKey: string, isProduction: boolean = false): Promise<SRIAuthResponse> {
+        const url = this.getAuthorizationUrl(isProduction);
+        logger.info('[SRIAuth] Authorizing purchase settlement', { env: isProduction ? 'PROD' : 'TEST' });
+
+        return this.queryAuthorization(accessKey, url, 'purchaseSettlement');
+    }
+
     /**
      * Polls the SRI authorization service until document is authorized or terminal state is reached
      * FIX M-09: Uses exponential backoff to avoid overwhelming SRI
@@ -123,7 +158,7 @@ export class SRIAuthorizer {
     private async queryAuthorization(
         accessKey: string,
         url: string,
-        docType: 'invoice' | 'creditNote'
+        docType: SRIDocumentType
     ): Promise<SRIAuthResponse> {
         const startTime = Date.now();
         const soapEnvelope = `
@@ -155,8 +190,7 @@ export class SRIAuthorizer {
 
                 // Record metrics
                 const duration = (Date.now() - startTime) / 1000;
-                const operation = docType === 'invoice' ? 'authorize_invoice' : 'authorize_credit_note';
-                metricsService.recordSRIRequestDuration(operation, duration);
+                metricsService.recordSRIRequestDuration(AUTHORIZE_OPERATIONS[docType], duration);
 
                 let numeroAutorizacion = '';
                 let fechaAutorizacion = '';
@@ -213,8 +247,6 @@ export class SRIAuthorizer {
      * Gets the authorization web service URL for the specified environment
      */
     private getAuthorizationUrl(isProduction: boolean): string {
-        return isProduction
-            ? 'https://cel.sri.gob.ec/comprobantes-electronicos-ws/AutorizacionComprobantesOffline?wsdl'
-            : 'https://celcer.sri.gob.ec/comprobantes-electronicos-ws/AutorizacionComprobantesOffline?wsdl';
+        return getSRIWebServiceUrl('AutorizacionComprobantesOffline', isProduction);
     }
 }
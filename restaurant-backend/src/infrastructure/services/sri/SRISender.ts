@@ -2,7 +2,23 @@ import axios from 'axios';
 import { logger } from '../../utils/Logger';
 import { sriCircuitBreaker } from '../../utils/CircuitBreaker';
 import { metricsService } from '../../monitoring/MetricsService';
-import { SRIReceptionResponse } from './types';
+import { SRIReceptionResponse, SRIDocumentType } from './types';
+import { getSRIWebServiceUrl } from './endpoints';
+
+/** Sufijo de las métricas de duración por tipo de comprobante */
+const METRIC_SUFFIX: Record<SRIDocumentType, string> = {
+    invoice: 'invoice',
+    creditNote: 'credit_note',
+    debitNote: 'debit_note',
+    purchaseSettlement: 'purchase_settlement'
+};
+
+const DOC_TYPE_LABELS: Record<SRIDocumentType, string> = {
+    invoice: 'factura',
+    creditNote: 'NOTA DE CRÉDITO',
+    debitNote: 'NOTA DE DÉBITO',
+    purchaseSettlement: 'LIQUIDACIÓN DE COMPRA'
+};
 
 const DEBUG_XML = process.env.NODE_ENV === 'development';
 
@@ -37,6 +53,32 @@ export class SRISender {
         return this.sendDocument(signedXml, url, 'creditNote');
     }
 
+    /**
+     * Sends a signed debit note XML to SRI reception service
+     * @param signedXml Signed XML content
+     * @param isProduction Whether to use production or test environment
+     * @returns Reception response with status
+     */
+    public async sendDebitNoteToSRI(signedXml: string, isProduction: boolean = false): Promise<SRIReceptionResponse> {
+        const url = this.getReceptionUrl(isProduction);
+        logger.info('[SRISender] Sending debit note to SRI', { env: isProduction ? 'PROD' : 'TEST' });
+
+        return this.sendDocument(signedXml, url, 'debitNote');
+    }
+
+    /**
+     * Sends a signed purchase settlement XML to SRI reception service
+     * @param signedXml Signed XML content
+     * @param isProduction Whether to use production or test environment
+     * @returns Reception response with status
+     */
+    public async sendPurchaseSettlementToSRI(signedXml: string, isProduction: boolean = false): Promise<SRIReceptionResponse> {
+        const url = this.getReceptionUrl(isProduction);
+        logger.info('[SRISender] Sending purchase settlement to SRI', { env: isProduction ? 'PROD' : 'TEST' });
+
+        return this.sendDocument(signedXml, url, 'purchaseSettlement');
+    }
+
     /**
      * Internal document sending implementation
      * FIX D-01: Uses circuit breaker to protect against SRI outages
@@ -44,7 +86,7 @@ export class SRISender {
     private async sendDocument(
         signedXml: string,
         url: string,
-        docType: 'invoice' | 'creditNote'
+        docType: SRIDocumentType
     ): Promise<SRIReceptionResponse> {
         const startTime = Date.now();
 
@@ -83,14 +125,13 @@ export class SRISender {
 
                 // Record metrics
                 const duration = (Date.now() - startTime) / 1000;
-                const operation = docType === 'invoice' ? 'send_invoice' : 'send_credit_note';
-                metricsService.recordSRIRequestDuration(operation, duration);
+                metricsService.recordSRIRequestDuration(`send_${METRIC_SUFFIX[docType]}`, duration);
 
                 // Record success/failure counters
                 const status = estado === 'RECIBIDA' ? 'success' : 'rejected';
                 if (docType === 'invoice') {
                     metricsService.recordSRIInvoice(status);
-                } else {
+                } else if (docType === 'creditNote') {
                     metricsService.recordSRICreditNote(status);
                 }
 
@@ -114,12 +155,11 @@ export class SRISender {
             } catch (error: any) {
                 // Record failure metrics
                 const duration = (Date.now() - startTime) / 1000;
-                const operation = docType === 'invoice' ? 'send_invoice' : 'send_credit_note';
-                metricsService.recordSRIRequestDuration(operation, duration);
+                metricsService.recordSRIRequestDuration(`send_${METRIC_SUFFIX[docType]}`, duration);
 
                 if (docType === 'invoice') {
                     metricsService.recordSRIInvoice('failed');
-                } else {
+                } else if (docType === 'creditNote') {
                     metricsService.recordSRICreditNote('failed');
                 }
 
@@ -133,15 +173,14 @@ export class SRISender {
     /**
      * Checks for common SRI errors in messages
      */
-    private checkForCommonErrors(mensajes: string[], docType: 'invoice' | 'creditNote'): void {
+    private checkForCommonErrors(mensajes: string[], docType: SRIDocumentType): void {
         if (mensajes.length === 0) return;
 
         const combinedMessages = mensajes.join(' ');
 
         if (combinedMessages.includes('ERROR SECUENCIAL REGISTRADO')) {
-            const docTypeStr = docType === 'invoice' ? 'factura' : 'NOTA DE CRÉDITO';
             throw new Error(
-                `Error de Secuencia: El número de ${docTypeStr} ya existe en el SRI. ` +
+                `Error de Secuencia: El número de ${DOC_TYPE_LABELS[docType]} ya existe en el SRI. ` +
                 'Por favor, actualice el secuencial en la configuración.'
             );
         }
@@ -209,8 +248,6 @@ export class SRISender {
      * Gets the reception web service URL for the specified environment
      */
     private getReceptionUrl(isProduction: boolean): string {
-        return isProduction
-            ? 'https://cel.sri.gob.ec/comprobantes-electronicos-ws/RecepcionComprobantesOffline?wsdl'
-            : 'https://celcer.sri.gob.ec/comprobantes-electronicos-ws/RecepcionComprobantesOffline?wsdl';
+        return getSRIWebServiceUrl('RecepcionComprobantesOffline', isProduction);
     }
 }
@@ -1,10 +1,23 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { signInvoiceXml, signCreditNoteXml } from 'ec-sri-invoice-signer';
+import { signInvoiceXml, signCreditNoteXml, signDebitNoteXml } from 'ec-sri-invoice-signer';
+// La librería no exporta un firmador dedicado para liquidaciones de compra,
+// pero su firmador genérico acepta el tag raíz 'liquidacionCompra'
+import { signDocumentXml } from 'ec-sri-invoice-signer/dist/src/signature/signature';
 import { logger } from '../../utils/Logger';
 import { certificateEncryption } from '../../utils/CertificateEncryption';
 import { RestaurantConfig } from '../../../domain/entities/RestaurantConfig';
 import { SRIError } from '../../../domain/errors/CustomErrors';
+import { SRIDocumentType } from './types';
+
+type SignFunction = (xml: string, p12: Buffer, options: { pkcs12Password: string }) => string;
+
+const SIGNERS: Record<SRIDocumentType, SignFunction> = {
+    invoice: signInvoiceXml,
+    creditNote: signCreditNoteXml,
+    debitNote: signDebitNoteXml,
+    purchaseSettlement: (xml, p12, options) => signDocumentXml(xml, p12, 'liquidacionCompra', options)
+};
 
 /**
  * Handles digital signature of XML documents using P12 certificates
@@ -34,6 +47,28 @@ export class SRISigner {
         return this.signXML(xmlContent, 'creditNote', config);
     }
 
+    /**
+     * Signs a debit note XML with digital certificate
+     * @param xmlContent Unsigned XML content
+     * @param config Optional restaurant config with certificate
+     * @returns Signed XML with XAdES-BES signature
+     */
+    public async signDebitNoteXml(xmlContent: string, config?: RestaurantConfig): Promise<string> {
+        logger.info('[SRISigner] Signing debit note XML');
+        return this.signXML(xmlContent, 'debitNote', config);
+    }
+
+    /**
+     * Signs a purchase settlement (liquidación de compra) XML with digital certificate
+     * @param xmlContent Unsigned XML content
+     * @param config Optional restaurant config with certificate
+     * @returns Signed XML with XAdES-BES signature
+     */
+    public async signPurchaseSettlementXml(xmlContent: string, config?: RestaurantConfig): Promise<string> {
+        logger.info('[SRISigner] Signing purchase settlement XML');
+        return this.signXML(xmlContent, 'purchaseSettlement', config);
+    }
+
     /**
      * Internal signing implementation
      * Handles certificate loading from database or filesystem
@@ -41,7 +76,7 @@ export class SRISigner {
      */
     private async signXML(
         xmlContent: string,
-        docType: 'invoice' | 'creditNote',
+        docType: SRIDocumentType,
         config?: RestaurantConfig
     ): Promise<string> {
         let p12Buffer: Buffer | null = null;
@@ -63,9 +98,7 @@ export class SRISigner {
             // Sign using appropriate function
             let signedXml: string;
             try {
-                signedXml = docType === 'invoice'
-                    ? signInvoiceXml(xmlContent, p12Buffer, { pkcs12Password: signaturePassword })
-                    : signCreditNoteXml(xmlContent, p12Buffer, { pkcs12Password: signaturePassword });
+                signedXml = SIGNERS[docType](xmlContent, p12Buffer, { pkcs12Password: signaturePassword });
             } catch (signingError: any) {
                 // FIX S-03: Clear certificate buffer from memory on error
                 if (p12Buffer) p12Buffer.fill(0);
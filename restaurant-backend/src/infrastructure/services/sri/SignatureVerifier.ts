@@ -0,0 +1,555 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { DOMParser } from '@xmldom/xmldom';
+// C14N 1.0 inclusiva, la que declara el firmador (ec-sri-invoice-signer) en CanonicalizationMethod
+import { C14nCanonicalization } from 'xml-crypto';
+import { logger } from '../../utils/Logger';
+import { ValidationError } from '../../../domain/errors/CustomErrors';
+import { AccessKeyGenerator } from './AccessKeyGenerator';
+import {
+    DocumentVerificationReport,
+    SignerCertificateInfo,
+    VerificationCheck,
+    VerificationStatus,
+    VerificationVerdict
+} from './types';
+
+const DS_NS = 'http://www.w3.org/2000/09/xmldsig#';
+const C14N_ALGORITHMS = [
+    'http://www.w3.org/TR/2001/REC-xml-c14n-20010315',
+    'http://www.w3.org/TR/2001/REC-xml-c14n-20010315#WithComments'
+];
+const ENVELOPED_SIGNATURE = 'http://www.w3.org/2000/09/xmldsig#enveloped-signature';
+
+const DIGEST_ALGORITHMS: Record<string, string> = {
+    'http://www.w3.org/2000/09/xmldsig#sha1': 'sha1',
+    'http://www.w3.org/2001/04/xmlenc#sha256': 'sha256',
+    'http://www.w3.org/2001/04/xmlenc#sha512': 'sha512'
+};
+
+const SIGNATURE_ALGORITHMS: Record<string, string> = {
+    'http://www.w3.org/2000/09/xmldsig#rsa-sha1': 'sha1',
+    'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256': 'sha256',
+    'http://www.w3.org/2001/04/xmldsig-more#rsa-sha512': 'sha512'
+};
+
+/** Elementos raíz de los comprobantes electrónicos del SRI */
+const DOCUMENT_ROOTS = ['factura', 'liquidacionCompra', 'notaCredito', 'notaDebito', 'guiaRemision', 'comprobanteRetencion'];
+
+/** Longitud máxima de la cadena de certificación que se intenta construir */
+const MAX_CHAIN_DEPTH = 5;
+
+interface InheritedNamespace {
+    prefix?: string;
+    uri: string;
+}
+
+/** Veredicto de un conjunto de comprobaciones (también tras añadir las de la factura guardada) */
+export function verificationVerdict(checks: VerificationCheck[]): VerificationVerdict {
+    if (checks.some(check => check.status === 'FAIL')) return 'INVALID';
+    return checks.some(check => check.status === 'NOT_VERIFIED') ? 'NOT_VERIFIED' : 'VALID';
+}
+
+/**
+ * Verifica comprobantes ya firmados: los guardados en `xmlContent` o los que sube el usuario.
+ *
+ * Recalcula lo que el SRI valida al recibir el XML:
+ * - digests de cada <ds:Reference> (comprobante sin la firma, SignedProperties y KeyInfo)
+ * - el SignatureValue sobre el SignedInfo canonicalizado, con la clave del certificado
+ * - que el certificado sea el declarado en XAdES (CertDigest, IssuerSerial) y estuviera vigente al firmar
+ * - la cadena de certificación hasta las CAs de confianza (SRI_TRUSTED_CA_PATH, PEM);
+ *   sin CAs configuradas el comprobante queda "sin verificar", nunca válido
+ * - el dígito verificador de la clave de acceso y que sus segmentos coincidan con el comprobante
+ * - que el RUC emisor sea el configurado
+ *
+ * Acepta el comprobante suelto o la respuesta de autorización (<autorizacion> con el XML en CDATA).
+ * Trabaja sobre el texto original: la canonicalización debe hacerse sobre los mismos bytes firmados.
+ */
+export class SignatureVerifier {
+    private accessKeys = new AccessKeyGenerator();
+    private trustedCAs?: crypto.X509Certificate[];
+
+    /**
+     * @param trustedCAs CAs raíz/intermedias de confianza; por defecto se leen de SRI_TRUSTED_CA_PATH
+     */
+    constructor(trustedCAs?: crypto.X509Certificate[]) {
+        this.trustedCAs = trustedCAs;
+    }
+
+    public verify(xmlContent: string, expectedRuc?: string): DocumentVerificationReport {
+        if (!xmlContent || typeof xmlContent !== 'string' || !xmlContent.trim()) {
+            throw new ValidationError('Se requiere el XML del comprobante', { field: 'xml' });
+        }
+
+        const checks: VerificationCheck[] = [];
+        const report: DocumentVerificationReport = { verdict: 'INVALID', valid: false, checks };
+
+        let xml = xmlContent.trim();
+        let root = this.parseDocument(xml);
+
+        const authorization = root.localName === 'autorizacion' ? root : this.first(root, 'autorizacion');
+        if (authorization && !DOCUMENT_ROOTS.includes(root.localName)) {
+            report.authorization = {
+                estado: this.text(authorization, 'estado') || '',
+                numeroAutorizacion: this.text(authorization, 'numeroAutorizacion'),
+                fechaAutorizacion: this.text(authorization, 'fechaAutorizacion')
+            };
+            // El comprobante viaja como texto (CDATA o escapado): textContent devuelve los bytes firmados
+            const inner = this.first(authorization, 'comprobante')?.textContent?.trim();
+            if (!inner) {
+                throw new ValidationError('La respuesta de autorización no incluye el comprobante', { field: 'xml' });
+            }
+            xml = inner;
+            root = this.parseDocument(xml);
+        }
+
+        if (!DOCUMENT_ROOTS.includes(root.localName)) {
+            throw new ValidationError('El XML no es un comprobante electrónico del SRI', { field: 'xml' });
+        }
+
+        const estab = this.text(root, 'estab');
+        const ptoEmi = this.text(root, 'ptoEmi');
+        const secuencial = this.text(root, 'secuencial');
+        report.documentType = root.localName;
+        report.documentNumber = estab && ptoEmi && secuencial ? `${estab}-${ptoEmi}-${secuencial}` : undefined;
+        report.accessKey = this.text(root, 'claveAcceso');
+        report.ruc = this.text(root, 'ruc');
+
+        this.verifySignature(xml, root, report);
+        checks.push(this.checkAccessKey(root));
+        checks.push(this.checkRuc(report.ruc, expectedRuc));
+
+        report.verdict = verificationVerdict(checks);
+        report.valid = report.verdict === 'VALID';
+        logger.info('[SignatureVerifier] Document verified', {
+            documentType: report.documentType,
+            documentNumber: report.documentNumber,
+            verdict: report.verdict,
+            failed: checks.filter(c => c.status === 'FAIL').map(c => c.id)
+        });
+        return report;
+    }
+
+    // ── Firma XAdES-BES ─────────────────────────────────────────────────────
+
+    private verifySignature(xml: string, root: Element, report: DocumentVerificationReport): void {
+        const { checks } = report;
+        const signature = Array.from(root.getElementsByTagNameNS(DS_NS, 'Signature'))
+            .find(el => el.parentNode === root);
+
+        if (!signature) {
+            checks.push(this.check('signature', 'Firma electrónica', 'FAIL', 'El comprobante no está firmado'));
+            return;
+        }
+
+        const qname = signature.prefix ? `${signature.prefix}:Signature` : 'Signature';
+        const signatureStart = xml.search(new RegExp(`<${qname}[\\s>]`));
+        const signatureClose = signatureStart >= 0 ? xml.indexOf(`</${qname}>`, signatureStart) : -1;
+        if (signatureClose < 0) {
+            checks.push(this.check('signature', 'Firma electrónica', 'FAIL', 'No se pudo ubicar la firma en el XML'));
+            return;
+        }
+        const signatureEnd = signatureClose + `</${qname}>`.length;
+
+        const signedInfo = this.firstNS(signature, 'SignedInfo');
+        const certificates = Array.from(signature.getElementsByTagNameNS(DS_NS, 'X509Certificate'))
+            .map(el => this.parseCertificate(el.textContent || ''))
+            .filter((cert): cert is crypto.X509Certificate => !!cert);
+        const certificate = certificates[0];
+
+        if (!signedInfo || !certificate) {
+            checks.push(this.check('signature', 'Firma electrónica', 'FAIL',
+                !signedInfo ? 'La firma no tiene SignedInfo' : 'La firma no incluye un certificado X509 legible'));
+            return;
+        }
+
+        const signingTimeText = Array.from(signature.getElementsByTagName('*'))
+            .find(el => el.localName === 'SigningTime')?.textContent?.trim();
+        const signingTime = signingTimeText ? new Date(signingTimeText) : undefined;
+        report.signingTime = signingTimeText;
+        report.signer = this.describeCertificate(certificate);
+
+        // 1. Digests de cada referencia
+        for (const reference of Array.from(signedInfo.getElementsByTagNameNS(DS_NS, 'Reference'))) {
+            checks.push(this.checkReference(xml, root, reference, signatureStart, signatureEnd));
+        }
+
+        // 2. Valor de firma sobre el SignedInfo canonicalizado
+        checks.push(this.checkSignatureValue(xml, signature, signedInfo, certificate));
+
+        // 3. Certificado firmante declarado en XAdES
+        checks.push(this.checkSigningCertificate(signature, certificate));
+
+        // 4. Vigencia al momento de firmar
+        checks.push(this.checkValidityAtSigning(certificate, signingTime, signingTimeText));
+
+        // 5. Cadena de certificación
+        checks.push(this.checkChain(certificate, certificates.slice(1)));
+    }
+
+    private checkReference(
+        xml: string,
+        root: Element,
+        reference: Element,
+        signatureStart: number,
+        signatureEnd: number
+    ): VerificationCheck {
+        const uri = reference.getAttribute('URI') || '';
+        const targetId = uri.replace(/^#/, '');
+        const isDocument = uri === '' || targetId === root.getAttribute('id') || targetId === root.getAttribute('Id');
+
+        let id = `reference:${targetId}`;
+        let label = `Referencia ${uri}`;
+        try {
+            let content: string;
+            if (isDocument) {
+                id = 'document-digest';
+                label = 'Integridad del comprobante';
+                const transforms = Array.from(reference.getElementsByTagNameNS(DS_NS, 'Transform'))
+                    .map(t => t.getAttribute('Algorithm'));
+                if (!transforms.includes(ENVELOPED_SIGNATURE)) {
+                    return this.check(id, label, 'FAIL', 'La referencia al comprobante no usa la transformación enveloped-signature');
+                }
+                // Enveloped: el digest se calculó sobre el comprobante sin su <ds:Signature>
+                content = this.canonicalize(xml.slice(0, signatureStart) + xml.slice(signatureEnd));
+            } else {
+                const target = this.rawElementById(xml, targetId);
+                if (!target) {
+                    return this.check(id, label, 'FAIL', `No existe el elemento referenciado ${uri}`);
+                }
+                if (target.localName === 'SignedProperties') {
+                    id = 'signed-properties-digest';
+                    label = 'Propiedades firmadas (XAdES)';
+                } else if (target.localName === 'KeyInfo') {
+                    id = 'key-info-digest';
+                    label = 'Certificado incluido en la firma';
+                }
+                content = this.canonicalize(target.xml, target.namespaces);
+            }
+
+            const algorithmUri = this.firstNS(reference, 'DigestMethod')?.getAttribute('Algorithm') || '';
+            const algorithm = DIGEST_ALGORITHMS[algorithmUri];
+            if (!algorithm) {
+                return this.check(id, label, 'FAIL', `Algoritmo de digest no soportado: ${algorithmUri || '(vacío)'}`);
+            }
+            const expected = this.firstNS(reference, 'DigestValue')?.textContent?.replace(/\s/g, '') || '';
+            const actual = crypto.createHash(algorithm).update(content, 'utf8').digest('base64');
+
+            return actual === expected
+                ? this.check(id, label, 'OK', `Digest ${algorithm.toUpperCase()} coincide`)
+                : this.check(id, label, 'FAIL', isDocument
+                    ? 'El contenido del comprobante fue modificado después de firmarlo'
+                    : `El digest de ${uri} no coincide: el elemento fue modificado`);
+        } catch (error: any) {
+            return this.check(id, label, 'FAIL', `No se pudo canonicalizar el contenido: ${error.message}`);
+        }
+    }
+
+    private checkSignatureValue(
+        xml: string,
+        signature: Element,
+        signedInfo: Element,
+        certificate: crypto.X509Certificate
+    ): VerificationCheck {
+        const id = 'signature-value';
+        const label = 'Valor de la firma';
+
+        const c14nUri = this.firstNS(signedInfo, 'CanonicalizationMethod')?.getAttribute('Algorithm') || '';
+        if (!C14N_ALGORITHMS.includes(c14nUri)) {
+            return this.check(id, label, 'FAIL', `Canonicalización no soportada: ${c14nUri || '(vacía)'}`);
+        }
+        const methodUri = this.firstNS(signedInfo, 'SignatureMethod')?.getAttribute('Algorithm') || '';
+        const algorithm = SIGNATURE_ALGORITHMS[methodUri];
+        if (!algorithm) {
+            return this.check(id, label, 'FAIL', `Algoritmo de firma no soportado: ${methodUri || '(vacío)'}`);
+        }
+
+        const signedInfoId = signedInfo.getAttribute('Id');
+        const target = signedInfoId
+            ? this.rawElementById(xml, signedInfoId)
+            : this.rawElementByName(xml, signedInfo.prefix ? `${signedInfo.prefix}:SignedInfo` : 'SignedInfo');
+        const value = this.firstNS(signature, 'SignatureValue')?.textContent?.replace(/\s/g, '') || '';
+        if (!target || !value) {
+            return this.check(id, label, 'FAIL', !value ? 'La firma no tiene SignatureValue' : 'No se pudo ubicar el SignedInfo');
+        }
+
+        try {
+            const canonical = this.canonicalize(target.xml, target.namespaces);
+            const valid = crypto.verify(algorithm, Buffer.from(canonical, 'utf8'), certificate.publicKey, Buffer.from(value, 'base64'));
+            return valid
+                ? this.check(id, label, 'OK', `Firma RSA-${algorithm.toUpperCase()} válida con la clave del certificado`)
+                : this.check(id, label, 'FAIL', 'La firma no corresponde al SignedInfo o al certificado incluido');
+        } catch (error: any) {
+            return this.check(id, label, 'FAIL', `No se pudo verificar la firma: ${error.message}`);
+        }
+    }
+
+    private checkSigningCertificate(signature: Element, certificate: crypto.X509Certificate): VerificationCheck {
+        const id = 'signing-certificate';
+        const label = 'Certificado firmante (XAdES)';
+        const all = Array.from(signature.getElementsByTagName('*'));
+        const certDigest = all.find(el => el.localName === 'CertDigest');
+        const serial = all.find(el => el.localName === 'X509SerialNumber')?.textContent?.trim();
+
+        if (!certDigest) {
+            return this.check(id, label, 'FAIL', 'La firma no declara SigningCertificate: no es XAdES-BES');
+        }
+        const algorithm = DIGEST_ALGORITHMS[this.firstNS(certDigest, 'DigestMethod')?.getAttribute('Algorithm') || ''];
+        const expected = this.firstNS(certDigest, 'DigestValue')?.textContent?.replace(/\s/g, '') || '';
+        if (!algorithm || crypto.createHash(algorithm).update(certificate.raw).digest('base64') !== expected) {
+            return this.check(id, label, 'FAIL', 'El CertDigest no corresponde al certificado incluido en la firma');
+        }
+        if (serial && serial !== BigInt(`0x${certificate.serialNumber}`).toString()) {
+            return this.check(id, label, 'FAIL', 'El número de serie declarado no corresponde al certificado');
+        }
+        return this.check(id, label, 'OK', 'CertDigest y número de serie coinciden con el certificado');
+    }
+
+    private checkValidityAtSigning(
+        certificate: crypto.X509Certificate,
+        signingTime: Date | undefined,
+        signingTimeText: string | undefined
+    ): VerificationCheck {
+        const id = 'certificate-validity';
+        const label = 'Vigencia del certificado al firmar';
+        if (!signingTime || isNaN(signingTime.getTime())) {
+            return this.check(id, label, 'FAIL', 'La firma no tiene SigningTime válido');
+        }
+        const from = new Date(certificate.validFrom);
+        const to = new Date(certificate.validTo);
+        if (signingTime < from) {
+            return this.check(id, label, 'FAIL', `Firmado (${signingTimeText}) antes del inicio de vigencia (${from.toISOString()})`);
+        }
+        if (signingTime > to) {
+            return this.check(id, label, 'FAIL', `Firmado (${signingTimeText}) con el certificado ya vencido (${to.toISOString()})`);
+        }
+        return this.check(id, label, 'OK', `Vigente del ${from.toISOString().slice(0, 10)} al ${to.toISOString().slice(0, 10)}`);
+    }
+
+    private checkChain(certificate: crypto.X509Certificate, intermediates: crypto.X509Certificate[]): VerificationCheck {
+        const id = 'certificate-chain';
+        const label = 'Cadena de certificación';
+        const issuerName = this.commonName(certificate.issuer);
+
+        if (certificate.checkIssued(certificate) && certificate.verify(certificate.publicKey)) {
+            return this.check(id, label, 'FAIL', 'Certificado autofirmado: no fue emitido por una entidad de certificación');
+        }
+
+        const trusted = this.getTrustedCAs();
+        if (trusted.length === 0) {
+            return this.check(id, label, 'NOT_VERIFIED',
+                `Emitido por ${issuerName}. No hay CAs de confianza configuradas (SRI_TRUSTED_CA_PATH): la cadena no se pudo verificar`);
+        }
+
+        const issuedBy = (cert: crypto.X509Certificate, ca: crypto.X509Certificate) =>
+            cert.checkIssued(ca) && cert.verify(ca.publicKey);
+
+        let current = certificate;
+        for (let depth = 0; depth < MAX_CHAIN_DEPTH; depth++) {
+            const anchor = trusted.find(ca => issuedBy(current, ca));
+            if (anchor) {
+                return this.check(id, label, 'OK', `Emitido por ${issuerName}, entidad de confianza (${this.commonName(anchor.subject)})`);
+            }
+            const next = intermediates.find(ca => ca !== current && issuedBy(current, ca));
+            if (!next) break;
+            current = next;
+        }
+        return this.check(id, label, 'FAIL', `El emisor ${issuerName} no es una entidad de certificación de confianza`);
+    }
+
+    // ── Clave de acceso y RUC ───────────────────────────────────────────────
+
+    private checkAccessKey(root: Element): VerificationCheck {
+        const id = 'access-key';
+        const label = 'Clave de acceso';
+        const key = this.text(root, 'claveAcceso') || '';
+
+        if (!/^\d{49}$/.test(key)) {
+            return this.check(id, label, 'FAIL', 'La clave de acceso debe tener 49 dígitos');
+        }
+        const expectedDigit = this.accessKeys.calculateMod11(key.substring(0, 48));
+        if (expectedDigit !== parseInt(key.charAt(48), 10)) {
+            return this.check(id, label, 'FAIL', `Dígito verificador inválido (esperado ${expectedDigit}, tiene ${key.charAt(48)})`);
+        }
+
+        const fecha = (this.text(root, 'fechaEmision') || '').replace(/\//g, '');
+        const segments: [string, string, string | undefined][] = [
+            ['fechaEmision', key.substring(0, 8), fecha],
+            ['codDoc', key.substring(8, 10), this.text(root, 'codDoc')],
+            ['ruc', key.substring(10, 23), this.text(root, 'ruc')],
+            ['ambiente', key.substring(23, 24), this.text(root, 'ambiente')],
+            ['estab', key.substring(24, 27), this.text(root, 'estab')],
+            ['ptoEmi', key.substring(27, 30), this.text(root, 'ptoEmi')],
+            ['secuencial', key.substring(30, 39), this.text(root, 'secuencial')]
+        ];
+        const mismatch = segments.find(([, inKey, inXml]) => inKey !== inXml);
+        return mismatch
+            ? this.check(id, label, 'FAIL', `La clave de acceso no coincide con ${mismatch[0]} del comprobante (${mismatch[2] || 'vacío'})`)
+            : this.check(id, label, 'OK', 'Dígito verificador módulo 11 correcto y datos coinciden con el comprobante');
+    }
+
+    private checkRuc(ruc: string | undefined, expectedRuc?: string): VerificationCheck {
+        const id = 'ruc';
+        const label = 'RUC del emisor';
+        if (!ruc) {
+            return this.check(id, label, 'FAIL', 'El comprobante no tiene RUC emisor');
+        }
+        if (!expectedRuc) {
+            return this.check(id, label, 'WARN', `Emitido por ${ruc}; no hay RUC configurado para comparar`);
+        }
+        return ruc === expectedRuc
+            ? this.check(id, label, 'OK', `Coincide con el RUC configurado (${ruc})`)
+            : this.check(id, label, 'FAIL', `Emitido por ${ruc}, pero el RUC configurado es ${expectedRuc}`);
+    }
+
+    // ── Helpers ─────────────────────────────────────────────────────────────
+
+    private check(id: string, label: string, status: VerificationStatus, detail: string): VerificationCheck {
+        return { id, label, status, detail };
+    }
+
+    private getTrustedCAs(): crypto.X509Certificate[] {
+        if (this.trustedCAs) return this.trustedCAs;
+
+        this.trustedCAs = [];
+        const caPath = process.env.SRI_TRUSTED_CA_PATH;
+        if (!caPath) return this.trustedCAs;
+
+        try {
+            const pem = fs.readFileSync(caPath, 'utf8');
+            const blocks = pem.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) || [];
+            this.trustedCAs = blocks.map(block => new crypto.X509Certificate(block));
+            logger.info('[SignatureVerifier] Trusted CAs loaded', { count: this.trustedCAs.length });
+        } catch (error: any) {
+            logger.error('[SignatureVerifier] Could not load trusted CAs', { path: caPath, error: error.message });
+        }
+        return this.trustedCAs;
+    }
+
+    private parseCertificate(base64: string): crypto.X509Certificate | undefined {
+        try {
+            return new crypto.X509Certificate(Buffer.from(base64.replace(/\s/g, ''), 'base64'));
+        } catch {
+            return undefined;
+        }
+    }
+
+    private describeCertificate(certificate: crypto.X509Certificate): SignerCertificateInfo {
+        return {
+            subject: certificate.subject.split('\n').join(', '),
+            issuer: certificate.issuer.split('\n').join(', '),
+            serialNumber: certificate.serialNumber,
+            validFrom: new Date(certificate.validFrom).toISOString(),
+            validTo: new Date(certificate.validTo).toISOString()
+        };
+    }
+
+    private commonName(distinguishedName: string): string {
+        const cn = distinguishedName.split('\n').find(part => part.startsWith('CN='));
+        return cn ? cn.slice(3) : distinguishedName.split('\n').join(', ');
+    }
+
+    /**
+     * C14N de un fragmento del texto original. Los xmlns de los ancestros se
+     * declaran en un contenedor para resolver los prefijos y se pasan al
+     * canonicalizador, que en C14N inclusiva los escribe en el elemento.
+     */
+    private canonicalize(fragment: string, namespaces: InheritedNamespace[] = []): string {
+        const declarations = namespaces
+            .map(ns => ns.prefix ? ` xmlns:${ns.prefix}="${ns.uri}"` : ` xmlns="${ns.uri}"`)
+            .join('');
+        const body = fragment.replace(/^\s*<\?xml[^>]*\?>/, '');
+        const container = this.parseDocument(`<c14n-scope${declarations}>${body}</c14n-scope>`);
+        const element = Array.from(container.childNodes).find(node => node.nodeType === 1);
+        if (!element) {
+            throw new Error('Fragmento XML vacío');
+        }
+        return new C14nCanonicalization().process(element as unknown as Node, {
+            ancestorNamespaces: namespaces.map(ns => ({ prefix: ns.prefix || '', namespaceURI: ns.uri }))
+        });
+    }
+
+    /**
+     * Ubica en el texto original el elemento con el Id dado, junto con los
+     * xmlns declarados en sus ancestros (C14N inclusiva los hereda)
+     */
+    private rawElementById(xml: string, id: string): { xml: string; localName: string; namespaces: InheritedNamespace[] } | undefined {
+        const escaped = id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const start = xml.search(new RegExp(`<[\\w.:-]+\\s[^>]*\\bId="${escaped}"`));
+        return start >= 0 ? this.rawElementAt(xml, start) : undefined;
+    }
+
+    private rawElementByName(xml: string, qname: string): { xml: string; localName: string; namespaces: InheritedNamespace[] } | undefined {
+        const start = xml.search(new RegExp(`<${qname}[\\s>]`));
+        return start >= 0 ? this.rawElementAt(xml, start) : undefined;
+    }
+
+    private rawElementAt(xml: string, start: number): { xml: string; localName: string; namespaces: InheritedNamespace[] } | undefined {
+        const qname = /^<([\w.:-]+)/.exec(xml.slice(start))?.[1];
+        if (!qname) return undefined;
+        const close = xml.indexOf(`</${qname}>`, start);
+        if (close < 0) return undefined;
+
+        return {
+            xml: xml.slice(start, close + `</${qname}>`.length),
+            localName: qname.includes(':') ? qname.split(':')[1] : qname,
+            namespaces: this.namespacesInScope(xml, start)
+        };
+    }
+
+    private namespacesInScope(xml: string, position: number): InheritedNamespace[] {
+        const stack: InheritedNamespace[][] = [];
+        const tagRegex = /<(\/?)([\w.:-]+)([^>]*?)(\/?)>/g;
+        let match: RegExpExecArray | null;
+
+        while ((match = tagRegex.exec(xml)) && match.index < position) {
+            const [, closing, , attributes, selfClosing] = match;
+            if (closing) {
+                stack.pop();
+            } else if (!selfClosing) {
+                const declarations: InheritedNamespace[] = [];
+                const nsRegex = /xmlns(?::([\w.-]+))?="([^"]*)"/g;
+                let ns: RegExpExecArray | null;
+                while ((ns = nsRegex.exec(attributes))) {
+                    declarations.push({ prefix: ns[1], uri: ns[2] });
+                }
+                stack.push(declarations);
+            }
+        }
+
+        // El ancestro más cercano prevalece sobre uno externo con el mismo prefijo
+        const byPrefix = new Map<string, InheritedNamespace>();
+        for (const declarations of stack) {
+            for (const declaration of declarations) byPrefix.set(declaration.prefix || '', declaration);
+        }
+        return Array.from(byPrefix.values());
+    }
+
+    private parseDocument(xml: string): Element {
+        const errors: string[] = [];
+        const doc = new DOMParser({
+            errorHandler: {
+                warning: () => undefined,
+                error: (msg: string) => { errors.push(msg); },
+                fatalError: (msg: string) => { errors.push(msg); }
+            }
+        }).parseFromString(xml, 'text/xml');
+
+        if (errors.length > 0 || !doc?.documentElement) {
+            throw new ValidationError('El archivo no es un XML válido', { field: 'xml' });
+        }
+        return doc.documentElement;
+    }
+
+    private first(parent: Element, tagName: string): Element | undefined {
+        return Array.from(parent.getElementsByTagName('*')).find(el => el.localName === tagName);
+    }
+
+    private firstNS(parent: Element, localName: string): Element | undefined {
+        return parent.getElementsByTagNameNS(DS_NS, localName)[0];
+    }
+
+    private text(parent: Element, tagName: string): string | undefined {
+        return this.first(parent, tagName)?.textContent?.trim() || undefined;
+    }
+}
@@ -0,0 +1,182 @@
+import { DOMParser } from '@xmldom/xmldom';
+import { logger } from '../../utils/Logger';
+import { ValidationError } from '../../../domain/errors/CustomErrors';
+import {
+    ReceivedWithholdingDocument,
+    WithholdingLine,
+    WITHHOLDING_TAX_CODES
+} from '../../../domain/billing/withholding';
+
+/** codDocSustento de una factura */
+const INVOICE_DOC_CODE = '01';
+
+/**
+ * Lee comprobantes de retención (codDoc 07) que los clientes nos entregan.
+ *
+ * Acepta el XML tal como lo descarga el cliente:
+ * - el <comprobanteRetencion> suelto, o
+ * - la respuesta de autorización (<autorizacion> con el comprobante en CDATA),
+ *   de donde además se toman número y fecha de autorización.
+ *
+ * Soporta las dos versiones del esquema del SRI:
+ * - 1.0.0: <impuestos><impuesto> con numDocSustento en cada línea
+ * - 2.0.0: <docsSustento><docSustento><retenciones><retencion>
+ */
+export class WithholdingXMLParser {
+    public parse(xmlContent: string): ReceivedWithholdingDocument {
+        const root = this.parseDocument(xmlContent);
+
+        let voucher = this.first(root, 'comprobanteRetencion');
+        let authorizationNumber: string | undefined;
+        let authorizationDate: string | undefined;
+
+        const authorization = this.first(root, 'autorizacion');
+        if (!voucher && authorization) {
+            const status = this.text(authorization, 'estado');
+            if (status && status !== 'AUTORIZADO') {
+                throw new ValidationError(`La retención no está autorizada por el SRI (estado: ${status})`, { field: 'xml' });
+            }
+            authorizationNumber = this.text(authorization, 'numeroAutorizacion');
+            authorizationDate = this.text(authorization, 'fechaAutorizacion');
+            // El comprobante viaja como texto (CDATA o escapado) dentro de <comprobante>
+            const inner = this.text(authorization, 'comprobante');
+            if (inner) {
+                voucher = this.first(this.parseDocument(inner), 'comprobanteRetencion');
+            }
+        }
+
+        if (!voucher) {
+            throw new ValidationError('El XML no contiene un comprobante de retención', { field: 'xml' });
+        }
+
+        const codDoc = this.text(voucher, 'codDoc');
+        if (codDoc && codDoc !== '07') {
+            throw new ValidationError(`El comprobante no es una retención (codDoc ${codDoc})`, { field: 'xml' });
+        }
+
+        const estab = this.text(voucher, 'estab');
+        const ptoEmi = this.text(voucher, 'ptoEmi');
+        const secuencial = this.text(voucher, 'secuencial');
+        const accessKey = this.text(voucher, 'claveAcceso');
+
+        const { supportDocumentNumber, lines } = voucher.getAttribute('version')?.startsWith('2')
+            ? this.readV2(voucher)
+            : this.readV1(voucher);
+
+        const document: ReceivedWithholdingDocument = {
+            documentNumber: `${estab}-${ptoEmi}-${secuencial}`,
+            accessKey,
+            authorizationNumber: authorizationNumber || accessKey,
+            authorizationDate,
+            issueDate: this.text(voucher, 'fechaEmision') || '',
+            fiscalPeriod: this.text(voucher, 'periodoFiscal') || '',
+            agentIdentification: this.text(voucher, 'ruc') || '',
+            agentName: this.text(voucher, 'razonSocial') || '',
+            subjectIdentification: this.text(voucher, 'identificacionSujetoRetenido') || '',
+            supportDocumentNumber,
+            lines
+        };
+
+        if (!estab || !ptoEmi || !secuencial || !document.agentIdentification || !document.issueDate) {
+            throw new ValidationError('El comprobante de retención está incompleto (emisor, número o fecha)', { field: 'xml' });
+        }
+
+        logger.debug('[WithholdingXML] Parsed withholding', {
+            documentNumber: document.documentNumber,
+            agent: document.agentIdentification,
+            supportDocumentNumber,
+            lines: lines.length
+        });
+
+        return document;
+    }
+
+    /** Versión 1.0.0: cada <impuesto> trae su documento sustento */
+    private readV1(voucher: Element): { supportDocumentNumber: string; lines: WithholdingLine[] } {
+        const supportNumbers = new Set<string>();
+        const lines = this.all(voucher, 'impuesto').map(node => {
+            this.assertInvoiceSupport(this.text(node, 'codDocSustento'));
+            supportNumbers.add(this.text(node, 'numDocSustento') || '');
+            return this.readLine(node);
+        });
+        return { supportDocumentNumber: this.singleSupport(supportNumbers), lines };
+    }
+
+    /** Versión 2.0.0: las retenciones se agrupan por <docSustento> */
+    private readV2(voucher: Element): { supportDocumentNumber: string; lines: WithholdingLine[] } {
+        const supportNumbers = new Set<string>();
+        const lines: WithholdingLine[] = [];
+        for (const support of this.all(voucher, 'docSustento')) {
+            this.assertInvoiceSupport(this.text(support, 'codDocSustento'));
+            supportNumbers.add(this.text(support, 'numDocSustento') || '');
+            lines.push(...this.all(support, 'retencion').map(node => this.readLine(node)));
+        }
+        return { supportDocumentNumber: this.singleSupport(supportNumbers), lines };
+    }
+
+    private readLine(node: Element): WithholdingLine {
+        const code = this.text(node, 'codigo') || '';
+        const taxType = WITHHOLDING_TAX_CODES[code];
+        if (!taxType) {
+            // 6 = ISD: no aplica a ventas del restaurante
+            throw new ValidationError(`Impuesto retenido no soportado (código ${code}); solo IVA o renta`, { field: 'xml' });
+        }
+        return {
+            taxType,
+            code: this.text(node, 'codigoRetencion') || '',
+            baseAmount: Number(this.text(node, 'baseImponible')),
+            percentage: Number(this.text(node, 'porcentajeRetener')),
+            amount: Number(this.text(node, 'valorRetenido'))
+        };
+    }
+
+    private assertInvoiceSupport(codDocSustento?: string): void {
+        if (codDocSustento && codDocSustento !== INVOICE_DOC_CODE) {
+            throw new ValidationError(`La retención se aplica a un documento que no es factura (codDocSustento ${codDocSustento})`, { field: 'xml' });
+        }
+    }
+
+    /** Una retención se enlaza a UNA factura; numDocSustento viene sin guiones (001001000000120) */
+    private singleSupport(numbers: Set<string>): string {
+        if (numbers.size === 0) {
+            throw new ValidationError('El comprobante de retención no tiene impuestos retenidos', { field: 'xml' });
+        }
+        if (numbers.size > 1) {
+            throw new ValidationError('La retención cubre varias facturas; regístrela manualmente por cada factura', { field: 'xml' });
+        }
+        const raw = [...numbers][0].replace(/\D/g, '');
+        if (raw.length !== 15) {
+            throw new ValidationError('Número de documento sustento inválido en la retención', { field: 'xml' });
+        }
+        return `${raw.substring(0, 3)}-${raw.substring(3, 6)}-${raw.substring(6)}`;
+    }
+
+    private parseDocument(xmlContent: string): Document {
+        const errors: string[] = [];
+        const doc = new DOMParser({
+            errorHandler: {
+                warning: () => undefined,
+                error: (msg: string) => { errors.push(msg); },
+                fatalError: (msg: string) => { errors.push(msg); }
+            }
+        }).parseFromString(xmlContent.trim(), 'text/xml');
+
+        if (errors.length > 0 || !doc?.documentElement) {
+            throw new ValidationError('El archivo no es un XML válido', { field: 'xml', errors });
+        }
+        return doc;
+    }
+
+    private all(parent: Document | Element, tag: string): Element[] {
+        return Array.from(parent.getElementsByTagName(tag));
+    }
+
+    private first(parent: Document | Element, tag: string): Element | undefined {
+        return parent.getElementsByTagName(tag)[0] || undefined;
+    }
+
+    private text(parent: Document | Element, tag: string): string | undefined {
+        const value = this.first(parent, tag)?.textContent?.trim();
+        return value || undefined;
+    }
+}
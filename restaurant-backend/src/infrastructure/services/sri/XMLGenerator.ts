@@ -1,5 +1,8 @@
-import { Invoice, InvoiceDetail } from '../../../domain/billing/invoice';
+import { Invoice, InvoiceDetail, InvoicePayment } from '../../../domain/billing/invoice';
+import { getInvoicePayments } from '../../../domain/billing/payments';
 import { CreditNote, CreditNoteDetail } from '../../../domain/billing/creditNote';
+import { DebitNote, DebitNoteMotive, DebitNoteTax } from '../../../domain/billing/debitNote';
+import { PurchaseSettlement, PurchaseSettlementDetail } from '../../../domain/billing/purchaseSettlement';
 import { logger } from '../../utils/Logger';
 import { AccessKeyGenerator } from './AccessKeyGenerator';
 import { TaxGroup } from './types';
@@ -7,7 +10,7 @@ import { TaxGroup } from './types';
 const DEBUG_XML = process.env.NODE_ENV === 'development';
 
 /**
- * Responsible for generating XML documents for invoices and credit notes
+ * Responsible for generating XML documents for invoices, credit and debit notes, and purchase settlements
  * Handles XML escaping, tax grouping, and structure compliance
  */
 export class XMLGenerator {
@@ -60,13 +63,12 @@ export class XMLGenerator {
         <ptoEmi>${invoice.info.ptoEmi}</ptoEmi>
         <secuencial>${invoice.info.secuencial}</secuencial>
         <dirMatriz>${this.escapeXML(invoice.info.dirMatriz)}</dirMatriz>
-        ${(invoice.info.regime && invoice.info.regime.includes('RIMPE')) ? `<regimenRimpe>CONTRIBUYENTE RÉGIMEN RIMPE</regimenRimpe>` : ''}
-        ${invoice.info.agenteRetencion ? `<agenteRetencion>${invoice.info.agenteRetencion}</agenteRetencion>` : ''}
-        ${invoice.info.contribuyenteEspecial ? `<contribuyenteEspecial>${invoice.info.contribuyenteEspecial}</contribuyenteEspecial>` : ''}
+        ${this.infoTributariaTailXML(invoice.info)}
     </infoTributaria>
     <infoFactura>
         <fechaEmision>${invoice.info.fechaEmision}</fechaEmision>
         <dirEstablecimiento>${this.escapeXML(invoice.info.dirEstablecimiento || invoice.info.dirMatriz)}</dirEstablecimiento>
+        ${invoice.info.contribuyenteEspecial ? `<contribuyenteEspecial>${invoice.info.contribuyenteEspecial}</contribuyenteEspecial>` : ''}
         <obligadoContabilidad>${invoice.info.obligadoContabilidad}</obligadoContabilidad>
         <tipoIdentificacionComprador>${invoice.info.tipoIdentificacionComprador}</tipoIdentificacionComprador>
         <razonSocialComprador>${this.escapeXML(invoice.info.razonSocialComprador)}</razonSocialComprador>
@@ -82,16 +84,17 @@ export class XMLGenerator {
                 <valor>${tax.valor.toFixed(2)}</valor>
             </totalImpuesto>`).join('')}
         </totalConImpuestos>
-        <propina>0.00</propina>
+        <propina>${(invoice.info.propina || 0).toFixed(2)}</propina>
         <importeTotal>${invoice.info.importeTotal.toFixed(2)}</importeTotal>
         <moneda>${invoice.info.moneda}</moneda>
         <pagos>
+            ${getInvoicePayments(invoice.info).map((pago: InvoicePayment) => `
             <pago>
-                <formaPago>${invoice.info.formaPago || '01'}</formaPago>
-                <total>${invoice.info.importeTotal.toFixed(2)}</total>
-                <plazo>0</plazo>
-                <unidadTiempo>dias</unidadTiempo>
-            </pago>
+                <formaPago>${pago.formaPago}</formaPago>
+                <total>${pago.total.toFixed(2)}</total>
+                <plazo>${pago.plazo}</plazo>
+                <unidadTiempo>${pago.unidadTiempo}</unidadTiempo>
+            </pago>`).join('')}
         </pagos>
     </infoFactura>
     <detalles>
@@ -103,7 +106,7 @@ export class XMLGenerator {
             <descripcion>${this.escapeXML(d.descripcion)}</descripcion>
             <cantidad>${d.cantidad}</cantidad>
             <precioUnitario>${d.precioUnitario}</precioUnitario>
-            <descuento>0.00</descuento>
+            <descuento>${(d.descuento || 0).toFixed(2)}</descuento>
             <precioTotalSinImpuesto>${d.precioTotalSinImpuesto.toFixed(2)}</precioTotalSinImpuesto>
             <impuestos>
                 <impuesto>
@@ -117,14 +120,15 @@ export class XMLGenerator {
         </detalle>`;
         }).join('')}
     </detalles>
-    <infoAdicional>
-        ${invoice.info.direccionComprador ? `<campoAdicional nombre="Dirección">${this.escapeXML(invoice.info.direccionComprador)}</campoAdicional>` : ''}
-        ${invoice.info.telefonoComprador ? `<campoAdicional nombre="Teléfono">${this.escapeXML(invoice.info.telefonoComprador)}</campoAdicional>` : ''}
-        ${invoice.info.emailComprador ? `<campoAdicional nombre="Email">${this.escapeXML(invoice.info.emailComprador)}</campoAdicional>` : ''}
-        ${invoice.info.contribuyenteEspecial ? `<campoAdicional nombre="Contribuyente Especial">${invoice.info.contribuyenteEspecial}</campoAdicional>` : ''}
-        ${(invoice.info.regime && invoice.info.regime.includes('RIMPE')) ? `<campoAdicional nombre="Régimen">Contribuyente Régimen RIMPE</campoAdicional>` : ''}
-        ${invoice.info.agenteRetencion ? `<campoAdicional nombre="Agente de Retención">Resolución No. ${invoice.info.agenteRetencion}</campoAdicional>` : ''}
-    </infoAdicional>
+    ${this.infoAdicionalXML([
+        invoice.info.direccionComprador ? `<campoAdicional nombre="Dirección">${this.escapeXML(invoice.info.direccionComprador)}</campoAdicional>` : '',
+        invoice.info.telefonoComprador ? `<campoAdicional nombre="Teléfono">${this.escapeXML(invoice.info.telefonoComprador)}</campoAdicional>` : '',
+        invoice.info.emailComprador ? `<campoAdicional nombre="Email">${this.escapeXML(invoice.info.emailComprador)}</campoAdicional>` : '',
+        invoice.info.pedidos ? `<campoAdicional nombre="Pedidos">${this.escapeXML(invoice.info.pedidos)}</campoAdicional>` : '',
+        invoice.info.contribuyenteEspecial ? `<campoAdicional nombre="Contribuyente Especial">${invoice.info.contribuyenteEspecial}</campoAdicional>` : '',
+        (invoice.info.regime && invoice.info.regime.includes('RIMPE')) ? `<campoAdicional nombre="Régimen">Contribuyente Régimen RIMPE</campoAdicional>` : '',
+        invoice.info.agenteRetencion ? `<campoAdicional nombre="Agente de Retención">Resolución No. ${invoice.info.agenteRetencion}</campoAdicional>` : ''
+    ])}
 </factura>`;
 
         return xml.trim();
@@ -180,9 +184,7 @@ export class XMLGenerator {
         <ptoEmi>${creditNote.info.ptoEmi}</ptoEmi>
         <secuencial>${creditNote.info.secuencial}</secuencial>
         <dirMatriz>${this.escapeXML(creditNote.info.dirMatriz)}</dirMatriz>
-        ${(creditNote.info.regime && creditNote.info.regime.includes('RIMPE')) ? `<regimenRimpe>CONTRIBUYENTE RÉGIMEN RIMPE</regimenRimpe>` : ''}
-        ${creditNote.info.agenteRetencion ? `<agenteRetencion>${creditNote.info.agenteRetencion}</agenteRetencion>` : ''}
-        ${creditNote.info.contribuyenteEspecial ? `<contribuyenteEspecial>${creditNote.info.contribuyenteEspecial}</contribuyenteEspecial>` : ''}
+        ${this.infoTributariaTailXML(creditNote.info)}
     </infoTributaria>
     <infoNotaCredito>
         <fechaEmision>${creditNote.info.fechaEmision}</fechaEmision>
@@ -190,6 +192,7 @@ export class XMLGenerator {
         <tipoIdentificacionComprador>${creditNote.info.tipoIdentificacionComprador}</tipoIdentificacionComprador>
         <razonSocialComprador>${this.escapeXML(creditNote.info.razonSocialComprador)}</razonSocialComprador>
         <identificacionComprador>${creditNote.info.identificacionComprador}</identificacionComprador>
+        ${creditNote.info.contribuyenteEspecial ? `<contribuyenteEspecial>${creditNote.info.contribuyenteEspecial}</contribuyenteEspecial>` : ''}
         <obligadoContabilidad>${creditNote.info.obligadoContabilidad}</obligadoContabilidad>
         <codDocModificado>${creditNote.info.codDocModificado}</codDocModificado>
         <numDocModificado>${creditNote.info.numDocModificado}</numDocModificado>
@@ -217,7 +220,7 @@ export class XMLGenerator {
             <descripcion>${this.escapeXML(d.descripcion)}</descripcion>
             <cantidad>${d.cantidad}</cantidad>
             <precioUnitario>${d.precioUnitario}</precioUnitario>
-            <descuento>0.00</descuento>
+            <descuento>${(d.descuento || 0).toFixed(2)}</descuento>
             <precioTotalSinImpuesto>${d.precioTotalSinImpuesto.toFixed(2)}</precioTotalSinImpuesto>
             <impuestos>
                 <impuesto>
@@ -231,12 +234,12 @@ export class XMLGenerator {
         </detalle>`;
         }).join('')}
     </detalles>
-    <infoAdicional>
-        ${creditNote.info.emailComprador ? `<campoAdicional nombre="Email">${this.escapeXML(creditNote.info.emailComprador)}</campoAdicional>` : ''}
-        ${creditNote.info.contribuyenteEspecial ? `<campoAdicional nombre="Contribuyente Especial">${creditNote.info.contribuyenteEspecial}</campoAdicional>` : ''}
-        ${(creditNote.info.regime && creditNote.info.regime.includes('RIMPE')) ? `<campoAdicional nombre="Régimen">Contribuyente Régimen RIMPE</campoAdicional>` : ''}
-        ${creditNote.info.agenteRetencion ? `<campoAdicional nombre="Agente de Retención">Resolución No. ${creditNote.info.agenteRetencion}</campoAdicional>` : ''}
-    </infoAdicional>
+    ${this.infoAdicionalXML([
+        creditNote.info.emailComprador ? `<campoAdicional nombre="Email">${this.escapeXML(creditNote.info.emailComprador)}</campoAdicional>` : '',
+        creditNote.info.contribuyenteEspecial ? `<campoAdicional nombre="Contribuyente Especial">${creditNote.info.contribuyenteEspecial}</campoAdicional>` : '',
+        (creditNote.info.regime && creditNote.info.regime.includes('RIMPE')) ? `<campoAdicional nombre="Régimen">Contribuyente Régimen RIMPE</campoAdicional>` : '',
+        creditNote.info.agenteRetencion ? `<campoAdicional nombre="Agente de Retención">Resolución No. ${creditNote.info.agenteRetencion}</campoAdicional>` : ''
+    ])}
 </notaCredito>`;
 
         if (DEBUG_XML) logger.debug('[XMLGen] Generated credit note XML', { xmlLength: xml.length });
@@ -244,6 +247,263 @@ export class XMLGenerator {
         return xml.trim();
     }
 
+    /**
+     * Generates debit note (nota de débito, codDoc 05) XML in SRI format
+     * @param debitNote Debit note model
+     * @param existingAccessKey Optional - use existing key for retries
+     * @returns XML string
+     */
+    public generateDebitNoteXML(debitNote: DebitNote, existingAccessKey?: string): string {
+        logger.info('[XMLGen] Generating debit note XML', { secuencial: debitNote.info.secuencial });
+
+        let claveAcceso = existingAccessKey;
+
+        if (!claveAcceso) {
+            claveAcceso = this.accessKeyGenerator.generateAccessKey({
+                fechaEmision: debitNote.info.fechaEmision,
+                codDoc: this.accessKeyGenerator.getDocTypeCode('debitNote'),
+                ruc: debitNote.info.ruc,
+                ambiente: debitNote.info.ambiente,
+                estab: debitNote.info.estab,
+                ptoEmi: debitNote.info.ptoEmi,
+                secuencial: debitNote.info.secuencial,
+                codigoNumerico: this.accessKeyGenerator.generateRandomCode()
+            });
+        } else {
+            logger.debug('[XMLGen] Using existing access key for debit note');
+        }
+
+        debitNote.info.claveAcceso = claveAcceso;
+
+        const xml = `
+<?xml version="1.0" encoding="UTF-8"?>
+<notaDebito id="comprobante" version="1.0.0">
+    <infoTributaria>
+        <ambiente>${debitNote.info.ambiente}</ambiente>
+        <tipoEmision>1</tipoEmision>
+        <razonSocial>${this.escapeXML(debitNote.info.razonSocial)}</razonSocial>
+        ${debitNote.info.nombreComercial ? `<nombreComercial>${this.escapeXML(debitNote.info.nombreComercial)}</nombreComercial>` : ''}
+        <ruc>${debitNote.info.ruc}</ruc>
+        <claveAcceso>${claveAcceso}</claveAcceso>
+        <codDoc>05</codDoc>
+        <estab>${debitNote.info.estab}</estab>
+        <ptoEmi>${debitNote.info.ptoEmi}</ptoEmi>
+        <secuencial>${debitNote.info.secuencial}</secuencial>
+        <dirMatriz>${this.escapeXML(debitNote.info.dirMatriz)}</dirMatriz>
+        ${this.infoTributariaTailXML(debitNote.info)}
+    </infoTributaria>
+    <infoNotaDebito>
+        <fechaEmision>${debitNote.info.fechaEmision}</fechaEmision>
+        <dirEstablecimiento>${this.escapeXML(debitNote.info.dirEstablecimiento || debitNote.info.dirMatriz)}</dirEstablecimiento>
+        <tipoIdentificacionComprador>${debitNote.info.tipoIdentificacionComprador}</tipoIdentificacionComprador>
+        <razonSocialComprador>${this.escapeXML(debitNote.info.razonSocialComprador)}</razonSocialComprador>
+        <identificacionComprador>${debitNote.info.identificacionComprador}</identificacionComprador>
+        ${debitNote.info.contribuyenteEspecial ? `<contribuyenteEspecial>${debitNote.info.contribuyenteEspecial}</contribuyenteEspecial>` : ''}
+        <obligadoContabilidad>${debitNote.info.obligadoContabilidad}</obligadoContabilidad>
+        <codDocModificado>${debitNote.info.codDocModificado}</codDocModificado>
+        <numDocModificado>${debitNote.info.numDocModificado}</numDocModificado>
+        <fechaEmisionDocSustento>${debitNote.info.fechaEmisionDocSustento}</fechaEmisionDocSustento>
+        <totalSinImpuestos>${debitNote.info.totalSinImpuestos.toFixed(2)}</totalSinImpuestos>
+        <impuestos>
+            ${debitNote.info.impuestos.map((tax: DebitNoteTax) => `
+            <impuesto>
+                <codigo>${tax.codigo}</codigo>
+                <codigoPorcentaje>${tax.codigoPorcentaje}</codigoPorcentaje>
+                <tarifa>${tax.tarifa}</tarifa>
+                <baseImponible>${tax.baseImponible.toFixed(2)}</baseImponible>
+                <valor>${tax.valor.toFixed(2)}</valor>
+            </impuesto>`).join('')}
+        </impuestos>
+        <valorTotal>${debitNote.info.valorTotal.toFixed(2)}</valorTotal>
+        <pagos>
+            ${debitNote.info.pagos.map((pago: InvoicePayment) => `
+            <pago>
+                <formaPago>${pago.formaPago}</formaPago>
+                <total>${pago.total.toFixed(2)}</total>
+                <plazo>${pago.plazo}</plazo>
+                <unidadTiempo>${pago.unidadTiempo}</unidadTiempo>
+            </pago>`).join('')}
+        </pagos>
+    </infoNotaDebito>
+    <motivos>
+        ${debitNote.motivos.map((m: DebitNoteMotive) => `
+        <motivo>
+            <razon>${this.escapeXML(m.razon)}</razon>
+            <valor>${m.valor.toFixed(2)}</valor>
+        </motivo>`).join('')}
+    </motivos>
+    ${this.infoAdicionalXML([
+        `<campoAdicional nombre="Factura">${debitNote.info.numDocModificado}</campoAdicional>`,
+        debitNote.info.direccionComprador ? `<campoAdicional nombre="Dirección">${this.escapeXML(debitNote.info.direccionComprador)}</campoAdicional>` : '',
+        debitNote.info.emailComprador ? `<campoAdicional nombre="Email">${this.escapeXML(debitNote.info.emailComprador)}</campoAdicional>` : '',
+        (debitNote.info.regime && debitNote.info.regime.includes('RIMPE')) ? `<campoAdicional nombre="Régimen">Contribuyente Régimen RIMPE</campoAdicional>` : ''
+    ])}
+</notaDebito>`;
+
+        if (DEBUG_XML) logger.debug('[XMLGen] Generated debit note XML', { xmlLength: xml.length });
+
+        return xml.trim();
+    }
+
+    /**
+     * Generates purchase settlement (liquidación de compra, codDoc 03) XML in SRI format
+     * @param settlement Purchase settlement model
+     * @param existingAccessKey Optional - use existing key for retries
+     * @returns XML string
+     */
+    public generatePurchaseSettlementXML(settlement: PurchaseSettlement, existingAccessKey?: string): string {
+        logger.info('[XMLGen] Generating purchase settlement XML', { secuencial: settlement.info.secuencial });
+
+        let claveAcceso = existingAccessKey;
+
+        if (!claveAcceso) {
+            claveAcceso = this.accessKeyGenerator.generateAccessKey({
+                fechaEmision: settlement.info.fechaEmision,
+                codDoc: this.accessKeyGenerator.getDocTypeCode('purchaseSettlement'),
+                ruc: settlement.info.ruc,
+                ambiente: settlement.info.ambiente,
+                estab: settlement.info.estab,
+                ptoEmi: settlement.info.ptoEmi,
+                secuencial: settlement.info.secuencial,
+                codigoNumerico: this.accessKeyGenerator.generateRandomCode()
+            });
+        } else {
+            logger.debug('[XMLGen] Using existing access key for purchase settlement');
+        }
+
+        settlement.info.claveAcceso = claveAcceso;
+
+        const xml = `
+<?xml version="1.0" encoding="UTF-8"?>
+<liquidacionCompra id="comprobante" version="1.1.0">
+    <infoTributaria>
+        <ambiente>${settlement.info.ambiente}</ambiente>
+        <tipoEmision>1</tipoEmision>
+        <razonSocial>${this.escapeXML(settlement.info.razonSocial)}</razonSocial>
+        ${settlement.info.nombreComercial ? `<nombreComercial>${this.escapeXML(settlement.info.nombreComercial)}</nombreComercial>` : ''}
+        <ruc>${settlement.info.ruc}</ruc>
+        <claveAcceso>${claveAcceso}</claveAcceso>
+        <codDoc>03</codDoc>
+        <estab>${settlement.info.estab}</estab>
+        <ptoEmi>${settlement.info.ptoEmi}</ptoEmi>
+        <secuencial>${settlement.info.secuencial}</secuencial>
+        <dirMatriz>${this.escapeXML(settlement.info.dirMatriz)}</dirMatriz>
+        ${this.infoTributariaTailXML(settlement.info)}
+    </infoTributaria>
+    <infoLiquidacionCompra>
+        <fechaEmision>${settlement.info.fechaEmision}</fechaEmision>
+        <dirEstablecimiento>${this.escapeXML(settlement.info.dirEstablecimiento || settlement.info.dirMatriz)}</dirEstablecimiento>
+        ${settlement.info.contribuyenteEspecial ? `<contribuyenteEspecial>${settlement.info.contribuyenteEspecial}</contribuyenteEspecial>` : ''}
+        <obligadoContabilidad>${settlement.info.obligadoContabilidad}</obligadoContabilidad>
+        <tipoIdentificacionProveedor>${settlement.info.tipoIdentificacionProveedor}</tipoIdentificacionProveedor>
+        <razonSocialProveedor>${this.escapeXML(settlement.info.razonSocialProveedor)}</razonSocialProveedor>
+        <identificacionProveedor>${settlement.info.identificacionProveedor}</identificacionProveedor>
+        <direccionProveedor>${this.escapeXML(settlement.info.direccionProveedor)}</direccionProveedor>
+        <totalSinImpuestos>${settlement.info.totalSinImpuestos.toFixed(2)}</totalSinImpuestos>
+        <totalDescuento>${settlement.info.totalDescuento.toFixed(2)}</totalDescuento>
+        <totalConImpuestos>
+            ${this.groupTaxes(settlement.detalles).map((tax: TaxGroup) => `
+            <totalImpuesto>
+                <codigo>${tax.codigo}</codigo>
+                <codigoPorcentaje>${tax.codigoPorcentaje}</codigoPorcentaje>
+                <baseImponible>${tax.baseImponible.toFixed(2)}</baseImponible>
+                <tarifa>${this.taxRateFor(settlement.detalles, tax)}</tarifa>
+                <valor>${tax.valor.toFixed(2)}</valor>
+            </totalImpuesto>`).join('')}
+        </totalConImpuestos>
+        <importeTotal>${settlement.info.importeTotal.toFixed(2)}</importeTotal>
+        <moneda>${settlement.info.moneda}</moneda>
+        <pagos>
+            ${settlement.info.pagos.map((pago: InvoicePayment) => `
+            <pago>
+                <formaPago>${pago.formaPago}</formaPago>
+                <total>${pago.total.toFixed(2)}</total>
+                <plazo>${pago.plazo}</plazo>
+                <unidadTiempo>${pago.unidadTiempo}</unidadTiempo>
+            </pago>`).join('')}
+        </pagos>
+    </infoLiquidacionCompra>
+    <detalles>
+        ${settlement.detalles.map((d: PurchaseSettlementDetail) => {
+            const imp = d.impuestos[0];
+            return `
+        <detalle>
+            <codigoPrincipal>${this.escapeXML(d.codigoPrincipal)}</codigoPrincipal>
+            <descripcion>${this.escapeXML(d.descripcion)}</descripcion>
+            <cantidad>${d.cantidad}</cantidad>
+            <precioUnitario>${d.precioUnitario}</precioUnitario>
+            <descuento>${(d.descuento || 0).toFixed(2)}</descuento>
+            <precioTotalSinImpuesto>${d.precioTotalSinImpuesto.toFixed(2)}</precioTotalSinImpuesto>
+            <impuestos>
+                <impuesto>
+                    <codigo>${imp.codigo}</codigo>
+                    <codigoPorcentaje>${imp.codigoPorcentaje}</codigoPorcentaje>
+                    <tarifa>${imp.tarifa}</tarifa>
+                    <baseImponible>${imp.baseImponible.toFixed(2)}</baseImponible>
+                    <valor>${imp.valor.toFixed(2)}</valor>
+                </impuesto>
+            </impuestos>
+        </detalle>`;
+        }).join('')}
+    </detalles>
+    ${this.infoAdicionalXML([
+        settlement.info.telefonoProveedor ? `<campoAdicional nombre="Teléfono">${this.escapeXML(settlement.info.telefonoProveedor)}</campoAdicional>` : '',
+        settlement.info.emailProveedor ? `<campoAdicional nombre="Email">${this.escapeXML(settlement.info.emailProveedor)}</campoAdicional>` : '',
+        settlement.info.observacion ? `<campoAdicional nombre="Observación">${this.escapeXML(settlement.info.observacion)}</campoAdicional>` : '',
+        (settlement.info.regime && settlement.info.regime.includes('RIMPE')) ? `<campoAdicional nombre="Régimen">Contribuyente Régimen RIMPE</campoAdicional>` : ''
+    ])}
+</liquidacionCompra>`;
+
+        if (DEBUG_XML) logger.debug('[XMLGen] Generated purchase settlement XML', { xmlLength: xml.length });
+
+        return xml.trim();
+    }
+
+    /**
+     * <totalImpuesto> de la liquidación de compra lleva la tarifa (facturas y NC no)
+     */
+    private taxRateFor(detalles: PurchaseSettlementDetail[], tax: TaxGroup): number {
+        const match = detalles
+            .flatMap(d => d.impuestos)
+            .find(imp => imp.codigo === tax.codigo && imp.codigoPorcentaje === tax.codigoPorcentaje);
+        return match?.tarifa ?? 0;
+    }
+
+    /**
+     * Cierre de <infoTributaria> en el orden del XSD: agenteRetencion y contribuyenteRimpe
+     */
+    private infoTributariaTailXML(info: { regime?: string; agenteRetencion?: string }): string {
+        const tags: string[] = [];
+        if (info.agenteRetencion) {
+            tags.push(`<agenteRetencion>${this.agenteRetencionNumber(info.agenteRetencion)}</agenteRetencion>`);
+        }
+        // El XSD solo admite este valor, también para negocios populares
+        if (info.regime && info.regime.includes('RIMPE')) {
+            tags.push('<contribuyenteRimpe>CONTRIBUYENTE RÉGIMEN RIMPE</contribuyenteRimpe>');
+        }
+        return tags.join('\n        ');
+    }
+
+    /**
+     * El XSD pide solo el número de la resolución (1 a 8 dígitos):
+     * 'NAC-DNCRASC20-00000001' → '1'. Si no hay número se deja tal cual y la validación lo reporta.
+     */
+    private agenteRetencionNumber(resolucion: string): string {
+        const match = resolucion.trim().match(/(\d+)$/);
+        return match ? String(parseInt(match[1], 10)) : resolucion;
+    }
+
+    /**
+     * <infoAdicional> solo si hay campos: el XSD exige al menos un <campoAdicional>
+     */
+    private infoAdicionalXML(campos: string[]): string {
+        const presentes = campos.filter(Boolean);
+        if (presentes.length === 0) return '';
+        return `<infoAdicional>
+        ${presentes.join('\n        ')}
+    </infoAdicional>`;
+    }
+
     /**
      * Escapes and sanitizes text for SRI-compatible XML
      * - Converts accents to ASCII
@@ -0,0 +1,132 @@
+import { DOMParser } from '@xmldom/xmldom';
+import { validateXML, XMLValidationError } from 'xmllint-wasm';
+import { SRIError } from '../../../domain/errors/CustomErrors';
+import { SRI_XSD_FILES, SRISchemaName, XMLDSIG_XSD_FILE, loadSchemaFile } from './xsd';
+import { XSDViolation } from './types';
+
+/** Código del SRIError que lanza SRIService.signXML cuando el comprobante no cumple su XSD */
+export const XSD_INVALID_CODE = 'SRI_XSD_INVALID';
+
+/** Nombre del comprobante dentro del sistema de archivos de xmllint (aparece en sus mensajes) */
+const DOCUMENT_FILE = 'comprobante.xml';
+
+// "Element 'formaPago': [facet 'pattern'] ..." / "Element 'factura', attribute 'version': ..."
+const LIBXML_ERROR = /^(?:.*?Schemas validity error : )?Element '(?:\w+:)?([\w.-]+)'(?:, attribute '([\w:.-]+)')?: (.*)$/s;
+const MISSING_CHILD = /Missing child element\(s\)\. Expected is (?:one of )?\( (?:\w+:)?([\w.-]+)/;
+
+const elementChildren = (node: Node): Element[] =>
+    Array.from(node.childNodes).filter((c): c is Element => c.nodeType === 1);
+
+/** Ruta del elemento: el índice [n] solo cuando tiene hermanos con el mismo nombre */
+function elementPath(element: Element): string {
+    const steps: string[] = [];
+    for (let node: Element | null = element; node && node.nodeType === 1; node = node.parentNode as Element | null) {
+        const siblings = node.parentNode && node.parentNode.nodeType === 1
+            ? elementChildren(node.parentNode).filter(c => c.localName === node!.localName)
+            : [node];
+        steps.unshift(siblings.length > 1 ? `${node.localName}[${siblings.indexOf(node) + 1}]` : node.localName!);
+    }
+    return `/${steps.join('/')}`;
+}
+
+/**
+ * Valida comprobantes contra los XSD oficiales del SRI con libxml2 (xmllint-wasm).
+ *
+ * Cubre todo lo que emite XMLGenerator: factura, nota de crédito, nota de débito y
+ * liquidación de compra. Falla cerrado: un elemento raíz sin XSD es una violación,
+ * no un comprobante que se firma sin revisar. Cada error de libxml2 se traduce a
+ * la ruta del campo (ej. /factura/detalles/detalle[2]/precioUnitario) ubicando el
+ * elemento por su línea. La firma (ds:Signature) no se revisa aquí: el XML se
+ * valida antes de firmarlo.
+ */
+export class XSDValidator {
+    /**
+     * Valida el XML con el XSD de su elemento raíz
+     * @returns violaciones con la ruta del campo (vacía = válido)
+     */
+    public async validate(xmlContent: string): Promise<XSDViolation[]> {
+        const parseErrors: string[] = [];
+        // xmldom reporta etiquetas sin cerrar o cruzadas solo como warning: aquí también son errores.
+        // locator explícito: con opciones propias xmldom deja de anotar la línea de cada elemento
+        const doc = new DOMParser({
+            locator: {},
+            errorHandler: {
+                warning: (msg: string) => { parseErrors.push(msg); },
+                error: (msg: string) => { parseErrors.push(msg); },
+                fatalError: (msg: string) => { parseErrors.push(msg); }
+            }
+        }).parseFromString(xmlContent, 'text/xml');
+
+        const root = doc?.documentElement;
+        if (!root || parseErrors.length > 0) {
+            return [{ path: '/', field: '', message: `XML mal formado: ${parseErrors[0] || 'documento vacío'}` }];
+        }
+
+        const schemaName = root.localName as SRISchemaName;
+        if (!(schemaName in SRI_XSD_FILES)) {
+            return [{
+                path: `/${root.localName}`,
+                field: root.localName!,
+                message: `No hay XSD del SRI para <${root.localName}>: el comprobante no se puede validar ni firmar`
+            }];
+        }
+
+        const result = await validateXML({
+            xml: { fileName: DOCUMENT_FILE, contents: xmlContent },
+            schema: loadSchemaFile(SRI_XSD_FILES[schemaName]),
+            preload: [loadSchemaFile(XMLDSIG_XSD_FILE)]
+        });
+        if (result.valid) return [];
+
+        // Solo errores del comprobante: el XSD oficial de notaCredito declara XML 1.1 y libxml2 lo avisa
+        const violations = result.errors
+            .filter(error => error.loc?.fileName === DOCUMENT_FILE)
+            .map(error => this.toViolation(error, root));
+        // libxml2 no devuelve errores estructurados pero sí un código de salida: nunca "inválido sin motivo"
+        return violations.length > 0
+            ? violations
+            : [{ path: `/${root.localName}`, field: root.localName!, message: result.rawOutput.trim() || 'No cumple el XSD del SRI' }];
+    }
+
+    /** Error de libxml2 → campo del comprobante, ubicando el elemento por nombre y línea */
+    private toViolation(error: XMLValidationError, root: Element): XSDViolation {
+        const match = LIBXML_ERROR.exec(error.message.trim());
+        if (!match) {
+            return { path: `/${root.localName}`, field: '', message: error.message.trim() };
+        }
+        const [, elementName, attribute, detail] = match;
+        const element = this.findElement(root, elementName, error.loc?.lineNumber);
+        const path = element ? elementPath(element) : `/${root.localName}`;
+
+        if (attribute) {
+            return { path: `${path}/@${attribute}`, field: attribute, message: detail.trim() };
+        }
+        // El campo que falta es el que hay que corregir, no su contenedor
+        const missing = MISSING_CHILD.exec(detail);
+        if (missing) {
+            return { path: `${path}/${missing[1]}`, field: missing[1], message: `Falta el campo obligatorio <${missing[1]}>` };
+        }
+        return { path, field: elementName, message: detail.trim() };
+    }
+
+    private findElement(root: Element, localName: string, lineNumber: number | undefined): Element | null {
+        const candidates: Element[] = [];
+        const walk = (node: Element) => {
+            if (node.localName === localName) candidates.push(node);
+            elementChildren(node).forEach(walk);
+        };
+        walk(root);
+        return candidates.find(c => (c as any).lineNumber === lineNumber) || candidates[0] || null;
+    }
+}
+
+/**
+ * Violaciones del XSD adjuntas a un error de SRIService.signXML
+ * @returns null si el error no es de esquema (SRI caído, certificado, etc.)
+ */
+export function getXSDViolations(error: unknown): XSDViolation[] | null {
+    if (error instanceof SRIError && error.code === XSD_INVALID_CODE) {
+        return error.metadata?.errors || [];
+    }
+    return null;
+}
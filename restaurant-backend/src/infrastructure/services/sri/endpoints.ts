@@ -0,0 +1,35 @@
+import { logger } from '../../utils/Logger';
+
+/** Web services offline del SRI */
+export type SRIWebService = 'RecepcionComprobantesOffline' | 'AutorizacionComprobantesOffline';
+
+const SRI_HOSTS = {
+    production: 'https://cel.sri.gob.ec',
+    test: 'https://celcer.sri.gob.ec'
+};
+
+let warnedSimulatorInProduction = false;
+
+/**
+ * URL del web service del SRI para el ambiente indicado.
+ *
+ * Con SRI_SIMULATOR_URL (ej. http://localhost:4010) ambos ambientes apuntan al
+ * simulador local. Se ignora con NODE_ENV=production: un servidor real nunca
+ * debe dar por autorizados comprobantes que el SRI no ha visto.
+ */
+export function getSRIWebServiceUrl(service: SRIWebService, isProduction: boolean): string {
+    const simulatorUrl = process.env.SRI_SIMULATOR_URL?.trim();
+
+    if (simulatorUrl) {
+        if (process.env.NODE_ENV !== 'production') {
+            return `${simulatorUrl.replace(/\/+$/, '')}/comprobantes-electronicos-ws/${service}?wsdl`;
+        }
+        if (!warnedSimulatorInProduction) {
+            logger.warn('[SRI] SRI_SIMULATOR_URL ignored: NODE_ENV is production');
+            warnedSimulatorInProduction = true;
+        }
+    }
+
+    const host = isProduction ? SRI_HOSTS.production : SRI_HOSTS.test;
+    return `${host}/comprobantes-electronicos-ws/${service}?wsdl`;
+}
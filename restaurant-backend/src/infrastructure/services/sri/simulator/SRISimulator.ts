@@ -0,0 +1,449 @@
+import express, { Express, Request, Response } from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { DOMParser } from '@xmldom/xmldom';
+import { AccessKeyGenerator } from '../AccessKeyGenerator';
+import { logger } from '../../../utils/Logger';
+
+/** Estado final de autorización que devuelve el simulador */
+export type SimulatedAuthorization = 'AUTORIZADO' | 'NO AUTORIZADO';
+
+/** Comportamiento del simulador (global o para una clave de acceso) */
+export interface SRISimulatorScenario {
+    /** Respuesta de RecepcionComprobantesOffline */
+    reception: 'RECIBIDA' | 'DEVUELTA';
+    /** Estado que devuelve AutorizacionComprobantesOffline al terminar de procesar */
+    authorization: SimulatedAuthorization;
+    /** Consultas de autorización que responden EN PROCESO (0 comprobantes) antes del estado final */
+    pendingPolls: number;
+    /** Identificador del error para DEVUELTA / NO AUTORIZADO (ver SRI_SIMULATOR_ERRORS) */
+    errorCode?: string;
+}
+
+/** Mensajes del catálogo de errores del SRI que el simulador sabe devolver */
+export const SRI_SIMULATOR_ERRORS: Record<string, string> = {
+    '35': 'ARCHIVO NO CUMPLE ESTRUCTURA XML',
+    '39': 'FIRMA INVALIDA',
+    '43': 'CLAVE ACCESO REGISTRADA',
+    '45': 'ERROR SECUENCIAL REGISTRADO',
+    '52': 'ERROR EN DIFERENCIAS',
+    '56': 'ERROR ESTABLECIMIENTO CERRADO',
+    '65': 'FECHA EMISION EXTEMPORANEA',
+    '70': 'CLAVE DE ACCESO EN PROCESAMIENTO'
+};
+
+const DEFAULT_SCENARIO: SRISimulatorScenario = {
+    reception: 'RECIBIDA',
+    authorization: 'AUTORIZADO',
+    pendingPolls: 0
+};
+
+/** codDoc de cada comprobante por elemento raíz */
+const ROOT_DOC_CODES: Record<string, string> = {
+    factura: '01',
+    liquidacionCompra: '03',
+    notaCredito: '04',
+    notaDebito: '05',
+    comprobanteRetencion: '07'
+};
+
+const REQUIRED_TRIBUTARY_FIELDS = [
+    'ambiente', 'tipoEmision', 'razonSocial', 'ruc', 'claveAcceso', 'codDoc', 'estab', 'ptoEmi', 'secuencial', 'dirMatriz'
+];
+
+const WS_PATH = '/comprobantes-electronicos-ws';
+
+interface SimulatorMessage {
+    code: string;
+    info?: string;
+}
+
+/** Comprobante recibido por el simulador */
+export interface SimulatedDocument {
+    accessKey: string;
+    codDoc: string;
+    xml: string;
+    receivedAt: string;
+    /** Consultas de autorización atendidas */
+    polls: number;
+    /** Firma ausente o incompleta: se rechaza en autorización, como hace el SRI */
+    signatureError?: string;
+    /** Resultado definitivo, fijo una vez que se termina de "procesar" */
+    result?: { estado: SimulatedAuthorization; fechaAutorizacion: string; message?: SimulatorMessage };
+}
+
+const escapeText = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Simulador local de los web services offline del SRI (recepción y autorización).
+ *
+ * Atiende los mismos sobres SOAP que SRISender y SRIAuthorizer, valida el XML
+ * firmado (estructura, clave de acceso con módulo 11 y presencia de la firma
+ * XAdES) y responde según el escenario configurado, de forma determinista.
+ * Se activa con SRI_SIMULATOR_URL; ver scripts/sri-simulator.ts.
+ */
+export class SRISimulator {
+    private app: Express;
+    private server?: Server;
+    private defaultScenario: SRISimulatorScenario = { ...DEFAULT_SCENARIO };
+    private overrides = new Map<string, Partial<SRISimulatorScenario>>();
+    private documents = new Map<string, SimulatedDocument>();
+    private available = true;
+    private accessKeys = new AccessKeyGenerator();
+
+    constructor() {
+        this.app = this.buildApp();
+    }
+
+    /** App Express, para montarla en otro servidor */
+    public get handler(): Express {
+        return this.app;
+    }
+
+    /**
+     * Levanta el simulador
+     * @param port Puerto (0 = uno libre)
+     * @returns URL base para SRI_SIMULATOR_URL
+     */
+    public async start(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+        await new Promise<void>((resolve, reject) => {
+            this.server = this.app.listen(port, host, () => resolve());
+            this.server.once('error', reject);
+        });
+        const address = this.server!.address() as AddressInfo;
+        const url = `http://${host}:${address.port}`;
+        logger.info('[SRISim] SRI simulator listening', { url });
+        return url;
+    }
+
+    public async stop(): Promise<void> {
+        if (!this.server) return;
+        await new Promise<void>((resolve, reject) => this.server!.close(err => (err ? reject(err) : resolve())));
+        this.server = undefined;
+    }
+
+    /**
+     * Cambia el escenario global o el de una clave de acceso concreta.
+     * El de una clave se aplica aunque el comprobante aún no haya llegado.
+     */
+    public setScenario(scenario: Partial<SRISimulatorScenario>, accessKey?: string): void {
+        if (accessKey) {
+            this.overrides.set(accessKey, { ...this.overrides.get(accessKey), ...scenario });
+        } else {
+            this.defaultScenario = { ...this.defaultScenario, ...scenario };
+        }
+    }
+
+    /** Simula una caída del SRI: ambos servicios responden HTTP 500 (soap:Server) */
+    public setAvailable(available: boolean): void {
+        this.available = available;
+    }
+
+    /** Vuelve al escenario por defecto y olvida los comprobantes recibidos */
+    public reset(): void {
+        this.defaultScenario = { ...DEFAULT_SCENARIO };
+        this.overrides.clear();
+        this.documents.clear();
+        this.available = true;
+    }
+
+    public getDocument(accessKey: string): SimulatedDocument | undefined {
+        return this.documents.get(accessKey);
+    }
+
+    public listDocuments(): SimulatedDocument[] {
+        return [...this.documents.values()];
+    }
+
+    // ── Web services ────────────────────────────────────────────────────────
+
+    /** validarComprobante: devuelve el cuerpo SOAP de la respuesta */
+    public receive(soapRequest: string): string {
+        const base64 = soapRequest.match(/<xml>([\s\S]*?)<\/xml>/)?.[1]?.trim() || '';
+        const xml = Buffer.from(base64, 'base64').toString('utf8');
+
+        const parsed = this.parseVoucher(xml);
+        if ('error' in parsed) {
+            logger.info('[SRISim] Reception DEVUELTA', { code: parsed.error.code, info: parsed.error.info });
+            return this.receptionResponse('DEVUELTA', parsed.accessKey || '', parsed.error);
+        }
+
+        const { accessKey, codDoc, signatureError } = parsed;
+        const existing = this.documents.get(accessKey);
+        if (existing) {
+            const code = existing.result ? '43' : '70';
+            return this.receptionResponse('DEVUELTA', accessKey, { code });
+        }
+
+        const scenario = this.scenarioFor(accessKey);
+        if (scenario.reception === 'DEVUELTA') {
+            logger.info('[SRISim] Reception DEVUELTA (scenario)', { accessKey, code: scenario.errorCode || '35' });
+            return this.receptionResponse('DEVUELTA', accessKey, { code: scenario.errorCode || '35' });
+        }
+
+        this.documents.set(accessKey, {
+            accessKey,
+            codDoc,
+            xml,
+            receivedAt: new Date().toISOString(),
+            polls: 0,
+            signatureError
+        });
+        logger.info('[SRISim] Reception RECIBIDA', { accessKey, codDoc });
+        return this.receptionResponse('RECIBIDA', accessKey);
+    }
+
+    /** autorizacionComprobante: devuelve el cuerpo SOAP de la respuesta */
+    public authorize(soapRequest: string): string {
+        const accessKey = soapRequest.match(/<claveAccesoComprobante>\s*(\d+)\s*<\/claveAccesoComprobante>/)?.[1] || '';
+        const document = this.documents.get(accessKey);
+
+        if (!document) {
+            return this.authorizationResponse(accessKey);
+        }
+
+        if (!document.result) {
+            document.polls++;
+            const scenario = this.scenarioFor(accessKey);
+            if (document.polls <= scenario.pendingPolls) {
+                logger.info('[SRISim] Authorization EN PROCESO', { accessKey, poll: document.polls });
+                return this.authorizationResponse(accessKey);
+            }
+
+            // Hora de Ecuador (UTC-5, sin horario de verano), con el formato del SRI
+            const fechaAutorizacion = new Date(Date.now() - 5 * 3600 * 1000).toISOString().replace(/\.\d{3}Z$/, '-05:00');
+            if (document.signatureError) {
+                document.result = { estado: 'NO AUTORIZADO', fechaAutorizacion, message: { code: '39', info: document.signatureError } };
+            } else if (scenario.authorization === 'NO AUTORIZADO') {
+                document.result = { estado: 'NO AUTORIZADO', fechaAutorizacion, message: { code: scenario.errorCode || '52' } };
+            } else {
+                document.result = { estado: 'AUTORIZADO', fechaAutorizacion };
+            }
+            logger.info('[SRISim] Authorization result', { accessKey, estado: document.result.estado });
+        }
+
+        return this.authorizationResponse(accessKey, document);
+    }
+
+    // ── Validación del comprobante ──────────────────────────────────────────
+
+    private parseVoucher(xml: string):
+        | { accessKey: string; codDoc: string; signatureError?: string }
+        | { accessKey?: string; error: SimulatorMessage } {
+        if (!xml.trim()) {
+            return { error: { code: '35', info: 'El comprobante no viene en base64 o está vacío' } };
+        }
+
+        const parseErrors: string[] = [];
+        const doc = new DOMParser({
+            errorHandler: {
+                warning: (msg: string) => { parseErrors.push(msg); },
+                error: (msg: string) => { parseErrors.push(msg); },
+                fatalError: (msg: string) => { parseErrors.push(msg); }
+            }
+        }).parseFromString(xml, 'text/xml');
+        const root = doc?.documentElement;
+        if (!root || parseErrors.length > 0) {
+            return { error: { code: '35', info: parseErrors[0] || 'XML vacío' } };
+        }
+
+        const rootCode = ROOT_DOC_CODES[root.localName || root.nodeName];
+        if (!rootCode) {
+            return { error: { code: '35', info: `Comprobante desconocido: ${root.nodeName}` } };
+        }
+        if (root.getAttribute('id') !== 'comprobante') {
+            return { error: { code: '35', info: 'El elemento raíz debe tener id="comprobante"' } };
+        }
+
+        const infoTributaria = root.getElementsByTagName('infoTributaria')[0];
+        const field = (name: string) => infoTributaria?.getElementsByTagName(name)[0]?.textContent?.trim() || '';
+        const missing = REQUIRED_TRIBUTARY_FIELDS.filter(name => !field(name));
+        const accessKey = field('claveAcceso');
+        if (!infoTributaria || missing.length > 0) {
+            return { accessKey, error: { code: '35', info: `infoTributaria incompleta: ${missing.join(', ') || 'infoTributaria'}` } };
+        }
+
+        const keyError = this.checkAccessKey(accessKey, {
+            codDoc: field('codDoc'),
+            ruc: field('ruc'),
+            ambiente: field('ambiente'),
+            estab: field('estab'),
+            ptoEmi: field('ptoEmi'),
+            secuencial: field('secuencial')
+        });
+        if (field('codDoc') !== rootCode) {
+            return { accessKey, error: { code: '35', info: `codDoc ${field('codDoc')} no corresponde a <${root.nodeName}>` } };
+        }
+        if (keyError) {
+            return { accessKey, error: { code: '35', info: keyError } };
+        }
+
+        return { accessKey, codDoc: rootCode, signatureError: this.checkSignature(root) };
+    }
+
+    private checkAccessKey(
+        key: string,
+        expected: { codDoc: string; ruc: string; ambiente: string; estab: string; ptoEmi: string; secuencial: string }
+    ): string | undefined {
+        if (!/^\d{49}$/.test(key)) return 'La clave de acceso debe tener 49 dígitos';
+        if (this.accessKeys.calculateMod11(key.substring(0, 48)) !== parseInt(key.charAt(48), 10)) {
+            return 'Dígito verificador de la clave de acceso inválido';
+        }
+        const segments: [string, string, string][] = [
+            ['codDoc', key.substring(8, 10), expected.codDoc],
+            ['ruc', key.substring(10, 23), expected.ruc],
+            ['ambiente', key.substring(23, 24), expected.ambiente],
+            ['estab', key.substring(24, 27), expected.estab],
+            ['ptoEmi', key.substring(27, 30), expected.ptoEmi],
+            ['secuencial', key.substring(30, 39), expected.secuencial]
+        ];
+        const mismatch = segments.find(([, inKey, inXml]) => inKey !== inXml);
+        return mismatch ? `La clave de acceso no coincide con ${mismatch[0]} del comprobante` : undefined;
+    }
+
+    /** Firma enveloped XAdES-BES: presencia de sus partes, no verificación criptográfica */
+    private checkSignature(root: Element): string | undefined {
+        const DS = 'http://www.w3.org/2000/09/xmldsig#';
+        const signature = root.getElementsByTagNameNS(DS, 'Signature')[0];
+        if (!signature) return 'El comprobante no está firmado';
+
+        const text = (name: string) => signature.getElementsByTagNameNS(DS, name)[0]?.textContent?.trim();
+        if (!signature.getElementsByTagNameNS(DS, 'SignedInfo')[0]) return 'Firma sin SignedInfo';
+        if (!text('SignatureValue')) return 'Firma sin SignatureValue';
+        if (!text('X509Certificate')) return 'Firma sin certificado X509';
+
+        const references = Array.from(signature.getElementsByTagNameNS(DS, 'Reference'));
+        if (!references.some(ref => ref.getAttribute('URI') === '#comprobante')) {
+            return 'La firma no referencia al comprobante (#comprobante)';
+        }
+        const hasSignedProperties = Array.from(signature.getElementsByTagName('*'))
+            .some(el => el.localName === 'SignedProperties');
+        return hasSignedProperties ? undefined : 'Firma sin SignedProperties (XAdES-BES)';
+    }
+
+    private scenarioFor(accessKey: string): SRISimulatorScenario {
+        return { ...this.defaultScenario, ...this.overrides.get(accessKey) };
+    }
+
+    // ── Respuestas SOAP ─────────────────────────────────────────────────────
+
+    private messagesXML(message: SimulatorMessage | undefined, indent: string): string {
+        if (!message) return `${indent}<mensajes/>`;
+        return [
+            `${indent}<mensajes>`,
+            `${indent}  <mensaje>`,
+            `${indent}    <identificador>${message.code}</identificador>`,
+            `${indent}    <mensaje>${SRI_SIMULATOR_ERRORS[message.code] || 'ERROR'}</mensaje>`,
+            message.info ? `${indent}    <informacionAdicional>${escapeText(message.info)}</informacionAdicional>` : '',
+            `${indent}    <tipo>ERROR</tipo>`,
+            `${indent}  </mensaje>`,
+            `${indent}</mensajes>`
+        ].filter(Boolean).join('\n');
+    }
+
+    private receptionResponse(estado: 'RECIBIDA' | 'DEVUELTA', accessKey: string, message?: SimulatorMessage): string {
+        const comprobantes = estado === 'DEVUELTA'
+            ? `
+        <comprobantes>
+          <comprobante>
+            <claveAcceso>${accessKey}</claveAcceso>
+${this.messagesXML(message, '            ')}
+          </comprobante>
+        </comprobantes>`
+            : `
+        <comprobantes/>`;
+
+        return `<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/">
+  <soap:Body>
+    <ns2:validarComprobanteResponse xmlns:ns2="http://ec.gob.sri.ws.recepcion">
+      <RespuestaRecepcionComprobante>
+        <estado>${estado}</estado>${comprobantes}
+      </RespuestaRecepcionComprobante>
+    </ns2:validarComprobanteResponse>
+  </soap:Body>
+</soap:Envelope>`;
+    }
+
+    /** Sin documento (o aún procesando) el SRI responde 0 comprobantes */
+    private authorizationResponse(accessKey: string, document?: SimulatedDocument): string {
+        const result = document?.result;
+        const autorizaciones = result && document
+            ? `
+        <autorizaciones>
+          <autorizacion>
+            <estado>${result.estado}</estado>${result.estado === 'AUTORIZADO' ? `
+            <numeroAutorizacion>${accessKey}</numeroAutorizacion>` : ''}
+            <fechaAutorizacion>${result.fechaAutorizacion}</fechaAutorizacion>
+            <ambiente>${accessKey.charAt(23) === '2' ? 'PRODUCCIÓN' : 'PRUEBAS'}</ambiente>
+            <comprobante><![CDATA[${document.xml}]]></comprobante>
+${this.messagesXML(result.message, '            ')}
+          </autorizacion>
+        </autorizaciones>`
+            : `
+        <autorizaciones/>`;
+
+        return `<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/">
+  <soap:Body>
+    <ns2:autorizacionComprobanteResponse xmlns:ns2="http://ec.gob.sri.ws.autorizacion">
+      <RespuestaAutorizacionComprobante>
+        <claveAccesoConsultada>${accessKey}</claveAccesoConsultada>
+        <numeroComprobantes>${result ? 1 : 0}</numeroComprobantes>${autorizaciones}
+      </RespuestaAutorizacionComprobante>
+    </ns2:autorizacionComprobanteResponse>
+  </soap:Body>
+</soap:Envelope>`;
+    }
+
+    private serverFault(): string {
+        return `<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/">
+  <soap:Body>
+    <soap:Fault>
+      <faultcode>soap:Server</faultcode>
+      <faultstring>org.hibernate.exception.GenericJDBCException: could not execute statement</faultstring>
+    </soap:Fault>
+  </soap:Body>
+</soap:Envelope>`;
+    }
+
+    // ── HTTP ────────────────────────────────────────────────────────────────
+
+    private buildApp(): Express {
+        const app = express();
+        const soap = (handle: (body: string) => string) => (req: Request, res: Response) => {
+            res.type('text/xml; charset=utf-8');
+            if (!this.available) {
+                res.status(500).send(this.serverFault());
+                return;
+            }
+            res.send(handle(typeof req.body === 'string' ? req.body : ''));
+        };
+
+        app.post(`${WS_PATH}/RecepcionComprobantesOffline`, express.text({ type: () => true, limit: '5mb' }),
+            soap(body => this.receive(body)));
+        app.post(`${WS_PATH}/AutorizacionComprobantesOffline`, express.text({ type: () => true, limit: '1mb' }),
+            soap(body => this.authorize(body)));
+
+        // Control del simulador (solo para desarrollo y pruebas)
+        const control = express.Router();
+        control.use(express.json());
+        control.get('/documents', (_req, res) => {
+            res.json(this.listDocuments().map(({ xml, ...doc }) => doc));
+        });
+        control.put('/scenario', (req, res) => {
+            const { accessKey, ...scenario } = req.body || {};
+            this.setScenario(scenario, accessKey);
+            res.json({ scenario: this.defaultScenario, overrides: Object.fromEntries(this.overrides) });
+        });
+        control.put('/availability', (req, res) => {
+            this.setAvailable(req.body?.available !== false);
+            res.json({ available: this.available });
+        });
+        control.post('/reset', (_req, res) => {
+            this.reset();
+            res.json({ scenario: this.defaultScenario });
+        });
+        app.use('/simulator', control);
+
+        return app;
+    }
+}
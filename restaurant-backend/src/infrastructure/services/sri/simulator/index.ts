@@ -0,0 +1,7 @@
+export {
+    SRISimulator,
+    SRISimulatorScenario,
+    SimulatedAuthorization,
+    SimulatedDocument,
+    SRI_SIMULATOR_ERRORS
+} from './SRISimulator';
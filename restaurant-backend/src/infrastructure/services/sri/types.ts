@@ -2,6 +2,9 @@
  * Shared types and interfaces for SRI service modules
  */
 
+/** Comprobantes que el sistema emite al SRI */
+export type SRIDocumentType = 'invoice' | 'creditNote' | 'debitNote' | 'purchaseSettlement';
+
 export interface SRIReceptionResponse {
     estado: string;
     rawResponse: string;
@@ -34,3 +37,53 @@ export interface TaxGroup {
     baseImponible: number;
     valor: number;
 }
+
+/** Incumplimiento del XSD oficial, con la ruta exacta del campo */
+export interface XSDViolation {
+    /** Ruta del elemento o atributo, ej. /factura/detalles/detalle[2]/descripcion */
+    path: string;
+    /** Nombre del campo tal como aparece en la ficha técnica */
+    field: string;
+    message: string;
+}
+
+/** NOT_VERIFIED: no se pudo comprobar (p. ej. la cadena sin CAs de confianza configuradas) */
+export type VerificationStatus = 'OK' | 'WARN' | 'FAIL' | 'NOT_VERIFIED';
+
+/** Veredicto del reporte: un FAIL lo invalida; sin FAIL, una comprobación NOT_VERIFIED lo deja sin verificar */
+export type VerificationVerdict = 'VALID' | 'INVALID' | 'NOT_VERIFIED';
+
+/** Una comprobación del verificador de comprobantes firmados */
+export interface VerificationCheck {
+    /** Identificador estable, ej. 'document-digest', 'certificate-chain' */
+    id: string;
+    label: string;
+    status: VerificationStatus;
+    detail: string;
+}
+
+/** Titular y emisor del certificado que firmó el comprobante */
+export interface SignerCertificateInfo {
+    subject: string;
+    issuer: string;
+    serialNumber: string;
+    validFrom: string;
+    validTo: string;
+}
+
+/** Resultado de verificar la firma XAdES-BES y la clave de acceso de un comprobante */
+export interface DocumentVerificationReport {
+    verdict: VerificationVerdict;
+    /** verdict === 'VALID': ninguna comprobación en FAIL ni sin verificar (las advertencias no invalidan) */
+    valid: boolean;
+    /** Elemento raíz: factura, notaCredito, notaDebito, liquidacionCompra... */
+    documentType?: string;
+    documentNumber?: string;
+    accessKey?: string;
+    ruc?: string;
+    signingTime?: string;
+    signer?: SignerCertificateInfo;
+    /** Presente cuando se verificó la respuesta de autorización del SRI */
+    authorization?: { estado: string; numeroAutorizacion?: string; fechaAutorizacion?: string };
+    checks: VerificationCheck[];
+}
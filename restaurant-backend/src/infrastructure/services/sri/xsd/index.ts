@@ -0,0 +1,39 @@
+/**
+ * XSD oficiales del SRI (ficha técnica de comprobantes electrónicos, esquema offline)
+ *
+ * Los .xsd no se copian al repositorio: vienen sin modificar en el paquete
+ * facturacion-electronica-ec (carpeta xsd/), que es una dependencia de producción,
+ * así que llegan a dist/ y a la imagen igual que el resto de node_modules.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { XMLFileInfo } from 'xmllint-wasm';
+
+/** Elemento raíz del comprobante → XSD oficial con el que se valida antes de firmar */
+export const SRI_XSD_FILES = {
+    factura: 'factura_V1.1.0.xsd',
+    notaCredito: 'NotaCredito_V1.1.0.xsd',
+    notaDebito: 'NotaDebito_V1.0.0.xsd',
+    liquidacionCompra: 'LiquidacionCompra_V1.1.0.xsd'
+} as const;
+
+export type SRISchemaName = keyof typeof SRI_XSD_FILES;
+
+/** Firma XMLDSig que importan todos los esquemas (schemaLocation="xmldsig-core-schema.xsd") */
+export const XMLDSIG_XSD_FILE = 'xmldsig-core-schema.xsd';
+
+// El paquete solo exporta su entrada (dist/index.cjs); la carpeta xsd/ está a su lado
+const XSD_DIR = path.join(path.dirname(require.resolve('facturacion-electronica-ec')), '..', 'xsd');
+
+const loaded = new Map<string, XMLFileInfo>();
+
+/** Contenido de un .xsd oficial, leído una sola vez */
+export function loadSchemaFile(fileName: string): XMLFileInfo {
+    let file = loaded.get(fileName);
+    if (!file) {
+        file = { fileName, contents: fs.readFileSync(path.join(XSD_DIR, fileName), 'utf8') };
+        loaded.set(fileName, file);
+    }
+    return file;
+}
@@ -39,6 +39,9 @@ function getJwtSecret(): string {
 
 const JWT_SECRET = getJwtSecret();
 const JWT_EXPIRATION = process.env.JWT_EXPIRATION || '8h'; // Reducido de 24h a 8h por seguridad
+// Aprobación de descuentos de un gerente: secreto derivado para que nunca valga como sesión
+const DISCOUNT_AUTHORIZATION_SECRET = `${JWT_SECRET}:discount-authorization`;
+const DISCOUNT_AUTHORIZATION_EXPIRATION = '30m';
 
 export interface JWTPayload {
     userId: string;
@@ -91,6 +94,29 @@ export class JWTService {
         }
     }
 
+    /**
+     * Firma la aprobación de descuentos de un gerente (vale 30 minutos)
+     */
+    static generateDiscountAuthorization(username: string): string {
+        return jwt.sign({ username }, DISCOUNT_AUTHORIZATION_SECRET, {
+            expiresIn: DISCOUNT_AUTHORIZATION_EXPIRATION,
+        } as jwt.SignOptions);
+    }
+
+    /**
+     * Verifica una aprobación de descuentos
+     * @returns usuario del gerente que la dio, o null si venció o no es válida
+     */
+    static verifyDiscountAuthorization(token: string): string | null {
+        try {
+            const decoded = jwt.verify(token, DISCOUNT_AUTHORIZATION_SECRET) as { username?: unknown };
+            return typeof decoded.username === 'string' ? decoded.username : null;
+        } catch (error) {
+            logger.warn('Invalid or expired discount authorization');
+            return null;
+        }
+    }
+
     /**
      * Extrae el token del header Authorization
      */
@@ -9,10 +9,15 @@
  * - Deeply nested objects (DoS via resource exhaustion)
  */
 
+import { EMAIL_DELIVERY_STATUSES } from '../../domain/billing/emailDelivery';
+
 // Whitelist of allowed sort fields per collection type
 const ALLOWED_SORT_FIELDS: Record<string, string[]> = {
     bills: ['createdAt', 'updatedAt', 'documentNumber', 'total', 'customerName', 'sriStatus'],
     creditNotes: ['createdAt', 'updatedAt', 'documentNumber', 'total', 'customerName', 'sriStatus'],
+    purchaseSettlements: ['createdAt', 'updatedAt', 'documentNumber', 'total', 'supplier.name', 'sriStatus'],
+    debitNotes: ['createdAt', 'updatedAt', 'documentNumber', 'total', 'customerName', 'sriStatus'],
+    withholdings: ['createdAt', 'issueDate', 'documentNumber', 'totalWithheld', 'agentName'],
     orders: ['createdAt', 'updatedAt', 'orderNumber', 'total', 'status', 'tableNumber'],
     customers: ['createdAt', 'updatedAt', 'name', 'identification', 'lastVisit', 'totalSpent'],
     default: ['createdAt', 'updatedAt']
@@ -143,3 +148,17 @@ export function sanitizeFilter(filter: any): any {
 
     return sanitized;
 }
+
+/**
+ * Filtro por estado de entrega por email (?emailStatus=SENT|SKIPPED|FAILED|BOUNCED|NONE).
+ * NONE = documentos sin ningún intento registrado. Valores fuera de la lista se ignoran.
+ */
+export function emailStatusFilter(value: unknown): Record<string, any> {
+    if (value === 'NONE') {
+        return { 'emailDelivery.status': { $exists: false } };
+    }
+    if (typeof value === 'string' && (EMAIL_DELIVERY_STATUSES as string[]).includes(value)) {
+        return { 'emailDelivery.status': value };
+    }
+    return {};
+}
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { DashboardStats } from '../../../application/use-cases/DashboardStats';
 import { MongoOrderRepository } from '../../../infrastructure/repositories/MongoOrderRepository';
+import { MongoBillRepository } from '../../../infrastructure/repositories/MongoBillRepository';
 import { logger } from '../../utils/Logger';
 
 export class DashboardController {
@@ -10,7 +11,7 @@ export class DashboardController {
 
     constructor() {
         const orderRepository = new MongoOrderRepository();
-        this.dashboardStatsUseCase = new DashboardStats(orderRepository);
+        this.dashboardStatsUseCase = new DashboardStats(orderRepository, new MongoBillRepository());
     }
 
     getStats = async (req: Request, res: Response): Promise<void> => {
@@ -19,7 +19,10 @@ import {
     INVOICE_RATE_LIMIT,
     STATUS_CHECK_RATE_LIMIT,
     RESUBMIT_RATE_LIMIT,
-    CIRCUIT_RESET_RATE_LIMIT
+    CIRCUIT_RESET_RATE_LIMIT,
+    PORTAL_LOOKUP_RATE_LIMIT,
+    PORTAL_CODE_RATE_LIMIT,
+    PORTAL_DOWNLOAD_RATE_LIMIT
 } from '../../../config/billing.constants';
 
 /**
@@ -159,3 +162,77 @@ export const circuitResetLimiter: RateLimitRequestHandler = rateLimit({
         res.status(429).json(options.message);
     }
 });
+
+/**
+ * Rate limiter para consultas del portal público de facturas
+ * - Estricto: 10 consultas por 15 minutos por IP
+ * - Sin login: impide probar cédulas y números de factura por fuerza bruta
+ */
+export const portalLookupLimiter: RateLimitRequestHandler = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutos
+    max: PORTAL_LOOKUP_RATE_LIMIT,
+    message: {
+        success: false,
+        error: 'Demasiadas consultas. Por favor espere 15 minutos antes de intentar de nuevo.',
+        code: 'RATE_LIMIT_EXCEEDED',
+        retryAfter: 900
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+    handler: (req, res, next, options) => {
+        logger.warn('[RateLimit] Invoice portal lookup limit exceeded', {
+            ip: req.ip,
+            path: req.path
+        });
+        res.status(429).json(options.message);
+    }
+});
+
+/**
+ * Rate limiter para el envío de códigos por email del portal
+ * - Muy estricto: 3 códigos por hora por IP
+ * - Evita usar el portal para enviar correos a terceros
+ */
+export const portalCodeLimiter: RateLimitRequestHandler = rateLimit({
+    windowMs: 60 * 60 * 1000, // 1 hora
+    max: PORTAL_CODE_RATE_LIMIT,
+    message: {
+        success: false,
+        error: 'Demasiadas solicitudes de código. Por favor espere una hora.',
+        code: 'RATE_LIMIT_EXCEEDED',
+        retryAfter: 3600
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+    handler: (req, res, next, options) => {
+        logger.warn('[RateLimit] Invoice portal code limit exceeded', {
+            ip: req.ip
+        });
+        res.status(429).json(options.message);
+    }
+});
+
+/**
+ * Rate limiter para descargas del portal (RIDE y XML)
+ * - 30 descargas por 15 minutos por IP
+ * - Generar el RIDE es costoso
+ */
+export const portalDownloadLimiter: RateLimitRequestHandler = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutos
+    max: PORTAL_DOWNLOAD_RATE_LIMIT,
+    message: {
+        success: false,
+        error: 'Demasiadas descargas. Por favor espere un momento.',
+        code: 'RATE_LIMIT_EXCEEDED',
+        retryAfter: 900
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+    handler: (req, res, next, options) => {
+        logger.warn('[RateLimit] Invoice portal download limit exceeded', {
+            ip: req.ip,
+            path: req.path
+        });
+        res.status(429).json(options.message);
+    }
+});
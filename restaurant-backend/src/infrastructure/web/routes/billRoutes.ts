@@ -21,7 +21,8 @@ const billController = new BillController(
     container.getResetBillingSystemUseCase(),
     container.getResetFullSystemUseCase(),
     container.getBillingService(),
-    container.getSRIService()
+    container.getSRIService(),
+    container.getVerifyDocumentSignatureUseCase()
 );
 
 /**
@@ -48,6 +49,18 @@ router.get('/:id/pdf', billController.generatePdf);
  */
 router.get('/:id/xml', billController.generateXml);
 
+/**
+ * GET /api/bills/:id/verify
+ * Verificar firma XAdES-BES, certificado y clave de acceso del XML guardado
+ */
+router.get('/:id/verify', billController.verifyStored);
+
+/**
+ * POST /api/bills/verify
+ * Verificar un comprobante firmado subido por el usuario
+ */
+router.post('/verify', billController.verifyUploaded);
+
 /**
  * DELETE /api/bills/:id
  * Eliminar una factura
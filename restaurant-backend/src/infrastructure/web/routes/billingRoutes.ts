@@ -28,6 +28,12 @@ const billingController = container.getBillingController();
  */
 router.post('/generate-xml', invoiceGenerationLimiter, billingController.generateXml);
 
+/**
+ * POST /api/billing/generate-consolidated
+ * Factura consolidada: varios pedidos del mismo cliente en una sola factura
+ */
+router.post('/generate-consolidated', invoiceGenerationLimiter, billingController.generateConsolidated);
+
 /**
  * POST /api/billing/preview-xml
  * FIX D-05: Preview XML before sending to SRI
@@ -0,0 +1,72 @@
+/**
+ * Rutas de Caja (apertura y cierre)
+ *
+ * Define los endpoints de sesiones de caja: apertura con fondo inicial,
+ * movimientos manuales, cierre con efectivo contado y reporte Z.
+ * Utiliza el DIContainer para obtener dependencias e inyectarlas en el CashSessionController.
+ */
+
+import express from 'express';
+import { container } from '../../di/DIContainer';
+import { CashSessionController } from '../../controllers/CashSessionController';
+import { ErrorHandler } from '../../utils/ErrorHandler';
+import { jwtAuthMiddleware } from '../middleware/JWTAuthMiddleware';
+
+const router = express.Router();
+
+const cashSessionController = new CashSessionController(
+    container.getOpenCashSessionUseCase(),
+    container.getRecordCashMovementUseCase(),
+    container.getCloseCashSessionUseCase(),
+    container.getGetCurrentCashSessionUseCase(),
+    container.getGetCashSessionUseCase(),
+    container.getGetCashSessionsUseCase(),
+    container.getGenerateZReportUseCase()
+);
+
+// La caja siempre pertenece al empleado autenticado
+router.use(jwtAuthMiddleware);
+
+/**
+ * GET /api/cash-sessions/current
+ * Caja abierta del empleado con su resumen en vivo
+ */
+router.get('/current', ErrorHandler.asyncHandler(cashSessionController.getCurrent));
+
+/**
+ * GET /api/cash-sessions
+ * Historial de sesiones de caja
+ */
+router.get('/', ErrorHandler.asyncHandler(cashSessionController.getAll));
+
+/**
+ * POST /api/cash-sessions
+ * Abre caja con un fondo inicial
+ */
+router.post('/', ErrorHandler.asyncHandler(cashSessionController.open));
+
+/**
+ * GET /api/cash-sessions/:id
+ * Sesión con su resumen por forma de pago
+ */
+router.get('/:id', ErrorHandler.asyncHandler(cashSessionController.getById));
+
+/**
+ * POST /api/cash-sessions/:id/movements
+ * Registra un ingreso/egreso manual o la devolución de una nota de crédito
+ */
+router.post('/:id/movements', ErrorHandler.asyncHandler(cashSessionController.addMovement));
+
+/**
+ * POST /api/cash-sessions/:id/close
+ * Cierra la caja con el efectivo contado
+ */
+router.post('/:id/close', ErrorHandler.asyncHandler(cashSessionController.close));
+
+/**
+ * GET /api/cash-sessions/:id/z-report
+ * Reporte Z imprimible (PDF)
+ */
+router.get('/:id/z-report', ErrorHandler.asyncHandler(cashSessionController.zReport));
+
+export default router;
@@ -11,29 +11,17 @@
 import { Router } from 'express';
 import { container } from '../../di/DIContainer';
 import { CreditNoteController } from '../../controllers/CreditNoteController';
-import { GetCreditNoteDocument } from '../../../application/use-cases/GetCreditNoteDocument';
 import { creditNoteLimiter, statusCheckLimiter } from '../middleware/RateLimitMiddleware';
 
 const router = Router();
 
-// Use case para regenerar documentos (XML firmado / PDF) de notas de crédito
-const getCreditNoteDocument = new GetCreditNoteDocument(
-    container.getRestaurantConfigRepository(),
-    container.getCreditNoteRepository(),
-    container.getBillRepository(),
-    container.getSRIService(),
-    container.getPDFService(),
-    container.getBillingService()
-);
-
 // Instantiate controller with dependencies from DI Container
 const creditNoteController = new CreditNoteController(
     container.getGenerateCreditNoteUseCase(),
     container.getGetCreditNotesUseCase(),
     container.getCheckCreditNoteStatusUseCase(),
     container.getDeleteCreditNoteUseCase(),
-    container.getRestaurantConfigRepository(), // ← taxRate source of truth
-    getCreditNoteDocument
+    container.getGetCreditNoteDocumentUseCase() // Regenera XML firmado / PDF
 );
 
 /**
@@ -0,0 +1,64 @@
+/**
+ * Rutas de Notas de Débito (codDoc 05)
+ *
+ * Emisión de cargos adicionales sobre facturas autorizadas, listado y
+ * verificación en el SRI, más la descarga del RIDE y del XML firmado.
+ * Utiliza el DIContainer para obtener dependencias e inyectarlas en el DebitNoteController.
+ */
+
+import express from 'express';
+import { container } from '../../di/DIContainer';
+import { DebitNoteController } from '../../controllers/DebitNoteController';
+import { ErrorHandler } from '../../utils/ErrorHandler';
+import { jwtAuthMiddleware } from '../middleware/JWTAuthMiddleware';
+import { invoiceGenerationLimiter, statusCheckLimiter } from '../middleware/RateLimitMiddleware';
+
+const router = express.Router();
+
+const debitNoteController = new DebitNoteController(
+    container.getGenerateDebitNoteUseCase(),
+    container.getGetDebitNotesUseCase(),
+    container.getCheckDebitNoteStatusUseCase(),
+    container.getGetDebitNoteDocumentUseCase()
+);
+
+/**
+ * GET /api/debit-notes/:id/pdf
+ * RIDE de la nota de débito — se abre en una pestaña nueva (sin cabecera Authorization),
+ * igual que los PDF de facturas y notas de crédito
+ */
+router.get('/:id/pdf', ErrorHandler.asyncHandler(debitNoteController.getPdf));
+
+/**
+ * GET /api/debit-notes/:id/xml
+ * XML firmado tal como se envió al SRI
+ */
+router.get('/:id/xml', ErrorHandler.asyncHandler(debitNoteController.getXml));
+
+// La emisión queda firmada por el empleado autenticado
+router.use(jwtAuthMiddleware);
+
+/**
+ * GET /api/debit-notes
+ * Notas de débito emitidas, más recientes primero (filtrables por factura)
+ */
+router.get('/', ErrorHandler.asyncHandler(debitNoteController.getAll));
+
+/**
+ * POST /api/debit-notes
+ * Emite una nota de débito sobre una factura autorizada y la envía al SRI
+ */
+router.post('/', invoiceGenerationLimiter, ErrorHandler.asyncHandler(debitNoteController.create));
+
+/**
+ * GET /api/debit-notes/:id
+ */
+router.get('/:id', ErrorHandler.asyncHandler(debitNoteController.getById));
+
+/**
+ * POST /api/debit-notes/:id/check-status
+ * Verifica la autorización en el SRI (reenvía el XML guardado si hace falta)
+ */
+router.post('/:id/check-status', statusCheckLimiter, ErrorHandler.asyncHandler(debitNoteController.checkStatus));
+
+export default router;
@@ -0,0 +1,33 @@
+/**
+ * Rutas de seguimiento de emails de comprobantes
+ *
+ * El reenvío masivo requiere sesión. El webhook de Resend es público pero va
+ * firmado: se verifica con RESEND_WEBHOOK_SECRET sobre el body crudo.
+ */
+
+import express from 'express';
+import { container } from '../../di/DIContainer';
+import { EmailDeliveryController } from '../../controllers/EmailDeliveryController';
+import { ErrorHandler } from '../../utils/ErrorHandler';
+import { jwtAuthMiddleware } from '../middleware/JWTAuthMiddleware';
+
+const router = express.Router();
+
+const emailDeliveryController = new EmailDeliveryController(
+    container.getResendDocumentEmailsUseCase(),
+    container.getRecordEmailBounceUseCase()
+);
+
+/**
+ * POST /api/email-deliveries/webhooks/resend
+ * Rebotes informados por Resend (email.bounced)
+ */
+router.post('/webhooks/resend', ErrorHandler.asyncHandler(emailDeliveryController.resendWebhook));
+
+/**
+ * POST /api/email-deliveries/resend
+ * Reenvía facturas / notas de crédito seleccionadas, opcionalmente a un email corregido
+ */
+router.post('/resend', jwtAuthMiddleware, ErrorHandler.asyncHandler(emailDeliveryController.resend));
+
+export default router;
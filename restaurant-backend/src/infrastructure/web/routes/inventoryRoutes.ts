@@ -0,0 +1,72 @@
+/**
+ * Rutas de Inventario (ingredientes, kardex y recetas)
+ *
+ * Define los endpoints del catálogo de ingredientes, los movimientos manuales
+ * de stock (compras, mermas, conteos) y las recetas de los platos.
+ * Utiliza el DIContainer para obtener dependencias e inyectarlas en el InventoryController.
+ */
+
+import express from 'express';
+import { container } from '../../di/DIContainer';
+import { InventoryController } from '../../controllers/InventoryController';
+import { ErrorHandler } from '../../utils/ErrorHandler';
+import { jwtAuthMiddleware } from '../middleware/JWTAuthMiddleware';
+
+const router = express.Router();
+
+const inventoryController = new InventoryController(
+    container.getCreateIngredientUseCase(),
+    container.getUpdateIngredientUseCase(),
+    container.getDeleteIngredientUseCase(),
+    container.getGetIngredientsUseCase(),
+    container.getRecordStockMovementUseCase(),
+    container.getGetStockMovementsUseCase(),
+    container.getSetMenuItemRecipeUseCase()
+);
+
+// Cada movimiento queda firmado por el empleado autenticado
+router.use(jwtAuthMiddleware);
+
+/**
+ * GET /api/inventory/ingredients
+ * Ingredientes con su stock y marca de stock bajo
+ */
+router.get('/ingredients', ErrorHandler.asyncHandler(inventoryController.getAll));
+
+/**
+ * POST /api/inventory/ingredients
+ * Crea un ingrediente con su stock inicial
+ */
+router.post('/ingredients', ErrorHandler.asyncHandler(inventoryController.create));
+
+/**
+ * PUT /api/inventory/ingredients/:id
+ * Edita nombre, unidad, mínimo o costo
+ */
+router.put('/ingredients/:id', ErrorHandler.asyncHandler(inventoryController.update));
+
+/**
+ * DELETE /api/inventory/ingredients/:id
+ * Da de baja un ingrediente que ninguna receta usa
+ */
+router.delete('/ingredients/:id', ErrorHandler.asyncHandler(inventoryController.delete));
+
+/**
+ * POST /api/inventory/ingredients/:id/movements
+ * Registra una compra, merma o conteo físico
+ */
+router.post('/ingredients/:id/movements', ErrorHandler.asyncHandler(inventoryController.addMovement));
+
+/**
+ * GET /api/inventory/movements
+ * Kardex: movimientos más recientes primero
+ */
+router.get('/movements', ErrorHandler.asyncHandler(inventoryController.getMovements));
+
+/**
+ * PUT /api/inventory/recipes/:menuItemId
+ * Define la receta (ingredientes por porción) de un plato
+ */
+router.put('/recipes/:menuItemId', ErrorHandler.asyncHandler(inventoryController.setRecipe));
+
+export default router;
@@ -0,0 +1,50 @@
+/**
+ * Rutas del portal público de facturas
+ *
+ * El cliente descarga el RIDE y el XML autorizado de sus facturas sin login,
+ * con su cédula/RUC más la clave de acceso o el número de factura, o con un
+ * código enviado a su email. Sin JWT: la protección contra enumeración son los
+ * rate limiters por IP y las sesiones de descarga de corta duración.
+ */
+
+import express from 'express';
+import { container } from '../../di/DIContainer';
+import { InvoicePortalController } from '../../controllers/InvoicePortalController';
+import { ErrorHandler } from '../../utils/ErrorHandler';
+import { portalLookupLimiter, portalCodeLimiter, portalDownloadLimiter } from '../middleware/RateLimitMiddleware';
+
+const router = express.Router();
+
+const invoicePortalController = new InvoicePortalController(container.getInvoicePortalUseCase());
+
+/**
+ * POST /api/public/invoices/lookup
+ * Cédula/RUC + clave de acceso o número de factura
+ */
+router.post('/lookup', portalLookupLimiter, ErrorHandler.asyncHandler(invoicePortalController.lookup));
+
+/**
+ * POST /api/public/invoices/code
+ * Envía un código de un solo uso al email de las facturas del cliente
+ */
+router.post('/code', portalCodeLimiter, ErrorHandler.asyncHandler(invoicePortalController.requestCode));
+
+/**
+ * POST /api/public/invoices/code/verify
+ * Canjea el código por las últimas facturas autorizadas del cliente
+ */
+router.post('/code/verify', portalLookupLimiter, ErrorHandler.asyncHandler(invoicePortalController.verifyCode));
+
+/**
+ * GET /api/public/invoices/:id/pdf?token=
+ * RIDE de una factura de la sesión
+ */
+router.get('/:id/pdf', portalDownloadLimiter, ErrorHandler.asyncHandler(invoicePortalController.getPdf));
+
+/**
+ * GET /api/public/invoices/:id/xml?token=
+ * XML autorizado de una factura de la sesión
+ */
+router.get('/:id/xml', portalDownloadLimiter, ErrorHandler.asyncHandler(invoicePortalController.getXml));
+
+export default router;
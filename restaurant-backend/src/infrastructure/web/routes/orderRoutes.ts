@@ -11,7 +11,11 @@ router.use(jwtAuthMiddleware);
 
 router.post('/', ErrorHandler.asyncHandler(orderController.create));
 router.get('/', ErrorHandler.asyncHandler(orderController.getAll));
+router.post('/discount-authorization', ErrorHandler.asyncHandler(orderController.approveDiscount));
 router.put('/:id', ErrorHandler.asyncHandler(orderController.update));
+router.put('/:id/split', ErrorHandler.asyncHandler(orderController.split));
+router.post('/:id/stations/:station/bump', ErrorHandler.asyncHandler(orderController.bumpStation));
+router.post('/:id/cancel', ErrorHandler.asyncHandler(orderController.cancel));
 router.delete('/:id', ErrorHandler.asyncHandler(orderController.delete));
 
 export default router;
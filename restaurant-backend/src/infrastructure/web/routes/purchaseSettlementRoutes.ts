@@ -0,0 +1,64 @@
+/**
+ * Rutas de Liquidaciones de Compra (codDoc 03)
+ *
+ * Emisión, listado y verificación de liquidaciones de compra a proveedores
+ * informales, más la descarga del RIDE y del XML firmado.
+ * Utiliza el DIContainer para obtener dependencias e inyectarlas en el PurchaseSettlementController.
+ */
+
+import express from 'express';
+import { container } from '../../di/DIContainer';
+import { PurchaseSettlementController } from '../../controllers/PurchaseSettlementController';
+import { ErrorHandler } from '../../utils/ErrorHandler';
+import { jwtAuthMiddleware } from '../middleware/JWTAuthMiddleware';
+import { invoiceGenerationLimiter, statusCheckLimiter } from '../middleware/RateLimitMiddleware';
+
+const router = express.Router();
+
+const purchaseSettlementController = new PurchaseSettlementController(
+    container.getGeneratePurchaseSettlementUseCase(),
+    container.getGetPurchaseSettlementsUseCase(),
+    container.getCheckPurchaseSettlementStatusUseCase(),
+    container.getGetPurchaseSettlementDocumentUseCase()
+);
+
+/**
+ * GET /api/purchase-settlements/:id/pdf
+ * RIDE de la liquidación — se abre en una pestaña nueva (sin cabecera Authorization),
+ * igual que los PDF de facturas y notas de crédito
+ */
+router.get('/:id/pdf', ErrorHandler.asyncHandler(purchaseSettlementController.getPdf));
+
+/**
+ * GET /api/purchase-settlements/:id/xml
+ * XML firmado tal como se envió al SRI
+ */
+router.get('/:id/xml', ErrorHandler.asyncHandler(purchaseSettlementController.getXml));
+
+// La emisión queda firmada por el empleado autenticado
+router.use(jwtAuthMiddleware);
+
+/**
+ * GET /api/purchase-settlements
+ * Liquidaciones emitidas, más recientes primero
+ */
+router.get('/', ErrorHandler.asyncHandler(purchaseSettlementController.getAll));
+
+/**
+ * POST /api/purchase-settlements
+ * Emite una liquidación de compra y la envía al SRI
+ */
+router.post('/', invoiceGenerationLimiter, ErrorHandler.asyncHandler(purchaseSettlementController.create));
+
+/**
+ * GET /api/purchase-settlements/:id
+ */
+router.get('/:id', ErrorHandler.asyncHandler(purchaseSettlementController.getById));
+
+/**
+ * POST /api/purchase-settlements/:id/check-status
+ * Verifica la autorización en el SRI (reenvía el XML guardado si hace falta)
+ */
+router.post('/:id/check-status', statusCheckLimiter, ErrorHandler.asyncHandler(purchaseSettlementController.checkStatus));
+
+export default router;
@@ -0,0 +1,71 @@
+/**
+ * Rutas del auditor de secuenciales
+ *
+ * Revisión de huecos, duplicados y desfase de contadores de facturas y notas
+ * de crédito por ambiente, establecimiento y punto de emisión, y aplicación de
+ * las reparaciones guiadas (quedan en el log de auditoría). Solo administradores.
+ */
+
+import express, { Request, Response, NextFunction } from 'express';
+import { container } from '../../di/DIContainer';
+import { SequentialAuditController } from '../../controllers/SequentialAuditController';
+import { ErrorHandler } from '../../utils/ErrorHandler';
+import { jwtAuthMiddleware } from '../middleware/JWTAuthMiddleware';
+import { logger } from '../../utils/Logger';
+import { RoleModel } from '../../database/schemas/RoleSchema';
+
+const router = express.Router();
+
+// Middleware: solo administradores
+const adminOnly = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const user = (req as any).user;
+        const roleId = user?.roleId;
+
+        if (!roleId) {
+            return res.status(403).json({
+                success: false,
+                error: { message: 'Solo administradores pueden auditar y reparar secuenciales' }
+            });
+        }
+
+        const role = await RoleModel.findById(roleId).lean();
+        const roleName = role?.name?.toLowerCase();
+
+        if (roleName !== 'administrador' && roleName !== 'admin') {
+            return res.status(403).json({
+                success: false,
+                error: { message: 'Solo administradores pueden auditar y reparar secuenciales' }
+            });
+        }
+
+        next();
+    } catch (error) {
+        logger.error('[SequentialRoutes] Error checking admin role', error);
+        return res.status(500).json({
+            success: false,
+            error: { message: 'Error al verificar permisos' }
+        });
+    }
+};
+
+const sequentialAuditController = new SequentialAuditController(
+    container.getAuditSequentialsUseCase(),
+    container.getRepairSequentialUseCase()
+);
+
+router.use(jwtAuthMiddleware, adminOnly);
+
+/**
+ * GET /api/sequentials/audit
+ * Huecos, duplicados y desfase de contadores por serie, con reparaciones sugeridas
+ */
+router.get('/audit', ErrorHandler.asyncHandler(sequentialAuditController.audit));
+
+/**
+ * POST /api/sequentials/repairs
+ * Aplica una reparación sugerida por la auditoría (motivo obligatorio)
+ */
+router.post('/repairs', ErrorHandler.asyncHandler(sequentialAuditController.repair));
+
+export default router;
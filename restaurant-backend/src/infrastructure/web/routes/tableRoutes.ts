@@ -0,0 +1,57 @@
+/**
+ * Rutas de Mesas (plano de salón)
+ *
+ * Define los endpoints para gestión CRUD de mesas y guardado del plano.
+ * Utiliza el DIContainer para obtener dependencias e inyectarlas en el TableController.
+ */
+
+import express from 'express';
+import { container } from '../../di/DIContainer';
+import { TableController } from '../../controllers/TableController';
+import { ErrorHandler } from '../../utils/ErrorHandler';
+import { jwtAuthMiddleware } from '../middleware/JWTAuthMiddleware';
+
+const router = express.Router();
+
+const tableController = new TableController(
+    container.getCreateTableUseCase(),
+    container.getUpdateTableUseCase(),
+    container.getDeleteTableUseCase(),
+    container.getGetTablesUseCase(),
+    container.getSaveFloorPlanUseCase()
+);
+
+// Todas las rutas de mesas requieren autenticación
+router.use(jwtAuthMiddleware);
+
+/**
+ * GET /api/tables
+ * Obtiene todas las mesas del plano
+ */
+router.get('/', ErrorHandler.asyncHandler(tableController.getAll));
+
+/**
+ * POST /api/tables
+ * Crea una nueva mesa
+ */
+router.post('/', ErrorHandler.asyncHandler(tableController.create));
+
+/**
+ * PATCH /api/tables/layout
+ * Guarda las posiciones del editor de plano
+ */
+router.patch('/layout', ErrorHandler.asyncHandler(tableController.saveLayout));
+
+/**
+ * PUT /api/tables/:id
+ * Actualiza una mesa existente
+ */
+router.put('/:id', ErrorHandler.asyncHandler(tableController.update));
+
+/**
+ * DELETE /api/tables/:id
+ * Elimina una mesa (solo si no tiene pedidos abiertos)
+ */
+router.delete('/:id', ErrorHandler.asyncHandler(tableController.delete));
+
+export default router;
@@ -0,0 +1,80 @@
+/**
+ * Rutas de la tabla de tarifas de IVA
+ *
+ * Tarifas con que se factura hoy (cualquier usuario que cobra) y vista previa y
+ * aplicación del re-precio del menú cuando se programa una nueva tarifa general
+ * (solo administradores). Los tramos se guardan en la configuración: billing.taxSchedule.
+ */
+
+import express, { Request, Response, NextFunction } from 'express';
+import { container } from '../../di/DIContainer';
+import { TaxRateController } from '../../controllers/TaxRateController';
+import { ErrorHandler } from '../../utils/ErrorHandler';
+import { jwtAuthMiddleware } from '../middleware/JWTAuthMiddleware';
+import { logger } from '../../utils/Logger';
+import { RoleModel } from '../../database/schemas/RoleSchema';
+
+const router = express.Router();
+
+// Middleware: solo administradores
+const adminOnly = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+        const user = (req as any).user;
+        const roleId = user?.roleId;
+
+        if (!roleId) {
+            return res.status(403).json({
+                success: false,
+                error: { message: 'Solo administradores pueden cambiar los precios por IVA' }
+            });
+        }
+
+        const role = await RoleModel.findById(roleId).lean();
+        const roleName = role?.name?.toLowerCase();
+
+        if (roleName !== 'administrador' && roleName !== 'admin') {
+            return res.status(403).json({
+                success: false,
+                error: { message: 'Solo administradores pueden cambiar los precios por IVA' }
+            });
+        }
+
+        next();
+    } catch (error) {
+        logger.error('[TaxRateRoutes] Error checking admin role', error);
+        return res.status(500).json({
+            success: false,
+            error: { message: 'Error al verificar permisos' }
+        });
+    }
+};
+
+const taxRateController = new TaxRateController(
+    container.getPreviewMenuRepricingUseCase(),
+    container.getApplyMenuRepricingUseCase(),
+    container.getPreviewInvoiceTaxRatesUseCase()
+);
+
+router.use(jwtAuthMiddleware);
+
+/**
+ * POST /api/tax-rates/preview
+ * Tarifa con que se factura hoy cada tarifa de plato (cobro y propina en pantalla)
+ */
+router.post('/preview', ErrorHandler.asyncHandler(taxRateController.previewRates));
+
+router.use(adminOnly);
+
+/**
+ * GET /api/tax-rates/repricing
+ * Cómo queda el menú con la tarifa de un tramo (el próximo programado si no se indica)
+ */
+router.get('/repricing', ErrorHandler.asyncHandler(taxRateController.preview));
+
+/**
+ * POST /api/tax-rates/repricing
+ * Cambia tarifa (y precio, si se mantiene la base) de los platos elegidos
+ */
+router.post('/repricing', ErrorHandler.asyncHandler(taxRateController.apply));
+
+export default router;
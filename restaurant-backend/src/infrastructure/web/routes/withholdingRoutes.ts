@@ -0,0 +1,54 @@
+/**
+ * Rutas de Retenciones recibidas (codDoc 07)
+ *
+ * Registro de los comprobantes de retención que los clientes agentes de
+ * retención emiten sobre nuestras facturas: importación del XML, ingreso
+ * manual, consulta por factura y eliminación de registros errados.
+ * Utiliza el DIContainer para obtener dependencias e inyectarlas en el WithholdingController.
+ */
+
+import express from 'express';
+import { container } from '../../di/DIContainer';
+import { WithholdingController } from '../../controllers/WithholdingController';
+import { ErrorHandler } from '../../utils/ErrorHandler';
+import { jwtAuthMiddleware } from '../middleware/JWTAuthMiddleware';
+
+const router = express.Router();
+
+const withholdingController = new WithholdingController(
+    container.getRegisterWithholdingUseCase(),
+    container.getGetWithholdingsUseCase(),
+    container.getDeleteWithholdingUseCase()
+);
+
+router.use(jwtAuthMiddleware);
+
+/**
+ * GET /api/withholdings
+ * Retenciones registradas (filtrables por factura)
+ */
+router.get('/', ErrorHandler.asyncHandler(withholdingController.getAll));
+
+/**
+ * POST /api/withholdings
+ * Registra una retención digitada a mano sobre una factura autorizada
+ */
+router.post('/', ErrorHandler.asyncHandler(withholdingController.create));
+
+/**
+ * POST /api/withholdings/import
+ * Importa el XML de retención entregado por el cliente y lo enlaza a su factura
+ */
+router.post('/import', ErrorHandler.asyncHandler(withholdingController.importXml));
+
+/**
+ * GET /api/withholdings/:id
+ */
+router.get('/:id', ErrorHandler.asyncHandler(withholdingController.getById));
+
+/**
+ * DELETE /api/withholdings/:id
+ */
+router.delete('/:id', ErrorHandler.asyncHandler(withholdingController.delete));
+
+export default router;
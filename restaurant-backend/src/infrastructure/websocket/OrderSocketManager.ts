@@ -0,0 +1,168 @@
+/**
+ * Order Socket Manager - Sincronización de pedidos en tiempo real
+ *
+ * Difunde los eventos del ciclo de vida de los pedidos (creado, actualizado,
+ * item preparado, listo, completado, eliminado) a todos los dispositivos
+ * autenticados. Mantiene un buffer acotado de eventos recientes para que un
+ * cliente que se reconecta recupere lo que se perdió desde su último timestamp.
+ */
+
+import { randomUUID } from 'crypto';
+import { Server as HttpServer } from 'http';
+import { Server as SocketIOServer, Socket } from 'socket.io';
+import { logger } from '../utils/Logger';
+import { JWTService } from '../utils/JWTService';
+import { Order } from '../../domain/entities/Order';
+import {
+    IOrderEventPublisher,
+    OrderEvent,
+    OrderEventType
+} from '../../application/interfaces/IOrderEventPublisher';
+
+const MAX_BUFFERED_EVENTS = 500;
+const MAX_EVENT_AGE_MS = 60 * 60 * 1000; // 1 hora
+
+export interface OrderCatchUp {
+    /** Identificador de esta instancia del servidor: si cambia, la secuencia se reinició */
+    serverId: string;
+    events: OrderEvent[];
+    /** false si hay eventos que ya no están en el buffer: el cliente debe recargar todo */
+    complete: boolean;
+    latestSeq: number;
+    serverTime: string;
+}
+
+class OrderSocketManager implements IOrderEventPublisher {
+    private static instance: OrderSocketManager;
+    private io: SocketIOServer | null = null;
+    private readonly serverId = randomUUID();
+    private readonly startedAt = Date.now();
+    private events: OrderEvent[] = [];
+    private seq = 0;
+    /** Timestamp (ms) del evento más reciente descartado del buffer */
+    private evictedUntil = 0;
+
+    private constructor() {}
+
+    public static getInstance(): OrderSocketManager {
+        if (!OrderSocketManager.instance) {
+            OrderSocketManager.instance = new OrderSocketManager();
+        }
+        return OrderSocketManager.instance;
+    }
+
+    public initialize(server: HttpServer): void {
+        const allowedOrigins = process.env.ALLOWED_ORIGINS?.split(',').map(o => o.trim()).filter(Boolean);
+
+        this.io = new SocketIOServer(server, {
+            cors: {
+                // Mismo criterio que /ws/whatsapp: nunca '*' con credentials:true
+                origin: allowedOrigins && allowedOrigins.length > 0 ? allowedOrigins : false,
+                methods: ['GET', 'POST'],
+                credentials: true
+            },
+            path: '/ws/orders',
+            transports: ['websocket', 'polling']
+        });
+
+        // Solo usuarios autenticados reciben pedidos (contienen nombres de clientes)
+        this.io.use((socket: Socket, next) => {
+            const token = (socket.handshake.auth?.token as string) ||
+                (socket.handshake.query?.token as string);
+
+            if (!token) {
+                logger.warn('[WS:orders] Rejected: no token');
+                return next(new Error('unauthorized'));
+            }
+
+            const payload = JWTService.verifyToken(token);
+            if (!payload) {
+                logger.warn('[WS:orders] Rejected: invalid token');
+                return next(new Error('unauthorized'));
+            }
+
+            (socket.data as any).user = payload;
+            next();
+        });
+
+        this.io.on('connection', (socket: Socket) => {
+            logger.debug('[WS:orders] Client connected', { id: socket.id });
+
+            // El cliente pide los eventos posteriores a su último timestamp conocido
+            socket.on('orders:sync', (payload?: { since?: string }) => {
+                socket.emit('orders:catchup', this.getEventsSince(payload?.since));
+            });
+
+            socket.on('disconnect', () => {
+                logger.debug('[WS:orders] Client disconnected', { id: socket.id });
+            });
+        });
+
+        logger.info('[WS:orders] Order Socket initialized');
+    }
+
+    /**
+     * Registra el evento en el buffer y lo difunde. Nunca lanza: un fallo del
+     * canal en tiempo real no debe romper la operación del pedido.
+     */
+    public publish(type: OrderEventType, orderId: string, order?: Order): void {
+        try {
+            const event: OrderEvent = {
+                seq: ++this.seq,
+                type,
+                orderId,
+                order,
+                timestamp: new Date().toISOString()
+            };
+
+            this.events.push(event);
+            this.prune();
+
+            if (this.io) {
+                this.io.emit('order:event', event);
+            }
+        } catch (error: any) {
+            logger.error('[WS:orders] Error publishing order event', { type, orderId, error: error.message });
+        }
+    }
+
+    /**
+     * Devuelve los eventos emitidos desde `since` (inclusive; el cliente
+     * descarta duplicados por seq). Si el buffer ya no cubre ese rango, o el
+     * servidor se reinició después, marca complete=false.
+     */
+    public getEventsSince(since?: string): OrderCatchUp {
+        this.prune();
+
+        const sinceMs = since ? new Date(since).getTime() : NaN;
+        const complete = !isNaN(sinceMs) && sinceMs >= this.startedAt && sinceMs >= this.evictedUntil;
+
+        return {
+            serverId: this.serverId,
+            events: complete ? this.events.filter(e => new Date(e.timestamp).getTime() >= sinceMs) : [],
+            complete,
+            latestSeq: this.seq,
+            serverTime: new Date().toISOString()
+        };
+    }
+
+    private prune(): void {
+        const minTime = Date.now() - MAX_EVENT_AGE_MS;
+        while (
+            this.events.length > 0 &&
+            (this.events.length > MAX_BUFFERED_EVENTS || new Date(this.events[0].timestamp).getTime() < minTime)
+        ) {
+            const evicted = this.events.shift()!;
+            this.evictedUntil = new Date(evicted.timestamp).getTime();
+        }
+    }
+
+    public async close(): Promise<void> {
+        if (this.io) {
+            await this.io.close();
+            this.io = null;
+        }
+    }
+}
+
+export const orderSocketManager = OrderSocketManager.getInstance();
@@ -8,6 +8,8 @@
  *
  * @connections
  * - Usa: IProductRepository, IClientRepository, IBillRepository, IOrderRepository
+ * - Usa: ICreditNoteRepository, IDebitNoteRepository, IWithholdingRepository (reporte mensual 104)
+ * - Usa: GenerateAts (application/use-cases/ats) - XML del ATS mensual
  * - Usado por: exportRoutes
  *
  * @layer Infrastructure - HTTP Controllers
@@ -19,59 +21,20 @@ import { IMenuRepository } from '../../../domain/repositories/IMenuRepository';
 import { ICustomerRepository } from '../../../domain/repositories/ICustomerRepository';
 import { IBillRepository } from '../../../domain/repositories/IBillRepository';
 import { IOrderRepository } from '../../../domain/repositories/IOrderRepository';
+import { Order } from '../../../domain/entities/Order';
 import { ICreditNoteRepository } from '../../../domain/repositories/ICreditNoteRepository';
 import { IRestaurantConfigRepository } from '../../../domain/repositories/IRestaurantConfigRepository';
+import { IDebitNoteRepository } from '../../../domain/repositories/IDebitNoteRepository';
+import { IWithholdingRepository } from '../../../domain/repositories/IWithholdingRepository';
+import { GenerateAts } from '../../../application/use-cases/ats';
+import { ValidationError } from '../../../domain/errors/CustomErrors';
 import { logger } from '../../../infrastructure/utils/Logger';
+import { TaxBreakdown, computeBreakdown, monthKeyEcuador } from '../../../domain/billing/taxReport';
 
-const r2 = (n: number) => Math.round(n * 100) / 100;
-
-/** Desglose de un documento por tarifa de IVA a partir de sus ítems */
-interface TaxBreakdown {
-    base0: number;
-    base15: number;
-    iva: number;
-    total: number;
-}
+// Reexportados: los tests y reportes existentes los importan desde aquí
+export { computeBreakdown, monthKeyEcuador };
 
-/**
- * Calcula base 0%, base gravada e IVA desde los ítems del documento.
- * Los precios del sistema INCLUYEN IVA (total-driven): la base se extrae del total.
- */
-export function computeBreakdown(items: any[]): TaxBreakdown {
-    let base0 = 0, base15 = 0, iva = 0;
-
-    for (const item of items || []) {
-        const totalInclusive = (item.total !== undefined && item.total !== null)
-            ? item.total
-            : (item.price || 0) * (item.quantity || 1);
-        const rate = (item.taxRate !== undefined && item.taxRate !== null) ? item.taxRate : 15;
-
-        if (rate === 0) {
-            base0 += totalInclusive;
-        } else {
-            const base = totalInclusive / (1 + rate / 100);
-            base15 += base;
-            iva += totalInclusive - base;
-        }
-    }
-
-    return { base0: r2(base0), base15: r2(base15), iva: r2(iva), total: r2(base0 + base15 + iva) };
-}
-
-/** Mes de un documento en zona horaria Ecuador ('YYYY-MM') — el día fiscal es el ecuatoriano */
-export function monthKeyEcuador(dateStr: string | Date): string {
-    const d = dateStr instanceof Date ? dateStr : new Date(dateStr);
-    if (isNaN(d.getTime())) return '';
-    // GOTCHA Intl: si se pide solo año+mes, el 'month: 2-digit' se IGNORA y sale
-    // sin cero ('2026-7') — incluir day fuerza el patrón completo con padding.
-    // padStart de respaldo por si algún runtime/locale igual lo devuelve sin cero.
-    const parts = new Intl.DateTimeFormat('es-EC', {
-        timeZone: 'America/Guayaquil', year: 'numeric', month: '2-digit', day: '2-digit'
-    }).formatToParts(d);
-    const y = parts.find(p => p.type === 'year')?.value || '';
-    const m = parts.find(p => p.type === 'month')?.value || '';
-    return `${y}-${m.padStart(2, '0')}`;
-}
+const r2 = (n: number) => Math.round(n * 100) / 100;
 
 /** Fecha corta en zona Ecuador (dd/mm/yyyy) */
 function dateEcuador(dateStr: string | Date): string {
@@ -89,17 +52,22 @@ export class ExportController {
         private billRepository: IBillRepository,
         private orderRepository: IOrderRepository,
         private creditNoteRepository?: ICreditNoteRepository,
-        private configRepository?: IRestaurantConfigRepository
+        private configRepository?: IRestaurantConfigRepository,
+        private debitNoteRepository?: IDebitNoteRepository,
+        private withholdingRepository?: IWithholdingRepository,
+        private generateAts?: GenerateAts
     ) {}
 
     /**
      * Reporte Mensual para Declaración (Formulario 104 — IVA Ecuador).
      * GET /api/export/tax-report?month=MM&year=YYYY
      *
-     * Excel con 3 hojas:
+     * Excel con 5 hojas:
      *  1. Resumen — los números netos que van al formulario
      *  2. Facturas AUTORIZADAS del mes con desglose base 0% / base gravada / IVA
      *  3. Notas de crédito AUTORIZADAS del mes (restan)
+     *  4. Notas de débito AUTORIZADAS del mes (suman)
+     *  5. Retenciones que nos efectuaron los clientes (por fecha de la retención)
      *
      * Solo incluye documentos del AMBIENTE ACTIVO del sistema (pruebas o
      * producción) — jamás mezcla comprobantes de prueba en una declaración.
@@ -131,19 +99,35 @@ export class ExportController {
             ).sort((a: any, b: any) => new Date(a.date).getTime() - new Date(b.date).getTime());
             const billsExcludedByEnv = authorizedBillsInMonth.length - bills.length;
 
-            // Notas de crédito AUTORIZADAS del mes, del ambiente activo
-            // (la interfaz expone findPaginated; a escala de restaurante una página de 100 basta)
+            // Notas de crédito / débito AUTORIZADAS del mes, del ambiente activo
+            // (las interfaces exponen findPaginated; a escala de restaurante una página de 100 basta)
             const allCreditNotes = this.creditNoteRepository
                 ? (await this.creditNoteRepository.findPaginated(1, 100, { sriStatus: 'AUTORIZADO' }, { createdAt: -1 })).data
                 : [];
-            const authorizedNCInMonth = allCreditNotes.filter((cn: any) =>
-                cn.sriStatus === 'AUTORIZADO' &&
-                monthKeyEcuador(cn.date || cn.createdAt) === targetKey
-            );
-            const creditNotes = authorizedNCInMonth.filter((cn: any) =>
-                isProd ? cn.environment === '2' : cn.environment !== '2'
-            ).sort((a: any, b: any) => new Date(a.date).getTime() - new Date(b.date).getTime());
-            const ncExcludedByEnv = authorizedNCInMonth.length - creditNotes.length;
+            const allDebitNotes = this.debitNoteRepository
+                ? (await this.debitNoteRepository.findPaginated(1, 100, { sriStatus: 'AUTORIZADO' }, { createdAt: -1 })).data
+                : [];
+            const splitByEnvironment = (docs: any[]) => {
+                const inMonth = docs.filter((d: any) =>
+                    d.sriStatus === 'AUTORIZADO' &&
+                    monthKeyEcuador(d.date || d.createdAt) === targetKey
+                );
+                const included = inMonth.filter((d: any) =>
+                    isProd ? d.environment === '2' : d.environment !== '2'
+                ).sort((a: any, b: any) => new Date(a.date).getTime() - new Date(b.date).getTime());
+                return { included, excluded: inMonth.length - included.length };
+            };
+            const { included: creditNotes, excluded: ncExcludedByEnv } = splitByEnvironment(allCreditNotes);
+            const { included: debitNotes, excluded: ndExcludedByEnv } = splitByEnvironment(allDebitNotes);
+
+            // Retenciones recibidas: se declaran en el mes en que se EMITIÓ la retención
+            const allWithholdings = this.withholdingRepository
+                ? (await this.withholdingRepository.findPaginated(1, 100, {}, { issueDate: -1 })).data
+                : [];
+            const withholdings = allWithholdings.filter((w: any) =>
+                monthKeyEcuador(w.issueDate) === targetKey &&
+                (isProd ? w.environment === '2' : w.environment !== '2')
+            ).sort((a: any, b: any) => new Date(a.issueDate).getTime() - new Date(b.issueDate).getTime());
 
             logger.info('[ExportController] Tax report filter', {
                 period: targetKey,
@@ -151,7 +135,10 @@ export class ExportController {
                 billsIncluded: bills.length,
                 billsExcludedByEnv,
                 ncIncluded: creditNotes.length,
-                ncExcludedByEnv
+                ncExcludedByEnv,
+                ndIncluded: debitNotes.length,
+                ndExcludedByEnv,
+                withholdings: withholdings.length
             });
 
             const workbook = new ExcelJS.Workbook();
@@ -162,6 +149,46 @@ export class ExportController {
             const moneyCols = (ws: ExcelJS.Worksheet, keys: string[]) =>
                 keys.forEach(k => { ws.getColumn(k).numFmt = '$#,##0.00'; });
 
+            /** Hoja de detalle por documento con fila de TOTALES; devuelve los totales */
+            const addDocumentSheet = (name: string, docs: any[]): TaxBreakdown => {
+                const ws = workbook.addWorksheet(name);
+                ws.columns = [
+                    { header: 'Fecha', key: 'date', width: 12 },
+                    { header: 'Número', key: 'number', width: 20 },
+                    { header: 'Cliente', key: 'client', width: 30 },
+                    { header: 'RUC/CI', key: 'identification', width: 15 },
+                    { header: 'Base 0%', key: 'base0', width: 12 },
+                    { header: 'Base Gravada', key: 'base15', width: 14 },
+                    { header: 'IVA', key: 'iva', width: 12 },
+                    { header: 'Total', key: 'total', width: 12 }
+                ];
+                headerStyle(ws.getRow(1));
+
+                const totals = { base0: 0, base15: 0, iva: 0, total: 0 };
+                for (const doc of docs) {
+                    const bd = computeBreakdown(doc.items);
+                    totals.base0 += bd.base0;
+                    totals.base15 += bd.base15;
+                    totals.iva += bd.iva;
+                    totals.total += bd.total;
+                    ws.addRow({
+                        date: dateEcuador(doc.date || doc.createdAt),
+                        number: doc.documentNumber,
+                        client: doc.customerName,
+                        identification: doc.customerIdentification,
+                        base0: bd.base0, base15: bd.base15, iva: bd.iva, total: bd.total
+                    });
+                }
+                const totalRow = ws.addRow({
+                    client: 'TOTALES',
+                    base0: r2(totals.base0), base15: r2(totals.base15),
+                    iva: r2(totals.iva), total: r2(totals.total)
+                });
+                totalRow.font = { bold: true };
+                moneyCols(ws, ['base0', 'base15', 'iva', 'total']);
+                return totals;
+            };
+
             // ── Hoja 1: Resumen (creada primero para que abra el Excel; se llena al final) ──
             const wsSummary = workbook.addWorksheet('Resumen');
             wsSummary.columns = [
@@ -170,93 +197,64 @@ export class ExportController {
             ];
             headerStyle(wsSummary.getRow(1));
 
-            // ── Hoja 2: Facturas ─────────────────────────────────────────────
-            const wsBills = workbook.addWorksheet('Facturas');
-            wsBills.columns = [
-                { header: 'Fecha', key: 'date', width: 12 },
-                { header: 'Número', key: 'number', width: 20 },
-                { header: 'Cliente', key: 'client', width: 30 },
-                { header: 'RUC/CI', key: 'identification', width: 15 },
-                { header: 'Base 0%', key: 'base0', width: 12 },
-                { header: 'Base Gravada', key: 'base15', width: 14 },
-                { header: 'IVA', key: 'iva', width: 12 },
-                { header: 'Total', key: 'total', width: 12 }
-            ];
-            headerStyle(wsBills.getRow(1));
-
-            const billTotals = { base0: 0, base15: 0, iva: 0, total: 0 };
-            for (const bill of bills as any[]) {
-                const bd = computeBreakdown(bill.items);
-                billTotals.base0 += bd.base0;
-                billTotals.base15 += bd.base15;
-                billTotals.iva += bd.iva;
-                billTotals.total += bd.total;
-                wsBills.addRow({
-                    date: dateEcuador(bill.date || bill.createdAt),
-                    number: bill.documentNumber,
-                    client: bill.customerName,
-                    identification: bill.customerIdentification,
-                    base0: bd.base0, base15: bd.base15, iva: bd.iva, total: bd.total
-                });
-            }
-            const billTotalRow = wsBills.addRow({
-                client: 'TOTALES',
-                base0: r2(billTotals.base0), base15: r2(billTotals.base15),
-                iva: r2(billTotals.iva), total: r2(billTotals.total)
-            });
-            billTotalRow.font = { bold: true };
-            moneyCols(wsBills, ['base0', 'base15', 'iva', 'total']);
+            // ── Hojas 2-4: Facturas, Notas de Crédito, Notas de Débito ──────
+            const billTotals = addDocumentSheet('Facturas', bills);
+            const ncTotals = addDocumentSheet('Notas de Crédito', creditNotes);
+            // Los ítems de la nota de débito guardan total con IVA y taxRate: mismo desglose
+            const ndTotals = addDocumentSheet('Notas de Débito', debitNotes);
 
-            // ── Hoja 3: Notas de Crédito ─────────────────────────────────────
-            const wsNC = workbook.addWorksheet('Notas de Crédito');
-            wsNC.columns = [
+            // ── Hoja 5: Retenciones recibidas (una fila por impuesto retenido) ──
+            const wsWithholdings = workbook.addWorksheet('Retenciones');
+            wsWithholdings.columns = [
                 { header: 'Fecha', key: 'date', width: 12 },
-                { header: 'Número', key: 'number', width: 20 },
-                { header: 'Cliente', key: 'client', width: 30 },
-                { header: 'RUC/CI', key: 'identification', width: 15 },
-                { header: 'Base 0%', key: 'base0', width: 12 },
-                { header: 'Base Gravada', key: 'base15', width: 14 },
-                { header: 'IVA', key: 'iva', width: 12 },
-                { header: 'Total', key: 'total', width: 12 }
+                { header: 'Retención', key: 'number', width: 20 },
+                { header: 'Agente de retención', key: 'agent', width: 30 },
+                { header: 'RUC', key: 'identification', width: 15 },
+                { header: 'Factura', key: 'bill', width: 20 },
+                { header: 'Impuesto', key: 'taxType', width: 10 },
+                { header: 'Código', key: 'code', width: 8 },
+                { header: 'Base', key: 'base', width: 12 },
+                { header: '%', key: 'percentage', width: 6 },
+                { header: 'Retenido', key: 'amount', width: 12 }
             ];
-            headerStyle(wsNC.getRow(1));
-
-            const ncTotals = { base0: 0, base15: 0, iva: 0, total: 0 };
-            for (const cn of creditNotes as any[]) {
-                const bd = computeBreakdown(cn.items);
-                ncTotals.base0 += bd.base0;
-                ncTotals.base15 += bd.base15;
-                ncTotals.iva += bd.iva;
-                ncTotals.total += bd.total;
-                wsNC.addRow({
-                    date: dateEcuador(cn.date || cn.createdAt),
-                    number: cn.documentNumber,
-                    client: cn.customerName,
-                    identification: cn.customerIdentification,
-                    base0: bd.base0, base15: bd.base15, iva: bd.iva, total: bd.total
-                });
+            headerStyle(wsWithholdings.getRow(1));
+            const withheld = { iva: 0, renta: 0 };
+            for (const w of withholdings) {
+                withheld.iva += w.ivaWithheld;
+                withheld.renta += w.rentaWithheld;
+                for (const line of w.lines) {
+                    wsWithholdings.addRow({
+                        date: dateEcuador(w.issueDate),
+                        number: w.documentNumber,
+                        agent: w.agentName,
+                        identification: w.agentIdentification,
+                        bill: w.billDocumentNumber,
+                        taxType: line.taxType,
+                        code: line.code,
+                        base: line.baseAmount,
+                        percentage: line.percentage,
+                        amount: line.amount
+                    });
+                }
             }
-            const ncTotalRow = wsNC.addRow({
-                client: 'TOTALES',
-                base0: r2(ncTotals.base0), base15: r2(ncTotals.base15),
-                iva: r2(ncTotals.iva), total: r2(ncTotals.total)
-            });
-            ncTotalRow.font = { bold: true };
-            moneyCols(wsNC, ['base0', 'base15', 'iva', 'total']);
+            const withheldRow = wsWithholdings.addRow({ agent: 'TOTALES', amount: r2(withheld.iva + withheld.renta) });
+            withheldRow.font = { bold: true };
+            moneyCols(wsWithholdings, ['base', 'amount']);
 
             // ── Llenar la hoja Resumen (ya creada al inicio) ─────────────────
+            // Las notas de crédito restan y las de débito suman a las ventas del mes
             const net = {
-                base0: r2(billTotals.base0 - ncTotals.base0),
-                base15: r2(billTotals.base15 - ncTotals.base15),
-                iva: r2(billTotals.iva - ncTotals.iva)
+                base0: r2(billTotals.base0 - ncTotals.base0 + ndTotals.base0),
+                base15: r2(billTotals.base15 - ncTotals.base15 + ndTotals.base15),
+                iva: r2(billTotals.iva - ncTotals.iva + ndTotals.iva)
             };
 
             const monthName = new Intl.DateTimeFormat('es-EC', { month: 'long' }).format(new Date(year, month - 1, 15));
             wsSummary.addRow({ concept: `REPORTE MENSUAL — ${monthName.toUpperCase()} ${year} (ambiente: ${envLabel})`, value: '' }).font = { bold: true };
-            wsSummary.addRow({ concept: `Facturas autorizadas: ${bills.length} · Notas de crédito autorizadas: ${creditNotes.length}`, value: '' });
-            if (billsExcludedByEnv > 0 || ncExcludedByEnv > 0) {
+            wsSummary.addRow({ concept: `Facturas autorizadas: ${bills.length} · Notas de crédito autorizadas: ${creditNotes.length} · Notas de débito autorizadas: ${debitNotes.length} · Retenciones recibidas: ${withholdings.length}`, value: '' });
+            if (billsExcludedByEnv > 0 || ncExcludedByEnv > 0 || ndExcludedByEnv > 0) {
                 const warnRow = wsSummary.addRow({
-                    concept: `⚠️ Excluidos por pertenecer a OTRO ambiente: ${billsExcludedByEnv} factura(s), ${ncExcludedByEnv} NC — este reporte solo incluye ${envLabel}`,
+                    concept: `⚠️ Excluidos por pertenecer a OTRO ambiente: ${billsExcludedByEnv} factura(s), ${ncExcludedByEnv} NC, ${ndExcludedByEnv} ND — este reporte solo incluye ${envLabel}`,
                     value: ''
                 });
                 warnRow.font = { bold: true, color: { argb: 'FFB45309' } };
@@ -272,11 +270,20 @@ export class ExportController {
             wsSummary.addRow({ concept: 'NC tarifa gravada (base imponible)', value: r2(ncTotals.base15) });
             wsSummary.addRow({ concept: 'IVA en notas de crédito', value: r2(ncTotals.iva) });
             wsSummary.addRow({ concept: '', value: '' });
+            wsSummary.addRow({ concept: 'NOTAS DE DÉBITO (suman)', value: '' }).font = { bold: true };
+            wsSummary.addRow({ concept: 'ND tarifa 0% (base imponible)', value: r2(ndTotals.base0) });
+            wsSummary.addRow({ concept: 'ND tarifa gravada (base imponible)', value: r2(ndTotals.base15) });
+            wsSummary.addRow({ concept: 'IVA en notas de débito', value: r2(ndTotals.iva) });
+            wsSummary.addRow({ concept: '', value: '' });
             const netTitle = wsSummary.addRow({ concept: 'NETOS PARA DECLARACIÓN (Formulario 104)', value: '' });
             netTitle.font = { bold: true };
             wsSummary.addRow({ concept: 'Ventas netas tarifa 0%', value: net.base0 }).font = { bold: true };
             wsSummary.addRow({ concept: 'Ventas netas tarifa gravada', value: net.base15 }).font = { bold: true };
             wsSummary.addRow({ concept: 'IVA neto en ventas', value: net.iva }).font = { bold: true };
+            wsSummary.addRow({ concept: '', value: '' });
+            wsSummary.addRow({ concept: 'RETENCIONES QUE LE HAN SIDO EFECTUADAS', value: '' }).font = { bold: true };
+            wsSummary.addRow({ concept: 'Retenciones de IVA (crédito tributario)', value: r2(withheld.iva) });
+            wsSummary.addRow({ concept: 'Retenciones en la fuente de impuesto a la renta', value: r2(withheld.renta) });
             wsSummary.getColumn('value').numFmt = '$#,##0.00';
 
             res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
@@ -285,7 +292,8 @@ export class ExportController {
             res.end();
 
             logger.info('[ExportController] Tax report exported', {
-                period: targetKey, environment: envLabel, bills: bills.length, creditNotes: creditNotes.length
+                period: targetKey, environment: envLabel, bills: bills.length, creditNotes: creditNotes.length, debitNotes: debitNotes.length,
+                withholdings: withholdings.length
             });
         } catch (error) {
             logger.error('[ExportController] Error exporting tax report', error);
@@ -293,6 +301,42 @@ export class ExportController {
         }
     }
 
+    /**
+     * Anexo Transaccional Simplificado (ATS) del mes, listo para cargar en el DIMM.
+     * GET /api/export/ats?month=MM&year=YYYY
+     *
+     * Mismos comprobantes que el reporte 104 (AUTORIZADOS del ambiente activo).
+     * Si el anexo no pasa la validación responde 400 con la lista de errores.
+     */
+    async exportAts(req: Request, res: Response): Promise<void> {
+        try {
+            const month = parseInt(req.query.month as string, 10);
+            const year = parseInt(req.query.year as string, 10);
+
+            if (!month || month < 1 || month > 12 || !year || year < 2020 || year > 2100) {
+                res.status(400).json({ error: 'Parámetros inválidos: se requiere month (1-12) y year' });
+                return;
+            }
+            if (!this.generateAts) {
+                res.status(500).json({ error: 'Generación del ATS no disponible' });
+                return;
+            }
+
+            const { xml, fileName } = await this.generateAts.execute(month, year);
+
+            res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+            res.setHeader('Content-Disposition', `attachment; filename=${fileName}`);
+            res.send(xml);
+        } catch (error) {
+            if (error instanceof ValidationError) {
+                res.status(400).json({ error: error.message, errors: error.metadata?.errors });
+                return;
+            }
+            logger.error('[ExportController] Error exporting ATS', error);
+            res.status(500).json({ error: 'Error al generar el ATS' });
+        }
+    }
+
     /**
      * Exporta el menú completo con categorías, precios e ingredientes en Excel
      */
@@ -464,9 +508,10 @@ export class ExportController {
             const orders = await this.orderRepository.findAll();
 
             // Generar CSV
-            const csvHeader = 'Número Orden,Cliente,Tipo,Estado,Items,Fecha\n';
+            const csvHeader = 'Número Orden,Cliente,Tipo,Estado,Items,Fecha,Motivo Cancelación,Cancelado Por,Fecha Cancelación,Historial de Estados\n';
             const csvRows = orders.map(order => {
                 const itemsNames = order.items?.map(item => item.name).join('; ') || '';
+                const cancellation = order.cancellation;
 
                 return [
                     order.orderNumber || '',
@@ -474,8 +519,12 @@ export class ExportController {
                     order.type || '',
                     order.status || '',
                     itemsNames,
-                    order.createdAt ? new Date(order.createdAt).toLocaleDateString('es-EC') : ''
-                ].map(field => `"${field}"`).join(',');
+                    order.createdAt ? new Date(order.createdAt).toLocaleDateString('es-EC') : '',
+                    cancellation?.reason || '',
+                    cancellation?.by || '',
+                    cancellation?.at ? new Date(cancellation.at).toLocaleString('es-EC', { timeZone: 'America/Guayaquil' }) : '',
+                    this.formatStatusHistory(order)
+                ].map(field => `"${String(field).replace(/"/g, '""')}"`).join(',');
             }).join('\n');
 
             const csvContent = csvHeader + csvRows;
@@ -492,4 +541,16 @@ export class ExportController {
             res.status(500).json({ error: 'Error al exportar órdenes' });
         }
     }
+
+    /**
+     * Historial de estados en una sola celda: "Nuevo 10:02 (ana) → Listo 10:20"
+     */
+    private formatStatusHistory(order: Order): string {
+        return (order.statusHistory || []).map(change => {
+            const time = new Date(change.at).toLocaleTimeString('es-EC', {
+                hour: '2-digit', minute: '2-digit', timeZone: 'America/Guayaquil'
+            });
+            return `${change.status} ${time}${change.by ? ` (${change.by})` : ''}`;
+        }).join(' → ');
+    }
 }
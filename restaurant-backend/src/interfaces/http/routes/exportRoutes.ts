@@ -8,6 +8,7 @@
  * GET /api/export/bills - Exportar facturas (Excel)
  * GET /api/export/orders - Exportar órdenes (CSV)
  * GET /api/export/tax-report?month=MM&year=YYYY - Reporte mensual para declaración 104 (Excel)
+ * GET /api/export/ats?month=MM&year=YYYY - Anexo Transaccional Simplificado (XML)
  */
 
 import { Router } from 'express';
@@ -18,6 +19,9 @@ import { MongoBillRepository } from '../../../infrastructure/repositories/MongoB
 import { MongoOrderRepository } from '../../../infrastructure/repositories/MongoOrderRepository';
 import { MongoCreditNoteRepository } from '../../../infrastructure/repositories/MongoCreditNoteRepository';
 import { MongoRestaurantConfigRepository } from '../../../infrastructure/repositories/MongoRestaurantConfigRepository';
+import { MongoDebitNoteRepository } from '../../../infrastructure/repositories/MongoDebitNoteRepository';
+import { MongoWithholdingRepository } from '../../../infrastructure/repositories/MongoWithholdingRepository';
+import { container } from '../../../infrastructure/di/DIContainer';
 import { jwtAuthMiddleware } from '../../../infrastructure/web/middleware/JWTAuthMiddleware';
 
 const router = Router();
@@ -29,6 +33,8 @@ const billRepository = new MongoBillRepository();
 const orderRepository = new MongoOrderRepository();
 const creditNoteRepository = new MongoCreditNoteRepository();
 const configRepository = new MongoRestaurantConfigRepository();
+const debitNoteRepository = new MongoDebitNoteRepository();
+const withholdingRepository = new MongoWithholdingRepository();
 
 // Inicializar controlador
 const exportController = new ExportController(
@@ -37,7 +43,10 @@ const exportController = new ExportController(
     billRepository,
     orderRepository,
     creditNoteRepository,
-    configRepository
+    configRepository,
+    debitNoteRepository,
+    withholdingRepository,
+    container.getGenerateAtsUseCase()
 );
 
 // Rutas de exportación
@@ -47,5 +56,6 @@ router.get('/bills', (req, res) => exportController.exportBills(req, res));
 router.get('/orders', (req, res) => exportController.exportOrders(req, res));
 // Reporte mensual para declaración (Formulario 104) — datos fiscales, requiere sesión
 router.get('/tax-report', jwtAuthMiddleware, (req, res) => exportController.exportTaxReport(req, res));
+router.get('/ats', jwtAuthMiddleware, (req, res) => exportController.exportAts(req, res));
 
 export default router;
@@ -32,14 +32,25 @@ import billRoutes from './infrastructure/web/routes/billRoutes';
 import employeeRoutes from './infrastructure/web/routes/employeeRoutes';
 import roleRoutes from './infrastructure/web/routes/roleRoutes';
 import creditNoteRoutes from './infrastructure/web/routes/creditNoteRoutes';
+import purchaseSettlementRoutes from './infrastructure/web/routes/purchaseSettlementRoutes';
+import debitNoteRoutes from './infrastructure/web/routes/debitNoteRoutes';
+import withholdingRoutes from './infrastructure/web/routes/withholdingRoutes';
+import sequentialRoutes from './infrastructure/web/routes/sequentialRoutes';
+import taxRateRoutes from './infrastructure/web/routes/taxRateRoutes';
+import invoicePortalRoutes from './infrastructure/web/routes/invoicePortalRoutes';
+import emailDeliveryRoutes from './infrastructure/web/routes/emailDeliveryRoutes';
 import dashboardRoutes from './infrastructure/web/routes/dashboard.routes';
 import metricsRoutes from './infrastructure/web/routes/metricsRoutes';
 import categoryRoutes from './infrastructure/web/routes/categoryRoutes';
+import tableRoutes from './infrastructure/web/routes/tableRoutes';
+import cashRoutes from './infrastructure/web/routes/cashRoutes';
+import inventoryRoutes from './infrastructure/web/routes/inventoryRoutes';
 
 import { cacheService } from './infrastructure/utils/CacheService';
 import { container } from './infrastructure/di/DIContainer';
 import { getWhatsAppChatbot, getWhatsAppClient, isWhatsAppEnabled } from './infrastructure/services/whatsapp';
 import { whatsAppSocketManager } from './infrastructure/websocket/WhatsAppSocketManager';
+import { orderSocketManager } from './infrastructure/websocket/OrderSocketManager';
 import { OrderStatus } from './domain/entities/Order';
 
 
@@ -98,7 +109,15 @@ app.use(cors({
 }));
 app.use(helmet());
 app.use(compression()); // Enable gzip compression for responses
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({
+    limit: '10mb',
+    // Los webhooks firmados se verifican sobre el body crudo, no sobre el JSON re-serializado
+    verify: (req, _res, buf) => {
+        if ((req as any).originalUrl?.startsWith('/api/email-deliveries/webhooks/')) {
+            (req as any).rawBody = buf;
+        }
+    }
+}));
 app.use(express.urlencoded({ limit: '10mb', extended: true }));
 
 // Rate limiting to prevent abuse
@@ -163,7 +182,17 @@ app.use('/api/billing', billingRoutes); // Generación de XML SRI
 app.use('/api/employees', employeeRoutes);
 app.use('/api/roles', roleRoutes);
 app.use('/api/categories', categoryRoutes); // Categorías de productos
+app.use('/api/tables', tableRoutes); // Mesas y plano de salón
+app.use('/api/cash-sessions', cashRoutes); // Apertura y cierre de caja
+app.use('/api/inventory', inventoryRoutes); // Ingredientes, recetas y kardex
 app.use('/api/credit-notes', creditNoteRoutes); // Notas de crédito SRI
+app.use('/api/purchase-settlements', purchaseSettlementRoutes); // Liquidaciones de compra SRI
+app.use('/api/debit-notes', debitNoteRoutes); // Notas de débito SRI
+app.use('/api/withholdings', withholdingRoutes); // Retenciones recibidas de clientes
+app.use('/api/sequentials', sequentialRoutes); // Auditoría de secuenciales (solo admin)
+app.use('/api/tax-rates', taxRateRoutes); // IVA vigente al cobrar y re-precio del menú (solo admin)
+app.use('/api/public/invoices', invoicePortalRoutes); // Portal público de descarga de facturas (sin login)
+app.use('/api/email-deliveries', emailDeliveryRoutes); // Reenvío de comprobantes por email y webhook de rebotes
 app.use('/api/dashboard', dashboardRoutes);
 app.use('/api/whatsapp', whatsappApiRoutes); // WhatsApp API para frontend
 app.use('/api/export', exportRoutes); // Exportación de datos (Excel/CSV)
@@ -320,6 +349,9 @@ const startServer = async () => {
         // Crear servidor HTTP
         const server = http.createServer(app);
 
+        // WebSocket para sincronizar pedidos entre dispositivos
+        orderSocketManager.initialize(server);
+
         // WebSocket para QR en tiempo real
         if (isWhatsAppEnabled()) {
             whatsAppSocketManager.initialize(server);
@@ -331,6 +363,7 @@ const startServer = async () => {
             logger.info(`✅ Server running on port ${PORT}`);
             logger.info(`🌐 Backend ready at http://localhost:${PORT}`);
             logger.info(`💚 Health check: http://localhost:${PORT}/health`);
+            logger.info(`🔄 Orders WebSocket: ws://localhost:${PORT}/ws/orders`);
             if (isWhatsAppEnabled()) {
                 logger.info(`📱 WhatsApp WebSocket: ws://localhost:${PORT}/ws/whatsapp`);
             }
@@ -178,7 +178,7 @@ const seedData = async () => {
         const rolesData = [
             {
                 name: 'Administrador',
-                permissions: { dashboard: true, orders: true, customers: true, menu: true, kitchen: true, hr: true, billing: true, settings: true, whatsapp: true },
+                permissions: { dashboard: true, orders: true, customers: true, menu: true, kitchen: true, hr: true, billing: true, cash: true, inventory: true, settings: true, whatsapp: true },
                 isSystem: true
             },
             {
@@ -187,11 +187,11 @@ const seedData = async () => {
             },
             {
                 name: 'Chef',
-                permissions: { dashboard: true, orders: true, menu: true, kitchen: true }
+                permissions: { dashboard: true, orders: true, menu: true, kitchen: true, inventory: true }
             },
             {
                 name: 'Cajero',
-                permissions: { dashboard: true, orders: true, customers: true, billing: true }
+                permissions: { dashboard: true, orders: true, customers: true, billing: true, cash: true }
             }
         ];
 
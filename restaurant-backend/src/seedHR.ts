@@ -29,6 +29,8 @@ const seedRoles = async () => {
                 kitchen: true,
                 hr: true,
                 billing: true,
+                cash: true,
+                inventory: true,
                 settings: true,
                 whatsapp: true
             },
@@ -50,7 +52,8 @@ const seedRoles = async () => {
                 dashboard: true,
                 orders: true,
                 menu: true,
-                kitchen: true
+                kitchen: true,
+                inventory: true
             }
         },
         {
@@ -59,7 +62,8 @@ const seedRoles = async () => {
                 dashboard: true,
                 orders: true,
                 customers: true,
-                billing: true
+                billing: true,
+                cash: true
             }
         }
     ];
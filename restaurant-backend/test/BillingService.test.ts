@@ -68,6 +68,35 @@ describe('BillingService', () => {
         });
     });
 
+    describe('calculateDetails with modifiers', () => {
+        it('should describe the chosen modifiers in the invoice line', () => {
+            const items = [{
+                name: 'Ceviche',
+                quantity: 1,
+                total: 14.5,
+                modifiers: [
+                    { groupName: 'Tamaño', type: 'size', name: 'Grande', priceDelta: 3 },
+                    { groupName: 'Extras', type: 'extra', name: 'Chifles', priceDelta: 1.5 },
+                    { groupName: 'Sin', type: 'removal', name: 'Cebolla', priceDelta: 0 }
+                ]
+            }];
+
+            const [detail] = billingService.calculateDetails(items, 15);
+
+            expect(detail.descripcion).toBe('Ceviche (Grande, + Chifles, sin cebolla)');
+            expect(detail.codigoPrincipal).toBe('CEVICHE');
+            expect(detail.total).toBe(14.5);
+        });
+
+        it('should keep the description within the SRI limit', () => {
+            const modifiers = Array.from({ length: 40 }, (_, i) => ({ groupName: 'Extras', type: 'extra', name: `Adicional ${i}`, priceDelta: 0 }));
+            const [detail] = billingService.calculateDetails([{ name: 'Bandeja', quantity: 1, price: 10, modifiers }], 15);
+
+            expect(detail.descripcion.length).toBe(300);
+            expect(detail.descripcion.endsWith('...')).toBe(true);
+        });
+    });
+
     describe('getTaxCode', () => {
         it('should return correct codes for various rates', () => {
             expect(billingService.getTaxCode(15)).toBe('4');
@@ -116,6 +116,41 @@ describe('MongoOrderRepository Integration Tests', () => {
         expect(factura?.total).toBe(30.00);
     });
 
+    it('should keep cancelled orders out of sales and report them apart', async () => {
+        const today = new Date();
+        await repository.create({
+            customerName: 'Vendido',
+            items: [{ name: 'Ceviche', quantity: 1, price: 12 }],
+            type: 'En Local',
+            status: OrderStatus.Completed,
+            createdAt: today
+        } as any);
+        await repository.create({
+            customerName: 'Cancelado',
+            items: [{ name: 'Encebollado', quantity: 2, price: 5 }],
+            type: 'En Local',
+            status: OrderStatus.Cancelled,
+            cancellation: { reason: 'Cliente se retiró', by: 'ana', at: today },
+            createdAt: today
+        } as any);
+
+        const start = new Date(today);
+        start.setHours(0, 0, 0, 0);
+        const end = new Date(today);
+        end.setHours(23, 59, 59, 999);
+
+        const stats = await repository.getDashboardStats(start, end);
+
+        expect(stats.totalOrders).toBe(1);
+        expect(stats.totalRevenue).toBe(12);
+        expect(stats.topSellingItems.find(i => i.name === 'Encebollado')).toBeUndefined();
+        expect(stats.cancellations).toEqual({
+            count: 1,
+            lostRevenue: 10,
+            byReason: [{ reason: 'Cliente se retiró', count: 1 }]
+        });
+    });
+
     it('should group revenue by month for ranges larger than 32 days', async () => {
         const date1 = new Date('2026-01-15T12:00:00Z');
         const date2 = new Date('2026-02-15T12:00:00Z');
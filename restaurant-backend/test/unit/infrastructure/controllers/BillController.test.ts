@@ -41,7 +41,8 @@ describe('BillController - generateXml', () => {
             getIdentificacionType: vi.fn().mockReturnValue('05'),
             getPaymentMethodCode: vi.fn().mockReturnValue('01'),
             formatDateToSRI: vi.fn().mockReturnValue('21/03/2024'),
-            buildItemCode: vi.fn().mockReturnValue('PLT-TEST01')
+            buildItemCode: vi.fn().mockReturnValue('PLT-TEST01'),
+            calculateDetails: vi.fn().mockReturnValue([])
         };
 
         billController = new BillController(
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import { PDFService } from '../../../../src/infrastructure/services/PDFService';
+import { normalizePrintLayout, DEFAULT_PRINT_LAYOUT } from '../../../../src/domain/billing/printLayout';
+import { ValidationError } from '../../../../src/domain/errors/CustomErrors';
+
+const accessKey = '1910202601179001234500110010010000000701234567811';
+
+const info = {
+    ambiente: '1', razonSocial: 'Picantería Miraflores S.A.', nombreComercial: 'Picantería Miraflores', ruc: '1790012345001',
+    claveAcceso: accessKey, estab: '001', ptoEmi: '001', secuencial: '000000070', dirMatriz: 'Av. Eugenio Espejo', fechaEmision: '19/10/2026'
+};
+
+const invoice: any = {
+    info: {
+        ...info,
+        razonSocialComprador: 'Ana Pérez', identificacionComprador: '1712345678', direccionComprador: 'S/N',
+        totalDescuento: 0, importeTotal: 11.5, pagos: [{ formaPago: '01', total: 11.5 }]
+    },
+    detalles: [{ cantidad: 1, descripcion: 'Seco de chivo', precioUnitario: 10, precioTotalSinImpuesto: 10, descuento: 0, impuestos: [{ tarifa: 15, valor: 1.5 }] }]
+};
+
+const creditNote: any = {
+    info: {
+        ...info,
+        razonSocialComprador: 'Ana Pérez', identificacionComprador: '1712345678',
+        numDocModificado: '001-001-000000070', fechaEmisionDocSustento: '18/10/2026', motivo: 'Devolución', importeTotal: 11.5
+    },
+    detalles: [{ cantidad: 1, descripcion: 'Seco de chivo', precioUnitario: 10, precioTotalSinImpuesto: 10, impuestos: [{ tarifa: 15, valor: 1.5 }] }]
+};
+
+const pageWidth = (pdf: Buffer) => Number(/\/MediaBox \[0 0 ([\d.]+) /.exec(pdf.toString('latin1'))?.[1]);
+
+describe('PDFService print layout', () => {
+    let service: PDFService;
+    let printed: string[];
+
+    beforeEach(() => {
+        service = new PDFService();
+        printed = [];
+        const text = PDFDocument.prototype.text;
+        vi.spyOn(PDFDocument.prototype, 'text').mockImplementation(function (this: any, value: any, ...rest: any[]) {
+            printed.push(String(value));
+            return text.call(this, value, ...rest);
+        });
+        vi.spyOn(QRCode, 'toDataURL');
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('prints the invoice on a 58 mm roll with the custom footer and no QR', async () => {
+        const pdf = await service.generateInvoicePDF(invoice, {
+            format: 'ticket', ticketWidth: 58, showQr: false, footerText: 'Wifi: miraflores2026'
+        });
+
+        expect(pageWidth(pdf)).toBe(164);
+        expect(printed).toContain('Wifi: miraflores2026');
+        expect(QRCode.toDataURL).not.toHaveBeenCalled();
+    });
+
+    it('prints credit notes with the same template and keeps A4 by default', async () => {
+        const ticket = await service.generateCreditNotePDF(creditNote, { ...DEFAULT_PRINT_LAYOUT, format: 'ticket' });
+        expect(pageWidth(ticket)).toBe(226);
+        expect(printed).toContain('NOTA DE CRÉDITO ELECTRÓNICA');
+        expect(QRCode.toDataURL).toHaveBeenCalledWith(accessKey, expect.any(Object));
+
+        const a4 = await service.generateInvoicePDF(invoice);
+        expect(pageWidth(a4)).toBeCloseTo(595.28, 1);
+    });
+
+    it('validates the template saved in the configuration', () => {
+        expect(normalizePrintLayout({ format: 'ticket', ticketWidth: '58', footerText: '  Cambios hasta 24 h \n\n@miraflores  ' }))
+            .toEqual({ format: 'ticket', ticketWidth: 58, showLogo: true, showQr: true, footerText: 'Cambios hasta 24 h\n@miraflores' });
+        expect(() => normalizePrintLayout({ ticketWidth: 76 })).toThrow(ValidationError);
+        expect(() => normalizePrintLayout({ footerText: Array(8).fill('línea').join('\n') })).toThrow('El pie del RIDE admite hasta 6 líneas');
+    });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { SRISimulator } from '../../../../src/infrastructure/services/sri/simulator';
+import { SRISender } from '../../../../src/infrastructure/services/sri/SRISender';
+import { SRIAuthorizer } from '../../../../src/infrastructure/services/sri/SRIAuthorizer';
+import { AccessKeyGenerator } from '../../../../src/infrastructure/services/sri/AccessKeyGenerator';
+import { sriCircuitBreaker, CircuitState } from '../../../../src/infrastructure/utils/CircuitBreaker';
+import { getSRIWebServiceUrl } from '../../../../src/infrastructure/services/sri/endpoints';
+
+describe('SRISimulator', () => {
+    const simulator = new SRISimulator();
+    const sender = new SRISender();
+    const authorizer = new SRIAuthorizer();
+    const keys = new AccessKeyGenerator();
+
+    const accessKeyFor = (secuencial: string) => keys.generateAccessKey({
+        fechaEmision: '19/10/2026',
+        codDoc: '01',
+        ruc: '1712345678001',
+        ambiente: '1',
+        estab: '001',
+        ptoEmi: '001',
+        secuencial,
+        codigoNumerico: '12345678'
+    });
+
+    const signature = `<ds:Signature xmlns:ds="http://www.w3.org/2000/09/xmldsig#" Id="Signature1">
+    <ds:SignedInfo><ds:Reference URI="#comprobante"/></ds:SignedInfo>
+    <ds:SignatureValue>c2lnbmF0dXJl</ds:SignatureValue>
+    <ds:KeyInfo><ds:X509Data><ds:X509Certificate>Y2VydA==</ds:X509Certificate></ds:X509Data></ds:KeyInfo>
+    <ds:Object><etsi:QualifyingProperties xmlns:etsi="http://uri.etsi.org/01903/v1.3.2#"><etsi:SignedProperties Id="SignedProperties1"/></etsi:QualifyingProperties></ds:Object>
+  </ds:Signature>`;
+
+    const invoice = (secuencial: string, options: { accessKey?: string; signed?: boolean } = {}) => `<?xml version="1.0" encoding="UTF-8"?>
+<factura id="comprobante" version="1.1.0">
+  <infoTributaria>
+    <ambiente>1</ambiente>
+    <tipoEmision>1</tipoEmision>
+    <razonSocial>Picantería Miraflores</razonSocial>
+    <ruc>1712345678001</ruc>
+    <claveAcceso>${options.accessKey || accessKeyFor(secuencial)}</claveAcceso>
+    <codDoc>01</codDoc>
+    <estab>001</estab>
+    <ptoEmi>001</ptoEmi>
+    <secuencial>${secuencial}</secuencial>
+    <dirMatriz>Portoviejo</dirMatriz>
+  </infoTributaria>
+  ${options.signed === false ? '' : signature}
+</factura>`;
+
+    beforeAll(async () => {
+        process.env.SRI_SIMULATOR_URL = await simulator.start();
+    });
+
+    afterAll(async () => {
+        delete process.env.SRI_SIMULATOR_URL;
+        sriCircuitBreaker.reset();
+        await simulator.stop();
+    });
+
+    beforeEach(() => {
+        simulator.reset();
+        sriCircuitBreaker.reset();
+    });
+
+    it('routes both web services to the simulator only outside production', () => {
+        expect(getSRIWebServiceUrl('RecepcionComprobantesOffline', true))
+            .toBe(`${process.env.SRI_SIMULATOR_URL}/comprobantes-electronicos-ws/RecepcionComprobantesOffline?wsdl`);
+
+        const nodeEnv = process.env.NODE_ENV;
+        process.env.NODE_ENV = 'production';
+        try {
+            expect(getSRIWebServiceUrl('AutorizacionComprobantesOffline', true))
+                .toBe('https://cel.sri.gob.ec/comprobantes-electronicos-ws/AutorizacionComprobantesOffline?wsdl');
+        } finally {
+            process.env.NODE_ENV = nodeEnv;
+        }
+    });
+
+    it('receives and authorizes a signed invoice', async () => {
+        const key = accessKeyFor('000000101');
+
+        const reception = await sender.sendToSRI(invoice('000000101'));
+        expect(reception.estado).toBe('RECIBIDA');
+
+        const auth = await authorizer.authorizeInvoice(key);
+        expect(auth.estado).toBe('AUTORIZADO');
+        expect(auth.numeroAutorizacion).toBe(key);
+        expect(auth.fechaAutorizacion).toMatch(/-05:00$/);
+        expect(auth.comprobanteAutorizado).toContain(`<claveAcceso>${key}</claveAcceso>`);
+
+        // Reenviar una clave ya autorizada
+        const again = await sender.sendToSRI(invoice('000000101'));
+        expect(again.estado).toBe('DEVUELTA');
+        expect(again.mensajes).toEqual(['CLAVE ACCESO REGISTRADA']);
+    });
+
+    it('answers EN PROCESO for the configured polls before the final state', async () => {
+        const key = accessKeyFor('000000102');
+        simulator.setScenario({ pendingPolls: 2 }, key);
+
+        await sender.sendToSRI(invoice('000000102'));
+        expect((await authorizer.authorizeInvoice(key)).estado).toBe('EN PROCESO');
+
+        const final = await authorizer.pollUntilAuthorized(key, false, 5, 1);
+        expect(final.estado).toBe('AUTORIZADO');
+        expect(simulator.getDocument(key)?.polls).toBe(3);
+    });
+
+    it('reproduces rejections with SRI error codes', async () => {
+        const duplicatedKey = accessKeyFor('000000103');
+        simulator.setScenario({ reception: 'DEVUELTA', errorCode: '45' }, duplicatedKey);
+        await expect(sender.sendToSRI(invoice('000000103'))).rejects.toThrow(/Error de Secuencia/);
+
+        simulator.setScenario({ authorization: 'NO AUTORIZADO', errorCode: '52' });
+        await sender.sendToSRI(invoice('000000104'));
+        const rejected = await authorizer.authorizeInvoice(accessKeyFor('000000104'));
+        expect(rejected.estado).toBe('NO AUTORIZADO');
+        expect(rejected.mensajes).toEqual(['ERROR EN DIFERENCIAS']);
+    });
+
+    it('validates the access key and the signature of the voucher', async () => {
+        const key = accessKeyFor('000000105');
+        const wrongDigit = key.slice(0, 48) + ((parseInt(key.charAt(48), 10) + 1) % 10);
+        const invalid = await sender.sendToSRI(invoice('000000105', { accessKey: wrongDigit }));
+        expect(invalid.estado).toBe('DEVUELTA');
+        expect(invalid.mensajes).toEqual(['ARCHIVO NO CUMPLE ESTRUCTURA XML']);
+
+        const mismatch = await sender.sendToSRI(invoice('000000106', { accessKey: accessKeyFor('000000107') }));
+        expect(mismatch.estado).toBe('DEVUELTA');
+
+        await sender.sendToSRI(invoice('000000108', { signed: false }));
+        const unsigned = await authorizer.authorizeInvoice(accessKeyFor('000000108'));
+        expect(unsigned.estado).toBe('NO AUTORIZADO');
+        expect(unsigned.mensajes).toEqual(['FIRMA INVALIDA']);
+    });
+
+    it('opens the circuit breaker during a simulated outage', async () => {
+        simulator.setAvailable(false);
+
+        for (let i = 0; i < 5; i++) {
+            await expect(sender.sendToSRI(invoice('000000109'))).rejects.toThrow(/Error 500/);
+        }
+        expect(sriCircuitBreaker.getState().state).toBe(CircuitState.OPEN);
+
+        simulator.setAvailable(true);
+        await expect(sender.sendToSRI(invoice('000000109'))).rejects.toThrow(/temporalmente no disponible/);
+        expect(simulator.getDocument(accessKeyFor('000000109'))).toBeUndefined();
+    });
+});
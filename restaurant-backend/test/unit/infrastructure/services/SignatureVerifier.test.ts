@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import * as crypto from 'crypto';
+import forge from 'node-forge';
+import { signInvoiceXml } from 'ec-sri-invoice-signer';
+import { SignatureVerifier } from '../../../../src/infrastructure/services/sri/SignatureVerifier';
+import { XMLGenerator } from '../../../../src/infrastructure/services/sri/XMLGenerator';
+import { Invoice } from '../../../../src/domain/billing/invoice';
+
+const RUC = '1712345678001';
+
+interface TestIdentity {
+    key: forge.pki.rsa.PrivateKey;
+    cert: forge.pki.Certificate;
+}
+
+const createIdentity = (commonName: string, issuer?: TestIdentity, validity?: { from: Date; to: Date }): TestIdentity => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const key = forge.pki.privateKeyFromPem(privateKey.export({ type: 'pkcs1', format: 'pem' }).toString()) as forge.pki.rsa.PrivateKey;
+    const cert = forge.pki.createCertificate();
+    cert.publicKey = forge.pki.publicKeyFromPem(publicKey.export({ type: 'spki', format: 'pem' }).toString());
+    cert.serialNumber = crypto.randomBytes(8).toString('hex').replace(/^[89a-f]/, '1');
+    cert.validity.notBefore = validity?.from || new Date(Date.now() - 24 * 3600 * 1000);
+    cert.validity.notAfter = validity?.to || new Date(Date.now() + 365 * 24 * 3600 * 1000);
+    cert.setSubject([{ name: 'commonName', value: commonName }, { name: 'countryName', value: 'EC' }]);
+    cert.setIssuer((issuer?.cert || cert).subject.attributes);
+    if (!issuer) cert.setExtensions([{ name: 'basicConstraints', cA: true }, { name: 'keyUsage', keyCertSign: true }]);
+    cert.sign(issuer?.key || key, forge.md.sha256.create());
+    return { key, cert };
+};
+
+const toP12 = (identity: TestIdentity, chain: TestIdentity[] = []): Buffer => {
+    const asn1 = forge.pkcs12.toPkcs12Asn1(identity.key, [identity.cert, ...chain.map(c => c.cert)], 'secreto', { algorithm: '3des' });
+    return Buffer.from(forge.asn1.toDer(asn1).getBytes(), 'binary');
+};
+
+const toX509 = (identity: TestIdentity) => new crypto.X509Certificate(forge.pki.certificateToPem(identity.cert));
+
+describe('SignatureVerifier', () => {
+    let ca: TestIdentity;
+    let signer: TestIdentity;
+    let signedXml: string;
+
+    const invoiceXml = () => new XMLGenerator().generateInvoiceXML({
+        orderId: 'order-1',
+        status: 'PENDING',
+        detalles: [{
+            codigoPrincipal: 'CEV-001', descripcion: 'Ceviche mixto', cantidad: 2, precioUnitario: 8.695652, descuento: 0, precioTotalSinImpuesto: 17.39,
+            impuestos: [{ codigo: '2', codigoPorcentaje: '4', tarifa: 15, baseImponible: 17.39, valor: 2.61 }]
+        }],
+        info: {
+            ambiente: '1', tipoEmision: '1', razonSocial: 'Picantería Miraflores', ruc: RUC, dirMatriz: 'Av. Manabí y 10 de Agosto',
+            codDoc: '01', estab: '001', ptoEmi: '001', secuencial: '000000101', fechaEmision: '19/10/2026', obligadoContabilidad: 'NO',
+            tipoIdentificacionComprador: '05', razonSocialComprador: 'María Zambrano', identificacionComprador: '1712345678',
+            totalSinImpuestos: 17.39, totalDescuento: 0, totalImpuestos: [], importeTotal: 20, moneda: 'DOLAR'
+        }
+    } as Invoice);
+
+    const byId = (report: { checks: { id: string }[] }, id: string) => report.checks.find(c => c.id === id);
+
+    beforeAll(() => {
+        ca = createIdentity('AC Pruebas Miraflores');
+        signer = createIdentity('PICANTERIA MIRAFLORES', ca);
+        signedXml = signInvoiceXml(invoiceXml(), toP12(signer), { pkcs12Password: 'secreto' });
+    });
+
+    it('accepts an intact document signed by a trusted CA, also inside the SRI authorization', () => {
+        const verifier = new SignatureVerifier([toX509(ca)]);
+
+        const report = verifier.verify(signedXml, RUC);
+
+        expect(report.checks.filter(c => c.status !== 'OK')).toEqual([]);
+        expect(report.checks.map(c => c.id)).toEqual([
+            'document-digest', 'signed-properties-digest', 'key-info-digest',
+            'signature-value', 'signing-certificate', 'certificate-validity', 'certificate-chain',
+            'access-key', 'ruc'
+        ]);
+        expect(report).toMatchObject({ verdict: 'VALID', valid: true, documentType: 'factura', documentNumber: '001-001-000000101', ruc: RUC });
+        expect(report.signer?.subject).toContain('CN=PICANTERIA MIRAFLORES');
+
+        const authorized = `<?xml version="1.0" encoding="UTF-8"?><autorizacion><estado>AUTORIZADO</estado>` +
+            `<numeroAutorizacion>${report.accessKey}</numeroAutorizacion><fechaAutorizacion>2026-10-19T10:00:00-05:00</fechaAutorizacion>` +
+            `<ambiente>PRUEBAS</ambiente><comprobante><![CDATA[${signedXml}]]></comprobante></autorizacion>`;
+        const fromAuthorization = verifier.verify(authorized, RUC);
+        expect(fromAuthorization.valid).toBe(true);
+        expect(fromAuthorization.authorization).toMatchObject({ estado: 'AUTORIZADO', numeroAutorizacion: report.accessKey });
+    });
+
+    it('detects content changed after signing without breaking the signature itself', () => {
+        const tampered = signedXml.replace('<importeTotal>20.00</importeTotal>', '<importeTotal>2.00</importeTotal>');
+        expect(tampered).not.toBe(signedXml);
+
+        const report = new SignatureVerifier([toX509(ca)]).verify(tampered, RUC);
+
+        expect(report.valid).toBe(false);
+        expect(byId(report, 'document-digest')).toMatchObject({ status: 'FAIL', detail: 'El contenido del comprobante fue modificado después de firmarlo' });
+        expect(byId(report, 'signature-value')?.status).toBe('OK');
+
+        const forgedProperties = signedXml.replace(/<xades:SigningTime>[^<]+</, '<xades:SigningTime>2020-01-01T00:00:00-05:00<');
+        expect(byId(new SignatureVerifier([toX509(ca)]).verify(forgedProperties, RUC), 'signed-properties-digest')?.status).toBe('FAIL');
+    });
+
+    it('checks the access key check digit and the configured RUC', () => {
+        const key = /<claveAcceso>(\d{49})<\/claveAcceso>/.exec(signedXml)![1];
+        const badDigit = key.slice(0, 48) + ((parseInt(key[48], 10) + 1) % 10);
+        const verifier = new SignatureVerifier([toX509(ca)]);
+
+        const report = verifier.verify(signedXml.replace(key, badDigit), '0990000000001');
+
+        expect(byId(report, 'access-key')).toMatchObject({ status: 'FAIL', detail: expect.stringContaining('Dígito verificador inválido') });
+        expect(byId(report, 'ruc')).toMatchObject({ status: 'FAIL', detail: `Emitido por ${RUC}, pero el RUC configurado es 0990000000001` });
+        expect(byId(verifier.verify(signedXml), 'ruc')?.status).toBe('WARN');
+    });
+
+    it('validates the certificate chain and its validity at signing time', () => {
+        // Sin CAs configuradas la cadena no se puede comprobar: el comprobante queda sin verificar, no válido
+        const untrusted = new SignatureVerifier([]).verify(signedXml, RUC);
+        expect(byId(untrusted, 'certificate-chain')?.status).toBe('NOT_VERIFIED');
+        expect(untrusted).toMatchObject({ verdict: 'NOT_VERIFIED', valid: false });
+
+        const caPath = process.env.SRI_TRUSTED_CA_PATH;
+        delete process.env.SRI_TRUSTED_CA_PATH;
+        try {
+            expect(new SignatureVerifier().verify(signedXml, RUC)).toMatchObject({ verdict: 'NOT_VERIFIED', valid: false });
+        } finally {
+            if (caPath !== undefined) process.env.SRI_TRUSTED_CA_PATH = caPath;
+        }
+
+        const otherCa = createIdentity('AC Desconocida');
+        expect(byId(new SignatureVerifier([toX509(otherCa)]).verify(signedXml, RUC), 'certificate-chain')?.status).toBe('FAIL');
+
+        const selfSigned = createIdentity('AUTOFIRMADO');
+        const selfSignedXml = signInvoiceXml(invoiceXml(), toP12(selfSigned), { pkcs12Password: 'secreto' });
+        expect(byId(new SignatureVerifier([]).verify(selfSignedXml, RUC), 'certificate-chain')).toMatchObject({
+            status: 'FAIL', detail: expect.stringContaining('autofirmado')
+        });
+
+        const expired = createIdentity('VENCIDO', ca, { from: new Date('2020-01-01'), to: new Date('2021-01-01') });
+        const expiredXml = signInvoiceXml(invoiceXml(), toP12(expired), { pkcs12Password: 'secreto' });
+        expect(byId(new SignatureVerifier([toX509(ca)]).verify(expiredXml, RUC), 'certificate-validity')?.status).toBe('FAIL');
+
+        expect(byId(new SignatureVerifier([]).verify(invoiceXml(), RUC), 'signature')).toMatchObject({ status: 'FAIL', detail: 'El comprobante no está firmado' });
+    });
+});
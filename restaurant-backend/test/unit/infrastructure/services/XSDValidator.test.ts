@@ -0,0 +1,235 @@
+import { describe, it, expect, vi } from 'vitest';
+import { XSDValidator, XSD_INVALID_CODE, getXSDViolations } from '../../../../src/infrastructure/services/sri/XSDValidator';
+import { XMLGenerator } from '../../../../src/infrastructure/services/sri/XMLGenerator';
+import { SRIService } from '../../../../src/infrastructure/services/SRIService';
+import { SRIError } from '../../../../src/domain/errors/CustomErrors';
+import { Invoice } from '../../../../src/domain/billing/invoice';
+import { CreditNote } from '../../../../src/domain/billing/creditNote';
+import { DebitNote } from '../../../../src/domain/billing/debitNote';
+import { PurchaseSettlement } from '../../../../src/domain/billing/purchaseSettlement';
+
+describe('XSDValidator', () => {
+    const validator = new XSDValidator();
+    const generator = new XMLGenerator();
+
+    const tax = (base: number) => ({ codigo: '2', codigoPorcentaje: '4', tarifa: 15, baseImponible: base, valor: Math.round(base * 15) / 100 });
+
+    const invoice = (overrides: Partial<Invoice['info']> = {}): Invoice => ({
+        orderId: 'order-1',
+        status: 'PENDING',
+        detalles: [
+            { codigoPrincipal: 'CEV-001', descripcion: 'Ceviche mixto', cantidad: 2, precioUnitario: 8.695652, descuento: 0, precioTotalSinImpuesto: 17.39, impuestos: [tax(17.39)] },
+            { codigoPrincipal: 'AGU-001', descripcion: 'Agua', cantidad: 1, precioUnitario: 1, descuento: 0, precioTotalSinImpuesto: 1, impuestos: [{ codigo: '2', codigoPorcentaje: '0', tarifa: 0, baseImponible: 1, valor: 0 }] }
+        ],
+        info: {
+            ambiente: '1',
+            tipoEmision: '1',
+            razonSocial: 'Picantería Miraflores',
+            ruc: '1712345678001',
+            dirMatriz: 'Av. Manabí y 10 de Agosto',
+            codDoc: '01',
+            estab: '001',
+            ptoEmi: '001',
+            secuencial: '000000101',
+            fechaEmision: '19/10/2026',
+            obligadoContabilidad: 'NO',
+            tipoIdentificacionComprador: '05',
+            razonSocialComprador: 'María Zambrano',
+            identificacionComprador: '1712345678',
+            totalSinImpuestos: 18.39,
+            totalDescuento: 0,
+            totalImpuestos: [],
+            importeTotal: 21,
+            moneda: 'DOLAR',
+            ...overrides
+        }
+    } as Invoice);
+
+    const creditNote = (): CreditNote => ({
+        billId: 'b1',
+        status: 'PENDING',
+        detalles: [
+            { codigoPrincipal: 'CEV-001', descripcion: 'Ceviche mixto', cantidad: 2, precioUnitario: 8.695652, descuento: 0, precioTotalSinImpuesto: 17.39, impuestos: [tax(17.39)] }
+        ],
+        info: {
+            ambiente: '1',
+            tipoEmision: '1',
+            razonSocial: 'Picantería Miraflores',
+            ruc: '1712345678001',
+            codDoc: '04',
+            estab: '001',
+            ptoEmi: '001',
+            secuencial: '000000011',
+            dirMatriz: 'Av. Manabí y 10 de Agosto',
+            contribuyenteEspecial: '12345',
+            fechaEmision: '19/10/2026',
+            codDocModificado: '01',
+            numDocModificado: '001-001-000000101',
+            fechaEmisionDocSustento: '18/10/2026',
+            tipoIdentificacionComprador: '05',
+            razonSocialComprador: 'María Zambrano',
+            identificacionComprador: '1712345678',
+            motivo: 'Devolución',
+            totalSinImpuestos: 17.39,
+            totalDescuento: 0,
+            totalImpuestos: [],
+            importeTotal: 20,
+            moneda: 'DOLAR',
+            obligadoContabilidad: 'NO',
+            regime: 'RIMPE - Negocio Popular'
+        }
+    });
+
+    const issuer = {
+        ambiente: '1' as const,
+        tipoEmision: '1' as const,
+        razonSocial: 'Picantería Miraflores',
+        ruc: '1712345678001',
+        estab: '001',
+        ptoEmi: '001',
+        dirMatriz: 'Av. Manabí y 10 de Agosto',
+        fechaEmision: '19/10/2026',
+        obligadoContabilidad: 'NO' as const
+    };
+
+    const debitNote = (): DebitNote => ({
+        motivos: [{ razon: 'Intereses por mora', valor: 2 }],
+        info: {
+            ...issuer,
+            codDoc: '05',
+            secuencial: '000000003',
+            tipoIdentificacionComprador: '05',
+            razonSocialComprador: 'María Zambrano',
+            identificacionComprador: '1712345678',
+            codDocModificado: '01',
+            numDocModificado: '001-001-000000101',
+            fechaEmisionDocSustento: '18/10/2026',
+            totalSinImpuestos: 2,
+            impuestos: [{ codigo: '2', codigoPorcentaje: '4', tarifa: 15, baseImponible: 2, valor: 0.3 }],
+            valorTotal: 2.3,
+            pagos: [{ formaPago: '01', total: 2.3, plazo: 0, unidadTiempo: 'dias' }]
+        }
+    });
+
+    const purchaseSettlement = (): PurchaseSettlement => ({
+        detalles: [
+            { codigoPrincipal: 'PES-001', descripcion: 'Corvina', cantidad: 4, precioUnitario: 5, descuento: 0, precioTotalSinImpuesto: 20, impuestos: [{ codigo: '2', codigoPorcentaje: '0', tarifa: 0, baseImponible: 20, valor: 0 }] }
+        ],
+        info: {
+            ...issuer,
+            codDoc: '03',
+            secuencial: '000000007',
+            tipoIdentificacionProveedor: '05',
+            razonSocialProveedor: 'Pedro Cedeño',
+            identificacionProveedor: '1309876543',
+            direccionProveedor: 'Puerto de Jaramijó',
+            totalSinImpuestos: 20,
+            totalDescuento: 0,
+            importeTotal: 20,
+            moneda: 'DOLAR',
+            pagos: [{ formaPago: '01', total: 20, plazo: 0, unidadTiempo: 'dias' }]
+        }
+    });
+
+    it('accepts every comprobante produced by XMLGenerator', async () => {
+        const xml = generator.generateInvoiceXML(invoice({
+            regime: 'RIMPE - Emprendedor',
+            agenteRetencion: 'NAC-DNCRASC20-00000001',
+            contribuyenteEspecial: '5368',
+            emailComprador: 'maria@example.com'
+        }));
+
+        expect(xml).toContain('<agenteRetencion>1</agenteRetencion>');
+        expect(xml).toContain('<contribuyenteRimpe>CONTRIBUYENTE RÉGIMEN RIMPE</contribuyenteRimpe>');
+        expect(await validator.validate(xml)).toEqual([]);
+
+        // Sin campos adicionales no se emite un <infoAdicional> vacío
+        const bare = generator.generateInvoiceXML(invoice());
+        expect(bare).not.toContain('<infoAdicional>');
+        expect(await validator.validate(bare)).toEqual([]);
+
+        expect(await validator.validate(generator.generateCreditNoteXML(creditNote()))).toEqual([]);
+        expect(await validator.validate(generator.generateDebitNoteXML(debitNote()))).toEqual([]);
+        expect(await validator.validate(generator.generatePurchaseSettlementXML(purchaseSettlement()))).toEqual([]);
+    });
+
+    it('reports each violation with the path of the field', async () => {
+        const xml = generator.generateInvoiceXML(invoice({ razonSocialComprador: 'A'.repeat(301) }))
+            .replace('<precioUnitario>1</precioUnitario>', '<precioUnitario>1.1234567</precioUnitario>')
+            .replace('<formaPago>01</formaPago>', '<formaPago>ABC</formaPago>')
+            .replace(/<moneda>.*<\/moneda>/, '');
+
+        const violations = await validator.validate(xml);
+
+        expect(violations).toContainEqual({
+            path: '/factura/infoFactura/razonSocialComprador',
+            field: 'razonSocialComprador',
+            message: expect.stringMatching(/maxLength.*'300'/)
+        });
+        expect(violations).toContainEqual(expect.objectContaining({
+            path: '/factura/detalles/detalle[2]/precioUnitario',
+            message: expect.stringMatching(/fractionDigits.*'1\.1234567'/)
+        }));
+        expect(violations).toContainEqual(expect.objectContaining({ path: '/factura/infoFactura/pagos/pago/formaPago', field: 'formaPago' }));
+
+        // El aviso de libxml2 sobre el XSD de notaCredito (XML 1.1) no es un error del comprobante
+        const note = creditNote();
+        note.info.motivo = '';
+        expect(await validator.validate(generator.generateCreditNoteXML(note))).toEqual([expect.objectContaining({ path: '/notaCredito/infoNotaCredito/motivo' })]);
+    });
+
+    it('points a missing field at the field itself', async () => {
+        const xml = generator.generateInvoiceXML(invoice()).replace('</factura>', '<infoAdicional></infoAdicional></factura>');
+
+        expect(await validator.validate(xml)).toEqual([{
+            path: '/factura/infoAdicional/campoAdicional',
+            field: 'campoAdicional',
+            message: 'Falta el campo obligatorio <campoAdicional>'
+        }]);
+    });
+
+    it('detects misplaced and unknown elements, attributes and malformed XML', async () => {
+        const xml = generator.generateInvoiceXML(invoice())
+            .replace('id="comprobante"', 'id="factura"')
+            .replace('<dirMatriz>', '<regimenRimpe>CONTRIBUYENTE RÉGIMEN RIMPE</regimenRimpe><dirMatriz>');
+
+        const violations = await validator.validate(xml);
+        expect(violations).toContainEqual(expect.objectContaining({ path: '/factura/@id', field: 'id' }));
+        expect(violations).toContainEqual(expect.objectContaining({ path: '/factura/infoTributaria/regimenRimpe', message: expect.stringMatching(/not expected/) }));
+
+        const popular = generator.generateInvoiceXML(invoice({ regime: 'RIMPE - Negocio Popular' }));
+        expect(popular).toContain('<contribuyenteRimpe>CONTRIBUYENTE RÉGIMEN RIMPE</contribuyenteRimpe>');
+        expect(await validator.validate(popular)).toEqual([]);
+
+        expect((await validator.validate('<factura><infoTributaria></factura>'))[0].message).toMatch(/mal formado/);
+    });
+
+    it('fails closed on documents without a bundled XSD', async () => {
+        expect(await validator.validate('<comprobanteRetencion id="comprobante" version="2.0.0"/>')).toEqual([{
+            path: '/comprobanteRetencion',
+            field: 'comprobanteRetencion',
+            message: 'No hay XSD del SRI para <comprobanteRetencion>: el comprobante no se puede validar ni firmar'
+        }]);
+        // Una nota de débito vacía ya no pasa por "sin esquema"
+        expect(await validator.validate('<notaDebito id="comprobante" version="1.0.0"/>')).toContainEqual(
+            expect.objectContaining({ path: '/notaDebito/infoTributaria', message: 'Falta el campo obligatorio <infoTributaria>' })
+        );
+    });
+
+    it('stops SRIService.signXML before the signer runs', async () => {
+        const service = new SRIService();
+        const signInvoice = vi.spyOn((service as any).signer, 'signInvoiceXml');
+        const xml = generator.generateInvoiceXML(invoice({ identificacionComprador: '' }));
+
+        const error = await service.signXML(xml).catch(e => e);
+
+        expect(error).toBeInstanceOf(SRIError);
+        expect(error.code).toBe(XSD_INVALID_CODE);
+        expect(getXSDViolations(error)).toEqual([expect.objectContaining({
+            path: '/factura/infoFactura/identificacionComprador',
+            message: expect.stringMatching(/minLength/)
+        })]);
+        expect(getXSDViolations(new Error('timeout'))).toBeNull();
+        expect(signInvoice).not.toHaveBeenCalled();
+    });
+});
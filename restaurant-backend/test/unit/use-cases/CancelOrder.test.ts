@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach, type Mocked } from 'vitest';
+import { CancelOrder } from '../../../src/application/use-cases/CancelOrder';
+import { UpdateOrder } from '../../../src/application/use-cases/UpdateOrder';
+import { Order, OrderStatus } from '../../../src/domain/entities/Order';
+import { ValidationError } from '../../../src/domain/errors/CustomErrors';
+import { IOrderRepository } from '../../../src/domain/repositories/IOrderRepository';
+
+describe('Order lifecycle', () => {
+    let mockOrderRepository: Mocked<IOrderRepository>;
+    let order: Order;
+
+    beforeEach(() => {
+        order = {
+            id: 'order-1',
+            customerName: 'Mesa 3',
+            type: 'En Local',
+            status: OrderStatus.InPreparation,
+            createdAt: new Date(),
+            items: [{ name: 'Encebollado', quantity: 2, price: 5, taxRate: 15 }],
+            statusHistory: [{ status: OrderStatus.New, at: new Date(), by: 'ana' }]
+        };
+        mockOrderRepository = {
+            findById: vi.fn(async () => order),
+            update: vi.fn(async (_id, data) => ({ ...order, ...data }))
+        } as any;
+    });
+
+    it('should cancel with reason and user, appending it to the history', async () => {
+        const publisher = { publish: vi.fn() };
+
+        const result = await new CancelOrder(mockOrderRepository, publisher).execute('order-1', '  Cliente se retiró ', 'luis');
+
+        expect(result.status).toBe(OrderStatus.Cancelled);
+        expect(result.cancellation).toEqual(expect.objectContaining({ reason: 'Cliente se retiró', by: 'luis' }));
+        expect(result.statusHistory!.map(h => h.status)).toEqual([OrderStatus.New, OrderStatus.Cancelled]);
+        expect(result.statusHistory![1]).toEqual(expect.objectContaining({ by: 'luis', reason: 'Cliente se retiró' }));
+        expect(publisher.publish).toHaveBeenCalledWith('order:cancelled', 'order-1', expect.anything());
+    });
+
+    it('should require a reason', async () => {
+        await expect(new CancelOrder(mockOrderRepository).execute('order-1', ' ', 'luis')).rejects.toThrow(ValidationError);
+        expect(mockOrderRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should not cancel a billed order', async () => {
+        order = { ...order, billed: true, status: OrderStatus.Completed };
+
+        await expect(new CancelOrder(mockOrderRepository).execute('order-1', 'Error de cobro', 'luis')).rejects.toThrow(/nota de crédito/);
+    });
+
+    it('should record who moves the order forward and reject changes once cancelled', async () => {
+        const updateOrder = new UpdateOrder(mockOrderRepository);
+
+        await updateOrder.execute('order-1', { status: OrderStatus.Delivered }, 'pedro');
+        expect(mockOrderRepository.update).toHaveBeenCalledWith('order-1', expect.objectContaining({
+            status: OrderStatus.Delivered,
+            statusHistory: [order.statusHistory![0], expect.objectContaining({ status: OrderStatus.Delivered, by: 'pedro' })]
+        }));
+
+        await expect(updateOrder.execute('order-1', { status: OrderStatus.Cancelled })).rejects.toThrow(/motivo/);
+
+        order = { ...order, status: OrderStatus.Cancelled };
+        await expect(updateOrder.execute('order-1', { status: OrderStatus.New })).rejects.toThrow(/cancelado/);
+    });
+});
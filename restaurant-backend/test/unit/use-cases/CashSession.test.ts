@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach, type Mocked } from 'vitest';
+import { OpenCashSession, RecordCashMovement, CloseCashSession } from '../../../src/application/use-cases/cash';
+import { ICashSessionRepository } from '../../../src/domain/repositories/ICashSessionRepository';
+import { CashSession } from '../../../src/domain/entities/CashSession';
+import { ValidationError } from '../../../src/domain/errors/CustomErrors';
+
+describe('Cash Session Use Cases', () => {
+    let mockCashRepository: Mocked<ICashSessionRepository>;
+    const user = { userId: 'emp-1', username: 'cajero' };
+
+    const session: CashSession = {
+        id: 'session-1',
+        estab: '001',
+        ptoEmi: '002',
+        status: 'open',
+        openedBy: user,
+        openedAt: new Date('2026-03-02T13:00:00Z'),
+        openingFloat: 50,
+        movements: [
+            { id: 'm1', type: 'in', amount: 20, reason: 'Reposición de fondo', createdBy: user, createdAt: new Date() },
+            { id: 'm2', type: 'out', amount: 12.5, reason: 'Gas', createdBy: user, createdAt: new Date() }
+        ]
+    };
+
+    const sale = { environment: '2', sriStatus: 'AUTORIZADO' };
+
+    beforeEach(() => {
+        mockCashRepository = {
+            open: vi.fn(),
+            findById: vi.fn(),
+            findOpenByEmissionPoint: vi.fn(),
+            findOpenByUser: vi.fn(),
+            findRecent: vi.fn(),
+            hasCreditNoteRefund: vi.fn(),
+            addMovement: vi.fn(),
+            close: vi.fn()
+        } as any;
+    });
+
+    it('should open on the configured emission point and reject a second open till', async () => {
+        const configRepo = { get: vi.fn().mockResolvedValue({ billing: { establishment: '001', emissionPoint: '002' } }) };
+        mockCashRepository.findOpenByUser.mockResolvedValue(null);
+        mockCashRepository.findOpenByEmissionPoint.mockResolvedValue(null);
+        mockCashRepository.open.mockResolvedValue(session);
+
+        await new OpenCashSession(mockCashRepository, configRepo as any).execute({ user, openingFloat: '50' });
+        expect(mockCashRepository.open).toHaveBeenCalledWith({ estab: '001', ptoEmi: '002', openedBy: user, openingFloat: 50 });
+
+        mockCashRepository.findOpenByEmissionPoint.mockResolvedValue({ ...session, openedBy: { userId: 'emp-2', username: 'ana' } });
+        await expect(new OpenCashSession(mockCashRepository, configRepo as any).execute({ user, openingFloat: 50 }))
+            .rejects.toThrow(/ya está abierta por ana/);
+    });
+
+    it('should aggregate bills by payment method and compute the over/short on close', async () => {
+        const billRepo = {
+            findByEmissionPoint: vi.fn().mockResolvedValue([
+                { ...sale, total: 23, payments: [{ method: '19', amount: 15 }, { method: '01', amount: 8, received: 10 }] },
+                { ...sale, total: 11.5, paymentMethod: '01' },
+                { ...sale, total: 30, paymentMethod: '20', sriStatus: 'PENDING_RETRY' }
+            ])
+        };
+        mockCashRepository.findById.mockResolvedValue(session);
+        mockCashRepository.close.mockImplementation(async (_id, data) => ({ ...session, ...data, status: 'closed' }));
+
+        const closed = await new CloseCashSession(mockCashRepository, billRepo as any)
+            .execute({ sessionId: 'session-1', user, countedCash: 76 });
+
+        expect(billRepo.findByEmissionPoint).toHaveBeenCalledWith('001', '002', session.openedAt, expect.any(Date));
+        expect(closed.summary).toMatchObject({
+            billCount: 3,
+            salesTotal: 64.5,
+            cashSales: 19.5,
+            cashIn: 20,
+            cashOut: 12.5,
+            expectedCash: 77 // 50 + 19.5 + 20 - 12.5
+        });
+        expect(closed.summary!.paymentTotals.map(t => [t.method, t.count, t.amount])).toEqual([
+            ['01', 2, 19.5], ['19', 1, 15], ['20', 1, 30]
+        ]);
+        expect(closed.difference).toBe(-1);
+    });
+
+    it('should count what was collected at checkout whatever the SRI state, except voided bills', async () => {
+        const billRepo = {
+            findByEmissionPoint: vi.fn().mockResolvedValue([
+                { ...sale, total: 11.5, paymentMethod: '01' },
+                { ...sale, total: 40, paymentMethod: '01', environment: '1' },
+                { ...sale, total: 25, paymentMethod: '01', sriStatus: 'DEVUELTA' },
+                { ...sale, total: 8, paymentMethod: '01', sriStatus: 'ERROR' },
+                // Anulada con nota de crédito: su dinero sale como devolución
+                { ...sale, total: 16, paymentMethod: '01', sriStatus: 'CANCELLED' }
+            ])
+        };
+        mockCashRepository.findById.mockResolvedValue(session);
+        mockCashRepository.close.mockImplementation(async (_id, data) => ({ ...session, ...data, status: 'closed' }));
+
+        const closed = await new CloseCashSession(mockCashRepository, billRepo as any)
+            .execute({ sessionId: 'session-1', user, countedCash: 142 });
+
+        // 50 + 84.5 + 20 - 12.5
+        expect(closed.summary).toMatchObject({ billCount: 4, salesTotal: 84.5, cashSales: 84.5, expectedCash: 142 });
+        expect(closed.difference).toBe(0);
+    });
+
+    it('should record a credit note refund once, capped at the credit note total', async () => {
+        const creditNote = { id: 'nc-1', documentNumber: '001-002-000000007', total: 9.2, sriStatus: 'AUTORIZADO' };
+        const creditNoteRepo = {
+            findById: vi.fn().mockResolvedValue(creditNote),
+            findPaginated: vi.fn().mockResolvedValue({ data: [creditNote] })
+        };
+        mockCashRepository.findById.mockResolvedValue(session);
+        mockCashRepository.hasCreditNoteRefund.mockResolvedValue(false);
+        mockCashRepository.addMovement.mockResolvedValue(session);
+        const useCase = new RecordCashMovement(mockCashRepository, creditNoteRepo as any);
+
+        await useCase.execute({ sessionId: 'session-1', user, creditNoteId: 'nc-1' });
+        expect(mockCashRepository.addMovement).toHaveBeenCalledWith('session-1', expect.objectContaining({
+            type: 'out', amount: 9.2, reason: 'Devolución NC 001-002-000000007', creditNoteId: 'nc-1', createdBy: user
+        }));
+
+        // También por número de documento
+        await useCase.execute({ sessionId: 'session-1', user, creditNoteId: '001-002-000000007', amount: 5 });
+        expect(creditNoteRepo.findPaginated).toHaveBeenCalledWith(1, 1, { documentNumber: '001-002-000000007' });
+        expect(mockCashRepository.addMovement).toHaveBeenLastCalledWith('session-1', expect.objectContaining({ amount: 5, creditNoteId: 'nc-1' }));
+
+        await expect(useCase.execute({ sessionId: 'session-1', user, creditNoteId: 'nc-1', amount: 10 }))
+            .rejects.toThrow(/supera el total/);
+
+        mockCashRepository.hasCreditNoteRefund.mockResolvedValue(true);
+        await expect(useCase.execute({ sessionId: 'session-1', user, creditNoteId: 'nc-1' }))
+            .rejects.toThrow(/ya fue devuelta/);
+    });
+
+    it('should reject movements on a closed till and invalid manual movements', async () => {
+        const useCase = new RecordCashMovement(mockCashRepository, {} as any);
+
+        mockCashRepository.findById.mockResolvedValue({ ...session, status: 'closed' });
+        await expect(useCase.execute({ sessionId: 'session-1', user, type: 'in', amount: 5, reason: 'x' }))
+            .rejects.toThrow(/cerrada/);
+
+        mockCashRepository.findById.mockResolvedValue(session);
+        await expect(useCase.execute({ sessionId: 'session-1', user, type: 'out', amount: 5, reason: ' ' }))
+            .rejects.toThrow(ValidationError);
+        await expect(useCase.execute({ sessionId: 'session-1', user, type: 'out', amount: -3, reason: 'Gas' }))
+            .rejects.toThrow(/mayor a cero/);
+        expect(mockCashRepository.addMovement).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GenerateInvoice } from '../../../src/application/use-cases/GenerateInvoice';
+import { BillingService } from '../../../src/application/services/BillingService';
+import { Order, OrderStatus } from '../../../src/domain/entities/Order';
+import { ConflictError, ValidationError } from '../../../src/domain/errors/CustomErrors';
+
+vi.mock('../../../src/infrastructure/database/DatabaseConnection', () => ({
+    dbConnection: {
+        withTransaction: vi.fn((callback: any) => callback(null))
+    }
+}));
+
+const crewOrder = (id: string, orderNumber: string, items: Order['items']): Order => ({
+    id,
+    orderNumber,
+    customerName: 'Constructora Andes',
+    type: 'Para Llevar',
+    status: OrderStatus.Completed,
+    billingType: 'Sin Factura',
+    createdAt: new Date(),
+    items
+});
+
+describe('GenerateInvoice - factura consolidada', () => {
+    let orders: Record<string, Order>;
+    let mockOrderRepo: any;
+    let mockBillRepo: any;
+    let mockSRIService: any;
+    let generateInvoice: GenerateInvoice;
+    const client = { identification: '1790012345001', name: 'CONSTRUCTORA ANDES S.A.', email: 'pagos@andes.com.ec' };
+
+    beforeEach(() => {
+        orders = {
+            'order-1': crewOrder('order-1', '12', [
+                { name: 'Almuerzo ejecutivo', quantity: 10, price: 3.5, taxRate: 15, notes: 'sin ají' },
+                { name: 'Cola', quantity: 4, price: 1, taxRate: 15 }
+            ]),
+            'order-2': crewOrder('order-2', '15', [
+                { name: 'Almuerzo ejecutivo', quantity: 8, price: 3.5, taxRate: 15 }
+            ])
+        };
+        mockOrderRepo = {
+            findById: vi.fn().mockImplementation(async (id: string) => orders[id] || null),
+            update: vi.fn(),
+            markBilled: vi.fn().mockImplementation(async (ids: string[], billingType: string) =>
+                ids.map(id => ({ ...orders[id], billed: true, billingType }))),
+            claimForBilling: vi.fn().mockResolvedValue(true),
+            releaseBillingClaim: vi.fn()
+        };
+        mockBillRepo = {
+            upsert: vi.fn().mockImplementation(async (bill: any) => ({ id: bill.id || 'bill-1' })),
+            findById: vi.fn().mockResolvedValue(null),
+            setEmailDelivery: vi.fn()
+        };
+        const mockConfigRepo = {
+            get: vi.fn().mockResolvedValue({ billing: { establishment: '001', emissionPoint: '001' }, ruc: '1712345678001' }),
+            getEnvironment: vi.fn().mockResolvedValue('1'),
+            getNextSequential: vi.fn().mockResolvedValue(40)
+        };
+        mockSRIService = {
+            generateInvoiceXML: vi.fn().mockReturnValue('<xml></xml>'),
+            signXML: vi.fn().mockResolvedValue('signed-xml'),
+            sendToSRI: vi.fn().mockResolvedValue({ estado: 'RECIBIDA' }),
+            waitForAuthorization: vi.fn().mockResolvedValue({ estado: 'AUTORIZADO' })
+        };
+        const mockPDFService = { generateInvoicePDF: vi.fn().mockResolvedValue(Buffer.from('')) };
+        const mockEmailService = { sendInvoiceEmail: vi.fn().mockResolvedValue({ success: true }) };
+        const billingService = new BillingService();
+        vi.spyOn(billingService, 'autoLearnCustomer').mockResolvedValue({ success: true } as any);
+
+        generateInvoice = new GenerateInvoice(
+            mockConfigRepo as any, mockBillRepo, mockOrderRepo,
+            mockSRIService as any, mockPDFService as any, mockEmailService as any, billingService
+        );
+    });
+
+    it('issues one invoice with summarized lines and marks every order as billed together', async () => {
+        const result = await generateInvoice.execute({
+            order: { id: 'order-1', items: [] }, client, orderIds: ['order-1', 'order-2', 'order-1']
+        });
+
+        expect(result.invoiceNumber).toBe('001-001-000000040');
+        expect(mockBillRepo.upsert).toHaveBeenCalledWith(expect.objectContaining({
+            orderId: 'order-1',
+            orderIds: ['order-1', 'order-2'],
+            total: 67,
+            items: [
+                expect.objectContaining({ name: 'Almuerzo ejecutivo', quantity: 18, total: 63 }),
+                expect.objectContaining({ name: 'Cola', quantity: 4, total: 4 })
+            ]
+        }));
+
+        const invoice = mockSRIService.generateInvoiceXML.mock.calls[0][0];
+        expect(invoice.info.pedidos).toBe('#12, #15');
+
+        expect(mockOrderRepo.markBilled).toHaveBeenCalledTimes(1);
+        expect(mockOrderRepo.markBilled).toHaveBeenCalledWith(['order-1', 'order-2'], 'Factura');
+        expect(mockOrderRepo.update).not.toHaveBeenCalled();
+        expect(mockOrderRepo.claimForBilling).toHaveBeenCalledWith(['order-1', 'order-2'], expect.any(String));
+        expect(mockOrderRepo.releaseBillingClaim).not.toHaveBeenCalled();
+    });
+
+    it('does not emit when another checkout already claimed one of the orders', async () => {
+        mockOrderRepo.claimForBilling.mockResolvedValue(false);
+
+        await expect(generateInvoice.execute({ order: {}, client, orderIds: ['order-1', 'order-2'] }))
+            .rejects.toThrow(ConflictError);
+
+        expect(mockBillRepo.upsert).not.toHaveBeenCalled();
+        expect(mockSRIService.signXML).not.toHaveBeenCalled();
+        expect(mockOrderRepo.markBilled).not.toHaveBeenCalled();
+    });
+
+    it('releases its claim when the draft bill cannot be saved', async () => {
+        mockBillRepo.upsert.mockRejectedValueOnce(new Error('write conflict'));
+
+        await expect(generateInvoice.execute({ order: {}, client, orderIds: ['order-1', 'order-2'] }))
+            .rejects.toThrow('write conflict');
+
+        const claim = mockOrderRepo.claimForBilling.mock.calls[0][1];
+        expect(mockOrderRepo.releaseBillingClaim).toHaveBeenCalledWith(['order-1', 'order-2'], claim);
+        expect(mockSRIService.sendToSRI).not.toHaveBeenCalled();
+    });
+
+    it('keeps the orders billed when the SRI is down after the claim', async () => {
+        mockSRIService.sendToSRI.mockRejectedValue(new Error('ETIMEDOUT'));
+
+        await expect(generateInvoice.execute({ order: {}, client, orderIds: ['order-1', 'order-2'] }))
+            .rejects.toThrow('ETIMEDOUT');
+
+        expect(mockOrderRepo.markBilled).toHaveBeenCalledWith(['order-1', 'order-2'], 'Factura');
+        expect(mockOrderRepo.releaseBillingClaim).not.toHaveBeenCalled();
+    });
+
+    it('rejects orders of different customers, already billed or split', async () => {
+        orders['order-2'] = { ...orders['order-2'], customerName: 'Mesa 4' };
+        await expect(generateInvoice.execute({ order: {}, client, orderIds: ['order-1', 'order-2'] }))
+            .rejects.toThrow(/mismo cliente/);
+
+        orders['order-2'] = { ...orders['order-2'], customerName: 'constructora andes ', billed: true };
+        await expect(generateInvoice.execute({ order: {}, client, orderIds: ['order-1', 'order-2'] }))
+            .rejects.toThrow('El pedido #15 ya está facturado');
+
+        await expect(generateInvoice.execute({ order: {}, client, orderIds: ['order-1'] }))
+            .rejects.toThrow(ValidationError);
+
+        expect(mockBillRepo.upsert).not.toHaveBeenCalled();
+        expect(mockOrderRepo.markBilled).not.toHaveBeenCalled();
+    });
+});
@@ -26,7 +26,7 @@ describe('GenerateInvoice Customer Learning Repro', () => {
             getNextSequential: vi.fn().mockResolvedValue(1)
         };
         mockBillRepo = { upsert: vi.fn().mockResolvedValue({ id: 'bill-123' }), findById: vi.fn().mockResolvedValue(null) };
-        mockOrderRepo = { update: vi.fn().mockResolvedValue({}) };
+        mockOrderRepo = { findById: vi.fn().mockResolvedValue(null), update: vi.fn().mockResolvedValue({}) };
         mockSRIService = {
             generateInvoiceXML: vi.fn().mockReturnValue('<xml></xml>'),
             signXML: vi.fn().mockResolvedValue('<signed></signed>'),
@@ -21,7 +21,7 @@ describe('GenerateInvoice Customer Persistence (Reproduction)', () => {
             getNextSequential: vi.fn().mockResolvedValue(1)
         };
         mockBillRepo = { upsert: vi.fn().mockResolvedValue({ id: 'bill-1' }) };
-        mockOrderRepo = { update: vi.fn().mockResolvedValue({}) };
+        mockOrderRepo = { findById: vi.fn().mockResolvedValue(null), update: vi.fn().mockResolvedValue({}) };
         mockSRIService = {
             generateInvoiceXML: vi.fn().mockReturnValue('<xml></xml>'),
             signXML: vi.fn().mockResolvedValue('<signed></signed>'),
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GenerateAts } from '../../../src/application/use-cases/ats';
+import { BillingService } from '../../../src/application/services/BillingService';
+import { ATSGenerator } from '../../../src/infrastructure/services/sri/ATSGenerator';
+import { ValidationError } from '../../../src/domain/errors/CustomErrors';
+
+describe('GenerateAts', () => {
+    let useCase: GenerateAts;
+    let mockConfigRepo: any;
+    let mockBillRepo: any;
+    let mockCreditNoteRepo: any;
+    let mockDebitNoteRepo: any;
+    let bills: any[];
+    let creditNotes: any[];
+    let debitNotes: any[];
+
+    const bill = (overrides: any) => ({
+        documentType: 'Factura',
+        date: '2026-10-05T17:00:00.000Z',
+        customerName: 'Consumidor Final',
+        customerIdentification: '9999999999999',
+        items: [{ name: 'Ceviche', quantity: 1, price: 11.5, total: 11.5, taxRate: 15 }],
+        sriStatus: 'AUTORIZADO',
+        environment: '2',
+        paymentMethod: '01',
+        ...overrides
+    });
+
+    const issuedIn = (doc: any, environment: string, from: string, to: string) =>
+        doc.environment === environment && doc.date >= from && doc.date < to;
+
+    const paginated = (docs: () => any[]) => vi.fn().mockImplementation((_page: number, _limit: number, filter: any) => {
+        const data = docs().filter(d => d.sriStatus === filter.sriStatus && issuedIn(d, filter.environment, filter.date.$gte, filter.date.$lt));
+        return Promise.resolve({ data, pagination: { page: 1, limit: 100, total: data.length, totalPages: 1 } });
+    });
+
+    beforeEach(() => {
+        bills = [
+            bill({ id: 'b1', documentNumber: '001-001-000000101', accessKey: '0510202601171234567800110010010000001011234567812' }),
+            bill({ id: 'b2', documentNumber: '001-001-000000102', accessKey: '0510202601171234567800110010010000001021234567812' }),
+            bill({
+                id: 'b3',
+                documentNumber: '001-001-000000103',
+                accessKey: '0610202601171234567800110010010000001031234567812',
+                customerName: 'Eventos Manabí S.A.',
+                customerIdentification: '1391234567001',
+                items: [
+                    { name: 'Almuerzos', quantity: 10, price: 23, total: 230, taxRate: 15 },
+                    { name: 'Agua', quantity: 10, price: 1, total: 10, taxRate: 0 }
+                ],
+                payments: [{ method: '20', amount: 200 }, { method: '01', amount: 40 }],
+                withheldIva: 3,
+                withheldRenta: 4
+            }),
+            // Anulada con nota de crédito dentro del mes: sigue siendo una venta autorizada
+            bill({
+                id: 'b4',
+                documentNumber: '001-001-000000104',
+                accessKey: '0710202601171234567800110010010000001041234567812',
+                customerName: 'María Zambrano',
+                customerIdentification: '1712345678',
+                sriStatus: 'CANCELLED'
+            }),
+            // Otro mes (30/09 21:00 en Ecuador), pruebas y no autorizada: no entran
+            bill({ id: 'b5', documentNumber: '001-001-000000090', date: '2026-10-01T02:00:00.000Z' }),
+            bill({ id: 'b6', documentNumber: '001-001-000000105', environment: '1' }),
+            bill({ id: 'b7', documentNumber: '001-001-000000106', sriStatus: 'DEVUELTA' })
+        ];
+        creditNotes = [
+            { id: 'nc1', billId: 'b4', documentNumber: '001-001-000000011', date: '2026-10-08T15:00:00.000Z', customerName: 'María Zambrano', customerIdentification: '1712345678', items: [{ name: 'Ceviche', quantity: 1, price: 11.5, total: 11.5 }], sriStatus: 'AUTORIZADO', environment: '2' },
+            // Anula una factura de septiembre: se reporta como nota de crédito
+            { id: 'nc2', billId: 'b5', documentNumber: '001-001-000000012', date: '2026-10-02T15:00:00.000Z', customerName: 'Consumidor Final', customerIdentification: '9999999999999', items: [{ name: 'Ceviche', quantity: 1, price: 11.5, total: 11.5 }], sriStatus: 'AUTORIZADO', environment: '2' }
+        ];
+        debitNotes = [
+            { id: 'nd0', billId: 'b1', documentNumber: '001-001-000000002', date: '2026-10-21T15:00:00.000Z', customerName: 'Consumidor Final', customerIdentification: '9999999999999', items: [{ reason: '01', description: 'Intereses', amount: 10, taxRate: 15, tax: 1.5, total: 11.5 }], sriStatus: 'AUTORIZADO', environment: '1' },
+            { id: 'nd1', billId: 'b3', documentNumber: '002-001-000000003', date: '2026-10-20T15:00:00.000Z', customerName: 'Eventos Manabí S.A.', customerIdentification: '1391234567001', items: [{ reason: '01', description: 'Intereses', amount: 10, taxRate: 15, tax: 1.5, total: 11.5 }], sriStatus: 'AUTORIZADO', environment: '2' }
+        ];
+
+        mockConfigRepo = {
+            get: vi.fn().mockResolvedValue({ ruc: '1712345678001', businessName: 'Picantería Miraflores' }),
+            getEnvironment: vi.fn().mockResolvedValue('1')
+        };
+        mockBillRepo = {
+            findIssuedBetween: vi.fn().mockImplementation((from: Date, to: Date, environment: string) =>
+                Promise.resolve(bills.filter(b => issuedIn(b, environment, from.toISOString(), to.toISOString()))))
+        };
+        mockCreditNoteRepo = { findPaginated: paginated(() => creditNotes) };
+        mockDebitNoteRepo = { findPaginated: paginated(() => debitNotes) };
+
+        const generator = new ATSGenerator();
+        const mockSRIService: any = {
+            generateATSXML: vi.fn().mockImplementation(report => generator.generateATSXML(report)),
+            validateATSXML: vi.fn().mockImplementation(xml => generator.validateStructure(xml))
+        };
+
+        useCase = new GenerateAts(
+            mockConfigRepo, mockBillRepo, mockCreditNoteRepo, mockDebitNoteRepo,
+            mockSRIService, new BillingService()
+        );
+    });
+
+    it('groups authorized production sales by customer and document type', async () => {
+        const { report, fileName } = await useCase.execute(10, 2026);
+
+        expect(fileName).toBe('ATS-102026.xml');
+        expect(report).toMatchObject({ IdInformante: '1712345678001', razonSocial: 'PICANTERIA MIRAFLORES', Anio: '2026', Mes: '10' });
+
+        const finalConsumer = report.ventas.find(v => v.tpIdCliente === '07' && v.tipoComprobante === '18');
+        expect(finalConsumer).toMatchObject({
+            idCliente: '9999999999999', numeroComprobantes: 2, baseImpGrav: 20, montoIva: 3, formasDePago: ['01']
+        });
+        expect(finalConsumer?.parteRelVtas).toBeUndefined();
+
+        const company = report.ventas.find(v => v.idCliente === '1391234567001' && v.tipoComprobante === '18');
+        expect(company).toMatchObject({
+            tpIdCliente: '04', parteRelVtas: 'NO', numeroComprobantes: 1,
+            baseImponible: 10, baseImpGrav: 200, montoIva: 30,
+            valorRetIva: 3, valorRetRenta: 4, formasDePago: ['01', '20']
+        });
+
+        expect(report.ventas.find(v => v.tipoComprobante === '05')).toMatchObject({ idCliente: '1391234567001', baseImpGrav: 10, formasDePago: [] });
+        expect(report.ventas.find(v => v.tipoComprobante === '04' && v.tpIdCliente === '07')).toMatchObject({ baseImpGrav: 10 });
+    });
+
+    it('reports an invoice voided within the month as a sale and its credit note as 04', async () => {
+        const { report, xml } = await useCase.execute(10, 2026);
+
+        const customer = report.ventas.filter(v => v.idCliente === '1712345678');
+        expect(customer).toEqual([
+            expect.objectContaining({ tipoComprobante: '18', numeroComprobantes: 1, baseImpGrav: 10, montoIva: 1.5 }),
+            expect.objectContaining({ tipoComprobante: '04', numeroComprobantes: 1, baseImpGrav: 10, montoIva: 1.5 })
+        ]);
+        expect(report.anulados).toEqual([]);
+
+        // 20 + 210 + 10 (facturas) + 10 (ND) - 10 - 10 (NC)
+        expect(report.totalVentas).toBe(230);
+        expect(report.ventasEstablecimiento).toEqual([
+            { codEstab: '001', ventasEstab: 220, ivaComp: 0 },
+            { codEstab: '002', ventasEstab: 10, ivaComp: 0 }
+        ]);
+        expect(report.numEstabRuc).toBe('002');
+        expect(xml).not.toContain('<anulados>');
+        expect(new ATSGenerator().validateStructure(xml)).toEqual([]);
+    });
+
+    it('queries only the production documents of the Ecuador month, even while pruebas is active', async () => {
+        const { report } = await useCase.execute(10, 2026);
+
+        expect(mockBillRepo.findIssuedBetween).toHaveBeenCalledWith(
+            new Date('2026-10-01T05:00:00.000Z'), new Date('2026-11-01T05:00:00.000Z'), '2'
+        );
+        expect(mockDebitNoteRepo.findPaginated).toHaveBeenCalledWith(1, 100, {
+            sriStatus: 'AUTORIZADO',
+            environment: '2',
+            date: { $gte: '2026-10-01T05:00:00.000Z', $lt: '2026-11-01T05:00:00.000Z' }
+        }, { createdAt: -1 });
+        // b1 y b2 de consumidor final: ni b5 (septiembre) ni b6 (pruebas); nd0 es de pruebas
+        expect(report.ventas.find(v => v.tpIdCliente === '07' && v.tipoComprobante === '18')?.numeroComprobantes).toBe(2);
+        expect(report.ventas.filter(v => v.tipoComprobante === '05')).toHaveLength(1);
+    });
+
+    it('rejects an annex the SRI would refuse', async () => {
+        bills.push(bill({ id: 'b8', documentNumber: '001-001-000000107', customerIdentification: '17123456789' }));
+        bills[0].customerIdentification = '1712345678001';
+        mockConfigRepo.get.mockResolvedValueOnce({ ruc: '17123', businessName: 'Picantería' });
+
+        await expect(useCase.execute(10, 2026)).rejects.toBeInstanceOf(ValidationError);
+        await expect(useCase.execute(13, 2026)).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it('detects structural problems in the generated XML', () => {
+        const generator = new ATSGenerator();
+        const errors = generator.validateStructure('<iva><IdInformante>1712345678001</IdInformante><TipoIDInformante>R</TipoIDInformante></iva>');
+
+        expect(errors).toContain('iva: falta <TipoIDInformante>');
+        expect(errors.some(e => e.includes('fuera de orden'))).toBe(true);
+        expect(generator.validateStructure('<iva><Anio>2026</Mes></iva>')[0]).toMatch(/mal formado/);
+    });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GenerateDebitNote } from '../../../src/application/use-cases/debit-notes';
+import { BillingService } from '../../../src/application/services/BillingService';
+import { XMLGenerator } from '../../../src/infrastructure/services/sri/XMLGenerator';
+import { NotFoundError, ValidationError } from '../../../src/domain/errors/CustomErrors';
+
+describe('GenerateDebitNote', () => {
+    let useCase: GenerateDebitNote;
+    let mockConfigRepo: any;
+    let mockDebitNoteRepo: any;
+    let mockBillRepo: any;
+    let mockSRIService: any;
+    let generatedXml: string;
+
+    const authorizedBill = {
+        id: 'bill1',
+        documentNumber: '001-001-000000120',
+        date: '2026-10-01T15:00:00.000Z',
+        customerName: 'Eventos Manabí S.A.',
+        customerIdentification: '1391234567001',
+        customerEmail: 'pagos@eventos.ec',
+        paymentMethod: '20',
+        accessKey: '0110202601179001234500110010010000001201234567811',
+        sriStatus: 'AUTORIZADO',
+        environment: '1'
+    };
+
+    const validInput = {
+        billId: 'bill1',
+        items: [
+            { reason: '01', amount: 12.5 },
+            { reason: '04', description: 'Vajilla rota en el evento', amount: 8, taxRate: 0 }
+        ]
+    };
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        const xmlGenerator = new XMLGenerator();
+
+        mockConfigRepo = {
+            get: vi.fn().mockResolvedValue({ businessName: 'Picantería Test', ruc: '1712345678001', address: 'Quito', billing: { taxRate: 15 } }),
+            getEnvironment: vi.fn().mockResolvedValue('1'),
+            getNextDebitNoteSequential: vi.fn().mockResolvedValueOnce(1).mockResolvedValueOnce(2)
+        };
+
+        mockBillRepo = {
+            findById: vi.fn().mockResolvedValue({ ...authorizedBill })
+        };
+
+        mockDebitNoteRepo = {
+            create: vi.fn().mockImplementation(data => Promise.resolve({ id: 'nd1', ...data })),
+            update: vi.fn().mockImplementation((id, data) => {
+                const current = mockDebitNoteRepo.create.mock.results[0].value;
+                return current.then((c: any) => Object.assign(c, data));
+            }),
+            pushErrorLog: vi.fn()
+        };
+
+        mockSRIService = {
+            generateDebitNoteXML: vi.fn().mockImplementation((debitNote, key) => {
+                generatedXml = xmlGenerator.generateDebitNoteXML(debitNote, key);
+                return generatedXml;
+            }),
+            signXML: vi.fn().mockResolvedValue('<signed/>'),
+            sendDebitNoteToSRI: vi.fn().mockResolvedValue({ estado: 'RECIBIDA', mensajes: [] }),
+            authorizeDebitNote: vi.fn().mockResolvedValue({
+                estado: 'AUTORIZADO',
+                fechaAutorizacion: '2026-10-19T10:00:00-05:00',
+                mensajes: []
+            })
+        };
+
+        useCase = new GenerateDebitNote(mockConfigRepo, mockDebitNoteRepo, mockBillRepo, mockSRIService, new BillingService());
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('emits a codDoc 05 document that references the original invoice', async () => {
+        const promise = useCase.execute(validInput, 'cajero');
+        await vi.runAllTimersAsync();
+        const result = await promise;
+
+        expect(mockDebitNoteRepo.create).toHaveBeenCalledWith(expect.objectContaining({
+            documentNumber: '001-001-000000001',
+            billId: 'bill1',
+            billDocumentNumber: '001-001-000000120',
+            originalAccessKey: authorizedBill.accessKey,
+            paymentMethod: '20',
+            sriStatus: 'BORRADOR',
+            environment: '1',
+            subtotal: 20.5,
+            tax: 1.88,
+            total: 22.38,
+            createdBy: 'cajero'
+        }));
+        expect(result.debitNote.items[0].description).toBe('Intereses por mora');
+        expect(result.debitNote.xmlContent).toBe('<signed/>');
+        expect(result.debitNote.sriStatus).toBe('AUTORIZADO');
+
+        expect(generatedXml).toContain('<notaDebito id="comprobante" version="1.0.0">');
+        expect(generatedXml).toContain('<codDoc>05</codDoc>');
+        expect(generatedXml).toContain('<codDocModificado>01</codDocModificado>');
+        expect(generatedXml).toContain('<numDocModificado>001-001-000000120</numDocModificado>');
+        expect(generatedXml).toContain('<razon>Vajilla rota en el evento</razon>');
+        expect(result.debitNote.accessKey!.substring(8, 10)).toBe('05');
+    });
+
+    it('takes a new sequential when the SRI reports it as already used', async () => {
+        mockSRIService.sendDebitNoteToSRI
+            .mockRejectedValueOnce(new Error('Error de Secuencia: SECUENCIAL REGISTRADO'))
+            .mockResolvedValueOnce({ estado: 'RECIBIDA', mensajes: [] });
+
+        const promise = useCase.execute(validInput);
+        await vi.runAllTimersAsync();
+        const result = await promise;
+
+        expect(mockConfigRepo.getNextDebitNoteSequential).toHaveBeenCalledTimes(2);
+        expect(result.debitNote.documentNumber).toBe('001-001-000000002');
+    });
+
+    it('only charges authorized invoices of an identified customer', async () => {
+        mockBillRepo.findById.mockResolvedValueOnce(null);
+        await expect(useCase.execute(validInput)).rejects.toBeInstanceOf(NotFoundError);
+
+        mockBillRepo.findById.mockResolvedValueOnce({ ...authorizedBill, sriStatus: 'DEVUELTA' });
+        await expect(useCase.execute(validInput)).rejects.toBeInstanceOf(ValidationError);
+
+        mockBillRepo.findById.mockResolvedValueOnce({ ...authorizedBill, customerIdentification: '9999999999999' });
+        await expect(useCase.execute(validInput)).rejects.toBeInstanceOf(ValidationError);
+
+        mockBillRepo.findById.mockResolvedValueOnce({ ...authorizedBill, environment: '2' });
+        await expect(useCase.execute(validInput)).rejects.toBeInstanceOf(ValidationError);
+
+        expect(mockDebitNoteRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects invalid charges', async () => {
+        await expect(useCase.execute({ ...validInput, items: [] }))
+            .rejects.toBeInstanceOf(ValidationError);
+        await expect(useCase.execute({ ...validInput, items: [{ reason: '09', amount: 5 }] }))
+            .rejects.toBeInstanceOf(ValidationError);
+        await expect(useCase.execute({ ...validInput, items: [{ reason: '04', amount: 5 }] }))
+            .rejects.toBeInstanceOf(ValidationError);
+        await expect(useCase.execute({ ...validInput, items: [{ reason: '02', amount: 0 }] }))
+            .rejects.toBeInstanceOf(ValidationError);
+        await expect(useCase.execute({ ...validInput, paymentMethod: '99' }))
+            .rejects.toBeInstanceOf(ValidationError);
+        expect(mockDebitNoteRepo.create).not.toHaveBeenCalled();
+    });
+});
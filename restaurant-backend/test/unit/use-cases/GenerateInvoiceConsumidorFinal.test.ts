@@ -34,7 +34,7 @@ describe('GenerateInvoice - Consumidor Final (SRI 2026)', () => {
             upsert: vi.fn().mockResolvedValue({ id: 'bill-123' }),
             findById: vi.fn().mockResolvedValue(null)
         };
-        mockOrderRepo = { update: vi.fn() };
+        mockOrderRepo = { findById: vi.fn().mockResolvedValue(null), update: vi.fn() };
         mockSRIService = {
             generateInvoiceXML: vi.fn().mockReturnValue('<xml></xml>'),
             signXML: vi.fn().mockResolvedValue('signed-xml'),
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GenerateInvoice } from '../../../src/application/use-cases/GenerateInvoice';
+import { BillingService } from '../../../src/application/services/BillingService';
+import { SRIService } from '../../../src/infrastructure/services/SRIService';
+import { ValidationError } from '../../../src/domain/errors/CustomErrors';
+
+vi.mock('../../../src/infrastructure/database/DatabaseConnection', () => ({
+    dbConnection: {
+        withTransaction: vi.fn((callback: any) => callback(null))
+    }
+}));
+
+describe('GenerateInvoice - Pagos múltiples', () => {
+    let generateInvoice: GenerateInvoice;
+    let mockBillRepo: any;
+    let mockSRIService: any;
+    const order = { id: 'order-1', items: [{ name: 'Ceviche', quantity: 2, total: 23 }] };
+    const client = { identification: '1712345678', name: 'ANA', email: 'ana.perez@gmail.com' };
+
+    beforeEach(() => {
+        const mockConfigRepo = {
+            get: vi.fn().mockResolvedValue({ billing: { establishment: '001', emissionPoint: '001' }, ruc: '1712345678001' }),
+            getEnvironment: vi.fn().mockResolvedValue('1'),
+            getNextSequential: vi.fn().mockResolvedValue(1)
+        };
+        mockBillRepo = {
+            upsert: vi.fn().mockResolvedValue({ id: 'bill-1' }),
+            findById: vi.fn().mockResolvedValue(null)
+        };
+        // XML real para verificar el bloque <pagos>; el resto del flujo SRI se simula
+        const realSRIService = new SRIService();
+        mockSRIService = {
+            generateInvoiceXML: vi.fn((invoice: any) => realSRIService.generateInvoiceXML(invoice)),
+            signXML: vi.fn().mockResolvedValue('signed-xml'),
+            sendToSRI: vi.fn().mockResolvedValue({ estado: 'RECIBIDA' }),
+            waitForAuthorization: vi.fn().mockResolvedValue({ estado: 'AUTORIZADO' })
+        };
+        const billingService = new BillingService();
+        vi.spyOn(billingService, 'autoLearnCustomer').mockResolvedValue({ success: true } as any);
+
+        generateInvoice = new GenerateInvoice(
+            mockConfigRepo as any, mockBillRepo, { findById: vi.fn().mockResolvedValue(null), update: vi.fn() } as any,
+            mockSRIService, { generateInvoicePDF: vi.fn().mockResolvedValue(Buffer.from('')) } as any,
+            { sendInvoiceEmail: vi.fn().mockResolvedValue({ success: true }) } as any, billingService
+        );
+    });
+
+    it('emits one <pago> per payment and returns the change for cash', async () => {
+        const result = await generateInvoice.execute({
+            order, client,
+            payments: [
+                { method: '19', amount: 15 },
+                { method: '01', amount: 8, received: 10 }
+            ]
+        });
+
+        expect(result.xml.match(/<pago>/g)).toHaveLength(2);
+        expect(result.xml).toContain('<formaPago>19</formaPago>');
+        expect(result.xml).toContain('<total>8.00</total>');
+        expect(result.change).toBe(2);
+        expect(mockBillRepo.upsert).toHaveBeenCalledWith(expect.objectContaining({
+            paymentMethod: '19',
+            payments: [
+                { method: '19', amount: 15, term: 0 },
+                { method: '01', amount: 8, term: 0, received: 10 }
+            ]
+        }));
+    });
+
+    it('falls back to a single payment with client.paymentMethod', async () => {
+        const result = await generateInvoice.execute({ order, client: { ...client, paymentMethod: '16' } });
+
+        expect(result.xml.match(/<pago>/g)).toHaveLength(1);
+        expect(result.xml).toContain('<formaPago>16</formaPago>');
+        expect(result.change).toBe(0);
+    });
+
+    it('rejects payments that do not add up to the invoice total', async () => {
+        await expect(generateInvoice.execute({
+            order, client,
+            payments: [{ method: '01', amount: 10 }, { method: '20', amount: 10 }]
+        })).rejects.toThrow(/no coincide con el total/);
+        expect(mockBillRepo.upsert).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown methods and cash received below the cash amount', async () => {
+        await expect(generateInvoice.execute({
+            order, client, payments: [{ method: '99', amount: 23 }]
+        })).rejects.toThrow(ValidationError);
+
+        await expect(generateInvoice.execute({
+            order, client, payments: [{ method: '01', amount: 23, received: 20 }]
+        })).rejects.toThrow(/efectivo recibido/);
+    });
+});
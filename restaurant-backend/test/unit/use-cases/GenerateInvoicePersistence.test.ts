@@ -4,6 +4,8 @@ import { GenerateInvoice } from '../../../src/application/use-cases/GenerateInvo
 import { SRIService } from '../../../src/infrastructure/services/SRIService';
 import { PDFService } from '../../../src/infrastructure/services/PDFService';
 import { BillingService } from '../../../src/application/services/BillingService';
+import { SRIError } from '../../../src/domain/errors/CustomErrors';
+import { XSD_INVALID_CODE } from '../../../src/infrastructure/services/sri/XSDValidator';
 
 vi.mock('../../../src/infrastructure/database/DatabaseConnection', () => ({
     dbConnection: {
@@ -34,7 +36,8 @@ describe('GenerateInvoice Persistence', () => {
         };
         mockBillRepo = {
             upsert: vi.fn().mockResolvedValue({ id: 'bill123' }),
-            findById: vi.fn().mockResolvedValue(null)
+            findById: vi.fn().mockResolvedValue(null),
+            pushErrorLog: vi.fn()
         };
         mockOrderRepo = { findById: vi.fn().mockResolvedValue({ id: 'order123', items: [], total: 100 }), update: vi.fn() };
         mockSRIService = {
@@ -101,4 +104,32 @@ describe('GenerateInvoice Persistence', () => {
             })
         }));
     });
+
+    it('should log each XSD violation and not send an invalid XML to the SRI', async () => {
+        const violations = [
+            { path: '/factura/infoFactura/razonSocialComprador', field: 'razonSocialComprador', message: 'Excede 300 caracteres (tiene 301)' },
+            { path: '/factura/detalles/detalle[1]/descripcion', field: 'descripcion', message: 'Está vacío' }
+        ];
+        mockSRIService.signXML.mockRejectedValue(
+            new SRIError('El comprobante no cumple el esquema XSD del SRI (2 errores)', XSD_INVALID_CODE, 422, { errors: violations })
+        );
+
+        const request = {
+            order: { id: 'order123', items: [], total: 100 },
+            client: { identification: '1712345678', name: 'Test Client' }
+        };
+
+        await expect(generateInvoice.execute(request as any)).rejects.toMatchObject({ code: XSD_INVALID_CODE });
+
+        expect(mockSRIService.sendToSRI).not.toHaveBeenCalled();
+        expect(mockBillRepo.upsert).toHaveBeenCalledWith(expect.objectContaining({ id: 'bill123', sriStatus: 'ERROR' }));
+        expect(mockBillRepo.upsert).not.toHaveBeenCalledWith(expect.objectContaining({ sriStatus: 'PENDING_RETRY' }));
+        expect(mockBillRepo.pushErrorLog).toHaveBeenCalledTimes(2);
+        expect(mockBillRepo.pushErrorLog).toHaveBeenCalledWith('bill123', expect.objectContaining({
+            sriStatus: 'ESQUEMA_INVALIDO',
+            message: '/factura/infoFactura/razonSocialComprador: Excede 300 caracteres (tiene 301)'
+        }));
+        // La venta ya se sirvió: el pedido se completa igual
+        expect(mockOrderRepo.update).toHaveBeenCalledWith('order123', expect.objectContaining({ billed: true }));
+    });
 });
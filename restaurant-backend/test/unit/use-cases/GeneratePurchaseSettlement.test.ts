@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GeneratePurchaseSettlement } from '../../../src/application/use-cases/purchase-settlements';
+import { BillingService } from '../../../src/application/services/BillingService';
+import { XMLGenerator } from '../../../src/infrastructure/services/sri/XMLGenerator';
+import { ValidationError } from '../../../src/domain/errors/CustomErrors';
+
+describe('GeneratePurchaseSettlement', () => {
+    let useCase: GeneratePurchaseSettlement;
+    let mockConfigRepo: any;
+    let mockSettlementRepo: any;
+    let mockSRIService: any;
+    let generatedXml: string;
+
+    const validInput = {
+        supplier: {
+            name: 'Pedro Pescador',
+            identification: '0912345678',
+            address: 'Puerto de Anconcito'
+        },
+        items: [
+            { description: 'Concha negra (ciento)', quantity: 2, unitPrice: 18.5 },
+            { description: 'Camarón', quantity: 3, unitPrice: 4.25, taxRate: 15 }
+        ],
+        paymentMethod: '01'
+    };
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        const xmlGenerator = new XMLGenerator();
+
+        mockConfigRepo = {
+            get: vi.fn().mockResolvedValue({ businessName: 'Picantería Test', ruc: '1712345678001', address: 'Quito' }),
+            getEnvironment: vi.fn().mockResolvedValue('1'),
+            getNextPurchaseSettlementSequential: vi.fn().mockResolvedValueOnce(1).mockResolvedValueOnce(2)
+        };
+
+        mockSettlementRepo = {
+            create: vi.fn().mockImplementation(data => Promise.resolve({ id: 'ps1', ...data })),
+            update: vi.fn().mockImplementation((id, data) => {
+                const current = mockSettlementRepo.create.mock.results[0].value;
+                return current.then((c: any) => Object.assign(c, data));
+            }),
+            pushErrorLog: vi.fn()
+        };
+
+        mockSRIService = {
+            generatePurchaseSettlementXML: vi.fn().mockImplementation((settlement, key) => {
+                generatedXml = xmlGenerator.generatePurchaseSettlementXML(settlement, key);
+                return generatedXml;
+            }),
+            signXML: vi.fn().mockResolvedValue('<signed/>'),
+            sendPurchaseSettlementToSRI: vi.fn().mockResolvedValue({ estado: 'RECIBIDA', mensajes: [] }),
+            authorizePurchaseSettlement: vi.fn().mockResolvedValue({
+                estado: 'AUTORIZADO',
+                fechaAutorizacion: '2026-10-19T10:00:00-05:00',
+                mensajes: []
+            })
+        };
+
+        useCase = new GeneratePurchaseSettlement(mockConfigRepo, mockSettlementRepo, mockSRIService, new BillingService());
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('emits a codDoc 03 document with its own sequential and stores the signed XML', async () => {
+        const promise = useCase.execute(validInput, 'cajero');
+        await vi.runAllTimersAsync();
+        const result = await promise;
+
+        expect(mockSettlementRepo.create).toHaveBeenCalledWith(expect.objectContaining({
+            documentNumber: '001-001-000000001',
+            sriStatus: 'BORRADOR',
+            environment: '1',
+            subtotal: 49.75,
+            tax: 1.91,
+            total: 51.66,
+            createdBy: 'cajero'
+        }));
+        expect(result.settlement.supplier.identificationType).toBe('05');
+        expect(result.settlement.xmlContent).toBe('<signed/>');
+        expect(result.settlement.sriStatus).toBe('AUTORIZADO');
+
+        expect(generatedXml).toContain('<liquidacionCompra id="comprobante" version="1.1.0">');
+        expect(generatedXml).toContain('<codDoc>03</codDoc>');
+        expect(generatedXml).toContain('<identificacionProveedor>0912345678</identificacionProveedor>');
+        expect(result.settlement.accessKey!.substring(8, 10)).toBe('03');
+    });
+
+    it('takes a new sequential when the SRI reports it as already used', async () => {
+        mockSRIService.sendPurchaseSettlementToSRI
+            .mockRejectedValueOnce(new Error('Error de Secuencia: SECUENCIAL REGISTRADO'))
+            .mockResolvedValueOnce({ estado: 'RECIBIDA', mensajes: [] });
+
+        const promise = useCase.execute(validInput);
+        await vi.runAllTimersAsync();
+        const result = await promise;
+
+        expect(mockConfigRepo.getNextPurchaseSettlementSequential).toHaveBeenCalledTimes(2);
+        expect(result.settlement.documentNumber).toBe('001-001-000000002');
+    });
+
+    it('rejects suppliers without identification and empty purchases', async () => {
+        await expect(useCase.execute({ ...validInput, supplier: { ...validInput.supplier, identification: '' } }))
+            .rejects.toBeInstanceOf(ValidationError);
+        await expect(useCase.execute({ ...validInput, items: [] }))
+            .rejects.toBeInstanceOf(ValidationError);
+        await expect(useCase.execute({ ...validInput, paymentMethod: '99' }))
+            .rejects.toBeInstanceOf(ValidationError);
+        expect(mockSettlementRepo.create).not.toHaveBeenCalled();
+    });
+});
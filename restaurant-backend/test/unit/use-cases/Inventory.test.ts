@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { InventoryService } from '../../../src/application/services/InventoryService';
+import { RecordStockMovement } from '../../../src/application/use-cases/inventory';
+import { Ingredient, StockMovement } from '../../../src/domain/entities/Ingredient';
+import { Order, OrderStatus } from '../../../src/domain/entities/Order';
+import { ValidationError } from '../../../src/domain/errors/CustomErrors';
+
+describe('Inventory', () => {
+    let ingredients: Record<string, Ingredient>;
+    let movements: Omit<StockMovement, 'id'>[];
+    let deductOn: 'created' | 'completed';
+    let ingredientRepository: any;
+    let movementRepository: any;
+    let orderRepository: any;
+    let notifier: { notifyLowStock: ReturnType<typeof vi.fn> };
+    let service: InventoryService;
+
+    const order = (overrides: Partial<Order> = {}): Order => ({
+        id: 'order-1',
+        orderNumber: '012',
+        customerName: 'Mesa 2',
+        type: 'En Local',
+        status: OrderStatus.New,
+        createdAt: new Date(),
+        items: [{ name: 'Seco de Chivo', quantity: 2, price: 9, taxRate: 15 }],
+        stockDeduction: [],
+        ...overrides
+    });
+
+    beforeEach(() => {
+        ingredients = {
+            chivo: { id: 'chivo', name: 'Carne de chivo', unit: 'kg', stock: 5, minStock: 4.5, active: true },
+            arroz: { id: 'arroz', name: 'Arroz', unit: 'kg', stock: 20, minStock: 2, active: true }
+        };
+        movements = [];
+        deductOn = 'created';
+
+        ingredientRepository = {
+            findById: vi.fn(async (id: string) => ingredients[id] ?? null),
+            adjustStock: vi.fn(async (id: string, delta: number) => {
+                if (!ingredients[id]) return null;
+                ingredients[id] = { ...ingredients[id], stock: ingredients[id].stock + delta };
+                return ingredients[id];
+            })
+        };
+        movementRepository = {
+            createMany: vi.fn(async (list: Omit<StockMovement, 'id'>[]) => {
+                movements.push(...list);
+                return list.map((m, i) => ({ ...m, id: `mov-${i}` }));
+            }),
+            existsForReference: vi.fn(async (ref: { id: string }) => movements.some(m => m.reference?.id === ref.id))
+        };
+        orderRepository = { update: vi.fn(async (id: string, data: any) => ({ id, ...data })) };
+        notifier = { notifyLowStock: vi.fn(async () => undefined) };
+
+        const menuRepository = {
+            findAll: vi.fn(async () => [
+                { name: 'Seco de Chivo', recipe: [{ ingredientId: 'chivo', quantity: 0.25 }, { ingredientId: 'arroz', quantity: 0.2 }] },
+                { name: 'Cola', recipe: [] }
+            ])
+        };
+        const configRepository = { get: vi.fn(async () => ({ inventoryDeductOn: deductOn })) };
+
+        service = new InventoryService(
+            ingredientRepository, movementRepository, menuRepository as any, configRepository as any, orderRepository, notifier
+        );
+    });
+
+    it('should deduct the recipe when the order is created and alert when crossing the minimum', async () => {
+        await service.syncOrder(order(), 'ana');
+
+        expect(ingredients.chivo.stock).toBeCloseTo(4.5);
+        expect(ingredients.arroz.stock).toBeCloseTo(19.6);
+        expect(movements).toHaveLength(2);
+        expect(movements[0]).toEqual(expect.objectContaining({
+            type: 'sale', quantity: -0.5, stockAfter: 4.5, createdBy: 'ana',
+            reference: { kind: 'order', id: 'order-1', label: '#012' }
+        }));
+        expect(orderRepository.update).toHaveBeenCalledWith('order-1', {
+            stockDeduction: [{ ingredientId: 'chivo', quantity: 0.5 }, { ingredientId: 'arroz', quantity: 0.4 }]
+        });
+        expect(notifier.notifyLowStock).toHaveBeenCalledWith([expect.objectContaining({ id: 'chivo', stock: 4.5 })]);
+    });
+
+    it('should move only the difference when the order is edited, and return everything on cancel', async () => {
+        const deducted = [{ ingredientId: 'chivo', quantity: 0.5 }, { ingredientId: 'arroz', quantity: 0.4 }];
+        const edited = order({ items: [{ name: 'Seco de Chivo', quantity: 3, price: 9, taxRate: 15 }], stockDeduction: deducted });
+
+        await service.syncOrder(edited);
+        expect(movements.map(m => m.quantity)).toEqual([-0.25, -0.2]);
+
+        movements = [];
+        await service.releaseOrder(order({ status: OrderStatus.Cancelled, stockDeduction: deducted }), 'luis');
+        expect(movements.map(m => [m.type, m.quantity])).toEqual([['reversal', 0.5], ['reversal', 0.4]]);
+        expect(orderRepository.update).toHaveBeenLastCalledWith('order-1', { stockDeduction: [] });
+    });
+
+    it('should wait for completion when configured to deduct on completed orders', async () => {
+        deductOn = 'completed';
+
+        await service.syncOrder(order({ status: OrderStatus.Ready }));
+        expect(ingredientRepository.adjustStock).not.toHaveBeenCalled();
+
+        await service.syncOrder(order({ status: OrderStatus.Completed }));
+        expect(ingredients.chivo.stock).toBeCloseTo(4.5);
+    });
+
+    it('should restock a credit note once, matching invoice lines that carry modifiers', async () => {
+        const items = [{ name: 'Seco de Chivo (Grande)', quantity: 1 }];
+
+        await service.restockCreditNote({ id: 'nc-1', documentNumber: '001-001-000000005' }, items);
+        await service.restockCreditNote({ id: 'nc-1', documentNumber: '001-001-000000005' }, items);
+
+        expect(ingredients.chivo.stock).toBeCloseTo(5.25);
+        expect(movements).toHaveLength(2);
+        expect(movements[0].reference).toEqual({ kind: 'creditNote', id: 'nc-1', label: '001-001-000000005' });
+    });
+
+    it('should record a physical count as the difference against the system', async () => {
+        const recordMovement = new RecordStockMovement(ingredientRepository, service);
+
+        const movement = await recordMovement.execute({ ingredientId: 'arroz', type: 'adjustment', quantity: 18.5, createdBy: 'ana' });
+
+        expect(movement).toEqual(expect.objectContaining({ type: 'adjustment', quantity: -1.5, stockAfter: 18.5 }));
+        await expect(recordMovement.execute({ ingredientId: 'arroz', type: 'waste', quantity: 1 })).rejects.toThrow(ValidationError);
+    });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { InvoicePortal, GetInvoiceDocument } from '../../../src/application/use-cases/invoice-portal';
+import { ForbiddenError, NotFoundError, ValidationError } from '../../../src/domain/errors/CustomErrors';
+import { cacheService } from '../../../src/infrastructure/utils/CacheService';
+
+const ACCESS_KEY = '1910202601171234567800120010010000001231234567810';
+
+describe('InvoicePortal', () => {
+    let bills: any[];
+    let mockBillRepo: any;
+    let mockEmailService: any;
+    let mockDocuments: any;
+    let portal: InvoicePortal;
+
+    beforeEach(() => {
+        cacheService.clear();
+        bills = [
+            {
+                id: 'b1', documentNumber: '001-001-000000123', date: '2026-10-19', customerName: 'Ana Pérez',
+                customerIdentification: '1712345678', customerEmail: 'Ana@Correo.ec', total: 23.5, environment: '2',
+                sriStatus: 'AUTORIZADO', accessKey: ACCESS_KEY, authorizationDate: '2026-10-19T12:00:00-05:00'
+            },
+            {
+                id: 'b2', documentNumber: '001-001-000000124', date: '2026-10-19', customerName: 'Ana Pérez',
+                customerIdentification: '1712345678', customerEmail: 'ana@correo.ec', total: 10, environment: '2',
+                sriStatus: 'DEVUELTA', accessKey: undefined
+            }
+        ];
+        mockBillRepo = {
+            findByAccessKey: vi.fn().mockImplementation(async (key: string) => bills.find(b => b.accessKey === key) || null),
+            findByDocumentNumber: vi.fn().mockImplementation(async (n: string) => bills.find(b => b.documentNumber === n) || null),
+            findPaginated: vi.fn().mockImplementation(async (_p: number, _l: number, filter: any) => {
+                const data = bills.filter(b => Object.keys(filter).every(field => b[field] === filter[field]));
+                return { data, pagination: { page: 1, limit: 20, total: data.length, totalPages: 1 } };
+            })
+        };
+        mockEmailService = {
+            sendInvoiceEmail: vi.fn(),
+            sendCreditNoteEmail: vi.fn(),
+            sendPortalCodeEmail: vi.fn().mockResolvedValue({ success: true, messageId: 'm1' })
+        };
+        mockDocuments = {
+            getPdf: vi.fn().mockResolvedValue({ pdf: Buffer.from('%PDF'), documentNumber: '001-001-000000123' }),
+            getAuthorizedXml: vi.fn().mockResolvedValue({ xml: '<autorizacion/>', documentNumber: '001-001-000000123' })
+        };
+        portal = new InvoicePortal(mockBillRepo, mockEmailService, mockDocuments as GetInvoiceDocument);
+    });
+
+    it('finds an authorized invoice by identification plus access key or unpadded number, and scopes downloads to it', async () => {
+        const byKey = await portal.lookup({ identification: '1712345678', reference: ACCESS_KEY });
+        expect(byKey.invoices.map(i => i.id)).toEqual(['b1']);
+
+        const byNumber = await portal.lookup({ identification: ' 1712345678 ', reference: '001-001-123' });
+        expect(mockBillRepo.findPaginated).toHaveBeenCalledWith(1, 1, {
+            documentNumber: '001-001-000000123', environment: '2', sriStatus: 'AUTORIZADO'
+        });
+
+        await portal.getPdf(byNumber.token, 'b1');
+        expect(mockDocuments.getPdf).toHaveBeenCalledWith('b1');
+        await expect(portal.getXml(byNumber.token, 'b2')).rejects.toThrow(ForbiddenError);
+        await expect(portal.getXml('forged', 'b1')).rejects.toThrow(ForbiddenError);
+
+        // Misma respuesta si la cédula no coincide o la factura no está autorizada
+        await expect(portal.lookup({ identification: '0912345678', reference: ACCESS_KEY })).rejects.toThrow(NotFoundError);
+        await expect(portal.lookup({ identification: '1712345678', reference: '001-001-000000124' }))
+            .rejects.toThrow('No encontramos una factura autorizada con esos datos');
+        await expect(portal.lookup({ identification: '9999999999999', reference: ACCESS_KEY })).rejects.toThrow(ValidationError);
+        await expect(portal.lookup({ identification: '1712345678', reference: 'abc' })).rejects.toThrow(ValidationError);
+    });
+
+    it('never serves a test-environment invoice, even with the same number or an authorized status', async () => {
+        const testKey = '1910202601171234567800110010010000001251234567814';
+        bills = [
+            { ...bills[0], id: 'p1', environment: '1', accessKey: testKey, documentNumber: '001-001-000000125' },
+            { ...bills[0], id: 'p2', environment: '1', accessKey: `${ACCESS_KEY.slice(0, 23)}1${ACCESS_KEY.slice(24)}` },
+            bills[0]
+        ];
+
+        const byNumber = await portal.lookup({ identification: '1712345678', reference: '001-001-000000123' });
+        expect(byNumber.invoices.map(i => i.id)).toEqual(['b1']);
+
+        await expect(portal.lookup({ identification: '1712345678', reference: '001-001-000000125' })).rejects.toThrow(NotFoundError);
+        await expect(portal.lookup({ identification: '1712345678', reference: testKey })).rejects.toThrow(NotFoundError);
+
+        // Factura antigua sin environment: manda el ambiente de la clave de acceso
+        bills = [{ ...bills[0], environment: undefined, accessKey: testKey }];
+        await expect(portal.lookup({ identification: '1712345678', reference: testKey })).rejects.toThrow(NotFoundError);
+    });
+
+    it('emails a one-time code only to the address on the invoices and locks it after repeated failures', async () => {
+        const other = await portal.requestCode({ identification: '1712345678', email: 'intruso@correo.ec' });
+        expect(mockEmailService.sendPortalCodeEmail).not.toHaveBeenCalled();
+
+        const sent = await portal.requestCode({ identification: '1712345678', email: 'ana@correo.ec' });
+        expect(sent.message).toBe(other.message);
+        expect(mockEmailService.sendPortalCodeEmail).toHaveBeenCalledWith('ana@correo.ec', expect.stringMatching(/^\d{6}$/), 10);
+        const code: string = mockEmailService.sendPortalCodeEmail.mock.calls[0][1];
+
+        const session = await portal.verifyCode({ identification: '1712345678', code });
+        expect(session.invoices.map(i => i.documentNumber)).toEqual(['001-001-000000123']);
+        // Un solo uso
+        await expect(portal.verifyCode({ identification: '1712345678', code })).rejects.toThrow(ValidationError);
+
+        await portal.requestCode({ identification: '1712345678', email: 'ana@correo.ec' });
+        const fresh: string = mockEmailService.sendPortalCodeEmail.mock.calls[1][1];
+        const wrong = fresh === '000000' ? '000001' : '000000';
+        for (let i = 0; i < 5; i++) {
+            await expect(portal.verifyCode({ identification: '1712345678', code: wrong })).rejects.toThrow(ValidationError);
+        }
+        await expect(portal.verifyCode({ identification: '1712345678', code: fresh }))
+            .rejects.toThrow('Código incorrecto o expirado. Solicite uno nuevo.');
+    });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GenerateInvoice } from '../../../src/application/use-cases/GenerateInvoice';
+import { BillingService } from '../../../src/application/services/BillingService';
+import { XMLGenerator } from '../../../src/infrastructure/services/sri/XMLGenerator';
+import { resolveTip } from '../../../src/domain/billing/tips';
+import { ValidationError } from '../../../src/domain/errors/CustomErrors';
+
+vi.mock('../../../src/infrastructure/database/DatabaseConnection', () => ({
+    dbConnection: {
+        withTransaction: vi.fn((callback: any) => callback(null))
+    }
+}));
+
+// Ceviche x2 a $11.50 (IVA 15%): base 20.00 + IVA 3.00, pedido tomado por María
+const dineInOrder = () => ({
+    id: 'order-1',
+    orderNumber: '30',
+    customerName: 'Mesa 2',
+    type: 'En Local',
+    statusHistory: [{ status: 'Nuevo', at: new Date(), by: 'maria' }],
+    items: [{ id: 'ceviche', name: 'Ceviche', quantity: 2, price: 11.5, total: 23, taxRate: 15 }]
+});
+
+const client = { identification: '1712345678', name: 'Ana Pérez', email: 'ana@correo.ec', paymentMethod: 'Efectivo' };
+
+describe('Propina y cargo por servicio', () => {
+    let mockBillRepo: any;
+    let mockSRIService: any;
+    let generateInvoice: GenerateInvoice;
+
+    beforeEach(() => {
+        mockBillRepo = {
+            upsert: vi.fn().mockImplementation(async (bill: any) => ({ id: bill.id || 'bill-1' })),
+            findById: vi.fn().mockResolvedValue(null),
+            setEmailDelivery: vi.fn()
+        };
+        const mockConfigRepo = {
+            get: vi.fn().mockResolvedValue({ billing: { establishment: '001', emissionPoint: '001', serviceChargeRate: 10 }, ruc: '1712345678001' }),
+            getEnvironment: vi.fn().mockResolvedValue('1'),
+            getNextSequential: vi.fn().mockResolvedValue(60)
+        };
+        mockSRIService = {
+            generateInvoiceXML: vi.fn().mockReturnValue('<xml></xml>'),
+            signXML: vi.fn().mockResolvedValue('signed-xml'),
+            sendToSRI: vi.fn().mockResolvedValue({ estado: 'RECIBIDA' }),
+            waitForAuthorization: vi.fn().mockResolvedValue({ estado: 'AUTORIZADO' })
+        };
+        const billingService = new BillingService();
+        vi.spyOn(billingService, 'autoLearnCustomer').mockResolvedValue({ success: true } as any);
+
+        generateInvoice = new GenerateInvoice(
+            mockConfigRepo as any, mockBillRepo, { findById: vi.fn(), update: vi.fn() } as any, mockSRIService as any,
+            { generateInvoicePDF: vi.fn().mockResolvedValue(Buffer.from('')) } as any,
+            { sendInvoiceEmail: vi.fn().mockResolvedValue({ success: true }) } as any,
+            billingService
+        );
+    });
+
+    it('charges the configured service charge outside the IVA base and credits the waiter', async () => {
+        await generateInvoice.execute({ order: dineInOrder(), client, tip: { type: 'SERVICE_CHARGE' } });
+
+        const invoice = mockSRIService.generateInvoiceXML.mock.calls[0][0];
+        expect(invoice.info.totalSinImpuestos).toBeCloseTo(20, 2);
+        expect(invoice.info.propina).toBe(2);
+        expect(invoice.info.importeTotal).toBeCloseTo(25, 2);
+        expect(invoice.info.pagos[0].total).toBeCloseTo(25, 2);
+
+        const xml = new XMLGenerator().generateInvoiceXML(invoice);
+        expect(xml).toContain('<propina>2.00</propina>');
+        expect(xml).toContain('<importeTotal>25.00</importeTotal>');
+        expect(xml).toContain('<baseImponible>20.00</baseImponible>');
+
+        const bill = mockBillRepo.upsert.mock.calls[0][0];
+        expect(bill.tip).toEqual({ type: 'SERVICE_CHARGE', value: 10, amount: 2, employee: 'maria' });
+        expect(bill.total).toBeCloseTo(25, 2);
+        expect(bill.subtotal).toBeCloseTo(20, 2);
+    });
+
+    it('keeps the original tip when re-submitting a stored bill', async () => {
+        mockBillRepo.findById.mockResolvedValue({
+            id: 'bill-9', documentNumber: '001-001-000000055', retryCount: 1,
+            tip: { type: 'AMOUNT', value: 3, amount: 3, employee: 'carlos' }
+        });
+
+        await generateInvoice.execute({ id: 'bill-9', order: { id: 'order-1', items: dineInOrder().items }, client });
+
+        const invoice = mockSRIService.generateInvoiceXML.mock.calls[0][0];
+        expect(invoice.info.secuencial).toBe('000000055');
+        expect(invoice.info.propina).toBe(3);
+        expect(invoice.info.importeTotal).toBeCloseTo(26, 2);
+        expect(mockBillRepo.upsert.mock.calls[0][0].tip).toEqual(expect.objectContaining({ amount: 3, employee: 'carlos' }));
+    });
+
+    it('rejects negative tips before taking a sequential', async () => {
+        expect(() => resolveTip({ type: 'AMOUNT', value: -1 }, 20)).toThrow(ValidationError);
+        expect(resolveTip({ type: 'AMOUNT', value: 0 }, 20)).toBeUndefined();
+
+        await expect(generateInvoice.execute({ order: dineInOrder(), client, tip: { type: 'SERVICE_CHARGE', value: 150 } }))
+            .rejects.toThrow('El cargo por servicio no puede superar el 100%');
+        expect(mockBillRepo.upsert).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach, type Mocked } from 'vitest';
+import { BumpKitchenStation } from '../../../src/application/use-cases/kitchen';
+import { CreateOrder } from '../../../src/application/use-cases/CreateOrder';
+import { KitchenStationRouter } from '../../../src/application/services/KitchenStationRouter';
+import { IOrderRepository } from '../../../src/domain/repositories/IOrderRepository';
+import { IMenuRepository } from '../../../src/domain/repositories/IMenuRepository';
+import { IRestaurantConfigRepository } from '../../../src/domain/repositories/IRestaurantConfigRepository';
+import { Order, OrderStatus } from '../../../src/domain/entities/Order';
+import { MenuItem } from '../../../src/domain/entities/MenuItem';
+import { normalizeKitchenStations } from '../../../src/domain/kitchen/stations';
+import { ValidationError } from '../../../src/domain/errors/CustomErrors';
+
+const menuItem = (name: string, extra: Partial<MenuItem> = {}): MenuItem => ({
+    id: name, name, description: '', price: 5, imageUrl: '', category: 'Platos', available: true, taxRate: 15, ...extra
+});
+
+describe('Kitchen Stations', () => {
+    let mockOrderRepository: Mocked<IOrderRepository>;
+
+    const order: Order = {
+        id: 'order-1',
+        customerName: 'Mesa 4',
+        type: 'En Local',
+        status: OrderStatus.New,
+        createdAt: new Date(),
+        items: [
+            { name: 'Churrasco', quantity: 1, price: 9, taxRate: 15, station: 'grill' },
+            { name: 'Limonada', quantity: 2, price: 2, taxRate: 15, station: 'bar' }
+        ]
+    };
+
+    beforeEach(() => {
+        mockOrderRepository = {
+            findById: vi.fn().mockResolvedValue(order),
+            markStationPrepared: vi.fn(),
+            update: vi.fn(async (_id, data) => ({ ...order, ...data })),
+            create: vi.fn(async (data) => ({ ...data, id: 'order-2' })),
+            getNextOrderNumber: vi.fn().mockResolvedValue('0002')
+        } as any;
+    });
+
+    it('should route items by menu item station, falling back to the category station', async () => {
+        const menuRepository = {
+            findAllWithCategory: vi.fn().mockResolvedValue([
+                menuItem('Churrasco', { categoryData: { id: 'c1', name: 'Carnes', description: '', imageUrl: '', productType: 'menu', visibleOnWebsite: true, sortOrder: 0, available: true, stationId: 'grill' } }),
+                menuItem('Limonada', { stationId: 'bar' }),
+                menuItem('Arroz', { stationId: 'removed-station' })
+            ])
+        } as unknown as IMenuRepository;
+        const configRepository = {
+            get: vi.fn().mockResolvedValue({ kitchenStations: [{ id: 'grill', name: 'Parrilla' }, { id: 'bar', name: 'Bar' }] })
+        } as unknown as IRestaurantConfigRepository;
+
+        const useCase = new CreateOrder(mockOrderRepository, undefined, new KitchenStationRouter(menuRepository, configRepository));
+        const created = await useCase.execute({
+            customerName: 'Mesa 4',
+            type: 'En Local',
+            items: [
+                { name: 'Churrasco', quantity: 1, price: 9, taxRate: 15 },
+                { name: 'Limonada', quantity: 1, price: 2, taxRate: 15 },
+                { name: 'Arroz', quantity: 1, price: 2, taxRate: 15 }
+            ]
+        });
+
+        expect(created.items.map(i => i.station)).toEqual(['grill', 'bar', null]);
+    });
+
+    it('should keep the order open until every station bumps its items', async () => {
+        const publisher = { publish: vi.fn() };
+        mockOrderRepository.markStationPrepared.mockResolvedValueOnce({
+            ...order,
+            items: [{ ...order.items[0], prepared: true }, order.items[1]]
+        });
+
+        const result = await new BumpKitchenStation(mockOrderRepository, publisher).execute('order-1', 'grill');
+
+        expect(mockOrderRepository.markStationPrepared).toHaveBeenCalledWith('order-1', 'grill');
+        expect(result.status).toBe(OrderStatus.InPreparation);
+        expect(mockOrderRepository.update).toHaveBeenCalledWith('order-1', expect.objectContaining({ status: OrderStatus.InPreparation }));
+        expect(publisher.publish).toHaveBeenCalledWith('order:item-prepared', 'order-1', expect.anything());
+    });
+
+    it('should mark the order ready when the last station bumps', async () => {
+        const publisher = { publish: vi.fn() };
+        mockOrderRepository.markStationPrepared.mockResolvedValueOnce({
+            ...order,
+            items: order.items.map(item => ({ ...item, prepared: true }))
+        });
+
+        const result = await new BumpKitchenStation(mockOrderRepository, publisher).execute('order-1', 'bar');
+
+        expect(mockOrderRepository.update).toHaveBeenCalledWith('order-1', expect.objectContaining({ status: OrderStatus.Ready }));
+        expect(result.status).toBe(OrderStatus.Ready);
+        expect(publisher.publish).toHaveBeenCalledWith('order:ready', 'order-1', expect.anything());
+    });
+
+    it('should bump items without station through the general station', async () => {
+        mockOrderRepository.markStationPrepared.mockResolvedValueOnce(order);
+
+        await new BumpKitchenStation(mockOrderRepository).execute('order-1', 'general');
+
+        expect(mockOrderRepository.markStationPrepared).toHaveBeenCalledWith('order-1', null);
+    });
+
+    it('should validate station names and ids in the configuration', () => {
+        expect(normalizeKitchenStations([{ id: '', name: ' Postres Fríos ' }])).toEqual([{ id: 'postres-frios', name: 'Postres Fríos' }]);
+        expect(() => normalizeKitchenStations([{ id: 'bar', name: 'Bar' }, { id: 'bar', name: 'Barra' }])).toThrow(ValidationError);
+        expect(() => normalizeKitchenStations([{ id: 'general', name: 'General' }])).toThrow(/inválido/);
+    });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach, type Mocked } from 'vitest';
+import { CreateMenu } from '../../../src/application/use-cases/CreateMenu';
+import { CreateOrder } from '../../../src/application/use-cases/CreateOrder';
+import { IMenuRepository } from '../../../src/domain/repositories/IMenuRepository';
+import { IOrderRepository } from '../../../src/domain/repositories/IOrderRepository';
+import { MenuItem } from '../../../src/domain/entities/MenuItem';
+import { ValidationError } from '../../../src/domain/errors/CustomErrors';
+
+describe('Menu Modifiers', () => {
+    let mockMenuRepository: Mocked<IMenuRepository>;
+    let mockOrderRepository: Mocked<IOrderRepository>;
+
+    const ceviche: MenuItem = {
+        id: 'menu-1',
+        name: 'Ceviche',
+        description: '',
+        price: 10,
+        imageUrl: '',
+        category: 'Mariscos',
+        available: true,
+        taxRate: 15,
+        modifierGroups: [
+            {
+                id: 'g1', name: ' Tamaño ', type: 'size', minChoices: 1, maxChoices: 1,
+                options: [{ id: 'o1', name: 'Normal', priceDelta: 0 }, { id: 'o2', name: 'Grande', priceDelta: 3 }]
+            },
+            {
+                id: 'g2', name: 'Quitar', type: 'removal', minChoices: 0, maxChoices: 5,
+                options: [{ id: 'o3', name: 'Cebolla', priceDelta: 1 }]
+            }
+        ]
+    };
+
+    beforeEach(() => {
+        mockMenuRepository = { create: vi.fn(async (data) => data) } as any;
+        mockOrderRepository = {
+            create: vi.fn(async (data) => ({ ...data, id: 'order-1' })),
+            getNextOrderNumber: vi.fn().mockResolvedValue('0001')
+        } as any;
+    });
+
+    it('should normalize modifier groups when saving a menu item', async () => {
+        const saved = await new CreateMenu(mockMenuRepository).execute(ceviche);
+
+        expect(saved.modifierGroups![0]).toMatchObject({ name: 'Tamaño', minChoices: 1, maxChoices: 1 });
+        // Quitar un ingrediente nunca cobra; maxChoices no supera las opciones
+        expect(saved.modifierGroups![1]).toMatchObject({ maxChoices: 1, options: [{ name: 'Cebolla', priceDelta: 0, available: true }] });
+    });
+
+    it('should reject groups without options or with impossible limits', async () => {
+        const useCase = new CreateMenu(mockMenuRepository);
+        const [size] = ceviche.modifierGroups!;
+
+        await expect(useCase.execute({ ...ceviche, modifierGroups: [{ ...size, options: [] }] }))
+            .rejects.toThrow(/no tiene opciones/);
+        await expect(useCase.execute({ ...ceviche, modifierGroups: [{ ...size, minChoices: 3 }] }))
+            .rejects.toThrow(ValidationError);
+        expect(mockMenuRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should accept order lines with modifiers and reject malformed ones', async () => {
+        const useCase = new CreateOrder(mockOrderRepository);
+        const line = {
+            name: 'Ceviche', quantity: 1, price: 13, taxRate: 15,
+            modifiers: [{ groupId: 'g1', groupName: 'Tamaño', type: 'size' as const, name: 'Grande', priceDelta: 3 }]
+        };
+
+        await useCase.execute({ customerName: 'Mesa 1', type: 'En Local', items: [line] });
+        expect(mockOrderRepository.create).toHaveBeenCalledWith(expect.objectContaining({ items: [line] }));
+
+        await expect(useCase.execute({
+            customerName: 'Mesa 1', type: 'En Local',
+            items: [{ ...line, modifiers: [{ ...line.modifiers[0], priceDelta: 'tres' as any }] }]
+        })).rejects.toThrow(/recargo válido/);
+    });
+});
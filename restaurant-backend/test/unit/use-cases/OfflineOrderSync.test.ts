@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CreateOrder } from '../../../src/application/use-cases/CreateOrder';
+import { UpdateOrder } from '../../../src/application/use-cases/UpdateOrder';
+import { Order, OrderStatus } from '../../../src/domain/entities/Order';
+import { ConflictError } from '../../../src/domain/errors/CustomErrors';
+
+describe('Offline order sync', () => {
+    let mockOrderRepository: any;
+    let eventPublisher: { publish: ReturnType<typeof vi.fn> };
+
+    const stored: Order = {
+        id: 'order-1',
+        orderNumber: '041',
+        customerName: 'Mesa 4',
+        type: 'En Local',
+        status: OrderStatus.New,
+        createdAt: new Date('2026-03-10T12:00:00Z'),
+        updatedAt: new Date('2026-03-10T12:05:00Z'),
+        items: [{ name: 'Ceviche', quantity: 1, price: 8, taxRate: 15 }],
+        clientRequestId: 'pos-abc',
+        lastClientUpdateId: null
+    };
+
+    beforeEach(() => {
+        mockOrderRepository = {
+            findById: vi.fn().mockResolvedValue(stored),
+            findByClientRequestId: vi.fn().mockResolvedValue(null),
+            getNextOrderNumber: vi.fn().mockResolvedValue('042'),
+            create: vi.fn(async (data: any) => ({ ...data, id: 'order-2', createdAt: new Date() })),
+            update: vi.fn(async (id: string, data: any) => ({ ...stored, ...data, id }))
+        };
+        eventPublisher = { publish: vi.fn() };
+    });
+
+    it('should return the order already created when the queue resends the same request', async () => {
+        const createOrder = new CreateOrder(mockOrderRepository, eventPublisher);
+        mockOrderRepository.findByClientRequestId.mockResolvedValue(stored);
+
+        const order = await createOrder.execute({
+            customerName: 'Mesa 4', type: 'En Local', items: stored.items, clientRequestId: 'pos-abc'
+        });
+
+        expect(order).toBe(stored);
+        expect(mockOrderRepository.create).not.toHaveBeenCalled();
+        expect(mockOrderRepository.getNextOrderNumber).not.toHaveBeenCalled();
+        expect(eventPublisher.publish).not.toHaveBeenCalled();
+    });
+
+    it('should store the client request id on a new order', async () => {
+        const createOrder = new CreateOrder(mockOrderRepository, eventPublisher);
+
+        const order = await createOrder.execute({
+            customerName: 'Mesa 5', type: 'En Local', items: stored.items, clientRequestId: 'pos-new'
+        });
+
+        expect(order.clientRequestId).toBe('pos-new');
+        expect(order.orderNumber).toBe('042');
+    });
+
+    it('should report a conflict when the order changed after the offline edit was made', async () => {
+        const updateOrder = new UpdateOrder(mockOrderRepository);
+
+        await expect(updateOrder.execute('order-1', { customerName: 'Mesa 4B' }, 'ana', {
+            baseUpdatedAt: '2026-03-10T12:01:00Z', clientUpdateId: 'edit-1'
+        })).rejects.toThrow(ConflictError);
+        expect(mockOrderRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should apply an offline edit once and ignore its retries', async () => {
+        const updateOrder = new UpdateOrder(mockOrderRepository);
+
+        const updated = await updateOrder.execute('order-1', { customerName: 'Mesa 4B' }, 'ana', {
+            baseUpdatedAt: stored.updatedAt, clientUpdateId: 'edit-1'
+        });
+        expect(mockOrderRepository.update).toHaveBeenCalledWith('order-1', { customerName: 'Mesa 4B', lastClientUpdateId: 'edit-1' });
+
+        mockOrderRepository.findById.mockResolvedValue({ ...updated, updatedAt: new Date() });
+        await updateOrder.execute('order-1', { customerName: 'Mesa 4B' }, 'ana', {
+            baseUpdatedAt: stored.updatedAt, clientUpdateId: 'edit-1'
+        });
+        expect(mockOrderRepository.update).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,248 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GenerateInvoice } from '../../../src/application/use-cases/GenerateInvoice';
+import { UpdateOrder } from '../../../src/application/use-cases/UpdateOrder';
+import { AuthorizeDiscount } from '../../../src/application/use-cases/AuthorizeDiscount';
+import { DiscountAuthorizer } from '../../../src/application/services/DiscountAuthorizer';
+import { billToInvoice } from '../../../src/application/services/billInvoice';
+import { BillingService } from '../../../src/application/services/BillingService';
+import { XMLGenerator } from '../../../src/infrastructure/services/sri/XMLGenerator';
+import { Order, OrderStatus } from '../../../src/domain/entities/Order';
+import { ForbiddenError, ValidationError } from '../../../src/domain/errors/CustomErrors';
+import { JWTService } from '../../../src/infrastructure/utils/JWTService';
+import bcrypt from 'bcryptjs';
+
+vi.mock('../../../src/infrastructure/database/DatabaseConnection', () => ({
+    dbConnection: {
+        withTransaction: vi.fn((callback: any) => callback(null))
+    }
+}));
+
+// Ceviche x2 a $11.50 (IVA 15%) con 10% de descuento de línea, agua (IVA 0%) y $2.00 de descuento al pedido
+const discountedOrder = (): Order => ({
+    id: 'order-1',
+    orderNumber: '21',
+    customerName: 'Mesa 3',
+    type: 'En Local',
+    status: OrderStatus.Delivered,
+    createdAt: new Date(),
+    items: [
+        { name: 'Ceviche', quantity: 2, price: 11.5, taxRate: 15, discount: { type: 'PERCENTAGE', value: 10, reason: 'Demora en cocina' } },
+        { name: 'Agua', quantity: 1, price: 1, taxRate: 0 }
+    ],
+    discount: { type: 'AMOUNT', value: 2, reason: 'Cliente frecuente' }
+});
+
+describe('Descuentos de línea y de pedido', () => {
+    describe('UpdateOrder', () => {
+        let mockOrderRepo: any;
+        let updateOrder: UpdateOrder;
+
+        beforeEach(() => {
+            mockOrderRepo = {
+                findById: vi.fn(),
+                update: vi.fn().mockImplementation(async (id: string, updates: Partial<Order>) => ({ id, ...updates }))
+            };
+            updateOrder = new UpdateOrder(mockOrderRepo);
+        });
+
+        it('stamps who authorized a new discount and keeps the stamp of unchanged ones', async () => {
+            const authorizedAt = new Date('2026-10-18T12:00:00.000Z');
+            const current = discountedOrder();
+            current.items[0].discount = { ...current.items[0].discount!, authorizedBy: 'maria', authorizedAt, amount: 2.3 };
+            current.discount = null;
+            mockOrderRepo.findById.mockResolvedValue(current);
+
+            const { discount, ...updates } = discountedOrder();
+            await updateOrder.execute('order-1', { items: updates.items, discount }, 'carlos');
+
+            const saved = mockOrderRepo.update.mock.calls[0][1];
+            expect(saved.items[0].discount).toEqual(expect.objectContaining({ authorizedBy: 'maria', authorizedAt, amount: 2.3 }));
+            expect(saved.items[1].discount).toBeUndefined();
+            expect(saved.discount).toEqual(expect.objectContaining({
+                type: 'AMOUNT', value: 2, reason: 'Cliente frecuente', authorizedBy: 'carlos', amount: 2
+            }));
+        });
+
+        it('rejects discounts without reason or over 100%', async () => {
+            mockOrderRepo.findById.mockResolvedValue(discountedOrder());
+
+            await expect(updateOrder.execute('order-1', { discount: { type: 'AMOUNT', value: 1, reason: ' ' } }, 'carlos'))
+                .rejects.toThrow('Indique el motivo del descuento en el pedido');
+            await expect(updateOrder.execute('order-1', { discount: { type: 'PERCENTAGE', value: 120, reason: 'Error' } }, 'carlos'))
+                .rejects.toThrow(ValidationError);
+            expect(mockOrderRepo.update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Autorización de descuentos', () => {
+        let mockOrderRepo: any;
+        let mockEmployeeRepo: any;
+        let updateOrder: UpdateOrder;
+        let authorizeDiscount: AuthorizeDiscount;
+
+        beforeEach(async () => {
+            const password = await bcrypt.hash('clave-gerente', 4);
+            const employees: Record<string, any> = {
+                carlos: { id: 'e1', username: 'carlos', roleId: 'r-cajero', password },
+                lucia: { id: 'e2', username: 'lucia', roleId: 'r-gerente', password },
+                pedro: { id: 'e3', username: 'pedro', roleId: 'r-mesero', password }
+            };
+            const roles: Record<string, any> = {
+                'r-cajero': { id: 'r-cajero', name: 'Cajero', permissions: { orders: true, billing: true } },
+                'r-gerente': { id: 'r-gerente', name: 'Gerente', permissions: { orders: true, discounts: true } },
+                'r-mesero': { id: 'r-mesero', name: 'Mesero', permissions: { orders: true, discounts: false } }
+            };
+            mockEmployeeRepo = { findByUsername: vi.fn().mockImplementation(async (username: string) => employees[username] || null) };
+            const mockRoleRepo = { findById: vi.fn().mockImplementation(async (id: string) => roles[id] || null) };
+            const authorizer = new DiscountAuthorizer(mockEmployeeRepo, mockRoleRepo as any);
+
+            mockOrderRepo = {
+                findById: vi.fn().mockResolvedValue({ ...discountedOrder(), items: [discountedOrder().items[1]], discount: null }),
+                update: vi.fn().mockImplementation(async (id: string, updates: Partial<Order>) => ({ id, ...updates }))
+            };
+            updateOrder = new UpdateOrder(mockOrderRepo, undefined, undefined, undefined, authorizer);
+            authorizeDiscount = new AuthorizeDiscount(mockEmployeeRepo, authorizer);
+        });
+
+        it('rejects a new discount when the editor cannot authorize it and nobody approved it', async () => {
+            await expect(updateOrder.execute('order-1', { discount: discountedOrder().discount }, 'carlos'))
+                .rejects.toThrow(ForbiddenError);
+            expect(mockOrderRepo.update).not.toHaveBeenCalled();
+        });
+
+        it('stamps the manager who approved the discount instead of the cashier who saved it', async () => {
+            const { authorizedBy, authorization } = await authorizeDiscount.execute('lucia', 'clave-gerente', 'carlos');
+            expect(authorizedBy).toBe('lucia');
+
+            await updateOrder.execute('order-1', { discount: discountedOrder().discount }, 'carlos', {}, authorization);
+
+            const saved = mockOrderRepo.update.mock.calls[0][1];
+            expect(saved.discount).toEqual(expect.objectContaining({ authorizedBy: 'lucia', amount: 1 }));
+        });
+
+        it('lets an editor with the discounts permission authorize their own discount', async () => {
+            await updateOrder.execute('order-1', { discount: discountedOrder().discount }, 'lucia');
+
+            expect(mockOrderRepo.update.mock.calls[0][1].discount.authorizedBy).toBe('lucia');
+        });
+
+        it('does not ask for approval when the discounts did not change', async () => {
+            const current = discountedOrder();
+            current.discount = { ...current.discount!, authorizedBy: 'lucia', authorizedAt: new Date(), amount: 2 };
+            current.items[0].discount = { ...current.items[0].discount!, authorizedBy: 'lucia', authorizedAt: new Date(), amount: 2.3 };
+            mockOrderRepo.findById.mockResolvedValue(current);
+
+            const { items, discount } = discountedOrder();
+            await updateOrder.execute('order-1', { items: [...items, { name: 'Cola', quantity: 1, price: 1.5, taxRate: 15 }], discount }, 'carlos');
+
+            const saved = mockOrderRepo.update.mock.calls[0][1];
+            expect(saved.discount.authorizedBy).toBe('lucia');
+            expect(saved.items[0].discount.authorizedBy).toBe('lucia');
+        });
+
+        it('refuses approvals with a wrong password, from a role without the permission, or expired', async () => {
+            await expect(authorizeDiscount.execute('lucia', 'otra-clave')).rejects.toThrow('Usuario o contraseña del gerente incorrectos');
+            await expect(authorizeDiscount.execute('nadie', 'clave-gerente')).rejects.toThrow(ForbiddenError);
+            await expect(authorizeDiscount.execute('pedro', 'clave-gerente')).rejects.toThrow('pedro no tiene permiso para autorizar descuentos');
+
+            // Una aprobación firmada para alguien que ya no tiene el permiso tampoco vale
+            const stale = JWTService.generateDiscountAuthorization('pedro');
+            await expect(updateOrder.execute('order-1', { discount: discountedOrder().discount }, 'carlos', {}, stale))
+                .rejects.toThrow('Los descuentos requieren la autorización de un gerente');
+            // Un token de sesión no es una aprobación
+            const session = JWTService.generateToken({ userId: 'e2', username: 'lucia', roleId: 'r-gerente', sessionId: 's' });
+            await expect(updateOrder.execute('order-1', { discount: discountedOrder().discount }, 'carlos', {}, session))
+                .rejects.toThrow(/venció/);
+            expect(mockOrderRepo.update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('GenerateInvoice', () => {
+        let mockBillRepo: any;
+        let mockSRIService: any;
+        let generateInvoice: GenerateInvoice;
+
+        beforeEach(() => {
+            const mockOrderRepo = {
+                findById: vi.fn().mockResolvedValue(discountedOrder()),
+                update: vi.fn()
+            };
+            mockBillRepo = {
+                upsert: vi.fn().mockImplementation(async (bill: any) => ({ id: bill.id || 'bill-1' })),
+                findById: vi.fn().mockResolvedValue(null),
+                setEmailDelivery: vi.fn()
+            };
+            const mockConfigRepo = {
+                get: vi.fn().mockResolvedValue({ billing: { establishment: '001', emissionPoint: '001' }, ruc: '1712345678001' }),
+                getEnvironment: vi.fn().mockResolvedValue('1'),
+                getNextSequential: vi.fn().mockResolvedValue(50)
+            };
+            mockSRIService = {
+                generateInvoiceXML: vi.fn().mockReturnValue('<xml></xml>'),
+                signXML: vi.fn().mockResolvedValue('signed-xml'),
+                sendToSRI: vi.fn().mockResolvedValue({ estado: 'RECIBIDA' }),
+                waitForAuthorization: vi.fn().mockResolvedValue({ estado: 'AUTORIZADO' })
+            };
+            const billingService = new BillingService();
+            vi.spyOn(billingService, 'autoLearnCustomer').mockResolvedValue({ success: true } as any);
+
+            generateInvoice = new GenerateInvoice(
+                mockConfigRepo as any, mockBillRepo, mockOrderRepo as any, mockSRIService as any,
+                { generateInvoicePDF: vi.fn().mockResolvedValue(Buffer.from('')) } as any,
+                { sendInvoiceEmail: vi.fn().mockResolvedValue({ success: true }) } as any,
+                billingService
+            );
+        });
+
+        it('prorates the order discount across tax rates and emits descuento/totalDescuento', async () => {
+            const order = discountedOrder();
+            const result = await generateInvoice.execute({
+                order: { ...order, items: order.items.map(i => ({ ...i, id: i.name, total: i.price! * i.quantity })) },
+                client: { identification: '1712345678', name: 'Ana Pérez', email: 'ana@correo.ec' }
+            });
+            expect(result.invoiceNumber).toBe('001-001-000000050');
+
+            const invoice = mockSRIService.generateInvoiceXML.mock.calls[0][0];
+            const [ceviche, agua] = invoice.detalles;
+            // 23.00 - 2.30 (línea) - 1.91 (parte del pedido) = 18.79 con IVA
+            expect(ceviche).toEqual(expect.objectContaining({
+                precioUnitario: 10, descuento: 3.66, precioTotalSinImpuesto: 16.34
+            }));
+            expect(ceviche.impuestos[0].valor).toBe(2.45);
+            // 1.00 - 0.09 (parte del pedido), IVA 0%
+            expect(agua).toEqual(expect.objectContaining({ precioUnitario: 1, descuento: 0.09, precioTotalSinImpuesto: 0.91 }));
+            expect(invoice.info.totalDescuento).toBe(3.75);
+            expect(invoice.info.importeTotal).toBeCloseTo(19.70, 2);
+
+            const xml = new XMLGenerator().generateInvoiceXML(invoice);
+            expect(xml).toContain('<totalDescuento>3.75</totalDescuento>');
+            expect(xml).toContain('<descuento>3.66</descuento>');
+
+            // La factura guardada conserva el descuento: los reintentos recalculan los mismos detalles
+            const bill = mockBillRepo.upsert.mock.calls[0][0];
+            expect(bill.items[0]).toEqual(expect.objectContaining({ total: 18.79, discountAmount: 4.21 }));
+            const rebuilt = new BillingService().calculateDetails(bill.items);
+            expect(rebuilt.map(d => [d.precioUnitario, d.descuento, d.precioTotalSinImpuesto]))
+                .toEqual(invoice.detalles.map((d: any) => [d.precioUnitario, d.descuento, d.precioTotalSinImpuesto]));
+        });
+
+        it('rebuilds the stored discounted bill with the same totalDescuento', async () => {
+            const order = discountedOrder();
+            await generateInvoice.execute({
+                order: { ...order, items: order.items.map(i => ({ ...i, id: i.name, total: i.price! * i.quantity })) },
+                client: { identification: '1712345678', name: 'Ana Pérez', email: 'ana@correo.ec' }
+            });
+            const stored = {
+                ...mockBillRepo.upsert.mock.calls[0][0],
+                id: 'bill-1',
+                documentNumber: '001-001-000000050',
+                date: new Date().toISOString()
+            };
+
+            // RIDE, reenvío y portal arman el comprobante desde la factura guardada
+            const rebuilt = billToInvoice(new BillingService(), stored, null, '1');
+            expect(rebuilt.info.totalDescuento).toBe(3.75);
+            expect(rebuilt.detalles.map(d => d.descuento)).toEqual([3.66, 0.09]);
+        });
+    });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RegisterWithholding } from '../../../src/application/use-cases/withholdings';
+import { WithholdingXMLParser } from '../../../src/infrastructure/services/sri/WithholdingXMLParser';
+import { NotFoundError, ValidationError } from '../../../src/domain/errors/CustomErrors';
+
+describe('RegisterWithholding', () => {
+    let useCase: RegisterWithholding;
+    let mockWithholdingRepo: any;
+    let mockBillRepo: any;
+    let mockConfigRepo: any;
+    let stored: any[];
+
+    const authorizedBill = {
+        id: 'bill1',
+        documentNumber: '001-001-000000120',
+        documentType: 'Factura',
+        date: '2026-10-01T15:00:00.000Z',
+        customerName: 'Eventos Manabí S.A.',
+        customerIdentification: '1391234567001',
+        subtotal: 200,
+        tax: 30,
+        total: 230,
+        sriStatus: 'AUTORIZADO',
+        environment: '1'
+    };
+
+    const v2Voucher = `<?xml version="1.0" encoding="UTF-8"?>
+<comprobanteRetencion id="comprobante" version="2.0.0">
+  <infoTributaria>
+    <ambiente>1</ambiente>
+    <razonSocial>Eventos Manabí S.A.</razonSocial>
+    <ruc>1391234567001</ruc>
+    <claveAcceso>0310202607139123456700110020010000000451234567819</claveAcceso>
+    <codDoc>07</codDoc>
+    <estab>002</estab>
+    <ptoEmi>001</ptoEmi>
+    <secuencial>000000045</secuencial>
+  </infoTributaria>
+  <infoCompRetencion>
+    <fechaEmision>03/10/2026</fechaEmision>
+    <identificacionSujetoRetenido>1712345678001</identificacionSujetoRetenido>
+    <periodoFiscal>10/2026</periodoFiscal>
+  </infoCompRetencion>
+  <docsSustento>
+    <docSustento>
+      <codDocSustento>01</codDocSustento>
+      <numDocSustento>001001000000120</numDocSustento>
+      <retenciones>
+        <retencion><codigo>2</codigo><codigoRetencion>9</codigoRetencion><baseImponible>30.00</baseImponible><porcentajeRetener>10</porcentajeRetener><valorRetenido>3.00</valorRetenido></retencion>
+        <retencion><codigo>1</codigo><codigoRetencion>303</codigoRetencion><baseImponible>200.00</baseImponible><porcentajeRetener>2</porcentajeRetener><valorRetenido>4.00</valorRetenido></retencion>
+      </retenciones>
+    </docSustento>
+  </docsSustento>
+</comprobanteRetencion>`;
+
+    const authorizationEnvelope = `<autorizacion>
+  <estado>AUTORIZADO</estado>
+  <numeroAutorizacion>0310202607139123456700110020010000000451234567819</numeroAutorizacion>
+  <fechaAutorizacion>2026-10-03T10:15:00-05:00</fechaAutorizacion>
+  <ambiente>PRUEBAS</ambiente>
+  <comprobante><![CDATA[${v2Voucher}]]></comprobante>
+</autorizacion>`;
+
+    const v1Voucher = `<comprobanteRetencion id="comprobante" version="1.0.0">
+  <infoTributaria>
+    <razonSocial>Eventos Manabí S.A.</razonSocial>
+    <ruc>1391234567001</ruc>
+    <codDoc>07</codDoc>
+    <estab>002</estab><ptoEmi>001</ptoEmi><secuencial>000000046</secuencial>
+  </infoTributaria>
+  <infoCompRetencion>
+    <fechaEmision>05/10/2026</fechaEmision>
+    <identificacionSujetoRetenido>1712345678001</identificacionSujetoRetenido>
+    <periodoFiscal>10/2026</periodoFiscal>
+  </infoCompRetencion>
+  <impuestos>
+    <impuesto><codigo>2</codigo><codigoRetencion>10</codigoRetencion><baseImponible>30.00</baseImponible><porcentajeRetener>20</porcentajeRetener><valorRetenido>6.00</valorRetenido><codDocSustento>01</codDocSustento><numDocSustento>001001000000120</numDocSustento></impuesto>
+  </impuestos>
+</comprobanteRetencion>`;
+
+    const manualInput = {
+        billId: 'bill1',
+        documentNumber: '002-001-000000050',
+        issueDate: '2026-10-04',
+        lines: [{ taxType: 'IVA' as const, code: '9', baseAmount: 30, percentage: 10 }]
+    };
+
+    beforeEach(() => {
+        stored = [];
+        const parser = new WithholdingXMLParser();
+
+        mockWithholdingRepo = {
+            create: vi.fn().mockImplementation(data => {
+                const withholding = { id: `wh${stored.length + 1}`, ...data };
+                stored.push(withholding);
+                return Promise.resolve(withholding);
+            }),
+            findByBillId: vi.fn().mockImplementation(() => Promise.resolve([...stored])),
+            findByAgentDocument: vi.fn().mockImplementation((agent, number) =>
+                Promise.resolve(stored.find(w => w.agentIdentification === agent && w.documentNumber === number) || null))
+        };
+
+        mockBillRepo = {
+            findById: vi.fn().mockResolvedValue({ ...authorizedBill }),
+            findByDocumentNumber: vi.fn().mockImplementation(number =>
+                Promise.resolve(number === authorizedBill.documentNumber ? { ...authorizedBill } : null)),
+            upsert: vi.fn().mockResolvedValue({})
+        };
+
+        mockConfigRepo = {
+            get: vi.fn().mockResolvedValue({ ruc: '1712345678001' })
+        };
+
+        const mockSRIService: any = {
+            parseWithholdingXML: vi.fn().mockImplementation((xml: string) => parser.parse(xml))
+        };
+
+        useCase = new RegisterWithholding(mockWithholdingRepo, mockBillRepo, mockConfigRepo, mockSRIService);
+    });
+
+    it('registers a manual withholding and updates the bill withheld totals', async () => {
+        const result = await useCase.execute(manualInput, 'cajero');
+
+        expect(result).toMatchObject({
+            billId: 'bill1',
+            billDocumentNumber: '001-001-000000120',
+            agentIdentification: '1391234567001',
+            fiscalPeriod: '10/2026',
+            source: 'manual',
+            ivaWithheld: 3,
+            rentaWithheld: 0,
+            totalWithheld: 3,
+            environment: '1',
+            createdBy: 'cajero'
+        });
+        expect(result.lines[0].amount).toBe(3);
+        expect(mockBillRepo.upsert).toHaveBeenCalledWith({ id: 'bill1', withheldIva: 3, withheldRenta: 0 });
+    });
+
+    it('imports an authorized v2 XML and links it to the invoice it names', async () => {
+        const result = await useCase.executeFromXml(authorizationEnvelope);
+
+        expect(mockBillRepo.findByDocumentNumber).toHaveBeenCalledWith('001-001-000000120');
+        expect(result).toMatchObject({
+            documentNumber: '002-001-000000045',
+            accessKey: '0310202607139123456700110020010000000451234567819',
+            authorizationDate: '2026-10-03T10:15:00-05:00',
+            agentName: 'Eventos Manabí S.A.',
+            source: 'xml',
+            ivaWithheld: 3,
+            rentaWithheld: 4,
+            totalWithheld: 7
+        });
+        expect(result.lines.map(l => [l.taxType, l.code])).toEqual([['IVA', '9'], ['RENTA', '303']]);
+        expect(result.xmlContent).toBe(authorizationEnvelope);
+        expect(mockBillRepo.upsert).toHaveBeenCalledWith({ id: 'bill1', withheldIva: 3, withheldRenta: 4 });
+    });
+
+    it('imports the v1 schema and accumulates with earlier withholdings', async () => {
+        await useCase.executeFromXml(v2Voucher);
+        const result = await useCase.executeFromXml(v1Voucher);
+
+        expect(result.documentNumber).toBe('002-001-000000046');
+        expect(result.ivaWithheld).toBe(6);
+        expect(mockBillRepo.upsert).toHaveBeenLastCalledWith({ id: 'bill1', withheldIva: 9, withheldRenta: 4 });
+    });
+
+    it('rejects withholdings that do not belong to the restaurant or the invoice', async () => {
+        mockConfigRepo.get.mockResolvedValueOnce({ ruc: '0999999999001' });
+        await expect(useCase.executeFromXml(v2Voucher)).rejects.toBeInstanceOf(ValidationError);
+
+        await expect(useCase.executeFromXml(v2Voucher.replace('001001000000120', '001001000000999')))
+            .rejects.toBeInstanceOf(NotFoundError);
+
+        mockBillRepo.findByDocumentNumber.mockResolvedValueOnce({ ...authorizedBill, customerIdentification: '1790011223001' });
+        await expect(useCase.executeFromXml(v2Voucher)).rejects.toBeInstanceOf(ValidationError);
+
+        mockBillRepo.findById.mockResolvedValueOnce({ ...authorizedBill, sriStatus: 'DEVUELTA' });
+        await expect(useCase.execute(manualInput)).rejects.toBeInstanceOf(ValidationError);
+
+        await expect(useCase.executeFromXml('<factura>no es retención</factura>')).rejects.toBeInstanceOf(ValidationError);
+        expect(mockWithholdingRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects duplicates and amounts above the invoice', async () => {
+        await useCase.execute(manualInput);
+        await expect(useCase.execute(manualInput)).rejects.toBeInstanceOf(ValidationError);
+
+        await expect(useCase.execute({
+            ...manualInput,
+            documentNumber: '002-001-000000051',
+            lines: [{ taxType: 'IVA', code: '3', baseAmount: 30, percentage: 100 }]
+        })).rejects.toThrow(/IVA retenido supera/);
+
+        await expect(useCase.execute({
+            ...manualInput,
+            documentNumber: '002-001-000000052',
+            lines: [{ taxType: 'IVA', code: '9', baseAmount: 30, percentage: 15 }]
+        })).rejects.toBeInstanceOf(ValidationError);
+
+        await expect(useCase.execute({
+            ...manualInput,
+            documentNumber: '002-001-000000053',
+            lines: [{ taxType: 'RENTA', code: '303', baseAmount: 200, percentage: 2, amount: 5 }]
+        })).rejects.toThrow(/no cuadra/);
+
+        expect(mockWithholdingRepo.create).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ResendDocumentEmails, RecordEmailBounce } from '../../../src/application/use-cases/email-delivery';
+import { ValidationError } from '../../../src/domain/errors/CustomErrors';
+
+describe('ResendDocumentEmails', () => {
+    let bills: Record<string, any>;
+    let creditNotes: Record<string, any>;
+    let mockBillRepo: any;
+    let mockCreditNoteRepo: any;
+    let mockEmailService: any;
+    let mockAuditService: any;
+    let useCase: ResendDocumentEmails;
+
+    beforeEach(() => {
+        bills = {
+            b1: {
+                id: 'b1', documentNumber: '001-001-000000123', sriStatus: 'AUTORIZADO',
+                customerIdentification: '1712345678', customerEmail: 'ana@corro.ec',
+                emailDelivery: { status: 'BOUNCED', to: 'ana@corro.ec', provider: 'resend', messageId: 'm0', attempts: 1, lastAttemptAt: '2026-10-18T10:00:00.000Z' }
+            },
+            b2: { id: 'b2', documentNumber: '001-001-000000124', sriStatus: 'PENDING_RETRY', customerIdentification: '1712345678', customerEmail: 'ana@correo.ec' },
+            b3: { id: 'b3', documentNumber: '001-001-000000125', sriStatus: 'AUTORIZADO', customerIdentification: '9999999999999', customerEmail: 'consumidor@final.com' }
+        };
+        creditNotes = {
+            nc1: { id: 'nc1', documentNumber: '001-001-000000010', sriStatus: 'AUTORIZADO', customerIdentification: '0912345678', customerEmail: 'luis@correo.ec' }
+        };
+        mockBillRepo = {
+            findById: vi.fn().mockImplementation(async (id: string) => bills[id] || null),
+            upsert: vi.fn().mockImplementation(async (data: any) => ({ ...bills[data.id], ...data })),
+            setEmailDelivery: vi.fn(),
+            findByEmailMessageId: vi.fn().mockImplementation(async (messageId: string) =>
+                Object.values(bills).find(b => b.emailDelivery?.messageId === messageId) || null)
+        };
+        mockCreditNoteRepo = {
+            findById: vi.fn().mockImplementation(async (id: string) => creditNotes[id] || null),
+            upsert: vi.fn(),
+            setEmailDelivery: vi.fn(),
+            findByEmailMessageId: vi.fn().mockResolvedValue(null)
+        };
+        mockEmailService = {
+            sendInvoiceEmail: vi.fn().mockResolvedValue({ success: true, messageId: 'm1', provider: 'resend' }),
+            sendCreditNoteEmail: vi.fn().mockResolvedValue({ success: false, error: 'Domain not verified', provider: 'resend' })
+        };
+        mockAuditService = { log: vi.fn() };
+        const invoiceDocument: any = {
+            getEmailAttachments: vi.fn().mockResolvedValue({ invoice: { info: {} }, pdf: Buffer.from('%PDF'), signedXml: '<factura/>' })
+        };
+        const creditNoteDocument: any = {
+            getEmailAttachments: vi.fn().mockResolvedValue({ creditNote: { info: {} }, pdf: Buffer.from('%PDF'), signedXml: '<notaCredito/>' })
+        };
+        useCase = new ResendDocumentEmails(
+            mockBillRepo, mockCreditNoteRepo, mockEmailService, invoiceDocument, creditNoteDocument, mockAuditService
+        );
+    });
+
+    it('re-sends selected authorized documents to a corrected address and records each delivery', async () => {
+        const result = await useCase.execute({
+            documents: [
+                { type: 'bill', id: 'b1' },
+                { type: 'bill', id: 'b1' },
+                { type: 'bill', id: 'b2' },
+                { type: 'bill', id: 'b3' },
+                { type: 'creditNote', id: 'nc1' },
+                { type: 'bill', id: 'missing' }
+            ],
+            email: ' Ana@Correo.ec '
+        });
+
+        expect(result.sent).toBe(1);
+        expect(result.failed).toBe(4);
+        expect(result.results.map(r => [r.id, r.status])).toEqual([
+            ['b1', 'SENT'], ['b2', 'NOT_SENT'], ['b3', 'NOT_SENT'], ['nc1', 'FAILED'], ['missing', 'NOT_SENT']
+        ]);
+
+        // Dirección corregida guardada y auditada
+        expect(mockBillRepo.upsert).toHaveBeenCalledWith({ id: 'b1', customerEmail: 'ana@correo.ec' });
+        expect(mockAuditService.log).toHaveBeenCalledWith(expect.objectContaining({
+            collection: 'Bill', documentId: 'b1', before: { customerEmail: 'ana@corro.ec' }, after: { customerEmail: 'ana@correo.ec' }
+        }));
+        expect(mockEmailService.sendInvoiceEmail).toHaveBeenCalledTimes(1);
+        expect(mockEmailService.sendInvoiceEmail).toHaveBeenCalledWith('ana@correo.ec', { info: {} }, expect.any(Buffer), '<factura/>');
+
+        expect(mockBillRepo.setEmailDelivery).toHaveBeenCalledWith('b1', expect.objectContaining({
+            status: 'SENT', to: 'ana@correo.ec', messageId: 'm1', provider: 'resend', attempts: 2
+        }));
+        expect(mockCreditNoteRepo.setEmailDelivery).toHaveBeenCalledWith('nc1', expect.objectContaining({
+            status: 'FAILED', error: 'Domain not verified', attempts: 1
+        }));
+        expect(mockBillRepo.setEmailDelivery).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects an invalid corrected address or an empty selection', async () => {
+        await expect(useCase.execute({ documents: [{ type: 'bill', id: 'b1' }], email: 'ana@correo' })).rejects.toThrow(ValidationError);
+        await expect(useCase.execute({ documents: [] })).rejects.toThrow('Seleccione al menos un documento para reenviar');
+        expect(mockEmailService.sendInvoiceEmail).not.toHaveBeenCalled();
+    });
+
+    it('marks the document as bounced when the provider reports it by message id', async () => {
+        const recordBounce = new RecordEmailBounce(mockBillRepo, mockCreditNoteRepo);
+
+        const matched = await recordBounce.execute({ messageId: 'm0', reason: 'Mailbox does not exist', bouncedAt: '2026-10-18T10:05:00.000Z' });
+        expect(matched).toEqual({ matched: true, documentNumber: '001-001-000000123' });
+        expect(mockBillRepo.setEmailDelivery).toHaveBeenCalledWith('b1', expect.objectContaining({
+            status: 'BOUNCED', error: 'Mailbox does not exist', bouncedAt: '2026-10-18T10:05:00.000Z', messageId: 'm0'
+        }));
+
+        expect(await recordBounce.execute({ messageId: 'portal-code', reason: 'x' })).toEqual({ matched: false });
+    });
+});
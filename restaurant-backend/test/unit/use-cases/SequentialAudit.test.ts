@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AuditSequentials, RepairSequential } from '../../../src/application/use-cases/sequentials';
+import { NotFoundError, ValidationError } from '../../../src/domain/errors/CustomErrors';
+
+const page = (data: any[]) => ({ data, pagination: { page: 1, limit: 100, total: data.length, totalPages: 1 } });
+
+const accessKey = (environment: '1' | '2', secuencial: string) =>
+    `1910202601` + `1712345678001` + environment + `001001` + secuencial + `12345678` + `1` + `0`;
+
+describe('Sequential auditor', () => {
+    let bills: any[];
+    let creditNotes: any[];
+    let billing: Record<string, any>;
+    let history: any[];
+    let mockBillRepo: any;
+    let mockCreditNoteRepo: any;
+    let mockConfigRepo: any;
+    let mockAuditService: any;
+    let audit: AuditSequentials;
+    let repair: RepairSequential;
+
+    const bill = (id: string, documentNumber: string, sriStatus: string, extra: any = {}) => ({
+        id, documentNumber, sriStatus, environment: '2', createdAt: new Date(`2026-10-0${id.slice(-1)}T12:00:00Z`), ...extra
+    });
+
+    beforeEach(() => {
+        bills = [
+            bill('b1', '001-001-000000001', 'AUTORIZADO'),
+            bill('b2', '001-001-000000002', 'AUTORIZADO'),
+            // Mismo secuencial con otro relleno: el índice único no lo detecta
+            bill('b3', '001-001-2', 'DEVUELTA'),
+            bill('b4', '001-001-000000006', 'AUTORIZADO'),
+            // Factura antigua sin ambiente guardado: se deduce de la clave de acceso
+            bill('b5', '001-001-000000007', 'AUTORIZADO', { environment: undefined, accessKey: accessKey('2', '000000007') }),
+            // Factura de pruebas que ocupa el siguiente número de producción
+            bill('b6', '001-001-000000008', 'AUTORIZADO', { environment: '1' }),
+            bill('b7', 'SIN-NUMERO', 'BORRADOR')
+        ];
+        creditNotes = [
+            { id: 'nc1', documentNumber: '001-001-000000001', sriStatus: 'AUTORIZADO', environment: '2' }
+        ];
+        billing = {
+            establishment: '001',
+            emissionPoint: '001',
+            currentSequenceFactura: 5,
+            currentSequenceNotaCredito: 1,
+            testSequenceFactura: 8,
+            testSequenceNotaCredito: 0
+        };
+        history = [];
+
+        mockBillRepo = {
+            findPaginated: vi.fn().mockImplementation(async () => page(bills)),
+            upsert: vi.fn().mockImplementation(async (data: any) => data)
+        };
+        mockCreditNoteRepo = {
+            findPaginated: vi.fn().mockImplementation(async () => page(creditNotes)),
+            update: vi.fn().mockImplementation(async (id: string, data: any) => ({ id, ...data }))
+        };
+        mockConfigRepo = {
+            getOrCreate: vi.fn().mockImplementation(async () => ({ billing })),
+            getEnvironment: vi.fn().mockResolvedValue('2'),
+            raiseSequenceCounter: vi.fn().mockImplementation(async (field: string, value: number) => {
+                billing[field] = Math.max(billing[field], value);
+                return billing[field];
+            }),
+            getNextSequential: vi.fn().mockImplementation(async () => ++billing.currentSequenceFactura),
+            getNextCreditNoteSequential: vi.fn().mockImplementation(async () => ++billing.currentSequenceNotaCredito)
+        };
+        mockAuditService = {
+            log: vi.fn().mockResolvedValue(undefined),
+            getDocumentHistory: vi.fn().mockImplementation(async (_collection: string, key: string) =>
+                history.filter(h => h.documentId === key))
+        };
+
+        audit = new AuditSequentials(mockBillRepo, mockCreditNoteRepo, mockConfigRepo, mockAuditService);
+        repair = new RepairSequential(audit, mockBillRepo, mockCreditNoteRepo, mockConfigRepo, mockAuditService);
+    });
+
+    it('reports gaps, duplicates and counter drift per environment, establishment and emission point', async () => {
+        const report = await audit.execute();
+
+        expect(report.series.map(s => s.key)).toEqual([
+            'factura:1:001-001',
+            'factura:2:001-001',
+            'notaCredito:1:001-001',
+            'notaCredito:2:001-001'
+        ]);
+
+        const production = report.series.find(s => s.key === 'factura:2:001-001')!;
+        expect(production).toMatchObject({ status: 'FAIL', documentCount: 5, first: 1, last: 7, missingCount: 3 });
+        expect(production.gaps).toEqual([{ from: 3, to: 5, count: 3, acknowledged: false, acknowledgedReason: undefined }]);
+        expect(production.duplicates).toHaveLength(1);
+        expect(production.duplicates[0].documents.map(d => d.id)).toEqual(['b2', 'b3']);
+        // Contador en 5 con la 7 emitida, y la 8 ocupada por una factura de pruebas
+        expect(production.counter).toMatchObject({ field: 'currentSequenceFactura', counter: 5, maxIssued: 7, status: 'BEHIND', suggestedValue: 8 });
+        expect(production.repairs.map(r => r.action)).toEqual(['sync-counter', 'acknowledge-gap', 'renumber-document']);
+        expect(production.repairs.find(r => r.action === 'renumber-document')?.documentId).toBe('b3');
+
+        expect(report.series.find(s => s.key === 'factura:1:001-001')?.counter?.status).toBe('OK');
+        expect(report.series.find(s => s.key === 'notaCredito:2:001-001')?.status).toBe('OK');
+        // Serie configurada sin documentos: su siguiente número ya lo tiene la nota de producción
+        const testCreditNotes = report.series.find(s => s.key === 'notaCredito:1:001-001')!;
+        expect(testCreditNotes).toMatchObject({ status: 'FAIL', documentCount: 0 });
+        expect(testCreditNotes.counter).toMatchObject({ status: 'COLLISION', nextNumber: '001-001-000000001', suggestedValue: 1 });
+        expect(testCreditNotes.counter?.nextTakenBy?.id).toBe('nc1');
+
+        expect(report.unclassified).toHaveLength(1);
+        expect(report.unclassified[0].document.id).toBe('b7');
+        expect(report.summary).toMatchObject({ series: 4, failing: 2, missing: 3, duplicates: 1, unclassified: 1 });
+    });
+
+    it('applies only suggested repairs with a reason and records them in the audit log', async () => {
+        await expect(repair.execute({ action: 'sync-counter', seriesKey: 'factura:2:001-001', reason: '' }))
+            .rejects.toThrow(ValidationError);
+        await expect(repair.execute({ action: 'sync-counter', seriesKey: 'factura:2:002-001', reason: 'Contador atrasado' }))
+            .rejects.toThrow(NotFoundError);
+        // El contador atrasado entregaría un número ya usado: primero se sincroniza
+        await expect(repair.execute({ action: 'renumber-document', seriesKey: 'factura:2:001-001', documentId: 'b3', reason: 'Duplicado tras migración' }))
+            .rejects.toThrow(/Sincronícelo antes de renumerar/);
+
+        const synced = await repair.execute({ action: 'sync-counter', seriesKey: 'factura:2:001-001', reason: 'Contador atrasado tras initializeSequentialCounter' });
+        expect(mockConfigRepo.raiseSequenceCounter).toHaveBeenCalledWith('currentSequenceFactura', 8);
+        expect(synced.after).toEqual({ repair: 'sync-counter', field: 'currentSequenceFactura', counter: 8 });
+        expect(synced.report.series.find(s => s.key === 'factura:2:001-001')?.counter?.status).toBe('OK');
+        expect(mockAuditService.log).toHaveBeenLastCalledWith(expect.objectContaining({
+            action: 'UPDATE', collection: 'sequentials', documentId: 'factura:2:001-001', reason: 'Contador atrasado tras initializeSequentialCounter'
+        }));
+
+        await expect(repair.execute({ action: 'sync-counter', seriesKey: 'factura:2:001-001', reason: 'Otra vez' }))
+            .rejects.toThrow('Esta reparación ya no aplica a la serie. Vuelva a ejecutar la auditoría.');
+
+        const renumbered = await repair.execute({ action: 'renumber-document', seriesKey: 'factura:2:001-001', documentId: 'b3', reason: 'Duplicado tras migración' });
+        expect(mockBillRepo.upsert).toHaveBeenCalledWith(expect.objectContaining({
+            id: 'b3', documentNumber: '001-001-000000009', sriStatus: 'BORRADOR', accessKey: undefined, xmlContent: undefined
+        }));
+        expect(renumbered.before).toMatchObject({ documentNumber: '001-001-2', sriStatus: 'DEVUELTA' });
+
+        const acknowledged = await repair.execute({ action: 'acknowledge-gap', seriesKey: 'factura:2:001-001', from: 3, to: 5, reason: 'Borradas con ResetBillingSystem' });
+        expect(mockAuditService.log).toHaveBeenLastCalledWith(expect.objectContaining({
+            action: 'CREATE', after: { repair: 'acknowledge-gap', from: 3, to: 5, count: 3 }
+        }));
+        expect(acknowledged.report.series.find(s => s.key === 'factura:2:001-001')?.gaps[0]).toMatchObject({
+            acknowledged: true, acknowledgedReason: 'Borradas con ResetBillingSystem'
+        });
+
+        // Los huecos justificados se leen del historial en auditorías posteriores
+        history = [{
+            documentId: 'factura:2:001-001', action: 'CREATE', timestamp: new Date('2026-10-19T15:00:00Z'),
+            before: null, after: { repair: 'acknowledge-gap', from: 3, to: 5, count: 3 }, reason: 'Borradas con ResetBillingSystem', userEmail: 'admin@miraflores.ec'
+        }];
+        const later = await audit.execute();
+        expect(later.series.find(s => s.key === 'factura:2:001-001')?.missingCount).toBe(0);
+        expect(later.history[0]).toMatchObject({ seriesKey: 'factura:2:001-001', repair: 'acknowledge-gap', userEmail: 'admin@miraflores.ec' });
+    });
+});
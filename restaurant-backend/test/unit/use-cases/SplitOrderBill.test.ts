@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SplitOrderBill } from '../../../src/application/use-cases/SplitOrderBill';
+import { GenerateInvoice } from '../../../src/application/use-cases/GenerateInvoice';
+import { BillingService } from '../../../src/application/services/BillingService';
+import { Order, OrderStatus, SplitBilling } from '../../../src/domain/entities/Order';
+import { ValidationError } from '../../../src/domain/errors/CustomErrors';
+
+vi.mock('../../../src/infrastructure/database/DatabaseConnection', () => ({
+    dbConnection: {
+        withTransaction: vi.fn((callback: any) => callback(null))
+    }
+}));
+
+const baseOrder = (): Order => ({
+    id: 'order-1',
+    customerName: 'MESA 4',
+    type: 'En Local',
+    status: OrderStatus.Ready,
+    createdAt: new Date(),
+    items: [
+        { name: 'Ceviche', quantity: 2, price: 10, taxRate: 15 },
+        { name: 'Cola', quantity: 3, price: 1.5, taxRate: 15 }
+    ]
+});
+
+const planByItems = (): SplitBilling => ({
+    mode: 'items',
+    parts: [
+        { part: 1, items: [{ name: 'Ceviche', quantity: 2, price: 10, total: 20 }], total: 20 },
+        { part: 2, items: [{ name: 'Cola', quantity: 3, price: 1.5, total: 4.5 }], total: 4.5 }
+    ]
+});
+
+describe('SplitOrderBill Use Case', () => {
+    let mockOrderRepo: any;
+    let splitOrderBill: SplitOrderBill;
+
+    beforeEach(() => {
+        mockOrderRepo = {
+            findById: vi.fn().mockResolvedValue(baseOrder()),
+            update: vi.fn().mockImplementation(async (id: string, updates: any) => ({ ...baseOrder(), ...updates }))
+        };
+        splitOrderBill = new SplitOrderBill(mockOrderRepo);
+    });
+
+    it('saves a plan that covers every item of the order', async () => {
+        const result = await splitOrderBill.execute('order-1', planByItems());
+
+        expect(result.splitBilling?.parts).toHaveLength(2);
+        expect(mockOrderRepo.update).toHaveBeenCalledWith('order-1', {
+            splitBilling: expect.objectContaining({ mode: 'items' })
+        });
+    });
+
+    it('accepts an even split with fractional quantities', async () => {
+        const plan: SplitBilling = {
+            mode: 'even',
+            parts: [1, 2, 3].map(part => ({
+                part,
+                items: [
+                    { name: 'Ceviche', quantity: 0.666667, price: 10, total: part === 1 ? 6.68 : 6.66 },
+                    { name: 'Cola', quantity: 1, price: 1.5, total: 1.5 }
+                ],
+                total: part === 1 ? 8.18 : 8.16
+            }))
+        };
+
+        await expect(splitOrderBill.execute('order-1', plan)).resolves.toBeDefined();
+    });
+
+    it('prices the parts from the order items, not from the request', async () => {
+        const plan = planByItems();
+        plan.parts[0].items[0] = { name: 'Ceviche', quantity: 2, price: 1, taxRate: 0, total: 2 };
+        plan.parts[0].total = 2;
+        plan.parts[1].items[0].total = 22.5;
+        plan.parts[1].total = 22.5;
+
+        await splitOrderBill.execute('order-1', plan);
+
+        const saved: SplitBilling = mockOrderRepo.update.mock.calls[0][1].splitBilling;
+        expect(saved.parts[0].items[0]).toMatchObject({ name: 'Ceviche', quantity: 2, price: 10, taxRate: 15, total: 20 });
+        expect(saved.parts[0].total).toBe(20);
+        expect(saved.parts[1].items[0]).toMatchObject({ name: 'Cola', price: 1.5, taxRate: 15, total: 4.5 });
+        expect(saved.parts[1].total).toBe(4.5);
+    });
+
+    it('splits the cents of a line among the parts that share it', async () => {
+        const plan: SplitBilling = {
+            mode: 'even',
+            parts: [1, 2, 3].map(part => ({
+                part,
+                items: [
+                    { name: 'Ceviche', quantity: 0.666667, total: 0 },
+                    { name: 'Cola', quantity: 1, total: 0 }
+                ],
+                total: 0
+            }))
+        };
+
+        await splitOrderBill.execute('order-1', plan);
+
+        const saved: SplitBilling = mockOrderRepo.update.mock.calls[0][1].splitBilling;
+        expect(saved.parts.map(p => p.items[0].total)).toEqual([6.67, 6.67, 6.66]);
+        expect(saved.parts.reduce((sum, p) => sum + p.total, 0)).toBeCloseTo(24.5, 2);
+    });
+
+    it('rejects items that are not in the order', async () => {
+        const plan = planByItems();
+        plan.parts[1].items.push({ name: 'Langosta', quantity: 1, price: 0.01, total: 0.01 });
+
+        await expect(splitOrderBill.execute('order-1', plan)).rejects.toThrow(/no pertenece al pedido/);
+        expect(mockOrderRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('rejects a plan that leaves items unassigned', async () => {
+        const plan = planByItems();
+        plan.parts[1].items[0].quantity = 2;
+        plan.parts[1].items[0].total = 3;
+        plan.parts[1].total = 3;
+
+        await expect(splitOrderBill.execute('order-1', plan)).rejects.toThrow(/no está asignado/);
+        expect(mockOrderRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('rejects changing the plan once a part is invoiced', async () => {
+        const plan = planByItems();
+        plan.parts[0].billId = 'bill-1';
+        mockOrderRepo.findById.mockResolvedValue({ ...baseOrder(), splitBilling: plan });
+
+        await expect(splitOrderBill.execute('order-1', null)).rejects.toThrow(ValidationError);
+    });
+});
+
+describe('GenerateInvoice - cuenta dividida', () => {
+    let storedOrder: Order;
+    let mockOrderRepo: any;
+    let mockBillRepo: any;
+    let generateInvoice: GenerateInvoice;
+    const client = { identification: '1712345678', name: 'ANA', email: 'ana.perez@gmail.com' };
+
+    beforeEach(() => {
+        storedOrder = { ...baseOrder(), splitBilling: planByItems() };
+        mockOrderRepo = {
+            findById: vi.fn().mockImplementation(async () => storedOrder),
+            update: vi.fn().mockImplementation(async (id: string, updates: any) => {
+                storedOrder = { ...storedOrder, ...updates };
+                return storedOrder;
+            })
+        };
+        let billSeq = 0;
+        mockBillRepo = {
+            upsert: vi.fn().mockImplementation(async (bill: any) => ({ id: bill.id || `bill-${++billSeq}` })),
+            findById: vi.fn().mockResolvedValue(null)
+        };
+        const mockConfigRepo = {
+            get: vi.fn().mockResolvedValue({ billing: { establishment: '001', emissionPoint: '001' }, ruc: '1712345678001' }),
+            getEnvironment: vi.fn().mockResolvedValue('1'),
+            getNextSequential: vi.fn().mockResolvedValueOnce(10).mockResolvedValueOnce(11)
+        };
+        const mockSRIService = {
+            generateInvoiceXML: vi.fn().mockReturnValue('<xml></xml>'),
+            signXML: vi.fn().mockResolvedValue('signed-xml'),
+            sendToSRI: vi.fn().mockResolvedValue({ estado: 'RECIBIDA' }),
+            waitForAuthorization: vi.fn().mockResolvedValue({ estado: 'AUTORIZADO' })
+        };
+        const mockPDFService = { generateInvoicePDF: vi.fn().mockResolvedValue(Buffer.from('')) };
+        const mockEmailService = { sendInvoiceEmail: vi.fn().mockResolvedValue({ success: true }) };
+        const billingService = new BillingService();
+        vi.spyOn(billingService, 'autoLearnCustomer').mockResolvedValue({ success: true } as any);
+
+        generateInvoice = new GenerateInvoice(
+            mockConfigRepo as any, mockBillRepo, mockOrderRepo,
+            mockSRIService as any, mockPDFService as any, mockEmailService as any, billingService
+        );
+    });
+
+    it('invoices only the part items and completes the order with the last part', async () => {
+        const first = await generateInvoice.execute({ order: { id: 'order-1', items: [] }, client, splitPart: 1 });
+
+        expect(mockBillRepo.upsert).toHaveBeenCalledWith(expect.objectContaining({ splitPart: 1, total: 20 }));
+        expect(first.split).toEqual({ part: 1, parts: 2, invoicedParts: 1, completed: false });
+        expect(storedOrder.billed).toBeFalsy();
+        expect(storedOrder.splitBilling?.parts[0].documentNumber).toBe('001-001-000000010');
+
+        const second = await generateInvoice.execute({ order: { id: 'order-1', items: [] }, client, splitPart: 2 });
+
+        expect(second.split?.completed).toBe(true);
+        expect(storedOrder.billed).toBe(true);
+        expect(storedOrder.status).toBe(OrderStatus.Completed);
+        expect(storedOrder.billingType).toBe('Factura');
+    });
+
+    it('refuses to invoice the same part twice', async () => {
+        await generateInvoice.execute({ order: { id: 'order-1', items: [] }, client, splitPart: 1 });
+
+        await expect(generateInvoice.execute({ order: { id: 'order-1', items: [] }, client, splitPart: 1 }))
+            .rejects.toThrow(/ya fue facturada/);
+    });
+
+    it('re-sends the last part after an SRI rejection even though the order is already billed', async () => {
+        await generateInvoice.execute({ order: { id: 'order-1', items: [] }, client, splitPart: 1 });
+        await generateInvoice.execute({ order: { id: 'order-1', items: [] }, client, splitPart: 2 });
+        expect(storedOrder.billed).toBe(true);
+
+        const lastBillId = storedOrder.splitBilling!.parts[1].billId!;
+        mockBillRepo.findById.mockResolvedValue({ id: lastBillId, documentNumber: '001-001-000000011', splitPart: 2, sriStatus: 'DEVUELTA' });
+
+        const retry = await generateInvoice.execute({ id: lastBillId, order: { id: 'order-1', items: [] }, client, splitPart: 2 });
+        expect(retry.split).toEqual(expect.objectContaining({ part: 2, completed: true }));
+        expect(mockBillRepo.upsert).toHaveBeenCalledWith(expect.objectContaining({ id: lastBillId, splitPart: 2, documentNumber: '001-001-000000011' }));
+    });
+
+    it('rejects a whole-order invoice when the order has a split plan', async () => {
+        await expect(generateInvoice.execute({ order: { id: 'order-1', items: storedOrder.items }, client }))
+            .rejects.toThrow(/cuenta dividida/);
+        expect(mockBillRepo.upsert).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach, type Mocked } from 'vitest';
+import { CreateTable, DeleteTable, SaveFloorPlan } from '../../../src/application/use-cases/tables';
+import { ITableRepository } from '../../../src/domain/repositories/ITableRepository';
+import { Table } from '../../../src/domain/entities/Table';
+import { NotFoundError, ValidationError } from '../../../src/domain/errors/CustomErrors';
+
+describe('Table Use Cases', () => {
+    let mockTableRepository: Mocked<ITableRepository>;
+
+    const table: Table = {
+        id: 'table-1',
+        name: 'Mesa 1',
+        zone: 'Salón',
+        seats: 4,
+        shape: 'square',
+        position: { x: 0, y: 0 },
+        active: true
+    };
+
+    beforeEach(() => {
+        mockTableRepository = {
+            create: vi.fn(),
+            findById: vi.fn(),
+            findByName: vi.fn(),
+            findAll: vi.fn(),
+            update: vi.fn(),
+            delete: vi.fn(),
+            saveLayout: vi.fn(),
+            countOpenOrders: vi.fn()
+        } as any;
+    });
+
+    it('should create a table with trimmed name and default zone', async () => {
+        mockTableRepository.findByName.mockResolvedValue(null);
+        mockTableRepository.create.mockImplementation(async (data) => ({ ...table, ...data } as Table));
+
+        await new CreateTable(mockTableRepository).execute({ name: '  Mesa 1 ', seats: 4 });
+
+        expect(mockTableRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+            name: 'Mesa 1',
+            zone: 'Salón'
+        }));
+    });
+
+    it('should reject a duplicated table name', async () => {
+        mockTableRepository.findByName.mockResolvedValue(table);
+
+        await expect(new CreateTable(mockTableRepository).execute({ name: 'Mesa 1', seats: 2 }))
+            .rejects.toThrow(ValidationError);
+    });
+
+    it('should reject tables without seats', async () => {
+        await expect(new CreateTable(mockTableRepository).execute({ name: 'Barra', seats: 0 }))
+            .rejects.toThrow(ValidationError);
+    });
+
+    it('should not delete a table with open orders', async () => {
+        mockTableRepository.findById.mockResolvedValue(table);
+        mockTableRepository.countOpenOrders.mockResolvedValue(1);
+
+        await expect(new DeleteTable(mockTableRepository).execute('table-1'))
+            .rejects.toThrow(ValidationError);
+        expect(mockTableRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError when deleting a missing table', async () => {
+        mockTableRepository.findById.mockResolvedValue(null);
+
+        await expect(new DeleteTable(mockTableRepository).execute('ghost'))
+            .rejects.toThrow(NotFoundError);
+    });
+
+    it('should reject floor plan positions with negative coordinates', async () => {
+        await expect(new SaveFloorPlan(mockTableRepository).execute([
+            { id: 'table-1', position: { x: -1, y: 3 } }
+        ])).rejects.toThrow(ValidationError);
+        expect(mockTableRepository.saveLayout).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GenerateInvoice } from '../../../src/application/use-cases/GenerateInvoice';
+import { BillingService } from '../../../src/application/services/BillingService';
+import { PreviewMenuRepricing, ApplyMenuRepricing, PreviewInvoiceTaxRates } from '../../../src/application/use-cases/tax-rates';
+import { normalizeTaxSchedule, generalTaxRate } from '../../../src/domain/billing/taxRates';
+import { billToInvoice } from '../../../src/application/services/billInvoice';
+import { UpdateRestaurantConfig } from '../../../src/application/use-cases/UpdateRestaurantConfig';
+import { ValidationError } from '../../../src/domain/errors/CustomErrors';
+
+vi.mock('../../../src/infrastructure/database/DatabaseConnection', () => ({
+    dbConnection: {
+        withTransaction: vi.fn((callback: any) => callback(null))
+    }
+}));
+
+// 12% hasta marzo de 2024, 15% desde abril, y un 13% programado a futuro
+const schedule = [
+    { rate: 12, code: '2', effectiveFrom: '2000-01-01' },
+    { rate: 15, code: '4', effectiveFrom: '2024-04-01' },
+    { rate: 13, code: '10', effectiveFrom: '2099-01-01' }
+];
+
+const client = { identification: '1712345678', name: 'Ana Pérez', email: 'ana@correo.ec', paymentMethod: 'Efectivo' };
+
+describe('Tabla de tarifas de IVA', () => {
+    let mockSRIService: any;
+    let generateInvoice: GenerateInvoice;
+
+    beforeEach(() => {
+        const mockConfigRepo = {
+            get: vi.fn().mockResolvedValue({ billing: { establishment: '001', emissionPoint: '001', taxRate: 15, taxSchedule: schedule }, ruc: '1712345678001' }),
+            getEnvironment: vi.fn().mockResolvedValue('1'),
+            getNextSequential: vi.fn().mockResolvedValue(70)
+        };
+        mockSRIService = {
+            generateInvoiceXML: vi.fn().mockReturnValue('<xml></xml>'),
+            signXML: vi.fn().mockResolvedValue('signed-xml'),
+            sendToSRI: vi.fn().mockResolvedValue({ estado: 'RECIBIDA' }),
+            waitForAuthorization: vi.fn().mockResolvedValue({ estado: 'AUTORIZADO' })
+        };
+        const billingService = new BillingService();
+        vi.spyOn(billingService, 'autoLearnCustomer').mockResolvedValue({ success: true } as any);
+
+        generateInvoice = new GenerateInvoice(
+            mockConfigRepo as any,
+            { upsert: vi.fn().mockImplementation(async (bill: any) => ({ id: bill.id || 'bill-1' })), findById: vi.fn(), setEmailDelivery: vi.fn() } as any,
+            { findById: vi.fn(), update: vi.fn() } as any,
+            mockSRIService as any,
+            { generateInvoicePDF: vi.fn().mockResolvedValue(Buffer.from('')) } as any,
+            { sendInvoiceEmail: vi.fn().mockResolvedValue({ success: true }) } as any,
+            billingService
+        );
+    });
+
+    it('bills an order taken at the old general rate with the rate valid on the emission date', async () => {
+        await generateInvoice.execute({
+            order: {
+                id: 'order-1',
+                items: [
+                    { id: 'seco', name: 'Seco de chivo', quantity: 1, price: 11.5, total: 11.5, taxRate: 12 },
+                    { id: 'agua', name: 'Agua', quantity: 1, price: 1, total: 1, taxRate: 0 }
+                ]
+            },
+            client,
+            taxRate: 15
+        });
+
+        const invoice = mockSRIService.generateInvoiceXML.mock.calls[0][0];
+        expect(invoice.detalles[0].impuestos[0]).toEqual(expect.objectContaining({ tarifa: 15, codigoPorcentaje: '4', baseImponible: 10, valor: 1.5 }));
+        expect(invoice.detalles[1].impuestos[0]).toEqual(expect.objectContaining({ tarifa: 0, codigoPorcentaje: '0' }));
+        expect(invoice.info.tasaIva).toBe('15');
+        expect(invoice.info.importeTotal).toBeCloseTo(12.5, 2);
+    });
+
+    it('rebuilds a stored bill with the rate each item was issued with', () => {
+        const config: any = { billing: { taxRate: 15, taxSchedule: schedule }, ruc: '1712345678001' };
+        const stored: any = {
+            id: 'bill-1', documentNumber: '001-001-000000070', orderId: 'order-1', date: '2024-03-15T17:00:00.000Z',
+            customerName: 'Ana Pérez', customerIdentification: '1712345678', total: 12.2, subtotal: 10.89,
+            accessKey: '1503202401171234567800110010010000000701234567811', sriStatus: 'AUTORIZADO', paymentMethod: 'Efectivo',
+            items: [
+                { id: 'seco', name: 'Seco de chivo', quantity: 1, price: 11.2, total: 11.2, taxRate: 12 },
+                { id: 'agua', name: 'Agua', quantity: 1, price: 1, total: 1, taxRate: 0 }
+            ]
+        };
+
+        const march = billToInvoice(new BillingService(), stored, config, '2');
+        expect(march.detalles[0].impuestos[0]).toEqual(expect.objectContaining({ tarifa: 12, codigoPorcentaje: '2', baseImponible: 10, valor: 1.2 }));
+        expect(march.detalles[1].impuestos[0]).toEqual(expect.objectContaining({ tarifa: 0, codigoPorcentaje: '0' }));
+        expect(march.info).toEqual(expect.objectContaining({
+            ambiente: '2', estab: '001', ptoEmi: '001', secuencial: '000000070', fechaEmision: '15/03/2024', tasaIva: '12', formaPago: '01'
+        }));
+
+        // La tabla ya no se aplica: un ítem guardado al 12% sigue al 12% aunque el día rija el 15%
+        const may = billToInvoice(new BillingService(), { ...stored, date: '2024-05-02T17:00:00.000Z' }, config, '2');
+        expect(may.detalles[0].impuestos[0]).toEqual(expect.objectContaining({ tarifa: 12, codigoPorcentaje: '2', baseImponible: 10 }));
+        expect(may.info.tasaIva).toBe('15');
+
+        // Un tramo programado después de la factura no le cambia el código
+        const rescheduled: any = { billing: { taxRate: 15, taxSchedule: [...schedule, { rate: 15, code: '99', effectiveFrom: '2099-06-01' }] } };
+        const issuedAt15 = { ...stored, date: '2024-05-02T17:00:00.000Z', items: [{ ...stored.items[0], price: 11.5, total: 11.5, taxRate: 15 }] };
+        expect(billToInvoice(new BillingService(), issuedAt15, rescheduled, '2').detalles[0].impuestos[0])
+            .toEqual(expect.objectContaining({ tarifa: 15, codigoPorcentaje: '4' }));
+    });
+
+    it('keeps the rate of days that already have production invoices', async () => {
+        const issued = [
+            { documentNumber: '001-001-000000070', date: '2024-05-02T17:00:00.000Z', environment: '2' },
+            { documentNumber: '001-001-000000001', date: '2024-01-10T17:00:00.000Z', environment: '1' }
+        ];
+        const billRepository = {
+            findPaginated: vi.fn().mockImplementation(async (_page: number, _limit: number, filter: any) => {
+                const data = issued.filter(b => b.environment === filter.environment &&
+                    (!filter.date?.$gte || b.date >= filter.date.$gte) && (!filter.date?.$lt || b.date < filter.date.$lt));
+                return { data, pagination: { total: data.length } };
+            })
+        };
+        const configRepository = {
+            get: vi.fn().mockResolvedValue({ billing: { taxRate: 15, taxSchedule: schedule } }),
+            update: vi.fn().mockImplementation(async (data: any) => data)
+        };
+        const useCase = new UpdateRestaurantConfig(configRepository as any, billRepository as any);
+
+        // Mover el 15% al 1 de junio le cambia el IVA a mayo, que ya tiene facturas
+        await expect(useCase.execute({ billing: { taxSchedule: [schedule[0], { ...schedule[1], effectiveFrom: '2024-06-01' }, schedule[2]] } } as any))
+            .rejects.toThrow('No se puede cambiar el IVA del 2024-05-02: la factura 001-001-000000070 ya se emitió con ese tramo');
+        expect(billRepository.findPaginated).toHaveBeenCalledWith(1, 1, {
+            environment: '2',
+            date: { $gte: '2024-04-01T05:00:00.000Z', $lt: '2024-06-01T05:00:00.000Z' }
+        }, { date: 1 });
+        expect(configRepository.update).not.toHaveBeenCalled();
+
+        // Días sin facturas de producción (las de pruebas no cuentan) y tramos programados sí se pueden cambiar
+        const edited = [{ rate: 8, code: '8', effectiveFrom: '2000-01-01' }, schedule[1], { rate: 14, code: '3', effectiveFrom: '2099-01-01' }];
+        await expect(useCase.execute({ billing: { taxSchedule: edited } } as any)).resolves.toEqual({
+            billing: { taxSchedule: edited, taxRate: 15 }
+        });
+    });
+
+    it('picks the general rate by date and validates the schedule', () => {
+        expect(generalTaxRate({ taxSchedule: schedule }, new Date('2024-03-31T23:00:00-05:00'))).toBe(12);
+        expect(generalTaxRate({ taxSchedule: schedule }, new Date('2024-04-01T00:30:00-05:00'))).toBe(15);
+        expect(generalTaxRate({ taxRate: 12 })).toBe(12);
+
+        expect(normalizeTaxSchedule([{ rate: 15, effectiveFrom: '2024-04-01' }, { rate: 12, effectiveFrom: '2000-01-01' }]))
+            .toEqual([{ rate: 12, code: '2', effectiveFrom: '2000-01-01' }, { rate: 15, code: '4', effectiveFrom: '2024-04-01' }]);
+        expect(() => normalizeTaxSchedule([{ rate: 9, effectiveFrom: '2030-01-01' }])).toThrow(ValidationError);
+        expect(() => normalizeTaxSchedule([{ rate: 15, effectiveFrom: '2024-04-01' }, { rate: 13, effectiveFrom: '2024-04-01' }]))
+            .toThrow('Dos tramos de IVA empiezan el 2024-04-01');
+    });
+
+    it('rejects a schedule with no rate in force today', () => {
+        const today = new Date('2026-10-19T12:00:00-05:00');
+
+        expect(() => normalizeTaxSchedule([{ rate: 15, effectiveFrom: '2026-10-20' }, { rate: 13, effectiveFrom: '2099-01-01' }], today))
+            .toThrow('La tabla de tarifas de IVA no tiene un tramo vigente hoy: el primero rige desde el 2026-10-20');
+        expect(normalizeTaxSchedule([{ rate: 15, effectiveFrom: '2026-10-19' }, { rate: 13, effectiveFrom: '2099-01-01' }], today))
+            .toHaveLength(2);
+        expect(normalizeTaxSchedule([], today)).toEqual([]);
+    });
+
+    it('tells the billing screens which rate each dish is billed at today', async () => {
+        const configRepository = { get: vi.fn().mockResolvedValue({ billing: { taxRate: 15, taxSchedule: schedule } }) };
+        const preview = new PreviewInvoiceTaxRates(configRepository as any);
+
+        await expect(preview.execute([12, 15, 0, 5, 12])).resolves.toEqual({
+            period: schedule[1],
+            taxRates: { '12': 15, '15': 15, '0': 0, '5': 5 }
+        });
+        await expect(preview.execute(['15'])).rejects.toThrow(ValidationError);
+    });
+
+    it('previews and applies the menu repricing for the next scheduled rate', async () => {
+        const menuRepository = {
+            findAll: vi.fn().mockResolvedValue([
+                { id: 'm1', name: 'Encebollado', category: 'Sopas', price: 5.75, taxRate: 15 },
+                { id: 'm2', name: 'Agua', category: 'Bebidas', price: 1, taxRate: 0 }
+            ]),
+            update: vi.fn().mockImplementation(async (id: string, data: any) => ({ id, name: 'Encebollado', ...data }))
+        };
+        const configRepository = { get: vi.fn().mockResolvedValue({ billing: { taxRate: 15, taxSchedule: schedule } }) };
+        const auditService = { log: vi.fn() };
+        const preview = new PreviewMenuRepricing(menuRepository as any, configRepository as any);
+
+        const result = await preview.execute();
+        expect(result.period.rate).toBe(13);
+        expect(result.currentPeriod.rate).toBe(15);
+        expect(result.unchangedCount).toBe(1);
+        expect(result.items).toEqual([
+            { id: 'm1', name: 'Encebollado', category: 'Sopas', price: 5.75, taxRate: 15, newTaxRate: 13, newPrice: 5.65, baseIfPriceKept: 5.09 }
+        ]);
+
+        const applied = await new ApplyMenuRepricing(preview, menuRepository as any, auditService as any)
+            .execute({ effectiveFrom: '2099-01-01', mode: 'KEEP_BASE' });
+        expect(menuRepository.update).toHaveBeenCalledWith('m1', { taxRate: 13, price: 5.65 });
+        expect(applied.updated).toEqual([{ id: 'm1', name: 'Encebollado', taxRate: 13, price: 5.65 }]);
+        expect(auditService.log).toHaveBeenCalledWith(expect.objectContaining({ documentId: 'm1', before: { taxRate: 15, price: 5.75 } }));
+    });
+});
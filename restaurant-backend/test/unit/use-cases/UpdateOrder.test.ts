@@ -81,4 +81,81 @@ describe('UpdateOrder Use Case', () => {
         await expect(updateOrder.execute('ghost', {}))
             .rejects.toThrow(NotFoundError);
     });
+
+    it('should publish order:ready when the kitchen marks the order as ready', async () => {
+        const publisher = { publish: vi.fn() };
+        updateOrder = new UpdateOrder(mockOrderRepository, publisher);
+
+        const order: Partial<Order> = {
+            id: 'order-1',
+            status: OrderStatus.New,
+            items: [{ name: 'Ceviche', quantity: 1, prepared: false }]
+        };
+        mockOrderRepository.findById.mockResolvedValue(order as Order);
+        mockOrderRepository.update.mockImplementation(async (id, updates) => ({ ...order, ...updates } as Order));
+
+        await updateOrder.execute('order-1', {
+            status: OrderStatus.Ready,
+            items: [{ name: 'Ceviche', quantity: 1, prepared: true }]
+        });
+
+        expect(publisher.publish).toHaveBeenCalledWith('order:ready', 'order-1', expect.objectContaining({ status: OrderStatus.Ready }));
+    });
+
+    it('should publish order:item-prepared when only some items get prepared', async () => {
+        const publisher = { publish: vi.fn() };
+        updateOrder = new UpdateOrder(mockOrderRepository, publisher);
+
+        const order: Partial<Order> = {
+            id: 'order-2',
+            status: OrderStatus.New,
+            items: [
+                { name: 'Ceviche', quantity: 1, prepared: false },
+                { name: 'Chicha', quantity: 1, prepared: false }
+            ]
+        };
+        mockOrderRepository.findById.mockResolvedValue(order as Order);
+        mockOrderRepository.update.mockImplementation(async (id, updates) => ({ ...order, ...updates } as Order));
+
+        await updateOrder.execute('order-2', {
+            items: [
+                { name: 'Ceviche', quantity: 1, prepared: true },
+                { name: 'Chicha', quantity: 1, prepared: false }
+            ]
+        });
+
+        expect(publisher.publish).toHaveBeenCalledWith('order:item-prepared', 'order-2', expect.anything());
+    });
+
+    it('should free the table when a dine-in order becomes takeaway', async () => {
+        const dineIn: Partial<Order> = {
+            id: 'order-table',
+            type: 'En Local',
+            tableId: 'table-4',
+            status: OrderStatus.InPreparation,
+            items: [{ name: 'Seco de chivo', quantity: 1, prepared: false }]
+        };
+        mockOrderRepository.findById.mockResolvedValue(dineIn as Order);
+        mockOrderRepository.update.mockImplementation(async (id, updates) => ({ ...dineIn, ...updates } as Order));
+
+        // Aunque el cliente reenvíe la mesa, un pedido Para Llevar no la ocupa
+        const result = await updateOrder.execute('order-table', { type: 'Para Llevar', tableId: 'table-4' });
+
+        expect(result.tableId).toBeNull();
+        expect(mockOrderRepository.update).toHaveBeenCalledWith('order-table', expect.objectContaining({
+            type: 'Para Llevar',
+            tableId: null
+        }));
+    });
+
+    it('should keep the table of a dine-in order', async () => {
+        const dineIn: Partial<Order> = { id: 'order-table', type: 'En Local', tableId: 'table-4', status: OrderStatus.New, items: [] };
+        mockOrderRepository.findById.mockResolvedValue(dineIn as Order);
+        mockOrderRepository.update.mockImplementation(async (id, updates) => ({ ...dineIn, ...updates } as Order));
+
+        const result = await updateOrder.execute('order-table', { estimatedMinutes: 15 });
+
+        expect(result.tableId).toBe('table-4');
+        expect(mockOrderRepository.update.mock.calls[0][1]).not.toHaveProperty('tableId');
+    });
 });
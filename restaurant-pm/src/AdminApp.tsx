@@ -20,11 +20,9 @@ import React, { lazy, Suspense, useEffect, useState } from 'react';
 import { Routes, Route, Navigate } from 'react-router-dom';
 import { ViewType } from './types';
 import { Customer, Reservation } from './modules/customers/types/customer.types';
-import { Order } from './modules/orders/types/order.types';
 import { MenuItem } from './modules/menu/types/menu.types';
 import { Employee, Role } from './modules/hr/types/hr.types';
 import { api } from './api'; // Import API for polling
-import { orderService } from './modules/orders/services/OrderService';
 import Sidebar from './components/layout/Sidebar';
 import WhatsAppAlertCenter from './components/layout/WhatsAppAlertCenter';
 import { SunIcon, MoonIcon } from './components/ui/Icons';
@@ -39,6 +37,8 @@ import { AlertProvider } from './components/ui/AlertProvider';
 
 // Hooks
 import { useAppData } from './hooks/useAppData';
+import { useOrderSync } from './hooks/useOrderSync';
+import { useOfflineOrderSync } from './hooks/useOfflineOrderSync';
 import { useTheme } from './hooks/useTheme';
 import { useNavigation } from './hooks/useNavigation';
 
@@ -57,6 +57,8 @@ const SettingsManagement = lazy(() => import('./modules/settings/components/Sett
 const Login = lazy(() => import('./modules/auth/components/Login'));
 const MobileBottomNav = lazy(() => import('./components/layout/MobileBottomNav'));
 const BillingHistory = lazy(() => import('./modules/billing/components/BillingHistory'));
+const CashManagement = lazy(() => import('./modules/cash/components/CashManagement'));
+const InventoryManagement = lazy(() => import('./modules/inventory/components/InventoryManagement'));
 const WhatsAppManagement = lazy(() => import('./modules/whatsapp/components/WhatsAppManagement'));
 const WebsiteManagement = lazy(() => import('./modules/website/components/WebsiteManagement'));
 const CategoryManagement = lazy(() => import('./modules/categories/components/CategoryManagement'));
@@ -86,46 +88,11 @@ const AdminContent: React.FC = () => {
     // Cargar datos iniciales automáticamente
     const { isLoading } = useAppData();
 
-    // ✅ POLLING: Sincronización automática de pedidos cada 5 seg
-    useEffect(() => {
-        const pollOrders = async () => {
-            if (isLoading) return;
-
-            try {
-                const response = await orderService.getAll();
-
-                let orders: Order[] = [];
-                if (Array.isArray(response)) {
-                    orders = response;
-                } else if (response && response.data && Array.isArray(response.data)) {
-                    orders = response.data;
-                } else {
-                    console.warn("Polling received invalid orders format:", response);
-                    return;
-                }
-
-                // Merge-guard: si un pedido se creó localmente mientras este fetch estaba
-                // en vuelo, la respuesta del servidor aún no lo incluye. Sin este guard,
-                // el reemplazo total del array haría "desaparecer" el pedido recién creado.
-                setOrdersContext(prev => {
-                    const serverIds = new Set(orders.map(o => o.id));
-                    const now = Date.now();
-                    const recentLocalOnly = prev.filter(o =>
-                        !serverIds.has(o.id) &&
-                        o.createdAt &&
-                        now - new Date(o.createdAt).getTime() < 15000
-                    );
-                    return recentLocalOnly.length > 0 ? [...orders, ...recentLocalOnly] : orders;
-                });
-            } catch (error) {
-                console.error("Error sincronizando pedidos:", error);
-            }
-        };
-
-        const intervalId = setInterval(pollOrders, 5000);
-        pollOrders();
-        return () => clearInterval(intervalId);
-    }, [setOrdersContext, isLoading]);
+    // ✅ TIEMPO REAL: pedidos sincronizados por WebSocket (/ws/orders),
+    // con polling de respaldo mientras el socket está desconectado
+    useOrderSync(!isLoading);
+    // Pedidos guardados sin conexión: se reenvían al reconectar
+    useOfflineOrderSync(!isLoading);
 
     // ✅ POLLING: Sincronización automática de clientes cada 10 seg
     // Esto asegura que clientes aprendidos por el backend (auto-learn) aparezcan en la lista
@@ -248,6 +215,8 @@ const AdminContent: React.FC = () => {
                                 <Route path="settings/:tab" element={<SettingsManagement />} />
                                 <Route path="billing" element={<BillingHistory />} />
                                 <Route path="billing/:tab" element={<BillingHistory />} />
+                                <Route path="cash" element={<CashManagement />} />
+                                <Route path="inventory" element={<InventoryManagement />} />
                                 <Route path="whatsapp" element={<WhatsAppManagement />} />
                                 <Route path="whatsapp/:tab" element={<WhatsAppManagement />} />
                                 <Route path="website" element={<WebsiteManagement />} />
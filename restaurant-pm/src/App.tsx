@@ -3,6 +3,7 @@
  * 
  * Configura las rutas de la aplicación:
  * - / : Página pública del menú
+ * - /facturas : Descarga pública de facturas (RIDE y XML)
  * - /admin : Panel administrativo
  */
 
@@ -13,6 +14,7 @@ import MenuPage from './pages/MenuPage';
 import AdminApp from './AdminApp';
 import ForgotPassword from './modules/auth/components/ForgotPassword';
 import ResetPassword from './modules/auth/components/ResetPassword';
+import InvoicePortal from './modules/website/components/InvoicePortal';
 import { RestaurantConfigProvider } from './contexts/RestaurantConfigContext';
 
 // La app móvil nativa (Capacitor) usa un shell ENFOCADO y distinto al de la web.
@@ -41,6 +43,7 @@ const App: React.FC = () => {
           <Route path="/" element={<MenuPage />} />
           <Route path="/forgot-password" element={<ForgotPassword />} />
           <Route path="/reset-password" element={<ResetPassword />} />
+          <Route path="/facturas" element={<InvoicePortal />} />
           <Route path="/admin/*" element={<AdminApp />} />
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
@@ -44,6 +44,17 @@ export interface ApiErrorResponse {
  */
 export type ApiResponse<T = any> = ApiSuccessResponse<T> | ApiErrorResponse;
 
+/**
+ * Error de una respuesta no exitosa: conserva el código y los detalles del backend
+ * (ej. los campos que incumplen el XSD del SRI)
+ */
+export class ApiRequestError extends Error {
+    constructor(message: string, public readonly code?: string, public readonly details?: any) {
+        super(message);
+        this.name = 'ApiRequestError';
+    }
+}
+
 /**
  * Clase ApiService - Implementa patrón Singleton
  * Gestiona todas las llamadas HTTP al backend
@@ -145,10 +156,10 @@ export class ApiService {
                 }
             }
 
-            const errorMessage = data.success === false
-                ? data.error.message
-                : `HTTP error! status: ${response.status}`;
-            throw new Error(errorMessage);
+            if (data.success === false) {
+                throw new ApiRequestError(data.error.message, data.error.code, data.error.details);
+            }
+            throw new Error(`HTTP error! status: ${response.status}`);
         }
 
         // Si la respuesta usa el nuevo formato, extraer data
@@ -685,6 +696,32 @@ export class ApiService {
             return this.delete(`/backups/${id}`);
         },
     };
+
+    /**
+     * Portal público de facturas (sin login): el token de descarga lo entrega
+     * la consulta o el código por email y caduca a los pocos minutos
+     */
+    public invoicePortal = {
+        lookup: async (identification: string, reference: string): Promise<any> => {
+            return this.post('/public/invoices/lookup', { identification, reference });
+        },
+        requestCode: async (identification: string, email: string): Promise<any> => {
+            return this.post('/public/invoices/code', { identification, email });
+        },
+        verifyCode: async (identification: string, code: string): Promise<any> => {
+            return this.post('/public/invoices/code/verify', { identification, code });
+        },
+        download: async (id: string, format: 'pdf' | 'xml', token: string): Promise<Blob> => {
+            const response = await fetch(
+                `${this.baseURL}/public/invoices/${id}/${format}?token=${encodeURIComponent(token)}`
+            );
+            if (!response.ok) {
+                const data = await response.json().catch(() => null);
+                throw new Error(data?.error?.message || data?.error || 'No se pudo descargar la factura');
+            }
+            return response.blob();
+        },
+    };
 }
 
 // Exportar instancia singleton
@@ -705,6 +742,7 @@ export const api = {
     export: apiService.export,
     audit: apiService.audit,
     backup: apiService.backup,
+    invoicePortal: apiService.invoicePortal,
     getToken: () => apiService.getToken(),
     setToken: (token: string | null) => apiService.setToken(token),
 };
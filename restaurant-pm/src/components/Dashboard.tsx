@@ -1,6 +1,7 @@
 import React from 'react';
 import { Reservation } from '../modules/customers/types/customer.types';
 import { Order, OrderStatus } from '../modules/orders/types/order.types';
+import { isActiveOrder } from '../modules/orders/utils/orderStatus';
 import { AnalyticsDashboard } from './analytics/AnalyticsDashboard';
 
 interface DashboardProps {
@@ -16,7 +17,7 @@ const Card = ({ title, children, className = '' }: { title: string, children?: R
 );
 
 const Dashboard: React.FC<DashboardProps> = ({ orders, reservations }) => {
-    const activeOrders = orders.filter(o => o.status !== OrderStatus.Completed);
+    const activeOrders = orders.filter(isActiveOrder);
     const pendingReservations = reservations.filter(r => r.status === 'Pendiente');
 
     return (
@@ -64,7 +65,9 @@ const Dashboard: React.FC<DashboardProps> = ({ orders, reservations }) => {
                                         <span className="text-xs text-gray-500 dark:text-gray-400 font-mono">{new Date(order.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
                                         <span className={`px-4 py-1.5 rounded-full text-xs font-bold uppercase tracking-wider
                                             ${order.status === OrderStatus.New ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300' : 
+                                              order.status === OrderStatus.InPreparation ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300' :
                                               order.status === OrderStatus.Ready ? 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300' :
+                                              order.status === OrderStatus.Delivered ? 'bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300' :
                                               'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300'}
                                         `}>{order.status}</span>
                                     </div>
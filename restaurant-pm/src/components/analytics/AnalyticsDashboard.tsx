@@ -86,6 +86,13 @@ export const AnalyticsDashboard: React.FC = () => {
     const billingTypes = stats.salesByBillingType || [];
     const billingTotal = Math.max(0.01, billingTypes.reduce((s, b) => s + b.total, 0));
 
+    const cancellations = stats.cancellations || { count: 0, lostRevenue: 0, byReason: [] };
+    const maxReasonCount = Math.max(1, ...cancellations.byReason.map(r => r.count));
+    const discounts = stats.discounts || { count: 0, total: 0, byReason: [], byEmployee: [] };
+    const maxDiscount = Math.max(1, ...discounts.byReason.map(r => r.total), ...discounts.byEmployee.map(e => e.total));
+    const tips = stats.tips || { count: 0, total: 0, byDay: [], byEmployee: [] };
+    const maxTip = Math.max(1, ...tips.byDay.map(d => d.total), ...tips.byEmployee.map(e => e.total));
+
     const revenueDays = stats.revenueByDay || [];
     const maxDayRevenue = Math.max(1, ...revenueDays.map(d => d.total));
     // Mostrar como máximo ~10 etiquetas bajo las barras para que respire
@@ -218,6 +225,72 @@ export const AnalyticsDashboard: React.FC = () => {
                         </div>
                     </Section>
 
+                    <Section title={`Cancelaciones · ${cancellations.count} (${formatCurrency(cancellations.lostRevenue)})`} empty={cancellations.count === 0}>
+                        <div className="divide-y divide-gray-50 dark:divide-dark-700/50">
+                            {cancellations.byReason.map((r) => (
+                                <StatRow
+                                    key={r.reason}
+                                    label={r.reason}
+                                    value={`${r.count}`}
+                                    pct={(r.count / maxReasonCount) * 100}
+                                    color="bg-red-500"
+                                />
+                            ))}
+                        </div>
+                    </Section>
+
+                    <Section title={`Descuentos · ${discounts.count} (${formatCurrency(discounts.total)})`} empty={discounts.count === 0}>
+                        <div className="divide-y divide-gray-50 dark:divide-dark-700/50">
+                            {discounts.byReason.map((r) => (
+                                <StatRow
+                                    key={r.reason}
+                                    label={r.reason}
+                                    value={`${r.count} · ${formatCurrency(r.total)}`}
+                                    pct={(r.total / maxDiscount) * 100}
+                                    color="bg-teal-500"
+                                />
+                            ))}
+                        </div>
+                        <h4 className="text-[10px] font-black text-gray-400 uppercase tracking-widest mt-4 mb-1">Autorizados por</h4>
+                        <div className="divide-y divide-gray-50 dark:divide-dark-700/50">
+                            {discounts.byEmployee.map((e) => (
+                                <StatRow
+                                    key={e.employee}
+                                    label={e.employee}
+                                    value={`${e.count} · ${formatCurrency(e.total)}`}
+                                    pct={(e.total / maxDiscount) * 100}
+                                    color="bg-cyan-500"
+                                />
+                            ))}
+                        </div>
+                    </Section>
+
+                    <Section title={`Propinas · ${tips.count} (${formatCurrency(tips.total)})`} empty={tips.count === 0}>
+                        <div className="divide-y divide-gray-50 dark:divide-dark-700/50">
+                            {tips.byDay.map((d) => (
+                                <StatRow
+                                    key={d.date}
+                                    label={formatDayLabel(d.date)}
+                                    value={`${d.count} · ${formatCurrency(d.total)}`}
+                                    pct={(d.total / maxTip) * 100}
+                                    color="bg-amber-500"
+                                />
+                            ))}
+                        </div>
+                        <h4 className="text-[10px] font-black text-gray-400 uppercase tracking-widest mt-4 mb-1">Por empleado</h4>
+                        <div className="divide-y divide-gray-50 dark:divide-dark-700/50">
+                            {tips.byEmployee.map((e) => (
+                                <StatRow
+                                    key={e.employee}
+                                    label={e.employee}
+                                    value={`${e.count} · ${formatCurrency(e.total)}`}
+                                    pct={(e.total / maxTip) * 100}
+                                    color="bg-lime-500"
+                                />
+                            ))}
+                        </div>
+                    </Section>
+
                     <Section title="Ventas por Tipo de Comprobante" empty={billingTypes.length === 0}>
                         <div className="divide-y divide-gray-50 dark:divide-dark-700/50">
                             {billingTypes.map((bt) => (
@@ -272,6 +272,14 @@ export const LayoutIcon = (props: React.SVGProps<SVGSVGElement>) => (
   </svg>
 );
 
+export const TableIcon = (props: React.SVGProps<SVGSVGElement>) => (
+  <svg {...iconProps} {...props}>
+    <rect width="18" height="6" x="3" y="6" rx="1" />
+    <line x1="6" y1="12" x2="6" y2="20" />
+    <line x1="18" y1="12" x2="18" y2="20" />
+  </svg>
+);
+
 export const MonitorIcon = (props: React.SVGProps<SVGSVGElement>) => (
   <svg {...iconProps} {...props}>
     <rect width="20" height="14" x="2" y="3" rx="2" />
@@ -355,6 +363,15 @@ export const WalletIcon = (props: React.SVGProps<SVGSVGElement>) => (
   </svg>
 );
 
+export const PackageIcon = (props: React.SVGProps<SVGSVGElement>) => (
+  <svg {...iconProps} {...props}>
+    <path d="m7.5 4.27 9 5.15" />
+    <path d="M21 8a2 2 0 0 0-1-1.73l-7-4a2 2 0 0 0-2 0l-7 4A2 2 0 0 0 3 8v8a2 2 0 0 0 1 1.73l7 4a2 2 0 0 0 2 0l7-4A2 2 0 0 0 21 16Z" />
+    <path d="m3.3 7 8.7 5 8.7-5" />
+    <path d="M12 22V12" />
+  </svg>
+);
+
 export const ShieldCheckIcon = (props: React.SVGProps<SVGSVGElement>) => (
   <svg {...iconProps} {...props}>
     <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10" />
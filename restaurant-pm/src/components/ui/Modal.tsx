@@ -7,7 +7,8 @@ interface ModalProps {
   children: React.ReactNode;
 }
 
-const Modal: React.FC<ModalProps & { maxWidth?: string }> = ({ isOpen, onClose, title, children, maxWidth = 'max-w-lg' }) => {
+// zIndex: para abrir sobre capas fijas (ej. el ticket del POS en el celular, z-[9999])
+const Modal: React.FC<ModalProps & { maxWidth?: string; zIndex?: string }> = ({ isOpen, onClose, title, children, maxWidth = 'max-w-lg', zIndex = 'z-50' }) => {
   // Manejo de tecla ESC para cerrar modal
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
     if (e.key === 'Escape') {
@@ -31,7 +32,7 @@ const Modal: React.FC<ModalProps & { maxWidth?: string }> = ({ isOpen, onClose,
 
   return (
     <div
-      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex justify-center items-center p-4"
+      className={`fixed inset-0 bg-black bg-opacity-50 ${zIndex} flex justify-center items-center p-4`}
       onClick={onClose}
       role="dialog"
       aria-modal="true"
@@ -52,6 +52,10 @@ export const API_ENDPOINTS = {
     ORDERS: {
         BASE: '/orders',
         BY_ID: (id: string) => `/orders/${id}`,
+        SPLIT: (id: string) => `/orders/${id}/split`,
+        BUMP_STATION: (id: string, station: string) => `/orders/${id}/stations/${encodeURIComponent(station)}/bump`,
+        CANCEL: (id: string) => `/orders/${id}/cancel`,
+        DISCOUNT_AUTHORIZATION: '/orders/discount-authorization',
     },
     MENU: {
         BASE: '/menu',
@@ -73,4 +77,24 @@ export const API_ENDPOINTS = {
         BY_ID: (id: string) => `/categories/${id}`,
         REORDER: '/categories/reorder',
     },
+    TABLES: {
+        BASE: '/tables',
+        BY_ID: (id: string) => `/tables/${id}`,
+        LAYOUT: '/tables/layout',
+    },
+    CASH_SESSIONS: {
+        BASE: '/cash-sessions',
+        CURRENT: '/cash-sessions/current',
+        BY_ID: (id: string) => `/cash-sessions/${id}`,
+        MOVEMENTS: (id: string) => `/cash-sessions/${id}/movements`,
+        CLOSE: (id: string) => `/cash-sessions/${id}/close`,
+        Z_REPORT: (id: string) => `/cash-sessions/${id}/z-report`,
+    },
+    INVENTORY: {
+        INGREDIENTS: '/inventory/ingredients',
+        INGREDIENT_BY_ID: (id: string) => `/inventory/ingredients/${id}`,
+        INGREDIENT_MOVEMENTS: (id: string) => `/inventory/ingredients/${id}/movements`,
+        MOVEMENTS: '/inventory/movements',
+        RECIPE: (menuItemId: string) => `/inventory/recipes/${menuItemId}`,
+    },
 } as const;
@@ -6,7 +6,7 @@
  */
 
 import type { ViewType } from './types';
-import { HomeIcon, UsersIcon, ClipboardListIcon, ChefHatIcon, BriefcaseIcon, BookOpenIcon, SettingsIcon, FileTextIcon, BarChartIcon, WhatsAppIcon, GlobeIcon, LayoutIcon } from './components/ui/Icons';
+import { HomeIcon, UsersIcon, ClipboardListIcon, ChefHatIcon, BriefcaseIcon, BookOpenIcon, SettingsIcon, FileTextIcon, BarChartIcon, WhatsAppIcon, GlobeIcon, LayoutIcon, WalletIcon, PackageIcon } from './components/ui/Icons';
 
 /**
  * Items de navegación de la aplicación
@@ -23,6 +23,8 @@ export const NAV_ITEMS = [
   { id: 'kitchen', label: 'Gestión de Cocina', shortLabel: 'Cocina', icon: ChefHatIcon, view: 'kitchen' as ViewType },
   { id: 'hr', label: 'Recursos Humanos', shortLabel: 'RRHH', icon: BriefcaseIcon, view: 'hr' as ViewType },
   { id: 'billing', label: 'Historial de Facturas', shortLabel: 'Historial', icon: FileTextIcon, view: 'billing' as ViewType },
+  { id: 'cash', label: 'Caja', shortLabel: 'Caja', icon: WalletIcon, view: 'cash' as ViewType },
+  { id: 'inventory', label: 'Inventario', shortLabel: 'Inventario', icon: PackageIcon, view: 'inventory' as ViewType },
   { id: 'whatsapp', label: 'WhatsApp Business', shortLabel: 'WhatsApp', icon: WhatsAppIcon, view: 'whatsapp' as ViewType },
   { id: 'website', label: 'Sitio Web', shortLabel: 'Web', icon: GlobeIcon, view: 'website' as ViewType },
   { id: 'settings', label: 'Configuración', shortLabel: 'Ajustes', icon: SettingsIcon, view: 'settings' as ViewType },
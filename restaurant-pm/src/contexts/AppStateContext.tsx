@@ -18,7 +18,7 @@
 import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
 import { Customer, Reservation } from '../modules/customers';
 import { Bill } from '../modules/billing';
-import { Order } from '../modules/orders';
+import { Order, OrderEvent } from '../modules/orders';
 import { MenuItem } from '../modules/menu';
 import { Employee, Role } from '../modules/hr';
 import { DataFactory } from '../services/factories/DataFactory';
@@ -62,6 +62,7 @@ interface AppStateContextType {
     addOrder: (order: Order) => void;
     updateOrder: (id: string, updates: Partial<Order>) => void;
     deleteOrder: (id: string) => void;
+    applyOrderEvent: (event: OrderEvent) => void;
 
     addMenuItem: (item: MenuItem) => void;
     updateMenuItem: (id: string, updates: Partial<MenuItem>) => void;
@@ -178,6 +179,25 @@ export const AppStateProvider: React.FC<{ children: ReactNode }> = ({ children }
         }));
     }, []);
 
+    // Aplica un evento en tiempo real de /ws/orders (upsert o eliminación)
+    const applyOrderEvent = useCallback((event: OrderEvent) => {
+        setState(prev => {
+            if (event.type === 'order:deleted') {
+                return { ...prev, orders: prev.orders.filter(o => o.id !== event.orderId) };
+            }
+            if (!event.order) return prev;
+
+            const incoming = event.order;
+            const exists = prev.orders.some(o => o.id === incoming.id);
+            return {
+                ...prev,
+                orders: exists
+                    ? prev.orders.map(o => (o.id === incoming.id ? incoming : o))
+                    : [...prev.orders, incoming]
+            };
+        });
+    }, []);
+
     // Helpers para menu items
     const addMenuItem = useCallback((item: MenuItem) => {
         setState(prev => ({
@@ -230,6 +250,7 @@ export const AppStateProvider: React.FC<{ children: ReactNode }> = ({ children }
         addOrder,
         updateOrder,
         deleteOrder,
+        applyOrderEvent,
         addMenuItem,
         updateMenuItem,
         deleteMenuItem,
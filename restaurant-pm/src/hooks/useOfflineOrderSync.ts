@@ -0,0 +1,76 @@
+/**
+ * @file useOfflineOrderSync.ts
+ * @description Hook que reenvía los pedidos guardados sin conexión
+ *
+ * @purpose
+ * Vacía la cola local de pedidos (offlineOrderQueue) al volver la conexión,
+ * al abrir la app y cada 15 seg mientras quede algo pendiente. Refleja el
+ * resultado en AppStateContext: el pedido local pasa a ser el del servidor,
+ * y los rechazos quedan marcados como conflicto con un aviso.
+ *
+ * @connections
+ * - Usa: offlineOrderQueue, OrderService (modules/orders/services)
+ * - Usa: AppStateContext (contexts/AppStateContext)
+ * - Usado por: AdminApp, MobileApp
+ *
+ * @layer Hooks - Custom Hook
+ */
+
+import { useEffect } from 'react';
+import { useAppState } from '../contexts/AppStateContext';
+import { offlineOrderQueue } from '../modules/orders/services/offlineOrderQueue';
+import { orderService } from '../modules/orders/services/OrderService';
+import { replaceSyncedOrder } from '../modules/orders/utils/offlineOrders';
+import { toast } from '../components/ui/AlertProvider';
+import { logger } from '../utils/logger';
+
+const RETRY_MS = 15000;
+
+export function useOfflineOrderSync(enabled: boolean) {
+    const { setOrders } = useAppState();
+
+    useEffect(() => {
+        if (!enabled) return;
+
+        const off = offlineOrderQueue.subscribe(event => {
+            if (event.type === 'synced') {
+                setOrders(prev => replaceSyncedOrder(prev, event.localId, event.order));
+            } else if (event.type === 'conflict') {
+                const { orderId, error } = event.operation;
+                setOrders(prev => prev.map(o => (o.id === orderId ? { ...o, syncState: 'conflict' } : o)));
+                toast.warning(error || 'El servidor rechazó un cambio hecho sin conexión', 'Conflicto al sincronizar');
+            } else if (event.type === 'discarded') {
+                const { kind, orderId } = event.operation;
+                if (kind === 'create') {
+                    setOrders(prev => prev.filter(o => o.id !== orderId));
+                } else {
+                    // Se vuelve a la versión del servidor
+                    orderService.getById(orderId)
+                        .then(order => setOrders(prev => prev.map(o => (o.id === orderId ? order : o))))
+                        .catch(error => logger.warn('Failed to reload order after discarding offline change', error));
+                }
+            }
+        });
+
+        const flush = async () => {
+            try {
+                const result = await offlineOrderQueue.flush();
+                if (result.synced > 0) {
+                    toast.success(`${result.synced} cambio(s) guardados sin conexión enviados`, 'Conexión restablecida');
+                }
+            } catch (error) {
+                logger.error('Offline order queue flush failed', error);
+            }
+        };
+
+        flush();
+        window.addEventListener('online', flush);
+        const intervalId = setInterval(flush, RETRY_MS);
+
+        return () => {
+            off();
+            window.removeEventListener('online', flush);
+            clearInterval(intervalId);
+        };
+    }, [enabled, setOrders]);
+}
@@ -0,0 +1,82 @@
+/**
+ * @file useOrderSync.ts
+ * @description Hook de sincronización de pedidos en tiempo real
+ *
+ * @purpose
+ * Mantiene la lista de pedidos al día entre dispositivos (POS, cocina, móvil).
+ * Aplica los eventos de /ws/orders sobre AppStateContext y recarga la lista
+ * completa cuando el servidor no puede entregar los eventos perdidos.
+ * Mientras el WebSocket está desconectado vuelve al polling cada 5 seg.
+ *
+ * @connections
+ * - Usa: orderSocket, OrderService (modules/orders/services)
+ * - Usa: AppStateContext (contexts/AppStateContext)
+ * - Usado por: AdminApp, MobileApp
+ *
+ * @layer Hooks - Custom Hook
+ */
+
+import { useEffect, useCallback } from 'react';
+import { useAppState } from '../contexts/AppStateContext';
+import { orderService } from '../modules/orders/services/OrderService';
+import { orderSocket } from '../modules/orders/services/orderSocket';
+import { Order, OrderEvent } from '../modules/orders/types/order.types';
+import { keepUnsyncedOrders } from '../modules/orders/utils/offlineOrders';
+
+const FALLBACK_POLL_MS = 5000;
+
+export function useOrderSync(enabled: boolean) {
+    const { setOrders, applyOrderEvent } = useAppState();
+
+    /**
+     * Recarga completa de pedidos desde la API
+     */
+    const reloadOrders = useCallback(async () => {
+        try {
+            const response: any = await orderService.getAll();
+            const orders: Order[] = Array.isArray(response) ? response : (response?.data ?? null);
+            if (!Array.isArray(orders)) {
+                console.warn('Order sync received invalid orders format:', response);
+                return;
+            }
+
+            // Merge-guard: si un pedido se creó localmente mientras este fetch estaba
+            // en vuelo, la respuesta del servidor aún no lo incluye. Sin este guard,
+            // el reemplazo total del array haría "desaparecer" el pedido recién creado.
+            // Lo guardado sin conexión (aún en la cola) tampoco se pierde.
+            setOrders(prev => {
+                const merged = keepUnsyncedOrders(orders, prev);
+                const mergedIds = new Set(merged.map(o => o.id));
+                const now = Date.now();
+                const recentLocalOnly = prev.filter(o =>
+                    !mergedIds.has(o.id) &&
+                    o.createdAt &&
+                    now - new Date(o.createdAt).getTime() < 15000
+                );
+                return recentLocalOnly.length > 0 ? [...merged, ...recentLocalOnly] : merged;
+            });
+        } catch (error) {
+            console.error('Error sincronizando pedidos:', error);
+        }
+    }, [setOrders]);
+
+    useEffect(() => {
+        if (!enabled) return;
+
+        orderSocket.connect();
+        const offEvent = orderSocket.on('order:event', (event: OrderEvent) => applyOrderEvent(event));
+        const offResync = orderSocket.on('resync', () => { reloadOrders(); });
+
+        // Fallback: polling solo mientras no hay WebSocket (red que bloquea WS, backend caído)
+        const intervalId = setInterval(() => {
+            if (!orderSocket.isConnected()) reloadOrders();
+        }, FALLBACK_POLL_MS);
+
+        return () => {
+            offEvent();
+            offResync();
+            clearInterval(intervalId);
+            orderSocket.disconnect();
+        };
+    }, [enabled, applyOrderEvent, reloadOrders]);
+}
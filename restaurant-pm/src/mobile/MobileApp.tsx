@@ -15,10 +15,10 @@ import { Capacitor } from '@capacitor/core';
 
 import { AuthProvider, useAuth } from '../modules/auth/contexts/AuthContext';
 import { AlertProvider } from '../components/ui/AlertProvider';
-import { AppStateProvider, useAppState } from '../contexts/AppStateContext';
+import { AppStateProvider } from '../contexts/AppStateContext';
 import { useAppData } from '../hooks/useAppData';
-import { orderService } from '../modules/orders/services/OrderService';
-import { Order } from '../modules/orders/types/order.types';
+import { useOrderSync } from '../hooks/useOrderSync';
+import { useOfflineOrderSync } from '../hooks/useOfflineOrderSync';
 
 import MobileLayout from './layout/MobileLayout';
 import MobileDashboard from './screens/MobileDashboard';
@@ -38,30 +38,16 @@ const Spinner: React.FC = () => (
 );
 
 /**
- * Contenido autenticado: carga datos, mantiene los pedidos en vivo (polling)
+ * Contenido autenticado: carga datos, mantiene los pedidos en vivo (WebSocket)
  * y enruta a las pantallas móviles dentro del layout.
  */
 const MobileShell: React.FC = () => {
-    const { setOrders } = useAppState();
     const { isLoading } = useAppData();
 
-    // Polling de pedidos cada 5s (mismo criterio que el admin) para que Pedidos
-    // y Cocina se mantengan al día sin recargar.
-    useEffect(() => {
-        if (isLoading) return;
-        const poll = async () => {
-            try {
-                const res: any = await orderService.getAll();
-                const orders: Order[] = Array.isArray(res) ? res : (res?.data ?? []);
-                setOrders(() => orders);
-            } catch {
-                /* silencioso: un fallo de red puntual no debe romper la UI */
-            }
-        };
-        poll();
-        const id = setInterval(poll, 5000);
-        return () => clearInterval(id);
-    }, [isLoading, setOrders]);
+    // Pedidos en vivo por WebSocket (mismo criterio que el admin) para que
+    // Pedidos y Cocina se mantengan al día sin recargar.
+    useOrderSync(!isLoading);
+    useOfflineOrderSync(!isLoading);
 
     if (isLoading) return <Spinner />;
 
@@ -11,6 +11,21 @@ import React, { useEffect, useState } from 'react';
 import { useAppState } from '../../contexts/AppStateContext';
 import { orderService } from '../../modules/orders/services/OrderService';
 import { Order, OrderStatus } from '../../modules/orders/types/order.types';
+import { KITCHEN_ORDER_STATUSES } from '../../modules/orders/utils/orderStatus';
+import { ModifierTags } from '../../modules/menu/components/ModifierTags';
+import { StationFilter } from '../../modules/kitchen/components/StationFilter';
+import {
+    ALL_STATIONS,
+    STATION_FILTER_KEY,
+    hasPendingForStation,
+    itemsForStation,
+    markStationItemsPrepared,
+    pendingCountByStation,
+    resolveStationFilter,
+    stationLabel
+} from '../../modules/kitchen/utils/stations';
+import { useRestaurantConfig } from '../../contexts/RestaurantConfigContext';
+import { useLocalStorage } from '../../hooks/useLocalStorage';
 import { toast } from '../../components/ui/AlertProvider';
 import { CheckCircleIcon, ClockIcon } from '../../components/ui/Icons';
 
@@ -23,6 +38,10 @@ const elapsedMin = (createdAt: string) => (Date.now() - new Date(createdAt).getT
 const MobileCocina: React.FC = () => {
     const { state, setOrders } = useAppState();
     const [busyId, setBusyId] = useState<string | null>(null);
+    const { config } = useRestaurantConfig();
+    const stations = config.kitchenStations || [];
+    const [storedStation, setStoredStation] = useLocalStorage<string>(STATION_FILTER_KEY, ALL_STATIONS);
+    const station = resolveStationFilter(storedStation, stations);
     // Tick de 1s para refrescar los timers en vivo.
     const [, setTick] = useState(0);
     useEffect(() => {
@@ -30,9 +49,11 @@ const MobileCocina: React.FC = () => {
         return () => clearInterval(id);
     }, []);
 
-    // La cocina trabaja los pedidos NUEVOS (aún no marcados Listo/Completado).
-    const kitchenOrders = state.orders
-        .filter((o) => o.status === OrderStatus.New)
+    // La cocina trabaja los pedidos Nuevos y En Preparación (aún no Listos).
+    // Con estación elegida solo los que aún tienen platos de esa estación.
+    const newOrders = state.orders.filter((o) => KITCHEN_ORDER_STATUSES.includes(o.status));
+    const kitchenOrders = newOrders
+        .filter((o) => station === ALL_STATIONS || hasPendingForStation(o, station))
         .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
 
     const markReady = async (order: Order) => {
@@ -53,6 +74,26 @@ const MobileCocina: React.FC = () => {
         }
     };
 
+    const bumpStation = async (order: Order) => {
+        if (busyId) return;
+        setBusyId(order.id);
+        setOrders((prev) => prev.map((o) => (o.id === order.id ? { ...o, items: markStationItemsPrepared(o.items, station) } : o)));
+        try {
+            const updated = await orderService.bumpStation(order.id, station);
+            setOrders((prev) => prev.map((o) => (o.id === order.id ? updated : o)));
+            toast.success(
+                updated.status === OrderStatus.Ready ? 'Pedido completo y listo' : `${stationLabel(station, stations)} despachado`,
+                'Cocina'
+            );
+        } catch (e) {
+            console.error('[MobileCocina] Error despachando estación:', e);
+            setOrders((prev) => prev.map((o) => (o.id === order.id ? order : o)));
+            toast.error('No se pudo actualizar el pedido.', 'Error');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
     return (
         <div className="space-y-4">
             <div className="flex items-center justify-between">
@@ -64,6 +105,13 @@ const MobileCocina: React.FC = () => {
                 </span>
             </div>
 
+            <StationFilter
+                stations={stations}
+                value={station}
+                onChange={setStoredStation}
+                counts={pendingCountByStation(newOrders)}
+            />
+
             {kitchenOrders.length === 0 && (
                 <p className="text-center text-sm text-light-subtext dark:text-gray-400 py-12">
                     No hay pedidos en cocina.
@@ -104,7 +152,7 @@ const MobileCocina: React.FC = () => {
                         </div>
 
                         <ul className="mt-3 space-y-1.5">
-                            {order.items.map((it, idx) => (
+                            {itemsForStation(order.items, station).map(({ item: it, index: idx }) => (
                                 <li key={idx} className="flex items-start gap-2 text-sm">
                                     <span className="font-bold text-light-text dark:text-light-background shrink-0">
                                         {it.quantity}x
@@ -116,6 +164,7 @@ const MobileCocina: React.FC = () => {
                                                 · {it.notes}
                                             </span>
                                         )}
+                                        <ModifierTags modifiers={it.modifiers} muted={it.prepared} className="mt-0.5" />
                                     </span>
                                     {it.prepared && <CheckCircleIcon className="w-4 h-4 text-green-600 shrink-0" />}
                                 </li>
@@ -123,11 +172,15 @@ const MobileCocina: React.FC = () => {
                         </ul>
 
                         <button
-                            onClick={() => markReady(order)}
+                            onClick={() => (station === ALL_STATIONS ? markReady(order) : bumpStation(order))}
                             disabled={busyId === order.id}
                             className="mt-4 w-full bg-blue-600 text-white font-black py-3 rounded-xl active:scale-[0.98] transition disabled:opacity-70"
                         >
-                            {busyId === order.id ? 'Marcando…' : '✓ Marcar Listo'}
+                            {busyId === order.id
+                                ? 'Marcando…'
+                                : station === ALL_STATIONS
+                                    ? '✓ Marcar Listo'
+                                    : `✓ Listo · ${stationLabel(station, stations)}`}
                         </button>
                     </div>
                 );
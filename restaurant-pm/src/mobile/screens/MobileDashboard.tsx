@@ -11,6 +11,7 @@ import React, { useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAppState } from '../../contexts/AppStateContext';
 import { Order, OrderStatus } from '../../modules/orders/types/order.types';
+import { isActiveOrder } from '../../modules/orders/utils/orderStatus';
 import { PlusIcon, ClipboardListIcon, ChefHatIcon, FileTextIcon, BookOpenIcon } from '../../components/ui/Icons';
 
 const isToday = (iso: string) => {
@@ -22,8 +23,11 @@ const total = (o: Order) => o.items.reduce((s, i) => s + (i.price ?? 0) * i.quan
 
 const STATUS_BADGE: Record<string, string> = {
     [OrderStatus.New]: 'bg-blue-100 text-blue-800',
+    [OrderStatus.InPreparation]: 'bg-amber-100 text-amber-800',
     [OrderStatus.Ready]: 'bg-green-100 text-green-700',
+    [OrderStatus.Delivered]: 'bg-purple-100 text-purple-700',
     [OrderStatus.Completed]: 'bg-gray-100 text-gray-600',
+    [OrderStatus.Cancelled]: 'bg-red-100 text-red-700',
 };
 
 const MobileDashboard: React.FC = () => {
@@ -33,8 +37,8 @@ const MobileDashboard: React.FC = () => {
     const { ventasHoy, activos, pedidosHoy, recientes } = useMemo(() => {
         const today = state.orders.filter((o) => isToday(o.createdAt));
         return {
-            ventasHoy: today.reduce((s, o) => s + total(o), 0),
-            activos: state.orders.filter((o) => o.status !== OrderStatus.Completed).length,
+            ventasHoy: today.filter((o) => o.status !== OrderStatus.Cancelled).reduce((s, o) => s + total(o), 0),
+            activos: state.orders.filter(isActiveOrder).length,
             pedidosHoy: today.length,
             recientes: [...state.orders]
                 .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
@@ -14,6 +14,7 @@ import React, { useMemo, useState } from 'react';
 import { useAppState } from '../../contexts/AppStateContext';
 import { orderService } from '../../modules/orders/services/OrderService';
 import { Order, OrderStatus } from '../../modules/orders/types/order.types';
+import { isActiveOrder } from '../../modules/orders/utils/orderStatus';
 import { toast } from '../../components/ui/AlertProvider';
 import { ChevronLeftIcon } from '../../components/ui/Icons';
 
@@ -31,7 +32,7 @@ const MobileFacturar: React.FC = () => {
 
     // Cuentas por cobrar: pedidos aún no facturados/cerrados.
     const pending = useMemo(
-        () => state.orders.filter((o) => !o.billed && o.status !== OrderStatus.Completed),
+        () => state.orders.filter((o) => !o.billed && isActiveOrder(o)),
         [state.orders]
     );
     const selected = pending.find((o) => o.id === selectedId) || null;
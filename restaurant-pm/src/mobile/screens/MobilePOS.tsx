@@ -8,21 +8,35 @@
  *    (En Local / Delivery / Para Llevar) — Stitch asumía mesa/mozo/pax que aquí no existen.
  *  - Moneda en USD ($), no S/.
  *
- * Crea el pedido de verdad vía orderService y lo refleja en el estado global,
- * así aparece al instante en Pedidos y Cocina.
+ * Crea el pedido de verdad vía DataService y lo refleja en el estado global,
+ * así aparece al instante en Pedidos y Cocina (sin conexión queda en la cola
+ * local y se envía al reconectar). Los platos con modificadores
+ * (tamaño, acompañantes, extras) abren el selector antes de sumarse.
  */
 
 import React, { useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAppState } from '../../contexts/AppStateContext';
-import { orderService } from '../../modules/orders/services/OrderService';
-import { Order, OrderItem, OrderStatus } from '../../modules/orders/types/order.types';
+import { dataService } from '../../services/DataService';
+import { Order, OrderItem, OrderItemModifier, OrderStatus } from '../../modules/orders/types/order.types';
+import { MenuItem } from '../../modules/menu/types/menu.types';
+import { ModifierPickerModal } from '../../modules/menu/components/ModifierPickerModal';
+import { hasModifiers, modifiersKey, priceWithModifiers } from '../../modules/menu/utils/modifiers';
 import { toast } from '../../components/ui/AlertProvider';
 import { PlusIcon, MinusIcon, ClipboardListIcon } from '../../components/ui/Icons';
 import { getMobilePrefs, OrderType } from '../preferences';
 
 const ORDER_TYPES: OrderType[] = ['En Local', 'Delivery', 'Para Llevar'];
 
+/** Línea de la comanda: plato + modificadores elegidos */
+interface CartLine {
+    itemId: string;
+    modifiers: OrderItemModifier[];
+    quantity: number;
+}
+
+const lineKey = (itemId: string, modifiers: OrderItemModifier[]): string => `${itemId}#${modifiersKey(modifiers)}`;
+
 const MobilePOS: React.FC = () => {
     const navigate = useNavigate();
     const { state, setOrders } = useAppState();
@@ -30,7 +44,8 @@ const MobilePOS: React.FC = () => {
     const [customerName, setCustomerName] = useState('');
     const [orderType, setOrderType] = useState<OrderType>(() => getMobilePrefs().defaultOrderType);
     const [selectedCat, setSelectedCat] = useState('Todos');
-    const [qty, setQty] = useState<Record<string, number>>({});
+    const [cart, setCart] = useState<Record<string, CartLine>>({});
+    const [pickerItem, setPickerItem] = useState<MenuItem | null>(null);
     const [saving, setSaving] = useState(false);
 
     const available = useMemo(
@@ -54,27 +69,43 @@ const MobilePOS: React.FC = () => {
         return map;
     }, [available]);
 
-    const inc = (id: string) => setQty((q) => ({ ...q, [id]: (q[id] || 0) + 1 }));
+    const addLine = (item: MenuItem, modifiers: OrderItemModifier[]) => {
+        const key = lineKey(item.id, modifiers);
+        setCart((c) => ({ ...c, [key]: { itemId: item.id, modifiers, quantity: (c[key]?.quantity || 0) + 1 } }));
+        setPickerItem(null);
+    };
+
+    const inc = (item: MenuItem) => (hasModifiers(item) ? setPickerItem(item) : addLine(item, []));
+    // Quita uno de la última línea agregada de ese plato
     const dec = (id: string) =>
-        setQty((q) => {
-            const next = Math.max(0, (q[id] || 0) - 1);
-            const copy = { ...q };
-            if (next === 0) delete copy[id];
-            else copy[id] = next;
+        setCart((c) => {
+            const key = Object.keys(c).reverse().find((k) => c[k].itemId === id);
+            if (!key) return c;
+            const copy = { ...c };
+            if (c[key].quantity <= 1) delete copy[key];
+            else copy[key] = { ...c[key], quantity: c[key].quantity - 1 };
             return copy;
         });
 
-    const cartEntries = Object.entries(qty).filter(([, n]) => n > 0);
-    const count = cartEntries.reduce((s, [, n]) => s + n, 0);
-    const total = cartEntries.reduce((s, [id, n]) => s + (byId[id]?.price ?? 0) * n, 0);
+    const cartLines = Object.values(cart).filter((l) => l.quantity > 0 && byId[l.itemId]);
+    const linePrice = (l: CartLine) => priceWithModifiers(byId[l.itemId].price, l.modifiers);
+    const qtyByItem = (id: string) => cartLines.filter((l) => l.itemId === id).reduce((s, l) => s + l.quantity, 0);
+    const count = cartLines.reduce((s, l) => s + l.quantity, 0);
+    const total = cartLines.reduce((s, l) => s + linePrice(l) * l.quantity, 0);
 
     const handleSave = async () => {
-        if (cartEntries.length === 0 || saving) return;
+        if (cartLines.length === 0 || saving) return;
         setSaving(true);
         try {
-            const items: OrderItem[] = cartEntries.map(([id, quantity]) => {
-                const mi = byId[id];
-                return { name: mi.name, quantity, price: mi.price, taxRate: mi.taxRate };
+            const items: OrderItem[] = cartLines.map((l) => {
+                const mi = byId[l.itemId];
+                return {
+                    name: mi.name,
+                    quantity: l.quantity,
+                    price: linePrice(l),
+                    taxRate: mi.taxRate,
+                    ...(l.modifiers.length > 0 ? { modifiers: l.modifiers } : {}),
+                };
             });
 
             // El número de pedido lo asigna el SERVIDOR (contador atómico).
@@ -86,11 +117,16 @@ const MobilePOS: React.FC = () => {
                 createdAt: new Date().toISOString(),
             };
 
-            const created = await orderService.create(newOrder as Order);
+            // Sin conexión el pedido queda en el dispositivo y se envía al reconectar
+            const created = await dataService.createOrder(newOrder);
             setOrders((prev) => [...prev, created]);
-            toast.success(`Pedido #${created.orderNumber || created.id.slice(-6)} creado`, 'Éxito');
+            if (created.syncState) {
+                toast.warning('Sin conexión: el pedido se enviará al reconectar', 'Guardado en el dispositivo');
+            } else {
+                toast.success(`Pedido #${created.orderNumber || created.id.slice(-6)} creado`, 'Éxito');
+            }
 
-            setQty({});
+            setCart({});
             setCustomerName('');
             navigate('/pedidos');
         } catch (e) {
@@ -153,7 +189,7 @@ const MobilePOS: React.FC = () => {
             ) : (
                 <div className="grid grid-cols-2 gap-3">
                     {visible.map((item) => {
-                        const n = qty[item.id] || 0;
+                        const n = qtyByItem(item.id);
                         return (
                             <div
                                 key={item.id}
@@ -192,7 +228,7 @@ const MobilePOS: React.FC = () => {
                                         {n}
                                     </span>
                                     <button
-                                        onClick={() => inc(item.id)}
+                                        onClick={() => inc(item)}
                                         className="w-8 h-8 rounded-lg flex items-center justify-center bg-blue-600 text-white active:scale-95 transition"
                                         aria-label="Agregar uno"
                                     >
@@ -205,6 +241,8 @@ const MobilePOS: React.FC = () => {
                 </div>
             )}
 
+            <ModifierPickerModal item={pickerItem} onClose={() => setPickerItem(null)} onConfirm={addLine} />
+
             {/* Botón flotante "Ver Comanda" (solo si hay items) */}
             {count > 0 && (
                 <button
@@ -11,15 +11,20 @@
 
 import React, { useState } from 'react';
 import { useAppState } from '../../contexts/AppStateContext';
-import { orderService } from '../../modules/orders/services/OrderService';
+import { dataService } from '../../services/DataService';
 import { Order, OrderStatus } from '../../modules/orders/types/order.types';
+import { isActiveOrder } from '../../modules/orders/utils/orderStatus';
 import { OrderFormModal } from '../../modules/orders/components/OrderFormModal';
+import { OfflineQueueBanner } from '../../modules/orders/components/OfflineQueueBanner';
 import { toast } from '../../components/ui/AlertProvider';
 
 const STATUS_BADGE: Record<string, string> = {
     [OrderStatus.New]: 'bg-blue-100 text-blue-800',
+    [OrderStatus.InPreparation]: 'bg-amber-100 text-amber-800',
     [OrderStatus.Ready]: 'bg-green-100 text-green-700',
+    [OrderStatus.Delivered]: 'bg-purple-100 text-purple-700',
     [OrderStatus.Completed]: 'bg-gray-100 text-gray-600',
+    [OrderStatus.Cancelled]: 'bg-red-100 text-red-700',
 };
 
 const orderTotal = (o: Order) =>
@@ -30,7 +35,7 @@ const MobilePedidos: React.FC = () => {
     const [editing, setEditing] = useState<Order | null>(null);
     const [open, setOpen] = useState(false);
 
-    const active = state.orders.filter((o) => o.status !== OrderStatus.Completed);
+    const active = state.orders.filter(isActiveOrder);
 
     const openEdit = (o: Order) => {
         setEditing(o);
@@ -38,15 +43,21 @@ const MobilePedidos: React.FC = () => {
     };
 
     // El modal cierra solo tras onSave. Actualización optimista + persistencia en
-    // segundo plano; si el backend falla, se revierte y se avisa.
+    // segundo plano; si el backend rechaza el cambio, se revierte y se avisa.
+    // Sin conexión la edición queda en la cola del dispositivo.
     const handleSave = (order: Order) => {
         const snapshot = state.orders;
+        const baseUpdatedAt = snapshot.find((o) => o.id === order.id)?.updatedAt;
         setOrders((list) => list.map((o) => (o.id === order.id ? { ...o, ...order } : o)));
-        orderService
-            .update(order.id, order)
+        dataService
+            .updateOrder(order.id, order, baseUpdatedAt)
             .then((updated) => {
                 setOrders((list) => list.map((o) => (o.id === order.id ? updated : o)));
-                toast.success('Pedido actualizado', 'Pedidos');
+                if (updated.syncState) {
+                    toast.warning('Sin conexión: el cambio se enviará al reconectar', 'Guardado en el dispositivo');
+                } else {
+                    toast.success('Pedido actualizado', 'Pedidos');
+                }
             })
             .catch((e) => {
                 console.error('[MobilePedidos] Error actualizando pedido:', e);
@@ -64,6 +75,8 @@ const MobilePedidos: React.FC = () => {
                 <p className="text-xs text-light-subtext dark:text-gray-400">Toca un pedido para editarlo.</p>
             </div>
 
+            <OfflineQueueBanner />
+
             {active.length === 0 && (
                 <p className="text-sm text-light-subtext dark:text-gray-400 py-8 text-center">
                     No hay pedidos activos.
@@ -78,7 +91,7 @@ const MobilePedidos: React.FC = () => {
                 >
                     <div className="flex items-center justify-between gap-2">
                         <span className="font-bold text-light-text dark:text-light-background truncate">
-                            #{o.orderNumber || o.id.slice(-4)} · {o.customerName || 'Sin nombre'}
+                            {o.orderNumber ? `#${o.orderNumber}` : o.syncState ? 'Sin número' : `#${o.id.slice(-4)}`} · {o.customerName || 'Sin nombre'}
                         </span>
                         <span
                             className={`shrink-0 text-[11px] font-bold px-2 py-1 rounded-full ${
@@ -90,6 +103,11 @@ const MobilePedidos: React.FC = () => {
                     </div>
                     <div className="mt-1 text-xs text-light-subtext dark:text-gray-400">
                         {o.type} · {o.items.length} ítems · ${orderTotal(o).toFixed(2)}
+                        {o.syncState && (
+                            <span className={`ml-2 font-bold ${o.syncState === 'conflict' ? 'text-red-600' : 'text-amber-600'}`}>
+                                {o.syncState === 'conflict' ? '· Conflicto' : '· Sin sincronizar'}
+                            </span>
+                        )}
                     </div>
                 </button>
             ))}
@@ -2,7 +2,7 @@
  * Componente: BillingHistory
  * Descripción: Vista principal para el historial de facturación electrónica.
  * Permite buscar, filtrar, autorizar, consultar estado y emitir notas de crédito.
- * Organizado en pestañas: Facturas y Notas de Crédito.
+ * Organizado en pestañas: Facturas, Notas de Crédito y Liquidaciones de Compra.
  */
 import React, { useState, useEffect, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
@@ -10,12 +10,26 @@ import { api } from '../../../api';
 import { billingService } from '../services/BillingService';
 import { orderService } from '../../orders/services/OrderService';
 import { OrderStatus } from '../../orders/types/order.types';
-import { Bill, CreditNote } from '../types/billing.types';
+import { Bill, CreditNote, DebitNoteDTO, SchemaFieldError } from '../types/billing.types';
 import { API_BASE_URL } from '../../../config/api.config';
 import { useRestaurantConfig } from '../../../contexts/RestaurantConfigContext';
 import { BillingModal } from '../../orders/components/BillingModal';
 import { ClientData } from '../utils/invoiceGenerator';
+import { getPaymentEntries, summarizePayments } from '../utils/payments';
+import { applyOrderDiscounts } from '../../orders/utils/discounts';
+import { chargeWithTip } from '../utils/tips';
+import { lineTaxRates, withPreviewRates } from '../utils/taxRates';
+import { getSchemaErrors } from '../utils/sriSchema';
 import CreditNoteModal from './CreditNoteModal.tsx';
+import PurchaseSettlementsPanel from './PurchaseSettlementsPanel';
+import DebitNotesPanel from './DebitNotesPanel';
+import SequentialAuditPanel from './SequentialAuditPanel';
+import EmailDeliveryPanel from './EmailDeliveryPanel';
+import PendingOrders from './PendingOrders';
+import { DebitNoteModal } from './DebitNoteModal';
+import { canIssueDebitNote } from '../utils/debitNote';
+import { WithholdingModal } from './WithholdingModal';
+import { canRegisterWithholding, billWithheld, netCollectable } from '../utils/withholding';
 import InvoiceProcessingModal, { InvoiceProcessState } from './InvoiceProcessingModal';
 import { XMLViewerModal } from './XMLViewerModal';
 import { EditBillModal } from './EditBillModal';
@@ -39,25 +53,39 @@ import {
     CalendarIcon,
     ChevronDownIcon,
     EditIcon,
+    PlusIcon,
+    WalletIcon,
+    MailIcon,
+    ClipboardListIcon,
 } from '../../../components/ui/Icons';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // TIPOS Y CONSTANTES
 // ═══════════════════════════════════════════════════════════════════════════
 
-type TabType = 'invoices' | 'creditNotes' | 'noInvoiceSales';
+type TabType = 'invoices' | 'creditNotes' | 'debitNotes' | 'purchaseSettlements' | 'emailDeliveries' | 'pendingOrders' | 'noInvoiceSales' | 'sequentials';
 
 // Mapeo entre slugs de URL y pestañas internas.
-// URLs: /admin/billing/facturas | /admin/billing/notas-credito | /admin/billing/ventas-sin-factura
+// URLs: /admin/billing/facturas | /admin/billing/notas-credito | /admin/billing/notas-debito | /admin/billing/liquidaciones | /admin/billing/envios-email | /admin/billing/consolidar | /admin/billing/ventas-sin-factura | /admin/billing/secuenciales
 const TAB_BY_SLUG: Record<string, TabType> = {
     'facturas': 'invoices',
     'notas-credito': 'creditNotes',
+    'notas-debito': 'debitNotes',
+    'liquidaciones': 'purchaseSettlements',
+    'envios-email': 'emailDeliveries',
+    'consolidar': 'pendingOrders',
     'ventas-sin-factura': 'noInvoiceSales',
+    'secuenciales': 'sequentials',
 };
 const SLUG_BY_TAB: Record<TabType, string> = {
     invoices: 'facturas',
     creditNotes: 'notas-credito',
+    debitNotes: 'notas-debito',
+    purchaseSettlements: 'liquidaciones',
+    emailDeliveries: 'envios-email',
+    pendingOrders: 'consolidar',
     noInvoiceSales: 'ventas-sin-factura',
+    sequentials: 'secuenciales',
 };
 
 // FIX M-06: Generate valid year options dynamically with range validation
@@ -93,9 +121,10 @@ const BillingHistory: React.FC = () => {
     const { tab: tabSlug } = useParams<{ tab?: string }>();
     const navigate = useNavigate();
     const rawTab: TabType = TAB_BY_SLUG[tabSlug ?? ''] ?? 'invoices';
-    // Ventas Sin Factura es exclusiva del Administrador principal. Para cualquier
-    // otro rol (ej. contadora) la pestaña se comporta como si no existiera.
-    const activeTab: TabType = (!isAdmin && rawTab === 'noInvoiceSales') ? 'invoices' : rawTab;
+    // Ventas Sin Factura y Secuenciales son exclusivas del Administrador principal. Para
+    // cualquier otro rol (ej. contadora) la pestaña se comporta como si no existiera.
+    const isAdminOnlyTab = rawTab === 'noInvoiceSales' || rawTab === 'sequentials';
+    const activeTab: TabType = (!isAdmin && isAdminOnlyTab) ? 'invoices' : rawTab;
     const setActiveTab = (tab: TabType) => navigate(`/admin/billing/${SLUG_BY_TAB[tab]}`);
 
     // Normalizar slugs inválidos (ej. /admin/billing/xyz) a la pestaña de facturas
@@ -105,14 +134,14 @@ const BillingHistory: React.FC = () => {
         }
     }, [tabSlug, navigate]);
 
-    // Si un rol no autorizado entra por URL directa a ventas-sin-factura,
+    // Si un rol no autorizado entra por URL directa a ventas-sin-factura o secuenciales,
     // se limpia la URL hacia Facturas (solo una vez cargada la sesión, para no
     // expulsar al Administrador mientras se restaura su sesión al refrescar).
     useEffect(() => {
-        if (!authLoading && !isAdmin && rawTab === 'noInvoiceSales') {
+        if (!authLoading && !isAdmin && isAdminOnlyTab) {
             navigate(`/admin/billing/${SLUG_BY_TAB.invoices}`, { replace: true });
         }
-    }, [authLoading, isAdmin, rawTab, navigate]);
+    }, [authLoading, isAdmin, isAdminOnlyTab, navigate]);
 
     // ─────────────────────────────────────────────────────────────────────────
     // Estado para Facturas
@@ -152,12 +181,15 @@ const BillingHistory: React.FC = () => {
     const [idSearch, setIdSearch] = useState('');
     const [selectedYear, setSelectedYear] = useState<string>(new Date().getFullYear().toString());
     const [selectedBillForCreditNote, setSelectedBillForCreditNote] = useState<Bill | null>(null);
+    const [selectedBillForDebitNote, setSelectedBillForDebitNote] = useState<Bill | null>(null);
+    const [selectedBillForWithholding, setSelectedBillForWithholding] = useState<Bill | null>(null);
 
     // Estados para el modal de procesamiento
     const [isProcessingModalOpen, setIsProcessingModalOpen] = useState(false);
     const [processingState, setProcessingState] = useState<InvoiceProcessState>(InvoiceProcessState.IDLE);
     const [processingMessage, setProcessingMessage] = useState('');
     const [processingDetails, setProcessingDetails] = useState('');
+    const [processingFieldErrors, setProcessingFieldErrors] = useState<SchemaFieldError[]>([]);
     const [generatedInvoiceNumber, setGeneratedInvoiceNumber] = useState('');
     // FIX I-05: Track which document is being checked to prevent duplicate requests
     const [checkingStatusId, setCheckingStatusId] = useState<string | null>(null);
@@ -429,18 +461,26 @@ const BillingHistory: React.FC = () => {
                 quantity: item.quantity,
                 price: item.price,
                 total: parseFloat(((item.price || 0) * (item.quantity || 0)).toFixed(2)),
-                taxRate: item.taxRate
+                taxRate: item.taxRate,
+                discount: item.discount
             }));
 
             setProcessingState(InvoiceProcessState.GENERATING);
             setProcessingMessage('Generando factura electrónica');
             setProcessingDetails('Creando documento XML según normativa SRI...');
 
+            const chargedLines = applyOrderDiscounts(itemsConTotal, sale.discount);
+            const taxPreview = config?.billing?.taxSchedule?.length ? await billingService.previewTaxRates(lineTaxRates(chargedLines)) : null;
+            const chargedTotal = chargeWithTip(withPreviewRates(chargedLines, taxPreview), data.tip).total;
+            const { payments } = summarizePayments(getPaymentEntries(data.payments, data.paymentMethod), chargedTotal);
+
             const result = await billingService.generateXML({
                 order: { ...sale, id: String(sale.id || sale._id || ''), items: itemsConTotal },
                 client: data,
                 taxRate: config?.billing?.taxRate || 15,
-                logoUrl: config?.fiscalLogo || config?.logo
+                logoUrl: config?.fiscalLogo || config?.logo,
+                payments,
+                tip: data.tip || undefined
             });
 
             if (result.success) {
@@ -538,6 +578,7 @@ const BillingHistory: React.FC = () => {
         setCheckingStatusId(bill.id);
         setIsProcessingModalOpen(true);
         setGeneratedInvoiceNumber(bill.documentNumber || '');
+        setProcessingFieldErrors([]);
 
         try {
             setProcessingState(InvoiceProcessState.WAITING_AUTHORIZATION);
@@ -633,6 +674,20 @@ const BillingHistory: React.FC = () => {
         }
     };
 
+    const handleCreateDebitNote = async (data: DebitNoteDTO) => {
+        try {
+            const { debitNote } = await billingService.createDebitNote(data);
+            if (debitNote.sriStatus === 'AUTORIZADO') {
+                toast.success(`Nota de débito ${debitNote.documentNumber} autorizada`);
+            } else {
+                toast.warning(debitNote.sriMessage || 'El SRI aún no autoriza la nota de débito', debitNote.sriStatus);
+            }
+            setSelectedBillForDebitNote(null);
+        } catch (error: any) {
+            toast.error(error.message || 'No se pudo emitir la nota de débito');
+        }
+    };
+
     const handleReSubmit = async (bill: Bill) => {
         setIsProcessingModalOpen(true);
         setGeneratedInvoiceNumber(bill.documentNumber || '');
@@ -667,6 +722,7 @@ const BillingHistory: React.FC = () => {
             setProcessingState(InvoiceProcessState.ERROR);
             setProcessingMessage('Error técnico');
             setProcessingDetails(error instanceof Error ? error.message : 'Error desconocido');
+            setProcessingFieldErrors(getSchemaErrors(error));
         }
     };
 
@@ -676,6 +732,7 @@ const BillingHistory: React.FC = () => {
         return `${now.getFullYear()}-${(now.getMonth() + 1).toString().padStart(2, '0')}`;
     });
     const [downloadingReport, setDownloadingReport] = useState(false);
+    const [downloadingAts, setDownloadingAts] = useState(false);
 
     // Últimos 14 meses como opciones legibles ("Julio 2026") — sin adivinar formatos
     const reportMonthOptions = useMemo(() => {
@@ -727,6 +784,46 @@ const BillingHistory: React.FC = () => {
         }
     };
 
+    // ATS del mismo mes — XML para cargar en el DIMM; si no valida, el backend lista los errores
+    const handleAtsReport = async () => {
+        const [year, month] = reportMonth.split('-');
+        if (!year || !month) {
+            toast.warning('Selecciona el mes del anexo.', 'ATS');
+            return;
+        }
+
+        setDownloadingAts(true);
+        try {
+            const token = localStorage.getItem('restaurant_pm_token');
+            const response = await fetch(`${API_BASE_URL}/export/ats?month=${parseInt(month, 10)}&year=${year}`, {
+                headers: token ? { Authorization: `Bearer ${token}` } : {}
+            });
+
+            if (!response.ok) {
+                const body = await response.json().catch(() => null);
+                const details: string[] = body?.errors || [];
+                throw new Error([body?.error || 'No se pudo generar el ATS', ...details.slice(0, 3)].join('\n'));
+            }
+
+            const blob = await response.blob();
+            const url = window.URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `ATS-${month}${year}.xml`;
+            document.body.appendChild(link);
+            link.click();
+            link.remove();
+            window.URL.revokeObjectURL(url);
+
+            toast.success(`ATS de ${reportMonth} descargado`, '🧾 ANEXO TRANSACCIONAL');
+        } catch (error: any) {
+            console.error('ATS error:', error);
+            toast.error(error.message || 'No se pudo generar el ATS.', 'Error ATS');
+        } finally {
+            setDownloadingAts(false);
+        }
+    };
+
     const handleExportCSV = async () => {
         setBillsLoading(true);
         try {
@@ -785,6 +882,7 @@ const BillingHistory: React.FC = () => {
         setProcessingState(InvoiceProcessState.IDLE);
         setProcessingMessage('');
         setProcessingDetails('');
+        setProcessingFieldErrors([]);
         setGeneratedInvoiceNumber('');
     };
 
@@ -971,6 +1069,43 @@ const BillingHistory: React.FC = () => {
                 <FileTextIcon className="w-3.5 h-3.5" />
             </button>
 
+            {/* Nota de Débito (admite varias por factura) */}
+            <button
+                disabled={!canIssueDebitNote(bill)}
+                onClick={(e) => { e.stopPropagation(); setSelectedBillForDebitNote(bill); }}
+                className={`p-1.5 rounded-xl transition-all ${canIssueDebitNote(bill)
+                    ? 'text-gray-500 hover:text-indigo-600 hover:bg-white dark:hover:bg-dark-600 cursor-pointer'
+                    : 'text-gray-300 dark:text-gray-600 cursor-not-allowed opacity-40'
+                    }`}
+                title={
+                    bill.sriStatus?.trim().toUpperCase() !== 'AUTORIZADO' ? 'Solo facturas AUTORIZADAS'
+                        : !canIssueDebitNote(bill) ? 'No aplica para Consumidor Final'
+                            : 'Emitir Nota de Débito'
+                }
+            >
+                <PlusIcon className="w-3.5 h-3.5" />
+            </button>
+
+            {/* Retenciones recibidas del cliente */}
+            <button
+                disabled={!canRegisterWithholding(bill)}
+                onClick={(e) => { e.stopPropagation(); setSelectedBillForWithholding(bill); }}
+                className={`p-1.5 rounded-xl transition-all ${canRegisterWithholding(bill)
+                    ? billWithheld(bill) > 0
+                        ? 'text-emerald-600 hover:bg-white dark:hover:bg-dark-600 cursor-pointer'
+                        : 'text-gray-500 hover:text-emerald-600 hover:bg-white dark:hover:bg-dark-600 cursor-pointer'
+                    : 'text-gray-300 dark:text-gray-600 cursor-not-allowed opacity-40'
+                    }`}
+                title={
+                    bill.sriStatus?.trim().toUpperCase() !== 'AUTORIZADO' ? 'Solo facturas AUTORIZADAS'
+                        : !canRegisterWithholding(bill) ? 'No aplica para Consumidor Final'
+                            : billWithheld(bill) > 0 ? `Retenido $${billWithheld(bill).toFixed(2)}`
+                                : 'Registrar Retención'
+                }
+            >
+                <WalletIcon className="w-3.5 h-3.5" />
+            </button>
+
             {/* Eliminar */}
             <button
                 onClick={(e) => {
@@ -1113,6 +1248,8 @@ const BillingHistory: React.FC = () => {
                     </p>
                 </div>
 
+                {/* Notas de débito, liquidaciones, envíos de email, consolidación y secuenciales: el panel tiene su propia búsqueda y acciones */}
+                {activeTab !== 'purchaseSettlements' && activeTab !== 'debitNotes' && activeTab !== 'emailDeliveries' && activeTab !== 'pendingOrders' && activeTab !== 'sequentials' && (<>
                 {/* Barra de Filtros */}
                 <div className="flex flex-col md:flex-row gap-3 w-full lg:flex-1 lg:max-w-3xl">
                     <form autoComplete="off" onSubmit={handleSearch} className="flex flex-col md:flex-row gap-3 w-full">
@@ -1187,6 +1324,14 @@ const BillingHistory: React.FC = () => {
                                 >
                                     {downloadingReport ? 'Generando…' : '📋 Reporte 104'}
                                 </button>
+                                <button
+                                    onClick={handleAtsReport}
+                                    disabled={downloadingAts}
+                                    className="px-3 py-2 bg-slate-700 hover:bg-slate-800 text-white text-[10px] font-black uppercase tracking-widest rounded-xl transition-all active:scale-95 disabled:opacity-50 whitespace-nowrap"
+                                    title="XML del Anexo Transaccional Simplificado (ventas, anulados y retenciones) para el DIMM"
+                                >
+                                    {downloadingAts ? 'Generando…' : '🧾 ATS'}
+                                </button>
                             </div>
                             <button
                                 onClick={handleExportCSV}
@@ -1214,6 +1359,7 @@ const BillingHistory: React.FC = () => {
                         <RefreshCcwIcon className={`w-5 h-5 ${isLoading ? 'animate-spin' : ''}`} />
                     </button>
                 </div>
+                </>)}
             </div>
 
             {/* ═══════════════════════════════════════════════════════════════════
@@ -1257,6 +1403,54 @@ const BillingHistory: React.FC = () => {
                         {creditNotesTotal}
                     </span>
                 </button>
+                <button
+                    onClick={() => setActiveTab('debitNotes')}
+                    className={`flex flex-1 sm:flex-none items-center justify-center gap-1.5 sm:gap-2 px-2 sm:px-6 py-2.5 sm:py-3 rounded-xl text-[10px] sm:text-sm font-black uppercase tracking-wider transition-all whitespace-nowrap ${
+                        activeTab === 'debitNotes'
+                            ? 'bg-white dark:bg-dark-700 text-indigo-600 dark:text-indigo-400 shadow-lg'
+                            : 'text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200'
+                    }`}
+                >
+                    <PlusIcon className="w-4 h-4 hidden sm:block" />
+                    <span className="hidden sm:inline">Notas de Débito</span>
+                    <span className="sm:hidden">N. Débito</span>
+                </button>
+                <button
+                    onClick={() => setActiveTab('purchaseSettlements')}
+                    className={`flex flex-1 sm:flex-none items-center justify-center gap-1.5 sm:gap-2 px-2 sm:px-6 py-2.5 sm:py-3 rounded-xl text-[10px] sm:text-sm font-black uppercase tracking-wider transition-all whitespace-nowrap ${
+                        activeTab === 'purchaseSettlements'
+                            ? 'bg-white dark:bg-dark-700 text-teal-600 dark:text-teal-400 shadow-lg'
+                            : 'text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200'
+                    }`}
+                >
+                    <HistoryIcon className="w-4 h-4 hidden sm:block" />
+                    <span className="hidden sm:inline">Liquidaciones</span>
+                    <span className="sm:hidden">Liquid.</span>
+                </button>
+                <button
+                    onClick={() => setActiveTab('emailDeliveries')}
+                    className={`flex flex-1 sm:flex-none items-center justify-center gap-1.5 sm:gap-2 px-2 sm:px-6 py-2.5 sm:py-3 rounded-xl text-[10px] sm:text-sm font-black uppercase tracking-wider transition-all whitespace-nowrap ${
+                        activeTab === 'emailDeliveries'
+                            ? 'bg-white dark:bg-dark-700 text-sky-600 dark:text-sky-400 shadow-lg'
+                            : 'text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200'
+                    }`}
+                >
+                    <MailIcon className="w-4 h-4 hidden sm:block" />
+                    <span className="hidden sm:inline">Envíos Email</span>
+                    <span className="sm:hidden">Emails</span>
+                </button>
+                <button
+                    onClick={() => setActiveTab('pendingOrders')}
+                    className={`flex flex-1 sm:flex-none items-center justify-center gap-1.5 sm:gap-2 px-2 sm:px-6 py-2.5 sm:py-3 rounded-xl text-[10px] sm:text-sm font-black uppercase tracking-wider transition-all whitespace-nowrap ${
+                        activeTab === 'pendingOrders'
+                            ? 'bg-white dark:bg-dark-700 text-amber-600 dark:text-amber-400 shadow-lg'
+                            : 'text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200'
+                    }`}
+                >
+                    <ClipboardListIcon className="w-4 h-4 hidden sm:block" />
+                    <span className="hidden sm:inline">Factura Consolidada</span>
+                    <span className="sm:hidden">Consolid.</span>
+                </button>
                 {/* Ventas Sin Factura: visible SOLO para el Administrador principal */}
                 {isAdmin && (
                 <button
@@ -1279,11 +1473,37 @@ const BillingHistory: React.FC = () => {
                     </span>
                 </button>
                 )}
+                {/* Secuenciales: auditoría y reparación, solo para el Administrador principal */}
+                {isAdmin && (
+                <button
+                    onClick={() => setActiveTab('sequentials')}
+                    className={`flex flex-1 sm:flex-none items-center justify-center gap-1.5 sm:gap-2 px-2 sm:px-6 py-2.5 sm:py-3 rounded-xl text-[10px] sm:text-sm font-black uppercase tracking-wider transition-all whitespace-nowrap ${
+                        activeTab === 'sequentials'
+                            ? 'bg-white dark:bg-dark-700 text-rose-600 dark:text-rose-400 shadow-lg'
+                            : 'text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200'
+                    }`}
+                >
+                    <AlertCircleIcon className="w-4 h-4 hidden sm:block" />
+                    <span className="hidden sm:inline">Secuenciales</span>
+                    <span className="sm:hidden">Secuen.</span>
+                </button>
+                )}
             </div>
 
             {/* ═══════════════════════════════════════════════════════════════════
                 CONTENIDO DE PESTAÑAS
             ═══════════════════════════════════════════════════════════════════ */}
+            {activeTab === 'purchaseSettlements' ? (
+                <PurchaseSettlementsPanel />
+            ) : activeTab === 'debitNotes' ? (
+                <DebitNotesPanel />
+            ) : activeTab === 'emailDeliveries' ? (
+                <EmailDeliveryPanel />
+            ) : activeTab === 'pendingOrders' ? (
+                <PendingOrders onInvoiced={fetchBills} />
+            ) : activeTab === 'sequentials' ? (
+                <SequentialAuditPanel />
+            ) : (
             <div className="bg-white dark:bg-dark-800 rounded-3xl shadow-xl shadow-black/5 border border-gray-100 dark:border-dark-700 overflow-hidden animate-slide-up">
                 <div className="overflow-x-auto custom-scroll">
                     {/* ─────────────────────────────────────────────────────────────
@@ -1315,7 +1535,7 @@ const BillingHistory: React.FC = () => {
                                                     <div className="text-[10px] font-bold text-blue-600/60 dark:text-blue-400/60 uppercase tracking-wider">{bill.customerIdentification}</div>
                                                 </div>
                                                 <div className="flex flex-col items-end gap-1.5 flex-shrink-0">
-                                                    <div className="font-black text-blue-600 dark:text-blue-400 text-base">${totals.total.toFixed(2)}</div>
+                                                    <div className="font-black text-blue-600 dark:text-blue-400 text-base">${(totals.total + (bill.tip?.amount || 0)).toFixed(2)}</div>
                                                     {getStatusBadge(bill.sriStatus, bill.hasCreditNote)}
                                                     <span className={`text-[8px] font-black uppercase ${bill.environment === '2' ? 'text-purple-600 dark:text-purple-400' : 'text-amber-600 dark:text-amber-400'}`}>
                                                         {bill.environment === '2' ? 'PRODUCCIÓN' : 'PRUEBAS'}
@@ -1347,9 +1567,22 @@ const BillingHistory: React.FC = () => {
                                                         <div className="flex justify-between text-[10px] font-bold text-gray-400 uppercase">
                                                             <span>IVA (15%)</span><span>${totals.iva15.toFixed(2)}</span>
                                                         </div>
+                                                        {bill.tip && (
+                                                            <div className="flex justify-between text-[10px] font-bold text-gray-400 uppercase">
+                                                                <span>Propina</span><span>${bill.tip.amount.toFixed(2)}</span>
+                                                            </div>
+                                                        )}
                                                         <div className="flex justify-between text-xs font-black text-blue-600 dark:text-blue-400 uppercase">
-                                                            <span>Total</span><span>${totals.total.toFixed(2)}</span>
+                                                            <span>Total</span><span>${(totals.total + (bill.tip?.amount || 0)).toFixed(2)}</span>
                                                         </div>
+                                                        {billWithheld(bill) > 0 && (<>
+                                                            <div className="flex justify-between text-[10px] font-bold text-emerald-600 uppercase">
+                                                                <span>Retenido</span><span>-${billWithheld(bill).toFixed(2)}</span>
+                                                            </div>
+                                                            <div className="flex justify-between text-xs font-black text-emerald-700 dark:text-emerald-400 uppercase">
+                                                                <span>Neto a cobrar</span><span>${netCollectable(bill).toFixed(2)}</span>
+                                                            </div>
+                                                        </>)}
                                                     </div>
                                                     {(bill.sriStatus !== 'AUTORIZADO' && bill.sriStatus !== 'CANCELLED') && (
                                                         <button
@@ -1442,7 +1675,7 @@ const BillingHistory: React.FC = () => {
                                                         const totals = calculateOrderTotals(bill.items || []);
                                                         return (
                                                             <>
-                                                                <div className="font-black text-blue-600 dark:text-blue-400 text-base">${totals.total.toFixed(2)}</div>
+                                                                <div className="font-black text-blue-600 dark:text-blue-400 text-base">${(totals.total + (bill.tip?.amount || 0)).toFixed(2)}</div>
                                                                 <div className="text-[10px] font-bold text-gray-400 tracking-tighter uppercase">Sub: ${(totals.subtotal0 + totals.subtotal15).toFixed(2)}</div>
                                                             </>
                                                         );
@@ -1519,10 +1752,26 @@ const BillingHistory: React.FC = () => {
                                                                                         <td colSpan={3} className="px-5 py-3 text-right text-[10px] font-black text-gray-400 uppercase tracking-widest">IVA (15%)</td>
                                                                                         <td className="px-5 py-3 text-right font-bold text-gray-600 dark:text-gray-400">${totals.iva15.toFixed(2)}</td>
                                                                                     </tr>
+                                                                                    {bill.tip && (
+                                                                                        <tr>
+                                                                                            <td colSpan={3} className="px-5 py-3 text-right text-[10px] font-black text-gray-400 uppercase tracking-widest">Propina{bill.tip.employee ? ` · ${bill.tip.employee}` : ''}</td>
+                                                                                            <td className="px-5 py-3 text-right font-bold text-gray-600 dark:text-gray-400">${bill.tip.amount.toFixed(2)}</td>
+                                                                                        </tr>
+                                                                                    )}
                                                                                     <tr className="bg-blue-50/30 dark:bg-blue-900/10">
                                                                                         <td colSpan={3} className="px-5 py-4 text-right text-[11px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-widest">Total Factura</td>
-                                                                                        <td className="px-5 py-4 text-right font-black text-blue-700 dark:text-blue-300 text-sm">${totals.total.toFixed(2)}</td>
+                                                                                        <td className="px-5 py-4 text-right font-black text-blue-700 dark:text-blue-300 text-sm">${(totals.total + (bill.tip?.amount || 0)).toFixed(2)}</td>
                                                                                     </tr>
+                                                                                    {billWithheld(bill) > 0 && (<>
+                                                                                        <tr>
+                                                                                            <td colSpan={3} className="px-5 py-3 text-right text-[10px] font-black text-emerald-600 uppercase tracking-widest">Retenido (IVA ${(bill.withheldIva || 0).toFixed(2)} · Renta ${(bill.withheldRenta || 0).toFixed(2)})</td>
+                                                                                            <td className="px-5 py-3 text-right font-bold text-emerald-600">-${billWithheld(bill).toFixed(2)}</td>
+                                                                                        </tr>
+                                                                                        <tr className="bg-emerald-50/30 dark:bg-emerald-900/10">
+                                                                                            <td colSpan={3} className="px-5 py-4 text-right text-[11px] font-black text-emerald-700 dark:text-emerald-400 uppercase tracking-widest">Neto a cobrar</td>
+                                                                                            <td className="px-5 py-4 text-right font-black text-emerald-700 dark:text-emerald-300 text-sm">${netCollectable(bill).toFixed(2)}</td>
+                                                                                        </tr>
+                                                                                    </>)}
                                                                                 </>
                                                                             );
                                                                         })()}
@@ -2157,6 +2406,7 @@ const BillingHistory: React.FC = () => {
                     <div className="hidden md:block w-[200px] order-3"></div>
                 </div>
             </div>
+            )}
 
             {/* ═══════════════════════════════════════════════════════════════════
                 MODALES
@@ -2173,6 +2423,25 @@ const BillingHistory: React.FC = () => {
                 />
             )}
 
+            {selectedBillForDebitNote && (
+                <DebitNoteModal
+                    bill={selectedBillForDebitNote}
+                    isOpen={!!selectedBillForDebitNote}
+                    defaultTaxRate={config?.billing?.taxRate ?? 15}
+                    onClose={() => setSelectedBillForDebitNote(null)}
+                    onSubmit={handleCreateDebitNote}
+                />
+            )}
+
+            {selectedBillForWithholding && (
+                <WithholdingModal
+                    bill={selectedBillForWithholding}
+                    isOpen={!!selectedBillForWithholding}
+                    onClose={() => setSelectedBillForWithholding(null)}
+                    onChanged={fetchBills}
+                />
+            )}
+
             {/* Facturar una venta registrada sin factura (reutiliza el modal de Pedidos) */}
             {saleToInvoice && config && (
                 <BillingModal
@@ -2194,6 +2463,7 @@ const BillingHistory: React.FC = () => {
                 currentState={processingState}
                 message={processingMessage}
                 details={processingDetails}
+                fieldErrors={processingFieldErrors}
                 invoiceNumber={generatedInvoiceNumber}
                 onClose={handleCloseProcessingModal}
                 onPrint={undefined}
@@ -2205,6 +2475,7 @@ const BillingHistory: React.FC = () => {
                 onClose={() => setIsXmlModalOpen(false)}
                 xmlContent={selectedBillForXml?.xmlContent || ''}
                 documentNumber={selectedBillForXml?.documentNumber}
+                billId={selectedBillForXml?.id}
             />
 
             <EditBillModal
@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { Bill, CreditNote } from '../types/billing.types';
+import { Bill, CreditNote, SchemaFieldError } from '../types/billing.types';
 import { billingService } from '../services/BillingService';
 import { useRestaurantConfig } from '../../../contexts/RestaurantConfigContext';
 import { FileTextIcon, AlertCircleIcon, RefreshCcwIcon } from '../../../components/ui/Icons';
 import InvoiceProcessingModal, { InvoiceProcessState } from './InvoiceProcessingModal';
+import { getSchemaErrors } from '../utils/sriSchema';
 
 interface CreditNoteModalProps {
     bill: Bill;
@@ -42,6 +43,7 @@ const CreditNoteModal: React.FC<CreditNoteModalProps> = ({
     const [processingState, setProcessingState] = useState<InvoiceProcessState>(InvoiceProcessState.IDLE);
     const [processingMessage, setProcessingMessage] = useState('');
     const [processingDetails, setProcessingDetails] = useState('');
+    const [processingFieldErrors, setProcessingFieldErrors] = useState<SchemaFieldError[]>([]);
     const [generatedNCNumber, setGeneratedNCNumber] = useState('');
 
     useEffect(() => {
@@ -100,6 +102,7 @@ const CreditNoteModal: React.FC<CreditNoteModalProps> = ({
         setError('');
         // Abrir modal de procesamiento en lugar de solo isLoading
         setIsProcessingModalOpen(true);
+        setProcessingFieldErrors([]);
 
         try {
             // ETAPA 1: Validación
@@ -164,6 +167,7 @@ const CreditNoteModal: React.FC<CreditNoteModalProps> = ({
             setProcessingState(InvoiceProcessState.ERROR);
             setProcessingMessage('Error al generar Nota de Crédito');
             setProcessingDetails(err.message || 'Error desconocido');
+            setProcessingFieldErrors(getSchemaErrors(err));
         } finally {
             setIsLoading(false);
         }
@@ -367,6 +371,7 @@ const CreditNoteModal: React.FC<CreditNoteModalProps> = ({
                 currentState={processingState}
                 message={processingMessage}
                 details={processingDetails}
+                fieldErrors={processingFieldErrors}
                 invoiceNumber={generatedNCNumber} // Mostrará el número de la NC
                 documentLabel="Número de Nota de Crédito"
                 onClose={handleCloseProcessing}
@@ -0,0 +1,157 @@
+/**
+ * @file DebitNoteModal.tsx
+ * @description Captura de una nota de débito sobre una factura autorizada:
+ * cargos adicionales (valores sin IVA) con su motivo y la forma de pago.
+ */
+import React, { useEffect, useMemo, useState } from 'react';
+import Modal from '../../../components/ui/Modal';
+import { PlusIcon, TrashIcon } from '../../../components/ui/Icons';
+import { Bill, DebitNoteDTO, DebitNoteItem } from '../types/billing.types';
+import { PAYMENT_METHODS, CASH_METHOD } from '../utils/payments';
+import { DEBIT_NOTE_REASONS, DEBIT_NOTE_TAX_RATES, summarizeDebitNoteItems, debitNoteIssues } from '../utils/debitNote';
+
+interface DebitNoteModalProps {
+    bill: Bill;
+    isOpen: boolean;
+    /** Tarifa de IVA por defecto de los cargos (la configurada del restaurante) */
+    defaultTaxRate: number;
+    onClose: () => void;
+    onSubmit: (data: DebitNoteDTO) => Promise<void>;
+}
+
+const inputClass = 'w-full px-4 py-2 rounded-xl border border-gray-200 dark:border-dark-600 dark:bg-dark-800 text-sm';
+const labelClass = 'block text-[10px] font-black text-gray-400 uppercase tracking-widest mb-1';
+
+export const DebitNoteModal: React.FC<DebitNoteModalProps> = ({ bill, isOpen, defaultTaxRate, onClose, onSubmit }) => {
+    const emptyItem = (): DebitNoteItem => ({ reason: '01', description: '', amount: 0, taxRate: defaultTaxRate });
+
+    const [items, setItems] = useState<DebitNoteItem[]>([emptyItem()]);
+    const [paymentMethod, setPaymentMethod] = useState(CASH_METHOD);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setItems([emptyItem()]);
+        setPaymentMethod(bill.payments?.[0]?.method || bill.paymentMethod || CASH_METHOD);
+    }, [isOpen, bill.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+    const data: DebitNoteDTO = {
+        billId: bill.id,
+        items: items.map(item => ({ ...item, description: item.description?.trim() || undefined })),
+        paymentMethod
+    };
+    const totals = useMemo(() => summarizeDebitNoteItems(items), [items]);
+    const issues = debitNoteIssues(data);
+
+    const updateItem = (index: number, patch: Partial<DebitNoteItem>) =>
+        setItems(prev => prev.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+
+    const handleSubmit = async () => {
+        if (issues.length > 0) return;
+        setIsSaving(true);
+        try {
+            await onSubmit(data);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={`Nota de débito · Factura ${bill.documentNumber}`} maxWidth="max-w-3xl">
+            <div className="space-y-5">
+                <div className="rounded-2xl bg-gray-50 dark:bg-dark-750 p-4 text-sm text-gray-600 dark:text-gray-300">
+                    <div className="font-bold text-gray-900 dark:text-white">{bill.customerName}</div>
+                    <div className="text-xs">{bill.customerIdentification} · Factura ${bill.total.toFixed(2)}</div>
+                </div>
+
+                <div className="space-y-2">
+                    <span className={labelClass}>Cargos (valores sin IVA)</span>
+                    {items.map((item, index) => (
+                        <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                            <select
+                                aria-label={`Motivo cargo ${index + 1}`}
+                                value={item.reason}
+                                onChange={e => updateItem(index, { reason: e.target.value })}
+                                className={`${inputClass} col-span-3`}
+                            >
+                                {Object.entries(DEBIT_NOTE_REASONS).map(([code, label]) => <option key={code} value={code}>{label}</option>)}
+                            </select>
+                            <input
+                                aria-label={`Detalle cargo ${index + 1}`}
+                                value={item.description || ''}
+                                onChange={e => updateItem(index, { description: e.target.value })}
+                                placeholder={item.reason === '04' ? 'Detalle del cargo' : DEBIT_NOTE_REASONS[item.reason]}
+                                className={`${inputClass} col-span-4`}
+                            />
+                            <input
+                                aria-label={`Valor cargo ${index + 1}`}
+                                type="number" min={0} step="0.01"
+                                value={item.amount}
+                                onChange={e => updateItem(index, { amount: Number(e.target.value) })}
+                                className={`${inputClass} col-span-2`}
+                            />
+                            <select
+                                aria-label={`IVA cargo ${index + 1}`}
+                                value={item.taxRate}
+                                onChange={e => updateItem(index, { taxRate: Number(e.target.value) })}
+                                className={`${inputClass} col-span-2`}
+                            >
+                                {DEBIT_NOTE_TAX_RATES.map(rate => <option key={rate} value={rate}>{rate}%</option>)}
+                            </select>
+                            <button
+                                onClick={() => setItems(prev => prev.filter((_, i) => i !== index))}
+                                disabled={items.length === 1}
+                                className="col-span-1 p-2 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                                title="Quitar cargo"
+                            >
+                                <TrashIcon className="w-4 h-4" />
+                            </button>
+                        </div>
+                    ))}
+                    <button
+                        onClick={() => setItems(prev => [...prev, emptyItem()])}
+                        className="flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-blue-600 hover:text-blue-700"
+                    >
+                        <PlusIcon className="w-3 h-3" /> Agregar cargo
+                    </button>
+                </div>
+
+                <div>
+                    <label htmlFor="nd-payment" className={labelClass}>Forma de pago</label>
+                    <select id="nd-payment" value={paymentMethod} onChange={e => setPaymentMethod(e.target.value)} className={inputClass}>
+                        {PAYMENT_METHODS.map(m => <option key={m.code} value={m.code}>{m.label}</option>)}
+                    </select>
+                </div>
+
+                <div className="flex justify-end gap-6 text-sm font-bold text-gray-600 dark:text-gray-300">
+                    <span>Subtotal ${totals.subtotal.toFixed(2)}</span>
+                    <span>IVA ${totals.tax.toFixed(2)}</span>
+                    <span className="text-gray-900 dark:text-white">Total ${totals.total.toFixed(2)}</span>
+                </div>
+
+                {issues.length > 0 && (
+                    <ul className="text-xs text-amber-600 dark:text-amber-400 space-y-0.5">
+                        {issues.map(issue => <li key={issue}>• {issue}</li>)}
+                    </ul>
+                )}
+
+                <div className="flex gap-3 pt-2">
+                    <button
+                        onClick={onClose}
+                        disabled={isSaving}
+                        className="flex-1 px-6 py-3 rounded-2xl bg-gray-50 text-gray-500 hover:bg-gray-100 dark:bg-dark-700 dark:text-gray-400 font-black text-[10px] uppercase tracking-widest disabled:opacity-50"
+                    >
+                        Cancelar
+                    </button>
+                    <button
+                        onClick={handleSubmit}
+                        disabled={issues.length > 0 || isSaving}
+                        className="flex-1 px-6 py-3 rounded-2xl bg-blue-600 hover:bg-blue-700 text-white font-black text-[10px] uppercase tracking-widest disabled:opacity-50"
+                    >
+                        {isSaving ? 'Enviando al SRI…' : 'Emitir nota de débito'}
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
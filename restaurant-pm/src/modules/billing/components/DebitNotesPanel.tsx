@@ -0,0 +1,184 @@
+/**
+ * @file DebitNotesPanel.tsx
+ * @description Pestaña "Notas de Débito" del historial de facturación: cargos
+ * adicionales emitidos sobre facturas autorizadas, con su estado en el SRI y
+ * descarga del RIDE / XML. Se emiten desde las acciones de cada factura.
+ */
+import React, { useCallback, useEffect, useState } from 'react';
+import { billingService } from '../services/BillingService';
+import { DebitNote } from '../types/billing.types';
+import { API_BASE_URL } from '../../../config/api.config';
+import { toast } from '../../../components/ui/AlertProvider';
+import {
+    PrinterIcon,
+    FileTextIcon,
+    RefreshCcwIcon,
+    ChevronLeftIcon,
+    ChevronRightIcon,
+} from '../../../components/ui/Icons';
+
+const PAGE_SIZE = 15;
+
+const statusClass = (status?: string): string => {
+    if (status === 'AUTORIZADO') return 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400';
+    if (status === 'DEVUELTA' || status === 'NO AUTORIZADO' || status === 'ERROR') return 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400';
+    return 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400';
+};
+
+const DebitNotesPanel: React.FC = () => {
+    const [debitNotes, setDebitNotes] = useState<DebitNote[]>([]);
+    const [page, setPage] = useState(1);
+    const [totalPages, setTotalPages] = useState(1);
+    const [search, setSearch] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [checkingId, setCheckingId] = useState<string | null>(null);
+
+    const fetchDebitNotes = useCallback(async () => {
+        setLoading(true);
+        try {
+            const response = await billingService.getDebitNotes({
+                page,
+                limit: PAGE_SIZE,
+                customerIdentification: search.trim() || undefined
+            });
+            setDebitNotes(response.data);
+            setTotalPages(response.pagination?.totalPages || 1);
+        } catch (error: any) {
+            toast.error(error.message || 'No se pudieron cargar las notas de débito');
+        } finally {
+            setLoading(false);
+        }
+    }, [page]); // eslint-disable-line react-hooks/exhaustive-deps
+
+    useEffect(() => {
+        fetchDebitNotes();
+    }, [fetchDebitNotes]);
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (page !== 1) setPage(1);
+        else fetchDebitNotes();
+    };
+
+    const handleCheckStatus = async (debitNote: DebitNote) => {
+        setCheckingId(debitNote.id);
+        try {
+            const updated = await billingService.checkDebitNoteStatus(debitNote.id);
+            setDebitNotes(prev => prev.map(nd => (nd.id === updated.id ? updated : nd)));
+            if (updated.sriStatus === 'AUTORIZADO') toast.success(`Nota de débito ${updated.documentNumber} autorizada`);
+            else toast.warning(updated.sriMessage || 'Aún sin autorización', updated.sriStatus);
+        } catch (error: any) {
+            toast.error(error.message || 'No se pudo consultar el SRI');
+        } finally {
+            setCheckingId(null);
+        }
+    };
+
+    return (
+        <div className="bg-white dark:bg-dark-800 rounded-3xl shadow-xl shadow-black/5 border border-gray-100 dark:border-dark-700 overflow-hidden animate-slide-up">
+            <div className="flex flex-col md:flex-row gap-3 justify-between p-4 md:p-6 border-b border-gray-100 dark:border-dark-700">
+                <form autoComplete="off" onSubmit={handleSearch} className="flex gap-2 flex-1 md:max-w-md">
+                    <input
+                        type="text"
+                        placeholder="Cédula / RUC del cliente..."
+                        value={search}
+                        onChange={e => setSearch(e.target.value)}
+                        className="flex-1 rounded-2xl border border-gray-200 bg-gray-50 dark:bg-dark-800 dark:border-dark-700 px-4 py-3 text-sm outline-none focus:border-blue-500 dark:text-white"
+                    />
+                    <button type="button" onClick={fetchDebitNotes} className="p-3 rounded-2xl border border-gray-100 dark:border-dark-700 text-gray-600 hover:text-blue-600" title="Actualizar">
+                        <RefreshCcwIcon className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
+                    </button>
+                </form>
+                <p className="self-center text-xs text-gray-400">
+                    Se emiten desde las acciones de una factura autorizada
+                </p>
+            </div>
+
+            <div className="overflow-x-auto custom-scroll">
+                <table className="w-full text-left">
+                    <thead>
+                        <tr className="bg-gray-50/50 dark:bg-dark-750/50 text-[10px] font-black text-gray-400 uppercase tracking-widest">
+                            <th className="px-6 py-4">Número</th>
+                            <th className="px-6 py-4">Fecha</th>
+                            <th className="px-6 py-4">Cliente</th>
+                            <th className="px-6 py-4">Factura</th>
+                            <th className="px-6 py-4 text-right">Total</th>
+                            <th className="px-6 py-4">Estado SRI</th>
+                            <th className="px-6 py-4 text-right">Acciones</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100 dark:divide-dark-700">
+                        {!loading && debitNotes.length === 0 && (
+                            <tr>
+                                <td colSpan={7} className="px-6 py-12 text-center text-sm text-gray-400">
+                                    No hay notas de débito registradas
+                                </td>
+                            </tr>
+                        )}
+                        {debitNotes.map(nd => (
+                            <tr key={nd.id} className="text-sm text-gray-700 dark:text-gray-300">
+                                <td className="px-6 py-4 font-mono font-bold">{nd.documentNumber}</td>
+                                <td className="px-6 py-4">{new Date(nd.date).toLocaleDateString('es-EC')}</td>
+                                <td className="px-6 py-4">
+                                    <div className="font-bold">{nd.customerName}</div>
+                                    <div className="text-xs text-gray-400">{nd.customerIdentification}</div>
+                                </td>
+                                <td className="px-6 py-4 font-mono text-xs">{nd.billDocumentNumber}</td>
+                                <td className="px-6 py-4 text-right font-bold">${nd.total.toFixed(2)}</td>
+                                <td className="px-6 py-4">
+                                    <span className={`text-[9px] font-black px-2.5 py-1 rounded-lg uppercase ${statusClass(nd.sriStatus)}`} title={nd.sriMessage}>
+                                        {nd.sriStatus || 'PENDIENTE'}
+                                    </span>
+                                </td>
+                                <td className="px-6 py-4">
+                                    <div className="flex justify-end gap-1">
+                                        {nd.sriStatus !== 'AUTORIZADO' && (
+                                            <button
+                                                onClick={() => handleCheckStatus(nd)}
+                                                disabled={checkingId === nd.id}
+                                                className="p-2 text-gray-400 hover:text-amber-600 disabled:opacity-50"
+                                                title="Verificar en el SRI"
+                                            >
+                                                <RefreshCcwIcon className={`w-4 h-4 ${checkingId === nd.id ? 'animate-spin' : ''}`} />
+                                            </button>
+                                        )}
+                                        <button
+                                            onClick={() => window.open(`${API_BASE_URL}/debit-notes/${nd.id}/pdf`, '_blank')}
+                                            className="p-2 text-gray-400 hover:text-blue-600"
+                                            title="RIDE (PDF)"
+                                        >
+                                            <PrinterIcon className="w-4 h-4" />
+                                        </button>
+                                        {nd.accessKey && (
+                                            <button
+                                                onClick={() => window.open(`${API_BASE_URL}/debit-notes/${nd.id}/xml`, '_blank')}
+                                                className="p-2 text-gray-400 hover:text-blue-600"
+                                                title="XML firmado"
+                                            >
+                                                <FileTextIcon className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                    </div>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            {totalPages > 1 && (
+                <div className="flex items-center justify-center gap-3 px-6 py-5 border-t border-gray-100 dark:border-dark-700">
+                    <button onClick={() => setPage(p => Math.max(1, p - 1))} disabled={page === 1} className="p-2 rounded-xl text-gray-500 disabled:opacity-30">
+                        <ChevronLeftIcon className="w-4 h-4" />
+                    </button>
+                    <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Página {page} de {totalPages}</span>
+                    <button onClick={() => setPage(p => Math.min(totalPages, p + 1))} disabled={page === totalPages} className="p-2 rounded-xl text-gray-500 disabled:opacity-30">
+                        <ChevronRightIcon className="w-4 h-4" />
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default DebitNotesPanel;
@@ -0,0 +1,296 @@
+/**
+ * @file EmailDeliveryPanel.tsx
+ * @description Pestaña "Envíos Email" del historial de facturación: estado de
+ * entrega por email de facturas y notas de crédito (enviado, omitido, fallido,
+ * rebotado) con filtros, y reenvío en bloque de los documentos seleccionados,
+ * opcionalmente a una dirección corregida.
+ */
+import React, { useCallback, useEffect, useState } from 'react';
+import { billingService } from '../services/BillingService';
+import { EmailDelivery, EmailDeliveryStatus, EmailDocumentType } from '../types/billing.types';
+import { toast } from '../../../components/ui/AlertProvider';
+import {
+    MailIcon,
+    RefreshCcwIcon,
+    ChevronLeftIcon,
+    ChevronRightIcon,
+} from '../../../components/ui/Icons';
+
+const PAGE_SIZE = 20;
+
+/** Campos comunes de facturas y notas de crédito que muestra el panel */
+interface EmailDocumentRow {
+    id: string;
+    documentNumber: string;
+    date: string;
+    customerName: string;
+    customerIdentification: string;
+    customerEmail?: string;
+    sriStatus?: string;
+    emailDelivery?: EmailDelivery;
+}
+
+const STATUS_LABELS: Record<EmailDeliveryStatus, string> = {
+    SENT: 'Enviado',
+    SKIPPED: 'Omitido',
+    FAILED: 'Fallido',
+    BOUNCED: 'Rebotado',
+};
+
+const STATUS_FILTERS: { value: string; label: string }[] = [
+    { value: '', label: 'Todos los estados' },
+    { value: 'BOUNCED', label: 'Rebotados' },
+    { value: 'FAILED', label: 'Fallidos' },
+    { value: 'SKIPPED', label: 'Omitidos' },
+    { value: 'SENT', label: 'Enviados' },
+    { value: 'NONE', label: 'Sin envío registrado' },
+];
+
+const statusClass = (status?: EmailDeliveryStatus): string => {
+    if (status === 'SENT') return 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400';
+    if (status === 'FAILED' || status === 'BOUNCED') return 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400';
+    return 'bg-gray-100 text-gray-600 dark:bg-dark-700 dark:text-gray-400';
+};
+
+const EmailDeliveryPanel: React.FC = () => {
+    const [documentType, setDocumentType] = useState<EmailDocumentType>('bill');
+    const [emailStatus, setEmailStatus] = useState('');
+    const [search, setSearch] = useState('');
+    const [documents, setDocuments] = useState<EmailDocumentRow[]>([]);
+    const [page, setPage] = useState(1);
+    const [totalPages, setTotalPages] = useState(1);
+    const [loading, setLoading] = useState(false);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [correctedEmail, setCorrectedEmail] = useState('');
+    const [sending, setSending] = useState(false);
+
+    const fetchDocuments = useCallback(async () => {
+        setLoading(true);
+        try {
+            const params = {
+                page,
+                limit: PAGE_SIZE,
+                customerIdentification: search.trim() || undefined,
+                emailStatus: emailStatus || undefined
+            };
+            const response = documentType === 'bill'
+                ? await billingService.getAll(params)
+                : await billingService.getCreditNotes(params);
+            setDocuments(response.data);
+            setTotalPages(response.pagination?.totalPages || 1);
+        } catch (error: any) {
+            toast.error(error.message || 'No se pudieron cargar los documentos');
+        } finally {
+            setLoading(false);
+        }
+    }, [page, documentType, emailStatus]); // eslint-disable-line react-hooks/exhaustive-deps
+
+    useEffect(() => {
+        fetchDocuments();
+    }, [fetchDocuments]);
+
+    // La selección es por tipo de documento y por página de resultados
+    useEffect(() => {
+        setSelected(new Set());
+    }, [documentType, emailStatus, page]);
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (page !== 1) setPage(1);
+        else fetchDocuments();
+    };
+
+    const changeType = (type: EmailDocumentType) => {
+        setDocumentType(type);
+        setPage(1);
+    };
+
+    const changeStatus = (status: string) => {
+        setEmailStatus(status);
+        setPage(1);
+    };
+
+    const selectable = documents.filter(d => d.sriStatus === 'AUTORIZADO');
+    const allSelected = selectable.length > 0 && selectable.every(d => selected.has(d.id));
+
+    const toggle = (id: string) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
+    const toggleAll = () => {
+        setSelected(allSelected ? new Set() : new Set(selectable.map(d => d.id)));
+    };
+
+    const handleResend = async () => {
+        if (selected.size === 0) return;
+        setSending(true);
+        try {
+            const result = await billingService.resendEmails(
+                Array.from(selected).map(id => ({ type: documentType, id })),
+                correctedEmail.trim() || undefined
+            );
+            if (result.failed === 0) {
+                toast.success(`${result.sent} documento(s) reenviado(s)`);
+            } else {
+                const firstError = result.results.find(r => r.status !== 'SENT')?.error;
+                toast.warning(`${result.sent} enviado(s), ${result.failed} sin enviar${firstError ? `: ${firstError}` : ''}`, 'Reenvío de emails');
+            }
+            setSelected(new Set());
+            setCorrectedEmail('');
+            await fetchDocuments();
+        } catch (error: any) {
+            toast.error(error.message || 'No se pudieron reenviar los documentos');
+        } finally {
+            setSending(false);
+        }
+    };
+
+    return (
+        <div className="bg-white dark:bg-dark-800 rounded-3xl shadow-xl shadow-black/5 border border-gray-100 dark:border-dark-700 overflow-hidden animate-slide-up">
+            <div className="flex flex-col xl:flex-row gap-3 justify-between p-4 md:p-6 border-b border-gray-100 dark:border-dark-700">
+                <div className="flex flex-col md:flex-row gap-2 flex-1">
+                    <div className="flex p-1 bg-gray-100 dark:bg-dark-700 rounded-2xl">
+                        {([['bill', 'Facturas'], ['creditNote', 'Notas de crédito']] as [EmailDocumentType, string][]).map(([value, label]) => (
+                            <button
+                                key={value}
+                                type="button"
+                                onClick={() => changeType(value)}
+                                className={`px-4 py-2 rounded-xl text-xs font-black uppercase tracking-wider transition-all ${documentType === value ? 'bg-white dark:bg-dark-600 text-blue-600 dark:text-blue-400 shadow' : 'text-gray-500'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    <select
+                        aria-label="Estado del email"
+                        value={emailStatus}
+                        onChange={e => changeStatus(e.target.value)}
+                        className="rounded-2xl border border-gray-200 bg-gray-50 dark:bg-dark-800 dark:border-dark-700 px-4 py-3 text-sm outline-none focus:border-blue-500 dark:text-white"
+                    >
+                        {STATUS_FILTERS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+                    </select>
+                    <form autoComplete="off" onSubmit={handleSearch} className="flex gap-2 flex-1 md:max-w-sm">
+                        <input
+                            type="text"
+                            placeholder="Cédula / RUC del cliente..."
+                            value={search}
+                            onChange={e => setSearch(e.target.value)}
+                            className="flex-1 rounded-2xl border border-gray-200 bg-gray-50 dark:bg-dark-800 dark:border-dark-700 px-4 py-3 text-sm outline-none focus:border-blue-500 dark:text-white"
+                        />
+                        <button type="button" onClick={fetchDocuments} className="p-3 rounded-2xl border border-gray-100 dark:border-dark-700 text-gray-600 hover:text-blue-600" title="Actualizar">
+                            <RefreshCcwIcon className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
+                        </button>
+                    </form>
+                </div>
+                <div className="flex flex-col md:flex-row gap-2">
+                    <input
+                        type="email"
+                        placeholder="Email corregido (opcional)"
+                        value={correctedEmail}
+                        onChange={e => setCorrectedEmail(e.target.value)}
+                        className="rounded-2xl border border-gray-200 bg-gray-50 dark:bg-dark-800 dark:border-dark-700 px-4 py-3 text-sm outline-none focus:border-blue-500 dark:text-white"
+                    />
+                    <button
+                        type="button"
+                        onClick={handleResend}
+                        disabled={selected.size === 0 || sending}
+                        className="flex items-center justify-center gap-2 px-5 py-3 rounded-2xl text-xs font-black uppercase tracking-wider text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                        <MailIcon className="w-4 h-4" />
+                        {sending ? 'Reenviando...' : `Reenviar seleccionados (${selected.size})`}
+                    </button>
+                </div>
+            </div>
+
+            <div className="overflow-x-auto custom-scroll">
+                <table className="w-full text-left">
+                    <thead>
+                        <tr className="bg-gray-50/50 dark:bg-dark-750/50 text-[10px] font-black text-gray-400 uppercase tracking-widest">
+                            <th className="px-6 py-4">
+                                <input type="checkbox" aria-label="Seleccionar todos" checked={allSelected} onChange={toggleAll} disabled={selectable.length === 0} />
+                            </th>
+                            <th className="px-6 py-4">Número</th>
+                            <th className="px-6 py-4">Cliente</th>
+                            <th className="px-6 py-4">Email</th>
+                            <th className="px-6 py-4">Estado email</th>
+                            <th className="px-6 py-4">Último intento</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100 dark:divide-dark-700">
+                        {!loading && documents.length === 0 && (
+                            <tr>
+                                <td colSpan={6} className="px-6 py-12 text-center text-sm text-gray-400">
+                                    No hay documentos con ese estado de envío
+                                </td>
+                            </tr>
+                        )}
+                        {documents.map(doc => {
+                            const delivery = doc.emailDelivery;
+                            const canResend = doc.sriStatus === 'AUTORIZADO';
+                            return (
+                                <tr key={doc.id} className="text-sm text-gray-700 dark:text-gray-300">
+                                    <td className="px-6 py-4">
+                                        <input
+                                            type="checkbox"
+                                            aria-label={`Seleccionar ${doc.documentNumber}`}
+                                            checked={selected.has(doc.id)}
+                                            onChange={() => toggle(doc.id)}
+                                            disabled={!canResend}
+                                            title={canResend ? undefined : 'Solo se reenvían documentos autorizados'}
+                                        />
+                                    </td>
+                                    <td className="px-6 py-4">
+                                        <div className="font-mono font-bold">{doc.documentNumber}</div>
+                                        <div className="text-xs text-gray-400">{doc.date}</div>
+                                    </td>
+                                    <td className="px-6 py-4">
+                                        <div className="font-bold">{doc.customerName}</div>
+                                        <div className="text-xs text-gray-400">{doc.customerIdentification}</div>
+                                    </td>
+                                    <td className="px-6 py-4 text-xs">{delivery?.to || doc.customerEmail || '—'}</td>
+                                    <td className="px-6 py-4">
+                                        <span className={`text-[9px] font-black px-2.5 py-1 rounded-lg uppercase ${statusClass(delivery?.status)}`}>
+                                            {delivery ? STATUS_LABELS[delivery.status] : 'Sin envío'}
+                                        </span>
+                                        {(delivery?.error || delivery?.skipReason) && (
+                                            <div className="text-[10px] text-gray-400 mt-1 max-w-xs truncate" title={delivery.error || delivery.skipReason}>
+                                                {delivery.error || delivery.skipReason}
+                                            </div>
+                                        )}
+                                    </td>
+                                    <td className="px-6 py-4 text-xs text-gray-500">
+                                        {delivery ? (
+                                            <>
+                                                <div>{new Date(delivery.bouncedAt || delivery.lastAttemptAt).toLocaleString('es-EC')}</div>
+                                                <div className="text-gray-400">{delivery.attempts} intento(s){delivery.provider ? ` · ${delivery.provider}` : ''}</div>
+                                            </>
+                                        ) : '—'}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+
+            {totalPages > 1 && (
+                <div className="flex items-center justify-center gap-3 px-6 py-5 border-t border-gray-100 dark:border-dark-700">
+                    <button onClick={() => setPage(p => Math.max(1, p - 1))} disabled={page === 1} className="p-2 rounded-xl text-gray-500 disabled:opacity-30">
+                        <ChevronLeftIcon className="w-4 h-4" />
+                    </button>
+                    <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Página {page} de {totalPages}</span>
+                    <button onClick={() => setPage(p => Math.min(totalPages, p + 1))} disabled={page === totalPages} className="p-2 rounded-xl text-gray-500 disabled:opacity-30">
+                        <ChevronRightIcon className="w-4 h-4" />
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default EmailDeliveryPanel;
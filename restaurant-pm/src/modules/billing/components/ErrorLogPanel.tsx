@@ -29,6 +29,16 @@ function classifyError(entry: BillErrorEntry): {
     const msg = (entry.message || '').toLowerCase();
     const status = (entry.sriStatus || '').toLowerCase();
 
+    // Rechazado localmente por el XSD: el comprobante nunca salió hacia el SRI
+    if (status === 'esquema_invalido') {
+        return {
+            type: 'user',
+            label: 'Error de esquema XSD',
+            color: 'red',
+            suggestion: 'No se envió al SRI. Corrige el campo indicado (datos de la factura o configuración fiscal) y vuelve a enviarla.'
+        };
+    }
+
     if (msg.includes('ruc') || msg.includes('identificacion') || msg.includes('cedula') ||
         msg.includes('razon social') || msg.includes('secuencial') || msg.includes('impuesto') ||
         msg.includes('estructura') || msg.includes('clave acceso') || msg.includes('datos') ||
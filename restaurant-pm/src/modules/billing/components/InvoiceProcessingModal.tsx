@@ -1,5 +1,6 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { CheckCircleIcon, AlertCircleIcon, RefreshCcwIcon, FileTextIcon, DownloadIcon, PrinterIcon } from '../../../components/ui/Icons';
+import { SchemaFieldError } from '../types/billing.types';
 
 // FIX M-05: Timeout configurable para el modal de procesamiento
 const PROCESSING_TIMEOUT_MS = 120000; // 2 minutos
@@ -21,6 +22,8 @@ interface InvoiceProcessingModalProps {
     currentState: InvoiceProcessState;
     message: string;
     details?: string;
+    /** Campos que incumplen el XSD del SRI (el documento no se envió) */
+    fieldErrors?: SchemaFieldError[];
     invoiceNumber?: string;
     documentLabel?: string;
     onClose: () => void;
@@ -36,6 +39,7 @@ const InvoiceProcessingModal: React.FC<InvoiceProcessingModalProps> = ({
     currentState,
     message,
     details,
+    fieldErrors = [],
     invoiceNumber,
     documentLabel = 'Número de Factura',
     onClose,
@@ -171,6 +175,23 @@ const InvoiceProcessingModal: React.FC<InvoiceProcessingModalProps> = ({
                         </p>
                     )}
 
+                    {currentState === InvoiceProcessState.ERROR && fieldErrors.length > 0 && (
+                        <div className="mb-4 text-left">
+                            <p className="text-xs font-bold text-red-700 dark:text-red-400 mb-2">
+                                No se envió al SRI. Corrige estos campos y reintenta desde el historial:
+                            </p>
+                            <ul className="max-h-48 overflow-y-auto space-y-1.5 p-3 bg-red-50 dark:bg-red-900/10 border border-red-200 dark:border-red-800/40 rounded-lg">
+                                {fieldErrors.map((fieldError, i) => (
+                                    <li key={`${fieldError.path}-${i}`} className="text-xs">
+                                        <span className="font-mono font-bold text-red-700 dark:text-red-400">{fieldError.field}</span>
+                                        <span className="text-gray-700 dark:text-gray-300">: {fieldError.message}</span>
+                                        <p className="font-mono text-[10px] text-gray-400 dark:text-gray-500 break-all">{fieldError.path}</p>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
                     {invoiceNumber && (
                         <div className="mt-4 p-3 bg-gray-100 dark:bg-dark-700 rounded-lg">
                             <p className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-1">
@@ -1,75 +1,304 @@
 /**
  * @file PendingOrders.tsx
- * @description Lista de órdenes pendientes de facturación
+ * @description Pedidos pendientes de facturación y factura consolidada: se eligen
+ * varios pedidos sin facturar de un mismo cliente (ej. una empresa que alimenta a
+ * su personal) y se emite UNA factura semanal o mensual por todos. El backend
+ * toma los ítems de los pedidos guardados y los marca facturados a la vez.
  */
 
-import React from 'react';
-import { MenuItem } from '../../menu/types/menu.types';
-import { Order } from '../../orders/types/order.types';
-import { FileTextIcon } from '../../../components/ui/Icons';
+import React, { useCallback, useEffect, useState } from 'react';
+import { api } from '../../../api';
+import { orderService } from '../../orders/services/OrderService';
+import { billingService } from '../services/BillingService';
+import { Order, OrderItem, OrderStatus } from '../../orders/types/order.types';
+import { BillingModal } from '../../orders/components/BillingModal';
+import { useRestaurantConfig } from '../../../contexts/RestaurantConfigContext';
+import { ClientData } from '../utils/invoiceGenerator';
+import { getPaymentEntries, summarizePayments } from '../utils/payments';
+import { modifiersKey } from '../../menu/utils/modifiers';
+import { applyOrderDiscounts } from '../../orders/utils/discounts';
+import { chargeWithTip } from '../utils/tips';
+import { lineTaxRates, withPreviewRates } from '../utils/taxRates';
+import { toast } from '../../../components/ui/AlertProvider';
+import { FileTextIcon, RefreshCcwIcon } from '../../../components/ui/Icons';
+
+/** Pedidos que se cargan por búsqueda (el backend limita a 100 por página) */
+const PAGE_SIZE = 100;
 
 interface PendingOrdersProps {
-    orders: Order[];
-    menuItems: MenuItem[];
-    onSelectOrder: (order: Order) => void;
+    /** Se llama tras emitir la factura (para refrescar el historial) */
+    onInvoiced?: () => void;
 }
 
-const PendingOrders: React.FC<PendingOrdersProps> = ({ orders, menuItems, onSelectOrder }) => {
-    if (orders.length === 0) {
-        return (
-            <div className="flex flex-col items-center justify-center py-12 px-4 text-center">
-                <div className="w-16 h-16 bg-gray-50 dark:bg-dark-700 rounded-full flex items-center justify-center mb-4">
-                    <CheckCircleIcon className="w-8 h-8 text-green-500 opacity-20" />
-                </div>
-                <h3 className="text-gray-800 dark:text-gray-200 font-bold mb-1">Sin órdenes pendientes</h3>
-                <p className="text-gray-500 dark:text-gray-400 text-sm max-w-xs">Todas las órdenes completadas han sido facturadas o no hay actividad.</p>
-            </div>
-        );
-    }
+const emptyClient: ClientData = { identification: '', name: '', email: '', address: '', phone: '', paymentMethod: '01' };
+
+const normalizeCustomer = (name?: string): string => String(name || '').trim().toUpperCase();
+
+const orderTotal = (order: Order): number =>
+    applyOrderDiscounts(order.items, order.discount).reduce((acc, i) => acc + i.total, 0);
+
+type MergedItem = OrderItem & { total: number; discountAmount: number };
+
+/**
+ * Resumen de líneas para el cobro: mismo plato, modificadores, precio e IVA en una sola línea.
+ * Los descuentos de cada pedido se aplican antes de resumir (igual que el backend).
+ */
+const mergeItems = (orders: Order[]): MergedItem[] => {
+    const lines = new Map<string, MergedItem>();
+    orders.forEach(order => applyOrderDiscounts(order.items, order.discount).forEach(item => {
+        const key = `${item.name}|${modifiersKey(item.modifiers)}|${item.price ?? 0}|${item.taxRate ?? ''}`;
+        const line = lines.get(key);
+        if (line) {
+            line.quantity += item.quantity;
+            line.total = Math.round((line.total + item.total) * 100) / 100;
+            line.discountAmount = Math.round((line.discountAmount + item.discountAmount) * 100) / 100;
+        } else {
+            lines.set(key, {
+                name: item.name, quantity: item.quantity, price: item.price, taxRate: item.taxRate, modifiers: item.modifiers,
+                total: item.total, discountAmount: item.discountAmount
+            });
+        }
+    }));
+    return Array.from(lines.values());
+};
+
+const PendingOrders: React.FC<PendingOrdersProps> = ({ onInvoiced }) => {
+    const { config } = useRestaurantConfig();
+    const [orders, setOrders] = useState<Order[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [search, setSearch] = useState('');
+    const [selected, setSelected] = useState<string[]>([]);
+    const [billingOrder, setBillingOrder] = useState<Order | null>(null);
+    const [clientData, setClientData] = useState<ClientData>(emptyClient);
+    const [searchingIdentity, setSearchingIdentity] = useState(false);
+    const [processing, setProcessing] = useState(false);
+
+    const fetchOrders = useCallback(async () => {
+        setLoading(true);
+        try {
+            const response = await orderService.getAll({
+                page: 1,
+                limit: PAGE_SIZE,
+                billed: false,
+                customerName: search.trim() || undefined,
+                sort: { createdAt: 1 }
+            });
+            const list: Order[] = response?.data?.data || response?.data || [];
+            // Cancelados y cuentas divididas no se consolidan
+            setOrders(list.filter(o => o.status !== OrderStatus.Cancelled && !o.splitBilling));
+        } catch (error: any) {
+            toast.error(error.message || 'No se pudieron cargar los pedidos');
+        } finally {
+            setLoading(false);
+        }
+    }, [search]);
+
+    useEffect(() => {
+        fetchOrders();
+    }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+    // Autocompletar datos del cliente por identificación (igual que en Pedidos)
+    useEffect(() => {
+        const ident = clientData.identification;
+        if (ident && ident.length >= 10 && ident !== '9999999999999') {
+            const timeoutId = setTimeout(async () => {
+                setSearchingIdentity(true);
+                try {
+                    const customer = await api.customers.lookupByIdentification(ident);
+                    if (customer) {
+                        setClientData(prev => ({
+                            ...prev,
+                            name: customer.name || prev.name,
+                            email: customer.email || prev.email,
+                            address: customer.address || prev.address,
+                            phone: customer.phone || prev.phone
+                        }));
+                    }
+                } catch {
+                    // Si no está en la BD local, el usuario completa manualmente
+                } finally {
+                    setSearchingIdentity(false);
+                }
+            }, 600);
+            return () => clearTimeout(timeoutId);
+        }
+    }, [clientData.identification]);
+
+    const selectedOrders = orders.filter(o => selected.includes(o.id));
+    // El primer pedido elegido fija el cliente: solo se suman pedidos del mismo
+    const selectedCustomer = selectedOrders.length > 0 ? normalizeCustomer(selectedOrders[0].customerName) : null;
+    const selectedTotal = selectedOrders.reduce((acc, o) => acc + orderTotal(o), 0);
+
+    const toggle = (order: Order) => {
+        setSelected(prev => prev.includes(order.id) ? prev.filter(id => id !== order.id) : [...prev, order.id]);
+    };
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault();
+        setSelected([]);
+        fetchOrders();
+    };
+
+    const openBilling = () => {
+        if (selectedOrders.length < 2) return;
+        setBillingOrder({
+            ...selectedOrders[0],
+            id: `consolidated-${selected.join('-')}`,
+            orderNumber: `${selectedOrders.length} pedidos`,
+            items: mergeItems(selectedOrders),
+            discount: null, // Ya repartido en las líneas resumidas
+            splitBilling: null
+        });
+        setClientData({ ...emptyClient, name: selectedOrders[0].customerName });
+    };
+
+    const handleProcess = async () => {
+        if (!clientData.identification || !clientData.name) {
+            toast.warning('Completa RUC/Cédula y Nombre del cliente.', 'Datos Incompletos');
+            return;
+        }
+        setBillingOrder(null);
+        setProcessing(true);
+        try {
+            const chargedLines = mergeItems(selectedOrders);
+            const taxPreview = config?.billing?.taxSchedule?.length ? await billingService.previewTaxRates(lineTaxRates(chargedLines)) : null;
+            const chargedTotal = chargeWithTip(withPreviewRates(chargedLines, taxPreview), clientData.tip).total;
+            const { payments } = summarizePayments(getPaymentEntries(clientData.payments, clientData.paymentMethod), chargedTotal);
+            const result = await billingService.generateConsolidated({
+                orderIds: selectedOrders.map(o => o.id),
+                client: clientData,
+                logoUrl: config?.fiscalLogo || config?.logo,
+                payments,
+                tip: clientData.tip || undefined
+            });
+
+            const sriStatus = result.authorization?.estado || result.sriResponse?.estado;
+            if (sriStatus === 'AUTORIZADO') {
+                toast.success(`Factura ${result.invoiceNumber} autorizada por ${selectedOrders.length} pedidos`);
+            } else {
+                toast.warning(`Factura ${result.invoiceNumber} enviada al SRI, aún en proceso de autorización`, 'Factura consolidada');
+            }
+            setSelected([]);
+            await fetchOrders();
+            onInvoiced?.();
+        } catch (error: any) {
+            toast.error(error.message || 'No se pudo emitir la factura consolidada');
+            // Con el SRI caído los pedidos igual quedan facturados: recargar la lista
+            await fetchOrders();
+        } finally {
+            setProcessing(false);
+        }
+    };
 
     return (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {orders.map(order => (
-                <div
-                    key={order.id}
-                    onClick={() => onSelectOrder(order)}
-                    className="group bg-white dark:bg-dark-800 border border-gray-100 dark:border-dark-700 rounded-2xl p-4 hover:shadow-xl hover:shadow-primary-500/10 hover:border-primary-300 dark:hover:border-primary-700 transition-all cursor-pointer relative overflow-hidden active:scale-[0.98]"
-                >
-                    <div className="flex justify-between items-start mb-4 relative z-10">
-                        <div>
-                            <div className="text-[10px] font-bold text-primary-600 uppercase tracking-wider mb-1">Orden #{order.orderNumber || order.id.slice(-4)}</div>
-                            <h3 className="font-bold text-gray-800 dark:text-white truncate max-w-[150px]">{order.customerName}</h3>
-                        </div>
-                        <div className="bg-primary-50 dark:bg-primary-900/20 p-2 rounded-xl text-primary-600 group-hover:bg-primary-600 group-hover:text-white transition-colors">
-                            <FileTextIcon className="w-5 h-5" />
+        <div className="bg-white dark:bg-dark-800 rounded-3xl shadow-xl shadow-black/5 border border-gray-100 dark:border-dark-700 overflow-hidden animate-slide-up">
+            <div className="flex flex-col xl:flex-row gap-3 justify-between p-4 md:p-6 border-b border-gray-100 dark:border-dark-700">
+                <form autoComplete="off" onSubmit={handleSearch} className="flex gap-2 flex-1 md:max-w-md">
+                    <input
+                        type="text"
+                        placeholder="Buscar cliente..."
+                        value={search}
+                        onChange={e => setSearch(e.target.value)}
+                        className="flex-1 rounded-2xl border border-gray-200 bg-gray-50 dark:bg-dark-800 dark:border-dark-700 px-4 py-3 text-sm outline-none focus:border-blue-500 dark:text-white"
+                    />
+                    <button type="submit" className="p-3 rounded-2xl border border-gray-100 dark:border-dark-700 text-gray-600 hover:text-blue-600" title="Buscar">
+                        <RefreshCcwIcon className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
+                    </button>
+                </form>
+                <div className="flex items-center gap-4">
+                    {selectedOrders.length > 0 && (
+                        <div className="text-right text-xs text-gray-500">
+                            <div className="font-bold text-gray-800 dark:text-white">{selectedOrders[0].customerName}</div>
+                            <div>{selectedOrders.length} pedido(s) · ${selectedTotal.toFixed(2)}</div>
                         </div>
-                    </div>
+                    )}
+                    <button
+                        type="button"
+                        onClick={openBilling}
+                        disabled={selectedOrders.length < 2 || processing || !config}
+                        title={selectedOrders.length < 2 ? 'Selecciona al menos 2 pedidos del mismo cliente' : undefined}
+                        className="flex items-center justify-center gap-2 px-5 py-3 rounded-2xl text-xs font-black uppercase tracking-wider text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                        <FileTextIcon className="w-4 h-4" />
+                        {processing ? 'Facturando...' : `Facturar seleccionados (${selectedOrders.length})`}
+                    </button>
+                </div>
+            </div>
 
-                    <div className="space-y-2 mb-4 relative z-10">
-                        <div className="flex justify-between text-xs">
-                            <span className="text-gray-500 dark:text-gray-400">Items:</span>
-                            <span className="font-medium text-gray-700 dark:text-gray-200">{order.items.reduce((acc, i) => acc + i.quantity, 0)}</span>
-                        </div>
-                        <div className="flex justify-between text-xs">
-                            <span className="text-gray-500 dark:text-gray-400">Total:</span>
-                            <span className="font-bold text-primary-600">${order.items.reduce((acc, i) => acc + (i.price * i.quantity), 0).toFixed(2)}</span>
-                        </div>
+            {!loading && orders.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-12 px-4 text-center">
+                    <div className="w-16 h-16 bg-gray-50 dark:bg-dark-700 rounded-full flex items-center justify-center mb-4">
+                        <CheckCircleIcon className="w-8 h-8 text-green-500 opacity-20" />
                     </div>
+                    <h3 className="text-gray-800 dark:text-gray-200 font-bold mb-1">Sin pedidos pendientes</h3>
+                    <p className="text-gray-500 dark:text-gray-400 text-sm max-w-xs">No hay pedidos sin facturar para consolidar.</p>
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 p-4 md:p-6">
+                    {orders.map(order => {
+                        const isSelected = selected.includes(order.id);
+                        const otherCustomer = selectedCustomer !== null && normalizeCustomer(order.customerName) !== selectedCustomer;
+                        const label = `Pedido #${order.orderNumber || order.id.slice(-4)}`;
+                        return (
+                            <label
+                                key={order.id}
+                                className={`group bg-white dark:bg-dark-800 border rounded-2xl p-4 transition-all relative overflow-hidden ${isSelected ? 'border-blue-500 shadow-xl shadow-blue-500/10' : 'border-gray-100 dark:border-dark-700'} ${otherCustomer ? 'opacity-40 cursor-not-allowed' : 'cursor-pointer hover:border-primary-300 dark:hover:border-primary-700'}`}
+                            >
+                                <div className="flex justify-between items-start mb-4 relative z-10">
+                                    <div>
+                                        <div className="text-[10px] font-bold text-primary-600 uppercase tracking-wider mb-1">{label}</div>
+                                        <h3 className="font-bold text-gray-800 dark:text-white truncate max-w-[180px]">{order.customerName}</h3>
+                                        <div className="text-[10px] text-gray-400">{new Date(order.createdAt).toLocaleDateString('es-EC')}</div>
+                                    </div>
+                                    <input
+                                        type="checkbox"
+                                        aria-label={`Seleccionar ${label}`}
+                                        checked={isSelected}
+                                        onChange={() => toggle(order)}
+                                        disabled={otherCustomer || processing}
+                                        title={otherCustomer ? 'Solo pedidos del mismo cliente' : undefined}
+                                    />
+                                </div>
 
-                    <div className="flex items-center gap-2 pt-3 border-t border-gray-50 dark:border-dark-700 relative z-10">
-                        <span className="text-[10px] px-2 py-0.5 bg-gray-100 dark:bg-dark-700 text-gray-600 dark:text-gray-400 rounded-full font-medium">
-                            {order.type}
-                        </span>
-                        <div className="flex-1"></div>
-                        <span className="text-[10px] text-primary-600 font-bold flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                            Facturar <ArrowRightIcon className="w-3 h-3" />
-                        </span>
-                    </div>
+                                <div className="space-y-2 relative z-10">
+                                    <div className="flex justify-between text-xs">
+                                        <span className="text-gray-500 dark:text-gray-400">Items:</span>
+                                        <span className="font-medium text-gray-700 dark:text-gray-200">{order.items.reduce((acc, i) => acc + i.quantity, 0)}</span>
+                                    </div>
+                                    <div className="flex justify-between text-xs">
+                                        <span className="text-gray-500 dark:text-gray-400">Total:</span>
+                                        <span className="font-bold text-primary-600">${orderTotal(order).toFixed(2)}</span>
+                                    </div>
+                                </div>
 
-                    {/* Decorative Background Element */}
-                    <div className="absolute -right-4 -bottom-4 w-24 h-24 bg-primary-500/5 rounded-full group-hover:scale-150 transition-transform duration-500"></div>
+                                <div className="flex items-center gap-2 pt-3 mt-4 border-t border-gray-50 dark:border-dark-700 relative z-10">
+                                    <span className="text-[10px] px-2 py-0.5 bg-gray-100 dark:bg-dark-700 text-gray-600 dark:text-gray-400 rounded-full font-medium">
+                                        {order.type}
+                                    </span>
+                                    <span className="text-[10px] px-2 py-0.5 bg-gray-100 dark:bg-dark-700 text-gray-600 dark:text-gray-400 rounded-full font-medium">
+                                        {order.status}
+                                    </span>
+                                </div>
+                            </label>
+                        );
+                    })}
                 </div>
-            ))}
+            )}
+
+            {billingOrder && config && (
+                <BillingModal
+                    isOpen={!!billingOrder}
+                    onClose={() => setBillingOrder(null)}
+                    config={config}
+                    billingOrder={billingOrder}
+                    billingData={clientData}
+                    setBillingData={setClientData}
+                    searchingIdentity={searchingIdentity}
+                    onProcess={handleProcess}
+                    onManualComplete={() => setBillingOrder(null)}
+                    hideManualComplete
+                />
+            )}
         </div>
     );
 };
@@ -81,10 +310,4 @@ const CheckCircleIcon = ({ className }: { className?: string }) => (
     </svg>
 );
 
-const ArrowRightIcon = ({ className }: { className?: string }) => (
-    <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor">
-        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="9 5l7 7-7 7" />
-    </svg>
-);
-
 export default PendingOrders;
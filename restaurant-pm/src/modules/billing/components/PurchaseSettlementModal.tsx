@@ -0,0 +1,190 @@
+/**
+ * @file PurchaseSettlementModal.tsx
+ * @description Captura de una liquidación de compra: datos del proveedor informal,
+ * productos comprados (precios sin IVA) y forma de pago.
+ */
+import React, { useEffect, useMemo, useState } from 'react';
+import Modal from '../../../components/ui/Modal';
+import { PlusIcon, TrashIcon } from '../../../components/ui/Icons';
+import { PurchaseSettlementDTO, PurchaseSettlementItem } from '../types/billing.types';
+import { PAYMENT_METHODS, CASH_METHOD } from '../utils/payments';
+import { PURCHASE_TAX_RATES, summarizePurchaseItems, purchaseSettlementIssues } from '../utils/purchaseSettlement';
+
+interface PurchaseSettlementModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onSubmit: (data: PurchaseSettlementDTO) => Promise<void>;
+}
+
+const inputClass = 'w-full px-4 py-2 rounded-xl border border-gray-200 dark:border-dark-600 dark:bg-dark-800 text-sm';
+const labelClass = 'block text-[10px] font-black text-gray-400 uppercase tracking-widest mb-1';
+
+const emptyItem = (): PurchaseSettlementItem => ({ description: '', quantity: 1, unitPrice: 0, taxRate: 0 });
+
+export const PurchaseSettlementModal: React.FC<PurchaseSettlementModalProps> = ({ isOpen, onClose, onSubmit }) => {
+    const [name, setName] = useState('');
+    const [identification, setIdentification] = useState('');
+    const [address, setAddress] = useState('');
+    const [phone, setPhone] = useState('');
+    const [email, setEmail] = useState('');
+    const [items, setItems] = useState<PurchaseSettlementItem[]>([emptyItem()]);
+    const [paymentMethod, setPaymentMethod] = useState(CASH_METHOD);
+    const [notes, setNotes] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setName('');
+        setIdentification('');
+        setAddress('');
+        setPhone('');
+        setEmail('');
+        setItems([emptyItem()]);
+        setPaymentMethod(CASH_METHOD);
+        setNotes('');
+    }, [isOpen]);
+
+    const data: PurchaseSettlementDTO = {
+        supplier: { name, identification, address, phone: phone || undefined, email: email || undefined },
+        items,
+        paymentMethod,
+        notes: notes || undefined
+    };
+    const totals = useMemo(() => summarizePurchaseItems(items), [items]);
+    const issues = purchaseSettlementIssues(data);
+
+    const updateItem = (index: number, patch: Partial<PurchaseSettlementItem>) =>
+        setItems(prev => prev.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+
+    const handleSubmit = async () => {
+        if (issues.length > 0) return;
+        setIsSaving(true);
+        try {
+            await onSubmit(data);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Nueva liquidación de compra" maxWidth="max-w-3xl">
+            <div className="space-y-5">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div>
+                        <label htmlFor="ps-name" className={labelClass}>Proveedor</label>
+                        <input id="ps-name" value={name} onChange={e => setName(e.target.value)} placeholder="Nombres y apellidos" className={inputClass} />
+                    </div>
+                    <div>
+                        <label htmlFor="ps-identification" className={labelClass}>Cédula / RUC / Pasaporte</label>
+                        <input id="ps-identification" value={identification} onChange={e => setIdentification(e.target.value.trim())} className={inputClass} />
+                    </div>
+                    <div className="md:col-span-2">
+                        <label htmlFor="ps-address" className={labelClass}>Dirección</label>
+                        <input id="ps-address" value={address} onChange={e => setAddress(e.target.value)} placeholder="Ej. Puerto pesquero de Anconcito" className={inputClass} />
+                    </div>
+                    <div>
+                        <label htmlFor="ps-phone" className={labelClass}>Teléfono (opcional)</label>
+                        <input id="ps-phone" value={phone} onChange={e => setPhone(e.target.value)} className={inputClass} />
+                    </div>
+                    <div>
+                        <label htmlFor="ps-email" className={labelClass}>Email (opcional)</label>
+                        <input id="ps-email" type="email" value={email} onChange={e => setEmail(e.target.value)} className={inputClass} />
+                    </div>
+                </div>
+
+                <div className="space-y-2">
+                    <span className={labelClass}>Productos (precios sin IVA)</span>
+                    {items.map((item, index) => (
+                        <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                            <input
+                                aria-label={`Descripción línea ${index + 1}`}
+                                value={item.description}
+                                onChange={e => updateItem(index, { description: e.target.value })}
+                                placeholder="Ej. Concha negra (ciento)"
+                                className={`${inputClass} col-span-5`}
+                            />
+                            <input
+                                aria-label={`Cantidad línea ${index + 1}`}
+                                type="number" min={0} step="0.001"
+                                value={item.quantity}
+                                onChange={e => updateItem(index, { quantity: Number(e.target.value) })}
+                                className={`${inputClass} col-span-2`}
+                            />
+                            <input
+                                aria-label={`Precio línea ${index + 1}`}
+                                type="number" min={0} step="0.01"
+                                value={item.unitPrice}
+                                onChange={e => updateItem(index, { unitPrice: Number(e.target.value) })}
+                                className={`${inputClass} col-span-2`}
+                            />
+                            <select
+                                aria-label={`IVA línea ${index + 1}`}
+                                value={item.taxRate}
+                                onChange={e => updateItem(index, { taxRate: Number(e.target.value) })}
+                                className={`${inputClass} col-span-2`}
+                            >
+                                {PURCHASE_TAX_RATES.map(rate => <option key={rate} value={rate}>{rate}%</option>)}
+                            </select>
+                            <button
+                                onClick={() => setItems(prev => prev.filter((_, i) => i !== index))}
+                                disabled={items.length === 1}
+                                className="col-span-1 p-2 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                                title="Quitar línea"
+                            >
+                                <TrashIcon className="w-4 h-4" />
+                            </button>
+                        </div>
+                    ))}
+                    <button
+                        onClick={() => setItems(prev => [...prev, emptyItem()])}
+                        className="flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-blue-600 hover:text-blue-700"
+                    >
+                        <PlusIcon className="w-3 h-3" /> Agregar producto
+                    </button>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div>
+                        <label htmlFor="ps-payment" className={labelClass}>Forma de pago</label>
+                        <select id="ps-payment" value={paymentMethod} onChange={e => setPaymentMethod(e.target.value)} className={inputClass}>
+                            {PAYMENT_METHODS.map(m => <option key={m.code} value={m.code}>{m.label}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="ps-notes" className={labelClass}>Observación (opcional)</label>
+                        <input id="ps-notes" value={notes} onChange={e => setNotes(e.target.value)} className={inputClass} />
+                    </div>
+                </div>
+
+                <div className="flex justify-end gap-6 text-sm font-bold text-gray-600 dark:text-gray-300">
+                    <span>Subtotal ${totals.subtotal.toFixed(2)}</span>
+                    <span>IVA ${totals.tax.toFixed(2)}</span>
+                    <span className="text-gray-900 dark:text-white">Total ${totals.total.toFixed(2)}</span>
+                </div>
+
+                {issues.length > 0 && (
+                    <ul className="text-xs text-amber-600 dark:text-amber-400 space-y-0.5">
+                        {issues.map(issue => <li key={issue}>• {issue}</li>)}
+                    </ul>
+                )}
+
+                <div className="flex gap-3 pt-2">
+                    <button
+                        onClick={onClose}
+                        disabled={isSaving}
+                        className="flex-1 px-6 py-3 rounded-2xl bg-gray-50 text-gray-500 hover:bg-gray-100 dark:bg-dark-700 dark:text-gray-400 font-black text-[10px] uppercase tracking-widest disabled:opacity-50"
+                    >
+                        Cancelar
+                    </button>
+                    <button
+                        onClick={handleSubmit}
+                        disabled={issues.length > 0 || isSaving}
+                        className="flex-1 px-6 py-3 rounded-2xl bg-blue-600 hover:bg-blue-700 text-white font-black text-[10px] uppercase tracking-widest disabled:opacity-50"
+                    >
+                        {isSaving ? 'Enviando al SRI…' : 'Emitir liquidación'}
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
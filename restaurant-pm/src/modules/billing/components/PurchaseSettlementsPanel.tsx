@@ -0,0 +1,205 @@
+/**
+ * @file PurchaseSettlementsPanel.tsx
+ * @description Pestaña "Liquidaciones" del historial de facturación: compras a
+ * proveedores informales (agricultores, pescadores) con su estado en el SRI,
+ * descarga del RIDE / XML y emisión de nuevas liquidaciones.
+ */
+import React, { useCallback, useEffect, useState } from 'react';
+import { billingService } from '../services/BillingService';
+import { PurchaseSettlement, PurchaseSettlementDTO } from '../types/billing.types';
+import { API_BASE_URL } from '../../../config/api.config';
+import { toast } from '../../../components/ui/AlertProvider';
+import {
+    PlusIcon,
+    PrinterIcon,
+    FileTextIcon,
+    RefreshCcwIcon,
+    ChevronLeftIcon,
+    ChevronRightIcon,
+} from '../../../components/ui/Icons';
+import { PurchaseSettlementModal } from './PurchaseSettlementModal';
+
+const PAGE_SIZE = 15;
+
+const statusClass = (status?: string): string => {
+    if (status === 'AUTORIZADO') return 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400';
+    if (status === 'DEVUELTA' || status === 'NO AUTORIZADO' || status === 'ERROR') return 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400';
+    return 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400';
+};
+
+const PurchaseSettlementsPanel: React.FC = () => {
+    const [settlements, setSettlements] = useState<PurchaseSettlement[]>([]);
+    const [page, setPage] = useState(1);
+    const [totalPages, setTotalPages] = useState(1);
+    const [search, setSearch] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [checkingId, setCheckingId] = useState<string | null>(null);
+    const [isFormOpen, setIsFormOpen] = useState(false);
+
+    const fetchSettlements = useCallback(async () => {
+        setLoading(true);
+        try {
+            const response = await billingService.getPurchaseSettlements({
+                page,
+                limit: PAGE_SIZE,
+                supplierIdentification: search.trim() || undefined
+            });
+            setSettlements(response.data);
+            setTotalPages(response.pagination?.totalPages || 1);
+        } catch (error: any) {
+            toast.error(error.message || 'No se pudieron cargar las liquidaciones');
+        } finally {
+            setLoading(false);
+        }
+    }, [page]); // eslint-disable-line react-hooks/exhaustive-deps
+
+    useEffect(() => {
+        fetchSettlements();
+    }, [fetchSettlements]);
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (page !== 1) setPage(1);
+        else fetchSettlements();
+    };
+
+    const handleCreate = async (data: PurchaseSettlementDTO) => {
+        try {
+            const { settlement } = await billingService.createPurchaseSettlement(data);
+            if (settlement.sriStatus === 'AUTORIZADO') {
+                toast.success(`Liquidación ${settlement.documentNumber} autorizada`);
+            } else {
+                toast.warning(settlement.sriMessage || 'El SRI aún no autoriza la liquidación', settlement.sriStatus);
+            }
+            setIsFormOpen(false);
+            fetchSettlements();
+        } catch (error: any) {
+            toast.error(error.message || 'No se pudo emitir la liquidación');
+        }
+    };
+
+    const handleCheckStatus = async (settlement: PurchaseSettlement) => {
+        setCheckingId(settlement.id);
+        try {
+            const updated = await billingService.checkPurchaseSettlementStatus(settlement.id);
+            setSettlements(prev => prev.map(s => (s.id === updated.id ? updated : s)));
+            if (updated.sriStatus === 'AUTORIZADO') toast.success(`Liquidación ${updated.documentNumber} autorizada`);
+            else toast.warning(updated.sriMessage || 'Aún sin autorización', updated.sriStatus);
+        } catch (error: any) {
+            toast.error(error.message || 'No se pudo consultar el SRI');
+        } finally {
+            setCheckingId(null);
+        }
+    };
+
+    return (
+        <div className="bg-white dark:bg-dark-800 rounded-3xl shadow-xl shadow-black/5 border border-gray-100 dark:border-dark-700 overflow-hidden animate-slide-up">
+            <div className="flex flex-col md:flex-row gap-3 justify-between p-4 md:p-6 border-b border-gray-100 dark:border-dark-700">
+                <form autoComplete="off" onSubmit={handleSearch} className="flex gap-2 flex-1 md:max-w-md">
+                    <input
+                        type="text"
+                        placeholder="Cédula / RUC del proveedor..."
+                        value={search}
+                        onChange={e => setSearch(e.target.value)}
+                        className="flex-1 rounded-2xl border border-gray-200 bg-gray-50 dark:bg-dark-800 dark:border-dark-700 px-4 py-3 text-sm outline-none focus:border-blue-500 dark:text-white"
+                    />
+                    <button type="button" onClick={fetchSettlements} className="p-3 rounded-2xl border border-gray-100 dark:border-dark-700 text-gray-600 hover:text-blue-600" title="Actualizar">
+                        <RefreshCcwIcon className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
+                    </button>
+                </form>
+                <button
+                    onClick={() => setIsFormOpen(true)}
+                    className="flex items-center justify-center gap-2 px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white text-[10px] font-black uppercase tracking-widest rounded-2xl shadow-lg shadow-blue-500/20 transition-all active:scale-95"
+                >
+                    <PlusIcon className="w-4 h-4" /> Nueva liquidación
+                </button>
+            </div>
+
+            <div className="overflow-x-auto custom-scroll">
+                <table className="w-full text-left">
+                    <thead>
+                        <tr className="bg-gray-50/50 dark:bg-dark-750/50 text-[10px] font-black text-gray-400 uppercase tracking-widest">
+                            <th className="px-6 py-4">Número</th>
+                            <th className="px-6 py-4">Fecha</th>
+                            <th className="px-6 py-4">Proveedor</th>
+                            <th className="px-6 py-4 text-right">Total</th>
+                            <th className="px-6 py-4">Estado SRI</th>
+                            <th className="px-6 py-4 text-right">Acciones</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100 dark:divide-dark-700">
+                        {!loading && settlements.length === 0 && (
+                            <tr>
+                                <td colSpan={6} className="px-6 py-12 text-center text-sm text-gray-400">
+                                    No hay liquidaciones de compra registradas
+                                </td>
+                            </tr>
+                        )}
+                        {settlements.map(s => (
+                            <tr key={s.id} className="text-sm text-gray-700 dark:text-gray-300">
+                                <td className="px-6 py-4 font-mono font-bold">{s.documentNumber}</td>
+                                <td className="px-6 py-4">{new Date(s.date).toLocaleDateString('es-EC')}</td>
+                                <td className="px-6 py-4">
+                                    <div className="font-bold">{s.supplier.name}</div>
+                                    <div className="text-xs text-gray-400">{s.supplier.identification}</div>
+                                </td>
+                                <td className="px-6 py-4 text-right font-bold">${s.total.toFixed(2)}</td>
+                                <td className="px-6 py-4">
+                                    <span className={`text-[9px] font-black px-2.5 py-1 rounded-lg uppercase ${statusClass(s.sriStatus)}`} title={s.sriMessage}>
+                                        {s.sriStatus || 'PENDIENTE'}
+                                    </span>
+                                </td>
+                                <td className="px-6 py-4">
+                                    <div className="flex justify-end gap-1">
+                                        {s.sriStatus !== 'AUTORIZADO' && (
+                                            <button
+                                                onClick={() => handleCheckStatus(s)}
+                                                disabled={checkingId === s.id}
+                                                className="p-2 text-gray-400 hover:text-amber-600 disabled:opacity-50"
+                                                title="Verificar en el SRI"
+                                            >
+                                                <RefreshCcwIcon className={`w-4 h-4 ${checkingId === s.id ? 'animate-spin' : ''}`} />
+                                            </button>
+                                        )}
+                                        <button
+                                            onClick={() => window.open(`${API_BASE_URL}/purchase-settlements/${s.id}/pdf`, '_blank')}
+                                            className="p-2 text-gray-400 hover:text-blue-600"
+                                            title="RIDE (PDF)"
+                                        >
+                                            <PrinterIcon className="w-4 h-4" />
+                                        </button>
+                                        {s.accessKey && (
+                                            <button
+                                                onClick={() => window.open(`${API_BASE_URL}/purchase-settlements/${s.id}/xml`, '_blank')}
+                                                className="p-2 text-gray-400 hover:text-blue-600"
+                                                title="XML firmado"
+                                            >
+                                                <FileTextIcon className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                    </div>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            {totalPages > 1 && (
+                <div className="flex items-center justify-center gap-3 px-6 py-5 border-t border-gray-100 dark:border-dark-700">
+                    <button onClick={() => setPage(p => Math.max(1, p - 1))} disabled={page === 1} className="p-2 rounded-xl text-gray-500 disabled:opacity-30">
+                        <ChevronLeftIcon className="w-4 h-4" />
+                    </button>
+                    <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Página {page} de {totalPages}</span>
+                    <button onClick={() => setPage(p => Math.min(totalPages, p + 1))} disabled={page === totalPages} className="p-2 rounded-xl text-gray-500 disabled:opacity-30">
+                        <ChevronRightIcon className="w-4 h-4" />
+                    </button>
+                </div>
+            )}
+
+            <PurchaseSettlementModal isOpen={isFormOpen} onClose={() => setIsFormOpen(false)} onSubmit={handleCreate} />
+        </div>
+    );
+};
+
+export default PurchaseSettlementsPanel;
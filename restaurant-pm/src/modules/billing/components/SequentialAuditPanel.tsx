@@ -0,0 +1,203 @@
+/**
+ * @file SequentialAuditPanel.tsx
+ * @description Pestaña "Secuenciales" del historial de facturación (solo Administrador):
+ * huecos, duplicados y desfase de contadores de facturas y notas de crédito por
+ * ambiente, establecimiento y punto de emisión, con reparaciones guiadas. Cada
+ * reparación pide un motivo y queda en el log de auditoría.
+ */
+import React, { useCallback, useEffect, useState } from 'react';
+import { billingService } from '../services/BillingService';
+import { SequentialAuditReport, SequentialRepairSuggestion, SequentialSeriesReport } from '../types/billing.types';
+import { toast } from '../../../components/ui/AlertProvider';
+import { RefreshCcwIcon, ShieldCheckIcon } from '../../../components/ui/Icons';
+
+const DOCUMENT_LABEL: Record<string, string> = { factura: 'Facturas', notaCredito: 'Notas de crédito' };
+const ENVIRONMENT_LABEL: Record<string, string> = { '1': 'Pruebas', '2': 'Producción' };
+
+const COUNTER_STATUS_LABEL: Record<string, string> = {
+    OK: 'Al día',
+    BEHIND: 'Atrasado: repetiría números ya emitidos',
+    COLLISION: 'El siguiente número ya está ocupado',
+    AHEAD: 'Adelantado: hay números consumidos sin documento'
+};
+
+const statusClass = (status: SequentialSeriesReport['status']): string => {
+    if (status === 'OK') return 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400';
+    if (status === 'FAIL') return 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400';
+    return 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400';
+};
+
+const repairKey = (r: SequentialRepairSuggestion) => `${r.seriesKey}:${r.action}:${r.documentId || ''}:${r.from ?? ''}`;
+
+const SequentialAuditPanel: React.FC = () => {
+    const [report, setReport] = useState<SequentialAuditReport | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [selectedRepair, setSelectedRepair] = useState<SequentialRepairSuggestion | null>(null);
+    const [reason, setReason] = useState('');
+    const [applying, setApplying] = useState(false);
+
+    const fetchAudit = useCallback(async () => {
+        setLoading(true);
+        try {
+            setReport(await billingService.getSequentialAudit());
+        } catch (error: any) {
+            toast.error(error.message || 'No se pudo auditar los secuenciales');
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchAudit();
+    }, [fetchAudit]);
+
+    const selectRepair = (repair: SequentialRepairSuggestion) => {
+        setSelectedRepair(repair);
+        setReason('');
+    };
+
+    const handleApply = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!selectedRepair) return;
+        setApplying(true);
+        try {
+            const result = await billingService.repairSequential(selectedRepair, reason.trim());
+            setReport(result.report);
+            setSelectedRepair(null);
+            toast.success('Reparación aplicada y registrada en el log de auditoría');
+        } catch (error: any) {
+            toast.error(error.message || 'No se pudo aplicar la reparación');
+        } finally {
+            setApplying(false);
+        }
+    };
+
+    return (
+        <div className="bg-white dark:bg-dark-800 rounded-3xl shadow-xl shadow-black/5 border border-gray-100 dark:border-dark-700 overflow-hidden animate-slide-up">
+            <div className="flex flex-col md:flex-row gap-3 justify-between p-4 md:p-6 border-b border-gray-100 dark:border-dark-700">
+                <div>
+                    <h3 className="text-sm font-black text-gray-800 dark:text-white uppercase tracking-wider">Auditoría de secuenciales</h3>
+                    {report && (
+                        <p className="text-xs text-gray-400 mt-1">
+                            Ambiente activo: {ENVIRONMENT_LABEL[report.activeEnvironment]} · Serie configurada {report.establishment}-{report.emissionPoint} ·{' '}
+                            {report.summary.failing} con errores, {report.summary.warnings} con advertencias
+                        </p>
+                    )}
+                </div>
+                <button type="button" onClick={fetchAudit} className="self-start p-3 rounded-2xl border border-gray-100 dark:border-dark-700 text-gray-600 hover:text-blue-600" title="Volver a auditar">
+                    <RefreshCcwIcon className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
+                </button>
+            </div>
+
+            <div className="p-4 md:p-6 space-y-4">
+                {!loading && report && report.series.length === 0 && (
+                    <p className="text-center text-sm text-gray-400 py-8">No hay facturas ni notas de crédito para auditar</p>
+                )}
+
+                {report?.series.map(series => (
+                    <div key={series.key} className="rounded-2xl border border-gray-100 dark:border-dark-700 p-4">
+                        <div className="flex flex-wrap items-center gap-2 justify-between">
+                            <div className="font-bold text-sm text-gray-800 dark:text-white">
+                                {DOCUMENT_LABEL[series.documentType]} · {ENVIRONMENT_LABEL[series.environment]} ·{' '}
+                                <span className="font-mono">{series.establishment}-{series.emissionPoint}</span>
+                            </div>
+                            <span className={`text-[9px] font-black px-2.5 py-1 rounded-lg uppercase ${statusClass(series.status)}`}>{series.status}</span>
+                        </div>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                            {series.documentCount} documentos{series.documentCount > 0 && ` · del ${series.first} al ${series.last}`}
+                        </p>
+
+                        <ul className="mt-3 space-y-1 text-xs text-gray-600 dark:text-gray-300">
+                            {series.gaps.map(gap => (
+                                <li key={`gap-${gap.from}`}>
+                                    {gap.count === 1 ? `Falta el ${gap.from}` : `Faltan del ${gap.from} al ${gap.to} (${gap.count})`}
+                                    {gap.acknowledged && <span className="text-gray-400"> — justificado: {gap.acknowledgedReason}</span>}
+                                </li>
+                            ))}
+                            {series.duplicates.map(dup => (
+                                <li key={`dup-${dup.secuencial}`} className="text-red-600 dark:text-red-400">
+                                    Número {dup.secuencial} repetido: {dup.documents.map(d => `${d.documentNumber} (${d.sriStatus || 'sin estado'})`).join(', ')}
+                                </li>
+                            ))}
+                            {series.counter && (
+                                <li className={series.counter.status === 'OK' ? '' : 'text-amber-600 dark:text-amber-400'}>
+                                    Contador {series.counter.field}: {series.counter.counter} (último emitido {series.counter.maxIssued}) — {COUNTER_STATUS_LABEL[series.counter.status]}
+                                    {series.counter.nextTakenBy && ` (${series.counter.nextNumber} lo tiene ${series.counter.nextTakenBy.documentNumber})`}
+                                </li>
+                            )}
+                        </ul>
+
+                        {series.repairs.length > 0 && (
+                            <div className="mt-3 flex flex-wrap gap-2">
+                                {series.repairs.map(repair => (
+                                    <button
+                                        key={repairKey(repair)}
+                                        type="button"
+                                        onClick={() => selectRepair(repair)}
+                                        className={`flex items-center gap-1.5 px-3 py-1.5 rounded-xl text-xs font-bold border transition-colors ${
+                                            selectedRepair && repairKey(selectedRepair) === repairKey(repair)
+                                                ? 'border-indigo-500 text-indigo-600 bg-indigo-50 dark:bg-indigo-900/20'
+                                                : 'border-gray-200 dark:border-dark-600 text-gray-600 dark:text-gray-300 hover:border-indigo-400'
+                                        }`}
+                                    >
+                                        <ShieldCheckIcon className="w-3.5 h-3.5" />
+                                        {repair.label}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+
+                        {selectedRepair?.seriesKey === series.key && (
+                            <form autoComplete="off" onSubmit={handleApply} className="mt-3 flex flex-col sm:flex-row gap-2">
+                                <input
+                                    type="text"
+                                    placeholder="Motivo (queda en el log de auditoría)"
+                                    value={reason}
+                                    onChange={e => setReason(e.target.value)}
+                                    className="flex-1 rounded-xl border border-gray-200 bg-gray-50 dark:bg-dark-800 dark:border-dark-700 px-3 py-2 text-sm outline-none focus:border-indigo-500 dark:text-white"
+                                />
+                                <button
+                                    type="submit"
+                                    disabled={applying || reason.trim().length < 5}
+                                    className="px-4 py-2 rounded-xl bg-indigo-600 text-white text-xs font-black uppercase tracking-wider disabled:opacity-50"
+                                >
+                                    {applying ? 'Aplicando...' : 'Aplicar reparación'}
+                                </button>
+                                <button type="button" onClick={() => setSelectedRepair(null)} className="px-4 py-2 rounded-xl text-xs font-bold text-gray-500">
+                                    Cancelar
+                                </button>
+                            </form>
+                        )}
+                    </div>
+                ))}
+
+                {report && report.unclassified.length > 0 && (
+                    <div className="rounded-2xl border border-amber-200 dark:border-amber-900/40 p-4 text-xs text-amber-700 dark:text-amber-400">
+                        <div className="font-bold mb-1">Documentos sin serie ({report.unclassified.length})</div>
+                        <ul className="space-y-1">
+                            {report.unclassified.map(u => (
+                                <li key={u.document.id}>{u.document.documentNumber || u.document.id}: {u.reason}</li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
+                {report && report.history.length > 0 && (
+                    <div className="rounded-2xl bg-gray-50 dark:bg-dark-750/50 p-4">
+                        <div className="text-[10px] font-black text-gray-400 uppercase tracking-widest mb-2">Reparaciones registradas</div>
+                        <ul className="space-y-1 text-xs text-gray-600 dark:text-gray-300">
+                            {report.history.slice(0, 10).map(record => (
+                                <li key={`${record.seriesKey}-${record.timestamp}`}>
+                                    {new Date(record.timestamp).toLocaleString('es-EC')} · {record.seriesKey} · {record.repair}
+                                    {record.userEmail && ` · ${record.userEmail}`} — {record.reason}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default SequentialAuditPanel;
@@ -0,0 +1,291 @@
+/**
+ * @file WithholdingModal.tsx
+ * @description Retenciones que el cliente hizo sobre una factura: lista las
+ * registradas, importa el XML que envía el agente de retención o permite
+ * digitarla a mano, y muestra el valor neto a cobrar.
+ */
+import React, { useEffect, useState } from 'react';
+import Modal from '../../../components/ui/Modal';
+import { PlusIcon, TrashIcon } from '../../../components/ui/Icons';
+import { toast } from '../../../components/ui/AlertProvider';
+import { billingService } from '../services/BillingService';
+import { Bill, Withholding, WithholdingDTO, WithholdingLine } from '../types/billing.types';
+import { IVA_WITHHOLDING_CODES, withholdingLineAmount, withholdingIssues } from '../utils/withholding';
+
+interface WithholdingModalProps {
+    bill: Bill;
+    isOpen: boolean;
+    onClose: () => void;
+    /** Se registró o eliminó una retención: recargar la factura */
+    onChanged: () => void;
+}
+
+type Mode = 'xml' | 'manual';
+
+const inputClass = 'w-full px-4 py-2 rounded-xl border border-gray-200 dark:border-dark-600 dark:bg-dark-800 text-sm';
+const labelClass = 'block text-[10px] font-black text-gray-400 uppercase tracking-widest mb-1';
+
+const today = (): string => new Date().toLocaleDateString('en-CA', { timeZone: 'America/Guayaquil' });
+
+export const WithholdingModal: React.FC<WithholdingModalProps> = ({ bill, isOpen, onClose, onChanged }) => {
+    const emptyLine = (): WithholdingLine => ({ taxType: 'IVA', code: IVA_WITHHOLDING_CODES[30], baseAmount: bill.tax, percentage: 30, amount: 0 });
+
+    const [withholdings, setWithholdings] = useState<Withholding[]>([]);
+    const [mode, setMode] = useState<Mode>('xml');
+    const [xmlFile, setXmlFile] = useState<File | null>(null);
+    const [documentNumber, setDocumentNumber] = useState('');
+    const [issueDate, setIssueDate] = useState(today());
+    const [lines, setLines] = useState<WithholdingLine[]>([emptyLine()]);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const fetchWithholdings = async () => {
+        try {
+            const response = await billingService.getWithholdings(bill.id);
+            setWithholdings(response.data);
+        } catch (error: any) {
+            toast.error(error.message || 'No se pudieron cargar las retenciones');
+        }
+    };
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setMode('xml');
+        setXmlFile(null);
+        setDocumentNumber('');
+        setIssueDate(today());
+        setLines([emptyLine()]);
+        fetchWithholdings();
+    }, [isOpen, bill.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+    const withheld = withholdings.reduce((sum, w) => sum + w.totalWithheld, 0);
+    const registered = {
+        withheldIva: withholdings.reduce((sum, w) => sum + w.ivaWithheld, 0),
+        withheldRenta: withholdings.reduce((sum, w) => sum + w.rentaWithheld, 0)
+    };
+
+    const data: WithholdingDTO = {
+        billId: bill.id,
+        documentNumber: documentNumber.trim(),
+        issueDate,
+        lines: lines.map(line => ({ ...line, amount: withholdingLineAmount(line) }))
+    };
+    const issues = mode === 'manual' ? withholdingIssues(data, { tax: bill.tax, total: bill.total, ...registered }) : [];
+
+    const updateLine = (index: number, patch: Partial<WithholdingLine>) =>
+        setLines(prev => prev.map((line, i) => {
+            if (i !== index) return line;
+            const next = { ...line, ...patch };
+            // El código de IVA se deriva del porcentaje; el de renta lo digita el usuario
+            if (next.taxType === 'IVA') next.code = IVA_WITHHOLDING_CODES[next.percentage] || '';
+            return next;
+        }));
+
+    const handleSubmit = async () => {
+        setIsSaving(true);
+        try {
+            const withholding = mode === 'xml'
+                ? await billingService.importWithholdingXml(await xmlFile!.text())
+                : await billingService.createWithholding(data);
+            if (withholding.billId !== bill.id) {
+                toast.warning(`La retención se registró en la factura ${withholding.billDocumentNumber}`, 'Otra factura');
+            } else {
+                toast.success(`Retención ${withholding.documentNumber} registrada`);
+            }
+            setXmlFile(null);
+            setDocumentNumber('');
+            setLines([emptyLine()]);
+            await fetchWithholdings();
+            onChanged();
+        } catch (error: any) {
+            toast.error(error.message || 'No se pudo registrar la retención');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (withholding: Withholding) => {
+        try {
+            await billingService.deleteWithholding(withholding.id);
+            toast.success(`Retención ${withholding.documentNumber} eliminada`);
+            await fetchWithholdings();
+            onChanged();
+        } catch (error: any) {
+            toast.error(error.message || 'No se pudo eliminar la retención');
+        }
+    };
+
+    const canSubmit = mode === 'xml' ? !!xmlFile : issues.length === 0;
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={`Retenciones · Factura ${bill.documentNumber}`} maxWidth="max-w-3xl">
+            <div className="space-y-5">
+                <div className="rounded-2xl bg-gray-50 dark:bg-dark-750 p-4 text-sm text-gray-600 dark:text-gray-300 flex justify-between gap-4">
+                    <div>
+                        <div className="font-bold text-gray-900 dark:text-white">{bill.customerName}</div>
+                        <div className="text-xs">{bill.customerIdentification} · IVA ${bill.tax.toFixed(2)}</div>
+                    </div>
+                    <div className="text-right text-xs space-y-0.5">
+                        <div>Total ${bill.total.toFixed(2)}</div>
+                        <div>Retenido ${withheld.toFixed(2)}</div>
+                        <div className="font-black text-gray-900 dark:text-white">Neto a cobrar ${(bill.total - withheld).toFixed(2)}</div>
+                    </div>
+                </div>
+
+                {withholdings.length > 0 && (
+                    <div className="space-y-2">
+                        <span className={labelClass}>Registradas</span>
+                        {withholdings.map(w => (
+                            <div key={w.id} className="flex items-center justify-between gap-3 rounded-xl border border-gray-100 dark:border-dark-700 px-4 py-2 text-xs">
+                                <div>
+                                    <div className="font-bold text-gray-800 dark:text-gray-200">{w.documentNumber} · {new Date(w.issueDate).toLocaleDateString('es-EC')}</div>
+                                    <div className="text-gray-500">
+                                        {w.lines.map(l => `${l.taxType} ${l.percentage}% $${l.amount.toFixed(2)}`).join(' · ')}
+                                        {w.source === 'xml' ? ' · XML' : ' · manual'}
+                                    </div>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <span className="font-black text-gray-800 dark:text-gray-200">${w.totalWithheld.toFixed(2)}</span>
+                                    <button onClick={() => handleDelete(w)} className="p-1.5 text-gray-400 hover:text-red-600" title="Eliminar retención">
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <div className="flex gap-2">
+                    {(['xml', 'manual'] as Mode[]).map(m => (
+                        <button
+                            key={m}
+                            onClick={() => setMode(m)}
+                            className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest ${mode === m ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-500 dark:bg-dark-700 dark:text-gray-400'}`}
+                        >
+                            {m === 'xml' ? 'Importar XML' : 'Ingreso manual'}
+                        </button>
+                    ))}
+                </div>
+
+                {mode === 'xml' ? (
+                    <div>
+                        <label htmlFor="wh-xml" className={labelClass}>XML de la retención (comprobante o autorización)</label>
+                        <input
+                            id="wh-xml"
+                            type="file"
+                            accept=".xml,text/xml,application/xml"
+                            onChange={e => setXmlFile(e.target.files?.[0] || null)}
+                            className={inputClass}
+                        />
+                        <p className="mt-1 text-[11px] text-gray-400">La retención se enlaza a la factura que indica el XML.</p>
+                    </div>
+                ) : (
+                    <div className="space-y-3">
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label htmlFor="wh-number" className={labelClass}>Número de retención</label>
+                                <input id="wh-number" value={documentNumber} onChange={e => setDocumentNumber(e.target.value)} placeholder="001-001-000000001" className={inputClass} />
+                            </div>
+                            <div>
+                                <label htmlFor="wh-date" className={labelClass}>Fecha de emisión</label>
+                                <input id="wh-date" type="date" value={issueDate} onChange={e => setIssueDate(e.target.value)} className={inputClass} />
+                            </div>
+                        </div>
+
+                        <span className={labelClass}>Impuestos retenidos</span>
+                        {lines.map((line, index) => (
+                            <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                                <select
+                                    aria-label={`Impuesto línea ${index + 1}`}
+                                    value={line.taxType}
+                                    onChange={e => {
+                                        const taxType = e.target.value as WithholdingLine['taxType'];
+                                        updateLine(index, taxType === 'IVA'
+                                            ? { taxType, baseAmount: bill.tax, percentage: 30 }
+                                            : { taxType, code: '', baseAmount: bill.subtotal, percentage: 1 });
+                                    }}
+                                    className={`${inputClass} col-span-2`}
+                                >
+                                    <option value="IVA">IVA</option>
+                                    <option value="RENTA">Renta</option>
+                                </select>
+                                <input
+                                    aria-label={`Código línea ${index + 1}`}
+                                    value={line.code}
+                                    onChange={e => updateLine(index, { code: e.target.value })}
+                                    disabled={line.taxType === 'IVA'}
+                                    placeholder="Código"
+                                    className={`${inputClass} col-span-2`}
+                                />
+                                <input
+                                    aria-label={`Base línea ${index + 1}`}
+                                    type="number" min={0} step="0.01"
+                                    value={line.baseAmount}
+                                    onChange={e => updateLine(index, { baseAmount: Number(e.target.value) })}
+                                    className={`${inputClass} col-span-3`}
+                                />
+                                {line.taxType === 'IVA' ? (
+                                    <select
+                                        aria-label={`Porcentaje línea ${index + 1}`}
+                                        value={line.percentage}
+                                        onChange={e => updateLine(index, { percentage: Number(e.target.value) })}
+                                        className={`${inputClass} col-span-2`}
+                                    >
+                                        {Object.keys(IVA_WITHHOLDING_CODES).map(pct => <option key={pct} value={pct}>{pct}%</option>)}
+                                    </select>
+                                ) : (
+                                    <input
+                                        aria-label={`Porcentaje línea ${index + 1}`}
+                                        type="number" min={0} max={100} step="0.01"
+                                        value={line.percentage}
+                                        onChange={e => updateLine(index, { percentage: Number(e.target.value) })}
+                                        className={`${inputClass} col-span-2`}
+                                    />
+                                )}
+                                <span className="col-span-2 text-right text-sm font-bold text-gray-700 dark:text-gray-300">
+                                    ${withholdingLineAmount(line).toFixed(2)}
+                                </span>
+                                <button
+                                    onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}
+                                    disabled={lines.length === 1}
+                                    className="col-span-1 p-2 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                                    title="Quitar línea"
+                                >
+                                    <TrashIcon className="w-4 h-4" />
+                                </button>
+                            </div>
+                        ))}
+                        <button
+                            onClick={() => setLines(prev => [...prev, { taxType: 'RENTA', code: '', baseAmount: bill.subtotal, percentage: 1, amount: 0 }])}
+                            className="flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-blue-600 hover:text-blue-700"
+                        >
+                            <PlusIcon className="w-3 h-3" /> Agregar impuesto
+                        </button>
+
+                        {issues.length > 0 && (
+                            <ul className="text-xs text-amber-600 dark:text-amber-400 space-y-0.5">
+                                {issues.map(issue => <li key={issue}>• {issue}</li>)}
+                            </ul>
+                        )}
+                    </div>
+                )}
+
+                <div className="flex gap-3 pt-2">
+                    <button
+                        onClick={onClose}
+                        disabled={isSaving}
+                        className="flex-1 px-6 py-3 rounded-2xl bg-gray-50 text-gray-500 hover:bg-gray-100 dark:bg-dark-700 dark:text-gray-400 font-black text-[10px] uppercase tracking-widest disabled:opacity-50"
+                    >
+                        Cerrar
+                    </button>
+                    <button
+                        onClick={handleSubmit}
+                        disabled={!canSubmit || isSaving}
+                        className="flex-1 px-6 py-3 rounded-2xl bg-blue-600 hover:bg-blue-700 text-white font-black text-[10px] uppercase tracking-widest disabled:opacity-50"
+                    >
+                        {isSaving ? 'Registrando…' : mode === 'xml' ? 'Importar retención' : 'Registrar retención'}
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
@@ -1,26 +1,127 @@
-import React from 'react';
-import { RefreshCcwIcon, FileTextIcon } from '../../../components/ui/Icons';
+import React, { useEffect, useState } from 'react';
+import { RefreshCcwIcon, FileTextIcon, ShieldCheckIcon } from '../../../components/ui/Icons';
+import { billingService } from '../services/BillingService';
+import { DocumentVerificationReport, VerificationStatus, VerificationVerdict } from '../types/billing.types';
+import { toast } from '../../../components/ui/AlertProvider';
 
 interface XMLViewerModalProps {
     isOpen: boolean;
     onClose: () => void;
     xmlContent: string;
     documentNumber?: string;
+    /** Factura cuyo XML guardado se puede verificar en el backend */
+    billId?: string;
 }
 
+const STATUS_STYLES: Record<VerificationStatus, { icon: string; className: string }> = {
+    OK: { icon: '✓', className: 'text-green-600 dark:text-green-400' },
+    WARN: { icon: '!', className: 'text-amber-600 dark:text-amber-400' },
+    FAIL: { icon: '✗', className: 'text-red-600 dark:text-red-400' },
+    NOT_VERIFIED: { icon: '?', className: 'text-amber-600 dark:text-amber-400' }
+};
+
+const VERDICT_STYLES: Record<VerificationVerdict, { title: string; panel: string; text: string }> = {
+    VALID: {
+        title: 'Firma y comprobante válidos',
+        panel: 'bg-green-50/70 dark:bg-green-900/10 border-green-100 dark:border-green-900/30',
+        text: 'text-green-700 dark:text-green-400'
+    },
+    INVALID: {
+        title: 'El comprobante no superó la verificación',
+        panel: 'bg-red-50/70 dark:bg-red-900/10 border-red-100 dark:border-red-900/30',
+        text: 'text-red-700 dark:text-red-400'
+    },
+    NOT_VERIFIED: {
+        title: 'Comprobante sin verificar',
+        panel: 'bg-amber-50/70 dark:bg-amber-900/10 border-amber-100 dark:border-amber-900/30',
+        text: 'text-amber-700 dark:text-amber-400'
+    }
+};
+
+const VerificationReportPanel: React.FC<{ report: DocumentVerificationReport }> = ({ report }) => (
+    <div className={`px-6 py-4 border-b ${VERDICT_STYLES[report.verdict].panel}`}>
+        <div className="flex flex-wrap items-baseline justify-between gap-2 mb-2">
+            <p className={`text-sm font-black ${VERDICT_STYLES[report.verdict].text}`}>
+                {VERDICT_STYLES[report.verdict].title}
+            </p>
+            <p className="text-[10px] text-gray-500 dark:text-gray-400 font-mono">
+                {report.documentType} {report.documentNumber}
+                {report.authorization && ` · SRI: ${report.authorization.estado}`}
+            </p>
+        </div>
+        {report.signer && (
+            <p className="text-[10px] text-gray-500 dark:text-gray-400 mb-2 break-all">
+                Firmado por <span className="font-bold">{report.signer.subject}</span>
+                {report.signingTime && ` el ${report.signingTime}`} · Emisor: {report.signer.issuer}
+            </p>
+        )}
+        <ul className="space-y-1">
+            {report.checks.map(check => (
+                <li key={check.id} className="text-xs flex gap-2">
+                    <span className={`font-black w-3 shrink-0 ${STATUS_STYLES[check.status].className}`}>
+                        {STATUS_STYLES[check.status].icon}
+                    </span>
+                    <span>
+                        <span className="font-bold text-gray-800 dark:text-gray-200">{check.label}:</span>{' '}
+                        <span className="text-gray-600 dark:text-gray-400">{check.detail}</span>
+                    </span>
+                </li>
+            ))}
+        </ul>
+    </div>
+);
+
 export const XMLViewerModal: React.FC<XMLViewerModalProps> = ({ 
     isOpen, 
     onClose, 
     xmlContent, 
-    documentNumber 
+    documentNumber,
+    billId
 }) => {
+    const [report, setReport] = useState<DocumentVerificationReport | null>(null);
+    const [verifying, setVerifying] = useState(false);
+    // XML subido por el usuario: reemplaza al guardado mientras el visor está abierto
+    const [uploaded, setUploaded] = useState<{ name: string; xml: string } | null>(null);
+
+    useEffect(() => {
+        setReport(null);
+        setUploaded(null);
+    }, [isOpen, billId]);
+
     if (!isOpen) return null;
 
+    const displayedXml = uploaded?.xml ?? xmlContent;
+
     const handleCopy = () => {
-        navigator.clipboard.writeText(xmlContent);
+        navigator.clipboard.writeText(displayedXml);
         alert('XML copiado al portapapeles');
     };
 
+    const runVerification = async (verify: () => Promise<DocumentVerificationReport>) => {
+        setVerifying(true);
+        try {
+            setReport(await verify());
+        } catch (error: any) {
+            setReport(null);
+            toast.error(error.message || 'No se pudo verificar el comprobante');
+        } finally {
+            setVerifying(false);
+        }
+    };
+
+    const handleVerifyStored = () => {
+        if (!billId) return;
+        setUploaded(null);
+        runVerification(() => billingService.verifyBillSignature(billId));
+    };
+
+    const handleUpload = async (file: File | undefined) => {
+        if (!file) return;
+        const xml = await file.text();
+        setUploaded({ name: file.name, xml });
+        runVerification(() => billingService.verifyDocumentXml(xml));
+    };
+
     // Helper to format XML for display
     const formatXML = (xml: string) => {
         if (!xml) return '';
@@ -41,9 +142,34 @@ export const XMLViewerModal: React.FC<XMLViewerModalProps> = ({
                 <div className="px-6 py-4 border-b border-gray-100 dark:border-dark-700 flex items-center justify-between bg-gray-50/50 dark:bg-dark-900/50">
                     <div>
                         <h3 className="text-lg font-bold text-gray-900 dark:text-white"> Visor de XML Técnico</h3>
-                        <p className="text-xs text-gray-500 dark:text-gray-400">Verificando datos para: {documentNumber || 'Factura'}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {uploaded ? `Archivo subido: ${uploaded.name}` : `Verificando datos para: ${documentNumber || 'Factura'}`}
+                        </p>
                     </div>
                     <div className="flex items-center gap-2">
+                        {billId && xmlContent && (
+                            <button
+                                onClick={handleVerifyStored}
+                                disabled={verifying}
+                                className="p-2 text-gray-500 hover:text-green-600 dark:text-gray-400 dark:hover:text-green-400 transition-colors rounded-lg hover:bg-white dark:hover:bg-dark-800 flex items-center gap-1 disabled:opacity-50"
+                                title="Verificar firma, certificado y clave de acceso"
+                            >
+                                {verifying ? <RefreshCcwIcon className="w-4 h-4 animate-spin" /> : <ShieldCheckIcon className="w-4 h-4" />}
+                                <span className="text-[10px] font-bold uppercase tracking-tighter">Verificar firma</span>
+                            </button>
+                        )}
+                        <label
+                            className="p-2 text-gray-500 hover:text-blue-500 dark:text-gray-400 dark:hover:text-blue-400 transition-colors rounded-lg hover:bg-white dark:hover:bg-dark-800 flex items-center gap-1 cursor-pointer"
+                            title="Verificar un XML firmado o la respuesta de autorización del SRI"
+                        >
+                            <input
+                                type="file"
+                                accept=".xml,text/xml,application/xml"
+                                className="hidden"
+                                onChange={e => { handleUpload(e.target.files?.[0]); e.target.value = ''; }}
+                            />
+                            <span className="text-[10px] font-bold uppercase tracking-tighter">Verificar archivo</span>
+                        </label>
                         <button 
                             onClick={handleCopy}
                             className="p-2 text-gray-500 hover:text-blue-500 dark:text-gray-400 dark:hover:text-blue-400 transition-colors rounded-lg hover:bg-white dark:hover:bg-dark-800 flex items-center gap-1"
@@ -61,10 +187,12 @@ export const XMLViewerModal: React.FC<XMLViewerModalProps> = ({
                     </div>
                 </div>
 
+                {report && <VerificationReportPanel report={report} />}
+
                 {/* Content */}
                 <div className="flex-1 overflow-auto p-6 bg-gray-50 dark:bg-dark-950">
                     <pre className="text-[10px] sm:text-xs font-mono text-gray-700 dark:text-gray-300 whitespace-pre scrollbar-thin scrollbar-thumb-gray-200 dark:scrollbar-thumb-dark-700">
-                        {xmlContent ? formatXML(xmlContent) : 'No hay contenido XML disponible para esta factura.'}
+                        {displayedXml ? formatXML(displayedXml) : 'No hay contenido XML disponible para esta factura.'}
                     </pre>
                 </div>
 
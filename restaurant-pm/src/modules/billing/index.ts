@@ -2,3 +2,5 @@ export * from './types/billing.types';
 export { billingService } from './services/BillingService';
 export { default as InvoiceProcessingModal } from './components/InvoiceProcessingModal';
 export * from './utils/fiscalValidators';
+export * from './utils/payments';
+export * from './utils/sriSchema';
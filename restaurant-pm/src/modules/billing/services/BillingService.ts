@@ -6,7 +6,8 @@
 import { apiService } from '../../../api';
 import { API_ENDPOINTS } from '../../../config/api.config';
 import { dataService } from '../../../services/DataService';
-import { Bill, CreditNote } from '../types/billing.types';
+import { TipSelection } from '../utils/tips';
+import { ApplyMenuRepricingResult, Bill, BillPayment, CreditNote, EmailDocumentType, ResendEmailsResult, DebitNote, DebitNoteDTO, DocumentVerificationReport, InvoiceTaxRatesPreview, MenuRepricingMode, MenuRepricingPreview, PurchaseSettlement, PurchaseSettlementDTO, SequentialAuditReport, SequentialRepairResult, SequentialRepairSuggestion, Withholding, WithholdingDTO } from '../types/billing.types';
 
 export class BillingService {
     private static instance: BillingService;
@@ -29,6 +30,8 @@ export class BillingService {
         documentNumber?: string;
         customerIdentification?: string;
         documentType?: string;
+        /** SENT | SKIPPED | FAILED | BOUNCED | NONE (sin intento registrado) */
+        emailStatus?: string;
         sort?: any;
     }): Promise<{ data: Bill[], pagination: any }> {
         const queryParams = new URLSearchParams();
@@ -37,6 +40,7 @@ export class BillingService {
         if (params?.documentNumber) queryParams.append('documentNumber', params.documentNumber);
         if (params?.customerIdentification) queryParams.append('customerIdentification', params.customerIdentification);
         if (params?.documentType) queryParams.append('documentType', params.documentType);
+        if (params?.emailStatus) queryParams.append('emailStatus', params.emailStatus);
         if (params?.sort) queryParams.append('sort', JSON.stringify(params.sort));
 
         const url = queryParams.toString()
@@ -62,12 +66,22 @@ export class BillingService {
     /**
      * Generar XML y enviar al SRI (Facturación Electrónica)
      */
-    public async generateXML(data: { order: any, client: any, taxRate?: number, logoUrl?: string }): Promise<any> {
+    public async generateXML(data: { order: any, client: any, taxRate?: number, logoUrl?: string, splitPart?: number, payments?: BillPayment[], tip?: TipSelection }): Promise<any> {
         const result = await apiService.post('/billing/generate-xml', data);
         dataService.clearCache(); // Invalida el caché para que el nuevo cliente aparezca en la lista
         return result;
     }
 
+    /**
+     * Factura consolidada: una sola factura para varios pedidos sin facturar del mismo cliente.
+     * El backend toma los ítems de los pedidos guardados.
+     */
+    public async generateConsolidated(data: { orderIds: string[], client: any, logoUrl?: string, payments?: BillPayment[], tip?: TipSelection }): Promise<any> {
+        const result = await apiService.post('/billing/generate-consolidated', data);
+        dataService.clearCache();
+        return result;
+    }
+
     /**
      * Verificar estado de autorización en SRI
      */
@@ -98,6 +112,7 @@ export class BillingService {
         billId?: string;
         reason?: string;
         customerIdentification?: string;
+        emailStatus?: string;
         sort?: any;
     }): Promise<{ data: CreditNote[], pagination: any }> {
         const queryParams = new URLSearchParams();
@@ -106,6 +121,7 @@ export class BillingService {
         if (params?.billId) queryParams.append('billId', params.billId);
         if (params?.reason) queryParams.append('reason', params.reason);
         if (params?.customerIdentification) queryParams.append('customerIdentification', params.customerIdentification);
+        if (params?.emailStatus) queryParams.append('emailStatus', params.emailStatus);
         if (params?.sort) queryParams.append('sort', JSON.stringify(params.sort));
 
         const url = queryParams.toString()
@@ -128,6 +144,109 @@ export class BillingService {
         return apiService.delete(`/credit-notes/${id}`);
     }
 
+    /**
+     * Reenviar por email facturas / notas de crédito autorizadas, opcionalmente a un email corregido
+     */
+    public async resendEmails(documents: { type: EmailDocumentType; id: string }[], email?: string): Promise<ResendEmailsResult> {
+        return apiService.post('/email-deliveries/resend', { documents, email: email || undefined });
+    }
+
+    /**
+     * Emitir una liquidación de compra (codDoc 03) a un proveedor informal
+     */
+    public async createPurchaseSettlement(data: PurchaseSettlementDTO): Promise<{ settlement: PurchaseSettlement; authorization: any }> {
+        return apiService.post('/purchase-settlements', data);
+    }
+
+    /**
+     * Obtener liquidaciones de compra emitidas
+     */
+    public async getPurchaseSettlements(params?: {
+        page?: number;
+        limit?: number;
+        supplierIdentification?: string;
+    }): Promise<{ data: PurchaseSettlement[], pagination: any }> {
+        const queryParams = new URLSearchParams();
+        if (params?.page) queryParams.append('page', params.page.toString());
+        if (params?.limit) queryParams.append('limit', params.limit.toString());
+        if (params?.supplierIdentification) queryParams.append('supplierIdentification', params.supplierIdentification);
+
+        const url = queryParams.toString()
+            ? `/purchase-settlements?${queryParams}`
+            : '/purchase-settlements';
+        return apiService.get(url);
+    }
+
+    /**
+     * Verificar (y reenviar si hace falta) una liquidación de compra en el SRI
+     */
+    public async checkPurchaseSettlementStatus(id: string): Promise<PurchaseSettlement> {
+        return apiService.post(`/purchase-settlements/${id}/check-status`, {});
+    }
+
+    /**
+     * Emitir una nota de débito (codDoc 05) sobre una factura autorizada
+     */
+    public async createDebitNote(data: DebitNoteDTO): Promise<{ debitNote: DebitNote; authorization: any }> {
+        return apiService.post('/debit-notes', data);
+    }
+
+    /**
+     * Obtener notas de débito emitidas (opcionalmente las de una factura)
+     */
+    public async getDebitNotes(params?: {
+        page?: number;
+        limit?: number;
+        billId?: string;
+        customerIdentification?: string;
+    }): Promise<{ data: DebitNote[], pagination: any }> {
+        const queryParams = new URLSearchParams();
+        if (params?.page) queryParams.append('page', params.page.toString());
+        if (params?.limit) queryParams.append('limit', params.limit.toString());
+        if (params?.billId) queryParams.append('billId', params.billId);
+        if (params?.customerIdentification) queryParams.append('customerIdentification', params.customerIdentification);
+
+        const url = queryParams.toString()
+            ? `/debit-notes?${queryParams}`
+            : '/debit-notes';
+        return apiService.get(url);
+    }
+
+    /**
+     * Verificar (y reenviar si hace falta) una nota de débito en el SRI
+     */
+    public async checkDebitNoteStatus(id: string): Promise<DebitNote> {
+        return apiService.post(`/debit-notes/${id}/check-status`, {});
+    }
+
+    /**
+     * Retenciones que el cliente hizo sobre una factura
+     */
+    public async getWithholdings(billId: string): Promise<{ data: Withholding[], pagination: any }> {
+        return apiService.get(`/withholdings?billId=${encodeURIComponent(billId)}`);
+    }
+
+    /**
+     * Registrar una retención digitada a mano
+     */
+    public async createWithholding(data: WithholdingDTO): Promise<Withholding> {
+        return apiService.post('/withholdings', data);
+    }
+
+    /**
+     * Importar el XML de retención que envió el cliente (se enlaza solo a su factura)
+     */
+    public async importWithholdingXml(xml: string): Promise<Withholding> {
+        return apiService.post('/withholdings/import', { xml });
+    }
+
+    /**
+     * Eliminar una retención registrada por error
+     */
+    public async deleteWithholding(id: string): Promise<void> {
+        return apiService.delete(`/withholdings/${id}`);
+    }
+
     /**
      * Actualiza los datos y detalles de una factura
      */
@@ -143,6 +262,63 @@ export class BillingService {
     public async reSubmit(id: string): Promise<any> {
         return apiService.post(`/billing/re-submit/${id}`, {});
     }
+
+    /**
+     * Verificar firma, certificado y clave de acceso del XML guardado en la factura
+     */
+    public async verifyBillSignature(id: string): Promise<DocumentVerificationReport> {
+        return apiService.get(`/bills/${id}/verify`);
+    }
+
+    /**
+     * Verificar un comprobante firmado subido (XML suelto o respuesta de autorización)
+     */
+    public async verifyDocumentXml(xml: string): Promise<DocumentVerificationReport> {
+        return apiService.post('/bills/verify', { xml });
+    }
+
+    /**
+     * Auditar huecos, duplicados y contadores de secuenciales (solo administrador)
+     */
+    public async getSequentialAudit(): Promise<SequentialAuditReport> {
+        return apiService.get('/sequentials/audit');
+    }
+
+    /**
+     * Aplicar una reparación sugerida por la auditoría; el motivo queda en el log de auditoría
+     */
+    public async repairSequential(repair: SequentialRepairSuggestion, reason: string): Promise<SequentialRepairResult> {
+        return apiService.post('/sequentials/repairs', {
+            action: repair.action,
+            seriesKey: repair.seriesKey,
+            documentId: repair.documentId,
+            from: repair.from,
+            to: repair.to,
+            reason
+        });
+    }
+
+    /**
+     * Tarifa de IVA con que se factura hoy cada una de las tarifas de los platos
+     */
+    public async previewTaxRates(taxRates: number[]): Promise<InvoiceTaxRatesPreview> {
+        return apiService.post('/tax-rates/preview', { taxRates });
+    }
+
+    /**
+     * Cómo queda el menú con la tarifa de un tramo de IVA (el próximo programado si no se indica)
+     */
+    public async getMenuRepricing(effectiveFrom?: string): Promise<MenuRepricingPreview> {
+        const query = effectiveFrom ? `?effectiveFrom=${encodeURIComponent(effectiveFrom)}` : '';
+        return apiService.get(`/tax-rates/repricing${query}`);
+    }
+
+    /**
+     * Pasar los platos elegidos a la tarifa del tramo, manteniendo la base o el precio
+     */
+    public async applyMenuRepricing(effectiveFrom: string, mode: MenuRepricingMode, itemIds?: string[]): Promise<ApplyMenuRepricingResult> {
+        return apiService.post('/tax-rates/repricing', { effectiveFrom, mode, itemIds });
+    }
 }
 
 export const billingService = BillingService.getInstance();
@@ -3,11 +3,33 @@
  * @description Tipos para el módulo de facturación.
  */
 
+import type { TaxRatePeriod } from '../utils/taxRates';
+
 export interface BillItem {
     name: string;
     quantity: number;
     price: number;
-    total: number;
+    total: number; // Con IVA, ya descontado
+    discountAmount?: number; // Descuento de la línea (incluye su parte del descuento del pedido), con IVA
+}
+
+/** Propina de una factura: value es el porcentaje (SERVICE_CHARGE) o el monto (AMOUNT) */
+export interface BillTip {
+    type: 'SERVICE_CHARGE' | 'AMOUNT';
+    value: number;
+    amount: number;
+    employee?: string;
+}
+
+/** Pago aplicado a una factura (una factura puede cobrarse con varias formas de pago) */
+export interface BillPayment {
+    /** Código SRI: 01 efectivo, 16 débito, 19 crédito, 20 transferencia/otros */
+    method: string;
+    amount: number;
+    /** Plazo en días (0 = contado) */
+    term?: number;
+    /** Solo efectivo: monto entregado por el cliente */
+    received?: number;
 }
 
 /** Entrada del log de errores SRI — acumulativa, nunca se sobreescribe */
@@ -22,6 +44,82 @@ export interface BillErrorEntry {
     attempt: number;
 }
 
+/** Campo del comprobante que no cumple el XSD oficial del SRI (detectado antes de firmar) */
+export interface SchemaFieldError {
+    /** Ruta del campo, ej. /factura/detalles/detalle[2]/descripcion */
+    path: string;
+    field: string;
+    message: string;
+}
+
+/** NOT_VERIFIED: no se pudo comprobar (p. ej. la cadena sin CAs de confianza en el servidor) */
+export type VerificationStatus = 'OK' | 'WARN' | 'FAIL' | 'NOT_VERIFIED';
+
+export type VerificationVerdict = 'VALID' | 'INVALID' | 'NOT_VERIFIED';
+
+/** Una comprobación del verificador de firma (digest, certificado, clave de acceso, RUC...) */
+export interface VerificationCheck {
+    id: string;
+    label: string;
+    status: VerificationStatus;
+    detail: string;
+}
+
+/** Resultado de verificar un comprobante firmado (guardado o subido) */
+export interface DocumentVerificationReport {
+    /** Un FAIL lo invalida; sin FAIL, una comprobación sin verificar lo deja sin verificar */
+    verdict: VerificationVerdict;
+    valid: boolean;
+    documentType?: string;
+    documentNumber?: string;
+    accessKey?: string;
+    ruc?: string;
+    signingTime?: string;
+    signer?: {
+        subject: string;
+        issuer: string;
+        serialNumber: string;
+        validFrom: string;
+        validTo: string;
+    };
+    authorization?: { estado: string; numeroAutorizacion?: string; fechaAutorizacion?: string };
+    checks: VerificationCheck[];
+}
+
+export type EmailDeliveryStatus = 'SENT' | 'SKIPPED' | 'FAILED' | 'BOUNCED';
+
+/** Resultado del último envío del comprobante por email */
+export interface EmailDelivery {
+    status: EmailDeliveryStatus;
+    to?: string;
+    /** resend | smtp | noop */
+    provider?: string;
+    messageId?: string;
+    error?: string;
+    skipReason?: string;
+    attempts: number;
+    lastAttemptAt: string;
+    bouncedAt?: string;
+}
+
+export type EmailDocumentType = 'bill' | 'creditNote';
+
+export interface ResendEmailResult {
+    type: EmailDocumentType;
+    id: string;
+    documentNumber?: string;
+    /** NOT_SENT: no se pudo reenviar (no autorizado, consumidor final, sin email válido) */
+    status: EmailDeliveryStatus | 'NOT_SENT';
+    to?: string;
+    error?: string;
+}
+
+export interface ResendEmailsResult {
+    results: ResendEmailResult[];
+    sent: number;
+    failed: number;
+}
+
 export interface Bill {
     id: string;
     orderId: string;
@@ -33,6 +131,7 @@ export interface Bill {
     customerEmail?: string;
     customerPhone?: string;
     paymentMethod?: string;
+    payments?: BillPayment[];
     items: BillItem[];
     subtotal: number;
     tax: number;
@@ -47,6 +146,14 @@ export interface Bill {
     lastRetryDate?: string;
     /** Historial completo de errores del SRI — nunca se sobreescribe, se acumula */
     errorLog?: BillErrorEntry[];
+    /** Totales de las retenciones que el cliente hizo sobre la factura */
+    withheldIva?: number;
+    withheldRenta?: number;
+    emailDelivery?: EmailDelivery;
+    /** Factura consolidada: todos los pedidos que cubre (orderId es el primero) */
+    orderIds?: string[];
+    /** Propina o cargo por servicio (incluida en total, fuera de la base de IVA) */
+    tip?: BillTip;
 }
 
 export interface CreditNote {
@@ -74,4 +181,272 @@ export interface CreditNote {
     sriMessage?: string;
     /** Historial completo de errores del SRI para la nota de crédito */
     errorLog?: BillErrorEntry[];
+    emailDelivery?: EmailDelivery;
+}
+
+/** Proveedor informal (sin RUC o no obligado a facturar) de una liquidación de compra */
+export interface PurchaseSettlementSupplier {
+    name: string;
+    identification: string;
+    /** 04 RUC, 05 cédula, 06 pasaporte, 08 identificación del exterior */
+    identificationType?: '04' | '05' | '06' | '08';
+    address: string;
+    email?: string;
+    phone?: string;
+}
+
+export interface PurchaseSettlementItem {
+    description: string;
+    quantity: number;
+    /** Precio unitario SIN IVA, tal como lo cobra el proveedor */
+    unitPrice: number;
+    /** Tarifa de IVA (%) — los productos del agro y del mar suelen ser 0% */
+    taxRate: number;
+    subtotal?: number;
+    tax?: number;
+}
+
+/** Liquidación de compra (codDoc 03) emitida por el restaurante al comprar a un proveedor informal */
+export interface PurchaseSettlement {
+    id: string;
+    documentNumber: string;
+    date: string;
+    supplier: PurchaseSettlementSupplier;
+    items: PurchaseSettlementItem[];
+    paymentMethod: string;
+    notes?: string;
+    subtotal: number;
+    tax: number;
+    total: number;
+    sriStatus?: string;
+    accessKey?: string;
+    environment?: string;
+    authorizationDate?: string;
+    sriMessage?: string;
+    errorLog?: BillErrorEntry[];
+    createdBy?: string;
+}
+
+export interface PurchaseSettlementDTO {
+    supplier: PurchaseSettlementSupplier;
+    items: PurchaseSettlementItem[];
+    paymentMethod: string;
+    notes?: string;
+}
+
+/** Cargo de una nota de débito: valor SIN IVA; el IVA se calcula por línea */
+export interface DebitNoteItem {
+    /** 01 intereses por mora, 02 recargo por entrega tardía, 03 reposición de artículos dañados, 04 otros */
+    reason: string;
+    description?: string;
+    amount: number;
+    taxRate: number;
+    tax?: number;
+    total?: number;
+}
+
+/** Nota de débito (codDoc 05): cargo adicional sobre una factura autorizada */
+export interface DebitNote {
+    id: string;
+    documentNumber: string;
+    date: string;
+    billId: string;
+    billDocumentNumber: string;
+    billDate: string;
+    customerName: string;
+    customerIdentification: string;
+    items: DebitNoteItem[];
+    paymentMethod: string;
+    subtotal: number;
+    tax: number;
+    total: number;
+    sriStatus?: string;
+    accessKey?: string;
+    environment?: string;
+    authorizationDate?: string;
+    sriMessage?: string;
+    errorLog?: BillErrorEntry[];
+    createdBy?: string;
+}
+
+export interface DebitNoteDTO {
+    billId: string;
+    items: DebitNoteItem[];
+    paymentMethod: string;
+}
+
+/** Impuesto retenido en un comprobante de retención */
+export interface WithholdingLine {
+    taxType: 'IVA' | 'RENTA';
+    /** Código de retención del catálogo SRI (ej. 9 = 10% IVA, 303 = honorarios) */
+    code: string;
+    baseAmount: number;
+    percentage: number;
+    amount: number;
+}
+
+/** Comprobante de retención (codDoc 07) que un cliente emitió sobre una factura */
+export interface Withholding {
+    id: string;
+    billId: string;
+    billDocumentNumber: string;
+    documentNumber: string;
+    accessKey?: string;
+    issueDate: string;
+    fiscalPeriod: string;
+    agentIdentification: string;
+    agentName: string;
+    lines: WithholdingLine[];
+    ivaWithheld: number;
+    rentaWithheld: number;
+    totalWithheld: number;
+    source: 'xml' | 'manual';
+    notes?: string;
+    createdBy?: string;
+}
+
+/** Ingreso manual de una retención (la fecha en yyyy-mm-dd) */
+export interface WithholdingDTO {
+    billId: string;
+    documentNumber: string;
+    accessKey?: string;
+    issueDate: string;
+    lines: WithholdingLine[];
+    notes?: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// AUDITORÍA DE SECUENCIALES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type SequentialDocumentType = 'factura' | 'notaCredito';
+export type SequentialRepairAction = 'sync-counter' | 'renumber-document' | 'acknowledge-gap';
+
+export interface SequentialDocumentRef {
+    id: string;
+    documentType: SequentialDocumentType;
+    documentNumber: string;
+    environment?: string;
+    sriStatus?: string;
+    accessKey?: string;
+    createdAt?: string;
+}
+
+export interface SequentialGap {
+    from: number;
+    to: number;
+    count: number;
+    acknowledged: boolean;
+    acknowledgedReason?: string;
+}
+
+export interface SequenceCounterDrift {
+    field: string;
+    counter: number;
+    maxIssued: number;
+    status: 'OK' | 'BEHIND' | 'COLLISION' | 'AHEAD';
+    nextNumber: string;
+    nextTakenBy?: SequentialDocumentRef;
+    suggestedValue: number;
+}
+
+export interface SequentialRepairSuggestion {
+    action: SequentialRepairAction;
+    label: string;
+    seriesKey: string;
+    documentType: SequentialDocumentType;
+    environment: '1' | '2';
+    documentId?: string;
+    from?: number;
+    to?: number;
+}
+
+/** Serie = tipo de documento + ambiente + establecimiento + punto de emisión */
+export interface SequentialSeriesReport {
+    key: string;
+    documentType: SequentialDocumentType;
+    environment: '1' | '2';
+    establishment: string;
+    emissionPoint: string;
+    status: 'OK' | 'WARN' | 'FAIL';
+    documentCount: number;
+    first: number;
+    last: number;
+    gaps: SequentialGap[];
+    missingCount: number;
+    duplicates: { secuencial: number; documents: SequentialDocumentRef[] }[];
+    counter?: SequenceCounterDrift;
+    repairs: SequentialRepairSuggestion[];
+}
+
+export interface SequentialRepairRecord {
+    seriesKey: string;
+    repair: SequentialRepairAction;
+    timestamp: string;
+    userEmail?: string;
+    reason?: string;
+    before: Record<string, any> | null;
+    after: Record<string, any> | null;
+}
+
+export interface SequentialAuditReport {
+    generatedAt: string;
+    activeEnvironment: '1' | '2';
+    establishment: string;
+    emissionPoint: string;
+    series: SequentialSeriesReport[];
+    unclassified: { document: SequentialDocumentRef; reason: string }[];
+    summary: {
+        series: number;
+        failing: number;
+        warnings: number;
+        missing: number;
+        duplicates: number;
+        unclassified: number;
+    };
+    history: SequentialRepairRecord[];
+}
+
+export interface SequentialRepairResult {
+    action: SequentialRepairAction;
+    seriesKey: string;
+    before: Record<string, any> | null;
+    after: Record<string, any>;
+    report: SequentialAuditReport;
+}
+
+/**
+ * Tarifa con que el backend factura hoy cada tarifa de plato (POST /tax-rates/preview)
+ */
+export interface InvoiceTaxRatesPreview {
+    period: TaxRatePeriod; // Tramo vigente hoy
+    taxRates: Record<string, number>;
+}
+
+/**
+ * Re-precio del menú para un tramo de la tabla de IVA
+ */
+export type MenuRepricingMode = 'KEEP_BASE' | 'KEEP_PRICE';
+
+export interface MenuRepricingLine {
+    id: string;
+    name: string;
+    category: string;
+    price: number;           // Precio actual con IVA
+    taxRate: number;
+    newTaxRate: number;
+    newPrice: number;        // Precio con IVA que mantiene la base
+    baseIfPriceKept: number; // Base sin IVA si no se cambia el precio
+}
+
+export interface MenuRepricingPreview {
+    period: TaxRatePeriod;
+    currentPeriod: TaxRatePeriod;
+    items: MenuRepricingLine[];
+    unchangedCount: number;
+}
+
+export interface ApplyMenuRepricingResult {
+    mode: MenuRepricingMode;
+    updated: { id: string; name: string; taxRate: number; price: number }[];
 }
@@ -0,0 +1,57 @@
+/**
+ * @file debitNote.ts
+ * @description Motivos, totales y validaciones de la nota de débito antes de enviarla.
+ *
+ * Los cargos se ingresan SIN IVA y el IVA se redondea por línea, igual que el
+ * backend, para que el total que ve el cajero sea el que queda en el comprobante.
+ */
+
+import { Bill, DebitNoteDTO, DebitNoteItem } from '../types/billing.types';
+
+/** Motivos de cargo aceptados por el backend (el '04' exige detalle) */
+export const DEBIT_NOTE_REASONS: Record<string, string> = {
+    '01': 'Intereses por mora',
+    '02': 'Recargo por entrega tardía',
+    '03': 'Reposición de artículos dañados',
+    '04': 'Otros cargos'
+};
+
+/** Tarifas de IVA aceptadas por el SRI para la nota de débito */
+export const DEBIT_NOTE_TAX_RATES = [0, 5, 12, 15];
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+export interface DebitNoteTotals {
+    subtotal: number;
+    tax: number;
+    total: number;
+}
+
+export const summarizeDebitNoteItems = (items: DebitNoteItem[]): DebitNoteTotals => {
+    const lines = items.map(item => {
+        const amount = round2(Number(item.amount) || 0);
+        return { amount, tax: round2(amount * (Number(item.taxRate) || 0) / 100) };
+    });
+    const subtotal = round2(lines.reduce((sum, l) => sum + l.amount, 0));
+    const tax = round2(lines.reduce((sum, l) => sum + l.tax, 0));
+    return { subtotal, tax, total: round2(subtotal + tax) };
+};
+
+/** La factura admite nota de débito: autorizada y con cliente identificado */
+export const canIssueDebitNote = (bill: Pick<Bill, 'sriStatus' | 'customerIdentification'>): boolean =>
+    bill.sriStatus?.trim().toUpperCase() === 'AUTORIZADO' &&
+    bill.customerIdentification?.trim() !== '9999999999999';
+
+/** Problemas que impiden emitir (vacío = lista para enviar) */
+export const debitNoteIssues = (data: DebitNoteDTO): string[] => {
+    const issues: string[] = [];
+
+    if (data.items.length === 0) issues.push('Agregue al menos un cargo');
+    data.items.forEach((item, idx) => {
+        if (!DEBIT_NOTE_REASONS[item.reason]) issues.push(`Cargo ${idx + 1}: seleccione el motivo`);
+        if (item.reason === '04' && !item.description?.trim()) issues.push(`Cargo ${idx + 1}: describa el cargo`);
+        if (!(item.amount > 0)) issues.push(`Cargo ${idx + 1}: el valor debe ser mayor a cero`);
+    });
+
+    return issues;
+};
@@ -6,6 +6,9 @@
 import { RestaurantConfig } from '../../../types';
 import { Order } from '../../orders/types/order.types';
 import { generateAccessKey } from './sri';
+import { PaymentEntry } from './payments';
+import { TipSelection } from './tips';
+import { describeModifiers } from '../../menu/utils/modifiers';
 
 export interface ClientData {
     identification: string;
@@ -14,6 +17,10 @@ export interface ClientData {
     address: string;
     phone: string;
     paymentMethod?: string;
+    /** Formas de pago ingresadas en el cobro; vacío = todo con paymentMethod */
+    payments?: PaymentEntry[];
+    /** Propina o cargo por servicio; se suma al total fuera de la base de IVA */
+    tip?: TipSelection | null;
 }
 
 const getPaymentMethodText = (code?: string) => {
@@ -527,7 +534,7 @@ export const generateInvoiceHtml = (
                         return `
                         <tr>
                             <td class="col-qty">${item.quantity}</td>
-                            <td class="col-desc item-name">${item.name}</td>
+                            <td class="col-desc item-name">${item.modifiers?.length ? `${item.name} (${describeModifiers(item.modifiers)})` : item.name}</td>
                             <td class="col-price">$${unitPrice.toFixed(2)}</td>
                             <td class="col-total">$${itemTotal.toFixed(2)}</td>
                         </tr>
@@ -0,0 +1,84 @@
+/**
+ * @file payments.ts
+ * @description Cobro con varias formas de pago (parte efectivo, parte tarjeta...).
+ *
+ * Cada fila del cobro es una `PaymentEntry`. En efectivo el monto es lo que
+ * ENTREGA el cliente: lo que exceda del saldo se devuelve como cambio.
+ * Una fila sin monto (`amount: null`) cubre el saldo que dejan las demás.
+ */
+
+import { BillPayment } from '../types/billing.types';
+
+export interface PaymentEntry {
+    method: string;
+    /** null = por el saldo restante */
+    amount: number | null;
+}
+
+export interface PaymentSummary {
+    /** Pagos a enviar al backend (la suma es exactamente el total) */
+    payments: BillPayment[];
+    /** Saldo por cubrir */
+    remaining: number;
+    /** Cambio a devolver en efectivo */
+    change: number;
+    /** Problemas que impiden facturar (vacío = cobro completo) */
+    issues: string[];
+}
+
+export const CASH_METHOD = '01';
+
+/** Formas de pago del SRI usadas en el restaurante */
+export const PAYMENT_METHODS: { code: string; label: string }[] = [
+    { code: '01', label: 'EFECTIVO / SIN UTILIZACIÓN DEL SISTEMA FINANCIERO' },
+    { code: '16', label: 'TARJETA DE DÉBITO' },
+    { code: '19', label: 'TARJETA DE CRÉDITO' },
+    { code: '20', label: 'TRANSFERENCIA / OTROS' }
+];
+
+const toCents = (value: number): number => Math.round(value * 100);
+
+/** Filas del cobro; sin filas se cobra todo con `paymentMethod` */
+export const getPaymentEntries = (payments: PaymentEntry[] | undefined, paymentMethod?: string): PaymentEntry[] =>
+    payments && payments.length > 0 ? payments : [{ method: paymentMethod || CASH_METHOD, amount: null }];
+
+export const summarizePayments = (entries: PaymentEntry[], total: number): PaymentSummary => {
+    const totalCents = toCents(total);
+    const issues: string[] = [];
+
+    const autoRows = entries.filter(e => e.amount === null);
+    if (autoRows.length > 1) issues.push('Solo una forma de pago puede cubrir el saldo');
+    if (entries.some(e => e.amount !== null && !(e.amount > 0))) issues.push('Los montos deben ser mayores a cero');
+
+    const fixedCents = entries.reduce((s, e) => s + (e.amount !== null ? toCents(e.amount) : 0), 0);
+    const autoCents = autoRows.length === 1 ? totalCents - fixedCents : 0;
+    if (autoRows.length === 1 && autoCents <= 0) issues.push('No queda saldo para la forma de pago sin monto');
+
+    const rowCents = entries.map(e => (e.amount !== null ? toCents(e.amount) : Math.max(0, autoCents)));
+    const nonCashCents = entries.reduce((s, e, idx) => s + (e.method !== CASH_METHOD ? rowCents[idx] : 0), 0);
+    const cashReceivedCents = entries.reduce((s, e, idx) => s + (e.method === CASH_METHOD ? rowCents[idx] : 0), 0);
+    const hasCash = entries.some(e => e.method === CASH_METHOD);
+
+    // El efectivo cubre lo que no pagan tarjeta/transferencia; el excedente es cambio
+    const cashDueCents = totalCents - nonCashCents;
+    if (cashDueCents < 0) issues.push('Los pagos con tarjeta o transferencia superan el total');
+    if (hasCash && cashDueCents === 0) issues.push('El efectivo no es necesario: quite la fila de efectivo');
+
+    const remainingCents = Math.max(0, cashDueCents - cashReceivedCents);
+    if (remainingCents > 0) issues.push(`Falta cubrir $${(remainingCents / 100).toFixed(2)}`);
+
+    const payments: BillPayment[] = entries
+        .map((e, idx) => ({ e, cents: rowCents[idx] }))
+        .filter(({ e }) => e.method !== CASH_METHOD)
+        .map(({ e, cents }) => ({ method: e.method, amount: cents / 100, term: 0 }));
+    if (hasCash && cashDueCents > 0) {
+        payments.push({ method: CASH_METHOD, amount: cashDueCents / 100, term: 0, received: cashReceivedCents / 100 });
+    }
+
+    return {
+        payments,
+        remaining: remainingCents / 100,
+        change: hasCash ? Math.max(0, cashReceivedCents - Math.max(0, cashDueCents)) / 100 : 0,
+        issues
+    };
+};
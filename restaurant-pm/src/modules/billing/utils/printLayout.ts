@@ -0,0 +1,40 @@
+/**
+ * @file printLayout.ts
+ * @description Plantilla de impresión del RIDE (mismo criterio que el backend).
+ *
+ * Facturas, notas de crédito y reimpresiones salen en A4 o en ticket térmico
+ * de 58/80 mm, con o sin logo y QR de la clave de acceso, y con un pie propio.
+ */
+
+export type RideFormat = 'A4' | 'ticket';
+export type TicketWidth = 58 | 80;
+
+export interface PrintLayout {
+    format: RideFormat;
+    ticketWidth: TicketWidth;
+    showLogo: boolean;
+    showQr: boolean;
+    footerText: string; // Una línea por renglón
+}
+
+/** Límites del pie (el backend rechaza más) */
+export const MAX_FOOTER_LINES = 6;
+export const MAX_FOOTER_LINE_LENGTH = 120;
+
+export const DEFAULT_PRINT_LAYOUT: PrintLayout = {
+    format: 'A4',
+    ticketWidth: 80,
+    showLogo: true,
+    showQr: true,
+    footerText: ''
+};
+
+/** Plantilla de la configuración, completando lo que falte con la de siempre */
+export const printLayoutOf = (layout: Partial<PrintLayout> | undefined): PrintLayout => ({
+    ...DEFAULT_PRINT_LAYOUT,
+    ...layout
+});
+
+/** Renglones del pie, sin espacios sobrantes ni líneas vacías */
+export const footerLines = (footerText: string | undefined): string[] =>
+    (footerText || '').split('\n').map(line => line.trim()).filter(Boolean);
@@ -0,0 +1,52 @@
+/**
+ * @file purchaseSettlement.ts
+ * @description Totales y validaciones de la liquidación de compra antes de enviarla.
+ *
+ * Los precios del proveedor son SIN IVA: el IVA de cada línea se suma encima y
+ * se redondea por línea, igual que el backend, para que el total que ve el
+ * cajero sea el mismo que queda en el comprobante.
+ */
+
+import { PurchaseSettlementDTO, PurchaseSettlementItem } from '../types/billing.types';
+
+/** Tarifas de IVA aceptadas por el SRI para la liquidación */
+export const PURCHASE_TAX_RATES = [0, 5, 12, 15];
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+export interface PurchaseTotals {
+    subtotal: number;
+    tax: number;
+    total: number;
+}
+
+export const summarizePurchaseItems = (items: PurchaseSettlementItem[]): PurchaseTotals => {
+    const lines = items.map(item => {
+        const subtotal = round2((Number(item.quantity) || 0) * (Number(item.unitPrice) || 0));
+        return { subtotal, tax: round2(subtotal * (Number(item.taxRate) || 0) / 100) };
+    });
+    const subtotal = round2(lines.reduce((sum, l) => sum + l.subtotal, 0));
+    const tax = round2(lines.reduce((sum, l) => sum + l.tax, 0));
+    return { subtotal, tax, total: round2(subtotal + tax) };
+};
+
+/** Problemas que impiden emitir (vacío = lista para enviar) */
+export const purchaseSettlementIssues = (data: PurchaseSettlementDTO): string[] => {
+    const issues: string[] = [];
+    const identification = data.supplier.identification.trim();
+
+    if (!data.supplier.name.trim()) issues.push('Ingrese el nombre del proveedor');
+    if (!identification || identification === '9999999999999') {
+        issues.push('El proveedor debe identificarse con cédula, RUC o pasaporte');
+    }
+    if (!data.supplier.address.trim()) issues.push('Ingrese la dirección del proveedor');
+
+    if (data.items.length === 0) issues.push('Agregue al menos un producto');
+    data.items.forEach((item, idx) => {
+        if (!item.description.trim()) issues.push(`Línea ${idx + 1}: falta la descripción`);
+        if (!(item.quantity > 0)) issues.push(`Línea ${idx + 1}: la cantidad debe ser mayor a cero`);
+        if (!(item.unitPrice > 0)) issues.push(`Línea ${idx + 1}: el precio debe ser mayor a cero`);
+    });
+
+    return issues;
+};
@@ -0,0 +1,23 @@
+/**
+ * @file sriSchema.ts
+ * @description Errores de esquema XSD que devuelve el backend al emitir un comprobante.
+ *
+ * Antes de firmar, el backend valida el XML contra el XSD oficial del SRI. Si no
+ * cumple, responde con el código SRI_XSD_INVALID y la lista de campos; el documento
+ * no llega al SRI y queda en ERROR para corregirlo y re-enviarlo desde el historial.
+ */
+
+import { ApiRequestError } from '../../../api';
+import { SchemaFieldError } from '../types/billing.types';
+
+export const SRI_XSD_INVALID = 'SRI_XSD_INVALID';
+
+/**
+ * Campos que incumplen el XSD, si el error viene de esa validación
+ * @returns lista vacía para cualquier otro error (SRI caído, certificado, red...)
+ */
+export const getSchemaErrors = (error: unknown): SchemaFieldError[] => {
+    if (!(error instanceof ApiRequestError) || error.code !== SRI_XSD_INVALID) return [];
+    const errors = error.details?.errors;
+    return Array.isArray(errors) ? errors : [];
+};
@@ -0,0 +1,45 @@
+/**
+ * @file taxRates.ts
+ * @description Tabla de tarifas de IVA con fecha de vigencia.
+ *
+ * Qué tarifa lleva hoy cada plato lo decide el backend (POST /tax-rates/preview),
+ * con la misma regla que usa al emitir la factura: aquí no se replica la tabla,
+ * solo se aplica a las líneas la respuesta de esa vista previa.
+ */
+
+import type { InvoiceTaxRatesPreview } from '../types/billing.types';
+
+/** Tramo de la tabla: desde effectiveFrom (día en Ecuador) rige la tarifa rate */
+export interface TaxRatePeriod {
+    rate: number;
+    code: string;          // codigoPorcentaje del SRI
+    effectiveFrom: string; // 'YYYY-MM-DD'
+}
+
+/** codigoPorcentaje del IVA por tarifa (ficha técnica del SRI), para sugerirlo al editar un tramo */
+export const SRI_IVA_CODES: Record<number, string> = {
+    0: '0',
+    5: '5',
+    8: '8',
+    12: '2',
+    13: '10',
+    14: '3',
+    15: '4'
+};
+
+/** Día de una fecha en Ecuador ('YYYY-MM-DD') */
+export const ecuadorDay = (date: Date): string =>
+    new Intl.DateTimeFormat('en-CA', { timeZone: 'America/Guayaquil', year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+
+/** Tarifas distintas de las líneas, para pedir la vista previa */
+export const lineTaxRates = (lines: { taxRate?: number }[]): number[] =>
+    Array.from(new Set(lines.map(line => line.taxRate).filter((rate): rate is number => rate !== undefined)));
+
+/** Líneas con la tarifa que devolvió el backend (sin vista previa no cambian) */
+export const withPreviewRates = <T extends { taxRate?: number }>(lines: T[], preview: InvoiceTaxRatesPreview | null | undefined): T[] =>
+    preview
+        ? lines.map(line => {
+            const taxRate = line.taxRate === undefined ? undefined : preview.taxRates[String(line.taxRate)];
+            return taxRate === undefined || taxRate === line.taxRate ? line : { ...line, taxRate };
+        })
+        : lines;
@@ -0,0 +1,54 @@
+/**
+ * @file tips.ts
+ * @description Propina o cargo por servicio de una factura (mismo cálculo que el backend).
+ *
+ * La propina no paga IVA: el cargo por servicio es un porcentaje de la base sin IVA
+ * y el total a cobrar es la venta más la propina.
+ */
+
+export type TipType = 'SERVICE_CHARGE' | 'AMOUNT';
+
+/** Propina elegida al cobrar: value es el porcentaje (SERVICE_CHARGE) o el monto (AMOUNT) */
+export interface TipSelection {
+    type: TipType;
+    value: number;
+}
+
+/** Cargo por servicio cuando la configuración no define otro */
+export const DEFAULT_SERVICE_CHARGE_RATE = 10;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/** Base sin IVA de las líneas (con IVA incluido), redondeada por tarifa igual que la factura */
+export const taxBase = (lines: { total: number; taxRate?: number }[]): number => {
+    const byRate = lines.reduce((acc, line) => {
+        const rate = line.taxRate ?? 15;
+        acc[rate] = (acc[rate] || 0) + line.total;
+        return acc;
+    }, {} as Record<number, number>);
+    return round2(Object.entries(byRate).reduce((sum, [rate, total]) => sum + round2(total / (1 + Number(rate) / 100)), 0));
+};
+
+/** Monto de la propina sobre la base sin IVA */
+export const tipAmount = (tip: TipSelection | null | undefined, base: number): number => {
+    if (!tip || !(tip.value > 0)) return 0;
+    const raw = tip.type === 'SERVICE_CHARGE' ? base * Math.min(tip.value, 100) / 100 : tip.value;
+    return round2(raw);
+};
+
+/**
+ * Total a cobrar: las líneas (con IVA) más la propina, que no paga IVA.
+ * Con tabla de IVA, las líneas ya traen la tarifa vigente hoy (withPreviewRates),
+ * así la base de la propina es la de la factura.
+ */
+export const chargeWithTip = (lines: { total: number; taxRate?: number }[], tip?: TipSelection | null) => {
+    const sales = round2(lines.reduce((sum, line) => sum + line.total, 0));
+    const tipTotal = tipAmount(tip, taxBase(lines));
+    return { sales, tip: tipTotal, total: round2(sales + tipTotal) };
+};
+
+/** Cargo por servicio sugerido al cobrar un pedido (solo en el local, si está configurado) */
+export const defaultTip = (orderType: string | undefined, serviceChargeRate?: number): TipSelection | null =>
+    orderType === 'En Local' && serviceChargeRate && serviceChargeRate > 0
+        ? { type: 'SERVICE_CHARGE', value: serviceChargeRate }
+        : null;
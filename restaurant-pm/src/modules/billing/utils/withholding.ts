@@ -0,0 +1,75 @@
+/**
+ * @file withholding.ts
+ * @description Retenciones que los clientes (agentes de retención) hacen sobre
+ * nuestras facturas: valor neto a cobrar y validaciones del ingreso manual.
+ *
+ * El valor retenido de cada línea es base × porcentaje redondeado a centavos,
+ * igual que el backend, que rechaza diferencias mayores a un centavo.
+ */
+
+import { Bill, WithholdingDTO, WithholdingLine } from '../types/billing.types';
+
+/** Porcentajes de retención de IVA vigentes y su código SRI */
+export const IVA_WITHHOLDING_CODES: Record<number, string> = {
+    10: '9',
+    20: '10',
+    30: '1',
+    50: '11',
+    70: '2',
+    100: '3'
+};
+
+const DOCUMENT_NUMBER_PATTERN = /^\d{3}-\d{3}-\d{9}$/;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+export const withholdingLineAmount = (line: Pick<WithholdingLine, 'baseAmount' | 'percentage'>): number =>
+    round2((Number(line.baseAmount) || 0) * (Number(line.percentage) || 0) / 100);
+
+/** Total retenido registrado en la factura */
+export const billWithheld = (bill: Pick<Bill, 'withheldIva' | 'withheldRenta'>): number =>
+    round2((bill.withheldIva || 0) + (bill.withheldRenta || 0));
+
+/** Lo que el cliente realmente paga: total menos retenciones */
+export const netCollectable = (bill: Pick<Bill, 'total' | 'withheldIva' | 'withheldRenta'>): number =>
+    round2(bill.total - billWithheld(bill));
+
+/** Solo una factura autorizada a un cliente identificado puede tener retención */
+export const canRegisterWithholding = (bill: Pick<Bill, 'sriStatus' | 'customerIdentification'>): boolean =>
+    bill.sriStatus?.trim().toUpperCase() === 'AUTORIZADO' &&
+    bill.customerIdentification?.trim() !== '9999999999999';
+
+/** Problemas que impiden registrar la retención manual (vacío = lista) */
+export const withholdingIssues = (
+    data: WithholdingDTO,
+    bill: Pick<Bill, 'tax' | 'total' | 'withheldIva' | 'withheldRenta'>
+): string[] => {
+    const issues: string[] = [];
+
+    if (!DOCUMENT_NUMBER_PATTERN.test(data.documentNumber.trim())) {
+        issues.push('Número de retención con formato 001-001-000000001');
+    }
+    if (!data.issueDate) issues.push('Indique la fecha de la retención');
+    if (data.lines.length === 0) issues.push('Agregue al menos un impuesto retenido');
+
+    data.lines.forEach((line, idx) => {
+        if (!(line.baseAmount > 0)) issues.push(`Línea ${idx + 1}: la base debe ser mayor a cero`);
+        if (line.taxType === 'IVA' && !IVA_WITHHOLDING_CODES[line.percentage]) {
+            issues.push(`Línea ${idx + 1}: porcentaje de retención de IVA no válido`);
+        }
+        if (line.taxType === 'RENTA' && !(line.percentage > 0 && line.percentage <= 100)) {
+            issues.push(`Línea ${idx + 1}: porcentaje de renta no válido`);
+        }
+    });
+
+    const iva = round2(data.lines.filter(l => l.taxType === 'IVA').reduce((sum, l) => sum + withholdingLineAmount(l), 0));
+    const total = round2(data.lines.reduce((sum, l) => sum + withholdingLineAmount(l), 0));
+    if (iva + (bill.withheldIva || 0) > bill.tax + 0.01) {
+        issues.push(`El IVA retenido supera el IVA de la factura ($${bill.tax.toFixed(2)})`);
+    }
+    if (total + billWithheld(bill) > bill.total + 0.01) {
+        issues.push(`Lo retenido supera el total de la factura ($${bill.total.toFixed(2)})`);
+    }
+
+    return issues;
+};
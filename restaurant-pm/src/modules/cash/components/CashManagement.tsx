@@ -0,0 +1,317 @@
+/**
+ * @file CashManagement.tsx
+ * @description Apertura y cierre de caja del empleado autenticado.
+ * Muestra las ventas por forma de pago del punto de emisión, registra
+ * ingresos/egresos manuales (caja chica, devoluciones de notas de crédito)
+ * y cierra con arqueo e impresión del reporte Z.
+ */
+import React, { useCallback, useEffect, useState } from 'react';
+import { CashSession, CashSessionDetail, CashMovementType } from '../types/cash.types';
+import { cashService } from '../services/cashService';
+import { CloseCashModal } from './CloseCashModal';
+import { getCashBalance } from '../utils/cashCount';
+import { WalletIcon, PrinterIcon, PlusIcon, MinusIcon, RefreshCcwIcon } from '../../../components/ui/Icons';
+import Card from '../../../components/ui/Card';
+import { toast } from '../../../components/ui/AlertProvider';
+import { logger } from '../../../utils/logger';
+
+type MovementMode = CashMovementType | 'refund';
+
+const formatDateTime = (value?: string) =>
+    value ? new Date(value).toLocaleString('es-EC', { dateStyle: 'short', timeStyle: 'short' }) : '—';
+
+const inputClass = 'w-full px-4 py-2 rounded-xl border border-gray-200 dark:border-dark-600 dark:bg-dark-800 text-sm';
+
+const StatTile: React.FC<{ label: string; value: number; highlight?: boolean }> = ({ label, value, highlight }) => (
+    <div className={`p-4 rounded-2xl ${highlight ? 'bg-blue-600 text-white' : 'bg-gray-50 dark:bg-dark-700 text-gray-900 dark:text-white'}`}>
+        <p className={`text-[10px] font-black uppercase tracking-widest ${highlight ? 'text-blue-100' : 'text-gray-400'}`}>{label}</p>
+        <p className="text-2xl font-black">${value.toFixed(2)}</p>
+    </div>
+);
+
+const CashManagement: React.FC = () => {
+    const [current, setCurrent] = useState<CashSessionDetail | null>(null);
+    const [history, setHistory] = useState<CashSession[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [openingFloat, setOpeningFloat] = useState('');
+    const [movementMode, setMovementMode] = useState<MovementMode>('out');
+    const [movementAmount, setMovementAmount] = useState('');
+    const [movementReason, setMovementReason] = useState('');
+    const [creditNoteId, setCreditNoteId] = useState('');
+    const [isClosing, setIsClosing] = useState(false);
+
+    const load = useCallback(async () => {
+        try {
+            setIsLoading(true);
+            const [detail, sessions] = await Promise.all([cashService.getCurrent(), cashService.getHistory()]);
+            setCurrent(detail);
+            setHistory(sessions);
+        } catch (error: any) {
+            logger.error('Failed to load cash sessions', error);
+            toast.error(error.message || 'No se pudo cargar la caja', 'Error');
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    const handleOpen = async () => {
+        try {
+            await cashService.open({ openingFloat: Number(openingFloat) || 0 });
+            toast.success('Caja abierta', 'Éxito');
+            setOpeningFloat('');
+            await load();
+        } catch (error: any) {
+            toast.error(error.message || 'No se pudo abrir la caja', 'Error');
+        }
+    };
+
+    const handleAddMovement = async () => {
+        if (!current) return;
+        try {
+            const payload = movementMode === 'refund'
+                ? { creditNoteId: creditNoteId.trim(), amount: movementAmount ? Number(movementAmount) : undefined, reason: movementReason || undefined }
+                : { type: movementMode, amount: Number(movementAmount), reason: movementReason };
+            await cashService.addMovement(current.session.id, payload);
+            toast.success('Movimiento registrado', 'Éxito');
+            setMovementAmount('');
+            setMovementReason('');
+            setCreditNoteId('');
+            setCurrent(await cashService.getCurrent());
+        } catch (error: any) {
+            toast.error(error.message || 'No se pudo registrar el movimiento', 'Error');
+        }
+    };
+
+    const handleClose = async (countedCash: number, notes: string) => {
+        if (!current) return;
+        try {
+            const closed = await cashService.close(current.session.id, { countedCash, notes: notes || undefined });
+            toast.success(getCashBalance(countedCash, closed.summary?.expectedCash ?? 0).label, 'Caja cerrada');
+            setIsClosing(false);
+            await load();
+            await openReport(closed.id);
+        } catch (error: any) {
+            toast.error(error.message || 'No se pudo cerrar la caja', 'Error');
+        }
+    };
+
+    const openReport = async (sessionId: string) => {
+        try {
+            const pdf = await cashService.getZReport(sessionId);
+            window.open(URL.createObjectURL(pdf), '_blank');
+        } catch (error: any) {
+            toast.error(error.message || 'No se pudo generar el reporte', 'Error');
+        }
+    };
+
+    const session = current?.session;
+    const summary = current?.summary;
+
+    return (
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+            <CloseCashModal
+                isOpen={isClosing}
+                expectedCash={summary?.expectedCash ?? 0}
+                onClose={() => setIsClosing(false)}
+                onConfirm={handleClose}
+            />
+
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-6">
+                <div>
+                    <h1 className="text-3xl md:text-4xl font-black text-gray-900 dark:text-white tracking-tighter uppercase mb-1">
+                        Caja
+                    </h1>
+                    <p className="text-gray-500 dark:text-gray-400 font-medium">
+                        {session
+                            ? `Punto de emisión ${session.estab}-${session.ptoEmi} · abierta ${formatDateTime(session.openedAt)} por ${session.openedBy.username}`
+                            : 'Abre la caja con el fondo inicial para empezar el turno.'}
+                    </p>
+                </div>
+                <button
+                    onClick={load}
+                    className="flex items-center gap-2 px-4 py-2 rounded-2xl bg-gray-100 dark:bg-dark-700 text-gray-600 dark:text-gray-300 text-xs font-black uppercase tracking-widest"
+                >
+                    <RefreshCcwIcon className="w-4 h-4" /> Actualizar
+                </button>
+            </div>
+
+            {isLoading ? (
+                <p className="text-center text-gray-400 py-10">Cargando caja...</p>
+            ) : !session || !summary ? (
+                <Card title="Apertura de caja">
+                    <div className="flex flex-col sm:flex-row gap-3 max-w-lg">
+                        <input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            value={openingFloat}
+                            onChange={e => setOpeningFloat(e.target.value)}
+                            placeholder="Fondo inicial ($)"
+                            className={inputClass}
+                        />
+                        <button
+                            onClick={handleOpen}
+                            className="flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-2xl font-black text-xs uppercase tracking-widest whitespace-nowrap"
+                        >
+                            <WalletIcon className="w-4 h-4" /> Abrir Caja
+                        </button>
+                    </div>
+                </Card>
+            ) : (
+                <>
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                        <StatTile label="Fondo inicial" value={session.openingFloat} />
+                        <StatTile label="Ventas efectivo" value={summary.cashSales} />
+                        <StatTile label="Ingresos" value={summary.cashIn} />
+                        <StatTile label="Egresos" value={summary.cashOut} />
+                        <StatTile label="Efectivo esperado" value={summary.expectedCash} highlight />
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        <Card title={`Ventas por forma de pago (${summary.billCount})`}>
+                            {summary.paymentTotals.length === 0 ? (
+                                <p className="text-sm text-gray-400">Aún no hay comprobantes en esta caja.</p>
+                            ) : (
+                                <ul className="divide-y divide-gray-100 dark:divide-dark-700">
+                                    {summary.paymentTotals.map(total => (
+                                        <li key={total.method} className="flex justify-between py-2 text-sm">
+                                            <span className="text-gray-600 dark:text-gray-300">{total.label} <span className="text-gray-400">({total.count})</span></span>
+                                            <span className="font-bold text-gray-900 dark:text-white">${total.amount.toFixed(2)}</span>
+                                        </li>
+                                    ))}
+                                    <li className="flex justify-between py-2 text-sm font-black">
+                                        <span>TOTAL</span>
+                                        <span>${summary.salesTotal.toFixed(2)}</span>
+                                    </li>
+                                </ul>
+                            )}
+                        </Card>
+
+                        <Card title="Movimientos de caja">
+                            <div className="flex gap-2 mb-3">
+                                {([['in', 'Ingreso'], ['out', 'Egreso'], ['refund', 'Devolución NC']] as [MovementMode, string][]).map(([mode, label]) => (
+                                    <button
+                                        key={mode}
+                                        onClick={() => setMovementMode(mode)}
+                                        className={`flex-1 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest ${movementMode === mode
+                                            ? 'bg-blue-600 text-white'
+                                            : 'bg-gray-100 text-gray-500 dark:bg-dark-700 dark:text-gray-400'
+                                            }`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 mb-4">
+                                {movementMode === 'refund' && (
+                                    <input value={creditNoteId} onChange={e => setCreditNoteId(e.target.value)} placeholder="N° nota de crédito (001-001-...)" className={inputClass} />
+                                )}
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step="0.01"
+                                    value={movementAmount}
+                                    onChange={e => setMovementAmount(e.target.value)}
+                                    placeholder={movementMode === 'refund' ? 'Monto (total NC)' : 'Monto'}
+                                    className={inputClass}
+                                />
+                                <input
+                                    value={movementReason}
+                                    onChange={e => setMovementReason(e.target.value)}
+                                    placeholder={movementMode === 'refund' ? 'Motivo (opcional)' : 'Motivo'}
+                                    className={`${inputClass} ${movementMode === 'refund' ? '' : 'sm:col-span-2'}`}
+                                />
+                            </div>
+                            <button
+                                onClick={handleAddMovement}
+                                className="w-full flex items-center justify-center gap-2 py-2 rounded-xl bg-gray-900 dark:bg-white text-white dark:text-gray-900 text-xs font-black uppercase tracking-widest"
+                            >
+                                {movementMode === 'in' ? <PlusIcon className="w-4 h-4" /> : <MinusIcon className="w-4 h-4" />} Registrar
+                            </button>
+
+                            {session.movements.length > 0 && (
+                                <ul className="mt-4 divide-y divide-gray-100 dark:divide-dark-700">
+                                    {session.movements.map(movement => (
+                                        <li key={movement.id} className="flex justify-between py-2 text-sm">
+                                            <span className="text-gray-600 dark:text-gray-300">
+                                                {movement.reason}
+                                                <span className="block text-[10px] text-gray-400">{formatDateTime(movement.createdAt)} · {movement.createdBy.username}</span>
+                                            </span>
+                                            <span className={`font-bold ${movement.type === 'in' ? 'text-green-600' : 'text-red-600'}`}>
+                                                {movement.type === 'in' ? '+' : '-'}${movement.amount.toFixed(2)}
+                                            </span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </Card>
+                    </div>
+
+                    <div className="flex flex-col sm:flex-row justify-end gap-3">
+                        <button
+                            onClick={() => openReport(session.id)}
+                            className="flex items-center justify-center gap-2 px-6 py-3 rounded-2xl bg-gray-100 dark:bg-dark-700 text-gray-700 dark:text-gray-200 text-xs font-black uppercase tracking-widest"
+                        >
+                            <PrinterIcon className="w-4 h-4" /> Reporte X (parcial)
+                        </button>
+                        <button
+                            onClick={() => setIsClosing(true)}
+                            className="flex items-center justify-center gap-2 px-6 py-3 rounded-2xl bg-red-600 hover:bg-red-700 text-white text-xs font-black uppercase tracking-widest shadow-lg shadow-red-500/20"
+                        >
+                            <WalletIcon className="w-4 h-4" /> Cerrar Caja
+                        </button>
+                    </div>
+                </>
+            )}
+
+            <Card title="Historial de cierres">
+                {history.filter(s => s.status === 'closed').length === 0 ? (
+                    <p className="text-sm text-gray-400">Sin cierres registrados.</p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-[10px] font-black uppercase tracking-widest text-gray-400">
+                                    <th className="py-2">Caja</th>
+                                    <th>Apertura</th>
+                                    <th>Cierre</th>
+                                    <th>Cajero</th>
+                                    <th className="text-right">Esperado</th>
+                                    <th className="text-right">Contado</th>
+                                    <th className="text-right">Diferencia</th>
+                                    <th />
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100 dark:divide-dark-700">
+                                {history.filter(s => s.status === 'closed').map(s => (
+                                    <tr key={s.id} className="text-gray-700 dark:text-gray-300">
+                                        <td className="py-2 font-bold">{s.estab}-{s.ptoEmi}</td>
+                                        <td>{formatDateTime(s.openedAt)}</td>
+                                        <td>{formatDateTime(s.closedAt)}</td>
+                                        <td>{s.closedBy?.username ?? s.openedBy.username}</td>
+                                        <td className="text-right">${(s.summary?.expectedCash ?? 0).toFixed(2)}</td>
+                                        <td className="text-right">${(s.countedCash ?? 0).toFixed(2)}</td>
+                                        <td className={`text-right font-bold ${(s.difference ?? 0) < 0 ? 'text-red-600' : (s.difference ?? 0) > 0 ? 'text-blue-600' : 'text-green-600'}`}>
+                                            {(s.difference ?? 0).toFixed(2)}
+                                        </td>
+                                        <td className="text-right">
+                                            <button onClick={() => openReport(s.id)} title="Reporte Z" className="p-2 text-gray-400 hover:text-blue-600">
+                                                <PrinterIcon className="w-4 h-4" />
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </Card>
+        </div>
+    );
+};
+
+export default CashManagement;
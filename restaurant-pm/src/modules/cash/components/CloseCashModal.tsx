@@ -0,0 +1,142 @@
+/**
+ * @file CloseCashModal.tsx
+ * @description Cierre de caja: arqueo por denominaciones (o monto directo),
+ * cuadre contra el efectivo esperado y observaciones.
+ */
+import React, { useEffect, useMemo, useState } from 'react';
+import Modal from '../../../components/ui/Modal';
+import { DENOMINATIONS, denominationKey, countCash, getCashBalance } from '../utils/cashCount';
+
+interface CloseCashModalProps {
+    isOpen: boolean;
+    expectedCash: number;
+    onClose: () => void;
+    onConfirm: (countedCash: number, notes: string) => Promise<void>;
+}
+
+const BALANCE_STYLES = {
+    exact: 'bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400',
+    over: 'bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-400',
+    short: 'bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-400'
+};
+
+export const CloseCashModal: React.FC<CloseCashModalProps> = ({ isOpen, expectedCash, onClose, onConfirm }) => {
+    const [useDenominations, setUseDenominations] = useState(true);
+    const [counts, setCounts] = useState<Record<string, number>>({});
+    const [manualAmount, setManualAmount] = useState('');
+    const [notes, setNotes] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setCounts({});
+            setManualAmount('');
+            setNotes('');
+        }
+    }, [isOpen]);
+
+    const counted = useMemo(
+        () => (useDenominations ? countCash(counts) : Math.max(0, Number(manualAmount) || 0)),
+        [useDenominations, counts, manualAmount]
+    );
+    const balance = getCashBalance(counted, expectedCash);
+
+    const handleConfirm = async () => {
+        setIsSaving(true);
+        try {
+            await onConfirm(counted, notes.trim());
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Cerrar Caja" maxWidth="max-w-2xl">
+            <div className="space-y-5">
+                <div className="flex gap-2">
+                    {[true, false].map(mode => (
+                        <button
+                            key={String(mode)}
+                            onClick={() => setUseDenominations(mode)}
+                            className={`flex-1 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-colors ${useDenominations === mode
+                                ? 'bg-blue-600 text-white'
+                                : 'bg-gray-100 text-gray-500 dark:bg-dark-700 dark:text-gray-400'
+                                }`}
+                        >
+                            {mode ? 'Contar por denominación' : 'Ingresar monto'}
+                        </button>
+                    ))}
+                </div>
+
+                {useDenominations ? (
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                        {DENOMINATIONS.map(d => {
+                            const key = denominationKey(d);
+                            return (
+                                <label key={key} className="flex items-center justify-between gap-2 p-2 rounded-xl bg-gray-50 dark:bg-dark-700">
+                                    <span className="text-xs font-bold text-gray-600 dark:text-gray-300">
+                                        {d.label} <span className="text-[9px] uppercase text-gray-400">{d.kind === 'bill' ? 'billete' : 'moneda'}</span>
+                                    </span>
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        step={1}
+                                        value={counts[key] ?? ''}
+                                        onChange={e => setCounts(prev => ({ ...prev, [key]: Number(e.target.value) }))}
+                                        className="w-16 px-2 py-1 rounded-lg border border-gray-200 dark:border-dark-600 dark:bg-dark-800 text-right text-sm"
+                                        aria-label={`Cantidad de ${d.label} (${d.kind === 'bill' ? 'billete' : 'moneda'})`}
+                                    />
+                                </label>
+                            );
+                        })}
+                    </div>
+                ) : (
+                    <input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={manualAmount}
+                        onChange={e => setManualAmount(e.target.value)}
+                        placeholder="Efectivo contado"
+                        className="w-full px-4 py-3 rounded-xl border border-gray-200 dark:border-dark-600 dark:bg-dark-800 text-lg font-bold"
+                    />
+                )}
+
+                <div className="grid grid-cols-2 gap-3 text-center">
+                    <div className="p-3 rounded-xl bg-gray-50 dark:bg-dark-700">
+                        <p className="text-[10px] font-black uppercase tracking-widest text-gray-400">Esperado</p>
+                        <p className="text-xl font-black text-gray-900 dark:text-white">${expectedCash.toFixed(2)}</p>
+                    </div>
+                    <div className="p-3 rounded-xl bg-gray-50 dark:bg-dark-700">
+                        <p className="text-[10px] font-black uppercase tracking-widest text-gray-400">Contado</p>
+                        <p className="text-xl font-black text-gray-900 dark:text-white">${counted.toFixed(2)}</p>
+                    </div>
+                </div>
+                <p className={`p-3 rounded-xl text-center text-sm font-black uppercase tracking-widest ${BALANCE_STYLES[balance.status]}`}>
+                    {balance.label}
+                </p>
+
+                <textarea
+                    value={notes}
+                    onChange={e => setNotes(e.target.value)}
+                    rows={2}
+                    placeholder="Observaciones del cierre (opcional)"
+                    className="w-full px-4 py-2 rounded-xl border border-gray-200 dark:border-dark-600 dark:bg-dark-800 text-sm"
+                />
+
+                <div className="flex justify-end gap-3">
+                    <button onClick={onClose} className="px-5 py-2 rounded-xl text-xs font-black uppercase tracking-widest text-gray-500 hover:bg-gray-100 dark:hover:bg-dark-700">
+                        Cancelar
+                    </button>
+                    <button
+                        onClick={handleConfirm}
+                        disabled={isSaving}
+                        className="px-5 py-2 rounded-xl bg-red-600 hover:bg-red-700 disabled:opacity-50 text-white text-xs font-black uppercase tracking-widest"
+                    >
+                        {isSaving ? 'Cerrando...' : 'Cerrar Caja'}
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
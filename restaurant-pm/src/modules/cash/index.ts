@@ -0,0 +1,3 @@
+export * from './types/cash.types';
+export { cashService } from './services/cashService';
+export * from './utils/cashCount';
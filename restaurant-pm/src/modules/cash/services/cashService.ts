@@ -0,0 +1,67 @@
+/**
+ * @file cashService.ts
+ * @description Servicio singleton para sesiones de caja.
+ * Apertura con fondo inicial, movimientos manuales, cierre y reporte Z (PDF).
+ */
+
+import { apiService } from '../../../api';
+import { API_BASE_URL, API_ENDPOINTS } from '../../../config/api.config';
+import {
+    CashSession,
+    CashSessionDetail,
+    OpenCashSessionDTO,
+    CashMovementDTO,
+    CloseCashSessionDTO
+} from '../types/cash.types';
+
+export class CashService {
+    private static instance: CashService;
+
+    private constructor() { }
+
+    public static getInstance(): CashService {
+        if (!CashService.instance) {
+            CashService.instance = new CashService();
+        }
+        return CashService.instance;
+    }
+
+    /** Caja abierta del usuario autenticado (null si no tiene) */
+    public async getCurrent(): Promise<CashSessionDetail | null> {
+        return apiService.get(API_ENDPOINTS.CASH_SESSIONS.CURRENT);
+    }
+
+    public async getHistory(limit: number = 30): Promise<CashSession[]> {
+        return apiService.get(`${API_ENDPOINTS.CASH_SESSIONS.BASE}?limit=${limit}`);
+    }
+
+    public async getById(id: string): Promise<CashSessionDetail> {
+        return apiService.get(API_ENDPOINTS.CASH_SESSIONS.BY_ID(id));
+    }
+
+    public async open(data: OpenCashSessionDTO): Promise<CashSession> {
+        return apiService.post(API_ENDPOINTS.CASH_SESSIONS.BASE, data);
+    }
+
+    public async addMovement(id: string, data: CashMovementDTO): Promise<CashSession> {
+        return apiService.post(API_ENDPOINTS.CASH_SESSIONS.MOVEMENTS(id), data);
+    }
+
+    public async close(id: string, data: CloseCashSessionDTO): Promise<CashSession> {
+        return apiService.post(API_ENDPOINTS.CASH_SESSIONS.CLOSE(id), data);
+    }
+
+    /** PDF del reporte Z (requiere token, por eso no se abre la URL directamente) */
+    public async getZReport(id: string): Promise<Blob> {
+        const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.CASH_SESSIONS.Z_REPORT(id)}`, {
+            method: 'GET',
+            headers: {
+                'Authorization': `Bearer ${apiService.getToken()}`,
+            },
+        });
+        if (!response.ok) throw new Error('Error al generar el reporte Z');
+        return response.blob();
+    }
+}
+
+export const cashService = CashService.getInstance();
@@ -0,0 +1,78 @@
+/**
+ * @file cash.types.ts
+ * @description Tipos de sesiones de caja (apertura, movimientos, cierre y reporte Z).
+ * Reflejan la entidad CashSession del backend.
+ */
+
+export type CashSessionStatus = 'open' | 'closed';
+export type CashMovementType = 'in' | 'out';
+
+export interface CashSessionUser {
+    userId: string;
+    username: string;
+}
+
+export interface CashMovement {
+    id: string;
+    type: CashMovementType;
+    amount: number;
+    reason: string;
+    creditNoteId?: string;
+    createdBy: CashSessionUser;
+    createdAt: string;
+}
+
+export interface CashPaymentTotal {
+    method: string;
+    label: string;
+    count: number;
+    amount: number;
+}
+
+export interface CashSessionSummary {
+    billCount: number;
+    salesTotal: number;
+    paymentTotals: CashPaymentTotal[];
+    cashSales: number;
+    cashIn: number;
+    cashOut: number;
+    expectedCash: number;
+}
+
+export interface CashSession {
+    id: string;
+    estab: string;
+    ptoEmi: string;
+    status: CashSessionStatus;
+    openedBy: CashSessionUser;
+    openedAt: string;
+    openingFloat: number;
+    movements: CashMovement[];
+    closedBy?: CashSessionUser;
+    closedAt?: string;
+    countedCash?: number;
+    difference?: number;
+    summary?: CashSessionSummary;
+    notes?: string;
+}
+
+export interface CashSessionDetail {
+    session: CashSession;
+    summary: CashSessionSummary;
+}
+
+export interface OpenCashSessionDTO {
+    openingFloat: number;
+    estab?: string;
+    ptoEmi?: string;
+}
+
+export type CashMovementDTO =
+    | { type: CashMovementType; amount: number; reason: string }
+    /** creditNoteId acepta el ID o el número de documento de la NC */
+    | { creditNoteId: string; amount?: number; reason?: string };
+
+export interface CloseCashSessionDTO {
+    countedCash: number;
+    notes?: string;
+}
@@ -0,0 +1,54 @@
+/**
+ * @file cashCount.ts
+ * @description Arqueo de caja: conteo por denominaciones (USD) y cuadre contra lo esperado.
+ */
+
+export interface Denomination {
+    value: number;
+    label: string;
+    kind: 'bill' | 'coin';
+}
+
+/** Billetes y monedas en circulación en Ecuador */
+export const DENOMINATIONS: Denomination[] = [
+    { value: 100, label: '$100', kind: 'bill' },
+    { value: 50, label: '$50', kind: 'bill' },
+    { value: 20, label: '$20', kind: 'bill' },
+    { value: 10, label: '$10', kind: 'bill' },
+    { value: 5, label: '$5', kind: 'bill' },
+    { value: 1, label: '$1', kind: 'bill' },
+    { value: 1, label: '$1', kind: 'coin' },
+    { value: 0.5, label: '50¢', kind: 'coin' },
+    { value: 0.25, label: '25¢', kind: 'coin' },
+    { value: 0.1, label: '10¢', kind: 'coin' },
+    { value: 0.05, label: '5¢', kind: 'coin' },
+    { value: 0.01, label: '1¢', kind: 'coin' }
+];
+
+/** Clave única de la denominación (el dólar existe en billete y moneda) */
+export const denominationKey = (d: Denomination): string => `${d.kind}-${d.value}`;
+
+/** Total contado a partir de cantidades por denominación; se suma en centavos */
+export const countCash = (counts: Record<string, number>): number => {
+    const cents = DENOMINATIONS.reduce((sum, d) => {
+        const qty = Math.max(0, Math.floor(Number(counts[denominationKey(d)]) || 0));
+        return sum + qty * Math.round(d.value * 100);
+    }, 0);
+    return cents / 100;
+};
+
+export type CashBalanceStatus = 'exact' | 'over' | 'short';
+
+export interface CashBalance {
+    difference: number;
+    status: CashBalanceStatus;
+    label: string;
+}
+
+/** Sobrante/faltante del contado frente al esperado */
+export const getCashBalance = (counted: number, expected: number): CashBalance => {
+    const difference = (Math.round(counted * 100) - Math.round(expected * 100)) / 100;
+    if (difference === 0) return { difference, status: 'exact', label: 'Caja cuadrada' };
+    if (difference > 0) return { difference, status: 'over', label: `Sobrante $${difference.toFixed(2)}` };
+    return { difference, status: 'short', label: `Faltante $${Math.abs(difference).toFixed(2)}` };
+};
@@ -13,6 +13,7 @@ import { uploadToCloudinary, optimizeImage } from '../../../utils/cloudinary';
 import { logger } from '../../../utils/logger';
 import { Validators } from '../../../utils/validators';
 import { toast } from '../../../components/ui/AlertProvider';
+import { useRestaurantConfig } from '../../../contexts/RestaurantConfigContext';
 
 const inputClass = "w-full rounded-2xl border border-gray-200 bg-gray-50 p-4 text-gray-900 text-sm font-medium focus:border-blue-500 focus:bg-white focus:ring-4 focus:ring-blue-500/10 focus:outline-none transition-all dark:border-gray-700 dark:bg-dark-900/50 dark:text-white dark:placeholder-gray-500 dark:focus:border-blue-500 dark:focus:bg-dark-900 dark:focus:ring-blue-500/10";
 const labelClass = "text-[10px] font-black uppercase tracking-widest text-gray-400 dark:text-gray-500 mb-1.5 block ml-1";
@@ -40,6 +41,7 @@ export const CategoryFormModal: React.FC<CategoryFormModalProps> = ({ isOpen, on
     const [isUploading, setIsUploading] = useState(false);
     const [errors, setErrors] = useState<Record<string, string>>({});
     const isEditing = category !== null;
+    const kitchenStations = useRestaurantConfig().config.kitchenStations || [];
 
     // Snapshot comparable — para saber si el empleado cambió algo
     const snapshot = (data: Partial<Category>): string => JSON.stringify({
@@ -48,7 +50,8 @@ export const CategoryFormModal: React.FC<CategoryFormModalProps> = ({ isOpen, on
         productType: data.productType || 'menu',
         visibleOnWebsite: data.visibleOnWebsite ?? true,
         available: data.available ?? true,
-        imageUrl: data.imageUrl || ''
+        imageUrl: data.imageUrl || '',
+        stationId: data.stationId || null
     });
 
     useEffect(() => {
@@ -62,7 +65,8 @@ export const CategoryFormModal: React.FC<CategoryFormModalProps> = ({ isOpen, on
                     visibleOnWebsite: true,
                     available: true,
                     imageUrl: '',
-                    sortOrder: 0
+                    sortOrder: 0,
+                    stationId: null
                 };
             setFormData(initial);
             setInitialSnapshot(snapshot(initial));
@@ -173,6 +177,7 @@ export const CategoryFormModal: React.FC<CategoryFormModalProps> = ({ isOpen, on
                 available: formData.available ?? true,
                 imageUrl: finalImageUrl,
                 sortOrder: nextSortOrder,
+                stationId: formData.stationId || null,
             };
 
             await onSave(categoryToSave);
@@ -258,6 +263,23 @@ export const CategoryFormModal: React.FC<CategoryFormModalProps> = ({ isOpen, on
                     {errors.productType && <p className={errorClass}>{errors.productType}</p>}
                 </div>
 
+                {kitchenStations.length > 0 && (
+                    <div>
+                        <label className={labelClass}>Estación de Cocina {optionalTag}</label>
+                        <select
+                            name="stationId"
+                            value={formData.stationId || ''}
+                            onChange={e => setFormData(prev => ({ ...prev, stationId: e.target.value || null }))}
+                            className={inputClass}
+                        >
+                            <option value="">General</option>
+                            {kitchenStations.map(station => (
+                                <option key={station.id} value={station.id}>{station.name}</option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+
                 <div>
                     <label className={labelClass}>Descripción {optionalTag}</label>
                     <textarea
@@ -13,6 +13,7 @@ export interface Category {
     visibleOnWebsite: boolean;
     sortOrder: number;
     available: boolean;
+    stationId?: string | null; // Estación de cocina de sus platos
     productCount?: number;
     createdAt?: string;
     updatedAt?: string;
@@ -26,6 +27,7 @@ export interface CreateCategoryDTO {
     visibleOnWebsite?: boolean;
     sortOrder?: number;
     available?: boolean;
+    stationId?: string | null;
 }
 
 export interface UpdateCategoryDTO {
@@ -36,6 +38,7 @@ export interface UpdateCategoryDTO {
     visibleOnWebsite?: boolean;
     sortOrder?: number;
     available?: boolean;
+    stationId?: string | null;
 }
 
 export interface ReorderCategoryDTO {
@@ -4,7 +4,7 @@
  */
 import React, { useState, useEffect } from 'react';
 import { ViewType } from '../../../types';
-import { Role } from '../types/hr.types';
+import { ActionPermission, Role } from '../types/hr.types';
 import { NAV_ITEMS } from '../../../constants';
 import Modal from '../../../components/ui/Modal';
 
@@ -12,6 +12,11 @@ const inputClass = "w-full rounded-2xl border border-gray-100 bg-gray-50 p-4 tex
 const labelClass = "block text-[10px] font-black text-gray-400 dark:text-gray-500 uppercase tracking-[0.2em] mb-2 ml-1";
 const errorClass = "text-[10px] font-bold text-red-500 mt-1 ml-1 animate-pulse";
 
+/** Permisos que habilitan una operación, no una vista */
+const ACTION_PERMISSIONS: { permission: ActionPermission; label: string }[] = [
+    { permission: 'discounts', label: 'Autorizar descuentos' }
+];
+
 export interface RoleFormModalProps {
     isOpen: boolean;
     onClose: () => void;
@@ -31,7 +36,7 @@ export const RoleFormModal: React.FC<RoleFormModalProps> = ({ isOpen, onClose, o
         }
     }, [isOpen, role, isEditing]);
 
-    const handlePermissionChange = (view: ViewType, isChecked: boolean) => {
+    const handlePermissionChange = (view: ViewType | ActionPermission, isChecked: boolean) => {
         setFormData(prev => ({ ...prev, permissions: { ...prev.permissions, [view]: isChecked } }));
     };
 
@@ -108,6 +113,33 @@ export const RoleFormModal: React.FC<RoleFormModalProps> = ({ isOpen, onClose, o
                     </div>
                 </div>
 
+                <div>
+                    <label className={labelClass}>Acciones</label>
+                    <div className="grid grid-cols-2 gap-3 px-1">
+                        {ACTION_PERMISSIONS.map(item => (
+                            <div
+                                key={item.permission}
+                                className="flex items-center p-4 border rounded-2xl bg-gray-50/50 dark:bg-dark-900 dark:border-dark-700/50 hover:bg-white dark:hover:bg-dark-800 hover:border-blue-500/30 transition-all cursor-pointer group"
+                                onClick={() => handlePermissionChange(item.permission, !formData.permissions?.[item.permission])}
+                            >
+                                <input
+                                    type="checkbox"
+                                    id={`perm-${item.permission}`}
+                                    checked={formData.permissions?.[item.permission] || false}
+                                    onChange={(e) => handlePermissionChange(item.permission, e.target.checked)}
+                                    className="h-5 w-5 text-blue-600 rounded-lg border-gray-300 focus:ring-blue-500 transition-all cursor-pointer"
+                                />
+                                <label
+                                    htmlFor={`perm-${item.permission}`}
+                                    className="ml-3 text-[10px] font-black uppercase tracking-widest text-gray-700 dark:text-gray-300 cursor-pointer w-full select-none group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors"
+                                >
+                                    {item.label}
+                                </label>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
                 <div className="flex justify-end pt-4 gap-4">
                     <button 
                         type="button" 
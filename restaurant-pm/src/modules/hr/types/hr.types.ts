@@ -19,11 +19,14 @@ export interface Employee {
     equipment: { uniform: boolean; epp: boolean };
 }
 
+/** Permisos de acción: no abren una vista, habilitan una operación */
+export type ActionPermission = 'discounts';
+
 export interface Role {
     id: string;
     name: string;
     permissions: {
-        [key in ViewType]?: boolean;
+        [key in ViewType | ActionPermission]?: boolean;
     };
 }
 
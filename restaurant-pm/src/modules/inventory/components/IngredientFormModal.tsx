@@ -0,0 +1,103 @@
+/**
+ * @file IngredientFormModal.tsx
+ * @description Alta y edición de un ingrediente.
+ * El stock solo se indica al crear; después se corrige con compras, mermas o conteos.
+ */
+import React, { useEffect, useState } from 'react';
+import Modal from '../../../components/ui/Modal';
+import { Ingredient, IngredientDTO, IngredientUnit } from '../types/inventory.types';
+import { INGREDIENT_UNITS } from '../utils/inventory';
+
+interface IngredientFormModalProps {
+    isOpen: boolean;
+    ingredient: Ingredient | null;
+    onClose: () => void;
+    onSave: (data: IngredientDTO) => Promise<void>;
+}
+
+const inputClass = 'w-full px-4 py-2 rounded-xl border border-gray-200 dark:border-dark-600 dark:bg-dark-800 text-sm';
+const labelClass = 'block text-[10px] font-black text-gray-400 uppercase tracking-widest mb-1';
+
+export const IngredientFormModal: React.FC<IngredientFormModalProps> = ({ isOpen, ingredient, onClose, onSave }) => {
+    const [name, setName] = useState('');
+    const [unit, setUnit] = useState<IngredientUnit>('kg');
+    const [stock, setStock] = useState('');
+    const [minStock, setMinStock] = useState('');
+    const [cost, setCost] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setName(ingredient?.name ?? '');
+        setUnit(ingredient?.unit ?? 'kg');
+        setStock('');
+        setMinStock(ingredient ? String(ingredient.minStock) : '');
+        setCost(ingredient?.cost !== undefined ? String(ingredient.cost) : '');
+    }, [isOpen, ingredient]);
+
+    const handleSave = async () => {
+        if (!name.trim()) return;
+        setIsSaving(true);
+        try {
+            await onSave({
+                name: name.trim(),
+                unit,
+                stock: ingredient ? undefined : Number(stock) || 0,
+                minStock: Number(minStock) || 0,
+                cost: cost === '' ? undefined : Number(cost)
+            });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={ingredient ? `Editar ${ingredient.name}` : 'Nuevo ingrediente'}>
+            <div className="space-y-4">
+                <div>
+                    <label htmlFor="ingredient-name" className={labelClass}>Nombre</label>
+                    <input id="ingredient-name" value={name} onChange={e => setName(e.target.value)} placeholder="Ej. Carne de chivo" className={inputClass} />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                    <div>
+                        <label htmlFor="ingredient-unit" className={labelClass}>Unidad</label>
+                        <select id="ingredient-unit" value={unit} onChange={e => setUnit(e.target.value as IngredientUnit)} className={inputClass}>
+                            {INGREDIENT_UNITS.map(u => <option key={u.value} value={u.value}>{u.label}</option>)}
+                        </select>
+                    </div>
+                    {!ingredient && (
+                        <div>
+                            <label htmlFor="ingredient-stock" className={labelClass}>Stock inicial</label>
+                            <input id="ingredient-stock" type="number" min={0} step="0.001" value={stock} onChange={e => setStock(e.target.value)} className={inputClass} />
+                        </div>
+                    )}
+                    <div>
+                        <label htmlFor="ingredient-min" className={labelClass}>Stock mínimo (alerta)</label>
+                        <input id="ingredient-min" type="number" min={0} step="0.001" value={minStock} onChange={e => setMinStock(e.target.value)} className={inputClass} />
+                    </div>
+                    <div>
+                        <label htmlFor="ingredient-cost" className={labelClass}>Costo por {unit} ($)</label>
+                        <input id="ingredient-cost" type="number" min={0} step="0.01" value={cost} onChange={e => setCost(e.target.value)} className={inputClass} />
+                    </div>
+                </div>
+
+                <div className="flex gap-3 pt-2">
+                    <button
+                        onClick={onClose}
+                        disabled={isSaving}
+                        className="flex-1 px-6 py-3 rounded-2xl bg-gray-50 text-gray-500 hover:bg-gray-100 dark:bg-dark-700 dark:text-gray-400 font-black text-[10px] uppercase tracking-widest disabled:opacity-50"
+                    >
+                        Cancelar
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={!name.trim() || isSaving}
+                        className="flex-1 px-6 py-3 rounded-2xl bg-blue-600 hover:bg-blue-700 text-white font-black text-[10px] uppercase tracking-widest disabled:opacity-50"
+                    >
+                        {isSaving ? 'Guardando…' : 'Guardar'}
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
@@ -0,0 +1,339 @@
+/**
+ * @file InventoryManagement.tsx
+ * @description Inventario de ingredientes.
+ * Los pedidos descuentan las recetas automáticamente (al crear o al completar,
+ * según la configuración) y las cancelaciones y notas de crédito devuelven al
+ * stock. Aquí se registran compras, mermas y conteos, se definen las recetas y
+ * se consulta el kardex.
+ */
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import Card from '../../../components/ui/Card';
+import { toast } from '../../../components/ui/AlertProvider';
+import { AlertCircleIcon, EditIcon, PackageIcon, PlusIcon, RefreshCcwIcon, TrashIcon } from '../../../components/ui/Icons';
+import { useRestaurantConfig } from '../../../contexts/RestaurantConfigContext';
+import { menuService } from '../../menu/services/MenuService';
+import { MenuItem } from '../../menu/types/menu.types';
+import { logger } from '../../../utils/logger';
+import { inventoryService } from '../services/inventoryService';
+import { Ingredient, IngredientDTO, RecipeLine, StockMovement, StockMovementDTO } from '../types/inventory.types';
+import { MOVEMENT_LABELS, formatQuantity, isLowStock, sortByStockStatus } from '../utils/inventory';
+import { IngredientFormModal } from './IngredientFormModal';
+import { StockMovementModal } from './StockMovementModal';
+import { RecipeEditor } from './RecipeEditor';
+
+type InventoryTab = 'ingredients' | 'recipes' | 'movements';
+
+const TABS: [InventoryTab, string][] = [['ingredients', 'Ingredientes'], ['recipes', 'Recetas'], ['movements', 'Kardex']];
+
+const formatDateTime = (value: string) =>
+    new Date(value).toLocaleString('es-EC', { dateStyle: 'short', timeStyle: 'short' });
+
+const errorMessage = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+const InventoryManagement: React.FC = () => {
+    const { config, updateConfig } = useRestaurantConfig();
+    const [tab, setTab] = useState<InventoryTab>('ingredients');
+    const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+    const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+    const [movements, setMovements] = useState<StockMovement[]>([]);
+    const [movementFilter, setMovementFilter] = useState('');
+    const [isLoading, setIsLoading] = useState(true);
+    const [editing, setEditing] = useState<Ingredient | null>(null);
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    const [moving, setMoving] = useState<Ingredient | null>(null);
+    const [selectedMenuItemId, setSelectedMenuItemId] = useState('');
+
+    const deductOn = config.inventoryDeductOn || 'created';
+
+    const loadIngredients = useCallback(async () => {
+        setIngredients(await inventoryService.getIngredients());
+    }, []);
+
+    const loadMovements = useCallback(async () => {
+        setMovements(await inventoryService.getMovements({ ingredientId: movementFilter || undefined }));
+    }, [movementFilter]);
+
+    const load = useCallback(async () => {
+        try {
+            setIsLoading(true);
+            const [items] = await Promise.all([menuService.getAll(), loadIngredients()]);
+            setMenuItems(items);
+        } catch (error) {
+            logger.error('Failed to load inventory', error);
+            toast.error(errorMessage(error, 'No se pudo cargar el inventario'), 'Error');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [loadIngredients]);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    useEffect(() => {
+        if (tab !== 'movements') return;
+        loadMovements().catch(error => toast.error(errorMessage(error, 'No se pudo cargar el kardex'), 'Error'));
+    }, [tab, loadMovements]);
+
+    const sortedIngredients = useMemo(() => sortByStockStatus(ingredients), [ingredients]);
+    const lowCount = ingredients.filter(isLowStock).length;
+    const selectedMenuItem = menuItems.find(m => m.id === selectedMenuItemId) ?? null;
+
+    const handleSaveIngredient = async (data: IngredientDTO) => {
+        try {
+            if (editing) {
+                const { stock: _stock, ...changes } = data;
+                await inventoryService.updateIngredient(editing.id, changes);
+            } else {
+                await inventoryService.createIngredient(data);
+            }
+            toast.success(editing ? 'Ingrediente actualizado' : 'Ingrediente creado', 'Éxito');
+            setIsFormOpen(false);
+            setEditing(null);
+            await loadIngredients();
+        } catch (error) {
+            toast.error(errorMessage(error, 'No se pudo guardar el ingrediente'), 'Error');
+        }
+    };
+
+    const handleDelete = async (ingredient: Ingredient) => {
+        if (!window.confirm(`¿Dar de baja "${ingredient.name}"?`)) return;
+        try {
+            await inventoryService.deleteIngredient(ingredient.id);
+            toast.success('Ingrediente dado de baja', 'Éxito');
+            await loadIngredients();
+        } catch (error) {
+            toast.error(errorMessage(error, 'No se pudo dar de baja'), 'Error');
+        }
+    };
+
+    const handleMovement = async (ingredient: Ingredient, data: StockMovementDTO) => {
+        try {
+            const movement = await inventoryService.addMovement(ingredient.id, data);
+            toast.success(movement ? `${MOVEMENT_LABELS[movement.type]} registrada` : 'El conteo coincide con el sistema', 'Inventario');
+            setMoving(null);
+            await loadIngredients();
+        } catch (error) {
+            toast.error(errorMessage(error, 'No se pudo registrar el movimiento'), 'Error');
+        }
+    };
+
+    const handleSaveRecipe = async (menuItem: MenuItem, recipe: RecipeLine[]) => {
+        try {
+            const updated = await inventoryService.setRecipe(menuItem.id, recipe);
+            setMenuItems(prev => prev.map(m => (m.id === updated.id ? { ...m, recipe: updated.recipe } : m)));
+            toast.success(`Receta de ${menuItem.name} guardada`, 'Éxito');
+        } catch (error) {
+            toast.error(errorMessage(error, 'No se pudo guardar la receta'), 'Error');
+        }
+    };
+
+    const handleDeductOnChange = async (value: 'created' | 'completed') => {
+        try {
+            await updateConfig({ inventoryDeductOn: value });
+        } catch (error) {
+            toast.error(errorMessage(error, 'No se pudo guardar la configuración'), 'Error');
+        }
+    };
+
+    return (
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+            <IngredientFormModal
+                isOpen={isFormOpen}
+                ingredient={editing}
+                onClose={() => { setIsFormOpen(false); setEditing(null); }}
+                onSave={handleSaveIngredient}
+            />
+            <StockMovementModal ingredient={moving} onClose={() => setMoving(null)} onConfirm={handleMovement} />
+
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-6">
+                <div>
+                    <h1 className="text-3xl md:text-4xl font-black text-gray-900 dark:text-white tracking-tighter uppercase mb-1">
+                        Inventario
+                    </h1>
+                    <p className="text-gray-500 dark:text-gray-400 font-medium">
+                        {lowCount > 0
+                            ? `${lowCount} ingrediente(s) en o bajo el stock mínimo`
+                            : 'Stock de ingredientes, recetas y movimientos.'}
+                    </p>
+                </div>
+                <div className="flex gap-2">
+                    <button
+                        onClick={load}
+                        className="flex items-center gap-2 px-4 py-2 rounded-2xl bg-gray-100 dark:bg-dark-700 text-gray-600 dark:text-gray-300 text-xs font-black uppercase tracking-widest"
+                    >
+                        <RefreshCcwIcon className="w-4 h-4" /> Actualizar
+                    </button>
+                    <button
+                        onClick={() => { setEditing(null); setIsFormOpen(true); }}
+                        className="flex items-center gap-2 px-4 py-2 rounded-2xl bg-blue-600 hover:bg-blue-700 text-white text-xs font-black uppercase tracking-widest"
+                    >
+                        <PlusIcon className="w-4 h-4" /> Ingrediente
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex gap-2">
+                {TABS.map(([id, label]) => (
+                    <button
+                        key={id}
+                        onClick={() => setTab(id)}
+                        className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest ${tab === id
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-gray-100 text-gray-500 dark:bg-dark-700 dark:text-gray-400'
+                            }`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            {isLoading ? (
+                <p className="text-center text-gray-400 py-10">Cargando inventario...</p>
+            ) : tab === 'ingredients' ? (
+                <Card title={`Ingredientes (${ingredients.length})`}>
+                    {ingredients.length === 0 ? (
+                        <p className="text-sm text-gray-400">Aún no hay ingredientes registrados.</p>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-left text-[10px] font-black uppercase tracking-widest text-gray-400">
+                                        <th className="py-2">Ingrediente</th>
+                                        <th className="text-right">Stock</th>
+                                        <th className="text-right">Mínimo</th>
+                                        <th className="text-right">Costo</th>
+                                        <th />
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-100 dark:divide-dark-700">
+                                    {sortedIngredients.map(ingredient => {
+                                        const low = isLowStock(ingredient);
+                                        return (
+                                            <tr key={ingredient.id} className="text-gray-700 dark:text-gray-300">
+                                                <td className="py-2 font-bold">
+                                                    {ingredient.name}
+                                                    {low && (
+                                                        <span className="ml-2 inline-flex items-center gap-1 px-2 py-0.5 rounded-lg bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300 text-[10px] font-black uppercase">
+                                                            <AlertCircleIcon className="w-3 h-3" /> Stock bajo
+                                                        </span>
+                                                    )}
+                                                </td>
+                                                <td className={`text-right font-black ${low ? 'text-red-600' : ''}`}>{formatQuantity(ingredient.stock, ingredient.unit)}</td>
+                                                <td className="text-right">{formatQuantity(ingredient.minStock, ingredient.unit)}</td>
+                                                <td className="text-right">{ingredient.cost !== undefined ? `$${ingredient.cost.toFixed(2)}` : '—'}</td>
+                                                <td className="text-right whitespace-nowrap">
+                                                    <button onClick={() => setMoving(ingredient)} title="Compra, merma o conteo" className="p-2 text-gray-400 hover:text-blue-600">
+                                                        <PackageIcon className="w-4 h-4" />
+                                                    </button>
+                                                    <button onClick={() => { setEditing(ingredient); setIsFormOpen(true); }} title="Editar" className="p-2 text-gray-400 hover:text-blue-600">
+                                                        <EditIcon className="w-4 h-4" />
+                                                    </button>
+                                                    <button onClick={() => handleDelete(ingredient)} title="Dar de baja" className="p-2 text-gray-400 hover:text-red-600">
+                                                        <TrashIcon className="w-4 h-4" />
+                                                    </button>
+                                                </td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </Card>
+            ) : tab === 'recipes' ? (
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                    <Card title="Descuento automático">
+                        <div className="space-y-2">
+                            {([['created', 'Al crear el pedido', 'El stock refleja lo que ya entró a cocina.'], ['completed', 'Al completar el pedido', 'Solo descuenta lo cobrado.']] as const).map(([value, label, hint]) => (
+                                <label key={value} className="flex items-start gap-3 p-3 rounded-xl bg-gray-50 dark:bg-dark-700 cursor-pointer">
+                                    <input type="radio" name="deduct-on" checked={deductOn === value} onChange={() => handleDeductOnChange(value)} className="mt-1" />
+                                    <span>
+                                        <span className="block text-sm font-bold text-gray-900 dark:text-white">{label}</span>
+                                        <span className="block text-xs text-gray-400">{hint}</span>
+                                    </span>
+                                </label>
+                            ))}
+                            <p className="text-xs text-gray-400 pt-2">Las cancelaciones y notas de crédito devuelven los ingredientes al stock.</p>
+                        </div>
+                    </Card>
+
+                    <div className="lg:col-span-2">
+                        <Card title="Receta por plato">
+                            <select
+                                aria-label="Plato"
+                                value={selectedMenuItemId}
+                                onChange={e => setSelectedMenuItemId(e.target.value)}
+                                className="w-full px-4 py-2 mb-4 rounded-xl border border-gray-200 dark:border-dark-600 dark:bg-dark-800 text-sm"
+                            >
+                                <option value="">Selecciona un plato…</option>
+                                {menuItems.map(item => (
+                                    <option key={item.id} value={item.id}>
+                                        {item.name}{item.recipe?.length ? ` · ${item.recipe.length} ingrediente(s)` : ''}
+                                    </option>
+                                ))}
+                            </select>
+                            {selectedMenuItem ? (
+                                <RecipeEditor menuItem={selectedMenuItem} ingredients={ingredients} onSave={handleSaveRecipe} />
+                            ) : (
+                                <p className="text-sm text-gray-400">
+                                    {menuItems.filter(m => m.recipe?.length).length} de {menuItems.length} platos tienen receta.
+                                </p>
+                            )}
+                        </Card>
+                    </div>
+                </div>
+            ) : (
+                <Card title="Kardex">
+                    <select
+                        aria-label="Filtrar por ingrediente"
+                        value={movementFilter}
+                        onChange={e => setMovementFilter(e.target.value)}
+                        className="w-full sm:w-72 px-4 py-2 mb-4 rounded-xl border border-gray-200 dark:border-dark-600 dark:bg-dark-800 text-sm"
+                    >
+                        <option value="">Todos los ingredientes</option>
+                        {ingredients.map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+                    </select>
+                    {movements.length === 0 ? (
+                        <p className="text-sm text-gray-400">Sin movimientos.</p>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-left text-[10px] font-black uppercase tracking-widest text-gray-400">
+                                        <th className="py-2">Fecha</th>
+                                        <th>Ingrediente</th>
+                                        <th>Tipo</th>
+                                        <th>Origen</th>
+                                        <th className="text-right">Cantidad</th>
+                                        <th className="text-right">Saldo</th>
+                                        <th>Usuario</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-100 dark:divide-dark-700">
+                                    {movements.map(m => (
+                                        <tr key={m.id} className="text-gray-700 dark:text-gray-300">
+                                            <td className="py-2 whitespace-nowrap">{formatDateTime(m.createdAt)}</td>
+                                            <td className="font-bold">{m.ingredientName}</td>
+                                            <td>{MOVEMENT_LABELS[m.type]}</td>
+                                            <td className="text-xs text-gray-500">
+                                                {m.reference ? `${m.reference.kind === 'order' ? 'Pedido' : 'NC'} ${m.reference.label ?? ''}` : m.reason || '—'}
+                                            </td>
+                                            <td className={`text-right font-bold ${m.quantity < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                                                {m.quantity > 0 ? '+' : ''}{formatQuantity(m.quantity, m.unit)}
+                                            </td>
+                                            <td className="text-right">{formatQuantity(m.stockAfter, m.unit)}</td>
+                                            <td>{m.createdBy || '—'}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </Card>
+            )}
+        </div>
+    );
+};
+
+export default InventoryManagement;
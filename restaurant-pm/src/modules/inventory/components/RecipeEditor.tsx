@@ -0,0 +1,112 @@
+/**
+ * @file RecipeEditor.tsx
+ * @description Receta de un plato: cantidad de cada ingrediente por porción.
+ * Muestra el costo de ingredientes frente al precio de venta.
+ */
+import React, { useEffect, useState } from 'react';
+import { MenuItem } from '../../menu/types/menu.types';
+import { Ingredient, RecipeLine } from '../types/inventory.types';
+import { recipeCost } from '../utils/inventory';
+import { PlusIcon, TrashIcon } from '../../../components/ui/Icons';
+
+interface RecipeEditorProps {
+    menuItem: MenuItem;
+    ingredients: Ingredient[];
+    onSave: (menuItem: MenuItem, recipe: RecipeLine[]) => Promise<void>;
+}
+
+interface DraftLine {
+    ingredientId: string;
+    quantity: string;
+}
+
+const inputClass = 'w-full px-3 py-2 rounded-xl border border-gray-200 dark:border-dark-600 dark:bg-dark-800 text-sm';
+
+const toDraft = (recipe: RecipeLine[] = []): DraftLine[] =>
+    recipe.map(line => ({ ingredientId: line.ingredientId, quantity: String(line.quantity) }));
+
+export const RecipeEditor: React.FC<RecipeEditorProps> = ({ menuItem, ingredients, onSave }) => {
+    const [lines, setLines] = useState<DraftLine[]>(toDraft(menuItem.recipe));
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        setLines(toDraft(menuItem.recipe));
+    }, [menuItem]);
+
+    const recipe: RecipeLine[] = lines
+        .filter(line => line.ingredientId && Number(line.quantity) > 0)
+        .map(line => ({ ingredientId: line.ingredientId, quantity: Number(line.quantity) }));
+    const hasInvalidLine = lines.some(line => !line.ingredientId || !(Number(line.quantity) > 0));
+    const { cost, complete } = recipeCost(recipe, ingredients);
+    const unitOf = (id: string) => ingredients.find(i => i.id === id)?.unit ?? '';
+
+    const updateLine = (index: number, changes: Partial<DraftLine>) =>
+        setLines(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        try {
+            await onSave(menuItem, recipe);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            {lines.length === 0 && (
+                <p className="text-sm text-gray-400">Sin receta: este plato no descuenta inventario.</p>
+            )}
+            {lines.map((line, index) => (
+                <div key={index} className="grid grid-cols-[1fr_8rem_auto] gap-2 items-center">
+                    <select
+                        aria-label="Ingrediente"
+                        value={line.ingredientId}
+                        onChange={e => updateLine(index, { ingredientId: e.target.value })}
+                        className={inputClass}
+                    >
+                        <option value="">Ingrediente…</option>
+                        {ingredients.map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+                    </select>
+                    <div className="relative">
+                        <input
+                            aria-label="Cantidad por porción"
+                            type="number"
+                            min={0}
+                            step="0.001"
+                            value={line.quantity}
+                            onChange={e => updateLine(index, { quantity: e.target.value })}
+                            className={`${inputClass} pr-12`}
+                        />
+                        <span className="absolute right-3 top-1/2 -translate-y-1/2 text-[10px] font-black text-gray-400 uppercase">{unitOf(line.ingredientId)}</span>
+                    </div>
+                    <button onClick={() => setLines(prev => prev.filter((_, i) => i !== index))} title="Quitar" className="p-2 text-gray-400 hover:text-red-600">
+                        <TrashIcon className="w-4 h-4" />
+                    </button>
+                </div>
+            ))}
+
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 pt-2">
+                <button
+                    onClick={() => setLines(prev => [...prev, { ingredientId: '', quantity: '' }])}
+                    className="flex items-center gap-2 text-xs font-black uppercase tracking-widest text-blue-600"
+                >
+                    <PlusIcon className="w-4 h-4" /> Agregar ingrediente
+                </button>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Costo por porción: <span className="font-black text-gray-900 dark:text-white">${cost.toFixed(2)}</span>
+                    {menuItem.price > 0 && ` (${Math.round((cost / menuItem.price) * 100)}% del precio)`}
+                    {!complete && ' · hay ingredientes sin costo'}
+                </p>
+            </div>
+
+            <button
+                onClick={handleSave}
+                disabled={hasInvalidLine || isSaving}
+                className="w-full py-2 rounded-xl bg-gray-900 dark:bg-white text-white dark:text-gray-900 text-xs font-black uppercase tracking-widest disabled:opacity-50"
+            >
+                {isSaving ? 'Guardando…' : 'Guardar receta'}
+            </button>
+        </div>
+    );
+};
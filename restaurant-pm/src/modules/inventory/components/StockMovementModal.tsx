@@ -0,0 +1,107 @@
+/**
+ * @file StockMovementModal.tsx
+ * @description Compra, merma o conteo físico de un ingrediente.
+ * En el conteo se ingresa lo que hay en bodega; el kardex registra la diferencia.
+ */
+import React, { useEffect, useState } from 'react';
+import Modal from '../../../components/ui/Modal';
+import { Ingredient, ManualMovementType, StockMovementDTO } from '../types/inventory.types';
+import { formatQuantity } from '../utils/inventory';
+
+interface StockMovementModalProps {
+    ingredient: Ingredient | null;
+    onClose: () => void;
+    onConfirm: (ingredient: Ingredient, data: StockMovementDTO) => Promise<void>;
+}
+
+const MODES: [ManualMovementType, string][] = [['purchase', 'Compra'], ['waste', 'Merma'], ['adjustment', 'Conteo']];
+const inputClass = 'w-full px-4 py-2 rounded-xl border border-gray-200 dark:border-dark-600 dark:bg-dark-800 text-sm';
+
+export const StockMovementModal: React.FC<StockMovementModalProps> = ({ ingredient, onClose, onConfirm }) => {
+    const [type, setType] = useState<ManualMovementType>('purchase');
+    const [quantity, setQuantity] = useState('');
+    const [reason, setReason] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (!ingredient) return;
+        setType('purchase');
+        setQuantity('');
+        setReason('');
+    }, [ingredient]);
+
+    const value = Number(quantity);
+    const isValid = quantity !== '' && Number.isFinite(value) && value >= 0
+        && (type === 'adjustment' || value > 0)
+        && (type !== 'waste' || reason.trim().length > 0);
+
+    const handleConfirm = async () => {
+        if (!ingredient || !isValid) return;
+        setIsSaving(true);
+        try {
+            await onConfirm(ingredient, { type, quantity: value, reason: reason.trim() || undefined });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Modal isOpen={!!ingredient} onClose={onClose} title={`Movimiento · ${ingredient?.name ?? ''}`}>
+            <div className="space-y-4">
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Stock actual: <span className="font-black text-gray-900 dark:text-white">{ingredient ? formatQuantity(ingredient.stock, ingredient.unit) : '—'}</span>
+                </p>
+
+                <div className="flex gap-2">
+                    {MODES.map(([mode, label]) => (
+                        <button
+                            key={mode}
+                            type="button"
+                            onClick={() => setType(mode)}
+                            className={`flex-1 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest ${type === mode
+                                ? 'bg-blue-600 text-white'
+                                : 'bg-gray-100 text-gray-500 dark:bg-dark-700 dark:text-gray-400'
+                                }`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
+                <input
+                    type="number"
+                    min={0}
+                    step="0.001"
+                    value={quantity}
+                    onChange={e => setQuantity(e.target.value)}
+                    placeholder={type === 'adjustment' ? `Stock contado (${ingredient?.unit ?? ''})` : `Cantidad (${ingredient?.unit ?? ''})`}
+                    className={inputClass}
+                />
+                <input
+                    value={reason}
+                    onChange={e => setReason(e.target.value)}
+                    maxLength={200}
+                    placeholder={type === 'waste' ? 'Motivo (obligatorio)' : 'Nota (opcional): proveedor, factura...'}
+                    className={inputClass}
+                />
+
+                <div className="flex gap-3 pt-2">
+                    <button
+                        onClick={onClose}
+                        disabled={isSaving}
+                        className="flex-1 px-6 py-3 rounded-2xl bg-gray-50 text-gray-500 hover:bg-gray-100 dark:bg-dark-700 dark:text-gray-400 font-black text-[10px] uppercase tracking-widest disabled:opacity-50"
+                    >
+                        Cancelar
+                    </button>
+                    <button
+                        onClick={handleConfirm}
+                        disabled={!isValid || isSaving}
+                        className="flex-1 px-6 py-3 rounded-2xl bg-blue-600 hover:bg-blue-700 text-white font-black text-[10px] uppercase tracking-widest disabled:opacity-50"
+                    >
+                        {isSaving ? 'Registrando…' : 'Registrar'}
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
@@ -0,0 +1,3 @@
+export * from './types/inventory.types';
+export { inventoryService } from './services/inventoryService';
+export * from './utils/inventory';
@@ -0,0 +1,67 @@
+/**
+ * @file inventoryService.ts
+ * @description Servicio singleton de inventario.
+ * Ingredientes, movimientos manuales (compras, mermas, conteos), kardex y recetas.
+ */
+
+import { apiService } from '../../../api';
+import { API_ENDPOINTS } from '../../../config/api.config';
+import { MenuItem } from '../../menu/types/menu.types';
+import {
+    Ingredient,
+    IngredientDTO,
+    RecipeLine,
+    StockMovement,
+    StockMovementDTO,
+    StockMovementQuery
+} from '../types/inventory.types';
+
+export class InventoryService {
+    private static instance: InventoryService;
+
+    private constructor() { }
+
+    public static getInstance(): InventoryService {
+        if (!InventoryService.instance) {
+            InventoryService.instance = new InventoryService();
+        }
+        return InventoryService.instance;
+    }
+
+    public async getIngredients(includeInactive: boolean = false): Promise<Ingredient[]> {
+        const query = includeInactive ? '?includeInactive=true' : '';
+        return apiService.get(`${API_ENDPOINTS.INVENTORY.INGREDIENTS}${query}`);
+    }
+
+    public async createIngredient(data: IngredientDTO): Promise<Ingredient> {
+        return apiService.post(API_ENDPOINTS.INVENTORY.INGREDIENTS, data);
+    }
+
+    /** El stock no se edita aquí: se corrige con un movimiento */
+    public async updateIngredient(id: string, data: Partial<Omit<IngredientDTO, 'stock'>>): Promise<Ingredient> {
+        return apiService.put(API_ENDPOINTS.INVENTORY.INGREDIENT_BY_ID(id), data);
+    }
+
+    public async deleteIngredient(id: string): Promise<void> {
+        await apiService.delete(API_ENDPOINTS.INVENTORY.INGREDIENT_BY_ID(id));
+    }
+
+    /** null si el conteo coincide con el sistema */
+    public async addMovement(ingredientId: string, data: StockMovementDTO): Promise<StockMovement | null> {
+        return apiService.post(API_ENDPOINTS.INVENTORY.INGREDIENT_MOVEMENTS(ingredientId), data);
+    }
+
+    public async getMovements(query: StockMovementQuery = {}): Promise<StockMovement[]> {
+        const params = new URLSearchParams();
+        if (query.ingredientId) params.set('ingredientId', query.ingredientId);
+        if (query.type) params.set('type', query.type);
+        params.set('limit', String(query.limit ?? 100));
+        return apiService.get(`${API_ENDPOINTS.INVENTORY.MOVEMENTS}?${params.toString()}`);
+    }
+
+    public async setRecipe(menuItemId: string, recipe: RecipeLine[]): Promise<MenuItem> {
+        return apiService.put(API_ENDPOINTS.INVENTORY.RECIPE(menuItemId), { recipe });
+    }
+}
+
+export const inventoryService = InventoryService.getInstance();
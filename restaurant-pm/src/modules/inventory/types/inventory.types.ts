@@ -0,0 +1,64 @@
+/**
+ * @file inventory.types.ts
+ * @description Tipos de inventario: ingredientes, kardex y recetas.
+ * Reflejan las entidades Ingredient y StockMovement del backend.
+ */
+
+import { RecipeLine } from '../../menu/types/menu.types';
+
+export type IngredientUnit = 'kg' | 'g' | 'l' | 'ml' | 'unidad';
+
+export interface Ingredient {
+    id: string;
+    name: string;
+    unit: IngredientUnit;
+    stock: number;
+    minStock: number;
+    cost?: number;
+    active: boolean;
+    /** Calculado por el servidor: stock en o bajo el mínimo */
+    lowStock?: boolean;
+}
+
+export type StockMovementType = 'sale' | 'reversal' | 'purchase' | 'adjustment' | 'waste';
+
+/** Movimientos que registra el personal (el resto los generan pedidos y notas de crédito) */
+export type ManualMovementType = 'purchase' | 'waste' | 'adjustment';
+
+export interface StockMovement {
+    id: string;
+    ingredientId: string;
+    ingredientName: string;
+    unit: IngredientUnit;
+    type: StockMovementType;
+    /** Positivo = entra, negativo = sale */
+    quantity: number;
+    stockAfter: number;
+    reference?: { kind: 'order' | 'creditNote'; id: string; label?: string } | null;
+    reason?: string;
+    createdBy?: string | null;
+    createdAt: string;
+}
+
+export interface IngredientDTO {
+    name: string;
+    unit: IngredientUnit;
+    stock?: number;
+    minStock: number;
+    cost?: number;
+}
+
+export interface StockMovementDTO {
+    type: ManualMovementType;
+    /** Compra/merma: cantidad. Conteo: stock contado */
+    quantity: number;
+    reason?: string;
+}
+
+export interface StockMovementQuery {
+    ingredientId?: string;
+    type?: StockMovementType;
+    limit?: number;
+}
+
+export type { RecipeLine };
@@ -0,0 +1,57 @@
+/**
+ * @file inventory.ts
+ * @description Formato de cantidades, etiquetas del kardex y costo de recetas.
+ */
+
+import { Ingredient, IngredientUnit, RecipeLine, StockMovementType } from '../types/inventory.types';
+
+export const INGREDIENT_UNITS: { value: IngredientUnit; label: string }[] = [
+    { value: 'kg', label: 'Kilogramos (kg)' },
+    { value: 'g', label: 'Gramos (g)' },
+    { value: 'l', label: 'Litros (l)' },
+    { value: 'ml', label: 'Mililitros (ml)' },
+    { value: 'unidad', label: 'Unidades' }
+];
+
+export const MOVEMENT_LABELS: Record<StockMovementType, string> = {
+    sale: 'Venta',
+    reversal: 'Devolución',
+    purchase: 'Compra',
+    adjustment: 'Conteo',
+    waste: 'Merma'
+};
+
+/** Hasta tres decimales, sin ceros de relleno: 0.25 kg, 12 unidad */
+export const formatQuantity = (quantity: number, unit: IngredientUnit): string =>
+    `${Number((Math.round(quantity * 1000) / 1000).toFixed(3))} ${unit}`;
+
+export const isLowStock = (ingredient: Pick<Ingredient, 'stock' | 'minStock'>): boolean =>
+    ingredient.minStock > 0 && ingredient.stock <= ingredient.minStock;
+
+/** Los que están bajo el mínimo primero; luego por nombre */
+export const sortByStockStatus = <T extends Pick<Ingredient, 'name' | 'stock' | 'minStock'>>(ingredients: T[]): T[] =>
+    [...ingredients].sort((a, b) =>
+        Number(isLowStock(b)) - Number(isLowStock(a)) || a.name.localeCompare(b.name, 'es')
+    );
+
+/**
+ * Costo de ingredientes de una porción. Los ingredientes sin costo no suman;
+ * `complete` indica si todos tenían costo.
+ */
+export const recipeCost = (
+    recipe: RecipeLine[] = [],
+    ingredients: Pick<Ingredient, 'id' | 'cost'>[]
+): { cost: number; complete: boolean } => {
+    const byId = new Map(ingredients.map(i => [i.id, i]));
+    let cents = 0;
+    let complete = true;
+    recipe.forEach(line => {
+        const cost = byId.get(line.ingredientId)?.cost;
+        if (cost === undefined || cost === null) {
+            complete = false;
+            return;
+        }
+        cents += line.quantity * cost * 100;
+    });
+    return { cost: Math.round(cents) / 100, complete };
+};
@@ -1,11 +1,28 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { api } from '../../../api';
 import { orderService } from '../../orders/services/OrderService';
-import { SetState } from '../../../types';
+import { KitchenStation, SetState } from '../../../types';
 import { Order, OrderItem, OrderStatus } from '../../orders/types/order.types';
+import { KITCHEN_ORDER_STATUSES } from '../../orders/utils/orderStatus';
 import { ChefHatIcon, ClipboardListIcon, CheckCircleIcon, AlertCircleIcon, PlusIcon } from '../../../components/ui/Icons';
 import { toast } from '../../../components/ui/AlertProvider';
 import { notificationService } from '../../../services/NotificationService';
+import { ModifierTags } from '../../menu/components/ModifierTags';
+import { useRestaurantConfig } from '../../../contexts/RestaurantConfigContext';
+import { useLocalStorage } from '../../../hooks/useLocalStorage';
+import { StationFilter } from './StationFilter';
+import {
+    ALL_STATIONS,
+    STATION_FILTER_KEY,
+    hasPendingForStation,
+    itemStation,
+    itemsForStation,
+    markStationItemsPrepared,
+    pendingCountByStation,
+    pendingStations,
+    resolveStationFilter,
+    stationLabel
+} from '../utils/stations';
 
 /**
  * Parsea el nombre del cliente para extraer nombre limpio y origen (WhatsApp/Web)
@@ -62,10 +79,14 @@ const useTimer = (startTime: string) => {
 // --- Single Order Card for Kitchen ---
 const KitchenOrderCard: React.FC<{
     order: Order;
+    /** Estación elegida en la pantalla (ALL_STATIONS = pedido completo) */
+    station: string;
+    stations: KitchenStation[];
     onUpdateItem: (orderId: string, itemIdx: number) => void;
     onSetEstimate: (orderId: string, minutes: number) => void;
     onMarkAllReady: (order: Order) => void;
-}> = ({ order, onUpdateItem, onSetEstimate, onMarkAllReady }) => {
+    onBumpStation: (order: Order, station: string) => void;
+}> = ({ order, station, stations, onUpdateItem, onSetEstimate, onMarkAllReady, onBumpStation }) => {
     const minutesElapsed = useTimer(order.createdAt);
     const customerInfo = useMemo(() => parseCustomerInfo(order.customerName), [order.customerName]);
     const displayOrderNumber = useMemo(() => formatOrderNumber(order.orderNumber, order.id.slice(-6)), [order.orderNumber, order.id]);
@@ -103,8 +124,12 @@ const KitchenOrderCard: React.FC<{
         return "border-blue-500/40 shadow-blue-500/10";
     };
 
-    const preparedCount = order.items.filter(i => i.prepared).length;
-    const totalItems = order.items.length;
+    // En modo estación la tarjeta solo muestra (y cuenta) los platos de esa estación
+    const stationMode = station !== ALL_STATIONS;
+    const visibleItems = itemsForStation(order.items, station);
+    const otherPendingStations = stationMode ? pendingStations(order).filter(s => s !== station) : [];
+    const preparedCount = visibleItems.filter(({ item }) => item.prepared).length;
+    const totalItems = visibleItems.length;
     const progressPct = totalItems > 0 ? Math.round((preparedCount / totalItems) * 100) : 0;
     const allReady = preparedCount === totalItems;
 
@@ -251,7 +276,7 @@ const KitchenOrderCard: React.FC<{
 
             {/* Listado de platos (pendientes y preparados, toque para marcar/desmarcar) */}
             <div className="flex-1 p-4 space-y-2 overflow-y-auto max-h-[300px] custom-scroll">
-                {order.items.map((item, idx) => (
+                {visibleItems.map(({ item, index: idx }) => (
                     <button
                         key={idx}
                         onClick={() => onUpdateItem(order.id, idx)}
@@ -273,6 +298,13 @@ const KitchenOrderCard: React.FC<{
                                     }`}>
                                     {item.name}
                                 </span>
+                                {!stationMode && stations.length > 0 && (
+                                    <span className="ml-2 text-[9px] font-black uppercase tracking-widest text-gray-400">
+                                        {stationLabel(itemStation(item), stations)}
+                                    </span>
+                                )}
+                                {/* Tamaño, acompañantes, extras y exclusiones (en rojo) */}
+                                <ModifierTags modifiers={item.modifiers} muted={item.prepared} className="mt-1" />
                                 {/* Nota del cajero para la cocina */}
                                 {item.notes && (
                                     <p className={`text-[11px] font-bold mt-0.5 ${item.prepared ? 'text-gray-400 dark:text-gray-500' : 'text-orange-600 dark:text-orange-400'}`}>
@@ -292,31 +324,46 @@ const KitchenOrderCard: React.FC<{
 
             {/* Acciones principales */}
             <div className="p-4 mt-auto">
-                <button
-                    onClick={() => {
-                        if (allReady) {
-                            onMarkAllReady(order);
-                        } else if (confirmDispatch) {
-                            setConfirmDispatch(false);
-                            onMarkAllReady(order);
-                        } else {
-                            setConfirmDispatch(true);
-                        }
-                    }}
-                    className={`w-full py-4 rounded-2xl font-black text-sm uppercase tracking-widest shadow-lg transition-all active:scale-95 flex items-center justify-center gap-2 ${allReady
-                            ? 'bg-green-600 hover:bg-green-700 text-white shadow-green-600/20'
+                {otherPendingStations.length > 0 && (
+                    <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mb-2">
+                        Falta: {otherPendingStations.map(s => stationLabel(s, stations)).join(', ')}
+                    </p>
+                )}
+                {stationMode ? (
+                    <button
+                        onClick={() => onBumpStation(order, station)}
+                        className="w-full py-4 rounded-2xl font-black text-sm uppercase tracking-widest shadow-lg transition-all active:scale-95 flex items-center justify-center gap-2 bg-green-600 hover:bg-green-700 text-white shadow-green-600/20"
+                    >
+                        <CheckCircleIcon className="w-5 h-5" />
+                        LISTO · {stationLabel(station, stations)} ({totalItems - preparedCount})
+                    </button>
+                ) : (
+                    <button
+                        onClick={() => {
+                            if (allReady) {
+                                onMarkAllReady(order);
+                            } else if (confirmDispatch) {
+                                setConfirmDispatch(false);
+                                onMarkAllReady(order);
+                            } else {
+                                setConfirmDispatch(true);
+                            }
+                        }}
+                        className={`w-full py-4 rounded-2xl font-black text-sm uppercase tracking-widest shadow-lg transition-all active:scale-95 flex items-center justify-center gap-2 ${allReady
+                                ? 'bg-green-600 hover:bg-green-700 text-white shadow-green-600/20'
+                                : confirmDispatch
+                                    ? 'bg-orange-500 text-white border-2 border-orange-500 animate-pulse'
+                                    : 'bg-white dark:bg-dark-900 text-orange-600 border-2 border-orange-400 hover:bg-orange-50 dark:hover:bg-orange-900/10 shadow-none'
+                            }`}
+                    >
+                        <CheckCircleIcon className="w-5 h-5" />
+                        {allReady
+                            ? 'PEDIDO LISTO'
                             : confirmDispatch
-                                ? 'bg-orange-500 text-white border-2 border-orange-500 animate-pulse'
-                                : 'bg-white dark:bg-dark-900 text-orange-600 border-2 border-orange-400 hover:bg-orange-50 dark:hover:bg-orange-900/10 shadow-none'
-                        }`}
-                >
-                    <CheckCircleIcon className="w-5 h-5" />
-                    {allReady
-                        ? 'PEDIDO LISTO'
-                        : confirmDispatch
-                            ? 'TOCA DE NUEVO PARA CONFIRMAR'
-                            : `DESPACHAR TODO (${totalItems - preparedCount} PENDIENTES)`}
-                </button>
+                                ? 'TOCA DE NUEVO PARA CONFIRMAR'
+                                : `DESPACHAR TODO (${totalItems - preparedCount} PENDIENTES)`}
+                    </button>
+                )}
             </div>
         </div>
     );
@@ -324,6 +371,10 @@ const KitchenOrderCard: React.FC<{
 
 const KitchenManagement: React.FC<KitchenManagementProps> = ({ orders, setOrders }) => {
     const safeOrders = Array.isArray(orders) ? orders : [];
+    const { config } = useRestaurantConfig();
+    const stations = config.kitchenStations || [];
+    const [storedStation, setStoredStation] = useLocalStorage<string>(STATION_FILTER_KEY, ALL_STATIONS);
+    const stationFilter = resolveStationFilter(storedStation, stations);
     const prevNewOrdersCount = React.useRef(kitchenOrdersCount(safeOrders));
 
     function kitchenOrdersCount(ords: Order[]) {
@@ -344,8 +395,10 @@ const KitchenManagement: React.FC<KitchenManagementProps> = ({ orders, setOrders
     }, [safeOrders]);
 
 
-    const kitchenOrders = safeOrders
-        .filter(o => o.status === OrderStatus.New)
+    const newOrders = safeOrders.filter(o => KITCHEN_ORDER_STATUSES.includes(o.status));
+    // Una estación no ve pedidos en los que ya no le queda nada
+    const kitchenOrders = newOrders
+        .filter(o => stationFilter === ALL_STATIONS || hasPendingForStation(o, stationFilter))
         .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
 
     const handleUpdateItem = async (orderId: string, itemIdx: number) => {
@@ -420,6 +473,27 @@ const KitchenManagement: React.FC<KitchenManagementProps> = ({ orders, setOrders
         }
     };
 
+    const handleBumpStation = async (order: Order, station: string) => {
+        // Optimistic update: los platos de la estación salen de su pantalla al instante
+        const originalOrders = [...safeOrders];
+        setOrders(prev => prev.map(o => o.id === order.id ? { ...o, items: markStationItemsPrepared(o.items, station) } : o));
+
+        try {
+            const updated = await orderService.bumpStation(order.id, station);
+            setOrders(prev => prev.map(o => o.id === order.id ? updated : o));
+            const customerName = parseCustomerInfo(order.customerName).name;
+            if (updated.status === OrderStatus.Ready) {
+                toast.success(`Pedido de ${customerName} completo`, '¡LISTO!');
+            } else {
+                toast.success(`${stationLabel(station, stations)}: pedido de ${customerName} despachado`, 'ESTACIÓN');
+            }
+        } catch (error) {
+            console.error('Failed to bump station:', error);
+            setOrders(originalOrders);
+            toast.error('No se pudo despachar la estación.', 'ERROR');
+        }
+    };
+
     return (
         <div className="flex flex-col h-full space-y-8 pb-12">
             {/* Header Premium (Similar a Operaciones) */}
@@ -441,6 +515,14 @@ const KitchenManagement: React.FC<KitchenManagementProps> = ({ orders, setOrders
                 </div>
             </div>
 
+            {/* Estación de este dispositivo (parrilla, bar...) */}
+            <StationFilter
+                stations={stations}
+                value={stationFilter}
+                onChange={setStoredStation}
+                counts={pendingCountByStation(newOrders)}
+            />
+
             {/* Dashboard Sections */}
             <div className="flex-1">
                 {kitchenOrders.length === 0 ? (
@@ -455,9 +537,12 @@ const KitchenManagement: React.FC<KitchenManagementProps> = ({ orders, setOrders
                             <KitchenOrderCard
                                 key={order.id}
                                 order={order}
+                                station={stationFilter}
+                                stations={stations}
                                 onUpdateItem={handleUpdateItem}
                                 onSetEstimate={handleSetEstimate}
                                 onMarkAllReady={handleMarkAllReady}
+                                onBumpStation={handleBumpStation}
                             />
                         ))}
                     </div>
@@ -0,0 +1,52 @@
+/**
+ * @file StationFilter.tsx
+ * @description Selector de estación de cocina (Todas, cada estación y General)
+ * para el KDS web y el monitor móvil. Cada dispositivo recuerda la suya.
+ */
+import React from 'react';
+import { KitchenStation } from '../../../types';
+import { ALL_STATIONS, GENERAL_STATION } from '../utils/stations';
+
+interface StationFilterProps {
+    stations: KitchenStation[];
+    value: string;
+    onChange: (station: string) => void;
+    /** Pendientes por estación para el contador de cada botón */
+    counts?: Record<string, number>;
+    className?: string;
+}
+
+export const StationFilter: React.FC<StationFilterProps> = ({ stations, value, onChange, counts = {}, className = '' }) => {
+    if (stations.length === 0) return null;
+
+    const options = [
+        { id: ALL_STATIONS, name: 'Todas' },
+        ...stations,
+        { id: GENERAL_STATION, name: 'General' }
+    ];
+
+    return (
+        <div className={`flex flex-wrap gap-2 ${className}`} role="group" aria-label="Estación de cocina">
+            {options.map(option => {
+                const active = value === option.id;
+                const count = counts[option.id] || 0;
+                return (
+                    <button
+                        key={option.id}
+                        type="button"
+                        onClick={() => onChange(option.id)}
+                        aria-pressed={active}
+                        className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border-2 transition-all active:scale-95 ${active
+                            ? 'bg-orange-600 border-orange-600 text-white shadow-lg shadow-orange-600/20'
+                            : 'bg-white dark:bg-dark-900 border-gray-100 dark:border-dark-700 text-gray-500 hover:border-orange-400'}`}
+                    >
+                        {option.name}
+                        {option.id !== ALL_STATIONS && count > 0 && (
+                            <span className={`ml-1.5 ${active ? 'text-orange-100' : 'text-orange-600'}`}>{count}</span>
+                        )}
+                    </button>
+                );
+            })}
+        </div>
+    );
+};
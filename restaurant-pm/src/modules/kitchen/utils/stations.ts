@@ -0,0 +1,57 @@
+/**
+ * @file stations.ts
+ * @description Estaciones de cocina en el KDS: qué ítems ve cada estación,
+ * cuáles le quedan pendientes y el despacho optimista de los suyos.
+ * El ítem guarda la estación al crearse el pedido (null = general).
+ */
+
+import { KitchenStation } from '../../../types';
+import { Order, OrderItem } from '../../orders/types/order.types';
+
+/** Filtro que muestra todo el pedido (sin estación elegida) */
+export const ALL_STATIONS = 'all';
+/** Ítems sin estación asignada */
+export const GENERAL_STATION = 'general';
+
+export const itemStation = (item: OrderItem): string => item.station || GENERAL_STATION;
+
+/** Ítems visibles para el filtro, con su índice original en el pedido */
+export const itemsForStation = (items: OrderItem[], filter: string): { item: OrderItem; index: number }[] =>
+    items
+        .map((item, index) => ({ item, index }))
+        .filter(({ item }) => filter === ALL_STATIONS || itemStation(item) === filter);
+
+export const hasPendingForStation = (order: Order, filter: string): boolean =>
+    itemsForStation(order.items, filter).some(({ item }) => !item.prepared);
+
+/** Copia optimista de lo que hace el servidor al despachar la estación */
+export const markStationItemsPrepared = (items: OrderItem[], station: string): OrderItem[] =>
+    items.map(item => (itemStation(item) === station ? { ...item, prepared: true } : item));
+
+export const stationLabel = (stationId: string, stations: KitchenStation[] = []): string => {
+    if (stationId === GENERAL_STATION) return 'General';
+    return stations.find(s => s.id === stationId)?.name || stationId;
+};
+
+/** Estaciones del pedido que aún tienen ítems sin despachar (para el resumen en "Todas") */
+export const pendingStations = (order: Order): string[] =>
+    Array.from(new Set(order.items.filter(item => !item.prepared).map(itemStation)));
+
+/** Estación elegida en este dispositivo (cada pantalla de cocina muestra la suya) */
+export const STATION_FILTER_KEY = 'restaurant_pm_kitchen_station';
+
+/** Filtro guardado → válido con la configuración actual (una estación borrada vuelve a "Todas") */
+export const resolveStationFilter = (stored: string | null | undefined, stations: KitchenStation[] = []): string => {
+    if (!stored || stored === ALL_STATIONS) return ALL_STATIONS;
+    if (stored === GENERAL_STATION || stations.some(s => s.id === stored)) return stored;
+    return ALL_STATIONS;
+};
+
+/** Pedidos con algo pendiente por estación (contador de los filtros) */
+export const pendingCountByStation = (orders: Order[]): Record<string, number> => {
+    const counts: Record<string, number> = {};
+    orders.forEach(order => pendingStations(order).forEach(station => {
+        counts[station] = (counts[station] || 0) + 1;
+    }));
+    return counts;
+};
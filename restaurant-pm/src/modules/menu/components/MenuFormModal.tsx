@@ -4,10 +4,12 @@
  * Flujo optimizado para el empleado: autofocus, detección instantánea de platos
  * duplicados (contra el menú ya cargado, sin red), validación al salir de cada
  * campo, panel de contexto al editar y guardado solo cuando hay cambios.
- * Incluye soporte para subida de imágenes a Cloudinary.
+ * Incluye soporte para subida de imágenes a Cloudinary y grupos de modificadores
+ * (tamaños, acompañantes, extras y exclusiones).
  */
 import React, { useState, useEffect, useMemo } from 'react';
-import { MenuItem } from '../types/menu.types';
+import { MenuItem, ModifierGroup } from '../types/menu.types';
+import { ModifierGroupsEditor } from './ModifierGroupsEditor';
 import Modal from '../../../components/ui/Modal';
 import { uploadToCloudinary, optimizeImage } from '../../../utils/cloudinary';
 import { sriItemCode } from '../../../utils/sriItemCode';
@@ -16,6 +18,7 @@ import { Validators } from '../../../utils/validators';
 import { toast } from '../../../components/ui/AlertProvider';
 import { api } from '../../../api';
 import { Category } from '../../categories/types/category.types';
+import { useRestaurantConfig } from '../../../contexts/RestaurantConfigContext';
 
 const inputClass = "w-full rounded-2xl border border-gray-200 bg-gray-50 p-4 text-gray-900 text-sm font-medium focus:border-blue-500 focus:bg-white focus:ring-4 focus:ring-blue-500/10 focus:outline-none transition-all dark:border-gray-700 dark:bg-dark-900/50 dark:text-white dark:placeholder-gray-500 dark:focus:border-blue-500 dark:focus:bg-dark-900 dark:focus:ring-blue-500/10";
 const labelClass = "text-[10px] font-black uppercase tracking-widest text-gray-400 dark:text-gray-500 mb-1.5 block ml-1";
@@ -25,6 +28,16 @@ const optionalTag = <span className="normal-case font-bold text-gray-300 dark:te
 /** Convierte el texto del precio a número, aceptando coma o punto como separador decimal. */
 const parsePrice = (v: unknown): number => parseFloat(String(v ?? '').replace(',', '.')) || 0;
 
+/** Primer problema de los grupos de modificadores (null = válidos). */
+const validateModifierGroups = (groups: ModifierGroup[]): string | null => {
+    for (const group of groups) {
+        if (!group.name.trim()) return 'Cada grupo de modificadores necesita un nombre';
+        if (group.options.length === 0 || group.options.some(o => !o.name.trim())) return `Completa las opciones de "${group.name}"`;
+        if (group.minChoices > group.maxChoices || group.minChoices > group.options.length) return `Mínimo y máximo inválidos en "${group.name}"`;
+    }
+    return null;
+};
+
 /** Nombre normalizado para comparar duplicados: sin espacios extra ni mayúsculas. */
 const normalizeName = (name: string): string => name.trim().toLowerCase().replace(/\s+/g, ' ');
 
@@ -54,6 +67,7 @@ export const MenuFormModal: React.FC<MenuFormModalProps> = ({ isOpen, onClose, o
     const [categories, setCategories] = useState<Category[]>([]);
     const [loadingCategories, setLoadingCategories] = useState(false);
     const isEditing = item !== null;
+    const kitchenStations = useRestaurantConfig().config.kitchenStations || [];
 
     // Snapshot comparable del formulario — para saber si el empleado cambió algo
     const snapshot = (data: Partial<MenuItem>): string => JSON.stringify({
@@ -64,7 +78,9 @@ export const MenuFormModal: React.FC<MenuFormModalProps> = ({ isOpen, onClose, o
         description: data.description || '',
         available: !!data.available,
         imageUrl: data.imageUrl || '',
-        taxRate: Number(data.taxRate ?? 15)
+        taxRate: Number(data.taxRate ?? 15),
+        modifierGroups: data.modifierGroups || [],
+        stationId: data.stationId || null
     });
 
     // Load categories when modal opens
@@ -100,6 +116,10 @@ export const MenuFormModal: React.FC<MenuFormModalProps> = ({ isOpen, onClose, o
 
     const isDirty = snapshot(formData) !== initialSnapshot || imageFile !== null;
 
+    // Estación que hereda el plato si no se le asigna una propia
+    const categoryStationId = categories.find(c => c.id === formData.categoryId)?.stationId;
+    const categoryStationName = kitchenStations.find(s => s.id === categoryStationId)?.name || 'General';
+
     // Plato duplicado: mismo nombre normalizado en otro id. Búsqueda local
     // instantánea — el menú ya está en memoria.
     const duplicate = useMemo(() => {
@@ -116,6 +136,8 @@ export const MenuFormModal: React.FC<MenuFormModalProps> = ({ isOpen, onClose, o
                 return Validators.required(data.category, 'Categoría').valid ? null : 'Categoría es requerida';
             case 'price':
                 return Validators.positiveNumber(parsePrice(data.price), 'Precio').valid ? null : 'Precio debe ser mayor a 0';
+            case 'modifierGroups':
+                return validateModifierGroups(data.modifierGroups || []);
             default:
                 return null;
         }
@@ -185,7 +207,7 @@ export const MenuFormModal: React.FC<MenuFormModalProps> = ({ isOpen, onClose, o
 
     const validate = (): boolean => {
         const newErrors: Record<string, string> = {};
-        (['name', 'category', 'price'] as const).forEach(field => {
+        (['name', 'category', 'price', 'modifierGroups'] as const).forEach(field => {
             const error = validateField(field, formData);
             if (error) newErrors[field] = error;
         });
@@ -226,6 +248,12 @@ export const MenuFormModal: React.FC<MenuFormModalProps> = ({ isOpen, onClose, o
                 available: formData.available || false,
                 imageUrl: finalImageUrl,
                 taxRate: Number(formData.taxRate ?? 15),
+                modifierGroups: (formData.modifierGroups || []).map(g => ({
+                    ...g,
+                    name: g.name.trim(),
+                    options: g.options.map(o => ({ ...o, name: o.name.trim() }))
+                })),
+                stationId: formData.stationId || null,
             };
 
             await onSave(itemToSave);
@@ -345,11 +373,40 @@ export const MenuFormModal: React.FC<MenuFormModalProps> = ({ isOpen, onClose, o
                     </div>
                 </div>
 
+                {kitchenStations.length > 0 && (
+                    <div>
+                        <label className={labelClass}>Estación de Cocina {optionalTag}</label>
+                        <select
+                            name="stationId"
+                            value={formData.stationId || ''}
+                            onChange={e => setFormData(prev => ({ ...prev, stationId: e.target.value || null }))}
+                            className={inputClass}
+                        >
+                            <option value="">Según categoría ({categoryStationName})</option>
+                            {kitchenStations.map(station => (
+                                <option key={station.id} value={station.id}>{station.name}</option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+
                 <div>
                     <label className={labelClass}>Descripción {optionalTag}</label>
                     <textarea name="description" value={formData.description || ''} onChange={handleChange} rows={3} placeholder="Describe los ingredientes y el sabor..." className={inputClass}></textarea>
                 </div>
 
+                <div>
+                    <label className={labelClass}>Modificadores {optionalTag}</label>
+                    <ModifierGroupsEditor
+                        groups={formData.modifierGroups || []}
+                        onChange={modifierGroups => {
+                            setFormData(prev => ({ ...prev, modifierGroups }));
+                            clearErrorIfFixed('modifierGroups', { ...formData, modifierGroups });
+                        }}
+                    />
+                    {errors.modifierGroups && <p className={errorClass}>{errors.modifierGroups}</p>}
+                </div>
+
                 {!hideImage && (
                     <div>
                         <label className={labelClass}>Imagen del Plato {optionalTag}</label>
@@ -0,0 +1,121 @@
+/**
+ * @file ModifierGroupsEditor.tsx
+ * @description Editor de grupos de modificadores dentro del formulario de plato:
+ * tamaños, acompañantes, extras y exclusiones, con mínimo/máximo de opciones
+ * y recargo por opción.
+ */
+import React from 'react';
+import { ModifierGroup, ModifierGroupType, ModifierOption } from '../types/menu.types';
+import { MODIFIER_GROUP_LABELS, createModifierGroup } from '../utils/modifiers';
+import { PlusIcon, TrashIcon } from '../../../components/ui/Icons';
+
+interface ModifierGroupsEditorProps {
+    groups: ModifierGroup[];
+    onChange: (groups: ModifierGroup[]) => void;
+}
+
+const fieldClass = "rounded-xl border border-gray-200 bg-white px-3 py-2 text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/10 dark:border-gray-700 dark:bg-dark-900 dark:text-white";
+const miniLabel = "text-[9px] font-black uppercase tracking-widest text-gray-400";
+
+const GROUP_TYPES = Object.keys(MODIFIER_GROUP_LABELS) as ModifierGroupType[];
+
+export const ModifierGroupsEditor: React.FC<ModifierGroupsEditorProps> = ({ groups, onChange }) => {
+    const updateGroup = (index: number, changes: Partial<ModifierGroup>) =>
+        onChange(groups.map((g, i) => (i === index ? { ...g, ...changes } : g)));
+
+    const updateOption = (groupIndex: number, optionIndex: number, changes: Partial<ModifierOption>) =>
+        updateGroup(groupIndex, {
+            options: groups[groupIndex].options.map((o, i) => (i === optionIndex ? { ...o, ...changes } : o))
+        });
+
+    const addOption = (groupIndex: number) =>
+        updateGroup(groupIndex, {
+            options: [...groups[groupIndex].options, { id: `o${Date.now().toString(36)}`, name: '', priceDelta: 0, available: true }]
+        });
+
+    const removeOption = (groupIndex: number, optionIndex: number) =>
+        updateGroup(groupIndex, { options: groups[groupIndex].options.filter((_, i) => i !== optionIndex) });
+
+    return (
+        <div className="space-y-3">
+            {groups.map((group, gi) => (
+                <div key={group.id} className="p-4 rounded-2xl border border-gray-100 dark:border-dark-800 bg-gray-50 dark:bg-dark-900/50 space-y-3">
+                    <div className="flex items-end gap-2">
+                        <div className="flex-1">
+                            <span className={miniLabel}>Grupo</span>
+                            <input value={group.name} onChange={e => updateGroup(gi, { name: e.target.value })} placeholder="Ej: Tamaño" className={`${fieldClass} w-full`} />
+                        </div>
+                        <div>
+                            <span className={miniLabel}>Tipo</span>
+                            <select
+                                value={group.type}
+                                onChange={e => updateGroup(gi, { type: e.target.value as ModifierGroupType })}
+                                className={fieldClass}
+                            >
+                                {GROUP_TYPES.map(type => <option key={type} value={type}>{MODIFIER_GROUP_LABELS[type]}</option>)}
+                            </select>
+                        </div>
+                        <div className="w-16">
+                            <span className={miniLabel}>Mín.</span>
+                            <input type="number" min={0} value={group.minChoices} onChange={e => updateGroup(gi, { minChoices: Math.max(0, Number(e.target.value) || 0) })} className={`${fieldClass} w-full`} />
+                        </div>
+                        <div className="w-16">
+                            <span className={miniLabel}>Máx.</span>
+                            <input type="number" min={1} value={group.maxChoices} onChange={e => updateGroup(gi, { maxChoices: Math.max(1, Number(e.target.value) || 1) })} className={`${fieldClass} w-full`} />
+                        </div>
+                        <button
+                            type="button"
+                            onClick={() => onChange(groups.filter((_, i) => i !== gi))}
+                            className="p-2.5 text-gray-400 hover:text-red-500 transition-colors"
+                            aria-label={`Eliminar grupo ${group.name}`}
+                        >
+                            <TrashIcon className="w-4 h-4" />
+                        </button>
+                    </div>
+
+                    {group.options.map((option, oi) => (
+                        <div key={option.id} className="flex items-center gap-2">
+                            <input value={option.name} onChange={e => updateOption(gi, oi, { name: e.target.value })} placeholder="Opción" className={`${fieldClass} flex-1`} />
+                            {group.type !== 'removal' && (
+                                <div className="relative w-24">
+                                    <span className="absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-400 text-xs font-bold pointer-events-none">+$</span>
+                                    <input
+                                        type="number"
+                                        step="0.01"
+                                        value={option.priceDelta}
+                                        onChange={e => updateOption(gi, oi, { priceDelta: Number(e.target.value) || 0 })}
+                                        className={`${fieldClass} w-full pl-7`}
+                                        aria-label={`Recargo de ${option.name || 'la opción'}`}
+                                    />
+                                </div>
+                            )}
+                            <label className="flex items-center gap-1 text-[9px] font-black uppercase tracking-widest text-gray-400">
+                                <input type="checkbox" checked={option.available !== false} onChange={e => updateOption(gi, oi, { available: e.target.checked })} />
+                                Disp.
+                            </label>
+                            <button type="button" onClick={() => removeOption(gi, oi)} className="p-1.5 text-gray-300 hover:text-red-500" aria-label={`Quitar ${option.name || 'opción'}`}>
+                                <TrashIcon className="w-3.5 h-3.5" />
+                            </button>
+                        </div>
+                    ))}
+                    <button type="button" onClick={() => addOption(gi)} className="text-[10px] font-black uppercase tracking-widest text-blue-600 hover:text-blue-700">
+                        + Opción
+                    </button>
+                </div>
+            ))}
+
+            <div className="flex flex-wrap gap-2">
+                {GROUP_TYPES.map(type => (
+                    <button
+                        key={type}
+                        type="button"
+                        onClick={() => onChange([...groups, createModifierGroup(type)])}
+                        className="flex items-center gap-1 px-3 py-2 rounded-xl border border-dashed border-blue-200 dark:border-blue-900 text-[10px] font-black uppercase tracking-widest text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/10 transition-colors"
+                    >
+                        <PlusIcon className="w-3 h-3" /> {MODIFIER_GROUP_LABELS[type]}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,104 @@
+/**
+ * @file ModifierPickerModal.tsx
+ * @description Selección de modificadores al agregar un plato al pedido (POS web,
+ * formulario de pedido y POS móvil): tamaño, acompañantes, extras y exclusiones,
+ * con el precio de la línea actualizado en vivo.
+ */
+import React, { useEffect, useState } from 'react';
+import Modal from '../../../components/ui/Modal';
+import { MenuItem } from '../types/menu.types';
+import { OrderItemModifier } from '../../orders/types/order.types';
+import {
+    ModifierSelection,
+    buildOrderModifiers,
+    defaultSelection,
+    getSelectionError,
+    isRequiredGroup,
+    priceWithModifiers,
+    toggleModifierOption
+} from '../utils/modifiers';
+
+interface ModifierPickerModalProps {
+    item: MenuItem | null;
+    onClose: () => void;
+    onConfirm: (item: MenuItem, modifiers: OrderItemModifier[]) => void;
+}
+
+const formatDelta = (delta: number): string => (delta > 0 ? `+$${delta.toFixed(2)}` : delta < 0 ? `-$${Math.abs(delta).toFixed(2)}` : '');
+
+export const ModifierPickerModal: React.FC<ModifierPickerModalProps> = ({ item, onClose, onConfirm }) => {
+    const [selection, setSelection] = useState<ModifierSelection>({});
+
+    useEffect(() => {
+        if (item) setSelection(defaultSelection(item));
+    }, [item]);
+
+    if (!item) return null;
+
+    const modifiers = buildOrderModifiers(item, selection);
+    const error = getSelectionError(item, selection);
+    const price = priceWithModifiers(item.price, modifiers);
+
+    return (
+        <Modal isOpen={!!item} onClose={onClose} title={item.name}>
+            <div className="space-y-5">
+                {(item.modifierGroups || []).map(group => {
+                    const chosen = selection[group.id] || [];
+                    return (
+                        <div key={group.id}>
+                            <div className="flex items-center justify-between mb-2">
+                                <p className="text-[10px] font-black uppercase tracking-widest text-gray-500 dark:text-gray-400">{group.name}</p>
+                                <span className={`text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-full ${isRequiredGroup(group)
+                                    ? 'bg-orange-100 text-orange-600 dark:bg-orange-900/20 dark:text-orange-400'
+                                    : 'bg-gray-100 text-gray-400 dark:bg-dark-700'}`}>
+                                    {isRequiredGroup(group) ? 'Obligatorio' : 'Opcional'}
+                                    {group.maxChoices > 1 && ` · máx. ${group.maxChoices}`}
+                                </span>
+                            </div>
+                            <div className="flex flex-wrap gap-2">
+                                {group.options.filter(o => o.available !== false).map(option => {
+                                    const selected = chosen.includes(option.id);
+                                    const removal = group.type === 'removal';
+                                    return (
+                                        <button
+                                            key={option.id}
+                                            type="button"
+                                            onClick={() => setSelection(prev => toggleModifierOption(prev, group, option.id))}
+                                            aria-pressed={selected}
+                                            className={`px-3.5 py-2 rounded-xl border-2 text-xs font-bold transition-all active:scale-95 ${selected
+                                                ? removal
+                                                    ? 'bg-red-50 border-red-400 text-red-600 dark:bg-red-900/20 dark:text-red-400'
+                                                    : 'bg-blue-600 border-blue-600 text-white'
+                                                : 'bg-white dark:bg-dark-800 border-gray-200 dark:border-dark-600 text-gray-600 dark:text-gray-300'}`}
+                                        >
+                                            {removal ? `Sin ${option.name.toLowerCase()}` : option.name}
+                                            {!removal && option.priceDelta !== 0 && (
+                                                <span className={`ml-1.5 ${selected ? 'text-blue-100' : 'text-blue-600 dark:text-blue-400'}`}>{formatDelta(option.priceDelta)}</span>
+                                            )}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    );
+                })}
+
+                {error && <p className="text-[10px] text-red-500 font-bold uppercase">{error}</p>}
+
+                <div className="flex justify-end gap-3 pt-2">
+                    <button type="button" onClick={onClose} className="px-5 py-2.5 rounded-xl text-xs font-black uppercase tracking-widest text-gray-500 hover:bg-gray-100 dark:hover:bg-dark-700">
+                        Cancelar
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => onConfirm(item, modifiers)}
+                        disabled={!!error}
+                        className="px-5 py-2.5 rounded-xl bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-xs font-black uppercase tracking-widest"
+                    >
+                        Agregar · ${price.toFixed(2)}
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
@@ -0,0 +1,39 @@
+/**
+ * @file ModifierTags.tsx
+ * @description Modificadores de una línea del pedido como etiquetas compactas
+ * (ticket, tarjeta de pedido y cocina). Las exclusiones van en rojo para que
+ * la cocina no las pase por alto.
+ */
+import React from 'react';
+import { OrderItemModifier } from '../../orders/types/order.types';
+import { formatModifier } from '../utils/modifiers';
+
+interface ModifierTagsProps {
+    modifiers?: OrderItemModifier[];
+    /** Línea ya despachada: etiquetas atenuadas */
+    muted?: boolean;
+    className?: string;
+}
+
+const TAG_STYLES: Record<OrderItemModifier['type'], string> = {
+    size: 'bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300',
+    side: 'bg-gray-100 text-gray-700 dark:bg-dark-700 dark:text-gray-200',
+    extra: 'bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400',
+    removal: 'bg-red-50 text-red-600 dark:bg-red-900/20 dark:text-red-400 uppercase'
+};
+
+export const ModifierTags: React.FC<ModifierTagsProps> = ({ modifiers, muted, className = '' }) => {
+    if (!modifiers?.length) return null;
+    return (
+        <div className={`flex flex-wrap gap-1 ${className}`}>
+            {modifiers.map((modifier, idx) => (
+                <span
+                    key={`${modifier.groupId || modifier.groupName}-${modifier.name}-${idx}`}
+                    className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${muted ? 'bg-gray-100 text-gray-400 dark:bg-dark-700 dark:text-gray-500' : TAG_STYLES[modifier.type]}`}
+                >
+                    {formatModifier(modifier)}
+                </span>
+            ))}
+        </div>
+    );
+};
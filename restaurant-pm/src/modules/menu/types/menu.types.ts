@@ -5,6 +5,31 @@
 
 import { Category } from '../../categories/types/category.types';
 
+/** size: tamaño · side: acompañante · extra: adicional con recargo · removal: quitar ingrediente */
+export type ModifierGroupType = 'size' | 'side' | 'extra' | 'removal';
+
+export interface ModifierOption {
+    id: string;
+    name: string;
+    priceDelta: number; // Recargo sobre el precio del plato (con IVA)
+    available?: boolean;
+}
+
+export interface ModifierGroup {
+    id: string;
+    name: string;
+    type: ModifierGroupType;
+    minChoices: number; // > 0 = obligatorio
+    maxChoices: number;
+    options: ModifierOption[];
+}
+
+/** Cantidad de un ingrediente por porción (en la unidad del ingrediente) */
+export interface RecipeLine {
+    ingredientId: string;
+    quantity: number;
+}
+
 export interface MenuItem {
     id: string;
     name: string;
@@ -16,4 +41,7 @@ export interface MenuItem {
     categoryData?: Category; // Datos de categoría populados
     available: boolean;
     taxRate: number; // Porcentaje de IVA individual (0, 5, 12, 15)
+    modifierGroups?: ModifierGroup[]; // Tamaños, acompañantes, extras y exclusiones
+    stationId?: string | null; // Estación de cocina; vacío = la de la categoría
+    recipe?: RecipeLine[]; // Se edita desde Inventario
 }
@@ -0,0 +1,109 @@
+/**
+ * @file modifiers.ts
+ * @description Modificadores de platos: selección en el POS (mínimos/máximos por grupo),
+ * precio de la línea con recargos y texto corto para ticket y cocina.
+ */
+
+import { MenuItem, ModifierGroup, ModifierGroupType } from '../types/menu.types';
+import { OrderItemModifier } from '../../orders/types/order.types';
+
+/** Opciones elegidas por grupo: groupId → ids de opción */
+export type ModifierSelection = Record<string, string[]>;
+
+export const MODIFIER_GROUP_LABELS: Record<ModifierGroupType, string> = {
+    size: 'Tamaño',
+    side: 'Acompañante',
+    extra: 'Extras',
+    removal: 'Quitar'
+};
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+export const hasModifiers = (item: Pick<MenuItem, 'modifierGroups'>): boolean =>
+    (item.modifierGroups || []).some(g => g.options.some(o => o.available !== false));
+
+export const isRequiredGroup = (group: ModifierGroup): boolean => group.minChoices > 0;
+
+/** Selección inicial: en grupos obligatorios de una sola opción se marca la primera disponible */
+export const defaultSelection = (item: MenuItem): ModifierSelection => {
+    const selection: ModifierSelection = {};
+    (item.modifierGroups || []).forEach(group => {
+        const first = group.options.find(o => o.available !== false);
+        selection[group.id] = isRequiredGroup(group) && group.maxChoices === 1 && first ? [first.id] : [];
+    });
+    return selection;
+};
+
+/** Marca o desmarca una opción. Con máximo 1 se comporta como radio; si se llegó al máximo no agrega más. */
+export const toggleModifierOption = (selection: ModifierSelection, group: ModifierGroup, optionId: string): ModifierSelection => {
+    const current = selection[group.id] || [];
+    if (current.includes(optionId)) {
+        return { ...selection, [group.id]: current.filter(id => id !== optionId) };
+    }
+    if (group.maxChoices === 1) {
+        return { ...selection, [group.id]: [optionId] };
+    }
+    if (current.length >= group.maxChoices) return selection;
+    return { ...selection, [group.id]: [...current, optionId] };
+};
+
+/** Primer problema de la selección (null = lista para agregar) */
+export const getSelectionError = (item: MenuItem, selection: ModifierSelection): string | null => {
+    for (const group of item.modifierGroups || []) {
+        const count = (selection[group.id] || []).length;
+        if (count < group.minChoices) {
+            return group.minChoices === 1
+                ? `Elige ${group.name.toLowerCase()}`
+                : `Elige al menos ${group.minChoices} en ${group.name.toLowerCase()}`;
+        }
+        if (count > group.maxChoices) {
+            return `Máximo ${group.maxChoices} en ${group.name.toLowerCase()}`;
+        }
+    }
+    return null;
+};
+
+/** Copia de lo elegido para guardar en la línea del pedido (en el orden del menú) */
+export const buildOrderModifiers = (item: MenuItem, selection: ModifierSelection): OrderItemModifier[] =>
+    (item.modifierGroups || []).flatMap(group =>
+        group.options
+            .filter(option => (selection[group.id] || []).includes(option.id))
+            .map(option => ({
+                groupId: group.id,
+                groupName: group.name,
+                type: group.type,
+                name: option.name,
+                priceDelta: group.type === 'removal' ? 0 : option.priceDelta
+            }))
+    );
+
+export const modifiersDelta = (modifiers: OrderItemModifier[] = []): number =>
+    round2(modifiers.reduce((sum, m) => sum + (m.priceDelta || 0), 0));
+
+/** Precio unitario de la línea: plato + recargos */
+export const priceWithModifiers = (basePrice: number, modifiers: OrderItemModifier[] = []): number =>
+    round2(basePrice + modifiersDelta(modifiers));
+
+/** "Grande", "+ Chifles", "sin cebolla" */
+export const formatModifier = (modifier: OrderItemModifier): string => {
+    if (modifier.type === 'removal') return `sin ${modifier.name.toLowerCase()}`;
+    if (modifier.type === 'extra') return `+ ${modifier.name}`;
+    return modifier.name;
+};
+
+export const describeModifiers = (modifiers: OrderItemModifier[] = []): string =>
+    modifiers.map(formatModifier).join(', ');
+
+/** Clave para juntar líneas iguales en el ticket: mismo plato con los mismos modificadores */
+export const modifiersKey = (modifiers: OrderItemModifier[] = []): string =>
+    modifiers.map(m => `${m.groupId || m.groupName}:${m.name}`).sort().join('|');
+
+/** Grupo vacío para el editor del menú */
+export const createModifierGroup = (type: ModifierGroupType): ModifierGroup => ({
+    id: `g${Date.now().toString(36)}`,
+    name: MODIFIER_GROUP_LABELS[type],
+    type,
+    minChoices: type === 'size' ? 1 : 0,
+    maxChoices: type === 'size' || type === 'side' ? 1 : 3,
+    options: []
+});
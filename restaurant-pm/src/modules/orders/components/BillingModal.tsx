@@ -1,6 +1,6 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import Modal from '../../../components/ui/Modal';
-import { Order } from '../types/order.types';
+import { Order, OrderItem, SplitBilling } from '../types/order.types';
 import { RestaurantConfig } from '../../../types';
 import { ClientData } from '../../billing/utils/invoiceGenerator';
 import {
@@ -15,8 +15,19 @@ import {
     PrinterIcon,
     CheckCircleIcon,
     ChevronDownIcon,
-    ClipboardListIcon
+    ClipboardListIcon,
+    PlusIcon,
+    TrashIcon
 } from '../../../components/ui/Icons';
+import { SplitBillPanel } from './SplitBillPanel';
+import { isPartInvoiced } from '../utils/splitBill';
+import { applyOrderDiscounts } from '../utils/discounts';
+import { DEFAULT_SERVICE_CHARGE_RATE, TipSelection, chargeWithTip } from '../../billing/utils/tips';
+import { lineTaxRates, withPreviewRates } from '../../billing/utils/taxRates';
+import { billingService } from '../../billing/services/BillingService';
+import { InvoiceTaxRatesPreview } from '../../billing/types/billing.types';
+import { describeModifiers } from '../../menu/utils/modifiers';
+import { PaymentEntry, PAYMENT_METHODS, CASH_METHOD, getPaymentEntries, summarizePayments } from '../../billing/utils/payments';
 
 interface BillingModalProps {
     isOpen: boolean;
@@ -31,6 +42,12 @@ interface BillingModalProps {
     manualCompleteLabel?: string;
     /** Oculta el botón de "cerrar sin facturar" (ej. al facturar una venta que YA es sin factura) */
     hideManualComplete?: boolean;
+    /** Cuenta dividida: si se pasa, permite repartir el pedido en varias facturas */
+    split?: {
+        activePart: number | null;
+        onSavePlan: (plan: SplitBilling | null) => Promise<void>;
+        onSelectPart: (part: number) => void;
+    };
 }
 
 const inputClass = "w-full rounded-2xl border border-gray-200 bg-gray-50/50 p-4 text-gray-900 text-sm focus:border-blue-500 focus:ring-4 focus:ring-blue-500/10 focus:outline-none transition-all dark:border-dark-700 dark:bg-dark-800/50 dark:text-white dark:placeholder-gray-500 dark:focus:border-blue-500";
@@ -90,20 +107,59 @@ export const BillingModal: React.FC<BillingModalProps> = ({
     onProcess,
     onManualComplete,
     manualCompleteLabel = "Cerrar sin Facturar",
-    hideManualComplete = false
+    hideManualComplete = false,
+    split
 }) => {
+    const [splitRequested, setSplitRequested] = useState(false);
+    const [taxPreview, setTaxPreview] = useState<InvoiceTaxRatesPreview | null>(null);
+
+    useEffect(() => {
+        setSplitRequested(false);
+    }, [billingOrder?.id]);
+
+    // Con tabla de IVA, la tarifa de cada plato la dice el backend (la misma regla de la factura)
+    const hasTaxSchedule = !!config.billing?.taxSchedule?.length;
+    const orderTaxRates = lineTaxRates(billingOrder?.items || []).join(',');
+    useEffect(() => {
+        setTaxPreview(null);
+        if (!isOpen || !hasTaxSchedule || !orderTaxRates) return;
+        let cancelled = false;
+        billingService.previewTaxRates(orderTaxRates.split(',').map(Number))
+            .then(preview => { if (!cancelled) setTaxPreview(preview); })
+            // Sin vista previa se muestran las tarifas del pedido; la factura usa la vigente igual
+            .catch(error => console.error('Error consultando el IVA vigente:', error));
+        return () => { cancelled = true; };
+    }, [isOpen, hasTaxSchedule, orderTaxRates]);
+
     if (!billingOrder) return null;
 
+    const splitPlan = split ? billingOrder.splitBilling ?? null : null;
+    const splitMode = !!split && (!!splitPlan || splitRequested);
+    const activeSplitPart = splitPlan?.parts.find(p => p.part === split?.activePart && !isPartInvoiced(p));
+
+    // En cuenta dividida se cobra solo la parte activa (con su monto ya repartido en centavos).
+    // Sin dividir: cada línea con sus descuentos y su parte del descuento del pedido.
+    // El IVA de cada línea es el que devuelve la vista previa del backend (como la factura)
+    const billedLines: Array<OrderItem & { lineTotal: number; discountAmount: number }> = withPreviewRates(activeSplitPart
+        ? activeSplitPart.items.map(item => ({ ...item, lineTotal: item.total, discountAmount: 0 }))
+        : applyOrderDiscounts(billingOrder.items, billingOrder.discount).map(line => ({ ...line, lineTotal: line.total })),
+        taxPreview);
+    const discountTotal = billedLines.reduce((s, i) => s + i.discountAmount, 0);
+
     const emailValid = isValidEmail(billingData.email);
     const idValidation = isValidIdentification(billingData.identification);
     const phoneValid = isValidPhone(billingData.phone);
     const isConsumidorFinal = billingData.identification === '9999999999999';
 
-    const total = billingOrder.items.reduce((s, i) => s + (i.price || 0) * i.quantity, 0);
+    // Propina o cargo por servicio: fuera de la base de IVA, se suma al total a cobrar
+    const charge = chargeWithTip(billedLines.map(l => ({ total: l.lineTotal, taxRate: l.taxRate })), billingData.tip);
+    const total = charge.total;
+    const serviceChargeRate = config.billing?.serviceChargeRate || DEFAULT_SERVICE_CHARGE_RATE;
+    const setTip = (tip: TipSelection | null) => setBillingData({ ...billingData, tip });
     
     // Calcular subtotales e IVA por ítem, respetando el taxRate individual
-    const itemBreakdown = billingOrder.items.map(item => {
-        const itemTotal = (item.price || 0) * item.quantity;
+    const itemBreakdown = billedLines.map(item => {
+        const itemTotal = item.lineTotal;
         const rate = (item.taxRate ?? 15) / 100;
         const itemSubtotal = rate > 0 ? itemTotal / (1 + rate) : itemTotal;
         const itemIva = itemTotal - itemSubtotal;
@@ -122,6 +178,27 @@ export const BillingModal: React.FC<BillingModalProps> = ({
         return acc;
     }, {} as Record<number, { subtotal: number; iva: number }>);
 
+    // Formas de pago: varias filas; en efectivo se ingresa lo que entrega el cliente
+    const paymentEntries = getPaymentEntries(billingData.payments, billingData.paymentMethod);
+    const paymentSummary = summarizePayments(paymentEntries, total);
+
+    const setPaymentEntries = (entries: PaymentEntry[]) => {
+        setBillingData({ ...billingData, payments: entries, paymentMethod: entries[0]?.method || CASH_METHOD });
+    };
+    const updatePaymentEntry = (idx: number, changes: Partial<PaymentEntry>) => {
+        setPaymentEntries(paymentEntries.map((entry, i) => (i === idx ? { ...entry, ...changes } : entry)));
+    };
+    const addPaymentEntry = () => {
+        // La nueva fila arranca con el saldo que falta (las demás quedan con su monto actual)
+        const fixedSum = paymentEntries.reduce((s, e) => s + (e.amount ?? 0), 0);
+        const fixed = paymentEntries.map(entry =>
+            entry.amount !== null ? entry : { ...entry, amount: Math.max(0, parseFloat((total - fixedSum).toFixed(2))) });
+        const covered = fixed.reduce((s, e) => s + (e.amount || 0), 0);
+        const usedMethods = fixed.map(e => e.method);
+        const nextMethod = PAYMENT_METHODS.find(m => !usedMethods.includes(m.code))?.code || '20';
+        setPaymentEntries([...fixed, { method: nextMethod, amount: Math.max(0, parseFloat((total - covered).toFixed(2))) }]);
+    };
+
     return (
         <Modal isOpen={isOpen} onClose={onClose} title="Cobro y Facturación" maxWidth="max-w-4xl">
             <div className="bg-white dark:bg-dark-950 -m-6 flex flex-col min-h-0">
@@ -130,7 +207,9 @@ export const BillingModal: React.FC<BillingModalProps> = ({
                 <div className="bg-blue-600 p-8 pt-10 text-white rounded-b-[2rem] shadow-xl shadow-blue-500/20 z-10">
                     <div className="max-w-2xl mx-auto flex flex-col sm:flex-row items-center justify-between gap-6">
                         <div className="text-center sm:text-left">
-                            <p className="text-[10px] font-black uppercase tracking-[0.3em] opacity-80 mb-1">Monto de la Orden</p>
+                            <p className="text-[10px] font-black uppercase tracking-[0.3em] opacity-80 mb-1">
+                                {activeSplitPart ? `Parte ${activeSplitPart.part} de ${splitPlan!.parts.length}` : 'Monto de la Orden'}
+                            </p>
                             <h2 className="text-5xl font-black tracking-tighter">${total.toFixed(2)}</h2>
                         </div>
                         <button
@@ -140,7 +219,9 @@ export const BillingModal: React.FC<BillingModalProps> = ({
                                 email: 'consumidor@final.com',
                                 address: 'S/N',
                                 phone: '9999999999',
-                                paymentMethod: '01'
+                                paymentMethod: billingData.paymentMethod || '01',
+                                payments: billingData.payments,
+                                tip: billingData.tip
                             })}
                             className="bg-white text-blue-600 px-6 py-3 rounded-2xl transition-all active:scale-95 flex items-center gap-2 text-xs font-black uppercase shadow-lg shadow-white/10"
                         >
@@ -154,6 +235,41 @@ export const BillingModal: React.FC<BillingModalProps> = ({
                 <div className="flex-1 overflow-y-auto max-h-[70vh] p-6 sm:p-10 custom-scrollbar">
                     <div className="max-w-2xl mx-auto space-y-12">
 
+                        {/* Cuenta única / dividida */}
+                        {split && (
+                            <div className="space-y-6">
+                                <div className="flex bg-gray-100 dark:bg-dark-800 p-1 rounded-2xl">
+                                    <button
+                                        onClick={() => setSplitRequested(false)}
+                                        disabled={!!splitPlan}
+                                        className={`flex-1 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:cursor-not-allowed ${
+                                            !splitMode ? 'bg-white dark:bg-dark-700 text-blue-600 shadow' : 'text-gray-400'
+                                        }`}
+                                    >
+                                        Cuenta Única
+                                    </button>
+                                    <button
+                                        onClick={() => setSplitRequested(true)}
+                                        className={`flex-1 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${
+                                            splitMode ? 'bg-white dark:bg-dark-700 text-blue-600 shadow' : 'text-gray-400'
+                                        }`}
+                                    >
+                                        Dividir Cuenta
+                                    </button>
+                                </div>
+                                {splitMode && (
+                                    <SplitBillPanel
+                                        key={billingOrder.id}
+                                        items={billingOrder.items}
+                                        plan={splitPlan}
+                                        activePart={split.activePart}
+                                        onSavePlan={split.onSavePlan}
+                                        onSelectPart={split.onSelectPart}
+                                    />
+                                )}
+                            </div>
+                        )}
+
                         {/* Compact Summary Info (Visual Check) */}
                         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 bg-gray-50 dark:bg-dark-900/50 p-6 rounded-[2rem] border border-gray-100 dark:border-dark-800">
                             <div className="space-y-3">
@@ -262,23 +378,100 @@ export const BillingModal: React.FC<BillingModalProps> = ({
                                     />
                                 </div>
 
-                                <div className="sm:col-span-2 relative">
-                                    <label htmlFor="paymentMethod" className={labelClass}>Método de Pago</label>
-                                    <select
-                                        id="paymentMethod"
-                                        value={billingData.paymentMethod}
-                                        onChange={e => setBillingData({ ...billingData, paymentMethod: e.target.value })}
-                                        className={`${inputClass} appearance-none pr-10`}
-                                    >
-                                        <option value="01">EFECTIVO / SIN UTILIZACIÓN DEL SISTEMA FINANCIERO</option>
-                                        <option value="16">TARJETA DE DÉBITO</option>
-                                        <option value="19">TARJETA DE CRÉDITO</option>
-                                        <option value="20">TRANSFERENCIA / OTROS</option>
-                                    </select>
-                                    <div className="absolute right-4 bottom-4 pointer-events-none text-gray-400">
-                                        <ChevronDownIcon className="w-5 h-5" />
+                                <div className="sm:col-span-2 space-y-3">
+                                    <span className={labelClass}>Propina</span>
+                                    <div className="flex flex-wrap gap-2 items-center">
+                                        {([
+                                            ['Sin propina', null],
+                                            [`Servicio ${serviceChargeRate}%`, { type: 'SERVICE_CHARGE', value: serviceChargeRate }],
+                                            ['Monto', { type: 'AMOUNT', value: billingData.tip?.type === 'AMOUNT' ? billingData.tip.value : 0 }]
+                                        ] as [string, TipSelection | null][]).map(([label, option]) => (
+                                            <button
+                                                key={label}
+                                                type="button"
+                                                onClick={() => setTip(option)}
+                                                className={`px-4 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${
+                                                    (billingData.tip?.type ?? null) === (option?.type ?? null)
+                                                        ? 'bg-blue-600 text-white shadow-lg shadow-blue-500/25'
+                                                        : 'bg-gray-100 text-gray-500 hover:bg-blue-50 hover:text-blue-600 dark:bg-dark-800 dark:text-gray-400'
+                                                }`}
+                                            >
+                                                {label}
+                                            </button>
+                                        ))}
+                                        {billingData.tip?.type === 'AMOUNT' && (
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                step="0.01"
+                                                aria-label="Monto de propina"
+                                                value={billingData.tip.value || ''}
+                                                onChange={e => setTip({ type: 'AMOUNT', value: parseFloat(e.target.value) || 0 })}
+                                                placeholder="0.00"
+                                                className={`${inputClass} w-32 text-right`}
+                                            />
+                                        )}
                                     </div>
                                 </div>
+
+                                <div className="sm:col-span-2 space-y-3">
+                                    <label htmlFor="paymentMethod-0" className={labelClass}>Forma de Pago</label>
+                                    {paymentEntries.map((entry, idx) => (
+                                        <div key={idx} className="flex gap-3 items-center">
+                                            <div className="relative flex-1">
+                                                <select
+                                                    id={`paymentMethod-${idx}`}
+                                                    value={entry.method}
+                                                    onChange={e => updatePaymentEntry(idx, { method: e.target.value })}
+                                                    className={`${inputClass} appearance-none pr-10`}
+                                                >
+                                                    {PAYMENT_METHODS.map(m => (
+                                                        <option key={m.code} value={m.code}>{m.label}</option>
+                                                    ))}
+                                                </select>
+                                                <div className="absolute right-4 bottom-4 pointer-events-none text-gray-400">
+                                                    <ChevronDownIcon className="w-5 h-5" />
+                                                </div>
+                                            </div>
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                step="0.01"
+                                                aria-label={entry.method === CASH_METHOD ? 'Efectivo recibido' : 'Monto'}
+                                                value={entry.amount ?? ''}
+                                                onChange={e => updatePaymentEntry(idx, { amount: e.target.value === '' ? null : parseFloat(e.target.value) })}
+                                                placeholder={entry.method === CASH_METHOD ? 'Recibido' : 'Saldo'}
+                                                className={`${inputClass} w-32 text-right`}
+                                            />
+                                            {paymentEntries.length > 1 && (
+                                                <button
+                                                    onClick={() => setPaymentEntries(paymentEntries.filter((_, i) => i !== idx))}
+                                                    className="p-3 text-gray-400 hover:text-red-500"
+                                                    aria-label="Quitar forma de pago"
+                                                >
+                                                    <TrashIcon className="w-4 h-4" />
+                                                </button>
+                                            )}
+                                        </div>
+                                    ))}
+                                    <div className="flex items-center justify-between gap-4 px-1">
+                                        <button
+                                            onClick={addPaymentEntry}
+                                            className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-blue-600 hover:text-blue-700"
+                                        >
+                                            <PlusIcon className="w-3.5 h-3.5" />
+                                            Agregar forma de pago
+                                        </button>
+                                        {paymentSummary.change > 0 && (
+                                            <span className="text-sm font-black text-green-600" data-testid="payment-change">
+                                                Cambio: ${paymentSummary.change.toFixed(2)}
+                                            </span>
+                                        )}
+                                    </div>
+                                    {paymentSummary.issues.length > 0 && (
+                                        <p className="text-[10px] text-red-500 font-black px-1">{paymentSummary.issues.join(' · ')}</p>
+                                    )}
+                                </div>
                             </div>
                         </div>
 
@@ -289,11 +482,15 @@ export const BillingModal: React.FC<BillingModalProps> = ({
                                 <h3 className="text-xs font-black uppercase tracking-widest text-gray-400">Detalles de Orden</h3>
                             </div>
                             <div className="space-y-2">
-                                {billingOrder.items.map((item, idx) => (
+                                {billedLines.map((item, idx) => (
                                     <div key={idx} className="flex justify-between text-sm py-2 px-1 border-b border-gray-50 dark:border-dark-900">
                                         <div className="flex gap-4 items-center">
-                                            <span className="font-black text-blue-500 w-4">{item.quantity}</span>
-                                            <span className="font-bold text-gray-700 dark:text-gray-300 uppercase">{item.name}</span>
+                                            <span className="font-black text-blue-500 w-4">{Number(item.quantity.toFixed(3))}</span>
+                                            <span className="font-bold text-gray-700 dark:text-gray-300 uppercase">
+                                                {item.name}
+                                                {/* Igual que la descripción de la factura: "Ceviche (Grande, + Chifles)" */}
+                                                {item.modifiers?.length ? ` (${describeModifiers(item.modifiers)})` : ''}
+                                            </span>
                                             <span className={`text-[9px] font-bold px-1.5 py-0.5 rounded-lg ${
                                                 (item.taxRate ?? 15) === 0 
                                                     ? 'bg-green-100 dark:bg-green-900/30 text-green-600' 
@@ -302,7 +499,12 @@ export const BillingModal: React.FC<BillingModalProps> = ({
                                                 IVA {item.taxRate ?? 15}%
                                             </span>
                                         </div>
-                                        <span className="font-black text-gray-900 dark:text-white">${((item.price || 0) * item.quantity).toFixed(2)}</span>
+                                        <span className="font-black text-gray-900 dark:text-white">
+                                            {item.discountAmount > 0 && (
+                                                <span className="mr-2 text-xs font-bold text-gray-300 line-through">${(item.lineTotal + item.discountAmount).toFixed(2)}</span>
+                                            )}
+                                            ${item.lineTotal.toFixed(2)}
+                                        </span>
                                     </div>
                                 ))}
                             </div>
@@ -323,6 +525,18 @@ export const BillingModal: React.FC<BillingModalProps> = ({
                                         )}
                                     </React.Fragment>
                                 ))}
+                                {discountTotal > 0 && (
+                                    <div className="flex justify-between text-xs font-bold text-green-600 uppercase tracking-wider">
+                                        <span>Descuentos (IVA incluido)</span>
+                                        <span data-testid="preview-discount">-${discountTotal.toFixed(2)}</span>
+                                    </div>
+                                )}
+                                {charge.tip > 0 && (
+                                    <div className="flex justify-between text-xs font-bold text-gray-500 uppercase tracking-wider">
+                                        <span>Propina (sin IVA)</span>
+                                        <span data-testid="preview-tip">${charge.tip.toFixed(2)}</span>
+                                    </div>
+                                )}
                                 <div className="pt-3 border-t border-gray-200 dark:border-dark-700 flex justify-between items-center">
                                     <span className="text-sm font-black text-gray-900 dark:text-white uppercase tracking-widest">Total a Pagar</span>
                                     <span className="text-xl font-black text-blue-600 dark:text-blue-400" data-testid="preview-total">${total.toFixed(2)}</span>
@@ -337,13 +551,13 @@ export const BillingModal: React.FC<BillingModalProps> = ({
                     <div className="max-w-2xl mx-auto flex flex-col sm:flex-row gap-4">
                         <button
                             onClick={onProcess}
-                            disabled={!billingData.identification || !billingData.name || !emailValid || !idValidation.valid}
+                            disabled={!billingData.identification || !billingData.name || !emailValid || !idValidation.valid || (splitMode && !activeSplitPart) || paymentSummary.issues.length > 0}
                             className="flex-[2] py-5 bg-blue-600 hover:bg-blue-700 text-white rounded-3xl font-black uppercase tracking-widest shadow-xl shadow-blue-500/20 active:scale-[0.98] transition-all disabled:opacity-40 flex items-center justify-center gap-3 group"
                         >
                             <CheckCircleIcon className="w-6 h-6" />
-                            Confirmar y Facturar
+                            {splitMode ? (activeSplitPart ? `Facturar Parte ${activeSplitPart.part}` : 'Elija una Parte') : 'Confirmar y Facturar'}
                         </button>
-                        {!hideManualComplete && (
+                        {!hideManualComplete && !splitMode && (
                             <button
                                 onClick={onManualComplete}
                                 className="flex-1 py-5 bg-white dark:bg-dark-800 text-gray-700 dark:text-gray-300 rounded-2xl font-black text-[10px] uppercase border border-gray-200 dark:border-dark-700 hover:bg-gray-50 transition-all flex items-center justify-center gap-2"
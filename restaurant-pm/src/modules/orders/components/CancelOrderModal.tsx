@@ -0,0 +1,89 @@
+/**
+ * @file CancelOrderModal.tsx
+ * @description Cancelación de un pedido con motivo obligatorio.
+ * El pedido no se borra: queda en el historial como Cancelado, con el motivo
+ * y el usuario, y cuenta en las estadísticas de cancelaciones.
+ */
+import React, { useEffect, useState } from 'react';
+import Modal from '../../../components/ui/Modal';
+import { Order } from '../types/order.types';
+
+/** Motivos frecuentes para no tener que escribirlos cada vez */
+const QUICK_REASONS = ['Cliente se retiró', 'Pedido duplicado', 'Error al tomar el pedido', 'Producto agotado'];
+const MIN_REASON_LENGTH = 3;
+
+interface CancelOrderModalProps {
+    order: Order | null;
+    onClose: () => void;
+    onConfirm: (order: Order, reason: string) => Promise<void>;
+}
+
+export const CancelOrderModal: React.FC<CancelOrderModalProps> = ({ order, onClose, onConfirm }) => {
+    const [reason, setReason] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (order) setReason('');
+    }, [order]);
+
+    const isValid = reason.trim().length >= MIN_REASON_LENGTH;
+
+    const handleConfirm = async () => {
+        if (!order || !isValid) return;
+        setIsSaving(true);
+        try {
+            await onConfirm(order, reason.trim());
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Modal isOpen={!!order} onClose={onClose} title={`Cancelar Pedido #${order?.orderNumber || order?.id.slice(-6) || ''}`}>
+            <div className="space-y-5">
+                <div className="flex flex-wrap gap-2">
+                    {QUICK_REASONS.map(quick => (
+                        <button
+                            key={quick}
+                            type="button"
+                            onClick={() => setReason(quick)}
+                            className={`px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${reason === quick ? 'bg-red-600 text-white' : 'bg-gray-100 text-gray-500 hover:bg-red-50 hover:text-red-600 dark:bg-dark-700 dark:text-gray-400'}`}
+                        >
+                            {quick}
+                        </button>
+                    ))}
+                </div>
+
+                <div>
+                    <label htmlFor="cancel-reason" className="block text-[10px] font-black text-gray-400 uppercase tracking-widest mb-2">Motivo</label>
+                    <textarea
+                        id="cancel-reason"
+                        value={reason}
+                        onChange={e => setReason(e.target.value)}
+                        maxLength={300}
+                        rows={3}
+                        placeholder="¿Por qué se cancela?"
+                        className="w-full rounded-xl border border-gray-200 bg-gray-50 p-3 text-sm font-bold text-gray-900 focus:border-red-500 focus:bg-white focus:ring-4 focus:ring-red-500/10 focus:outline-none transition-all dark:border-gray-700 dark:bg-dark-800 dark:text-white"
+                    />
+                </div>
+
+                <div className="flex gap-3">
+                    <button
+                        onClick={onClose}
+                        disabled={isSaving}
+                        className="flex-1 px-6 py-3.5 rounded-2xl bg-gray-50 text-gray-500 hover:bg-gray-100 dark:bg-dark-700 dark:text-gray-400 font-black text-[10px] uppercase tracking-widest transition-all disabled:opacity-50"
+                    >
+                        Volver
+                    </button>
+                    <button
+                        onClick={handleConfirm}
+                        disabled={!isValid || isSaving}
+                        className="flex-1 px-6 py-3.5 rounded-2xl bg-red-600 hover:bg-red-700 text-white font-black text-[10px] uppercase tracking-widest shadow-lg shadow-red-500/25 transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isSaving ? 'Cancelando…' : 'Cancelar Pedido'}
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
@@ -0,0 +1,196 @@
+/**
+ * @file DiscountModal.tsx
+ * @description Descuento de una línea o de todo el pedido, en porcentaje o monto, con motivo obligatorio.
+ * Reemplaza el ajuste de precio como forma de descontar: el descuento va a la
+ * factura (campo descuento del SRI) y a las estadísticas con su motivo y quién lo autorizó.
+ * Si el rol del usuario no autoriza descuentos, un gerente lo aprueba aquí con su usuario y contraseña.
+ */
+import React, { useEffect, useState } from 'react';
+import Modal from '../../../components/ui/Modal';
+import { DiscountType, OrderDiscount } from '../types/order.types';
+import { DISCOUNT_REASON_MAX_LENGTH, discountAmount, getDiscountIssue } from '../utils/discounts';
+import { orderService } from '../services/OrderService';
+
+/** Motivos frecuentes para no tener que escribirlos cada vez */
+const QUICK_REASONS = ['Cortesía de la casa', 'Cliente frecuente', 'Demora en cocina', 'Promoción'];
+
+export interface DiscountTarget {
+    title: string; // "Ceviche" o "Todo el pedido"
+    gross: number; // Total con IVA sobre el que se descuenta
+    discount?: OrderDiscount | null;
+}
+
+interface DiscountModalProps {
+    target: DiscountTarget | null;
+    onClose: () => void;
+    /** authorization: aprobación firmada del gerente, cuando hizo falta pedirla */
+    onApply: (discount: OrderDiscount | null, authorization?: string) => void;
+    /** El usuario no autoriza descuentos: hace falta la clave de un gerente */
+    requiresApproval?: boolean;
+}
+
+export const DiscountModal: React.FC<DiscountModalProps> = ({ target, onClose, onApply, requiresApproval = false }) => {
+    const [type, setType] = useState<DiscountType>('PERCENTAGE');
+    const [value, setValue] = useState('');
+    const [reason, setReason] = useState('');
+    const [managerUsername, setManagerUsername] = useState('');
+    const [managerPassword, setManagerPassword] = useState('');
+    const [approvalError, setApprovalError] = useState<string | null>(null);
+    const [isApproving, setIsApproving] = useState(false);
+
+    useEffect(() => {
+        if (!target) return;
+        setType(target.discount?.type || 'PERCENTAGE');
+        setValue(target.discount ? String(target.discount.value) : '');
+        setReason(target.discount?.reason || '');
+        setManagerUsername('');
+        setManagerPassword('');
+        setApprovalError(null);
+    }, [target]);
+
+    const draft: OrderDiscount = { type, value: parseFloat(value) || 0, reason };
+    const issue = getDiscountIssue(draft)
+        || (requiresApproval && (!managerUsername.trim() || !managerPassword) ? 'Un gerente debe autorizar el descuento' : null);
+    const amount = target ? discountAmount(draft, target.gross) : 0;
+
+    const handleApply = async () => {
+        if (issue || isApproving) return;
+        const discount: OrderDiscount = { type, value: draft.value, reason: reason.trim() };
+        if (!requiresApproval) {
+            onApply(discount);
+            return;
+        }
+
+        setIsApproving(true);
+        setApprovalError(null);
+        try {
+            const { authorization } = await orderService.authorizeDiscount(managerUsername.trim(), managerPassword);
+            onApply(discount, authorization);
+        } catch (error) {
+            setApprovalError(error instanceof Error ? error.message : 'No se pudo autorizar el descuento');
+        } finally {
+            setIsApproving(false);
+            setManagerPassword('');
+        }
+    };
+
+    return (
+        <Modal isOpen={!!target} onClose={onClose} title={`Descuento · ${target?.title || ''}`} zIndex="z-[10000]">
+            <div className="space-y-5">
+                <div className="flex bg-gray-100 dark:bg-dark-800 p-1 rounded-xl">
+                    {([['PERCENTAGE', 'Porcentaje (%)'], ['AMOUNT', 'Monto ($)']] as const).map(([option, label]) => (
+                        <button
+                            key={option}
+                            type="button"
+                            onClick={() => setType(option)}
+                            className={`flex-1 px-3 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${type === option
+                                ? 'bg-white dark:bg-dark-700 text-blue-600 dark:text-blue-400 shadow-sm'
+                                : 'text-gray-400'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
+                <div>
+                    <label htmlFor="discount-value" className="block text-[10px] font-black text-gray-400 uppercase tracking-widest mb-2">
+                        {type === 'PERCENTAGE' ? 'Porcentaje' : 'Monto con IVA'}
+                    </label>
+                    <input
+                        id="discount-value"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        autoFocus
+                        value={value}
+                        onChange={e => setValue(e.target.value)}
+                        className="w-full rounded-xl border border-gray-200 bg-gray-50 p-3 text-sm font-bold text-gray-900 focus:border-blue-500 focus:bg-white focus:ring-4 focus:ring-blue-500/10 focus:outline-none transition-all dark:border-gray-700 dark:bg-dark-800 dark:text-white"
+                    />
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                    {QUICK_REASONS.map(quick => (
+                        <button
+                            key={quick}
+                            type="button"
+                            onClick={() => setReason(quick)}
+                            className={`px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${reason === quick ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-500 hover:bg-blue-50 hover:text-blue-600 dark:bg-dark-700 dark:text-gray-400'}`}
+                        >
+                            {quick}
+                        </button>
+                    ))}
+                </div>
+
+                <div>
+                    <label htmlFor="discount-reason" className="block text-[10px] font-black text-gray-400 uppercase tracking-widest mb-2">Motivo</label>
+                    <input
+                        id="discount-reason"
+                        type="text"
+                        value={reason}
+                        onChange={e => setReason(e.target.value)}
+                        maxLength={DISCOUNT_REASON_MAX_LENGTH}
+                        placeholder="¿Por qué se descuenta?"
+                        className="w-full rounded-xl border border-gray-200 bg-gray-50 p-3 text-sm font-bold text-gray-900 focus:border-blue-500 focus:bg-white focus:ring-4 focus:ring-blue-500/10 focus:outline-none transition-all dark:border-gray-700 dark:bg-dark-800 dark:text-white"
+                    />
+                </div>
+
+                {requiresApproval && (
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label htmlFor="discount-manager" className="block text-[10px] font-black text-gray-400 uppercase tracking-widest mb-2">Gerente que autoriza</label>
+                            <input
+                                id="discount-manager"
+                                type="text"
+                                autoComplete="off"
+                                value={managerUsername}
+                                onChange={e => setManagerUsername(e.target.value)}
+                                className="w-full rounded-xl border border-gray-200 bg-gray-50 p-3 text-sm font-bold text-gray-900 focus:border-blue-500 focus:bg-white focus:ring-4 focus:ring-blue-500/10 focus:outline-none transition-all dark:border-gray-700 dark:bg-dark-800 dark:text-white"
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="discount-manager-password" className="block text-[10px] font-black text-gray-400 uppercase tracking-widest mb-2">Contraseña</label>
+                            <input
+                                id="discount-manager-password"
+                                type="password"
+                                autoComplete="new-password"
+                                value={managerPassword}
+                                onChange={e => setManagerPassword(e.target.value)}
+                                className="w-full rounded-xl border border-gray-200 bg-gray-50 p-3 text-sm font-bold text-gray-900 focus:border-blue-500 focus:bg-white focus:ring-4 focus:ring-blue-500/10 focus:outline-none transition-all dark:border-gray-700 dark:bg-dark-800 dark:text-white"
+                            />
+                        </div>
+                    </div>
+                )}
+                {approvalError && <p className="text-xs font-black text-red-500">{approvalError}</p>}
+
+                <p className={`text-xs font-black ${issue ? 'text-gray-400' : 'text-green-600'}`}>
+                    {issue || `Descuenta $${amount.toFixed(2)} de $${(target?.gross || 0).toFixed(2)}`}
+                </p>
+
+                <div className="flex gap-3">
+                    {target?.discount ? (
+                        <button
+                            onClick={() => onApply(null)}
+                            className="flex-1 px-6 py-3.5 rounded-2xl bg-red-50 text-red-600 hover:bg-red-100 dark:bg-red-950/20 font-black text-[10px] uppercase tracking-widest transition-all"
+                        >
+                            Quitar descuento
+                        </button>
+                    ) : (
+                        <button
+                            onClick={onClose}
+                            className="flex-1 px-6 py-3.5 rounded-2xl bg-gray-50 text-gray-500 hover:bg-gray-100 dark:bg-dark-700 dark:text-gray-400 font-black text-[10px] uppercase tracking-widest transition-all"
+                        >
+                            Volver
+                        </button>
+                    )}
+                    <button
+                        onClick={handleApply}
+                        disabled={!!issue || isApproving}
+                        className="flex-1 px-6 py-3.5 rounded-2xl bg-blue-600 hover:bg-blue-700 text-white font-black text-[10px] uppercase tracking-widest shadow-lg shadow-blue-500/25 transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Aplicar descuento
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
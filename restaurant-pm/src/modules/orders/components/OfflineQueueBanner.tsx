@@ -0,0 +1,100 @@
+/**
+ * @file OfflineQueueBanner.tsx
+ * @description Aviso de pedidos guardados sin conexión.
+ * Muestra cuántos cambios esperan al servidor y los conflictos, para que el
+ * cajero decida: sobrescribir lo que cambió otro dispositivo o descartar su cambio.
+ */
+import React, { useEffect, useState } from 'react';
+import { offlineOrderQueue, QueuedOrderOperation } from '../services/offlineOrderQueue';
+import { AlertCircleIcon, RefreshCcwIcon } from '../../../components/ui/Icons';
+import { toast } from '../../../components/ui/AlertProvider';
+
+const describeOperation = (operation: QueuedOrderOperation): string =>
+    `${operation.kind === 'create' ? 'Nuevo pedido' : 'Edición'} · ${operation.payload.customerName || 'Sin nombre'}`;
+
+export const OfflineQueueBanner: React.FC = () => {
+    const [operations, setOperations] = useState<QueuedOrderOperation[]>([]);
+    const [isSyncing, setIsSyncing] = useState(false);
+
+    useEffect(() => {
+        let active = true;
+        offlineOrderQueue.list().then(list => { if (active) setOperations(list); });
+        const off = offlineOrderQueue.subscribe(event => {
+            if (event.type === 'changed') setOperations(event.operations);
+        });
+        return () => {
+            active = false;
+            off();
+        };
+    }, []);
+
+    if (operations.length === 0) return null;
+
+    const conflicts = operations.filter(op => op.status === 'conflict');
+    const pendingCount = operations.length - conflicts.length;
+
+    const run = async (action: () => Promise<unknown>) => {
+        setIsSyncing(true);
+        try {
+            await action();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'No se pudo sincronizar', 'Error');
+        } finally {
+            setIsSyncing(false);
+        }
+    };
+
+    const syncNow = () => run(async () => {
+        const result = await offlineOrderQueue.flush();
+        if (result.offline) toast.warning('Todavía no hay conexión con el servidor', 'Sin conexión');
+    });
+
+    return (
+        <div className="mb-4 rounded-2xl border border-amber-200 dark:border-amber-900/50 bg-amber-50 dark:bg-amber-900/20 px-4 py-3 space-y-2">
+            {pendingCount > 0 && (
+                <div className="flex items-center justify-between gap-3">
+                    <p className="text-xs font-bold text-amber-800 dark:text-amber-300">
+                        {pendingCount} cambio(s) guardados en este dispositivo, pendientes de enviar
+                    </p>
+                    <button
+                        onClick={syncNow}
+                        disabled={isSyncing}
+                        className="shrink-0 flex items-center gap-1 px-3 py-1.5 rounded-xl bg-amber-600 hover:bg-amber-700 text-white text-[10px] font-black uppercase tracking-widest disabled:opacity-50"
+                    >
+                        <RefreshCcwIcon className="w-3 h-3" /> {isSyncing ? 'Enviando…' : 'Sincronizar'}
+                    </button>
+                </div>
+            )}
+            {conflicts.map(operation => (
+                <div key={operation.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-xl bg-white/70 dark:bg-dark-800/70 px-3 py-2">
+                    <div className="flex items-start gap-2 min-w-0">
+                        <AlertCircleIcon className="w-4 h-4 mt-0.5 shrink-0 text-red-600" />
+                        <div className="min-w-0">
+                            <p className="text-xs font-bold text-gray-900 dark:text-white truncate">{describeOperation(operation)}</p>
+                            <p className="text-[11px] text-red-700 dark:text-red-300 break-words">{operation.error}</p>
+                        </div>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                        {operation.kind === 'update' && (
+                            <button
+                                onClick={() => run(() => offlineOrderQueue.retry(operation.id, { force: true }))}
+                                disabled={isSyncing}
+                                title="Aplicar mi cambio sobre la versión actual del pedido"
+                                className="px-3 py-1.5 rounded-xl bg-blue-600 hover:bg-blue-700 text-white text-[10px] font-black uppercase tracking-widest disabled:opacity-50"
+                            >
+                                Sobrescribir
+                            </button>
+                        )}
+                        <button
+                            onClick={() => run(() => offlineOrderQueue.discard(operation.id))}
+                            disabled={isSyncing}
+                            className="px-3 py-1.5 rounded-xl bg-gray-100 dark:bg-dark-700 text-gray-600 dark:text-gray-300 text-[10px] font-black uppercase tracking-widest disabled:opacity-50"
+                        >
+                            Descartar
+                        </button>
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+};
@@ -5,7 +5,16 @@
  */
 import React, { useState, useEffect, useMemo } from 'react';
 import { Order, OrderItem, OrderStatus } from '../types/order.types';
-import { EditIcon, TrashIcon, ClockIcon } from '../../../components/ui/Icons';
+import { EditIcon, TrashIcon, ClockIcon, HistoryIcon, AlertCircleIcon } from '../../../components/ui/Icons';
+import { describeModifiers } from '../../menu/utils/modifiers';
+import {
+    ORDER_STATUS_BADGE,
+    ORDER_STATUS_BORDER,
+    canBillOrder,
+    describeStatusHistory,
+    isClosedOrder,
+    nextOrderStatus
+} from '../utils/orderStatus';
 
 /**
  * Parsea el nombre del cliente para extraer nombre limpio y origen (WhatsApp/Web)
@@ -62,33 +71,25 @@ interface OrderCardProps {
     onStatusChange: (newStatus: OrderStatus) => void;
     onPayment?: (order: Order) => void;
     onBilling?: () => void;
+    onCancel?: () => void;
     userRoleName?: string;
 }
 
-export const OrderCard: React.FC<OrderCardProps> = ({ order, onEdit, onDelete, onStatusChange, onPayment, onBilling, userRoleName }) => {
+export const OrderCard: React.FC<OrderCardProps> = ({ order, onEdit, onDelete, onStatusChange, onPayment, onBilling, onCancel, userRoleName }) => {
     // Parsear información del cliente (memo para evitar recálculos)
     const customerInfo = useMemo(() => parseCustomerInfo(order.customerName), [order.customerName]);
     const displayOrderNumber = useMemo(() => formatOrderNumber(order.orderNumber, order.id.slice(-6)), [order.orderNumber, order.id]);
 
-    const getStatusColor = () => {
-        switch (order.status) {
-            case OrderStatus.New: return 'border-blue-500 dark:border-blue-400';
-            case OrderStatus.Ready: return 'border-orange-500 dark:border-orange-400';
-            case OrderStatus.Completed: return 'border-green-500 dark:border-green-400';
-            default: return 'border-gray-300 dark:border-gray-600';
-        }
-    };
-
-    const getStatusBadgeColor = () => {
-        switch (order.status) {
-            case OrderStatus.New: return 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300';
-            case OrderStatus.Ready: return 'bg-orange-100 text-orange-800 dark:bg-orange-900/50 dark:text-orange-300';
-            case OrderStatus.Completed: return 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300';
-            default: return 'bg-gray-100 text-gray-800 dark:bg-dark-600 dark:text-gray-300';
-        }
-    }
+    const isClosed = isClosedOrder(order);
+    // Guardado sin conexión: solo se puede seguir editando hasta que llegue al servidor
+    const isUnsynced = !!order.syncState;
+    const isCancelled = order.status === OrderStatus.Cancelled;
+    const statusBorder = ORDER_STATUS_BORDER[order.status] || 'border-gray-300 dark:border-gray-600';
+    const statusBadge = ORDER_STATUS_BADGE[order.status] || 'bg-gray-100 text-gray-800 dark:bg-dark-600 dark:text-gray-300';
+    const history = useMemo(() => describeStatusHistory(order.statusHistory), [order.statusHistory]);
 
     const [timeAgo, setTimeAgo] = useState('');
+    const [showHistory, setShowHistory] = useState(false);
 
     useEffect(() => {
         const updateTimer = () => {
@@ -112,29 +113,39 @@ export const OrderCard: React.FC<OrderCardProps> = ({ order, onEdit, onDelete, o
         : '';
 
     const handleStatusClick = () => {
-        if (order.status === OrderStatus.Completed) return; // Prevent clicking status badge in History
-        
-        if (order.status === OrderStatus.New) {
-            onStatusChange(OrderStatus.Ready);
-        } else if (order.status === OrderStatus.Ready) {
-            if (onPayment) onPayment(order);
-            else onStatusChange(OrderStatus.Completed);
+        if (isClosed || isUnsynced) return; // Prevent clicking status badge in History
+
+        const next = nextOrderStatus(order.status);
+        if (next) {
+            onStatusChange(next);
+        } else if (onPayment) {
+            onPayment(order); // Entregado: solo queda cobrar
         } else {
-            onStatusChange(OrderStatus.New);
+            onStatusChange(OrderStatus.Completed);
         }
     };
 
     const total = order.items.reduce((sum, item) => sum + ((item.price || 0) * item.quantity), 0);
 
     return (
-        <div className={`bg-white dark:bg-dark-800 p-4 md:p-5 rounded-2xl md:rounded-3xl shadow-lg border-2 ${getStatusColor()} flex flex-col justify-between transition-all hover:shadow-xl hover:-translate-y-1`}>
+        <div className={`bg-white dark:bg-dark-800 p-4 md:p-5 rounded-2xl md:rounded-3xl shadow-lg border-2 ${statusBorder} ${isCancelled ? 'opacity-75' : ''} flex flex-col justify-between transition-all hover:shadow-xl hover:-translate-y-1`}>
             <div>
                 <div className="flex justify-between items-start mb-3 md:mb-4 gap-2">
                     <div className="min-w-0 flex-1">
                         {/* Número de orden formateado */}
                         <h3 className="font-black text-gray-900 dark:text-white leading-tight text-base md:text-lg">
-                            #{displayOrderNumber}
+                            {isUnsynced && !order.orderNumber ? 'Sin número' : `#${displayOrderNumber}`}
                         </h3>
+                        {isUnsynced && (
+                            <span
+                                className={`inline-block mt-1 text-[8px] md:text-[9px] font-black px-2 py-0.5 rounded-lg uppercase tracking-widest ${order.syncState === 'conflict'
+                                    ? 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300'
+                                    : 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300'
+                                    }`}
+                            >
+                                {order.syncState === 'conflict' ? 'Conflicto al sincronizar' : 'Pendiente de sincronizar'}
+                            </span>
+                        )}
                         {/* Nombre del cliente con indicador de origen */}
                         <div className="flex items-center gap-1.5 mt-0.5">
                             {customerInfo.source === 'whatsapp' && (
@@ -167,8 +178,8 @@ export const OrderCard: React.FC<OrderCardProps> = ({ order, onEdit, onDelete, o
                     <div className="flex items-center gap-2">
                         <span className="text-[9px] md:text-[10px] font-black bg-gray-100 dark:bg-dark-900 px-2 py-1 rounded-lg text-gray-500 dark:text-gray-400 uppercase tracking-widest">{order.type}</span>
                         
-                        {/* Tiempo Estimado (Solo si es Nuevo y tiene tiempo seteado) */}
-                        {order.status === OrderStatus.New && order.estimatedMinutes && (
+                        {/* Tiempo Estimado (Solo mientras la cocina lo prepara) */}
+                        {(order.status === OrderStatus.New || order.status === OrderStatus.InPreparation) && order.estimatedMinutes && (
                             <div className="flex items-center gap-1 bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 px-2 py-1 rounded-lg animate-pulse">
                                 <ClockIcon className="w-3 h-3" />
                                 <span className="text-[10px] font-black uppercase tracking-tighter">{order.estimatedMinutes}' MIN</span>
@@ -178,13 +189,26 @@ export const OrderCard: React.FC<OrderCardProps> = ({ order, onEdit, onDelete, o
 
                     <button 
                         onClick={handleStatusClick} 
-                        disabled={order.status === OrderStatus.Completed}
-                        className={`text-[9px] md:text-[10px] font-black py-1 px-3 rounded-xl uppercase tracking-widest transition-all ${order.status !== OrderStatus.Completed ? 'active:scale-95' : 'cursor-default'} ${getStatusBadgeColor()}`}
+                        disabled={isClosed || isUnsynced}
+                        title={isClosed ? undefined : (nextOrderStatus(order.status) ? `Pasar a ${nextOrderStatus(order.status)}` : 'Cobrar')}
+                        className={`text-[9px] md:text-[10px] font-black py-1 px-3 rounded-xl uppercase tracking-widest transition-all ${!isClosed ? 'active:scale-95' : 'cursor-default'} ${statusBadge}`}
                     >
-                        {order.status === OrderStatus.Ready ? '¡LISTO PARA COBRO!' : order.status}
+                        {order.status === OrderStatus.Delivered ? 'ENTREGADO · POR COBRAR' : order.status}
                     </button>
                 </div>
 
+                {isCancelled && order.cancellation && (
+                    <div className="mb-4 flex items-start gap-2 rounded-xl bg-red-50 dark:bg-red-900/20 px-3 py-2 text-red-700 dark:text-red-300">
+                        <AlertCircleIcon className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                        <div className="min-w-0">
+                            <p className="text-[11px] font-bold break-words">{order.cancellation.reason}</p>
+                            <p className="text-[9px] font-black uppercase tracking-widest opacity-70">
+                                {order.cancellation.by} · {new Date(order.cancellation.at).toLocaleString('es-EC', { dateStyle: 'short', timeStyle: 'short' })}
+                            </p>
+                        </div>
+                    </div>
+                )}
+
                 {order.status === OrderStatus.Completed && order.billingType && (
                     <div className="mb-4">
                         <span className={`text-[8px] md:text-[9px] font-black px-2 py-0.5 rounded-lg border uppercase tracking-widest ${
@@ -200,11 +224,42 @@ export const OrderCard: React.FC<OrderCardProps> = ({ order, onEdit, onDelete, o
                 <div className="space-y-1.5 md:space-y-2 mb-4 md:mb-6">
                     {order.items.map((item: OrderItem, index: number) => (
                         <div key={index} className="flex justify-between items-center text-[11px] md:text-xs">
-                            <span className="text-gray-600 dark:text-gray-400 font-medium truncate max-w-[70%]">{item.name}</span>
+                            <span className="text-gray-600 dark:text-gray-400 font-medium truncate max-w-[70%]" title={describeModifiers(item.modifiers) || undefined}>
+                                {item.name}
+                                {item.modifiers?.length ? <span className="text-gray-400 dark:text-gray-500"> · {describeModifiers(item.modifiers)}</span> : null}
+                            </span>
                             <span className="font-black bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400 px-1.5 py-0.5 rounded text-[9px] md:text-[10px]">x{item.quantity}</span>
                         </div>
                     ))}
                 </div>
+
+                {history.length > 0 && (
+                    <div className="mb-4">
+                        <button
+                            type="button"
+                            onClick={() => setShowHistory(v => !v)}
+                            className="flex items-center gap-1 text-[9px] font-black uppercase tracking-widest text-gray-400 hover:text-blue-600 transition-colors"
+                            aria-expanded={showHistory}
+                        >
+                            <HistoryIcon className="w-3 h-3" /> Historial ({history.length})
+                        </button>
+                        {showHistory && (
+                            <ol className="mt-2 space-y-1.5 border-l-2 border-gray-100 dark:border-dark-700 pl-3">
+                                {history.map((change, index) => (
+                                    <li key={`${change.status}-${index}`} className="text-[10px]">
+                                        <div className="flex items-center gap-2">
+                                            <span className={`font-black uppercase tracking-widest px-1.5 py-0.5 rounded ${ORDER_STATUS_BADGE[change.status] || ''}`}>{change.status}</span>
+                                            <span className="font-bold text-gray-500 dark:text-gray-400">{change.time}</span>
+                                            {change.by && <span className="text-gray-400 truncate">{change.by}</span>}
+                                            {change.minutes !== null && <span className="ml-auto text-gray-300 dark:text-gray-600 font-bold">{change.minutes} min</span>}
+                                        </div>
+                                        {change.reason && <p className="mt-0.5 text-gray-400 italic break-words">{change.reason}</p>}
+                                    </li>
+                                ))}
+                            </ol>
+                        )}
+                    </div>
+                )}
             </div>
 
             <div className="pt-3 md:pt-4 border-t-2 border-dashed border-gray-100 dark:border-dark-700">
@@ -214,7 +269,7 @@ export const OrderCard: React.FC<OrderCardProps> = ({ order, onEdit, onDelete, o
                 </div>
 
                 <div className="flex items-center gap-2">
-                    {order.status === OrderStatus.Ready && onBilling && (
+                    {canBillOrder(order) && onBilling && !isUnsynced && (
                         <button
                             onClick={onBilling}
                             className="flex-1 flex items-center justify-center gap-2 py-2 md:py-2.5 bg-orange-600 hover:bg-orange-700 text-white rounded-xl md:rounded-2xl font-black text-[10px] md:text-xs uppercase tracking-widest shadow-lg shadow-orange-500/20 transition-all active:scale-95"
@@ -222,12 +277,21 @@ export const OrderCard: React.FC<OrderCardProps> = ({ order, onEdit, onDelete, o
                             <span>🧾</span> Pagar / Facturar
                         </button>
                     )}
-                    {order.status !== OrderStatus.Completed && (
+                    {!isClosed && (
                         <button onClick={onEdit} className="p-2 md:p-2.5 bg-gray-100 dark:bg-dark-700 text-gray-600 dark:text-gray-300 rounded-xl md:rounded-2xl hover:bg-blue-50 dark:hover:bg-blue-900/20 hover:text-blue-600 transition-all active:scale-95">
                             <EditIcon className="w-3.5 h-3.5 md:w-4 md:h-4" />
                         </button>
                     )}
-                    {(order.status !== OrderStatus.Completed || 
+                    {!isClosed && !order.billed && onCancel && !isUnsynced && (
+                        <button
+                            onClick={onCancel}
+                            title="Cancelar pedido"
+                            className="px-2.5 py-2 md:py-2.5 bg-gray-100 dark:bg-dark-700 text-gray-500 rounded-xl md:rounded-2xl font-black text-[9px] uppercase tracking-widest hover:bg-red-50 dark:hover:bg-red-900/20 hover:text-red-600 transition-all active:scale-95"
+                        >
+                            Cancelar
+                        </button>
+                    )}
+                    {!isUnsynced && (order.status !== OrderStatus.Completed || 
                       (userRoleName?.toLowerCase() === 'administrador' || userRoleName?.toLowerCase() === 'admin')) && (
                         <button onClick={onDelete} className="p-2 md:p-2.5 bg-gray-100 dark:bg-dark-700 text-gray-400 hover:bg-red-50 dark:hover:bg-red-900/20 hover:text-red-500 transition-all active:scale-95">
                             <TrashIcon className="w-3.5 h-3.5 md:w-4 md:h-4" />
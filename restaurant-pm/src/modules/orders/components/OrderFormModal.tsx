@@ -6,12 +6,16 @@
 import React, { useState, useEffect } from 'react';
 import { optimizeImage } from '../../../utils/cloudinary';
 import { MenuItem } from '../../menu/types/menu.types';
-import { Order, OrderItem, OrderStatus } from '../types/order.types';
+import { Order, OrderItem, OrderItemModifier, OrderStatus } from '../types/order.types';
+import { ACTIVE_ORDER_STATUSES } from '../utils/orderStatus';
 import Modal from '../../../components/ui/Modal';
 import { SearchIcon, ClipboardListIcon, MinusIcon, PlusIcon, TrashIcon } from '../../../components/ui/Icons';
 import { toast } from '../../../components/ui/AlertProvider';
 import { Validators } from '../../../utils/validators';
 import { categoryKey, uniqueCategoryNames } from '../../../utils/categoryName';
+import { ModifierPickerModal } from '../../menu/components/ModifierPickerModal';
+import { ModifierTags } from '../../menu/components/ModifierTags';
+import { hasModifiers, modifiersKey, priceWithModifiers } from '../../menu/utils/modifiers';
 
 const inputClass = "w-full rounded-lg border border-gray-200 bg-gray-50 p-2.5 text-gray-900 text-sm focus:border-blue-500 focus:bg-white focus:ring-2 focus:ring-blue-500/20 focus:outline-none transition-all dark:border-gray-600 dark:bg-gray-700/50 dark:text-white dark:placeholder-gray-400 dark:focus:border-blue-500 dark:focus:bg-gray-700 dark:focus:ring-blue-500/20";
 
@@ -37,6 +41,7 @@ export const OrderFormModal: React.FC<OrderFormModalProps> = ({ isOpen, onClose,
     const [searchQuery, setSearchQuery] = useState('');
     const [selectedCategory, setSelectedCategory] = useState<string>('Todos');
     const [showCartOnMobile, setShowCartOnMobile] = useState(false);
+    const [pickerItem, setPickerItem] = useState<MenuItem | null>(null);
 
     const isEditing = order !== null;
     const availableItems = menuItems.filter(item => item.available);
@@ -82,8 +87,19 @@ export const OrderFormModal: React.FC<OrderFormModalProps> = ({ isOpen, onClose,
     }, [isOpen, order]);
 
     const handleAddItem = (menuItem: MenuItem) => {
-        // Find if there is an existing NEW item to merge with
-        const existingNewItemIndex = items.findIndex(i => i.name === menuItem.name && i.isNew === true);
+        // Platos con tamaño/acompañantes/extras: primero se eligen los modificadores
+        if (hasModifiers(menuItem)) {
+            setPickerItem(menuItem);
+            return;
+        }
+        addLine(menuItem, []);
+    };
+
+    const addLine = (menuItem: MenuItem, modifiers: OrderItemModifier[]) => {
+        setPickerItem(null);
+        // Find if there is an existing NEW item (same modifiers) to merge with
+        const key = modifiersKey(modifiers);
+        const existingNewItemIndex = items.findIndex(i => i.name === menuItem.name && i.isNew === true && modifiersKey(i.modifiers) === key);
 
         if (existingNewItemIndex >= 0) {
             // Merge with the existing NEW item
@@ -92,7 +108,15 @@ export const OrderFormModal: React.FC<OrderFormModalProps> = ({ isOpen, onClose,
             setItems(newItems);
         } else {
             // Create a new line item, even if the same product exists as a saved item
-            setItems([...items, { name: menuItem.name, quantity: 1, price: menuItem.price, prepared: false, isNew: true, taxRate: menuItem.taxRate }]);
+            setItems([...items, {
+                name: menuItem.name,
+                quantity: 1,
+                price: priceWithModifiers(menuItem.price, modifiers),
+                prepared: false,
+                isNew: true,
+                taxRate: menuItem.taxRate,
+                ...(modifiers.length > 0 ? { modifiers } : {})
+            }]);
         }
     };
 
@@ -152,7 +176,7 @@ export const OrderFormModal: React.FC<OrderFormModalProps> = ({ isOpen, onClose,
 
         // Si hay items sin preparar y la orden estaba en un estado finalizado/listo, 
         // retrocedemos el estado a "Nuevo" para que la cocina lo vuelva a ver.
-        if (hasUnpreparedItems && (status === OrderStatus.Ready || status === OrderStatus.Completed)) {
+        if (hasUnpreparedItems && [OrderStatus.Ready, OrderStatus.Delivered, OrderStatus.Completed].includes(status)) {
             finalStatus = OrderStatus.New;
         }
 
@@ -284,9 +308,10 @@ export const OrderFormModal: React.FC<OrderFormModalProps> = ({ isOpen, onClose,
                                     onChange={e => setStatus(e.target.value as any)}
                                     className="w-1/2 bg-white dark:bg-dark-800 border border-gray-300 dark:border-dark-600 rounded-lg px-2 py-1.5 text-xs font-medium"
                                 >
-                                    <option value={OrderStatus.New}>{OrderStatus.New}</option>
-                                    <option value={OrderStatus.Ready}>{OrderStatus.Ready}</option>
-                                    <option value={OrderStatus.Completed}>{OrderStatus.Completed}</option>
+                                    {/* Cancelado no se elige aquí: requiere motivo (botón Cancelar del pedido) */}
+                                    {[...ACTIVE_ORDER_STATUSES, OrderStatus.Completed].map(option => (
+                                        <option key={option} value={option}>{option}</option>
+                                    ))}
                                 </select>
                             </div>
                         </div>
@@ -319,6 +344,7 @@ export const OrderFormModal: React.FC<OrderFormModalProps> = ({ isOpen, onClose,
                                                 </span>
                                             )}
                                         </div>
+                                        <ModifierTags modifiers={item.modifiers} muted={item.isNew === false} className="my-0.5" />
                                         <div className="text-xs text-gray-500 dark:text-gray-400">${item.price?.toFixed(2)}</div>
                                     </div>
 
@@ -405,6 +431,7 @@ export const OrderFormModal: React.FC<OrderFormModalProps> = ({ isOpen, onClose,
                     </div>
                 )}
             </div>
+            <ModifierPickerModal item={pickerItem} onClose={() => setPickerItem(null)} onConfirm={addLine} />
         </Modal>
     );
 };
@@ -3,20 +3,26 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { api } from '../../../api';
 import { orderService } from '../services/OrderService';
 import { billingService } from '../../billing/services/BillingService';
+import { dataService } from '../../../services/DataService';
 import { SetState } from '../../../types';
 import { MenuItem } from '../../menu/types/menu.types';
-import { Order, OrderItem, OrderStatus } from '../types/order.types';
+import { Order, OrderItem, OrderStatus, SplitBilling } from '../types/order.types';
 import Modal from '../../../components/ui/Modal';
-import { PlusIcon, EditIcon, TrashIcon, SearchIcon, MinusIcon, ClipboardListIcon, PrinterIcon, ChevronLeftIcon, LayoutIcon, MonitorIcon, ClockIcon, HistoryIcon } from '../../../components/ui/Icons';
+import { PlusIcon, EditIcon, TrashIcon, SearchIcon, MinusIcon, ClipboardListIcon, PrinterIcon, ChevronLeftIcon, LayoutIcon, MonitorIcon, ClockIcon, HistoryIcon, TableIcon } from '../../../components/ui/Icons';
 import { useRestaurantConfig } from '../../../contexts/RestaurantConfigContext';
 import { generateAccessKey } from '../../billing/utils/sri';
 import { ClientData } from '../../billing/utils/invoiceGenerator';
+import { getPaymentEntries, summarizePayments } from '../../billing/utils/payments';
+import { getSchemaErrors } from '../../billing/utils/sriSchema';
+import { SchemaFieldError } from '../../billing/types/billing.types';
 import InvoiceProcessingModal, { InvoiceProcessState } from '../../billing/components/InvoiceProcessingModal';
 import { useAuth } from '../../auth/contexts/AuthContext';
 import { toast } from '../../../components/ui/AlertProvider';
 import { notificationService } from '../../../services/NotificationService';
 import ConfirmModal from '../../../components/ui/ConfirmModal';
 import { API_BASE_URL } from '../../../config/api.config';
+import FloorView from '../../tables/components/FloorView';
+import { TableOccupancy } from '../../tables/types/table.types';
 
 interface OrderManagementProps {
     orders: Order[];
@@ -27,30 +33,38 @@ interface OrderManagementProps {
 const inputClass = "w-full rounded-lg border border-gray-200 bg-gray-50 p-2.5 text-gray-900 text-sm focus:border-blue-500 focus:bg-white focus:ring-2 focus:ring-blue-500/20 focus:outline-none transition-all dark:border-gray-600 dark:bg-gray-700/50 dark:text-white dark:placeholder-gray-400 dark:focus:border-blue-500 dark:focus:bg-gray-700 dark:focus:ring-blue-500/20";
 
 import { OrderCard } from './OrderCard';
+import { CancelOrderModal } from './CancelOrderModal';
 import POSView from './POSView';
 import { BillingModal } from './BillingModal';
+import { OfflineQueueBanner } from './OfflineQueueBanner';
+import { getFirstPendingPart } from '../utils/splitBill';
+import { applyOrderDiscounts, canAuthorizeDiscounts } from '../utils/discounts';
+import { chargeWithTip, defaultTip } from '../../billing/utils/tips';
+import { lineTaxRates, withPreviewRates } from '../../billing/utils/taxRates';
+import { isActiveOrder, isClosedOrder } from '../utils/orderStatus';
 
 // --- Main Order Management Component ---
 const OrderManagement: React.FC<OrderManagementProps> = ({ orders, setOrders, menuItems }) => {
     const { currentUser } = useAuth();
     const { config, refreshConfig } = useRestaurantConfig();
     const [editingOrder, setEditingOrder] = useState<Order | null>(null);
+    const [initialTableId, setInitialTableId] = useState<string | null>(null);
 
     // Vista y pestaña derivadas de la URL (/admin/orders/:tab).
-    // URLs: /admin/orders/tablero | /admin/orders/pos | /admin/orders/en-curso | /admin/orders/historial
+    // URLs: /admin/orders/tablero | /admin/orders/pos | /admin/orders/salon | /admin/orders/en-curso | /admin/orders/historial
     // "tablero" y "en-curso" muestran lo mismo (tablero con pedidos activos).
     const { tab: tabSlug } = useParams<{ tab?: string }>();
     const navigate = useNavigate();
-    const viewMode: 'dashboard' | 'pos' = tabSlug === 'pos' ? 'pos' : 'dashboard';
+    const viewMode: 'dashboard' | 'pos' | 'floor' = tabSlug === 'pos' ? 'pos' : tabSlug === 'salon' ? 'floor' : 'dashboard';
     const activeTab: 'active' | 'history' = tabSlug === 'historial' ? 'history' : 'active';
-    const setViewMode = (mode: 'dashboard' | 'pos') =>
-        navigate(`/admin/orders/${mode === 'pos' ? 'pos' : 'tablero'}`);
+    const setViewMode = (mode: 'dashboard' | 'pos' | 'floor') =>
+        navigate(`/admin/orders/${mode === 'pos' ? 'pos' : mode === 'floor' ? 'salon' : 'tablero'}`);
     const setActiveTab = (tab: 'active' | 'history') =>
         navigate(`/admin/orders/${tab === 'history' ? 'historial' : 'en-curso'}`);
 
     // Normalizar slugs inválidos (ej. /admin/orders/xyz) al tablero
     useEffect(() => {
-        const validSlugs = ['tablero', 'pos', 'en-curso', 'historial'];
+        const validSlugs = ['tablero', 'pos', 'salon', 'en-curso', 'historial'];
         if (tabSlug && !validSlugs.includes(tabSlug)) {
             navigate('/admin/orders/tablero', { replace: true });
         }
@@ -60,13 +74,21 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ orders, setOrders, me
 
     const handleOpenModal = (order: Order | null) => {
         setEditingOrder(order);
+        setInitialTableId(null);
+        setViewMode('pos');
+    };
+
+    // Salón: mesa ocupada → editar su pedido; mesa libre → nuevo pedido en esa mesa
+    const handleSelectTable = ({ table, order }: TableOccupancy) => {
+        setEditingOrder(order);
+        setInitialTableId(order ? null : table.id);
         setViewMode('pos');
     };
 
     const handleSaveOrder = async (orderToSave: Order) => {
         try {
-            const exists = orders.some(o => o.id === orderToSave.id);
-            if (exists) {
+            const existing = orders.find(o => o.id === orderToSave.id);
+            if (existing) {
                 // Si el pedido ya existe y se está actualizando (ej. agregando más platos),
                 // reseteamos el tiempo estimado para que la cocina vuelva a estimar según la nueva carga.
                 const orderToUpdate = {
@@ -75,19 +97,28 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ orders, setOrders, me
                     estimateSetAt: null,
                     status: OrderStatus.New // Regresar a Nuevo para que aparezca en cocina y se pueda re-estimar
                 };
-                const updated = await orderService.update(orderToSave.id, orderToUpdate);
+                // Sin conexión la edición queda en cola sobre la versión que se estaba viendo
+                const updated = await dataService.updateOrder(orderToSave.id, orderToUpdate, existing.updatedAt);
                 setOrders(prevOrders => prevOrders.map(o => o.id === orderToSave.id ? updated : o));
-                toast.success('Pedido actualizado y enviado a cocina', 'Éxito');
+                if (updated.syncState) {
+                    toast.warning('Sin conexión: el cambio se enviará a cocina al reconectar', 'Guardado en el dispositivo');
+                } else {
+                    toast.success('Pedido actualizado y enviado a cocina', 'Éxito');
+                }
             } else {
                 // El número de pedido lo asigna el SERVIDOR (contador atómico):
                 // generarlo aquí (localStorage) duplicaba números entre dispositivos.
-                const created = await orderService.create(orderToSave);
+                const created = await dataService.createOrder(orderToSave);
                 setOrders(prevOrders => [...prevOrders, created]);
-                toast.success(`Pedido #${created.orderNumber || created.id.slice(-6)} creado`, 'Éxito');
+                if (created.syncState) {
+                    toast.warning('Sin conexión: el pedido se enviará al reconectar', 'Guardado en el dispositivo');
+                } else {
+                    toast.success(`Pedido #${created.orderNumber || created.id.slice(-6)} creado`, 'Éxito');
+                }
             }
         } catch (error) {
             console.error('Failed to save order:', error);
-            toast.error('Error al guardar el pedido. Intente nuevamente.', 'Error');
+            toast.error(error instanceof Error ? error.message : 'Error al guardar el pedido. Intente nuevamente.', 'Error');
         }
     };
 
@@ -118,6 +149,20 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ orders, setOrders, me
         }
     };
 
+    const [cancellingOrder, setCancellingOrder] = useState<Order | null>(null);
+
+    const handleCancelOrder = async (order: Order, reason: string) => {
+        try {
+            const cancelled = await orderService.cancel(order.id, reason);
+            setOrders(prev => prev.map(o => o.id === order.id ? cancelled : o));
+            setCancellingOrder(null);
+            toast.success(`Pedido #${order.orderNumber || order.id.slice(-6)} cancelado`, 'Cancelado');
+        } catch (error) {
+            console.error('Failed to cancel order:', error);
+            toast.error(error instanceof Error ? error.message : 'Error al cancelar el pedido.', 'Error');
+        }
+    };
+
     const [isBillingModalOpen, setIsBillingModalOpen] = useState(false);
     const [billingOrder, setBillingOrder] = useState<Order | null>(null);
     const [billingData, setBillingData] = useState<ClientData>({
@@ -131,6 +176,9 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ orders, setOrders, me
 
     // Estados para la búsqueda local de clientes
     const [searchingIdentity, setSearchingIdentity] = useState(false);
+    // Cuenta dividida: parte que se está cobrando y pedido a reabrir tras facturar una parte
+    const [activeSplitPart, setActiveSplitPart] = useState<number | null>(null);
+    const [pendingSplitOrder, setPendingSplitOrder] = useState<Order | null>(null);
     const [lookupError, setLookupError] = useState<string | null>(null);
 
     // Estados para el modal de procesamiento de facturas
@@ -138,6 +186,7 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ orders, setOrders, me
     const [processingState, setProcessingState] = useState<InvoiceProcessState>(InvoiceProcessState.IDLE);
     const [processingMessage, setProcessingMessage] = useState('');
     const [processingDetails, setProcessingDetails] = useState('');
+    const [processingFieldErrors, setProcessingFieldErrors] = useState<SchemaFieldError[]>([]);
     const [generatedInvoiceNumber, setGeneratedInvoiceNumber] = useState('');
     const [tempAccessKey, setTempAccessKey] = useState<string | undefined>();
     const [tempAuthDate, setTempAuthDate] = useState<string | undefined>();
@@ -215,6 +264,7 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ orders, setOrders, me
             ...order,
             items: enrichedItems
         });
+        setActiveSplitPart(getFirstPendingPart(order.splitBilling));
         
         setBillingData({
             identification: '',
@@ -222,12 +272,27 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ orders, setOrders, me
             email: '',
             address: '',
             phone: '',
-            paymentMethod: '01'
+            paymentMethod: '01',
+            tip: defaultTip(order.type, config.billing?.serviceChargeRate)
         });
         setIsBillingModalOpen(true);
         setLookupError(null);
     };
 
+    const handleSaveSplit = async (plan: SplitBilling | null) => {
+        if (!billingOrder) return;
+        try {
+            const updated = await orderService.split(billingOrder.id, plan);
+            setOrders(prev => prev.map(o => o.id === updated.id ? updated : o));
+            // Se conservan los ítems enriquecidos (id/taxRate del menú) del modal
+            setBillingOrder(prev => prev ? { ...prev, splitBilling: updated.splitBilling ?? null } : prev);
+            setActiveSplitPart(getFirstPendingPart(updated.splitBilling));
+        } catch (error) {
+            console.error('Failed to save split bill:', error);
+            toast.error(error instanceof Error ? error.message : 'Error al guardar la división.', 'Error');
+        }
+    };
+
     // Efecto para búsqueda automática de cliente por identificación
     useEffect(() => {
         const ident = billingData.identification;
@@ -279,6 +344,7 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ orders, setOrders, me
         // Cerrar modal de billing y abrir modal de procesamiento
         setIsBillingModalOpen(false);
         setIsProcessingModalOpen(true);
+        setProcessingFieldErrors([]);
 
         try {
             // ETAPA 1: Validación
@@ -314,14 +380,29 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ orders, setOrders, me
                 quantity: item.quantity,
                 price: item.price,
                 total: parseFloat(((item.price || 0) * item.quantity).toFixed(2)), // precio con IVA incluido
-                taxRate: item.taxRate
+                taxRate: item.taxRate,
+                discount: item.discount
             }));
 
+            // Cuenta dividida: el backend toma los ítems de la parte guardada en el pedido
+            const splitPart = order.splitBilling ? activeSplitPart ?? undefined : undefined;
+            const chargedLines = splitPart
+                ? order.splitBilling!.parts.find(p => p.part === splitPart)?.items ?? []
+                : applyOrderDiscounts(itemsConTotal, order.discount);
+            // La propina va aparte del IVA pero los pagos deben cubrirla; con tabla de IVA,
+            // su base usa la tarifa con que el backend factura hoy
+            const taxPreview = config.billing?.taxSchedule?.length ? await billingService.previewTaxRates(lineTaxRates(chargedLines)) : null;
+            const chargedTotal = chargeWithTip(withPreviewRates(chargedLines, taxPreview), data.tip).total;
+            const { payments, change } = summarizePayments(getPaymentEntries(data.payments, data.paymentMethod), chargedTotal);
+
             const result = await billingService.generateXML({
                 order: { ...order, items: itemsConTotal },
                 client: data,
                 taxRate: config.billing?.taxRate || 15,
-                logoUrl: config.fiscalLogo || config.logo
+                logoUrl: config.fiscalLogo || config.logo,
+                splitPart,
+                payments,
+                tip: data.tip || undefined
             });
 
             if (result.success) {
@@ -353,6 +434,10 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ orders, setOrders, me
                     }
                 }
 
+                if (change > 0) {
+                    emailStatusMsg += `\n\n💵 Cambio a entregar: $${change.toFixed(2)}`;
+                }
+
                 if (sriStatus === 'AUTORIZADO') {
                     setProcessingState(InvoiceProcessState.AUTHORIZED);
                     setProcessingMessage('¡Factura autorizada con éxito!');
@@ -367,6 +452,17 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ orders, setOrders, me
 
                 await refreshConfig();
 
+                if (splitPart) {
+                    // El backend registra la parte y cierra el pedido solo con la última
+                    const refreshed = await orderService.getById(order.id);
+                    setOrders(prev => prev.map(o => o.id === refreshed.id ? refreshed : o));
+                    if (result.split && !result.split.completed) {
+                        setProcessingMessage(`Parte ${result.split.part} de ${result.split.parts} facturada`);
+                        setPendingSplitOrder(refreshed);
+                    }
+                    return;
+                }
+
                 const finalBillingType = data.identification === '9999999999999' ? 'Consumidor Final' : 'Factura';
                 await handleStatusChange(order.id, OrderStatus.Completed, {
                     billed: true,
@@ -383,6 +479,7 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ orders, setOrders, me
             setProcessingMessage('Error en el proceso');
             const errorMessage = error instanceof Error ? error.message : 'Error al procesar la factura con el servidor.';
             setProcessingDetails(errorMessage);
+            setProcessingFieldErrors(getSchemaErrors(error));
         }
     };
 
@@ -414,9 +511,15 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ orders, setOrders, me
 
     const handleCloseProcessingModal = () => {
         setIsProcessingModalOpen(false);
+        // Quedan partes por cobrar: se vuelve al cobro con la siguiente
+        if (pendingSplitOrder) {
+            handleOpenBilling(pendingSplitOrder);
+            setPendingSplitOrder(null);
+        }
         setProcessingState(InvoiceProcessState.IDLE);
         setProcessingMessage('');
         setProcessingDetails('');
+        setProcessingFieldErrors([]);
         setGeneratedInvoiceNumber('');
         setTempAccessKey(undefined);
         setTempAuthDate(undefined);
@@ -447,11 +550,10 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ orders, setOrders, me
     const filteredOrders = (Array.isArray(orders) ? orders : [])
         .filter(order => {
             if (activeTab === 'active') {
-                return order.status === OrderStatus.New || order.status === OrderStatus.Ready;
+                return isActiveOrder(order);
             } else {
-                // Filtros de Historial
-                const isCompleted = order.status === OrderStatus.Completed;
-                if (!isCompleted) return false;
+                // Filtros de Historial (completados y cancelados)
+                if (!isClosedOrder(order)) return false;
 
                 const matchesSearch = historySearch === '' ||
                     order.customerName.toLowerCase().includes(historySearch.toLowerCase()) ||
@@ -475,6 +577,9 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ orders, setOrders, me
 
     return (
         <div className="flex flex-col h-full">
+            {/* Pedidos guardados sin conexión y conflictos al sincronizar */}
+            <OfflineQueueBanner />
+
             {/* Common Header / Selector — hidden on mobile in POS mode */}
             <div className={`flex flex-col gap-3 mb-4 md:mb-8 ${viewMode === 'pos' ? 'hidden md:flex' : ''}`}>
                 {/* Row 1: Title + New Order button */}
@@ -515,6 +620,13 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ orders, setOrders, me
                             <MonitorIcon className="w-3.5 h-3.5" />
                             <span>POS</span>
                         </button>
+                        <button
+                            onClick={() => { setViewMode('floor'); setEditingOrder(null); }}
+                            className={`flex items-center justify-center gap-1.5 px-3 md:px-6 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${viewMode === 'floor' ? 'bg-white dark:bg-dark-700 text-blue-600 dark:text-blue-400 shadow-lg shadow-blue-500/10 ring-1 ring-black/5' : 'text-gray-400 hover:text-gray-600 dark:hover:text-gray-300'}`}
+                        >
+                            <TableIcon className="w-3.5 h-3.5" />
+                            <span>Salón</span>
+                        </button>
                     </div>
 
                     {viewMode === 'dashboard' && (
@@ -569,7 +681,11 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ orders, setOrders, me
                         setEditingOrder(null);
                     }}
                     initialOrder={editingOrder}
+                    initialTableId={initialTableId}
+                    requiresDiscountApproval={!canAuthorizeDiscounts(currentUser?.role)}
                 />
+            ) : viewMode === 'floor' ? (
+                <FloorView orders={orders} onSelect={handleSelectTable} />
             ) : (
                 <>
                     {isBillingModalOpen && billingOrder && (
@@ -584,9 +700,20 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ orders, setOrders, me
                             onProcess={handleProcessBilling}
                             onManualComplete={handleManualComplete}
                             manualCompleteLabel="Registrar sin Factura"
+                            split={{
+                                activePart: activeSplitPart,
+                                onSavePlan: handleSaveSplit,
+                                onSelectPart: setActiveSplitPart
+                            }}
                         />
                     )}
 
+                    <CancelOrderModal
+                        order={cancellingOrder}
+                        onClose={() => setCancellingOrder(null)}
+                        onConfirm={handleCancelOrder}
+                    />
+
                     <ConfirmModal
                         isOpen={confirmDelete.isOpen}
                         onClose={() => setConfirmDelete({ isOpen: false, id: null })}
@@ -618,6 +745,7 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ orders, setOrders, me
                         currentState={processingState}
                         message={processingMessage}
                         details={processingDetails}
+                        fieldErrors={processingFieldErrors}
                         invoiceNumber={generatedInvoiceNumber}
                         onClose={handleCloseProcessingModal}
                         onPrint={handlePrintFromProcessingModal}
@@ -629,7 +757,7 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ orders, setOrders, me
                     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-3 md:gap-4 mt-2 md:mt-8">
                         {filteredOrders.length === 0 ? (
                             <div className="col-span-full text-center py-12 text-gray-500 dark:text-gray-400">
-                                {activeTab === 'active' ? 'No hay pedidos en curso.' : 'No hay historial de pedidos completados.'}
+                                {activeTab === 'active' ? 'No hay pedidos en curso.' : 'No hay historial de pedidos completados o cancelados.'}
                             </div>
                         ) : (
                             paginatedOrders.map(order => (
@@ -642,6 +770,7 @@ const OrderManagement: React.FC<OrderManagementProps> = ({ orders, setOrders, me
                                     onStatusChange={(newStatus) => handleStatusChange(order.id, newStatus)}
                                     onPayment={handleOpenBilling}
                                     onBilling={() => handleOpenBilling(order)}
+                                    onCancel={() => setCancellingOrder(order)}
                                 />
                             ))
                         )}
@@ -1,11 +1,18 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { MenuItem } from '../../menu/types/menu.types';
-import { Order, OrderItem, OrderStatus } from '../types/order.types';
+import { Order, OrderDiscount, OrderItem, OrderItemModifier, OrderStatus } from '../types/order.types';
 import { SearchIcon, PlusIcon, MinusIcon, TrashIcon, ClipboardListIcon, ChevronLeftIcon, EditIcon } from '../../../components/ui/Icons';
 import { toast } from '../../../components/ui/AlertProvider';
 import { optimizeImage } from '../../../utils/cloudinary';
 import { categoryKey, uniqueCategoryNames } from '../../../utils/categoryName';
 import { StorageUtil } from '../../../utils/storage';
+import { tableService } from '../../tables/services/tableService';
+import { Table } from '../../tables/types/table.types';
+import { ModifierPickerModal } from '../../menu/components/ModifierPickerModal';
+import { ModifierTags } from '../../menu/components/ModifierTags';
+import { hasModifiers, modifiersKey, priceWithModifiers } from '../../menu/utils/modifiers';
+import { applyOrderDiscounts, describeDiscount } from '../utils/discounts';
+import { DiscountModal, DiscountTarget } from './DiscountModal';
 import '../styles/posStyles.css';
 
 const COMPACT_VIEW_KEY = 'restaurant_pm_pos_compact_view';
@@ -15,12 +22,18 @@ interface POSViewProps {
     onSave: (order: Order) => Promise<void>;
     onCancel: () => void;
     initialOrder?: Order | null;
+    /** Mesa preseleccionada al abrir el POS desde la vista de salón */
+    initialTableId?: string | null;
+    /** El rol del usuario no autoriza descuentos: los aprueba un gerente */
+    requiresDiscountApproval?: boolean;
 }
 
-const POSView: React.FC<POSViewProps> = ({ menuItems, onSave, onCancel, initialOrder }) => {
+const POSView: React.FC<POSViewProps> = ({ menuItems, onSave, onCancel, initialOrder, initialTableId, requiresDiscountApproval = false }) => {
     // State
     const [customerName, setCustomerName] = useState(initialOrder?.customerName || '');
     const [orderType, setOrderType] = useState<'En Local' | 'Delivery' | 'Para Llevar'>(initialOrder?.type || 'En Local');
+    const [tables, setTables] = useState<Table[]>([]);
+    const [tableId, setTableId] = useState<string | null>(initialOrder?.tableId ?? initialTableId ?? null);
     const [cartItems, setCartItems] = useState<OrderItem[]>(initialOrder?.items || []);
     const [searchQuery, setSearchQuery] = useState('');
     const [selectedCategory, setSelectedCategory] = useState('Todos');
@@ -28,6 +41,13 @@ const POSView: React.FC<POSViewProps> = ({ menuItems, onSave, onCancel, initialO
     const [showTicketMobile, setShowTicketMobile] = useState(false);
     const [lastAddedFeedback, setLastAddedFeedback] = useState<string | null>(null);
     const [editingPriceIdx, setEditingPriceIdx] = useState<number | null>(null);
+    // Descuento de todo el pedido y línea cuyo descuento se está editando ('order' = el del pedido)
+    const [orderDiscount, setOrderDiscount] = useState<OrderDiscount | null>(initialOrder?.discount ?? null);
+    const [discountIdx, setDiscountIdx] = useState<number | 'order' | null>(null);
+    // Aprobación del gerente para los descuentos nuevos: vale para todo el pedido
+    const [discountAuthorization, setDiscountAuthorization] = useState<string | null>(null);
+    // Plato con modificadores esperando que el cajero elija tamaño/acompañantes
+    const [pickerItem, setPickerItem] = useState<MenuItem | null>(null);
     // Vista compacta (lista sin fotos): más productos por pantalla = menos scroll.
     // La preferencia se recuerda por dispositivo.
     const [compactView, setCompactView] = useState<boolean>(() => StorageUtil.getItem<boolean>(COMPACT_VIEW_KEY) || false);
@@ -49,6 +69,28 @@ const POSView: React.FC<POSViewProps> = ({ menuItems, onSave, onCancel, initialO
         }
     }, [showTicketMobile]); // eslint-disable-line react-hooks/exhaustive-deps
 
+    // Mesas habilitadas para pedidos "En Local"
+    useEffect(() => {
+        tableService.getAll({ activeOnly: true })
+            .then(data => {
+                setTables(data || []);
+                // Mesa preseleccionada desde el salón: su nombre sirve de referencia del pedido
+                const preselected = (data || []).find(t => t.id === initialTableId);
+                if (preselected) setCustomerName(prev => prev || preselected.name.toUpperCase());
+            })
+            .catch(error => console.error('Error cargando mesas:', error));
+    }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+    const handleSelectTable = (id: string) => {
+        const table = tables.find(t => t.id === id);
+        const previous = tables.find(t => t.id === tableId);
+        setTableId(table ? table.id : null);
+        // Autocompletar el nombre solo si está vacío o era el de la mesa anterior
+        if (table && (!customerName.trim() || customerName === previous?.name.toUpperCase())) {
+            setCustomerName(table.name.toUpperCase());
+        }
+    };
+
     // Categories
     const categories = useMemo(() => {
         const cats = ['Todos', ...uniqueCategoryNames(menuItems.filter(i => i.available).map(i => i.category))];
@@ -66,13 +108,31 @@ const POSView: React.FC<POSViewProps> = ({ menuItems, onSave, onCancel, initialO
     }, [menuItems, searchQuery, selectedCategory]);
 
     const addToCart = (item: MenuItem) => {
+        if (hasModifiers(item)) {
+            setPickerItem(item);
+            return;
+        }
+        addLine(item, []);
+    };
+
+    // Misma línea = mismo plato con los mismos modificadores (ej. dos "Ceviche Grande")
+    const addLine = (item: MenuItem, modifiers: OrderItemModifier[]) => {
+        const key = modifiersKey(modifiers);
         setCartItems(prev => {
-            const existing = prev.find(i => i.name === item.name && !i.prepared);
+            const existing = prev.find(i => i.name === item.name && !i.prepared && modifiersKey(i.modifiers) === key);
             if (existing) {
                 return prev.map(i => (i === existing ? { ...i, quantity: i.quantity + 1 } : i));
             }
-            return [...prev, { name: item.name, quantity: 1, price: item.price, prepared: false, taxRate: item.taxRate }];
+            return [...prev, {
+                name: item.name,
+                quantity: 1,
+                price: priceWithModifiers(item.price, modifiers),
+                prepared: false,
+                taxRate: item.taxRate,
+                ...(modifiers.length > 0 ? { modifiers } : {})
+            }];
         });
+        setPickerItem(null);
 
         // Visual Feedback
         setLastAddedFeedback(item.name);
@@ -98,6 +158,7 @@ const POSView: React.FC<POSViewProps> = ({ menuItems, onSave, onCancel, initialO
     const removeItem = (index: number) => {
         if (cartItems[index]?.prepared) return; // los preparados no se eliminan
         setCartItems(prev => prev.filter((_, i) => i !== index));
+        setDiscountIdx(null);
         // Mantener el índice de edición de precio alineado tras el filtrado
         setEditingPriceIdx(prev => {
             if (prev === null) return null;
@@ -130,7 +191,31 @@ const POSView: React.FC<POSViewProps> = ({ menuItems, onSave, onCancel, initialO
         });
     };
 
-    const total = cartItems.reduce((acc, item) => acc + (item.price || 0) * item.quantity, 0);
+    // Descuento de una línea (null = quitarlo)
+    const applyDiscount = (discount: OrderDiscount | null, authorization?: string) => {
+        if (authorization) setDiscountAuthorization(authorization);
+        if (discountIdx === 'order') {
+            setOrderDiscount(discount);
+        } else if (discountIdx !== null) {
+            setCartItems(prev => prev.map((item, i) => (i === discountIdx ? { ...item, discount } : item)));
+        }
+        setDiscountIdx(null);
+    };
+
+    // Líneas con descuentos aplicados (el del pedido repartido entre ellas)
+    const discountedLines = useMemo(() => applyOrderDiscounts(cartItems, orderDiscount), [cartItems, orderDiscount]);
+    const total = discountedLines.reduce((acc, line) => acc + line.total, 0);
+    const discountTotal = discountedLines.reduce((acc, line) => acc + line.discountAmount, 0);
+
+    // El descuento del pedido se calcula sobre el total ya descontado por línea
+    const discountTarget = useMemo<DiscountTarget | null>(() => {
+        if (discountIdx === 'order') {
+            const gross = applyOrderDiscounts(cartItems).reduce((acc, line) => acc + line.total, 0);
+            return { title: 'Todo el pedido', gross, discount: orderDiscount };
+        }
+        if (discountIdx === null || !cartItems[discountIdx]) return null;
+        return { title: cartItems[discountIdx].name, gross: discountedLines[discountIdx].grossTotal, discount: cartItems[discountIdx].discount };
+    }, [discountIdx, cartItems, orderDiscount, discountedLines]);
 
     // Cantidad ya pedida por producto — para el badge "×N" en la tarjeta
     const cartQtyByName = useMemo(() => {
@@ -142,8 +227,8 @@ const POSView: React.FC<POSViewProps> = ({ menuItems, onSave, onCancel, initialO
     // Desglose de IVA respetando el taxRate de CADA producto (0%, 5%, 12%, 15%).
     // Los precios YA incluyen IVA: la base se extrae dividiendo por (1 + tasa).
     // Un producto al 0% aporta 0 de IVA (antes se asumía 15% para todo el total).
-    const { subtotal, ivaTotal } = cartItems.reduce((acc, item) => {
-        const itemTotal = (item.price || 0) * item.quantity;
+    const { subtotal, ivaTotal } = discountedLines.reduce((acc, item) => {
+        const itemTotal = item.total;
         const rate = (item.taxRate ?? 15) / 100;
         const base = rate > 0 ? itemTotal / (1 + rate) : itemTotal;
         acc.subtotal += base;
@@ -167,8 +252,11 @@ const POSView: React.FC<POSViewProps> = ({ menuItems, onSave, onCancel, initialO
                 id: initialOrder?.id || Date.now().toString(),
                 customerName,
                 type: orderType,
+                tableId: orderType === 'En Local' ? tableId : null,
                 status: initialOrder?.status || OrderStatus.New,
                 items: cartItems,
+                discount: orderDiscount,
+                discountAuthorization: discountAuthorization || undefined,
                 createdAt: initialOrder?.createdAt || new Date().toISOString(),
                 orderNumber: initialOrder?.orderNumber
             });
@@ -379,6 +467,20 @@ const POSView: React.FC<POSViewProps> = ({ menuItems, onSave, onCancel, initialO
                                 onChange={e => setCustomerName(e.target.value.toUpperCase())}
                                 className="w-full bg-white dark:bg-dark-900 border-2 border-gray-100 dark:border-dark-700 rounded-xl px-4 py-2.5 text-sm font-bold focus:border-blue-500 focus:ring-0 transition-colors"
                             />
+                            {orderType === 'En Local' && tables.length > 0 && (
+                                <select
+                                    value={tableId || ''}
+                                    onChange={e => handleSelectTable(e.target.value)}
+                                    className="mt-2 w-full bg-white dark:bg-dark-900 border-2 border-gray-100 dark:border-dark-700 rounded-xl px-4 py-2 text-sm font-bold focus:border-blue-500 focus:ring-0 transition-colors"
+                                >
+                                    <option value="">SIN MESA ASIGNADA</option>
+                                    {tables.map(t => (
+                                        <option key={t.id} value={t.id}>
+                                            {t.name.toUpperCase()} · {t.zone} ({t.seats} pax)
+                                        </option>
+                                    ))}
+                                </select>
+                            )}
                         </div>
 
                         {/* Items Area */}
@@ -398,6 +500,7 @@ const POSView: React.FC<POSViewProps> = ({ menuItems, onSave, onCancel, initialO
                                         <div className="flex items-center gap-2 md:gap-3">
                                             <div className="flex-1 min-w-0">
                                                 <h5 className="font-bold text-xs md:text-sm text-gray-800 dark:text-gray-100 truncate">{item.name}</h5>
+                                                <ModifierTags modifiers={item.modifiers} className="mt-0.5" />
                                                 {/* Precio por unidad — tocar para ajustar (ej. sustitución más cara) */}
                                                 {editingPriceIdx === idx ? (
                                                     <div className="flex items-center gap-1 mt-0.5">
@@ -451,7 +554,10 @@ const POSView: React.FC<POSViewProps> = ({ menuItems, onSave, onCancel, initialO
                                                 </button>
                                             </div>
                                             <div className="w-14 md:w-12 text-right">
-                                                <p className="font-black text-sm text-gray-900 dark:text-white">${((item.price || 0) * item.quantity).toFixed(2)}</p>
+                                                {discountedLines[idx].discountAmount > 0 && (
+                                                    <p className="text-[9px] font-bold text-gray-300 dark:text-gray-600 line-through">${discountedLines[idx].grossTotal.toFixed(2)}</p>
+                                                )}
+                                                <p className="font-black text-sm text-gray-900 dark:text-white">${discountedLines[idx].total.toFixed(2)}</p>
                                             </div>
                                             <button
                                                 onClick={() => removeItem(idx)}
@@ -473,6 +579,14 @@ const POSView: React.FC<POSViewProps> = ({ menuItems, onSave, onCancel, initialO
                                                 className="w-full text-[10px] md:text-[11px] bg-gray-50 dark:bg-dark-800 border border-gray-100 dark:border-dark-700 rounded-lg px-2.5 py-1.5 text-gray-700 dark:text-gray-200 placeholder-gray-300 dark:placeholder-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-300"
                                             />
                                         )}
+                                        {/* Descuento de la línea (con motivo): va a la factura y a las estadísticas */}
+                                        <button
+                                            onClick={() => setDiscountIdx(idx)}
+                                            aria-label={`Descuento ${item.name}`}
+                                            className={`text-[10px] font-bold px-1 ${item.discount ? 'text-green-600' : 'text-gray-300 hover:text-green-600'}`}
+                                        >
+                                            {item.discount ? `🏷️ -${describeDiscount(item.discount)} · ${item.discount.reason}` : '🏷️ Descuento'}
+                                        </button>
                                     </div>
                                     );
                                 })
@@ -485,6 +599,16 @@ const POSView: React.FC<POSViewProps> = ({ menuItems, onSave, onCancel, initialO
                                 <div className="flex flex-col gap-0.5">
                                     <span className="text-[10px] text-gray-400 font-bold uppercase tracking-widest">Subtotal: ${subtotal.toFixed(2)}</span>
                                     <span className="text-[10px] text-gray-400 font-bold uppercase tracking-widest">IVA: ${ivaTotal.toFixed(2)}</span>
+                                    {discountTotal > 0 && (
+                                        <span className="text-[10px] text-green-600 font-bold uppercase tracking-widest" data-testid="discount-total">Descuentos: -${discountTotal.toFixed(2)}</span>
+                                    )}
+                                    <button
+                                        onClick={() => setDiscountIdx('order')}
+                                        disabled={cartItems.length === 0}
+                                        className={`text-left text-[10px] font-black uppercase tracking-widest disabled:opacity-30 ${orderDiscount ? 'text-green-600' : 'text-gray-400 hover:text-green-600'}`}
+                                    >
+                                        {orderDiscount ? `🏷️ Pedido -${describeDiscount(orderDiscount)}` : '🏷️ Descuento al pedido'}
+                                    </button>
                                 </div>
                                 <div className="text-right">
                                     <span className="text-[10px] text-gray-400 font-bold uppercase tracking-widest block">Total</span>
@@ -511,6 +635,14 @@ const POSView: React.FC<POSViewProps> = ({ menuItems, onSave, onCancel, initialO
                 </div>
             </div>
 
+            <ModifierPickerModal item={pickerItem} onClose={() => setPickerItem(null)} onConfirm={addLine} />
+            <DiscountModal
+                target={discountTarget}
+                onClose={() => setDiscountIdx(null)}
+                onApply={applyDiscount}
+                requiresApproval={requiresDiscountApproval && !discountAuthorization}
+            />
+
             {/* Mobile Feedback & Floating Cart Button */}
             {!showTicketMobile && cartItems.length > 0 && (
                 <div className="md:hidden fixed bottom-20 left-3 right-3 z-[999] flex flex-col items-center gap-2">
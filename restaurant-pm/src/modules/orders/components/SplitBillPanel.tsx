@@ -0,0 +1,245 @@
+/**
+ * @file SplitBillPanel.tsx
+ * @description Panel de cuenta dividida dentro de BillingModal.
+ * Sin plan guardado: configura la división (por ítem, por cantidad o partes iguales).
+ * Con plan guardado: lista las partes y permite elegir cuál facturar.
+ */
+
+import React, { useState, useMemo } from 'react';
+import { OrderItem, SplitBilling, SplitBillMode } from '../types/order.types';
+import { MinusIcon, PlusIcon, CheckCircleIcon } from '../../../components/ui/Icons';
+import {
+    MIN_SPLIT_PARTS,
+    MAX_SPLIT_PARTS,
+    createAllocation,
+    resizeAllocation,
+    assignWholeItem,
+    changeAllocatedQuantity,
+    getUnassigned,
+    getSplitIssues,
+    buildPlanFromAllocation,
+    buildEvenPlan,
+    isPartInvoiced
+} from '../utils/splitBill';
+
+interface SplitBillPanelProps {
+    items: OrderItem[];
+    plan: SplitBilling | null;
+    activePart: number | null;
+    onSavePlan: (plan: SplitBilling | null) => Promise<void>;
+    onSelectPart: (part: number) => void;
+}
+
+const MODE_LABELS: Record<SplitBillMode, string> = {
+    items: 'Por Ítem',
+    quantity: 'Por Cantidad',
+    even: 'Partes Iguales'
+};
+
+export const SplitBillPanel: React.FC<SplitBillPanelProps> = ({ items, plan, activePart, onSavePlan, onSelectPart }) => {
+    const [mode, setMode] = useState<SplitBillMode>('items');
+    const [parts, setParts] = useState(MIN_SPLIT_PARTS);
+    const [allocation, setAllocation] = useState(() => createAllocation(items, MIN_SPLIT_PARTS));
+    const [saving, setSaving] = useState(false);
+
+    const preview = useMemo<SplitBilling>(() => (
+        mode === 'even' ? buildEvenPlan(items, parts) : buildPlanFromAllocation(items, allocation, mode)
+    ), [mode, items, parts, allocation]);
+
+    const issues = mode === 'even' ? [] : getSplitIssues(items, allocation);
+
+    const changeParts = (delta: number) => {
+        const next = Math.min(MAX_SPLIT_PARTS, Math.max(MIN_SPLIT_PARTS, parts + delta));
+        setParts(next);
+        setAllocation(prev => resizeAllocation(prev, next));
+    };
+
+    const save = async (value: SplitBilling | null) => {
+        setSaving(true);
+        try {
+            await onSavePlan(value);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    // --- Plan guardado: elegir la parte a facturar ---
+    if (plan) {
+        const invoicedCount = plan.parts.filter(isPartInvoiced).length;
+        return (
+            <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                    <p className="text-[10px] font-black uppercase tracking-widest text-gray-400">
+                        {MODE_LABELS[plan.mode]} · {invoicedCount}/{plan.parts.length} facturadas
+                    </p>
+                    {invoicedCount === 0 && (
+                        <button
+                            onClick={() => save(null)}
+                            disabled={saving}
+                            className="text-[10px] font-black uppercase tracking-widest text-red-500 hover:text-red-600 disabled:opacity-40"
+                        >
+                            Rehacer división
+                        </button>
+                    )}
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {plan.parts.map(part => {
+                        const invoiced = isPartInvoiced(part);
+                        const selected = activePart === part.part;
+                        return (
+                            <button
+                                key={part.part}
+                                onClick={() => !invoiced && onSelectPart(part.part)}
+                                disabled={invoiced}
+                                className={`text-left p-4 rounded-2xl border-2 transition-all ${
+                                    invoiced
+                                        ? 'border-green-200 bg-green-50 dark:border-green-900 dark:bg-green-900/20 cursor-default'
+                                        : selected
+                                            ? 'border-blue-600 bg-blue-50 dark:bg-blue-900/20 shadow-lg'
+                                            : 'border-gray-100 dark:border-dark-700 hover:border-blue-300'
+                                }`}
+                            >
+                                <div className="flex items-center justify-between mb-2">
+                                    <span className="text-xs font-black uppercase tracking-widest text-gray-900 dark:text-white">
+                                        Parte {part.part}
+                                    </span>
+                                    <span className="text-lg font-black text-blue-600 dark:text-blue-400">${part.total.toFixed(2)}</span>
+                                </div>
+                                <ul className="space-y-0.5 mb-2">
+                                    {part.items.map((item, idx) => (
+                                        <li key={idx} className="text-[11px] text-gray-500 dark:text-gray-400 truncate">
+                                            {Number(item.quantity.toFixed(3))} × {item.name}
+                                        </li>
+                                    ))}
+                                </ul>
+                                {invoiced ? (
+                                    <span className="flex items-center gap-1 text-[10px] font-black uppercase text-green-600">
+                                        <CheckCircleIcon className="w-3.5 h-3.5" />
+                                        Facturada {part.documentNumber}
+                                    </span>
+                                ) : (
+                                    <span className="text-[10px] font-black uppercase text-amber-600">
+                                        {selected ? 'Facturando ahora' : 'Pendiente'}
+                                    </span>
+                                )}
+                            </button>
+                        );
+                    })}
+                </div>
+            </div>
+        );
+    }
+
+    // --- Sin plan: configurar la división ---
+    return (
+        <div className="space-y-5">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex bg-gray-100 dark:bg-dark-800 p-1 rounded-xl">
+                    {(Object.keys(MODE_LABELS) as SplitBillMode[]).map(m => (
+                        <button
+                            key={m}
+                            onClick={() => setMode(m)}
+                            className={`px-3 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${
+                                mode === m ? 'bg-white dark:bg-dark-700 text-blue-600 shadow' : 'text-gray-400'
+                            }`}
+                        >
+                            {MODE_LABELS[m]}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex items-center gap-2">
+                    <span className="text-[10px] font-black uppercase tracking-widest text-gray-400">Partes</span>
+                    <button onClick={() => changeParts(-1)} className="p-1.5 rounded-lg bg-gray-100 dark:bg-dark-700" aria-label="Quitar parte">
+                        <MinusIcon className="w-3.5 h-3.5" />
+                    </button>
+                    <span className="w-6 text-center font-black text-gray-900 dark:text-white" data-testid="split-parts">{parts}</span>
+                    <button onClick={() => changeParts(1)} className="p-1.5 rounded-lg bg-gray-100 dark:bg-dark-700" aria-label="Agregar parte">
+                        <PlusIcon className="w-3.5 h-3.5" />
+                    </button>
+                </div>
+            </div>
+
+            {mode !== 'even' && (
+                <div className="space-y-2">
+                    {items.map((item, itemIdx) => {
+                        const unassigned = getUnassigned(items, allocation, itemIdx);
+                        return (
+                            <div key={itemIdx} className="p-3 rounded-2xl border border-gray-100 dark:border-dark-800">
+                                <div className="flex items-center justify-between mb-2">
+                                    <span className="text-sm font-bold text-gray-700 dark:text-gray-300 uppercase truncate">
+                                        {item.quantity} × {item.name}
+                                    </span>
+                                    {unassigned > 0 && (
+                                        <span className="text-[10px] font-black text-amber-600 uppercase">{unassigned} sin asignar</span>
+                                    )}
+                                </div>
+                                {mode === 'items' ? (
+                                    <div className="flex flex-wrap gap-1.5">
+                                        {allocation[itemIdx].map((qty, partIdx) => (
+                                            <button
+                                                key={partIdx}
+                                                onClick={() => setAllocation(prev => assignWholeItem(items, prev, itemIdx, partIdx))}
+                                                className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase ${
+                                                    qty > 0 ? 'bg-blue-600 text-white' : 'bg-gray-100 dark:bg-dark-700 text-gray-500'
+                                                }`}
+                                            >
+                                                P{partIdx + 1}
+                                            </button>
+                                        ))}
+                                    </div>
+                                ) : (
+                                    <div className="flex flex-wrap gap-2">
+                                        {allocation[itemIdx].map((qty, partIdx) => (
+                                            <div key={partIdx} className="flex items-center gap-1 bg-gray-50 dark:bg-dark-800 rounded-lg px-1.5 py-1">
+                                                <span className="text-[10px] font-black text-gray-400">P{partIdx + 1}</span>
+                                                <button
+                                                    onClick={() => setAllocation(prev => changeAllocatedQuantity(items, prev, itemIdx, partIdx, -1))}
+                                                    className="p-0.5"
+                                                    aria-label={`Restar ${item.name} de parte ${partIdx + 1}`}
+                                                >
+                                                    <MinusIcon className="w-3 h-3" />
+                                                </button>
+                                                <span className="w-5 text-center text-xs font-black">{qty}</span>
+                                                <button
+                                                    onClick={() => setAllocation(prev => changeAllocatedQuantity(items, prev, itemIdx, partIdx, 1))}
+                                                    className="p-0.5"
+                                                    aria-label={`Sumar ${item.name} a parte ${partIdx + 1}`}
+                                                >
+                                                    <PlusIcon className="w-3 h-3" />
+                                                </button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            {/* Totales por parte */}
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                {preview.parts.map(part => (
+                    <div key={part.part} className="p-3 rounded-xl bg-gray-50 dark:bg-dark-900/50 text-center">
+                        <p className="text-[10px] font-black uppercase text-gray-400">Parte {part.part}</p>
+                        <p className="text-sm font-black text-gray-900 dark:text-white">${part.total.toFixed(2)}</p>
+                    </div>
+                ))}
+            </div>
+
+            {issues.length > 0 && (
+                <p className="text-[11px] font-bold text-amber-600">{issues.join(' · ')}</p>
+            )}
+
+            <button
+                onClick={() => save(preview)}
+                disabled={saving || issues.length > 0}
+                className="w-full py-3 rounded-2xl bg-gray-900 dark:bg-white text-white dark:text-gray-900 text-[10px] font-black uppercase tracking-widest disabled:opacity-40"
+            >
+                {saving ? 'Guardando...' : 'Confirmar División'}
+            </button>
+        </div>
+    );
+};
+
+export default SplitBillPanel;
@@ -1,2 +1,3 @@
 export * from './types/order.types';
 export { orderService } from './services/OrderService';
+export { offlineOrderQueue, isLocalOrderId } from './services/offlineOrderQueue';
@@ -1,6 +1,6 @@
 import { apiService } from '../../../api';
 import { API_ENDPOINTS } from '../../../config/api.config';
-import { Order } from '../types/order.types';
+import { DiscountAuthorizationResult, Order, SplitBilling } from '../types/order.types';
 
 export class OrderService {
     private static instance: OrderService;
@@ -50,6 +50,35 @@ export class OrderService {
         return apiService.put(API_ENDPOINTS.ORDERS.BY_ID(id), data);
     }
 
+    /**
+     * Define la división de cuenta del pedido (null la quita)
+     */
+    public async split(id: string, plan: SplitBilling | null): Promise<Order> {
+        return apiService.put(API_ENDPOINTS.ORDERS.SPLIT(id), { plan });
+    }
+
+    /**
+     * La estación de cocina despacha sus ítems ("general" = ítems sin estación)
+     */
+    public async bumpStation(id: string, station: string): Promise<Order> {
+        return apiService.post(API_ENDPOINTS.ORDERS.BUMP_STATION(id, station), {});
+    }
+
+    /**
+     * Cancela el pedido (motivo obligatorio); queda en el historial como Cancelado
+     */
+    public async cancel(id: string, reason: string): Promise<Order> {
+        return apiService.post(API_ENDPOINTS.ORDERS.CANCEL(id), { reason });
+    }
+
+    /**
+     * Un gerente aprueba descuentos con su usuario y contraseña.
+     * La aprobación firmada viaja con el pedido (discountAuthorization); la contraseña no.
+     */
+    public async authorizeDiscount(username: string, password: string): Promise<DiscountAuthorizationResult> {
+        return apiService.post(API_ENDPOINTS.ORDERS.DISCOUNT_AUTHORIZATION, { username, password });
+    }
+
     public async delete(id: string): Promise<any> {
         return apiService.delete(API_ENDPOINTS.ORDERS.BY_ID(id));
     }
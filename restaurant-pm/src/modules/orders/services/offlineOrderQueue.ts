@@ -0,0 +1,316 @@
+/**
+ * @file offlineOrderQueue.ts
+ * @description Cola de pedidos sin conexión (IndexedDB)
+ *
+ * @purpose
+ * Si el backend o internet se caen en plena hora punta, el POS no pierde pedidos:
+ * los pedidos nuevos y las ediciones se guardan en IndexedDB, se muestran como
+ * pendientes y se reenvían a /api/orders, en el orden en que se hicieron,
+ * cuando vuelve la conexión.
+ *
+ * - Cada pedido nuevo lleva un clientRequestId: si el servidor ya lo recibió
+ *   (se perdió la respuesta), el reenvío devuelve el mismo pedido.
+ * - Cada edición lleva la versión del pedido sobre la que se hizo (baseUpdatedAt):
+ *   si otro dispositivo lo cambió después, el servidor responde conflicto y la
+ *   edición queda en la cola para que el cajero decida (sobrescribir o descartar).
+ *
+ * @connections
+ * - Usa: OrderService (modules/orders/services)
+ * - Usado por: DataService, useOfflineOrderSync, OfflineQueueBanner
+ *
+ * @layer Services - Singleton
+ */
+
+import { logger } from '../../../utils/logger';
+import { Order } from '../types/order.types';
+import { orderService } from './OrderService';
+
+export type QueuedOperationKind = 'create' | 'update';
+
+export interface QueuedOrderOperation {
+    id: string; // clientRequestId (create) o clientUpdateId (update)
+    seq: number; // Orden de reenvío
+    kind: QueuedOperationKind;
+    orderId: string; // ID local (create) o del servidor (update)
+    payload: Partial<Order>;
+    baseUpdatedAt?: string | null;
+    queuedAt: string;
+    status: 'pending' | 'conflict';
+    error?: string;
+}
+
+/** Almacenamiento de la cola (IndexedDB en el navegador, memoria como respaldo) */
+export interface QueueStore {
+    getAll(): Promise<QueuedOrderOperation[]>;
+    put(operation: QueuedOrderOperation): Promise<void>;
+    delete(id: string): Promise<void>;
+}
+
+/** Lo que el servidor sabe hacer con los pedidos (OrderService) */
+export interface OrderTransport {
+    create(data: Partial<Order>): Promise<Order>;
+    update(id: string, data: Partial<Order> & { baseUpdatedAt?: string | null; clientUpdateId?: string }): Promise<Order>;
+}
+
+export type QueueEvent =
+    | { type: 'changed'; operations: QueuedOrderOperation[] }
+    | { type: 'synced'; localId: string; order: Order }
+    | { type: 'conflict'; operation: QueuedOrderOperation }
+    | { type: 'discarded'; operation: QueuedOrderOperation };
+
+export interface FlushResult {
+    synced: number;
+    conflicts: number;
+    offline: boolean; // Se cortó por falta de conexión: quedan pendientes
+}
+
+const LOCAL_ID_PREFIX = 'local-';
+const DB_NAME = 'restaurant-pm-offline';
+const STORE_NAME = 'orderQueue';
+
+/** Pedido creado sin conexión que aún no tiene ID del servidor */
+export const isLocalOrderId = (id: string): boolean => id.startsWith(LOCAL_ID_PREFIX);
+
+const generateId = (): string =>
+    typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Error de red (sin respuesta del servidor) vs. rechazo del servidor.
+ * fetch lanza TypeError sin conexión y AbortError por timeout; un proxy con el
+ * backend caído responde HTML (api.ts: "Respuesta no es JSON").
+ */
+export const isOfflineError = (error: unknown): boolean => {
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+    if (error instanceof TypeError) return true;
+    if (error instanceof Error) {
+        return error.name === 'AbortError' || error.message === 'Respuesta no es JSON';
+    }
+    return false;
+};
+
+// Campos que solo existen en el dispositivo o que asigna el servidor
+const toPayload = ({ id: _id, syncState: _syncState, orderNumber: _orderNumber, updatedAt: _updatedAt, ...data }: Partial<Order>): Partial<Order> => data;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+export const createIndexedDbStore = (): QueueStore => {
+    let dbPromise: Promise<IDBDatabase> | null = null;
+    const open = () => {
+        if (!dbPromise) {
+            const request = indexedDB.open(DB_NAME, 1);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            };
+            dbPromise = requestToPromise(request);
+        }
+        return dbPromise;
+    };
+    const withStore = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+        const db = await open();
+        return requestToPromise(action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+    };
+
+    return {
+        getAll: () => withStore('readonly', store => store.getAll() as IDBRequest<QueuedOrderOperation[]>),
+        put: async operation => { await withStore('readwrite', store => store.put(operation)); },
+        delete: async id => { await withStore('readwrite', store => store.delete(id)); }
+    };
+};
+
+export const createMemoryStore = (): QueueStore => {
+    const items = new Map<string, QueuedOrderOperation>();
+    return {
+        getAll: async () => Array.from(items.values()).map(op => ({ ...op })),
+        put: async operation => { items.set(operation.id, { ...operation }); },
+        delete: async id => { items.delete(id); }
+    };
+};
+
+export class OfflineOrderQueue {
+    private static instance: OfflineOrderQueue;
+    private listeners = new Set<(event: QueueEvent) => void>();
+    private flushing: Promise<FlushResult> | null = null;
+
+    constructor(private store: QueueStore, private transport: OrderTransport) { }
+
+    public static getInstance(): OfflineOrderQueue {
+        if (!OfflineOrderQueue.instance) {
+            // Sin IndexedDB (modo privado de algunos navegadores) la cola vive en memoria
+            const store = typeof indexedDB !== 'undefined' ? createIndexedDbStore() : createMemoryStore();
+            OfflineOrderQueue.instance = new OfflineOrderQueue(store, orderService);
+        }
+        return OfflineOrderQueue.instance;
+    }
+
+    public subscribe(listener: (event: QueueEvent) => void): () => void {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    /** Operaciones en cola, en orden de reenvío */
+    public async list(): Promise<QueuedOrderOperation[]> {
+        const operations = await this.store.getAll();
+        return operations.sort((a, b) => a.seq - b.seq);
+    }
+
+    /**
+     * Crea el pedido; sin conexión lo guarda en la cola y devuelve un pedido local
+     * (syncState 'pending', sin número hasta que lo asigne el servidor).
+     */
+    public async create(order: Partial<Order>): Promise<Order> {
+        const clientRequestId = generateId();
+        const payload = { ...toPayload(order), clientRequestId };
+        try {
+            return await this.transport.create(payload);
+        } catch (error) {
+            if (!isOfflineError(error)) throw error;
+            logger.warn('Order saved offline', { clientRequestId });
+            const operation = await this.enqueue({ id: clientRequestId, kind: 'create', orderId: `${LOCAL_ID_PREFIX}${clientRequestId}`, payload });
+            return this.toLocalOrder(operation);
+        }
+    }
+
+    /**
+     * Edita el pedido; sin conexión la edición queda en cola sobre la versión baseUpdatedAt.
+     * Editar un pedido que aún no llegó al servidor actualiza su alta pendiente.
+     */
+    public async update(id: string, updates: Partial<Order>, baseUpdatedAt?: string | null): Promise<Order> {
+        const operations = await this.list();
+        const pendingCreate = operations.find(op => op.kind === 'create' && op.orderId === id);
+        if (pendingCreate) {
+            const merged = { ...pendingCreate, payload: { ...pendingCreate.payload, ...toPayload(updates) } };
+            await this.save(merged);
+            return this.toLocalOrder(merged);
+        }
+
+        // Con ediciones del pedido ya en cola, esta va detrás para respetar el orden
+        const queuedUpdate = operations.find(op => op.kind === 'update' && op.orderId === id);
+        if (!queuedUpdate) {
+            try {
+                return await this.transport.update(id, toPayload(updates));
+            } catch (error) {
+                if (!isOfflineError(error)) throw error;
+            }
+        }
+
+        logger.warn('Order update saved offline', { id });
+        const operation = queuedUpdate
+            ? await this.save({ ...queuedUpdate, payload: { ...queuedUpdate.payload, ...toPayload(updates) } })
+            : await this.enqueue({ id: generateId(), kind: 'update', orderId: id, payload: toPayload(updates), baseUpdatedAt: baseUpdatedAt ?? null });
+        return { ...(operation.payload as Order), id, syncState: operation.status };
+    }
+
+    /**
+     * Reenvía la cola en orden. Se detiene al primer error de red; un rechazo del
+     * servidor marca la operación en conflicto y deja en espera las siguientes del mismo pedido.
+     */
+    public flush(): Promise<FlushResult> {
+        if (!this.flushing) {
+            this.flushing = this.replay().finally(() => { this.flushing = null; });
+        }
+        return this.flushing;
+    }
+
+    /** Reintenta una operación en conflicto; force omite la verificación de versión */
+    public async retry(id: string, { force = false } = {}): Promise<FlushResult> {
+        const operation = (await this.store.getAll()).find(op => op.id === id);
+        if (operation) {
+            await this.save({ ...operation, status: 'pending', error: undefined, baseUpdatedAt: force ? null : operation.baseUpdatedAt });
+        }
+        return this.flush();
+    }
+
+    /** Descarta la operación (el cajero se queda con lo que tiene el servidor) */
+    public async discard(id: string): Promise<void> {
+        const operation = (await this.store.getAll()).find(op => op.id === id);
+        if (!operation) return;
+        await this.store.delete(id);
+        this.emit({ type: 'discarded', operation });
+        await this.notifyChanged();
+    }
+
+    private async replay(): Promise<FlushResult> {
+        const result: FlushResult = { synced: 0, conflicts: 0, offline: false };
+        const blocked = new Set<string>();
+        const resolvedIds = new Map<string, string>();
+
+        for (const queued of await this.list()) {
+            const operation = { ...queued, orderId: resolvedIds.get(queued.orderId) ?? queued.orderId };
+            if (operation.status === 'conflict' || blocked.has(operation.orderId)) {
+                blocked.add(operation.orderId);
+                continue;
+            }
+
+            try {
+                const order = operation.kind === 'create'
+                    ? await this.transport.create({ ...operation.payload, clientRequestId: operation.id })
+                    : await this.transport.update(operation.orderId, {
+                        ...operation.payload,
+                        baseUpdatedAt: operation.baseUpdatedAt ?? null,
+                        clientUpdateId: operation.id
+                    });
+                resolvedIds.set(operation.orderId, order.id);
+                await this.store.delete(operation.id);
+                result.synced++;
+                this.emit({ type: 'synced', localId: operation.orderId, order });
+            } catch (error) {
+                if (isOfflineError(error)) {
+                    result.offline = true;
+                    break;
+                }
+                const conflict: QueuedOrderOperation = {
+                    ...operation,
+                    status: 'conflict',
+                    error: error instanceof Error ? error.message : 'El servidor rechazó el cambio'
+                };
+                await this.store.put(conflict);
+                blocked.add(operation.orderId);
+                result.conflicts++;
+                logger.warn('Queued order operation rejected', { id: operation.id, error: conflict.error });
+                this.emit({ type: 'conflict', operation: conflict });
+            }
+        }
+
+        if (result.synced > 0 || result.conflicts > 0) {
+            await this.notifyChanged();
+        }
+        return result;
+    }
+
+    private async enqueue(data: Pick<QueuedOrderOperation, 'id' | 'kind' | 'orderId' | 'payload' | 'baseUpdatedAt'>): Promise<QueuedOrderOperation> {
+        const operations = await this.store.getAll();
+        const seq = operations.reduce((max, op) => Math.max(max, op.seq), 0) + 1;
+        return this.save({ ...data, seq, queuedAt: new Date().toISOString(), status: 'pending' });
+    }
+
+    private async save(operation: QueuedOrderOperation): Promise<QueuedOrderOperation> {
+        await this.store.put(operation);
+        await this.notifyChanged();
+        return operation;
+    }
+
+    private toLocalOrder(operation: QueuedOrderOperation): Order {
+        return {
+            ...(operation.payload as Order),
+            id: operation.orderId,
+            createdAt: operation.payload.createdAt || operation.queuedAt,
+            syncState: operation.status
+        };
+    }
+
+    private async notifyChanged(): Promise<void> {
+        this.emit({ type: 'changed', operations: await this.list() });
+    }
+
+    private emit(event: QueueEvent): void {
+        this.listeners.forEach(listener => listener(event));
+    }
+}
+
+export const offlineOrderQueue = OfflineOrderQueue.getInstance();
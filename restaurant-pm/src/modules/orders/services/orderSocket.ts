@@ -0,0 +1,154 @@
+/**
+ * @file orderSocket.ts
+ * @description Servicio WebSocket para sincronizar pedidos entre dispositivos
+ *
+ * Recibe los eventos del ciclo de vida de los pedidos (/ws/orders) y, al
+ * reconectarse, pide al servidor los eventos perdidos desde el último
+ * timestamp conocido. Si el servidor ya no los tiene (reinicio o desconexión
+ * larga) emite 'resync' para que la app recargue la lista completa.
+ */
+
+import { io, Socket } from 'socket.io-client';
+import { OrderEvent } from '../types/order.types';
+
+interface OrderCatchUp {
+    serverId: string;
+    events: OrderEvent[];
+    complete: boolean;
+    latestSeq: number;
+    serverTime: string;
+}
+
+type EventCallback = (data: any) => void;
+
+class OrderSocketService {
+    private socket: Socket | null = null;
+    private listeners: Map<string, Set<EventCallback>> = new Map();
+    private serverId: string | null = null;
+    private lastSeq = 0;
+    private lastTimestamp: string | null = null;
+
+    /**
+     * Conecta al WebSocket de pedidos del backend
+     */
+    public connect(): void {
+        if (this.socket) return;
+
+        // Mismo origen que la API (VITE_API_URL puede incluir /api)
+        let wsUrl = window.location.origin;
+        const apiUrl = import.meta.env.VITE_API_URL;
+        if (apiUrl) {
+            try {
+                wsUrl = new URL(apiUrl).origin;
+            } catch {
+                wsUrl = apiUrl.replace(/\/api\/?$/, '');
+            }
+        }
+
+        this.socket = io(wsUrl, {
+            path: '/ws/orders',
+            // Función para que cada reconexión use el token vigente
+            auth: (cb) => cb({ token: localStorage.getItem('restaurant_pm_token') }),
+            transports: ['websocket', 'polling'],
+            reconnection: true,
+            reconnectionDelay: 1000,
+            reconnectionDelayMax: 10000,
+            timeout: 10000
+        });
+
+        this.setupEventHandlers();
+    }
+
+    private setupEventHandlers(): void {
+        if (!this.socket) return;
+
+        this.socket.on('connect', () => {
+            // En cada (re)conexión se piden los eventos perdidos
+            this.socket?.emit('orders:sync', { since: this.lastTimestamp });
+            this.emit('connected', { connected: true });
+        });
+
+        this.socket.on('disconnect', (reason) => {
+            this.emit('disconnected', { reason });
+        });
+
+        this.socket.on('connect_error', (error) => {
+            console.warn('[OrderSocket] Connection error:', error.message);
+        });
+
+        this.socket.on('orders:catchup', (catchUp: OrderCatchUp) => {
+            // Si el servidor se reinició, su secuencia empezó de nuevo
+            if (catchUp.serverId !== this.serverId) {
+                this.serverId = catchUp.serverId;
+                this.lastSeq = 0;
+            }
+
+            if (!catchUp.complete) {
+                this.lastSeq = catchUp.latestSeq;
+                this.lastTimestamp = catchUp.serverTime;
+                this.emit('resync', {});
+                return;
+            }
+
+            catchUp.events.forEach(event => this.handleEvent(event));
+        });
+
+        this.socket.on('order:event', (event: OrderEvent) => this.handleEvent(event));
+    }
+
+    /**
+     * Aplica un evento una sola vez (el catch-up puede repetir eventos ya recibidos)
+     */
+    private handleEvent(event: OrderEvent): void {
+        if (event.seq <= this.lastSeq) return;
+
+        this.lastSeq = event.seq;
+        this.lastTimestamp = event.timestamp;
+        this.emit('order:event', event);
+    }
+
+    /**
+     * Desconecta el WebSocket (ej. al cerrar sesión)
+     */
+    public disconnect(): void {
+        if (this.socket) {
+            this.socket.disconnect();
+            this.socket = null;
+        }
+    }
+
+    /**
+     * Suscribe un callback a un evento ('order:event', 'resync', 'connected', 'disconnected')
+     * @returns Función para desuscribirse
+     */
+    public on(event: string, callback: EventCallback): () => void {
+        if (!this.listeners.has(event)) {
+            this.listeners.set(event, new Set());
+        }
+        this.listeners.get(event)!.add(callback);
+
+        return () => {
+            this.listeners.get(event)?.delete(callback);
+        };
+    }
+
+    private emit(event: string, data: any): void {
+        this.listeners.get(event)?.forEach(callback => {
+            try {
+                callback(data);
+            } catch (error) {
+                console.error(`[OrderSocket] Error in listener for ${event}:`, error);
+            }
+        });
+    }
+
+    /**
+     * Verifica si está conectado al WebSocket
+     */
+    public isConnected(): boolean {
+        return this.socket?.connected ?? false;
+    }
+}
+
+// Exportar singleton
+export const orderSocket = new OrderSocketService();
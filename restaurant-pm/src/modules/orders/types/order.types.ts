@@ -3,10 +3,59 @@
  * @description Definiciones de tipos para el dominio de Pedidos (Orders).
  */
 
+import { ModifierGroupType } from '../../menu/types/menu.types';
+
 export enum OrderStatus {
     New = 'Nuevo',
+    InPreparation = 'En Preparación',
     Ready = 'Listo',
+    Delivered = 'Entregado',
     Completed = 'Completado',
+    Cancelled = 'Cancelado',
+}
+
+/** Entrada del historial de estados (la primera es la creación del pedido) */
+export interface OrderStatusChange {
+    status: OrderStatus;
+    at: string;
+    by?: string | null; // Usuario que hizo el cambio (null = automático, ej. facturación)
+    reason?: string;
+}
+
+export interface OrderCancellation {
+    reason: string;
+    by: string;
+    at: string;
+}
+
+/**
+ * Descuento de una línea o de todo el pedido (los montos incluyen IVA)
+ * - PERCENTAGE: value es el porcentaje; AMOUNT: value es el monto en dólares
+ */
+export type DiscountType = 'PERCENTAGE' | 'AMOUNT';
+
+export interface OrderDiscount {
+    type: DiscountType;
+    value: number;
+    reason: string;
+    authorizedBy?: string; // Lo registra el servidor al guardar el pedido
+    authorizedAt?: string;
+    amount?: number; // Monto descontado, calculado por el servidor
+}
+
+/** Aprobación de descuentos de un gerente (POST /orders/discount-authorization) */
+export interface DiscountAuthorizationResult {
+    authorizedBy: string;
+    authorization: string; // Se envía con el pedido como discountAuthorization
+}
+
+/** Modificador elegido (copia del menú al momento del pedido) */
+export interface OrderItemModifier {
+    groupId?: string;
+    groupName: string;
+    type: ModifierGroupType;
+    name: string;
+    priceDelta: number; // Ya incluido en OrderItem.price
 }
 
 export interface OrderItem {
@@ -17,6 +66,35 @@ export interface OrderItem {
     taxRate?: number; // IVA individual del producto
     notes?: string; // Nota para la cocina (ej. "sin cebolla", "arroz relleno en vez de blanco")
     originalPrice?: number; // Precio original del menú cuando el cajero ajusta el precio de la línea
+    discount?: OrderDiscount | null; // Descuento de la línea
+    modifiers?: OrderItemModifier[]; // Tamaño, acompañantes, extras y exclusiones elegidos
+    station?: string | null; // Estación de cocina que lo prepara (null = general)
+}
+
+/**
+ * División de cuenta: por ítem, por cantidad o en partes iguales.
+ * Cada parte se factura por separado; el pedido queda facturado con la última.
+ */
+export type SplitBillMode = 'items' | 'quantity' | 'even';
+
+export interface SplitBillItem extends OrderItem {
+    id?: string;
+    total: number; // Total con IVA de la porción
+}
+
+export interface SplitBillPart {
+    part: number;
+    items: SplitBillItem[];
+    total: number;
+    billId?: string | null;
+    documentNumber?: string | null;
+    consumidorFinal?: boolean;
+    invoicedAt?: string | null;
+}
+
+export interface SplitBilling {
+    mode: SplitBillMode;
+    parts: SplitBillPart[];
 }
 
 export interface Order {
@@ -26,10 +104,39 @@ export interface Order {
     type: 'En Local' | 'Delivery' | 'Para Llevar';
     status: OrderStatus;
     createdAt: string;
+    updatedAt?: string; // Versión del servidor (detecta conflictos de ediciones sin conexión)
     readyAt?: string | null;
     estimatedMinutes?: number | null;
     estimateSetAt?: string | null;
     billed?: boolean;
     billingType?: 'Factura' | 'Consumidor Final' | 'Sin Factura';
     orderNumber?: string;
+    tableId?: string | null; // Mesa del plano de salón (solo 'En Local')
+    discount?: OrderDiscount | null; // Descuento de todo el pedido (se reparte entre las líneas)
+    splitBilling?: SplitBilling | null; // Cuenta dividida en varias facturas
+    statusHistory?: OrderStatusChange[];
+    cancellation?: OrderCancellation | null;
+    clientRequestId?: string | null; // ID del POS al crearlo (reenvíos idempotentes)
+    syncState?: 'pending' | 'conflict'; // Solo local: guardado sin conexión, aún no llega al servidor
+    discountAuthorization?: string | null; // Solo de ida: aprobación de un gerente para los descuentos nuevos
+}
+
+/**
+ * Evento de sincronización en tiempo real emitido por el backend (/ws/orders)
+ */
+export type OrderEventType =
+    | 'order:created'
+    | 'order:updated'
+    | 'order:item-prepared'
+    | 'order:ready'
+    | 'order:completed'
+    | 'order:cancelled'
+    | 'order:deleted';
+
+export interface OrderEvent {
+    seq: number;
+    type: OrderEventType;
+    orderId: string;
+    order?: Order; // Ausente en order:deleted
+    timestamp: string;
 }
@@ -0,0 +1,78 @@
+/**
+ * @file discounts.ts
+ * @description Descuentos por línea y de todo el pedido (mismo cálculo que el backend).
+ *
+ * Los montos incluyen IVA. El descuento del pedido se reparte entre las líneas
+ * en proporción a su total; los centavos del redondeo van a la línea más grande.
+ */
+
+import { OrderDiscount, OrderItem } from '../types/order.types';
+import { Role } from '../../hr/types/hr.types';
+
+export const DISCOUNT_REASON_MAX_LENGTH = 120;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/** Línea con descuentos aplicados: total cobrado y monto descontado, ambos con IVA */
+export type DiscountedLine<T> = T & { grossTotal: number; total: number; discountAmount: number };
+
+/** Monto (con IVA) que descuenta sobre un total: nunca más que el propio total */
+export const discountAmount = (discount: OrderDiscount, gross: number): number => {
+    const raw = discount.type === 'PERCENTAGE' ? gross * discount.value / 100 : discount.value;
+    return round2(Math.min(Math.max(raw, 0), Math.max(gross, 0)));
+};
+
+/** El rol autoriza descuentos sin pedir la clave de un gerente (misma regla que el backend) */
+export const canAuthorizeDiscounts = (role?: Role | null): boolean =>
+    role?.name === 'Administrador' || role?.permissions?.discounts === true;
+
+/** "10%" o "$2.00" */
+export const describeDiscount = (discount: OrderDiscount): string =>
+    discount.type === 'PERCENTAGE' ? `${discount.value}%` : `$${discount.value.toFixed(2)}`;
+
+/**
+ * Aplica los descuentos de línea y el del pedido.
+ * Una línea que ya trae discountAmount (líneas resumidas o de una factura guardada) lo conserva:
+ * su total ya viene descontado.
+ */
+export const applyOrderDiscounts = <T extends OrderItem & { total?: number; discountAmount?: number }>(
+    items: T[],
+    orderDiscount?: OrderDiscount | null
+): DiscountedLine<T>[] => {
+    const lines = items.map(item => {
+        const base = round2(item.total ?? (item.price || 0) * item.quantity);
+        const lineDiscount = item.discount ? discountAmount(item.discount, base) : 0;
+        const discount = round2((item.discountAmount || 0) + lineDiscount);
+        return { ...item, grossTotal: round2(base + (item.discountAmount || 0)), total: round2(base - lineDiscount), discountAmount: discount };
+    });
+
+    if (!orderDiscount || lines.length === 0) return lines;
+
+    const base = round2(lines.reduce((sum, line) => sum + line.total, 0));
+    const amount = discountAmount(orderDiscount, base);
+    if (amount <= 0) return lines;
+
+    let assigned = 0;
+    const shares = lines.map(line => {
+        const share = round2(amount * line.total / base);
+        assigned += share;
+        return share;
+    });
+    const largest = lines.reduce((best, line, idx) => (line.total > lines[best].total ? idx : best), 0);
+    shares[largest] = round2(Math.min(shares[largest] + amount - assigned, lines[largest].total));
+
+    return lines.map((line, idx) => ({
+        ...line,
+        total: round2(line.total - shares[idx]),
+        discountAmount: round2(line.discountAmount + shares[idx])
+    }));
+};
+
+/** Problema del descuento antes de aplicarlo (null = válido) */
+export const getDiscountIssue = (discount: OrderDiscount): string | null => {
+    if (!(discount.value > 0)) return 'Ingrese un valor mayor a 0';
+    if (discount.type === 'PERCENTAGE' && discount.value > 100) return 'El porcentaje no puede superar el 100%';
+    if (!discount.reason.trim()) return 'Indique el motivo del descuento';
+    if (discount.reason.trim().length > DISCOUNT_REASON_MAX_LENGTH) return `Máximo ${DISCOUNT_REASON_MAX_LENGTH} caracteres en el motivo`;
+    return null;
+};
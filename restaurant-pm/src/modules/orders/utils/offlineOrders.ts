@@ -0,0 +1,34 @@
+/**
+ * @file offlineOrders.ts
+ * @description Pedidos guardados sin conexión dentro de la lista del estado global.
+ * Se conservan mientras estén en cola y se reemplazan por la versión del servidor al sincronizar.
+ */
+
+import { Order } from '../types/order.types';
+
+/**
+ * Recarga desde el servidor sin perder lo que aún está en la cola:
+ * los pedidos locales siguen en la lista y las ediciones pendientes tapan la versión del servidor.
+ */
+export const keepUnsyncedOrders = (serverOrders: Order[], currentOrders: Order[]): Order[] => {
+    const unsynced = currentOrders.filter(o => o.syncState);
+    if (unsynced.length === 0) return serverOrders;
+
+    const unsyncedById = new Map(unsynced.map(o => [o.id, o]));
+    const serverIds = new Set(serverOrders.map(o => o.id));
+    return [
+        ...serverOrders.map(o => unsyncedById.get(o.id) ?? o),
+        ...unsynced.filter(o => !serverIds.has(o.id))
+    ];
+};
+
+/**
+ * El pedido local (localId) pasa a ser el del servidor, en la misma posición.
+ * El evento order:created del WebSocket puede haber llegado antes: no se duplica.
+ */
+export const replaceSyncedOrder = (orders: Order[], localId: string, synced: Order): Order[] => {
+    const withoutDuplicate = orders.filter(o => o.id !== synced.id || o.id === localId);
+    return withoutDuplicate.some(o => o.id === localId)
+        ? withoutDuplicate.map(o => (o.id === localId ? synced : o))
+        : [...withoutDuplicate, synced];
+};
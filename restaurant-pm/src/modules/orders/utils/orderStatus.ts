@@ -0,0 +1,71 @@
+/**
+ * @file orderStatus.ts
+ * @description Ciclo de vida del pedido en la UI.
+ * Nuevo → En Preparación → Listo → Entregado → Completado (al facturar).
+ * Cancelado es un cierre aparte: lo decide el servidor y exige motivo.
+ */
+
+import { Order, OrderStatus, OrderStatusChange } from '../types/order.types';
+
+/** Pedidos en curso: visibles en el POS, el salón y los tableros */
+export const ACTIVE_ORDER_STATUSES: OrderStatus[] = [
+    OrderStatus.New,
+    OrderStatus.InPreparation,
+    OrderStatus.Ready,
+    OrderStatus.Delivered
+];
+
+/** Pedidos que la cocina todavía tiene que preparar */
+export const KITCHEN_ORDER_STATUSES: OrderStatus[] = [OrderStatus.New, OrderStatus.InPreparation];
+
+export const isActiveOrder = (order: Pick<Order, 'status'>): boolean =>
+    ACTIVE_ORDER_STATUSES.includes(order.status);
+
+export const isClosedOrder = (order: Pick<Order, 'status'>): boolean =>
+    order.status === OrderStatus.Completed || order.status === OrderStatus.Cancelled;
+
+/** Listo o ya entregado en mesa: se puede cobrar */
+export const canBillOrder = (order: Pick<Order, 'status'>): boolean =>
+    order.status === OrderStatus.Ready || order.status === OrderStatus.Delivered;
+
+/** Siguiente paso al tocar el estado; null cuando solo queda facturar */
+export const nextOrderStatus = (status: OrderStatus): OrderStatus | null => {
+    switch (status) {
+        case OrderStatus.New: return OrderStatus.InPreparation;
+        case OrderStatus.InPreparation: return OrderStatus.Ready;
+        case OrderStatus.Ready: return OrderStatus.Delivered;
+        default: return null;
+    }
+};
+
+export const ORDER_STATUS_BADGE: Record<OrderStatus, string> = {
+    [OrderStatus.New]: 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300',
+    [OrderStatus.InPreparation]: 'bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-300',
+    [OrderStatus.Ready]: 'bg-orange-100 text-orange-800 dark:bg-orange-900/50 dark:text-orange-300',
+    [OrderStatus.Delivered]: 'bg-purple-100 text-purple-800 dark:bg-purple-900/50 dark:text-purple-300',
+    [OrderStatus.Completed]: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300',
+    [OrderStatus.Cancelled]: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300'
+};
+
+export const ORDER_STATUS_BORDER: Record<OrderStatus, string> = {
+    [OrderStatus.New]: 'border-blue-500 dark:border-blue-400',
+    [OrderStatus.InPreparation]: 'border-amber-500 dark:border-amber-400',
+    [OrderStatus.Ready]: 'border-orange-500 dark:border-orange-400',
+    [OrderStatus.Delivered]: 'border-purple-500 dark:border-purple-400',
+    [OrderStatus.Completed]: 'border-green-500 dark:border-green-400',
+    [OrderStatus.Cancelled]: 'border-red-300 dark:border-red-800'
+};
+
+/** Minutos entre cada cambio y el siguiente (el último queda sin duración) */
+export const describeStatusHistory = (history: OrderStatusChange[] = []) =>
+    history.map((change, index) => {
+        const next = history[index + 1];
+        const minutes = next
+            ? Math.max(0, Math.round((new Date(next.at).getTime() - new Date(change.at).getTime()) / 60000))
+            : null;
+        return {
+            ...change,
+            time: new Date(change.at).toLocaleTimeString('es-EC', { hour: '2-digit', minute: '2-digit' }),
+            minutes
+        };
+    });
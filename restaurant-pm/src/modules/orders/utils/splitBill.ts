@@ -0,0 +1,138 @@
+/**
+ * @file splitBill.ts
+ * @description Cálculo de la cuenta dividida (una factura por parte).
+ *
+ * Los montos se reparten en centavos para que la suma de las partes sea
+ * EXACTAMENTE el total del pedido: el centavo que sobra va a las primeras partes.
+ */
+
+import { OrderItem, SplitBilling, SplitBillItem, SplitBillMode, SplitBillPart } from '../types/order.types';
+
+/** Cantidad asignada de cada ítem a cada parte: allocation[ítem][parte] */
+export type SplitAllocation = number[][];
+
+export const MIN_SPLIT_PARTS = 2;
+export const MAX_SPLIT_PARTS = 10;
+
+const toCents = (value: number): number => Math.round(value * 100);
+const round6 = (value: number): number => Math.round(value * 1e6) / 1e6;
+
+/** Total con IVA de la línea en centavos (los precios del sistema ya incluyen IVA) */
+const itemCents = (item: OrderItem): number => toCents((item.price || 0) * item.quantity);
+
+/**
+ * Reparte `totalCents` proporcionalmente a `weights`; el residuo va a las primeras partes con peso
+ */
+export const distributeCents = (totalCents: number, weights: number[]): number[] => {
+    const weightSum = weights.reduce((s, w) => s + w, 0);
+    if (weightSum <= 0) return weights.map(() => 0);
+
+    const shares = weights.map(w => Math.floor((totalCents * w) / weightSum));
+    let remainder = totalCents - shares.reduce((s, c) => s + c, 0);
+    for (let i = 0; remainder > 0; i = (i + 1) % shares.length) {
+        if (weights[i] > 0) {
+            shares[i]++;
+            remainder--;
+        }
+    }
+    return shares;
+};
+
+export const createAllocation = (items: OrderItem[], parts: number): SplitAllocation =>
+    items.map(() => Array(parts).fill(0));
+
+/** Ajusta el número de partes conservando lo asignado a las partes que siguen existiendo */
+export const resizeAllocation = (allocation: SplitAllocation, parts: number): SplitAllocation =>
+    allocation.map(row => Array.from({ length: parts }, (_, idx) => row[idx] || 0));
+
+export const getUnassigned = (items: OrderItem[], allocation: SplitAllocation, itemIdx: number): number =>
+    round6(items[itemIdx].quantity - allocation[itemIdx].reduce((s, q) => s + q, 0));
+
+/** Modo "por ítem": la línea completa va a una sola parte (-1 = sin asignar) */
+export const assignWholeItem = (items: OrderItem[], allocation: SplitAllocation, itemIdx: number, partIdx: number): SplitAllocation =>
+    allocation.map((row, idx) => idx !== itemIdx
+        ? row
+        : row.map((_, p) => (p === partIdx ? items[itemIdx].quantity : 0)));
+
+/** Modo "por cantidad": suma/resta unidades de un ítem en una parte, sin pasar de lo pedido */
+export const changeAllocatedQuantity = (
+    items: OrderItem[],
+    allocation: SplitAllocation,
+    itemIdx: number,
+    partIdx: number,
+    delta: number
+): SplitAllocation => {
+    const current = allocation[itemIdx][partIdx];
+    const max = current + getUnassigned(items, allocation, itemIdx);
+    const next = Math.min(Math.max(0, current + delta), max);
+    return allocation.map((row, idx) => idx !== itemIdx ? row : row.map((q, p) => (p === partIdx ? next : q)));
+};
+
+/** Problemas que impiden confirmar la división (vacío = lista para facturar) */
+export const getSplitIssues = (items: OrderItem[], allocation: SplitAllocation): string[] => {
+    const issues: string[] = [];
+    items.forEach((item, idx) => {
+        const unassigned = getUnassigned(items, allocation, idx);
+        if (unassigned > 0) issues.push(`${item.name}: ${unassigned} sin asignar`);
+    });
+    const parts = allocation[0]?.length || 0;
+    for (let p = 0; p < parts; p++) {
+        if (!allocation.some(row => row[p] > 0)) issues.push(`La parte ${p + 1} está vacía`);
+    }
+    return issues;
+};
+
+const toSplitItem = (item: OrderItem & { id?: string }, quantity: number, cents: number): SplitBillItem => ({
+    id: item.id,
+    name: item.name,
+    quantity,
+    price: item.price,
+    taxRate: item.taxRate,
+    ...(item.modifiers?.length ? { modifiers: item.modifiers } : {}),
+    total: cents / 100
+});
+
+const buildParts = (partItems: SplitBillItem[][]): SplitBillPart[] =>
+    partItems.map((items, idx) => ({
+        part: idx + 1,
+        items,
+        total: toCents(items.reduce((s, i) => s + i.total, 0)) / 100
+    }));
+
+/** Plan a partir de la asignación manual (modos "por ítem" y "por cantidad") */
+export const buildPlanFromAllocation = (
+    items: OrderItem[],
+    allocation: SplitAllocation,
+    mode: Exclude<SplitBillMode, 'even'>
+): SplitBilling => {
+    const parts = allocation[0]?.length || 0;
+    const partItems: SplitBillItem[][] = Array.from({ length: parts }, () => []);
+
+    items.forEach((item, idx) => {
+        const shares = distributeCents(itemCents(item), allocation[idx]);
+        allocation[idx].forEach((quantity, p) => {
+            if (quantity > 0) partItems[p].push(toSplitItem(item, quantity, shares[p]));
+        });
+    });
+
+    return { mode, parts: buildParts(partItems) };
+};
+
+/** Plan en partes iguales: cada parte lleva 1/N de cada ítem */
+export const buildEvenPlan = (items: OrderItem[], parts: number): SplitBilling => {
+    const partItems: SplitBillItem[][] = Array.from({ length: parts }, () => []);
+    const equalWeights = Array(parts).fill(1);
+
+    items.forEach(item => {
+        const shares = distributeCents(itemCents(item), equalWeights);
+        const quantity = round6(item.quantity / parts);
+        shares.forEach((cents, p) => partItems[p].push(toSplitItem(item, quantity, cents)));
+    });
+
+    return { mode: 'even', parts: buildParts(partItems) };
+};
+
+export const isPartInvoiced = (part: SplitBillPart): boolean => !!part.billId;
+
+export const getFirstPendingPart = (plan?: SplitBilling | null): number | null =>
+    plan?.parts.find(p => !isPartInvoiced(p))?.part ?? null;
@@ -24,7 +24,8 @@ import {
     SettingsIcon,
     LayoutIcon,
     ChefHatIcon,
-    CheckCircleIcon
+    CheckCircleIcon,
+    TableIcon
 } from '../../../components/ui/Icons';
 
 // --- Sections ---
@@ -34,10 +35,12 @@ import BillingSRISection from './sections/BillingSRISection';
 import CertificateSection from './sections/CertificateSection';
 import BackupSection from './sections/BackupSection';
 import AuditSection from './sections/AuditSection';
+import KitchenStationsSection from './sections/KitchenStationsSection';
+import FloorPlanEditor from '../../tables/components/FloorPlanEditor';
 import ConfirmModal from '../../../components/ui/ConfirmModal';
 import { toast } from '../../../components/ui/AlertProvider';
 
-type SettingsTab = 'general' | 'brand' | 'billing' | 'certificate' | 'backup' | 'audit';
+type SettingsTab = 'general' | 'brand' | 'billing' | 'certificate' | 'tables' | 'kitchen' | 'backup' | 'audit';
 
 interface Employee {
     id: string;
@@ -52,7 +55,7 @@ const SettingsManagement: React.FC = () => {
 
     // Determinar tab activo desde URL o default
     const [activeTab, setActiveTab] = useState<SettingsTab>(() => {
-        const validTabs: SettingsTab[] = ['general', 'brand', 'billing', 'certificate', 'backup', 'audit'];
+        const validTabs: SettingsTab[] = ['general', 'brand', 'billing', 'certificate', 'tables', 'kitchen', 'backup', 'audit'];
         return validTabs.includes(tab as SettingsTab) ? (tab as SettingsTab) : 'general';
     });
     const [employees, setEmployees] = useState<Employee[]>([]);
@@ -64,7 +67,7 @@ const SettingsManagement: React.FC = () => {
 
     // Sincronizar tab con URL
     useEffect(() => {
-        const validTabs: SettingsTab[] = ['general', 'brand', 'billing', 'certificate', 'backup', 'audit'];
+        const validTabs: SettingsTab[] = ['general', 'brand', 'billing', 'certificate', 'tables', 'kitchen', 'backup', 'audit'];
         if (tab && validTabs.includes(tab as SettingsTab)) {
             setActiveTab(tab as SettingsTab);
         }
@@ -251,6 +254,8 @@ const SettingsManagement: React.FC = () => {
         { id: 'brand', label: 'Marca', icon: <ChefHatIcon className="w-4 h-4" /> },
         { id: 'billing', label: 'Facturación / SRI', icon: <SettingsIcon className="w-4 h-4" /> },
         { id: 'certificate', label: 'Certificado Digital', icon: <svg xmlns="http://www.w3.org/2000/svg" className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" /></svg> },
+        { id: 'tables', label: 'Mesas / Salón', icon: <TableIcon className="w-4 h-4" /> },
+        { id: 'kitchen', label: 'Estaciones de Cocina', icon: <ChefHatIcon className="w-4 h-4" /> },
         { id: 'backup', label: 'Respaldos', icon: <svg xmlns="http://www.w3.org/2000/svg" className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4" /></svg> },
         { id: 'audit', label: 'Auditoría', icon: <svg xmlns="http://www.w3.org/2000/svg" className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg> },
     ];
@@ -325,6 +330,12 @@ const SettingsManagement: React.FC = () => {
                         onChangeEnvironment={handleChangeCertificateEnvironment}
                     />
                 )}
+                {activeTab === 'tables' && (
+                    <FloorPlanEditor />
+                )}
+                {activeTab === 'kitchen' && (
+                    <KitchenStationsSection />
+                )}
                 {activeTab === 'backup' && (
                     <BackupSection />
                 )}
@@ -1,5 +1,9 @@
 import React, { useRef } from 'react';
 import Card from '../../../../components/ui/Card';
+import TaxSchedulePanel from './TaxSchedulePanel';
+import PrintLayoutPanel from './PrintLayoutPanel';
+import { TaxRatePeriod } from '../../../billing/utils/taxRates';
+import { PrintLayout } from '../../../billing/utils/printLayout';
 
 interface BillingSRISectionProps {
     fiscalInfo: {
@@ -16,6 +20,9 @@ interface BillingSRISectionProps {
         emissionPoint: string;
         regime: 'General' | 'RIMPE - Negocio Popular' | 'RIMPE - Emprendedor';
         taxRate?: number;
+        taxSchedule?: TaxRatePeriod[];
+        serviceChargeRate?: number;
+        printLayout?: PrintLayout;
         currentSequenceFactura: number;
         currentSequenceNotaCredito: number;
         currentSequenceNotaVenta: number;
@@ -42,6 +49,8 @@ const BillingSRISection: React.FC<BillingSRISectionProps> = ({
     onSave 
 }) => {
     const fiscalLogoInputRef = useRef<HTMLInputElement>(null);
+    // Con tabla de IVA, la tarifa vigente la calcula el servidor al guardar
+    const hasTaxSchedule = !!billingConfig.taxSchedule?.length;
 
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
@@ -244,7 +253,9 @@ const BillingSRISection: React.FC<BillingSRISectionProps> = ({
                                     <div>
                                         <h4 className="text-[10px] font-black uppercase tracking-widest text-blue-800 dark:text-blue-400">Tarifa IVA (%)</h4>
                                         <p className="text-[10px] font-bold text-blue-700/70 dark:text-blue-300/60 uppercase tracking-widest mt-1 leading-relaxed">
-                                            Cámbialo solo si el SRI decreta un nuevo porcentaje. Afecta todas las facturas y notas de crédito futuras.
+                                            {hasTaxSchedule
+                                                ? 'Sale de la tabla de IVA por fecha de vigencia (abajo).'
+                                                : 'Cámbialo solo si el SRI decreta un nuevo porcentaje. Afecta todas las facturas y notas de crédito futuras.'}
                                         </p>
                                     </div>
                                 </div>
@@ -260,7 +271,8 @@ const BillingSRISection: React.FC<BillingSRISectionProps> = ({
                                                     onBillingConfigChange({ ...billingConfig, taxRate: val });
                                                 }
                                             }}
-                                            className={`${monoInputClass} pr-8`}
+                                            className={`${monoInputClass} pr-8 disabled:opacity-50`}
+                                            disabled={hasTaxSchedule}
                                             min="0"
                                             max="100"
                                             step="0.5"
@@ -274,6 +286,7 @@ const BillingSRISection: React.FC<BillingSRISectionProps> = ({
                                                 key={rate}
                                                 type="button"
                                                 onClick={() => onBillingConfigChange({ ...billingConfig, taxRate: rate })}
+                                                disabled={hasTaxSchedule}
                                                 className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all border ${
                                                     (billingConfig.taxRate ?? 15) === rate
                                                         ? 'bg-blue-600 text-white border-blue-600 shadow-lg shadow-blue-500/25'
@@ -286,8 +299,55 @@ const BillingSRISection: React.FC<BillingSRISectionProps> = ({
                                     </div>
                                 </div>
                             </div>
+
+                            <TaxSchedulePanel
+                                schedule={billingConfig.taxSchedule || []}
+                                taxRate={billingConfig.taxRate ?? 15}
+                                onChange={(taxSchedule) => onBillingConfigChange({ ...billingConfig, taxSchedule })}
+                            />
+
+                            {/* Cargo por servicio (propina): fuera de la base de IVA */}
+                            <div className="p-5 bg-gray-50 dark:bg-dark-900/40 rounded-3xl border border-gray-100 dark:border-dark-700">
+                                <label htmlFor="serviceChargeRate" className="block text-[10px] font-black uppercase tracking-widest text-gray-500 dark:text-gray-400">Cargo por Servicio (%)</label>
+                                <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mt-1 mb-4 leading-relaxed">
+                                    Se sugiere al cobrar pedidos en el local y va como propina en la factura (no paga IVA). 0 = no se cobra.
+                                </p>
+                                <div className="relative w-40">
+                                    <input
+                                        type="number"
+                                        id="serviceChargeRate"
+                                        value={billingConfig.serviceChargeRate ?? 0}
+                                        onChange={(e) => {
+                                            const val = parseFloat(e.target.value);
+                                            if (!isNaN(val) && val >= 0 && val <= 100) {
+                                                onBillingConfigChange({ ...billingConfig, serviceChargeRate: val });
+                                            }
+                                        }}
+                                        className={`${monoInputClass} pr-8`}
+                                        min="0"
+                                        max="100"
+                                        step="0.5"
+                                        placeholder="0"
+                                    />
+                                    <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 font-black text-sm">%</span>
+                                </div>
+                            </div>
                         </div>
 
+                        {/* Plantilla del RIDE: A4 o ticket, logo, QR y pie, con vista previa */}
+                        <PrintLayoutPanel
+                            layout={billingConfig.printLayout}
+                            issuer={{
+                                businessName: fiscalInfo.businessName,
+                                ruc: fiscalInfo.ruc,
+                                address: fiscalInfo.fiscalAddress,
+                                logo: fiscalInfo.fiscalLogo,
+                                establishment: billingConfig.establishment,
+                                emissionPoint: billingConfig.emissionPoint
+                            }}
+                            onChange={(printLayout) => onBillingConfigChange({ ...billingConfig, printLayout })}
+                        />
+
                         {/* Secuenciales */}
                         <div className="p-6 bg-orange-50 dark:bg-orange-900/10 rounded-3xl border border-orange-100 dark:border-orange-800/30 space-y-6">
                             <div className="flex items-start gap-3">
@@ -0,0 +1,120 @@
+/**
+ * @file KitchenStationsSection.tsx
+ * @description Estaciones de cocina (parrilla, freidora, fríos, bar...).
+ * Los platos se asignan a una estación desde su categoría o desde el propio
+ * plato; cada pantalla del KDS filtra y despacha solo su estación.
+ * Renombrar conserva el id, así los pedidos en curso siguen en su estación.
+ */
+
+import React, { useEffect, useState } from 'react';
+import Card from '../../../../components/ui/Card';
+import { toast } from '../../../../components/ui/AlertProvider';
+import { ChefHatIcon, PlusIcon, TrashIcon } from '../../../../components/ui/Icons';
+import { useRestaurantConfig } from '../../../../contexts/RestaurantConfigContext';
+import { KitchenStation } from '../../../../types';
+
+const inputClass = "w-full rounded-xl border border-gray-200 bg-gray-50/50 p-3 text-gray-900 text-sm font-bold focus:border-blue-500 focus:bg-white focus:ring-4 focus:ring-blue-500/10 focus:outline-none transition-all dark:border-gray-700 dark:bg-dark-800 dark:text-white dark:placeholder-gray-500";
+
+const KitchenStationsSection: React.FC = () => {
+    const { config, updateConfig } = useRestaurantConfig();
+    const [stations, setStations] = useState<KitchenStation[]>(config.kitchenStations || []);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        setStations(config.kitchenStations || []);
+    }, [config.kitchenStations]);
+
+    const isDirty = JSON.stringify(stations) !== JSON.stringify(config.kitchenStations || []);
+    const hasEmptyName = stations.some(s => !s.name.trim());
+
+    const updateStation = (index: number, name: string) =>
+        setStations(prev => prev.map((s, i) => (i === index ? { ...s, name } : s)));
+
+    const handleSave = async () => {
+        if (hasEmptyName) {
+            toast.error('Cada estación necesita un nombre', 'Estaciones');
+            return;
+        }
+        setSaving(true);
+        try {
+            // Las nuevas van sin id: el servidor lo genera a partir del nombre
+            await updateConfig({ kitchenStations: stations.map(s => ({ id: s.id, name: s.name.trim() })) });
+            toast.success('Estaciones de cocina guardadas', 'Éxito');
+        } catch (error: any) {
+            toast.error(error?.response?.data?.message || 'No se pudieron guardar las estaciones', 'Error');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <Card>
+                <div className="p-6">
+                    <div className="flex items-center justify-between mb-6">
+                        <div className="flex items-center gap-3">
+                            <div className="w-10 h-10 rounded-xl bg-orange-100 dark:bg-orange-900/30 flex items-center justify-center text-orange-600 dark:text-orange-400">
+                                <ChefHatIcon className="h-5 w-5" />
+                            </div>
+                            <div>
+                                <h2 className="text-xl font-black text-gray-900 dark:text-white uppercase tracking-tight">Estaciones de Cocina</h2>
+                                <p className="text-xs font-bold text-orange-600 dark:text-orange-400 uppercase tracking-widest">
+                                    {stations.length} estaciones · lo que no tenga estación va a General
+                                </p>
+                            </div>
+                        </div>
+                        <button
+                            onClick={handleSave}
+                            disabled={!isDirty || saving}
+                            className="bg-blue-600 text-white px-6 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-blue-700 transition-all shadow-xl shadow-blue-500/25 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {saving ? 'Guardando…' : 'Guardar'}
+                        </button>
+                    </div>
+
+                    <div className="space-y-3">
+                        {stations.map((station, index) => (
+                            <div key={station.id || `new-${index}`} className="flex items-center gap-3">
+                                <input
+                                    value={station.name}
+                                    onChange={e => updateStation(index, e.target.value)}
+                                    placeholder="Ej: Parrilla"
+                                    className={inputClass}
+                                    aria-label={`Nombre de la estación ${index + 1}`}
+                                />
+                                {station.id && (
+                                    <span className="text-[9px] font-black uppercase tracking-widest text-gray-300 dark:text-gray-600 w-20 truncate" title="Identificador">
+                                        {station.id}
+                                    </span>
+                                )}
+                                <button
+                                    type="button"
+                                    onClick={() => setStations(prev => prev.filter((_, i) => i !== index))}
+                                    className="p-2.5 text-gray-400 hover:text-red-500 transition-colors"
+                                    aria-label={`Eliminar estación ${station.name}`}
+                                >
+                                    <TrashIcon className="w-4 h-4" />
+                                </button>
+                            </div>
+                        ))}
+
+                        <button
+                            type="button"
+                            onClick={() => setStations(prev => [...prev, { id: '', name: '' }])}
+                            className="flex items-center gap-1 px-3 py-2 rounded-xl border border-dashed border-blue-200 dark:border-blue-900 text-[10px] font-black uppercase tracking-widest text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/10 transition-colors"
+                        >
+                            <PlusIcon className="w-3 h-3" /> Estación
+                        </button>
+                    </div>
+
+                    <p className="mt-6 text-[11px] font-bold text-gray-400">
+                        Asigna la estación en cada categoría (o en un plato puntual desde el menú). Si quitas una estación,
+                        sus platos pasan a General en los pedidos nuevos.
+                    </p>
+                </div>
+            </Card>
+        </div>
+    );
+};
+
+export default KitchenStationsSection;
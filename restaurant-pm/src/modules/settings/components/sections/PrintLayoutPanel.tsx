@@ -0,0 +1,210 @@
+/**
+ * @file PrintLayoutPanel.tsx
+ * @description Plantilla de impresión del RIDE, dentro de Facturación SRI.
+ * Elige A4 o ticket térmico (58/80 mm), logo, QR de la clave de acceso y un pie
+ * propio, con una vista previa que cambia mientras se edita. La plantilla se usa
+ * en facturas, notas de crédito y reimpresiones; se guarda con el botón de la sección.
+ */
+
+import React from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import {
+    MAX_FOOTER_LINES,
+    MAX_FOOTER_LINE_LENGTH,
+    PrintLayout,
+    RideFormat,
+    TicketWidth,
+    footerLines,
+    printLayoutOf
+} from '../../../billing/utils/printLayout';
+
+interface PrintLayoutPanelProps {
+    layout?: Partial<PrintLayout>;
+    issuer: {
+        businessName: string;
+        ruc: string;
+        address?: string;
+        logo?: string;
+        establishment: string;
+        emissionPoint: string;
+    };
+    onChange: (layout: PrintLayout) => void;
+}
+
+/** Clave de acceso de ejemplo para la vista previa (49 dígitos) */
+const SAMPLE_ACCESS_KEY = '1910202601179001234500110010010000000701234567811';
+
+const SAMPLE_LINES = [
+    { qty: 1, name: 'Seco de chivo', total: 10.0 },
+    { qty: 2, name: 'Jugo de naranjilla', total: 3.0 }
+];
+
+/** Ancho en pantalla del rollo (≈ 3,8 px por mm) */
+const TICKET_PREVIEW_WIDTH: Record<TicketWidth, number> = { 58: 220, 80: 302 };
+
+const optionClass = (active: boolean) =>
+    `px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all border ${
+        active
+            ? 'bg-blue-600 text-white border-blue-600 shadow-lg shadow-blue-500/25'
+            : 'bg-white dark:bg-dark-800 text-gray-600 dark:text-gray-300 border-gray-200 dark:border-dark-700 hover:border-blue-400 hover:text-blue-600'
+    }`;
+
+const RidePreview: React.FC<{ layout: PrintLayout; issuer: PrintLayoutPanelProps['issuer'] }> = ({ layout, issuer }) => {
+    const isTicket = layout.format === 'ticket';
+    const subtotal = SAMPLE_LINES.reduce((sum, line) => sum + line.total, 0);
+    const iva = subtotal * 0.15;
+    const footer = footerLines(layout.footerText);
+
+    return (
+        <div
+            data-testid="ride-preview"
+            style={{ width: isTicket ? TICKET_PREVIEW_WIDTH[layout.ticketWidth] : 360 }}
+            className={`mx-auto bg-white text-gray-800 shadow-xl border border-gray-200 font-mono ${isTicket ? 'p-3 text-[9px] rounded-sm' : 'p-5 text-[8px] rounded-md aspect-[210/297]'}`}
+        >
+            <div className={isTicket ? 'text-center space-y-0.5' : 'flex justify-between gap-4'}>
+                <div className={isTicket ? 'space-y-0.5' : 'space-y-0.5 text-left'}>
+                    {layout.showLogo && issuer.logo && (
+                        <img src={issuer.logo} alt="Logo del RIDE" className={`max-h-12 object-contain ${isTicket ? 'mx-auto mb-1' : 'mb-1'}`} />
+                    )}
+                    <p className="font-black uppercase">{issuer.businessName || 'Razón social'}</p>
+                    <p>RUC: {issuer.ruc || '0000000000001'}</p>
+                    {issuer.address && <p>{issuer.address}</p>}
+                </div>
+                <div className={isTicket ? 'pt-1 space-y-0.5' : 'text-right space-y-0.5'}>
+                    <p className="font-black">{isTicket ? 'FACTURA ELECTRÓNICA' : 'FACTURA N°'}</p>
+                    <p>{issuer.establishment}-{issuer.emissionPoint}-000000070</p>
+                    <p className="font-black">CLAVE DE ACCESO:</p>
+                    <p className="break-all text-[7px]">{SAMPLE_ACCESS_KEY}</p>
+                    {layout.showQr && (
+                        <div data-testid="ride-preview-qr" className={isTicket ? 'flex justify-center pt-1' : 'flex justify-end pt-1'}>
+                            <QRCodeSVG value={SAMPLE_ACCESS_KEY} size={isTicket ? (layout.ticketWidth === 58 ? 56 : 64) : 56} level="M" />
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            <div className="my-2 border-t border-dashed border-gray-300" />
+
+            <table className="w-full">
+                <tbody>
+                    {SAMPLE_LINES.map(line => (
+                        <tr key={line.name}>
+                            <td className="pr-1 align-top">{line.qty}</td>
+                            <td className="align-top">{line.name}</td>
+                            <td className="text-right align-top">{line.total.toFixed(2)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            <div className="my-2 border-t border-dashed border-gray-300" />
+
+            <div className="space-y-0.5 text-right">
+                <p>SUBTOTAL 15% ${subtotal.toFixed(2)}</p>
+                <p>IVA 15% ${iva.toFixed(2)}</p>
+                <p className="font-black">VALOR TOTAL ${(subtotal + iva).toFixed(2)}</p>
+            </div>
+
+            <div className={`mt-3 space-y-0.5 ${isTicket ? 'text-center' : 'text-left'}`}>
+                {isTicket && <p>Descargue su documento en: www.sri.gob.ec</p>}
+                {footer.map((line, index) => (
+                    <p key={index} data-testid="ride-preview-footer" className="font-bold">{line}</p>
+                ))}
+                <p>Gracias por su compra</p>
+            </div>
+        </div>
+    );
+};
+
+const PrintLayoutPanel: React.FC<PrintLayoutPanelProps> = ({ layout: savedLayout, issuer, onChange }) => {
+    const layout = printLayoutOf(savedLayout);
+    const footerCount = footerLines(layout.footerText).length;
+
+    const update = (changes: Partial<PrintLayout>) => onChange({ ...layout, ...changes });
+
+    return (
+        <div className="p-5 bg-gray-50 dark:bg-dark-900/40 rounded-3xl border border-gray-100 dark:border-dark-700 space-y-4">
+            <div>
+                <h4 className="text-[10px] font-black uppercase tracking-widest text-gray-500 dark:text-gray-400">Plantilla de impresión (RIDE)</h4>
+                <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mt-1 leading-relaxed">
+                    Se usa en facturas, notas de crédito y reimpresiones.
+                </p>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="space-y-4">
+                    <div className="space-y-1.5">
+                        <span className="block text-[9px] font-black uppercase tracking-widest text-gray-400">Formato</span>
+                        <div className="flex gap-2">
+                            {([['A4', 'Hoja A4'], ['ticket', 'Ticket térmico']] as [RideFormat, string][]).map(([format, label]) => (
+                                <button key={format} type="button" onClick={() => update({ format })} className={optionClass(layout.format === format)}>
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="space-y-1.5">
+                        <span className="block text-[9px] font-black uppercase tracking-widest text-gray-400">Ancho del rollo</span>
+                        <div className="flex gap-2">
+                            {([58, 80] as TicketWidth[]).map(ticketWidth => (
+                                <button
+                                    key={ticketWidth}
+                                    type="button"
+                                    onClick={() => update({ ticketWidth })}
+                                    disabled={layout.format !== 'ticket'}
+                                    className={`${optionClass(layout.ticketWidth === ticketWidth)} disabled:opacity-40`}
+                                >
+                                    {ticketWidth} mm
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="flex flex-wrap gap-4">
+                        <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-gray-600 dark:text-gray-300 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={layout.showLogo}
+                                onChange={e => update({ showLogo: e.target.checked })}
+                                className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                            />
+                            Logo
+                        </label>
+                        <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-gray-600 dark:text-gray-300 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={layout.showQr}
+                                onChange={e => update({ showQr: e.target.checked })}
+                                className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                            />
+                            QR de la clave de acceso
+                        </label>
+                    </div>
+
+                    <div className="space-y-1.5">
+                        <label htmlFor="rideFooterText" className="block text-[9px] font-black uppercase tracking-widest text-gray-400">Pie del comprobante</label>
+                        <textarea
+                            id="rideFooterText"
+                            value={layout.footerText}
+                            onChange={e => update({ footerText: e.target.value })}
+                            rows={4}
+                            maxLength={MAX_FOOTER_LINES * (MAX_FOOTER_LINE_LENGTH + 1)}
+                            placeholder={'Cambios y devoluciones hasta 24 h con su factura\n@picanteriamiraflores\nWifi: Miraflores / clave1234'}
+                            className="w-full rounded-xl border border-gray-200 bg-white p-3 text-gray-900 text-sm focus:border-blue-500 focus:ring-4 focus:ring-blue-500/10 focus:outline-none transition-all dark:border-gray-700 dark:bg-dark-800 dark:text-white"
+                        />
+                        <p className={`text-[10px] font-bold uppercase tracking-widest ${footerCount > MAX_FOOTER_LINES ? 'text-red-600' : 'text-gray-400'}`}>
+                            {footerCount}/{MAX_FOOTER_LINES} líneas
+                        </p>
+                    </div>
+                </div>
+
+                <div className="p-4 bg-gray-200/60 dark:bg-dark-800 rounded-2xl overflow-x-auto">
+                    <RidePreview layout={layout} issuer={issuer} />
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PrintLayoutPanel;
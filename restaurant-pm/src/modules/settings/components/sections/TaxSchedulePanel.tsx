@@ -0,0 +1,231 @@
+/**
+ * @file TaxSchedulePanel.tsx
+ * @description Tabla de tarifas de IVA con fecha de vigencia, dentro de Facturación SRI.
+ * Cada tramo dice desde qué día rige una tarifa general y su codigoPorcentaje del SRI;
+ * las facturas usan la tarifa vigente el día de emisión. Cuando hay un tramo
+ * programado, muestra cómo queda el menú y permite aplicar el nuevo IVA a los platos.
+ * Los tramos se guardan con el botón de la sección; el re-precio usa los ya guardados.
+ * El tramo vigente lo indica el backend (la tabla guardada), no se recalcula aquí.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { toast } from '../../../../components/ui/AlertProvider';
+import { PlusIcon, TrashIcon } from '../../../../components/ui/Icons';
+import { billingService } from '../../../billing/services/BillingService';
+import { MenuRepricingMode, MenuRepricingPreview } from '../../../billing/types/billing.types';
+import { SRI_IVA_CODES, TaxRatePeriod, ecuadorDay } from '../../../billing/utils/taxRates';
+
+interface TaxSchedulePanelProps {
+    schedule: TaxRatePeriod[];
+    taxRate: number; // Tarifa actual: primer tramo al crear la tabla
+    onChange: (schedule: TaxRatePeriod[]) => void;
+}
+
+const cellInputClass = "w-full rounded-xl border border-gray-200 bg-white p-2.5 text-gray-900 text-sm font-mono text-center focus:border-blue-500 focus:ring-4 focus:ring-blue-500/10 focus:outline-none transition-all dark:border-gray-700 dark:bg-dark-800 dark:text-white";
+
+/** Desde cuándo rige el tramo con la tarifa anterior a la tabla */
+const FIRST_PERIOD_FROM = '2000-01-01';
+
+const periodStatus = (period: TaxRatePeriod, current: TaxRatePeriod | null): { label: string; className: string } => {
+    if (current && period.effectiveFrom === current.effectiveFrom && period.rate === current.rate) return { label: 'Vigente', className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400' };
+    if (period.effectiveFrom > ecuadorDay(new Date())) return { label: 'Programada', className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400' };
+    return { label: 'Anterior', className: 'bg-gray-100 text-gray-500 dark:bg-dark-700 dark:text-gray-400' };
+};
+
+const TaxSchedulePanel: React.FC<TaxSchedulePanelProps> = ({ schedule, taxRate, onChange }) => {
+    const [preview, setPreview] = useState<MenuRepricingPreview | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [applying, setApplying] = useState(false);
+    const [current, setCurrent] = useState<TaxRatePeriod | null>(null);
+
+    useEffect(() => {
+        billingService.previewTaxRates([])
+            .then(taxPreview => setCurrent(taxPreview.period))
+            .catch(error => console.error('Error consultando el IVA vigente:', error));
+    }, []);
+
+    const updatePeriod = (index: number, changes: Partial<TaxRatePeriod>) =>
+        onChange(schedule.map((p, i) => (i === index ? { ...p, ...changes } : p)));
+
+    const changeRate = (index: number, value: string) => {
+        const rate = parseFloat(value);
+        if (isNaN(rate) || rate < 0 || rate > 100) return;
+        // El código sigue a la tarifa si es una de la ficha técnica
+        updatePeriod(index, { rate, code: SRI_IVA_CODES[rate] ?? schedule[index].code });
+    };
+
+    const addPeriod = () => {
+        const tomorrow = ecuadorDay(new Date(Date.now() + 24 * 60 * 60 * 1000));
+        const next: TaxRatePeriod = { rate: taxRate, code: SRI_IVA_CODES[taxRate] ?? '', effectiveFrom: tomorrow };
+        // Sin tabla, la tarifa actual queda como primer tramo: antes del primero rige el primero
+        onChange(schedule.length
+            ? [...schedule, next]
+            : [{ rate: taxRate, code: SRI_IVA_CODES[taxRate] ?? '', effectiveFrom: FIRST_PERIOD_FROM }, next]);
+    };
+
+    const removePeriod = (index: number) => onChange(schedule.filter((_, i) => i !== index));
+
+    const loadPreview = async () => {
+        setLoading(true);
+        try {
+            setPreview(await billingService.getMenuRepricing());
+        } catch (error: any) {
+            toast.error(error.message || 'No se pudo calcular el re-precio del menú');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const applyPreview = async (mode: MenuRepricingMode) => {
+        if (!preview) return;
+        setApplying(true);
+        try {
+            const result = await billingService.applyMenuRepricing(preview.period.effectiveFrom, mode);
+            toast.success(`${result.updated.length} platos pasaron a IVA ${preview.period.rate}%`, 'Menú actualizado');
+            setPreview(null);
+        } catch (error: any) {
+            toast.error(error.message || 'No se pudo aplicar el nuevo IVA al menú');
+        } finally {
+            setApplying(false);
+        }
+    };
+
+    return (
+        <div className="p-5 bg-gray-50 dark:bg-dark-900/40 rounded-3xl border border-gray-100 dark:border-dark-700 space-y-4">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h4 className="text-[10px] font-black uppercase tracking-widest text-gray-500 dark:text-gray-400">IVA por fecha de vigencia</h4>
+                    <p className="text-[10px] font-bold text-gray-400 uppercase tracking-widest mt-1 leading-relaxed">
+                        Programe aquí un cambio de IVA: cada factura usa la tarifa vigente el día que se emite.
+                    </p>
+                </div>
+                <button
+                    type="button"
+                    onClick={addPeriod}
+                    className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-white dark:bg-dark-800 border border-gray-200 dark:border-dark-700 text-[10px] font-black uppercase tracking-widest text-blue-600 hover:border-blue-400 transition-all flex-shrink-0"
+                >
+                    <PlusIcon className="h-3.5 w-3.5" /> Agregar tramo
+                </button>
+            </div>
+
+            {schedule.length > 0 && (
+                <div className="space-y-2">
+                    <div className="grid grid-cols-[1.4fr_1fr_1fr_auto_auto] gap-2 px-1 text-[9px] font-black uppercase tracking-widest text-gray-400">
+                        <span>Vigente desde</span><span>Tarifa %</span><span>Código SRI</span><span /><span />
+                    </div>
+                    {schedule.map((period, index) => {
+                        const status = periodStatus(period, current);
+                        return (
+                            <div key={index} className="grid grid-cols-[1.4fr_1fr_1fr_auto_auto] gap-2 items-center">
+                                <input
+                                    type="date"
+                                    aria-label={`Vigente desde (tramo ${index + 1})`}
+                                    value={period.effectiveFrom}
+                                    onChange={e => updatePeriod(index, { effectiveFrom: e.target.value })}
+                                    className={cellInputClass}
+                                />
+                                <input
+                                    type="number"
+                                    aria-label={`Tarifa (tramo ${index + 1})`}
+                                    value={period.rate}
+                                    onChange={e => changeRate(index, e.target.value)}
+                                    min="0"
+                                    max="100"
+                                    className={cellInputClass}
+                                />
+                                <input
+                                    type="text"
+                                    aria-label={`Código SRI (tramo ${index + 1})`}
+                                    value={period.code}
+                                    onChange={e => updatePeriod(index, { code: e.target.value.replace(/\D/g, '').slice(0, 4) })}
+                                    className={cellInputClass}
+                                />
+                                <span className={`px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest ${status.className}`}>
+                                    {status.label}
+                                </span>
+                                <button
+                                    type="button"
+                                    onClick={() => removePeriod(index)}
+                                    aria-label={`Quitar tramo ${index + 1}`}
+                                    className="p-2 rounded-xl text-gray-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-950/20 transition-all"
+                                >
+                                    <TrashIcon className="h-4 w-4" />
+                                </button>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            {schedule.length > 0 && (
+                <div className="pt-2 border-t border-gray-100 dark:border-dark-700">
+                    <button
+                        type="button"
+                        onClick={loadPreview}
+                        disabled={loading}
+                        className="text-[10px] font-black uppercase tracking-widest text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                    >
+                        {loading ? 'Calculando…' : 'Ver precios del menú con el próximo IVA'}
+                    </button>
+
+                    {preview && (
+                        <div className="mt-3 space-y-3">
+                            <p className="text-xs font-bold text-gray-600 dark:text-gray-300">
+                                IVA {preview.period.rate}% desde {preview.period.effectiveFrom} · {preview.items.length} platos cambian, {preview.unchangedCount} no
+                            </p>
+                            {preview.items.length > 0 && (
+                                <>
+                                    <div className="max-h-64 overflow-y-auto rounded-2xl border border-gray-100 dark:border-dark-700">
+                                        <table className="w-full text-xs">
+                                            <thead className="bg-white dark:bg-dark-800 text-[9px] font-black uppercase tracking-widest text-gray-400">
+                                                <tr>
+                                                    <th className="p-2 text-left">Plato</th>
+                                                    <th className="p-2 text-right">Precio actual</th>
+                                                    <th className="p-2 text-right">Manteniendo base</th>
+                                                    <th className="p-2 text-right">Base si no cambia el precio</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody className="divide-y divide-gray-50 dark:divide-dark-700/50">
+                                                {preview.items.map(line => (
+                                                    <tr key={line.id} data-testid="repricing-line">
+                                                        <td className="p-2 font-bold text-gray-700 dark:text-gray-200">
+                                                            {line.name}
+                                                            <span className="ml-2 text-[10px] text-gray-400">IVA {line.taxRate}% → {line.newTaxRate}%</span>
+                                                        </td>
+                                                        <td className="p-2 text-right font-mono">${line.price.toFixed(2)}</td>
+                                                        <td className="p-2 text-right font-mono font-black text-blue-600">${line.newPrice.toFixed(2)}</td>
+                                                        <td className="p-2 text-right font-mono">${line.baseIfPriceKept.toFixed(2)}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                    <div className="flex flex-wrap gap-2">
+                                        <button
+                                            type="button"
+                                            onClick={() => applyPreview('KEEP_BASE')}
+                                            disabled={applying}
+                                            className="px-4 py-2.5 rounded-xl bg-blue-600 text-white text-[10px] font-black uppercase tracking-widest hover:bg-blue-700 transition-all disabled:opacity-50"
+                                        >
+                                            Aplicar y mantener la base
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => applyPreview('KEEP_PRICE')}
+                                            disabled={applying}
+                                            className="px-4 py-2.5 rounded-xl bg-white dark:bg-dark-800 border border-gray-200 dark:border-dark-700 text-gray-600 dark:text-gray-300 text-[10px] font-black uppercase tracking-widest hover:border-blue-400 transition-all disabled:opacity-50"
+                                        >
+                                            Aplicar y mantener el precio
+                                        </button>
+                                    </div>
+                                </>
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TaxSchedulePanel;
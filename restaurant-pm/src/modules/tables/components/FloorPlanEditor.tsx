@@ -0,0 +1,372 @@
+/**
+ * @file FloorPlanEditor.tsx
+ * @description Editor del plano de salón (Configuración → Mesas).
+ * Permite crear, editar y eliminar mesas y acomodarlas arrastrándolas
+ * sobre una cuadrícula por zona. Las posiciones se guardan en bloque.
+ */
+
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { toast } from '../../../components/ui/AlertProvider';
+import Modal from '../../../components/ui/Modal';
+import ConfirmModal from '../../../components/ui/ConfirmModal';
+import { PlusIcon, TrashIcon } from '../../../components/ui/Icons';
+import { tableService } from '../services/tableService';
+import { Table, TableShape, CreateTableDTO } from '../types/table.types';
+import { FLOOR_COLS, FLOOR_ROWS, clampPosition, getTableSize, getZones } from '../utils/tableStatus';
+import FloorTable from './FloorTable';
+
+const inputClass = "w-full rounded-xl border border-gray-200 bg-gray-50 px-4 py-2.5 text-sm focus:border-blue-500 focus:bg-white focus:ring-4 focus:ring-blue-500/10 outline-none transition-all dark:border-gray-700 dark:bg-dark-800 dark:text-white";
+
+const SHAPE_LABELS: Record<TableShape, string> = {
+    square: 'Cuadrada',
+    round: 'Redonda',
+    rectangle: 'Rectangular'
+};
+
+const emptyForm = (zone: string): CreateTableDTO => ({
+    name: '',
+    zone,
+    seats: 4,
+    shape: 'square',
+    active: true
+});
+
+const FloorPlanEditor: React.FC = () => {
+    const [tables, setTables] = useState<Table[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [dirtyIds, setDirtyIds] = useState<Set<string>>(new Set());
+    const [activeZone, setActiveZone] = useState('Salón');
+    const [dragging, setDragging] = useState<{ id: string; moved: boolean } | null>(null);
+    const [editing, setEditing] = useState<Table | null>(null);
+    const [form, setForm] = useState<CreateTableDTO | null>(null);
+    const [confirmDelete, setConfirmDelete] = useState<Table | null>(null);
+    const canvasRef = useRef<HTMLDivElement>(null);
+
+    const loadTables = useCallback(async () => {
+        setLoading(true);
+        try {
+            const data = await tableService.getAll();
+            setTables(data || []);
+            setDirtyIds(new Set());
+        } catch (error) {
+            toast.error('Error al cargar las mesas', 'Error');
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadTables();
+    }, [loadTables]);
+
+    const zones = useMemo(() => {
+        const list = getZones(tables);
+        return list.includes(activeZone) ? list : [...list, activeZone];
+    }, [tables, activeZone]);
+
+    const zoneTables = tables.filter(t => (t.zone || 'Salón') === activeZone);
+
+    // --- Drag & drop sobre la cuadrícula ---
+    const handlePointerDown = (table: Table) => (e: React.PointerEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        (e.target as HTMLElement).setPointerCapture?.(e.pointerId);
+        setDragging({ id: table.id, moved: false });
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (!dragging || !canvasRef.current) return;
+        const rect = canvasRef.current.getBoundingClientRect();
+        const table = tables.find(t => t.id === dragging.id);
+        if (!table) return;
+
+        // Centrar la mesa bajo el puntero
+        const { w, h } = getTableSize(table.shape);
+        const col = ((e.clientX - rect.left) / rect.width) * FLOOR_COLS - w / 2;
+        const row = ((e.clientY - rect.top) / rect.height) * FLOOR_ROWS - h / 2;
+        const position = clampPosition(col, row, table.shape);
+
+        if (position.x === table.position.x && position.y === table.position.y) return;
+
+        setTables(prev => prev.map(t => (t.id === table.id ? { ...t, position } : t)));
+        setDirtyIds(prev => new Set(prev).add(table.id));
+        setDragging({ id: table.id, moved: true });
+    };
+
+    const handlePointerUp = () => {
+        if (!dragging) return;
+        // Un clic sin arrastre abre la edición de la mesa
+        if (!dragging.moved) {
+            const table = tables.find(t => t.id === dragging.id);
+            if (table) openEdit(table);
+        }
+        setDragging(null);
+    };
+
+    const saveLayout = async () => {
+        const items = tables
+            .filter(t => dirtyIds.has(t.id))
+            .map(t => ({ id: t.id, position: t.position, zone: t.zone }));
+        if (items.length === 0) return;
+
+        setSaving(true);
+        try {
+            await tableService.saveLayout(items);
+            setDirtyIds(new Set());
+            toast.success('Plano de salón guardado', 'Mesas');
+        } catch (error: any) {
+            toast.error(error.message || 'Error al guardar el plano', 'Error');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    // --- Crear / editar mesa ---
+    const openCreate = () => {
+        setEditing(null);
+        setForm({ ...emptyForm(activeZone), name: `Mesa ${tables.length + 1}` });
+    };
+
+    const openEdit = (table: Table) => {
+        setEditing(table);
+        setForm({ name: table.name, zone: table.zone, seats: table.seats, shape: table.shape, active: table.active });
+    };
+
+    const closeForm = () => {
+        setEditing(null);
+        setForm(null);
+    };
+
+    const findFreeSpot = (shape: TableShape) => {
+        const { w, h } = getTableSize(shape);
+        for (let y = 0; y <= FLOOR_ROWS - h; y += h) {
+            for (let x = 0; x <= FLOOR_COLS - w; x += w) {
+                const overlaps = zoneTables.some(t => {
+                    const size = getTableSize(t.shape);
+                    return x < t.position.x + size.w && t.position.x < x + w &&
+                        y < t.position.y + size.h && t.position.y < y + h;
+                });
+                if (!overlaps) return { x, y };
+            }
+        }
+        return { x: 0, y: 0 };
+    };
+
+    const submitForm = async () => {
+        if (!form) return;
+        if (!form.name.trim()) {
+            toast.warning('Ingrese el nombre de la mesa', 'Campo Requerido');
+            return;
+        }
+
+        try {
+            if (editing) {
+                const shape = form.shape || editing.shape;
+                const updated = await tableService.update(editing.id, {
+                    ...form,
+                    position: clampPosition(editing.position.x, editing.position.y, shape)
+                });
+                setTables(prev => prev.map(t => (t.id === updated.id ? updated : t)));
+                toast.success('Mesa actualizada', 'Mesas');
+            } else {
+                const created = await tableService.create({
+                    ...form,
+                    position: findFreeSpot(form.shape || 'square')
+                });
+                setTables(prev => [...prev, created]);
+                toast.success('Mesa creada', 'Mesas');
+            }
+            if (form.zone) setActiveZone(form.zone);
+            closeForm();
+        } catch (error: any) {
+            toast.error(error.message || 'Error al guardar la mesa', 'Error');
+        }
+    };
+
+    const deleteTable = async () => {
+        if (!confirmDelete) return;
+        try {
+            await tableService.delete(confirmDelete.id);
+            setTables(prev => prev.filter(t => t.id !== confirmDelete.id));
+            toast.success('Mesa eliminada', 'Mesas');
+            closeForm();
+        } catch (error: any) {
+            toast.error(error.message || 'Error al eliminar la mesa', 'Error');
+        } finally {
+            setConfirmDelete(null);
+        }
+    };
+
+    const addZone = () => {
+        const name = prompt('Nombre de la nueva zona (ej. Terraza, Segundo piso):');
+        if (name && name.trim()) setActiveZone(name.trim());
+    };
+
+    return (
+        <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <div className="bg-white dark:bg-dark-800 p-6 rounded-2xl shadow-md">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+                    <div>
+                        <h2 className="text-xl font-black text-gray-900 dark:text-white uppercase tracking-tight">Plano de Salón</h2>
+                        <p className="text-xs font-bold text-blue-600 dark:text-blue-400 uppercase tracking-widest">
+                            {tables.length} mesas · arrastre para acomodar, clic para editar
+                        </p>
+                    </div>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={openCreate}
+                            className="flex items-center gap-2 bg-blue-600 text-white px-5 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-blue-700 transition-all shadow-xl shadow-blue-500/25 active:scale-95"
+                        >
+                            <PlusIcon className="w-4 h-4" />
+                            Nueva Mesa
+                        </button>
+                        <button
+                            onClick={saveLayout}
+                            disabled={saving || dirtyIds.size === 0}
+                            className="flex items-center gap-2 bg-emerald-600 text-white px-5 py-3 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-emerald-700 transition-all shadow-xl shadow-emerald-500/25 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {saving ? 'Guardando...' : `Guardar Plano${dirtyIds.size > 0 ? ` (${dirtyIds.size})` : ''}`}
+                        </button>
+                    </div>
+                </div>
+
+                {/* Zonas */}
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                    {zones.map(zone => (
+                        <button
+                            key={zone}
+                            onClick={() => setActiveZone(zone)}
+                            className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${
+                                activeZone === zone
+                                    ? 'bg-blue-600 text-white shadow-lg'
+                                    : 'bg-gray-100 dark:bg-dark-700 text-gray-500 dark:text-gray-300'
+                            }`}
+                        >
+                            {zone}
+                        </button>
+                    ))}
+                    <button
+                        onClick={addZone}
+                        className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border-2 border-dashed border-gray-300 dark:border-dark-600 text-gray-400 hover:text-blue-600 hover:border-blue-400 transition-all"
+                    >
+                        + Zona
+                    </button>
+                </div>
+
+                {/* Cuadrícula */}
+                <div
+                    ref={canvasRef}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerLeave={() => setDragging(null)}
+                    className="relative w-full rounded-2xl border-2 border-gray-200 dark:border-dark-700 bg-gray-50 dark:bg-dark-900 overflow-hidden"
+                    style={{
+                        aspectRatio: `${FLOOR_COLS} / ${FLOOR_ROWS}`,
+                        backgroundImage: 'linear-gradient(to right, rgba(148,163,184,0.15) 1px, transparent 1px), linear-gradient(to bottom, rgba(148,163,184,0.15) 1px, transparent 1px)',
+                        backgroundSize: `${100 / FLOOR_COLS}% ${100 / FLOOR_ROWS}%`
+                    }}
+                >
+                    {loading ? (
+                        <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-400">Cargando mesas...</div>
+                    ) : zoneTables.length === 0 ? (
+                        <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-400">
+                            No hay mesas en esta zona. Cree una con “Nueva Mesa”.
+                        </div>
+                    ) : (
+                        zoneTables.map(table => (
+                            <FloorTable
+                                key={table.id}
+                                table={table}
+                                isDragging={dragging?.id === table.id}
+                                onPointerDown={handlePointerDown(table)}
+                            />
+                        ))
+                    )}
+                </div>
+            </div>
+
+            {/* Formulario de mesa */}
+            <Modal isOpen={!!form} onClose={closeForm} title={editing ? `Editar ${editing.name}` : 'Nueva Mesa'}>
+                {form && (
+                    <div className="space-y-4">
+                        <div>
+                            <label className="block text-[10px] font-black uppercase tracking-widest text-gray-500 mb-1">Nombre</label>
+                            <input className={inputClass} value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label className="block text-[10px] font-black uppercase tracking-widest text-gray-500 mb-1">Zona</label>
+                                <input className={inputClass} value={form.zone || ''} onChange={e => setForm({ ...form, zone: e.target.value })} />
+                            </div>
+                            <div>
+                                <label className="block text-[10px] font-black uppercase tracking-widest text-gray-500 mb-1">Asientos</label>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    className={inputClass}
+                                    value={form.seats}
+                                    onChange={e => setForm({ ...form, seats: parseInt(e.target.value) || 1 })}
+                                />
+                            </div>
+                        </div>
+                        <div>
+                            <label className="block text-[10px] font-black uppercase tracking-widest text-gray-500 mb-1">Forma</label>
+                            <div className="flex gap-2">
+                                {(Object.keys(SHAPE_LABELS) as TableShape[]).map(shape => (
+                                    <button
+                                        key={shape}
+                                        onClick={() => setForm({ ...form, shape })}
+                                        className={`flex-1 py-2 rounded-xl text-xs font-bold border-2 transition-all ${
+                                            form.shape === shape
+                                                ? 'border-blue-600 text-blue-600 bg-blue-50 dark:bg-blue-900/20'
+                                                : 'border-gray-200 dark:border-dark-600 text-gray-500'
+                                        }`}
+                                    >
+                                        {SHAPE_LABELS[shape]}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <label className="flex items-center gap-2 text-sm font-bold text-gray-700 dark:text-gray-200">
+                            <input
+                                type="checkbox"
+                                checked={form.active !== false}
+                                onChange={e => setForm({ ...form, active: e.target.checked })}
+                            />
+                            Mesa habilitada
+                        </label>
+                        <div className="flex justify-between pt-2">
+                            {editing ? (
+                                <button
+                                    onClick={() => setConfirmDelete(editing)}
+                                    className="flex items-center gap-1 px-4 py-2.5 rounded-xl text-xs font-black uppercase text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20"
+                                >
+                                    <TrashIcon className="w-4 h-4" />
+                                    Eliminar
+                                </button>
+                            ) : <span />}
+                            <button
+                                onClick={submitForm}
+                                className="px-6 py-2.5 rounded-xl bg-blue-600 text-white text-xs font-black uppercase tracking-widest hover:bg-blue-700"
+                            >
+                                Guardar
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </Modal>
+
+            <ConfirmModal
+                isOpen={!!confirmDelete}
+                onClose={() => setConfirmDelete(null)}
+                onConfirm={deleteTable}
+                title="Eliminar Mesa"
+                message={`¿Eliminar ${confirmDelete?.name}? No se puede eliminar una mesa con pedidos abiertos.`}
+                confirmText="Eliminar"
+                type="danger"
+            />
+        </div>
+    );
+};
+
+export default FloorPlanEditor;
@@ -0,0 +1,62 @@
+/**
+ * @file FloorTable.tsx
+ * @description Representación visual de una mesa dentro del plano de salón.
+ * Compartido por el editor (configuración) y la vista en vivo (pedidos).
+ */
+
+import React from 'react';
+import { Table, TableOccupancyStatus } from '../types/table.types';
+import { FLOOR_COLS, FLOOR_ROWS, getTableSize } from '../utils/tableStatus';
+
+interface FloorTableProps {
+    table: Table;
+    status?: TableOccupancyStatus;
+    subtitle?: string;
+    detail?: string;
+    isDragging?: boolean;
+    onPointerDown?: (e: React.PointerEvent<HTMLDivElement>) => void;
+    onClick?: () => void;
+}
+
+const STATUS_CLASSES: Record<TableOccupancyStatus, string> = {
+    libre: 'bg-white dark:bg-dark-800 border-gray-200 dark:border-dark-600 text-gray-700 dark:text-gray-200',
+    ocupada: 'bg-amber-50 dark:bg-amber-900/30 border-amber-400 text-amber-800 dark:text-amber-200',
+    lista: 'bg-green-50 dark:bg-green-900/30 border-green-500 text-green-800 dark:text-green-200 animate-pulse'
+};
+
+export const FloorTable: React.FC<FloorTableProps> = ({ table, status = 'libre', subtitle, detail, isDragging, onPointerDown, onClick }) => {
+    const { w, h } = getTableSize(table.shape);
+
+    return (
+        <div
+            onPointerDown={onPointerDown}
+            onClick={onClick}
+            className={`absolute p-1 select-none touch-none ${onPointerDown ? 'cursor-move' : onClick ? 'cursor-pointer' : ''}`}
+            style={{
+                left: `${(table.position.x / FLOOR_COLS) * 100}%`,
+                top: `${(table.position.y / FLOOR_ROWS) * 100}%`,
+                width: `${(w / FLOOR_COLS) * 100}%`,
+                height: `${(h / FLOOR_ROWS) * 100}%`,
+                zIndex: isDragging ? 20 : 10
+            }}
+        >
+            <div
+                className={`w-full h-full border-2 flex flex-col items-center justify-center text-center shadow-sm transition-all ${
+                    table.shape === 'round' ? 'rounded-full' : 'rounded-xl'
+                } ${STATUS_CLASSES[status]} ${isDragging ? 'ring-4 ring-blue-500/30 scale-105' : ''} ${table.active ? '' : 'opacity-40'}`}
+            >
+                <span className="text-[10px] md:text-xs font-black uppercase tracking-tight leading-none truncate max-w-full px-1">
+                    {table.name}
+                </span>
+                <span className="text-[9px] font-bold opacity-70 leading-tight">
+                    {subtitle ?? `${table.seats} pax`}
+                </span>
+                {detail && (
+                    <span className="text-[9px] font-black leading-tight">{detail}</span>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default FloorTable;
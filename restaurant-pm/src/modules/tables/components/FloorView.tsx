@@ -0,0 +1,115 @@
+/**
+ * @file FloorView.tsx
+ * @description Vista de salón en vivo (Operaciones → Salón).
+ * Muestra cada mesa con su estado (libre / ocupada / lista), el pedido
+ * abierto y el tiempo transcurrido. Se actualiza con los pedidos del
+ * AppState, que llegan en tiempo real por WebSocket.
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { Order } from '../../orders/types/order.types';
+import { tableService } from '../services/tableService';
+import { Table, TableOccupancy } from '../types/table.types';
+import { FLOOR_COLS, FLOOR_ROWS, getTableOccupancy, getZones } from '../utils/tableStatus';
+import FloorTable from './FloorTable';
+
+interface FloorViewProps {
+    orders: Order[];
+    /** Clic en una mesa: con pedido abierto para editarlo, libre para crear uno */
+    onSelect: (occupancy: TableOccupancy) => void;
+}
+
+const LEGEND = [
+    { label: 'Libre', className: 'bg-white border-gray-300' },
+    { label: 'Ocupada', className: 'bg-amber-100 border-amber-400' },
+    { label: 'Lista', className: 'bg-green-100 border-green-500' }
+];
+
+const FloorView: React.FC<FloorViewProps> = ({ orders, onSelect }) => {
+    const [tables, setTables] = useState<Table[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [activeZone, setActiveZone] = useState<string | null>(null);
+    const [now, setNow] = useState(Date.now());
+
+    useEffect(() => {
+        tableService.getAll({ activeOnly: true })
+            .then(data => setTables(data || []))
+            .catch(error => console.error('Error cargando mesas:', error))
+            .finally(() => setLoading(false));
+    }, []);
+
+    // Refrescar los minutos transcurridos
+    useEffect(() => {
+        const intervalId = setInterval(() => setNow(Date.now()), 30000);
+        return () => clearInterval(intervalId);
+    }, []);
+
+    const zones = useMemo(() => getZones(tables), [tables]);
+    const zone = activeZone && zones.includes(activeZone) ? activeZone : zones[0];
+    const occupancy = useMemo(() => getTableOccupancy(tables, orders, now), [tables, orders, now]);
+    const zoneOccupancy = occupancy.filter(o => (o.table.zone || 'Salón') === zone);
+    const busyCount = occupancy.filter(o => o.status !== 'libre').length;
+
+    if (loading) {
+        return <div className="text-center py-12 text-gray-500 dark:text-gray-400">Cargando salón...</div>;
+    }
+
+    if (tables.length === 0) {
+        return (
+            <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+                No hay mesas configuradas. Créelas en Configuración → Mesas.
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-4 mt-2 md:mt-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex flex-wrap gap-2">
+                    {zones.map(z => (
+                        <button
+                            key={z}
+                            onClick={() => setActiveZone(z)}
+                            className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${
+                                zone === z
+                                    ? 'bg-blue-600 text-white shadow-lg'
+                                    : 'bg-gray-100 dark:bg-dark-800 text-gray-500 dark:text-gray-300'
+                            }`}
+                        >
+                            {z}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex items-center gap-4">
+                    {LEGEND.map(item => (
+                        <span key={item.label} className="flex items-center gap-1.5 text-[10px] font-bold uppercase text-gray-500 dark:text-gray-400">
+                            <span className={`w-3 h-3 rounded border-2 ${item.className}`}></span>
+                            {item.label}
+                        </span>
+                    ))}
+                    <span className="text-[10px] font-black uppercase tracking-widest text-blue-600 dark:text-blue-400">
+                        {busyCount}/{tables.length} ocupadas
+                    </span>
+                </div>
+            </div>
+
+            <div
+                className="relative w-full rounded-2xl border-2 border-gray-200 dark:border-dark-700 bg-gray-50 dark:bg-dark-900 overflow-hidden"
+                style={{ aspectRatio: `${FLOOR_COLS} / ${FLOOR_ROWS}` }}
+            >
+                {zoneOccupancy.map(item => (
+                    <FloorTable
+                        key={item.table.id}
+                        table={item.table}
+                        status={item.status}
+                        subtitle={item.order ? `#${item.order.orderNumber || item.order.id.slice(-4)}` : undefined}
+                        detail={item.order ? `${item.elapsedMinutes} min` : undefined}
+                        onClick={() => onSelect(item)}
+                    />
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default FloorView;
@@ -0,0 +1,2 @@
+export * from './types/table.types';
+export { tableService } from './services/tableService';
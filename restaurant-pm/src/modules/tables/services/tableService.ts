@@ -0,0 +1,47 @@
+/**
+ * @file tableService.ts
+ * @description Servicio singleton para gestión de mesas y plano de salón.
+ * Proporciona métodos CRUD y guardado de posiciones del plano.
+ */
+
+import { apiService } from '../../../api';
+import { API_ENDPOINTS } from '../../../config/api.config';
+import { Table, CreateTableDTO, UpdateTableDTO, TableLayoutDTO } from '../types/table.types';
+
+export class TableService {
+    private static instance: TableService;
+
+    private constructor() { }
+
+    public static getInstance(): TableService {
+        if (!TableService.instance) {
+            TableService.instance = new TableService();
+        }
+        return TableService.instance;
+    }
+
+    public async getAll(params?: { activeOnly?: boolean }): Promise<Table[]> {
+        const url = params?.activeOnly
+            ? `${API_ENDPOINTS.TABLES.BASE}?activeOnly=true`
+            : API_ENDPOINTS.TABLES.BASE;
+        return apiService.get(url);
+    }
+
+    public async create(data: CreateTableDTO): Promise<Table> {
+        return apiService.post(API_ENDPOINTS.TABLES.BASE, data);
+    }
+
+    public async update(id: string, data: UpdateTableDTO): Promise<Table> {
+        return apiService.put(API_ENDPOINTS.TABLES.BY_ID(id), data);
+    }
+
+    public async delete(id: string): Promise<any> {
+        return apiService.delete(API_ENDPOINTS.TABLES.BY_ID(id));
+    }
+
+    public async saveLayout(items: TableLayoutDTO[]): Promise<void> {
+        return apiService.patch(API_ENDPOINTS.TABLES.LAYOUT, { items });
+    }
+}
+
+export const tableService = TableService.getInstance();
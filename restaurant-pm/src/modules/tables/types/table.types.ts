@@ -0,0 +1,56 @@
+/**
+ * Tipos de mesas y plano de salón para el frontend
+ */
+
+import { Order } from '../../orders/types/order.types';
+
+export type TableShape = 'square' | 'round' | 'rectangle';
+
+export interface TablePosition {
+    x: number; // Columna en la cuadrícula del plano
+    y: number; // Fila en la cuadrícula del plano
+}
+
+export interface Table {
+    id: string;
+    name: string;
+    zone: string;
+    seats: number;
+    shape: TableShape;
+    position: TablePosition;
+    active: boolean;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+export interface CreateTableDTO {
+    name: string;
+    zone?: string;
+    seats: number;
+    shape?: TableShape;
+    position?: TablePosition;
+    active?: boolean;
+}
+
+export type UpdateTableDTO = Partial<CreateTableDTO>;
+
+export interface TableLayoutDTO {
+    id: string;
+    position: TablePosition;
+    zone?: string;
+}
+
+/**
+ * Estado de una mesa en la vista de salón en vivo
+ * - libre: sin pedido abierto
+ * - ocupada: pedido en cocina
+ * - lista: pedido listo para servir/cobrar
+ */
+export type TableOccupancyStatus = 'libre' | 'ocupada' | 'lista';
+
+export interface TableOccupancy {
+    table: Table;
+    order: Order | null;
+    status: TableOccupancyStatus;
+    elapsedMinutes: number;
+}
@@ -0,0 +1,54 @@
+/**
+ * @file tableStatus.ts
+ * @description Cálculo del estado de cada mesa a partir de los pedidos en vivo.
+ */
+
+import { Order, OrderStatus } from '../../orders/types/order.types';
+import { isActiveOrder } from '../../orders/utils/orderStatus';
+import { Table, TableOccupancy } from '../types/table.types';
+
+/** Dimensiones de la cuadrícula del plano (columnas x filas) */
+export const FLOOR_COLS = 16;
+export const FLOOR_ROWS = 10;
+
+/**
+ * Cruza las mesas con los pedidos abiertos (no completados ni cancelados) vinculados por tableId.
+ * Si una mesa tuviera varios pedidos abiertos se muestra el más antiguo.
+ */
+export const getTableOccupancy = (tables: Table[], orders: Order[], now: number = Date.now()): TableOccupancy[] => {
+    const openOrders = orders
+        .filter(o => o.tableId && isActiveOrder(o))
+        .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+    return tables.map(table => {
+        const order = openOrders.find(o => o.tableId === table.id) || null;
+        if (!order) {
+            return { table, order: null, status: 'libre', elapsedMinutes: 0 };
+        }
+
+        const elapsedMinutes = Math.max(0, Math.floor((now - new Date(order.createdAt).getTime()) / 60000));
+        return {
+            table,
+            order,
+            status: order.status === OrderStatus.Ready ? 'lista' : 'ocupada',
+            elapsedMinutes
+        };
+    });
+};
+
+/** Zonas distintas del plano, en orden de aparición */
+export const getZones = (tables: Table[]): string[] =>
+    Array.from(new Set(tables.map(t => t.zone || 'Salón')));
+
+/** Tamaño (en celdas) que ocupa cada forma de mesa en el plano */
+export const getTableSize = (shape: Table['shape']): { w: number; h: number } =>
+    shape === 'rectangle' ? { w: 3, h: 2 } : { w: 2, h: 2 };
+
+/** Ajusta una posición para que la mesa no se salga del plano */
+export const clampPosition = (x: number, y: number, shape: Table['shape']): { x: number; y: number } => {
+    const { w, h } = getTableSize(shape);
+    return {
+        x: Math.min(Math.max(0, Math.round(x)), FLOOR_COLS - w),
+        y: Math.min(Math.max(0, Math.round(y)), FLOOR_ROWS - h)
+    };
+};
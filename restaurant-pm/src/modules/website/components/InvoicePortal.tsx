@@ -0,0 +1,257 @@
+/**
+ * @file InvoicePortal.tsx
+ * @description Página pública para que el cliente descargue sus facturas (RIDE y XML)
+ * sin iniciar sesión: con su cédula/RUC y la clave de acceso o el número de factura,
+ * o con un código que llega al email de sus facturas.
+ */
+
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useRestaurantConfig } from '../../../contexts/RestaurantConfigContext';
+import { api } from '../../../api';
+
+type AccessMode = 'reference' | 'code';
+
+interface PortalInvoice {
+    id: string;
+    documentNumber: string;
+    date: string;
+    customerName: string;
+    total: number;
+    accessKey: string;
+}
+
+interface PortalSession {
+    token: string;
+    expiresAt: string;
+    invoices: PortalInvoice[];
+}
+
+const InvoicePortal: React.FC = () => {
+    const { config } = useRestaurantConfig();
+    const [mode, setMode] = useState<AccessMode>('reference');
+    const [identification, setIdentification] = useState('');
+    const [reference, setReference] = useState('');
+    const [email, setEmail] = useState('');
+    const [code, setCode] = useState('');
+    const [codeSent, setCodeSent] = useState('');
+    const [session, setSession] = useState<PortalSession | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [downloading, setDownloading] = useState('');
+    const [error, setError] = useState('');
+
+    const inputClasses = "block w-full px-3 py-3 border border-gray-200 rounded-lg leading-5 bg-gray-50 text-gray-900 placeholder-gray-400 focus:outline-none focus:bg-white focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-all duration-200 ease-in-out dark:bg-dark-700 dark:border-dark-600 dark:text-gray-100 dark:placeholder-gray-500 dark:focus:bg-dark-600 dark:focus:border-blue-400 dark:focus:ring-blue-400/20";
+    const buttonClasses = "w-full flex justify-center py-3 px-4 border border-transparent text-sm font-bold rounded-lg text-white bg-gradient-to-r from-blue-600 to-blue-500 hover:from-blue-700 hover:to-blue-600 shadow-lg shadow-blue-500/30 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed";
+
+    const run = async (action: () => Promise<void>, fallback: string) => {
+        setError('');
+        setIsLoading(true);
+        try {
+            await action();
+        } catch (err: any) {
+            setError(err.message || fallback);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleLookup = (e: React.FormEvent) => {
+        e.preventDefault();
+        run(async () => setSession(await api.invoicePortal.lookup(identification, reference)), 'No se pudo consultar la factura');
+    };
+
+    const handleRequestCode = (e: React.FormEvent) => {
+        e.preventDefault();
+        run(async () => {
+            const result = await api.invoicePortal.requestCode(identification, email);
+            setCodeSent(result.message);
+        }, 'No se pudo enviar el código');
+    };
+
+    const handleVerifyCode = (e: React.FormEvent) => {
+        e.preventDefault();
+        run(async () => setSession(await api.invoicePortal.verifyCode(identification, code)), 'No se pudo verificar el código');
+    };
+
+    const handleDownload = async (invoice: PortalInvoice, format: 'pdf' | 'xml') => {
+        if (!session) return;
+        setError('');
+        setDownloading(`${invoice.id}-${format}`);
+        try {
+            const blob = await api.invoicePortal.download(invoice.id, format, session.token);
+            const url = window.URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `Factura-${invoice.documentNumber}.${format}`;
+            document.body.appendChild(link);
+            link.click();
+            link.remove();
+            window.URL.revokeObjectURL(url);
+        } catch (err: any) {
+            setError(err.message || 'No se pudo descargar la factura');
+        } finally {
+            setDownloading('');
+        }
+    };
+
+    const reset = () => {
+        setSession(null);
+        setCodeSent('');
+        setCode('');
+        setError('');
+    };
+
+    const switchMode = (next: AccessMode) => {
+        setMode(next);
+        setCodeSent('');
+        setError('');
+    };
+
+    return (
+        <div className="flex items-center justify-center min-h-screen bg-cover bg-center relative" style={{ backgroundImage: "url('https://images.unsplash.com/photo-1517248135467-4c7edcad34c4?q=80&w=2070&auto=format&fit=crop')" }}>
+            <div className="absolute inset-0 bg-gray-900/60 backdrop-blur-[2px]"></div>
+
+            <div className="relative w-full max-w-lg p-8 mx-4 my-8 space-y-6 bg-white/95 rounded-2xl shadow-2xl backdrop-blur-md dark:bg-dark-800/95 border border-white/20 dark:border-dark-600/50">
+                <div className="text-center">
+                    {config.logo && <img src={config.logo} alt={config.name} className="mx-auto w-16 h-16 object-contain mb-4" />}
+                    <h1 className="text-2xl font-bold text-gray-900 dark:text-white tracking-tight">
+                        Descarga tu factura
+                    </h1>
+                    <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                        Obtén el RIDE (PDF) y el XML autorizado por el SRI
+                    </p>
+                </div>
+
+                {session ? (
+                    <div className="space-y-4">
+                        {session.invoices.length === 0 ? (
+                            <p className="text-center text-sm text-gray-500 dark:text-gray-400">No tienes facturas autorizadas</p>
+                        ) : (
+                            <ul className="space-y-3">
+                                {session.invoices.map(invoice => (
+                                    <li key={invoice.id} className="p-4 rounded-lg border border-gray-200 dark:border-dark-600">
+                                        <div className="flex justify-between text-sm">
+                                            <span className="font-bold font-mono text-gray-900 dark:text-white">{invoice.documentNumber}</span>
+                                            <span className="font-bold text-gray-900 dark:text-white">${invoice.total.toFixed(2)}</span>
+                                        </div>
+                                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                            {invoice.date} · {invoice.customerName}
+                                        </p>
+                                        <div className="flex gap-2 mt-3">
+                                            <button
+                                                type="button"
+                                                onClick={() => handleDownload(invoice, 'pdf')}
+                                                disabled={!!downloading}
+                                                className="flex-1 py-2 text-xs font-bold rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                                            >
+                                                {downloading === `${invoice.id}-pdf` ? 'Descargando...' : 'Descargar PDF'}
+                                            </button>
+                                            <button
+                                                type="button"
+                                                onClick={() => handleDownload(invoice, 'xml')}
+                                                disabled={!!downloading}
+                                                className="flex-1 py-2 text-xs font-bold rounded-lg text-blue-600 border border-blue-200 hover:bg-blue-50 dark:border-blue-800 dark:hover:bg-blue-900/20 disabled:opacity-50"
+                                            >
+                                                {downloading === `${invoice.id}-xml` ? 'Descargando...' : 'Descargar XML'}
+                                            </button>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                        <button type="button" onClick={reset} className="block w-full text-center text-sm font-medium text-blue-600 hover:text-blue-500 dark:text-blue-400">
+                            Consultar otra factura
+                        </button>
+                    </div>
+                ) : (
+                    <>
+                        <div className="grid grid-cols-2 gap-2 p-1 bg-gray-100 dark:bg-dark-700 rounded-lg">
+                            {([['reference', 'Con mi factura'], ['code', 'Código por email']] as [AccessMode, string][]).map(([value, label]) => (
+                                <button
+                                    key={value}
+                                    type="button"
+                                    onClick={() => switchMode(value)}
+                                    className={`py-2 text-sm font-bold rounded-md transition-all ${mode === value ? 'bg-white dark:bg-dark-600 text-blue-600 shadow' : 'text-gray-500'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+
+                        <form
+                            className="space-y-4"
+                            onSubmit={mode === 'reference' ? handleLookup : codeSent ? handleVerifyCode : handleRequestCode}
+                        >
+                            <input
+                                type="text"
+                                required
+                                className={inputClasses}
+                                placeholder="Cédula o RUC"
+                                value={identification}
+                                onChange={(e) => setIdentification(e.target.value)}
+                            />
+
+                            {mode === 'reference' && (
+                                <input
+                                    type="text"
+                                    required
+                                    className={inputClasses}
+                                    placeholder="Clave de acceso o número de factura (001-001-000000123)"
+                                    value={reference}
+                                    onChange={(e) => setReference(e.target.value)}
+                                />
+                            )}
+
+                            {mode === 'code' && !codeSent && (
+                                <input
+                                    type="email"
+                                    required
+                                    className={inputClasses}
+                                    placeholder="Email con el que recibes tus facturas"
+                                    value={email}
+                                    onChange={(e) => setEmail(e.target.value)}
+                                />
+                            )}
+
+                            {mode === 'code' && codeSent && (
+                                <>
+                                    <p className="text-sm text-green-700 bg-green-50 rounded-lg p-3 dark:bg-green-900/20 dark:text-green-300">{codeSent}</p>
+                                    <input
+                                        type="text"
+                                        inputMode="numeric"
+                                        required
+                                        maxLength={6}
+                                        className={inputClasses}
+                                        placeholder="Código de 6 dígitos"
+                                        value={code}
+                                        onChange={(e) => setCode(e.target.value)}
+                                    />
+                                </>
+                            )}
+
+                            {error && (
+                                <div className="p-3 text-sm text-red-600 bg-red-50 rounded-lg dark:bg-red-900/20 dark:text-red-300 border border-red-100 dark:border-red-800/50">
+                                    {error}
+                                </div>
+                            )}
+
+                            <button type="submit" disabled={isLoading} className={buttonClasses}>
+                                {isLoading
+                                    ? 'Consultando...'
+                                    : mode === 'reference' ? 'Buscar factura' : codeSent ? 'Ver mis facturas' : 'Enviar código'}
+                            </button>
+                        </form>
+                    </>
+                )}
+
+                <div className="text-center">
+                    <Link to="/" className="text-sm font-medium text-blue-600 hover:text-blue-500 dark:text-blue-400">
+                        Volver al menú
+                    </Link>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default InvoicePortal;
@@ -6,6 +6,7 @@
  */
 
 import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
 import { menuService } from '../modules/menu/services/MenuService';
 import { MenuItem } from '../modules/menu/types/menu.types';
 import { Category } from '../modules/categories/types/category.types';
@@ -561,6 +562,11 @@ const MenuPage: React.FC = () => {
                                 <li className="flex items-center gap-2 hover:text-white transition-colors cursor-pointer">
                                     <span style={{ color: '#FFB74D' }}>📅</span> Reservaciones
                                 </li>
+                                <li>
+                                    <Link to="/facturas" className="flex items-center gap-2 hover:text-white transition-colors">
+                                        <span style={{ color: '#FFB74D' }}>🧾</span> Descarga tu factura
+                                    </Link>
+                                </li>
                             </ul>
                         </div>
 
@@ -10,6 +10,22 @@ export interface DashboardStats {
     salesByCategory: { category: string; total: number }[];
     activityByHour: { hour: number; count: number }[];
     salesByBillingType: { type: string; total: number }[];
+    /** Pedidos cancelados del rango (no suman a las ventas) */
+    cancellations?: { count: number; lostRevenue: number; byReason: { reason: string; count: number }[] };
+    /** Descuentos otorgados (montos con IVA), por motivo y por quien los autorizó */
+    discounts?: {
+        count: number;
+        total: number;
+        byReason: { reason: string; count: number; total: number }[];
+        byEmployee: { employee: string; count: number; total: number }[];
+    };
+    /** Propinas y cargo por servicio facturados (no pagan IVA), por día y por empleado */
+    tips?: {
+        count: number;
+        total: number;
+        byDay: { date: string; count: number; total: number }[];
+        byEmployee: { employee: string; count: number; total: number }[];
+    };
 }
 
 export const analyticsService = {
@@ -9,6 +9,7 @@
  * 
  * @connections
  * - Usa: api.ts (ApiService)
+ * - Usa: offlineOrderQueue (pedidos guardados sin conexión)
  * - Usa: DataFactory (services/factories)
  * - Usa: logger (utils/logger)
  * - Usado por: Componentes y Contexts
@@ -25,6 +26,7 @@ import { Bill } from '../modules/billing/types/billing.types';
 import { Order } from '../modules/orders/types/order.types';
 import { MenuItem } from '../modules/menu/types/menu.types';
 import { orderService } from '../modules/orders/services/OrderService';
+import { offlineOrderQueue } from '../modules/orders/services/offlineOrderQueue';
 import { menuService } from '../modules/menu/services/MenuService';
 import { Employee, Role } from '../modules/hr/types/hr.types';
 
@@ -187,12 +189,13 @@ export class DataService {
     }
 
     /**
-     * Crea una nueva orden
+     * Crea una nueva orden.
+     * Sin conexión queda en la cola local y vuelve con syncState 'pending'.
      */
-    public async createOrder(order: Order): Promise<Order> {
+    public async createOrder(order: Partial<Order>): Promise<Order> {
         try {
             logger.info('Creating order', { customerName: order.customerName });
-            const created = await orderService.create(order);
+            const created = await offlineOrderQueue.create(order);
             this.clearCache();
             return created;
         } catch (error) {
@@ -202,12 +205,13 @@ export class DataService {
     }
 
     /**
-     * Actualiza una orden
+     * Actualiza una orden.
+     * Sin conexión la edición queda en cola sobre la versión baseUpdatedAt del pedido.
      */
-    public async updateOrder(id: string, updates: Partial<Order>): Promise<Order> {
+    public async updateOrder(id: string, updates: Partial<Order>, baseUpdatedAt?: string | null): Promise<Order> {
         try {
             logger.info('Updating order', { id, updates });
-            const updated = await orderService.update(id, updates);
+            const updated = await offlineOrderQueue.update(id, updates, baseUpdatedAt);
             this.clearCache();
             return updated;
         } catch (error) {
@@ -6,11 +6,13 @@
  */
 
 import type { Dispatch, SetStateAction } from 'react';
+import type { TaxRatePeriod } from './modules/billing/utils/taxRates';
+import type { PrintLayout } from './modules/billing/utils/printLayout';
 
 /**
  * Tipo para vistas de la aplicación
  */
-export type ViewType = 'dashboard' | 'orders' | 'customers' | 'menu' | 'categories' | 'kitchen' | 'hr' | 'settings' | 'billing' | 'whatsapp' | 'website';
+export type ViewType = 'dashboard' | 'orders' | 'customers' | 'menu' | 'categories' | 'kitchen' | 'hr' | 'settings' | 'billing' | 'cash' | 'inventory' | 'whatsapp' | 'website';
 
 /**
  * Tipo helper para setState de React
@@ -71,6 +73,9 @@ export interface RestaurantConfig {
     currentSequenceNotaVenta: number;
     // Impuestos
     taxRate?: number; // Porcentaje (e.g., 15 for 15%)
+    taxSchedule?: TaxRatePeriod[]; // Tarifas con fecha de vigencia: la factura usa la del día de emisión
+    serviceChargeRate?: number; // Cargo por servicio (%) sugerido en pedidos del local; 0 = no se cobra
+    printLayout?: PrintLayout; // Plantilla del RIDE: A4 o ticket 58/80 mm, logo, QR y pie propio
     environment?: '1' | '2'; // 1: Pruebas, 2: Producción
   };
 
@@ -86,6 +91,21 @@ export interface RestaurantConfig {
 
   // Configuración del Sitio Web Público (CMS)
   website?: WebsiteConfig;
+
+  // Estaciones de cocina (parrilla, freidora, fríos, bar...)
+  kitchenStations?: KitchenStation[];
+
+  // Inventario: las recetas se descuentan al crear el pedido o al completarlo
+  inventoryDeductOn?: 'created' | 'completed';
+}
+
+/**
+ * Estación de preparación de la cocina. Los platos se asignan a una
+ * (por categoría o por plato) y cada estación despacha solo lo suyo.
+ */
+export interface KitchenStation {
+  id: string;   // Slug estable (ej. "grill"), se guarda en los ítems del pedido
+  name: string; // Ej. "Parrilla"
 }
 
 /**
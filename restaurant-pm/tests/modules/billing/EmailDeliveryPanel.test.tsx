@@ -0,0 +1,86 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import EmailDeliveryPanel from '@/modules/billing/components/EmailDeliveryPanel';
+
+vi.mock('../../../src/modules/billing/services/BillingService', () => ({
+    billingService: {
+        getAll: vi.fn(),
+        getCreditNotes: vi.fn(),
+        resendEmails: vi.fn()
+    }
+}));
+
+vi.mock('../../../src/components/ui/AlertProvider', () => ({
+    toast: {
+        success: vi.fn(),
+        warning: vi.fn(),
+        error: vi.fn()
+    }
+}));
+
+import { billingService } from '../../../src/modules/billing/services/BillingService';
+import { toast } from '../../../src/components/ui/AlertProvider';
+
+const bills = [
+    {
+        id: 'b1', documentNumber: '001-001-000000123', date: '2026-10-18', customerName: 'Ana Pérez',
+        customerIdentification: '1712345678', customerEmail: 'ana@corro.ec', sriStatus: 'AUTORIZADO',
+        emailDelivery: { status: 'BOUNCED', to: 'ana@corro.ec', provider: 'resend', error: 'Mailbox does not exist', attempts: 1, lastAttemptAt: '2026-10-18T10:00:00.000Z', bouncedAt: '2026-10-18T10:05:00.000Z' }
+    },
+    {
+        id: 'b2', documentNumber: '001-001-000000124', date: '2026-10-18', customerName: 'Luis Mora',
+        customerIdentification: '0912345678', customerEmail: 'luis@correo.ec', sriStatus: 'PENDING_RETRY'
+    }
+];
+
+describe('EmailDeliveryPanel', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        (billingService.getAll as any).mockResolvedValue({ data: bills, pagination: { page: 1, totalPages: 1 } });
+        (billingService.getCreditNotes as any).mockResolvedValue({ data: [], pagination: { page: 1, totalPages: 1 } });
+    });
+
+    it('filtra por estado de entrega y por tipo de documento', async () => {
+        render(<EmailDeliveryPanel />);
+
+        expect(await screen.findByText('Rebotado')).toBeDefined();
+        expect(screen.getByText('Mailbox does not exist')).toBeDefined();
+        expect(screen.getByText('Sin envío')).toBeDefined();
+
+        fireEvent.change(screen.getByLabelText('Estado del email'), { target: { value: 'BOUNCED' } });
+        await waitFor(() => {
+            expect(billingService.getAll).toHaveBeenLastCalledWith(expect.objectContaining({ emailStatus: 'BOUNCED', page: 1 }));
+        });
+
+        fireEvent.click(screen.getByRole('button', { name: 'Notas de crédito' }));
+        await waitFor(() => {
+            expect(billingService.getCreditNotes).toHaveBeenCalledWith(expect.objectContaining({ emailStatus: 'BOUNCED' }));
+        });
+        expect(await screen.findByText('No hay documentos con ese estado de envío')).toBeDefined();
+    });
+
+    it('reenvía solo documentos autorizados seleccionados al email corregido', async () => {
+        (billingService.resendEmails as any).mockResolvedValue({
+            results: [{ type: 'bill', id: 'b1', status: 'SENT', to: 'ana@correo.ec' }], sent: 1, failed: 0
+        });
+
+        render(<EmailDeliveryPanel />);
+        await screen.findByText('001-001-000000123');
+
+        expect((screen.getByLabelText('Seleccionar 001-001-000000124') as HTMLInputElement).disabled).toBe(true);
+        const resendButton = screen.getByRole('button', { name: /Reenviar seleccionados/ }) as HTMLButtonElement;
+        expect(resendButton.disabled).toBe(true);
+
+        fireEvent.click(screen.getByLabelText('Seleccionar todos'));
+        fireEvent.change(screen.getByPlaceholderText('Email corregido (opcional)'), { target: { value: 'ana@correo.ec' } });
+        fireEvent.click(screen.getByRole('button', { name: 'Reenviar seleccionados (1)' }));
+
+        await waitFor(() => {
+            expect(billingService.resendEmails).toHaveBeenCalledWith([{ type: 'bill', id: 'b1' }], 'ana@correo.ec');
+        });
+        await waitFor(() => {
+            expect(toast.success).toHaveBeenCalledWith('1 documento(s) reenviado(s)');
+        });
+        expect(billingService.getAll).toHaveBeenCalledTimes(2);
+    });
+});
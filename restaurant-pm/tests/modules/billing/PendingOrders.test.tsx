@@ -0,0 +1,120 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import PendingOrders from '@/modules/billing/components/PendingOrders';
+
+vi.mock('../../../src/modules/orders/services/OrderService', () => ({
+    orderService: {
+        getAll: vi.fn()
+    }
+}));
+
+vi.mock('../../../src/modules/billing/services/BillingService', () => ({
+    billingService: {
+        generateConsolidated: vi.fn()
+    }
+}));
+
+vi.mock('../../../src/contexts/RestaurantConfigContext', () => ({
+    useRestaurantConfig: () => ({ config: { billing: { taxRate: 15 }, logo: 'logo.png' } })
+}));
+
+vi.mock('../../../src/api', () => ({
+    api: { customers: { lookupByIdentification: vi.fn() } }
+}));
+
+vi.mock('../../../src/components/ui/AlertProvider', () => ({
+    toast: {
+        success: vi.fn(),
+        warning: vi.fn(),
+        error: vi.fn()
+    }
+}));
+
+// El modal de cobro real se prueba aparte: aquí solo interesa lo que recibe
+vi.mock('../../../src/modules/orders/components/BillingModal', () => ({
+    BillingModal: ({ billingOrder, billingData, setBillingData, onProcess }: any) => (
+        <div>
+            <ul>
+                {billingOrder.items.map((i: any) => <li key={i.name}>{`${i.name} x${i.quantity}`}</li>)}
+            </ul>
+            <button onClick={() => setBillingData({ ...billingData, identification: '1790012345001' })}>Usar RUC</button>
+            <button onClick={onProcess}>Procesar</button>
+        </div>
+    )
+}));
+
+import { orderService } from '../../../src/modules/orders/services/OrderService';
+import { billingService } from '../../../src/modules/billing/services/BillingService';
+import { toast } from '../../../src/components/ui/AlertProvider';
+
+const orders = [
+    {
+        id: 'o1', orderNumber: '12', customerName: 'Constructora Andes', type: 'Para Llevar', status: 'Completado',
+        createdAt: '2026-10-13T12:00:00.000Z', items: [{ name: 'Almuerzo', quantity: 10, price: 3.5, taxRate: 15 }]
+    },
+    {
+        id: 'o2', orderNumber: '15', customerName: 'CONSTRUCTORA ANDES', type: 'Para Llevar', status: 'Entregado',
+        createdAt: '2026-10-14T12:00:00.000Z', items: [{ name: 'Almuerzo', quantity: 8, price: 3.5, taxRate: 15 }]
+    },
+    {
+        id: 'o3', orderNumber: '16', customerName: 'Mesa 4', type: 'En Local', status: 'Listo',
+        createdAt: '2026-10-14T13:00:00.000Z', items: [{ name: 'Ceviche', quantity: 1, price: 9, taxRate: 15 }]
+    }
+];
+
+describe('PendingOrders', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        (orderService.getAll as any).mockResolvedValue({ data: { data: orders, pagination: { total: 3 } } });
+        (billingService.generateConsolidated as any).mockResolvedValue({
+            success: true, invoiceNumber: '001-001-000000040', authorization: { estado: 'AUTORIZADO' }
+        });
+    });
+
+    it('solo permite elegir pedidos sin facturar del mismo cliente', async () => {
+        render(<PendingOrders />);
+        await screen.findByText('Mesa 4');
+
+        expect(orderService.getAll).toHaveBeenCalledWith(expect.objectContaining({ billed: false }));
+        const invoiceButton = screen.getByRole('button', { name: /Facturar seleccionados/ }) as HTMLButtonElement;
+        expect(invoiceButton.disabled).toBe(true);
+
+        fireEvent.click(screen.getByLabelText('Seleccionar Pedido #12'));
+        expect((screen.getByLabelText('Seleccionar Pedido #16') as HTMLInputElement).disabled).toBe(true);
+        expect((screen.getByLabelText('Seleccionar Pedido #15') as HTMLInputElement).disabled).toBe(false);
+        expect(invoiceButton.disabled).toBe(true);
+
+        fireEvent.click(screen.getByLabelText('Seleccionar Pedido #15'));
+        expect(screen.getByText('2 pedido(s) · $63.00')).toBeDefined();
+        expect(invoiceButton.disabled).toBe(false);
+    });
+
+    it('emite una sola factura por todos los pedidos seleccionados', async () => {
+        const onInvoiced = vi.fn();
+        render(<PendingOrders onInvoiced={onInvoiced} />);
+        await screen.findByText('Mesa 4');
+
+        fireEvent.click(screen.getByLabelText('Seleccionar Pedido #12'));
+        fireEvent.click(screen.getByLabelText('Seleccionar Pedido #15'));
+        fireEvent.click(screen.getByRole('button', { name: 'Facturar seleccionados (2)' }));
+
+        // Las líneas iguales se resumen en una sola
+        expect(screen.getByText('Almuerzo x18')).toBeDefined();
+
+        fireEvent.click(screen.getByText('Usar RUC'));
+        fireEvent.click(screen.getByText('Procesar'));
+
+        await waitFor(() => {
+            expect(billingService.generateConsolidated).toHaveBeenCalledWith(expect.objectContaining({
+                orderIds: ['o1', 'o2'],
+                client: expect.objectContaining({ identification: '1790012345001', name: 'Constructora Andes' }),
+                logoUrl: 'logo.png'
+            }));
+        });
+        await waitFor(() => {
+            expect(toast.success).toHaveBeenCalledWith('Factura 001-001-000000040 autorizada por 2 pedidos');
+        });
+        expect(onInvoiced).toHaveBeenCalled();
+        expect(orderService.getAll).toHaveBeenCalledTimes(2);
+    });
+});
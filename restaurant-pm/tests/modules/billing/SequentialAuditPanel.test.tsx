@@ -0,0 +1,109 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import SequentialAuditPanel from '@/modules/billing/components/SequentialAuditPanel';
+
+vi.mock('../../../src/modules/billing/services/BillingService', () => ({
+    billingService: {
+        getSequentialAudit: vi.fn(),
+        repairSequential: vi.fn()
+    }
+}));
+
+vi.mock('../../../src/components/ui/AlertProvider', () => ({
+    toast: {
+        success: vi.fn(),
+        error: vi.fn()
+    }
+}));
+
+import { billingService } from '../../../src/modules/billing/services/BillingService';
+import { toast } from '../../../src/components/ui/AlertProvider';
+
+const syncRepair = {
+    action: 'sync-counter' as const,
+    label: 'Subir el contador currentSequenceFactura de 5 a 8',
+    seriesKey: 'factura:2:001-001',
+    documentType: 'factura' as const,
+    environment: '2' as const
+};
+
+const series = (overrides: any = {}) => ({
+    key: 'factura:2:001-001',
+    documentType: 'factura',
+    environment: '2',
+    establishment: '001',
+    emissionPoint: '001',
+    status: 'FAIL',
+    documentCount: 5,
+    first: 1,
+    last: 7,
+    gaps: [{ from: 3, to: 5, count: 3, acknowledged: false }],
+    missingCount: 3,
+    duplicates: [],
+    counter: { field: 'currentSequenceFactura', counter: 5, maxIssued: 7, status: 'BEHIND', nextNumber: '001-001-000000006', suggestedValue: 8 },
+    repairs: [syncRepair],
+    ...overrides
+});
+
+const report = (seriesList: any[]) => ({
+    generatedAt: '2026-10-19T15:00:00.000Z',
+    activeEnvironment: '2',
+    establishment: '001',
+    emissionPoint: '001',
+    series: seriesList,
+    unclassified: [],
+    summary: { series: seriesList.length, failing: 1, warnings: 0, missing: 3, duplicates: 0, unclassified: 0 },
+    history: []
+});
+
+describe('SequentialAuditPanel', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('muestra huecos y contador atrasado, y aplica la reparación con motivo', async () => {
+        (billingService.getSequentialAudit as any).mockResolvedValue(report([series()]));
+        (billingService.repairSequential as any).mockResolvedValue({
+            action: 'sync-counter',
+            seriesKey: 'factura:2:001-001',
+            before: null,
+            after: {},
+            report: report([series({ status: 'WARN', counter: { ...series().counter, counter: 8, status: 'OK' }, repairs: [] })])
+        });
+
+        render(<SequentialAuditPanel />);
+
+        await waitFor(() => {
+            expect(screen.getByText('Faltan del 3 al 5 (3)')).toBeDefined();
+        });
+        expect(screen.getByText(/Atrasado: repetiría números ya emitidos/)).toBeDefined();
+
+        fireEvent.click(screen.getByRole('button', { name: /Subir el contador/ }));
+        const apply = screen.getByRole('button', { name: 'Aplicar reparación' }) as HTMLButtonElement;
+        expect(apply.disabled).toBe(true);
+
+        fireEvent.change(screen.getByPlaceholderText(/Motivo/), { target: { value: 'Contador atrasado tras la migración' } });
+        fireEvent.click(apply);
+
+        await waitFor(() => {
+            expect(toast.success).toHaveBeenCalledWith('Reparación aplicada y registrada en el log de auditoría');
+        });
+        expect(billingService.repairSequential).toHaveBeenCalledWith(syncRepair, 'Contador atrasado tras la migración');
+        expect(screen.getByText(/Al día/)).toBeDefined();
+        expect(screen.queryByRole('button', { name: /Subir el contador/ })).toBeNull();
+    });
+
+    it('avisa cuando la reparación ya no aplica', async () => {
+        (billingService.getSequentialAudit as any).mockResolvedValue(report([series()]));
+        (billingService.repairSequential as any).mockRejectedValue(new Error('Esta reparación ya no aplica a la serie. Vuelva a ejecutar la auditoría.'));
+
+        render(<SequentialAuditPanel />);
+        fireEvent.click(await screen.findByRole('button', { name: /Subir el contador/ }));
+        fireEvent.change(screen.getByPlaceholderText(/Motivo/), { target: { value: 'Contador atrasado' } });
+        fireEvent.click(screen.getByRole('button', { name: 'Aplicar reparación' }));
+
+        await waitFor(() => {
+            expect(toast.error).toHaveBeenCalledWith('Esta reparación ya no aplica a la serie. Vuelva a ejecutar la auditoría.');
+        });
+    });
+});
@@ -0,0 +1,87 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { XMLViewerModal } from '@/modules/billing/components/XMLViewerModal';
+
+vi.mock('../../../src/modules/billing/services/BillingService', () => ({
+    billingService: {
+        verifyBillSignature: vi.fn(),
+        verifyDocumentXml: vi.fn()
+    }
+}));
+
+vi.mock('../../../src/components/ui/AlertProvider', () => ({
+    toast: {
+        success: vi.fn(),
+        error: vi.fn()
+    }
+}));
+
+import { billingService } from '../../../src/modules/billing/services/BillingService';
+import { toast } from '../../../src/components/ui/AlertProvider';
+
+describe('XMLViewerModal', () => {
+    const xml = '<factura id="comprobante"><infoTributaria><ruc>1712345678001</ruc></infoTributaria></factura>';
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('muestra el reporte de verificación del XML guardado', async () => {
+        (billingService.verifyBillSignature as any).mockResolvedValue({
+            verdict: 'INVALID',
+            valid: false,
+            documentType: 'factura',
+            documentNumber: '001-001-000000101',
+            signingTime: '2026-10-19T10:00:00-05:00',
+            signer: { subject: 'CN=PICANTERIA MIRAFLORES', issuer: 'CN=AC', serialNumber: '01', validFrom: '', validTo: '' },
+            checks: [
+                { id: 'document-digest', label: 'Integridad del comprobante', status: 'FAIL', detail: 'El contenido del comprobante fue modificado después de firmarlo' },
+                { id: 'certificate-chain', label: 'Cadena de certificación', status: 'WARN', detail: 'No hay CAs de confianza configuradas' },
+                { id: 'access-key', label: 'Clave de acceso', status: 'OK', detail: 'Dígito verificador módulo 11 correcto' }
+            ]
+        });
+
+        render(<XMLViewerModal isOpen={true} onClose={vi.fn()} xmlContent={xml} documentNumber="001-001-000000101" billId="bill-1" />);
+        fireEvent.click(screen.getByRole('button', { name: /Verificar firma/i }));
+
+        await waitFor(() => {
+            expect(screen.getByText('El comprobante no superó la verificación')).toBeDefined();
+        });
+        expect(billingService.verifyBillSignature).toHaveBeenCalledWith('bill-1');
+        expect(screen.getByText(/modificado después de firmarlo/)).toBeDefined();
+        expect(screen.getByText('CN=PICANTERIA MIRAFLORES')).toBeDefined();
+    });
+
+    it('sin CAs de confianza muestra el comprobante como sin verificar, no como válido', async () => {
+        (billingService.verifyBillSignature as any).mockResolvedValue({
+            verdict: 'NOT_VERIFIED',
+            valid: false,
+            documentType: 'factura',
+            checks: [
+                { id: 'document-digest', label: 'Integridad del comprobante', status: 'OK', detail: 'Digest SHA1 coincide' },
+                { id: 'certificate-chain', label: 'Cadena de certificación', status: 'NOT_VERIFIED', detail: 'No hay CAs de confianza configuradas' }
+            ]
+        });
+
+        render(<XMLViewerModal isOpen={true} onClose={vi.fn()} xmlContent={xml} billId="bill-1" />);
+        fireEvent.click(screen.getByRole('button', { name: /Verificar firma/i }));
+
+        await waitFor(() => {
+            expect(screen.getByText('Comprobante sin verificar')).toBeDefined();
+        });
+        expect(screen.queryByText('Firma y comprobante válidos')).toBeNull();
+    });
+
+    it('no ofrece verificar el XML guardado sin factura y avisa los errores', async () => {
+        const { rerender } = render(<XMLViewerModal isOpen={true} onClose={vi.fn()} xmlContent={xml} />);
+        expect(screen.queryByRole('button', { name: /Verificar firma/i })).toBeNull();
+
+        (billingService.verifyBillSignature as any).mockRejectedValue(new Error('Esta factura no tiene un XML firmado guardado'));
+        rerender(<XMLViewerModal isOpen={true} onClose={vi.fn()} xmlContent={xml} billId="bill-2" />);
+        fireEvent.click(screen.getByRole('button', { name: /Verificar firma/i }));
+
+        await waitFor(() => {
+            expect(toast.error).toHaveBeenCalledWith('Esta factura no tiene un XML firmado guardado');
+        });
+    });
+});
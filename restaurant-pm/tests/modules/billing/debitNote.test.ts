@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { summarizeDebitNoteItems, debitNoteIssues, canIssueDebitNote } from '@/modules/billing/utils/debitNote';
+
+describe('debitNote', () => {
+    it('adds VAT on top of each charge, rounding per line', () => {
+        const totals = summarizeDebitNoteItems([
+            { reason: '01', amount: 12.5, taxRate: 15 },
+            { reason: '04', description: 'Vajilla rota', amount: 8, taxRate: 0 }
+        ]);
+
+        expect(totals).toEqual({ subtotal: 20.5, tax: 1.88, total: 22.38 });
+    });
+
+    it('requires a detail for "Otros cargos" and positive amounts', () => {
+        const issues = debitNoteIssues({
+            billId: 'bill1',
+            items: [
+                { reason: '04', description: '  ', amount: 5, taxRate: 15 },
+                { reason: '02', amount: 0, taxRate: 15 }
+            ],
+            paymentMethod: '01'
+        });
+
+        expect(issues).toEqual([
+            'Cargo 1: describa el cargo',
+            'Cargo 2: el valor debe ser mayor a cero'
+        ]);
+    });
+
+    it('only applies to authorized invoices of identified customers', () => {
+        expect(canIssueDebitNote({ sriStatus: 'AUTORIZADO', customerIdentification: '1391234567001' })).toBe(true);
+        expect(canIssueDebitNote({ sriStatus: 'DEVUELTA', customerIdentification: '1391234567001' })).toBe(false);
+        expect(canIssueDebitNote({ sriStatus: 'AUTORIZADO', customerIdentification: '9999999999999' })).toBe(false);
+    });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { summarizePayments, getPaymentEntries } from '@/modules/billing/utils/payments';
+
+describe('payments', () => {
+    it('charges the whole total with the single default payment', () => {
+        const summary = summarizePayments(getPaymentEntries(undefined, '19'), 24.5);
+
+        expect(summary.issues).toEqual([]);
+        expect(summary.payments).toEqual([{ method: '19', amount: 24.5, term: 0 }]);
+        expect(summary.change).toBe(0);
+    });
+
+    it('splits card and cash and returns the change for the cash handed over', () => {
+        const summary = summarizePayments([
+            { method: '19', amount: 15 },
+            { method: '01', amount: 20 }
+        ], 24.5);
+
+        expect(summary.issues).toEqual([]);
+        expect(summary.payments).toEqual([
+            { method: '19', amount: 15, term: 0 },
+            { method: '01', amount: 9.5, term: 0, received: 20 }
+        ]);
+        expect(summary.change).toBe(10.5);
+    });
+
+    it('lets a payment without amount cover the remaining balance', () => {
+        const summary = summarizePayments([
+            { method: '01', amount: 10 },
+            { method: '16', amount: null }
+        ], 24.5);
+
+        expect(summary.payments).toEqual([
+            { method: '16', amount: 14.5, term: 0 },
+            { method: '01', amount: 10, term: 0, received: 10 }
+        ]);
+        expect(summary.issues).toEqual([]);
+    });
+
+    it('reports what is missing and card payments above the total', () => {
+        expect(summarizePayments([{ method: '01', amount: 20 }], 24.5).issues).toEqual(['Falta cubrir $4.50']);
+        expect(summarizePayments([{ method: '19', amount: 30 }], 24.5).issues)
+            .toContain('Los pagos con tarjeta o transferencia superan el total');
+    });
+});
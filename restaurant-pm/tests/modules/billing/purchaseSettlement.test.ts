@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { summarizePurchaseItems, purchaseSettlementIssues } from '@/modules/billing/utils/purchaseSettlement';
+
+describe('purchaseSettlement', () => {
+    it('adds VAT on top of supplier prices, rounding per line', () => {
+        const totals = summarizePurchaseItems([
+            { description: 'Concha negra (ciento)', quantity: 2, unitPrice: 18.5, taxRate: 0 },
+            { description: 'Camarón', quantity: 3, unitPrice: 4.25, taxRate: 15 }
+        ]);
+
+        expect(totals).toEqual({ subtotal: 49.75, tax: 1.91, total: 51.66 });
+    });
+
+    it('requires an identified supplier and complete lines', () => {
+        const issues = purchaseSettlementIssues({
+            supplier: { name: 'Pedro', identification: '9999999999999', address: '' },
+            items: [{ description: '', quantity: 1, unitPrice: 0, taxRate: 0 }],
+            paymentMethod: '01'
+        });
+
+        expect(issues).toEqual([
+            'El proveedor debe identificarse con cédula, RUC o pasaporte',
+            'Ingrese la dirección del proveedor',
+            'Línea 1: falta la descripción',
+            'Línea 1: el precio debe ser mayor a cero'
+        ]);
+    });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { ApiRequestError } from '@/api';
+import { getSchemaErrors, SRI_XSD_INVALID } from '@/modules/billing/utils/sriSchema';
+
+describe('sriSchema', () => {
+    const violation = {
+        path: '/factura/infoFactura/razonSocialComprador',
+        field: 'razonSocialComprador',
+        message: 'Excede 300 caracteres (tiene 301)'
+    };
+
+    it('returns the field errors of an XSD rejection', () => {
+        const error = new ApiRequestError('El comprobante no cumple el esquema XSD del SRI', SRI_XSD_INVALID, { errors: [violation] });
+
+        expect(getSchemaErrors(error)).toEqual([violation]);
+    });
+
+    it('ignores any other failure', () => {
+        expect(getSchemaErrors(new ApiRequestError('SRI no disponible', 'SRI_ERROR', { errors: [violation] }))).toEqual([]);
+        expect(getSchemaErrors(new ApiRequestError('Esquema', SRI_XSD_INVALID))).toEqual([]);
+        expect(getSchemaErrors(new Error('Failed to fetch'))).toEqual([]);
+        expect(getSchemaErrors(undefined)).toEqual([]);
+    });
+});
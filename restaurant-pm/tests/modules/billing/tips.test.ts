@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { chargeWithTip, defaultTip, taxBase } from '@/modules/billing/utils/tips';
+
+describe('tips', () => {
+    it('charges the service charge on the base without IVA, rounded per rate like the invoice', () => {
+        const lines = [
+            { total: 23, taxRate: 15 },
+            { total: 1, taxRate: 0 }
+        ];
+
+        expect(taxBase(lines)).toBe(21);
+        expect(chargeWithTip(lines, { type: 'SERVICE_CHARGE', value: 10 })).toEqual({ sales: 24, tip: 2.1, total: 26.1 });
+    });
+
+    it('adds a fixed tip as is and ignores empty or negative ones', () => {
+        const lines = [{ total: 11.5, taxRate: 15 }];
+
+        expect(chargeWithTip(lines, { type: 'AMOUNT', value: 1.5 })).toEqual({ sales: 11.5, tip: 1.5, total: 13 });
+        expect(chargeWithTip(lines, { type: 'AMOUNT', value: -2 }).total).toBe(11.5);
+        expect(chargeWithTip(lines, null).total).toBe(11.5);
+    });
+
+    it('suggests the configured service charge only for dine-in orders', () => {
+        expect(defaultTip('En Local', 10)).toEqual({ type: 'SERVICE_CHARGE', value: 10 });
+        expect(defaultTip('Para Llevar', 10)).toBeNull();
+        expect(defaultTip('En Local', 0)).toBeNull();
+    });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { netCollectable, withholdingIssues, withholdingLineAmount, canRegisterWithholding } from '@/modules/billing/utils/withholding';
+
+describe('withholding', () => {
+    const bill = { tax: 30, total: 230, withheldIva: 3, withheldRenta: 4 };
+
+    it('subtracts the withheld IVA and renta from the invoice total', () => {
+        expect(netCollectable(bill)).toBe(223);
+        expect(netCollectable({ total: 230 })).toBe(230);
+    });
+
+    it('computes the withheld amount as base times percentage', () => {
+        expect(withholdingLineAmount({ baseAmount: 200, percentage: 1.75 })).toBe(3.5);
+        expect(withholdingLineAmount({ baseAmount: 30, percentage: 30 })).toBe(9);
+    });
+
+    it('validates the manual entry against what the invoice still allows', () => {
+        const issues = withholdingIssues({
+            billId: 'bill1',
+            documentNumber: '2-1-45',
+            issueDate: '2026-10-04',
+            lines: [
+                { taxType: 'IVA', code: '', baseAmount: 30, percentage: 25, amount: 7.5 },
+                { taxType: 'IVA', code: '3', baseAmount: 30, percentage: 100, amount: 30 }
+            ]
+        }, bill);
+
+        expect(issues).toEqual([
+            'Número de retención con formato 001-001-000000001',
+            'Línea 1: porcentaje de retención de IVA no válido',
+            'El IVA retenido supera el IVA de la factura ($30.00)'
+        ]);
+    });
+
+    it('only applies to authorized invoices of identified customers', () => {
+        expect(canRegisterWithholding({ sriStatus: 'AUTORIZADO', customerIdentification: '1391234567001' })).toBe(true);
+        expect(canRegisterWithholding({ sriStatus: 'DEVUELTA', customerIdentification: '1391234567001' })).toBe(false);
+        expect(canRegisterWithholding({ sriStatus: 'AUTORIZADO', customerIdentification: '9999999999999' })).toBe(false);
+    });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { countCash, getCashBalance, DENOMINATIONS, denominationKey } from '@/modules/cash/utils/cashCount';
+
+describe('cashCount', () => {
+    it('adds bills and coins in cents without floating point drift', () => {
+        expect(countCash({ 'bill-20': 3, 'bill-1': 2, 'coin-1': 1, 'coin-0.1': 3, 'coin-0.05': 1, 'coin-0.01': 4 })).toBe(63.39);
+        expect(countCash({ 'coin-0.1': 3 })).toBe(0.3);
+    });
+
+    it('ignores negative, fractional and empty counts', () => {
+        expect(countCash({ 'bill-5': -2, 'bill-10': 1.7, 'coin-0.25': NaN })).toBe(10);
+        expect(countCash({})).toBe(0);
+    });
+
+    it('keeps the dollar bill and dollar coin as separate keys', () => {
+        const keys = DENOMINATIONS.map(denominationKey);
+        expect(new Set(keys).size).toBe(keys.length);
+    });
+
+    it('reports over, short and exact balances', () => {
+        expect(getCashBalance(77, 77)).toEqual({ difference: 0, status: 'exact', label: 'Caja cuadrada' });
+        expect(getCashBalance(78.1, 77)).toMatchObject({ difference: 1.1, status: 'over', label: 'Sobrante $1.10' });
+        expect(getCashBalance(76, 77.3)).toMatchObject({ difference: -1.3, status: 'short', label: 'Faltante $1.30' });
+    });
+});
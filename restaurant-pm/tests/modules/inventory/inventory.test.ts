@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { formatQuantity, recipeCost, sortByStockStatus } from '@/modules/inventory/utils/inventory';
+
+describe('inventory', () => {
+    it('formats quantities with up to three decimals', () => {
+        expect(formatQuantity(0.25, 'kg')).toBe('0.25 kg');
+        expect(formatQuantity(12, 'unidad')).toBe('12 unidad');
+        expect(formatQuantity(-0.1 - 0.2, 'l')).toBe('-0.3 l');
+    });
+
+    it('lists low stock ingredients first', () => {
+        const sorted = sortByStockStatus([
+            { name: 'Arroz', stock: 20, minStock: 2 },
+            { name: 'Limón', stock: 10, minStock: 0 },
+            { name: 'Chivo', stock: 1, minStock: 3 }
+        ]);
+
+        expect(sorted.map(i => i.name)).toEqual(['Chivo', 'Arroz', 'Limón']);
+    });
+
+    it('adds the ingredient cost of a portion and flags missing costs', () => {
+        const ingredients = [{ id: 'chivo', cost: 8.5 }, { id: 'arroz', cost: 1.2 }, { id: 'sal' }];
+
+        expect(recipeCost([{ ingredientId: 'chivo', quantity: 0.25 }, { ingredientId: 'arroz', quantity: 0.2 }], ingredients))
+            .toEqual({ cost: 2.37, complete: true });
+        expect(recipeCost([{ ingredientId: 'sal', quantity: 0.01 }], ingredients)).toEqual({ cost: 0, complete: false });
+    });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { Order, OrderStatus } from '@/modules/orders/types/order.types';
+import {
+    ALL_STATIONS,
+    GENERAL_STATION,
+    hasPendingForStation,
+    itemsForStation,
+    markStationItemsPrepared,
+    pendingCountByStation,
+    resolveStationFilter
+} from '@/modules/kitchen/utils/stations';
+
+const order: Order = {
+    id: 'order-1',
+    customerName: 'Mesa 2',
+    type: 'En Local',
+    status: OrderStatus.New,
+    createdAt: new Date().toISOString(),
+    items: [
+        { name: 'Churrasco', quantity: 1, price: 9, station: 'grill' },
+        { name: 'Limonada', quantity: 2, price: 2, station: 'bar', prepared: true },
+        { name: 'Pan', quantity: 1, price: 1 }
+    ]
+} as Order;
+
+const stations = [{ id: 'grill', name: 'Parrilla' }, { id: 'bar', name: 'Bar' }];
+
+describe('kitchen stations', () => {
+    it('shows each station only its items, keeping the original index', () => {
+        expect(itemsForStation(order.items, 'grill').map(({ index }) => index)).toEqual([0]);
+        expect(itemsForStation(order.items, GENERAL_STATION).map(({ item }) => item.name)).toEqual(['Pan']);
+        expect(itemsForStation(order.items, ALL_STATIONS)).toHaveLength(3);
+    });
+
+    it('hides orders where the station has nothing left', () => {
+        expect(hasPendingForStation(order, 'grill')).toBe(true);
+        expect(hasPendingForStation(order, 'bar')).toBe(false);
+        expect(pendingCountByStation([order])).toEqual({ grill: 1, [GENERAL_STATION]: 1 });
+    });
+
+    it('bumps only the items of the station', () => {
+        const items = markStationItemsPrepared(order.items, 'grill');
+        expect(items.map(i => !!i.prepared)).toEqual([true, true, false]);
+    });
+
+    it('falls back to all stations when the saved one was removed', () => {
+        expect(resolveStationFilter('grill', stations)).toBe('grill');
+        expect(resolveStationFilter('fryer', stations)).toBe(ALL_STATIONS);
+        expect(resolveStationFilter(GENERAL_STATION, stations)).toBe(GENERAL_STATION);
+        expect(resolveStationFilter(null, stations)).toBe(ALL_STATIONS);
+    });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { MenuItem } from '@/modules/menu/types/menu.types';
+import {
+    buildOrderModifiers,
+    defaultSelection,
+    describeModifiers,
+    getSelectionError,
+    modifiersKey,
+    priceWithModifiers,
+    toggleModifierOption
+} from '@/modules/menu/utils/modifiers';
+
+const ceviche: MenuItem = {
+    id: 'menu-1',
+    name: 'Ceviche',
+    description: '',
+    price: 10,
+    imageUrl: '',
+    category: 'Mariscos',
+    available: true,
+    taxRate: 15,
+    modifierGroups: [
+        {
+            id: 'size', name: 'Tamaño', type: 'size', minChoices: 1, maxChoices: 1,
+            options: [{ id: 'normal', name: 'Normal', priceDelta: 0 }, { id: 'grande', name: 'Grande', priceDelta: 3 }]
+        },
+        {
+            id: 'extras', name: 'Extras', type: 'extra', minChoices: 0, maxChoices: 2,
+            options: [{ id: 'chifles', name: 'Chifles', priceDelta: 1.5 }, { id: 'canguil', name: 'Canguil', priceDelta: 0.75 }, { id: 'maduro', name: 'Maduro', priceDelta: 1 }]
+        },
+        {
+            id: 'quitar', name: 'Quitar', type: 'removal', minChoices: 0, maxChoices: 3,
+            options: [{ id: 'cebolla', name: 'Cebolla', priceDelta: 0 }]
+        }
+    ]
+};
+
+describe('menu modifiers', () => {
+    it('preselects required single-choice groups and swaps like a radio', () => {
+        const selection = defaultSelection(ceviche);
+        expect(selection.size).toEqual(['normal']);
+        expect(getSelectionError(ceviche, selection)).toBeNull();
+
+        const sizeGroup = ceviche.modifierGroups![0];
+        expect(toggleModifierOption(selection, sizeGroup, 'grande').size).toEqual(['grande']);
+        expect(getSelectionError(ceviche, { ...selection, size: [] })).toBe('Elige tamaño');
+    });
+
+    it('stops adding options at the group maximum', () => {
+        const extras = ceviche.modifierGroups![1];
+        let selection = toggleModifierOption({}, extras, 'chifles');
+        selection = toggleModifierOption(selection, extras, 'canguil');
+        selection = toggleModifierOption(selection, extras, 'maduro');
+        expect(selection.extras).toEqual(['chifles', 'canguil']);
+    });
+
+    it('prices and describes the line with its modifiers', () => {
+        const modifiers = buildOrderModifiers(ceviche, { size: ['grande'], extras: ['chifles'], quitar: ['cebolla'] });
+        expect(priceWithModifiers(ceviche.price, modifiers)).toBe(14.5);
+        expect(describeModifiers(modifiers)).toBe('Grande, + Chifles, sin cebolla');
+    });
+
+    it('builds the same line key regardless of selection order', () => {
+        const a = buildOrderModifiers(ceviche, { size: ['grande'], extras: ['chifles', 'canguil'] });
+        const b = [...a].reverse();
+        expect(modifiersKey(a)).toBe(modifiersKey(b));
+        expect(modifiersKey(a)).not.toBe(modifiersKey(buildOrderModifiers(ceviche, { size: ['normal'] })));
+        expect(modifiersKey(undefined)).toBe('');
+    });
+});
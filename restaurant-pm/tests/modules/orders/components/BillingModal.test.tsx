@@ -25,7 +25,10 @@ vi.mock('@/components/ui/Icons', () => ({
     PrinterIcon: () => <span />,
     CheckCircleIcon: () => <span />,
     ChevronDownIcon: () => <span />,
-    ClipboardListIcon: () => <span />
+    ClipboardListIcon: () => <span />,
+    PlusIcon: () => <span />,
+    MinusIcon: () => <span />,
+    TrashIcon: () => <span />
 }));
 
 const mockConfig: any = {
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { DiscountModal } from '@/modules/orders/components/DiscountModal';
+import { applyOrderDiscounts, canAuthorizeDiscounts } from '@/modules/orders/utils/discounts';
+import { orderService } from '@/modules/orders/services/OrderService';
+
+vi.mock('../../../../src/components/ui/Modal', () => ({
+    default: ({ children, isOpen, title }: any) => isOpen ? (
+        <div data-testid="modal">
+            <h1>{title}</h1>
+            {children}
+        </div>
+    ) : null
+}));
+
+vi.mock('../../../../src/modules/orders/services/OrderService', () => ({
+    orderService: { authorizeDiscount: vi.fn() }
+}));
+
+describe('DiscountModal', () => {
+    it('exige un motivo antes de aplicar el descuento', () => {
+        const onApply = vi.fn();
+        render(<DiscountModal target={{ title: 'Ceviche', gross: 23 }} onClose={vi.fn()} onApply={onApply} />);
+
+        fireEvent.change(screen.getByLabelText('Porcentaje'), { target: { value: '10' } });
+        const apply = screen.getByRole('button', { name: 'Aplicar descuento' }) as HTMLButtonElement;
+        expect(apply.disabled).toBe(true);
+        expect(screen.getByText('Indique el motivo del descuento')).toBeDefined();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Demora en cocina' }));
+        expect(screen.getByText('Descuenta $2.30 de $23.00')).toBeDefined();
+        fireEvent.click(apply);
+
+        expect(onApply).toHaveBeenCalledWith({ type: 'PERCENTAGE', value: 10, reason: 'Demora en cocina' });
+    });
+
+    it('permite quitar un descuento ya aplicado', () => {
+        const onApply = vi.fn();
+        render(
+            <DiscountModal
+                target={{ title: 'Todo el pedido', gross: 24, discount: { type: 'AMOUNT', value: 2, reason: 'Cliente frecuente' } }}
+                onClose={vi.fn()}
+                onApply={onApply}
+            />
+        );
+
+        expect((screen.getByLabelText('Monto con IVA') as HTMLInputElement).value).toBe('2');
+        fireEvent.click(screen.getByRole('button', { name: 'Quitar descuento' }));
+        expect(onApply).toHaveBeenCalledWith(null);
+    });
+});
+
+describe('DiscountModal - aprobación del gerente', () => {
+    const fillDiscount = () => {
+        fireEvent.change(screen.getByLabelText('Porcentaje'), { target: { value: '10' } });
+        fireEvent.click(screen.getByRole('button', { name: 'Cortesía de la casa' }));
+    };
+
+    it('pide la clave de un gerente y aplica el descuento con su aprobación', async () => {
+        vi.mocked(orderService.authorizeDiscount).mockResolvedValue({ authorizedBy: 'lucia', authorization: 'firma-lucia' });
+        const onApply = vi.fn();
+        render(<DiscountModal target={{ title: 'Ceviche', gross: 23 }} onClose={vi.fn()} onApply={onApply} requiresApproval />);
+
+        fillDiscount();
+        const apply = screen.getByRole('button', { name: 'Aplicar descuento' }) as HTMLButtonElement;
+        expect(apply.disabled).toBe(true);
+        expect(screen.getByText('Un gerente debe autorizar el descuento')).toBeDefined();
+
+        fireEvent.change(screen.getByLabelText('Gerente que autoriza'), { target: { value: ' lucia ' } });
+        fireEvent.change(screen.getByLabelText('Contraseña'), { target: { value: 'clave' } });
+        fireEvent.click(apply);
+
+        await waitFor(() => expect(onApply).toHaveBeenCalledWith(
+            { type: 'PERCENTAGE', value: 10, reason: 'Cortesía de la casa' }, 'firma-lucia'
+        ));
+        expect(orderService.authorizeDiscount).toHaveBeenCalledWith('lucia', 'clave');
+    });
+
+    it('muestra el rechazo del servidor y no aplica el descuento', async () => {
+        vi.mocked(orderService.authorizeDiscount).mockRejectedValue(new Error('Usuario o contraseña del gerente incorrectos'));
+        const onApply = vi.fn();
+        render(<DiscountModal target={{ title: 'Ceviche', gross: 23 }} onClose={vi.fn()} onApply={onApply} requiresApproval />);
+
+        fillDiscount();
+        fireEvent.change(screen.getByLabelText('Gerente que autoriza'), { target: { value: 'lucia' } });
+        fireEvent.change(screen.getByLabelText('Contraseña'), { target: { value: 'mala' } });
+        fireEvent.click(screen.getByRole('button', { name: 'Aplicar descuento' }));
+
+        expect(await screen.findByText('Usuario o contraseña del gerente incorrectos')).toBeDefined();
+        expect(onApply).not.toHaveBeenCalled();
+    });
+
+    it('el administrador y los roles con el permiso no necesitan aprobación', () => {
+        expect(canAuthorizeDiscounts({ id: '1', name: 'Administrador', permissions: {} })).toBe(true);
+        expect(canAuthorizeDiscounts({ id: '2', name: 'Gerente', permissions: { discounts: true } })).toBe(true);
+        expect(canAuthorizeDiscounts({ id: '3', name: 'Cajero', permissions: { billing: true } })).toBe(false);
+        expect(canAuthorizeDiscounts(null)).toBe(false);
+    });
+});
+
+describe('applyOrderDiscounts', () => {
+    it('reparte el descuento del pedido entre las líneas igual que el backend', () => {
+        const lines = applyOrderDiscounts([
+            { name: 'Ceviche', quantity: 2, price: 11.5, taxRate: 15, discount: { type: 'PERCENTAGE', value: 10, reason: 'Demora en cocina' } },
+            { name: 'Agua', quantity: 1, price: 1, taxRate: 0 }
+        ], { type: 'AMOUNT', value: 2, reason: 'Cliente frecuente' });
+
+        expect(lines.map(l => [l.grossTotal, l.total, l.discountAmount])).toEqual([[23, 18.79, 4.21], [1, 0.91, 0.09]]);
+
+        // Líneas de una factura guardada: el total ya viene descontado
+        const rebuilt = applyOrderDiscounts([{ name: 'Ceviche', quantity: 2, price: 11.5, total: 18.79, discountAmount: 4.21 }]);
+        expect(rebuilt[0]).toEqual(expect.objectContaining({ grossTotal: 23, total: 18.79, discountAmount: 4.21 }));
+    });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { OfflineOrderQueue, OrderTransport, QueueEvent, createMemoryStore, isLocalOrderId } from '@/modules/orders/services/offlineOrderQueue';
+import { keepUnsyncedOrders, replaceSyncedOrder } from '@/modules/orders/utils/offlineOrders';
+import { Order, OrderStatus } from '@/modules/orders/types/order.types';
+
+const networkDown = () => new TypeError('Failed to fetch');
+
+const serverOrder = (overrides: Partial<Order> = {}): Order => ({
+    id: 'srv-1',
+    orderNumber: '010',
+    customerName: 'Mesa 1',
+    type: 'En Local',
+    status: OrderStatus.New,
+    createdAt: '2026-03-10T12:00:00.000Z',
+    updatedAt: '2026-03-10T12:00:00.000Z',
+    items: [{ name: 'Ceviche', quantity: 1, price: 8, taxRate: 15 }],
+    ...overrides
+});
+
+describe('offlineOrderQueue', () => {
+    let online: boolean;
+    let transport: { create: ReturnType<typeof vi.fn>; update: ReturnType<typeof vi.fn> };
+    let queue: OfflineOrderQueue;
+    let events: QueueEvent[];
+
+    beforeEach(() => {
+        online = false;
+        let next = 1;
+        transport = {
+            create: vi.fn(async (data: Partial<Order>) => {
+                if (!online) throw networkDown();
+                return serverOrder({ ...data, id: `srv-new-${next}`, orderNumber: String(next++).padStart(3, '0') });
+            }),
+            update: vi.fn(async (id: string, data: Partial<Order>) => {
+                if (!online) throw networkDown();
+                return serverOrder({ ...data, id });
+            })
+        };
+        queue = new OfflineOrderQueue(createMemoryStore(), transport as unknown as OrderTransport);
+        events = [];
+        queue.subscribe(event => events.push(event));
+    });
+
+    it('keeps orders created offline and replays them in order with their client request id', async () => {
+        const first = await queue.create({ customerName: 'Mesa 3', type: 'En Local', items: [], status: OrderStatus.New });
+        const second = await queue.create({ customerName: 'Para llevar', type: 'Para Llevar', items: [], status: OrderStatus.New });
+
+        expect(isLocalOrderId(first.id)).toBe(true);
+        expect(first.syncState).toBe('pending');
+
+        // Editar un pedido aún no enviado corrige su alta pendiente
+        await queue.update(first.id, { customerName: 'Mesa 3B' });
+
+        online = true;
+        const result = await queue.flush();
+
+        expect(result).toEqual({ synced: 2, conflicts: 0, offline: false });
+        const sent = transport.create.mock.calls.slice(-2).map(([data]) => data);
+        expect(sent.map(d => d.customerName)).toEqual(['Mesa 3B', 'Para llevar']);
+        expect(sent[0].clientRequestId).toBe(first.id.replace('local-', ''));
+        expect(events.filter(e => e.type === 'synced').map(e => e.type === 'synced' && e.localId)).toEqual([first.id, second.id]);
+        expect(await queue.list()).toEqual([]);
+    });
+
+    it('marks a rejected edit as conflict and lets the cashier overwrite it', async () => {
+        const edited = await queue.update('srv-1', { customerName: 'Mesa 1 (ventana)' }, '2026-03-10T12:00:00.000Z');
+        expect(edited.syncState).toBe('pending');
+
+        online = true;
+        transport.update.mockRejectedValueOnce(new Error('El pedido #010 cambió en otro dispositivo mientras se editaba sin conexión'));
+        const result = await queue.flush();
+
+        expect(result.conflicts).toBe(1);
+        const [conflict] = await queue.list();
+        expect(conflict.status).toBe('conflict');
+
+        await queue.retry(conflict.id, { force: true });
+        expect(transport.update).toHaveBeenLastCalledWith('srv-1', expect.objectContaining({
+            customerName: 'Mesa 1 (ventana)', baseUpdatedAt: null, clientUpdateId: conflict.id
+        }));
+        expect(await queue.list()).toEqual([]);
+    });
+
+    it('stops replaying at the first network error', async () => {
+        await queue.create({ customerName: 'A', type: 'Delivery', items: [] });
+        await queue.create({ customerName: 'B', type: 'Delivery', items: [] });
+
+        const result = await queue.flush();
+
+        expect(result.offline).toBe(true);
+        expect(transport.create).toHaveBeenCalledTimes(3);
+        expect(await queue.list()).toHaveLength(2);
+    });
+
+    it('rethrows server rejections while online instead of queuing them', async () => {
+        online = true;
+        transport.create.mockRejectedValueOnce(new Error('La orden debe tener al menos un producto.'));
+
+        await expect(queue.create({ customerName: 'Vacío', items: [] })).rejects.toThrow('al menos un producto');
+        expect(await queue.list()).toEqual([]);
+    });
+});
+
+describe('offlineOrders', () => {
+    it('keeps unsynced orders when reloading from the server', () => {
+        const local = { ...serverOrder({ id: 'local-abc' }), syncState: 'pending' as const };
+        const editedOffline = { ...serverOrder({ customerName: 'Editado' }), syncState: 'pending' as const };
+
+        const merged = keepUnsyncedOrders([serverOrder()], [editedOffline, local]);
+
+        expect(merged.map(o => [o.id, o.customerName])).toEqual([['srv-1', 'Editado'], ['local-abc', 'Mesa 1']]);
+    });
+
+    it('replaces the local order without duplicating the one pushed by the socket', () => {
+        const local = { ...serverOrder({ id: 'local-abc' }), syncState: 'pending' as const };
+        const synced = serverOrder({ id: 'srv-9' });
+
+        expect(replaceSyncedOrder([local, synced], 'local-abc', synced)).toEqual([synced]);
+        expect(replaceSyncedOrder([], 'local-abc', synced)).toEqual([synced]);
+    });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { OrderStatus } from '@/modules/orders/types/order.types';
+import {
+    canBillOrder,
+    describeStatusHistory,
+    isActiveOrder,
+    isClosedOrder,
+    nextOrderStatus
+} from '@/modules/orders/utils/orderStatus';
+
+describe('order lifecycle', () => {
+    it('walks the status cycle until only billing is left', () => {
+        expect(nextOrderStatus(OrderStatus.New)).toBe(OrderStatus.InPreparation);
+        expect(nextOrderStatus(OrderStatus.InPreparation)).toBe(OrderStatus.Ready);
+        expect(nextOrderStatus(OrderStatus.Ready)).toBe(OrderStatus.Delivered);
+        expect(nextOrderStatus(OrderStatus.Delivered)).toBeNull();
+        expect(canBillOrder({ status: OrderStatus.Delivered })).toBe(true);
+        expect(canBillOrder({ status: OrderStatus.InPreparation })).toBe(false);
+    });
+
+    it('treats cancelled orders as closed history', () => {
+        expect(isActiveOrder({ status: OrderStatus.Cancelled })).toBe(false);
+        expect(isClosedOrder({ status: OrderStatus.Cancelled })).toBe(true);
+        expect(isActiveOrder({ status: OrderStatus.Delivered })).toBe(true);
+    });
+
+    it('adds the minutes spent in each status', () => {
+        const history = describeStatusHistory([
+            { status: OrderStatus.New, at: '2026-03-01T15:00:00Z', by: 'ana' },
+            { status: OrderStatus.InPreparation, at: '2026-03-01T15:04:00Z', by: 'cocina' },
+            { status: OrderStatus.Ready, at: '2026-03-01T15:22:30Z' }
+        ]);
+
+        expect(history.map(h => h.minutes)).toEqual([4, 19, null]);
+        expect(history[0].by).toBe('ana');
+    });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+    createAllocation,
+    assignWholeItem,
+    changeAllocatedQuantity,
+    getSplitIssues,
+    buildPlanFromAllocation,
+    buildEvenPlan,
+    distributeCents,
+    getFirstPendingPart
+} from '@/modules/orders/utils/splitBill';
+import { OrderItem } from '@/modules/orders/types/order.types';
+
+const items: OrderItem[] = [
+    { name: 'Ceviche', quantity: 2, price: 10, taxRate: 15 },
+    { name: 'Cola', quantity: 3, price: 1.5, taxRate: 15 }
+];
+
+describe('splitBill', () => {
+    it('distributes cents so the parts add up to the exact total', () => {
+        expect(distributeCents(1000, [1, 1, 1])).toEqual([334, 333, 333]);
+        expect(distributeCents(450, [2, 0, 1])).toEqual([300, 0, 150]);
+    });
+
+    it('builds a plan by item and by quantity from the allocation', () => {
+        let allocation = createAllocation(items, 2);
+        allocation = assignWholeItem(items, allocation, 0, 0);
+        expect(getSplitIssues(items, allocation)).toEqual(['Cola: 3 sin asignar', 'La parte 2 está vacía']);
+
+        allocation = changeAllocatedQuantity(items, allocation, 1, 1, 2);
+        allocation = changeAllocatedQuantity(items, allocation, 1, 0, 5);
+        expect(allocation[1]).toEqual([1, 2]);
+        expect(getSplitIssues(items, allocation)).toEqual([]);
+
+        const plan = buildPlanFromAllocation(items, allocation, 'quantity');
+        expect(plan.parts.map(p => p.total)).toEqual([21.5, 3]);
+    });
+
+    it('splits evenly with fractional quantities and keeps the order total', () => {
+        const plan = buildEvenPlan(items, 3);
+        const total = plan.parts.reduce((s, p) => s + p.total, 0);
+
+        expect(plan.parts.map(p => p.total)).toEqual([8.17, 8.17, 8.16]);
+        expect(total).toBeCloseTo(24.5, 2);
+        expect(plan.parts[0].items[0].quantity).toBe(0.666667);
+    });
+
+    it('returns the first part still waiting for its invoice', () => {
+        const plan = buildEvenPlan(items, 2);
+        plan.parts[0].billId = 'bill-1';
+
+        expect(getFirstPendingPart(plan)).toBe(2);
+        expect(getFirstPendingPart(null)).toBeNull();
+    });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import PrintLayoutPanel from '@/modules/settings/components/sections/PrintLayoutPanel';
+import { DEFAULT_PRINT_LAYOUT } from '@/modules/billing/utils/printLayout';
+
+const issuer = {
+    businessName: 'Picantería Miraflores S.A.',
+    ruc: '1790012345001',
+    address: 'Av. Eugenio Espejo',
+    establishment: '001',
+    emissionPoint: '002'
+};
+
+describe('PrintLayoutPanel', () => {
+    it('sin plantilla guardada muestra el RIDE A4 con QR', () => {
+        render(<PrintLayoutPanel issuer={issuer} onChange={vi.fn()} />);
+
+        expect(screen.getByTestId('ride-preview').style.width).toBe('360px');
+        expect(screen.getByTestId('ride-preview-qr')).toBeDefined();
+        expect(screen.getByText('001-002-000000070')).toBeDefined();
+        expect(screen.getByRole('button', { name: '58 mm' })).toHaveProperty('disabled', true);
+    });
+
+    it('previsualiza el ticket de 58 mm con el pie propio y sin QR', () => {
+        const layout = { ...DEFAULT_PRINT_LAYOUT, format: 'ticket' as const, ticketWidth: 58 as const, showQr: false, footerText: 'Wifi: miraflores2026\n\n@picanteria' };
+        render(<PrintLayoutPanel layout={layout} issuer={issuer} onChange={vi.fn()} />);
+
+        expect(screen.getByTestId('ride-preview').style.width).toBe('220px');
+        expect(screen.queryByTestId('ride-preview-qr')).toBeNull();
+        expect(screen.getAllByTestId('ride-preview-footer').map(line => line.textContent)).toEqual(['Wifi: miraflores2026', '@picanteria']);
+        expect(screen.getByText('2/6 líneas')).toBeDefined();
+    });
+
+    it('avisa cada cambio con la plantilla completa', () => {
+        const onChange = vi.fn();
+        render(<PrintLayoutPanel layout={{ format: 'ticket' }} issuer={issuer} onChange={onChange} />);
+
+        fireEvent.click(screen.getByRole('button', { name: '58 mm' }));
+        expect(onChange).toHaveBeenCalledWith({ ...DEFAULT_PRINT_LAYOUT, format: 'ticket', ticketWidth: 58 });
+
+        fireEvent.click(screen.getByLabelText('Logo'));
+        expect(onChange).toHaveBeenLastCalledWith({ ...DEFAULT_PRINT_LAYOUT, format: 'ticket', showLogo: false });
+    });
+});
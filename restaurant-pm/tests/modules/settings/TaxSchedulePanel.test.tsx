@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import TaxSchedulePanel from '@/modules/settings/components/sections/TaxSchedulePanel';
+import { withPreviewRates } from '@/modules/billing/utils/taxRates';
+import { chargeWithTip } from '@/modules/billing/utils/tips';
+import { billingService } from '../../../src/modules/billing/services/BillingService';
+
+vi.mock('../../../src/modules/billing/services/BillingService', () => ({
+    billingService: {
+        getMenuRepricing: vi.fn(),
+        applyMenuRepricing: vi.fn(),
+        previewTaxRates: vi.fn()
+    }
+}));
+
+vi.mock('../../../src/components/ui/AlertProvider', () => ({
+    toast: { success: vi.fn(), error: vi.fn() }
+}));
+
+const schedule = [
+    { rate: 12, code: '2', effectiveFrom: '2000-01-01' },
+    { rate: 15, code: '4', effectiveFrom: '2024-04-01' },
+    { rate: 13, code: '10', effectiveFrom: '2099-01-01' }
+];
+
+// Lo que responde el backend hoy: 15% vigente, los platos al 12% pasan a 15%
+const taxPreview = { period: schedule[1], taxRates: { '12': 15, '15': 15, '0': 0 } };
+
+describe('TaxSchedulePanel', () => {
+    beforeEach(() => {
+        vi.mocked(billingService.previewTaxRates).mockResolvedValue(taxPreview);
+    });
+
+    it('arma el primer tramo con la tarifa actual al programar un cambio', () => {
+        const onChange = vi.fn();
+        render(<TaxSchedulePanel schedule={[]} taxRate={15} onChange={onChange} />);
+
+        fireEvent.click(screen.getByRole('button', { name: /Agregar tramo/ }));
+
+        expect(onChange).toHaveBeenCalledWith([
+            { rate: 15, code: '4', effectiveFrom: '2000-01-01' },
+            { rate: 15, code: '4', effectiveFrom: expect.stringMatching(/^\d{4}-\d{2}-\d{2}$/) }
+        ]);
+    });
+
+    it('muestra el re-precio del menú y lo aplica manteniendo la base', async () => {
+        vi.mocked(billingService.getMenuRepricing).mockResolvedValue({
+            period: schedule[2],
+            currentPeriod: schedule[1],
+            unchangedCount: 1,
+            items: [{ id: 'm1', name: 'Encebollado', category: 'Sopas', price: 5.75, taxRate: 15, newTaxRate: 13, newPrice: 5.65, baseIfPriceKept: 5.09 }]
+        });
+        vi.mocked(billingService.applyMenuRepricing).mockResolvedValue({ mode: 'KEEP_BASE', updated: [{ id: 'm1', name: 'Encebollado', taxRate: 13, price: 5.65 }] });
+
+        render(<TaxSchedulePanel schedule={schedule} taxRate={15} onChange={vi.fn()} />);
+        expect(await screen.findByText('Vigente')).toBeDefined();
+        expect(billingService.previewTaxRates).toHaveBeenCalledWith([]);
+        expect(screen.getByText('Programada')).toBeDefined();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Ver precios del menú con el próximo IVA' }));
+        await waitFor(() => expect(screen.getAllByTestId('repricing-line')).toHaveLength(1));
+        expect(screen.getByText('$5.65')).toBeDefined();
+
+        fireEvent.click(screen.getByRole('button', { name: 'Aplicar y mantener la base' }));
+        await waitFor(() => expect(billingService.applyMenuRepricing).toHaveBeenCalledWith('2099-01-01', 'KEEP_BASE'));
+    });
+});
+
+describe('withPreviewRates', () => {
+    it('cobra con la tarifa que devuelve el backend y deja el 0% como está', () => {
+        expect(withPreviewRates([{ taxRate: 12 }, { taxRate: 0 }, {}], taxPreview)).toEqual([{ taxRate: 15 }, { taxRate: 0 }, {}]);
+        expect(withPreviewRates([{ taxRate: 12 }], null)).toEqual([{ taxRate: 12 }]);
+
+        // La base de la propina usa la tarifa vigente, igual que la factura
+        expect(chargeWithTip(withPreviewRates([{ total: 11.5, taxRate: 12 }], taxPreview), { type: 'SERVICE_CHARGE', value: 10 }).tip).toBe(1);
+    });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { getTableOccupancy, clampPosition, FLOOR_COLS, FLOOR_ROWS } from '@/modules/tables/utils/tableStatus';
+import { Table } from '@/modules/tables/types/table.types';
+import { Order, OrderStatus } from '@/modules/orders/types/order.types';
+
+const table = (id: string, name: string): Table => ({
+    id, name, zone: 'Salón', seats: 4, shape: 'square', position: { x: 0, y: 0 }, active: true
+});
+
+const order = (id: string, tableId: string | null, status: OrderStatus, createdAt: string): Order => ({
+    id, customerName: 'MESA', type: 'En Local', status, items: [], createdAt, tableId
+});
+
+describe('tableStatus', () => {
+    const now = new Date('2026-01-01T12:30:00Z').getTime();
+
+    it('marks tables as libre, ocupada or lista from open orders', () => {
+        const tables = [table('t1', 'Mesa 1'), table('t2', 'Mesa 2'), table('t3', 'Mesa 3')];
+        const orders = [
+            order('o1', 't1', OrderStatus.New, '2026-01-01T12:00:00Z'),
+            order('o2', 't2', OrderStatus.Ready, '2026-01-01T12:20:00Z'),
+            order('o3', 't3', OrderStatus.Completed, '2026-01-01T11:00:00Z')
+        ];
+
+        const result = getTableOccupancy(tables, orders, now);
+
+        expect(result.map(r => r.status)).toEqual(['ocupada', 'lista', 'libre']);
+        expect(result[0].elapsedMinutes).toBe(30);
+        expect(result[2].order).toBeNull();
+    });
+
+    it('shows the oldest open order when a table has several', () => {
+        const orders = [
+            order('late', 't1', OrderStatus.New, '2026-01-01T12:25:00Z'),
+            order('early', 't1', OrderStatus.New, '2026-01-01T12:05:00Z')
+        ];
+
+        const [result] = getTableOccupancy([table('t1', 'Mesa 1')], orders, now);
+
+        expect(result.order?.id).toBe('early');
+    });
+
+    it('keeps tables inside the floor grid', () => {
+        expect(clampPosition(-3, 2.6, 'square')).toEqual({ x: 0, y: 3 });
+        expect(clampPosition(99, 99, 'rectangle')).toEqual({ x: FLOOR_COLS - 3, y: FLOOR_ROWS - 2 });
+    });
+});
@@ -0,0 +1,94 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BrowserRouter } from 'react-router-dom';
+import InvoicePortal from '@/modules/website/components/InvoicePortal';
+
+vi.mock('../../../src/api', () => ({
+    api: {
+        invoicePortal: {
+            lookup: vi.fn(),
+            requestCode: vi.fn(),
+            verifyCode: vi.fn(),
+            download: vi.fn()
+        }
+    }
+}));
+
+vi.mock('../../../src/contexts/RestaurantConfigContext', () => ({
+    useRestaurantConfig: () => ({
+        config: {
+            name: 'Test Restaurant',
+            logo: null
+        }
+    })
+}));
+
+import { api } from '../../../src/api';
+
+const session = {
+    token: 'tok',
+    expiresAt: '2026-10-19T15:15:00.000Z',
+    invoices: [{ id: 'b1', documentNumber: '001-001-000000123', date: '2026-10-19', customerName: 'Ana Pérez', total: 23.5, accessKey: '1'.repeat(49) }]
+};
+
+const renderComponent = () => render(
+    <BrowserRouter>
+        <InvoicePortal />
+    </BrowserRouter>
+);
+
+describe('InvoicePortal', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('busca la factura con cédula y número y descarga el PDF con el token de la sesión', async () => {
+        (api.invoicePortal.lookup as any).mockResolvedValue(session);
+        (api.invoicePortal.download as any).mockResolvedValue(new Blob(['%PDF']));
+        window.URL.createObjectURL = vi.fn(() => 'blob:factura');
+        window.URL.revokeObjectURL = vi.fn();
+        const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+        renderComponent();
+        fireEvent.change(screen.getByPlaceholderText('Cédula o RUC'), { target: { value: '1712345678' } });
+        fireEvent.change(screen.getByPlaceholderText(/Clave de acceso o número/), { target: { value: '001-001-123' } });
+        fireEvent.click(screen.getByRole('button', { name: 'Buscar factura' }));
+
+        await waitFor(() => {
+            expect(screen.getByText('001-001-000000123')).toBeDefined();
+        });
+        expect(api.invoicePortal.lookup).toHaveBeenCalledWith('1712345678', '001-001-123');
+
+        fireEvent.click(screen.getByRole('button', { name: 'Descargar PDF' }));
+        await waitFor(() => {
+            expect(api.invoicePortal.download).toHaveBeenCalledWith('b1', 'pdf', 'tok');
+        });
+        await waitFor(() => {
+            expect(click).toHaveBeenCalled();
+        });
+        click.mockRestore();
+    });
+
+    it('pide un código por email y lo canjea por las facturas del cliente', async () => {
+        (api.invoicePortal.requestCode as any).mockResolvedValue({ message: 'Si los datos coinciden con nuestras facturas, recibirás un código en tu email' });
+        (api.invoicePortal.verifyCode as any).mockRejectedValueOnce(new Error('Código incorrecto o expirado. Solicite uno nuevo.')).mockResolvedValue(session);
+
+        renderComponent();
+        fireEvent.click(screen.getByRole('button', { name: 'Código por email' }));
+        fireEvent.change(screen.getByPlaceholderText('Cédula o RUC'), { target: { value: '1712345678' } });
+        fireEvent.change(screen.getByPlaceholderText(/Email con el que/), { target: { value: 'ana@correo.ec' } });
+        fireEvent.click(screen.getByRole('button', { name: 'Enviar código' }));
+
+        const codeInput = await screen.findByPlaceholderText('Código de 6 dígitos');
+        expect(api.invoicePortal.requestCode).toHaveBeenCalledWith('1712345678', 'ana@correo.ec');
+
+        fireEvent.change(codeInput, { target: { value: '000000' } });
+        fireEvent.click(screen.getByRole('button', { name: 'Ver mis facturas' }));
+        expect(await screen.findByText('Código incorrecto o expirado. Solicite uno nuevo.')).toBeDefined();
+
+        fireEvent.change(codeInput, { target: { value: '123456' } });
+        fireEvent.click(screen.getByRole('button', { name: 'Ver mis facturas' }));
+        expect(await screen.findByText('001-001-000000123')).toBeDefined();
+        expect(api.invoicePortal.verifyCode).toHaveBeenLastCalledWith('1712345678', '123456');
+    });
+});